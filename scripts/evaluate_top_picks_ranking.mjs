@@ -0,0 +1,115 @@
+#!/usr/bin/env node
+
+/**
+ * Offline evaluation of learned Top Picks weights.
+ *
+ * Replays members' wink/like/reject history and post-meeting answers and
+ * reports precision@k for the default weights vs each member's learned
+ * weights. Read-only.
+ *
+ * Usage:
+ *   npm run eval:top-picks -- [--k=5] [--users=200] [--train=0.7] [--details]
+ */
+
+import { createClient } from "@supabase/supabase-js";
+import nextEnv from "@next/env";
+import { resolveGeoPoint } from "@/lib/geo/geocode";
+import { loadPreferenceFeedback } from "@/lib/matching/preference-model";
+import { replayRankingEvaluation } from "@/lib/matching/ranking-evaluation";
+
+const { loadEnvConfig } = nextEnv;
+loadEnvConfig(process.cwd(), true);
+
+function getMissingEnv(keys) {
+  return keys.filter((key) => !process.env[key] || process.env[key].trim() === "");
+}
+
+function readArg(name, fallback) {
+  const match = process.argv.find((arg) => arg.startsWith(`--${name}=`));
+  if (!match) return fallback;
+  const value = Number(match.split("=")[1]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+async function loadActiveUserIds(supabase, maxUsers) {
+  // Most recent activity first; the page size bounds how far back we look.
+  const { data, error } = await supabase
+    .from("user_activities")
+    .select("user_id")
+    .in("activity_type", ["wink", "like", "interested", "rejected"])
+    .order("created_at", { ascending: false })
+    .limit(maxUsers * 50);
+
+  if (error) throw error;
+
+  return Array.from(new Set((data || []).map((row) => row.user_id))).slice(0, maxUsers);
+}
+
+async function loadReplayUser(supabase, userId) {
+  const [{ data: prefs }, { data: profile }, feedback] = await Promise.all([
+    supabase.from("user_preferences").select("*").eq("user_id", userId).maybeSingle(),
+    supabase
+      .from("user_profiles")
+      .select("location, latitude, longitude")
+      .eq("user_id", userId)
+      .maybeSingle(),
+    loadPreferenceFeedback(supabase, userId),
+  ]);
+
+  return {
+    userId,
+    prefs: prefs || null,
+    origin: profile ? resolveGeoPoint(profile) : null,
+    feedback,
+  };
+}
+
+async function run() {
+  const missing = getMissingEnv(["NEXT_PUBLIC_SUPABASE_URL", "SUPABASE_SERVICE_ROLE_KEY"]);
+  if (missing.length > 0) {
+    console.error(`Missing env: ${missing.join(", ")}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const k = readArg("k", 5);
+  const maxUsers = readArg("users", 200);
+  const trainFraction = Math.min(readArg("train", 0.7), 0.95);
+
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL,
+    process.env.SUPABASE_SERVICE_ROLE_KEY
+  );
+
+  const userIds = await loadActiveUserIds(supabase, maxUsers);
+  const users = [];
+  for (const userId of userIds) {
+    users.push(await loadReplayUser(supabase, userId));
+  }
+
+  const report = replayRankingEvaluation(users, { k, trainFraction });
+  const summary = {
+    k: report.k,
+    trainFraction,
+    usersLoaded: users.length,
+    usersEvaluated: report.usersEvaluated,
+    usersSkipped: report.usersSkipped,
+    baselinePrecisionAtK: report.baselinePrecisionAtK,
+    learnedPrecisionAtK: report.learnedPrecisionAtK,
+    lift: Math.round((report.learnedPrecisionAtK - report.baselinePrecisionAtK) * 1000) / 1000,
+    timestamp: new Date().toISOString(),
+  };
+
+  console.log(
+    JSON.stringify(
+      process.argv.includes("--details") ? { summary, users: report.users } : { summary },
+      null,
+      2
+    )
+  );
+}
+
+run().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -10,6 +10,7 @@
  * - Meetings funnel (pending → confirmed → completed)
  * - User tier distribution donut
  * - Revenue overview
+ * - Promo code redemptions and discounts
  * - Profile completion rate
  */
 
@@ -34,6 +35,7 @@ import {
   ArrowDownRight,
   Activity,
   PieChart,
+  Ticket,
 } from "lucide-react";
 
 // ---------------------------------------------------------------
@@ -72,6 +74,13 @@ type AnalyticsData = {
     total: number;
     this_month: number;
   };
+  promotions: {
+    redemptions: number;
+    redemptions_this_month: number;
+    discount_by_currency: Record<string, number>;
+    revenue_by_currency: Record<string, number>;
+    top_codes: { code: string; redemptions: number; discount_by_currency: Record<string, number> }[];
+  };
   notifications: {
     total: number;
     push: {
@@ -92,6 +101,15 @@ type AnalyticsData = {
   generated_at: string;
 };
 
+function formatCurrencyTotals(totals: Record<string, number>) {
+  const entries = Object.entries(totals);
+  return entries.length === 0
+    ? "—"
+    : entries
+        .map(([currency, cents]) => `${currency.toUpperCase()} ${(cents / 100).toLocaleString()}`)
+        .join(", ");
+}
+
 // ---------------------------------------------------------------
 // Mini SVG Bar Chart Component
 // ---------------------------------------------------------------
@@ -664,6 +682,49 @@ export default function AdminAnalyticsPage() {
         </div>
       </div>
 
+      {/* Promotions */}
+      <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-100">
+        <h2 className="text-sm font-semibold text-gray-900 mb-4 flex items-center gap-2">
+          <Ticket className="h-4 w-4 text-emerald-500" />
+          Promo Codes
+        </h2>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="rounded-xl bg-emerald-50 border border-emerald-100 p-4">
+            <p className="text-xs text-emerald-700">Redemptions</p>
+            <p className="text-2xl font-bold text-emerald-800 mt-1">
+              {data.promotions.redemptions.toLocaleString()}
+            </p>
+            <p className="text-xs text-emerald-600 mt-1">
+              {data.promotions.redemptions_this_month.toLocaleString()} this month
+            </p>
+          </div>
+          <div className="rounded-xl bg-amber-50 border border-amber-100 p-4">
+            <p className="text-xs text-amber-700">Discount Given</p>
+            <p className="text-sm font-semibold text-amber-800 mt-2">
+              {formatCurrencyTotals(data.promotions.discount_by_currency)}
+            </p>
+            <p className="text-xs text-amber-600 mt-1">
+              Collected: {formatCurrencyTotals(data.promotions.revenue_by_currency)}
+            </p>
+          </div>
+          <div className="rounded-xl bg-slate-50 border border-slate-200 p-4">
+            <p className="text-xs text-slate-700 mb-2">Top Codes</p>
+            {data.promotions.top_codes.length > 0 ? (
+              <ul className="space-y-1">
+                {data.promotions.top_codes.map((promo) => (
+                  <li key={promo.code} className="flex justify-between text-sm">
+                    <span className="font-mono text-slate-800">{promo.code}</span>
+                    <span className="text-slate-600">{promo.redemptions}</span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-400">No redemptions yet</p>
+            )}
+          </div>
+        </div>
+      </div>
+
       {/* Push Delivery Summary */}
       <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-100 space-y-5">
         <div className="flex items-start justify-between gap-4">
@@ -35,6 +35,10 @@ import {
   RotateCcw,
   Gauge,
   KeyRound,
+  Scale,
+  Gift,
+  Ticket,
+  Banknote,
 } from "lucide-react";
 
 type NextLinkProps = ComponentProps<typeof NextLink>;
@@ -120,10 +124,10 @@ export default function AdminSidebar({
     },
     {
       href: adminPath("/moderation"),
-      label: "Photo Moderation",
+      label: "Moderation",
       icon: <ImageIcon className="h-5 w-5" />,
       roles: ["admin", "superadmin"],
-      anyPermissions: ["moderate_photos"],
+      anyPermissions: ["moderate_photos", "resolve_reports"],
       section: "safety",
     },
     {
@@ -174,6 +178,30 @@ export default function AdminSidebar({
       anyPermissions: ["view_wallet", "manage_wallet"],
       section: "operations",
     },
+    {
+      href: adminPath("/payment-reconciliation"),
+      label: "Payment Reconciliation",
+      icon: <Scale className="h-5 w-5" />,
+      roles: ["admin", "superadmin"],
+      anyPermissions: ["view_wallet", "manage_wallet"],
+      section: "operations",
+    },
+    {
+      href: adminPath("/gifts"),
+      label: "Gifts",
+      icon: <Gift className="h-5 w-5" />,
+      roles: ["admin", "superadmin"],
+      anyPermissions: ["view_wallet", "manage_wallet"],
+      section: "operations",
+    },
+    {
+      href: adminPath("/host-payouts"),
+      label: "Host Payouts",
+      icon: <Banknote className="h-5 w-5" />,
+      roles: ["admin", "superadmin"],
+      anyPermissions: ["view_wallet", "manage_wallet"],
+      section: "operations",
+    },
     {
       href: adminPath("/reactivation"),
       label: "Profile Reactivation",
@@ -206,6 +234,14 @@ export default function AdminSidebar({
       anyPermissions: ["manage_pricing"],
       section: "configuration",
     },
+    {
+      href: adminPath("/promo-codes"),
+      label: "Promo Codes",
+      icon: <Ticket className="h-5 w-5" />,
+      roles: ["admin", "superadmin"],
+      anyPermissions: ["manage_pricing"],
+      section: "configuration",
+    },
     {
       href: adminPath("/analytics"),
       label: "Analytics",
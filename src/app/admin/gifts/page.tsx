@@ -0,0 +1,271 @@
+"use client";
+
+/**
+ * AdminGiftsPage - Gifted Plans and Credits
+ *
+ * Features:
+ * - List gifts with buyer, recipient, amount and status
+ * - Filter by status
+ * - Revoke a gift; a redeemed gift is taken back from the recipient
+ */
+
+import { useEffect, useState } from "react";
+import { useToast } from "@/components/ToastProvider";
+import { supabase } from "@/lib/supabase";
+import { Gift, Loader2, RefreshCw } from "lucide-react";
+
+type GiftStatus = "pending_payment" | "paid" | "redeemed" | "revoked";
+
+type AccountSummary = {
+  email: string | null;
+  display_name: string | null;
+} | null;
+
+type AdminGift = {
+  id: string;
+  code: string;
+  description: string;
+  recipient_email: string | null;
+  amount_cents: number;
+  currency: string;
+  provider: string;
+  delivery: "direct" | "code";
+  status: GiftStatus;
+  paid_at: string | null;
+  redeemed_at: string | null;
+  revoke_reason: string | null;
+  created_at: string;
+  buyer: AccountSummary;
+  recipient: AccountSummary;
+};
+
+const STATUS_LABELS: Record<GiftStatus, string> = {
+  pending_payment: "Awaiting payment",
+  paid: "Paid",
+  redeemed: "Redeemed",
+  revoked: "Revoked",
+};
+
+const STATUS_STYLES: Record<GiftStatus, string> = {
+  pending_payment: "bg-gray-100 text-gray-600",
+  paid: "bg-amber-50 text-amber-700",
+  redeemed: "bg-green-50 text-green-700",
+  revoked: "bg-red-50 text-red-700",
+};
+
+function formatAmount(cents: number, currency: string) {
+  return `${currency.toUpperCase()} ${(cents / 100).toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+}
+
+function accountLabel(account: AccountSummary, fallback: string | null) {
+  return account?.display_name || account?.email || fallback || "—";
+}
+
+async function getAccessToken() {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  return session?.access_token || null;
+}
+
+export default function AdminGiftsPage() {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<GiftStatus | "">("");
+  const [loading, setLoading] = useState(true);
+  const [gifts, setGifts] = useState<AdminGift[]>([]);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  /**
+   * Fetch gifts, optionally filtered by status
+   */
+  const fetchGifts = async (filter: GiftStatus | "" = status) => {
+    setLoading(true);
+    try {
+      const token = await getAccessToken();
+      if (!token) {
+        toast.error("Please log in again.");
+        return;
+      }
+
+      const query = filter ? `?status=${filter}` : "";
+      const response = await fetch(`/api/admin/gifts${query}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const payload = await response.json();
+      if (!response.ok) {
+        throw new Error(payload?.error || "Failed to load gifts");
+      }
+
+      setGifts(payload.gifts || []);
+    } catch (error) {
+      console.error("[Admin Gifts] Fetch error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to load gifts");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchGifts("");
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  /**
+   * Revoke a gift after confirmation
+   */
+  const handleRevoke = async (gift: AdminGift) => {
+    const reason = prompt(
+      gift.status === "redeemed"
+        ? `Revoke ${gift.description}? It will be taken back from the recipient. Reason:`
+        : `Revoke ${gift.description}? The code will stop working. Reason:`
+    );
+    if (reason === null) return;
+
+    try {
+      setRevokingId(gift.id);
+      const token = await getAccessToken();
+      if (!token) {
+        toast.error("Please log in again.");
+        return;
+      }
+
+      const response = await fetch("/api/admin/gifts", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${token}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ gift_id: gift.id, reason }),
+      });
+      const payload = await response.json();
+      if (!response.ok) {
+        throw new Error(payload?.message || payload?.error || "Failed to revoke gift");
+      }
+
+      toast.success(
+        payload.plan_withdrawn
+          ? "Gift revoked and the gifted plan withdrawn"
+          : payload.credits_removed > 0
+            ? `Gift revoked; ${payload.credits_removed} credits removed`
+            : "Gift revoked"
+      );
+      await fetchGifts();
+    } catch (error) {
+      console.error("[Admin Gifts] Revoke error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to revoke gift");
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  return (
+    <div className="p-6 lg:p-8">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Gifts</h1>
+          <p className="text-gray-500">Plans and credits members have bought for each other</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <select
+            value={status}
+            onChange={(e) => {
+              const next = e.target.value as GiftStatus | "";
+              setStatus(next);
+              fetchGifts(next);
+            }}
+            className="px-3 py-2 rounded-lg border border-gray-200 outline-none"
+          >
+            <option value="">All statuses</option>
+            {(Object.keys(STATUS_LABELS) as GiftStatus[]).map((value) => (
+              <option key={value} value={value}>
+                {STATUS_LABELS[value]}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => fetchGifts()}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg border border-gray-200 text-gray-700 hover:bg-gray-50"
+          >
+            <RefreshCw className="h-4 w-4" />
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {/* Gifts */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-[#1f419a]" />
+          </div>
+        ) : gifts.length === 0 ? (
+          <div className="text-center py-12">
+            <Gift className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-500">No gifts found</p>
+          </div>
+        ) : (
+          <div className="max-h-[70vh] overflow-auto">
+            <table className="w-full min-w-[960px]">
+              <thead className="sticky top-0 z-10 bg-gray-50 border-b border-gray-100 shadow-sm">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Gift</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Buyer</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Recipient</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Paid</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {gifts.map((gift) => (
+                  <tr key={gift.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4">
+                      <p className="text-sm font-medium text-gray-900">{gift.description}</p>
+                      <p className="text-xs font-mono text-gray-500">{gift.code}</p>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-700">
+                      {accountLabel(gift.buyer, null)}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-700">
+                      {accountLabel(gift.recipient, gift.recipient_email)}
+                      <p className="text-xs text-gray-500">
+                        {gift.delivery === "direct" ? "Delivered directly" : "Code"}
+                      </p>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-700">
+                      {formatAmount(gift.amount_cents, gift.currency)}
+                      <p className="text-xs text-gray-500 capitalize">{gift.provider}</p>
+                    </td>
+                    <td className="px-6 py-4">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[gift.status]}`}>
+                        {STATUS_LABELS[gift.status]}
+                      </span>
+                      {gift.revoke_reason && (
+                        <p className="mt-1 text-xs text-gray-500">{gift.revoke_reason}</p>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-right">
+                      {gift.status !== "revoked" && (
+                        <button
+                          onClick={() => handleRevoke(gift)}
+                          disabled={revokingId === gift.id}
+                          className="px-3 py-1.5 rounded-lg border border-red-200 text-red-700 text-sm hover:bg-red-50 disabled:opacity-50"
+                        >
+                          Revoke
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
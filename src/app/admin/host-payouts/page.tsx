@@ -0,0 +1,385 @@
+"use client";
+
+/**
+ * AdminHostPayoutsPage - Host Payout Batches
+ *
+ * Features:
+ * - Show host earnings waiting for the next payout
+ * - Create a draft batch from earnings recorded before a cutoff
+ * - Approve or cancel a draft batch
+ * - Mark each payout in an approved batch as paid or failed
+ */
+
+import { useEffect, useState } from "react";
+import { useToast } from "@/components/ToastProvider";
+import { supabase } from "@/lib/supabase";
+import { Banknote, Loader2, Plus, RefreshCw } from "lucide-react";
+
+type BatchStatus = "draft" | "approved" | "completed" | "canceled";
+type PayoutStatus = "pending" | "paid" | "failed" | "canceled";
+
+type AdminPayout = {
+  id: string;
+  host_id: string;
+  amount_cents: number;
+  currency: string;
+  earning_count: number;
+  status: PayoutStatus;
+  reference: string | null;
+  failure_reason: string | null;
+  settled_at: string | null;
+  host: {
+    host_type: string;
+    email: string | null;
+    display_name: string | null;
+  } | null;
+};
+
+type AdminBatch = {
+  id: string;
+  status: BatchStatus;
+  earned_before: string;
+  notes: string | null;
+  approved_at: string | null;
+  completed_at: string | null;
+  created_at: string;
+  payouts: AdminPayout[];
+};
+
+type Waiting = {
+  earnings: number;
+  amount_by_currency: Record<string, number>;
+  held_by_currency: Record<string, number>;
+};
+
+const BATCH_STATUS_STYLES: Record<BatchStatus, string> = {
+  draft: "bg-gray-100 text-gray-600",
+  approved: "bg-amber-50 text-amber-700",
+  completed: "bg-green-50 text-green-700",
+  canceled: "bg-red-50 text-red-700",
+};
+
+const PAYOUT_STATUS_STYLES: Record<PayoutStatus, string> = {
+  pending: "bg-amber-50 text-amber-700",
+  paid: "bg-green-50 text-green-700",
+  failed: "bg-red-50 text-red-700",
+  canceled: "bg-gray-100 text-gray-600",
+};
+
+function formatAmount(cents: number, currency: string) {
+  return `${currency.toUpperCase()} ${(cents / 100).toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+}
+
+function formatTotals(totals: Record<string, number>) {
+  const entries = Object.entries(totals);
+  return entries.length === 0
+    ? "—"
+    : entries.map(([currency, cents]) => formatAmount(cents, currency)).join(", ");
+}
+
+async function getAccessToken() {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  return session?.access_token || null;
+}
+
+export default function AdminHostPayoutsPage() {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [batches, setBatches] = useState<AdminBatch[]>([]);
+  const [waiting, setWaiting] = useState<Waiting | null>(null);
+  const [earnedBefore, setEarnedBefore] = useState("");
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  /**
+   * Fetch recent batches and the earnings waiting for a payout
+   */
+  const fetchPayouts = async () => {
+    setLoading(true);
+    try {
+      const token = await getAccessToken();
+      if (!token) {
+        toast.error("Please log in again.");
+        return;
+      }
+
+      const response = await fetch("/api/admin/host-payouts", {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const payload = await response.json();
+      if (!response.ok) {
+        throw new Error(payload?.error || "Failed to load host payouts");
+      }
+
+      setBatches(payload.batches || []);
+      setWaiting(payload.waiting || null);
+    } catch (error) {
+      console.error("[Admin Host Payouts] Fetch error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to load host payouts");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchPayouts();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  /**
+   * Send an action to the payouts API and refresh the list
+   */
+  const submit = async (
+    busyKey: string,
+    method: "POST" | "PATCH",
+    body: Record<string, unknown>,
+    successMessage: string
+  ) => {
+    try {
+      setBusyId(busyKey);
+      const token = await getAccessToken();
+      if (!token) {
+        toast.error("Please log in again.");
+        return;
+      }
+
+      const response = await fetch("/api/admin/host-payouts", {
+        method,
+        headers: {
+          Authorization: `Bearer ${token}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(body),
+      });
+      const payload = await response.json();
+      if (!response.ok) {
+        throw new Error(payload?.message || payload?.error || "Failed to update payouts");
+      }
+
+      toast.success(payload.batch_completed ? `${successMessage}; batch completed` : successMessage);
+      await fetchPayouts();
+    } catch (error) {
+      console.error("[Admin Host Payouts] Update error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to update payouts");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleCreate = () => {
+    const notes = prompt("Notes for this payout batch (optional):");
+    if (notes === null) return;
+    submit(
+      "create",
+      "POST",
+      {
+        action: "create",
+        notes,
+        earned_before: earnedBefore ? new Date(`${earnedBefore}T00:00:00Z`).toISOString() : undefined,
+      },
+      "Draft batch created"
+    );
+  };
+
+  const handleBatchAction = (batch: AdminBatch, action: "approve" | "cancel") => {
+    const question =
+      action === "approve"
+        ? `Approve this batch of ${batch.payouts.length} payouts? Payouts can then be sent and recorded.`
+        : "Cancel this draft batch? Its earnings go back to awaiting payout.";
+    if (!confirm(question)) return;
+    submit(
+      batch.id,
+      "POST",
+      { action, batch_id: batch.id },
+      action === "approve" ? "Batch approved" : "Batch canceled"
+    );
+  };
+
+  const handleSettle = (payout: AdminPayout, outcome: "paid" | "failed") => {
+    const answer = prompt(
+      outcome === "paid"
+        ? `Transfer reference for ${formatAmount(payout.amount_cents, payout.currency)}:`
+        : "Why did this payout fail? Its earnings return to the next batch."
+    );
+    if (answer === null) return;
+    submit(
+      payout.id,
+      "PATCH",
+      outcome === "paid"
+        ? { payout_id: payout.id, outcome, reference: answer }
+        : { payout_id: payout.id, outcome, failure_reason: answer },
+      outcome === "paid" ? "Payout marked paid" : "Payout marked failed"
+    );
+  };
+
+  return (
+    <div className="p-6 lg:p-8">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Host Payouts</h1>
+          <p className="text-gray-500">Batch host earnings, approve them and record each transfer</p>
+        </div>
+        <button
+          onClick={() => fetchPayouts()}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg border border-gray-200 text-gray-700 hover:bg-gray-50"
+        >
+          <RefreshCw className="h-4 w-4" />
+          Refresh
+        </button>
+      </div>
+
+      {/* Waiting earnings */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 mb-6">
+        <div className="flex flex-col lg:flex-row lg:items-end justify-between gap-4">
+          <div>
+            <p className="text-sm text-gray-500">Awaiting payout</p>
+            <p className="text-2xl font-bold text-gray-900">
+              {waiting ? formatTotals(waiting.amount_by_currency) : "—"}
+            </p>
+            <p className="text-xs text-gray-500">
+              {waiting?.earnings || 0} earnings · under review{" "}
+              {waiting ? formatTotals(waiting.held_by_currency) : "—"}
+            </p>
+          </div>
+          <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+            <label className="text-sm text-gray-600">
+              Earned before (optional)
+              <input
+                type="date"
+                value={earnedBefore}
+                onChange={(e) => setEarnedBefore(e.target.value)}
+                className="mt-1 block px-3 py-2 rounded-lg border border-gray-200 outline-none"
+              />
+            </label>
+            <button
+              onClick={handleCreate}
+              disabled={busyId === "create" || !waiting?.earnings}
+              className="flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-[#1f419a] text-white hover:bg-[#17357b] disabled:opacity-50"
+            >
+              <Plus className="h-4 w-4" />
+              Create batch
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Batches */}
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-[#1f419a]" />
+        </div>
+      ) : batches.length === 0 ? (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 text-center py-12">
+          <Banknote className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+          <p className="text-gray-500">No payout batches yet</p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {batches.map((batch) => (
+            <div key={batch.id} className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 px-6 py-4 border-b border-gray-100">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <p className="text-sm font-medium text-gray-900">
+                      Batch of {new Date(batch.created_at).toLocaleDateString()}
+                    </p>
+                    <span
+                      className={`px-2 py-1 rounded-full text-xs font-medium capitalize ${BATCH_STATUS_STYLES[batch.status]}`}
+                    >
+                      {batch.status}
+                    </span>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    Earnings before {new Date(batch.earned_before).toLocaleString()}
+                    {batch.notes ? ` · ${batch.notes}` : ""}
+                  </p>
+                </div>
+                {batch.status === "draft" && (
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => handleBatchAction(batch, "approve")}
+                      disabled={busyId === batch.id}
+                      className="px-3 py-1.5 rounded-lg border border-green-200 text-green-700 text-sm hover:bg-green-50 disabled:opacity-50"
+                    >
+                      Approve
+                    </button>
+                    <button
+                      onClick={() => handleBatchAction(batch, "cancel")}
+                      disabled={busyId === batch.id}
+                      className="px-3 py-1.5 rounded-lg border border-red-200 text-red-700 text-sm hover:bg-red-50 disabled:opacity-50"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                )}
+              </div>
+              <div className="overflow-auto">
+                <table className="w-full min-w-[840px]">
+                  <thead className="bg-gray-50 border-b border-gray-100">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Host</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Amount</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {batch.payouts.map((payout) => (
+                      <tr key={payout.id} className="hover:bg-gray-50">
+                        <td className="px-6 py-4 text-sm text-gray-700">
+                          {payout.host?.display_name || payout.host?.email || payout.host_id}
+                          <p className="text-xs text-gray-500 capitalize">{payout.host?.host_type || ""}</p>
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-700">
+                          {formatAmount(payout.amount_cents, payout.currency)}
+                          <p className="text-xs text-gray-500">{payout.earning_count} meetings</p>
+                        </td>
+                        <td className="px-6 py-4">
+                          <span
+                            className={`px-2 py-1 rounded-full text-xs font-medium capitalize ${PAYOUT_STATUS_STYLES[payout.status]}`}
+                          >
+                            {payout.status}
+                          </span>
+                          {(payout.reference || payout.failure_reason) && (
+                            <p className="mt-1 text-xs text-gray-500">
+                              {payout.reference || payout.failure_reason}
+                            </p>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 text-right">
+                          {batch.status === "approved" && payout.status === "pending" && (
+                            <div className="flex items-center justify-end gap-2">
+                              <button
+                                onClick={() => handleSettle(payout, "paid")}
+                                disabled={busyId === payout.id}
+                                className="px-3 py-1.5 rounded-lg border border-green-200 text-green-700 text-sm hover:bg-green-50 disabled:opacity-50"
+                              >
+                                Mark paid
+                              </button>
+                              <button
+                                onClick={() => handleSettle(payout, "failed")}
+                                disabled={busyId === payout.id}
+                                className="px-3 py-1.5 rounded-lg border border-red-200 text-red-700 text-sm hover:bg-red-50 disabled:opacity-50"
+                              >
+                                Mark failed
+                              </button>
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
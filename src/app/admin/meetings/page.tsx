@@ -87,6 +87,18 @@ type Meeting = {
   } | null;
 };
 
+type MeetingTimelineEvent = {
+  id: string;
+  actor_id: string | null;
+  actor_role: string;
+  actor_name: string | null;
+  from_state: string;
+  to_state: string;
+  reason: string | null;
+  metadata: { effect_errors?: { step: string; message: string }[] } | null;
+  created_at: string;
+};
+
 type Coordinator = {
   id: string;
   name: string;
@@ -193,6 +205,8 @@ export default function AdminMeetingsPage() {
   const [cancelConfirmed, setCancelConfirmed] = useState(false);
   const [cancelingMeeting, setCancelingMeeting] = useState(false);
   const [currentPage, setCurrentPage] = useState(1);
+  const [timeline, setTimeline] = useState<MeetingTimelineEvent[]>([]);
+  const [timelineLoading, setTimelineLoading] = useState(false);
   const { toast } = useToast();
 
   const isAwaitingApproval = isMeetingAwaitingApproval;
@@ -329,6 +343,52 @@ export default function AdminMeetingsPage() {
     setSelectedCoordinatorId(linkedCoordinator?.id || "");
   }, [coordinators, selectedMeeting]);
 
+  const selectedMeetingId = selectedMeeting?.id || null;
+  const selectedMeetingState = selectedMeeting
+    ? `${selectedMeeting.status}:${selectedMeeting.workflow_state || ""}`
+    : null;
+
+  useEffect(() => {
+    if (!selectedMeetingId) {
+      setTimeline([]);
+      return;
+    }
+
+    let cancelled = false;
+    const loadTimeline = async () => {
+      setTimelineLoading(true);
+      try {
+        const {
+          data: { session },
+        } = await supabase.auth.getSession();
+        if (!session) return;
+
+        const response = await fetch(
+          `/api/admin/meetings/timeline?meeting_id=${encodeURIComponent(selectedMeetingId)}`,
+          {
+            headers: {
+              Authorization: `Bearer ${session.access_token}`,
+            },
+          }
+        );
+        const data = await response.json().catch(() => ({}));
+        if (!cancelled) {
+          setTimeline(response.ok ? ((data.events || []) as MeetingTimelineEvent[]) : []);
+        }
+      } catch (error) {
+        console.error("Error loading meeting timeline:", error);
+        if (!cancelled) setTimeline([]);
+      } finally {
+        if (!cancelled) setTimelineLoading(false);
+      }
+    };
+
+    void loadTimeline();
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedMeetingId, selectedMeetingState]);
+
   /**
    * Check if both users sent requests to each other
    */
@@ -1418,6 +1478,40 @@ export default function AdminMeetingsPage() {
                 </div>
               </div>
 
+              <div>
+                <label className="block text-xs font-medium text-gray-500 mb-1">Timeline</label>
+                {timelineLoading && timeline.length === 0 ? (
+                  <div className="flex items-center gap-2 text-xs text-gray-500">
+                    <Loader2 className="h-3 w-3 animate-spin" />
+                    Loading history...
+                  </div>
+                ) : timeline.length === 0 ? (
+                  <p className="text-xs text-gray-500">No state changes recorded yet.</p>
+                ) : (
+                  <ol className="space-y-2 border-l border-gray-200 pl-3">
+                    {timeline.map((event) => (
+                      <li key={event.id} className="text-sm">
+                        <p className="font-medium text-gray-900">
+                          {event.from_state.replace(/_/g, " ")} → {event.to_state.replace(/_/g, " ")}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {formatFeedbackDate(event.created_at)} · {event.actor_name || "Unknown"} ({event.actor_role})
+                        </p>
+                        {event.reason && (
+                          <p className="text-xs text-gray-600">{event.reason}</p>
+                        )}
+                        {event.metadata?.effect_errors?.length ? (
+                          <p className="mt-1 inline-flex items-center gap-1 text-xs text-red-600">
+                            <AlertTriangle className="h-3 w-3" />
+                            {event.metadata.effect_errors.length} follow-up step(s) failed
+                          </p>
+                        ) : null}
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </div>
+
               <div>
                 <label className="block text-xs font-medium text-gray-500 mb-1">
                   Reschedule Meeting
@@ -3,6 +3,7 @@
 import { useCallback, useEffect, useState } from "react";
 import { useToast } from "@/components/ToastProvider";
 import { supabase } from "@/lib/supabase";
+import MessageSafetyQueue from "@/components/moderation/MessageSafetyQueue";
 import Image from "next/image";
 import {
   Image as ImageIcon,
@@ -15,6 +16,7 @@ import {
   Clock,
   Eye,
   RefreshCw,
+  MessageSquareWarning,
 } from "lucide-react";
 
 /**
@@ -53,12 +55,13 @@ type PhotoModerationQueryRow = {
 };
 
 /**
- * AdminModerationPage - Photo moderation queue
+ * AdminModerationPage - Photo and message moderation queues
  * 
  * Features:
  * - View pending profile photos
  * - Approve or reject with reason
  * - Filter by status
+ * - Review chat messages flagged by the message safety screen
  */
 export default function AdminModerationPage() {
   const { toast } = useToast();
@@ -71,6 +74,7 @@ export default function AdminModerationPage() {
   const [selectedPhoto, setSelectedPhoto] = useState<PhotoModerationItem | null>(null);
   const [rejectReason, setRejectReason] = useState("");
   const [brokenPhotoIds, setBrokenPhotoIds] = useState<string[]>([]);
+  const [queue, setQueue] = useState<"photos" | "messages">("photos");
 
   const pageSize = 12;
   const totalPages = Math.ceil(totalItems / pageSize);
@@ -301,8 +305,45 @@ export default function AdminModerationPage() {
     }
   };
 
+  const queueTabs = (
+    <div className="flex gap-2 mb-6">
+      {([
+        { id: "photos", label: "Photos", icon: <ImageIcon className="h-4 w-4" /> },
+        { id: "messages", label: "Messages", icon: <MessageSquareWarning className="h-4 w-4" /> },
+      ] as const).map((tab) => (
+        <button
+          key={tab.id}
+          onClick={() => setQueue(tab.id)}
+          className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+            queue === tab.id
+              ? "bg-[#1f419a] text-white"
+              : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+          }`}
+        >
+          {tab.icon}
+          {tab.label}
+        </button>
+      ))}
+    </div>
+  );
+
+  if (queue === "messages") {
+    return (
+      <div className="p-6 lg:p-8">
+        {queueTabs}
+        <div className="mb-6">
+          <h1 className="text-2xl font-bold text-gray-900">Message Moderation</h1>
+          <p className="text-gray-500">Chat messages flagged for scams, off-platform contact or abuse</p>
+        </div>
+        <MessageSafetyQueue />
+      </div>
+    );
+  }
+
   return (
     <div className="p-6 lg:p-8">
+      {queueTabs}
+
       {/* Header */}
       <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
         <div>
@@ -0,0 +1,422 @@
+"use client";
+
+/**
+ * AdminPaymentReconciliationPage - Provider Settlement Reconciliation
+ *
+ * Features:
+ * - Import a Stripe, Paystack or Flutterwave CSV/JSON transaction export
+ * - See payments missing, duplicated, amount-mismatched or refunded only at
+ *   the provider
+ * - One-click repair (replay, reverse, adjust) or dismiss per payment
+ */
+
+import { useEffect, useState } from "react";
+import { useToast } from "@/components/ToastProvider";
+import { supabase } from "@/lib/supabase";
+import { FileUp, Loader2, RefreshCw, Scale } from "lucide-react";
+
+type Provider = "stripe" | "paystack" | "flutterwave";
+
+type RepairAction =
+  | "replay_payment"
+  | "reverse_duplicate"
+  | "adjust_amount"
+  | "reverse_refund"
+  | "dismiss";
+
+type ImportSummary = {
+  rows: number;
+  payments: number;
+  matched: number;
+  missing: number;
+  duplicated: number;
+  amount_mismatch: number;
+  refunded_provider_only: number;
+  skipped: number;
+  resolved_earlier: number;
+  already_open: number;
+};
+
+type ReconciliationImport = {
+  id: string;
+  provider: Provider;
+  file_name: string | null;
+  row_count: number;
+  summary: ImportSummary;
+  created_at: string;
+};
+
+type ReconciliationItem = {
+  id: string;
+  provider: Provider;
+  reference: string;
+  status: "missing" | "duplicated" | "amount_mismatch" | "refunded_provider_only";
+  record_kind: string | null;
+  user_id: string | null;
+  provider_status: string | null;
+  provider_amount_cents: number;
+  refunded_cents: number;
+  recorded_amount_cents: number | null;
+  currency: string | null;
+  resolution: "open" | "repaired" | "dismissed";
+  repair_action: RepairAction | null;
+  repair_actions: RepairAction[];
+};
+
+const STATUS_LABELS: Record<ReconciliationItem["status"], string> = {
+  missing: "Missing",
+  duplicated: "Duplicated",
+  amount_mismatch: "Amount mismatch",
+  refunded_provider_only: "Refunded at provider only",
+};
+
+const STATUS_STYLES: Record<ReconciliationItem["status"], string> = {
+  missing: "bg-red-50 text-red-700",
+  duplicated: "bg-amber-50 text-amber-700",
+  amount_mismatch: "bg-orange-50 text-orange-700",
+  refunded_provider_only: "bg-purple-50 text-purple-700",
+};
+
+const ACTION_LABELS: Record<RepairAction, string> = {
+  replay_payment: "Replay payment",
+  reverse_duplicate: "Reverse duplicate",
+  adjust_amount: "Adjust to settled amount",
+  reverse_refund: "Apply refund",
+  dismiss: "Dismiss",
+};
+
+function formatAmount(cents: number | null, currency: string | null) {
+  if (cents === null) return "—";
+  return `${(currency || "").toUpperCase()} ${(cents / 100).toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`.trim();
+}
+
+async function getAccessToken() {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  return session?.access_token || null;
+}
+
+export default function AdminPaymentReconciliationPage() {
+  const { toast } = useToast();
+  const [provider, setProvider] = useState<Provider>("paystack");
+  const [file, setFile] = useState<File | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [imports, setImports] = useState<ReconciliationImport[]>([]);
+  const [selectedImportId, setSelectedImportId] = useState<string | null>(null);
+  const [items, setItems] = useState<ReconciliationItem[]>([]);
+  const [repairingId, setRepairingId] = useState<string | null>(null);
+
+  const selectedImport = imports.find((entry) => entry.id === selectedImportId) || null;
+
+  /**
+   * Fetch imports and the items of the selected (or latest) import
+   */
+  const fetchReconciliation = async (importId: string | null = selectedImportId) => {
+    setLoading(true);
+    try {
+      const token = await getAccessToken();
+      if (!token) {
+        toast.error("Please log in again.");
+        return;
+      }
+
+      const query = importId ? `?import_id=${encodeURIComponent(importId)}` : "";
+      const response = await fetch(`/api/admin/payments/reconciliation${query}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const payload = await response.json();
+      if (!response.ok) {
+        throw new Error(payload?.error || "Failed to load reconciliation");
+      }
+
+      setImports(payload.imports || []);
+      setSelectedImportId(payload.import_id || null);
+      setItems(payload.items || []);
+    } catch (error) {
+      console.error("[Admin Reconciliation] Fetch error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to load reconciliation");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchReconciliation(null);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  /**
+   * Upload the selected export file for matching
+   */
+  const handleImport = async () => {
+    if (!file) {
+      toast.warning("Choose an export file first");
+      return;
+    }
+
+    try {
+      setImporting(true);
+      const token = await getAccessToken();
+      if (!token) {
+        toast.error("Please log in again.");
+        return;
+      }
+
+      const response = await fetch("/api/admin/payments/reconciliation", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${token}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ provider, file_name: file.name, content: await file.text() }),
+      });
+      const payload = await response.json();
+      if (!response.ok) {
+        throw new Error(payload?.message || payload?.error || "Failed to import export");
+      }
+
+      const summary = payload.summary as ImportSummary;
+      const issues =
+        summary.missing + summary.duplicated + summary.amount_mismatch + summary.refunded_provider_only;
+      toast.success(
+        `Matched ${summary.matched} of ${summary.payments} payments; ${issues} need attention.`
+      );
+      setFile(null);
+      await fetchReconciliation(payload.import_id);
+    } catch (error) {
+      console.error("[Admin Reconciliation] Import error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to import export");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  /**
+   * Run a one-click repair (or dismiss) for an item
+   */
+  const handleRepair = async (item: ReconciliationItem, action: RepairAction) => {
+    if (
+      !confirm(
+        `${ACTION_LABELS[action]} for ${item.provider} payment ${item.reference}?`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      setRepairingId(item.id);
+      const token = await getAccessToken();
+      if (!token) {
+        toast.error("Please log in again.");
+        return;
+      }
+
+      const response = await fetch("/api/admin/payments/reconciliation/repair", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${token}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ item_id: item.id, action }),
+      });
+      const payload = await response.json();
+      if (!response.ok) {
+        throw new Error(payload?.message || payload?.error || "Repair failed");
+      }
+
+      toast.success(action === "dismiss" ? "Item dismissed" : "Payment repaired");
+      await fetchReconciliation();
+    } catch (error) {
+      console.error("[Admin Reconciliation] Repair error:", error);
+      toast.error(error instanceof Error ? error.message : "Repair failed");
+    } finally {
+      setRepairingId(null);
+    }
+  };
+
+  return (
+    <div className="p-6 lg:p-8">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Payment Reconciliation</h1>
+          <p className="text-gray-500">
+            Match provider settlement exports against wallet and subscription records
+          </p>
+        </div>
+        <button
+          onClick={() => fetchReconciliation()}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg border border-gray-200 text-gray-700 hover:bg-gray-50"
+        >
+          <RefreshCw className="h-4 w-4" />
+          Refresh
+        </button>
+      </div>
+
+      {/* Import */}
+      <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-100 mb-6">
+        <div className="flex flex-col md:flex-row md:items-end gap-4">
+          <label className="flex-1">
+            <span className="block text-sm font-medium text-gray-700 mb-1">Provider</span>
+            <select
+              value={provider}
+              onChange={(e) => setProvider(e.target.value as Provider)}
+              className="w-full px-3 py-2.5 rounded-lg border border-gray-200 focus:border-[#1f419a] focus:ring-2 focus:ring-[#1f419a]/20 outline-none"
+            >
+              <option value="paystack">Paystack</option>
+              <option value="flutterwave">Flutterwave</option>
+              <option value="stripe">Stripe</option>
+            </select>
+          </label>
+          <label className="flex-[2]">
+            <span className="block text-sm font-medium text-gray-700 mb-1">
+              Transaction export (CSV or JSON)
+            </span>
+            <input
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              onChange={(e) => setFile(e.target.files?.[0] || null)}
+              className="w-full text-sm text-gray-700 file:mr-3 file:px-3 file:py-2 file:rounded-lg file:border-0 file:bg-gray-100 file:text-gray-700"
+            />
+          </label>
+          <button
+            onClick={handleImport}
+            disabled={importing || !file}
+            className="flex items-center justify-center gap-2 px-4 py-2.5 rounded-lg bg-[#1f419a] text-white text-sm hover:bg-[#17357b] disabled:opacity-50"
+          >
+            {importing ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileUp className="h-4 w-4" />}
+            Import
+          </button>
+        </div>
+      </div>
+
+      {/* Imports */}
+      {imports.length > 0 && (
+        <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-100 mb-6">
+          <select
+            value={selectedImportId || ""}
+            onChange={(e) => fetchReconciliation(e.target.value)}
+            className="w-full px-3 py-2.5 rounded-lg border border-gray-200 outline-none"
+          >
+            {imports.map((entry) => (
+              <option key={entry.id} value={entry.id}>
+                {new Date(entry.created_at).toLocaleString()} · {entry.provider} ·{" "}
+                {entry.file_name || "export"} ({entry.row_count} rows)
+              </option>
+            ))}
+          </select>
+          {selectedImport && (
+            <div className="grid grid-cols-2 md:grid-cols-7 gap-3 mt-4 text-sm">
+              {(
+                [
+                  ["Matched", selectedImport.summary.matched],
+                  ["Missing", selectedImport.summary.missing],
+                  ["Duplicated", selectedImport.summary.duplicated],
+                  ["Amount mismatch", selectedImport.summary.amount_mismatch],
+                  ["Refunded at provider", selectedImport.summary.refunded_provider_only],
+                  ["Resolved earlier", selectedImport.summary.resolved_earlier],
+                  ["Already open", selectedImport.summary.already_open ?? 0],
+                ] as const
+              ).map(([label, value]) => (
+                <div key={label} className="rounded-lg bg-gray-50 px-3 py-2">
+                  <p className="text-gray-500">{label}</p>
+                  <p className="text-lg font-bold text-gray-900">{value}</p>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Items */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-[#1f419a]" />
+          </div>
+        ) : items.length === 0 ? (
+          <div className="text-center py-12">
+            <Scale className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-500">
+              {imports.length === 0 ? "No exports imported yet" : "Every payment in this export matches"}
+            </p>
+          </div>
+        ) : (
+          <div className="max-h-[70vh] overflow-auto">
+            <table className="w-full min-w-[960px]">
+              <thead className="sticky top-0 z-10 bg-gray-50 border-b border-gray-100 shadow-sm">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Reference</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Issue</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Provider</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Recorded</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {items.map((item) => (
+                  <tr key={item.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4">
+                      <p className="text-sm font-mono text-gray-900 break-all">{item.reference}</p>
+                      <p className="text-xs text-gray-500">
+                        {item.record_kind?.replace(/_/g, " ") || "no record"}
+                      </p>
+                    </td>
+                    <td className="px-6 py-4">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[item.status]}`}>
+                        {STATUS_LABELS[item.status]}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-700">
+                      {formatAmount(item.provider_amount_cents, item.currency)}
+                      {item.refunded_cents > 0 && (
+                        <p className="text-xs text-purple-600">
+                          Refunded {formatAmount(item.refunded_cents, item.currency)}
+                        </p>
+                      )}
+                      <p className="text-xs text-gray-500">{item.provider_status}</p>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-700">
+                      {formatAmount(item.recorded_amount_cents, item.currency)}
+                    </td>
+                    <td className="px-6 py-4 text-right">
+                      {item.resolution === "open" ? (
+                        <div className="flex flex-wrap items-center justify-end gap-2">
+                          {item.repair_actions.map((action) => (
+                            <button
+                              key={action}
+                              onClick={() => handleRepair(item, action)}
+                              disabled={repairingId === item.id}
+                              className={
+                                action === "dismiss"
+                                  ? "px-3 py-1.5 rounded-lg border border-gray-200 text-gray-700 text-sm hover:bg-gray-50 disabled:opacity-50"
+                                  : "px-3 py-1.5 rounded-lg bg-[#1f419a] text-white text-sm hover:bg-[#17357b] disabled:opacity-50"
+                              }
+                            >
+                              {ACTION_LABELS[action]}
+                            </button>
+                          ))}
+                        </div>
+                      ) : (
+                        <span className="text-sm text-gray-500">
+                          {item.resolution === "dismissed"
+                            ? "Dismissed"
+                            : `Repaired (${ACTION_LABELS[item.repair_action || "dismiss"]})`}
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -10,22 +10,37 @@ import {
   RefreshCw,
   History,
 } from "lucide-react";
+import { CURRENCY_TABLE, SUPPORTED_CURRENCIES, type CurrencyKey } from "@/lib/payments/currencies";
+import {
+  CURRENCY_KEYS,
+  DEFAULT_SUBSCRIPTION_PRICING,
+  type SubscriptionPriceColumn,
+  type TierId,
+} from "@/lib/subscription/config";
 
 /**
  * Pricing tier data
  */
 type PricingTier = {
   tier_id: string;
-  price_ngn: number;
-  price_usd: number;
   updated_at: string;
-};
+} & Record<SubscriptionPriceColumn, number | null>;
+
+function priceColumn(currency: CurrencyKey): SubscriptionPriceColumn {
+  return `price_${currency}`;
+}
+
+function pricingColumns(tier: PricingTier) {
+  return Object.fromEntries(
+    CURRENCY_KEYS.map((currency) => [priceColumn(currency), tier[priceColumn(currency)]])
+  );
+}
 
 /**
  * AdminPricingPage - Manage subscription pricing
  * 
  * Features:
- * - Edit prices for all tiers (NGN and USD)
+ * - Edit prices for all tiers in every supported currency
  * - Preview changes before saving
  * - Save with admin logging
  */
@@ -58,19 +73,15 @@ export default function AdminPricingPage() {
       const missingTiers = tiers.filter(t => !existingTiers.includes(t));
 
       // Create default pricing for missing tiers
-      const defaultPricing: Record<string, { ngn: number; usd: number; legacyGbp: number }> = {
-        basic: { ngn: 7500, usd: 9.99, legacyGbp: 7.99 },
-        standard: { ngn: 15000, usd: 19.99, legacyGbp: 16.99 },
-        premium: { ngn: 27000, usd: 34.99, legacyGbp: 29.99 },
-        vip: { ngn: 1500000, usd: 1000, legacyGbp: 800 },
-      };
-
       if (missingTiers.length > 0) {
         const newPricing = missingTiers.map(tier => ({
           tier_id: tier,
-          price_ngn: defaultPricing[tier].ngn,
-          price_usd: defaultPricing[tier].usd,
-          price_gbp: defaultPricing[tier].legacyGbp,
+          ...Object.fromEntries(
+            CURRENCY_KEYS.map((currency) => [
+              priceColumn(currency),
+              DEFAULT_SUBSCRIPTION_PRICING[tier as TierId][currency],
+            ])
+          ),
         }));
 
         await supabase.from("subscription_pricing").insert(newPricing);
@@ -111,7 +122,7 @@ export default function AdminPricingPage() {
   /**
    * Update a specific tier's price
    */
-  const updatePrice = (tierId: string, currency: "price_ngn" | "price_usd", value: number) => {
+  const updatePrice = (tierId: string, currency: SubscriptionPriceColumn, value: number) => {
     setPricing(prev => prev.map(tier => 
       tier.tier_id === tierId 
         ? { ...tier, [currency]: value }
@@ -134,8 +145,7 @@ export default function AdminPricingPage() {
         const { error } = await supabase
           .from("subscription_pricing")
           .update({
-            price_ngn: tier.price_ngn,
-            price_usd: tier.price_usd,
+            ...pricingColumns(tier),
             updated_at: new Date().toISOString(),
             updated_by: user?.id,
           })
@@ -277,48 +287,33 @@ export default function AdminPricingPage() {
 
                 {/* Price Inputs */}
                 <div className="space-y-4">
-                  {/* NGN */}
-                  <div>
-                    <label className="flex items-center justify-between text-sm font-medium text-gray-700 mb-1">
-                      <span>Nigerian Naira (₦)</span>
-                      {original && tier.price_ngn !== original.price_ngn && (
-                        <span className="text-xs text-amber-600">
-                          Changed from ₦{original.price_ngn.toLocaleString()}
-                        </span>
-                      )}
-                    </label>
-                    <div className="relative">
-                      <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500">₦</span>
-                      <input
-                        type="number"
-                        value={tier.price_ngn}
-                        onChange={(e) => updatePrice(tier.tier_id, "price_ngn", parseFloat(e.target.value) || 0)}
-                        className="w-full pl-8 pr-4 py-2.5 rounded-lg border border-gray-200 focus:border-[#1f419a] focus:ring-2 focus:ring-[#1f419a]/20 outline-none"
-                      />
-                    </div>
-                  </div>
-
-                  {/* USD */}
-                  <div>
-                    <label className="flex items-center justify-between text-sm font-medium text-gray-700 mb-1">
-                      <span>US Dollar ($)</span>
-                      {original && tier.price_usd !== original.price_usd && (
-                        <span className="text-xs text-amber-600">
-                          Changed from ${original.price_usd.toLocaleString()}
-                        </span>
-                      )}
-                    </label>
-                    <div className="relative">
-                      <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500">$</span>
-                      <input
-                        type="number"
-                        value={tier.price_usd}
-                        onChange={(e) => updatePrice(tier.tier_id, "price_usd", parseFloat(e.target.value) || 0)}
-                        className="w-full pl-8 pr-4 py-2.5 rounded-lg border border-gray-200 focus:border-[#1f419a] focus:ring-2 focus:ring-[#1f419a]/20 outline-none"
-                      />
-                    </div>
-                  </div>
-
+                  {SUPPORTED_CURRENCIES.map((code) => {
+                    const currency = CURRENCY_TABLE[code];
+                    const column = priceColumn(code.toLowerCase() as CurrencyKey);
+                    const value = tier[column];
+                    const originalValue = original?.[column];
+                    return (
+                      <div key={code}>
+                        <label className="flex items-center justify-between text-sm font-medium text-gray-700 mb-1">
+                          <span>{currency.name} ({currency.symbol})</span>
+                          {original && value !== originalValue && (
+                            <span className="text-xs text-amber-600">
+                              Changed from {currency.symbol}{(originalValue ?? 0).toLocaleString()}
+                            </span>
+                          )}
+                        </label>
+                        <div className="relative">
+                          <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500">{currency.symbol}</span>
+                          <input
+                            type="number"
+                            value={value ?? ""}
+                            onChange={(e) => updatePrice(tier.tier_id, column, parseFloat(e.target.value) || 0)}
+                            className="w-full pl-12 pr-4 py-2.5 rounded-lg border border-gray-200 focus:border-[#1f419a] focus:ring-2 focus:ring-[#1f419a]/20 outline-none"
+                          />
+                        </div>
+                      </div>
+                    );
+                  })}
                 </div>
 
                 {/* Last Updated */}
@@ -339,8 +334,9 @@ export default function AdminPricingPage() {
         <h3 className="font-semibold text-gray-900 mb-3">Pricing Notes</h3>
         <ul className="space-y-2 text-sm text-gray-600">
           <li>• Prices are per month for subscription plans</li>
-          <li>• NGN prices are shown to users with Nigerian IP addresses</li>
-          <li>• USD prices are shown to international users (default)</li>
+          <li>• NGN, GHS, KES and ZAR prices are shown to users in Nigeria, Ghana, Kenya and South Africa</li>
+          <li>• GBP prices are shown in the UK and EUR prices in eurozone countries</li>
+          <li>• USD prices are shown to every other international user (default)</li>
           <li>• Changes take effect immediately for new subscriptions</li>
           <li>• Existing subscriptions are not affected until renewal</li>
         </ul>
@@ -0,0 +1,530 @@
+"use client";
+
+/**
+ * AdminPromoCodesPage - Promo Codes and Discount Campaigns
+ *
+ * Features:
+ * - Create percentage or fixed discounts with tier, first-purchase, usage
+ *   and date rules
+ * - See redemptions, discount given and revenue collected per code
+ * - Switch a code on or off
+ */
+
+import { useEffect, useState } from "react";
+import { useToast } from "@/components/ToastProvider";
+import { supabase } from "@/lib/supabase";
+import { Loader2, Plus, RefreshCw, Ticket } from "lucide-react";
+
+type TierId = "basic" | "standard" | "premium" | "vip";
+
+type AdminPromoCode = {
+  id: string;
+  code: string;
+  description: string | null;
+  discount_type: "percent" | "fixed";
+  percent_off: number | null;
+  amount_off_cents: number | null;
+  currency: string | null;
+  tiers: TierId[] | null;
+  first_purchase_only: boolean;
+  max_redemptions: number | null;
+  max_redemptions_per_user: number;
+  starts_at: string | null;
+  expires_at: string | null;
+  active: boolean;
+  created_at: string;
+  usage: {
+    redemptions: number;
+    discountCents: Record<string, number>;
+    revenueCents: Record<string, number>;
+  };
+};
+
+type PromoForm = {
+  code: string;
+  description: string;
+  discount_type: "percent" | "fixed";
+  percent_off: string;
+  amount_off: string;
+  currency: string;
+  tiers: TierId[];
+  first_purchase_only: boolean;
+  max_redemptions: string;
+  max_redemptions_per_user: string;
+  starts_at: string;
+  expires_at: string;
+};
+
+const TIERS: TierId[] = ["basic", "standard", "premium", "vip"];
+
+const CURRENCIES = ["USD", "NGN", "GHS", "KES", "ZAR", "GBP", "EUR"];
+
+const EMPTY_FORM: PromoForm = {
+  code: "",
+  description: "",
+  discount_type: "percent",
+  percent_off: "",
+  amount_off: "",
+  currency: "USD",
+  tiers: [],
+  first_purchase_only: false,
+  max_redemptions: "",
+  max_redemptions_per_user: "1",
+  starts_at: "",
+  expires_at: "",
+};
+
+function formatAmount(cents: number, currency: string) {
+  return `${currency.toUpperCase()} ${(cents / 100).toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+}
+
+function formatTotals(totals: Record<string, number>) {
+  const entries = Object.entries(totals);
+  return entries.length === 0
+    ? "—"
+    : entries.map(([currency, cents]) => formatAmount(cents, currency)).join(", ");
+}
+
+function describeDiscount(promo: AdminPromoCode) {
+  return promo.discount_type === "percent"
+    ? `${promo.percent_off}% off`
+    : `${formatAmount(promo.amount_off_cents || 0, promo.currency || "usd")} off`;
+}
+
+function describeRules(promo: AdminPromoCode) {
+  const rules = [promo.tiers?.length ? promo.tiers.join(", ") : "All plans"];
+  if (promo.first_purchase_only) rules.push("First purchase only");
+  if (promo.max_redemptions) rules.push(`${promo.max_redemptions} uses max`);
+  if (promo.max_redemptions_per_user > 1) {
+    rules.push(`${promo.max_redemptions_per_user} per member`);
+  }
+  return rules.join(" · ");
+}
+
+function describeWindow(promo: AdminPromoCode) {
+  const starts = promo.starts_at ? new Date(promo.starts_at).toLocaleDateString() : null;
+  const expires = promo.expires_at ? new Date(promo.expires_at).toLocaleDateString() : null;
+  if (!starts && !expires) return "No end date";
+  if (!starts) return `Until ${expires}`;
+  if (!expires) return `From ${starts}`;
+  return `${starts} – ${expires}`;
+}
+
+async function getAccessToken() {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  return session?.access_token || null;
+}
+
+export default function AdminPromoCodesPage() {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [promoCodes, setPromoCodes] = useState<AdminPromoCode[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<PromoForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [togglingId, setTogglingId] = useState<string | null>(null);
+
+  /**
+   * Fetch promo codes with their usage
+   */
+  const fetchPromoCodes = async () => {
+    setLoading(true);
+    try {
+      const token = await getAccessToken();
+      if (!token) {
+        toast.error("Please log in again.");
+        return;
+      }
+
+      const response = await fetch("/api/admin/promo-codes", {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const payload = await response.json();
+      if (!response.ok) {
+        throw new Error(payload?.error || "Failed to load promo codes");
+      }
+
+      setPromoCodes(payload.promo_codes || []);
+    } catch (error) {
+      console.error("[Admin Promo Codes] Fetch error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to load promo codes");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchPromoCodes();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  /**
+   * Create a promo code from the form
+   */
+  const handleCreate = async () => {
+    try {
+      setSaving(true);
+      const token = await getAccessToken();
+      if (!token) {
+        toast.error("Please log in again.");
+        return;
+      }
+
+      const response = await fetch("/api/admin/promo-codes", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${token}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          code: form.code,
+          description: form.description,
+          discount_type: form.discount_type,
+          percent_off: form.discount_type === "percent" ? Number(form.percent_off) : null,
+          amount_off_cents:
+            form.discount_type === "fixed" ? Math.round(Number(form.amount_off) * 100) : null,
+          currency: form.discount_type === "fixed" ? form.currency : null,
+          tiers: form.tiers,
+          first_purchase_only: form.first_purchase_only,
+          max_redemptions: form.max_redemptions || null,
+          max_redemptions_per_user: form.max_redemptions_per_user || null,
+          starts_at: form.starts_at ? new Date(form.starts_at).toISOString() : null,
+          expires_at: form.expires_at ? new Date(form.expires_at).toISOString() : null,
+        }),
+      });
+      const payload = await response.json();
+      if (!response.ok) {
+        throw new Error(payload?.message || payload?.error || "Failed to create promo code");
+      }
+
+      toast.success(`Promo code ${payload.promo_code.code} created`);
+      setForm(EMPTY_FORM);
+      setShowForm(false);
+      await fetchPromoCodes();
+    } catch (error) {
+      console.error("[Admin Promo Codes] Create error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to create promo code");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  /**
+   * Switch a promo code on or off
+   */
+  const handleToggle = async (promo: AdminPromoCode) => {
+    try {
+      setTogglingId(promo.id);
+      const token = await getAccessToken();
+      if (!token) {
+        toast.error("Please log in again.");
+        return;
+      }
+
+      const response = await fetch("/api/admin/promo-codes", {
+        method: "PATCH",
+        headers: {
+          Authorization: `Bearer ${token}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ promo_code_id: promo.id, active: !promo.active }),
+      });
+      const payload = await response.json();
+      if (!response.ok) {
+        throw new Error(payload?.message || payload?.error || "Failed to update promo code");
+      }
+
+      toast.success(promo.active ? `${promo.code} deactivated` : `${promo.code} activated`);
+      await fetchPromoCodes();
+    } catch (error) {
+      console.error("[Admin Promo Codes] Toggle error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to update promo code");
+    } finally {
+      setTogglingId(null);
+    }
+  };
+
+  const toggleTier = (tier: TierId) => {
+    setForm((current) => ({
+      ...current,
+      tiers: current.tiers.includes(tier)
+        ? current.tiers.filter((value) => value !== tier)
+        : [...current.tiers, tier],
+    }));
+  };
+
+  const inputClass = "w-full px-3 py-2 rounded-lg border border-gray-200 outline-none text-sm";
+
+  return (
+    <div className="p-6 lg:p-8">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Promo Codes</h1>
+          <p className="text-gray-500">Discounts members can apply to new subscriptions</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => fetchPromoCodes()}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg border border-gray-200 text-gray-700 hover:bg-gray-50"
+          >
+            <RefreshCw className="h-4 w-4" />
+            Refresh
+          </button>
+          <button
+            onClick={() => setShowForm((open) => !open)}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg bg-[#1f419a] text-white hover:bg-[#17357b]"
+          >
+            <Plus className="h-4 w-4" />
+            New Code
+          </button>
+        </div>
+      </div>
+
+      {/* Create form */}
+      {showForm && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 mb-6">
+          <div className="grid gap-4 md:grid-cols-3">
+            <label className="text-sm text-gray-700">
+              Code
+              <input
+                value={form.code}
+                onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+                placeholder="LAUNCH20"
+                className={`${inputClass} mt-1 font-mono uppercase`}
+              />
+            </label>
+            <label className="text-sm text-gray-700 md:col-span-2">
+              Description
+              <input
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                placeholder="Launch campaign"
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              Discount
+              <select
+                value={form.discount_type}
+                onChange={(e) =>
+                  setForm({ ...form, discount_type: e.target.value as PromoForm["discount_type"] })
+                }
+                className={`${inputClass} mt-1`}
+              >
+                <option value="percent">Percentage</option>
+                <option value="fixed">Fixed amount</option>
+              </select>
+            </label>
+            {form.discount_type === "percent" ? (
+              <label className="text-sm text-gray-700">
+                Percent off
+                <input
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={form.percent_off}
+                  onChange={(e) => setForm({ ...form, percent_off: e.target.value })}
+                  className={`${inputClass} mt-1`}
+                />
+              </label>
+            ) : (
+              <div className="grid grid-cols-2 gap-2">
+                <label className="text-sm text-gray-700">
+                  Amount off
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={form.amount_off}
+                    onChange={(e) => setForm({ ...form, amount_off: e.target.value })}
+                    className={`${inputClass} mt-1`}
+                  />
+                </label>
+                <label className="text-sm text-gray-700">
+                  Currency
+                  <select
+                    value={form.currency}
+                    onChange={(e) => setForm({ ...form, currency: e.target.value })}
+                    className={`${inputClass} mt-1`}
+                  >
+                    {CURRENCIES.map((currency) => (
+                      <option key={currency} value={currency}>
+                        {currency}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+            )}
+            <div className="text-sm text-gray-700">
+              Plans
+              <div className="mt-2 flex flex-wrap gap-3">
+                {TIERS.map((tier) => (
+                  <label key={tier} className="flex items-center gap-1 capitalize">
+                    <input
+                      type="checkbox"
+                      checked={form.tiers.includes(tier)}
+                      onChange={() => toggleTier(tier)}
+                    />
+                    {tier}
+                  </label>
+                ))}
+              </div>
+              <p className="mt-1 text-xs text-gray-500">None selected applies to every plan.</p>
+            </div>
+            <label className="text-sm text-gray-700">
+              Total uses
+              <input
+                type="number"
+                min={1}
+                value={form.max_redemptions}
+                onChange={(e) => setForm({ ...form, max_redemptions: e.target.value })}
+                placeholder="Unlimited"
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              Uses per member
+              <input
+                type="number"
+                min={1}
+                value={form.max_redemptions_per_user}
+                onChange={(e) => setForm({ ...form, max_redemptions_per_user: e.target.value })}
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700 md:mt-6">
+              <input
+                type="checkbox"
+                checked={form.first_purchase_only}
+                onChange={(e) => setForm({ ...form, first_purchase_only: e.target.checked })}
+              />
+              First subscription only
+            </label>
+            <label className="text-sm text-gray-700">
+              Starts
+              <input
+                type="datetime-local"
+                value={form.starts_at}
+                onChange={(e) => setForm({ ...form, starts_at: e.target.value })}
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              Expires
+              <input
+                type="datetime-local"
+                value={form.expires_at}
+                onChange={(e) => setForm({ ...form, expires_at: e.target.value })}
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+          </div>
+          <div className="mt-6 flex justify-end gap-3">
+            <button
+              onClick={() => {
+                setForm(EMPTY_FORM);
+                setShowForm(false);
+              }}
+              className="px-4 py-2 rounded-lg border border-gray-200 text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleCreate}
+              disabled={saving || !form.code.trim()}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg bg-[#1f419a] text-white hover:bg-[#17357b] disabled:opacity-50"
+            >
+              {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+              Create Code
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Promo codes */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-[#1f419a]" />
+          </div>
+        ) : promoCodes.length === 0 ? (
+          <div className="text-center py-12">
+            <Ticket className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-500">No promo codes yet</p>
+          </div>
+        ) : (
+          <div className="max-h-[70vh] overflow-auto">
+            <table className="w-full min-w-[960px]">
+              <thead className="sticky top-0 z-10 bg-gray-50 border-b border-gray-100 shadow-sm">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Code</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Discount</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Window</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Usage</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {promoCodes.map((promo) => (
+                  <tr key={promo.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4">
+                      <p className="text-sm font-mono font-medium text-gray-900">{promo.code}</p>
+                      {promo.description && (
+                        <p className="text-xs text-gray-500">{promo.description}</p>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-700">
+                      {describeDiscount(promo)}
+                      <p className="text-xs text-gray-500 capitalize">{describeRules(promo)}</p>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-700">{describeWindow(promo)}</td>
+                    <td className="px-6 py-4 text-sm text-gray-700">
+                      {promo.usage.redemptions}
+                      {promo.max_redemptions ? ` / ${promo.max_redemptions}` : ""} redeemed
+                      <p className="text-xs text-gray-500">
+                        Discount: {formatTotals(promo.usage.discountCents)}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        Revenue: {formatTotals(promo.usage.revenueCents)}
+                      </p>
+                    </td>
+                    <td className="px-6 py-4">
+                      <span
+                        className={`px-2 py-1 rounded-full text-xs font-medium ${
+                          promo.active ? "bg-green-50 text-green-700" : "bg-gray-100 text-gray-600"
+                        }`}
+                      >
+                        {promo.active ? "Active" : "Inactive"}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-right">
+                      <button
+                        onClick={() => handleToggle(promo)}
+                        disabled={togglingId === promo.id}
+                        className={`px-3 py-1.5 rounded-lg border text-sm disabled:opacity-50 ${
+                          promo.active
+                            ? "border-red-200 text-red-700 hover:bg-red-50"
+                            : "border-gray-200 text-gray-700 hover:bg-gray-50"
+                        }`}
+                      >
+                        {promo.active ? "Deactivate" : "Activate"}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -28,6 +28,7 @@ import {
   X,
   ChevronLeft,
   ChevronRight,
+  ShieldAlert,
 } from "lucide-react";
 import Link from "next/link";
 import { adminPath } from "@/lib/admin/path";
@@ -51,6 +52,35 @@ type WalletData = {
   }[];
 };
 
+type PaymentDispute = {
+  id: string;
+  provider: "stripe" | "paystack" | "flutterwave";
+  kind: "refund" | "dispute";
+  reference: string | null;
+  user_id: string | null;
+  record_kind: string | null;
+  amount_cents: number;
+  currency: string | null;
+  reason: string | null;
+  status: "refunded" | "open" | "won" | "lost";
+  wallet_clawed_back_cents: number;
+  credits_clawed_back: number;
+  suspended_membership_id: string | null;
+  review_status: "none" | "pending" | "restored" | "revoked";
+  created_at: string;
+  user: {
+    email: string;
+    display_name: string | null;
+  } | null;
+};
+
+const DISPUTE_STATUS_STYLES: Record<PaymentDispute["status"], string> = {
+  refunded: "bg-gray-100 text-gray-700",
+  open: "bg-amber-100 text-amber-700",
+  won: "bg-green-100 text-green-700",
+  lost: "bg-red-100 text-red-700",
+};
+
 export default function AdminWalletPage() {
   const { toast } = useToast();
   const [wallets, setWallets] = useState<WalletData[]>([]);
@@ -62,6 +92,8 @@ export default function AdminWalletPage() {
   const [adjusting, setAdjusting] = useState(false);
   const [viewingTransactions, setViewingTransactions] = useState<WalletData | null>(null);
   const [currentPage, setCurrentPage] = useState(1);
+  const [disputes, setDisputes] = useState<PaymentDispute[]>([]);
+  const [reviewingDisputeId, setReviewingDisputeId] = useState<string | null>(null);
 
   /**
    * Fetch all wallets - ensures fresh data from database
@@ -111,6 +143,93 @@ export default function AdminWalletPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [searchQuery]);
 
+  /**
+   * Fetch provider refunds and chargebacks
+   */
+  const fetchDisputes = async () => {
+    try {
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+      if (!session?.access_token) return;
+
+      const response = await fetch("/api/admin/payments/disputes", {
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+        },
+      });
+
+      const payload = await response.json();
+      if (!response.ok) {
+        throw new Error(payload?.error || "Failed to fetch disputes");
+      }
+
+      setDisputes(payload.disputes || []);
+    } catch (error) {
+      console.error("[Admin Wallet] Disputes fetch error:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to fetch disputes"
+      );
+    }
+  };
+
+  useEffect(() => {
+    fetchDisputes();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  /**
+   * Restore or revoke paid access held by a refund or dispute
+   */
+  const handleReviewDispute = async (
+    dispute: PaymentDispute,
+    decision: "restore" | "revoke"
+  ) => {
+    const confirmMessage =
+      decision === "restore"
+        ? "Restore this member's paid access? Clawed-back credits stay removed."
+        : "End this member's plan? This cannot be undone.";
+    if (!confirm(confirmMessage)) {
+      return;
+    }
+
+    try {
+      setReviewingDisputeId(dispute.id);
+
+      const {
+        data: { session },
+        error: sessionError,
+      } = await supabase.auth.getSession();
+
+      if (sessionError || !session?.access_token) {
+        toast.error("Authentication error. Please log in again.");
+        return;
+      }
+
+      const response = await fetch("/api/admin/payments/disputes", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({ dispute_id: dispute.id, decision }),
+      });
+
+      const payload = await response.json();
+      if (!response.ok) {
+        throw new Error(payload?.message || payload?.error || "Failed to review dispute");
+      }
+
+      toast.success(decision === "restore" ? "Access restored" : "Plan ended");
+      await fetchDisputes();
+    } catch (error: unknown) {
+      console.error("[Admin Wallet] Error reviewing dispute:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to review dispute");
+    } finally {
+      setReviewingDisputeId(null);
+    }
+  };
+
   /**
    * Adjust wallet balance
    * Note: adjustmentAmount is in cents
@@ -208,7 +327,8 @@ export default function AdminWalletPage() {
   const isCredit = (tx: { type: string; amount_cents: number }) =>
     tx.type === "topup" ||
     tx.type === "refund" ||
-    (tx.type === "admin_adjustment" && tx.amount_cents > 0);
+    ((tx.type === "admin_adjustment" || tx.type === "payment_reversal") &&
+      tx.amount_cents > 0);
 
   useEffect(() => {
     setCurrentPage(1);
@@ -227,7 +347,10 @@ export default function AdminWalletPage() {
           <p className="text-gray-500">Manage user wallets and credits</p>
         </div>
         <button
-          onClick={() => fetchWallets()}
+          onClick={() => {
+            fetchWallets();
+            fetchDisputes();
+          }}
           className="flex items-center gap-2 px-4 py-2 rounded-lg border border-gray-200 text-gray-700 hover:bg-gray-50"
         >
           <RefreshCw className="h-4 w-4" />
@@ -417,6 +540,102 @@ export default function AdminWalletPage() {
         )}
       </div>
 
+      {/* Refunds & Disputes */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden mt-6">
+        <div className="flex items-center gap-2 px-6 py-4 border-b border-gray-100">
+          <ShieldAlert className="h-5 w-5 text-amber-500" />
+          <h2 className="text-lg font-semibold text-gray-900">Refunds &amp; Disputes</h2>
+          <span className="ml-auto text-sm text-gray-500">
+            {disputes.filter((dispute) => dispute.review_status === "pending").length} awaiting review
+          </span>
+        </div>
+        {disputes.length === 0 ? (
+          <p className="px-6 py-8 text-center text-sm text-gray-500">
+            No refunds or chargebacks reported by payment providers.
+          </p>
+        ) : (
+          <div className="max-h-[50vh] overflow-auto">
+            <table className="w-full min-w-[960px]">
+              <thead className="sticky top-0 z-10 bg-gray-50 border-b border-gray-100">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">User</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Case</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Amount</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Clawed Back</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Review</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {disputes.map((dispute) => (
+                  <tr key={dispute.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4">
+                      <p className="text-sm font-medium text-gray-900">
+                        {dispute.user?.display_name || "Unknown"}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {dispute.user?.email || "No matching payment"}
+                      </p>
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm capitalize text-gray-900">
+                          {dispute.provider} {dispute.kind}
+                        </span>
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${DISPUTE_STATUS_STYLES[dispute.status]}`}>
+                          {dispute.status}
+                        </span>
+                      </div>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {dispute.reference || "—"}
+                        {dispute.reason ? ` · ${dispute.reason}` : ""}
+                      </p>
+                      <p className="text-xs text-gray-400">
+                        {new Date(dispute.created_at).toLocaleString()}
+                      </p>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      {(dispute.currency || "ngn").toUpperCase()}{" "}
+                      {(dispute.amount_cents / 100).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-600">
+                      <p>₦{(dispute.wallet_clawed_back_cents / 100).toLocaleString()} wallet</p>
+                      <p>{dispute.credits_clawed_back} credits</p>
+                      {dispute.suspended_membership_id && (
+                        <p className="text-xs text-amber-600">Membership suspended</p>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-right">
+                      {dispute.review_status === "pending" ? (
+                        <div className="flex items-center justify-end gap-2">
+                          <button
+                            onClick={() => handleReviewDispute(dispute, "restore")}
+                            disabled={reviewingDisputeId === dispute.id}
+                            className="px-3 py-1.5 rounded-lg border border-gray-200 text-gray-700 text-sm hover:bg-gray-50 disabled:opacity-50"
+                          >
+                            Restore access
+                          </button>
+                          <button
+                            onClick={() => handleReviewDispute(dispute, "revoke")}
+                            disabled={reviewingDisputeId === dispute.id}
+                            className="px-3 py-1.5 rounded-lg bg-red-600 text-white text-sm hover:bg-red-700 disabled:opacity-50"
+                          >
+                            Revoke access
+                          </button>
+                        </div>
+                      ) : (
+                        <span className="text-sm capitalize text-gray-500">
+                          {dispute.review_status === "none" ? "—" : dispute.review_status}
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
       {/* Adjustment Modal */}
       {selectedWallet && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
@@ -2,7 +2,13 @@ import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 import { createServerClient } from "@supabase/ssr";
 import { cookies } from "next/headers";
+import { grantCreditLotSafely } from "@/lib/credits/lots";
 import { recordCreditTransaction } from "@/lib/credits/transactions";
+import {
+  cardCreditPurchaseEntries,
+  postLedgerTransactionSafely,
+  walletEntries,
+} from "@/lib/ledger/ledger";
 import { restoreCreditLockedProfileIfEligible } from "@/lib/profile/credit-lock";
 import { canAccessPaidFeatures } from "@/lib/subscription/permissions";
 
@@ -178,6 +184,16 @@ export async function POST(request: NextRequest) {
         );
       }
 
+      // Keyed like the webhook's posting, so a top-up processed by both
+      // counts once in the ledger and any double credit shows up as drift.
+      await postLedgerTransactionSafely(supabase, {
+        kind: "wallet_topup",
+        userId,
+        idempotencyKey: sessionId ? `wallet_topup:${sessionId}` : null,
+        description: `Wallet top-up (manual processing) - ${(amountCents / 100).toFixed(2)}`,
+        entries: walletEntries(userId, amountCents, "payment_clearing"),
+      });
+
       console.log("[add-credits] Successfully processed wallet top-up for session:", sessionId);
 
       return NextResponse.json({
@@ -364,6 +380,23 @@ export async function POST(request: NextRequest) {
       description: `Manual credit purchase processing for ${parsedCredits} credit(s).`,
     });
 
+    await grantCreditLotSafely(supabase, {
+      userId,
+      source: "purchase",
+      amount: parsedCredits,
+      reference: sessionId ? `credit_purchase:${sessionId}` : null,
+    });
+
+    const purchaseAmountCents =
+      typeof amountCents === "number" && amountCents > 0 ? amountCents : 0;
+    await postLedgerTransactionSafely(supabase, {
+      kind: "credit_purchase",
+      userId,
+      idempotencyKey: sessionId ? `credit_purchase:${sessionId}` : null,
+      description: `Manual credit purchase processing for ${parsedCredits} credit(s).`,
+      entries: cardCreditPurchaseEntries(userId, purchaseAmountCents, parsedCredits),
+    });
+
     return NextResponse.json({
       success: true,
       creditsAdded: parsedCredits,
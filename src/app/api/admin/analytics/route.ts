@@ -5,6 +5,7 @@ import {
   isMissingNotificationDeliveryLogsTableError,
   summarizePushDelivery,
 } from "@/lib/notification-delivery";
+import { summarizePromoRedemptions } from "@/lib/promo-codes/promo-codes";
 
 /**
  * Admin Analytics API
@@ -15,6 +16,7 @@ import {
  * - Meeting stats (total, confirmed, completed, cancelled)
  * - Match stats (activity matches, meeting matches)
  * - Revenue stats (from wallet_transactions)
+ * - Promotion stats (applied promo code redemptions)
  * - Profile completion stats
  * - 7-day trend data for charts
  *
@@ -197,6 +199,62 @@ export async function GET(request: NextRequest) {
       // wallet_transactions table might not exist
     }
 
+    // ---------------------------------------------------------------
+    // 5b. Promotion Stats (applied promo code redemptions)
+    // ---------------------------------------------------------------
+    let promotions = {
+      redemptions: 0,
+      redemptions_this_month: 0,
+      discount_by_currency: {} as Record<string, number>,
+      revenue_by_currency: {} as Record<string, number>,
+      top_codes: [] as { code: string; redemptions: number; discount_by_currency: Record<string, number> }[],
+    };
+
+    const { data: promoRedemptions, error: promoError } = await supabase
+      .from("promo_redemptions")
+      .select("promo_code_id, status, currency, discount_cents, amount_cents, applied_at")
+      .eq("status", "applied");
+
+    if (promoError) {
+      console.error("Error loading promo redemptions:", promoError);
+    } else if (promoRedemptions && promoRedemptions.length > 0) {
+      const usage = summarizePromoRedemptions(promoRedemptions);
+      const topIds = Object.keys(usage)
+        .sort((a, b) => usage[b].redemptions - usage[a].redemptions)
+        .slice(0, 5);
+      const { data: topCodes } = await supabase
+        .from("promo_codes")
+        .select("id, code")
+        .in("id", topIds);
+      const codesById = new Map((topCodes || []).map((promo) => [promo.id, promo.code]));
+
+      const addTotals = (target: Record<string, number>, totals: Record<string, number>) => {
+        for (const [currency, cents] of Object.entries(totals)) {
+          target[currency] = (target[currency] || 0) + cents;
+        }
+      };
+      const discountByCurrency: Record<string, number> = {};
+      const revenueByCurrency: Record<string, number> = {};
+      for (const entry of Object.values(usage)) {
+        addTotals(discountByCurrency, entry.discountCents);
+        addTotals(revenueByCurrency, entry.revenueCents);
+      }
+
+      promotions = {
+        redemptions: promoRedemptions.length,
+        redemptions_this_month: promoRedemptions.filter(
+          (redemption) => redemption.applied_at && redemption.applied_at >= thisMonthStart
+        ).length,
+        discount_by_currency: discountByCurrency,
+        revenue_by_currency: revenueByCurrency,
+        top_codes: topIds.map((id) => ({
+          code: codesById.get(id) || id,
+          redemptions: usage[id].redemptions,
+          discount_by_currency: usage[id].discountCents,
+        })),
+      };
+    }
+
     // ---------------------------------------------------------------
     // 6. Profile Completion Stats
     // ---------------------------------------------------------------
@@ -288,6 +346,7 @@ export async function GET(request: NextRequest) {
         total: totalRevenue,
         this_month: monthlyRevenue,
       },
+      promotions,
       notifications: {
         total: totalNotifications || 0,
         push: pushDelivery,
@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { requireAdminAccess } from "@/lib/admin/permissions";
+import { describeGift, GIFT_COLUMNS, revokeGift, type GiftRow } from "@/lib/gifts/gifts";
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+const GIFT_STATUSES = new Set(["pending_payment", "paid", "redeemed", "revoked"]);
+
+/**
+ * GET /api/admin/gifts?status=paid
+ * Gifts newest first, with the buyer and whoever redeemed or was sent each one.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const guard = await requireAdminAccess(request, {
+      anyPermissions: ["view_wallet", "manage_wallet"],
+    });
+    if (!guard.ok) {
+      return NextResponse.json({ error: guard.error }, { status: guard.status });
+    }
+
+    const url = new URL(request.url);
+    const status = url.searchParams.get("status");
+
+    let query = supabase
+      .from("gifts")
+      .select(GIFT_COLUMNS)
+      .order("created_at", { ascending: false })
+      .limit(100);
+
+    if (status && GIFT_STATUSES.has(status)) {
+      query = query.eq("status", status);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    const gifts = (data || []) as GiftRow[];
+    const userIds = Array.from(
+      new Set(
+        gifts
+          .flatMap((gift) => [gift.buyer_id, gift.redeemed_by || gift.recipient_id])
+          .filter((id): id is string => Boolean(id))
+      )
+    );
+    const { data: accounts, error: accountsError } = userIds.length
+      ? await supabase.from("accounts").select("id, email, display_name").in("id", userIds)
+      : { data: [], error: null };
+
+    if (accountsError) throw accountsError;
+
+    const accountsById = new Map((accounts || []).map((account) => [account.id, account]));
+    const summarize = (userId: string | null) => {
+      const account = userId ? accountsById.get(userId) : null;
+      return account ? { email: account.email, display_name: account.display_name } : null;
+    };
+
+    return NextResponse.json({
+      gifts: gifts.map((gift) => ({
+        ...gift,
+        description: describeGift(gift),
+        buyer: summarize(gift.buyer_id),
+        recipient: summarize(gift.redeemed_by || gift.recipient_id),
+      })),
+    });
+  } catch (error) {
+    console.error("[admin/gifts][GET] error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to load gifts" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/gifts
+ * Revoke a gift, taking it back from the recipient if it was redeemed.
+ * Body: { gift_id, reason? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const guard = await requireAdminAccess(request, {
+      anyPermissions: ["manage_wallet"],
+    });
+    if (!guard.ok) {
+      return NextResponse.json({ error: guard.error }, { status: guard.status });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const giftId = typeof body.gift_id === "string" ? body.gift_id.trim() : "";
+    const reason = typeof body.reason === "string" ? body.reason.trim().slice(0, 500) : null;
+
+    if (!giftId) {
+      return NextResponse.json({ error: "gift_id is required" }, { status: 400 });
+    }
+
+    const result = await revokeGift(supabase, {
+      giftId,
+      adminUserId: guard.context.userId,
+      reason: reason || null,
+    });
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.code, message: result.message },
+        { status: result.status }
+      );
+    }
+
+    await supabase.from("admin_logs").insert({
+      admin_id: guard.context.userId,
+      action: "gift_revoked",
+      meta: {
+        gift_id: giftId,
+        reason,
+        credits_removed: result.creditsRemoved,
+        plan_withdrawn: result.planWithdrawn,
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      credits_removed: result.creditsRemoved,
+      plan_withdrawn: result.planWithdrawn,
+    });
+  } catch (error) {
+    console.error("[admin/gifts][POST] error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to revoke gift" },
+      { status: 500 }
+    );
+  }
+}
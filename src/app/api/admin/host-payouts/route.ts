@@ -0,0 +1,271 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { requireAdminAccess } from "@/lib/admin/permissions";
+import { HOST_PAYOUT_COLUMNS, type HostPayoutRow } from "@/lib/host-earnings/earnings";
+import {
+  approveHostPayoutBatch,
+  cancelHostPayoutBatch,
+  createHostPayoutBatch,
+  HOST_PAYOUT_BATCH_COLUMNS,
+  settleHostPayout,
+  type HostPayoutBatchRow,
+} from "@/lib/host-earnings/payouts";
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+/**
+ * GET /api/admin/host-payouts
+ * Recent payout batches with their payouts and hosts, plus the earnings
+ * waiting for the next batch.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const guard = await requireAdminAccess(request, {
+      anyPermissions: ["view_wallet", "manage_wallet"],
+    });
+    if (!guard.ok) {
+      return NextResponse.json({ error: guard.error }, { status: guard.status });
+    }
+
+    const [
+      { data: batchRows, error: batchesError },
+      { data: waiting, error: waitingError },
+      { data: held, error: heldError },
+    ] = await Promise.all([
+      supabase
+        .from("host_payout_batches")
+        .select(HOST_PAYOUT_BATCH_COLUMNS)
+        .order("created_at", { ascending: false })
+        .limit(20),
+      supabase.from("host_earnings").select("currency, amount_cents").eq("status", "pending"),
+      supabase.from("host_earnings").select("currency, amount_cents").eq("status", "held"),
+    ]);
+
+    if (batchesError) throw batchesError;
+    if (waitingError) throw waitingError;
+    if (heldError) throw heldError;
+
+    const batches = (batchRows || []) as HostPayoutBatchRow[];
+    const { data: payoutRows, error: payoutsError } = batches.length
+      ? await supabase
+          .from("host_payouts")
+          .select(HOST_PAYOUT_COLUMNS)
+          .in(
+            "batch_id",
+            batches.map((batch) => batch.id)
+          )
+      : { data: [], error: null };
+
+    if (payoutsError) throw payoutsError;
+
+    const payouts = (payoutRows || []) as HostPayoutRow[];
+    const hostIds = Array.from(new Set(payouts.map((payout) => payout.host_id)));
+    const { data: hosts, error: hostsError } = hostIds.length
+      ? await supabase.from("host_profiles").select("id, user_id, host_type").in("id", hostIds)
+      : { data: [], error: null };
+
+    if (hostsError) throw hostsError;
+
+    const userIds = (hosts || []).map((host) => host.user_id);
+    const { data: accounts, error: accountsError } = userIds.length
+      ? await supabase.from("accounts").select("id, email, display_name").in("id", userIds)
+      : { data: [], error: null };
+
+    if (accountsError) throw accountsError;
+
+    const accountsById = new Map((accounts || []).map((account) => [account.id, account]));
+    const hostsById = new Map(
+      (hosts || []).map((host) => {
+        const account = accountsById.get(host.user_id);
+        return [
+          host.id,
+          {
+            host_type: host.host_type,
+            email: account?.email || null,
+            display_name: account?.display_name || null,
+          },
+        ];
+      })
+    );
+
+    const sumByCurrency = (rows: { currency: string; amount_cents: number }[]) =>
+      rows.reduce<Record<string, number>>((totals, row) => {
+        const currency = row.currency.toLowerCase();
+        totals[currency] = (totals[currency] || 0) + Number(row.amount_cents || 0);
+        return totals;
+      }, {});
+
+    return NextResponse.json({
+      waiting: {
+        earnings: (waiting || []).length,
+        amount_by_currency: sumByCurrency(waiting || []),
+        held_by_currency: sumByCurrency(held || []),
+      },
+      batches: batches.map((batch) => ({
+        ...batch,
+        payouts: payouts
+          .filter((payout) => payout.batch_id === batch.id)
+          .map((payout) => ({ ...payout, host: hostsById.get(payout.host_id) || null })),
+      })),
+    });
+  } catch (error) {
+    console.error("[admin/host-payouts][GET] error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to load host payouts" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/host-payouts
+ * Create, approve or cancel a payout batch.
+ * Body: { action: "create", earned_before?, notes? }
+ *     | { action: "approve" | "cancel", batch_id }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const guard = await requireAdminAccess(request, {
+      anyPermissions: ["manage_wallet"],
+    });
+    if (!guard.ok) {
+      return NextResponse.json({ error: guard.error }, { status: guard.status });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const batchId = typeof body.batch_id === "string" ? body.batch_id.trim() : "";
+
+    if (body.action === "create") {
+      const earnedBefore =
+        typeof body.earned_before === "string" && body.earned_before
+          ? new Date(body.earned_before)
+          : undefined;
+      if (earnedBefore && Number.isNaN(earnedBefore.getTime())) {
+        return NextResponse.json({ error: "earned_before must be a date" }, { status: 400 });
+      }
+
+      const result = await createHostPayoutBatch(supabase, {
+        adminUserId: guard.context.userId,
+        earnedBefore,
+        notes: typeof body.notes === "string" ? body.notes.trim().slice(0, 500) : null,
+      });
+      if (!result.ok) {
+        return NextResponse.json(
+          { error: result.code, message: result.message },
+          { status: result.status }
+        );
+      }
+
+      await supabase.from("admin_logs").insert({
+        admin_id: guard.context.userId,
+        action: "host_payout_batch_created",
+        meta: { batch_id: result.batch.id, payouts: result.payouts.length },
+      });
+
+      return NextResponse.json({ batch: result.batch, payouts: result.payouts });
+    }
+
+    if (body.action !== "approve" && body.action !== "cancel") {
+      return NextResponse.json(
+        { error: "action must be create, approve or cancel" },
+        { status: 400 }
+      );
+    }
+    if (!batchId) {
+      return NextResponse.json({ error: "batch_id is required" }, { status: 400 });
+    }
+
+    const result =
+      body.action === "approve"
+        ? await approveHostPayoutBatch(supabase, {
+            batchId,
+            adminUserId: guard.context.userId,
+          })
+        : await cancelHostPayoutBatch(supabase, { batchId });
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.code, message: result.message },
+        { status: result.status }
+      );
+    }
+
+    await supabase.from("admin_logs").insert({
+      admin_id: guard.context.userId,
+      action: body.action === "approve" ? "host_payout_batch_approved" : "host_payout_batch_canceled",
+      meta: { batch_id: batchId },
+    });
+
+    return NextResponse.json({ batch: result.batch });
+  } catch (error) {
+    console.error("[admin/host-payouts][POST] error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to update payout batch" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/admin/host-payouts
+ * Record whether one payout in an approved batch was paid or failed.
+ * Body: { payout_id, outcome: "paid" | "failed", reference?, failure_reason? }
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const guard = await requireAdminAccess(request, {
+      anyPermissions: ["manage_wallet"],
+    });
+    if (!guard.ok) {
+      return NextResponse.json({ error: guard.error }, { status: guard.status });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const payoutId = typeof body.payout_id === "string" ? body.payout_id.trim() : "";
+    if (!payoutId || (body.outcome !== "paid" && body.outcome !== "failed")) {
+      return NextResponse.json(
+        { error: "payout_id and an outcome of paid or failed are required" },
+        { status: 400 }
+      );
+    }
+
+    const trimmed = (value: unknown) =>
+      typeof value === "string" ? value.trim().slice(0, 500) || null : null;
+
+    const result = await settleHostPayout(supabase, {
+      payoutId,
+      outcome: body.outcome,
+      adminUserId: guard.context.userId,
+      reference: trimmed(body.reference),
+      failureReason: trimmed(body.failure_reason),
+    });
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.code, message: result.message },
+        { status: result.status }
+      );
+    }
+
+    await supabase.from("admin_logs").insert({
+      admin_id: guard.context.userId,
+      action: "host_payout_settled",
+      meta: {
+        payout_id: payoutId,
+        outcome: body.outcome,
+        reference: result.payout.reference,
+        batch_completed: result.batchCompleted,
+      },
+    });
+
+    return NextResponse.json({ payout: result.payout, batch_completed: result.batchCompleted });
+  } catch (error) {
+    console.error("[admin/host-payouts][PATCH] error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to record payout" },
+      { status: 500 }
+    );
+  }
+}
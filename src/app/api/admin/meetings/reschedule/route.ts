@@ -1,9 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 import { requireAdminAccess } from "@/lib/admin/permissions";
-import { createZoomMeeting, deleteZoomMeeting } from "@/lib/zoom";
 import { buildMeetingVideoLinkUpdate } from "@/lib/meetings/video-link";
 import { scheduleMeetingNotificationsForMeeting } from "@/lib/meetings/reminders";
+import { supersedePendingReschedule } from "@/lib/meetings/reschedule";
+import {
+  getMeetingVideoProviderId,
+  getMeetingVideoRoomId,
+  getVideoProvider,
+  type VideoProvider,
+} from "@/lib/video/providers";
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -20,6 +26,8 @@ type MeetingRow = {
   video_link: string | null;
   zoom_meeting_id: string | null;
   video_link_is_fallback: boolean | null;
+  video_provider: string | null;
+  video_room_id: string | null;
 };
 
 const RESCHEDULABLE_MEETING_STATUSES = new Set(["pending", "confirmed"]);
@@ -72,7 +80,8 @@ async function createVideoLinkForMeeting(meetingId: string, scheduledAt: string)
       .maybeSingle(),
   ]);
 
-  const zoomResult = await createZoomMeeting({
+  const roomResult = await getVideoProvider().createRoom({
+    meetingId,
     topic: `MatchIndeed: ${hostProfile?.first_name || "Host"} & ${guestProfile?.first_name || "Guest"}`,
     startTime: scheduledAt,
     durationMinutes: 30,
@@ -80,19 +89,19 @@ async function createVideoLinkForMeeting(meetingId: string, scheduledAt: string)
     guestName: guestProfile?.first_name || undefined,
   });
 
-  if (!zoomResult.success || !zoomResult.join_url || zoomResult.is_fallback) {
+  if (!roomResult.success || !roomResult.join_url || roomResult.is_fallback) {
     return {
       ok: false as const,
       error:
-        zoomResult.error ||
-        "Unable to generate a live Zoom meeting link for this time.",
+        roomResult.error ||
+        "Unable to generate a live video meeting link for this time.",
     };
   }
 
   return {
     ok: true as const,
-    zoomResult,
-    updateData: buildMeetingVideoLinkUpdate(zoomResult),
+    roomResult,
+    updateData: buildMeetingVideoLinkUpdate(roomResult),
   };
 }
 
@@ -121,7 +130,7 @@ export async function POST(request: NextRequest) {
     const { data: meeting, error: meetingError } = await supabase
       .from("meetings")
       .select(
-        "id, host_id, status, workflow_state, scheduled_at, video_link, zoom_meeting_id, video_link_is_fallback"
+        "id, host_id, status, workflow_state, scheduled_at, video_link, zoom_meeting_id, video_link_is_fallback, video_provider, video_room_id"
       )
       .eq("id", meetingId)
       .maybeSingle();
@@ -152,13 +161,19 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // A member's open proposal is moot once an admin picks the time.
+    if (typedMeeting.workflow_state === "reschedule_proposed") {
+      await supersedePendingReschedule(supabase, meetingId, guard.context.userId);
+    }
+
     let videoUpdate: Record<string, unknown> = {
       video_link: null,
       video_password: null,
       zoom_meeting_id: null,
+      video_room_id: null,
       video_link_is_fallback: false,
     };
-    let createdZoomMeetingId: string | null = null;
+    let createdRoom: { provider: VideoProvider; roomId: string } | null = null;
 
     if (typedMeeting.status === "confirmed") {
       const linkResult = await createVideoLinkForMeeting(
@@ -171,18 +186,24 @@ export async function POST(request: NextRequest) {
       }
 
       videoUpdate = linkResult.updateData;
-      createdZoomMeetingId = linkResult.zoomResult.meeting_id
-        ? String(linkResult.zoomResult.meeting_id)
+      createdRoom = linkResult.roomResult.room_id
+        ? {
+            provider: getVideoProvider(linkResult.roomResult.provider),
+            roomId: linkResult.roomResult.room_id,
+          }
         : null;
     }
 
-    if (typedMeeting.zoom_meeting_id) {
-      await deleteZoomMeeting(typedMeeting.zoom_meeting_id).catch((error) => {
-        console.warn(
-          "[admin/meetings/reschedule] old Zoom delete failed:",
-          error
-        );
-      });
+    const previousRoomId = getMeetingVideoRoomId(typedMeeting);
+    if (previousRoomId) {
+      await getVideoProvider(getMeetingVideoProviderId(typedMeeting))
+        .deleteRoom(previousRoomId)
+        .catch((error) => {
+          console.warn(
+            "[admin/meetings/reschedule] old video room delete failed:",
+            error
+          );
+        });
     }
 
     const updatePayload = {
@@ -200,10 +221,10 @@ export async function POST(request: NextRequest) {
       .single();
 
     if (updateError) {
-      if (createdZoomMeetingId) {
-        await deleteZoomMeeting(createdZoomMeetingId).catch((error) => {
+      if (createdRoom) {
+        await createdRoom.provider.deleteRoom(createdRoom.roomId).catch((error) => {
           console.warn(
-            "[admin/meetings/reschedule] new Zoom cleanup failed:",
+            "[admin/meetings/reschedule] new video room cleanup failed:",
             error
           );
         });
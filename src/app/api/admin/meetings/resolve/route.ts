@@ -2,7 +2,9 @@ import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 import { sendInvestigationResolvedEmail } from "@/lib/email";
 import { refundConsumedCredits } from "@/lib/credits/actions";
+import { postLedgerTransactionSafely, walletEntries } from "@/lib/ledger/ledger";
 import { requireAdminAccess } from "@/lib/admin/permissions";
+import { settleHeldMeetingEarningSafely } from "@/lib/host-earnings/earnings";
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -533,6 +535,14 @@ export async function POST(request: NextRequest) {
             balance_before_cents: wallet.balance_cents || 0,
             balance_after_cents: (wallet.balance_cents || 0) + meeting.fee_cents,
           });
+
+          await postLedgerTransactionSafely(supabase, {
+            kind: "refund",
+            userId: refundUserId,
+            idempotencyKey: `investigation_refund:${meeting_id}`,
+            description: `Refund after investigation for meeting ${meeting_id.slice(0, 8)}`,
+            entries: walletEntries(refundUserId, meeting.fee_cents, "meeting_fee_revenue"),
+          });
         }
       }
     }
@@ -562,6 +572,14 @@ export async function POST(request: NextRequest) {
           balance_before_cents: wallet.balance_cents || 0,
           balance_after_cents: (wallet.balance_cents || 0) - meeting.fee_cents,
         });
+
+        await postLedgerTransactionSafely(supabase, {
+          kind: "meeting_charge",
+          userId: chargeUserId,
+          idempotencyKey: `investigation_charge:${meeting_id}`,
+          description: `Charge after investigation for meeting ${meeting_id.slice(0, 8)}`,
+          entries: walletEntries(chargeUserId, -meeting.fee_cents, "meeting_fee_revenue"),
+        });
       }
     }
 
@@ -592,6 +610,12 @@ export async function POST(request: NextRequest) {
       throw meetingUpdateError;
     }
 
+    // A host earning held for this review is released or voided with it.
+    await settleHeldMeetingEarningSafely(supabase, {
+      meetingId: meeting_id,
+      chargeStatus: newChargeStatus,
+    });
+
     // ---------------------------------------------------------------
     // SEND RESOLUTION NOTIFICATIONS
     // ---------------------------------------------------------------
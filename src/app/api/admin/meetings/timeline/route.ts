@@ -0,0 +1,74 @@
+/**
+ * Admin Meeting Timeline API
+ *
+ * GET — Every workflow transition of one meeting, oldest first
+ *       Query: meeting_id
+ *       Returns: { events: [{ ...meeting_state_events row, actor_name }] }
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { requireAdminAccess } from "@/lib/admin/permissions";
+import { getMeetingTimeline } from "@/lib/meetings/transitions";
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+export async function GET(request: NextRequest) {
+  try {
+    const guard = await requireAdminAccess(request, {
+      anyPermissions: ["manage_meetings"],
+    });
+    if (!guard.ok) {
+      return NextResponse.json({ error: guard.error }, { status: guard.status });
+    }
+
+    const meetingId = new URL(request.url).searchParams.get("meeting_id");
+    if (!meetingId) {
+      return NextResponse.json(
+        { error: "meeting_id is required" },
+        { status: 400 }
+      );
+    }
+
+    const events = await getMeetingTimeline(supabase, meetingId);
+
+    const actorIds = Array.from(
+      new Set(
+        events
+          .map((event) => event.actor_id)
+          .filter((actorId): actorId is string => Boolean(actorId))
+      )
+    );
+    const { data: actors } =
+      actorIds.length > 0
+        ? await supabase
+            .from("accounts")
+            .select("id, email, display_name")
+            .in("id", actorIds)
+        : { data: [] };
+
+    return NextResponse.json({
+      events: events.map((event) => {
+        const actor = actors?.find((entry) => entry.id === event.actor_id);
+        return {
+          ...event,
+          actor_name: actor
+            ? actor.display_name || actor.email || "Unknown user"
+            : event.actor_role === "system"
+              ? "MatchIndeed"
+              : null,
+        };
+      }),
+    });
+  } catch (error) {
+    console.error("[admin/meetings/timeline] unexpected error:", error);
+    return NextResponse.json(
+      { error: "Failed to load meeting timeline" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,222 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { requireAdminAccess } from "@/lib/admin/permissions";
+import {
+  getMessageSafetyPolicy,
+  MESSAGE_SAFETY_FLAG_COLUMNS,
+  reviewMessageSafetyFlag,
+  updateMessageSafetyPolicy,
+  type MessageSafetyFlagRow,
+} from "@/lib/message-safety/pipeline";
+import {
+  isMessageSafetyAction,
+  MESSAGE_SAFETY_CATEGORIES,
+  type MessageSafetyPolicy,
+} from "@/lib/message-safety/screening";
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+const FLAG_STATUSES = ["pending", "approved", "removed"] as const;
+
+/**
+ * GET /api/admin/moderation/messages
+ * Flagged messages for review (?status=pending|approved|removed|all, default
+ * pending) and the current safety policy.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const guard = await requireAdminAccess(request, {
+      anyPermissions: ["moderate_photos", "view_reports", "resolve_reports"],
+    });
+    if (!guard.ok) {
+      return NextResponse.json({ error: guard.error }, { status: guard.status });
+    }
+
+    const status = request.nextUrl.searchParams.get("status") || "pending";
+    if (status !== "all" && !FLAG_STATUSES.includes(status as (typeof FLAG_STATUSES)[number])) {
+      return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+    }
+
+    let query = supabase
+      .from("message_safety_flags")
+      .select(MESSAGE_SAFETY_FLAG_COLUMNS)
+      .order("created_at", { ascending: false })
+      .limit(100);
+    if (status !== "all") {
+      query = query.eq("status", status);
+    }
+
+    const [{ data, error }, { count: pendingCount, error: countError }, policy] =
+      await Promise.all([
+        query,
+        supabase
+          .from("message_safety_flags")
+          .select("id", { count: "exact", head: true })
+          .eq("status", "pending"),
+        getMessageSafetyPolicy(supabase),
+      ]);
+
+    if (error) throw error;
+    if (countError) throw countError;
+
+    const flags = (data || []) as MessageSafetyFlagRow[];
+    const accountIds = Array.from(
+      new Set(flags.flatMap((flag) => [flag.sender_id, flag.recipient_id]))
+    );
+    const { data: accounts, error: accountsError } = accountIds.length
+      ? await supabase.from("accounts").select("id, email, display_name").in("id", accountIds)
+      : { data: [], error: null };
+
+    if (accountsError) throw accountsError;
+
+    const accountsById = new Map(
+      (accounts || []).map((account) => [
+        account.id,
+        { email: account.email, display_name: account.display_name },
+      ])
+    );
+
+    return NextResponse.json({
+      flags: flags.map((flag) => ({
+        ...flag,
+        sender: accountsById.get(flag.sender_id) || null,
+        recipient: accountsById.get(flag.recipient_id) || null,
+      })),
+      pending_count: pendingCount || 0,
+      policy,
+    });
+  } catch (error) {
+    console.error("[admin/moderation/messages][GET] error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to load flagged messages" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/moderation/messages
+ * Review a flagged message.
+ * Body: { flag_id, decision: "approve" | "remove", note? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const guard = await requireAdminAccess(request, {
+      anyPermissions: ["moderate_photos", "resolve_reports"],
+    });
+    if (!guard.ok) {
+      return NextResponse.json({ error: guard.error }, { status: guard.status });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const flagId = typeof body.flag_id === "string" ? body.flag_id.trim() : "";
+    if (!flagId || (body.decision !== "approve" && body.decision !== "remove")) {
+      return NextResponse.json(
+        { error: "flag_id and a decision of approve or remove are required" },
+        { status: 400 }
+      );
+    }
+
+    const result = await reviewMessageSafetyFlag(supabase, {
+      flagId,
+      decision: body.decision,
+      adminUserId: guard.context.userId,
+      note: typeof body.note === "string" ? body.note.trim().slice(0, 500) || null : null,
+    });
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.code, message: result.message },
+        { status: result.status }
+      );
+    }
+
+    await supabase.from("admin_logs").insert({
+      admin_id: guard.context.userId,
+      action: body.decision === "approve" ? "message_flag_approved" : "message_flag_removed",
+      meta: {
+        flag_id: flagId,
+        message_id: result.flag.message_id,
+        sender_id: result.flag.sender_id,
+        categories: result.flag.categories,
+      },
+    });
+
+    // A released message was never announced, so tell the recipient now.
+    if (result.released) {
+      try {
+        await supabase.from("notifications").insert({
+          user_id: result.flag.recipient_id,
+          type: "new_message",
+          title: "New Message",
+          message: "You have a new message. Open the chat to read it.",
+          data: {
+            match_id: result.flag.match_id,
+            sender_id: result.flag.sender_id,
+            message_id: result.flag.message_id,
+          },
+        });
+      } catch (notifyError) {
+        console.error("[admin/moderation/messages][POST] notification error:", notifyError);
+      }
+    }
+
+    return NextResponse.json({ flag: result.flag, released: result.released });
+  } catch (error) {
+    console.error("[admin/moderation/messages][POST] error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to review message" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/admin/moderation/messages
+ * Change what happens to each category of flagged message.
+ * Body: { policy: { [category]: "allow" | "blur" | "hold" | "block" } }
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const guard = await requireAdminAccess(request, {
+      anyPermissions: ["resolve_reports"],
+    });
+    if (!guard.ok) {
+      return NextResponse.json({ error: guard.error }, { status: guard.status });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const input = body.policy && typeof body.policy === "object" ? body.policy : {};
+    const changes: Partial<MessageSafetyPolicy> = {};
+    for (const category of MESSAGE_SAFETY_CATEGORIES) {
+      if (input[category] === undefined) continue;
+      if (!isMessageSafetyAction(input[category])) {
+        return NextResponse.json(
+          { error: `Invalid action for ${category}` },
+          { status: 400 }
+        );
+      }
+      changes[category] = input[category];
+    }
+
+    const before = await getMessageSafetyPolicy(supabase);
+    const policy = await updateMessageSafetyPolicy(supabase, guard.context.userId, changes);
+
+    await supabase.from("admin_logs").insert({
+      admin_id: guard.context.userId,
+      action: "message_safety_policy_updated",
+      meta: { before, after: policy },
+    });
+
+    return NextResponse.json({ policy });
+  } catch (error) {
+    console.error("[admin/moderation/messages][PUT] error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to update message policy" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { requireAdminAccess } from "@/lib/admin/permissions";
+import {
+  reviewPaymentDispute,
+  type PaymentDisputeReviewDecision,
+} from "@/lib/payments/disputes";
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+const REVIEW_DECISIONS = new Set<PaymentDisputeReviewDecision>(["restore", "revoke"]);
+
+/**
+ * GET /api/admin/payments/disputes?review=pending
+ * Provider refunds and chargebacks, newest first, with the affected user.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const guard = await requireAdminAccess(request, {
+      anyPermissions: ["view_wallet", "manage_wallet"],
+    });
+    if (!guard.ok) {
+      return NextResponse.json({ error: guard.error }, { status: guard.status });
+    }
+
+    const url = new URL(request.url);
+    const review = url.searchParams.get("review");
+
+    let query = supabase
+      .from("payment_disputes")
+      .select(
+        "id, provider, kind, provider_case_id, reference, user_id, record_kind, amount_cents, currency, reason, status, wallet_clawed_back_cents, credits_clawed_back, suspended_membership_id, review_status, reviewed_at, review_note, created_at, updated_at"
+      )
+      .order("created_at", { ascending: false })
+      .limit(100);
+
+    if (review) {
+      query = query.eq("review_status", review);
+    }
+
+    const { data: disputes, error } = await query;
+    if (error) throw error;
+
+    const userIds = Array.from(
+      new Set((disputes || []).map((dispute) => dispute.user_id).filter(Boolean))
+    );
+    const { data: accounts, error: accountsError } = userIds.length
+      ? await supabase.from("accounts").select("id, email, display_name").in("id", userIds)
+      : { data: [], error: null };
+
+    if (accountsError) throw accountsError;
+
+    const accountsById = new Map((accounts || []).map((account) => [account.id, account]));
+
+    return NextResponse.json({
+      disputes: (disputes || []).map((dispute) => {
+        const account = dispute.user_id ? accountsById.get(dispute.user_id) : null;
+        return {
+          ...dispute,
+          user: account ? { email: account.email, display_name: account.display_name } : null,
+        };
+      }),
+    });
+  } catch (error) {
+    console.error("[admin/payments/disputes][GET] error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to load disputes" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/payments/disputes
+ * Decide a case waiting for review: restore paid access or end the plan.
+ * Body: { dispute_id, decision: "restore" | "revoke", note? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const guard = await requireAdminAccess(request, {
+      anyPermissions: ["manage_wallet"],
+    });
+    if (!guard.ok) {
+      return NextResponse.json({ error: guard.error }, { status: guard.status });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const disputeId = typeof body.dispute_id === "string" ? body.dispute_id.trim() : "";
+    const decision = body.decision as PaymentDisputeReviewDecision;
+    const note = typeof body.note === "string" ? body.note.trim().slice(0, 500) : null;
+
+    if (!disputeId) {
+      return NextResponse.json({ error: "dispute_id is required" }, { status: 400 });
+    }
+
+    if (!REVIEW_DECISIONS.has(decision)) {
+      return NextResponse.json({ error: "Unknown decision" }, { status: 400 });
+    }
+
+    const result = await reviewPaymentDispute(supabase, {
+      disputeId,
+      decision,
+      adminUserId: guard.context.userId,
+      note,
+    });
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.code, message: result.message },
+        { status: result.status }
+      );
+    }
+
+    await supabase.from("admin_logs").insert({
+      admin_id: guard.context.userId,
+      action: "payment_dispute_reviewed",
+      meta: { dispute_id: disputeId, decision, note },
+    });
+
+    return NextResponse.json({ success: true, review_status: result.reviewStatus });
+  } catch (error) {
+    console.error("[admin/payments/disputes][POST] error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to review dispute" },
+      { status: 500 }
+    );
+  }
+}
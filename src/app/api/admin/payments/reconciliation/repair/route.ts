@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server";
+import Stripe from "stripe";
+import { createClient } from "@supabase/supabase-js";
+import { requireAdminAccess } from "@/lib/admin/permissions";
+import {
+  repairReconciliationItem,
+  type ReconciliationRepairAction,
+} from "@/lib/payments/provider-reconciliation";
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+const stripe = process.env.STRIPE_SECRET_KEY
+  ? new Stripe(process.env.STRIPE_SECRET_KEY, {
+      apiVersion: "2026-01-28.clover" as Stripe.StripeConfig["apiVersion"],
+      typescript: true,
+    })
+  : null;
+
+const REPAIR_ACTIONS = new Set<ReconciliationRepairAction>([
+  "replay_payment",
+  "reverse_duplicate",
+  "adjust_amount",
+  "reverse_refund",
+  "dismiss",
+]);
+
+/**
+ * POST /api/admin/payments/reconciliation/repair
+ * Apply a one-click repair to a reconciliation item, or dismiss it.
+ * Body: { item_id, action, note? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const guard = await requireAdminAccess(request, {
+      anyPermissions: ["manage_wallet"],
+    });
+    if (!guard.ok) {
+      return NextResponse.json({ error: guard.error }, { status: guard.status });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const itemId = typeof body.item_id === "string" ? body.item_id.trim() : "";
+    const action = body.action as ReconciliationRepairAction;
+    const note = typeof body.note === "string" ? body.note.trim().slice(0, 500) : null;
+
+    if (!itemId) {
+      return NextResponse.json({ error: "item_id is required" }, { status: 400 });
+    }
+
+    if (!REPAIR_ACTIONS.has(action)) {
+      return NextResponse.json({ error: "Unknown repair action" }, { status: 400 });
+    }
+
+    const result = await repairReconciliationItem(
+      supabase,
+      { itemId, action, adminUserId: guard.context.userId, note },
+      {
+        retrieveStripeCheckoutSessionFn: stripe
+          ? (sessionId) =>
+              stripe.checkout.sessions.retrieve(sessionId, { expand: ["subscription"] })
+          : undefined,
+      }
+    );
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.code, message: result.message },
+        { status: result.status }
+      );
+    }
+
+    await supabase.from("admin_logs").insert({
+      admin_id: guard.context.userId,
+      action: "payment_reconciliation_repaired",
+      meta: { item_id: itemId, repair_action: action, note, result: result.result },
+    });
+
+    return NextResponse.json({ success: true, action, result: result.result });
+  } catch (error) {
+    console.error("[admin/payments/reconciliation/repair] error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to repair payment" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,155 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { requireAdminAccess } from "@/lib/admin/permissions";
+import {
+  getAvailableRepairActions,
+  importProviderExport,
+  isReconciliationProvider,
+  type ReconciliationItemRow,
+} from "@/lib/payments/provider-reconciliation";
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+const MAX_EXPORT_LENGTH = 5_000_000;
+
+/**
+ * GET /api/admin/payments/reconciliation
+ * Recent imports and the items of one import (the latest by default), each
+ * with the repairs it offers. ?resolution=open limits the items.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const guard = await requireAdminAccess(request, {
+      anyPermissions: ["view_wallet", "manage_wallet"],
+    });
+    if (!guard.ok) {
+      return NextResponse.json({ error: guard.error }, { status: guard.status });
+    }
+
+    const url = new URL(request.url);
+    const resolution = url.searchParams.get("resolution");
+
+    const { data: imports, error: importsError } = await supabase
+      .from("payment_reconciliation_imports")
+      .select("id, provider, file_name, imported_by, row_count, summary, created_at")
+      .order("created_at", { ascending: false })
+      .limit(20);
+
+    if (importsError) {
+      console.error("[admin/payments/reconciliation][GET] imports error:", importsError);
+      return NextResponse.json({ error: "Failed to load imports" }, { status: 500 });
+    }
+
+    const importId = url.searchParams.get("import_id") || imports?.[0]?.id || null;
+    if (!importId) {
+      return NextResponse.json({ imports: [], import_id: null, items: [] });
+    }
+
+    let query = supabase
+      .from("payment_reconciliation_items")
+      .select("*")
+      .eq("import_id", importId)
+      .order("created_at", { ascending: true })
+      .limit(1000);
+
+    if (resolution === "open" || resolution === "repaired" || resolution === "dismissed") {
+      query = query.eq("resolution", resolution);
+    }
+
+    const { data: items, error: itemsError } = await query;
+    if (itemsError) {
+      console.error("[admin/payments/reconciliation][GET] items error:", itemsError);
+      return NextResponse.json({ error: "Failed to load reconciliation items" }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      imports: imports || [],
+      import_id: importId,
+      items: ((items || []) as ReconciliationItemRow[]).map((item) => ({
+        ...item,
+        repair_actions: item.resolution === "open" ? getAvailableRepairActions(item) : [],
+      })),
+    });
+  } catch (error) {
+    console.error("[admin/payments/reconciliation][GET] unexpected error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/payments/reconciliation
+ * Import a provider's CSV or JSON transaction export.
+ * Body: { provider, content, file_name? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const guard = await requireAdminAccess(request, {
+      anyPermissions: ["manage_wallet"],
+    });
+    if (!guard.ok) {
+      return NextResponse.json({ error: guard.error }, { status: guard.status });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const provider = body.provider;
+    const content = typeof body.content === "string" ? body.content : "";
+    const fileName =
+      typeof body.file_name === "string" ? body.file_name.trim().slice(0, 255) : null;
+
+    if (!isReconciliationProvider(provider)) {
+      return NextResponse.json(
+        { error: "provider must be stripe, paystack or flutterwave" },
+        { status: 400 }
+      );
+    }
+
+    if (!content.trim()) {
+      return NextResponse.json({ error: "content is required" }, { status: 400 });
+    }
+
+    if (content.length > MAX_EXPORT_LENGTH) {
+      return NextResponse.json(
+        { error: "The export is too large; split it by date range." },
+        { status: 413 }
+      );
+    }
+
+    const result = await importProviderExport(supabase, {
+      provider,
+      content,
+      fileName,
+      importedBy: guard.context.userId,
+    });
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.code, message: result.message },
+        { status: result.status }
+      );
+    }
+
+    await supabase.from("admin_logs").insert({
+      admin_id: guard.context.userId,
+      action: "payment_export_imported",
+      meta: {
+        import_id: result.importId,
+        provider,
+        file_name: fileName,
+        summary: result.summary,
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      import_id: result.importId,
+      summary: result.summary,
+    });
+  } catch (error) {
+    console.error("[admin/payments/reconciliation][POST] unexpected error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,176 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { requireAdminAccess } from "@/lib/admin/permissions";
+import {
+  parsePromoCodeInput,
+  PROMO_CODE_COLUMNS,
+  summarizePromoRedemptions,
+  type PromoCodeRow,
+  type PromoRedemptionRow,
+} from "@/lib/promo-codes/promo-codes";
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+/**
+ * GET /api/admin/promo-codes
+ * Promo codes newest first, each with its applied redemptions, discount
+ * given and revenue collected per currency.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const guard = await requireAdminAccess(request, {
+      anyPermissions: ["manage_pricing", "view_analytics"],
+    });
+    if (!guard.ok) {
+      return NextResponse.json({ error: guard.error }, { status: guard.status });
+    }
+
+    const { data, error } = await supabase
+      .from("promo_codes")
+      .select(PROMO_CODE_COLUMNS)
+      .order("created_at", { ascending: false })
+      .limit(200);
+
+    if (error) throw error;
+
+    const promoCodes = (data || []) as PromoCodeRow[];
+    const { data: redemptions, error: redemptionsError } = promoCodes.length
+      ? await supabase
+          .from("promo_redemptions")
+          .select("promo_code_id, status, currency, discount_cents, amount_cents")
+          .in(
+            "promo_code_id",
+            promoCodes.map((promo) => promo.id)
+          )
+      : { data: [], error: null };
+
+    if (redemptionsError) throw redemptionsError;
+
+    const usage = summarizePromoRedemptions((redemptions || []) as PromoRedemptionRow[]);
+
+    return NextResponse.json({
+      promo_codes: promoCodes.map((promo) => ({
+        ...promo,
+        usage: usage[promo.id] || { redemptions: 0, discountCents: {}, revenueCents: {} },
+      })),
+    });
+  } catch (error) {
+    console.error("[admin/promo-codes][GET] error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to load promo codes" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/promo-codes
+ * Create a promo code.
+ * Body: { code, description?, discount_type, percent_off | amount_off_cents + currency,
+ *         tiers?, first_purchase_only?, max_redemptions?, max_redemptions_per_user?,
+ *         starts_at?, expires_at? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const guard = await requireAdminAccess(request, {
+      anyPermissions: ["manage_pricing"],
+    });
+    if (!guard.ok) {
+      return NextResponse.json({ error: guard.error }, { status: guard.status });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const parsed = parsePromoCodeInput(body);
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: "invalid_promo_code", message: parsed.message },
+        { status: 400 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("promo_codes")
+      .insert({ ...parsed.values, created_by: guard.context.userId })
+      .select(PROMO_CODE_COLUMNS)
+      .single<PromoCodeRow>();
+
+    if (error) {
+      if (error.code === "23505") {
+        return NextResponse.json(
+          { error: "duplicate_code", message: `${parsed.values.code} already exists.` },
+          { status: 409 }
+        );
+      }
+      throw error;
+    }
+
+    await supabase.from("admin_logs").insert({
+      admin_id: guard.context.userId,
+      action: "promo_code_created",
+      meta: { promo_code_id: data.id, code: data.code },
+    });
+
+    return NextResponse.json({ promo_code: data });
+  } catch (error) {
+    console.error("[admin/promo-codes][POST] error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to create promo code" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/admin/promo-codes
+ * Switch a promo code on or off. Redemptions already made are unaffected.
+ * Body: { promo_code_id, active }
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const guard = await requireAdminAccess(request, {
+      anyPermissions: ["manage_pricing"],
+    });
+    if (!guard.ok) {
+      return NextResponse.json({ error: guard.error }, { status: guard.status });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const promoCodeId = typeof body.promo_code_id === "string" ? body.promo_code_id.trim() : "";
+    if (!promoCodeId || typeof body.active !== "boolean") {
+      return NextResponse.json(
+        { error: "promo_code_id and active are required" },
+        { status: 400 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("promo_codes")
+      .update({ active: body.active, updated_at: new Date().toISOString() })
+      .eq("id", promoCodeId)
+      .select(PROMO_CODE_COLUMNS)
+      .maybeSingle<PromoCodeRow>();
+
+    if (error) throw error;
+    if (!data) {
+      return NextResponse.json({ error: "Promo code not found" }, { status: 404 });
+    }
+
+    await supabase.from("admin_logs").insert({
+      admin_id: guard.context.userId,
+      action: "promo_code_updated",
+      meta: { promo_code_id: data.id, code: data.code, active: data.active },
+    });
+
+    return NextResponse.json({ promo_code: data });
+  } catch (error) {
+    console.error("[admin/promo-codes][PATCH] error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to update promo code" },
+      { status: 500 }
+    );
+  }
+}
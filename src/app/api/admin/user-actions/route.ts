@@ -7,6 +7,7 @@ import {
   GROWTH_MANAGER_PERMISSIONS,
   GROWTH_MANAGER_ROLE,
 } from "@/lib/admin/growth-manager";
+import { drawDownCreditLots, grantCreditLotSafely } from "@/lib/credits/lots";
 
 /**
  * Admin User Actions API
@@ -714,6 +715,21 @@ export async function POST(request: NextRequest) {
 
         if (error) throw error;
 
+        if (newTotal > currentTotal) {
+          await grantCreditLotSafely(supabase, {
+            userId: targetUserId,
+            source: "admin",
+            amount: newTotal - currentTotal,
+            note: reason || null,
+          });
+        } else if (newTotal < currentTotal) {
+          await drawDownCreditLots(supabase, targetUserId, currentTotal - newTotal).catch(
+            (lotError) => {
+              console.warn("[admin/user-actions] Failed to draw down credit lots:", lotError);
+            }
+          );
+        }
+
         await logAction(
           adminId,
           targetUserId,
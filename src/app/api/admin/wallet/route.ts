@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 import { requireAdminAccess } from "@/lib/admin/permissions";
+import { postLedgerTransactionSafely, walletEntries } from "@/lib/ledger/ledger";
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -287,6 +288,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    await postLedgerTransactionSafely(supabase, {
+      kind: "admin_adjustment",
+      userId,
+      description: reason,
+      metadata: { admin_id: admin.userId },
+      entries: walletEntries(userId, appliedAdjustment, "admin_adjustments"),
+    });
+
     await supabase.from("admin_logs").insert({
       admin_id: admin.userId,
       target_user_id: userId,
@@ -24,6 +24,7 @@ import {
   MINIMUM_PLATFORM_AGE,
 } from "@/lib/age-restrictions";
 import { relationshipStatusToDbValue } from "@/lib/relationship-status";
+import { buildProfileGeoColumns } from "@/lib/geo/geocode";
 import {
   getTargetGenderFromLookingFor,
   normalizeLookingForOption,
@@ -498,6 +499,7 @@ export async function POST(request: NextRequest) {
       date_of_birth: normalizedDateOfBirth || null,
       gender: normalizedGender || null,
       location: normalizedLocation || null,
+      ...buildProfileGeoColumns(normalizedLocation || null),
       ethnicity: payload.ethnicity || null,
       religion: payload.religion || null,
       languages: payload.languages.length > 0 ? payload.languages : null,
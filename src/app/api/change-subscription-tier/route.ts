@@ -0,0 +1,212 @@
+import { NextRequest, NextResponse } from "next/server";
+import Stripe from "stripe";
+import { createClient } from "@supabase/supabase-js";
+import { createServerClient } from "@supabase/ssr";
+import { cookies } from "next/headers";
+import {
+  changeStripeSubscriptionTier,
+  changeTierWithWallet,
+  completeTierChange,
+  createTierChange,
+  quoteTierChange,
+  type TierChangeQuote,
+} from "@/lib/subscription/tier-change";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+const stripe = process.env.STRIPE_SECRET_KEY
+  ? new Stripe(process.env.STRIPE_SECRET_KEY, {
+      apiVersion: "2026-01-28.clover" as Stripe.StripeConfig["apiVersion"],
+      typescript: true,
+    })
+  : null;
+
+async function getAuthenticatedUser() {
+  const cookieStore = await cookies();
+  const supabaseServer = createServerClient(
+    supabaseUrl,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll();
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) => {
+              cookieStore.set(name, value, options);
+            });
+          } catch {
+            // Ignore cookie writes inside API routes.
+          }
+        },
+      },
+    }
+  );
+
+  const {
+    data: { user },
+    error,
+  } = await supabaseServer.auth.getUser();
+  return error || !user ? null : user;
+}
+
+function serializeQuote(quote: TierChangeQuote, billedByStripe: boolean) {
+  return {
+    from_tier: quote.fromTier,
+    to_tier: quote.toTier,
+    direction: quote.direction,
+    currency: quote.currency,
+    current_price_cents: quote.currentPriceCents,
+    target_price_cents: quote.targetPriceCents,
+    period_ends_at: quote.periodEndsAt,
+    remaining_ratio: quote.remainingRatio,
+    unused_credit_cents: quote.unusedCreditCents,
+    amount_due_cents: quote.amountDueCents,
+    wallet_credit_cents: quote.walletCreditCents,
+    settlement: billedByStripe ? "stripe" : quote.amountDueCents > 0 ? "wallet_or_checkout" : "none",
+  };
+}
+
+/**
+ * GET /api/change-subscription-tier?tier=premium&currency=usd
+ *
+ * Prorated quote for switching the active paid plan to another tier.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser();
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const result = await quoteTierChange(supabase, {
+      userId: user.id,
+      targetTier: searchParams.get("tier"),
+      currency: searchParams.get("currency"),
+    });
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.code, message: result.message },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      quote: serializeQuote(result.quote, Boolean(result.membership.stripe_subscription_id)),
+    });
+  } catch (error) {
+    console.error("Error in GET /api/change-subscription-tier:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/change-subscription-tier
+ *
+ * Switch the active paid plan now. Stripe subscriptions are re-priced on the
+ * saved card; other plans pay the prorated amount from the wallet. A 402
+ * means the wallet is short, or doesn't hold the plan's currency, and the
+ * client should open a hosted checkout (create-checkout-session prorates the
+ * same way).
+ *
+ * Body:
+ *   tier     — target tier
+ *   currency — fallback currency for memberships without one recorded
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser();
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const quoteResult = await quoteTierChange(supabase, {
+      userId: user.id,
+      targetTier: body.tier,
+      currency: body.currency,
+    });
+
+    if (!quoteResult.ok) {
+      return NextResponse.json(
+        { error: quoteResult.code, message: quoteResult.message },
+        { status: quoteResult.status }
+      );
+    }
+
+    const { membership, quote } = quoteResult;
+
+    if (membership.stripe_subscription_id) {
+      if (!stripe) {
+        return NextResponse.json(
+          { error: "stripe_unavailable", message: "Card billing is not configured." },
+          { status: 503 }
+        );
+      }
+
+      const change = await createTierChange(supabase, {
+        membership,
+        quote,
+        provider: "stripe",
+        paymentReference: `stripe_${membership.stripe_subscription_id}_${Date.now()}`,
+      });
+
+      let stripeResult: { expiresAt: string | null };
+      try {
+        stripeResult = await changeStripeSubscriptionTier(stripe, { membership, change });
+      } catch (stripeError) {
+        console.error("[change-subscription-tier] Stripe update failed:", stripeError);
+        await supabase
+          .from("subscription_tier_changes")
+          .update({
+            status: "failed",
+            error: stripeError instanceof Error ? stripeError.message : "Stripe update failed",
+          })
+          .eq("id", change.id);
+        return NextResponse.json(
+          {
+            error: "payment_failed",
+            message: "Your card was not charged and your plan was not changed. Please check your payment method.",
+          },
+          { status: 402 }
+        );
+      }
+
+      const result = await completeTierChange(supabase, change, {
+        amountPaidCents: quote.amountDueCents,
+        paymentCurrency: quote.currency,
+        expiresAt: stripeResult.expiresAt,
+      });
+      if (!result.ok) {
+        return NextResponse.json(
+          { error: result.code, message: result.message },
+          { status: result.status }
+        );
+      }
+
+      return NextResponse.json({ success: true, ...result, quote: serializeQuote(quote, true) });
+    }
+
+    const result = await changeTierWithWallet(supabase, { membership, quote });
+    if (!result.ok) {
+      return NextResponse.json(
+        {
+          error: result.code,
+          message: result.message,
+          required: quote.amountDueCents,
+        },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({ success: true, ...result, quote: serializeQuote(quote, false) });
+  } catch (error) {
+    console.error("Error in POST /api/change-subscription-tier:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
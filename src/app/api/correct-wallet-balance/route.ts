@@ -3,6 +3,7 @@ import { createClient } from "@supabase/supabase-js";
 import { createServerClient } from "@supabase/ssr";
 import { cookies } from "next/headers";
 import { hasUnlockedWalletAccess } from "@/lib/subscription/permissions";
+import { getLedgerBalances } from "@/lib/ledger/ledger";
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
@@ -12,8 +13,7 @@ const getErrorMessage = (error: unknown, fallback: string): string =>
   error instanceof Error ? error.message : fallback;
 
 /**
- * Correct wallet balance based on actual transaction records
- * This recalculates the balance from transaction history
+ * Correct the cached wallet balance to the balance derived from the ledger
  */
 export async function POST() {
   try {
@@ -57,62 +57,8 @@ export async function POST() {
       );
     }
 
-    // Get all transactions for this user
-    const { data: transactions, error: transError } = await supabase
-      .from("wallet_transactions")
-      .select("type, amount_cents, balance_before_cents, balance_after_cents, created_at")
-      .eq("user_id", user.id)
-      .order("created_at", { ascending: true });
-
-    if (transError) {
-      console.error("[correct-wallet] Error fetching transactions:", transError);
-      return NextResponse.json(
-        { error: "Failed to fetch transactions" },
-        { status: 500 }
-      );
-    }
-
-    // Derive the correct wallet balance from transaction history.
-    //
-    // We use the balance_after_cents of the MOST RECENT transaction that
-    // actually changed the wallet balance (balance_before ≠ balance_after),
-    // skipping admin_adjustment records (which are themselves corrections and
-    // may carry stale or incorrect values from previous buggy runs).
-    //
-    // Why not sum all amount_cents?
-    //   Summing can over-state the balance for users who had their wallet
-    //   silently clamped to 0 in the past (by the fetchWalletData safeguard)
-    //   without a corresponding wallet_transaction record.  The most-recent
-    //   balance_after approach only looks at the last known good state, so it
-    //   naturally accounts for those gaps.
-    //
-    // Transactions arrive in ascending created_at order; we scan from the end.
-    let calculatedBalance = 0;
-    let foundRealTransaction = false;
-    const transactionLog: Array<{ type: string; amount: number; balance: number }> = [];
-
-    if (transactions && transactions.length > 0) {
-      for (let i = transactions.length - 1; i >= 0; i--) {
-        const tx = transactions[i];
-
-        // Skip corrections from previous runs of this very route.
-        if (tx.type === "admin_adjustment") continue;
-
-        // Skip tracking-only records (Stripe-card payments recorded with
-        // balance_before === balance_after because no wallet money moved).
-        if (tx.balance_before_cents === tx.balance_after_cents) continue;
-
-        // Found the most recent real wallet movement.
-        calculatedBalance = tx.balance_after_cents ?? 0;
-        foundRealTransaction = true;
-        transactionLog.push({
-          type: tx.type,
-          amount: tx.amount_cents,
-          balance: calculatedBalance,
-        });
-        break;
-      }
-    }
+    // The ledger is the source of truth; the wallets row is a cache of it.
+    const { walletCents: calculatedBalance } = await getLedgerBalances(supabase, user.id);
 
     // Get current wallet balance
     const { data: currentWallet } = await supabase
@@ -123,23 +69,9 @@ export async function POST() {
 
     const currentBalance = currentWallet?.balance_cents || 0;
 
-    // If we found no real wallet transactions there is no reliable baseline;
-    // skip correction to avoid accidentally zeroing a legitimately funded wallet.
-    if (!foundRealTransaction) {
-      return NextResponse.json({
-        success: true,
-        corrected: false,
-        currentBalance,
-        calculatedBalance: currentBalance,
-        difference: 0,
-        message: "No real wallet transactions found; balance left unchanged.",
-      });
-    }
-
     const difference = currentBalance - calculatedBalance;
 
-    // If there's a significant difference, correct it
-    if (Math.abs(difference) > 100) { // More than 1 unit difference
+    if (difference !== 0) {
       const { error: updateError } = await supabase
         .from("wallets")
         .upsert({
@@ -156,7 +88,8 @@ export async function POST() {
         );
       }
 
-      // Create an admin adjustment record
+      // Record the correction in the wallet history. The ledger already
+      // holds the corrected balance, so nothing is posted to it.
       await supabase.from("wallet_transactions").insert({
         user_id: user.id,
         type: "admin_adjustment",
@@ -2,8 +2,30 @@ import { NextRequest, NextResponse } from "next/server";
 import { createServerClient } from "@supabase/ssr";
 import { createClient } from "@supabase/supabase-js";
 import { cookies } from "next/headers";
-import { STRIPE_SUBSCRIPTION_AMOUNTS_SMALLEST_UNIT } from "@/lib/subscription/config";
+import {
+  resolveSubscriptionPriceCents,
+  SUBSCRIPTION_PRICE_COLUMNS,
+  type SubscriptionPricingRow,
+  type TierId,
+} from "@/lib/subscription/config";
 import { canAccessPaidFeatures } from "@/lib/subscription/permissions";
+import {
+  getGiftCreditsAmountCents,
+  isGiftKind,
+  isValidGiftCredits,
+  MAX_GIFT_CREDITS,
+  MIN_GIFT_CREDITS,
+  normalizeGiftMessage,
+  normalizeGiftRecipientEmail,
+} from "@/lib/gifts/config";
+import { createGift, describeGift, linkGiftPaymentReference } from "@/lib/gifts/gifts";
+import { quotePromoCode, reservePromoRedemption } from "@/lib/promo-codes/promo-codes";
+import {
+  createTierChange,
+  getActivePaidMembership,
+  linkTierChangePaymentReference,
+  quoteTierChange,
+} from "@/lib/subscription/tier-change";
 import {
   amountToMajorUnit,
   createFlutterwavePaymentLink,
@@ -18,32 +40,24 @@ import type {
   CheckoutCurrency,
   CheckoutPaymentProvider,
 } from "@/lib/payments/checkout-intent";
+import {
+  formatCurrencyAmount,
+  isWalletCurrency,
+  normalizeCurrencyCode,
+  SUPPORTED_CURRENCIES,
+  type CurrencyKey,
+} from "@/lib/payments/currencies";
 import {
   getPaymentMinimumAmountCents,
   getUnsupportedProviderMessage,
   isPaymentProviderSupported,
 } from "@/lib/payments/gateway-currency";
 
-const baseTierPricing: Record<
-  string,
-  { name: string; amounts: { ngn: number; usd: number } }
-> = {
-  basic: {
-    name: "Basic Plan",
-    amounts: STRIPE_SUBSCRIPTION_AMOUNTS_SMALLEST_UNIT.basic,
-  },
-  standard: {
-    name: "Standard Plan",
-    amounts: STRIPE_SUBSCRIPTION_AMOUNTS_SMALLEST_UNIT.standard,
-  },
-  premium: {
-    name: "Premium Plan",
-    amounts: STRIPE_SUBSCRIPTION_AMOUNTS_SMALLEST_UNIT.premium,
-  },
-  vip: {
-    name: "VIP Plan",
-    amounts: STRIPE_SUBSCRIPTION_AMOUNTS_SMALLEST_UNIT.vip,
-  },
+const baseTierPricing: Record<string, { tier: TierId; name: string }> = {
+  basic: { tier: "basic", name: "Basic Plan" },
+  standard: { tier: "standard", name: "Standard Plan" },
+  premium: { tier: "premium", name: "Premium Plan" },
+  vip: { tier: "vip", name: "VIP Plan" },
 };
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
@@ -51,46 +65,31 @@ const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
 const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
 const appUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3001";
 
-const SUPPORTED_CURRENCIES = new Set(["ngn", "usd"]);
 const SUPPORTED_PAYMENT_PROVIDERS = new Set(["flutterwave", "paystack"]);
 
-const CURRENCY_DISPLAY: Record<string, { symbol: string }> = {
-  usd: { symbol: "$" },
-  ngn: { symbol: "₦" },
-};
-
-type SubscriptionPricingOverride = {
-  price_ngn: number | string | null;
-  price_usd: number | string | null;
-};
-
-async function getSubscriptionAmountCents(
-  tierId: string,
-  currency: CheckoutCurrency,
-  fallbackAmounts: { ngn: number; usd: number }
-) {
-  const fallback = fallbackAmounts[currency.toLowerCase() as keyof typeof fallbackAmounts];
-  if (!supabaseServiceRoleKey) return fallback;
-
-  const supabaseAdmin = createClient(supabaseUrl, supabaseServiceRoleKey, {
+function createSupabaseAdmin() {
+  if (!supabaseServiceRoleKey) return null;
+  return createClient(supabaseUrl, supabaseServiceRoleKey, {
     auth: { persistSession: false, autoRefreshToken: false },
   });
+}
+
+async function getSubscriptionAmountCents(tierId: TierId, currency: CheckoutCurrency) {
+  const currencyKey = currency.toLowerCase() as CurrencyKey;
+  const supabaseAdmin = createSupabaseAdmin();
+  if (!supabaseAdmin) return resolveSubscriptionPriceCents(null, tierId, currencyKey);
+
   const { data, error } = await supabaseAdmin
     .from("subscription_pricing")
-    .select("price_ngn, price_usd")
+    .select(SUBSCRIPTION_PRICE_COLUMNS)
     .eq("tier_id", tierId)
-    .maybeSingle<SubscriptionPricingOverride>();
+    .maybeSingle<SubscriptionPricingRow>();
 
   if (error) {
     console.error("Unable to read authoritative subscription pricing:", error.message);
-    return fallback;
   }
 
-  const column = `price_${currency.toLowerCase()}` as keyof SubscriptionPricingOverride;
-  const configuredPrice = Number(data?.[column]);
-  return Number.isFinite(configuredPrice) && configuredPrice > 0
-    ? Math.round(configuredPrice * 100)
-    : fallback;
+  return resolveSubscriptionPriceCents(error ? null : data, tierId, currencyKey);
 }
 
 async function getAuthenticatedUser() {
@@ -147,10 +146,8 @@ function getMinimumAmountError(
 ): string | null {
   const min = getPaymentMinimumAmountCents(provider, currency);
   if (amountCents >= min) return null;
-  const display = CURRENCY_DISPLAY[currency.toLowerCase()] || { symbol: "" };
-  const minFormatted = (min / 100).toFixed(2);
   const providerName = provider === "paystack" ? "Paystack" : "Flutterwave";
-  return `${providerName}'s minimum ${currency} payment is ${display.symbol}${minFormatted}. Please increase the amount or choose another payment method.`;
+  return `${providerName}'s minimum ${currency} payment is ${formatCurrencyAmount(min, currency)}. Please increase the amount or choose another payment method.`;
 }
 
 function getCheckoutErrorMessage(error: unknown) {
@@ -182,7 +179,7 @@ function normalizePaymentProvider(value: unknown): CheckoutPaymentProvider | nul
 
 async function createHostedCheckout(params: {
   provider: "flutterwave" | "paystack";
-  prefix: "wallet" | "credits" | "subscription";
+  prefix: "wallet" | "credits" | "subscription" | "gift";
   userId: string;
   amountCents: number;
   currency: string;
@@ -216,7 +213,7 @@ async function createHostedCheckout(params: {
               credits: params.credits || 0,
             }
           : {
-              paymentType: "wallet_topup",
+              paymentType: params.paymentType === "gift" ? "gift" : "wallet_topup",
               userId: params.userId,
               currency: params.currency,
               amountCents: params.amountCents,
@@ -298,6 +295,7 @@ export async function POST(request: NextRequest) {
       amountCents,
       type,
       credits,
+      promoCode,
       provider: requestedProvider,
     } = body;
 
@@ -309,10 +307,21 @@ export async function POST(request: NextRequest) {
     }
 
     const sessionUserId = authenticatedUser.id;
-    const normalizedCurrency = String(currency).toLowerCase();
-    if (!SUPPORTED_CURRENCIES.has(normalizedCurrency)) {
+    const checkoutCurrency = normalizeCurrencyCode(currency);
+    if (!checkoutCurrency) {
+      return NextResponse.json(
+        { error: `Invalid currency. Supported: ${SUPPORTED_CURRENCIES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+    const normalizedCurrency = checkoutCurrency.toLowerCase();
+
+    if (
+      (type === "wallet_topup" || type === "credit_purchase") &&
+      !isWalletCurrency(checkoutCurrency)
+    ) {
       return NextResponse.json(
-        { error: "Invalid currency. Supported: NGN, USD" },
+        { error: "Wallet top-ups and credits can only be paid in NGN or USD." },
         { status: 400 }
       );
     }
@@ -325,7 +334,6 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const checkoutCurrency = normalizedCurrency.toUpperCase() as CheckoutCurrency;
     if (!isPaymentProviderSupported(provider, checkoutCurrency)) {
       return NextResponse.json(
         { error: getUnsupportedProviderMessage(provider, checkoutCurrency) },
@@ -415,12 +423,10 @@ export async function POST(request: NextRequest) {
       );
       if (minCreditError) {
         const min = getPaymentMinimumAmountCents(provider, checkoutCurrency);
-        const display = CURRENCY_DISPLAY[normalizedCurrency] || { symbol: "" };
-        const minFormatted = (min / 100).toFixed(2);
         const pricePerCreditCents = Math.round(parsedAmountCents / parsedCredits);
         const minQuantity = pricePerCreditCents > 0 ? Math.ceil(min / pricePerCreditCents) : 1;
         return NextResponse.json({
-          error: `The minimum order is ${display.symbol}${minFormatted} per transaction. Please purchase at least ${minQuantity} credit${minQuantity !== 1 ? "s" : ""} to proceed.`,
+          error: `The minimum order is ${formatCurrencyAmount(min, checkoutCurrency)} per transaction. Please purchase at least ${minQuantity} credit${minQuantity !== 1 ? "s" : ""} to proceed.`,
         }, { status: 400 });
       }
 
@@ -443,6 +449,88 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(payment);
     }
 
+    if (type === "gift") {
+      const { giftKind, recipientEmail, message } = body;
+      if (!isGiftKind(giftKind)) {
+        return NextResponse.json({ error: "Invalid gift type" }, { status: 400 });
+      }
+
+      const recipient = recipientEmail ? normalizeGiftRecipientEmail(recipientEmail) : null;
+      if (recipientEmail && !recipient) {
+        return NextResponse.json({ error: "Invalid recipient email" }, { status: 400 });
+      }
+
+      const giftTier =
+        giftKind === "subscription" ? baseTierPricing[String(tier).toLowerCase()] : null;
+      if (giftKind === "subscription" && !giftTier) {
+        return NextResponse.json({ error: "Invalid tier" }, { status: 400 });
+      }
+      if (giftKind === "credits") {
+        if (!isWalletCurrency(checkoutCurrency)) {
+          return NextResponse.json(
+            { error: "Gifted credits can only be paid in NGN or USD." },
+            { status: 400 }
+          );
+        }
+        if (!isValidGiftCredits(credits)) {
+          return NextResponse.json(
+            { error: `Gift between ${MIN_GIFT_CREDITS} and ${MAX_GIFT_CREDITS} credits.` },
+            { status: 400 }
+          );
+        }
+      }
+
+      const supabaseAdmin = createSupabaseAdmin();
+      if (!supabaseAdmin) {
+        return NextResponse.json(
+          { error: "Gifts are not available right now. Please try again later." },
+          { status: 503 }
+        );
+      }
+
+      const giftAmountCents = giftTier
+        ? await getSubscriptionAmountCents(giftTier.tier, checkoutCurrency)
+        : getGiftCreditsAmountCents(credits, checkoutCurrency);
+      const minGiftError = getMinimumAmountError(provider, checkoutCurrency, giftAmountCents);
+      if (minGiftError) {
+        return NextResponse.json({ error: minGiftError }, { status: 400 });
+      }
+
+      const created = await createGift(supabaseAdmin, {
+        buyerId: sessionUserId,
+        kind: giftKind,
+        tier: giftTier?.tier || null,
+        credits: giftTier ? null : credits,
+        recipientEmail: recipient,
+        message: normalizeGiftMessage(message),
+        amountCents: giftAmountCents,
+        currency: normalizedCurrency,
+        provider,
+      });
+      if (!created.ok) {
+        return NextResponse.json(
+          { error: created.message, code: created.code },
+          { status: created.status }
+        );
+      }
+
+      const payment = await createHostedCheckout({
+        provider,
+        prefix: "gift",
+        userId: sessionUserId,
+        amountCents: giftAmountCents,
+        currency: normalizedCurrency,
+        customer,
+        title: "MatchIndeed Gift",
+        description: `Gift ${describeGift(created.gift)}${recipient ? ` to ${recipient}` : ""}`,
+        paymentType: "gift",
+        redirectPath: "/dashboard/gifts",
+      });
+      await linkGiftPaymentReference(supabaseAdmin, created.gift.id, payment.txRef);
+
+      return NextResponse.json({ ...payment, gift_id: created.gift.id });
+    }
+
     if (!tier) {
       return NextResponse.json(
         { error: "Missing required parameters" },
@@ -455,17 +543,170 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Invalid tier" }, { status: 400 });
     }
 
-    const finalAmount = await getSubscriptionAmountCents(
-      String(tier).toLowerCase(),
-      checkoutCurrency,
-      tierPricing.amounts
-    );
+    // Moving from an active paid plan to another tier charges only the
+    // prorated difference; the payment callback completes the change.
+    const supabaseAdmin = createSupabaseAdmin();
+    const activeMembership = supabaseAdmin
+      ? await getActivePaidMembership(supabaseAdmin, sessionUserId)
+      : null;
+    if (
+      supabaseAdmin &&
+      activeMembership &&
+      activeMembership.tier !== String(tier).toLowerCase()
+    ) {
+      if (promoCode) {
+        return NextResponse.json(
+          { error: "Promo codes apply to new subscriptions, not plan changes." },
+          { status: 400 }
+        );
+      }
+
+      if (activeMembership.stripe_subscription_id) {
+        return NextResponse.json(
+          {
+            error:
+              "Your plan is billed to your saved card. Change it from the subscription page instead.",
+          },
+          { status: 409 }
+        );
+      }
+
+      const quoteResult = await quoteTierChange(supabaseAdmin, {
+        userId: sessionUserId,
+        targetTier: tier,
+        currency: normalizedCurrency,
+      });
+      if (!quoteResult.ok) {
+        return NextResponse.json(
+          { error: quoteResult.message, code: quoteResult.code },
+          { status: quoteResult.status }
+        );
+      }
+
+      const { quote } = quoteResult;
+      if (quote.currency !== normalizedCurrency) {
+        return NextResponse.json(
+          {
+            error: `Your current plan is billed in ${quote.currency.toUpperCase()}. Pay for the change in ${quote.currency.toUpperCase()}.`,
+          },
+          { status: 400 }
+        );
+      }
+      if (quote.amountDueCents <= 0) {
+        return NextResponse.json(
+          {
+            error: "This plan change is covered by your unused plan time. No payment is needed.",
+            code: "no_payment_required",
+          },
+          { status: 400 }
+        );
+      }
+
+      const minChangeError = getMinimumAmountError(
+        provider,
+        checkoutCurrency,
+        quote.amountDueCents
+      );
+      if (minChangeError) {
+        return NextResponse.json({ error: minChangeError }, { status: 400 });
+      }
+
+      const change = await createTierChange(supabaseAdmin, {
+        membership: quoteResult.membership,
+        quote,
+        provider,
+      });
+      const payment = await createHostedCheckout({
+        provider,
+        prefix: "subscription",
+        userId: sessionUserId,
+        amountCents: quote.amountDueCents,
+        currency: normalizedCurrency,
+        customer,
+        title: `MatchIndeed ${tierPricing.name}`,
+        description: `Change to MatchIndeed ${tierPricing.name} (prorated)`,
+        paymentType: "subscription",
+        redirectPath: "/dashboard/profile/subscription",
+        tier: quote.toTier,
+      });
+      await linkTierChangePaymentReference(supabaseAdmin, change.id, payment.txRef);
+
+      return NextResponse.json({ ...payment, tier_change_id: change.id });
+    }
+
+    const listAmount = await getSubscriptionAmountCents(tierPricing.tier, checkoutCurrency);
+
+    if (promoCode) {
+      if (!supabaseAdmin) {
+        return NextResponse.json(
+          { error: "Promo codes are not available right now. Please try again later." },
+          { status: 503 }
+        );
+      }
+
+      const promoResult = await quotePromoCode(supabaseAdmin, {
+        code: promoCode,
+        userId: sessionUserId,
+        tier: tierPricing.tier,
+        currency: normalizedCurrency,
+        listAmountCents: listAmount,
+      });
+      if (!promoResult.ok) {
+        return NextResponse.json(
+          { error: promoResult.message, code: promoResult.code },
+          { status: promoResult.status }
+        );
+      }
+
+      const { quote } = promoResult;
+      const minPromoError = getMinimumAmountError(provider, checkoutCurrency, quote.amountCents);
+      if (minPromoError) {
+        return NextResponse.json({ error: minPromoError }, { status: 400 });
+      }
+
+      const payment = await createHostedCheckout({
+        provider,
+        prefix: "subscription",
+        userId: sessionUserId,
+        amountCents: quote.amountCents,
+        currency: normalizedCurrency,
+        customer,
+        title: `MatchIndeed ${tierPricing.name}`,
+        description: `Subscribe to MatchIndeed ${tierPricing.name} (promo ${quote.code})`,
+        paymentType: "subscription",
+        redirectPath: "/dashboard/profile/subscription",
+        tier: tierPricing.tier,
+      });
+      const reservation = await reservePromoRedemption(supabaseAdmin, {
+        quote,
+        userId: sessionUserId,
+        tier: tierPricing.tier,
+        provider,
+        paymentReference: payment.txRef,
+      });
+      // Someone took the last use since the quote; the checkout is never shown.
+      if (!reservation.ok) {
+        return NextResponse.json(
+          { error: reservation.message, code: reservation.code },
+          { status: reservation.status }
+        );
+      }
+
+      return NextResponse.json({
+        ...payment,
+        promo: {
+          code: quote.code,
+          discount_cents: quote.discountCents,
+          amount_cents: quote.amountCents,
+        },
+      });
+    }
 
     const payment = await createHostedCheckout({
       provider,
       prefix: "subscription",
       userId: sessionUserId,
-      amountCents: finalAmount,
+      amountCents: listAmount,
       currency: normalizedCurrency,
       customer,
       title: `MatchIndeed ${tierPricing.name}`,
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { getUpcomingCreditExpirations } from "@/lib/credits/lots";
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+async function getAuthUser(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) return null;
+
+  const token = authHeader.substring(7);
+  const {
+    data: { user },
+    error,
+  } = await supabase.auth.getUser(token);
+  return error ? null : user;
+}
+
+/**
+ * GET /api/credits/expirations?days=30
+ *
+ * The signed-in user's credits that expire within `days` (default 30, max
+ * 365), their balance by source, and the plan credits above the rollover cap
+ * that will lapse at the next renewal.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthUser(request);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const requestedDays = Number(request.nextUrl.searchParams.get("days"));
+    const withinDays =
+      Number.isInteger(requestedDays) && requestedDays > 0 ? Math.min(requestedDays, 365) : 30;
+
+    const { data: account } = await supabase
+      .from("accounts")
+      .select("tier")
+      .eq("id", user.id)
+      .maybeSingle<{ tier: string | null }>();
+
+    const summary = await getUpcomingCreditExpirations(supabase, user.id, account?.tier, {
+      withinDays,
+    });
+
+    return NextResponse.json({
+      within_days: withinDays,
+      expiring: summary.expiring.map((lot) => ({
+        id: lot.id,
+        source: lot.source,
+        label: lot.label,
+        credits: lot.remaining,
+        expires_at: lot.expiresAt,
+      })),
+      expiring_total: summary.expiringTotal,
+      balances: summary.balances,
+      rollover: summary.rollover
+        ? {
+            cap: summary.rollover.cap,
+            plan_credits: summary.rollover.planCredits,
+            lapsing_at_renewal: summary.rollover.lapsingAtRenewal,
+          }
+        : null,
+    });
+  } catch (error) {
+    console.error("Error in GET /api/credits/expirations:", error);
+    return NextResponse.json(
+      { error: "Failed to load credit expirations" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { validateCronAuth } from "@/lib/cron-auth";
+import { expireCreditLots } from "@/lib/credits/expiry";
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+/**
+ * GET /api/cron/credit-expiry
+ *
+ * Daily sweep of credit lots past their expiry (purchases after 12 months,
+ * referral rewards after 6, ...). Each lot is closed and the credits it
+ * still held are taken out of the user's balance.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const cronAuth = validateCronAuth(request);
+    if (!cronAuth.authorized) {
+      return NextResponse.json(
+        { error: cronAuth.error || "Unauthorized" },
+        { status: cronAuth.status }
+      );
+    }
+
+    const result = await expireCreditLots(supabase);
+
+    return NextResponse.json({
+      success: true,
+      lots_checked: result.lotsChecked,
+      lots_expired: result.lotsExpired,
+      credits_expired: result.creditsExpired,
+      failed: result.failed,
+    });
+  } catch (error) {
+    console.error("Error in GET /api/cron/credit-expiry:", error);
+    return NextResponse.json(
+      { error: "Failed to expire credit lots" },
+      { status: 500 }
+    );
+  }
+}
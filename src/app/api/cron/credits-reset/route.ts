@@ -1,12 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
-import {
-  getMonthlyCreditsForTier,
-  normalizeTier,
-  UNLIMITED_CREDITS,
-} from "@/lib/credits/config";
+import { allocateSubscriptionCredits } from "@/lib/credits/allocation";
+import { getMonthlyCreditsForTier, normalizeTier } from "@/lib/credits/config";
 import { validateCronAuth } from "@/lib/cron-auth";
-import { recordCreditTransaction } from "@/lib/credits/transactions";
 import { restoreCreditLockedProfileIfEligible } from "@/lib/profile/credit-lock";
 
 const supabase = createClient(
@@ -25,10 +21,11 @@ type CreditRow = {
 /**
  * GET /api/cron/credits-reset
  *
- * Monthly credit reset:
- * - Resets used credits for accounts not reset in the current month.
- * - Keeps purchased credits safe by preserving `total`.
- * - Ensures total is at least the tier minimum monthly allocation.
+ * Monthly credit reset for accounts not reset in the current month:
+ * - Starts a new cycle with the tier's monthly allocation.
+ * - Carries unspent plan credits over up to the rollover cap; the rest lapse.
+ * - Keeps purchased, referral, refund and admin credits, which expire on
+ *   their own schedule (see /api/cron/credit-expiry).
  */
 export async function GET(request: NextRequest) {
   try {
@@ -92,64 +89,23 @@ export async function GET(request: NextRequest) {
     for (const row of rows) {
       try {
         const tier = normalizeTier(tierByUserId.get(row.user_id));
-        const monthlyMinimum = getMonthlyCreditsForTier(tier);
-        const currentTotal = row.total || 0;
-        const currentUsed = row.used || 0;
-        const currentRollover = row.rollover || 0;
-        const availableBefore = Math.max(
-          0,
-          currentTotal - currentUsed + currentRollover
-        );
-        const nextTotal =
-          tier === "vip"
-            ? UNLIMITED_CREDITS
-            : monthlyMinimum;
-        const nextUsed = 0;
-        const nextRollover = tier === "vip" ? 0 : availableBefore;
-        const resetCreditsAdded =
-          tier === "vip" ? 0 : Math.max(0, nextTotal);
-
-        const { error: updateError } = await supabase
-          .from("credits")
-          .update({
-            total: nextTotal,
-            used: nextUsed,
-            rollover: nextRollover,
-            last_reset_at: now.toISOString(),
-            updated_at: now.toISOString(),
-          })
-          .eq("user_id", row.user_id);
-
-        if (updateError) {
-          failed += 1;
-        } else {
-          updated += 1;
-          if (tier !== "vip" && availableBefore > 0) {
-            await recordCreditTransaction(supabase, {
-              userId: row.user_id,
-              amount: availableBefore,
-              actionType: "subscription_credit_rollover",
-              description: `Rolled over ${availableBefore} unused credit(s) into the new ${tier} subscription cycle.`,
-            });
+        await allocateSubscriptionCredits(supabase, row.user_id, tier, {
+          actionType: "monthly_credit_reset",
+          description: `Monthly reset applied for ${tier} tier (${getMonthlyCreditsForTier(tier)} credits).`,
+          idempotencyKey: `credits_reset:${row.user_id}:${monthStart.toISOString()}`,
+          markReset: true,
+          now,
+        });
+        updated += 1;
+
+        await restoreCreditLockedProfileIfEligible(supabase, row.user_id).catch(
+          (restoreError) => {
+            console.warn(
+              "[credits-reset] Credit-locked profile restore skipped:",
+              restoreError
+            );
           }
-          if (resetCreditsAdded > 0) {
-            await recordCreditTransaction(supabase, {
-              userId: row.user_id,
-              amount: resetCreditsAdded,
-              actionType: "monthly_credit_reset",
-              description: `Monthly reset applied for ${tier} tier (${resetCreditsAdded} credits).`,
-            });
-          }
-
-          await restoreCreditLockedProfileIfEligible(supabase, row.user_id).catch(
-            (restoreError) => {
-              console.warn(
-                "[credits-reset] Credit-locked profile restore skipped:",
-                restoreError
-              );
-            }
-          );
-        }
+        );
       } catch (error) {
         console.error("Error resetting credits:", error);
         failed += 1;
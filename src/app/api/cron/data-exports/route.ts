@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { validateCronAuth } from "@/lib/cron-auth";
+import { runDataExportJobs } from "@/lib/data-export/exports";
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+/**
+ * GET /api/cron/data-exports
+ *
+ * Every few minutes: build queued "download my data" exports and email the
+ * links, then delete archives whose link has expired.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const cronAuth = validateCronAuth(request);
+    if (!cronAuth.authorized) {
+      return NextResponse.json(
+        { error: cronAuth.error || "Unauthorized" },
+        { status: cronAuth.status }
+      );
+    }
+
+    const result = await runDataExportJobs(supabase);
+
+    return NextResponse.json({
+      success: true,
+      processed: result.processed,
+      ready: result.ready,
+      failed: result.failed,
+      expired: result.expired,
+    });
+  } catch (error) {
+    console.error("Error in GET /api/cron/data-exports:", error);
+    return NextResponse.json(
+      { error: "Failed to run data exports" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { validateCronAuth } from "@/lib/cron-auth";
+import { reconcileLedger } from "@/lib/ledger/reconciliation";
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+/**
+ * GET /api/cron/ledger-reconciliation
+ *
+ * Nightly check of ledger-derived wallet and credit balances against the
+ * `wallets`, `credits` and `wallet_transactions` rows. Mismatches are stored
+ * as drift flags on the run; nothing is corrected automatically.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const cronAuth = validateCronAuth(request);
+    if (!cronAuth.authorized) {
+      return NextResponse.json(
+        { error: cronAuth.error || "Unauthorized" },
+        { status: cronAuth.status }
+      );
+    }
+
+    const result = await reconcileLedger(supabase);
+
+    if (result.drift.length > 0) {
+      console.warn(
+        `[ledger-reconciliation] ${result.drift.length} drift flag(s) recorded on run ${result.runId}`
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      run_id: result.runId,
+      users_checked: result.usersChecked,
+      drift_count: result.drift.length,
+    });
+  } catch (error) {
+    console.error("Error in GET /api/cron/ledger-reconciliation:", error);
+    return NextResponse.json(
+      { error: "Failed to reconcile ledger" },
+      { status: 500 }
+    );
+  }
+}
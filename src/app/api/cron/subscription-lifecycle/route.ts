@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { validateCronAuth } from "@/lib/cron-auth";
+import { processDueSubscriptionDowngrades } from "@/lib/subscription/stripe-lifecycle";
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+/**
+ * GET /api/cron/subscription-lifecycle
+ *
+ * Downgrades memberships whose cancellation reached the end of the billing
+ * period, or whose payment grace period ran out.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const cronAuth = validateCronAuth(request);
+    if (!cronAuth.authorized) {
+      return NextResponse.json(
+        { error: cronAuth.error || "Unauthorized" },
+        { status: cronAuth.status }
+      );
+    }
+
+    const result = await processDueSubscriptionDowngrades(supabase);
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error("Error in GET /api/cron/subscription-lifecycle:", error);
+    return NextResponse.json(
+      { error: "Failed to process subscription downgrades" },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,7 @@ import { createClient } from "@supabase/supabase-js";
 import { validateCronAuth } from "@/lib/cron-auth";
 import { processDailyEngagementDigests } from "@/lib/alerts/daily-digests";
 import { processReengagementSequenceSchedules } from "@/lib/alerts/reengagement-sequences";
+import { processSavedSearchAlerts } from "@/lib/alerts/saved-search-alerts";
 import { processDueScheduledAlerts } from "@/lib/alerts/scheduled-alerts";
 import { processGenderVisibilityRestores } from "@/lib/profile/gender-change";
 
@@ -23,6 +24,9 @@ export async function GET(request: NextRequest) {
     }
 
     const reengagementSchedules = await processReengagementSequenceSchedules(supabase);
+    // Saved searches queue their alerts before the due-alert pass so new
+    // results go out in the same run.
+    const savedSearchAlerts = await processSavedSearchAlerts(supabase);
     const [scheduledAlerts, dailyDigests] = await Promise.all([
       processDueScheduledAlerts(supabase, { limit: 100 }),
       processDailyEngagementDigests(supabase),
@@ -32,6 +36,7 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({
       success: true,
       reengagementSchedules,
+      savedSearchAlerts,
       scheduledAlerts,
       dailyDigests,
       genderVisibilityRestores,
@@ -27,7 +27,8 @@ function isLocalhost(ip: string): boolean {
  * Uses: (1) Vercel/Cloudflare geo headers when available, (2) ipapi.co with client IP.
  *
  * Returns: { country_code, currency }
- * - Nigeria (NG) → currency: "ngn"
+ * - Nigeria, Ghana, Kenya, South Africa, the UK and the eurozone → their
+ *   local currency ("ngn", "ghs", "kes", "zar", "gbp", "eur")
  * - Every other country → currency: "usd"
  */
 export async function GET(request: NextRequest) {
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { describeGift, redeemGift } from "@/lib/gifts/gifts";
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+async function getAuthUser(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) return null;
+
+  const token = authHeader.substring(7);
+  const {
+    data: { user },
+    error,
+  } = await supabase.auth.getUser(token);
+  return error ? null : user;
+}
+
+/**
+ * POST /api/gifts/redeem
+ * Apply a gift code to the signed-in member's account.
+ * Body: { code }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthUser(request);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const code = typeof body.code === "string" ? body.code : "";
+    if (!code.trim()) {
+      return NextResponse.json({ error: "code is required" }, { status: 400 });
+    }
+
+    const result = await redeemGift(supabase, { code, userId: user.id });
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.code, message: result.message },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      description: describeGift(result.gift),
+      credits_added: result.creditsAdded,
+      plan_ends_at: result.planEndsAt,
+    });
+  } catch (error) {
+    console.error("[gifts/redeem][POST] error:", error);
+    return NextResponse.json({ error: "Failed to redeem gift" }, { status: 500 });
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { describeGift, listGiftsForUser, type GiftRow } from "@/lib/gifts/gifts";
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+async function getAuthUser(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) return null;
+
+  const token = authHeader.substring(7);
+  const {
+    data: { user },
+    error,
+  } = await supabase.auth.getUser(token);
+  return error ? null : user;
+}
+
+/** The code is only useful, and only shown, while the gift can be redeemed. */
+function serializeGift(gift: GiftRow) {
+  return {
+    id: gift.id,
+    description: describeGift(gift),
+    kind: gift.kind,
+    tier: gift.tier,
+    credits: gift.credits,
+    recipient_email: gift.recipient_email,
+    message: gift.message,
+    amount_cents: gift.amount_cents,
+    currency: gift.currency,
+    delivery: gift.delivery,
+    status: gift.status,
+    code: gift.status === "paid" ? gift.code : null,
+    code_expires_at: gift.code_expires_at,
+    paid_at: gift.paid_at,
+    redeemed_at: gift.redeemed_at,
+    created_at: gift.created_at,
+  };
+}
+
+/**
+ * GET /api/gifts
+ * Gifts the signed-in member bought and gifts sent to them.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthUser(request);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { sent, received } = await listGiftsForUser(supabase, user.id, user.email);
+
+    return NextResponse.json({
+      sent: sent.map(serializeGift),
+      received: received.map((gift) => ({
+        ...serializeGift(gift),
+        // Recipients see the gift, not what the buyer paid for it.
+        amount_cents: null,
+        currency: null,
+      })),
+    });
+  } catch (error) {
+    console.error("[gifts][GET] error:", error);
+    return NextResponse.json({ error: "Failed to load gifts" }, { status: 500 });
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient, type User } from "@supabase/supabase-js";
+import {
+  HOST_EARNING_COLUMNS,
+  HOST_PAYOUT_COLUMNS,
+  summarizeHostEarnings,
+  type HostEarningRow,
+} from "@/lib/host-earnings/earnings";
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+async function getAuthUser(request: NextRequest): Promise<User | null> {
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) return null;
+
+  const token = authHeader.substring(7);
+  const {
+    data: { user },
+    error,
+  } = await supabase.auth.getUser(token);
+
+  if (error || !user) return null;
+  return user;
+}
+
+async function getActiveHostProfileId(userId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from("host_profiles")
+    .select("id, is_active")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error || !data || !data.is_active) {
+    return null;
+  }
+
+  return data.id;
+}
+
+/**
+ * GET /api/host/earnings
+ *
+ * The signed-in host's earnings totals per status and currency, their most
+ * recent earnings and their payouts.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthUser(request);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const hostId = await getActiveHostProfileId(user.id);
+    if (!hostId) {
+      return NextResponse.json({ error: "Host profile not found" }, { status: 403 });
+    }
+
+    const [
+      { data: totals, error: totalsError },
+      { data: earnings, error: earningsError },
+      { data: payouts, error: payoutsError },
+    ] = await Promise.all([
+      supabase.from("host_earnings").select("status, currency, amount_cents").eq("host_id", hostId),
+      supabase
+        .from("host_earnings")
+        .select(HOST_EARNING_COLUMNS)
+        .eq("host_id", hostId)
+        .order("earned_at", { ascending: false })
+        .limit(50),
+      supabase
+        .from("host_payouts")
+        .select(HOST_PAYOUT_COLUMNS)
+        .eq("host_id", hostId)
+        .in("status", ["pending", "paid", "failed"])
+        .order("created_at", { ascending: false })
+        .limit(24),
+    ]);
+
+    if (totalsError || earningsError || payoutsError) {
+      console.error(
+        "[Host Earnings API] Database error:",
+        totalsError || earningsError || payoutsError
+      );
+      return NextResponse.json({ error: "Failed to fetch earnings" }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      summary: summarizeHostEarnings((totals || []) as HostEarningRow[]),
+      earnings: earnings || [],
+      payouts: payouts || [],
+    });
+  } catch (error) {
+    console.error("[Host Earnings API] Unexpected error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient, type User } from "@supabase/supabase-js";
+import { buildHostStatement, hostStatementToCsv } from "@/lib/host-earnings/earnings";
+import { renderHostStatementPdf } from "@/lib/host-earnings/statement-pdf";
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+async function getAuthUser(request: NextRequest): Promise<User | null> {
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) return null;
+
+  const token = authHeader.substring(7);
+  const {
+    data: { user },
+    error,
+  } = await supabase.auth.getUser(token);
+
+  if (error || !user) return null;
+  return user;
+}
+
+/**
+ * GET /api/host/earnings/statement?month=2026-07&format=csv|pdf
+ *
+ * The signed-in host's statement for one calendar month (UTC), as a
+ * download.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthUser(request);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data: host, error: hostError } = await supabase
+      .from("host_profiles")
+      .select("id, is_active")
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (hostError || !host || !host.is_active) {
+      return NextResponse.json({ error: "Host profile not found" }, { status: 403 });
+    }
+
+    const url = new URL(request.url);
+    const month = url.searchParams.get("month") || "";
+    const format = url.searchParams.get("format") === "pdf" ? "pdf" : "csv";
+
+    const statement = await buildHostStatement(supabase, { hostId: host.id, month });
+    if (!statement) {
+      return NextResponse.json(
+        { error: "month must look like 2026-07" },
+        { status: 400 }
+      );
+    }
+
+    const filename = `matchindeed-host-statement-${month}.${format}`;
+    if (format === "csv") {
+      return new NextResponse(hostStatementToCsv(statement), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="${filename}"`,
+        },
+      });
+    }
+
+    const { data: account } = await supabase
+      .from("accounts")
+      .select("display_name, email")
+      .eq("id", user.id)
+      .maybeSingle();
+    const pdf = renderHostStatementPdf(
+      statement,
+      account?.display_name || account?.email || user.email || "Host"
+    );
+
+    return new NextResponse(pdf, {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error("[Host Statement API] Unexpected error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
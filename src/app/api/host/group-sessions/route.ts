@@ -0,0 +1,187 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient, type User } from "@supabase/supabase-js";
+import {
+  createGroupSession,
+  normalizeGroupSessionInput,
+  type GroupSession,
+} from "@/lib/meetings/group-sessions";
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+type HostProfile = {
+  id: string;
+  host_type: "basic" | "premium" | "vip";
+  is_active: boolean;
+};
+
+type SessionMeetingRelation = {
+  id: string;
+  status: string;
+  workflow_state: string | null;
+  scheduled_at: string;
+};
+
+type HostSessionRow = GroupSession & {
+  meetings: SessionMeetingRelation | SessionMeetingRelation[] | null;
+};
+
+async function getAuthUser(request: NextRequest): Promise<User | null> {
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) return null;
+
+  const token = authHeader.substring(7);
+  const {
+    data: { user },
+    error,
+  } = await supabase.auth.getUser(token);
+
+  if (error || !user) return null;
+  return user;
+}
+
+async function getActiveHostProfile(userId: string): Promise<HostProfile | null> {
+  const { data, error } = await supabase
+    .from("host_profiles")
+    .select("id, host_type, is_active")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error || !data || !data.is_active) {
+    return null;
+  }
+
+  return data as HostProfile;
+}
+
+/**
+ * GET /api/host/group-sessions
+ *
+ * The host's group sessions, newest first, with their registrations in
+ * arrival order.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthUser(request);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const hostProfile = await getActiveHostProfile(user.id);
+    if (!hostProfile) {
+      return NextResponse.json({ error: "Host profile not found" }, { status: 403 });
+    }
+
+    const { data, error } = await supabase
+      .from("group_sessions")
+      .select("*, meetings!inner(id, status, workflow_state, scheduled_at)")
+      .eq("host_user_id", user.id)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("[Host Group Sessions API] Database error:", error);
+      return NextResponse.json({ error: "Failed to fetch group sessions" }, { status: 500 });
+    }
+
+    const rows = (data || []) as HostSessionRow[];
+    const meetingIds = rows.map((row) => row.meeting_id);
+    const { data: registrations } =
+      meetingIds.length > 0
+        ? await supabase
+            .from("group_session_registrations")
+            .select("meeting_id, user_id, gender, status, registered_at")
+            .in("meeting_id", meetingIds)
+            .neq("status", "canceled")
+            .order("registered_at", { ascending: true })
+        : { data: [] };
+
+    const userIds = Array.from(new Set((registrations || []).map((entry) => entry.user_id)));
+    const { data: profiles } =
+      userIds.length > 0
+        ? await supabase.from("user_profiles").select("user_id, first_name").in("user_id", userIds)
+        : { data: [] };
+
+    const sessions = rows.map((row) => {
+      const meeting = Array.isArray(row.meetings) ? row.meetings[0] : row.meetings;
+      return {
+        meeting_id: row.meeting_id,
+        title: row.title,
+        description: row.description,
+        capacity: row.capacity,
+        gender_rule: row.gender_rule,
+        registration_closes_at: row.registration_closes_at,
+        scheduled_at: meeting?.scheduled_at || null,
+        status: meeting?.status || null,
+        workflow_state: meeting?.workflow_state || null,
+        registrations: (registrations || [])
+          .filter((entry) => entry.meeting_id === row.meeting_id)
+          .map((entry) => ({
+            user_id: entry.user_id,
+            name: profiles?.find((profile) => profile.user_id === entry.user_id)?.first_name || "Member",
+            gender: entry.gender,
+            status: entry.status,
+            registered_at: entry.registered_at,
+          })),
+      };
+    });
+
+    return NextResponse.json({ success: true, sessions }, { status: 200 });
+  } catch (error) {
+    console.error("[Host Group Sessions API] Unexpected error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/host/group-sessions
+ *
+ * Publish a group session. The video link is created straight away.
+ * Body:
+ * - title: string (required, 3-80 characters)
+ * - description: string (optional)
+ * - capacity: number (required, 4-20; even when balanced)
+ * - gender_rule: "open" | "balanced" (default "open")
+ * - scheduled_at: ISO datetime (required, at least 48 hours ahead)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthUser(request);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const hostProfile = await getActiveHostProfile(user.id);
+    if (!hostProfile) {
+      return NextResponse.json({ error: "Host profile not found" }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const input = normalizeGroupSessionInput(body);
+    if (!input.ok) {
+      return NextResponse.json(
+        { error: "invalid_session", message: input.message },
+        { status: 400 }
+      );
+    }
+
+    const result = await createGroupSession(supabase, {
+      hostUserId: user.id,
+      hostProfileId: hostProfile.id,
+      session: input.value,
+    });
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.code, message: result.message },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({ success: true, session: result.session }, { status: 201 });
+  } catch (error) {
+    console.error("[Host Group Sessions API] POST error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -1,9 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
-import {
-  sendMeetingCancelledEmail,
-  sendCancellationChargeEmail,
-} from "@/lib/email";
 import { consumeCredits, refundConsumedCredits } from "@/lib/credits/actions";
 import {
   evaluateCancellationPolicy,
@@ -13,8 +9,7 @@ import {
   deriveWorkflowState,
   requireMeetingStateTransition,
 } from "@/lib/meetings/state-machine";
-import { sendPushNotificationIfAllowed } from "@/lib/onesignal";
-import { restoreStarterTrialMeeting } from "@/lib/starter-trial";
+import { transitionMeeting } from "@/lib/meetings/transitions";
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -40,107 +35,10 @@ async function getAuthUser(request: NextRequest) {
   return user;
 }
 
-async function refundBookingValueToGuest(
-  meetingId: string,
-  guestUserId: string,
-  meeting: {
-    requester_credit_cost?: number | null;
-    fee_cents?: number | null;
-    charge_status?: string | null;
-  }
-) {
-  await refundConsumedCredits(
-    supabase,
-    guestUserId,
-    typeof meeting.requester_credit_cost === "number"
-      ? meeting.requester_credit_cost
-      : 1,
-    {
-      actionType: "meeting_canceled_refund",
-      description:
-        "Meeting canceled by the other participant; refunded booking credits.",
-    }
-  );
-
-  if (meeting.charge_status !== "captured" || !meeting.fee_cents) {
-    return false;
-  }
-
-  const { data: wallet } = await supabase
-    .from("wallets")
-    .select("balance_cents")
-    .eq("user_id", guestUserId)
-    .single();
-
-  if (!wallet) {
-    return false;
-  }
-
-  const balanceBefore = wallet.balance_cents || 0;
-  const balanceAfter = balanceBefore + meeting.fee_cents;
-
-  await supabase
-    .from("wallets")
-    .update({
-      balance_cents: balanceAfter,
-      updated_at: new Date().toISOString(),
-    })
-    .eq("user_id", guestUserId);
-
-  await supabase.from("wallet_transactions").insert({
-    user_id: guestUserId,
-    type: "meeting_cancellation_refund",
-    amount_cents: meeting.fee_cents,
-    description: `Meeting booking refund for canceled meeting ${meetingId}.`,
-    balance_before_cents: balanceBefore,
-    balance_after_cents: balanceAfter,
-    reference_id: meetingId,
-  });
-
-  return true;
-}
-
 function formatCredits(amount: number) {
   return `${amount} credit${amount === 1 ? "" : "s"}`;
 }
 
-async function restoreStarterTrialForOtherParticipants(
-  meetingId: string,
-  canceledByUserId: string
-) {
-  const { data: participants, error } = await supabase
-    .from("meeting_participants")
-    .select("user_id")
-    .eq("meeting_id", meetingId)
-    .neq("user_id", canceledByUserId);
-
-  if (error) {
-    throw error;
-  }
-
-  const restoredUserIds = await Promise.all(
-    (participants || []).map(async (participant) => {
-      try {
-        const result = await restoreStarterTrialMeeting(
-          supabase,
-          String(participant.user_id),
-          meetingId
-        );
-        return result.restored ? String(participant.user_id) : null;
-      } catch (starterTrialError) {
-        console.error("Error restoring starter trial after meeting cancellation:", {
-          meetingId,
-          userId: participant.user_id,
-          starterTrialError,
-        });
-        return null;
-      }
-    })
-  );
-
-  return restoredUserIds.filter((userId): userId is string => Boolean(userId));
-}
-
 /**
  * GET /api/meetings/cancel
  * 
@@ -336,6 +234,26 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Group session members give up their own seat; only the host cancels
+    // the session for everyone.
+    if (meeting.type === "group" && participant.role === "guest") {
+      const { data: groupSession } = await supabase
+        .from("group_sessions")
+        .select("meeting_id")
+        .eq("meeting_id", meeting_id)
+        .maybeSingle();
+
+      if (groupSession) {
+        return NextResponse.json(
+          {
+            error: "group_session_registration",
+            message: "Leave the session from Group Sessions to give up your seat.",
+          },
+          { status: 400 }
+        );
+      }
+    }
+
     const { data: account } = await supabase
       .from("accounts")
       .select("tier, role")
@@ -416,38 +334,8 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    const { error: updateError } = await supabase
-      .from("meetings")
-      .update({
-        status: "canceled",
-        workflow_state: "canceled",
-        canceled_by: user.id,
-        canceled_at: new Date().toISOString(),
-        cancellation_reason: reason || null,
-      })
-      .eq("id", meeting_id);
-
-    if (updateError) {
-      if (cancellationFeeCredits > 0) {
-        await refundConsumedCredits(supabase, user.id, cancellationFeeCredits, {
-          actionType: "meeting_cancellation_fee_refund",
-          description: `Refunded ${formattedCancellationFee} because the meeting cancellation could not be completed.`,
-        });
-      }
-      console.error("Error canceling meeting:", updateError);
-      return NextResponse.json(
-        { error: "Failed to cancel meeting" },
-        { status: 500 }
-      );
-    }
-
-    // ---------------------------------------------------------------
-    // CREDIT REFUND LOGIC
-    // ---------------------------------------------------------------
-
-    // Per client rules: If meeting was confirmed (admin approved),
-    // NO credit refund to the requester (guest).
-    // If meeting was still pending, guest gets credit back.
+    // Per client rules the booker's value is refunded whenever the other
+    // participant cancels; a booker who cancels their own booking is not.
     const { data: guest } = await supabase
       .from("meeting_participants")
       .select("user_id")
@@ -456,161 +344,53 @@ export async function POST(request: NextRequest) {
       .single();
 
     const refundsAffectedBooker = Boolean(guest?.user_id && guest.user_id !== user.id);
-    let bookingValueRefunded = false;
-
-    if (refundsAffectedBooker && guest?.user_id) {
-      bookingValueRefunded = true;
-      await refundBookingValueToGuest(meeting_id, guest.user_id, meeting);
-    }
-
-      const restoredStarterTrialUserIds =
-        meeting.status === "pending"
-          ? await restoreStarterTrialForOtherParticipants(meeting_id, user.id)
-          : [];
-
-    // ---------------------------------------------------------------
-    // SEND NOTIFICATIONS TO BOTH PARTIES
-    // ---------------------------------------------------------------
-
-    try {
-      // Get both participants
-      const { data: allParticipants } = await supabase
-        .from("meeting_participants")
-        .select("user_id, role")
-        .eq("meeting_id", meeting_id);
-
-      // Get cancelling user's display name
-      const { data: cancellerAccount } = await supabase
-        .from("accounts")
-        .select("display_name, email")
-        .eq("id", user.id)
-        .single();
-
-      const cancellerName =
-        cancellerAccount?.display_name ||
-        cancellerAccount?.email?.split("@")[0] ||
-        "A participant";
-
-      // Notify all participants except the cancelling user
-      const otherParticipants = allParticipants?.filter(
-        (p) => p.user_id !== user.id
-      );
-
-      for (const otherP of otherParticipants || []) {
-        const cancellationMessage = `${cancellerName} has canceled the video meeting scheduled for ${new Date(meeting.scheduled_at).toLocaleDateString()} at ${new Date(meeting.scheduled_at).toLocaleTimeString()}.${
-          cancellationFeeCredits > 0
-            ? ` The cancelling party has been charged ${formattedCancellationFee}.`
-            : ""
-        }${
-          refundsAffectedBooker
-            ? " Your booking value has been refunded."
-            : ""
-        }`;
-
-        await supabase.from("notifications").insert({
-          user_id: otherP.user_id,
-          type: "meeting_canceled",
-          title: "Meeting Canceled",
-          message: cancellationMessage,
-          data: {
-            meeting_id,
-            canceled_by: user.id,
-            canceled_by_role: participant.role,
-            cancellation_fee_applied: cancellationFeeCredits > 0,
-          },
-        });
-
-        await sendPushNotificationIfAllowed({
-          userId: otherP.user_id,
-          type: "meeting_canceled",
-          title: "Video meeting canceled",
-          message: cancellationMessage,
-          url: "/dashboard/meetings?tab=all",
-          data: {
-            meeting_id,
-            canceled_by: user.id,
-            canceled_by_role: participant.role,
-            cancellation_fee_applied: cancellationFeeCredits > 0,
-          },
-        });
-      }
 
-      // Notify the cancelling user with a receipt
-      await supabase.from("notifications").insert({
-        user_id: user.id,
-        type: "meeting_canceled",
-        title: "Meeting Cancellation Confirmed",
-        message: `You have canceled the video meeting scheduled for ${new Date(meeting.scheduled_at).toLocaleDateString()}.${
-          cancellationFeeCredits > 0
-            ? ` ${formattedCancellationFee} has been charged to your credits balance.`
-            : ""
-        }${refundsAffectedBooker ? " The other participant has been refunded." : " No refund will be issued."}`,
-        data: {
-          meeting_id,
-          cancellation_fee_credits: cancellationFeeCredits,
-          credit_refunded: bookingValueRefunded,
+    const transition = await transitionMeeting(supabase, {
+      meetingId: meeting_id,
+      to: "canceled",
+      actor: { userId: user.id, role: participant.role === "host" ? "host" : "guest" },
+      reason: reason || null,
+      updates: {
+        canceled_by: user.id,
+        canceled_at: new Date().toISOString(),
+        cancellation_reason: reason || null,
+      },
+      details: {
+        cancellation: {
+          trigger: "canceled",
+          refundGuest: refundsAffectedBooker,
+          cancellationFeeCredits,
         },
-      });
+      },
+    });
 
-      // Send email notifications to both parties
-      const meetingDateStr = new Date(meeting.scheduled_at).toLocaleDateString();
-
-      if (cancellerAccount?.email) {
-        const { data: cancellerProfile } = await supabase
-          .from("user_profiles")
-          .select("first_name")
-          .eq("user_id", user.id)
-          .single();
-
-        await sendMeetingCancelledEmail(cancellerAccount.email, {
-          recipientName: cancellerProfile?.first_name || cancellerName,
-          meetingDate: meetingDateStr,
-          cancelledBy: "you",
-          refundIssued: false,
-          chargeApplied: cancellationFeeCredits > 0,
+    if (!transition.ok || !transition.applied) {
+      if (cancellationFeeCredits > 0) {
+        await refundConsumedCredits(supabase, user.id, cancellationFeeCredits, {
+          actionType: "meeting_cancellation_fee_refund",
+          description: `Refunded ${formattedCancellationFee} because the meeting cancellation could not be completed.`,
         });
       }
 
-      for (const otherP of otherParticipants || []) {
-        const { data: otherAccount } = await supabase
-          .from("accounts")
-          .select("email")
-          .eq("id", otherP.user_id)
-          .single();
-
-        const { data: otherProfile } = await supabase
-          .from("user_profiles")
-          .select("first_name")
-          .eq("user_id", otherP.user_id)
-          .single();
-
-        if (otherAccount?.email) {
-          await sendMeetingCancelledEmail(otherAccount.email, {
-            recipientName: otherProfile?.first_name || "User",
-            meetingDate: meetingDateStr,
-            cancelledBy: cancellerName,
-            refundIssued: bookingValueRefunded && otherP.role === "guest",
-            freePlanRestored: restoredStarterTrialUserIds.includes(otherP.user_id),
-            chargeApplied: false,
-          }, otherP.user_id);
-        }
+      if (!transition.ok) {
+        return NextResponse.json(
+          { error: transition.code, message: transition.message },
+          { status: transition.status }
+        );
       }
 
-      // Send cancellation charge email to the cancelling user if fee applies
-      if (cancellationFeeCredits > 0 && cancellerAccount?.email) {
-        await sendCancellationChargeEmail(cancellerAccount.email, {
-          recipientName: cancellerName,
-          meetingDate: meetingDateStr,
-          meetingRef: meeting_id.slice(0, 8),
-          creditAmount: formattedCancellationFee,
-          reason: "Meeting cancelled after confirmation",
-        });
-      }
-    } catch (notificationError) {
-      console.error("Error sending cancellation notifications:", notificationError);
-      // Don't fail the cancellation if notifications fail
+      return NextResponse.json({
+        success: true,
+        message: "Meeting was already canceled",
+        already_canceled: true,
+        cancellation_fee_applied: false,
+        cancellation_fee_credits: 0,
+        credit_refunded: false,
+      });
     }
 
+    const bookingValueRefunded = Boolean(transition.outcome.bookingValueRefunded);
+
     return NextResponse.json({
       success: true,
       message: "Meeting canceled successfully",
@@ -1,13 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
-import { sendInvestigationNoticeEmail } from "@/lib/email";
-import { refundConsumedCredits } from "@/lib/credits/actions";
 import { evaluateFinalizationPolicy } from "@/lib/meetings/validation";
+import { transitionMeeting } from "@/lib/meetings/transitions";
 import {
-  deriveWorkflowState,
-  requireMeetingStateTransition,
-} from "@/lib/meetings/state-machine";
-import { CIO_EVENTS, trackCustomerEventSafely } from "@/lib/customerio";
+  getMeetingVideoAttendance,
+  measureDisconnectGraceMinutes,
+} from "@/lib/video/attendance";
+import { getMeetingVideoProviderId } from "@/lib/video/providers";
+import { recordMeetingEarningSafely } from "@/lib/host-earnings/earnings";
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -49,7 +49,8 @@ async function getAuthUser(request: NextRequest) {
  *   - "requester_fault" → charges captured, requester pays
  *   - "accepter_fault"  → requester gets refund, accepter (host side) may be charged
  *   - "both_fault"      → host determines split, MatchIndeed reviews
- *   - "network_issue"   → 4-minute grace period rule applies
+ *   - "network_issue"   → 4-minute grace period rule applies; in built-in
+ *                          WebRTC rooms the wait is measured from attendance
  *
  * If the person who accepted the meeting leaves untimely/unexpectedly/no-show,
  * they are charged.
@@ -191,25 +192,25 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const currentWorkflowState = deriveWorkflowState({
-      workflowState:
-        typeof meeting.workflow_state === "string" ? meeting.workflow_state : null,
-      status: meeting.status,
-    });
-    const transitionValidation = requireMeetingStateTransition({
-      from: currentWorkflowState,
-      to: "completed",
-    });
-    if (!transitionValidation.allowed) {
-      return NextResponse.json(
-        {
-          error: "invalid_state_transition",
-          message:
-            transitionValidation.message ||
-            "Meeting cannot be moved to completed state.",
-        },
-        { status: 409 }
-      );
+    // Built-in rooms know how long the host waited; Zoom rooms rely on the host.
+    let gracePeriodWaitedMinutes =
+      typeof grace_period_waited_minutes === "number"
+        ? grace_period_waited_minutes
+        : null;
+    let gracePeriodSource: "attendance" | "host" = "host";
+    if (
+      outcome === "network_disconnect" &&
+      getMeetingVideoProviderId(meeting) === "webrtc"
+    ) {
+      const attendance = await getMeetingVideoAttendance(supabase, meeting_id);
+      const measured = measureDisconnectGraceMinutes(attendance, {
+        absentUserId: guest.user_id,
+        waiterId: host.user_id,
+      });
+      if (measured !== null) {
+        gracePeriodWaitedMinutes = measured;
+        gracePeriodSource = "attendance";
+      }
     }
 
     const finalizationPolicy = evaluateFinalizationPolicy({
@@ -217,10 +218,7 @@ export async function POST(request: NextRequest) {
       fault,
       chargeDecision: charge_decision,
       technicalFaultProven: !!technical_fault_proven,
-      gracePeriodWaitedMinutes:
-        typeof grace_period_waited_minutes === "number"
-          ? grace_period_waited_minutes
-          : null,
+      gracePeriodWaitedMinutes,
       meetingMatched: !!meeting.matched,
     });
     if (!finalizationPolicy.allowed) {
@@ -239,217 +237,83 @@ export async function POST(request: NextRequest) {
     // DETERMINE CHARGE STATUS BASED ON HOST DECISION
     // ---------------------------------------------------------------
 
-    let newChargeStatus: string;
-    let refundIssued = false;
     const chargeDecision =
       finalizationPolicy.shouldRefundRequester &&
       finalizationPolicy.normalizedChargeDecision !== "refund"
         ? "refund"
         : finalizationPolicy.normalizedChargeDecision;
 
-    switch (chargeDecision) {
-      case "capture":
-        // Charges are captured — requester paid, no refund
-        newChargeStatus = "captured";
-        break;
-
-      case "refund":
-        // Refund credits to requester (guest)
-        newChargeStatus = "refunded";
-        refundIssued = true;
-
-        await refundConsumedCredits(
-          supabase,
-          guest.user_id,
-          typeof meeting.requester_credit_cost === "number"
-            ? meeting.requester_credit_cost
-            : 1,
-          {
-            actionType: "meeting_finalize_refund",
-            description:
-              "Host finalized meeting with refund decision; returned requester credits.",
-          }
-        );
-        break;
-
-      case "pending_review":
-        // Charges stay pending for MatchIndeed admin review (1-2 days)
-        newChargeStatus = "pending_review";
-        break;
-
-      default:
-        newChargeStatus = "pending";
-    }
+    // capture → requester pays; refund → requester's credits are returned;
+    // pending_review → charges wait for MatchIndeed admin review (1-2 days).
+    const newChargeStatus =
+      chargeDecision === "capture"
+        ? "captured"
+        : chargeDecision === "refund"
+          ? "refunded"
+          : "pending_review";
 
     // ---------------------------------------------------------------
-    // UPDATE MEETING RECORD
+    // COMPLETE THE MEETING
     // ---------------------------------------------------------------
 
     const finalizedAt = new Date().toISOString();
-    const fullUpdatePayload = {
-      status: "completed",
-      workflow_state: "completed",
-      charge_status: newChargeStatus,
-      completed_at: finalizedAt,
+    const transition = await transitionMeeting(supabase, {
+      meetingId: meeting_id,
+      to: "completed",
+      actor: { userId: user.id, role: isHost ? "host" : "admin" },
+      reason: `Finalized: ${outcome}, ${fault}`,
+      updates: {
+        charge_status: newChargeStatus,
+        completed_at: finalizedAt,
+      },
       // Store host's finalization data when the schema supports it.
-      finalized_at: finalizedAt,
-      finalized_by: user.id,
-      outcome,
-      fault_determination: fault,
-      host_notes: notes || null,
-    };
-
-    const { error: updateError } = await supabase
-      .from("meetings")
-      .update(fullUpdatePayload)
-      .eq("id", meeting_id);
-
-    if (updateError?.code === "42703") {
-      const { error: fallbackUpdateError } = await supabase
-        .from("meetings")
-        .update({
-          status: "completed",
-          workflow_state: "completed",
-          charge_status: newChargeStatus,
-          completed_at: finalizedAt,
-        })
-        .eq("id", meeting_id);
-
-      if (fallbackUpdateError) {
-        console.error("Error finalizing meeting:", fallbackUpdateError);
-        return NextResponse.json(
-          { error: "Failed to finalize meeting" },
-          { status: 500 }
-        );
-      }
-    } else if (updateError) {
-      console.error("Error finalizing meeting:", updateError);
-      return NextResponse.json(
-        { error: "Failed to finalize meeting" },
-        { status: 500 }
-      );
-    }
-
-    // ---------------------------------------------------------------
-    // SEND NOTIFICATIONS
-    // ---------------------------------------------------------------
-
-    try {
-      // Notification to the guest (requester)
-      const notificationMessage = buildNotificationMessage(
+      optionalUpdates: {
+        finalized_at: finalizedAt,
+        finalized_by: user.id,
         outcome,
-        fault,
-        chargeDecision
-      );
-
-      // Get guest's name for the notification
-      const { data: guestProfile } = await supabase
-        .from("user_profiles")
-        .select("first_name")
-        .eq("user_id", guest.user_id)
-        .single();
-
-      const guestName = guestProfile?.first_name || "User";
-
-      // Notify guest
-      await supabase.from("notifications").insert({
-        user_id: guest.user_id,
-        type: "meeting_finalized",
-        title: "Meeting Review Complete",
-        message: `Dear ${guestName}, ${notificationMessage}`,
-        data: {
-          meeting_id,
+        fault_determination: fault,
+        host_notes: notes || null,
+      },
+      details: {
+        completion: {
           outcome,
           fault,
-          charge_decision: chargeDecision,
-          refund_issued: refundIssued,
+          notes: notes || null,
+          chargeDecision,
+          chargeStatus: newChargeStatus,
         },
-      });
-
-      // If pending review, also notify admins
-      if (chargeDecision === "pending_review") {
-        // Create admin notification
-        await supabase.from("notifications").insert({
-          user_id: host.user_id,
-          type: "meeting_pending_review",
-          title: "Meeting Pending Admin Review",
-          message: `Meeting ${meeting_id} has been flagged for admin review. Fault: ${fault}. Please review within 1-2 business days.`,
-          data: {
-            meeting_id,
-            outcome,
-            fault,
-            notes,
-          },
-        });
-      }
-
-      // Investigation notice for fault cases (per client requirement)
-      if (fault !== "no_fault" && chargeDecision === "pending_review") {
-        // Send investigation notice to both parties
-        const meetingDate = new Date(meeting.scheduled_at).toLocaleDateString();
-        const investigationNotice = `In your previous video dating meeting held on ${meetingDate}, the meeting will be reviewed to determine if there is irregularity and inconsistency which determines the charges. This review may take 1-2 business days.`;
-
-        for (const p of participants || []) {
-          const { data: pProfile } = await supabase
-            .from("user_profiles")
-            .select("first_name")
-            .eq("user_id", p.user_id)
-            .single();
-
-          await supabase.from("notifications").insert({
-            user_id: p.user_id,
-            type: "meeting_investigation",
-            title: "Meeting Under Review",
-            message: `Dear ${pProfile?.first_name || "User"}, ${investigationNotice}`,
-            data: {
-              meeting_id,
-              review_type: "charge_investigation",
-            },
-          });
-
-          // Send investigation notice email
-          const { data: pAccount } = await supabase
-            .from("accounts")
-            .select("email")
-            .eq("id", p.user_id)
-            .single();
+      },
+      metadata: {
+        charge_decision: chargeDecision,
+        grace_period_waited_minutes: gracePeriodWaitedMinutes,
+        grace_period_source: gracePeriodSource,
+      },
+    });
 
-          if (pAccount?.email) {
-            await sendInvestigationNoticeEmail(pAccount.email, {
-              recipientName: pProfile?.first_name || "User",
-              meetingDate,
-            });
-          }
-        }
-      }
-    } catch (notificationError) {
-      console.error(
-        "Error sending finalization notifications:",
-        notificationError
+    if (!transition.ok) {
+      return NextResponse.json(
+        { error: transition.code, message: transition.message },
+        { status: transition.status }
       );
-      // Don't fail finalization if notifications fail
     }
 
-    await Promise.allSettled([
-      trackCustomerEventSafely(guest.user_id, CIO_EVENTS.MEETING_COMPLETED, {
-        meeting_id,
-        role: "guest",
-        outcome,
-        fault,
-        charge_decision: chargeDecision,
-        charge_status: newChargeStatus,
-        refund_issued: refundIssued,
-      }),
-      trackCustomerEventSafely(host.user_id, CIO_EVENTS.MEETING_COMPLETED, {
-        meeting_id,
-        role: "host",
-        outcome,
-        fault,
-        charge_decision: chargeDecision,
-        charge_status: newChargeStatus,
-        refund_issued: refundIssued,
-      }),
-    ]);
+    if (!transition.applied) {
+      return NextResponse.json({
+        success: true,
+        message: "Meeting was already finalized",
+        already_finalized: true,
+        charge_status: transition.meeting.charge_status || null,
+      });
+    }
+
+    const refundIssued = Boolean(transition.outcome.refundIssued);
+
+    // The assigned host's commission; held while the charge is under review.
+    await recordMeetingEarningSafely(supabase, {
+      meetingId: meeting_id,
+      feeCents: meeting.fee_cents,
+      chargeStatus: newChargeStatus,
+    });
 
     return NextResponse.json({
       success: true,
@@ -457,6 +321,8 @@ export async function POST(request: NextRequest) {
       charge_status: newChargeStatus,
       charge_decision: chargeDecision,
       refund_issued: refundIssued,
+      grace_period_waited_minutes: gracePeriodWaitedMinutes,
+      grace_period_source: gracePeriodSource,
       outcome,
       fault,
     });
@@ -468,47 +334,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
-/**
- * Build notification message based on meeting outcome and charge decision
- */
-function buildNotificationMessage(
-  outcome: string,
-  fault: string,
-  chargeDecision: string
-): string {
-  let message = "";
-
-  switch (outcome) {
-    case "completed":
-      message = "Your video dating meeting has been concluded. ";
-      break;
-    case "no_show":
-      message =
-        "The video dating meeting has been concluded due to a no-show. ";
-      break;
-    case "early_leave":
-      message =
-        "The video dating meeting has been concluded due to an early departure. ";
-      break;
-    case "network_disconnect":
-      message =
-        "The video dating meeting has been concluded due to a network disconnection. ";
-      break;
-  }
-
-  switch (chargeDecision) {
-    case "capture":
-      message += "The meeting charges have been finalized.";
-      break;
-    case "refund":
-      message += "Your credits have been refunded to your account.";
-      break;
-    case "pending_review":
-      message +=
-        "The charges are under review by MatchIndeed. This may take 1-2 business days. You will be notified of the outcome.";
-      break;
-  }
-
-  return message;
-}
@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import {
+  getAccountState,
+  resolveOwnInteractionBlockMessage,
+} from "@/lib/account-interactions";
+import { evaluateGenderEligibility } from "@/lib/matching/gender-rules";
+import {
+  getGroupSessionRegistrations,
+  normalizeGroupSessionResponses,
+  submitGroupSessionResponses,
+} from "@/lib/meetings/group-sessions";
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+async function getAuthUser(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) {
+    return null;
+  }
+
+  const token = authHeader.substring(7);
+  const {
+    data: { user },
+    error,
+  } = await supabase.auth.getUser(token);
+
+  if (error || !user) {
+    return null;
+  }
+
+  return user;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthUser(request);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const meetingId = String(request.nextUrl.searchParams.get("meeting_id") || "").trim();
+    if (!meetingId) {
+      return NextResponse.json({ error: "meeting_id is required" }, { status: 400 });
+    }
+
+    const registrations = (await getGroupSessionRegistrations(supabase, meetingId)).filter(
+      (registration) => registration.status === "registered"
+    );
+    const own = registrations.find((registration) => registration.user_id === user.id);
+    if (!own) {
+      return NextResponse.json({ error: "Group session not found" }, { status: 404 });
+    }
+
+    const others = registrations.filter(
+      (registration) =>
+        registration.user_id !== user.id &&
+        evaluateGenderEligibility({
+          requesterGender: own.gender,
+          targetGender: registration.gender,
+        }).allowed
+    );
+    const otherIds = others.map((registration) => registration.user_id);
+
+    const [{ data: meeting }, { data: profiles }, { data: responses }] = await Promise.all([
+      supabase.from("meetings").select("status").eq("id", meetingId).maybeSingle(),
+      otherIds.length > 0
+        ? supabase
+            .from("user_profiles")
+            .select("user_id, first_name, profile_photo_url")
+            .in("user_id", otherIds)
+        : Promise.resolve({ data: [] }),
+      supabase
+        .from("group_session_responses")
+        .select("target_id, response")
+        .eq("meeting_id", meetingId)
+        .eq("responder_id", user.id),
+    ]);
+
+    return NextResponse.json({
+      responses_open: meeting?.status === "completed",
+      participants: others.map((registration) => {
+        const profile = profiles?.find((entry) => entry.user_id === registration.user_id);
+        return {
+          user_id: registration.user_id,
+          first_name: profile?.first_name || "Participant",
+          profile_photo_url: profile?.profile_photo_url || null,
+          response:
+            responses?.find((entry) => entry.target_id === registration.user_id)?.response ||
+            null,
+        };
+      }),
+    });
+  } catch (error) {
+    console.error("Error in GET /api/meetings/group-sessions/responses:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthUser(request);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const account = await getAccountState(supabase, user.id);
+    const blockedMessage = resolveOwnInteractionBlockMessage(account);
+    if (blockedMessage) {
+      return NextResponse.json(
+        { error: blockedMessage, code: "account_deactivated" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const meetingId = typeof body.meeting_id === "string" ? body.meeting_id : "";
+    if (!meetingId) {
+      return NextResponse.json({ error: "meeting_id is required" }, { status: 400 });
+    }
+
+    const result = await submitGroupSessionResponses(supabase, {
+      meetingId,
+      userId: user.id,
+      responses: normalizeGroupSessionResponses(body.responses),
+    });
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.code, message: result.message },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      matches: result.matches,
+    });
+  } catch (error) {
+    console.error("Error in POST /api/meetings/group-sessions/responses:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,217 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { getJoinMeetingCreditCost } from "@/lib/credits/actions";
+import {
+  cancelGroupSessionRegistration,
+  registerForGroupSession,
+  type GroupSession,
+  type GroupSessionRegistration,
+} from "@/lib/meetings/group-sessions";
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+type SessionMeetingRelation = {
+  id: string;
+  status: string;
+  scheduled_at: string;
+};
+
+type SessionRow = GroupSession & {
+  meetings: SessionMeetingRelation | SessionMeetingRelation[] | null;
+};
+
+async function getAuthUser(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) {
+    return null;
+  }
+
+  const token = authHeader.substring(7);
+  const {
+    data: { user },
+    error,
+  } = await supabase.auth.getUser(token);
+
+  if (error || !user) {
+    return null;
+  }
+
+  return user;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthUser(request);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const nowIso = new Date().toISOString();
+    const [{ data: upcoming, error: upcomingError }, { data: ownRegistrations }, { data: account }] =
+      await Promise.all([
+        supabase
+          .from("group_sessions")
+          .select("*, meetings!inner(id, status, scheduled_at)")
+          .eq("meetings.status", "confirmed")
+          .gte("meetings.scheduled_at", nowIso),
+        supabase
+          .from("group_session_registrations")
+          .select("meeting_id, status")
+          .eq("user_id", user.id)
+          .neq("status", "canceled"),
+        supabase.from("accounts").select("tier").eq("id", user.id).maybeSingle(),
+      ]);
+
+    if (upcomingError) {
+      console.error("[meetings/group-sessions] list error:", upcomingError);
+      return NextResponse.json({ error: "Failed to load group sessions" }, { status: 500 });
+    }
+
+    // Sessions the member is in stay listed after they start, for responses.
+    const upcomingIds = new Set((upcoming || []).map((row) => row.meeting_id));
+    const joinedIds = (ownRegistrations || [])
+      .map((registration) => String(registration.meeting_id))
+      .filter((meetingId) => !upcomingIds.has(meetingId));
+    const { data: joined } =
+      joinedIds.length > 0
+        ? await supabase
+            .from("group_sessions")
+            .select("*, meetings!inner(id, status, scheduled_at)")
+            .in("meeting_id", joinedIds)
+        : { data: [] };
+
+    const rows = [...(upcoming || []), ...(joined || [])] as SessionRow[];
+    const meetingIds = rows.map((row) => row.meeting_id);
+    const [{ data: registrations }, { data: hosts }] = await Promise.all([
+      meetingIds.length > 0
+        ? supabase
+            .from("group_session_registrations")
+            .select("meeting_id, user_id, gender, status")
+            .in("meeting_id", meetingIds)
+            .neq("status", "canceled")
+        : Promise.resolve({ data: [] }),
+      meetingIds.length > 0
+        ? supabase
+            .from("user_profiles")
+            .select("user_id, first_name")
+            .in("user_id", Array.from(new Set(rows.map((row) => row.host_user_id))))
+        : Promise.resolve({ data: [] }),
+    ]);
+
+    const joinCost = getJoinMeetingCreditCost(account?.tier, "group");
+    const sessions = rows
+      .map((row) => {
+        const meeting = Array.isArray(row.meetings) ? row.meetings[0] : row.meetings;
+        const sessionRegistrations = ((registrations || []) as Pick<
+          GroupSessionRegistration,
+          "meeting_id" | "user_id" | "gender" | "status"
+        >[]).filter((registration) => registration.meeting_id === row.meeting_id);
+        const seated = sessionRegistrations.filter(
+          (registration) => registration.status === "registered"
+        );
+        const own = sessionRegistrations.find((registration) => registration.user_id === user.id);
+
+        return {
+          meeting_id: row.meeting_id,
+          title: row.title,
+          description: row.description,
+          capacity: row.capacity,
+          gender_rule: row.gender_rule,
+          registration_closes_at: row.registration_closes_at,
+          scheduled_at: meeting?.scheduled_at || null,
+          meeting_status: meeting?.status || null,
+          host_name:
+            hosts?.find((profile) => profile.user_id === row.host_user_id)?.first_name || "Host",
+          is_host: row.host_user_id === user.id,
+          seats_taken: seated.length,
+          seats_by_gender:
+            row.gender_rule === "balanced"
+              ? {
+                  female: seated.filter((registration) => registration.gender === "female").length,
+                  male: seated.filter((registration) => registration.gender === "male").length,
+                }
+              : null,
+          waitlist_count: sessionRegistrations.filter(
+            (registration) => registration.status === "waitlisted"
+          ).length,
+          registration_status: own?.status || null,
+          credit_cost: joinCost,
+        };
+      })
+      .sort((a, b) => String(a.scheduled_at).localeCompare(String(b.scheduled_at)));
+
+    return NextResponse.json({ sessions });
+  } catch (error) {
+    console.error("Error in GET /api/meetings/group-sessions:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthUser(request);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const meetingId = typeof body.meeting_id === "string" ? body.meeting_id : "";
+    if (!meetingId) {
+      return NextResponse.json({ error: "meeting_id is required" }, { status: 400 });
+    }
+
+    const result = await registerForGroupSession(supabase, { meetingId, userId: user.id });
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.code, message: result.message },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      already_registered: !result.applied,
+      registration: result.registration,
+    });
+  } catch (error) {
+    console.error("Error in POST /api/meetings/group-sessions:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await getAuthUser(request);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const meetingId = String(request.nextUrl.searchParams.get("meeting_id") || "").trim();
+    if (!meetingId) {
+      return NextResponse.json({ error: "meeting_id is required" }, { status: 400 });
+    }
+
+    const result = await cancelGroupSessionRegistration(supabase, {
+      meetingId,
+      userId: user.id,
+    });
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.code, message: result.message },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      already_canceled: !result.applied,
+      refunded: result.refunded,
+    });
+  } catch (error) {
+    console.error("Error in DELETE /api/meetings/group-sessions:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
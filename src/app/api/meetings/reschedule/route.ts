@@ -0,0 +1,183 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import {
+  getPendingRescheduleProposal,
+  normalizeRescheduleSlotIds,
+  proposeMeetingReschedule,
+  respondToMeetingReschedule,
+  type RescheduleResponseAction,
+} from "@/lib/meetings/reschedule";
+import { getMinimumRequestableMeetingStartDate } from "@/lib/meetings/request-availability";
+import { getSafeTimeZone, zonedDateTimeToUtc } from "@/lib/timezones";
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+const RESPONSE_ACTIONS: RescheduleResponseAction[] = ["accept", "decline", "withdraw"];
+
+async function getAuthUser(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) {
+    return null;
+  }
+
+  const token = authHeader.substring(7);
+  const {
+    data: { user },
+    error,
+  } = await supabase.auth.getUser(token);
+
+  if (error || !user) {
+    return null;
+  }
+
+  return user;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthUser(request);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const meetingId = String(request.nextUrl.searchParams.get("meeting_id") || "").trim();
+    if (!meetingId) {
+      return NextResponse.json({ error: "meeting_id is required" }, { status: 400 });
+    }
+
+    const { data: participants } = await supabase
+      .from("meeting_participants")
+      .select("user_id, role")
+      .eq("meeting_id", meetingId)
+      .in("role", ["host", "guest"]);
+
+    if (!participants?.some((participant) => participant.user_id === user.id)) {
+      return NextResponse.json({ error: "Meeting not found" }, { status: 404 });
+    }
+
+    const counterpart = participants.find((participant) => participant.user_id !== user.id);
+    const proposal = await getPendingRescheduleProposal(supabase, meetingId);
+
+    if (!counterpart) {
+      return NextResponse.json({ proposal, slots: [] });
+    }
+
+    const [{ data: slots, error: slotsError }, { data: calendarConfig }] = await Promise.all([
+      supabase
+        .from("meeting_availability")
+        .select("id, slot_date, slot_time, scheduled_at_utc")
+        .eq("user_id", counterpart.user_id)
+        .order("scheduled_at_utc", { ascending: true, nullsFirst: false }),
+      supabase
+        .from("calendar_configurations")
+        .select("timezone")
+        .eq("user_id", counterpart.user_id)
+        .maybeSingle(),
+    ]);
+
+    if (slotsError) {
+      console.error("[meetings/reschedule] availability error:", slotsError);
+      return NextResponse.json({ error: "Failed to load availability" }, { status: 500 });
+    }
+
+    const timeZone = getSafeTimeZone(calendarConfig?.timezone);
+    const minimumStart = getMinimumRequestableMeetingStartDate();
+
+    const availableSlots = (slots || [])
+      .map((slot) => {
+        const scheduledAt = slot.scheduled_at_utc
+          ? new Date(String(slot.scheduled_at_utc))
+          : zonedDateTimeToUtc(String(slot.slot_date), String(slot.slot_time), timeZone);
+        if (!scheduledAt || Number.isNaN(scheduledAt.getTime())) return null;
+        return { id: String(slot.id), scheduled_at: scheduledAt.toISOString() };
+      })
+      .filter((slot): slot is NonNullable<typeof slot> => Boolean(slot))
+      .filter((slot) => new Date(slot.scheduled_at) >= minimumStart)
+      .sort((a, b) => a.scheduled_at.localeCompare(b.scheduled_at));
+
+    return NextResponse.json({ proposal, slots: availableSlots });
+  } catch (error) {
+    console.error("Error in GET /api/meetings/reschedule:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthUser(request);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const meetingId = typeof body.meeting_id === "string" ? body.meeting_id : "";
+    if (!meetingId) {
+      return NextResponse.json({ error: "meeting_id is required" }, { status: 400 });
+    }
+
+    const result = await proposeMeetingReschedule(supabase, {
+      meetingId,
+      userId: user.id,
+      slotIds: normalizeRescheduleSlotIds(body.slot_ids),
+      message: typeof body.message === "string" ? body.message : null,
+    });
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.code, message: result.message },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({ success: true, proposal: result.proposal });
+  } catch (error) {
+    console.error("Error in POST /api/meetings/reschedule:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const user = await getAuthUser(request);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const proposalId = typeof body.proposal_id === "string" ? body.proposal_id : "";
+    const action = body.action as RescheduleResponseAction;
+
+    if (!proposalId || !RESPONSE_ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { error: "proposal_id and a valid action are required" },
+        { status: 400 }
+      );
+    }
+
+    const result = await respondToMeetingReschedule(supabase, {
+      proposalId,
+      userId: user.id,
+      action,
+      slotId: typeof body.slot_id === "string" ? body.slot_id : null,
+    });
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.code, message: result.message },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      already_answered: !result.applied,
+      proposal: result.proposal,
+    });
+  } catch (error) {
+    console.error("Error in PATCH /api/meetings/reschedule:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
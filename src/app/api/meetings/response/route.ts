@@ -5,11 +5,12 @@ import {
   getAccountState,
   resolveOwnInteractionBlockMessage,
 } from "@/lib/account-interactions";
-import { buildRelationshipAgreementText } from "@/lib/agreements/templates";
 import {
-  deriveWorkflowState,
-  requireMeetingStateTransition,
-} from "@/lib/meetings/state-machine";
+  ensureRelationshipAgreement,
+  normalizeMatchPair,
+  upsertMatchPendingAgreement,
+} from "@/lib/agreements/pending-match";
+import { transitionMeeting } from "@/lib/meetings/transitions";
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -32,13 +33,6 @@ type UserIdentity = {
   email: string | null;
 };
 
-type AgreementRecord = {
-  id: string;
-  match_id: string;
-  meeting_id: string | null;
-  status: string;
-};
-
 async function getAuthUser(request: NextRequest) {
   const authHeader = request.headers.get("authorization");
   if (!authHeader?.startsWith("Bearer ")) {
@@ -63,10 +57,6 @@ function normalizeName(value: string | null | undefined) {
   return trimmed.length > 0 ? trimmed : "User";
 }
 
-function normalizeMatchPair(userA: string, userB: string) {
-  return [userA, userB].sort((a, b) => a.localeCompare(b));
-}
-
 async function getMeetingIdentities(meetingId: string): Promise<UserIdentity[]> {
   const { data: participants } = await supabase
     .from("meeting_participants")
@@ -170,110 +160,6 @@ async function updateMeetingMatchOutcome(params: {
   }
 }
 
-async function upsertMatchPendingAgreement(params: {
-  meetingId: string;
-  user1Id: string;
-  user2Id: string;
-  matchedAt: string;
-}) {
-  const payload = {
-    meeting_id: params.meetingId,
-    user1_id: params.user1Id,
-    user2_id: params.user2Id,
-    matched_at: params.matchedAt,
-    messaging_enabled: false,
-    relationship_agreement_status: "pending",
-    relationship_agreement_signed_at: null,
-  };
-
-  const withAgreementFields = await supabase
-    .from("user_matches")
-    .upsert(payload, { onConflict: "user1_id,user2_id" })
-    .select("id, user1_id, user2_id, meeting_id, messaging_enabled")
-    .single();
-
-  if (!withAgreementFields.error && withAgreementFields.data) {
-    return withAgreementFields.data;
-  }
-
-  if (withAgreementFields.error?.code === "42703") {
-    const fallback = await supabase
-      .from("user_matches")
-      .upsert(
-        {
-          meeting_id: params.meetingId,
-          user1_id: params.user1Id,
-          user2_id: params.user2Id,
-          matched_at: params.matchedAt,
-          messaging_enabled: false,
-        },
-        { onConflict: "user1_id,user2_id" }
-      )
-      .select("id, user1_id, user2_id, meeting_id, messaging_enabled")
-      .single();
-
-    if (!fallback.error && fallback.data) {
-      return fallback.data;
-    }
-  }
-
-  throw withAgreementFields.error;
-}
-
-async function ensureRelationshipAgreement(params: {
-  matchId: string;
-  meetingId: string;
-  user1Id: string;
-  user2Id: string;
-  user1Name: string;
-  user2Name: string;
-  meetingDate?: string | null;
-}): Promise<AgreementRecord | null> {
-  const existing = await supabase
-    .from("relationship_agreements")
-    .select("id, match_id, meeting_id, status")
-    .eq("match_id", params.matchId)
-    .maybeSingle();
-
-  if (!existing.error && existing.data) {
-    return existing.data as AgreementRecord;
-  }
-
-  if (existing.error && existing.error.code === "42P01") {
-    return null;
-  }
-
-  const agreementText = buildRelationshipAgreementText({
-    userOneName: params.user1Name,
-    userTwoName: params.user2Name,
-    meetingDate: params.meetingDate || null,
-  });
-
-  const created = await supabase
-    .from("relationship_agreements")
-    .insert({
-      match_id: params.matchId,
-      meeting_id: params.meetingId,
-      user1_id: params.user1Id,
-      user2_id: params.user2Id,
-      agreement_text: agreementText,
-      status: "pending",
-      signed_by_user1: false,
-      signed_by_user2: false,
-    })
-    .select("id, match_id, meeting_id, status")
-    .single();
-
-  if (created.error) {
-    if (created.error.code === "42P01" || created.error.code === "42703") {
-      return null;
-    }
-    throw created.error;
-  }
-
-  return created.data as AgreementRecord;
-}
-
 function buildMatchPendingAgreementEmail(params: {
   recipientName: string;
   partnerName: string;
@@ -429,35 +315,21 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    const currentWorkflowState = deriveWorkflowState({
-      workflowState: meeting.workflow_state || null,
-      status: meeting.status,
-    });
-    const transitionValidation = requireMeetingStateTransition({
-      from: currentWorkflowState,
+    const transition = await transitionMeeting(supabase, {
+      meetingId,
       to: "rated",
+      actor: { userId: user.id, role: participant.role === "host" ? "host" : "guest" },
+      reason: "Both participants responded",
+      updates: { rated_at: new Date().toISOString() },
     });
 
-    if (!transitionValidation.allowed) {
+    if (!transition.ok) {
       return NextResponse.json(
-        {
-          error: "invalid_state_transition",
-          message:
-            transitionValidation.message ||
-            "Cannot move meeting to rated state.",
-        },
-        { status: 409 }
+        { error: transition.code, message: transition.message },
+        { status: transition.status }
       );
     }
 
-    await supabase
-      .from("meetings")
-      .update({
-        workflow_state: "rated",
-        rated_at: new Date().toISOString(),
-      })
-      .eq("id", meetingId);
-
     const responseValues = allResponses.map((entry) => entry.response);
     const bothYes = responseValues.every((value) => value === "yes");
     const bothNo = responseValues.every((value) => value === "no");
@@ -492,7 +364,7 @@ export async function POST(request: NextRequest) {
         identities.find((item) => item.userId === normalizedParticipants[1]) ||
         null;
 
-      const match = await upsertMatchPendingAgreement({
+      const match = await upsertMatchPendingAgreement(supabase, {
         meetingId,
         user1Id: normalizedParticipants[0],
         user2Id: normalizedParticipants[1],
@@ -503,7 +375,7 @@ export async function POST(request: NextRequest) {
       agreementRequired = true;
       matchId = match.id;
 
-      const agreement = await ensureRelationshipAgreement({
+      const agreement = await ensureRelationshipAgreement(supabase, {
         matchId: match.id,
         meetingId,
         user1Id: normalizedParticipants[0],
@@ -1,11 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
-import {
-  sendMeetingAcceptedEmail,
-  sendMeetingCancelledEmail,
-  sendMeetingRequestEmail,
-  sendRawHtmlEmail,
-} from "@/lib/email";
+import { sendMeetingRequestEmail } from "@/lib/email";
 import { validateMeetingsAccess } from "@/middleware/subscription-check";
 import { evaluateCancellationPolicy } from "@/lib/meetings/validation";
 import { expireStalePendingMeetingRequests } from "@/lib/meetings/pending-expiration";
@@ -25,11 +20,8 @@ import {
   getSafeTimeZone,
   zonedDateTimeToUtc,
 } from "@/lib/timezones";
-import {
-  deriveWorkflowState,
-  requireMeetingStateTransition,
-  resolveStateForAcceptance,
-} from "@/lib/meetings/state-machine";
+import { deriveWorkflowState } from "@/lib/meetings/state-machine";
+import { transitionMeeting } from "@/lib/meetings/transitions";
 import {
   consumeCredits,
   getAcceptRequestCreditCost,
@@ -46,14 +38,14 @@ import {
 } from "@/lib/product-analytics";
 import { sendPushNotificationIfAllowed } from "@/lib/onesignal";
 import { scheduleMeetingRequestReminder } from "@/lib/alerts/scheduled-alerts";
-import { adminAbsoluteUrl } from "@/lib/admin/path";
+import { RICH_MESSAGE_PREVIEWS } from "@/lib/messages/message-types";
+import { CHAT_MESSAGE_COLUMNS } from "@/lib/messages/rich-messages";
 import {
   canAcceptStarterTrialMeeting,
   canUseStarterTrialMeetingRequest,
   consumeStarterTrialMeeting,
   getStarterTrialState,
   lockConsumedStarterTrialProfile,
-  restoreStarterTrialMeeting,
   STARTER_TRIAL_ACTIVE_SLOT_MESSAGE,
   STARTER_TRIAL_EXHAUSTED_MESSAGE,
 } from "@/lib/starter-trial";
@@ -191,204 +183,6 @@ async function insertNotification(
   });
 }
 
-async function restoreStarterTrialForOtherParticipants(
-  meetingId: string,
-  canceledByUserId: string
-) {
-  const { data: participants, error } = await supabase
-    .from("meeting_participants")
-    .select("user_id")
-    .eq("meeting_id", meetingId)
-    .neq("user_id", canceledByUserId);
-
-  if (error) {
-    throw error;
-  }
-
-  const restoredUserIds = await Promise.all(
-    (participants || []).map(async (participant) => {
-      try {
-        const result = await restoreStarterTrialMeeting(
-          supabase,
-          String(participant.user_id),
-          meetingId
-        );
-        return result.restored ? String(participant.user_id) : null;
-      } catch (starterTrialError) {
-        console.error("Error restoring starter trial after other-user cancellation:", {
-          meetingId,
-          userId: participant.user_id,
-          starterTrialError,
-        });
-        return null;
-      }
-    })
-  );
-
-  return restoredUserIds.filter((userId): userId is string => Boolean(userId));
-}
-
-async function sendMeetingCancellationEmails(params: {
-  meetingId: string;
-  scheduledAt: string;
-  canceledByUserId: string;
-  canceledByName: string;
-  refundIssued: boolean;
-  chargeApplied?: boolean;
-  freePlanRestoredUserIds?: string[];
-}) {
-  const { data: participants } = await supabase
-    .from("meeting_participants")
-    .select("user_id, role")
-    .eq("meeting_id", params.meetingId);
-
-  const participantIds = (participants || []).map((participant) => participant.user_id);
-  if (participantIds.length === 0) return;
-
-  const [{ data: accounts }, { data: profiles }] = await Promise.all([
-    supabase
-      .from("accounts")
-      .select("id, email, display_name")
-      .in("id", participantIds),
-    supabase
-      .from("user_profiles")
-      .select("user_id, first_name")
-      .in("user_id", participantIds),
-  ]);
-
-  const meetingDate = new Date(params.scheduledAt).toLocaleDateString();
-
-  await Promise.all(
-    (participants || []).map(async (participant) => {
-      const account = accounts?.find((entry) => entry.id === participant.user_id);
-      if (!account?.email) return;
-
-      const profile = profiles?.find((entry) => entry.user_id === participant.user_id);
-      const recipientName =
-        profile?.first_name ||
-        account.display_name ||
-        account.email.split("@")[0] ||
-        "User";
-
-      await sendMeetingCancelledEmail(
-        account.email,
-        {
-          recipientName,
-          meetingDate,
-          cancelledBy:
-            participant.user_id === params.canceledByUserId ? "you" : params.canceledByName,
-          refundIssued: params.refundIssued && participant.role === "guest",
-          freePlanRestored: Boolean(
-            params.freePlanRestoredUserIds?.includes(participant.user_id)
-          ),
-          chargeApplied:
-            Boolean(params.chargeApplied) && participant.user_id === params.canceledByUserId,
-        },
-        participant.user_id
-      );
-    })
-  );
-}
-
-async function sendMeetingAcceptedParticipantEmails(params: {
-  meetingId: string;
-  scheduledAt: string;
-  meetingTimeZone?: string | null;
-}) {
-  const { data: participants } = await supabase
-    .from("meeting_participants")
-    .select("user_id, role")
-    .eq("meeting_id", params.meetingId);
-
-  const participantIds = (participants || []).map((participant) => participant.user_id);
-  if (participantIds.length === 0) return;
-
-  const [{ data: accounts }, { data: profiles }] = await Promise.all([
-    supabase
-      .from("accounts")
-      .select("id, email, display_name")
-      .in("id", participantIds),
-    supabase
-      .from("user_profiles")
-      .select("user_id, first_name")
-      .in("user_id", participantIds),
-  ]);
-
-  const meetingDate = new Date(params.scheduledAt).toLocaleDateString();
-  const meetingTime = new Date(params.scheduledAt).toLocaleTimeString([], {
-    hour: "numeric",
-    minute: "2-digit",
-  });
-
-  await Promise.all(
-    (participants || []).map(async (participant) => {
-      const account = accounts?.find((entry) => entry.id === participant.user_id);
-      if (!account?.email) return;
-
-      const profile = profiles?.find((entry) => entry.user_id === participant.user_id);
-      const recipientName =
-        profile?.first_name ||
-        account.display_name ||
-        account.email.split("@")[0] ||
-        "User";
-
-      const otherParticipant = (participants || []).find(
-        (entry) => entry.user_id !== participant.user_id
-      );
-      const otherAccount = accounts?.find((entry) => entry.id === otherParticipant?.user_id);
-      const otherProfile = profiles?.find(
-        (entry) => entry.user_id === otherParticipant?.user_id
-      );
-      const partnerName =
-        otherProfile?.first_name ||
-        otherAccount?.display_name ||
-        otherAccount?.email?.split("@")[0] ||
-        "the other participant";
-
-      await insertNotification(participant.user_id, {
-        type: "meeting_accepted",
-        title: "Meeting accepted",
-        message:
-          participant.role === "guest"
-            ? `${partnerName} accepted your meeting request. MatchIndeed admin will review it next.`
-            : `You and ${partnerName} have both accepted this meeting. MatchIndeed admin will review it next.`,
-        data: {
-          meeting_id: params.meetingId,
-          scheduled_at: params.scheduledAt,
-        },
-      });
-
-      await sendPushNotificationIfAllowed({
-        userId: participant.user_id,
-        type: "meeting_accepted",
-        title: "Video meeting accepted",
-        message:
-          participant.role === "guest"
-            ? `${partnerName} accepted your request. MatchIndeed will review it next.`
-            : `You and ${partnerName} are all set. MatchIndeed will review the booking next.`,
-        url: "/dashboard/meetings?tab=pending",
-        data: {
-          meeting_id: params.meetingId,
-          scheduled_at: params.scheduledAt,
-        },
-      });
-
-      await sendMeetingAcceptedEmail(
-        account.email,
-        {
-          recipientName,
-          partnerName,
-          meetingDate,
-          meetingTime,
-          meetingTimeZone: params.meetingTimeZone || undefined,
-          awaitingAdminApproval: true,
-        },
-        participant.user_id
-      );
-    })
-  );
-}
-
 /**
  * Helper to get authenticated user from request
  */
@@ -466,13 +260,14 @@ async function getUserGender(userId: string): Promise<string | null> {
 type ActiveMembershipRow = {
   tier: string | null;
   status: string | null;
+  billing_status: string | null;
   expires_at: string | null;
 };
 
 async function getActiveMembershipTier(userId: string): Promise<string | null> {
   const { data } = await supabase
     .from("memberships")
-    .select("tier, status, expires_at")
+    .select("tier, status, billing_status, expires_at")
     .eq("user_id", userId)
     .eq("status", "active")
     .order("created_at", { ascending: false })
@@ -481,6 +276,8 @@ async function getActiveMembershipTier(userId: string): Promise<string | null> {
 
   const membership = (data as ActiveMembershipRow | null) || null;
   if (!membership?.tier) return null;
+  // Held while a refund or chargeback on the plan payment is reviewed.
+  if (membership.billing_status === "suspended") return null;
   if (membership.expires_at && new Date(membership.expires_at) <= new Date()) {
     return null;
   }
@@ -710,6 +507,22 @@ export async function GET(request: NextRequest) {
       for (const meeting of meetings) {
         meeting.participants = participantsByMeetingId[meeting.id] || [];
       }
+
+      const rescheduleMeetingIds = meetings
+        .filter((meeting) => meeting.workflow_state === "reschedule_proposed")
+        .map((meeting) => meeting.id);
+      if (rescheduleMeetingIds.length > 0) {
+        const { data: proposals } = await supabase
+          .from("meeting_reschedule_proposals")
+          .select("id, meeting_id, proposed_by, responder_id, proposed_slots, message, created_at")
+          .in("meeting_id", rescheduleMeetingIds)
+          .eq("status", "pending");
+
+        for (const meeting of meetings) {
+          meeting.reschedule_proposal =
+            (proposals || []).find((proposal) => proposal.meeting_id === meeting.id) || null;
+        }
+      }
     }
 
     return NextResponse.json({ meetings });
@@ -729,6 +542,9 @@ export async function GET(request: NextRequest) {
  * - slot_time: Time of the meeting (HH:MM)
  * - type: "one_on_one" | "group" (default: "one_on_one")
  * - location_pref: Optional location preference
+ * - match_id: Optional chat to propose the date in. Matched members with
+ *   chat enabled can only request a meeting this way, and the request is
+ *   posted into the conversation as a meeting_proposal message.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -796,6 +612,7 @@ export async function POST(request: NextRequest) {
       participant_ids,
     } = body;
     const normalizedMeetingType = normalizeMeetingType(type);
+    const chatMatchId = typeof body.match_id === "string" && body.match_id ? body.match_id : null;
 
     // Validate required fields
     if (!target_user_id || (!slot_id && (!slot_date || !slot_time))) {
@@ -819,6 +636,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (chatMatchId && normalizedMeetingType !== "one_on_one") {
+      return NextResponse.json(
+        { error: "Video dates proposed in chat must be one-on-one" },
+        { status: 400 }
+      );
+    }
+
     if (normalizedMeetingType === "one_on_one") {
       const { data: existingMatch, error: existingMatchError } = await supabase
         .from("user_matches")
@@ -837,7 +661,14 @@ export async function POST(request: NextRequest) {
         );
       }
 
-      if (existingMatch) {
+      if (chatMatchId && existingMatch?.id !== chatMatchId) {
+        return NextResponse.json(
+          { error: "Chat not found for this match", code: "chat_not_found" },
+          { status: 404 }
+        );
+      }
+
+      if (existingMatch && !chatMatchId) {
         return NextResponse.json(
           {
             error: "already_matched_chat_enabled",
@@ -1313,6 +1144,29 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Post the proposal into the chat. The meeting request stands even if
+    // this fails: the host still gets the usual request notification.
+    let proposalMessage = null;
+    if (chatMatchId) {
+      const { data: proposal, error: proposalError } = await supabase
+        .from("messages")
+        .insert({
+          match_id: chatMatchId,
+          sender_id: user.id,
+          content: RICH_MESSAGE_PREVIEWS.meeting_proposal,
+          message_type: "meeting_proposal",
+          meeting_id: meeting.id,
+        })
+        .select(CHAT_MESSAGE_COLUMNS)
+        .single();
+
+      if (proposalError) {
+        console.error("[meetings][POST] chat proposal message error:", proposalError);
+      } else {
+        proposalMessage = proposal;
+      }
+    }
+
     // Send notification to target user (host)
     try {
       // Get requester's account info to show account type
@@ -1439,6 +1293,7 @@ export async function POST(request: NextRequest) {
       credits_used: requiredCredits,
       starter_trial_consumed: starterTrialConsumed,
       upgrade_required_for_more_access: starterTrialConsumed,
+      ...(chatMatchId ? { message: proposalMessage } : {}),
     }, { status: 201 });
   } catch (error) {
     const message = getMeetingRequestErrorMessage(error);
@@ -1704,184 +1559,59 @@ export async function PATCH(request: NextRequest) {
               : null,
           status: meeting.status,
         });
-        const nextWorkflowState = resolveStateForAcceptance(
-          currentWorkflowState,
-          !!allAccepted
-        );
-        const transitionValidation = requireMeetingStateTransition({
-          from: currentWorkflowState,
-          to: nextWorkflowState,
-        });
-        if (!transitionValidation.allowed) {
-          return NextResponse.json(
-            {
-              error: "invalid_state_transition",
-              message:
-                transitionValidation.message ||
-                "Meeting state transition is not allowed.",
-            },
-            { status: 409 }
-          );
-        }
-        
-        if (!allAccepted && nextWorkflowState !== currentWorkflowState) {
-          await supabase
-            .from("meetings")
-            .update({ workflow_state: nextWorkflowState })
-            .eq("id", meeting_id);
-        }
 
+        // The meeting moves to "accepted" once everyone has accepted; the
+        // participant notices and the admin approval request go out with it.
         if (allAccepted) {
-          await supabase
-            .from("meetings")
-            .update({ status: "pending", workflow_state: "accepted" })
-            .eq("id", meeting_id);
-
-          try {
-            await sendMeetingAcceptedParticipantEmails({
-              meetingId: meeting_id,
-              scheduledAt: meeting.scheduled_at,
-              meetingTimeZone: meeting.host_timezone || null,
-            });
-          } catch (participantEmailError) {
-            console.error(
-              "Error sending accepted meeting participant emails:",
-              participantEmailError
-            );
-          }
-
-          try {
-            const { data: adminAccounts } = await supabase
-              .from("accounts")
-              .select("id, email, display_name")
-              .in("role", ["admin", "superadmin"]);
-
-            await Promise.all(
-              (adminAccounts || []).map((adminAccount) =>
-                insertNotification(adminAccount.id, {
-                  type: "meeting_approval_required",
-                  title: "Meeting Approval Required",
-                  message: "Both participants accepted a meeting request. Please approve it to confirm the booking and create the Zoom link.",
-                  data: {
-                    meeting_id,
-                    scheduled_at: meeting.scheduled_at,
-                    host_id: meeting.host_id,
-                  },
-                })
-              )
-            );
-
-            await Promise.all(
-              (adminAccounts || [])
-                .filter((adminAccount) => adminAccount.email)
-                .map(async (adminAccount) => {
-                  const adminName =
-                    adminAccount.display_name ||
-                    adminAccount.email?.split("@")[0] ||
-                    "Admin";
-                  const meetingDate = new Date(meeting.scheduled_at);
-                  const subject = "Meeting approval required";
-                  const html = `
-                    <div style="font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif;background:#f4f6fb;padding:24px;">
-                      <div style="max-width:620px;margin:0 auto;background:#ffffff;border-radius:18px;padding:32px;border:1px solid #e5e7eb;">
-                        <h1 style="margin:0 0 12px;color:#1f2937;font-size:24px;">Meeting approval required</h1>
-                        <p style="margin:0 0 12px;color:#4b5563;line-height:1.6;">Hi ${adminName}, both participants have accepted a MatchIndeed meeting and it is now waiting for admin approval.</p>
-                        <div style="background:#eef2ff;border:1px solid #c7d2fe;border-radius:14px;padding:16px;margin:20px 0;">
-                          <p style="margin:0 0 8px;color:#1f2937;"><strong>Scheduled date:</strong> ${meetingDate.toLocaleDateString()}</p>
-                          <p style="margin:0 0 8px;color:#1f2937;"><strong>Scheduled time:</strong> ${meetingDate.toLocaleTimeString()}</p>
-                          <p style="margin:0;color:#1f2937;"><strong>Meeting ID:</strong> ${meeting_id}</p>
-                        </div>
-                        <p style="margin:0 0 24px;color:#4b5563;line-height:1.6;">Approve this meeting to confirm the booking and automatically create the Zoom link for both users.</p>
-                        <a href="${adminAbsoluteUrl("/meetings")}" style="display:inline-block;background:#1f419a;color:#ffffff;text-decoration:none;padding:14px 22px;border-radius:10px;font-weight:600;">Open Admin Meetings</a>
-                      </div>
-                    </div>
-                  `.trim();
-
-                  await sendRawHtmlEmail(adminAccount.email as string, subject, html);
-                })
-            );
-          } catch (adminNotifyError) {
-            console.error("Error notifying admins about meeting approval:", adminNotifyError);
-          }
-
-          try {
-            const { data: acceptedParticipants } = await supabase
-              .from("meeting_participants")
-              .select("user_id, role")
-              .eq("meeting_id", meeting_id);
-
-            await Promise.all(
-              (acceptedParticipants || []).map((entry) =>
-                trackCustomerEventSafely(
-                  entry.user_id,
-                  CIO_EVENTS.DATE_REQUEST_ACCEPTED,
-                  {
-                    meeting_id,
-                    meeting_type: meeting.type || "one_on_one",
-                    scheduled_at: meeting.scheduled_at,
-                    accepted_by: user.id,
-                    participant_role: entry.role,
-                  }
-                )
-              )
-            );
+          const transition = await transitionMeeting(supabase, {
+            meetingId: meeting_id,
+            to: "accepted",
+            actor: {
+              userId: user.id,
+              role: participant.role === "host" ? "host" : "guest",
+            },
+            reason: "All participants accepted",
+          });
 
-            await Promise.all(
-              (acceptedParticipants || []).map((entry) =>
-                trackProductEventSafely(
-                  entry.user_id,
-                  PRODUCT_ANALYTICS_EVENTS.MEETING_BOOKED,
-                  {
-                    meeting_id,
-                    meeting_type: meeting.type || "one_on_one",
-                    scheduled_at: meeting.scheduled_at,
-                    accepted_by: user.id,
-                    participant_role: entry.role,
-                    workflow_state: "accepted",
-                    requires_admin_approval: true,
-                  }
-                )
-              )
+          if (!transition.ok) {
+            return NextResponse.json(
+              { error: transition.code, message: transition.message },
+              { status: transition.status }
             );
-          } catch (cioError) {
-            console.error("Error tracking meeting accepted event:", cioError);
           }
         }
 
         return NextResponse.json({ 
           success: true, 
           meeting_status: "pending",
-          workflow_state: allAccepted ? "accepted" : nextWorkflowState,
+          workflow_state: allAccepted ? "accepted" : currentWorkflowState,
           requires_admin_approval: allAccepted,
           starter_trial_consumed: starterTrialConsumed,
           upgrade_required_for_more_slots: starterTrialConsumed,
         });
       }
 
-      case "decline":
-        {
-          const currentWorkflowState = deriveWorkflowState({
-            workflowState:
-              typeof meeting.workflow_state === "string"
-                ? meeting.workflow_state
-                : null,
-            status: meeting.status,
-          });
-          const transitionValidation = requireMeetingStateTransition({
-            from: currentWorkflowState,
-            to: "canceled",
-          });
-          if (!transitionValidation.allowed) {
-            return NextResponse.json(
-              {
-                error: "invalid_state_transition",
-                message:
-                  transitionValidation.message ||
-                  "Meeting cannot be moved to canceled state.",
-              },
-              { status: 409 }
-            );
-          }
+      case "decline": {
+        const transition = await transitionMeeting(supabase, {
+          meetingId: meeting_id,
+          to: "canceled",
+          actor: {
+            userId: user.id,
+            role: participant.role === "host" ? "host" : "guest",
+          },
+          reason: "Declined by participant",
+          updates: {
+            canceled_by: user.id,
+            canceled_at: new Date().toISOString(),
+          },
+          details: { cancellation: { trigger: "declined", refundGuest: true } },
+        });
+
+        if (!transition.ok) {
+          return NextResponse.json(
+            { error: transition.code, message: transition.message },
+            { status: transition.status }
+          );
         }
 
         // Update participant response
@@ -1894,82 +1624,8 @@ export async function PATCH(request: NextRequest) {
           .eq("meeting_id", meeting_id)
           .eq("user_id", user.id);
 
-        // Cancel the meeting
-        await supabase
-          .from("meetings")
-          .update({
-            status: "canceled",
-            workflow_state: "canceled",
-            canceled_by: user.id,
-            canceled_at: new Date().toISOString(),
-          })
-          .eq("id", meeting_id);
-
-        // Refund credits to the requester (guest)
-        const { data: guest } = await supabase
-          .from("meeting_participants")
-          .select("user_id")
-          .eq("meeting_id", meeting_id)
-          .eq("role", "guest")
-          .single();
-
-        if (guest) {
-          await refundConsumedCredits(
-            supabase,
-            guest.user_id,
-            typeof meeting.requester_credit_cost === "number"
-              ? meeting.requester_credit_cost
-              : 1,
-            {
-              actionType: "meeting_request_declined_refund",
-              description: "Meeting request declined; refunded requester credits.",
-            }
-          );
-        }
-
-        const declinedMeetingRestoredStarterTrialUserIds =
-          meeting.status === "pending"
-            ? await restoreStarterTrialForOtherParticipants(meeting_id, user.id)
-            : [];
-
-        try {
-          const [{ data: actorAccount }, { data: actorProfile }] = await Promise.all([
-            supabase
-              .from("accounts")
-              .select("display_name, email")
-              .eq("id", user.id)
-              .single(),
-            supabase
-              .from("user_profiles")
-              .select("first_name")
-              .eq("user_id", user.id)
-              .maybeSingle(),
-          ]);
-
-          const declinerName =
-            actorProfile?.first_name ||
-            actorAccount?.display_name ||
-            actorAccount?.email?.split("@")[0] ||
-            "A participant";
-
-          await sendMeetingCancellationEmails({
-            meetingId: meeting_id,
-            scheduledAt: meeting.scheduled_at,
-            canceledByUserId: user.id,
-            canceledByName: declinerName,
-            refundIssued:
-              Boolean(guest?.user_id) &&
-              (typeof meeting.requester_credit_cost === "number"
-                ? meeting.requester_credit_cost > 0
-                : true),
-            freePlanRestoredUserIds:
-              declinedMeetingRestoredStarterTrialUserIds,
-          });
-        } catch (emailError) {
-          console.error("Error sending declined meeting emails:", emailError);
-        }
-
         return NextResponse.json({ success: true, meeting_status: "canceled" });
+      }
 
       case "cancel":
         const cancellationPolicy = evaluateCancellationPolicy({
@@ -2027,107 +1683,32 @@ export async function PATCH(request: NextRequest) {
           );
         }
 
-        // For pending meetings with no fee — allow direct cancellation
+        // For pending meetings with no fee — allow direct cancellation.
+        // The guest's credits come back since the meeting was not yet approved.
         {
-          const currentWorkflowState = deriveWorkflowState({
-            workflowState:
-              typeof meeting.workflow_state === "string"
-                ? meeting.workflow_state
-                : null,
-            status: meeting.status,
-          });
-          const transitionValidation = requireMeetingStateTransition({
-            from: currentWorkflowState,
+          const transition = await transitionMeeting(supabase, {
+            meetingId: meeting_id,
             to: "canceled",
+            actor: {
+              userId: user.id,
+              role: participant.role === "host" ? "host" : "guest",
+            },
+            reason: "Canceled before confirmation",
+            updates: {
+              canceled_by: user.id,
+              canceled_at: new Date().toISOString(),
+            },
+            details: { cancellation: { trigger: "canceled", refundGuest: true } },
           });
-          if (!transitionValidation.allowed) {
+
+          if (!transition.ok) {
             return NextResponse.json(
-              {
-                error: "invalid_state_transition",
-                message:
-                  transitionValidation.message ||
-                  "Meeting cannot be moved to canceled state.",
-              },
-              { status: 409 }
+              { error: transition.code, message: transition.message },
+              { status: transition.status }
             );
           }
         }
 
-        await supabase
-          .from("meetings")
-          .update({
-            status: "canceled",
-            workflow_state: "canceled",
-            canceled_by: user.id,
-            canceled_at: new Date().toISOString(),
-          })
-          .eq("id", meeting_id);
-
-        // Refund credits to the guest (requester) since meeting was not yet approved
-        const { data: cancelGuest } = await supabase
-          .from("meeting_participants")
-          .select("user_id")
-          .eq("meeting_id", meeting_id)
-          .eq("role", "guest")
-          .single();
-
-        if (cancelGuest) {
-          await refundConsumedCredits(
-            supabase,
-            cancelGuest.user_id,
-            typeof meeting.requester_credit_cost === "number"
-              ? meeting.requester_credit_cost
-              : 1,
-            {
-              actionType: "meeting_canceled_refund",
-              description:
-                "Meeting canceled before confirmation; refunded requester credits.",
-            }
-          );
-        }
-
-        const canceledMeetingRestoredStarterTrialUserIds =
-          meeting.status === "pending"
-            ? await restoreStarterTrialForOtherParticipants(meeting_id, user.id)
-            : [];
-
-        try {
-          const [{ data: actorAccount }, { data: actorProfile }] = await Promise.all([
-            supabase
-              .from("accounts")
-              .select("display_name, email")
-              .eq("id", user.id)
-              .single(),
-            supabase
-              .from("user_profiles")
-              .select("first_name")
-              .eq("user_id", user.id)
-              .maybeSingle(),
-          ]);
-
-          const cancellerName =
-            actorProfile?.first_name ||
-            actorAccount?.display_name ||
-            actorAccount?.email?.split("@")[0] ||
-            "A participant";
-
-          await sendMeetingCancellationEmails({
-            meetingId: meeting_id,
-            scheduledAt: meeting.scheduled_at,
-            canceledByUserId: user.id,
-            canceledByName: cancellerName,
-            refundIssued:
-              Boolean(cancelGuest?.user_id) &&
-              (typeof meeting.requester_credit_cost === "number"
-                ? meeting.requester_credit_cost > 0
-                : true),
-            freePlanRestoredUserIds:
-              canceledMeetingRestoredStarterTrialUserIds,
-          });
-        } catch (emailError) {
-          console.error("Error sending canceled meeting emails:", emailError);
-        }
-
         return NextResponse.json({
           success: true,
           meeting_status: "canceled",
@@ -1,17 +1,21 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
-import { createZoomMeeting, deleteZoomMeeting } from "@/lib/zoom";
 import { validateMeetingsAccess } from "@/middleware/subscription-check";
 import { MEETING_ETIQUETTE_CHECKLIST, getEtiquetteSummaryMessage } from "@/lib/meetings/etiquette";
-import { persistConfirmedMeetingVideoLinkIfMissing } from "@/lib/meetings/video-link";
 import {
-  deriveWorkflowState,
-  requireMeetingStateTransition,
-} from "@/lib/meetings/state-machine";
+  buildMeetingVideoLinkUpdate,
+  persistConfirmedMeetingVideoLinkIfMissing,
+} from "@/lib/meetings/video-link";
+import { transitionMeeting } from "@/lib/meetings/transitions";
 import {
   canAccessStarterTrialMeeting,
   getStarterTrialState,
 } from "@/lib/starter-trial";
+import {
+  getMeetingVideoProviderId,
+  getMeetingVideoRoomId,
+  getVideoProvider,
+} from "@/lib/video/providers";
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -181,25 +185,24 @@ export async function GET(request: NextRequest) {
     }
     const withinJoinWindow = now >= joinWindowOpen;
     if (withinJoinWindow && meeting.status === "confirmed") {
-      const currentWorkflowState = deriveWorkflowState({
-        workflowState:
-          typeof meeting.workflow_state === "string"
-            ? meeting.workflow_state
-            : null,
-        status: meeting.status,
-      });
-      const transitionValidation = requireMeetingStateTransition({
-        from: currentWorkflowState,
+      const transition = await transitionMeeting(supabase, {
+        meetingId,
         to: "in_progress",
+        from: ["confirmed", "reschedule_proposed"],
+        actor: {
+          userId: user.id,
+          role:
+            participant?.role === "host" ||
+            participant?.role === "guest" ||
+            participant?.role === "coordinator"
+              ? participant.role
+              : "admin",
+        },
+        reason: "Participant joined the meeting",
+        updates: { in_progress_at: now.toISOString() },
       });
-      if (transitionValidation.allowed && currentWorkflowState !== "in_progress") {
-        await supabase
-          .from("meetings")
-          .update({
-            workflow_state: "in_progress",
-            in_progress_at: now.toISOString(),
-          })
-          .eq("id", meetingId);
+      if (!transition.ok && transition.code !== "invalid_state_transition") {
+        console.error("Error marking meeting in progress:", transition.message);
       }
     }
 
@@ -210,6 +213,7 @@ export async function GET(request: NextRequest) {
         video_link: meeting.video_link,
         video_password: meeting.video_password || null,
         zoom_meeting_id: meeting.zoom_meeting_id || null,
+        video_provider: getMeetingVideoProviderId(meeting),
         scheduled_at: meeting.scheduled_at,
         is_fallback: meeting.video_link_is_fallback || false,
       });
@@ -243,8 +247,9 @@ export async function GET(request: NextRequest) {
     const hostName = hostProfile?.first_name || "Host";
     const guestName = guestProfile?.first_name || "Guest";
 
-    // Create the Zoom meeting
-    const result = await createZoomMeeting({
+    const provider = getVideoProvider();
+    const result = await provider.createRoom({
+      meetingId,
       topic: `MatchIndeed: ${hostName} & ${guestName}`,
       startTime: meeting.scheduled_at,
       durationMinutes: 30,
@@ -257,7 +262,7 @@ export async function GET(request: NextRequest) {
         {
           error:
             result.error ||
-            "Failed to create a live Zoom meeting link",
+            "Failed to create a live video meeting link",
         },
         { status: 500 }
       );
@@ -274,13 +279,13 @@ export async function GET(request: NextRequest) {
       persistedMeetingLink = await persistConfirmedMeetingVideoLinkIfMissing({
         supabase,
         meetingId,
-        zoomResult: result,
+        roomResult: result,
       });
     } catch (persistError) {
-      if (result.meeting_id) {
-        await deleteZoomMeeting(String(result.meeting_id)).catch((error) => {
+      if (result.room_id) {
+        await provider.deleteRoom(result.room_id).catch((error) => {
           console.error(
-            "[meetings/video-link][GET] failed to delete Zoom meeting after persist error:",
+            "[meetings/video-link][GET] failed to delete video room after persist error:",
             error
           );
         });
@@ -301,6 +306,7 @@ export async function GET(request: NextRequest) {
       video_link: persistedMeetingLink.video_link,
       video_password: persistedMeetingLink.video_password,
       zoom_meeting_id: persistedMeetingLink.zoom_meeting_id,
+      video_provider: persistedMeetingLink.video_provider,
       scheduled_at: persistedMeetingLink.scheduled_at || meeting.scheduled_at,
       is_fallback: persistedMeetingLink.is_fallback,
     });
@@ -395,9 +401,10 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Delete old Zoom meeting if it exists
-    if (meeting.zoom_meeting_id) {
-      await deleteZoomMeeting(meeting.zoom_meeting_id);
+    // Delete the old room with the provider that created it
+    const previousRoomId = getMeetingVideoRoomId(meeting);
+    if (previousRoomId) {
+      await getVideoProvider(getMeetingVideoProviderId(meeting)).deleteRoom(previousRoomId);
     }
 
     // Get participant names
@@ -421,8 +428,10 @@ export async function POST(request: NextRequest) {
       .eq("user_id", host?.user_id || "")
       .single();
 
-    // Create new meeting
-    const result = await createZoomMeeting({
+    // Create the new room with the current provider
+    const provider = getVideoProvider();
+    const result = await provider.createRoom({
+      meetingId: meeting_id,
       topic: `MatchIndeed: ${hostProfile?.first_name || "Host"} & ${guestProfile?.first_name || "Guest"}`,
       startTime: meeting.scheduled_at,
       durationMinutes: 30,
@@ -434,7 +443,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(
         {
           error:
-            result.error || "Failed to create a live Zoom meeting",
+            result.error || "Failed to create a live video meeting",
         },
         { status: 500 }
       );
@@ -447,31 +456,16 @@ export async function POST(request: NextRequest) {
     }
 
     // Update database
-    const updateData: {
-      video_link: string;
-      video_password: string | null;
-      video_link_is_fallback: boolean;
-      zoom_meeting_id?: string;
-    } = {
-      video_link: result.join_url,
-      video_password: result.password || null,
-      video_link_is_fallback: result.is_fallback || false,
-    };
-
-    if (result.meeting_id) {
-      updateData.zoom_meeting_id = String(result.meeting_id);
-    }
-
     const { error: updateError } = await supabase
       .from("meetings")
-      .update(updateData)
+      .update(buildMeetingVideoLinkUpdate(result))
       .eq("id", meeting_id);
 
     if (updateError) {
-      if (result.meeting_id) {
-        await deleteZoomMeeting(String(result.meeting_id)).catch((error) => {
+      if (result.room_id) {
+        await provider.deleteRoom(result.room_id).catch((error) => {
           console.error(
-            "[meetings/video-link][POST] failed to delete Zoom meeting after update error:",
+            "[meetings/video-link][POST] failed to delete video room after update error:",
             error
           );
         });
@@ -502,7 +496,8 @@ export async function POST(request: NextRequest) {
       success: true,
       video_link: result.join_url,
       video_password: result.password || null,
-      zoom_meeting_id: result.meeting_id || null,
+      zoom_meeting_id: result.provider === "zoom" ? result.room_id || null : null,
+      video_provider: result.provider,
       is_fallback: result.is_fallback || false,
     });
   } catch (error) {
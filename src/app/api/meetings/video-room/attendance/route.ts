@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { isVideoAttendanceEvent, recordVideoAttendance } from "@/lib/video/attendance";
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+async function getAuthUser(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) return null;
+
+  const token = authHeader.substring(7);
+  const {
+    data: { user },
+    error,
+  } = await supabase.auth.getUser(token);
+  return error || !user ? null : user;
+}
+
+/**
+ * POST /api/meetings/video-room/attendance
+ *
+ * Record a join, heartbeat or leave for one built-in room connection.
+ *
+ * Body:
+ *   meeting_id — the meeting the token was issued for
+ *   token      — the join token from POST /api/meetings/video-room
+ *   event      — "join" | "heartbeat" | "leave"
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthUser(request);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const meetingId = typeof body.meeting_id === "string" ? body.meeting_id : "";
+    const token = typeof body.token === "string" ? body.token : "";
+    if (!meetingId || !token || !isVideoAttendanceEvent(body.event)) {
+      return NextResponse.json(
+        { error: "meeting_id, token and a valid event are required" },
+        { status: 400 }
+      );
+    }
+
+    const result = await recordVideoAttendance(supabase, {
+      meetingId,
+      userId: user.id,
+      token,
+      event: body.event,
+    });
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.code, message: result.message },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      joined_at: result.attendance.joined_at,
+      left_at: result.attendance.left_at,
+    });
+  } catch (error) {
+    console.error("Error in POST /api/meetings/video-room/attendance:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
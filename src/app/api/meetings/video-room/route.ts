@@ -0,0 +1,153 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import {
+  VIDEO_HEARTBEAT_INTERVAL_SECONDS,
+  issueVideoJoinToken,
+} from "@/lib/video/attendance";
+import { getMeetingVideoProviderId, getWebRtcIceServers } from "@/lib/video/providers";
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+const MEETING_JOIN_EARLY_MINUTES = 10;
+const MEETING_JOIN_DURATION_MINUTES = 30;
+
+async function getAuthUser(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) return null;
+
+  const token = authHeader.substring(7);
+  const {
+    data: { user },
+    error,
+  } = await supabase.auth.getUser(token);
+  return error || !user ? null : user;
+}
+
+/**
+ * POST /api/meetings/video-room
+ *
+ * Issue a join token for the built-in WebRTC room. Each connection needs its
+ * own token; the room redeems it through /api/meetings/video-room/attendance.
+ *
+ * Body:
+ *   meeting_id — the meeting to join
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthUser(request);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const meetingId = typeof body.meeting_id === "string" ? body.meeting_id : "";
+    if (!meetingId) {
+      return NextResponse.json({ error: "meeting_id is required" }, { status: 400 });
+    }
+
+    const [{ data: participant }, { data: meeting }, { data: ack }] = await Promise.all([
+      supabase
+        .from("meeting_participants")
+        .select("role")
+        .eq("meeting_id", meetingId)
+        .eq("user_id", user.id)
+        .maybeSingle(),
+      supabase
+        .from("meetings")
+        .select("id, status, scheduled_at, video_provider, video_room_id")
+        .eq("id", meetingId)
+        .maybeSingle(),
+      supabase
+        .from("meeting_rule_acknowledgments")
+        .select("acknowledged_at")
+        .eq("meeting_id", meetingId)
+        .eq("user_id", user.id)
+        .maybeSingle(),
+    ]);
+
+    if (!participant) {
+      return NextResponse.json(
+        { error: "You are not a participant in this meeting" },
+        { status: 403 }
+      );
+    }
+
+    if (!meeting || getMeetingVideoProviderId(meeting) !== "webrtc" || !meeting.video_room_id) {
+      return NextResponse.json(
+        {
+          error: "video_room_unavailable",
+          message: "This meeting does not use the MatchIndeed video room.",
+        },
+        { status: 404 }
+      );
+    }
+
+    if (meeting.status !== "confirmed") {
+      return NextResponse.json(
+        {
+          error: "meeting_not_joinable",
+          message: "Only confirmed meetings can be joined.",
+          status: meeting.status,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!ack?.acknowledged_at) {
+      return NextResponse.json(
+        {
+          error: "rules_not_acknowledged",
+          message: "Please acknowledge the meeting rules before joining.",
+        },
+        { status: 428 }
+      );
+    }
+
+    const now = new Date();
+    const meetingStart = new Date(meeting.scheduled_at).getTime();
+    if (now.getTime() < meetingStart - MEETING_JOIN_EARLY_MINUTES * 60 * 1000) {
+      return NextResponse.json(
+        {
+          error: "meeting_window_not_open",
+          message: "This meeting can be joined 10 minutes before the scheduled time.",
+          scheduled_at: meeting.scheduled_at,
+        },
+        { status: 403 }
+      );
+    }
+    if (now.getTime() > meetingStart + MEETING_JOIN_DURATION_MINUTES * 60 * 1000) {
+      return NextResponse.json(
+        {
+          error: "meeting_window_closed",
+          message: "This meeting has passed and can no longer be joined.",
+          scheduled_at: meeting.scheduled_at,
+        },
+        { status: 403 }
+      );
+    }
+
+    const { token, expiresAt } = await issueVideoJoinToken(supabase, {
+      meetingId,
+      userId: user.id,
+      role: participant.role,
+      now,
+    });
+
+    return NextResponse.json({
+      success: true,
+      token,
+      expires_at: expiresAt,
+      channel: `video-room:${meeting.video_room_id}`,
+      role: participant.role,
+      ice_servers: getWebRtcIceServers(),
+      heartbeat_interval_seconds: VIDEO_HEARTBEAT_INTERVAL_SECONDS,
+    });
+  } catch (error) {
+    console.error("Error in POST /api/meetings/video-room:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
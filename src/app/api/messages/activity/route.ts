@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import {
+  getChatActivity,
+  getChatParticipants,
+  setTypingState,
+} from "@/lib/messages/chat-activity";
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+async function getAuthUser(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) return null;
+
+  const token = authHeader.substring(7);
+  const {
+    data: { user },
+    error,
+  } = await supabase.auth.getUser(token);
+  return error || !user ? null : user;
+}
+
+// ---------------------------------------------------------------
+// GET /api/messages/activity
+//
+// Polling fallback for a chat while realtime is unavailable: whether the
+// partner is typing or online, when the last message was sent, and the
+// delivered/read state of the caller's recent messages. Also marks the
+// partner's messages as delivered.
+//
+// Query params:
+//   match_id — the conversation
+// ---------------------------------------------------------------
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthUser(request);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const matchId = new URL(request.url).searchParams.get("match_id");
+    if (!matchId) {
+      return NextResponse.json({ error: "match_id is required" }, { status: 400 });
+    }
+
+    const activity = await getChatActivity(supabase, { matchId, viewerId: user.id });
+    if (!activity) {
+      return NextResponse.json({ error: "Match not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(activity);
+  } catch (error) {
+    console.error("Error in GET /api/messages/activity:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// ---------------------------------------------------------------
+// POST /api/messages/activity
+//
+// Typing indicator for the polling fallback.
+//
+// Body:
+//   match_id — the conversation
+//   typing   — true while typing (repeat every few seconds), false to clear
+// ---------------------------------------------------------------
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthUser(request);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { match_id, typing } = body;
+
+    if (!match_id || typeof typing !== "boolean") {
+      return NextResponse.json(
+        { error: "match_id and typing are required" },
+        { status: 400 }
+      );
+    }
+
+    const participants = await getChatParticipants(supabase, match_id, user.id);
+    if (!participants) {
+      return NextResponse.json({ error: "Match not found" }, { status: 404 });
+    }
+
+    await setTypingState(supabase, { matchId: match_id, userId: user.id, typing });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error in POST /api/messages/activity:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -8,6 +8,32 @@ import {
   resolveOwnInteractionBlockMessage,
   TARGET_ACCOUNT_INACTIVE_MESSAGE,
 } from "@/lib/account-interactions";
+import {
+  BLURRED_MESSAGE_PREVIEW,
+  checkMessageSafety,
+  describeBlockedMessage,
+  messageSafetyStatusFor,
+  recordMessageSafetyFlagSafely,
+  VISIBLE_MESSAGE_SAFETY_STATUSES,
+} from "@/lib/message-safety/pipeline";
+import {
+  attachChatMessageExtras,
+  CHAT_MESSAGE_COLUMNS,
+  removeChatMediaSafely,
+  uploadChatMedia,
+} from "@/lib/messages/rich-messages";
+import {
+  attachReplyPreviews,
+  editMessage,
+  getHiddenMessageIds,
+  hideMessageForUser,
+  toggleMessageReaction,
+  unsendMessage,
+  validateReplyTarget,
+  type MessageInteractionFailure,
+} from "@/lib/messages/interactions";
+import { markMessagesDeliveredSafely } from "@/lib/messages/chat-activity";
+import type { ChatMediaKind } from "@/lib/messages/message-types";
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -31,6 +57,13 @@ type UserEmailIdentity = {
   name: string;
 };
 
+function interactionErrorResponse(result: MessageInteractionFailure) {
+  return NextResponse.json(
+    { error: result.message, code: result.code, categories: result.categories },
+    { status: result.status }
+  );
+}
+
 function isMissingReadAtColumn(error: PostgrestError | null): boolean {
   if (!error) return false;
   return (
@@ -85,11 +118,19 @@ async function getUserEmailIdentity(userId: string): Promise<UserEmailIdentity>
 // Fetch messages for a match, or list all conversations.
 //
 // Query params:
-//   match_id  — fetch messages for a specific match (paginated)
-//   limit     — number of messages (default 50)
-//   before    — cursor: fetch messages before this timestamp
+//   match_id   — fetch messages for a specific match (paginated)
+//   limit      — number of messages (default 50)
+//   before     — cursor: fetch messages before this timestamp
+//   message_id — with match_id: fetch just this message (e.g. a photo
+//                that arrived over realtime and needs its signed URL)
+//
+// Messages the user deleted for themselves are left out, and replies come
+// with a short preview of the message they answer (reply_to).
 //
 // Without match_id: returns list of conversations (matches with messaging)
+//
+// The unread summary and the conversation list both mark the partner's
+// messages as delivered.
 // ---------------------------------------------------------------
 export async function GET(request: NextRequest) {
   try {
@@ -125,11 +166,14 @@ export async function GET(request: NextRequest) {
         });
       }
 
+      await markMessagesDeliveredSafely(supabase, { recipientId: user.id, matchIds });
+
       const unreadQuery = await supabase
         .from("messages")
         .select("id", { count: "exact", head: true })
         .in("match_id", matchIds)
         .neq("sender_id", user.id)
+        .in("safety_status", VISIBLE_MESSAGE_SAFETY_STATUSES)
         .is("read_at", null);
 
       if (unreadQuery.error && !isMissingReadAtColumn(unreadQuery.error)) {
@@ -152,6 +196,7 @@ export async function GET(request: NextRequest) {
     if (matchId) {
       const limit = parseInt(searchParams.get("limit") || "50", 10);
       const before = searchParams.get("before");
+      const messageId = searchParams.get("message_id");
 
       // Verify user is part of this match
       const { data: match, error: matchError } = await supabase
@@ -180,36 +225,57 @@ export async function GET(request: NextRequest) {
         sender_id: string;
         content: string;
         message_type: string;
+        media_path: string | null;
+        media_duration_seconds: number | null;
+        meeting_id: string | null;
+        reply_to_id: string | null;
+        edited_at: string | null;
+        deleted_at: string | null;
+        reactions: Record<string, string[]> | null;
+        delivered_at: string | null;
         read_at: string | null;
         created_at: string;
+        safety_status: string;
+        safety_categories: string[];
       };
 
+      // Held and removed messages are hidden from the recipient only.
+      const visibleToUser = `sender_id.eq.${user.id},safety_status.in.(${VISIBLE_MESSAGE_SAFETY_STATUSES.join(",")})`;
+
       let messages: MessageRow[] = [];
 
       let queryWithReadAt = supabase
         .from("messages")
-        .select("id, sender_id, content, message_type, read_at, created_at")
+        .select(`${CHAT_MESSAGE_COLUMNS}, delivered_at, read_at, safety_status, safety_categories`)
         .eq("match_id", matchId)
+        .or(visibleToUser)
         .order("created_at", { ascending: false })
         .limit(limit);
 
       if (before) {
         queryWithReadAt = queryWithReadAt.lt("created_at", before);
       }
+      if (messageId) {
+        queryWithReadAt = queryWithReadAt.eq("id", messageId);
+      }
 
       const { data: primaryMessages, error: primaryMsgError } = await queryWithReadAt;
 
       if (primaryMsgError && isMissingReadAtColumn(primaryMsgError)) {
         let fallbackQuery = supabase
           .from("messages")
-          .select("id, sender_id, content, message_type, created_at")
+          .select(`${CHAT_MESSAGE_COLUMNS}, safety_status, safety_categories`)
           .eq("match_id", matchId)
+          .or(visibleToUser)
           .order("created_at", { ascending: false })
           .limit(limit);
 
         if (before) {
           fallbackQuery = fallbackQuery.lt("created_at", before);
         }
+        if (messageId) {
+          fallbackQuery = fallbackQuery.eq("id", messageId);
+        }
 
         const { data: fallbackMessages, error: fallbackMsgError } = await fallbackQuery;
         if (fallbackMsgError) {
@@ -220,8 +286,9 @@ export async function GET(request: NextRequest) {
           );
         }
 
-        messages = ((fallbackMessages || []) as Omit<MessageRow, "read_at">[]).map((msg) => ({
+        messages = ((fallbackMessages || []) as Omit<MessageRow, "read_at" | "delivered_at">[]).map((msg) => ({
           ...msg,
+          delivered_at: null,
           read_at: null,
         }));
       } else if (primaryMsgError) {
@@ -243,14 +310,36 @@ export async function GET(request: NextRequest) {
         .update({ read_at: new Date().toISOString() })
         .eq("match_id", matchId)
         .eq("sender_id", partnerId)
+        .in("safety_status", VISIBLE_MESSAGE_SAFETY_STATUSES)
         .is("read_at", null);
 
       if (markReadResult.error && !isMissingReadAtColumn(markReadResult.error)) {
         console.error("Error marking messages as read:", markReadResult.error);
       }
 
+      const hiddenIds = await getHiddenMessageIds(
+        supabase,
+        user.id,
+        messages.map((msg) => msg.id)
+      );
+
+      // Senders never learn that their own message was blurred or held.
+      const presented = messages
+        .filter((msg) => !hiddenIds.has(msg.id))
+        .map((msg) =>
+          msg.sender_id === user.id
+            ? { ...msg, safety_status: "clear", safety_categories: [] }
+            : msg
+        );
+
+      const withExtras = await attachReplyPreviews(
+        supabase,
+        await attachChatMessageExtras(supabase, presented),
+        user.id
+      );
+
       return NextResponse.json({
-        messages: (messages || []).reverse(), // Return in chronological order
+        messages: withExtras.reverse(), // Return in chronological order
         match_id: matchId,
         has_more: (messages || []).length === limit,
       });
@@ -300,6 +389,11 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    await markMessagesDeliveredSafely(supabase, {
+      recipientId: user.id,
+      matchIds: (matches || []).map((match) => match.id),
+    });
+
     // Enrich with partner info and unread counts
     const conversations = [];
     for (const match of matches || []) {
@@ -326,6 +420,7 @@ export async function GET(request: NextRequest) {
         .select("id", { count: "exact", head: true })
         .eq("match_id", match.id)
         .eq("sender_id", partnerId)
+        .in("safety_status", VISIBLE_MESSAGE_SAFETY_STATUSES)
         .is("read_at", null);
 
       let unreadCount = unreadQuery.count || 0;
@@ -382,9 +477,17 @@ export async function GET(request: NextRequest) {
 //
 // Send a message to a match.
 //
-// Body:
+// JSON body (text):
 //   match_id — the match to send to
 //   content  — message text
+//
+// multipart/form-data (photo or voice note):
+//   match_id         — the match to send to
+//   kind             — "image" | "voice"
+//   file             — the photo or recording
+//   duration_seconds — length of a voice note
+//
+// Either form accepts reply_to_id to answer a message in the same chat.
 // ---------------------------------------------------------------
 export async function POST(request: NextRequest) {
   try {
@@ -393,22 +496,47 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    const body = await request.json();
-    const { match_id, content } = body;
+    const isUpload = (request.headers.get("content-type") || "").includes("multipart/form-data");
+    let match_id: string;
+    let content = "";
+    let replyToId: string | null = null;
+    let media: { kind: ChatMediaKind; file: File; durationSeconds: number | null } | null = null;
+
+    if (isUpload) {
+      const form = await request.formData();
+      const kind = form.get("kind");
+      const file = form.get("file");
+      const duration = Number(form.get("duration_seconds"));
+      match_id = String(form.get("match_id") || "");
+      replyToId = typeof form.get("reply_to_id") === "string" ? String(form.get("reply_to_id")) || null : null;
+
+      if (!match_id || (kind !== "image" && kind !== "voice") || !(file instanceof File)) {
+        return NextResponse.json(
+          { error: "match_id, kind (image or voice) and file are required" },
+          { status: 400 }
+        );
+      }
+      media = { kind, file, durationSeconds: Number.isFinite(duration) ? duration : null };
+    } else {
+      const body = await request.json();
+      match_id = body.match_id;
+      content = typeof body.content === "string" ? body.content : "";
+      replyToId = typeof body.reply_to_id === "string" ? body.reply_to_id || null : null;
 
-    if (!match_id || !content?.trim()) {
-      return NextResponse.json(
-        { error: "match_id and content are required" },
-        { status: 400 }
-      );
-    }
+      if (!match_id || !content.trim()) {
+        return NextResponse.json(
+          { error: "match_id and content are required" },
+          { status: 400 }
+        );
+      }
 
-    // Validate message length
-    if (content.trim().length > 2000) {
-      return NextResponse.json(
-        { error: "Message too long (max 2000 characters)" },
-        { status: 400 }
-      );
+      // Validate message length
+      if (content.trim().length > 2000) {
+        return NextResponse.json(
+          { error: "Message too long (max 2000 characters)" },
+          { status: 400 }
+        );
+      }
     }
 
     // Verify user is part of this match and messaging is enabled
@@ -462,26 +590,103 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (replyToId) {
+      const reply = await validateReplyTarget(supabase, {
+        matchId: match_id,
+        replyToId,
+        userId: user.id,
+      });
+      if (!reply.ok) return interactionErrorResponse(reply);
+    }
+
+    // Photos and voice notes are checked by upload moderation instead of
+    // the text screen.
+    const upload = media
+      ? await uploadChatMedia(supabase, {
+          matchId: match_id,
+          senderId: user.id,
+          kind: media.kind,
+          file: media.file,
+          durationSeconds: media.durationSeconds,
+        })
+      : null;
+
+    if (upload && !upload.ok) {
+      return NextResponse.json(
+        { error: upload.message, code: upload.code },
+        { status: upload.status }
+      );
+    }
+
+    const text = upload ? upload.content : content.trim();
+    const safety = upload
+      ? { action: "allow" as const, signals: [], categories: [] }
+      : await checkMessageSafety(supabase, text);
+    const flagInput = {
+      matchId: match_id,
+      senderId: user.id,
+      recipientId: partnerId,
+      content: text,
+      check: safety,
+    };
+
+    if (safety.action === "block") {
+      await recordMessageSafetyFlagSafely(supabase, { ...flagInput, messageId: null });
+      return NextResponse.json(
+        {
+          error: describeBlockedMessage(safety.categories),
+          code: "message_blocked",
+          categories: safety.categories,
+        },
+        { status: 422 }
+      );
+    }
+
+    const safetyStatus = messageSafetyStatusFor(safety.action);
+
     // Insert the message
     const { data: message, error: insertError } = await supabase
       .from("messages")
       .insert({
         match_id,
         sender_id: user.id,
-        content: content.trim(),
-        message_type: "text",
+        content: text,
+        message_type: upload ? upload.kind : "text",
+        media_path: upload?.path || null,
+        media_duration_seconds: upload?.durationSeconds || null,
+        reply_to_id: replyToId,
+        safety_status: safetyStatus,
+        safety_categories: safety.categories,
       })
-      .select("id, sender_id, content, message_type, created_at")
+      .select(CHAT_MESSAGE_COLUMNS)
       .single();
 
     if (insertError) {
       console.error("Error sending message:", insertError);
+      if (upload) await removeChatMediaSafely(supabase, upload.path);
       return NextResponse.json(
         { error: "Failed to send message" },
         { status: 500 }
       );
     }
 
+    if (safety.action !== "allow") {
+      await recordMessageSafetyFlagSafely(supabase, { ...flagInput, messageId: message.id });
+    }
+
+    const [presentedMessage] = await attachReplyPreviews(
+      supabase,
+      await attachChatMessageExtras(supabase, [message]),
+      user.id
+    );
+
+    // A held message looks sent to the sender but reaches no one until reviewed.
+    if (safetyStatus === "held") {
+      return NextResponse.json({ success: true, message: presentedMessage });
+    }
+
+    const previewText = safetyStatus === "blurred" ? BLURRED_MESSAGE_PREVIEW : text;
+
     // Update match last_message_at (the trigger handles this too, but do it explicitly for reliability)
     // Gracefully handle case where columns don't exist yet
     try {
@@ -489,7 +694,7 @@ export async function POST(request: NextRequest) {
         .from("user_matches")
         .update({
           last_message_at: message.created_at,
-          last_message_preview: content.trim().substring(0, 100),
+          last_message_preview: previewText.substring(0, 100),
         })
         .eq("id", match_id);
     } catch {
@@ -505,8 +710,7 @@ export async function POST(request: NextRequest) {
 
     const senderName = senderProfile?.first_name || "Your match";
     const preview =
-      content.trim().substring(0, 80) +
-      (content.trim().length > 80 ? "..." : "");
+      previewText.substring(0, 80) + (previewText.length > 80 ? "..." : "");
 
     // In-app notification
     try {
@@ -558,7 +762,7 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
-      message,
+      message: presentedMessage,
     });
   } catch (error) {
     console.error("Error in POST /api/messages:", error);
@@ -572,10 +776,13 @@ export async function POST(request: NextRequest) {
 // ---------------------------------------------------------------
 // PATCH /api/messages
 //
-// Mark messages as read.
+// Mark messages as read, edit a message or react to one.
 //
-// Body:
-//   match_id — mark all unread messages in this match as read
+// Body (one of):
+//   match_id              — mark all unread messages in this match as read
+//   message_id + content  — edit your own text message (previous text is
+//                           kept for moderation)
+//   message_id + reaction — add, change or remove your reaction
 // ---------------------------------------------------------------
 export async function PATCH(request: NextRequest) {
   try {
@@ -585,7 +792,35 @@ export async function PATCH(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { match_id } = body;
+    const { match_id, message_id } = body;
+
+    if (message_id && typeof body.content === "string") {
+      const result = await editMessage(supabase, {
+        messageId: message_id,
+        userId: user.id,
+        content: body.content,
+      });
+      if (!result.ok) return interactionErrorResponse(result);
+
+      const [message] = await attachReplyPreviews(
+        supabase,
+        await attachChatMessageExtras(supabase, [
+          { ...result.message, safety_status: "clear", safety_categories: [] },
+        ]),
+        user.id
+      );
+      return NextResponse.json({ success: true, message });
+    }
+
+    if (message_id && body.reaction !== undefined) {
+      const result = await toggleMessageReaction(supabase, {
+        messageId: message_id,
+        userId: user.id,
+        reaction: body.reaction,
+      });
+      if (!result.ok) return interactionErrorResponse(result);
+      return NextResponse.json({ success: true, reactions: result.reactions });
+    }
 
     if (!match_id) {
       return NextResponse.json(
@@ -617,6 +852,7 @@ export async function PATCH(request: NextRequest) {
       .update({ read_at: new Date().toISOString() })
       .eq("match_id", match_id)
       .eq("sender_id", partnerId)
+      .in("safety_status", VISIBLE_MESSAGE_SAFETY_STATUSES)
       .is("read_at", null);
 
     if (error) {
@@ -639,3 +875,59 @@ export async function PATCH(request: NextRequest) {
     );
   }
 }
+
+// ---------------------------------------------------------------
+// DELETE /api/messages
+//
+// Remove a message.
+//
+// Body:
+//   message_id — the message
+//   scope      — "me" (default): hide it from your own chat only
+//                "everyone": unsend your own message for both members
+// ---------------------------------------------------------------
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await getAuthUser(request);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { message_id } = body;
+    const scope = body.scope || "me";
+
+    if (!message_id || (scope !== "me" && scope !== "everyone")) {
+      return NextResponse.json(
+        { error: "message_id and scope (me or everyone) are required" },
+        { status: 400 }
+      );
+    }
+
+    if (scope === "me") {
+      const result = await hideMessageForUser(supabase, {
+        messageId: message_id,
+        userId: user.id,
+      });
+      if (!result.ok) return interactionErrorResponse(result);
+      return NextResponse.json({ success: true });
+    }
+
+    const result = await unsendMessage(supabase, {
+      messageId: message_id,
+      userId: user.id,
+    });
+    if (!result.ok) return interactionErrorResponse(result);
+
+    return NextResponse.json({
+      success: true,
+      message: { ...result.message, safety_status: "clear", safety_categories: [] },
+    });
+  } catch (error) {
+    console.error("Error in DELETE /api/messages:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
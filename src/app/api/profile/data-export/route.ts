@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { listDataExports, requestDataExport } from "@/lib/data-export/exports";
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+async function getAuthUser(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) return null;
+
+  const token = authHeader.substring(7);
+  const {
+    data: { user },
+    error,
+  } = await supabase.auth.getUser(token);
+  return error || !user ? null : user;
+}
+
+// ---------------------------------------------------------------
+// GET /api/profile/data-export
+//
+// The caller's recent data exports, newest first. Ready exports include a
+// signed download_url until they expire.
+// ---------------------------------------------------------------
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthUser(request);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const exports = await listDataExports(supabase, { userId: user.id });
+    return NextResponse.json({ exports });
+  } catch (error) {
+    console.error("Error in GET /api/profile/data-export:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// ---------------------------------------------------------------
+// POST /api/profile/data-export
+//
+// Queue a "download my data" export. It is built in the background and the
+// link is emailed when ready; one export per day.
+// ---------------------------------------------------------------
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthUser(request);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const result = await requestDataExport(supabase, { userId: user.id });
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.message, code: result.code },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({ export: { ...result.request, download_url: null } }, { status: 202 });
+  } catch (error) {
+    console.error("Error in POST /api/profile/data-export:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
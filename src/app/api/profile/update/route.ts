@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 import { sendGenderSettingUpdatedEmail } from "@/lib/email";
 import { getPreferredEmailRecipientName } from "@/lib/email-recipient-name";
+import { buildProfileGeoColumns } from "@/lib/geo/geocode";
 import {
   getGenderChangeStatus,
   normalizeProfileGender,
@@ -108,6 +109,18 @@ export async function POST(req: NextRequest) {
     }
     profileUpdate.gender = requestedGender;
 
+    // Coordinates are always derived server-side from the location text.
+    delete profileUpdate.latitude;
+    delete profileUpdate.longitude;
+    delete profileUpdate.location_precision;
+    delete profileUpdate.location_geocoded_at;
+    if ("location" in profileUpdate) {
+      Object.assign(
+        profileUpdate,
+        buildProfileGeoColumns(typeof profileUpdate.location === "string" ? profileUpdate.location : null)
+      );
+    }
+
     const { data: existingProfile, error: existingProfileError } = await supabaseAdmin
       .from("user_profiles")
       .select("gender, first_name")
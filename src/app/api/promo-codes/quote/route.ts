@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { normalizeCurrencyCode, type CurrencyKey } from "@/lib/payments/currencies";
+import { quotePromoCode } from "@/lib/promo-codes/promo-codes";
+import { getTierPriceCents, parseTierId } from "@/lib/subscription/tier-change";
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+async function getAuthUser(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) return null;
+
+  const token = authHeader.substring(7);
+  const {
+    data: { user },
+    error,
+  } = await supabase.auth.getUser(token);
+  return error ? null : user;
+}
+
+/**
+ * POST /api/promo-codes/quote
+ * Preview a promo code against a plan's current price. Nothing is reserved;
+ * checkout validates the code again when the payment is created.
+ * Body: { code, tier, currency }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthUser(request);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const tier = parseTierId(body.tier);
+    const currency = normalizeCurrencyCode(body.currency || "usd");
+    if (!tier || !currency) {
+      return NextResponse.json(
+        { error: "invalid_request", message: "A valid plan and currency are required." },
+        { status: 400 }
+      );
+    }
+
+    const currencyKey = currency.toLowerCase() as CurrencyKey;
+    const result = await quotePromoCode(supabase, {
+      code: body.code,
+      userId: user.id,
+      tier,
+      currency: currencyKey,
+      listAmountCents: await getTierPriceCents(supabase, tier, currencyKey),
+    });
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.code, message: result.message },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      code: result.quote.code,
+      description: result.promo.description,
+      currency: result.quote.currency,
+      list_amount_cents: result.quote.listAmountCents,
+      discount_cents: result.quote.discountCents,
+      amount_cents: result.quote.amountCents,
+    });
+  } catch (error) {
+    console.error("[promo-codes/quote][POST] error:", error);
+    return NextResponse.json({ error: "Failed to check promo code" }, { status: 500 });
+  }
+}
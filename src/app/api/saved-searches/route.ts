@@ -0,0 +1,259 @@
+/**
+ * Saved Searches API
+ *
+ * GET    — List the current user's saved searches
+ * POST   — Save the current Search filters under a name
+ *          Body: { name, filters, alerts_enabled? }
+ * PATCH  — Rename, replace filters or toggle alerts
+ *          Body: { id, name?, filters?, alerts_enabled? }
+ * DELETE — Remove a saved search (?id=...)
+ *
+ * Filters are normalised with `normalizeSearchFilters`, so anything the
+ * Search page doesn't understand is dropped before it is stored. Changing
+ * the filters clears the search's seen results; the next alert run
+ * re-baselines it instead of reporting every current match as new.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { normalizeSearchFilters } from "@/lib/search/filters";
+import {
+  MAX_SAVED_SEARCHES_PER_USER,
+  isMissingSavedSearchesTable,
+  normalizeSavedSearchName,
+  toSavedSearch,
+  type SavedSearchRow,
+} from "@/lib/search/saved-searches";
+
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const UNAVAILABLE_MESSAGE = "Saved searches are temporarily unavailable. Please try again later.";
+
+// ---------------------------------------------------------------
+// Auth helper — extract the current user from Bearer token
+// ---------------------------------------------------------------
+async function getAuthenticatedUser(req: NextRequest) {
+  const authHeader = req.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) {
+    return { user: null, error: "Missing or invalid authorization header" };
+  }
+
+  const token = authHeader.replace("Bearer ", "");
+  const {
+    data: { user },
+    error,
+  } = await supabaseAdmin.auth.getUser(token);
+
+  if (error || !user) {
+    return { user: null, error: "Invalid or expired token" };
+  }
+  return { user, error: null };
+}
+
+function unavailableOr500(error: unknown, message: string) {
+  if (isMissingSavedSearchesTable(error)) {
+    return NextResponse.json({ error: UNAVAILABLE_MESSAGE }, { status: 503 });
+  }
+  return NextResponse.json({ error: message }, { status: 500 });
+}
+
+// ---------------------------------------------------------------
+// GET — List saved searches
+// ---------------------------------------------------------------
+export async function GET(req: NextRequest) {
+  try {
+    const { user, error: authError } = await getAuthenticatedUser(req);
+    if (!user) {
+      return NextResponse.json({ error: authError }, { status: 401 });
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from("saved_searches")
+      .select("*")
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      if (isMissingSavedSearchesTable(error)) {
+        return NextResponse.json({ saved_searches: [] });
+      }
+      console.error("Error fetching saved searches:", error);
+      return NextResponse.json({ error: "Failed to load saved searches" }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      saved_searches: ((data || []) as SavedSearchRow[]).map(toSavedSearch),
+    });
+  } catch (err) {
+    console.error("GET /api/saved-searches error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// ---------------------------------------------------------------
+// POST — Save a new search
+// ---------------------------------------------------------------
+export async function POST(req: NextRequest) {
+  try {
+    const { user, error: authError } = await getAuthenticatedUser(req);
+    if (!user) {
+      return NextResponse.json({ error: authError }, { status: 401 });
+    }
+
+    const body = await req.json().catch(() => null);
+    const name = normalizeSavedSearchName(body?.name);
+    if (!name) {
+      return NextResponse.json({ error: "A name is required" }, { status: 400 });
+    }
+
+    const { count, error: countError } = await supabaseAdmin
+      .from("saved_searches")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", user.id);
+
+    if (countError) {
+      console.error("Error counting saved searches:", countError);
+      return unavailableOr500(countError, "Failed to save search");
+    }
+
+    if ((count || 0) >= MAX_SAVED_SEARCHES_PER_USER) {
+      return NextResponse.json(
+        {
+          error: `You can keep up to ${MAX_SAVED_SEARCHES_PER_USER} saved searches. Delete one to save another.`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from("saved_searches")
+      .insert({
+        user_id: user.id,
+        name,
+        filters: normalizeSearchFilters(body?.filters),
+        alerts_enabled: body?.alerts_enabled !== false,
+      })
+      .select("*")
+      .single();
+
+    if (error) {
+      console.error("Error saving search:", error);
+      return unavailableOr500(error, "Failed to save search");
+    }
+
+    return NextResponse.json({ saved_search: toSavedSearch(data as SavedSearchRow) });
+  } catch (err) {
+    console.error("POST /api/saved-searches error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// ---------------------------------------------------------------
+// PATCH — Update a saved search
+// ---------------------------------------------------------------
+export async function PATCH(req: NextRequest) {
+  try {
+    const { user, error: authError } = await getAuthenticatedUser(req);
+    if (!user) {
+      return NextResponse.json({ error: authError }, { status: 401 });
+    }
+
+    const body = await req.json().catch(() => null);
+    const id = typeof body?.id === "string" ? body.id : null;
+    if (!id) {
+      return NextResponse.json({ error: "id is required" }, { status: 400 });
+    }
+
+    const updates: Record<string, unknown> = {};
+
+    if (body.name !== undefined) {
+      const name = normalizeSavedSearchName(body.name);
+      if (!name) {
+        return NextResponse.json({ error: "A name is required" }, { status: 400 });
+      }
+      updates.name = name;
+    }
+
+    if (body.filters !== undefined) {
+      updates.filters = normalizeSearchFilters(body.filters);
+      updates.last_run_at = null;
+    }
+
+    if (body.alerts_enabled !== undefined) {
+      updates.alerts_enabled = body.alerts_enabled === true;
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json({ error: "Nothing to update" }, { status: 400 });
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from("saved_searches")
+      .update(updates)
+      .eq("id", id)
+      .eq("user_id", user.id)
+      .select("*")
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error updating saved search:", error);
+      return unavailableOr500(error, "Failed to update saved search");
+    }
+
+    if (!data) {
+      return NextResponse.json({ error: "Saved search not found" }, { status: 404 });
+    }
+
+    if (body.filters !== undefined) {
+      const { error: resetError } = await supabaseAdmin
+        .from("saved_search_results")
+        .delete()
+        .eq("saved_search_id", id);
+      if (resetError) {
+        console.error("Error resetting saved search results:", resetError);
+      }
+    }
+
+    return NextResponse.json({ saved_search: toSavedSearch(data as SavedSearchRow) });
+  } catch (err) {
+    console.error("PATCH /api/saved-searches error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// ---------------------------------------------------------------
+// DELETE — Remove a saved search
+// ---------------------------------------------------------------
+export async function DELETE(req: NextRequest) {
+  try {
+    const { user, error: authError } = await getAuthenticatedUser(req);
+    if (!user) {
+      return NextResponse.json({ error: authError }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const id = searchParams.get("id");
+    if (!id) {
+      return NextResponse.json({ error: "id query parameter is required" }, { status: 400 });
+    }
+
+    const { error } = await supabaseAdmin
+      .from("saved_searches")
+      .delete()
+      .eq("id", id)
+      .eq("user_id", user.id);
+
+    if (error) {
+      console.error("Error deleting saved search:", error);
+      return unavailableOr500(error, "Failed to delete saved search");
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    console.error("DELETE /api/saved-searches error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Search API
+ *
+ * POST — One page of profiles for the Search and Discover pages
+ *        Body: { filters, cursor?, limit?, mode? }
+ *        Returns: { results, next_cursor, total }
+ *
+ * Filtering, blocks, blocked locations, age restrictions, gender rules and
+ * match scoring all run here (`@/lib/search/server-search`), so profiles a
+ * member may not see never reach the browser. Pass `next_cursor` back as
+ * `cursor` with the same filters to get the following page.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { normalizeSearchFilters } from "@/lib/search/filters";
+import { decodeSearchCursor } from "@/lib/search/pagination";
+import {
+  DEFAULT_SEARCH_PAGE_SIZE,
+  MAX_SEARCH_PAGE_SIZE,
+  searchProfilesPage,
+  type SearchMode,
+} from "@/lib/search/server-search";
+
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// ---------------------------------------------------------------
+// Auth helper — extract the current user from Bearer token
+// ---------------------------------------------------------------
+async function getAuthenticatedUser(req: NextRequest) {
+  const authHeader = req.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) {
+    return { user: null, error: "Missing or invalid authorization header" };
+  }
+
+  const token = authHeader.replace("Bearer ", "");
+  const {
+    data: { user },
+    error,
+  } = await supabaseAdmin.auth.getUser(token);
+
+  if (error || !user) {
+    return { user: null, error: "Invalid or expired token" };
+  }
+  return { user, error: null };
+}
+
+// ---------------------------------------------------------------
+// POST — Search
+// ---------------------------------------------------------------
+export async function POST(req: NextRequest) {
+  try {
+    const { user, error: authError } = await getAuthenticatedUser(req);
+    if (!user) {
+      return NextResponse.json({ error: authError }, { status: 401 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const filters = normalizeSearchFilters(body?.filters);
+    const mode: SearchMode = body?.mode === "discover" ? "discover" : "search";
+
+    const requestedLimit = Number(body?.limit);
+    const limit = Number.isFinite(requestedLimit)
+      ? Math.min(MAX_SEARCH_PAGE_SIZE, Math.max(1, Math.round(requestedLimit)))
+      : DEFAULT_SEARCH_PAGE_SIZE;
+
+    let cursor = null;
+    if (body?.cursor !== undefined && body?.cursor !== null) {
+      cursor = decodeSearchCursor(body.cursor);
+      if (!cursor || cursor.sortBy !== filters.sortBy) {
+        return NextResponse.json(
+          { error: "Invalid cursor. Start the search again from the first page." },
+          { status: 400 }
+        );
+      }
+    }
+
+    const page = await searchProfilesPage(supabaseAdmin, user.id, filters, {
+      cursor,
+      limit,
+      mode,
+    });
+
+    return NextResponse.json({
+      results: page.results,
+      next_cursor: page.nextCursor,
+      total: page.total,
+    });
+  } catch (error) {
+    console.error("Error in POST /api/search:", error);
+    return NextResponse.json({ error: "Failed to load search results" }, { status: 500 });
+  }
+}
@@ -1,26 +1,28 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabase } from "@/lib/supabase";
 import { getAuthenticatedAdmin } from "@/lib/auth-helpers";
-import { DEFAULT_SUBSCRIPTION_PRICING } from "@/lib/subscription/config";
-
-type SubscriptionPricingRow = {
-  tier_id: string;
-  price_ngn: number;
-  price_usd: number;
-};
+import {
+  CURRENCY_KEYS,
+  DEFAULT_SUBSCRIPTION_PRICING,
+  type SubscriptionPriceColumn,
+  type SubscriptionPricingRow,
+  type TierId,
+  type TierPricing,
+} from "@/lib/subscription/config";
 
 type UpdatePricingBody = {
   tier_id: string;
-  price_ngn: number;
-  price_usd: number;
-};
-
-const LEGACY_GBP_DEFAULTS: Record<string, number> = {
-  basic: 7.99,
-  standard: 16.99,
-  premium: 29.99,
-  vip: 800,
-};
+} & Partial<Record<SubscriptionPriceColumn, number>>;
+
+/** Admin prices over the defaults; currencies without a price keep the default. */
+function toTierPricing(tierId: TierId, row: SubscriptionPricingRow): TierPricing {
+  const pricing = { ...DEFAULT_SUBSCRIPTION_PRICING[tierId] };
+  for (const currency of CURRENCY_KEYS) {
+    const price = Number(row[`price_${currency}`]);
+    if (Number.isFinite(price) && price > 0) pricing[currency] = price;
+  }
+  return pricing;
+}
 
 /**
  * GET /api/subscription-pricing
@@ -51,13 +53,12 @@ export async function GET() {
 
     // If admin pricing exists, return it
     if (adminPricing && adminPricing.length > 0) {
-      const tiers = (adminPricing as SubscriptionPricingRow[]).map((p) => ({
-        id: p.tier_id,
-        pricing: {
-          ngn: p.price_ngn,
-          usd: p.price_usd,
-        },
-      }));
+      const tiers = (adminPricing as (SubscriptionPricingRow & { tier_id: string })[])
+        .filter((p) => p.tier_id in DEFAULT_SUBSCRIPTION_PRICING)
+        .map((p) => ({
+          id: p.tier_id,
+          pricing: toTierPricing(p.tier_id as TierId, p),
+        }));
 
       return NextResponse.json({ tiers });
     }
@@ -97,7 +98,8 @@ export async function GET() {
  * Allows administrators to update subscription pricing
  * 
  * Requires admin authentication
- * Body: { tier_id: string, price_ngn: number, price_usd: number }
+ * Body: { tier_id: string, price_ngn: number, price_usd: number,
+ *         price_ghs?, price_kes?, price_zar?, price_gbp?, price_eur? }
  */
 export async function POST(request: NextRequest) {
   try {
@@ -113,6 +115,11 @@ export async function POST(request: NextRequest) {
 
     const body = (await request.json()) as Partial<UpdatePricingBody>;
     const { tier_id, price_ngn, price_usd } = body;
+    const prices = Object.fromEntries(
+      CURRENCY_KEYS.map((currency) => [`price_${currency}`, body[`price_${currency}`]]).filter(
+        ([, price]) => price !== undefined && price !== null
+      )
+    ) as Partial<Record<SubscriptionPriceColumn, number>>;
 
     if (!tier_id || price_ngn === undefined || price_usd === undefined) {
       return NextResponse.json(
@@ -130,31 +137,20 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate prices are positive numbers
-    if (price_ngn < 0 || price_usd < 0) {
+    if (Object.values(prices).some((price) => !Number.isFinite(price) || price < 0)) {
       return NextResponse.json(
         { error: "Prices must be positive numbers" },
         { status: 400 }
       );
     }
 
-    // Preserve the retired GBP column for schema compatibility and legacy records.
-    const { data: existingPricing } = await supabase
-      .from("subscription_pricing")
-      .select("price_gbp")
-      .eq("tier_id", tier_id)
-      .maybeSingle();
-    const legacyGbpPrice =
-      Number(existingPricing?.price_gbp) || LEGACY_GBP_DEFAULTS[tier_id];
-
-    // Upsert the two active currencies.
+    // Currencies left out of the body keep their stored price.
     const { data, error } = await supabase
       .from("subscription_pricing")
       .upsert(
         {
           tier_id,
-          price_ngn,
-          price_usd,
-          price_gbp: legacyGbpPrice,
+          ...prices,
           updated_at: new Date().toISOString(),
           updated_by: user.id,
         },
@@ -172,9 +168,8 @@ export async function POST(request: NextRequest) {
             instructions: `
               Create a table 'subscription_pricing' with columns:
               - tier_id (text, primary key)
-              - price_ngn (numeric)
-              - price_usd (numeric)
-              - price_gbp (numeric, retained for legacy transaction compatibility)
+              - price_ngn, price_usd (numeric)
+              - price_ghs, price_kes, price_zar, price_gbp, price_eur (numeric, optional)
               - updated_at (timestamp)
               - updated_by (uuid, optional)
             `,
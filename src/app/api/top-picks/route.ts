@@ -1,7 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
-import { generateTopPicks } from "@/lib/top-picks-algorithm";
+import { generateTopPicks, loadInteractionHistory } from "@/lib/top-picks-algorithm";
+import {
+  combineReciprocalScore,
+  scoreMatch,
+  type MatchPreferences,
+} from "@/lib/matching/scoring";
+import { loadReverseMatchPercentages } from "@/lib/matching/reciprocal";
 import { toStateCountryLabel } from "@/lib/location";
+import { resolveGeoPoint } from "@/lib/geo/geocode";
+import { loadPreferenceModel } from "@/lib/matching/preference-model";
 import {
   getMinimumRequestableMeetingStartIso,
   hasRequestableMeetingAvailability,
@@ -48,6 +56,8 @@ type ProfileRow = {
   first_name: string | null;
   date_of_birth: string | null;
   location: string | null;
+  latitude: number | null;
+  longitude: number | null;
   gender: string | null;
   photos: string[] | null;
   profile_photo_url: string | null;
@@ -57,6 +67,8 @@ type ProfileRow = {
   have_children: string | null;
   want_children: string | null;
   smoking_habits: string | null;
+  ethnicity: string | string[] | null;
+  updated_at: string | null;
 };
 
 /**
@@ -114,7 +126,7 @@ export async function GET(request: NextRequest) {
           .maybeSingle(),
         supabaseAdmin
           .from("user_profiles")
-          .select("gender")
+          .select("gender, location, latitude, longitude")
           .eq("user_id", userId)
           .maybeSingle(),
       ]);
@@ -122,6 +134,7 @@ export async function GET(request: NextRequest) {
       console.warn("Top picks preference lookup warning:", userPreferencesError);
     }
     const requesterGender = requesterProfile?.gender || null;
+    const requesterOrigin = requesterProfile ? resolveGeoPoint(requesterProfile) : null;
     const partnerGenderPreference = resolvePartnerGenderPreference({
       partnerGenderPreference: userPreferences?.partner_gender_preference || null,
       legacyPartnerExperience: userPreferences?.partner_experience || null,
@@ -177,12 +190,23 @@ export async function GET(request: NextRequest) {
       // Fetch profiles for these users (only completed profiles)
       const { data: profiles } = await supabaseAdmin
         .from("user_profiles")
-        .select("user_id, first_name, last_name, date_of_birth, location, gender, height_cm, photos, profile_photo_url, education_level, religion, have_children, want_children, smoking_habits, updated_at, ethnicity, profile_completed")
+        .select("user_id, first_name, last_name, date_of_birth, location, latitude, longitude, gender, height_cm, photos, profile_photo_url, education_level, religion, have_children, want_children, smoking_habits, updated_at, ethnicity, profile_completed")
         .eq("profile_completed", true)
         .not("photos", "is", null)
         .in("user_id", targetUserIds);
       
       const profileMap = new Map((profiles as ProfileRow[] | null || []).map((prof) => [prof.user_id, prof]));
+      const [{ likedUserIds, likedByUserIds }, reversePercentages, preferenceModel] =
+        await Promise.all([
+          loadInteractionHistory(supabaseAdmin, userId),
+          loadReverseMatchPercentages(supabaseAdmin, userId, targetUserIds),
+          loadPreferenceModel(
+            supabaseAdmin,
+            userId,
+            userPreferences as MatchPreferences | null,
+            requesterProfile
+          ),
+        ]);
       
       const picks = storedPicks
         .map((pick) => {
@@ -225,6 +249,19 @@ export async function GET(request: NextRequest) {
             ? profile.photos[0]
             : profile.profile_photo_url || "/placeholder-profile.svg";
 
+          // Re-score with today's preferences so the breakdown can be explained
+          const match = combineReciprocalScore(
+            scoreMatch(userPreferences as MatchPreferences | null, profile, {
+              interactions: {
+                viewerLiked: likedUserIds.has(pick.target_user_id),
+                candidateLiked: likedByUserIds.has(pick.target_user_id),
+              },
+              origin: requesterOrigin,
+              weights: preferenceModel.weights,
+            }),
+            reversePercentages.get(pick.target_user_id) ?? null
+          );
+
           return {
             id: pick.id,
             user_id: pick.target_user_id,
@@ -232,7 +269,11 @@ export async function GET(request: NextRequest) {
             age,
             city: toStateCountryLabel(profile.location) || null,
             imageUrl: primaryPhoto,
-            score: pick.score,
+            score: match.percentage,
+            matchLabel: match.label,
+            matchColor: match.color,
+            matchBgColor: match.bgColor,
+            matchBreakdown: match.breakdown,
             hasCalendarSlots: hasRequestableMeetingAvailability(
               account,
               slotsSet.has(pick.target_user_id)
@@ -335,6 +376,10 @@ export async function GET(request: NextRequest) {
         city: toStateCountryLabel(profile.location) || null,
         imageUrl: primaryPhoto,
         score: score.score,
+        matchLabel: score.match.label,
+        matchColor: score.match.color,
+        matchBgColor: score.match.bgColor,
+        matchBreakdown: score.match.breakdown,
         hasCalendarSlots: hasRequestableMeetingAvailability(
           account,
           slotsSet.has(profile.user_id)
@@ -1,3 +1,4 @@
+import { randomUUID } from "crypto";
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 import { createServerClient } from "@supabase/ssr";
@@ -8,7 +9,35 @@ import {
 } from "@/lib/subscription/permissions";
 import { restoreCreditLockedProfileIfEligible } from "@/lib/profile/credit-lock";
 import { clearStarterTrialSlot } from "@/lib/starter-trial";
+import {
+  changeTierWithWallet,
+  getActivePaidMembership,
+  getTierPriceCents,
+  parseTierId,
+  quoteTierChange,
+} from "@/lib/subscription/tier-change";
+import { isWalletCurrency, normalizeCurrencyCode, type CurrencyKey } from "@/lib/payments/currencies";
+import {
+  quotePromoCode,
+  recordWalletPromoRedemptionSafely,
+  releasePromoRedemption,
+  reservePromoRedemption,
+  type PromoQuote,
+  type PromoRedemptionRow,
+} from "@/lib/promo-codes/promo-codes";
 import { evaluateFirstSubscriptionReferralReward } from "@/lib/referrals/rewards";
+import { getAvailableCredits } from "@/lib/credits/actions";
+import {
+  completeSubscriptionRollover,
+  prepareSubscriptionRollover,
+} from "@/lib/credits/allocation";
+import { normalizeTier } from "@/lib/credits/config";
+import { grantCreditLotSafely } from "@/lib/credits/lots";
+import {
+  creditEntries,
+  postLedgerTransactionSafely,
+  walletEntries,
+} from "@/lib/ledger/ledger";
 import {
   PRODUCT_ANALYTICS_EVENTS,
   trackProductEventSafely,
@@ -53,6 +82,7 @@ type WalletPaymentResult = {
   balance_after: number;
   amount_deducted: number;
   message: string;
+  wallet_transaction_id?: string | null;
 };
 
 async function ensureWalletExists(userId: string) {
@@ -126,6 +156,46 @@ const getSubscriptionCredits = (tier: string) => {
   }
 };
 
+/**
+ * Net change in available credits when a subscription starts: the monthly
+ * allowance (or the unlimited VIP total) plus what the rollover policy
+ * carries over, less the balance the previous cycle left.
+ */
+const getSubscriptionCreditChange = (tier: string, availableBefore: number, rollover: number) =>
+  getSubscriptionCredits(tier) + rollover - availableBefore;
+
+async function postWalletPaymentToLedger(params: {
+  userId: string;
+  type: WalletPaymentType;
+  amountCents: number;
+  creditsIssued: number;
+  description: string;
+}) {
+  const { userId, type, amountCents, creditsIssued } = params;
+  await postLedgerTransactionSafely(supabase, {
+    kind:
+      type === "subscription"
+        ? "subscription_payment"
+        : type === "credit_purchase"
+          ? "credit_purchase"
+          : "meeting_charge",
+    userId,
+    description: params.description,
+    entries: [
+      ...walletEntries(
+        userId,
+        -amountCents,
+        type === "subscription"
+          ? "subscription_revenue"
+          : type === "credit_purchase"
+            ? "credit_sales_revenue"
+            : "meeting_fee_revenue"
+      ),
+      ...creditEntries(userId, creditsIssued, "credit_issuance"),
+    ],
+  });
+}
+
 async function processWalletBalancePaymentFallback(params: {
   userId: string;
   type: WalletPaymentType;
@@ -142,6 +212,7 @@ async function processWalletBalancePaymentFallback(params: {
   }
 
   const balanceAfter = balanceBefore - amountCents;
+  const referenceId = `wallet_${Date.now()}`;
   let walletDeducted = false;
 
   const rollbackWallet = async () => {
@@ -167,6 +238,7 @@ async function processWalletBalancePaymentFallback(params: {
 
     let description = `Payment from wallet - ${(amountCents / 100).toFixed(2)}`;
     let successMessage = "Payment processed successfully";
+    let creditsIssued = 0;
 
     if (type === "subscription") {
       if (!tier) {
@@ -217,17 +289,21 @@ async function processWalletBalancePaymentFallback(params: {
       }
 
       const creditRow = await ensureCreditsExist(userId);
-      const totalBefore = Number(creditRow?.total || 0);
-      const usedBefore = Number(creditRow?.used || 0);
-      const rolloverBefore = Number(creditRow?.rollover || 0);
-      const availableBefore = Math.max(0, totalBefore - usedBefore + rolloverBefore);
+      const availableBefore = getAvailableCredits(creditRow);
+      const rollover = await prepareSubscriptionRollover(
+        supabase,
+        userId,
+        creditRow,
+        normalizedTier
+      );
 
       const nextTotal =
         normalizedTier === "vip"
           ? 999999
           : creditsToAdd;
       const nextUsed = 0;
-      const nextRollover = normalizedTier === "vip" ? 0 : availableBefore;
+      const nextRollover = rollover.plan.rollover;
+      creditsIssued = getSubscriptionCreditChange(normalizedTier, availableBefore, nextRollover);
 
       const { error: creditUpdateError } = await supabase
         .from("credits")
@@ -243,12 +319,20 @@ async function processWalletBalancePaymentFallback(params: {
         throw new WalletPaymentError("Failed to allocate subscription credits");
       }
 
-      if (normalizedTier !== "vip" && availableBefore > 0) {
+      await completeSubscriptionRollover(supabase, {
+        userId,
+        tier: normalizeTier(normalizedTier),
+        monthlyCredits: creditsToAdd,
+        ...rollover,
+        reference: `wallet_subscription:${referenceId}`,
+      });
+
+      if (nextRollover > 0) {
         await supabase.from("credit_transactions").insert({
           user_id: userId,
-          amount: availableBefore,
+          amount: nextRollover,
           action_type: "subscription_credit_rollover",
-          description: `Rolled over ${availableBefore} unused credit(s) into the new ${normalizedTier} subscription cycle.`,
+          description: `Rolled over ${nextRollover} unused credit(s) into the new ${normalizedTier} subscription cycle.`,
         });
       }
 
@@ -311,6 +395,7 @@ async function processWalletBalancePaymentFallback(params: {
       if (creditUpdateError) {
         throw new WalletPaymentError("Failed to add purchased credits");
       }
+      creditsIssued = credits;
 
       await supabase.from("credit_transactions").insert({
         user_id: userId,
@@ -319,6 +404,8 @@ async function processWalletBalancePaymentFallback(params: {
         description: `Purchased ${credits} credit(s) using wallet balance.`,
       });
 
+      await grantCreditLotSafely(supabase, { userId, source: "purchase", amount: credits });
+
       await restoreCreditLockedProfileIfEligible(supabase, userId).catch(
         (restoreError) => {
           console.warn(
@@ -332,7 +419,7 @@ async function processWalletBalancePaymentFallback(params: {
       successMessage = `${credits} credits added successfully`;
     }
 
-    const { error: transactionError } = await supabase
+    const { data: transaction, error: transactionError } = await supabase
       .from("wallet_transactions")
       .insert({
         user_id: userId,
@@ -346,19 +433,24 @@ async function processWalletBalancePaymentFallback(params: {
         balance_before_cents: balanceBefore,
         balance_after_cents: balanceAfter,
         description,
-        reference_id: `wallet_${Date.now()}`,
-      });
+        reference_id: referenceId,
+      })
+      .select("id")
+      .single<{ id: string }>();
 
     if (transactionError) {
       throw new WalletPaymentError("Failed to record wallet transaction");
     }
 
+    await postWalletPaymentToLedger({ userId, type, amountCents, creditsIssued, description });
+
     return {
       success: true,
       balance_before: balanceBefore,
       balance_after: balanceAfter,
       amount_deducted: amountCents,
       message: successMessage,
+      wallet_transaction_id: transaction.id,
     };
   } catch (error) {
     await rollbackWallet();
@@ -400,8 +492,8 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    const { type, amountCents, credits, tier } = await request.json();
-    const normalizedAmountCents = parsePositiveInteger(amountCents);
+    const { type, amountCents, credits, tier, promoCode, currency = "usd" } = await request.json();
+    let normalizedAmountCents = parsePositiveInteger(amountCents);
     const normalizedCredits =
       credits === undefined || credits === null ? null : parsePositiveInteger(credits);
 
@@ -447,6 +539,124 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (promoCode && type !== "subscription") {
+      return NextResponse.json(
+        { error: "Promo codes apply to subscriptions only." },
+        { status: 400 }
+      );
+    }
+
+    // Switching from an active paid plan to another tier is prorated rather
+    // than bought at full price.
+    if (type === "subscription") {
+      const activeMembership = await getActivePaidMembership(supabase, user.id);
+      const requestedTier = typeof tier === "string" ? tier.toLowerCase() : "";
+      if (activeMembership && requestedTier && activeMembership.tier !== requestedTier) {
+        if (promoCode) {
+          return NextResponse.json(
+            { error: "Promo codes apply to new subscriptions, not plan changes." },
+            { status: 400 }
+          );
+        }
+
+        const quoteResult = await quoteTierChange(supabase, {
+          userId: user.id,
+          targetTier: requestedTier,
+        });
+        if (!quoteResult.ok) {
+          return NextResponse.json(
+            { error: quoteResult.message, code: quoteResult.code },
+            { status: quoteResult.status }
+          );
+        }
+
+        const changeResult = await changeTierWithWallet(supabase, quoteResult);
+        if (!changeResult.ok) {
+          return NextResponse.json(
+            {
+              error: changeResult.message,
+              code: changeResult.code,
+              required: quoteResult.quote.amountDueCents,
+            },
+            { status: changeResult.status }
+          );
+        }
+
+        return NextResponse.json({
+          success: true,
+          amount_deducted: quoteResult.quote.amountDueCents,
+          wallet_credit: changeResult.walletCreditCents,
+          tier: changeResult.tier,
+          message: `Plan changed to ${changeResult.tier}`,
+        });
+      }
+    }
+
+    // A promo code is priced against the server-side list price, and the
+    // discounted amount replaces whatever the client asked to pay.
+    let promoQuote: PromoQuote | null = null;
+    const promoTier = parseTierId(tier);
+    if (promoCode) {
+      const walletCurrency = normalizeCurrencyCode(currency);
+      if (!promoTier || !walletCurrency || !isWalletCurrency(walletCurrency)) {
+        return NextResponse.json(
+          { error: "A valid plan and wallet currency are required for promo codes." },
+          { status: 400 }
+        );
+      }
+
+      const currencyKey = walletCurrency.toLowerCase() as CurrencyKey;
+      const promoResult = await quotePromoCode(supabase, {
+        code: promoCode,
+        userId: user.id,
+        tier: promoTier,
+        currency: currencyKey,
+        listAmountCents: await getTierPriceCents(supabase, promoTier, currencyKey),
+      });
+      if (!promoResult.ok) {
+        return NextResponse.json(
+          { error: promoResult.message, code: promoResult.code },
+          { status: promoResult.status }
+        );
+      }
+
+      promoQuote = promoResult.quote;
+      normalizedAmountCents = promoQuote.amountCents;
+    }
+
+    // The RPC restarts the credit cycle for subscriptions; the ledger posting
+    // needs the balance it started from, and the rollover policy is applied
+    // on top of the RPC, which carries the whole balance over.
+    const creditsRow = type === "subscription" ? await ensureCreditsExist(user.id) : null;
+    const creditsBefore = getAvailableCredits(creditsRow);
+    const subscriptionRollover =
+      type === "subscription"
+        ? await prepareSubscriptionRollover(supabase, user.id, creditsRow, tier)
+        : null;
+
+    // The code is reserved before the charge so its usage caps hold; the
+    // reservation is given back if the charge doesn't go through.
+    let promoRedemption: PromoRedemptionRow | null = null;
+    if (promoQuote && promoTier) {
+      const reservation = await reservePromoRedemption(supabase, {
+        quote: promoQuote,
+        userId: user.id,
+        tier: promoTier,
+        provider: "wallet",
+        paymentReference: `wallet:${randomUUID()}`,
+      });
+      if (!reservation.ok) {
+        return NextResponse.json(
+          { error: reservation.message, code: reservation.code },
+          { status: reservation.status }
+        );
+      }
+      promoRedemption = reservation.redemption;
+    }
+    const releasePromo = async () => {
+      if (promoRedemption) await releasePromoRedemption(supabase, promoRedemption.id);
+    };
+
     const { data: rpcData, error: rpcError } = await supabase.rpc(
       "process_wallet_balance_payment",
       {
@@ -470,6 +680,7 @@ export async function POST(request: NextRequest) {
           .maybeSingle();
 
         const currentBalance = currentWallet?.balance_cents || 0;
+        await releasePromo();
         return NextResponse.json(
           {
             error: "Insufficient wallet balance",
@@ -492,6 +703,13 @@ export async function POST(request: NextRequest) {
           tier: tier || null,
         });
 
+        if (promoRedemption) {
+          await recordWalletPromoRedemptionSafely(supabase, {
+            redemption: promoRedemption,
+            walletTransactionId: fallbackResult.wallet_transaction_id || null,
+          });
+        }
+
         return NextResponse.json({
           ...fallbackResult,
           recovered_via_fallback: true,
@@ -504,18 +722,86 @@ export async function POST(request: NextRequest) {
         const status =
           fallbackError instanceof WalletPaymentError ? fallbackError.status : 500;
 
+        await releasePromo();
+
         return NextResponse.json({ error: fallbackMessage }, { status });
       }
     }
 
     const result = Array.isArray(rpcData) ? rpcData[0] : rpcData;
     if (!result) {
+      await releasePromo();
       return NextResponse.json(
         { error: "Wallet payment returned no result" },
         { status: 500 }
       );
     }
 
+    const walletTransactionId: string | null = result.wallet_transaction_id || null;
+
+    if (result.success && subscriptionRollover) {
+      const subscriptionTier = normalizeTier(tier);
+      if (subscriptionTier !== "vip") {
+        const { error: rolloverError } = await supabase
+          .from("credits")
+          .update({
+            rollover: subscriptionRollover.plan.rollover,
+            updated_at: new Date().toISOString(),
+          })
+          .eq("user_id", user.id);
+
+        if (rolloverError) {
+          console.error("[use-wallet-balance] Failed to apply rollover cap:", rolloverError);
+        }
+      }
+
+      await completeSubscriptionRollover(supabase, {
+        userId: user.id,
+        tier: subscriptionTier,
+        monthlyCredits: getSubscriptionCredits(subscriptionTier),
+        ...subscriptionRollover,
+        reference: walletTransactionId ? `wallet_subscription:${walletTransactionId}` : null,
+      });
+    }
+
+    if (promoRedemption) {
+      if (result.success) {
+        await recordWalletPromoRedemptionSafely(supabase, {
+          redemption: promoRedemption,
+          walletTransactionId,
+        });
+      } else {
+        await releasePromo();
+      }
+    }
+
+    if (result.success && type === "credit_purchase" && normalizedCredits) {
+      await grantCreditLotSafely(supabase, {
+        userId: user.id,
+        source: "purchase",
+        amount: normalizedCredits,
+      });
+    }
+
+    if (result.success) {
+      await postWalletPaymentToLedger({
+        userId: user.id,
+        type,
+        amountCents: normalizedAmountCents,
+        creditsIssued:
+          type === "subscription"
+            ? getSubscriptionCreditChange(
+                String(tier || ""),
+                creditsBefore,
+                subscriptionRollover?.plan.rollover || 0
+              )
+            : type === "credit_purchase"
+              ? normalizedCredits || 0
+              : 0,
+        description: result.message || "Wallet payment",
+      });
+    }
+
     // After a successful wallet-funded subscription activation, detach any
     // existing starter-trial slot pointer so the carried-over slot becomes a
     // regular self-customized slot (and is grandfathered out of the new
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { createServerClient } from "@supabase/ssr";
 import { createClient } from "@supabase/supabase-js";
 import { cookies } from "next/headers";
+import { fulfillGiftPayment } from "@/lib/gifts/gifts";
 import { processOneTimeFlutterwavePayment } from "@/lib/payments/checkout-processing";
 import {
   amountToSmallestUnit,
@@ -90,6 +91,31 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    if (paymentType === "gift") {
+      const amountCents = amountToSmallestUnit(transaction.amount);
+      const currency = normalizeCurrency(transaction.currency);
+      const result = await fulfillGiftPayment(supabase, {
+        reference: transaction.tx_ref,
+        transactionId: String(transaction.id),
+        status: transaction.status,
+        amountCents,
+        currency,
+      });
+
+      return NextResponse.json({
+        ...result,
+        paid: transaction.status === "successful",
+        payment_status: transaction.status,
+        status: transaction.status,
+        mode: "payment",
+        type: "gift",
+        userId: user.id,
+        amountCents,
+        currency,
+        provider: "flutterwave",
+      });
+    }
+
     if (paymentType !== "wallet_topup" && paymentType !== "credit_purchase") {
       return NextResponse.json(
         { error: "Unsupported Flutterwave payment type" },
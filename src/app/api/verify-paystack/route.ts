@@ -2,24 +2,18 @@ import { NextRequest, NextResponse } from "next/server";
 import { createServerClient } from "@supabase/ssr";
 import { createClient } from "@supabase/supabase-js";
 import { cookies } from "next/headers";
-import { processOneTimeFlutterwavePayment } from "@/lib/payments/checkout-processing";
 import {
   parsePaystackTxRef,
+  paystackTransactionMatchesReference,
   verifyPaystackTransaction,
 } from "@/lib/payments/paystack";
-import { processSubscriptionFlutterwavePayment } from "@/lib/subscription/checkout-processing";
+import { processVerifiedPaystackTransaction } from "@/lib/payments/provider-processing";
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
 const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-function normalizeCurrency(value: unknown) {
-  return typeof value === "string" && value.trim()
-    ? value.trim().toLowerCase()
-    : "ngn";
-}
-
 function normalizeMetadata(metadata: Record<string, unknown> | null) {
   return metadata && typeof metadata === "object" ? metadata : {};
 }
@@ -82,32 +76,21 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const verifiedCurrency = normalizeCurrency(transaction.currency);
-    if (
-      transaction.reference !== reference ||
-      Number(transaction.amount) < parsedReference.amountCents ||
-      verifiedCurrency !== parsedReference.currency.toLowerCase()
-    ) {
+    if (!paystackTransactionMatchesReference(transaction, reference, parsedReference)) {
       return NextResponse.json(
         { error: "Verified payment amount or currency does not match checkout metadata" },
         { status: 400 }
       );
     }
 
-    const paystackStatus = transaction.status === "success" ? "successful" : transaction.status;
+    const result = await processVerifiedPaystackTransaction(
+      supabase,
+      transaction,
+      parsedReference,
+      user.id
+    );
 
     if (parsedReference.paymentType === "subscription") {
-      const result = await processSubscriptionFlutterwavePayment(supabase, {
-        transactionId: String(transaction.id),
-        txRef: transaction.reference,
-        userId: user.id,
-        tier: parsedReference.tier,
-        amountCents: parsedReference.amountCents,
-        currency: parsedReference.currency,
-        status: paystackStatus,
-        provider: "paystack",
-      });
-
       return NextResponse.json({
         ...result,
         paid: transaction.status === "success",
@@ -122,30 +105,6 @@ export async function GET(request: NextRequest) {
       });
     }
 
-    const result =
-      parsedReference.paymentType === "wallet_topup"
-        ? await processOneTimeFlutterwavePayment(supabase, {
-            transactionId: String(transaction.id),
-            txRef: transaction.reference,
-            status: paystackStatus,
-            paymentType: "wallet_topup",
-            userId: user.id,
-            amountCents: parsedReference.amountCents,
-            currency: parsedReference.currency,
-            provider: "paystack",
-          })
-        : await processOneTimeFlutterwavePayment(supabase, {
-            transactionId: String(transaction.id),
-            txRef: transaction.reference,
-            status: paystackStatus,
-            paymentType: "credit_purchase",
-            userId: user.id,
-            amountCents: parsedReference.amountCents,
-            currency: parsedReference.currency,
-            credits: parsedReference.credits,
-            provider: "paystack",
-          });
-
     return NextResponse.json({
       ...result,
       paid: transaction.status === "success",
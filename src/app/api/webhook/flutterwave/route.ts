@@ -2,12 +2,11 @@ import { createHmac, timingSafeEqual } from "crypto";
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 import {
-  amountToSmallestUnit,
-  normalizeFlutterwaveMeta,
-  verifyFlutterwaveTransaction,
-} from "@/lib/payments/flutterwave";
-import { processOneTimeFlutterwavePayment } from "@/lib/payments/checkout-processing";
-import { processSubscriptionFlutterwavePayment } from "@/lib/subscription/checkout-processing";
+  getFlutterwaveDisputeNotice,
+  processPaymentDisputeEvent,
+} from "@/lib/payments/disputes";
+import { verifyFlutterwaveTransaction } from "@/lib/payments/flutterwave";
+import { processVerifiedFlutterwaveTransaction } from "@/lib/payments/provider-processing";
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
@@ -45,23 +44,6 @@ function verifySignature(rawBody: string, request: NextRequest) {
   return Boolean(legacyHash && safeCompare(legacyHash, secretHash));
 }
 
-function parsePositiveInteger(value: unknown): number | null {
-  const parsed =
-    typeof value === "number"
-      ? value
-      : typeof value === "string"
-        ? Number(value)
-        : Number.NaN;
-
-  return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
-}
-
-function normalizeCurrency(value: unknown) {
-  return typeof value === "string" && value.trim()
-    ? value.trim().toLowerCase()
-    : "usd";
-}
-
 export async function POST(request: NextRequest) {
   try {
     const rawBody = await request.text();
@@ -72,59 +54,30 @@ export async function POST(request: NextRequest) {
 
     const payload = JSON.parse(rawBody) as {
       event?: string;
-      data?: { id?: string | number; status?: string };
+      data?: { id?: string | number; status?: string } & Record<string, unknown>;
     };
 
+    // Refund and chargeback events point at the original charge.
+    const disputeNotice = getFlutterwaveDisputeNotice(payload);
+    if (disputeNotice) {
+      const { transactionId, ...notice } = disputeNotice;
+      const transaction = await verifyFlutterwaveTransaction(transactionId);
+      const result = await processPaymentDisputeEvent(supabase, {
+        ...notice,
+        reference: transaction.tx_ref,
+        currency: notice.currency || transaction.currency.toLowerCase(),
+      });
+      console.log(`[Flutterwave Webhook] ${payload.event}: ${result.message}`);
+      return NextResponse.json({ received: true });
+    }
+
     const transactionId = payload.data?.id;
     if (!transactionId) {
       return NextResponse.json({ received: true });
     }
 
     const transaction = await verifyFlutterwaveTransaction(transactionId);
-    const meta = normalizeFlutterwaveMeta(transaction.meta);
-    const amountCents =
-      parsePositiveInteger(meta.amountCents) || amountToSmallestUnit(transaction.amount);
-    const currency = normalizeCurrency(meta.currency || transaction.currency);
-
-    if (meta.type === "wallet_topup") {
-      await processOneTimeFlutterwavePayment(supabase, {
-        transactionId: String(transaction.id),
-        txRef: transaction.tx_ref,
-        status: transaction.status,
-        paymentType: "wallet_topup",
-        userId: String(meta.userId || ""),
-        amountCents,
-        currency,
-      });
-    }
-
-    if (meta.type === "credit_purchase") {
-      const credits = parsePositiveInteger(meta.credits);
-      if (credits) {
-        await processOneTimeFlutterwavePayment(supabase, {
-          transactionId: String(transaction.id),
-          txRef: transaction.tx_ref,
-          status: transaction.status,
-          paymentType: "credit_purchase",
-          userId: String(meta.userId || ""),
-          amountCents,
-          currency,
-          credits,
-        });
-      }
-    }
-
-    if (meta.type === "subscription" && typeof meta.tier === "string") {
-      await processSubscriptionFlutterwavePayment(supabase, {
-        transactionId: String(transaction.id),
-        txRef: transaction.tx_ref,
-        userId: String(meta.userId || ""),
-        tier: meta.tier,
-        amountCents,
-        currency,
-        status: transaction.status,
-      });
-    }
+    await processVerifiedFlutterwaveTransaction(supabase, transaction);
 
     return NextResponse.json({ received: true });
   } catch (error) {
@@ -1,7 +1,12 @@
 import { createHmac } from "crypto";
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import { fulfillGiftPayment } from "@/lib/gifts/gifts";
 import { processOneTimeFlutterwavePayment } from "@/lib/payments/checkout-processing";
+import {
+  getPaystackDisputeNotice,
+  processPaymentDisputeEvent,
+} from "@/lib/payments/disputes";
 import { parsePaystackTxRef } from "@/lib/payments/paystack";
 import { processSubscriptionFlutterwavePayment } from "@/lib/subscription/checkout-processing";
 
@@ -45,9 +50,16 @@ export async function POST(request: NextRequest) {
         amount?: number;
         currency?: string;
         metadata?: Record<string, unknown> | null;
-      };
+      } & Record<string, unknown>;
     };
 
+    const disputeNotice = getPaystackDisputeNotice(event);
+    if (disputeNotice) {
+      const result = await processPaymentDisputeEvent(supabase, disputeNotice);
+      console.log(`[Paystack Webhook] ${event.event}: ${result.message}`);
+      return new NextResponse("OK");
+    }
+
     if (event.event !== "charge.success") {
       return new NextResponse("OK");
     }
@@ -90,6 +102,18 @@ export async function POST(request: NextRequest) {
         provider: "paystack",
       });
 
+      if (!result.success && !result.alreadyProcessed) {
+        return new NextResponse("PROCESSING", { status: 202 });
+      }
+    } else if (parsedReference.paymentType === "gift") {
+      const result = await fulfillGiftPayment(supabase, {
+        reference,
+        transactionId: String(transaction.id || reference),
+        status: paystackStatus,
+        amountCents: Number(transaction.amount || 0),
+        currency: normalizeCurrency(transaction.currency),
+      });
+
       if (!result.success && !result.alreadyProcessed) {
         return new NextResponse("PROCESSING", { status: 202 });
       }
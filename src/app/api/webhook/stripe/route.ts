@@ -2,7 +2,14 @@ import { NextRequest, NextResponse } from "next/server";
 import Stripe from "stripe";
 import { createClient } from "@supabase/supabase-js";
 import { processOneTimeCheckoutSession } from "@/lib/payments/checkout-processing";
+import {
+  getStripeDisputeNotice,
+  getStripeDisputePaymentIntentId,
+  processPaymentDisputeEvent,
+  resolveStripePaymentReference,
+} from "@/lib/payments/disputes";
 import { processSubscriptionCheckoutSession } from "@/lib/subscription/checkout-processing";
+import { processStripeSubscriptionEvent } from "@/lib/subscription/stripe-lifecycle";
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
   apiVersion: "2026-01-28.clover" as Stripe.StripeConfig["apiVersion"],
@@ -122,8 +129,64 @@ export async function POST(request: NextRequest) {
     }
 
     case "customer.subscription.updated":
-    case "customer.subscription.deleted": {
-      // Handle subscription updates/deletions
+    case "customer.subscription.deleted":
+    case "invoice.paid":
+    case "invoice.payment_failed": {
+      try {
+        const result = await processStripeSubscriptionEvent(supabase, event);
+        console.log(
+          `[Webhook] ${event.type} (${event.id}): ${result.message} (alreadyProcessed=${Boolean(
+            result.alreadyProcessed
+          )})`
+        );
+      } catch (lifecycleError) {
+        console.error(`[Webhook] Error processing ${event.type}:`, lifecycleError);
+        return NextResponse.json(
+          {
+            received: false,
+            error:
+              lifecycleError instanceof Error
+                ? lifecycleError.message
+                : `Failed to process ${event.type}`,
+          },
+          { status: 500 }
+        );
+      }
+      break;
+    }
+
+    case "charge.refunded":
+    case "charge.dispute.created":
+    case "charge.dispute.closed": {
+      try {
+        const paymentIntentId = getStripeDisputePaymentIntentId(event);
+        const reference = paymentIntentId
+          ? await resolveStripePaymentReference(stripe, paymentIntentId)
+          : null;
+        const notice = getStripeDisputeNotice(event, reference);
+        if (!notice) {
+          console.log(`[Webhook] Ignoring ${event.type} (${event.id}) with no outcome`);
+          break;
+        }
+        const result = await processPaymentDisputeEvent(supabase, notice);
+        console.log(
+          `[Webhook] ${event.type} (${event.id}): ${result.message} (alreadyProcessed=${Boolean(
+            result.alreadyProcessed
+          )})`
+        );
+      } catch (disputeError) {
+        console.error(`[Webhook] Error processing ${event.type}:`, disputeError);
+        return NextResponse.json(
+          {
+            received: false,
+            error:
+              disputeError instanceof Error
+                ? disputeError.message
+                : `Failed to process ${event.type}`,
+          },
+          { status: 500 }
+        );
+      }
       break;
     }
 
@@ -9,29 +9,28 @@ import ProfileCompletenessCard from "@/components/ProfileCompletenessCard";
 import ProfileDetailModal from "@/components/ProfileDetailModal";
 import { supabase } from "@/lib/supabase";
 import { createActivity, type ActivityResponse } from "@/lib/activities";
-import { calculateCompatibility, type ProfileData, type UserPreferences } from "@/lib/top-picks-algorithm";
-import { getBlockedUserIds } from "@/lib/blocked-users";
-import { isAgeRestrictedForMatching } from "@/lib/age-restrictions";
+import type { MatchDimensionScore } from "@/lib/matching/scoring";
 import { getActiveStatus } from "@/lib/active-status";
 import MeetingRequestModal from "@/components/MeetingRequestModal";
 import { useToast } from "@/components/ToastProvider";
 import {
   NO_ACTIVE_MEETING_AVAILABILITY_BUTTON_LABEL,
   NO_ACTIVE_MEETING_AVAILABILITY_TEXT,
-  getMinimumRequestableMeetingStartIso,
-  hasRequestableMeetingAvailability,
 } from "@/lib/meetings/request-availability";
-import { toStateCountryLabel } from "@/lib/location";
-import {
-  matchesPartnerGenderPreference,
-  resolvePartnerGenderPreference,
-} from "@/lib/matching/interest-preference";
-import { evaluateGenderEligibility } from "@/lib/matching/gender-rules";
+import { resolvePartnerGenderPreference } from "@/lib/matching/interest-preference";
 import {
   FILTER_RELATIONSHIP_STATUS_OPTIONS,
   formatRelationshipStatusLabel,
-  relationshipStatusMatches,
 } from "@/lib/relationship-status";
+import {
+  ANY_DISTANCE_KM,
+  countActiveSearchFilters,
+  type ChildrenFilter,
+  type SearchFilters,
+  type SearchSort,
+} from "@/lib/search/filters";
+import { fetchSearchPage } from "@/lib/search/search-client";
+import type { SearchResult } from "@/lib/search/server-search";
 
 type Profile = {
   id: string;
@@ -52,6 +51,10 @@ type Profile = {
   matchBgColor: string;
   /** Human-friendly match label */
   matchLabel: string;
+  /** Per-dimension explanation of the match score */
+  matchBreakdown?: MatchDimensionScore[];
+  /** Distance from the viewer in km; null when either location is unknown */
+  distanceKm?: number | null;
   /** Extra detail fields for enriched cards & filtering */
   gender?: string | null;
   religion?: string | null;
@@ -74,50 +77,85 @@ type Profile = {
   hasCalendarSlots?: boolean;
 };
 
-type RawProfile = {
-  user_id: string;
-  first_name: string | null;
-  last_name: string | null;
-  date_of_birth: string | null;
-  location: string | null;
-  height_cm: number | null;
-  photos: string[] | null;
-  profile_photo_url: string | null;
-  education_level: string | null;
-  relationship_type: string | null;
-  religion: string | null;
-  have_children: boolean | null;
-  want_children: string | null;
-  smoking_habits: string | null;
-  ethnicity: string | string[] | null;
-  updated_at: string | null;
-  gender: string | null;
-  relationship_status: string | null;
-  languages: string[] | null;
-  verified?: boolean;
-};
+const SEARCH_DEBOUNCE_MS = 300;
 
-type AccountRow = {
-  id: string;
-  display_name: string | null;
-  account_status: string | null;
-  profile_visible?: boolean | null;
-  calendar_enabled?: boolean | null;
-  email_verified?: boolean | null;
-  last_active_at?: string | null;
-};
+/** Fetch the next page when this few loaded profiles remain ahead. */
+const PREFETCH_REMAINING = 3;
 
-type ActivityTargetRow = {
-  target_user_id: string;
-};
+function toDiscoverProfile(result: SearchResult): Profile {
+  let heightLabel = "Not specified";
+  if (result.heightCm) {
+    const feet = Math.floor(result.heightCm / 30.48);
+    const inches = Math.round((result.heightCm % 30.48) / 2.54);
+    heightLabel = `${feet}'${inches}" • ${result.heightCm} cm`;
+  }
 
-type ActivityUserRow = {
-  user_id: string;
-};
+  const tags: string[] = [];
+  if (result.education_level) {
+    tags.push(result.education_level);
+  }
+  if (result.have_children) {
+    tags.push("Has kids");
+  }
+  if (result.want_children === "yes") {
+    tags.push("Wants kids");
+  } else if (result.want_children === "no") {
+    tags.push("Doesn't want kids");
+  }
+  if (result.relationship_type) {
+    tags.push(result.relationship_type);
+  }
+
+  // Compatibility indicator tag for high-scoring profiles
+  const score = result.matchScore;
+  if (score >= 70) {
+    tags.unshift("⭐ High Match");
+  } else if (score >= 50) {
+    tags.unshift("✨ Good Match");
+  }
+
+  const status = getActiveStatus(result.lastActiveAt);
+  return {
+    id: result.user_id,
+    user_id: result.user_id,
+    name: result.name,
+    age: result.age,
+    city: result.city,
+    imageUrl: result.imageUrl,
+    heightLabel,
+    heightCm: result.heightCm || null,
+    tags: tags.slice(0, 4),
+    similaritiesLabel: score >= 70 ? "Great match based on your preferences" : score >= 50 ? "Good match based on your preferences" : "Discover new connections",
+    matchScore: score,
+    matchLabel: result.matchLabel,
+    matchColor: result.matchColor,
+    matchBgColor: result.matchBgColor,
+    matchBreakdown: result.matchBreakdown,
+    distanceKm: result.distanceKm,
+    gender: result.gender,
+    religion: result.religion,
+    ethnicity: result.ethnicity,
+    education: result.education_level,
+    languages: result.languages,
+    smoking_habits: result.smoking_habits,
+    have_children: result.have_children,
+    want_children: result.want_children,
+    relationship_status: result.relationship_status,
+    verified: result.verified,
+    hasCalendarSlots: result.hasCalendarSlots,
+    lastActiveAt: result.lastActiveAt,
+    activeLabel: status.label,
+    activeColor: status.color,
+    isUserOnline: status.isOnline,
+  };
+}
 
 export default function DiscoverPage() {
   const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [totalProfiles, setTotalProfiles] = useState(0);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [processing, setProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   
@@ -147,6 +185,7 @@ export default function DiscoverPage() {
   const [filterMinAge, setFilterMinAge] = useState(18);
   const [filterMaxAge, setFilterMaxAge] = useState(70);
   const [filterCity, setFilterCity] = useState("");
+  const [filterMaxDistance, setFilterMaxDistance] = useState(ANY_DISTANCE_KM);
   const [filterGender, setFilterGender] = useState("");
   const [requiredPartnerGender, setRequiredPartnerGender] = useState<
     "male" | "female" | null
@@ -159,9 +198,9 @@ export default function DiscoverPage() {
   const [filterEthnicities, setFilterEthnicities] = useState<string[]>([]);
   const [filterEducations, setFilterEducations] = useState<string[]>([]);
   const [filterReligions, setFilterReligions] = useState<string[]>([]);
-  const [filterChildren, setFilterChildren] = useState("any");
+  const [filterChildren, setFilterChildren] = useState<ChildrenFilter>("any");
   const [filterSmoking, setFilterSmoking] = useState("");
-  const [sortBy, setSortBy] = useState<string>("match");
+  const [sortBy, setSortBy] = useState<SearchSort>("match");
   const [showSortMenu, setShowSortMenu] = useState(false);
   const [showProfileDetail, setShowProfileDetail] = useState(false);
   const [isMobileViewport, setIsMobileViewport] = useState(false);
@@ -216,6 +255,10 @@ export default function DiscoverPage() {
     city: string | null;
     imageUrl: string;
     score?: number;
+    matchLabel?: string;
+    matchColor?: string;
+    matchBgColor?: string;
+    matchBreakdown?: MatchDimensionScore[];
     height_cm?: number | null;
     education_level?: string | null;
     employment?: string | null;
@@ -312,31 +355,18 @@ export default function DiscoverPage() {
   }, [activeTab]);
 
   /**
-   * Fetch profiles from database
-   * MUST be before early returns to ensure it runs
+   * Load the viewer's partner-gender preference (limits the gender filter)
    */
   useEffect(() => {
-    let isMounted = true;
-    
-    const fetchProfiles = async () => {
+    const fetchViewerPreference = async () => {
       try {
-        if (!isMounted) return;
-        setLoading(true);
-        
         const { data: { user } } = await supabase.auth.getUser();
-        
-        if (!isMounted) return;
-        if (!user) {
-          console.error("Not authenticated");
-          setError("Not authenticated");
-          setLoading(false);
-          return;
-        }
+        if (!user) return;
 
         const [{ data: preferences }, { data: requesterProfile }] = await Promise.all([
           supabase
             .from("user_preferences")
-            .select("*")
+            .select("partner_gender_preference, partner_experience")
             .eq("user_id", user.id)
             .maybeSingle(),
           supabase
@@ -345,457 +375,55 @@ export default function DiscoverPage() {
             .eq("user_id", user.id)
             .maybeSingle(),
         ]);
-        const requesterGender = requesterProfile?.gender || null;
-
-        // Extract blocked locations for filtering
-        const blockedLocations: string[] = preferences?.blocked_locations || [];
-        const partnerGenderPreference = resolvePartnerGenderPreference({
-          partnerGenderPreference: preferences?.partner_gender_preference || null,
-          legacyPartnerExperience: preferences?.partner_experience || null,
-          requesterGender,
-        });
-        if (isMounted) {
-          setRequiredPartnerGender(partnerGenderPreference);
-        }
-
-        // Fetch other users' profiles
-        // Try a simple query first to test RLS
-        const { error: testError } = await supabase
-          .from("user_profiles")
-          .select("user_id, first_name")
-          .limit(5);
-        
-
-        if (testError) {
-          console.error("RLS test failed:", testError);
-          setError(`RLS Error: ${testError.message}. Please check database policies.`);
-          setLoading(false);
-          return;
-        }
-
-        // Now fetch full profiles (only completed profiles are visible in discovery)
-        const { data: profilesData, error: profilesError } = await supabase
-          .from("user_profiles")
-          .select(`
-            user_id,
-            first_name,
-            last_name,
-            date_of_birth,
-            location,
-            height_cm,
-            photos,
-            profile_photo_url,
-            gender,
-            education_level,
-            religion,
-            have_children,
-            want_children,
-            smoking_habits,
-            ethnicity,
-            languages,
-            relationship_type,
-            relationship_status,
-            updated_at
-          `)
-          .eq("profile_completed", true)
-          .not("photos", "is", null)
-          .limit(50); // Get more, we'll filter in memory
-
-
-        if (profilesError) {
-          console.error("Error fetching profiles:", profilesError);
-          setError(`Failed to load profiles: ${profilesError.message || "Unknown error"}`);
-          setLoading(false);
-          return;
-        }
-
-        // Get blocked user IDs (bidirectional) and filter them out
-        const blockedUserIds = await getBlockedUserIds();
-
-        // Filter out current user's profile, blocked users, and profiles with no photos
-        const rawProfiles = (profilesData || []) as RawProfile[];
-        const otherProfiles = rawProfiles.filter(
-          (p) =>
-            p.user_id !== user.id &&
-            !blockedUserIds.has(p.user_id) &&
-            ((p.photos && p.photos.length > 0) || !!p.profile_photo_url)
+        setRequiredPartnerGender(
+          resolvePartnerGenderPreference({
+            partnerGenderPreference: preferences?.partner_gender_preference || null,
+            legacyPartnerExperience: preferences?.partner_experience || null,
+            requesterGender: requesterProfile?.gender || null,
+          })
         );
-
-        if (otherProfiles.length === 0) {
-          setProfiles([]);
-          setLoading(false);
-          return;
-        }
-
-        // Fetch account display names separately (only if we have profiles)
-        let accountsMap = new Map<string, AccountRow>();
-        const accountIds = otherProfiles.map((p) => p.user_id);
-
-        // Query only guaranteed columns to avoid runtime schema-cache errors on older deployments.
-        let accountsData: AccountRow[] | null = null;
-        let accountsError: { code?: string } | null = null;
-
-        const { data: accData, error: accErr } = await supabase
-          .from("accounts")
-          .select("id, display_name, account_status, email_verified, profile_visible, calendar_enabled")
-          .in("id", accountIds);
-
-        const rows = (accData || []) as AccountRow[];
-        accountsData = rows.map((a) => ({
-          ...a,
-          profile_visible: a.profile_visible ?? true,
-          calendar_enabled: a.calendar_enabled ?? true,
-          last_active_at: a.last_active_at ?? null,
-        }));
-        accountsError = accErr;
-
-        if (accountsError) {
-          console.warn("Error fetching account names:", accountsError);
-          // Continue without account names - not critical
-        } else {
-          // Only include active AND visible accounts
-          const activeAccounts = (accountsData || []).filter(
-            (a) =>
-              (a.account_status || "active") === "active" &&
-              a.profile_visible !== false &&
-              a.calendar_enabled !== false
-          );
-          accountsMap = new Map(activeAccounts.map((a) => [a.id, a]));
-        }
-
-        const { data: availabilityData } = await supabase
-          .from("meeting_availability")
-          .select("user_id")
-          .in("user_id", accountIds)
-          .gte("scheduled_at_utc", getMinimumRequestableMeetingStartIso());
-
-        const usersWithSlots = new Set(
-          ((availabilityData || []) as { user_id: string }[]).map((slot) => slot.user_id)
-        );
-
-        // Get users the current user has rejected (to exclude them from discovery)
-        // IMPORTANT: We ONLY exclude "rejected" profiles, NOT profiles that have been:
-        // - Liked (users can see profiles they've liked again)
-        // - Winked at (users can see profiles they've winked at again)
-        // - Interested in (users can see profiles they're interested in again)
-        // When a user "unlikes" someone (deletes the activity), that profile will automatically
-        // appear in discover again since there's no "rejected" activity for them.
-        const { data: rejectedActivities } = await supabase
-          .from("user_activities")
-          .select("target_user_id")
-          .eq("user_id", user.id)
-          .eq("activity_type", "rejected");
-
-        const rejectedUserIds = new Set(((rejectedActivities || []) as ActivityTargetRow[]).map((a) => a.target_user_id));
-
-        // Get profiles the current user has liked (to show red heart icon)
-        const { data: likedActivities } = await supabase
-          .from("user_activities")
-          .select("target_user_id")
-          .eq("user_id", user.id)
-          .in("activity_type", ["like", "wink", "interested"]);
-
-        const likedIds = new Set(((likedActivities || []) as ActivityTargetRow[]).map((a) => a.target_user_id));
-        setLikedProfileIds(likedIds);
-
-        // Get mutual interests (profiles that have liked this user)
-        const { data: mutualActivities } = await supabase
-          .from("user_activities")
-          .select("user_id")
-          .eq("target_user_id", user.id)
-          .in("activity_type", ["like", "wink", "interested"]);
-
-        const mutualUserIds = new Set(((mutualActivities || []) as ActivityUserRow[]).map((a) => a.user_id));
-        
-        
-        let filteredProfiles = otherProfiles.filter((p) => {
-          // Only include profiles with active accounts
-          const hasActiveAccount = accountsMap.has(p.user_id);
-          if (!hasActiveAccount) {
-            return false;
-          }
-          // Exclude ONLY users that have been explicitly rejected
-          // Note: Profiles that were liked/winked/interested (but not rejected) will still appear
-          // When a user unlikes someone, the activity is deleted, so they'll appear here again
-          if (rejectedUserIds.has(p.user_id)) {
-            return false;
-          }
-
-          // Exclude users from blocked locations
-          if (blockedLocations.length > 0 && p.location) {
-            const profileLoc = (p.location || "").toLowerCase();
-            const isBlocked = blockedLocations.some((blocked: string) =>
-              profileLoc.includes(blocked.toLowerCase()) ||
-              blocked.toLowerCase().includes(profileLoc)
-            );
-            if (isBlocked) {
-              return false;
-            }
-          }
-
-          // Exclude users aged 18–23 (platform rule: no matching for this age range)
-          if (isAgeRestrictedForMatching(p.date_of_birth)) {
-            return false;
-          }
-
-          // Enforce service-level gender eligibility (e.g. no male-to-male).
-          if (
-            !evaluateGenderEligibility({
-              requesterGender,
-              targetGender: p.gender,
-            }).allowed
-          ) {
-            return false;
-          }
-
-          // Enforce discover eligibility based on saved partner gender preference.
-          if (
-            !matchesPartnerGenderPreference(
-              p.gender,
-              partnerGenderPreference
-            )
-          ) {
-            return false;
-          }
-
-          return true;
-        });
-        
-
-        // Apply age range filter if preferences exist
-        // If no profiles match the age range, show all profiles anyway (preference is a guide, not a hard requirement)
-        if (preferences?.partner_age_range) {
-          // Parse age range (e.g., "25-35" or "40 - 49" with spaces)
-          const ageRangeStr = preferences.partner_age_range.trim().replace(/\s+/g, "-");
-          const [minAge, maxAge] = ageRangeStr.split("-").map(Number);
-          if (minAge && maxAge) {
-            const ageFiltered = filteredProfiles.filter((p) => {
-              if (!p.date_of_birth) {
-                return false;
-              }
-              const birthDate = new Date(p.date_of_birth);
-              const today = new Date();
-              let age = today.getFullYear() - birthDate.getFullYear();
-              const monthDiff = today.getMonth() - birthDate.getMonth();
-              if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < birthDate.getDate())) {
-                age--;
-              }
-              const matches = age >= minAge && age <= maxAge;
-              return matches;
-            });
-            
-            // If age filter removed all profiles, use original list (preference is a guide)
-            if (ageFiltered.length > 0) {
-              filteredProfiles = ageFiltered;
-            } else {
-            }
-          }
-        } else {
-        }
-
-        // Calculate compatibility scores for each profile and sort by score
-        const profilesWithScores = filteredProfiles.map((p) => {
-          const account = accountsMap.get(p.user_id);
-          
-          // Map profile data to ProfileData format for compatibility algorithm
-          const profileData: ProfileData = {
-            user_id: p.user_id,
-            first_name: p.first_name,
-            last_name: p.last_name,
-            date_of_birth: p.date_of_birth,
-            location: p.location,
-            height_cm: p.height_cm,
-            photos: p.photos,
-            profile_photo_url: p.profile_photo_url,
-            education_level: p.education_level,
-            employment: null, // Not available in user_profiles
-            religion: p.religion,
-            have_children: p.have_children === true ? "yes" : (p.have_children === false ? "no" : null),
-            want_children: p.want_children,
-            smoking: p.smoking_habits,
-            drinking: null, // Not available in user_profiles
-            diet: null, // Not available in user_profiles
-            pets: null, // Not available in user_profiles
-            ethnicity: p.ethnicity ? (typeof p.ethnicity === 'string' ? [p.ethnicity] : p.ethnicity) : null,
-          };
-
-          // Calculate compatibility score
-          const compatibilityScore = calculateCompatibility(
-            profileData,
-            preferences as UserPreferences | null,
-            account?.account_status || "inactive",
-            null, // last_login not available
-            p.updated_at,
-            rejectedUserIds.has(p.user_id),
-            likedIds.has(p.user_id),
-            mutualUserIds.has(p.user_id)
-          );
-
-          return {
-            profile: p,
-            account,
-            score: compatibilityScore.score,
-            compatibility: compatibilityScore,
-          };
-        });
-
-        // Sort by compatibility score (highest first)
-        profilesWithScores.sort((a, b) => b.score - a.score);
-
-        // Transform profiles data with compatibility scores
-        const transformedProfiles: Profile[] = profilesWithScores.map(({ profile: p, account, score }) => {
-          // Calculate age
-          let age: number | null = null;
-          if (p.date_of_birth) {
-            const birthDate = new Date(p.date_of_birth);
-            const today = new Date();
-            age = today.getFullYear() - birthDate.getFullYear();
-            const monthDiff = today.getMonth() - birthDate.getMonth();
-            if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < birthDate.getDate())) {
-              age--;
-            }
-          }
-
-          // Format height
-          let heightLabel = "Not specified";
-          if (p.height_cm) {
-            const feet = Math.floor(p.height_cm / 30.48);
-            const inches = Math.round((p.height_cm % 30.48) / 2.54);
-            heightLabel = `${feet}'${inches}" • ${p.height_cm} cm`;
-          }
-
-          // Get primary photo
-          const primaryPhoto = (p.photos && p.photos.length > 0)
-            ? p.photos[0]
-            : p.profile_photo_url || "/placeholder-profile.svg";
-
-          // Build tags
-          const tags: string[] = [];
-          if (p.education_level) {
-            tags.push(p.education_level);
-          }
-          if (p.have_children) {
-            tags.push("Has kids");
-          }
-          if (p.want_children === "yes") {
-            tags.push("Wants kids");
-          } else if (p.want_children === "no") {
-            tags.push("Doesn't want kids");
-          }
-          if (p.relationship_type) {
-            tags.push(p.relationship_type);
-          }
-          
-          // Add compatibility indicator tag for high-scoring profiles
-          if (score >= 70) {
-            tags.unshift("⭐ High Match");
-          } else if (score >= 50) {
-            tags.unshift("✨ Good Match");
-          }
-
-          // Determine match badge styling based on compatibility score
-          let matchLabel = "Discover";
-          let matchColor = "text-gray-600";
-          let matchBgColor = "bg-gray-50 border-gray-200";
-          if (score >= 85) {
-            matchLabel = "Excellent Match";
-            matchColor = "text-emerald-700";
-            matchBgColor = "bg-emerald-50 border-emerald-200";
-          } else if (score >= 70) {
-            matchLabel = "Great Match";
-            matchColor = "text-blue-700";
-            matchBgColor = "bg-blue-50 border-blue-200";
-          } else if (score >= 50) {
-            matchLabel = "Good Match";
-            matchColor = "text-amber-700";
-            matchBgColor = "bg-amber-50 border-amber-200";
-          } else if (score >= 30) {
-            matchLabel = "Fair Match";
-            matchColor = "text-orange-700";
-            matchBgColor = "bg-orange-50 border-orange-200";
-          }
-
-          return {
-            id: p.user_id,
-            user_id: p.user_id,
-            name: p.first_name || account?.display_name || "User",
-            age,
-            city: toStateCountryLabel(p.location) || null,
-            imageUrl: primaryPhoto,
-            heightLabel,
-            heightCm: p.height_cm || null,
-            tags: tags.slice(0, 4),
-            similaritiesLabel: score >= 70 ? "Great match based on your preferences" : score >= 50 ? "Good match based on your preferences" : "Discover new connections",
-            matchScore: score,
-            matchLabel,
-            matchColor,
-            matchBgColor,
-            gender: p.gender || null,
-            religion: p.religion || null,
-            ethnicity: Array.isArray(p.ethnicity) ? (p.ethnicity[0] || null) : p.ethnicity || null,
-            education: p.education_level || null,
-            languages: p.languages || [],
-            smoking_habits: p.smoking_habits || null,
-            have_children: p.have_children || null,
-            want_children: p.want_children || null,
-            relationship_status: p.relationship_status || null,
-            verified: account?.email_verified || false,
-            hasCalendarSlots: hasRequestableMeetingAvailability(
-              account,
-              usersWithSlots.has(p.user_id)
-            ),
-            // Active status
-            lastActiveAt: account?.last_active_at || null,
-            ...(() => {
-              const status = getActiveStatus(account?.last_active_at || null);
-              return {
-                activeLabel: status.label,
-                activeColor: status.color,
-                isUserOnline: status.isOnline,
-              };
-            })(),
-          };
-        });
-
-        if (!isMounted) return;
-        setProfiles(transformedProfiles);
       } catch (err) {
-        if (!isMounted) return;
-        console.error("Error in fetchProfiles:", err);
-        setError(`Failed to load profiles: ${err instanceof Error ? err.message : "Unknown error"}`);
-      } finally {
-        if (isMounted) {
-          setLoading(false);
-        }
+        console.error("Error fetching partner preference:", err);
       }
     };
 
-    fetchProfiles();
-    
-    return () => {
-      isMounted = false;
-    };
+    fetchViewerPreference();
   }, []);
 
+  /**
+   * Current filters in the shape /api/search expects ("online now" is a
+   * Search-page filter only)
+   */
+  const currentFilters = useMemo<SearchFilters>(
+    () => ({
+      minAge: filterMinAge,
+      maxAge: filterMaxAge,
+      city: filterCity,
+      distanceKm: filterMaxDistance,
+      online: false,
+      verifiedOnly: filterVerified,
+      gender: filterGender,
+      relationshipStatus: filterRelStatus,
+      heightMin: filterHeightMin,
+      heightMax: filterHeightMax,
+      languages: filterLanguages,
+      ethnicities: filterEthnicities,
+      educations: filterEducations,
+      religions: filterReligions,
+      children: filterChildren,
+      smoking: filterSmoking,
+      sortBy,
+    }),
+    [filterMinAge, filterMaxAge, filterCity, filterMaxDistance, filterVerified, filterGender, filterRelStatus, filterHeightMin, filterHeightMax, filterLanguages, filterEthnicities, filterEducations, filterReligions, filterChildren, filterSmoking, sortBy]
+  );
+
   /**
    * Count active filters for badge display
    */
-  const activeFilterCount = useMemo(() => {
-    let count = 0;
-    if (filterMinAge !== 18 || filterMaxAge !== 70) count++;
-    if (filterCity.trim()) count++;
-    if (filterVerified) count++;
-    if (filterGender) count++;
-    if (filterRelStatus) count++;
-    if (filterHeightMin !== 140 || filterHeightMax !== 220) count++;
-    if (filterLanguages.length > 0) count++;
-    if (filterEthnicities.length > 0) count++;
-    if (filterEducations.length > 0) count++;
-    if (filterReligions.length > 0) count++;
-    if (filterChildren !== "any") count++;
-    if (filterSmoking) count++;
-    return count;
-  }, [filterMinAge, filterMaxAge, filterCity, filterVerified, filterGender, filterRelStatus, filterHeightMin, filterHeightMax, filterLanguages, filterEthnicities, filterEducations, filterReligions, filterChildren, filterSmoking]);
+  const activeFilterCount = useMemo(
+    () => countActiveSearchFilters(currentFilters),
+    [currentFilters]
+  );
 
   const showAdvancedFilterSections = !isMobileViewport || showAdvancedFilters;
 
@@ -808,6 +436,8 @@ export default function DiscoverPage() {
       chips.push({ key: "age", label: `Age ${filterMinAge}–${filterMaxAge}`, onClear: () => { setFilterMinAge(18); setFilterMaxAge(70); } });
     if (filterCity.trim())
       chips.push({ key: "city", label: `📍 ${filterCity}`, onClear: () => setFilterCity("") });
+    if (filterMaxDistance < ANY_DISTANCE_KM)
+      chips.push({ key: "distance", label: `Within ${filterMaxDistance} km`, onClear: () => setFilterMaxDistance(ANY_DISTANCE_KM) });
     if (filterVerified)
       chips.push({ key: "verified", label: "✓ Verified", onClear: () => setFilterVerified(false) });
     if (filterGender)
@@ -835,7 +465,7 @@ export default function DiscoverPage() {
     if (filterSmoking)
       chips.push({ key: "smoking", label: `🚬 ${filterSmoking}`, onClear: () => setFilterSmoking("") });
     return chips;
-  }, [filterMinAge, filterMaxAge, filterCity, filterVerified, filterGender, filterRelStatus, filterHeightMin, filterHeightMax, filterLanguages, filterEthnicities, filterEducations, filterReligions, filterChildren, filterSmoking]);
+  }, [filterMinAge, filterMaxAge, filterCity, filterMaxDistance, filterVerified, filterGender, filterRelStatus, filterHeightMin, filterHeightMax, filterLanguages, filterEthnicities, filterEducations, filterReligions, filterChildren, filterSmoking]);
 
   /**
    * Reset all filters to defaults
@@ -844,6 +474,7 @@ export default function DiscoverPage() {
     setFilterMinAge(18);
     setFilterMaxAge(70);
     setFilterCity("");
+    setFilterMaxDistance(ANY_DISTANCE_KM);
     setFilterVerified(false);
     setFilterGender("");
     setFilterRelStatus("");
@@ -858,104 +489,87 @@ export default function DiscoverPage() {
   }, []);
 
   /**
-   * Filter and sort profiles based on user's filter selections
+   * Fetch the first page from /api/search whenever the filters change
+   * (debounced so slider drags don't fire a request per step). Blocks,
+   * rejections, age and gender rules and scoring all run on the server.
    */
-  const filteredProfiles = useMemo(() => {
-    // Step 1: Filter
-    const filtered = profiles.filter((p) => {
-      if (p.age !== null && (p.age < filterMinAge || p.age > filterMaxAge)) return false;
-      if (filterVerified && !p.verified) return false;
-      if (filterCity.trim()) {
-        const cityLower = filterCity.toLowerCase().trim();
-        const profileCity = (p.city || "").toLowerCase();
-        if (!profileCity.includes(cityLower)) return false;
-      }
-      if (filterGender) {
-        if (!p.gender || p.gender.toLowerCase() !== filterGender.toLowerCase()) return false;
-      }
-      if (filterRelStatus) {
-        if (!relationshipStatusMatches(p.relationship_status, filterRelStatus)) return false;
-      }
-      if ((filterHeightMin !== 140 || filterHeightMax !== 220) && p.heightCm) {
-        if (p.heightCm < filterHeightMin || p.heightCm > filterHeightMax) return false;
-      }
-      if (filterLanguages.length > 0) {
-        if (!p.languages || !Array.isArray(p.languages) || p.languages.length === 0) return false;
-        const hasMatch = filterLanguages.some(lang =>
-          p.languages!.some((pl: string) => pl.toLowerCase().includes(lang.toLowerCase()) || lang.toLowerCase().includes(pl.toLowerCase()))
+  const searchRequestIdRef = useRef(0);
+  useEffect(() => {
+    const requestId = ++searchRequestIdRef.current;
+    const timer = setTimeout(async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const page = await fetchSearchPage({ filters: currentFilters, mode: "discover" });
+        if (requestId !== searchRequestIdRef.current) return;
+        setProfiles(page.results.map(toDiscoverProfile));
+        setLikedProfileIds(
+          new Set(page.results.filter((result) => result.viewerLiked).map((result) => result.user_id))
         );
-        if (!hasMatch) return false;
-      }
-      if (filterEducations.length > 0) {
-        if (!p.education || !filterEducations.includes(p.education)) return false;
-      }
-      if (filterReligions.length > 0) {
-        if (!p.religion || !filterReligions.includes(p.religion)) return false;
-      }
-      if (filterEthnicities.length > 0) {
-        if (!p.ethnicity) return false;
-        const profileEths = typeof p.ethnicity === "string" ? p.ethnicity.split(",").map(e => e.trim()) : Array.isArray(p.ethnicity) ? p.ethnicity : [];
-        const hasMatch = filterEthnicities.some(sel => profileEths.some((pe: string) => pe.toLowerCase().includes(sel.toLowerCase()) || sel.toLowerCase().includes(pe.toLowerCase())));
-        if (!hasMatch) return false;
-      }
-      if (filterChildren !== "any") {
-        if (!p.want_children || p.want_children !== filterChildren) return false;
-      }
-      if (filterSmoking) {
-        if (!p.smoking_habits) return false;
-        const smokingMap: Record<string, string[]> = {
-          "Never": ["never"], "Smoke Socially": ["occasionally", "socially"],
-          "Regularly": ["regularly"], "Trying to quit": ["trying_to_quit", "trying to quit"],
-        };
-        const ps = p.smoking_habits.toLowerCase();
-        const allowed = smokingMap[filterSmoking] || [];
-        if (!allowed.some(a => ps.includes(a.toLowerCase()))) return false;
+        setNextCursor(page.nextCursor);
+        setTotalProfiles(page.total);
+        setCurrentIndex(0);
+        profileFallbackIdxRef.current = 0;
+        setProfileImgSrc(null);
+      } catch (err) {
+        if (requestId !== searchRequestIdRef.current) return;
+        console.error("Error in fetchProfiles:", err);
+        setError(`Failed to load profiles: ${err instanceof Error ? err.message : "Unknown error"}`);
+      } finally {
+        if (requestId === searchRequestIdRef.current) setLoading(false);
       }
-      return true;
-    });
-
-    // Step 2: Sort
-    const sorted = [...filtered];
-    switch (sortBy) {
-      case "match":
-        sorted.sort((a, b) => b.matchScore - a.matchScore);
-        break;
-      case "newest":
-        break; // keep original order
-      case "age_asc":
-        sorted.sort((a, b) => {
-          if (a.age === null && b.age === null) return 0;
-          if (a.age === null) return 1;
-          if (b.age === null) return -1;
-          return a.age - b.age;
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [currentFilters]);
+
+  /**
+   * Fetch the next page as the viewer nears the end of the loaded profiles
+   */
+  useEffect(() => {
+    if (!nextCursor || loadingMore || currentIndex < profiles.length - PREFETCH_REMAINING) return;
+
+    const requestId = searchRequestIdRef.current;
+    const loadMore = async () => {
+      setLoadingMore(true);
+      try {
+        const page = await fetchSearchPage({
+          filters: currentFilters,
+          cursor: nextCursor,
+          mode: "discover",
         });
-        break;
-      case "age_desc":
-        sorted.sort((a, b) => {
-          if (a.age === null && b.age === null) return 0;
-          if (a.age === null) return 1;
-          if (b.age === null) return -1;
-          return b.age - a.age;
+        if (requestId !== searchRequestIdRef.current) return;
+        setProfiles((prev) => [...prev, ...page.results.map(toDiscoverProfile)]);
+        setLikedProfileIds((prev) => {
+          const updated = new Set(prev);
+          for (const result of page.results) {
+            if (result.viewerLiked) updated.add(result.user_id);
+          }
+          return updated;
         });
-        break;
-      case "name":
-        sorted.sort((a, b) => a.name.localeCompare(b.name));
-        break;
-    }
+        setNextCursor(page.nextCursor);
+        setTotalProfiles(page.total);
+      } catch (err) {
+        console.error("Error loading more profiles:", err);
+        if (requestId === searchRequestIdRef.current) setNextCursor(null);
+      } finally {
+        setLoadingMore(false);
+      }
+    };
 
-    return sorted;
-  }, [profiles, filterMinAge, filterMaxAge, filterCity, filterVerified, filterGender, filterRelStatus, filterHeightMin, filterHeightMax, filterLanguages, filterEducations, filterReligions, filterEthnicities, filterChildren, filterSmoking, sortBy]);
+    loadMore();
+  }, [currentIndex, profiles.length, nextCursor, loadingMore, currentFilters]);
 
   // Reset currentIndex when filters change and it goes out of bounds
   useEffect(() => {
-    if (currentIndex >= filteredProfiles.length && filteredProfiles.length > 0) {
+    if (currentIndex >= profiles.length && profiles.length > 0) {
       setCurrentIndex(0);
       profileFallbackIdxRef.current = 0;
       setProfileImgSrc(null);
     }
-  }, [filteredProfiles.length, currentIndex]);
+  }, [profiles.length, currentIndex]);
 
-  const currentProfile = filteredProfiles[currentIndex] ?? null;
+  const currentProfile = profiles[currentIndex] ?? null;
   const currentProfileCanRequestMeeting = Boolean(currentProfile?.hasCalendarSlots);
   const currentProfileMeetingLabel = currentProfileCanRequestMeeting
     ? "Request Video Meeting"
@@ -1060,7 +674,7 @@ export default function DiscoverPage() {
   }, [activeTab, hasLoadedTopPicks]);
 
   // Show loading state
-  if (loading && profiles.length === 0) {
+  if (loading && profiles.length === 0 && activeFilterCount === 0) {
     return (
       <div className="min-h-screen w-full bg-gray-50 flex items-center justify-center">
         <div className="flex flex-col items-center gap-4">
@@ -1072,7 +686,7 @@ export default function DiscoverPage() {
   }
 
   // Show error state
-  if (error && profiles.length === 0) {
+  if (error && profiles.length === 0 && activeFilterCount === 0) {
     return (
       <div className="min-h-screen w-full bg-gray-50">
         <header className="sticky top-0 z-40 border-b border-gray-200 bg-white">
@@ -1099,7 +713,7 @@ export default function DiscoverPage() {
   }
 
   // Show empty state with sidebar
-  if (!loading && profiles.length === 0) {
+  if (!loading && profiles.length === 0 && activeFilterCount === 0) {
     return (
       <div className="min-h-screen w-full bg-gray-50">
         <header className="sticky top-0 z-40 border-b border-gray-200 bg-white">
@@ -1128,13 +742,13 @@ export default function DiscoverPage() {
   }
 
   const showPrev = () => {
-    setCurrentIndex((prev) => (prev === 0 ? filteredProfiles.length - 1 : prev - 1));
+    setCurrentIndex((prev) => (prev === 0 ? profiles.length - 1 : prev - 1));
     profileFallbackIdxRef.current = 0;
     setProfileImgSrc(null);
   };
 
   const showNext = () => {
-    setCurrentIndex((prev) => (prev + 1) % filteredProfiles.length);
+    setCurrentIndex((prev) => (prev + 1) % profiles.length);
     profileFallbackIdxRef.current = 0;
     setProfileImgSrc(null);
   };
@@ -1225,6 +839,7 @@ export default function DiscoverPage() {
             // Remove the rejected profile from the current list
             const updatedProfiles = profiles.filter((p) => p.user_id !== userIdToUse);
             setProfiles(updatedProfiles);
+            setTotalProfiles((prev) => Math.max(0, prev - 1));
             
             // Move to next profile (or handle empty state)
             if (updatedProfiles.length > 0) {
@@ -1345,9 +960,9 @@ export default function DiscoverPage() {
             <div className="flex items-center gap-3">
               <div className="flex h-9 w-9 items-center justify-center rounded-full bg-[#eef2ff] text-[#1f419a]"><User className="h-5 w-5"/></div>
               <div className="text-sm text-gray-700">
-                {filteredProfiles.length > 0 
-                  ? <>Discover <span className="font-medium">{filteredProfiles.length}</span> {filteredProfiles.length === 1 ? 'profile' : 'profiles'}{activeFilterCount > 0 && filteredProfiles.length !== profiles.length && <span className="ml-1 text-xs text-blue-600">(filtered from {profiles.length})</span>}</>
-                  : profiles.length > 0
+                {profiles.length > 0
+                  ? <>Discover <span className="font-medium">{totalProfiles}</span> {totalProfiles === 1 ? 'profile' : 'profiles'}</>
+                  : activeFilterCount > 0
                     ? "No profiles match your filters — try adjusting them"
                     : "Complete your profile to get the best Matchindeed experience!"
                 }
@@ -1385,7 +1000,7 @@ export default function DiscoverPage() {
                         <button
                           key={option.key}
                           type="button"
-                          onClick={() => { setSortBy(option.key); setShowSortMenu(false); setCurrentIndex(0); setProfileImgSrc(null); }}
+                          onClick={() => { setSortBy(option.key as SearchSort); setShowSortMenu(false); setCurrentIndex(0); setProfileImgSrc(null); }}
                           className={`flex w-full items-center gap-2 px-4 py-2.5 text-sm transition-colors ${
                             sortBy === option.key ? "bg-[#1f419a]/10 text-[#1f419a] font-semibold" : "text-gray-700 hover:bg-gray-50"
                           }`}
@@ -1508,7 +1123,7 @@ export default function DiscoverPage() {
                         <ChevronRight className="h-4 w-4" />
                       </button>
                       <div className="absolute left-3 top-3 rounded-full bg-black/60 px-2.5 py-0.5 text-xs font-medium text-white md:left-3 md:top-auto md:bottom-3">
-                        {currentIndex + 1} / {filteredProfiles.length}
+                        {currentIndex + 1} / {totalProfiles}
                       </div>
                       <div className="pointer-events-none absolute inset-x-0 bottom-0 h-40 bg-gradient-to-t from-black/85 via-black/40 to-transparent md:hidden" />
                       <div className="pointer-events-none absolute inset-x-0 bottom-0 p-5 md:hidden">
@@ -1545,6 +1160,7 @@ export default function DiscoverPage() {
                     <span>
                       {currentProfile.age !== null ? `${currentProfile.age}, ` : ""}
                       {currentProfile.city || "Unknown location"}
+                      {typeof currentProfile.distanceKm === "number" ? ` · ${currentProfile.distanceKm} km away` : ""}
                     </span>
                     {currentProfile.activeLabel && (
                       <span className={`flex items-center gap-1 text-xs ${currentProfile.activeColor || "text-gray-400"}`}>
@@ -2080,6 +1696,15 @@ export default function DiscoverPage() {
                   className="w-full rounded-lg border border-gray-200 bg-gray-50 px-3 py-2 text-sm text-gray-900 placeholder-gray-400 focus:border-[#1f419a] focus:ring-1 focus:ring-[#1f419a] focus:outline-none transition-colors"
                   placeholder="Enter city or country..."
                 />
+                <div className="mt-3 flex items-center justify-between text-sm text-gray-600">
+                  <span>
+                    Distance:{" "}
+                    <span className="font-medium">
+                      {filterMaxDistance < ANY_DISTANCE_KM ? `up to ${filterMaxDistance} km` : "Any distance"}
+                    </span>
+                  </span>
+                </div>
+                <input type="range" min={5} max={ANY_DISTANCE_KM} step={5} value={filterMaxDistance} onChange={(e) => setFilterMaxDistance(Number(e.target.value))} className="range-brand mt-1 h-2 w-full cursor-pointer" />
               </div>
 
               {/* Match Options */}
@@ -2214,7 +1839,7 @@ export default function DiscoverPage() {
                 <div className="text-xs font-semibold uppercase tracking-wider text-gray-500 mb-2">Want Children</div>
                 <div className="flex flex-wrap gap-2">
                   {[{ key: "any", label: "Any" }, { key: "yes", label: "Want kids" }, { key: "no", label: "Don't want kids" }, { key: "maybe", label: "Not sure yet" }].map((opt) => (
-                    <button key={opt.key} type="button" onClick={() => setFilterChildren(opt.key)}
+                    <button key={opt.key} type="button" onClick={() => setFilterChildren(opt.key as ChildrenFilter)}
                       className={`inline-flex items-center rounded-full border px-3 py-1.5 text-xs font-medium transition-colors ${filterChildren === opt.key ? "border-[#1f419a] bg-[#1f419a] text-white shadow-sm" : "border-gray-200 bg-gray-50 text-gray-700 hover:bg-gray-100"}`}
                     >{opt.label}</button>
                   ))}
@@ -2242,7 +1867,7 @@ export default function DiscoverPage() {
               <button type="button" onClick={resetAllFilters} className="text-sm text-gray-500 hover:text-red-500 transition-colors">Reset All</button>
               <div className="flex items-center gap-2">
                 {activeFilterCount > 0 && (
-                  <span className="hidden text-xs text-gray-400 sm:inline">{filteredProfiles.length} result{filteredProfiles.length !== 1 ? "s" : ""}</span>
+                  <span className="hidden text-xs text-gray-400 sm:inline">{totalProfiles} result{totalProfiles !== 1 ? "s" : ""}</span>
                 )}
                 <button type="button" onClick={() => { setShowFilters(false); setCurrentIndex(0); setProfileImgSrc(null); }}
                   className="rounded-full bg-[#1f419a] px-6 py-2 text-sm font-medium text-white hover:bg-[#17357b] shadow-sm transition-colors"
@@ -2278,6 +1903,21 @@ export default function DiscoverPage() {
         }
         isOpen={showProfileDetail}
         onClose={() => setShowProfileDetail(false)}
+        {...(activeTab === "topPicks"
+          ? {
+              matchScore: topPick?.score,
+              matchLabel: topPick?.matchLabel,
+              matchColor: topPick?.matchColor,
+              matchBgColor: topPick?.matchBgColor,
+              matchBreakdown: topPick?.matchBreakdown,
+            }
+          : {
+              matchScore: currentProfile?.matchScore,
+              matchLabel: currentProfile?.matchLabel,
+              matchColor: currentProfile?.matchColor,
+              matchBgColor: currentProfile?.matchBgColor,
+              matchBreakdown: currentProfile?.matchBreakdown,
+            })}
         canRequestMeeting={
           activeTab === "topPicks"
             ? topPickCanRequestMeeting
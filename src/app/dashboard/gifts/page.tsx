@@ -0,0 +1,485 @@
+"use client";
+
+import { Suspense, useCallback, useEffect, useRef, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import {
+  CheckCircle2,
+  Clipboard,
+  Gift,
+  Inbox,
+  Loader2,
+  Send,
+  Ticket,
+} from "lucide-react";
+import Sidebar from "@/components/dashboard/Sidebar";
+import { useToast } from "@/components/ToastProvider";
+import { supabase } from "@/lib/supabase";
+import {
+  GIFT_MESSAGE_MAX_LENGTH,
+  MAX_GIFT_CREDITS,
+  MIN_GIFT_CREDITS,
+  normalizeGiftRecipientEmail,
+  type GiftKind,
+} from "@/lib/gifts/config";
+import {
+  buildCheckoutUrl,
+  type CheckoutCurrency,
+  type CheckoutTier,
+} from "@/lib/payments/checkout-intent";
+import {
+  formatCurrencyAmount,
+  SUPPORTED_CURRENCIES,
+  WALLET_CURRENCIES,
+} from "@/lib/payments/currencies";
+
+type GiftItem = {
+  id: string;
+  description: string;
+  recipient_email: string | null;
+  message: string | null;
+  amount_cents: number | null;
+  currency: string | null;
+  delivery: "direct" | "code";
+  status: "paid" | "redeemed" | "revoked";
+  code: string | null;
+  code_expires_at: string | null;
+  redeemed_at: string | null;
+  created_at: string;
+};
+
+type GiftsPayload = {
+  sent: GiftItem[];
+  received: GiftItem[];
+};
+
+const GIFT_TIERS: CheckoutTier[] = ["basic", "standard", "premium", "vip"];
+
+function tierName(tier: string) {
+  return tier.charAt(0).toUpperCase() + tier.slice(1);
+}
+
+function statusLabel(gift: GiftItem) {
+  if (gift.status === "redeemed") return "Redeemed";
+  if (gift.status === "revoked") return "Revoked";
+  return "Waiting to be redeemed";
+}
+
+async function getAccessToken() {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  return session?.access_token || null;
+}
+
+function GiftsContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { toast } = useToast();
+  const [data, setData] = useState<GiftsPayload | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [kind, setKind] = useState<GiftKind>("subscription");
+  const [tier, setTier] = useState<CheckoutTier>("standard");
+  const [credits, setCredits] = useState(MIN_GIFT_CREDITS * 2);
+  const [currency, setCurrency] = useState<CheckoutCurrency>("USD");
+  const [recipientEmail, setRecipientEmail] = useState("");
+  const [message, setMessage] = useState("");
+  const [code, setCode] = useState(searchParams.get("code") || "");
+  const [redeeming, setRedeeming] = useState(false);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const handledPaymentRef = useRef(false);
+
+  const loadGifts = useCallback(async () => {
+    try {
+      const token = await getAccessToken();
+      if (!token) return;
+
+      const response = await fetch("/api/gifts", {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (!response.ok) throw new Error("Unable to load gifts.");
+      setData(await response.json());
+    } catch (error) {
+      console.error("[dashboard/gifts] load error:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadGifts();
+  }, [loadGifts]);
+
+  // Returning from Paystack or Flutterwave: confirm the payment so the gift
+  // is delivered even if the webhook hasn't arrived yet.
+  useEffect(() => {
+    if (handledPaymentRef.current) return;
+    const paystackReference =
+      searchParams.get("paystack") === "success"
+        ? searchParams.get("reference") || searchParams.get("trxref")
+        : null;
+    const transactionId =
+      searchParams.get("success") === "true" ? searchParams.get("transaction_id") : null;
+    if (!paystackReference && !transactionId) return;
+    handledPaymentRef.current = true;
+
+    const verifyUrl = paystackReference
+      ? `/api/verify-paystack?reference=${encodeURIComponent(paystackReference)}`
+      : `/api/verify-payment?${new URLSearchParams({
+          transactionId: transactionId!,
+          txRef: searchParams.get("tx_ref") || "",
+        }).toString()}`;
+
+    const verify = async () => {
+      const maxAttempts = 6;
+      for (let attempt = 0; attempt < maxAttempts; attempt += 1) {
+        if (attempt > 0) {
+          await new Promise((resolve) => setTimeout(resolve, 2000));
+        }
+
+        const response = await fetch(verifyUrl, { cache: "no-store" });
+        const result = await response.json().catch(() => ({}));
+
+        if (response.ok && result.success) {
+          toast.success(
+            result.delivery === "direct"
+              ? "Payment received. Your gift has been delivered."
+              : "Payment received. Your gift code is ready to share."
+          );
+          await loadGifts();
+          return;
+        }
+
+        if ((!response.ok || result.retryable) && attempt < maxAttempts - 1) {
+          continue;
+        }
+
+        toast.error(result.message || result.error || "We couldn't confirm this payment yet.");
+        return;
+      }
+    };
+
+    verify().catch(() => toast.error("Failed to verify payment. Please refresh."));
+
+    const url = new URL(window.location.href);
+    for (const param of ["success", "transaction_id", "tx_ref", "status", "paystack", "reference", "trxref"]) {
+      url.searchParams.delete(param);
+    }
+    window.history.replaceState({}, "", `${url.pathname}${url.search}`);
+  }, [searchParams, toast, loadGifts]);
+
+  const currencies = kind === "credits" ? WALLET_CURRENCIES : SUPPORTED_CURRENCIES;
+  const checkoutCurrency = currencies.includes(currency) ? currency : "USD";
+
+  const startGiftCheckout = (event: React.FormEvent) => {
+    event.preventDefault();
+    const email = recipientEmail.trim() ? normalizeGiftRecipientEmail(recipientEmail) : null;
+    if (recipientEmail.trim() && !email) {
+      toast.error("Enter a valid email address for the recipient.");
+      return;
+    }
+    if (kind === "credits" && (credits < MIN_GIFT_CREDITS || credits > MAX_GIFT_CREDITS)) {
+      toast.error(`Gift between ${MIN_GIFT_CREDITS} and ${MAX_GIFT_CREDITS} credits.`);
+      return;
+    }
+
+    const common = {
+      type: "gift" as const,
+      currency: checkoutCurrency,
+      recipientEmail: email,
+      message: message.trim() || null,
+    };
+    router.push(
+      buildCheckoutUrl(
+        kind === "subscription"
+          ? { ...common, giftKind: "subscription", tier }
+          : { ...common, giftKind: "credits", credits }
+      )
+    );
+  };
+
+  const redeem = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!code.trim()) return;
+
+    try {
+      setRedeeming(true);
+      const token = await getAccessToken();
+      if (!token) {
+        toast.error("Please log in to redeem a gift.");
+        return;
+      }
+
+      const response = await fetch("/api/gifts/redeem", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${token}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ code }),
+      });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(result.message || "We couldn't redeem that code.");
+      }
+
+      toast.success(`${result.description} added to your account.`);
+      setCode("");
+      await loadGifts();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "We couldn't redeem that code.");
+    } finally {
+      setRedeeming(false);
+    }
+  };
+
+  const copyCode = async (gift: GiftItem) => {
+    if (!gift.code) return;
+    await navigator.clipboard.writeText(gift.code);
+    setCopiedId(gift.id);
+    setTimeout(() => setCopiedId(null), 1800);
+  };
+
+  const renderGift = (gift: GiftItem, side: "sent" | "received") => (
+    <div
+      key={gift.id}
+      className="flex flex-col gap-2 border-b border-gray-100 px-4 py-3 last:border-b-0 sm:flex-row sm:items-center sm:justify-between"
+    >
+      <div className="min-w-0">
+        <p className="text-sm font-medium text-gray-900">{gift.description}</p>
+        <p className="text-xs text-gray-500">
+          {side === "sent"
+            ? gift.recipient_email
+              ? `For ${gift.recipient_email}`
+              : "Shared by code"
+            : new Date(gift.created_at).toLocaleDateString()}
+          {" · "}
+          {statusLabel(gift)}
+        </p>
+        {gift.message && side === "received" && (
+          <p className="mt-1 text-sm italic text-gray-600">&ldquo;{gift.message}&rdquo;</p>
+        )}
+      </div>
+      <div className="flex shrink-0 items-center gap-3">
+        {side === "sent" && gift.amount_cents !== null && gift.currency && (
+          <span className="text-sm font-semibold text-gray-900">
+            {formatCurrencyAmount(gift.amount_cents, gift.currency)}
+          </span>
+        )}
+        {gift.code && (
+          <button
+            type="button"
+            onClick={() => copyCode(gift)}
+            className="inline-flex items-center gap-1.5 rounded-lg border border-gray-200 px-3 py-1.5 font-mono text-xs font-semibold text-gray-700 hover:bg-gray-50"
+          >
+            {copiedId === gift.id ? (
+              <CheckCircle2 className="h-3.5 w-3.5 text-green-600" />
+            ) : (
+              <Clipboard className="h-3.5 w-3.5" />
+            )}
+            {gift.code}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="mx-auto flex w-full max-w-7xl gap-6 px-4 py-6 lg:px-8">
+        <div className="hidden w-72 shrink-0 lg:block">
+          <Sidebar active="gifts" />
+        </div>
+
+        <main className="min-w-0 flex-1">
+          <div className="mb-6">
+            <h1 className="text-2xl font-bold text-gray-900">Gifts</h1>
+            <p className="text-sm text-gray-500">
+              Pay for a friend&apos;s plan or credits, or redeem a gift someone sent you.
+            </p>
+          </div>
+
+          <div className="space-y-6">
+            <section className="grid gap-6 xl:grid-cols-[1.2fr_0.8fr]">
+              <form
+                onSubmit={startGiftCheckout}
+                className="rounded-xl bg-white p-6 shadow-sm ring-1 ring-black/5"
+              >
+                <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+                  <Gift className="h-5 w-5 text-[#1f419a]" />
+                  Send a gift
+                </h2>
+
+                <div className="mt-4 grid max-w-sm grid-cols-2 gap-1 rounded-lg border border-gray-200 bg-gray-50 p-1">
+                  {(["subscription", "credits"] as const).map((option) => (
+                    <button
+                      key={option}
+                      type="button"
+                      onClick={() => setKind(option)}
+                      className={`min-h-10 rounded-md px-3 text-sm font-semibold transition-colors ${
+                        kind === option
+                          ? "bg-white text-[#1f419a] shadow-sm"
+                          : "text-gray-600 hover:text-gray-900"
+                      }`}
+                    >
+                      {option === "subscription" ? "A month of a plan" : "Credits"}
+                    </button>
+                  ))}
+                </div>
+
+                <div className="mt-4 grid gap-4 sm:grid-cols-2">
+                  {kind === "subscription" ? (
+                    <label className="text-sm font-medium text-gray-700">
+                      Plan
+                      <select
+                        value={tier}
+                        onChange={(event) => setTier(event.target.value as CheckoutTier)}
+                        className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm"
+                      >
+                        {GIFT_TIERS.map((option) => (
+                          <option key={option} value={option}>
+                            {tierName(option)}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  ) : (
+                    <label className="text-sm font-medium text-gray-700">
+                      Credits
+                      <input
+                        type="number"
+                        min={MIN_GIFT_CREDITS}
+                        max={MAX_GIFT_CREDITS}
+                        value={credits}
+                        onChange={(event) => setCredits(Number(event.target.value))}
+                        className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm"
+                      />
+                    </label>
+                  )}
+                  <label className="text-sm font-medium text-gray-700">
+                    Currency
+                    <select
+                      value={checkoutCurrency}
+                      onChange={(event) => setCurrency(event.target.value as CheckoutCurrency)}
+                      className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm"
+                    >
+                      {currencies.map((option) => (
+                        <option key={option} value={option}>
+                          {option}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                </div>
+
+                <label className="mt-4 block text-sm font-medium text-gray-700">
+                  Recipient email
+                  <input
+                    type="email"
+                    value={recipientEmail}
+                    onChange={(event) => setRecipientEmail(event.target.value)}
+                    placeholder="Leave empty to get a code you can share"
+                    className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm"
+                  />
+                </label>
+                <p className="mt-1 text-xs text-gray-500">
+                  Members get the gift on their account straight away. Anyone else gets a
+                  code by email to redeem after they join.
+                </p>
+
+                <label className="mt-4 block text-sm font-medium text-gray-700">
+                  Message (optional)
+                  <textarea
+                    value={message}
+                    onChange={(event) => setMessage(event.target.value)}
+                    maxLength={GIFT_MESSAGE_MAX_LENGTH}
+                    rows={3}
+                    className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm"
+                  />
+                </label>
+
+                <button
+                  type="submit"
+                  className="mt-5 inline-flex items-center gap-2 rounded-lg bg-[#1f419a] px-4 py-2.5 text-sm font-semibold text-white shadow-sm hover:bg-[#17357f]"
+                >
+                  <Send className="h-4 w-4" />
+                  Continue to payment
+                </button>
+              </form>
+
+              <form
+                onSubmit={redeem}
+                className="h-fit rounded-xl bg-white p-6 shadow-sm ring-1 ring-black/5"
+              >
+                <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+                  <Ticket className="h-5 w-5 text-[#1f419a]" />
+                  Redeem a gift code
+                </h2>
+                <input
+                  value={code}
+                  onChange={(event) => setCode(event.target.value)}
+                  placeholder="GIFT-XXXX-XXXX-XXXX"
+                  className="mt-4 w-full rounded-lg border border-gray-200 px-3 py-2 font-mono text-sm uppercase"
+                />
+                <button
+                  type="submit"
+                  disabled={redeeming || !code.trim()}
+                  className="mt-4 inline-flex items-center gap-2 rounded-lg bg-[#1f419a] px-4 py-2.5 text-sm font-semibold text-white shadow-sm hover:bg-[#17357f] disabled:opacity-60"
+                >
+                  {redeeming && <Loader2 className="h-4 w-4 animate-spin" />}
+                  Redeem
+                </button>
+              </form>
+            </section>
+
+            {loading ? (
+              <div className="flex h-48 items-center justify-center rounded-xl bg-white shadow-sm ring-1 ring-black/5">
+                <Loader2 className="h-7 w-7 animate-spin text-[#1f419a]" />
+              </div>
+            ) : (
+              <section className="grid gap-6 xl:grid-cols-2">
+                {(["received", "sent"] as const).map((side) => {
+                  const gifts = data?.[side] || [];
+                  return (
+                    <div key={side} className="rounded-xl bg-white p-6 shadow-sm ring-1 ring-black/5">
+                      <h3 className="mb-4 flex items-center gap-2 text-lg font-semibold text-gray-900">
+                        {side === "received" ? (
+                          <Inbox className="h-5 w-5 text-gray-400" />
+                        ) : (
+                          <Send className="h-5 w-5 text-gray-400" />
+                        )}
+                        {side === "received" ? "Gifts for you" : "Gifts you sent"}
+                      </h3>
+                      <div className="overflow-hidden rounded-lg border border-gray-100">
+                        {gifts.length === 0 ? (
+                          <p className="p-5 text-sm text-gray-500">
+                            {side === "received" ? "No gifts yet." : "You haven't sent any gifts yet."}
+                          </p>
+                        ) : (
+                          gifts.map((gift) => renderGift(gift, side))
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </section>
+            )}
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+}
+
+export default function GiftsPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="flex min-h-screen items-center justify-center bg-gray-50">
+          <Loader2 className="h-8 w-8 animate-spin text-[#1f419a]" />
+        </div>
+      }
+    >
+      <GiftsContent />
+    </Suspense>
+  );
+}
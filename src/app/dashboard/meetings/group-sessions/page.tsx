@@ -0,0 +1,439 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  CalendarDays,
+  Check,
+  Coins,
+  Heart,
+  Loader2,
+  RefreshCw,
+  Users,
+  X,
+} from "lucide-react";
+import Sidebar from "@/components/dashboard/Sidebar";
+import NotificationBell from "@/components/NotificationBell";
+import { useToast } from "@/components/ToastProvider";
+import { supabase } from "@/lib/supabase";
+
+type GroupSessionSummary = {
+  meeting_id: string;
+  title: string;
+  description: string | null;
+  capacity: number;
+  gender_rule: "open" | "balanced";
+  registration_closes_at: string;
+  scheduled_at: string | null;
+  meeting_status: string | null;
+  host_name: string;
+  is_host: boolean;
+  seats_taken: number;
+  seats_by_gender: { female: number; male: number } | null;
+  waitlist_count: number;
+  registration_status: "registered" | "waitlisted" | null;
+  credit_cost: number;
+};
+
+type ResponseParticipant = {
+  user_id: string;
+  first_name: string;
+  profile_photo_url: string | null;
+  response: "yes" | "no" | null;
+};
+
+const formatDateTime = (value: string | null) =>
+  value
+    ? new Date(value).toLocaleString("en-US", {
+        weekday: "short",
+        month: "short",
+        day: "numeric",
+        hour: "numeric",
+        minute: "2-digit",
+        hour12: true,
+      })
+    : "TBD";
+
+async function authHeaders(): Promise<Record<string, string>> {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  return {
+    "Content-Type": "application/json",
+    Authorization: `Bearer ${session?.access_token || ""}`,
+  };
+}
+
+export default function GroupSessionsPage() {
+  const { toast } = useToast();
+  const [sessions, setSessions] = useState<GroupSessionSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyMeetingId, setBusyMeetingId] = useState<string | null>(null);
+  const [responseMeetingId, setResponseMeetingId] = useState<string | null>(null);
+  const [responseParticipants, setResponseParticipants] = useState<ResponseParticipant[]>([]);
+  const [responsesLoading, setResponsesLoading] = useState(false);
+  const [savingResponses, setSavingResponses] = useState(false);
+
+  const fetchSessions = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch("/api/meetings/group-sessions", {
+        headers: await authHeaders(),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        toast.error(data.message || data.error || "Failed to load group sessions.");
+        return;
+      }
+      setSessions(Array.isArray(data.sessions) ? data.sessions : []);
+    } catch (error) {
+      console.error("Error loading group sessions:", error);
+      toast.error("Failed to load group sessions.");
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    void fetchSessions();
+  }, [fetchSessions]);
+
+  const register = async (session: GroupSessionSummary) => {
+    setBusyMeetingId(session.meeting_id);
+    try {
+      const response = await fetch("/api/meetings/group-sessions", {
+        method: "POST",
+        headers: await authHeaders(),
+        body: JSON.stringify({ meeting_id: session.meeting_id }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        toast.error(data.message || data.error || "Unable to register.");
+        return;
+      }
+      toast.success(
+        data.registration?.status === "waitlisted"
+          ? "You're on the waitlist. We'll let you know if a seat opens."
+          : "You're in! See you at the session."
+      );
+      await fetchSessions();
+    } finally {
+      setBusyMeetingId(null);
+    }
+  };
+
+  const leave = async (session: GroupSessionSummary) => {
+    setBusyMeetingId(session.meeting_id);
+    try {
+      const response = await fetch(
+        `/api/meetings/group-sessions?meeting_id=${encodeURIComponent(session.meeting_id)}`,
+        { method: "DELETE", headers: await authHeaders() }
+      );
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        toast.error(data.message || data.error || "Unable to leave the session.");
+        return;
+      }
+      toast.success(
+        data.refunded ? "You've left the session and your credits were refunded." : "You've left the session."
+      );
+      await fetchSessions();
+    } finally {
+      setBusyMeetingId(null);
+    }
+  };
+
+  const openResponses = async (meetingId: string) => {
+    setResponseMeetingId(meetingId);
+    setResponsesLoading(true);
+    try {
+      const response = await fetch(
+        `/api/meetings/group-sessions/responses?meeting_id=${encodeURIComponent(meetingId)}`,
+        { headers: await authHeaders() }
+      );
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        toast.error(data.message || data.error || "Unable to load participants.");
+        setResponseMeetingId(null);
+        return;
+      }
+      setResponseParticipants(Array.isArray(data.participants) ? data.participants : []);
+    } finally {
+      setResponsesLoading(false);
+    }
+  };
+
+  const setResponse = (userId: string, value: "yes" | "no") => {
+    setResponseParticipants((current) =>
+      current.map((participant) =>
+        participant.user_id === userId ? { ...participant, response: value } : participant
+      )
+    );
+  };
+
+  const saveResponses = async () => {
+    if (!responseMeetingId) return;
+    const answered = responseParticipants.filter((participant) => participant.response);
+    if (answered.length === 0) {
+      toast.error("Choose yes or no for at least one participant.");
+      return;
+    }
+
+    setSavingResponses(true);
+    try {
+      const response = await fetch("/api/meetings/group-sessions/responses", {
+        method: "POST",
+        headers: await authHeaders(),
+        body: JSON.stringify({
+          meeting_id: responseMeetingId,
+          responses: answered.map((participant) => ({
+            target_id: participant.user_id,
+            response: participant.response,
+          })),
+        }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        toast.error(data.message || data.error || "Unable to save your responses.");
+        return;
+      }
+
+      const matchCount = Array.isArray(data.matches) ? data.matches.length : 0;
+      toast.success(
+        matchCount > 0
+          ? `It's a match with ${matchCount} ${matchCount === 1 ? "person" : "people"}! Sign your agreement to start messaging.`
+          : "Responses saved. We'll let you know about any mutual yeses."
+      );
+      setResponseMeetingId(null);
+    } finally {
+      setSavingResponses(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-white via-[#f8faff] to-[#eef2ff] text-gray-900">
+      <header className="sticky top-0 z-20 border-b border-black/5 bg-white/80 backdrop-blur">
+        <div className="mx-auto max-w-[1200px] px-4 py-3 flex items-center justify-between">
+          <div>
+            <h1 className="text-xl font-semibold tracking-tight text-[#1f419a]">Group Sessions</h1>
+            <p className="text-sm text-gray-600">Hosted speed-dating sessions over video</p>
+          </div>
+          <NotificationBell />
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-[1200px] px-4 py-6 grid grid-cols-1 lg:grid-cols-[280px_1fr] gap-6">
+        <Sidebar active="group-sessions" />
+
+        <section className="space-y-4">
+          <div className="flex justify-end">
+            <button
+              onClick={() => void fetchSessions()}
+              className="inline-flex items-center gap-2 rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm text-gray-700 hover:bg-gray-50"
+            >
+              <RefreshCw className="h-4 w-4" /> Refresh
+            </button>
+          </div>
+
+          {loading ? (
+            <div className="flex items-center justify-center rounded-2xl bg-white p-10 shadow-sm ring-1 ring-black/5">
+              <Loader2 className="h-6 w-6 animate-spin text-[#1f419a]" />
+            </div>
+          ) : sessions.length === 0 ? (
+            <div className="rounded-2xl bg-white p-10 text-center text-sm text-gray-600 shadow-sm ring-1 ring-black/5">
+              No group sessions are open right now. Check back soon.
+            </div>
+          ) : (
+            sessions.map((session) => {
+              const registrationOpen =
+                session.meeting_status === "confirmed" &&
+                new Date(session.registration_closes_at) > new Date();
+              const full = session.seats_taken >= session.capacity;
+              const busy = busyMeetingId === session.meeting_id;
+
+              return (
+                <article
+                  key={session.meeting_id}
+                  className="rounded-2xl bg-white p-4 shadow-sm ring-1 ring-black/5"
+                >
+                  <div className="flex flex-wrap items-start justify-between gap-3">
+                    <div>
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="inline-flex items-center gap-1 rounded-full bg-[#eef2ff] px-2.5 py-1 text-xs font-medium text-[#1f419a]">
+                          <Users className="h-3.5 w-3.5" />
+                          {session.gender_rule === "balanced" ? "Balanced" : "Open"}
+                        </span>
+                        {session.registration_status && (
+                          <span
+                            className={`inline-flex rounded-full px-2.5 py-1 text-xs font-medium ${
+                              session.registration_status === "registered"
+                                ? "bg-green-50 text-green-700"
+                                : "bg-amber-50 text-amber-700"
+                            }`}
+                          >
+                            {session.registration_status === "registered" ? "Registered" : "Waitlisted"}
+                          </span>
+                        )}
+                      </div>
+                      <h3 className="mt-2 text-base font-semibold text-gray-900">{session.title}</h3>
+                      <p className="mt-1 text-sm text-gray-600">Hosted by {session.host_name}</p>
+                      <p className="mt-1 inline-flex items-center gap-1 text-sm text-gray-600">
+                        <CalendarDays className="h-4 w-4" />
+                        {formatDateTime(session.scheduled_at)}
+                      </p>
+                      {session.description && (
+                        <p className="mt-2 max-w-xl text-sm text-gray-600">{session.description}</p>
+                      )}
+                    </div>
+
+                    <div className="grid min-w-[220px] grid-cols-3 gap-2 text-xs">
+                      <div className="rounded-lg bg-gray-50 px-2 py-2 text-center">
+                        <div className="text-gray-500">Seats</div>
+                        <div className="mt-1 font-semibold text-gray-900">
+                          {session.seats_taken}/{session.capacity}
+                        </div>
+                      </div>
+                      <div className="rounded-lg bg-gray-50 px-2 py-2 text-center">
+                        <div className="text-gray-500">Waitlist</div>
+                        <div className="mt-1 font-semibold text-gray-900">{session.waitlist_count}</div>
+                      </div>
+                      <div className="rounded-lg bg-[#eef7ff] px-2 py-2 text-center">
+                        <div className="inline-flex items-center gap-1 text-[#3a568f]">
+                          <Coins className="h-3 w-3" /> Cost
+                        </div>
+                        <div className="mt-1 font-semibold text-[#1f419a]">{session.credit_cost}</div>
+                      </div>
+                    </div>
+                  </div>
+
+                  {session.seats_by_gender && (
+                    <p className="mt-3 text-xs text-gray-500">
+                      Women {session.seats_by_gender.female}/{session.capacity / 2} · Men{" "}
+                      {session.seats_by_gender.male}/{session.capacity / 2}
+                    </p>
+                  )}
+
+                  <div className="mt-4 flex flex-wrap justify-end gap-2">
+                    {session.is_host ? (
+                      <span className="text-sm text-gray-500">You&apos;re hosting this session</span>
+                    ) : session.meeting_status === "completed" &&
+                      session.registration_status === "registered" ? (
+                      <button
+                        onClick={() => void openResponses(session.meeting_id)}
+                        className="inline-flex items-center gap-2 rounded-lg bg-[#1f419a] px-4 py-2 text-sm font-semibold text-white hover:bg-[#17357b]"
+                      >
+                        <Heart className="h-4 w-4" /> Share Your Picks
+                      </button>
+                    ) : session.registration_status ? (
+                      <button
+                        onClick={() => void leave(session)}
+                        disabled={busy}
+                        className="inline-flex items-center gap-2 rounded-lg border border-gray-200 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        {busy && <Loader2 className="h-4 w-4 animate-spin" />}
+                        {session.registration_status === "waitlisted" ? "Leave Waitlist" : "Leave Session"}
+                      </button>
+                    ) : registrationOpen ? (
+                      <button
+                        onClick={() => void register(session)}
+                        disabled={busy}
+                        className="inline-flex items-center gap-2 rounded-lg bg-[#1f419a] px-4 py-2 text-sm font-semibold text-white hover:bg-[#17357b] disabled:opacity-50"
+                      >
+                        {busy && <Loader2 className="h-4 w-4 animate-spin" />}
+                        {full ? "Join Waitlist" : `Register · ${session.credit_cost} credits`}
+                      </button>
+                    ) : (
+                      <span className="text-sm text-gray-500">Registration closed</span>
+                    )}
+                  </div>
+                </article>
+              );
+            })
+          )}
+        </section>
+      </main>
+
+      {responseMeetingId && (
+        <div className="fixed inset-0 z-[80] flex items-center justify-center bg-black/50 backdrop-blur-sm">
+          <div className="mx-4 flex max-h-[90vh] w-full max-w-md flex-col overflow-hidden rounded-2xl bg-white shadow-2xl">
+            <div className="flex items-center justify-between border-b border-gray-100 p-4">
+              <div>
+                <h3 className="font-bold text-gray-900">Who would you like to see again?</h3>
+                <p className="text-xs text-gray-500">
+                  Only mutual yeses become matches. Nobody sees a no.
+                </p>
+              </div>
+              <button
+                onClick={() => setResponseMeetingId(null)}
+                disabled={savingResponses}
+                className="rounded-lg p-1.5 hover:bg-gray-100"
+              >
+                <X className="h-5 w-5 text-gray-400" />
+              </button>
+            </div>
+
+            <div className="flex-1 space-y-2 overflow-y-auto p-4">
+              {responsesLoading ? (
+                <div className="flex items-center justify-center py-8">
+                  <Loader2 className="h-5 w-5 animate-spin text-[#1f419a]" />
+                </div>
+              ) : responseParticipants.length === 0 ? (
+                <p className="py-6 text-center text-sm text-gray-500">
+                  There&apos;s nobody to respond to for this session.
+                </p>
+              ) : (
+                responseParticipants.map((participant) => (
+                  <div
+                    key={participant.user_id}
+                    className="flex items-center justify-between rounded-xl border border-gray-200 px-3 py-2.5"
+                  >
+                    <span className="text-sm font-medium text-gray-800">{participant.first_name}</span>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => setResponse(participant.user_id, "yes")}
+                        className={`inline-flex items-center gap-1 rounded-lg px-3 py-1.5 text-xs font-semibold ${
+                          participant.response === "yes"
+                            ? "bg-green-600 text-white"
+                            : "border border-gray-200 text-gray-700 hover:bg-gray-50"
+                        }`}
+                      >
+                        <Check className="h-3.5 w-3.5" /> Yes
+                      </button>
+                      <button
+                        onClick={() => setResponse(participant.user_id, "no")}
+                        className={`inline-flex items-center gap-1 rounded-lg px-3 py-1.5 text-xs font-semibold ${
+                          participant.response === "no"
+                            ? "bg-gray-700 text-white"
+                            : "border border-gray-200 text-gray-700 hover:bg-gray-50"
+                        }`}
+                      >
+                        <X className="h-3.5 w-3.5" /> No
+                      </button>
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+
+            <div className="flex gap-3 border-t border-gray-100 p-4">
+              <button
+                onClick={() => setResponseMeetingId(null)}
+                disabled={savingResponses}
+                className="flex-1 rounded-xl border border-gray-200 py-2.5 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                Later
+              </button>
+              <button
+                onClick={() => void saveResponses()}
+                disabled={savingResponses || responsesLoading}
+                className="flex flex-1 items-center justify-center gap-2 rounded-xl bg-gradient-to-r from-[#1f419a] to-[#2a44a3] py-2.5 text-sm font-semibold text-white shadow-md disabled:opacity-50"
+              >
+                {savingResponses && <Loader2 className="h-4 w-4 animate-spin" />}
+                Save Responses
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
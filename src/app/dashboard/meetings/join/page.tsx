@@ -4,8 +4,8 @@
  * MeetingJoinPage - Pre-meeting lobby / redirect page
  *
  * Shows meeting details and a countdown, then redirects the participant
- * to the video call (Zoom or fallback). Also displays meeting rules
- * and etiquette reminders.
+ * to the video call (Zoom, the built-in room, or a development fallback).
+ * Also displays meeting rules and etiquette reminders.
  *
  * URL: /dashboard/meetings/join?id=meeting_id
  */
@@ -39,6 +39,7 @@ type MeetingInfo = {
   video_link: string | null;
   video_password: string | null;
   zoom_meeting_id: string | null;
+  video_provider?: "zoom" | "webrtc";
   scheduled_at: string;
   is_fallback: boolean;
 };
@@ -247,9 +248,13 @@ export default function MeetingJoinPage() {
     }
   };
 
-  /** Open the video call */
+  /** Open the video call; the built-in room opens in this tab */
   const joinMeeting = () => {
     if (!meetingInfo?.video_link) return;
+    if (meetingInfo.video_provider === "webrtc") {
+      router.push(`/dashboard/meetings/room/${meetingInfo.meeting_id}`);
+      return;
+    }
     window.open(meetingInfo.video_link, "_blank", "noopener,noreferrer");
   };
 
@@ -8,7 +8,7 @@
  * - Tab-based filtering (Upcoming, Pending, Past, All)
  * - Cleaner card layouts with brand-consistent colors
  * - Global toast notifications instead of inline banners
- * - All business logic preserved (accept, decline, cancel, finalize)
+ * - All business logic preserved (accept, decline, cancel, reschedule, finalize)
  */
 
 import Image from "next/image";
@@ -29,9 +29,11 @@ import {
   Loader2,
   ArrowRight,
   Eye,
+  CalendarClock,
 } from "lucide-react";
 import Sidebar from "@/components/dashboard/Sidebar";
 import CancellationConfirmModal from "@/components/CancellationConfirmModal";
+import RescheduleProposalModal from "@/components/RescheduleProposalModal";
 import NotificationBell from "@/components/NotificationBell";
 import ProfileDetailModal from "@/components/ProfileDetailModal";
 import { useToast } from "@/components/ToastProvider";
@@ -60,6 +62,15 @@ type Meeting = {
   created_at: string;
   host_profile?: { first_name: string | null; profile_photo_url: string | null };
   participants?: MeetingParticipant[];
+  reschedule_proposal?: RescheduleProposal | null;
+};
+
+type RescheduleProposal = {
+  id: string;
+  proposed_by: string;
+  responder_id: string;
+  proposed_slots: { slot_id: string; scheduled_at: string }[];
+  message: string | null;
 };
 
 type MeetingParticipant = {
@@ -282,6 +293,13 @@ export default function MeetingsPage() {
     creditRefunded: false,
   });
 
+  // Reschedule proposal modal
+  const [rescheduleModal, setRescheduleModal] = useState<{
+    isOpen: boolean;
+    meetingId: string;
+    partnerName: string;
+  }>({ isOpen: false, meetingId: "", partnerName: "" });
+
   // Finalization modal
   const [finalizeModal, setFinalizeModal] = useState<{ isOpen: boolean; meetingId: string }>({
     isOpen: false,
@@ -471,7 +489,7 @@ export default function MeetingsPage() {
         data.starter_trial_consumed
           ? "Meeting accepted. Your free starter slot is now used, and MatchIndeed admin will review this booking next."
           : data.requires_admin_approval
-            ? "Meeting accepted. Waiting for admin approval before the Zoom meeting is created."
+            ? "Meeting accepted. Waiting for admin approval before the video meeting is created."
             : "Meeting request accepted!"
       );
     } catch {
@@ -606,6 +624,81 @@ export default function MeetingsPage() {
     );
   };
 
+  // ---------------------------------------------------------------
+  // Reschedule
+  // ---------------------------------------------------------------
+  const handleRescheduleProposed = (proposal: RescheduleProposal) => {
+    const meetingId = rescheduleModal.meetingId;
+    setRescheduleModal({ isOpen: false, meetingId: "", partnerName: "" });
+    setMeetings((prev) =>
+      prev.map((m) =>
+        m.id === meetingId
+          ? { ...m, workflow_state: "reschedule_proposed", reschedule_proposal: proposal }
+          : m
+      )
+    );
+    toast.success("New times sent. Your meeting keeps its current time until they answer.");
+  };
+
+  const respondToReschedule = async (
+    meeting: Meeting,
+    action: "accept" | "decline" | "withdraw",
+    slot?: { slot_id: string; scheduled_at: string }
+  ) => {
+    const proposal = meeting.reschedule_proposal;
+    if (!proposal) return;
+    setProcessing(meeting.id);
+
+    try {
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+
+      const response = await fetch("/api/meetings/reschedule", {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${session?.access_token || ""}`,
+        },
+        body: JSON.stringify({
+          proposal_id: proposal.id,
+          action,
+          slot_id: slot?.slot_id,
+        }),
+      });
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        toast.error(data.message || data.error || "Unable to update the reschedule request.");
+        return;
+      }
+
+      setMeetings((prev) =>
+        prev.map((m) =>
+          m.id === meeting.id
+            ? {
+                ...m,
+                workflow_state: "confirmed",
+                scheduled_at: action === "accept" && slot ? slot.scheduled_at : m.scheduled_at,
+                reschedule_proposal: null,
+              }
+            : m
+        )
+      );
+      toast.success(
+        action === "accept"
+          ? `Meeting moved to ${formatStatusDateTime(slot?.scheduled_at || meeting.scheduled_at)}.`
+          : action === "decline"
+            ? "You kept the original time."
+            : "Reschedule request withdrawn."
+      );
+    } catch {
+      toast.error("Unable to update the reschedule request.");
+    } finally {
+      setProcessing(null);
+    }
+  };
+
   // ---------------------------------------------------------------
   // Finalize
   // ---------------------------------------------------------------
@@ -786,6 +879,7 @@ export default function MeetingsPage() {
                   Boolean(meeting.participants?.length) &&
                   meeting.participants?.every((participant) => participant.response === "accepted");
                 const sc = statusConfig[meeting.status] || statusConfig.completed;
+                const rescheduleProposal = meeting.reschedule_proposal || null;
 
                 return (
                   <div
@@ -916,10 +1010,62 @@ export default function MeetingsPage() {
                             </div>
                           )}
 
+                          {rescheduleProposal && (
+                            <div className="mt-2.5 rounded-2xl border border-[#1f419a]/10 bg-[#1f419a]/[0.035] px-3 py-2.5">
+                              <p className="flex items-center gap-1.5 text-[12px] font-semibold leading-5 text-[#1f419a]">
+                                <CalendarClock className="h-3.5 w-3.5" />
+                                {rescheduleProposal.responder_id === userId
+                                  ? `${requesterName} asked to move this meeting`
+                                  : `Waiting for ${requesterName} to pick a new time`}
+                              </p>
+                              {rescheduleProposal.message && (
+                                <p className="mt-1 text-[12px] italic text-gray-600">
+                                  &ldquo;{rescheduleProposal.message}&rdquo;
+                                </p>
+                              )}
+                              <div className="mt-2 flex flex-wrap gap-1.5">
+                                {rescheduleProposal.proposed_slots.map((slot) =>
+                                  rescheduleProposal.responder_id === userId ? (
+                                    <button
+                                      key={slot.slot_id}
+                                      onClick={() => respondToReschedule(meeting, "accept", slot)}
+                                      disabled={processing === meeting.id}
+                                      className="inline-flex items-center gap-1 rounded-xl bg-white px-2.5 py-1.5 text-[12px] font-medium text-[#1f419a] ring-1 ring-[#1f419a]/20 transition-colors hover:bg-[#1f419a]/5 disabled:opacity-50"
+                                    >
+                                      <Check className="h-3 w-3" />
+                                      {formatStatusDateTime(slot.scheduled_at)}
+                                    </button>
+                                  ) : (
+                                    <span
+                                      key={slot.slot_id}
+                                      className="rounded-xl bg-white px-2.5 py-1.5 text-[12px] text-gray-600 ring-1 ring-gray-200"
+                                    >
+                                      {formatStatusDateTime(slot.scheduled_at)}
+                                    </span>
+                                  )
+                                )}
+                              </div>
+                              <button
+                                onClick={() =>
+                                  respondToReschedule(
+                                    meeting,
+                                    rescheduleProposal.responder_id === userId ? "decline" : "withdraw"
+                                  )
+                                }
+                                disabled={processing === meeting.id}
+                                className="mt-2 text-[12px] font-medium text-gray-500 hover:text-gray-700 hover:underline disabled:opacity-50"
+                              >
+                                {rescheduleProposal.responder_id === userId
+                                  ? "Keep the original time"
+                                  : "Withdraw request"}
+                              </button>
+                            </div>
+                          )}
+
                           {awaitingAdminApproval && (
                             <div className="mt-2.5 rounded-2xl border border-[#1f419a]/10 bg-[#1f419a]/[0.035] px-3 py-2.5">
                               <p className="text-[12px] font-medium leading-5 text-[#1f419a]">
-                                Both parties accepted this meeting. MatchIndeed admin will approve it and create the Zoom link automatically.
+                                Both parties accepted this meeting. MatchIndeed admin will approve it and create the video link automatically.
                               </p>
                             </div>
                           )}
@@ -938,6 +1084,21 @@ export default function MeetingsPage() {
                                   <Video className="h-3.5 w-3.5" />
                                   Join
                                 </Link>
+                                {!rescheduleProposal && (
+                                  <button
+                                    onClick={() =>
+                                      setRescheduleModal({
+                                        isOpen: true,
+                                        meetingId: meeting.id,
+                                        partnerName: requesterName,
+                                      })
+                                    }
+                                    className="inline-flex flex-1 items-center justify-center gap-1.5 rounded-2xl border border-[#1f419a]/20 bg-white px-4 py-3 text-sm font-medium text-[#1f419a] transition-colors hover:bg-[#1f419a]/5 sm:flex-1 sm:rounded-xl sm:py-2.5 lg:w-auto lg:flex-none lg:min-w-[144px]"
+                                  >
+                                    <CalendarClock className="h-3 w-3" />
+                                    Reschedule
+                                  </button>
+                                )}
                                 <button
                                   onClick={() => openCancelModal(meeting)}
                                   className="inline-flex flex-1 items-center justify-center gap-1.5 rounded-2xl border border-red-200 bg-red-50/60 px-4 py-3 text-sm font-medium text-red-600 transition-colors hover:bg-red-50 sm:flex-1 sm:rounded-xl sm:py-2.5 lg:w-auto lg:flex-none lg:min-w-[144px]"
@@ -1083,6 +1244,15 @@ export default function MeetingsPage() {
         onCanceled={handleCanceled}
       />
 
+      {/* Reschedule proposal modal */}
+      <RescheduleProposalModal
+        isOpen={rescheduleModal.isOpen}
+        onClose={() => setRescheduleModal({ isOpen: false, meetingId: "", partnerName: "" })}
+        meetingId={rescheduleModal.meetingId}
+        partnerName={rescheduleModal.partnerName}
+        onProposed={handleRescheduleProposed}
+      />
+
       {/* Host finalization modal */}
       {finalizeModal.isOpen && (
         <div className="fixed inset-0 z-[80] flex items-center justify-center bg-black/50 backdrop-blur-sm">
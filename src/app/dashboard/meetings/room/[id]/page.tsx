@@ -0,0 +1,348 @@
+"use client";
+
+/**
+ * MeetingRoomPage - Built-in MatchIndeed video room
+ *
+ * Used when a meeting's video provider is "webrtc". Joining asks the server
+ * for a one-time join token, turns on the camera and microphone, records
+ * the join, then connects to the other participants over Supabase realtime
+ * signalling. Heartbeats keep the attendance record current so the host's
+ * grace period for dropped connections can be measured at finalization.
+ *
+ * URL: /dashboard/meetings/room/[id]
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import Link from "next/link";
+import { supabase } from "@/lib/supabase";
+import {
+  joinWebRtcRoom,
+  type WebRtcRoomConnection,
+  type WebRtcRoomPeer,
+} from "@/lib/video/webrtc-room";
+import {
+  AlertTriangle,
+  ArrowLeft,
+  Loader2,
+  Mic,
+  MicOff,
+  PhoneOff,
+  Video,
+  VideoOff,
+} from "lucide-react";
+
+type RoomPhase = "idle" | "joining" | "in_room" | "left";
+
+type VideoRoomAccess = {
+  token: string;
+  channel: string;
+  ice_servers: RTCIceServer[];
+  heartbeat_interval_seconds: number;
+};
+
+function RoomVideo({
+  stream,
+  label,
+  muted = false,
+}: {
+  stream: MediaStream | null;
+  label: string;
+  muted?: boolean;
+}) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    if (videoRef.current) {
+      videoRef.current.srcObject = stream;
+    }
+  }, [stream]);
+
+  return (
+    <div className="relative aspect-video overflow-hidden rounded-2xl bg-slate-800">
+      {stream ? (
+        <video
+          ref={videoRef}
+          autoPlay
+          playsInline
+          muted={muted}
+          className="h-full w-full object-cover"
+        />
+      ) : (
+        <div className="flex h-full items-center justify-center text-slate-400">
+          <Loader2 className="h-6 w-6 animate-spin" />
+        </div>
+      )}
+      <span className="absolute bottom-2 left-2 rounded-lg bg-black/60 px-2 py-1 text-xs font-medium text-white">
+        {label}
+      </span>
+    </div>
+  );
+}
+
+export default function MeetingRoomPage() {
+  const params = useParams();
+  const router = useRouter();
+  const meetingId = params.id as string;
+
+  const [phase, setPhase] = useState<RoomPhase>("idle");
+  const [error, setError] = useState<string | null>(null);
+  const [peers, setPeers] = useState<WebRtcRoomPeer[]>([]);
+  const [localStream, setLocalStream] = useState<MediaStream | null>(null);
+  const [micOn, setMicOn] = useState(true);
+  const [cameraOn, setCameraOn] = useState(true);
+  const [signallingFailed, setSignallingFailed] = useState(false);
+
+  const connectionRef = useRef<WebRtcRoomConnection | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const heartbeatRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const attendanceRef = useRef<{ token: string; accessToken: string } | null>(null);
+
+  const sendAttendance = useCallback(
+    (event: "join" | "heartbeat" | "leave", keepalive = false) => {
+      const attendance = attendanceRef.current;
+      if (!attendance) return Promise.resolve(null);
+
+      return fetch("/api/meetings/video-room/attendance", {
+        method: "POST",
+        keepalive,
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${attendance.accessToken}`,
+        },
+        body: JSON.stringify({ meeting_id: meetingId, token: attendance.token, event }),
+      });
+    },
+    [meetingId]
+  );
+
+  /** Tear everything down; safe to call more than once. */
+  const leaveRoom = useCallback(
+    (keepalive = false) => {
+      if (heartbeatRef.current) {
+        clearInterval(heartbeatRef.current);
+        heartbeatRef.current = null;
+      }
+      connectionRef.current?.leave();
+      connectionRef.current = null;
+      streamRef.current?.getTracks().forEach((track) => track.stop());
+      streamRef.current = null;
+      if (attendanceRef.current) {
+        void sendAttendance("leave", keepalive)?.catch(() => undefined);
+        attendanceRef.current = null;
+      }
+    },
+    [sendAttendance]
+  );
+
+  useEffect(() => {
+    const handlePageHide = () => leaveRoom(true);
+    window.addEventListener("pagehide", handlePageHide);
+    return () => {
+      window.removeEventListener("pagehide", handlePageHide);
+      leaveRoom(true);
+    };
+  }, [leaveRoom]);
+
+  const joinRoom = async () => {
+    setPhase("joining");
+    setError(null);
+
+    try {
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+      if (!session) {
+        router.push("/login");
+        return;
+      }
+
+      const accessRes = await fetch("/api/meetings/video-room", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({ meeting_id: meetingId }),
+      });
+      const accessData = await accessRes.json();
+      if (!accessRes.ok) {
+        setError(accessData.message || accessData.error || "Unable to open the video room.");
+        setPhase("idle");
+        return;
+      }
+      const access = accessData as VideoRoomAccess;
+
+      let stream: MediaStream;
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: true, audio: true });
+      } catch {
+        setError("Allow camera and microphone access in your browser to join the meeting.");
+        setPhase("idle");
+        return;
+      }
+      streamRef.current = stream;
+      setLocalStream(stream);
+      setMicOn(true);
+      setCameraOn(true);
+
+      attendanceRef.current = { token: access.token, accessToken: session.access_token };
+      const joinRes = await sendAttendance("join");
+      if (!joinRes?.ok) {
+        const joinData = await joinRes?.json().catch(() => null);
+        leaveRoom();
+        setError(joinData?.message || "Unable to join the video room. Please try again.");
+        setPhase("idle");
+        return;
+      }
+
+      const { data: profile } = await supabase
+        .from("user_profiles")
+        .select("first_name")
+        .eq("user_id", session.user.id)
+        .maybeSingle();
+
+      connectionRef.current = joinWebRtcRoom({
+        supabase,
+        channelName: access.channel,
+        userId: session.user.id,
+        name: profile?.first_name || "Participant",
+        localStream: stream,
+        iceServers: access.ice_servers,
+        onPeersChange: setPeers,
+        onStatusChange: (status) => setSignallingFailed(status === "failed"),
+      });
+
+      heartbeatRef.current = setInterval(() => {
+        void sendAttendance("heartbeat")?.catch(() => undefined);
+      }, access.heartbeat_interval_seconds * 1000);
+
+      setPhase("in_room");
+    } catch (err) {
+      console.error("Error joining video room:", err);
+      leaveRoom();
+      setError("Unable to join the video room. Please try again.");
+      setPhase("idle");
+    }
+  };
+
+  const toggleMic = () => {
+    const next = !micOn;
+    streamRef.current?.getAudioTracks().forEach((track) => (track.enabled = next));
+    setMicOn(next);
+  };
+
+  const toggleCamera = () => {
+    const next = !cameraOn;
+    streamRef.current?.getVideoTracks().forEach((track) => (track.enabled = next));
+    setCameraOn(next);
+  };
+
+  const hangUp = () => {
+    leaveRoom();
+    setPeers([]);
+    setLocalStream(null);
+    setPhase("left");
+  };
+
+  // ---------------------------------------------------------------
+  // RENDER
+  // ---------------------------------------------------------------
+
+  if (phase !== "in_room") {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <div className="bg-white rounded-2xl p-8 shadow-sm border border-gray-100 text-center max-w-md w-full">
+          <Video className="h-12 w-12 text-[#1f419a] mx-auto mb-3" />
+          <h2 className="text-lg font-semibold text-gray-900 mb-2">
+            {phase === "left" ? "You left the meeting" : "MatchIndeed Video Room"}
+          </h2>
+          <p className="text-gray-500 mb-4 text-sm">
+            {phase === "left"
+              ? "You can rejoin while the meeting is still running."
+              : "Your camera and microphone turn on when you join. Keep this tab open for the whole meeting."}
+          </p>
+
+          {error && (
+            <div className="mb-4 flex items-start gap-2 rounded-xl bg-amber-50 p-3 text-left text-sm text-amber-800">
+              <AlertTriangle className="mt-0.5 h-4 w-4 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          <button
+            onClick={joinRoom}
+            disabled={phase === "joining"}
+            className="flex w-full items-center justify-center gap-2 rounded-2xl bg-gradient-to-r from-[#1f419a] to-[#2a44a3] py-3 text-sm font-semibold text-white shadow-md transition hover:opacity-95 disabled:opacity-60"
+          >
+            {phase === "joining" ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Video className="h-4 w-4" />
+            )}
+            {phase === "left" ? "Rejoin Meeting" : "Join Meeting"}
+          </button>
+
+          <Link
+            href={`/dashboard/meetings/join?id=${meetingId}`}
+            className="mt-4 inline-flex items-center gap-2 text-sm text-[#1f419a] hover:underline"
+          >
+            <ArrowLeft className="h-4 w-4" /> Back to meeting details
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex min-h-screen flex-col bg-slate-900">
+      {signallingFailed && (
+        <div className="bg-amber-500 px-4 py-2 text-center text-sm font-medium text-white">
+          Connection to the room was interrupted. Leave and rejoin if video does not recover.
+        </div>
+      )}
+
+      <div className="flex-1 p-3 sm:p-6">
+        <div
+          className={`mx-auto grid max-w-6xl gap-3 ${
+            peers.length === 0 ? "grid-cols-1" : peers.length < 4 ? "sm:grid-cols-2" : "grid-cols-2 lg:grid-cols-3"
+          }`}
+        >
+          <RoomVideo stream={localStream} label="You" muted />
+          {peers.map((peer) => (
+            <RoomVideo key={peer.peerId} stream={peer.stream} label={peer.name} />
+          ))}
+        </div>
+        {peers.length === 0 && (
+          <p className="mt-4 text-center text-sm text-slate-400">
+            Waiting for the other participants to join...
+          </p>
+        )}
+      </div>
+
+      <div className="flex items-center justify-center gap-3 border-t border-slate-800 bg-slate-900/95 p-4">
+        <button
+          onClick={toggleMic}
+          aria-label={micOn ? "Mute microphone" : "Unmute microphone"}
+          className={`rounded-full p-3 transition ${micOn ? "bg-slate-700 text-white hover:bg-slate-600" : "bg-red-500 text-white"}`}
+        >
+          {micOn ? <Mic className="h-5 w-5" /> : <MicOff className="h-5 w-5" />}
+        </button>
+        <button
+          onClick={toggleCamera}
+          aria-label={cameraOn ? "Turn camera off" : "Turn camera on"}
+          className={`rounded-full p-3 transition ${cameraOn ? "bg-slate-700 text-white hover:bg-slate-600" : "bg-red-500 text-white"}`}
+        >
+          {cameraOn ? <Video className="h-5 w-5" /> : <VideoOff className="h-5 w-5" />}
+        </button>
+        <button
+          onClick={hangUp}
+          className="flex items-center gap-2 rounded-full bg-red-600 px-5 py-3 text-sm font-semibold text-white transition hover:bg-red-700"
+        >
+          <PhoneOff className="h-5 w-5" />
+          Leave
+        </button>
+      </div>
+    </div>
+  );
+}
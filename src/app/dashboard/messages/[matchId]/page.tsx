@@ -7,25 +7,45 @@
  * - Real-time messaging via Supabase Realtime (postgres_changes)
  * - Optimistic send + rollback on failure
  * - Load-older-messages pagination
- * - Read receipts (double-tick)
+ * - Sent / delivered / read receipts
  * - Typing indicator (broadcast)
- * - Partner online / offline presence
+ * - Partner online / last-seen presence
+ * - Typing, presence and receipts by polling /api/messages/activity while
+ *   realtime is in backoff
+ * - Safety warnings on messages the message screen blurred
+ * - Photos, voice notes and in-chat video-date proposals
+ * - Replies, reactions, edits, unsend and delete-for-me
  * - Date separators between message groups
  * - Brand-consistent colours (#1f419a)
  */
 
 import { useEffect, useState, useRef, useCallback } from "react";
+import type { RealtimeChannel } from "@supabase/supabase-js";
 import { useRouter, useParams } from "next/navigation";
 import Image from "next/image";
 import Link from "next/link";
 import { supabase } from "@/lib/supabase";
 import { useToast } from "@/components/ToastProvider";
-import { getActiveStatus } from "@/lib/active-status";
+import ChatAttachmentBar from "@/components/messages/ChatAttachmentBar";
+import MessageActions from "@/components/messages/MessageActions";
+import RichMessageContent from "@/components/messages/RichMessageContent";
+import { getActiveStatus, getLastSeenLabel } from "@/lib/active-status";
+import {
+  MESSAGE_SAFETY_CATEGORY_LABELS,
+  type MessageSafetyCategory,
+} from "@/lib/message-safety/screening";
+import {
+  MESSAGE_REACTIONS,
+  messageReceiptState,
+  type MessageReactionSummary,
+  type ProposedMeeting,
+} from "@/lib/messages/message-types";
 import {
   isTransientRequestError,
   shouldSkipBackgroundRequest,
 } from "@/lib/request-errors";
 import {
+  getRealtimeBackoffRemainingMs,
   isRealtimeFailureStatus,
   noteRealtimeFailure,
   noteRealtimeSubscribed,
@@ -40,7 +60,11 @@ import {
   Check,
   ChevronUp,
   Heart,
+  Pencil,
+  Reply,
   Shield,
+  ShieldAlert,
+  X,
 } from "lucide-react";
 
 // ---------------------------------------------------------------
@@ -51,10 +75,30 @@ type Message = {
   sender_id: string;
   content: string;
   message_type: string;
+  delivered_at?: string | null;
   read_at: string | null;
   created_at: string;
+  safety_status?: "clear" | "blurred" | "held" | "removed";
+  safety_categories?: MessageSafetyCategory[];
+  media_url?: string | null;
+  media_duration_seconds?: number | null;
+  meeting?: ProposedMeeting | null;
+  reply_to_id?: string | null;
+  reply_to?: { id: string; sender_id: string; message_type: string; preview: string } | null;
+  edited_at?: string | null;
+  deleted_at?: string | null;
+  reactions?: MessageReactionSummary | null;
+};
+
+type ChatActivity = {
+  partner: { typing: boolean; online: boolean; last_active_at: string | null };
+  last_message_at: string | null;
+  receipts: { id: string; delivered_at: string | null; read_at: string | null }[];
 };
 
+/** How often the chat polls for typing, presence and receipts without realtime. */
+const ACTIVITY_POLL_MS = 4000;
+
 type PartnerInfo = {
   id: string;
   name: string;
@@ -114,6 +158,11 @@ export default function ChatPage() {
   const [error, setError] = useState<string | null>(null);
   const [partnerTyping, setPartnerTyping] = useState(false);
   const [partnerOnline, setPartnerOnline] = useState(false);
+  const [realtimeConnected, setRealtimeConnected] = useState(false);
+  const [realtimeAttempt, setRealtimeAttempt] = useState(0);
+  const [revealedIds, setRevealedIds] = useState<string[]>([]);
+  const [replyTo, setReplyTo] = useState<Message | null>(null);
+  const [editing, setEditing] = useState<Message | null>(null);
   const { toast } = useToast();
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -122,6 +171,7 @@ export default function ChatPage() {
   const shouldScrollRef = useRef(true);
   const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const lastTypingBroadcast = useRef<number>(0);
+  const channelRef = useRef<RealtimeChannel | null>(null);
 
   // ---------------------------------------------------------------
   // Fetch
@@ -218,13 +268,39 @@ export default function ChatPage() {
     return () => clearInterval(interval);
   }, [fetchMessages]);
 
+  // Photos and proposals arrive over realtime without their signed URL or
+  // meeting; load those through the API.
+  const fetchMessage = useCallback(async (messageId: string) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) return;
+    const res = await fetch(`/api/messages?match_id=${matchId}&message_id=${messageId}`, {
+      headers: { Authorization: `Bearer ${session.access_token}` },
+    });
+    if (!res.ok) return;
+    const data = await res.json();
+    const full = (data.messages || [])[0] as Message | undefined;
+    if (full) setMessages((prev) => prev.map((m) => (m.id === full.id ? full : m)));
+  }, [matchId]);
+
+  const addOrReplaceMessage = useCallback((message: Message) => {
+    setMessages((prev) =>
+      prev.some((m) => m.id === message.id)
+        ? prev.map((m) => (m.id === message.id ? message : m))
+        : [...prev, message]
+    );
+  }, []);
+
+  const updateMessage = useCallback((update: Partial<Message> & { id: string }) => {
+    setMessages((prev) => prev.map((m) => (m.id === update.id ? { ...m, ...update } : m)));
+  }, []);
+
   // Auto-scroll on new messages
   useEffect(() => {
     if (shouldScrollRef.current && messagesEndRef.current) messagesEndRef.current.scrollIntoView({ behavior: "smooth" });
     shouldScrollRef.current = true;
   }, [messages]);
 
-  // Realtime: messages, read receipts, typing, presence
+  // Realtime: messages, receipts, typing, presence
   useEffect(() => {
     if (!currentUserId) return;
 
@@ -237,6 +313,7 @@ export default function ChatPage() {
       .on("postgres_changes", { event: "INSERT", schema: "public", table: "messages", filter: `match_id=eq.${matchId}` }, (payload) => {
         const n = payload.new as Message;
         setMessages((prev) => (prev.some((m) => m.id === n.id) ? prev : [...prev, n]));
+        if (n.message_type !== "text" || n.reply_to_id) fetchMessage(n.id);
         if (n.sender_id !== currentUserId) {
           supabase.auth.getSession().then(({ data: { session } }) => {
             if (session) fetch("/api/messages", { method: "PATCH", headers: { "Content-Type": "application/json", Authorization: `Bearer ${session.access_token}` }, body: JSON.stringify({ match_id: matchId }) });
@@ -245,7 +322,16 @@ export default function ChatPage() {
       })
       .on("postgres_changes", { event: "UPDATE", schema: "public", table: "messages", filter: `match_id=eq.${matchId}` }, (payload) => {
         const u = payload.new as Message;
-        setMessages((prev) => prev.map((m) => (m.id === u.id ? u : m)));
+        const hidden = u.sender_id !== currentUserId && (u.safety_status === "held" || u.safety_status === "removed");
+        setMessages((prev) => {
+          if (hidden) return prev.filter((m) => m.id !== u.id);
+          // A held message a moderator approved arrives as an update.
+          if (!prev.some((m) => m.id === u.id)) {
+            return [...prev, u].sort((a, b) => a.created_at.localeCompare(b.created_at));
+          }
+          // Unsent messages drop their attachment for both members.
+          return prev.map((m) => (m.id === u.id ? { ...m, ...u, ...(u.deleted_at ? { media_url: null } : {}) } : m));
+        });
       })
       .on("broadcast", { event: "typing" }, (payload) => {
         if (payload.payload?.user_id && payload.payload.user_id !== currentUserId) {
@@ -261,52 +347,189 @@ export default function ChatPage() {
         setPartnerOnline(Object.keys(channel.presenceState()).some((k) => k !== currentUserId));
       })
       .on("presence", { event: "join" }, ({ key }) => { if (key !== currentUserId) setPartnerOnline(true); })
-      .on("presence", { event: "leave" }, ({ key }) => { if (key !== currentUserId) setPartnerOnline(false); })
+      .on("presence", { event: "leave" }, ({ key }) => {
+        if (key === currentUserId) return;
+        setPartnerOnline(false);
+        setPartner((prev) => (prev ? { ...prev, last_active_at: new Date().toISOString() } : prev));
+      })
       .subscribe(async (status) => {
         if (status === "SUBSCRIBED") {
           noteRealtimeSubscribed();
+          channelRef.current = channel;
+          setRealtimeConnected(true);
           await channel.track({ online_at: new Date().toISOString() });
           return;
         }
 
         if (isRealtimeFailureStatus(status) && noteRealtimeFailure(status)) {
+          channelRef.current = null;
+          setRealtimeConnected(false);
           removeRealtimeChannelSafely(supabase, channel);
         }
       });
 
     return () => {
       if (typingTimeoutRef.current) clearTimeout(typingTimeoutRef.current);
+      channelRef.current = null;
+      setRealtimeConnected(false);
       removeRealtimeChannelSafely(supabase, channel);
     };
-  }, [matchId, currentUserId]);
+  }, [matchId, currentUserId, fetchMessage, realtimeAttempt]);
+
+  // Polling fallback while realtime is unavailable: typing, presence and
+  // receipts from /api/messages/activity, plus an early refetch when a new
+  // message has arrived. Once the backoff ends, realtime is tried again.
+  const newestMessageAt = messages.length > 0 ? messages[messages.length - 1].created_at : null;
+
+  useEffect(() => {
+    if (!currentUserId || realtimeConnected) return;
+
+    const poll = async () => {
+      if (shouldSkipBackgroundRequest()) return;
+
+      if (!channelRef.current && shouldUseRealtime() && getRealtimeBackoffRemainingMs() === 0) {
+        setRealtimeAttempt((attempt) => attempt + 1);
+      }
+
+      try {
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return;
+        const res = await fetch(`/api/messages/activity?match_id=${matchId}`, {
+          headers: { Authorization: `Bearer ${session.access_token}` },
+        });
+        if (!res.ok) return;
+
+        const activity = (await res.json()) as ChatActivity;
+        setPartnerTyping(activity.partner.typing);
+        setPartnerOnline(activity.partner.online);
+        setPartner((prev) => (prev ? { ...prev, last_active_at: activity.partner.last_active_at } : prev));
+
+        const receipts = new Map(activity.receipts.map((receipt) => [receipt.id, receipt]));
+        setMessages((prev) =>
+          prev.map((m) => {
+            const receipt = receipts.get(m.id);
+            return receipt && (receipt.read_at !== m.read_at || receipt.delivered_at !== m.delivered_at)
+              ? { ...m, read_at: receipt.read_at, delivered_at: receipt.delivered_at }
+              : m;
+          })
+        );
+
+        if (activity.last_message_at && (!newestMessageAt || activity.last_message_at > newestMessageAt)) {
+          void fetchMessages();
+        }
+      } catch (err) {
+        if (!isTransientRequestError(err)) console.error("Error polling chat activity:", err);
+      }
+    };
+
+    const interval = setInterval(() => {
+      void poll();
+    }, ACTIVITY_POLL_MS);
+
+    return () => clearInterval(interval);
+  }, [matchId, currentUserId, realtimeConnected, newestMessageAt, fetchMessages]);
 
   // ---------------------------------------------------------------
   // Handlers
   // ---------------------------------------------------------------
+  // Without realtime, typing goes to the activity endpoint instead, with
+  // fewer pings; the server keeps each one for a few seconds.
+  const postTypingState = useCallback(async (typing: boolean) => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) return;
+      await fetch("/api/messages/activity", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${session.access_token}` },
+        body: JSON.stringify({ match_id: matchId, typing }),
+      });
+    } catch {
+      // Typing indicators are best-effort
+    }
+  }, [matchId]);
+
   const broadcastTyping = useCallback(() => {
-    if (Date.now() - lastTypingBroadcast.current < 1000) return;
+    const channel = channelRef.current;
+    if (Date.now() - lastTypingBroadcast.current < (channel ? 1000 : 3000)) return;
     lastTypingBroadcast.current = Date.now();
-    supabase.channel(`chat-${matchId}`).send({ type: "broadcast", event: "typing", payload: { user_id: currentUserId } });
-  }, [matchId, currentUserId]);
+    if (channel) {
+      channel.send({ type: "broadcast", event: "typing", payload: { user_id: currentUserId } });
+    } else {
+      void postTypingState(true);
+    }
+  }, [currentUserId, postTypingState]);
 
   const broadcastStopTyping = useCallback(() => {
-    supabase.channel(`chat-${matchId}`).send({ type: "broadcast", event: "stop_typing", payload: { user_id: currentUserId } });
-  }, [matchId, currentUserId]);
+    if (lastTypingBroadcast.current === 0) return;
+    lastTypingBroadcast.current = 0;
+    const channel = channelRef.current;
+    if (channel) {
+      channel.send({ type: "broadcast", event: "stop_typing", payload: { user_id: currentUserId } });
+    } else {
+      void postTypingState(false);
+    }
+  }, [currentUserId, postTypingState]);
+
+  const startEdit = (message: Message) => {
+    setReplyTo(null);
+    setEditing(message);
+    setNewMessage(message.content);
+    inputRef.current?.focus();
+  };
+
+  const cancelEdit = () => {
+    setEditing(null);
+    setNewMessage("");
+  };
+
+  const handleEdit = async (message: Message, text: string) => {
+    setSending(true);
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) return;
+      const res = await fetch("/api/messages", { method: "PATCH", headers: { "Content-Type": "application/json", Authorization: `Bearer ${session.access_token}` }, body: JSON.stringify({ message_id: message.id, content: text }) });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        toast.error(data.error || "Unable to edit your message right now.");
+        return;
+      }
+      addOrReplaceMessage(data.message);
+      cancelEdit();
+    } catch {
+      toast.error("Unable to edit your message right now.");
+    }
+    finally { setSending(false); inputRef.current?.focus(); }
+  };
 
   const handleSend = async () => {
     if (!newMessage.trim() || sending) return;
     const text = newMessage.trim();
+    if (editing) {
+      await handleEdit(editing, text);
+      return;
+    }
+    const replyTarget = replyTo;
     setNewMessage("");
+    setReplyTo(null);
     setSending(true);
     broadcastStopTyping();
 
-    const opt: Message = { id: `temp-${Date.now()}`, sender_id: currentUserId || "", content: text, message_type: "text", read_at: null, created_at: new Date().toISOString() };
+    const opt: Message = {
+      id: `temp-${Date.now()}`,
+      sender_id: currentUserId || "",
+      content: text,
+      message_type: "text",
+      read_at: null,
+      created_at: new Date().toISOString(),
+      reply_to_id: replyTarget?.id || null,
+      reply_to: replyTarget ? { id: replyTarget.id, sender_id: replyTarget.sender_id, message_type: replyTarget.message_type, preview: replyTarget.content } : null,
+    };
     setMessages((prev) => [...prev, opt]);
 
     try {
       const { data: { session } } = await supabase.auth.getSession();
       if (!session) return;
-      const res = await fetch("/api/messages", { method: "POST", headers: { "Content-Type": "application/json", Authorization: `Bearer ${session.access_token}` }, body: JSON.stringify({ match_id: matchId, content: text }) });
+      const res = await fetch("/api/messages", { method: "POST", headers: { "Content-Type": "application/json", Authorization: `Bearer ${session.access_token}` }, body: JSON.stringify({ match_id: matchId, content: text, reply_to_id: replyTarget?.id }) });
       if (res.ok) {
         const data = await res.json();
         setMessages((prev) => prev.map((m) => (m.id === opt.id ? data.message : m)));
@@ -324,6 +547,7 @@ export default function ChatPage() {
 
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
     if (e.key === "Enter" && !e.shiftKey) { e.preventDefault(); handleSend(); }
+    if (e.key === "Escape" && editing) cancelEdit();
   };
 
   // ---------------------------------------------------------------
@@ -403,7 +627,7 @@ export default function ChatPage() {
                   ) : (
                     <span className="flex items-center gap-1 text-gray-400">
                       <span className="inline-block h-1.5 w-1.5 rounded-full bg-gray-300" />
-                      Offline
+                      {getLastSeenLabel(partner.last_active_at)}
                     </span>
                   )}
                 </p>
@@ -448,6 +672,20 @@ export default function ChatPage() {
               {messages.map((msg, idx) => {
                 const isOwn = msg.sender_id === currentUserId;
                 const showDate = needsDateSep(idx, messages);
+                const blurred = !isOwn && msg.safety_status === "blurred" && !revealedIds.includes(msg.id);
+                const receipt = messageReceiptState(msg);
+                const reactions = MESSAGE_REACTIONS.filter((emoji) => (msg.reactions?.[emoji]?.length || 0) > 0);
+                const actions = currentUserId && (
+                  <MessageActions<Message>
+                    message={msg}
+                    currentUserId={currentUserId}
+                    isOwn={isOwn}
+                    onReply={(m) => { cancelEdit(); setReplyTo(m); inputRef.current?.focus(); }}
+                    onEdit={startEdit}
+                    onUpdated={updateMessage}
+                    onHidden={(id) => setMessages((prev) => prev.filter((m) => m.id !== id))}
+                  />
+                );
 
                 return (
                   <div key={msg.id}>
@@ -461,26 +699,96 @@ export default function ChatPage() {
                     )}
 
                     {/* Bubble */}
-                    <div className={`mb-1 flex ${isOwn ? "justify-end" : "justify-start"}`}>
-                      <div
-                        className={`max-w-[75%] rounded-2xl px-4 py-2.5 sm:max-w-[60%] ${
-                          isOwn
-                            ? "bg-[#1f419a] text-white rounded-br-md"
-                            : "border border-gray-100 bg-white text-gray-900 shadow-sm rounded-bl-md"
-                        }`}
-                      >
-                        <p className="whitespace-pre-wrap break-words text-sm">{msg.content}</p>
-                        <div className={`mt-1 flex items-center gap-1 ${isOwn ? "justify-end" : "justify-start"}`}>
-                          <span className={`text-[10px] ${isOwn ? "text-white/60" : "text-gray-400"}`}>
-                            {formatMessageTime(msg.created_at)}
-                          </span>
-                          {isOwn && (
-                            <span className="text-white/60">
-                              {msg.read_at ? <CheckCheck className="h-3 w-3" /> : <Check className="h-3 w-3" />}
-                            </span>
+                    <div className={`group mb-1 flex items-start gap-1 ${isOwn ? "justify-end" : "justify-start"}`}>
+                      {isOwn && actions}
+                      <div className={`flex max-w-[75%] flex-col sm:max-w-[60%] ${isOwn ? "items-end" : "items-start"}`}>
+                        <div
+                          className={`rounded-2xl px-4 py-2.5 ${
+                            isOwn
+                              ? "bg-[#1f419a] text-white rounded-br-md"
+                              : "border border-gray-100 bg-white text-gray-900 shadow-sm rounded-bl-md"
+                          }`}
+                        >
+                          {msg.reply_to && !msg.deleted_at && (
+                            <div
+                              className={`mb-1.5 border-l-2 pl-2 text-xs ${
+                                isOwn ? "border-white/50 text-white/80" : "border-[#1f419a]/40 text-gray-500"
+                              }`}
+                            >
+                              <p className="font-semibold">
+                                {msg.reply_to.sender_id === currentUserId ? "You" : partner?.name || "Your match"}
+                              </p>
+                              <p className="line-clamp-2">{msg.reply_to.preview}</p>
+                            </div>
                           )}
+                          {msg.deleted_at ? (
+                            <p className={`text-sm italic ${isOwn ? "text-white/70" : "text-gray-400"}`}>
+                              {isOwn ? "You unsent this message" : "This message was unsent"}
+                            </p>
+                          ) : blurred ? (
+                            <div className="text-sm">
+                              <p className="flex items-center gap-1.5 font-medium text-amber-700">
+                                <ShieldAlert className="h-4 w-4 flex-shrink-0" />
+                                This message may be unsafe
+                              </p>
+                              <p className="mt-1 text-xs text-gray-500">
+                                It looks like it contains{" "}
+                                {(msg.safety_categories || [])
+                                  .map((category) => MESSAGE_SAFETY_CATEGORY_LABELS[category]?.toLowerCase() || category)
+                                  .join(", ") || "something our safety screen flagged"}
+                                . Never send money or move the chat off MatchIndeed for someone you haven&apos;t met.
+                              </p>
+                              <button
+                                onClick={() => setRevealedIds((prev) => [...prev, msg.id])}
+                                className="mt-2 text-xs font-semibold text-[#1f419a] hover:underline"
+                              >
+                                Show message
+                              </button>
+                            </div>
+                          ) : (
+                            <RichMessageContent
+                              message={msg}
+                              isOwn={isOwn}
+                              partnerName={partner?.name || "Your match"}
+                              onMeetingChange={(meeting) =>
+                                setMessages((prev) => prev.map((m) => (m.id === msg.id ? { ...m, meeting } : m)))
+                              }
+                            />
+                          )}
+                          <div className={`mt-1 flex items-center gap-1 ${isOwn ? "justify-end" : "justify-start"}`}>
+                            <span className={`text-[10px] ${isOwn ? "text-white/60" : "text-gray-400"}`}>
+                              {msg.edited_at && !msg.deleted_at ? "edited · " : ""}
+                              {formatMessageTime(msg.created_at)}
+                            </span>
+                            {isOwn && (
+                              <span
+                                className={receipt === "read" ? "text-sky-300" : "text-white/60"}
+                                title={receipt === "read" ? "Read" : receipt === "delivered" ? "Delivered" : "Sent"}
+                              >
+                                {receipt === "sent" ? <Check className="h-3 w-3" /> : <CheckCheck className="h-3 w-3" />}
+                              </span>
+                            )}
+                          </div>
                         </div>
+                        {reactions.length > 0 && (
+                          <div className="-mt-1.5 flex gap-1 px-2">
+                            {reactions.map((emoji) => (
+                              <span
+                                key={emoji}
+                                className={`rounded-full border bg-white px-1.5 py-0.5 text-xs shadow-sm ${
+                                  msg.reactions?.[emoji]?.includes(currentUserId || "") ? "border-[#1f419a]/40" : "border-gray-100"
+                                }`}
+                              >
+                                {emoji}
+                                {(msg.reactions?.[emoji]?.length || 0) > 1 && (
+                                  <span className="ml-0.5 text-gray-500">{msg.reactions?.[emoji]?.length}</span>
+                                )}
+                              </span>
+                            ))}
+                          </div>
+                        )}
                       </div>
+                      {!isOwn && actions}
                     </div>
                   </div>
                 );
@@ -507,7 +815,34 @@ export default function ChatPage() {
 
       {/* Input bar */}
       <div className="sticky bottom-0 border-t border-gray-200 bg-white">
+        {(replyTo || editing) && (
+          <div className="mx-auto flex max-w-3xl items-center gap-2 px-4 pt-3">
+            {editing ? <Pencil className="h-4 w-4 flex-shrink-0 text-[#1f419a]" /> : <Reply className="h-4 w-4 flex-shrink-0 text-[#1f419a]" />}
+            <div className="min-w-0 flex-1 border-l-2 border-[#1f419a]/40 pl-2 text-xs">
+              <p className="font-semibold text-[#1f419a]">
+                {editing
+                  ? "Editing message"
+                  : `Replying to ${replyTo?.sender_id === currentUserId ? "yourself" : partner?.name || "your match"}`}
+              </p>
+              <p className="truncate text-gray-500">{(editing || replyTo)?.content}</p>
+            </div>
+            <button
+              onClick={() => (editing ? cancelEdit() : setReplyTo(null))}
+              className="rounded p-1 text-gray-400 hover:bg-gray-100"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        )}
         <div className="mx-auto flex max-w-3xl items-end gap-3 px-4 py-3">
+          <ChatAttachmentBar<Message>
+            matchId={matchId}
+            partnerId={partner?.id || null}
+            partnerName={partner?.name || "your match"}
+            replyToId={replyTo?.id || null}
+            disabled={sending || Boolean(editing)}
+            onSent={(message) => { addOrReplaceMessage(message); setReplyTo(null); }}
+          />
           <div className="flex-1">
             <textarea
               ref={inputRef}
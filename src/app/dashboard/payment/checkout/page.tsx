@@ -12,23 +12,33 @@ import {
   Loader2,
   LockKeyhole,
   ShieldCheck,
+  Tag,
   Wallet,
+  X,
 } from "lucide-react";
 import NotificationBell from "@/components/NotificationBell";
 import Sidebar from "@/components/dashboard/Sidebar";
 import { useToast } from "@/components/ToastProvider";
 import { getCurrentUserSafe } from "@/lib/auth-helpers";
+import { supabase } from "@/lib/supabase";
 import {
   DEFAULT_SUBSCRIPTION_PRICING,
   type TierPricing,
 } from "@/lib/subscription/config";
+import { getGiftCreditsAmountCents } from "@/lib/gifts/config";
 import {
   type CheckoutCurrency,
   type CheckoutIntent,
   type CheckoutPaymentProvider,
+  type CheckoutTier,
   buildCheckoutUrl,
   parseCheckoutIntent,
 } from "@/lib/payments/checkout-intent";
+import {
+  CURRENCY_TABLE,
+  formatCurrencyAmount,
+  SUPPORTED_CURRENCIES,
+} from "@/lib/payments/currencies";
 import {
   getPaymentMinimumAmountCents,
   getRecommendedPaymentProvider,
@@ -44,7 +54,15 @@ type CheckoutDisplay = {
   payload: Record<string, string | number>;
 };
 
-const SUBSCRIPTION_CURRENCIES: CheckoutCurrency[] = ["NGN", "USD"];
+type AppliedPromo = {
+  code: string;
+  tier: CheckoutTier;
+  currency: string;
+  discount_cents: number;
+  amount_cents: number;
+};
+
+const SUBSCRIPTION_CURRENCIES: readonly CheckoutCurrency[] = SUPPORTED_CURRENCIES;
 
 function getProviderCard(
   provider: CheckoutPaymentProvider,
@@ -57,7 +75,9 @@ function getProviderCard(
       description:
         currency === "NGN"
           ? "Naira checkout with cards, bank transfer, USSD, and other Nigerian payment methods."
-          : "USD checkout for eligible international cards, including cards issued in the US, UK, and Canada.",
+          : currency === "USD"
+            ? "USD checkout for eligible international cards, including cards issued in the US, UK, and Canada."
+            : `${CURRENCY_TABLE[currency].name} checkout with cards and local payment methods.`,
     };
   }
 
@@ -67,22 +87,14 @@ function getProviderCard(
     description:
       currency === "NGN"
         ? "Naira checkout with cards, bank transfer, USSD, and other local payment methods."
-        : "USD checkout for eligible international cards and supported account payment options.",
+        : currency === "USD"
+          ? "USD checkout for eligible international cards and supported account payment options."
+          : `${CURRENCY_TABLE[currency].name} checkout with cards and supported local payment options.`,
   };
 }
 
 function formatMoney(amountCents: number, currency: CheckoutCurrency) {
-  const amount = amountCents / 100;
-  if (currency === "NGN") {
-    return `₦${amount.toLocaleString("en-NG", {
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2,
-    })}`;
-  }
-  return `$${amount.toLocaleString("en-US", {
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
-  })}`;
+  return formatCurrencyAmount(amountCents, currency);
 }
 
 function tierName(tier: string) {
@@ -90,7 +102,7 @@ function tierName(tier: string) {
 }
 
 function subscriptionAmountCents(
-  intent: Extract<CheckoutIntent, { type: "subscription" }>,
+  intent: { tier: CheckoutTier; currency: CheckoutCurrency },
   subscriptionPricing: Record<string, TierPricing>
 ) {
   const pricing = subscriptionPricing[intent.tier] || DEFAULT_SUBSCRIPTION_PRICING[intent.tier];
@@ -116,6 +128,35 @@ function getCheckoutDisplay(
     };
   }
 
+  if (intent.type === "gift") {
+    const amountCents =
+      intent.giftKind === "subscription"
+        ? subscriptionAmountCents(intent, subscriptionPricing)
+        : getGiftCreditsAmountCents(intent.credits, intent.currency);
+    return {
+      title:
+        intent.giftKind === "subscription"
+          ? `Gift: ${tierName(intent.tier)} Plan`
+          : `Gift: ${intent.credits} Credits`,
+      description: intent.recipientEmail
+        ? `For ${intent.recipientEmail}`
+        : "You'll get a gift code to pass on",
+      amountCents,
+      returnPath: "/dashboard/gifts",
+      payload: {
+        type: intent.type,
+        giftKind: intent.giftKind,
+        currency: intent.currency,
+        amountCents,
+        ...(intent.giftKind === "subscription"
+          ? { tier: intent.tier }
+          : { credits: intent.credits }),
+        ...(intent.recipientEmail ? { recipientEmail: intent.recipientEmail } : {}),
+        ...(intent.message ? { message: intent.message } : {}),
+      },
+    };
+  }
+
   if (intent.type === "wallet_topup") {
     return {
       title: "Wallet Top-up",
@@ -183,6 +224,9 @@ function CheckoutContent() {
   const [provider, setProvider] = useState<CheckoutPaymentProvider>("paystack");
   const [processing, setProcessing] = useState(false);
   const [subscriptionPricing, setSubscriptionPricing] = useState(DEFAULT_SUBSCRIPTION_PRICING);
+  const [promoInput, setPromoInput] = useState("");
+  const [appliedPromo, setAppliedPromo] = useState<AppliedPromo | null>(null);
+  const [applyingPromo, setApplyingPromo] = useState(false);
 
   const parsedIntent = useMemo(
     () => parseCheckoutIntent(new URLSearchParams(searchParams.toString())),
@@ -193,18 +237,29 @@ function CheckoutContent() {
     ? getCheckoutDisplay(parsedIntent.intent, subscriptionPricing)
     : null;
   const checkoutCurrency = parsedIntent.ok ? parsedIntent.intent.currency : null;
+  const acceptsPromo = parsedIntent.ok && parsedIntent.intent.type === "subscription";
+  // A quote is only good for the plan and currency it was checked against.
+  const activePromo =
+    parsedIntent.ok &&
+    parsedIntent.intent.type === "subscription" &&
+    appliedPromo &&
+    appliedPromo.tier === parsedIntent.intent.tier &&
+    appliedPromo.currency === parsedIntent.intent.currency.toLowerCase()
+      ? appliedPromo
+      : null;
+  const payableCents = activePromo ? activePromo.amount_cents : display?.amountCents;
   const currencyProviders = useMemo(
     () => (checkoutCurrency ? getSupportedPaymentProviders(checkoutCurrency) : []),
     [checkoutCurrency]
   );
   const supportedProviders = useMemo(
     () =>
-      checkoutCurrency && display
+      checkoutCurrency && payableCents
         ? currencyProviders.filter((providerId) =>
-            isPaymentAmountSupported(providerId, checkoutCurrency, display.amountCents)
+            isPaymentAmountSupported(providerId, checkoutCurrency, payableCents)
           )
         : [],
-    [checkoutCurrency, currencyProviders, display]
+    [checkoutCurrency, currencyProviders, payableCents]
   );
   const selectedProvider =
     checkoutCurrency && supportedProviders.includes(provider)
@@ -231,7 +286,8 @@ function CheckoutContent() {
               tier.id in next &&
               tier.pricing
             ) {
-              next[tier.id as keyof typeof next] = tier.pricing;
+              const id = tier.id as keyof typeof next;
+              next[id] = { ...next[id], ...tier.pricing };
             }
           }
           return next;
@@ -240,8 +296,13 @@ function CheckoutContent() {
       .catch(() => {});
   }, []);
 
+  const choosesPlanCurrency =
+    parsedIntent.ok &&
+    (parsedIntent.intent.type === "subscription" ||
+      (parsedIntent.intent.type === "gift" && parsedIntent.intent.giftKind === "subscription"));
+
   const changeSubscriptionCurrency = (currency: CheckoutCurrency) => {
-    if (!parsedIntent.ok || parsedIntent.intent.type !== "subscription") return;
+    if (!parsedIntent.ok || !choosesPlanCurrency) return;
     if (parsedIntent.intent.currency === currency) return;
 
     router.replace(
@@ -252,6 +313,51 @@ function CheckoutContent() {
     );
   };
 
+  const applyPromo = async () => {
+    if (!parsedIntent.ok || parsedIntent.intent.type !== "subscription") return;
+    const code = promoInput.trim();
+    if (!code) return;
+
+    try {
+      setApplyingPromo(true);
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+      if (!session?.access_token) {
+        toast.error("Please log in to use a promo code.");
+        return;
+      }
+
+      const { tier, currency } = parsedIntent.intent;
+      const response = await fetch("/api/promo-codes/quote", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ code, tier, currency }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.message || data.error || "That promo code isn't valid.");
+      }
+
+      setAppliedPromo({
+        code: data.code,
+        tier,
+        currency: data.currency,
+        discount_cents: data.discount_cents,
+        amount_cents: data.amount_cents,
+      });
+      setPromoInput("");
+      toast.success(`Promo code ${data.code} applied`);
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : "Failed to apply promo code.");
+    } finally {
+      setApplyingPromo(false);
+    }
+  };
+
   const startCheckout = async () => {
     if (!parsedIntent.ok || !display) return;
 
@@ -273,6 +379,7 @@ function CheckoutContent() {
           ...display.payload,
           userId: user.id,
           provider: selectedProvider,
+          ...(activePromo ? { promoCode: activePromo.code } : {}),
         }),
       });
       const data = await response.json().catch(() => ({}));
@@ -341,14 +448,14 @@ function CheckoutContent() {
           ) : (
             <div className="grid gap-6 lg:grid-cols-[minmax(0,1fr)_340px]">
               <section className="space-y-4">
-                {parsedIntent.intent.type === "subscription" && (
+                {choosesPlanCurrency && (
                   <div className="rounded-xl border border-gray-200 bg-white p-5">
                     <h2 className="text-lg font-bold text-gray-900">Payment Currency</h2>
                     <p className="mt-1 text-sm text-gray-500">
                       Choose the currency that will be shown at the hosted checkout.
                     </p>
                     <div
-                      className="mt-4 grid max-w-xs grid-cols-2 rounded-lg border border-gray-200 bg-gray-50 p-1"
+                      className="mt-4 grid max-w-md grid-cols-4 gap-1 rounded-lg border border-gray-200 bg-gray-50 p-1 sm:grid-cols-7"
                       role="radiogroup"
                       aria-label="Payment currency"
                     >
@@ -373,8 +480,9 @@ function CheckoutContent() {
                       })}
                     </div>
                     <p className="mt-3 text-xs leading-5 text-gray-500">
-                      Nigerian customers pay in NGN. Customers everywhere else pay in
-                      USD with either Paystack or Flutterwave.
+                      Customers in Nigeria, Ghana, Kenya, South Africa, the UK and the
+                      eurozone can pay in their local currency. Customers everywhere
+                      else pay in USD.
                     </p>
                   </div>
                 )}
@@ -411,7 +519,9 @@ function CheckoutContent() {
                           </div>
                           <div className="mt-4 flex items-center gap-2">
                             <h3 className="text-base font-bold text-gray-900">{card.title}</h3>
-                            {checkoutCurrency === "NGN" && card.id === "paystack" && (
+                            {checkoutCurrency &&
+                              card.id === "paystack" &&
+                              getRecommendedPaymentProvider(checkoutCurrency) === "paystack" && (
                               <span className="rounded-full bg-emerald-50 px-2 py-0.5 text-[10px] font-bold uppercase tracking-wide text-emerald-700">
                                 Recommended
                               </span>
@@ -428,6 +538,10 @@ function CheckoutContent() {
                     <p className="mt-3 text-xs leading-5 text-gray-500">
                       {checkoutCurrency === "NGN"
                         ? "Paystack is recommended for Nigerian Naira payments. Flutterwave is also available."
+                        : checkoutCurrency !== "USD"
+                          ? `${CURRENCY_TABLE[checkoutCurrency].name} payments are available through ${supportedProviders
+                              .map((providerId) => (providerId === "paystack" ? "Paystack" : "Flutterwave"))
+                              .join(" and ")}.`
                         : supportedProviders.includes("paystack")
                             ? "Customers in the US, Canada, the UK, and other supported countries can pay in USD with an eligible international card. Their bank may convert the charge from their card currency."
                             : "Flutterwave is currently used for USD and international checkout."}
@@ -435,8 +549,8 @@ function CheckoutContent() {
                   )}
                   {checkoutCurrency === "USD" &&
                     currencyProviders.includes("paystack") &&
-                    display &&
-                    !isPaymentAmountSupported("paystack", "USD", display.amountCents) && (
+                    payableCents &&
+                    !isPaymentAmountSupported("paystack", "USD", payableCents) && (
                       <p className="mt-2 text-xs leading-5 text-amber-700">
                         Paystack is unavailable for this order because its minimum USD
                         payment is {`$${(
@@ -475,15 +589,63 @@ function CheckoutContent() {
                           {parsedIntent.intent.currency}
                         </span>
                       </div>
+                      {activePromo && display && (
+                        <>
+                          <div className="mt-2 flex items-center justify-between text-sm">
+                            <span className="text-gray-500">Subtotal</span>
+                            <span className="text-gray-900">
+                              {formatMoney(display.amountCents, parsedIntent.intent.currency)}
+                            </span>
+                          </div>
+                          <div className="mt-2 flex items-center justify-between text-sm">
+                            <span className="flex items-center gap-1 text-emerald-700">
+                              <Tag className="h-3.5 w-3.5" />
+                              {activePromo.code}
+                              <button
+                                type="button"
+                                onClick={() => setAppliedPromo(null)}
+                                aria-label="Remove promo code"
+                                className="text-gray-400 hover:text-gray-600"
+                              >
+                                <X className="h-3.5 w-3.5" />
+                              </button>
+                            </span>
+                            <span className="font-semibold text-emerald-700">
+                              -{formatMoney(activePromo.discount_cents, parsedIntent.intent.currency)}
+                            </span>
+                          </div>
+                        </>
+                      )}
                       <div className="mt-2 flex items-center justify-between">
                         <span className="text-sm text-gray-500">Total</span>
                         <span className="text-xl font-bold text-gray-900">
-                          {display && formatMoney(display.amountCents, parsedIntent.intent.currency)}
+                          {payableCents !== undefined &&
+                            formatMoney(payableCents, parsedIntent.intent.currency)}
                         </span>
                       </div>
                     </div>
                   </div>
 
+                  {acceptsPromo && !activePromo && (
+                    <div className="mt-4 flex gap-2">
+                      <input
+                        type="text"
+                        value={promoInput}
+                        onChange={(e) => setPromoInput(e.target.value.toUpperCase())}
+                        placeholder="Promo code"
+                        className="min-w-0 flex-1 rounded-lg border border-gray-200 px-3 py-2 text-sm uppercase outline-none focus:border-[#1f419a]"
+                      />
+                      <button
+                        type="button"
+                        onClick={applyPromo}
+                        disabled={applyingPromo || !promoInput.trim()}
+                        className="rounded-lg border border-[#1f419a] px-3 py-2 text-sm font-semibold text-[#1f419a] hover:bg-[#eef2ff] disabled:opacity-50"
+                      >
+                        {applyingPromo ? <Loader2 className="h-4 w-4 animate-spin" /> : "Apply"}
+                      </button>
+                    </div>
+                  )}
+
                   <button
                     type="button"
                     onClick={startCheckout}
@@ -23,6 +23,7 @@ import {
   Power,
   BadgeCheck,
   Sparkles,
+  Download,
 } from "lucide-react";
 import Sidebar from "@/components/dashboard/Sidebar";
 import NotificationBell from "@/components/NotificationBell";
@@ -78,6 +79,14 @@ type AccountInfo = {
   email_verified: boolean;
 };
 
+type DataExportInfo = {
+  id: string;
+  status: "pending" | "processing" | "ready" | "failed" | "expired";
+  requested_at: string;
+  expires_at: string | null;
+  download_url: string | null;
+};
+
 /* ─── Helpers ────────────────────────────────────────────────────── */
 
 const formatGender = (gender: string | null): string => {
@@ -208,6 +217,11 @@ export default function MyAccountPage() {
   const [deleteSuccessMessage, setDeleteSuccessMessage] = useState("");
   const [actionLoading, setActionLoading] = useState(false);
   const [actionMessage, setActionMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  // Data export state
+  const [dataExport, setDataExport] = useState<DataExportInfo | null>(null);
+  const [exportLoading, setExportLoading] = useState(false);
+  const [exportMessage, setExportMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
   const personalityPromptEntries = parseStoredPersonalityPrompts(
     profile?.personality_type
   );
@@ -388,6 +402,46 @@ export default function MyAccountPage() {
     }
   };
 
+  /* ── Data export ──────────────────────────────────────────────── */
+
+  useEffect(() => {
+    if (!accessToken) return;
+    fetch("/api/profile/data-export", {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => setDataExport(data?.exports?.[0] || null))
+      .catch(() => {});
+  }, [accessToken]);
+
+  const handleRequestDataExport = async () => {
+    try {
+      setExportLoading(true);
+      setExportMessage(null);
+
+      const res = await fetch("/api/profile/data-export", {
+        method: "POST",
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to request your data");
+
+      setDataExport(data.export);
+      setExportMessage({
+        type: "success",
+        text: "We’re preparing your data. We’ll email you a download link when it’s ready.",
+      });
+    } catch (error: unknown) {
+      setExportMessage({
+        type: "error",
+        text: getErrorMessage(error, "Failed to request your data"),
+      });
+    } finally {
+      setExportLoading(false);
+    }
+  };
+
   /* ── Account deactivation ─────────────────────────────────────── */
 
   const handleDeactivate = async () => {
@@ -897,6 +951,62 @@ export default function MyAccountPage() {
                       </div>
                       <ChevronIcon open={false} />
                     </Link>
+
+                    {/* Download my data */}
+                    <div className="rounded-xl border border-slate-200 bg-slate-50 p-3">
+                      <div className="flex items-center justify-between gap-3">
+                        <div className="flex items-center gap-2.5">
+                          <Download className="h-4 w-4 text-gray-500" />
+                          <span className="text-xs sm:text-sm font-medium text-gray-900">Download My Data</span>
+                        </div>
+                        <button
+                          type="button"
+                          onClick={handleRequestDataExport}
+                          disabled={
+                            exportLoading ||
+                            !accessToken ||
+                            dataExport?.status === "pending" ||
+                            dataExport?.status === "processing"
+                          }
+                          className="flex items-center gap-1.5 rounded-lg border border-[#1f419a]/20 bg-white px-3 py-1.5 text-[11px] sm:text-xs font-semibold text-[#1f419a] transition-all hover:bg-[#1f419a]/5 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          {exportLoading && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+                          {dataExport?.status === "pending" || dataExport?.status === "processing"
+                            ? "Preparing..."
+                            : "Request Export"}
+                        </button>
+                      </div>
+                      <p className="mt-2 text-[10px] sm:text-xs text-gray-500">
+                        A ZIP file with your profile, photos, matches, messages, meetings, payments and notifications.
+                      </p>
+                      {dataExport?.status === "ready" && dataExport.download_url && (
+                        <a
+                          href={dataExport.download_url}
+                          className="mt-2 inline-flex items-center gap-1.5 text-xs font-semibold text-[#1f419a] hover:underline"
+                        >
+                          <Download className="h-3.5 w-3.5" />
+                          Download your data
+                          {dataExport.expires_at && (
+                            <span className="font-normal text-gray-500">
+                              (until {new Date(dataExport.expires_at).toLocaleDateString()})
+                            </span>
+                          )}
+                        </a>
+                      )}
+                      {dataExport?.status === "failed" && !exportMessage && (
+                        <p className="mt-2 text-xs text-red-600">Your last export didn’t complete. Please request a new one.</p>
+                      )}
+                      {exportMessage && (
+                        <div className={`mt-2 flex items-center gap-2 rounded-lg px-3 py-2 text-xs ${
+                          exportMessage.type === "success"
+                            ? "bg-green-50 text-green-700 border border-green-200"
+                            : "bg-red-50 text-red-700 border border-red-200"
+                        }`}>
+                          {exportMessage.type === "success" ? <CheckCircle className="h-3.5 w-3.5" /> : <XCircle className="h-3.5 w-3.5" />}
+                          {exportMessage.text}
+                        </div>
+                      )}
+                    </div>
                   </div>
                 </div>
 
@@ -19,9 +19,19 @@ import {
   normalizePartnerGenderPreference,
 } from "@/lib/matching/interest-preference";
 
+const MAX_DISTANCE_OPTIONS = [
+  { value: "25", label: "Within 25 km" },
+  { value: "50", label: "Within 50 km" },
+  { value: "100", label: "Within 100 km" },
+  { value: "250", label: "Within 250 km" },
+  { value: "", label: "Any distance" },
+];
+
 type PreferenceData = {
   lookingFor: string;
   location: string;
+  /** Kilometres as a string; empty means no distance limit */
+  maxDistance: string;
   ageRange: string;
   height: string;
   ethnicity: {
@@ -233,6 +243,9 @@ function PreferencesPageContent() {
               landingLookingFor ||
               "",
             location: preferencesData.partner_location || "",
+            maxDistance: preferencesData.partner_max_distance_km
+              ? String(preferencesData.partner_max_distance_km)
+              : "",
             ageRange: preferencesData.partner_age_range || "",
             height: formatHeight(preferencesData.partner_height_min_cm, preferencesData.partner_height_max_cm),
             ethnicity: {
@@ -279,6 +292,7 @@ function PreferencesPageContent() {
   const [formData, setFormData] = useState<PreferenceData>({
     lookingFor: "",
     location: "",
+    maxDistance: "",
     ageRange: "",
     height: "",
     ethnicity: { nigerian: [], other: [] },
@@ -308,6 +322,7 @@ function PreferencesPageContent() {
         setFormData({
           lookingFor: draft.lookingFor || "",
           location: draft.location || "",
+          maxDistance: draft.maxDistance || "",
           ageRange: draft.ageRange || "",
           height: draft.height || "",
           ethnicity: draft.ethnicity || { nigerian: [], other: [] },
@@ -649,6 +664,7 @@ function PreferencesPageContent() {
         
         // Location preferences
         partner_location: normalizedLocation || null, // Step 2: location → partner_location
+        partner_max_distance_km: formData.maxDistance ? Number(formData.maxDistance) : null, // Step 2: maxDistance → partner_max_distance_km
         partner_age_range: formData.ageRange || null, // Step 3: ageRange → partner_age_range
         partner_height_min_cm: heightMinCm, // Step 4: height → partner_height_min_cm (calculated)
         partner_height_max_cm: heightMaxCm, // Step 4: height → partner_height_max_cm (calculated)
@@ -897,6 +913,23 @@ function PreferencesPageContent() {
                 className="w-full bg-transparent border-0 border-b-2 border-white/50 text-white text-center text-base sm:text-lg md:text-xl lg:text-2xl placeholder-white/50 focus:border-white focus:outline-none pb-2 sm:pb-3"
               />
             </div>
+            <div className="space-y-3">
+              <p className="text-sm sm:text-base text-white/80">How far from you are you willing to look?</p>
+              <div className="flex flex-wrap justify-center gap-2">
+                {MAX_DISTANCE_OPTIONS.map((option) => (
+                  <button
+                    key={option.label}
+                    type="button"
+                    onClick={() => setFormData({ ...formData, maxDistance: option.value })}
+                    className={`rounded-full border-2 px-4 py-2 text-sm font-medium transition-all duration-200 ${
+                      formData.maxDistance === option.value ? "border-[#1f419a] bg-[#1f419a] text-white shadow-lg shadow-[#1f419a]/30" : "border-gray-200/60 bg-white/90 text-gray-700 hover:border-gray-300 hover:bg-white hover:shadow-sm"
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
           </div>
         );
 
@@ -43,6 +43,7 @@ import { supabase } from "@/lib/supabase";
 type PreferencesData = {
   partner_gender_preference: string | null;
   partner_location: string | null;
+  partner_max_distance_km: number | null;
   partner_age_range: string | null;
   partner_height_min_cm: number | null;
   partner_height_max_cm: number | null;
@@ -165,6 +166,7 @@ export default function PreferencesViewPage() {
       });
     }
     if (prefs.partner_location) basics.push({ icon: <MapPin className="h-4 w-4" />, label: "Location", value: prefs.partner_location });
+    if (prefs.partner_max_distance_km) basics.push({ icon: <MapPin className="h-4 w-4" />, label: "Distance", value: `Within ${prefs.partner_max_distance_km} km` });
     if (prefs.partner_age_range) basics.push({ icon: <CalendarRange className="h-4 w-4" />, label: "Age Range", value: prefs.partner_age_range });
     if (prefs.partner_height_min_cm || prefs.partner_height_max_cm) basics.push({ icon: <Ruler className="h-4 w-4" />, label: "Height", value: formatHeightRange(prefs.partner_height_min_cm, prefs.partner_height_max_cm) });
 
@@ -34,8 +34,20 @@ import {
   resolveSubscriptionActivationResult,
   type SubscriptionActivationSnapshot,
 } from "@/lib/subscription/checkout-verification";
-import { buildCheckoutUrl, type CheckoutTier } from "@/lib/payments/checkout-intent";
+import {
+  buildCheckoutUrl,
+  type CheckoutCurrency,
+  type CheckoutTier,
+} from "@/lib/payments/checkout-intent";
+import {
+  CURRENCY_TABLE,
+  formatCurrencyAmount,
+  isWalletCurrency,
+  normalizeCurrencyCode,
+  type CurrencyKey,
+} from "@/lib/payments/currencies";
 import { getCheckoutCurrencyForCountryCode } from "@/lib/payments/region-currency";
+import { DEFAULT_SUBSCRIPTION_PRICING, type TierPricing } from "@/lib/subscription/config";
 
 function shouldCenterCheckoutError(message: string): boolean {
   const normalized = message.toLowerCase();
@@ -50,8 +62,8 @@ function shouldCenterCheckoutError(message: string): boolean {
 // ---------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------
-type Currency = "NGN" | "USD";
-type Pricing = { ngn: number; usd: number };
+type Currency = CheckoutCurrency;
+type Pricing = TierPricing;
 
 type SubscriptionTier = {
   id: CheckoutTier;
@@ -68,6 +80,18 @@ type SubscriptionTier = {
   iconBg: string;
 };
 
+type TierChangeQuote = {
+  from_tier: string;
+  to_tier: string;
+  direction: "upgrade" | "downgrade";
+  currency: CurrencyKey;
+  unused_credit_cents: number;
+  amount_due_cents: number;
+  wallet_credit_cents: number;
+  period_ends_at: string;
+  settlement: "stripe" | "wallet_or_checkout" | "none";
+};
+
 type VerifySubscriptionResult = {
   success: boolean;
   alreadyProcessed?: boolean;
@@ -84,7 +108,7 @@ const baseSubscriptionTiers: SubscriptionTier[] = [
   {
     id: "basic",
     name: "Basic",
-    pricing: { ngn: 7500, usd: 9.99 },
+    pricing: DEFAULT_SUBSCRIPTION_PRICING.basic,
     priceId: "",
     credits: 5,
     calendarDays: 5,
@@ -103,7 +127,7 @@ const baseSubscriptionTiers: SubscriptionTier[] = [
   {
     id: "standard",
     name: "Standard",
-    pricing: { ngn: 15000, usd: 19.99 },
+    pricing: DEFAULT_SUBSCRIPTION_PRICING.standard,
     priceId: "",
     credits: 10,
     calendarDays: 15,
@@ -124,7 +148,7 @@ const baseSubscriptionTiers: SubscriptionTier[] = [
   {
     id: "premium",
     name: "Premium",
-    pricing: { ngn: 27000, usd: 34.99 },
+    pricing: DEFAULT_SUBSCRIPTION_PRICING.premium,
     priceId: "",
     credits: 30,
     calendarDays: 30,
@@ -144,7 +168,7 @@ const baseSubscriptionTiers: SubscriptionTier[] = [
   {
     id: "vip",
     name: "VIP",
-    pricing: { ngn: 1500000, usd: 1000 },
+    pricing: DEFAULT_SUBSCRIPTION_PRICING.vip,
     priceId: "",
     credits: 0,
     calendarDays: 0,
@@ -164,6 +188,8 @@ const baseSubscriptionTiers: SubscriptionTier[] = [
   },
 ];
 
+const TIER_ORDER: CheckoutTier[] = ["basic", "standard", "premium", "vip"];
+
 // ---------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------
@@ -185,22 +211,27 @@ async function detectCurrency(): Promise<Currency> {
         /* ignore */
       }
     }
-    if (c === "ngn") return "NGN";
-    return "USD";
+    return normalizeCurrencyCode(c) || "USD";
   } catch {
     return "USD";
   }
 }
 
 function formatPrice(price: number, currency: Currency): string {
-  if (currency === "NGN")
-    return `₦${price.toLocaleString("en-NG")}`;
-  return `$${price.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+  // Naira, shilling and cedi plan prices are whole numbers.
+  const wholeUnits = Number.isInteger(price) && currency !== "USD";
+  return formatCurrencyAmount(Math.round(price * 100), currency, {
+    fractionDigits: wholeUnits ? 0 : 2,
+  });
 }
 
 function getPrice(tier: SubscriptionTier, currency: Currency): number {
-  if (currency === "NGN") return tier.pricing.ngn;
-  return tier.pricing.usd;
+  const key = currency.toLowerCase() as CurrencyKey;
+  return tier.pricing[key] ?? DEFAULT_SUBSCRIPTION_PRICING[tier.id][key];
+}
+
+function quoteCurrency(quote: TierChangeQuote): Currency {
+  return normalizeCurrencyCode(quote.currency) || "USD";
 }
 
 // ---------------------------------------------------------------
@@ -230,6 +261,14 @@ function SubscriptionContent() {
     tier: SubscriptionTier | null;
     amountCents: number;
   }>({ isOpen: false, tier: null, amountCents: 0 });
+  const [walletPromoCode, setWalletPromoCode] = useState("");
+
+  // Mid-cycle plan change confirmation
+  const [tierChangeModal, setTierChangeModal] = useState<{
+    tier: SubscriptionTier;
+    quote: TierChangeQuote;
+  } | null>(null);
+  const [changingTier, setChangingTier] = useState(false);
 
   // ---------------------------------------------------------------
   // Init
@@ -556,7 +595,11 @@ function SubscriptionContent() {
   // ---------------------------------------------------------------
   // Subscribe
   // ---------------------------------------------------------------
-  const handleSubscribe = async (tier: SubscriptionTier, useWallet = false) => {
+  const handleSubscribe = async (
+    tier: SubscriptionTier,
+    useWallet = false,
+    promoCode = ""
+  ) => {
     try {
       setProcessing(tier.id);
       const user = await getCurrentUserSafe();
@@ -566,6 +609,23 @@ function SubscriptionContent() {
         return;
       }
 
+      // Switching from an active paid plan is prorated; show the quote first.
+      if (currentTier && walletAccessEnabled && currentTier !== tier.id) {
+        const res = await fetch(
+          `/api/change-subscription-tier?tier=${tier.id}&currency=${currency.toLowerCase()}`,
+          { cache: "no-store" }
+        );
+        const data = await res.json().catch(() => ({}));
+        if (res.ok && data.quote) {
+          setTierChangeModal({ tier, quote: data.quote as TierChangeQuote });
+          return;
+        }
+        if (data.error !== "no_active_subscription") {
+          toast.error(data.message || "Unable to price this plan change.");
+          return;
+        }
+      }
+
       const price = getPrice(tier, currency);
       const amountCents = Math.round(price * 100);
 
@@ -581,7 +641,13 @@ function SubscriptionContent() {
         const res = await fetch("/api/use-wallet-balance", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ type: "subscription", amountCents, tier: tier.id }),
+          body: JSON.stringify({
+            type: "subscription",
+            amountCents,
+            tier: tier.id,
+            currency: currency.toLowerCase(),
+            ...(promoCode.trim() ? { promoCode: promoCode.trim() } : {}),
+          }),
         });
         if (res.ok) {
           toast.success(`Subscribed to ${tier.name} plan from wallet!`);
@@ -600,7 +666,7 @@ function SubscriptionContent() {
       }
 
       // Check if wallet can cover it (show modal instead of confirm())
-      if (!useWallet && walletAccessEnabled) {
+      if (!useWallet && walletAccessEnabled && isWalletCurrency(currency)) {
         const { data: wallet } = await supabase
           .from("wallets")
           .select("balance_cents")
@@ -608,6 +674,7 @@ function SubscriptionContent() {
           .single();
         const wb = wallet?.balance_cents || 0;
         if (wb >= amountCents) {
+          setWalletPromoCode("");
           setWalletPayModal({ isOpen: true, tier, amountCents });
           setProcessing(null);
           return;
@@ -631,6 +698,43 @@ function SubscriptionContent() {
     }
   };
 
+  const confirmTierChange = async () => {
+    if (!tierChangeModal) return;
+    const { tier } = tierChangeModal;
+    setChangingTier(true);
+    try {
+      const res = await fetch("/api/change-subscription-tier", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ tier: tier.id, currency: currency.toLowerCase() }),
+      });
+      const data = await res.json().catch(() => ({}));
+
+      if (res.ok) {
+        setTierChangeModal(null);
+        toast.success(`You're now on the ${tier.name} plan.`);
+        await fetchSubscriptionState();
+        return;
+      }
+
+      if (res.status === 402 && data.error === "insufficient_wallet_balance") {
+        setTierChangeModal(null);
+        window.location.href = buildCheckoutUrl({
+          type: "subscription",
+          tier: tier.id,
+          currency: quoteCurrency(tierChangeModal.quote),
+        });
+        return;
+      }
+
+      toast.error(data.message || "Unable to change your plan.");
+    } catch {
+      toast.error("Unable to change your plan. Please try again.");
+    } finally {
+      setChangingTier(false);
+    }
+  };
+
   // ---------------------------------------------------------------
   // Loading
   // ---------------------------------------------------------------
@@ -691,7 +795,7 @@ function SubscriptionContent() {
                 </span>
               )}
               <span className="rounded-full bg-gray-100 px-3 py-1 text-[10px] font-medium text-gray-500">
-                {currency === "NGN" ? "₦ NGN" : "$ USD"}
+                {CURRENCY_TABLE[currency].symbol} {currency}
               </span>
             </div>
           </div>
@@ -711,6 +815,7 @@ function SubscriptionContent() {
               const priceCents = Math.round(price * 100);
               const canWallet =
                 walletAccessEnabled &&
+                isWalletCurrency(currency) &&
                 walletBalance !== null &&
                 walletBalance >= priceCents;
 
@@ -825,7 +930,12 @@ function SubscriptionContent() {
                         "Current Plan"
                       ) : (
                         <>
-                          Choose Plan <ArrowRight className="h-3.5 w-3.5" />
+                          {currentTier && walletAccessEnabled
+                            ? (TIER_ORDER.indexOf(tier.id) > TIER_ORDER.indexOf(currentTier as CheckoutTier)
+                              ? "Upgrade"
+                              : "Downgrade")
+                            : "Choose Plan"}{" "}
+                          <ArrowRight className="h-3.5 w-3.5" />
                         </>
                       )}
                     </button>
@@ -855,6 +965,84 @@ function SubscriptionContent() {
         </main>
       </div>
 
+      {/* ---- Plan change confirmation modal ---- */}
+      {tierChangeModal && (
+        <div className="fixed inset-0 z-[80] flex items-center justify-center bg-black/50 backdrop-blur-sm">
+          <div className="mx-4 w-full max-w-sm rounded-2xl bg-white shadow-2xl">
+            <div className="border-b border-gray-100 p-4">
+              <h3 className="font-bold text-gray-900">
+                {tierChangeModal.quote.direction === "upgrade" ? "Upgrade" : "Downgrade"} to{" "}
+                {tierChangeModal.tier.name}?
+              </h3>
+              <p className="text-xs text-gray-500">
+                Your new plan starts today and renews monthly from now.
+              </p>
+            </div>
+
+            <div className="space-y-3 p-4">
+              <div className="rounded-xl bg-gray-50 p-3 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-gray-500">Unused time on current plan</span>
+                  <span className="font-semibold text-gray-900">
+                    {formatPrice(
+                      tierChangeModal.quote.unused_credit_cents / 100,
+                      quoteCurrency(tierChangeModal.quote)
+                    )}
+                  </span>
+                </div>
+                <div className="mt-1 flex justify-between">
+                  <span className="text-gray-500">Due now</span>
+                  <span className="font-semibold text-[#1f419a]">
+                    {formatPrice(
+                      tierChangeModal.quote.amount_due_cents / 100,
+                      quoteCurrency(tierChangeModal.quote)
+                    )}
+                  </span>
+                </div>
+                {tierChangeModal.quote.wallet_credit_cents > 0 && (
+                  <div className="mt-1 flex justify-between">
+                    <span className="text-gray-500">Added to wallet</span>
+                    <span className="font-semibold text-green-600">
+                      +
+                      {formatPrice(
+                        tierChangeModal.quote.wallet_credit_cents / 100,
+                        quoteCurrency(tierChangeModal.quote)
+                      )}
+                    </span>
+                  </div>
+                )}
+              </div>
+              <p className="text-center text-[11px] text-gray-400">
+                {tierChangeModal.quote.settlement === "stripe"
+                  ? "The amount due is charged to your saved card."
+                  : tierChangeModal.quote.settlement === "none"
+                    ? "Your unused plan time covers this change."
+                    : "The amount due is paid from your wallet, or by card if your wallet is short."}{" "}
+                Unused credits from your current plan are adjusted to match.
+              </p>
+            </div>
+
+            <div className="flex gap-3 border-t border-gray-100 p-4">
+              <button
+                onClick={() => setTierChangeModal(null)}
+                disabled={changingTier}
+                className="flex-1 rounded-xl border border-gray-200 py-2.5 text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={confirmTierChange}
+                disabled={changingTier}
+                className="flex flex-1 items-center justify-center gap-2 rounded-xl bg-[#1f419a] py-2.5 text-sm font-semibold text-white shadow-md transition-all hover:bg-[#2a44a3] disabled:opacity-60"
+              >
+                {changingTier && <Loader2 className="h-4 w-4 animate-spin" />}
+                Confirm Change
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* ---- Wallet pay confirmation modal ---- */}
       {walletPayModal.isOpen && walletPayModal.tier && (
         <div className="fixed inset-0 z-[80] flex items-center justify-center bg-black/50 backdrop-blur-sm">
@@ -909,8 +1097,16 @@ function SubscriptionContent() {
                   </span>
                 </div>
               </div>
+              <input
+                type="text"
+                value={walletPromoCode}
+                onChange={(e) => setWalletPromoCode(e.target.value.toUpperCase())}
+                placeholder="Promo code (optional)"
+                className="w-full rounded-xl border border-gray-200 px-3 py-2 text-sm uppercase outline-none focus:border-[#1f419a]"
+              />
               <p className="text-[11px] text-gray-400 text-center">
-                The subscription amount will be deducted from your wallet.
+                The subscription amount, less any promo discount, will be deducted from your
+                wallet.
               </p>
             </div>
 
@@ -931,7 +1127,7 @@ function SubscriptionContent() {
                 onClick={() => {
                   const t = walletPayModal.tier;
                   setWalletPayModal({ isOpen: false, tier: null, amountCents: 0 });
-                  if (t) handleSubscribe(t, true);
+                  if (t) handleSubscribe(t, true, walletPromoCode);
                 }}
                 className="flex flex-1 items-center justify-center gap-2 rounded-xl bg-green-500 py-2.5 text-sm font-semibold text-white shadow-md transition-all hover:bg-green-600"
               >
@@ -30,6 +30,7 @@ import {
   Coins,
   ArrowRight,
   Filter,
+  Hourglass,
 } from "lucide-react";
 import { useToast } from "@/components/ToastProvider";
 import Sidebar from "@/components/dashboard/Sidebar";
@@ -54,6 +55,12 @@ type WalletData = {
   credits: { total: number; used: number; rollover: number } | null;
 };
 
+type CreditExpirations = {
+  expiring: { id: string; label: string; credits: number; expires_at: string }[];
+  expiring_total: number;
+  rollover: { cap: number; plan_credits: number; lapsing_at_renewal: number } | null;
+};
+
 type SubscriptionInfo = {
   tier: string | null;
   status: string | null;
@@ -103,7 +110,11 @@ function getMinTopUpAmount(currency: Currency): number {
   return PAYMENT_MINIMUM_AMOUNT[currency];
 }
 
-/** Detect user currency based on IP (Nigeria → NGN, everywhere else → USD). */
+/**
+ * Detect user currency based on IP (Nigeria → NGN, everywhere else → USD).
+ * The wallet is priced in NGN and USD only, so local plan currencies fall
+ * back to USD here.
+ */
 async function detectCurrency(): Promise<Currency> {
   try {
     const res = await fetch("/api/geo");
@@ -115,7 +126,7 @@ async function detectCurrency(): Promise<Currency> {
         if (fb.ok) {
           const d = await fb.json();
           const cc = d.country_code || d.countryCode;
-          return getCheckoutCurrencyForCountryCode(cc);
+          return getCheckoutCurrencyForCountryCode(cc) === "NGN" ? "NGN" : "USD";
         }
       } catch {
         /* ignore */
@@ -162,6 +173,7 @@ function formatTransactionTitle(tx: Transaction): string {
     meeting_request_accepted: "Meeting Acceptance Fee",
     subscription_monthly_allocation: "Monthly Credit Allocation",
     subscription_credit_rollover: "Credit Rollover",
+    credit_expiry: "Credits Expired",
     credit_refund: "Credit Refund",
     cancellation_fee: "Cancellation Fee",
     meeting_charge: "Meeting Charge",
@@ -250,6 +262,7 @@ function WalletContent() {
   const [walletData, setWalletData] = useState<WalletData | null>(null);
   const [subscriptionInfo, setSubscriptionInfo] = useState<SubscriptionInfo | null>(null);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [creditExpirations, setCreditExpirations] = useState<CreditExpirations | null>(null);
   const [walletAccessEnabled, setWalletAccessEnabled] = useState(false);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
@@ -627,6 +640,18 @@ function WalletContent() {
         .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
 
       setTransactions(mergedTransactions);
+
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+      if (session) {
+        const expirationsResponse = await fetch("/api/credits/expirations", {
+          headers: { Authorization: `Bearer ${session.access_token}` },
+        });
+        if (expirationsResponse.ok) {
+          setCreditExpirations(await expirationsResponse.json());
+        }
+      }
     } catch (err) {
       console.error("Error fetching wallet data:", err);
     } finally {
@@ -1016,6 +1041,37 @@ function WalletContent() {
             </div>
           )}
 
+          {/* Upcoming credit expirations */}
+          {creditExpirations &&
+            (creditExpirations.expiring_total > 0 ||
+              (creditExpirations.rollover?.lapsing_at_renewal || 0) > 0) && (
+              <div className="rounded-xl border border-amber-200 bg-amber-50 p-3">
+                <div className="flex items-center gap-2">
+                  <Hourglass className="h-5 w-5 flex-shrink-0 text-amber-500" />
+                  <p className="text-sm font-semibold text-amber-800">Credits expiring soon</p>
+                </div>
+                <ul className="mt-2 space-y-1 text-sm text-amber-700">
+                  {creditExpirations.expiring.map((lot) => (
+                    <li key={lot.id}>
+                      {lot.credits} {lot.label.toLowerCase()} expire on{" "}
+                      {new Date(lot.expires_at).toLocaleDateString()}
+                    </li>
+                  ))}
+                  {creditExpirations.rollover && creditExpirations.rollover.lapsing_at_renewal > 0 && (
+                    <li>
+                      {creditExpirations.rollover.lapsing_at_renewal} plan credit
+                      {creditExpirations.rollover.lapsing_at_renewal === 1 ? "" : "s"} above your{" "}
+                      {creditExpirations.rollover.cap}-credit rollover limit will lapse at renewal
+                      {subscriptionInfo?.expires_at
+                        ? ` on ${new Date(subscriptionInfo.expires_at).toLocaleDateString()}`
+                        : ""}
+                      .
+                    </li>
+                  )}
+                </ul>
+              </div>
+            )}
+
           {/* ---- Quick actions ---- */}
           <div className="grid gap-3 sm:grid-cols-3">
             <button
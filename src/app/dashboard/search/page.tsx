@@ -6,29 +6,28 @@ import { User, SlidersHorizontal, X, ChevronDown, Heart, Camera, Video, Loader2,
 import Sidebar from "@/components/dashboard/Sidebar";
 import NotificationBell from "@/components/NotificationBell";
 import ProfileCompletenessCard from "@/components/ProfileCompletenessCard";
+import SavedSearches from "@/components/SavedSearches";
 import { supabase } from "@/lib/supabase";
 import { calculateCompleteness } from "@/lib/profile-completeness";
-import { calculateMatchPercentage, type PartnerPreferences } from "@/lib/match-percentage";
-import { getBlockedUserIds } from "@/lib/blocked-users";
-import { isAgeRestrictedForMatching } from "@/lib/age-restrictions";
-import { getActiveStatus, isOnline } from "@/lib/active-status";
+import type { MatchDimensionScore } from "@/lib/matching/scoring";
+import { getActiveStatus } from "@/lib/active-status";
 import MeetingRequestModal from "@/components/MeetingRequestModal";
 import ProfileDetailModal from "@/components/ProfileDetailModal";
-import {
-  getMinimumRequestableMeetingStartIso,
-  hasRequestableMeetingAvailability,
-} from "@/lib/meetings/request-availability";
-import { toStateCountryLabel } from "@/lib/location";
-import {
-  matchesPartnerGenderPreference,
-  resolvePartnerGenderPreference,
-} from "@/lib/matching/interest-preference";
-import { evaluateGenderEligibility } from "@/lib/matching/gender-rules";
+import { resolvePartnerGenderPreference } from "@/lib/matching/interest-preference";
 import {
   FILTER_RELATIONSHIP_STATUS_OPTIONS,
   formatRelationshipStatusLabel,
-  relationshipStatusMatches,
 } from "@/lib/relationship-status";
+import {
+  ANY_DISTANCE_KM,
+  DEFAULT_SEARCH_FILTERS,
+  countActiveSearchFilters,
+  type ChildrenFilter,
+  type SearchFilters,
+  type SearchSort,
+} from "@/lib/search/filters";
+import { fetchSearchPage } from "@/lib/search/search-client";
+import type { SearchResult } from "@/lib/search/server-search";
 
 type CardProfile = {
   id: string;
@@ -59,6 +58,10 @@ type CardProfile = {
   matchColor: string;
   /** Tailwind bg+border class for the match badge */
   matchBgColor: string;
+  /** Per-dimension explanation of the match score */
+  matchBreakdown?: MatchDimensionScore[];
+  /** Distance from the viewer in km; null when either location is unknown */
+  distanceKm?: number | null;
   /** Last active timestamp for online status */
   lastActiveAt?: string | null;
   /** Formatted active status label */
@@ -69,47 +72,25 @@ type CardProfile = {
   isUserOnline?: boolean;
 };
 
-type RawProfile = {
-  user_id: string;
-  first_name: string | null;
-  date_of_birth: string | null;
-  location: string | null;
-  photos: string[] | null;
-  profile_photo_url: string | null;
-  gender: string | null;
-  education_level: string | null;
-  religion: string | null;
-  ethnicity: string | null;
-  languages: string[] | null;
-  smoking_habits: string | null;
-  have_children: boolean | null;
-  want_children: string | null;
-  relationship_status: string | null;
-  updated_at: string | null;
-  height_cm: number | null;
-};
+const SEARCH_DEBOUNCE_MS = 300;
 
-type AccountRow = {
-  id: string;
-  tier: string | null;
-  display_name: string | null;
-  account_status?: string | null;
-  email_verified?: boolean | null;
-  profile_visible?: boolean | null;
-  calendar_enabled?: boolean | null;
-  last_active_at?: string | null;
-};
-
-type AvailabilityRow = {
-  user_id: string;
-};
+function toCardProfile(result: SearchResult): CardProfile {
+  const status = getActiveStatus(result.lastActiveAt);
+  return {
+    ...result,
+    id: result.user_id,
+    activeLabel: status.label,
+    activeColor: status.color,
+    isUserOnline: status.isOnline,
+  };
+}
 
 export default function SearchPage() {
   const [showFilters, setShowFilters] = useState(false);
   const [minAge, setMinAge] = useState(18);
   const [maxAge, setMaxAge] = useState(70);
   const [city, setCity] = useState("");
-  const [distance, setDistance] = useState(500);
+  const [distance, setDistance] = useState(ANY_DISTANCE_KM);
   const [online, setOnline] = useState(false);
   const [verifiedOnly, setVerifiedOnly] = useState(false);
   const [selectedGender, setSelectedGender] = useState<string>("");
@@ -123,15 +104,18 @@ export default function SearchPage() {
   const [selectedEthnicities, setSelectedEthnicities] = useState<string[]>([]);
   const [selectedEducations, setSelectedEducations] = useState<string[]>([]);
   const [selectedReligions, setSelectedReligions] = useState<string[]>([]);
-  const [childrenPref, setChildrenPref] = useState<string>("any");
+  const [childrenPref, setChildrenPref] = useState<ChildrenFilter>("any");
   const [smokerPref, setSmokerPref] = useState<string>("");
   const [profiles, setProfiles] = useState<CardProfile[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [totalResults, setTotalResults] = useState(0);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [profileCompletionPercentage, setProfileCompletionPercentage] = useState<number | null>(null);
 
   // Sort state: "match" (best match first), "newest", "age_asc", "age_desc", "name"
-  const [sortBy, setSortBy] = useState<string>("match");
+  const [sortBy, setSortBy] = useState<SearchSort>("match");
   const [showSortMenu, setShowSortMenu] = useState(false);
 
   // Profile detail modal state
@@ -199,284 +183,78 @@ export default function SearchPage() {
   }, [requiredPartnerGender, selectedGender]);
   
   /**
-   * Fetch profiles from database
+   * Load the viewer's own profile and preferences (completeness banner and
+   * the partner-gender hint on the gender filter)
    */
   useEffect(() => {
-    const fetchProfiles = async () => {
+    const fetchViewer = async () => {
       try {
-        setLoading(true);
-        setError(null);
-        
         const { data: { user } } = await supabase.auth.getUser();
-        if (!user) {
-          setError("Not authenticated");
-          setLoading(false);
-          return;
-        }
+        if (!user) return;
 
-        // Fetch user's preferences (including blocked locations and partner preferences for match %)
-        let blockedLocations: string[] = [];
-        let partnerPrefs: PartnerPreferences | null = null;
-        let partnerGenderPreference: "male" | "female" | null = null;
-        let requesterGender: string | null = null;
-        try {
-          const [{ data: prefsData }, { data: requesterProfile }] = await Promise.all([
-            supabase
-              .from("user_preferences")
-              .select("*")
-              .eq("user_id", user.id)
-              .maybeSingle(),
-            supabase
-              .from("user_profiles")
-              .select("*")
-              .eq("user_id", user.id)
-              .maybeSingle(),
-          ]);
-          requesterGender = requesterProfile?.gender || null;
-          setProfileCompletionPercentage(
-            calculateCompleteness((requesterProfile as Record<string, unknown>) || {}).percentage
-          );
-          blockedLocations = prefsData?.blocked_locations || [];
-          partnerGenderPreference = resolvePartnerGenderPreference({
+        const [{ data: prefsData }, { data: requesterProfile }] = await Promise.all([
+          supabase
+            .from("user_preferences")
+            .select("*")
+            .eq("user_id", user.id)
+            .maybeSingle(),
+          supabase
+            .from("user_profiles")
+            .select("*")
+            .eq("user_id", user.id)
+            .maybeSingle(),
+        ]);
+        setProfileCompletionPercentage(
+          calculateCompleteness((requesterProfile as Record<string, unknown>) || {}).percentage
+        );
+        setRequiredPartnerGender(
+          resolvePartnerGenderPreference({
             partnerGenderPreference: prefsData?.partner_gender_preference || null,
             legacyPartnerExperience: prefsData?.partner_experience || null,
-            requesterGender,
-          });
-          setRequiredPartnerGender(partnerGenderPreference);
-          if (prefsData) {
-            partnerPrefs = prefsData as PartnerPreferences;
-          }
-        } catch {
-          // Column might not exist yet — ignore
-        }
-
-        // Fetch other users' profiles (only completed profiles are visible in search)
-        const { data: profilesData, error: profilesError } = await supabase
-          .from("user_profiles")
-          .select(`
-            user_id,
-            first_name,
-            last_name,
-            date_of_birth,
-            location,
-            height_cm,
-            photos,
-            profile_photo_url,
-            gender,
-            education_level,
-            religion,
-            ethnicity,
-            languages,
-            smoking_habits,
-            have_children,
-            want_children,
-            relationship_status,
-            updated_at
-          `)
-          .eq("profile_completed", true)
-          .not("photos", "is", null)
-          .limit(100);
-
-        if (profilesError) {
-          console.error("Error fetching profiles:", profilesError);
-          setError("Failed to load profiles. Please try again.");
-          setLoading(false);
-          return;
-        }
-
-        // Get blocked user IDs (bidirectional) and filter them out
-        const blockedUserIds = await getBlockedUserIds();
-
-        // Filter out current user, blocked users, and profiles with no photos
-        const rawProfiles = (profilesData || []) as RawProfile[];
-        const otherProfiles = rawProfiles.filter(
-          (p) =>
-            p.user_id !== user.id &&
-            !blockedUserIds.has(p.user_id) &&
-            ((p.photos && p.photos.length > 0) || !!p.profile_photo_url)
-        );
-
-        // Fetch account info (tier, display_name, visibility)
-        const userIds = otherProfiles.map((p) => p.user_id);
-
-        // Query only stable account fields to avoid runtime schema-cache errors.
-        let accountsData: AccountRow[] | null = null;
-
-        const { data: accData } = await supabase
-          .from("accounts")
-          .select("id, tier, display_name, account_status, email_verified, profile_visible, calendar_enabled")
-          .in("id", userIds);
-
-        accountsData = ((accData || []) as AccountRow[]).map((account) => ({
-          ...account,
-          profile_visible: account.profile_visible ?? true,
-          calendar_enabled: account.calendar_enabled ?? true,
-          last_active_at: account.last_active_at ?? null,
-        }));
-
-        // Filter out hidden or non-active profiles
-        accountsData = (accountsData || []).filter(
-          (a) =>
-            a.profile_visible !== false &&
-            a.calendar_enabled !== false &&
-            (a.account_status || "active") === "active"
+            requesterGender: requesterProfile?.gender || null,
+          })
         );
-
-        // Check which users have calendar slots
-        const { data: availabilityData } = await supabase
-          .from("meeting_availability")
-          .select("user_id")
-          .in("user_id", userIds)
-          .gte("scheduled_at_utc", getMinimumRequestableMeetingStartIso());
-
-        const usersWithSlots = new Set(((availabilityData || []) as AvailabilityRow[]).map((a) => a.user_id));
-        const accountsMap = new Map((accountsData || []).map((a) => [a.id, a]));
-
-        // Filter out profiles without a valid visible account and from blocked locations
-        const visibleProfiles = otherProfiles.filter((p) => {
-          // Must have a visible account
-          if (!accountsMap.has(p.user_id)) return false;
-
-          // Exclude users from blocked locations
-          if (blockedLocations.length > 0 && p.location) {
-            const profileLoc = (p.location || "").toLowerCase();
-            const isBlocked = blockedLocations.some((blocked: string) =>
-              profileLoc.includes(blocked.toLowerCase()) ||
-              blocked.toLowerCase().includes(profileLoc)
-            );
-            if (isBlocked) return false;
-          }
-
-          // Exclude users aged 18–23 (platform rule: no matching for this age range)
-          if (isAgeRestrictedForMatching(p.date_of_birth)) return false;
-
-          if (
-            !evaluateGenderEligibility({
-              requesterGender,
-              targetGender: p.gender,
-            }).allowed
-          ) {
-            return false;
-          }
-
-          // Enforce discover/search eligibility based on saved partner gender preference.
-          if (!matchesPartnerGenderPreference(p.gender, partnerGenderPreference)) {
-            return false;
-          }
-
-          return true;
-        });
-
-        // Transform profiles
-        const transformedProfiles: CardProfile[] = visibleProfiles.map((p) => {
-          const account = accountsMap.get(p.user_id);
-          
-          // Calculate age
-          let age: number | null = null;
-          if (p.date_of_birth) {
-            const birthDate = new Date(p.date_of_birth);
-            const today = new Date();
-            age = today.getFullYear() - birthDate.getFullYear();
-            const monthDiff = today.getMonth() - birthDate.getMonth();
-            if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < birthDate.getDate())) {
-              age--;
-            }
-          }
-
-          // Get primary photo
-          const primaryPhoto = (p.photos && p.photos.length > 0)
-            ? p.photos[0]
-            : p.profile_photo_url || "/placeholder-profile.svg";
-
-          // Calculate match percentage against user's preferences
-          const matchResult = calculateMatchPercentage(partnerPrefs, {
-            location: p.location,
-            date_of_birth: p.date_of_birth,
-            height_cm: p.height_cm,
-            ethnicity: p.ethnicity,
-            religion: p.religion,
-            education_level: p.education_level,
-            have_children: p.have_children,
-            want_children: p.want_children,
-            smoking_habits: p.smoking_habits,
-          });
-
-          return {
-            id: p.user_id,
-            user_id: p.user_id,
-            name: p.first_name || account?.display_name || "User",
-            age,
-            city: toStateCountryLabel(p.location) || null,
-            imageUrl: primaryPhoto,
-            photoCount: p.photos && p.photos.length > 0 ? p.photos.length : 1,
-            verified: account?.email_verified || false,
-            heightCm: p.height_cm || undefined,
-            hasCalendarSlots: hasRequestableMeetingAvailability(
-              account,
-              usersWithSlots.has(p.user_id)
-            ),
-            tier: account?.tier || "basic",
-            // Match percentage data
-            matchScore: matchResult.percentage,
-            matchLabel: matchResult.label,
-            matchColor: matchResult.color,
-            matchBgColor: matchResult.bgColor,
-            // Additional data for filtering
-            gender: p.gender || null,
-            education_level: p.education_level || null,
-            religion: p.religion || null,
-            ethnicity: p.ethnicity || null,
-            languages: p.languages || [],
-            smoking_habits: p.smoking_habits || null,
-            have_children: p.have_children || null,
-            want_children: p.want_children || null,
-            relationship_status: p.relationship_status || null,
-            // Active status
-            lastActiveAt: account?.last_active_at || null,
-            ...(() => {
-              const status = getActiveStatus(account?.last_active_at || null);
-              return {
-                activeLabel: status.label,
-                activeColor: status.color,
-                isUserOnline: status.isOnline,
-              };
-            })(),
-          };
-        });
-
-        setProfiles(transformedProfiles);
-        setCardSrcs(Object.fromEntries(transformedProfiles.map(p => [p.id, p.imageUrl])));
-      } catch (err) {
-        console.error("Error fetching profiles:", err);
-        setError("An unexpected error occurred. Please try again.");
-      } finally {
-        setLoading(false);
+      } catch {
+        // Column might not exist yet — ignore
       }
     };
 
-    fetchProfiles();
+    fetchViewer();
   }, []);
 
+  /**
+   * Current filters as one serialisable object (what saved searches store)
+   */
+  const currentFilters = useMemo<SearchFilters>(
+    () => ({
+      minAge,
+      maxAge,
+      city,
+      distanceKm: distance,
+      online,
+      verifiedOnly,
+      gender: selectedGender,
+      relationshipStatus: selectedRelStatus,
+      heightMin,
+      heightMax,
+      languages: selectedLanguages,
+      ethnicities: selectedEthnicities,
+      educations: selectedEducations,
+      religions: selectedReligions,
+      children: childrenPref,
+      smoking: smokerPref,
+      sortBy,
+    }),
+    [minAge, maxAge, city, distance, online, verifiedOnly, selectedGender, selectedRelStatus, heightMin, heightMax, selectedLanguages, selectedEthnicities, selectedEducations, selectedReligions, childrenPref, smokerPref, sortBy]
+  );
+
   /**
    * Count the number of active filters (for badge display)
    */
-  const activeFilterCount = useMemo(() => {
-    let count = 0;
-    if (minAge !== 18 || maxAge !== 70) count++;
-    if (city.trim()) count++;
-    if (online) count++;
-    if (verifiedOnly) count++;
-    if (selectedGender) count++;
-    if (selectedRelStatus) count++;
-    if (heightMin !== 140 || heightMax !== 220) count++;
-    if (selectedLanguages.length > 0) count++;
-    if (selectedEthnicities.length > 0) count++;
-    if (selectedEducations.length > 0) count++;
-    if (selectedReligions.length > 0) count++;
-    if (childrenPref !== "any") count++;
-    if (smokerPref) count++;
-    return count;
-  }, [minAge, maxAge, city, online, verifiedOnly, selectedGender, selectedRelStatus, heightMin, heightMax, selectedLanguages, selectedEthnicities, selectedEducations, selectedReligions, childrenPref, smokerPref]);
+  const activeFilterCount = useMemo(
+    () => countActiveSearchFilters(currentFilters),
+    [currentFilters]
+  );
 
   /**
    * Build a list of active filter chips for display above results
@@ -489,6 +267,9 @@ export default function SearchPage() {
     if (city.trim()) {
       chips.push({ key: "city", label: `📍 ${city}`, onClear: () => setCity("") });
     }
+    if (distance < ANY_DISTANCE_KM) {
+      chips.push({ key: "distance", label: `Within ${distance} km`, onClear: () => setDistance(ANY_DISTANCE_KM) });
+    }
     if (online) {
       chips.push({ key: "online", label: "🟢 Online now", onClear: () => setOnline(false) });
     }
@@ -528,217 +309,89 @@ export default function SearchPage() {
       chips.push({ key: "smoking", label: `🚬 ${smokerPref}`, onClear: () => setSmokerPref("") });
     }
     return chips;
-  }, [minAge, maxAge, city, online, verifiedOnly, selectedGender, selectedRelStatus, heightMin, heightMax, selectedLanguages, selectedEthnicities, selectedEducations, selectedReligions, childrenPref, smokerPref]);
+  }, [minAge, maxAge, city, distance, online, verifiedOnly, selectedGender, selectedRelStatus, heightMin, heightMax, selectedLanguages, selectedEthnicities, selectedEducations, selectedReligions, childrenPref, smokerPref]);
 
   /**
-   * Reset all filters to neutral defaults
+   * Replace every filter at once (used by saved searches and reset)
    */
-  const resetAllFilters = useCallback(() => {
-    setMinAge(18);
-    setMaxAge(70);
-    setCity("");
-    setDistance(500);
-    setOnline(false);
-    setVerifiedOnly(false);
-    setSelectedGender("");
-    setSelectedRelStatus("");
-    setHeightMin(140);
-    setHeightMax(220);
-    setSelectedLanguages([]);
-    setSelectedEthnicities([]);
-    setSelectedEducations([]);
-    setSelectedReligions([]);
-    setChildrenPref("any");
-    setSmokerPref("");
+  const applyFilters = useCallback((filters: SearchFilters) => {
+    setMinAge(filters.minAge);
+    setMaxAge(filters.maxAge);
+    setCity(filters.city);
+    setDistance(filters.distanceKm);
+    setOnline(filters.online);
+    setVerifiedOnly(filters.verifiedOnly);
+    setSelectedGender(filters.gender);
+    setSelectedRelStatus(filters.relationshipStatus);
+    setHeightMin(filters.heightMin);
+    setHeightMax(filters.heightMax);
+    setSelectedLanguages(filters.languages);
+    setSelectedEthnicities(filters.ethnicities);
+    setSelectedEducations(filters.educations);
+    setSelectedReligions(filters.religions);
+    setChildrenPref(filters.children);
+    setSmokerPref(filters.smoking);
+    setSortBy(filters.sortBy);
   }, []);
 
-  const filteredProfiles = useMemo(
-    () => {
-      // Step 1: Filter
-      const filtered = profiles.filter((p) => {
-        // Age filter
-        if (p.age !== null && (p.age < minAge || p.age > maxAge)) {
-          return false;
-        }
-
-        // Online filter
-        if (online && !isOnline(p.lastActiveAt || null)) {
-          return false;
-        }
-
-        // Verified filter
-        if (verifiedOnly && !p.verified) {
-          return false;
-        }
-
-        // City filter (case-insensitive partial match)
-        if (city && city.trim() !== "") {
-          const cityLower = city.toLowerCase().trim();
-          const profileCity = (p.city || "").toLowerCase();
-          if (profileCity && !profileCity.includes(cityLower)) {
-            return false;
-          }
-          if (!profileCity && cityLower) {
-            return false;
-          }
-        }
-
-        // Gender filter
-        if (selectedGender && p.gender) {
-          if (p.gender.toLowerCase() !== selectedGender.toLowerCase()) {
-            return false;
-          }
-        } else if (selectedGender && !p.gender) {
-          return false;
-        }
-
-        // Relationship status filter
-        if (selectedRelStatus && p.relationship_status) {
-          if (!relationshipStatusMatches(p.relationship_status, selectedRelStatus)) {
-            return false;
-          }
-        } else if (selectedRelStatus && !p.relationship_status) {
-          return false;
-        }
-
-        // Height filter
-        if ((heightMin !== 140 || heightMax !== 220) && p.heightCm !== undefined) {
-          if (p.heightCm < heightMin || p.heightCm > heightMax) {
-            return false;
-          }
-        }
-
-        // Languages filter
-        if (selectedLanguages.length > 0) {
-          if (!p.languages || !Array.isArray(p.languages) || p.languages.length === 0) {
-            return false;
-          }
-          const hasMatchingLanguage = selectedLanguages.some(lang => 
-            p.languages!.some((profileLang: string) => 
-              profileLang.toLowerCase().includes(lang.toLowerCase()) || 
-              lang.toLowerCase().includes(profileLang.toLowerCase())
-            )
-          );
-          if (!hasMatchingLanguage) {
-            return false;
-          }
-        }
-
-        // Education filter
-        if (selectedEducations.length > 0) {
-          if (!p.education_level || !selectedEducations.includes(p.education_level)) {
-            return false;
-          }
-        }
-
-        // Religion filter
-        if (selectedReligions.length > 0) {
-          if (!p.religion || !selectedReligions.includes(p.religion)) {
-            return false;
-          }
-        }
-
-        // Ethnicity filter
-        if (selectedEthnicities.length > 0) {
-          if (!p.ethnicity) return false;
-          const profileEthnicities = typeof p.ethnicity === 'string' 
-            ? p.ethnicity.split(',').map(e => e.trim())
-            : Array.isArray(p.ethnicity) 
-              ? p.ethnicity 
-              : [];
-          const hasMatchingEthnicity = selectedEthnicities.some(selectedEth => 
-            profileEthnicities.some((profileEth: string) => 
-              profileEth.toLowerCase().includes(selectedEth.toLowerCase()) ||
-              selectedEth.toLowerCase().includes(profileEth.toLowerCase())
-            )
-          );
-          if (!hasMatchingEthnicity) {
-            return false;
-          }
-        }
-
-        // Children preference filter
-        if (childrenPref !== "any") {
-          if (!p.want_children) return false;
-          if (childrenPref === "yes" && p.want_children !== "yes") return false;
-          if (childrenPref === "no" && p.want_children !== "no") return false;
-          if (childrenPref === "maybe" && p.want_children !== "maybe") return false;
-        }
-
-        // Smoking habits filter
-        if (smokerPref) {
-          if (!p.smoking_habits) return false;
-          const smokingMap: Record<string, string[]> = {
-            "Never": ["never"],
-            "Smoke Socially": ["occasionally", "socially"],
-            "Smoke Smoke": ["regularly"],
-            "Regularly": ["regularly"],
-            "Trying to quit": ["trying_to_quit", "trying to quit"],
-          };
-          const profileSmoking = p.smoking_habits.toLowerCase();
-          const allowedSmoking = smokingMap[smokerPref] || [];
-          const matches = allowedSmoking.some(allowed => 
-            profileSmoking.includes(allowed.toLowerCase())
-          );
-          if (!matches) return false;
-        }
-
-        return true;
-      });
+  /**
+   * Reset all filters to neutral defaults (keeps the sort order)
+   */
+  const resetAllFilters = useCallback(() => {
+    applyFilters({ ...DEFAULT_SEARCH_FILTERS, sortBy });
+  }, [applyFilters, sortBy]);
 
-      // Step 2: Sort
-      const sorted = [...filtered];
-      switch (sortBy) {
-        case "match":
-          sorted.sort((a, b) => b.matchScore - a.matchScore);
-          break;
-        case "newest":
-          break;
-        case "age_asc":
-          sorted.sort((a, b) => {
-            if (a.age === null && b.age === null) return 0;
-            if (a.age === null) return 1;
-            if (b.age === null) return -1;
-            return a.age - b.age;
-          });
-          break;
-        case "age_desc":
-          sorted.sort((a, b) => {
-            if (a.age === null && b.age === null) return 0;
-            if (a.age === null) return 1;
-            if (b.age === null) return -1;
-            return b.age - a.age;
-          });
-          break;
-        case "name":
-          sorted.sort((a, b) => a.name.localeCompare(b.name));
-          break;
-        default:
-          break;
+  /**
+   * Fetch the first page of results from /api/search whenever the filters
+   * change (debounced so slider drags don't fire a request per step)
+   */
+  const searchRequestId = useRef(0);
+  useEffect(() => {
+    const requestId = ++searchRequestId.current;
+    const timer = setTimeout(async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const page = await fetchSearchPage({ filters: currentFilters });
+        if (requestId !== searchRequestId.current) return;
+        const cards = page.results.map(toCardProfile);
+        setProfiles(cards);
+        setCardSrcs(Object.fromEntries(cards.map((p) => [p.id, p.imageUrl])));
+        setNextCursor(page.nextCursor);
+        setTotalResults(page.total);
+      } catch (err) {
+        if (requestId !== searchRequestId.current) return;
+        console.error("Error fetching profiles:", err);
+        setError(err instanceof Error ? err.message : "An unexpected error occurred. Please try again.");
+      } finally {
+        if (requestId === searchRequestId.current) setLoading(false);
       }
+    }, SEARCH_DEBOUNCE_MS);
 
-      return sorted;
-    },
-    [
-      profiles,
-      minAge,
-      maxAge,
-      verifiedOnly,
-      city,
-      selectedGender,
-      selectedRelStatus,
-      heightMin,
-      heightMax,
-      selectedLanguages,
-      selectedEducations,
-      selectedReligions,
-      selectedEthnicities,
-      childrenPref,
-      smokerPref,
-      online,
-      sortBy,
-    ]
-  );
+    return () => clearTimeout(timer);
+  }, [currentFilters]);
+
+  /**
+   * Append the next page of results
+   */
+  const loadMore = async () => {
+    if (!nextCursor || loadingMore) return;
+    const requestId = searchRequestId.current;
+    setLoadingMore(true);
+    try {
+      const page = await fetchSearchPage({ filters: currentFilters, cursor: nextCursor });
+      if (requestId !== searchRequestId.current) return;
+      const cards = page.results.map(toCardProfile);
+      setProfiles((prev) => [...prev, ...cards]);
+      setCardSrcs((prev) => ({ ...prev, ...Object.fromEntries(cards.map((p) => [p.id, p.imageUrl])) }));
+      setNextCursor(page.nextCursor);
+      setTotalResults(page.total);
+    } catch (err) {
+      console.error("Error loading more profiles:", err);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
 
   /**
    * Handle opening meeting request modal
@@ -811,12 +464,7 @@ export default function SearchPage() {
             <div className="flex items-center justify-between">
               <div className="flex items-center gap-3 text-sm text-gray-600">
                 <span className="rounded-full bg-gray-100 px-3 py-1">
-                  {filteredProfiles.length} {filteredProfiles.length === 1 ? 'result' : 'results'}
-                  {filteredProfiles.length !== profiles.length && (
-                    <span className="ml-2 text-xs text-blue-600">
-                      (filtered from {profiles.length})
-                    </span>
-                  )}
+                  {totalResults} {totalResults === 1 ? 'result' : 'results'}
                 </span>
               </div>
               <div className="flex items-center gap-2">
@@ -842,13 +490,13 @@ export default function SearchPage() {
                       {/* Backdrop to close menu */}
                       <div className="fixed inset-0 z-30" onClick={() => setShowSortMenu(false)} />
                       <div className="absolute right-0 top-full z-40 mt-1 w-44 rounded-xl bg-white shadow-xl ring-1 ring-black/5 overflow-hidden">
-                        {[
+                        {([
                           { key: "match", label: "Best Match", icon: "🔥" },
                           { key: "newest", label: "Newest", icon: "🆕" },
                           { key: "age_asc", label: "Youngest First", icon: "⬆️" },
                           { key: "age_desc", label: "Oldest First", icon: "⬇️" },
                           { key: "name", label: "Name A-Z", icon: "🔤" },
-                        ].map((option) => (
+                        ] as { key: SearchSort; label: string; icon: string }[]).map((option) => (
                           <button
                             key={option.key}
                             type="button"
@@ -885,6 +533,8 @@ export default function SearchPage() {
               </div>
             </div>
 
+            <SavedSearches currentFilters={currentFilters} onApply={applyFilters} />
+
             {/* Active filter chips */}
             {activeFilterChips.length > 0 && (
               <div className="mt-3 flex flex-wrap items-center gap-2">
@@ -929,7 +579,7 @@ export default function SearchPage() {
                   </button>
                 </div>
               </div>
-            ) : filteredProfiles.length === 0 ? (
+            ) : profiles.length === 0 ? (
               <div className="mt-8 text-center py-12">
                 <User className="h-12 w-12 text-gray-300 mx-auto mb-4" />
                 <p className="text-gray-600">No profiles match your filters</p>
@@ -937,7 +587,7 @@ export default function SearchPage() {
               </div>
             ) : (
               <div className="mt-6 grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-3">
-                {filteredProfiles.map((p) => {
+                {profiles.map((p) => {
                   const imageSrc = cardSrcs[p.id] || p.imageUrl;
                   return (
                     <div
@@ -1005,6 +655,7 @@ export default function SearchPage() {
                             </h3>
                             <p className="mt-2 truncate text-[1.05rem] font-medium text-white/88 drop-shadow-[0_4px_14px_rgba(0,0,0,0.32)]">
                               {p.city || "Location unavailable"}
+                              {typeof p.distanceKm === "number" ? ` · ${p.distanceKm} km away` : ""}
                             </p>
                           </div>
                         </div>
@@ -1014,6 +665,20 @@ export default function SearchPage() {
                 })}
               </div>
             )}
+
+            {!loading && !error && nextCursor && (
+              <div className="mt-6 flex justify-center">
+                <button
+                  type="button"
+                  onClick={loadMore}
+                  disabled={loadingMore}
+                  className="inline-flex items-center gap-2 rounded-full border border-gray-200 bg-white px-6 py-2 text-sm font-medium text-[#1f419a] shadow-sm hover:bg-gray-50 disabled:opacity-50"
+                >
+                  {loadingMore && <Loader2 className="h-4 w-4 animate-spin" />}
+                  Load more
+                </button>
+              </div>
+            )}
           </div>
         </section>
         {showFilters && (
@@ -1097,9 +762,14 @@ export default function SearchPage() {
                     placeholder="Enter city or country..."
                   />
                   <div className="mt-3 flex items-center justify-between text-sm text-gray-600">
-                    <span>Distance: up to <span className="font-medium">{distance} mi</span></span>
+                    <span>
+                      Distance:{" "}
+                      <span className="font-medium">
+                        {distance < ANY_DISTANCE_KM ? `up to ${distance} km` : "Any distance"}
+                      </span>
+                    </span>
                   </div>
-                  <input type="range" min={5} max={500} value={distance} onChange={(e) => setDistance(Number(e.target.value))} className="range-brand mt-1 h-2 w-full cursor-pointer" />
+                  <input type="range" min={5} max={ANY_DISTANCE_KM} step={5} value={distance} onChange={(e) => setDistance(Number(e.target.value))} className="range-brand mt-1 h-2 w-full cursor-pointer" />
                 </div>
 
                 {/* --- Match Options --- */}
@@ -1287,12 +957,12 @@ export default function SearchPage() {
                 <div className="border-t border-gray-100 pt-4">
                   <div className="text-xs font-semibold uppercase tracking-wider text-gray-500 mb-2">Want Children</div>
                   <div className="flex flex-wrap gap-2">
-                    {[
+                    {([
                       { key: "any", label: "Any" },
                       { key: "yes", label: "Want kids" },
                       { key: "no", label: "Don't want kids" },
                       { key: "maybe", label: "Not sure yet" },
-                    ].map((opt) => (
+                    ] as { key: ChildrenFilter; label: string }[]).map((opt) => (
                       <button
                         key={opt.key}
                         type="button"
@@ -1349,7 +1019,7 @@ export default function SearchPage() {
                 </button>
                 <div className="flex items-center gap-2">
                   {activeFilterCount > 0 && (
-                    <span className="text-xs text-gray-400">{filteredProfiles.length} result{filteredProfiles.length !== 1 ? "s" : ""}</span>
+                    <span className="text-xs text-gray-400">{totalResults} result{totalResults !== 1 ? "s" : ""}</span>
                   )}
                   <button 
                     type="button" 
@@ -1373,6 +1043,7 @@ export default function SearchPage() {
         matchLabel={selectedProfile?.matchLabel}
         matchColor={selectedProfile?.matchColor}
         matchBgColor={selectedProfile?.matchBgColor}
+        matchBreakdown={selectedProfile?.matchBreakdown}
         onRequestMeeting={(id) => {
           setSelectedProfile(null); // Close detail modal first
           const p = profiles.find((pr) => pr.user_id === id);
@@ -7,9 +7,11 @@
  * - Authentication check with redirect to login if needed
  * - Host profile display with type/tier
  * - Real-time statistics (meetings, success rate, earnings)
- * - Earnings summary (pending and paid)
+ * - Earnings summary (under review, awaiting payout and paid)
+ * - Earnings and payout history with monthly CSV/PDF statements
  * - Meetings list with report status
  * - Meeting report submission modal
+ * - Group session publishing and registration overview
  * - Two-factor authentication indicator
  */
 
@@ -17,6 +19,14 @@ import { useEffect, useState, useCallback } from "react";
 import { useRouter } from "next/navigation";
 import { supabase } from "@/lib/supabase";
 import { useToast } from "@/components/ToastProvider";
+import {
+  describeHostEarningStatus,
+  MEETING_FEE_CURRENCY,
+  type HostEarningRow,
+  type HostEarningStatus,
+  type HostPayoutRow,
+} from "@/lib/host-earnings/earnings";
+import { formatCurrencyAmount } from "@/lib/payments/currencies";
 import {
   BarChart3,
   TrendingUp,
@@ -30,6 +40,8 @@ import {
   FileText,
   Shield,
   LogOut,
+  Plus,
+  Download,
 } from "lucide-react";
 
 // Types
@@ -56,15 +68,19 @@ interface HostMeeting {
   updated_at: string;
 }
 
-interface HostEarning {
-  id: string;
-  host_id: string;
+interface HostGroupSession {
   meeting_id: string;
-  amount: number;
-  status: "pending" | "processing" | "paid" | "failed";
-  paid_at: string | null;
-  created_at: string;
-  updated_at: string;
+  title: string;
+  capacity: number;
+  gender_rule: "open" | "balanced";
+  scheduled_at: string | null;
+  status: string | null;
+  registrations: {
+    user_id: string;
+    name: string;
+    gender: string | null;
+    status: "registered" | "waitlisted";
+  }[];
 }
 
 interface HostStats {
@@ -72,7 +88,9 @@ interface HostStats {
   successfulMeetings: number;
   successRate: number;
   pendingReports: number;
+  /** Earnings in kobo; meeting fees are priced in NGN. */
   totalEarnings: number;
+  heldEarnings: number;
   pendingEarnings: number;
   paidEarnings: number;
 }
@@ -84,13 +102,15 @@ export default function HostDashboard() {
   const [loading, setLoading] = useState(true);
   const [host, setHost] = useState<HostProfile | null>(null);
   const [meetings, setMeetings] = useState<HostMeeting[]>([]);
-  const [, setEarnings] = useState<HostEarning[]>([]);
+  const [earnings, setEarnings] = useState<HostEarningRow[]>([]);
+  const [payouts, setPayouts] = useState<HostPayoutRow[]>([]);
   const [stats, setStats] = useState<HostStats>({
     totalMeetings: 0,
     successfulMeetings: 0,
     successRate: 0,
     pendingReports: 0,
     totalEarnings: 0,
+    heldEarnings: 0,
     pendingEarnings: 0,
     paidEarnings: 0,
   });
@@ -141,31 +161,38 @@ export default function HostDashboard() {
         setMeetings(meetingsData as HostMeeting[]);
       }
 
-      // Fetch earnings
-      const { data: earningsData, error: earningsError } = await supabase
-        .from("host_earnings")
-        .select("*")
-        .eq("host_id", hostData.id)
-        .order("created_at", { ascending: false });
-
-      if (!earningsError && earningsData) {
-        setEarnings(earningsData as HostEarning[]);
+      // Fetch earnings and payouts
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+      const earningsResponse = await fetch("/api/host/earnings", {
+        headers: { Authorization: `Bearer ${session?.access_token || ""}` },
+      });
+      const earningsData: {
+        summary?: Record<HostEarningStatus, Record<string, number>>;
+        earnings?: HostEarningRow[];
+        payouts?: HostPayoutRow[];
+      } | null = earningsResponse.ok ? await earningsResponse.json().catch(() => null) : null;
+
+      if (earningsData) {
+        setEarnings(earningsData.earnings || []);
+        setPayouts(earningsData.payouts || []);
       }
 
       // Calculate statistics
-      if (meetingsData && earningsData) {
+      if (meetingsData && earningsData?.summary) {
+        const summary = earningsData.summary;
         const successful = (meetingsData as HostMeeting[]).filter(
           (m) => m.success_marked === true
         ).length;
         const pending = (meetingsData as HostMeeting[]).filter(
           (m) => !m.report_submitted
         ).length;
-        const pendingEarningsAmount = (earningsData as HostEarning[])
-          .filter((e) => e.status === "pending")
-          .reduce((sum, e) => sum + e.amount, 0);
-        const paidEarningsAmount = (earningsData as HostEarning[])
-          .filter((e) => e.status === "paid")
-          .reduce((sum, e) => sum + e.amount, 0);
+        const inStatus = (status: HostEarningStatus) =>
+          summary[status]?.[MEETING_FEE_CURRENCY] || 0;
+        const heldEarningsAmount = inStatus("held");
+        const pendingEarningsAmount = inStatus("pending") + inStatus("processing");
+        const paidEarningsAmount = inStatus("paid");
         const totalEarningsAmount = pendingEarningsAmount + paidEarningsAmount;
 
         setStats({
@@ -177,6 +204,7 @@ export default function HostDashboard() {
               : 0,
           pendingReports: pending,
           totalEarnings: totalEarningsAmount,
+          heldEarnings: heldEarningsAmount,
           pendingEarnings: pendingEarningsAmount,
           paidEarnings: paidEarningsAmount,
         });
@@ -389,7 +417,7 @@ export default function HostDashboard() {
               <div>
                 <p className="text-gray-600 text-sm font-medium">Total Earnings</p>
                 <p className="text-3xl font-bold text-gray-900 mt-2">
-                  ${stats.totalEarnings.toFixed(2)}
+                  {formatCurrencyAmount(stats.totalEarnings, MEETING_FEE_CURRENCY)}
                 </p>
               </div>
               <TrendingUp className="w-10 h-10 text-purple-600 opacity-20" />
@@ -398,14 +426,25 @@ export default function HostDashboard() {
         </div>
 
         {/* Earnings Summary */}
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+          <div className="bg-white rounded-lg shadow p-6">
+            <div className="flex items-center gap-4">
+              <AlertCircle className="w-10 h-10 text-orange-500" />
+              <div>
+                <p className="text-gray-600 text-sm">Under Review</p>
+                <p className="text-2xl font-bold text-gray-900">
+                  {formatCurrencyAmount(stats.heldEarnings, MEETING_FEE_CURRENCY)}
+                </p>
+              </div>
+            </div>
+          </div>
           <div className="bg-white rounded-lg shadow p-6">
             <div className="flex items-center gap-4">
               <Clock className="w-10 h-10 text-yellow-600" />
               <div>
                 <p className="text-gray-600 text-sm">Pending Payout</p>
                 <p className="text-2xl font-bold text-gray-900">
-                  ${stats.pendingEarnings.toFixed(2)}
+                  {formatCurrencyAmount(stats.pendingEarnings, MEETING_FEE_CURRENCY)}
                 </p>
               </div>
             </div>
@@ -416,13 +455,15 @@ export default function HostDashboard() {
               <div>
                 <p className="text-gray-600 text-sm">Already Paid</p>
                 <p className="text-2xl font-bold text-gray-900">
-                  ${stats.paidEarnings.toFixed(2)}
+                  {formatCurrencyAmount(stats.paidEarnings, MEETING_FEE_CURRENCY)}
                 </p>
               </div>
             </div>
           </div>
         </div>
 
+        <EarningsPanel earnings={earnings} payouts={payouts} />
+
         {/* Meetings List */}
         <div className="bg-white rounded-lg shadow overflow-hidden">
           <div className="px-6 py-4 border-b border-gray-200">
@@ -512,6 +553,7 @@ export default function HostDashboard() {
             </div>
           )}
         </div>
+        <GroupSessionsPanel />
       </main>
 
       {/* Report Modal */}
@@ -651,3 +693,305 @@ function ReportModal({
     </div>
   );
 }
+
+// Group Sessions Panel Component
+function GroupSessionsPanel() {
+  const { toast } = useToast();
+  const [sessions, setSessions] = useState<HostGroupSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+  const [form, setForm] = useState({
+    title: "",
+    description: "",
+    scheduledAt: "",
+    capacity: "10",
+    genderRule: "balanced",
+  });
+
+  const authHeaders = async () => {
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+    return {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${session?.access_token || ""}`,
+    };
+  };
+
+  const fetchSessions = useCallback(async () => {
+    try {
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+      const response = await fetch("/api/host/group-sessions", {
+        headers: { Authorization: `Bearer ${session?.access_token || ""}` },
+      });
+      const data = await response.json().catch(() => ({}));
+      if (response.ok) {
+        setSessions(Array.isArray(data.sessions) ? data.sessions : []);
+      }
+    } catch (error) {
+      console.error("Error loading group sessions:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void fetchSessions();
+  }, [fetchSessions]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreating(true);
+    try {
+      const response = await fetch("/api/host/group-sessions", {
+        method: "POST",
+        headers: await authHeaders(),
+        body: JSON.stringify({
+          title: form.title,
+          description: form.description || undefined,
+          scheduled_at: form.scheduledAt ? new Date(form.scheduledAt).toISOString() : "",
+          capacity: Number(form.capacity),
+          gender_rule: form.genderRule,
+        }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        toast.error(data.message || data.error || "Failed to publish the session.");
+        return;
+      }
+      toast.success("Group session published.");
+      setForm({ ...form, title: "", description: "", scheduledAt: "" });
+      await fetchSessions();
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow overflow-hidden mt-8">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <Users className="w-6 h-6 text-blue-600" />
+          Group Sessions
+        </h3>
+      </div>
+
+      <form onSubmit={handleCreate} className="grid grid-cols-1 md:grid-cols-2 gap-4 px-6 py-4 border-b border-gray-200">
+        <input
+          value={form.title}
+          onChange={(e) => setForm({ ...form, title: e.target.value })}
+          placeholder="Session title"
+          maxLength={80}
+          required
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <input
+          type="datetime-local"
+          value={form.scheduledAt}
+          onChange={(e) => setForm({ ...form, scheduledAt: e.target.value })}
+          required
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <input
+          type="number"
+          min={4}
+          max={20}
+          step={form.genderRule === "balanced" ? 2 : 1}
+          value={form.capacity}
+          onChange={(e) => setForm({ ...form, capacity: e.target.value })}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <select
+          value={form.genderRule}
+          onChange={(e) => setForm({ ...form, genderRule: e.target.value })}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="balanced">Balanced (equal women and men)</option>
+          <option value="open">Open (first come, first served)</option>
+        </select>
+        <textarea
+          value={form.description}
+          onChange={(e) => setForm({ ...form, description: e.target.value })}
+          placeholder="What should members expect? (optional)"
+          rows={2}
+          maxLength={1000}
+          className="md:col-span-2 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <div className="md:col-span-2 flex justify-end">
+          <button
+            type="submit"
+            disabled={creating}
+            className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition"
+          >
+            {creating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+            Publish Session
+          </button>
+        </div>
+      </form>
+
+      {loading ? (
+        <div className="px-6 py-8 flex justify-center">
+          <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+        </div>
+      ) : sessions.length === 0 ? (
+        <div className="px-6 py-8 text-center text-gray-600">No group sessions yet</div>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {sessions.map((session) => {
+            const seated = session.registrations.filter((entry) => entry.status === "registered");
+            const waitlisted = session.registrations.length - seated.length;
+            return (
+              <li key={session.meeting_id} className="px-6 py-4">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div>
+                    <p className="font-semibold text-gray-900">{session.title}</p>
+                    <p className="text-sm text-gray-600">
+                      {session.scheduled_at ? new Date(session.scheduled_at).toLocaleString() : "TBD"} ·{" "}
+                      {session.gender_rule === "balanced" ? "Balanced" : "Open"} · {session.status}
+                    </p>
+                  </div>
+                  <p className="text-sm text-gray-700">
+                    {seated.length}/{session.capacity} seats · {waitlisted} waitlisted
+                  </p>
+                </div>
+                {seated.length > 0 && (
+                  <p className="mt-2 text-sm text-gray-500">
+                    {seated.map((entry) => entry.name).join(", ")}
+                  </p>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+// Earnings Panel Component
+function EarningsPanel({
+  earnings,
+  payouts,
+}: {
+  earnings: HostEarningRow[];
+  payouts: HostPayoutRow[];
+}) {
+  const { toast } = useToast();
+  const [month, setMonth] = useState(() => new Date().toISOString().slice(0, 7));
+  const [downloading, setDownloading] = useState<"csv" | "pdf" | null>(null);
+
+  const handleDownload = async (format: "csv" | "pdf") => {
+    try {
+      setDownloading(format);
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+      const response = await fetch(
+        `/api/host/earnings/statement?month=${encodeURIComponent(month)}&format=${format}`,
+        { headers: { Authorization: `Bearer ${session?.access_token || ""}` } }
+      );
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to download statement");
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `matchindeed-host-statement-${month}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Error downloading statement:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to download statement");
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow overflow-hidden mb-8">
+      <div className="px-6 py-4 border-b border-gray-200 flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <DollarSign className="w-6 h-6 text-green-600" />
+          Earnings &amp; Payouts
+        </h3>
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="month"
+            value={month}
+            onChange={(e) => setMonth(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          {(["csv", "pdf"] as const).map((format) => (
+            <button
+              key={format}
+              onClick={() => handleDownload(format)}
+              disabled={!month || downloading !== null}
+              className="inline-flex items-center gap-2 px-3 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50 transition"
+            >
+              {downloading === format ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Download className="w-4 h-4" />
+              )}
+              {format.toUpperCase()}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 divide-y lg:divide-y-0 lg:divide-x divide-gray-200">
+        <div>
+          <p className="px-6 pt-4 text-sm font-medium text-gray-700">Recent earnings</p>
+          {earnings.length === 0 ? (
+            <p className="px-6 py-8 text-center text-gray-600">No earnings yet</p>
+          ) : (
+            <ul className="divide-y divide-gray-100 max-h-80 overflow-y-auto">
+              {earnings.map((earning) => (
+                <li key={earning.id} className="px-6 py-3 flex items-center justify-between gap-3">
+                  <div>
+                    <p className="text-sm font-mono text-gray-900">{earning.meeting_id.slice(0, 8)}...</p>
+                    <p className="text-xs text-gray-500">
+                      {new Date(earning.earned_at).toLocaleDateString()} ·{" "}
+                      {describeHostEarningStatus(earning.status)}
+                    </p>
+                  </div>
+                  <p className="text-sm font-semibold text-gray-900">
+                    {formatCurrencyAmount(earning.amount_cents, earning.currency)}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+        <div>
+          <p className="px-6 pt-4 text-sm font-medium text-gray-700">Payouts</p>
+          {payouts.length === 0 ? (
+            <p className="px-6 py-8 text-center text-gray-600">No payouts yet</p>
+          ) : (
+            <ul className="divide-y divide-gray-100 max-h-80 overflow-y-auto">
+              {payouts.map((payout) => (
+                <li key={payout.id} className="px-6 py-3 flex items-center justify-between gap-3">
+                  <div>
+                    <p className="text-sm text-gray-900 capitalize">{payout.status === "pending" ? "In progress" : payout.status}</p>
+                    <p className="text-xs text-gray-500">
+                      {new Date(payout.settled_at || payout.created_at).toLocaleDateString()} ·{" "}
+                      {payout.earning_count} meetings
+                      {payout.reference ? ` · ${payout.reference}` : ""}
+                    </p>
+                  </div>
+                  <p className="text-sm font-semibold text-gray-900">
+                    {formatCurrencyAmount(payout.amount_cents, payout.currency)}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
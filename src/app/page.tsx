@@ -40,7 +40,19 @@ import AgeSelect from "@/components/AgeSelect";
 import GooglePlacesAutocomplete from "@/components/GooglePlacesAutocomplete";
 import { isLikelyGoogleSuggestedLocation, normalizeLocation } from "@/lib/location";
 import { supabase } from "@/lib/supabase";
+import {
+  CURRENCY_TABLE,
+  formatCurrencyAmount,
+  normalizeCurrencyCode,
+  SUPPORTED_CURRENCIES,
+  type CurrencyKey,
+} from "@/lib/payments/currencies";
 import { getApiCurrencyForCountryCode } from "@/lib/payments/region-currency";
+import {
+  DEFAULT_SUBSCRIPTION_PRICING,
+  type TierId,
+  type TierPricing,
+} from "@/lib/subscription/config";
 
 type NextLinkProps = ComponentProps<typeof NextLink>;
 
@@ -276,15 +288,10 @@ export default function Home() {
   const authMenuRef = useRef<HTMLDivElement | null>(null);
 
   // Pricing state — fetched from API, currency from IP (user can override via dropdown)
-  const [pricing, setPricing] = useState<{
-    basic: { ngn: number; usd: number };
-    standard: { ngn: number; usd: number };
-    premium: { ngn: number; usd: number };
-    vip: { ngn: number; usd: number };
-  } | null>(null);
+  const [pricing, setPricing] = useState<Record<TierId, TierPricing> | null>(null);
   const [pricingLoading, setPricingLoading] = useState(true);
   const [geoLoaded, setGeoLoaded] = useState(false);
-  const [currency, setCurrency] = useState<"ngn" | "usd">("usd");
+  const [currency, setCurrency] = useState<CurrencyKey>("usd");
   const [currencySelectorOpen, setCurrencySelectorOpen] = useState(false);
 
   // Defensive: when Supabase's password-recovery email redirects users to the
@@ -400,7 +407,7 @@ export default function Home() {
     router.push("/");
   }, [router]);
 
-  // Fetch pricing and detect currency from IP (Nigeria → NGN, everywhere else → USD)
+  // Fetch pricing and detect currency from IP (local currency where we price one, else USD)
   useEffect(() => {
     if (!SHOW_HOME_PRICING_SECTION) {
       return;
@@ -430,24 +437,19 @@ export default function Home() {
           }
         }
 
-        setCurrency(c === "ngn" ? c : "usd");
+        setCurrency((normalizeCurrencyCode(c)?.toLowerCase() as CurrencyKey) || "usd");
         setGeoLoaded(true);
         if (pricingData.tiers) {
-          const map: Record<string, { ngn: number; usd: number }> = {};
-          for (const t of pricingData.tiers) {
-            map[t.id] = t.pricing;
+          const map = { ...DEFAULT_SUBSCRIPTION_PRICING };
+          for (const t of pricingData.tiers as { id: TierId; pricing: TierPricing }[]) {
+            if (map[t.id]) map[t.id] = { ...map[t.id], ...t.pricing };
           }
-          setPricing(map as { basic: { ngn: number; usd: number }; standard: { ngn: number; usd: number }; premium: { ngn: number; usd: number }; vip: { ngn: number; usd: number } });
+          setPricing(map);
         }
       } catch {
         // Fallback to client-spec defaults; keep USD if geo fails
         setGeoLoaded(true);
-        setPricing({
-          basic: { ngn: 7500, usd: 9.99 },
-          standard: { ngn: 15000, usd: 19.99 },
-          premium: { ngn: 27000, usd: 34.99 },
-          vip: { ngn: 1500000, usd: 1000 },
-        });
+        setPricing(DEFAULT_SUBSCRIPTION_PRICING);
       } finally {
         setPricingLoading(false);
       }
@@ -456,10 +458,11 @@ export default function Home() {
   }, []);
 
   /** Currency options for the selector dropdown */
-  const currencyOptions = [
-    { value: "ngn" as const, label: "₦ NGN", full: "Nigerian Naira" },
-    { value: "usd" as const, label: "$ USD", full: "US Dollars" },
-  ];
+  const currencyOptions = SUPPORTED_CURRENCIES.map((code) => ({
+    value: code.toLowerCase() as CurrencyKey,
+    label: `${CURRENCY_TABLE[code].symbol} ${code}`,
+    full: CURRENCY_TABLE[code].name,
+  }));
 
   /** Handle search form submission */
   const handleSubmit = (e: FormEvent<HTMLFormElement>) => {
@@ -1232,19 +1235,11 @@ export default function Home() {
                 },
               ] as const
             ).map((plan) => {
-              const p =
-                pricing?.[plan.id] ??
-                {
-                  basic: { ngn: 7500, usd: 9.99 },
-                  standard: { ngn: 15000, usd: 19.99 },
-                  premium: { ngn: 27000, usd: 34.99 },
-                  vip: { ngn: 1500000, usd: 1000 },
-                }[plan.id];
-              const fmt =
-                currency === "ngn"
-                  ? (n: number) => `₦${n.toLocaleString()}`
-                  : (n: number) => `$${n.toLocaleString()}`;
-              const priceStr = fmt(p[currency]);
+              const p = pricing?.[plan.id] ?? DEFAULT_SUBSCRIPTION_PRICING[plan.id];
+              const amount = p[currency];
+              const priceStr = formatCurrencyAmount(Math.round(amount * 100), currency, {
+                fractionDigits: Number.isInteger(amount) ? 0 : 2,
+              });
               const period = "/month";
               return (
               <div
@@ -0,0 +1,58 @@
+"use client";
+
+/**
+ * MatchBreakdown
+ *
+ * Explains a match percentage dimension by dimension, using the
+ * breakdown returned by the shared scoring engine
+ * (`@/lib/matching/scoring`). Rendered by Top Picks, Discover and
+ * Search through ProfileDetailModal.
+ *
+ * Usage:
+ *   <MatchBreakdown breakdown={match.breakdown} />
+ */
+
+import { CheckCircle, Sparkles, XCircle } from "lucide-react";
+import type { MatchDimensionScore } from "@/lib/matching/scoring";
+
+interface MatchBreakdownProps {
+  breakdown: MatchDimensionScore[];
+  /** Optional heading override */
+  title?: string;
+}
+
+export default function MatchBreakdown({
+  breakdown,
+  title = "Why you match",
+}: MatchBreakdownProps) {
+  if (breakdown.length === 0) return null;
+
+  return (
+    <div className="rounded-xl border border-gray-100 bg-gray-50/60 p-4">
+      <h3 className="text-sm font-semibold text-gray-900 mb-3 flex items-center gap-2">
+        <Sparkles className="h-4 w-4 text-[#1f419a]" />
+        {title}
+      </h3>
+      <ul className="space-y-2">
+        {breakdown.map((dimension) => (
+          <li key={dimension.id} className="flex items-center gap-2 text-sm">
+            {dimension.matched ? (
+              <CheckCircle className="h-4 w-4 flex-shrink-0 text-emerald-600" />
+            ) : (
+              <XCircle className="h-4 w-4 flex-shrink-0 text-gray-400" />
+            )}
+            <span className={dimension.matched ? "text-gray-800" : "text-gray-500"}>
+              {dimension.label}
+            </span>
+            <div className="ml-auto h-1.5 w-20 overflow-hidden rounded-full bg-gray-200">
+              <div
+                className={`h-full rounded-full ${dimension.matched ? "bg-emerald-500" : "bg-gray-400"}`}
+                style={{ width: `${Math.round(dimension.score * 100)}%` }}
+              />
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -53,6 +53,8 @@ import {
 } from "lucide-react";
 import { supabase } from "@/lib/supabase";
 import ReportUserModal from "@/components/ReportUserModal";
+import MatchBreakdown from "@/components/MatchBreakdown";
+import type { MatchDimensionScore } from "@/lib/matching/scoring";
 import { formatRelationshipStatusLabel } from "@/lib/relationship-status";
 import { NO_ACTIVE_MEETING_AVAILABILITY_BUTTON_LABEL } from "@/lib/meetings/request-availability";
 import {
@@ -106,6 +108,8 @@ interface ProfileDetailModalProps {
   matchLabel?: string;
   matchColor?: string;
   matchBgColor?: string;
+  /** Per-dimension explanation of the match score */
+  matchBreakdown?: MatchDimensionScore[];
   /** Action handlers */
   onRequestMeeting?: (userId: string) => void;
   canRequestMeeting?: boolean;
@@ -157,6 +161,7 @@ export default function ProfileDetailModal({
   matchLabel,
   matchColor,
   matchBgColor,
+  matchBreakdown,
   onRequestMeeting,
   canRequestMeeting = true,
 }: ProfileDetailModalProps) {
@@ -577,6 +582,11 @@ export default function ProfileDetailModal({
                   )}
                 </div>
 
+                {/* Match breakdown */}
+                {matchBreakdown && matchBreakdown.length > 0 && (
+                  <MatchBreakdown breakdown={matchBreakdown} />
+                )}
+
                 {/* About */}
                 {(profile.about_yourself ||
                   personalityPromptEntries.length > 0 ||
@@ -0,0 +1,272 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { CalendarClock, Check, Loader2, X } from "lucide-react";
+
+/** Most alternate times one proposal may offer (matches the API). */
+const MAX_SLOTS = 3;
+
+type AvailableSlot = {
+  id: string;
+  scheduled_at: string;
+};
+
+/**
+ * Props for the RescheduleProposalModal component
+ */
+type RescheduleProposalModalProps = {
+  /** Whether the modal is open */
+  isOpen: boolean;
+  /** Callback to close the modal */
+  onClose: () => void;
+  /** Meeting to reschedule */
+  meetingId: string;
+  /** First name of the other participant, for the copy */
+  partnerName: string;
+  /** Callback once the proposal is sent */
+  onProposed: (proposal: {
+    id: string;
+    proposed_by: string;
+    responder_id: string;
+    proposed_slots: { slot_id: string; scheduled_at: string }[];
+    message: string | null;
+  }) => void;
+};
+
+const formatSlot = (value: string) =>
+  new Date(value).toLocaleString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    hour12: true,
+  });
+
+/**
+ * RescheduleProposalModal - Lets a participant of a confirmed meeting pick
+ * up to three of the other participant's open slots as new times. The
+ * meeting keeps its original time until the other participant accepts one;
+ * no credits are charged or refunded.
+ */
+export default function RescheduleProposalModal({
+  isOpen,
+  onClose,
+  meetingId,
+  partnerName,
+  onProposed,
+}: RescheduleProposalModalProps) {
+  const [slots, setSlots] = useState<AvailableSlot[]>([]);
+  const [selectedSlotIds, setSelectedSlotIds] = useState<string[]>([]);
+  const [message, setMessage] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || !meetingId) return;
+
+    let cancelled = false;
+    const loadSlots = async () => {
+      setLoading(true);
+      setError(null);
+      setSelectedSlotIds([]);
+      setMessage("");
+      try {
+        const { supabase } = await import("@/lib/supabase");
+        const {
+          data: { session },
+        } = await supabase.auth.getSession();
+
+        const response = await fetch(
+          `/api/meetings/reschedule?meeting_id=${encodeURIComponent(meetingId)}`,
+          { headers: { Authorization: `Bearer ${session?.access_token || ""}` } }
+        );
+        const data = await response.json().catch(() => ({}));
+        if (cancelled) return;
+
+        if (!response.ok) {
+          setError(data.message || data.error || "Unable to load available times.");
+          setSlots([]);
+          return;
+        }
+        setSlots(Array.isArray(data.slots) ? (data.slots as AvailableSlot[]) : []);
+      } catch {
+        if (!cancelled) setError("Unable to load available times.");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    void loadSlots();
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, meetingId]);
+
+  const toggleSlot = (slotId: string) => {
+    setSelectedSlotIds((current) =>
+      current.includes(slotId)
+        ? current.filter((id) => id !== slotId)
+        : current.length >= MAX_SLOTS
+          ? current
+          : [...current, slotId]
+    );
+  };
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const { supabase } = await import("@/lib/supabase");
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+
+      const response = await fetch("/api/meetings/reschedule", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${session?.access_token || ""}`,
+        },
+        body: JSON.stringify({
+          meeting_id: meetingId,
+          slot_ids: selectedSlotIds,
+          message: message.trim() || undefined,
+        }),
+      });
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        setError(data.message || data.error || "Failed to propose new times.");
+        return;
+      }
+
+      onProposed(data.proposal);
+    } catch (err) {
+      console.error("Error proposing reschedule:", err);
+      setError("An error occurred. Please try again.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-[80] flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className="mx-4 flex max-h-[90vh] w-full max-w-md flex-col overflow-hidden rounded-2xl bg-white shadow-2xl">
+        {/* Header */}
+        <div className="flex items-center justify-between border-b border-gray-100 p-4">
+          <div className="flex items-center gap-3">
+            <div className="flex h-10 w-10 items-center justify-center rounded-xl bg-[#1f419a]/10">
+              <CalendarClock className="h-5 w-5 text-[#1f419a]" />
+            </div>
+            <div>
+              <h3 className="font-bold text-gray-900">Propose a New Time</h3>
+              <p className="text-xs text-gray-500">
+                Pick up to {MAX_SLOTS} of {partnerName}&apos;s open times
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={submitting}
+            className="rounded-lg p-1.5 hover:bg-gray-100"
+          >
+            <X className="h-5 w-5 text-gray-400" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 space-y-4 overflow-y-auto p-4">
+          <p className="rounded-xl bg-gray-50 px-3 py-2.5 text-xs text-gray-600">
+            Your meeting keeps its current time until {partnerName} accepts one of these.
+            Credits are not charged or refunded for a reschedule.
+          </p>
+
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-5 w-5 animate-spin text-[#1f419a]" />
+            </div>
+          ) : slots.length === 0 ? (
+            <p className="py-6 text-center text-sm text-gray-500">
+              {partnerName} has no open times right now.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {slots.map((slot) => {
+                const selected = selectedSlotIds.includes(slot.id);
+                return (
+                  <button
+                    key={slot.id}
+                    type="button"
+                    onClick={() => toggleSlot(slot.id)}
+                    disabled={!selected && selectedSlotIds.length >= MAX_SLOTS}
+                    className={`flex w-full items-center justify-between rounded-xl border px-3 py-2.5 text-left text-sm transition-colors disabled:opacity-40 ${
+                      selected
+                        ? "border-[#1f419a] bg-[#1f419a]/5 text-[#1f419a]"
+                        : "border-gray-200 text-gray-700 hover:bg-gray-50"
+                    }`}
+                  >
+                    {formatSlot(slot.scheduled_at)}
+                    {selected && <Check className="h-4 w-4" />}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
+          <div>
+            <label className="mb-1.5 block text-sm font-medium text-gray-700">
+              Note (optional)
+            </label>
+            <textarea
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              placeholder="Let them know why you need a new time"
+              rows={2}
+              maxLength={500}
+              className="w-full resize-none rounded-xl border border-gray-200 bg-gray-50 px-3 py-2.5 text-sm placeholder:text-gray-400 focus:border-[#1f419a] focus:outline-none focus:ring-2 focus:ring-[#1f419a]/20"
+            />
+          </div>
+
+          {error && (
+            <div className="rounded-xl border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+              {error}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex gap-3 border-t border-gray-100 p-4">
+          <button
+            onClick={onClose}
+            disabled={submitting}
+            className="flex-1 rounded-xl border border-gray-200 py-2.5 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            Keep Current Time
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={submitting || selectedSlotIds.length === 0}
+            className="flex flex-1 items-center justify-center gap-2 rounded-xl bg-gradient-to-r from-[#1f419a] to-[#2a44a3] py-2.5 text-sm font-semibold text-white shadow-md transition-all hover:shadow-lg disabled:opacity-50"
+          >
+            {submitting ? (
+              <>
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Sending...
+              </>
+            ) : (
+              <>
+                <CalendarClock className="h-4 w-4" />
+                Send {selectedSlotIds.length || ""} Option{selectedSlotIds.length === 1 ? "" : "s"}
+              </>
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,236 @@
+"use client";
+
+/**
+ * SavedSearches
+ *
+ * Lets a member save the Search page's current filters under a name,
+ * re-apply a saved search, switch its new-result alerts on or off, and
+ * delete it. Backed by `/api/saved-searches`.
+ *
+ * When the page is opened from an alert (`?saved=<id>`), that search is
+ * applied once the list loads.
+ *
+ * Usage:
+ *   <SavedSearches currentFilters={filters} onApply={applyFilters} />
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { Bell, BellOff, Bookmark, Loader2, Trash2, X } from "lucide-react";
+import { supabase } from "@/lib/supabase";
+import { useToast } from "@/components/ToastProvider";
+import {
+  countActiveSearchFilters,
+  type SearchFilters,
+} from "@/lib/search/filters";
+import type { SavedSearch } from "@/lib/search/saved-searches";
+
+interface SavedSearchesProps {
+  currentFilters: SearchFilters;
+  /** Must be stable (e.g. wrapped in useCallback); the list loads once per instance. */
+  onApply: (filters: SearchFilters) => void;
+}
+
+async function savedSearchRequest(
+  method: "GET" | "POST" | "PATCH" | "DELETE",
+  options: { body?: Record<string, unknown>; query?: string } = {}
+) {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  if (!session?.access_token) {
+    throw new Error("Please sign in again to manage saved searches.");
+  }
+
+  const res = await fetch(`/api/saved-searches${options.query || ""}`, {
+    method,
+    headers: {
+      Authorization: `Bearer ${session.access_token}`,
+      ...(options.body ? { "Content-Type": "application/json" } : {}),
+    },
+    body: options.body ? JSON.stringify(options.body) : undefined,
+  });
+
+  const payload = await res.json().catch(() => null);
+  if (!res.ok) {
+    throw new Error(payload?.error || "Saved searches are unavailable right now.");
+  }
+  return payload;
+}
+
+export default function SavedSearches({ currentFilters, onApply }: SavedSearchesProps) {
+  const { toast } = useToast();
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [showSaveForm, setShowSaveForm] = useState(false);
+  const [name, setName] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const applySearch = useCallback(
+    (search: SavedSearch) => {
+      setActiveId(search.id);
+      onApply(search.filters);
+    },
+    [onApply]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const payload = await savedSearchRequest("GET");
+        if (cancelled) return;
+        const list = (payload?.saved_searches || []) as SavedSearch[];
+        setSavedSearches(list);
+
+        const requestedId = new URLSearchParams(window.location.search).get("saved");
+        const requested = requestedId ? list.find((search) => search.id === requestedId) : null;
+        if (requested) applySearch(requested);
+      } catch (err) {
+        console.error("Error loading saved searches:", err);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [applySearch]);
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+    setSaving(true);
+    try {
+      const payload = await savedSearchRequest("POST", {
+        body: { name, filters: currentFilters, alerts_enabled: true },
+      });
+      const saved = payload.saved_search as SavedSearch;
+      setSavedSearches((prev) => [saved, ...prev]);
+      setActiveId(saved.id);
+      setName("");
+      setShowSaveForm(false);
+      toast.success(`Saved "${saved.name}". We'll let you know about new matches.`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to save search");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleAlerts = async (search: SavedSearch) => {
+    setBusyId(search.id);
+    try {
+      const payload = await savedSearchRequest("PATCH", {
+        body: { id: search.id, alerts_enabled: !search.alerts_enabled },
+      });
+      const updated = payload.saved_search as SavedSearch;
+      setSavedSearches((prev) => prev.map((item) => (item.id === updated.id ? updated : item)));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to update alerts");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (search: SavedSearch) => {
+    setBusyId(search.id);
+    try {
+      await savedSearchRequest("DELETE", { query: `?id=${encodeURIComponent(search.id)}` });
+      setSavedSearches((prev) => prev.filter((item) => item.id !== search.id));
+      if (activeId === search.id) setActiveId(null);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to delete saved search");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const activeFilterCount = countActiveSearchFilters(currentFilters);
+
+  return (
+    <div className="mt-3 flex flex-wrap items-center gap-2">
+      {savedSearches.map((search) => {
+        const isActive = activeId === search.id;
+        const isBusy = busyId === search.id;
+        return (
+          <span
+            key={search.id}
+            className={`inline-flex items-center gap-1 rounded-full border px-3 py-1 text-xs font-medium transition-colors ${
+              isActive
+                ? "border-[#1f419a] bg-[#1f419a] text-white"
+                : "border-gray-200 bg-white text-gray-700 hover:bg-gray-50"
+            }`}
+          >
+            <button type="button" onClick={() => applySearch(search)} className="inline-flex items-center gap-1">
+              <Bookmark className="h-3 w-3" />
+              {search.name}
+            </button>
+            <button
+              type="button"
+              disabled={isBusy}
+              onClick={() => handleToggleAlerts(search)}
+              title={search.alerts_enabled ? "Turn off new-match alerts" : "Turn on new-match alerts"}
+              className="ml-1 rounded-full p-0.5 hover:bg-black/10 disabled:opacity-50"
+            >
+              {search.alerts_enabled ? <Bell className="h-3 w-3" /> : <BellOff className="h-3 w-3" />}
+            </button>
+            <button
+              type="button"
+              disabled={isBusy}
+              onClick={() => handleDelete(search)}
+              title="Delete saved search"
+              className="rounded-full p-0.5 hover:bg-black/10 disabled:opacity-50"
+            >
+              {isBusy ? <Loader2 className="h-3 w-3 animate-spin" /> : <Trash2 className="h-3 w-3" />}
+            </button>
+          </span>
+        );
+      })}
+
+      {showSaveForm ? (
+        <span className="inline-flex items-center gap-1 rounded-full border border-gray-200 bg-white py-0.5 pl-3 pr-1">
+          <input
+            type="text"
+            value={name}
+            maxLength={60}
+            autoFocus
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") handleSave();
+              if (e.key === "Escape") setShowSaveForm(false);
+            }}
+            placeholder="Name this search"
+            className="w-36 bg-transparent text-xs text-gray-700 outline-none"
+          />
+          <button
+            type="button"
+            disabled={saving || !name.trim()}
+            onClick={handleSave}
+            className="rounded-full bg-[#1f419a] px-2.5 py-1 text-[11px] font-semibold text-white disabled:opacity-50"
+          >
+            {saving ? <Loader2 className="h-3 w-3 animate-spin" /> : "Save"}
+          </button>
+          <button
+            type="button"
+            onClick={() => setShowSaveForm(false)}
+            className="rounded-full p-1 text-gray-400 hover:bg-gray-100"
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </span>
+      ) : (
+        activeFilterCount > 0 && (
+          <button
+            type="button"
+            onClick={() => setShowSaveForm(true)}
+            className="inline-flex items-center gap-1 rounded-full border border-dashed border-[#1f419a]/40 px-3 py-1 text-xs font-medium text-[#1f419a] hover:bg-[#1f419a]/5"
+          >
+            <Bookmark className="h-3 w-3" />
+            Save this search
+          </button>
+        )
+      )}
+    </div>
+  );
+}
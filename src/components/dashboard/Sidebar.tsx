@@ -2,7 +2,7 @@
 import NextLink from "next/link";
 import { useRouter, usePathname } from "next/navigation";
 import { useEffect, useState, type ComponentProps } from "react";
-import { ChevronRight, ChevronDown, HelpCircle, User, Users, Calendar, Heart, Search, Compass, Eye, Settings, Sliders, Bell, CreditCard, Info, LogOut, CalendarCheck, Wallet, MessageCircle, Home, History as HistoryIcon, Gift } from "lucide-react";
+import { ChevronRight, ChevronDown, HelpCircle, User, Users, Calendar, Heart, Search, Compass, Eye, Settings, Sliders, Bell, CreditCard, Info, LogOut, CalendarCheck, Wallet, MessageCircle, Home, History as HistoryIcon, Gift, PartyPopper } from "lucide-react";
 import { useToast } from "@/components/ToastProvider";
 import { supabase } from "@/lib/supabase";
 import { getSafeDisplayName } from "@/lib/name";
@@ -29,7 +29,7 @@ function Link({ prefetch, ...props }: NextLinkProps) {
 }
 
 type SidebarProps = {
-  active?: "home" | "profile" | "my-account" | "gender-preferences" | "preference" | "calendar" | "appointments" | "history" | "notifications" | "subscription" | "wallet" | "referrals" | "about" | "signout" | "edit" | "discover" | "likes" | "matches" | "search" | "messages";
+  active?: "home" | "profile" | "my-account" | "gender-preferences" | "preference" | "calendar" | "appointments" | "group-sessions" | "history" | "notifications" | "subscription" | "wallet" | "referrals" | "gifts" | "about" | "signout" | "edit" | "discover" | "likes" | "matches" | "search" | "messages";
 };
 
 type UserInfo = {
@@ -73,9 +73,11 @@ export default function Sidebar({ active }: SidebarProps) {
     if (pathname?.includes("/profile/subscription")) return "subscription";
     if (pathname?.includes("/profile/wallet") || pathname?.includes("/wallet")) return "wallet";
     if (pathname?.includes("/dashboard/referrals")) return "referrals";
+    if (pathname?.includes("/dashboard/gifts")) return "gifts";
     if (pathname?.includes("/profile")) return "profile";
     if (pathname?.includes("/calendar")) return "calendar";
     if (pathname?.includes("/dashboard/history")) return "history";
+    if (pathname?.includes("/meetings/group-sessions")) return "group-sessions";
     if (pathname?.includes("/meetings")) return "appointments";
     if (pathname?.includes("/messages")) return "messages";
     if (pathname?.includes("/likes")) return "likes";
@@ -99,6 +101,7 @@ export default function Sidebar({ active }: SidebarProps) {
   useEffect(() => {
     if (
       currentActive === "appointments" ||
+      currentActive === "group-sessions" ||
       currentActive === "history" ||
       currentActive === "calendar" ||
       currentActive === "notifications"
@@ -507,6 +510,14 @@ export default function Sidebar({ active }: SidebarProps) {
           <ChevronRight className={`h-4 w-4 ${currentActive === "referrals" ? "text-[#1f419a]" : "text-gray-400"}`}/>
         </Link>
 
+        <Link href="/dashboard/gifts" className={itemClass("gifts")}>
+          <span className="flex items-center gap-2">
+            <PartyPopper className="h-4 w-4" />
+            Gifts
+          </span>
+          <ChevronRight className={`h-4 w-4 ${currentActive === "gifts" ? "text-[#1f419a]" : "text-gray-400"}`}/>
+        </Link>
+
         {/* Divider */}
         <div className="my-2 border-t border-gray-100"></div>
 
@@ -642,7 +653,7 @@ export default function Sidebar({ active }: SidebarProps) {
               isAppointmentsExpanded
                 ? "rounded-lg bg-[#1f419a] text-white" 
                 : `rounded-xl ${
-                    currentActive === "appointments" || currentActive === "history" || currentActive === "calendar" || currentActive === "notifications"
+                    currentActive === "appointments" || currentActive === "group-sessions" || currentActive === "history" || currentActive === "calendar" || currentActive === "notifications"
                       ? "bg-[#eef2ff] text-[#1f419a]" 
                       : "text-gray-700 hover:bg-gray-50"
                   }`
@@ -656,7 +667,7 @@ export default function Sidebar({ active }: SidebarProps) {
             <ChevronDown 
               className={`h-4 w-4 transition-all duration-300 ${
                 isAppointmentsExpanded ? "rotate-180 text-white" : "rotate-0"
-              } ${!isAppointmentsExpanded && (currentActive === "appointments" || currentActive === "history" || currentActive === "calendar" || currentActive === "notifications") ? "text-[#1f419a]" : !isAppointmentsExpanded ? "text-gray-400" : ""}`}
+              } ${!isAppointmentsExpanded && (currentActive === "appointments" || currentActive === "group-sessions" || currentActive === "history" || currentActive === "calendar" || currentActive === "notifications") ? "text-[#1f419a]" : !isAppointmentsExpanded ? "text-gray-400" : ""}`}
             />
           </button>
           
@@ -705,6 +716,25 @@ export default function Sidebar({ active }: SidebarProps) {
                 <ChevronRight className={`h-3 w-3 ${currentActive === "appointments" && !isAppointmentsExpanded ? "text-[#1f419a]" : isAppointmentsExpanded ? "text-white/80" : "text-gray-400"}`}/>
               </Link>
 
+              <Link
+                href="/dashboard/meetings/group-sessions"
+                className={`flex items-center justify-between rounded-xl px-3 py-2 text-sm transition-colors ${
+                  currentActive === "group-sessions"
+                    ? isAppointmentsExpanded
+                      ? "bg-white/10 text-white hover:bg-white/20"
+                      : "bg-[#eef2ff] text-[#1f419a]"
+                    : isAppointmentsExpanded
+                    ? "text-white/90 hover:bg-white/10"
+                    : "text-gray-700 hover:bg-gray-50"
+                }`}
+              >
+                <span className="flex items-center gap-2">
+                  <Users className="h-3.5 w-3.5" />
+                  Group Sessions
+                </span>
+                <ChevronRight className={`h-3 w-3 ${currentActive === "group-sessions" && !isAppointmentsExpanded ? "text-[#1f419a]" : isAppointmentsExpanded ? "text-white/80" : "text-gray-400"}`}/>
+              </Link>
+
               <Link
                 href="/dashboard/history"
                 className={`flex items-center justify-between rounded-xl px-3 py-2 text-sm transition-colors ${
@@ -0,0 +1,276 @@
+"use client";
+
+/**
+ * ChatAttachmentBar — photo, voice note and video-date buttons beside the
+ * chat input.
+ *
+ * Photos and voice notes are posted to /api/messages as multipart uploads.
+ * A video date is requested through /api/meetings with the chat's match_id,
+ * so it goes through the same plan, credit and slot checks as any other
+ * meeting request and shows up in the chat as a proposal. Photos and voice
+ * notes can answer a message (replyToId); proposals always start fresh.
+ */
+
+import { useEffect, useRef, useState } from "react";
+import { supabase } from "@/lib/supabase";
+import { useToast } from "@/components/ToastProvider";
+import { MAX_VOICE_NOTE_SECONDS } from "@/lib/messages/message-types";
+import { CalendarPlus, ImagePlus, Loader2, Mic, Square, X } from "lucide-react";
+
+type AvailabilitySlot = {
+  id: string;
+  scheduled_at: string;
+};
+
+async function getAccessToken() {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session?.access_token || null;
+}
+
+export default function ChatAttachmentBar<T>({
+  matchId,
+  partnerId,
+  partnerName,
+  replyToId,
+  disabled,
+  onSent,
+}: {
+  matchId: string;
+  partnerId: string | null;
+  partnerName: string;
+  replyToId?: string | null;
+  disabled?: boolean;
+  onSent: (message: T) => void;
+}) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const recordingStartedRef = useRef(0);
+  const stopTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [recording, setRecording] = useState(false);
+  const [showSlots, setShowSlots] = useState(false);
+  const [slots, setSlots] = useState<AvailabilitySlot[] | null>(null);
+  const [proposingSlotId, setProposingSlotId] = useState<string | null>(null);
+
+  useEffect(() => {
+    return () => {
+      if (stopTimerRef.current) clearTimeout(stopTimerRef.current);
+      recorderRef.current?.stream.getTracks().forEach((track) => track.stop());
+    };
+  }, []);
+
+  const upload = async (kind: "image" | "voice", file: File, durationSeconds?: number) => {
+    setUploading(true);
+    try {
+      const token = await getAccessToken();
+      if (!token) return;
+
+      const form = new FormData();
+      form.append("match_id", matchId);
+      form.append("kind", kind);
+      form.append("file", file);
+      if (durationSeconds) form.append("duration_seconds", String(durationSeconds));
+      if (replyToId) form.append("reply_to_id", replyToId);
+
+      const res = await fetch("/api/messages", {
+        method: "POST",
+        headers: { Authorization: `Bearer ${token}` },
+        body: form,
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        toast.error(data.error || `Unable to send your ${kind === "image" ? "photo" : "voice note"} right now.`);
+        return;
+      }
+      onSent(data.message as T);
+    } catch {
+      toast.error(`Unable to send your ${kind === "image" ? "photo" : "voice note"} right now.`);
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handlePhotoSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (file) upload("image", file);
+  };
+
+  const startRecording = async () => {
+    if (typeof navigator === "undefined" || !navigator.mediaDevices?.getUserMedia) {
+      toast.error("Voice notes aren't supported in this browser.");
+      return;
+    }
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const recorder = new MediaRecorder(stream);
+      const chunks: Blob[] = [];
+
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+      };
+      recorder.onstop = () => {
+        stream.getTracks().forEach((track) => track.stop());
+        if (stopTimerRef.current) clearTimeout(stopTimerRef.current);
+        setRecording(false);
+
+        const seconds = Math.max(1, Math.round((Date.now() - recordingStartedRef.current) / 1000));
+        const type = recorder.mimeType || "audio/webm";
+        const ext = type.includes("ogg") ? "ogg" : type.includes("mp4") ? "m4a" : "webm";
+        if (chunks.length > 0) {
+          upload("voice", new File(chunks, `voice-note.${ext}`, { type }), Math.min(seconds, MAX_VOICE_NOTE_SECONDS));
+        }
+      };
+
+      recorderRef.current = recorder;
+      recordingStartedRef.current = Date.now();
+      recorder.start();
+      setRecording(true);
+      stopTimerRef.current = setTimeout(() => recorder.stop(), MAX_VOICE_NOTE_SECONDS * 1000);
+    } catch {
+      toast.error("Allow microphone access to record a voice note.");
+    }
+  };
+
+  const stopRecording = () => {
+    if (recorderRef.current?.state === "recording") recorderRef.current.stop();
+  };
+
+  const openSlots = async () => {
+    if (!partnerId) return;
+    setShowSlots(true);
+    setSlots(null);
+    try {
+      const token = await getAccessToken();
+      if (!token) return;
+      const res = await fetch(`/api/meetings/availability?target_user_id=${encodeURIComponent(partnerId)}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        toast.error(data.error || data.message || "Failed to load availability.");
+        setShowSlots(false);
+        return;
+      }
+      setSlots(data.slots || []);
+    } catch {
+      toast.error("Failed to load availability.");
+      setShowSlots(false);
+    }
+  };
+
+  const proposeSlot = async (slot: AvailabilitySlot) => {
+    if (!partnerId) return;
+    setProposingSlotId(slot.id);
+    try {
+      const token = await getAccessToken();
+      if (!token) return;
+      const res = await fetch("/api/meetings", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+        body: JSON.stringify({
+          target_user_id: partnerId,
+          slot_id: slot.id,
+          type: "one_on_one",
+          match_id: matchId,
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        toast.error(data.message || data.error || "Unable to propose this video date.");
+        return;
+      }
+      setShowSlots(false);
+      toast.success("Video date proposed");
+      if (data.message) onSent(data.message as T);
+    } catch {
+      toast.error("Unable to propose this video date.");
+    } finally {
+      setProposingSlotId(null);
+    }
+  };
+
+  const busy = disabled || uploading;
+
+  return (
+    <div className="relative flex items-center gap-1">
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/jpeg,image/png,image/webp,image/heic,image/heif"
+        className="hidden"
+        onChange={handlePhotoSelected}
+      />
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        disabled={busy || recording}
+        title="Send a photo"
+        className="rounded-full p-2 text-gray-500 transition-colors hover:bg-gray-100 hover:text-[#1f419a] disabled:opacity-50"
+      >
+        {uploading ? <Loader2 className="h-5 w-5 animate-spin" /> : <ImagePlus className="h-5 w-5" />}
+      </button>
+      <button
+        onClick={recording ? stopRecording : startRecording}
+        disabled={busy}
+        title={recording ? "Stop and send" : "Record a voice note"}
+        className={`rounded-full p-2 transition-colors disabled:opacity-50 ${
+          recording ? "bg-red-50 text-red-600 hover:bg-red-100" : "text-gray-500 hover:bg-gray-100 hover:text-[#1f419a]"
+        }`}
+      >
+        {recording ? <Square className="h-5 w-5" /> : <Mic className="h-5 w-5" />}
+      </button>
+      <button
+        onClick={openSlots}
+        disabled={busy || recording || !partnerId}
+        title="Propose a video date"
+        className="rounded-full p-2 text-gray-500 transition-colors hover:bg-gray-100 hover:text-[#1f419a] disabled:opacity-50"
+      >
+        <CalendarPlus className="h-5 w-5" />
+      </button>
+
+      {showSlots && (
+        <div className="absolute bottom-12 left-0 z-20 w-72 rounded-2xl border border-gray-200 bg-white p-3 shadow-lg">
+          <div className="mb-2 flex items-center justify-between">
+            <p className="text-sm font-semibold text-gray-900">Video date with {partnerName}</p>
+            <button onClick={() => setShowSlots(false)} className="rounded p-1 text-gray-400 hover:bg-gray-100">
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+          {slots === null ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-5 w-5 animate-spin text-[#1f419a]" />
+            </div>
+          ) : slots.length === 0 ? (
+            <p className="py-2 text-xs text-gray-500">{partnerName} has no open times right now.</p>
+          ) : (
+            <ul className="max-h-60 space-y-1 overflow-y-auto">
+              {slots.map((slot) => (
+                <li key={slot.id}>
+                  <button
+                    onClick={() => proposeSlot(slot)}
+                    disabled={proposingSlotId !== null}
+                    className="flex w-full items-center justify-between rounded-lg px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    {new Date(slot.scheduled_at).toLocaleString([], {
+                      weekday: "short",
+                      month: "short",
+                      day: "numeric",
+                      hour: "numeric",
+                      minute: "2-digit",
+                    })}
+                    {proposingSlotId === slot.id && <Loader2 className="h-4 w-4 animate-spin" />}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <p className="mt-2 text-[11px] text-gray-400">
+            Uses a meeting request from your plan, like booking from their profile.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
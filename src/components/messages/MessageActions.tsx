@@ -0,0 +1,189 @@
+"use client";
+
+/**
+ * MessageActions — the "…" menu on a chat bubble: react, reply, edit,
+ * unsend and delete for me.
+ *
+ * Edit and unsend are only offered while the sender's window is open (see
+ * message-types); the API enforces the same rules. Reactions and unsends
+ * reach the other member as realtime updates, or on the next poll when
+ * realtime is unavailable.
+ */
+
+import { useEffect, useRef, useState } from "react";
+import { supabase } from "@/lib/supabase";
+import { useToast } from "@/components/ToastProvider";
+import {
+  canEditMessage,
+  canUnsendMessage,
+  MESSAGE_REACTIONS,
+  type MessageReactionSummary,
+} from "@/lib/messages/message-types";
+import { MoreHorizontal, Pencil, Reply, Trash2, Undo2 } from "lucide-react";
+
+type ActionableMessage = {
+  id: string;
+  sender_id: string;
+  message_type: string;
+  created_at: string;
+  deleted_at?: string | null;
+  reactions?: MessageReactionSummary | null;
+};
+
+async function requestMessageChange(method: "PATCH" | "DELETE", body: Record<string, unknown>) {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) return { ok: false, data: { error: "Please log in and try again." } };
+
+  const res = await fetch("/api/messages", {
+    method,
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${session.access_token}` },
+    body: JSON.stringify(body),
+  });
+  return { ok: res.ok, data: await res.json().catch(() => ({})) };
+}
+
+export default function MessageActions<T extends ActionableMessage>({
+  message,
+  currentUserId,
+  isOwn,
+  onReply,
+  onEdit,
+  onUpdated,
+  onHidden,
+}: {
+  message: T;
+  currentUserId: string;
+  isOwn: boolean;
+  onReply: (message: T) => void;
+  onEdit: (message: T) => void;
+  onUpdated: (update: Partial<T> & { id: string }) => void;
+  onHidden: (messageId: string) => void;
+}) {
+  const { toast } = useToast();
+  const menuRef = useRef<HTMLDivElement>(null);
+  const [open, setOpen] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    const close = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) setOpen(false);
+    };
+    document.addEventListener("mousedown", close);
+    return () => document.removeEventListener("mousedown", close);
+  }, [open]);
+
+  if (message.deleted_at || message.id.startsWith("temp-")) return null;
+
+  const react = async (reaction: string) => {
+    setOpen(false);
+    setBusy(true);
+    try {
+      const { ok, data } = await requestMessageChange("PATCH", { message_id: message.id, reaction });
+      if (!ok) {
+        toast.error(data.error || "Unable to react right now.");
+        return;
+      }
+      onUpdated({ id: message.id, reactions: data.reactions } as Partial<T> & { id: string });
+    } catch {
+      toast.error("Unable to react right now.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const remove = async (scope: "me" | "everyone") => {
+    setOpen(false);
+    if (
+      scope === "everyone" &&
+      !window.confirm("Unsend this message? It will be removed for both of you.")
+    ) {
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const { ok, data } = await requestMessageChange("DELETE", { message_id: message.id, scope });
+      if (!ok) {
+        toast.error(data.error || "Unable to delete this message right now.");
+        return;
+      }
+      if (scope === "me") {
+        onHidden(message.id);
+      } else {
+        onUpdated({ ...data.message, media_url: null });
+      }
+    } catch {
+      toast.error("Unable to delete this message right now.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const ownReaction = MESSAGE_REACTIONS.find((emoji) =>
+    message.reactions?.[emoji]?.includes(currentUserId)
+  );
+
+  return (
+    <div ref={menuRef} className="relative self-center">
+      <button
+        onClick={() => setOpen((value) => !value)}
+        disabled={busy}
+        title="Message actions"
+        className="rounded-full p-1 text-gray-400 opacity-0 transition-opacity hover:bg-gray-100 hover:text-gray-600 focus:opacity-100 group-hover:opacity-100 disabled:opacity-50"
+      >
+        <MoreHorizontal className="h-4 w-4" />
+      </button>
+
+      {open && (
+        <div
+          className={`absolute bottom-8 z-20 w-52 rounded-2xl border border-gray-200 bg-white p-2 shadow-lg ${
+            isOwn ? "right-0" : "left-0"
+          }`}
+        >
+          <div className="mb-1 flex justify-between border-b border-gray-100 pb-2">
+            {MESSAGE_REACTIONS.map((emoji) => (
+              <button
+                key={emoji}
+                onClick={() => react(emoji)}
+                className={`rounded-full px-1.5 py-1 text-lg transition hover:bg-gray-100 ${
+                  ownReaction === emoji ? "bg-[#1f419a]/10" : ""
+                }`}
+              >
+                {emoji}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={() => { setOpen(false); onReply(message); }}
+            className="flex w-full items-center gap-2 rounded-lg px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-50"
+          >
+            <Reply className="h-4 w-4" /> Reply
+          </button>
+          {canEditMessage(message, currentUserId) && (
+            <button
+              onClick={() => { setOpen(false); onEdit(message); }}
+              className="flex w-full items-center gap-2 rounded-lg px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-50"
+            >
+              <Pencil className="h-4 w-4" /> Edit
+            </button>
+          )}
+          {canUnsendMessage(message, currentUserId) && (
+            <button
+              onClick={() => remove("everyone")}
+              className="flex w-full items-center gap-2 rounded-lg px-3 py-2 text-left text-sm text-red-600 hover:bg-red-50"
+            >
+              <Undo2 className="h-4 w-4" /> Unsend for everyone
+            </button>
+          )}
+          <button
+            onClick={() => remove("me")}
+            className="flex w-full items-center gap-2 rounded-lg px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-50"
+          >
+            <Trash2 className="h-4 w-4" /> Delete for me
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
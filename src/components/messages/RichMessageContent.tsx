@@ -0,0 +1,196 @@
+"use client";
+
+/**
+ * RichMessageContent — body of a photo, voice note or video-date proposal
+ * message in a chat bubble. The recipient of a proposal can accept or
+ * decline it in place; the outcome is the same as on the meetings page.
+ */
+
+import { useState } from "react";
+import Image from "next/image";
+import { supabase } from "@/lib/supabase";
+import { useToast } from "@/components/ToastProvider";
+import { deriveWorkflowState } from "@/lib/meetings/state-machine";
+import type { ProposedMeeting } from "@/lib/messages/message-types";
+import { CalendarCheck, Check, ImageOff, Loader2, Video, X } from "lucide-react";
+
+const BUY_CREDITS_HREF = "/dashboard/wallet?open=credits&source=meeting_insufficient_credits";
+
+type RichMessage = {
+  content: string;
+  message_type: string;
+  media_url?: string | null;
+  media_duration_seconds?: number | null;
+  meeting?: ProposedMeeting | null;
+};
+
+function formatDuration(seconds: number) {
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+function proposalStatusLabel(meeting: ProposedMeeting, isOwn: boolean, partnerName: string) {
+  switch (deriveWorkflowState({ workflowState: meeting.workflow_state, status: meeting.status })) {
+    case "requested":
+      return isOwn ? `Waiting for ${partnerName} to respond` : "Waiting for your answer";
+    case "accepted":
+      return "Accepted · MatchIndeed is confirming the date";
+    case "confirmed":
+    case "reschedule_proposed":
+      return "Confirmed";
+    case "in_progress":
+      return "Happening now";
+    case "completed":
+    case "rated":
+      return "Completed";
+    case "canceled":
+      return "Declined or canceled";
+  }
+}
+
+export default function RichMessageContent({
+  message,
+  isOwn,
+  partnerName,
+  onMeetingChange,
+}: {
+  message: RichMessage;
+  isOwn: boolean;
+  partnerName: string;
+  onMeetingChange: (meeting: ProposedMeeting) => void;
+}) {
+  const { toast } = useToast();
+  const [responding, setResponding] = useState<"accept" | "decline" | null>(null);
+
+  const respond = async (meeting: ProposedMeeting, action: "accept" | "decline") => {
+    setResponding(action);
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        toast.error("Please log in and try again.");
+        return;
+      }
+
+      const res = await fetch("/api/meetings", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${session.access_token}` },
+        body: JSON.stringify({ meeting_id: meeting.id, action }),
+      });
+      const data = await res.json().catch(() => ({}));
+
+      if (!res.ok) {
+        if (res.status === 402) {
+          toast.errorAction(data.error || "Insufficient credits to accept this meeting.", "Buy Credits", BUY_CREDITS_HREF);
+          return;
+        }
+        toast.error(data.message || data.error || `Failed to ${action} the video date.`);
+        return;
+      }
+
+      if (action === "accept") {
+        onMeetingChange({
+          ...meeting,
+          status: data.meeting_status || meeting.status,
+          workflow_state: data.workflow_state || meeting.workflow_state,
+        });
+        toast.success("Video date accepted");
+      } else {
+        onMeetingChange({ ...meeting, status: "canceled", workflow_state: "canceled" });
+        toast.success("Video date declined");
+      }
+    } catch {
+      toast.error(`Failed to ${action} the video date.`);
+    } finally {
+      setResponding(null);
+    }
+  };
+
+  if (message.message_type === "image") {
+    return message.media_url ? (
+      <a href={message.media_url} target="_blank" rel="noopener noreferrer" className="block">
+        <Image
+          src={message.media_url}
+          alt="Photo"
+          width={240}
+          height={240}
+          className="max-h-64 w-auto rounded-xl object-cover"
+          unoptimized
+        />
+      </a>
+    ) : (
+      <p className={`flex items-center gap-1.5 text-sm ${isOwn ? "text-white/80" : "text-gray-500"}`}>
+        <ImageOff className="h-4 w-4" /> Photo unavailable
+      </p>
+    );
+  }
+
+  if (message.message_type === "voice") {
+    return (
+      <div className="flex items-center gap-2">
+        {message.media_url ? (
+          <audio controls preload="none" src={message.media_url} className="h-9 max-w-[220px]" />
+        ) : (
+          <p className={`text-sm ${isOwn ? "text-white/80" : "text-gray-500"}`}>Voice note unavailable</p>
+        )}
+        {message.media_duration_seconds ? (
+          <span className={`text-xs ${isOwn ? "text-white/70" : "text-gray-400"}`}>
+            {formatDuration(message.media_duration_seconds)}
+          </span>
+        ) : null}
+      </div>
+    );
+  }
+
+  if (message.message_type === "meeting_proposal") {
+    const meeting = message.meeting;
+    if (!meeting) {
+      return <p className="text-sm">{message.content}</p>;
+    }
+
+    const awaitingAnswer =
+      !isOwn && deriveWorkflowState({ workflowState: meeting.workflow_state, status: meeting.status }) === "requested";
+
+    return (
+      <div className="min-w-[200px] text-sm">
+        <p className="flex items-center gap-1.5 font-semibold">
+          <Video className="h-4 w-4" />
+          {isOwn ? "You proposed a video date" : `${partnerName} proposed a video date`}
+        </p>
+        <p className={`mt-1 flex items-center gap-1.5 ${isOwn ? "text-white/90" : "text-gray-700"}`}>
+          <CalendarCheck className="h-4 w-4" />
+          {new Date(meeting.scheduled_at).toLocaleString([], {
+            weekday: "short",
+            month: "short",
+            day: "numeric",
+            hour: "numeric",
+            minute: "2-digit",
+          })}
+        </p>
+        <p className={`mt-1 text-xs ${isOwn ? "text-white/70" : "text-gray-500"}`}>
+          {proposalStatusLabel(meeting, isOwn, partnerName)}
+        </p>
+        {awaitingAnswer && (
+          <div className="mt-2 flex gap-2">
+            <button
+              onClick={() => respond(meeting, "accept")}
+              disabled={responding !== null}
+              className="flex items-center gap-1 rounded-lg bg-[#1f419a] px-3 py-1.5 text-xs font-semibold text-white hover:bg-[#17357b] disabled:opacity-50"
+            >
+              {responding === "accept" ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Check className="h-3.5 w-3.5" />}
+              Accept
+            </button>
+            <button
+              onClick={() => respond(meeting, "decline")}
+              disabled={responding !== null}
+              className="flex items-center gap-1 rounded-lg border border-gray-200 px-3 py-1.5 text-xs font-semibold text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              {responding === "decline" ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <X className="h-3.5 w-3.5" />}
+              Decline
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return <p className="whitespace-pre-wrap break-words text-sm">{message.content}</p>;
+}
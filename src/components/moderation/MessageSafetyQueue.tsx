@@ -0,0 +1,346 @@
+"use client";
+
+/**
+ * MessageSafetyQueue - Flagged chat messages
+ *
+ * Features:
+ * - Review messages the safety screen blurred, held or blocked
+ * - Approve (deliver normally) or remove (hide from the recipient)
+ * - Choose what happens to each category of flagged message
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { useToast } from "@/components/ToastProvider";
+import { supabase } from "@/lib/supabase";
+import {
+  MESSAGE_SAFETY_ACTIONS,
+  MESSAGE_SAFETY_CATEGORIES,
+  MESSAGE_SAFETY_CATEGORY_LABELS,
+  type MessageSafetyAction,
+  type MessageSafetyCategory,
+  type MessageSafetyPolicy,
+} from "@/lib/message-safety/screening";
+import { Check, Loader2, MessageSquareWarning, RefreshCw, Save, X } from "lucide-react";
+
+type FlagStatus = "pending" | "approved" | "removed";
+
+type AccountSummary = {
+  email: string | null;
+  display_name: string | null;
+} | null;
+
+type MessageFlag = {
+  id: string;
+  message_id: string | null;
+  content: string;
+  categories: MessageSafetyCategory[];
+  signals: { category: MessageSafetyCategory; match: string }[];
+  action: "blur" | "hold" | "block";
+  status: FlagStatus;
+  review_note: string | null;
+  created_at: string;
+  sender: AccountSummary;
+  recipient: AccountSummary;
+};
+
+const ACTION_LABELS: Record<MessageSafetyAction, string> = {
+  allow: "Allow",
+  blur: "Blur with warning",
+  hold: "Hold for review",
+  block: "Block",
+};
+
+const ACTION_STYLES: Record<MessageFlag["action"], string> = {
+  blur: "bg-amber-50 text-amber-700",
+  hold: "bg-orange-50 text-orange-700",
+  block: "bg-red-50 text-red-700",
+};
+
+function accountLabel(account: AccountSummary) {
+  return account?.display_name || account?.email || "Unknown user";
+}
+
+async function getAccessToken() {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  return session?.access_token || null;
+}
+
+export default function MessageSafetyQueue() {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<FlagStatus | "all">("pending");
+  const [loading, setLoading] = useState(true);
+  const [flags, setFlags] = useState<MessageFlag[]>([]);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [policy, setPolicy] = useState<MessageSafetyPolicy | null>(null);
+  const [savingPolicy, setSavingPolicy] = useState(false);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+
+  /**
+   * Fetch flagged messages and the current policy
+   */
+  const fetchFlags = useCallback(async () => {
+    setLoading(true);
+    try {
+      const token = await getAccessToken();
+      if (!token) {
+        toast.error("Please log in again.");
+        return;
+      }
+
+      const response = await fetch(`/api/admin/moderation/messages?status=${status}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const payload = await response.json();
+      if (!response.ok) {
+        throw new Error(payload?.error || "Failed to load flagged messages");
+      }
+
+      setFlags(payload.flags || []);
+      setPendingCount(payload.pending_count || 0);
+      setPolicy(payload.policy || null);
+    } catch (error) {
+      console.error("[Message Safety] Fetch error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to load flagged messages");
+    } finally {
+      setLoading(false);
+    }
+  }, [status, toast]);
+
+  useEffect(() => {
+    fetchFlags();
+  }, [fetchFlags]);
+
+  /**
+   * Approve or remove a flagged message
+   */
+  const handleReview = async (flag: MessageFlag, decision: "approve" | "remove") => {
+    const note = prompt(
+      decision === "remove"
+        ? "Remove this message? The recipient will not see it. Note (optional):"
+        : flag.action === "block"
+          ? "Dismiss this flag? The blocked message stays unsent. Note (optional):"
+          : "Approve this message? It will be delivered normally. Note (optional):"
+    );
+    if (note === null) return;
+
+    try {
+      setReviewingId(flag.id);
+      const token = await getAccessToken();
+      if (!token) {
+        toast.error("Please log in again.");
+        return;
+      }
+
+      const response = await fetch("/api/admin/moderation/messages", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${token}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ flag_id: flag.id, decision, note }),
+      });
+      const payload = await response.json();
+      if (!response.ok) {
+        throw new Error(payload?.message || payload?.error || "Failed to review message");
+      }
+
+      toast.success(
+        decision === "remove"
+          ? "Message removed"
+          : payload.released
+            ? "Message approved and delivered"
+            : "Message approved"
+      );
+      await fetchFlags();
+    } catch (error) {
+      console.error("[Message Safety] Review error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to review message");
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  /**
+   * Save the per-category policy
+   */
+  const handleSavePolicy = async () => {
+    if (!policy) return;
+    try {
+      setSavingPolicy(true);
+      const token = await getAccessToken();
+      if (!token) {
+        toast.error("Please log in again.");
+        return;
+      }
+
+      const response = await fetch("/api/admin/moderation/messages", {
+        method: "PUT",
+        headers: {
+          Authorization: `Bearer ${token}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ policy }),
+      });
+      const payload = await response.json();
+      if (!response.ok) {
+        throw new Error(payload?.error || "Failed to save policy");
+      }
+
+      setPolicy(payload.policy);
+      toast.success("Message safety policy saved");
+    } catch (error) {
+      console.error("[Message Safety] Policy error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save policy");
+    } finally {
+      setSavingPolicy(false);
+    }
+  };
+
+  return (
+    <div>
+      {/* Policy */}
+      <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-100 mb-6">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+          <div>
+            <h2 className="font-semibold text-gray-900">Message safety policy</h2>
+            <p className="text-sm text-gray-500">
+              What happens to a message in each category. A message with several categories gets the strictest action.
+            </p>
+          </div>
+          <button
+            onClick={handleSavePolicy}
+            disabled={!policy || savingPolicy}
+            className="flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-[#1f419a] text-white text-sm hover:bg-[#17357b] disabled:opacity-50"
+          >
+            {savingPolicy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+            Save policy
+          </button>
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3">
+          {MESSAGE_SAFETY_CATEGORIES.map((category) => (
+            <label key={category} className="text-sm text-gray-600">
+              {MESSAGE_SAFETY_CATEGORY_LABELS[category]}
+              <select
+                value={policy?.[category] || "allow"}
+                disabled={!policy}
+                onChange={(e) =>
+                  setPolicy((prev) =>
+                    prev ? { ...prev, [category]: e.target.value as MessageSafetyAction } : prev
+                  )
+                }
+                className="mt-1 block w-full px-3 py-2 rounded-lg border border-gray-200 outline-none"
+              >
+                {MESSAGE_SAFETY_ACTIONS.map((action) => (
+                  <option key={action} value={action}>
+                    {ACTION_LABELS[action]}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {/* Filter */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+        <p className="text-sm text-gray-500">{pendingCount} messages waiting for review</p>
+        <div className="flex items-center gap-3">
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value as FlagStatus | "all")}
+            className="px-3 py-2 rounded-lg border border-gray-200 outline-none"
+          >
+            <option value="pending">Pending</option>
+            <option value="approved">Approved</option>
+            <option value="removed">Removed</option>
+            <option value="all">All</option>
+          </select>
+          <button
+            onClick={() => fetchFlags()}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg border border-gray-200 text-gray-700 hover:bg-gray-50"
+          >
+            <RefreshCw className="h-4 w-4" />
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {/* Flags */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-[#1f419a]" />
+          </div>
+        ) : flags.length === 0 ? (
+          <div className="text-center py-12">
+            <MessageSquareWarning className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-500">No flagged messages</p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-100 max-h-[68vh] overflow-auto">
+            {flags.map((flag) => (
+              <li key={flag.id} className="p-4 sm:p-6">
+                <div className="flex flex-col lg:flex-row lg:items-start justify-between gap-4">
+                  <div className="min-w-0 flex-1">
+                    <div className="flex flex-wrap items-center gap-2 mb-2">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${ACTION_STYLES[flag.action]}`}>
+                        {ACTION_LABELS[flag.action]}
+                      </span>
+                      {flag.categories.map((category) => (
+                        <span key={category} className="px-2 py-1 rounded-full text-xs bg-gray-100 text-gray-600">
+                          {MESSAGE_SAFETY_CATEGORY_LABELS[category] || category}
+                        </span>
+                      ))}
+                      <span className="text-xs text-gray-400">
+                        {new Date(flag.created_at).toLocaleString()}
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-500 mb-2">
+                      {accountLabel(flag.sender)} → {accountLabel(flag.recipient)}
+                    </p>
+                    <p className="text-sm text-gray-900 whitespace-pre-wrap break-words rounded-lg bg-gray-50 p-3">
+                      {flag.content}
+                    </p>
+                    {flag.signals.length > 0 && (
+                      <p className="mt-2 text-xs text-gray-500">
+                        Matched: {flag.signals.map((signal) => `"${signal.match}"`).join(", ")}
+                      </p>
+                    )}
+                    {flag.status !== "pending" && (
+                      <p className="mt-2 text-xs text-gray-500 capitalize">
+                        {flag.status}
+                        {flag.review_note ? ` · ${flag.review_note}` : ""}
+                      </p>
+                    )}
+                  </div>
+                  {flag.status === "pending" && (
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => handleReview(flag, "approve")}
+                        disabled={reviewingId === flag.id}
+                        className="flex items-center gap-1 px-3 py-1.5 rounded-lg border border-green-200 text-green-700 text-sm hover:bg-green-50 disabled:opacity-50"
+                      >
+                        <Check className="h-4 w-4" />
+                        {flag.action === "block" ? "Dismiss" : "Approve"}
+                      </button>
+                      <button
+                        onClick={() => handleReview(flag, "remove")}
+                        disabled={reviewingId === flag.id}
+                        className="flex items-center gap-1 px-3 py-1.5 rounded-lg border border-red-200 text-red-700 text-sm hover:bg-red-50 disabled:opacity-50"
+                      >
+                        <X className="h-4 w-4" />
+                        Remove
+                      </button>
+                    </div>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
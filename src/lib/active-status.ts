@@ -20,9 +20,9 @@ const RECENT_THRESHOLD_MINUTES = 60;
 /**
  * Check if a timestamp indicates the user is currently online
  */
-export function isOnline(lastActiveAt: string | null): boolean {
+export function isOnline(lastActiveAt: string | null, now = Date.now()): boolean {
   if (!lastActiveAt) return false;
-  const diff = Date.now() - new Date(lastActiveAt).getTime();
+  const diff = now - new Date(lastActiveAt).getTime();
   return diff < ONLINE_THRESHOLD_MINUTES * 60 * 1000;
 }
 
@@ -110,3 +110,13 @@ export function getActiveStatus(lastActiveAt: string | null): {
     isOnline: false,
   };
 }
+
+/**
+ * "Last seen" line for someone who isn't connected right now. A heartbeat
+ * inside the online window reads as "Active just now" rather than online.
+ */
+export function getLastSeenLabel(lastActiveAt: string | null): string {
+  if (!lastActiveAt) return "Offline";
+  const status = getActiveStatus(lastActiveAt);
+  return status.isOnline ? "Active just now" : status.label;
+}
@@ -0,0 +1,141 @@
+/**
+ * Pending-Agreement Matches
+ *
+ * A mutual YES after a video meeting creates (or revives) the pair's
+ * `user_matches` row with messaging locked, plus the relationship agreement
+ * both members must sign to unlock it. Shared by one-on-one responses and
+ * group session responses.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { buildRelationshipAgreementText } from "@/lib/agreements/templates";
+
+export type PendingMatchRecord = {
+  id: string;
+  user1_id: string;
+  user2_id: string;
+  meeting_id: string | null;
+  messaging_enabled: boolean | null;
+};
+
+export type AgreementRecord = {
+  id: string;
+  match_id: string;
+  meeting_id: string | null;
+  status: string;
+};
+
+/** `user_matches` stores each pair once, lower id first. */
+export function normalizeMatchPair(userA: string, userB: string) {
+  return [userA, userB].sort((a, b) => a.localeCompare(b));
+}
+
+export async function upsertMatchPendingAgreement(
+  supabase: SupabaseClient,
+  params: {
+    meetingId: string;
+    user1Id: string;
+    user2Id: string;
+    matchedAt: string;
+  }
+): Promise<PendingMatchRecord> {
+  const payload = {
+    meeting_id: params.meetingId,
+    user1_id: params.user1Id,
+    user2_id: params.user2Id,
+    matched_at: params.matchedAt,
+    messaging_enabled: false,
+    relationship_agreement_status: "pending",
+    relationship_agreement_signed_at: null,
+  };
+
+  const withAgreementFields = await supabase
+    .from("user_matches")
+    .upsert(payload, { onConflict: "user1_id,user2_id" })
+    .select("id, user1_id, user2_id, meeting_id, messaging_enabled")
+    .single();
+
+  if (!withAgreementFields.error && withAgreementFields.data) {
+    return withAgreementFields.data as PendingMatchRecord;
+  }
+
+  if (withAgreementFields.error?.code === "42703") {
+    const fallback = await supabase
+      .from("user_matches")
+      .upsert(
+        {
+          meeting_id: params.meetingId,
+          user1_id: params.user1Id,
+          user2_id: params.user2Id,
+          matched_at: params.matchedAt,
+          messaging_enabled: false,
+        },
+        { onConflict: "user1_id,user2_id" }
+      )
+      .select("id, user1_id, user2_id, meeting_id, messaging_enabled")
+      .single();
+
+    if (!fallback.error && fallback.data) {
+      return fallback.data as PendingMatchRecord;
+    }
+  }
+
+  throw withAgreementFields.error;
+}
+
+export async function ensureRelationshipAgreement(
+  supabase: SupabaseClient,
+  params: {
+    matchId: string;
+    meetingId: string;
+    user1Id: string;
+    user2Id: string;
+    user1Name: string;
+    user2Name: string;
+    meetingDate?: string | null;
+  }
+): Promise<AgreementRecord | null> {
+  const existing = await supabase
+    .from("relationship_agreements")
+    .select("id, match_id, meeting_id, status")
+    .eq("match_id", params.matchId)
+    .maybeSingle();
+
+  if (!existing.error && existing.data) {
+    return existing.data as AgreementRecord;
+  }
+
+  if (existing.error && existing.error.code === "42P01") {
+    return null;
+  }
+
+  const agreementText = buildRelationshipAgreementText({
+    userOneName: params.user1Name,
+    userTwoName: params.user2Name,
+    meetingDate: params.meetingDate || null,
+  });
+
+  const created = await supabase
+    .from("relationship_agreements")
+    .insert({
+      match_id: params.matchId,
+      meeting_id: params.meetingId,
+      user1_id: params.user1Id,
+      user2_id: params.user2Id,
+      agreement_text: agreementText,
+      status: "pending",
+      signed_by_user1: false,
+      signed_by_user2: false,
+    })
+    .select("id, match_id, meeting_id, status")
+    .single();
+
+  if (created.error) {
+    if (created.error.code === "42P01" || created.error.code === "42703") {
+      return null;
+    }
+    throw created.error;
+  }
+
+  return created.data as AgreementRecord;
+}
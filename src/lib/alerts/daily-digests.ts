@@ -36,7 +36,7 @@ type DigestResult = {
   missingTable: boolean;
 };
 
-const DIGEST_SEND_HOUR_UTC = 17;
+export const DIGEST_SEND_HOUR_UTC = 17;
 const RECOMMENDATION_BATCH_LIMIT = 250;
 
 function isMissingDigestRunsTable(error: unknown) {
@@ -1,6 +1,12 @@
 import type { SupabaseClient } from "@supabase/supabase-js";
 import { sendPeopleNearYouEmail } from "@/lib/email";
-import { normalizeLocation, toCityCountryLabel } from "@/lib/location";
+import {
+  geocodeLocation,
+  haversineDistanceKm,
+  resolveGeoPoint,
+  type GeoPoint,
+} from "@/lib/geo/geocode";
+import { toCityCountryLabel } from "@/lib/location";
 import { sendPushNotificationIfAllowed } from "@/lib/onesignal";
 
 const ALERT_TYPE = "people_near_you";
@@ -8,14 +14,21 @@ const RETURN_COOLDOWN_MS = 60 * 60 * 1000;
 const RECIPIENT_ACTIVE_WINDOW_MS = 30 * 60 * 1000;
 const MAX_LOCATION_CANDIDATES = 500;
 const MAX_ALERT_RECIPIENTS = 10;
+const NEARBY_RADIUS_KM = 50;
+// ~111 km per degree of latitude; used to pre-filter with the lat/lng index.
+const KM_PER_DEGREE_LATITUDE = 111;
 
 type ActiveProfile = {
   user_id: string;
   first_name: string | null;
   location: string | null;
+  latitude: number | null;
+  longitude: number | null;
   profile_completed: boolean | null;
 };
 
+const PROFILE_COLUMNS = "user_id, first_name, location, latitude, longitude, profile_completed";
+
 type RecipientProfile = ActiveProfile;
 
 type AccountRow = {
@@ -68,11 +81,18 @@ function isRecentlyActive(lastActiveAt: string | null | undefined, windowMs: num
   return Date.now() - lastActiveMs < windowMs;
 }
 
-function locationKey(value: string | null | undefined) {
-  const label = toCityCountryLabel(value);
-  if (!label) return null;
+/**
+ * Resolve the active member's position. Only city-level locations count:
+ * a country centroid is too coarse to call anyone "near".
+ */
+function nearbyOrigin(profile: ActiveProfile): GeoPoint | null {
+  if (geocodeLocation(profile.location)?.precision !== "city") return null;
+  return resolveGeoPoint(profile);
+}
 
-  return normalizeLocation(label).toLowerCase();
+function isNearby(origin: GeoPoint, profile: RecipientProfile) {
+  const point = resolveGeoPoint(profile);
+  return Boolean(point && haversineDistanceKm(origin, point) <= NEARBY_RADIUS_KM);
 }
 
 function locationSearchTerm(value: string | null | undefined) {
@@ -194,7 +214,7 @@ async function loadActiveProfile(
 ): Promise<ActiveProfile | null> {
   const { data, error } = await supabase
     .from("user_profiles")
-    .select("user_id, first_name, location, profile_completed")
+    .select(PROFILE_COLUMNS)
     .eq("user_id", activeUserId)
     .maybeSingle();
 
@@ -205,24 +225,46 @@ async function loadActiveProfile(
 async function loadRecipientProfiles(
   supabase: SupabaseClient,
   activeUserId: string,
-  activeLocation: string
+  activeLocation: string,
+  origin: GeoPoint
 ) {
-  const searchTerm = locationSearchTerm(activeLocation);
-  const activeLocationKey = locationKey(activeLocation);
-  if (!searchTerm || !activeLocationKey) return [];
+  const latitudeDelta = NEARBY_RADIUS_KM / KM_PER_DEGREE_LATITUDE;
+  const longitudeDelta =
+    latitudeDelta / Math.max(Math.cos((origin.latitude * Math.PI) / 180), 0.01);
 
   const { data, error } = await supabase
     .from("user_profiles")
-    .select("user_id, first_name, location, profile_completed")
+    .select(PROFILE_COLUMNS)
     .eq("profile_completed", true)
     .neq("user_id", activeUserId)
-    .ilike("location", `%${searchTerm}%`)
+    .gte("latitude", origin.latitude - latitudeDelta)
+    .lte("latitude", origin.latitude + latitudeDelta)
+    .gte("longitude", origin.longitude - longitudeDelta)
+    .lte("longitude", origin.longitude + longitudeDelta)
     .limit(MAX_LOCATION_CANDIDATES);
 
   if (error) throw error;
 
-  return ((data || []) as RecipientProfile[]).filter(
-    (profile) => locationKey(profile.location) === activeLocationKey
+  // Profiles saved before coordinates were stored are matched by city name
+  // and geocoded here instead.
+  const searchTerm = locationSearchTerm(activeLocation);
+  let legacy: RecipientProfile[] = [];
+  if (searchTerm) {
+    const legacyResult = await supabase
+      .from("user_profiles")
+      .select(PROFILE_COLUMNS)
+      .eq("profile_completed", true)
+      .neq("user_id", activeUserId)
+      .is("latitude", null)
+      .ilike("location", `%${searchTerm}%`)
+      .limit(MAX_LOCATION_CANDIDATES);
+
+    if (legacyResult.error) throw legacyResult.error;
+    legacy = (legacyResult.data || []) as RecipientProfile[];
+  }
+
+  return [...((data || []) as RecipientProfile[]), ...legacy].filter((profile) =>
+    isNearby(origin, profile)
   );
 }
 
@@ -253,19 +295,19 @@ export async function sendPeopleNearYouActiveAlerts(params: {
 }) {
   const result = emptyResult();
   const activeProfile = await loadActiveProfile(params.supabase, params.activeUserId);
-  if (
-    !activeProfile?.location ||
-    activeProfile.profile_completed !== true ||
-    !locationKey(activeProfile.location)
-  ) {
+  if (!activeProfile?.location || activeProfile.profile_completed !== true) {
     return result;
   }
 
+  const origin = nearbyOrigin(activeProfile);
+  if (!origin) return result;
+
   const locationLabel = toCityCountryLabel(activeProfile.location);
   const recipientProfiles = await loadRecipientProfiles(
     params.supabase,
     params.activeUserId,
-    activeProfile.location
+    activeProfile.location,
+    origin
   );
   const profileMap = new Map(
     recipientProfiles.map((profile) => [profile.user_id, profile])
@@ -1,5 +1,6 @@
 import type { SupabaseClient } from "@supabase/supabase-js";
 import { scheduleAlert, type ScheduledAlertType } from "./scheduled-alerts";
+import { VISIBLE_MESSAGE_SAFETY_STATUSES } from "@/lib/message-safety/pipeline";
 
 type MessageRow = {
   id: string;
@@ -67,6 +68,7 @@ async function scheduleUnreadMessageSequence(
   const { data: messages, error } = await supabase
     .from("messages")
     .select("id, match_id, sender_id, created_at")
+    .in("safety_status", VISIBLE_MESSAGE_SAFETY_STATUSES)
     .is("read_at", null)
     .lte("created_at", cutoff)
     .order("created_at", { ascending: true })
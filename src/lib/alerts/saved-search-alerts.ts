@@ -0,0 +1,160 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { DIGEST_SEND_HOUR_UTC } from "@/lib/alerts/daily-digests";
+import { scheduleAlert } from "@/lib/alerts/scheduled-alerts";
+import {
+  isMissingSavedSearchesTable,
+  runSavedSearch,
+  toSavedSearch,
+  type SavedSearchRow,
+} from "@/lib/search/saved-searches";
+
+const SAVED_SEARCH_BATCH_LIMIT = 50;
+
+type SavedSearchAlertResult = {
+  processed: number;
+  alerted: number;
+  seeded: number;
+  unchanged: number;
+  failed: number;
+  missingTable: boolean;
+};
+
+function emptyResult(): SavedSearchAlertResult {
+  return {
+    processed: 0,
+    alerted: 0,
+    seeded: 0,
+    unchanged: 0,
+    failed: 0,
+    missingTable: false,
+  };
+}
+
+async function loadSeenResultIds(
+  supabase: SupabaseClient,
+  savedSearchId: string,
+  matchedUserIds: string[]
+) {
+  if (matchedUserIds.length === 0) return new Set<string>();
+
+  const { data, error } = await supabase
+    .from("saved_search_results")
+    .select("matched_user_id")
+    .eq("saved_search_id", savedSearchId)
+    .in("matched_user_id", matchedUserIds);
+
+  if (error) throw error;
+
+  return new Set(
+    ((data || []) as Array<{ matched_user_id: string }>).map((row) => row.matched_user_id)
+  );
+}
+
+/**
+ * Run one saved search and queue an email + push alert for profiles it has
+ * not surfaced before. The first run only records the current results, so
+ * members are alerted about people who appear after they saved the search.
+ */
+async function processSavedSearch(
+  supabase: SupabaseClient,
+  row: SavedSearchRow,
+  alertDate: string,
+  now: Date
+) {
+  const search = toSavedSearch(row);
+  const matchedUserIds = await runSavedSearch(supabase, search.user_id, search.filters);
+  const seen = await loadSeenResultIds(supabase, search.id, matchedUserIds);
+  const newUserIds = matchedUserIds.filter((userId) => !seen.has(userId));
+
+  if (newUserIds.length > 0) {
+    const { error } = await supabase.from("saved_search_results").upsert(
+      newUserIds.map((matchedUserId) => ({
+        saved_search_id: search.id,
+        matched_user_id: matchedUserId,
+        first_seen_at: now.toISOString(),
+      })),
+      { onConflict: "saved_search_id,matched_user_id", ignoreDuplicates: true }
+    );
+    if (error) throw error;
+  }
+
+  const isFirstRun = !search.last_run_at;
+  const shouldAlert = !isFirstRun && newUserIds.length > 0;
+
+  if (shouldAlert) {
+    await scheduleAlert({
+      supabase,
+      userId: search.user_id,
+      alertType: "saved_search_new_results",
+      channels: ["email", "push"],
+      sendAt: now,
+      idempotencyKey: `saved-search:${search.id}:${alertDate}`,
+      payload: {
+        savedSearchId: search.id,
+        savedSearchName: search.name,
+        count: newUserIds.length,
+      },
+    });
+  }
+
+  await supabase
+    .from("saved_searches")
+    .update({
+      last_run_at: now.toISOString(),
+      ...(shouldAlert ? { last_alerted_at: now.toISOString() } : {}),
+    })
+    .eq("id", search.id);
+
+  if (isFirstRun) return "seeded" as const;
+  return shouldAlert ? ("alerted" as const) : ("unchanged" as const);
+}
+
+/**
+ * Re-run saved searches with alerts on, once per day alongside the daily
+ * digests. New results are delivered through `scheduled_alerts`.
+ */
+export async function processSavedSearchAlerts(
+  supabase: SupabaseClient,
+  options: { now?: Date; force?: boolean; limit?: number } = {}
+) {
+  const now = options.now || new Date();
+  const result = emptyResult();
+
+  if (!options.force && now.getUTCHours() < DIGEST_SEND_HOUR_UTC) {
+    return { skipped: true, reason: "before_digest_send_hour", ...result };
+  }
+
+  const alertDate = now.toISOString().slice(0, 10);
+  const dayStartIso = `${alertDate}T00:00:00.000Z`;
+
+  const { data, error } = await supabase
+    .from("saved_searches")
+    .select("*")
+    .eq("alerts_enabled", true)
+    .or(`last_run_at.is.null,last_run_at.lt.${dayStartIso}`)
+    .order("last_run_at", { ascending: true, nullsFirst: true })
+    .limit(options.limit || SAVED_SEARCH_BATCH_LIMIT);
+
+  if (error) {
+    if (isMissingSavedSearchesTable(error)) {
+      return { skipped: false, ...result, missingTable: true };
+    }
+    throw error;
+  }
+
+  for (const row of (data || []) as SavedSearchRow[]) {
+    result.processed += 1;
+    try {
+      const outcome = await processSavedSearch(supabase, row, alertDate, now);
+      result[outcome] += 1;
+    } catch (searchError) {
+      result.failed += 1;
+      console.error("[saved-search-alerts] Unable to process saved search:", {
+        savedSearchId: row.id,
+        error: searchError,
+      });
+    }
+  }
+
+  return { skipped: false, ...result };
+}
@@ -6,10 +6,12 @@ import {
   sendNewMatchReminderReengagementEmail,
   sendNewMatchesReengagementEmail,
   sendNoActiveVideoSlotEmail,
+  sendSavedSearchResultsEmail,
   sendUnreadMessagesReengagementEmail,
 } from "@/lib/email";
 import { sendPushNotificationIfAllowed } from "@/lib/onesignal";
 import { formatInTimeZone, getSafeTimeZone } from "@/lib/timezones";
+import { VISIBLE_MESSAGE_SAFETY_STATUSES } from "@/lib/message-safety/pipeline";
 
 type AlertChannel = "email" | "push";
 type ScheduledAlertStatus = "pending" | "sent" | "cancelled" | "failed";
@@ -24,7 +26,8 @@ export type ScheduledAlertType =
   | "reengagement_new_match_reminder"
   | "reengagement_inactive_day_7"
   | "reengagement_inactive_day_14"
-  | "reengagement_inactive_day_30";
+  | "reengagement_inactive_day_30"
+  | "saved_search_new_results";
 
 type ScheduledAlertPayload = Record<string, unknown>;
 
@@ -149,6 +152,7 @@ async function hasUnreadMessagesWaiting(
     .select("id")
     .eq("match_id", matchId)
     .neq("sender_id", userId)
+    .in("safety_status", VISIBLE_MESSAGE_SAFETY_STATUSES)
     .is("read_at", null)
     .limit(1);
 
@@ -589,6 +593,68 @@ async function deliverInactiveUserReengagement(
   return { sent: result.success, error: result.error };
 }
 
+async function deliverSavedSearchNewResults(
+  supabase: SupabaseClient,
+  alert: ScheduledAlertRow
+) {
+  const payload = alert.payload || {};
+  const savedSearchId = normalizeIso(payload.savedSearchId);
+  if (!savedSearchId) {
+    return { sent: false, cancelled: true, reason: "missing_saved_search_id" };
+  }
+
+  const { data: savedSearch, error } = await supabase
+    .from("saved_searches")
+    .select("name, alerts_enabled")
+    .eq("id", savedSearchId)
+    .eq("user_id", alert.user_id)
+    .maybeSingle();
+
+  if (error) {
+    console.error("[scheduled-alerts] Unable to check saved search:", error);
+    return { sent: false, error: "Unable to check saved search" };
+  }
+
+  if (!savedSearch || savedSearch.alerts_enabled !== true) {
+    return { sent: false, cancelled: true, reason: "saved_search_deleted_or_muted" };
+  }
+
+  const searchName = normalizeName(savedSearch.name, "your saved search");
+  const count = Math.max(1, Number(payload.count) || 1);
+
+  if (alert.channel === "email") {
+    const identity = await loadUserEmailIdentity(supabase, alert.user_id);
+    if (!identity.email) {
+      return { sent: false, cancelled: true, reason: "missing_email" };
+    }
+    const result = await sendSavedSearchResultsEmail(
+      identity.email,
+      {
+        recipientName: identity.recipientName,
+        searchName,
+        count,
+        savedSearchId,
+      },
+      alert.user_id
+    );
+    return { sent: result.success, error: result.error };
+  }
+
+  const pushSent = await sendPushNotificationIfAllowed({
+    userId: alert.user_id,
+    type: "saved_search_results",
+    title: `New results for "${searchName}"`,
+    message: `${count} new ${count === 1 ? "person matches" : "people match"} your saved search.`,
+    url: `/dashboard/search?saved=${savedSearchId}`,
+    data: {
+      saved_search_id: savedSearchId,
+      count,
+    },
+  });
+
+  return { sent: pushSent };
+}
+
 async function deliverScheduledAlert(
   supabase: SupabaseClient,
   alert: ScheduledAlertRow
@@ -610,6 +676,8 @@ async function deliverScheduledAlert(
     case "reengagement_inactive_day_14":
     case "reengagement_inactive_day_30":
       return deliverInactiveUserReengagement(supabase, alert);
+    case "saved_search_new_results":
+      return deliverSavedSearchNewResults(supabase, alert);
     default:
       return { sent: false, cancelled: true, reason: "unknown_alert_type" };
   }
@@ -32,10 +32,16 @@ export type BookingConflictResult = {
   existingCount?: number;
 };
 
+type ConflictOptions = {
+  /** A meeting being moved doesn't conflict with itself. */
+  excludeMeetingId?: string;
+};
+
 async function getActiveMeetingIdsAtTime(
   supabase: SupabaseClient,
   userId: string,
-  scheduledAtIso: string
+  scheduledAtIso: string,
+  options: ConflictOptions = {}
 ) {
   const { data: hostMeetings, error: hostError } = await supabase
     .from("meetings")
@@ -63,7 +69,9 @@ async function getActiveMeetingIdsAtTime(
   );
 
   if (participantMeetingIds.length === 0) {
-    return (hostMeetings || []).map((meeting) => meeting.id);
+    return (hostMeetings || [])
+      .map((meeting) => meeting.id)
+      .filter((id) => id !== options.excludeMeetingId);
   }
 
   const { data: participantMeetings, error: participantMeetingsError } =
@@ -85,13 +93,15 @@ async function getActiveMeetingIdsAtTime(
   for (const meeting of (participantMeetings || []) as MeetingRow[]) {
     ids.add(meeting.id);
   }
+  if (options.excludeMeetingId) ids.delete(options.excludeMeetingId);
   return Array.from(ids);
 }
 
 export async function validateMeetingBookingConflicts(
   supabase: SupabaseClient,
   scheduledAtIso: string,
-  participants: ParticipantInput[]
+  participants: ParticipantInput[],
+  options: ConflictOptions = {}
 ): Promise<BookingConflictResult> {
   await expireStalePendingMeetingRequests(supabase);
 
@@ -108,7 +118,8 @@ export async function validateMeetingBookingConflicts(
     const existingMeetingIds = await getActiveMeetingIdsAtTime(
       supabase,
       participant.userId,
-      scheduledAtIso
+      scheduledAtIso,
+      options
     );
     const existingCount = existingMeetingIds.length;
     if (existingCount === 0) {
@@ -146,3 +157,37 @@ export async function validateMeetingBookingConflicts(
 
   return { allowed: true, status: 200 };
 }
+
+/**
+ * Conflicts for moving an existing meeting to a new time: the checks a new
+ * booking gets (POST /api/meetings), ignoring the meeting being moved.
+ */
+export async function validateRescheduleConflicts(
+  supabase: SupabaseClient,
+  meetingId: string,
+  scheduledAtIso: string,
+  participants: ParticipantInput[]
+): Promise<BookingConflictResult> {
+  const options = { excludeMeetingId: meetingId };
+
+  // The same members already meeting at that time is a duplicate, whatever
+  // the multi-booking policy allows.
+  const meetingIdsByParticipant = await Promise.all(
+    participants.map((participant) =>
+      getActiveMeetingIdsAtTime(supabase, participant.userId, scheduledAtIso, options)
+    )
+  );
+  const [first = [], ...rest] = meetingIdsByParticipant;
+  const shared = first.filter((id) => rest.every((ids) => ids.includes(id)));
+  if (participants.length > 1 && shared.length > 0) {
+    return {
+      allowed: false,
+      status: 409,
+      code: "duplicate_meeting_request",
+      message: "You already have a meeting together at this time.",
+      existingCount: shared.length,
+    };
+  }
+
+  return validateMeetingBookingConflicts(supabase, scheduledAtIso, participants, options);
+}
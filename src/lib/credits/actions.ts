@@ -1,6 +1,8 @@
 import type { SupabaseClient } from "@supabase/supabase-js";
 import { normalizeTier } from "@/lib/credits/config";
+import { drawDownCreditLots, grantCreditLotSafely } from "@/lib/credits/lots";
 import { recordCreditTransaction } from "@/lib/credits/transactions";
+import { creditEntries, postLedgerTransactionSafely } from "@/lib/ledger/ledger";
 
 type MeetingType = "group" | "one_on_one";
 
@@ -93,6 +95,49 @@ export function getJoinMeetingCreditCost(rawTier?: string | null, rawType?: stri
     : ACTION_COSTS.join_one_on_one[tier];
 }
 
+async function recordCreditConsumption(
+  supabase: SupabaseClient,
+  userId: string,
+  amount: number,
+  options?: CreditMutationOptions
+) {
+  // Spend the soonest-expiring lots first. The balance has already moved, so
+  // a failed lot update is logged and left for the next cycle reset to trim.
+  await drawDownCreditLots(supabase, userId, amount).catch((lotError) => {
+    console.warn("[consumeCredits] Failed to draw down credit lots:", lotError);
+  });
+
+  await postLedgerTransactionSafely(supabase, {
+    kind: "meeting_charge",
+    userId,
+    description: options?.description || `Consumed ${amount} credit(s).`,
+    metadata: { action_type: options?.actionType || "credit_deduction" },
+    entries: creditEntries(userId, -amount, "credit_consumption"),
+  });
+}
+
+async function recordCreditRefund(
+  supabase: SupabaseClient,
+  userId: string,
+  amount: number,
+  options?: CreditMutationOptions
+) {
+  await grantCreditLotSafely(supabase, {
+    userId,
+    source: "refund",
+    amount,
+    note: options?.description || null,
+  });
+
+  await postLedgerTransactionSafely(supabase, {
+    kind: "refund",
+    userId,
+    description: options?.description || `Refunded ${amount} credit(s).`,
+    metadata: { action_type: options?.actionType || "credit_refund" },
+    entries: creditEntries(userId, amount, "credit_consumption"),
+  });
+}
+
 export async function consumeCredits(
   supabase: SupabaseClient,
   userId: string,
@@ -118,6 +163,9 @@ export async function consumeCredits(
   if (!rpcError) {
     const row = Array.isArray(rpcResult) ? rpcResult[0] : rpcResult;
     if (!row) throw new Error("consume_credits_atomic returned no result");
+    if (row.success) {
+      await recordCreditConsumption(supabase, userId, amount, options);
+    }
     return {
       success: Boolean(row.success),
       available: Number(row.available_before),
@@ -169,6 +217,7 @@ export async function consumeCredits(
     actionType: options?.actionType || "credit_deduction",
     description: options?.description || `Consumed ${amount} credit(s).`,
   });
+  await recordCreditConsumption(supabase, userId, amount, options);
 
   return { success: true, available, required: amount };
 }
@@ -190,7 +239,10 @@ export async function refundConsumedCredits(
     p_description: options?.description || `Refunded ${amount} credit(s).`,
   });
 
-  if (!rpcError) return;
+  if (!rpcError) {
+    await recordCreditRefund(supabase, userId, amount, options);
+    return;
+  }
 
   // ── Legacy fallback (non-atomic) ──────────────────────────
   console.warn("[refundConsumedCredits] RPC unavailable, using fallback:", rpcError.message);
@@ -230,4 +282,5 @@ export async function refundConsumedCredits(
     actionType: options?.actionType || "credit_refund",
     description: options?.description || `Refunded ${amount} credit(s).`,
   });
+  await recordCreditRefund(supabase, userId, amount, options);
 }
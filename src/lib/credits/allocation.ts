@@ -4,7 +4,17 @@ import {
   normalizeTier,
   UNLIMITED_CREDITS,
 } from "@/lib/credits/config";
+import {
+  drawDownCreditLots,
+  loadActiveCreditLots,
+  planSubscriptionRollover,
+  rollSubscriptionCreditLots,
+  type CreditLotRow,
+  type SubscriptionRolloverPlan,
+} from "@/lib/credits/lots";
 import { recordCreditTransaction } from "@/lib/credits/transactions";
+import { creditEntries, postLedgerTransactionSafely } from "@/lib/ledger/ledger";
+import type { TierId } from "@/lib/subscription/config";
 
 type CreditsRow = {
   total: number | null;
@@ -12,13 +22,107 @@ type CreditsRow = {
   rollover: number | null;
 };
 
-export async function allocateSubscriptionCredits(
+export type AllocateSubscriptionCreditsOptions = {
+  /** Audit action for the allocation; the monthly reset cron uses its own. */
+  actionType?: string;
+  description?: string;
+  /** Invoice, gift or plan change the allocation is for; it runs once per key. */
+  idempotencyKey?: string | null;
+  /** Stamp `credits.last_reset_at`, as the monthly reset does. */
+  markReset?: boolean;
+  now?: Date;
+};
+
+/**
+ * Plan the rollover for a user whose balance is about to reset. Lots the
+ * balance no longer covers (credits removed outside the lot-aware paths)
+ * are treated as spent first so they are not carried forward.
+ */
+export async function prepareSubscriptionRollover(
   supabase: SupabaseClient,
   userId: string,
+  previous: CreditsRow | null,
   rawTier?: string | null
+) {
+  let lots = await loadActiveCreditLots(supabase, userId);
+  const previousTotal = previous?.total || 0;
+  if (previousTotal < UNLIMITED_CREDITS) {
+    const available = Math.max(0, previousTotal - (previous?.used || 0) + (previous?.rollover || 0));
+    const tracked = lots.reduce((sum, lot) => sum + Number(lot.remaining), 0);
+    if (tracked > available) {
+      await drawDownCreditLots(supabase, userId, tracked - available);
+      lots = await loadActiveCreditLots(supabase, userId);
+    }
+  }
+
+  return { lots, plan: planSubscriptionRollover(lots, previous, rawTier) };
+}
+
+/**
+ * Follow-up once the new cycle's balance is written: roll the credit lots
+ * and log the plan credits that lapsed above the cap.
+ */
+export async function completeSubscriptionRollover(
+  supabase: SupabaseClient,
+  input: {
+    userId: string;
+    tier: TierId;
+    monthlyCredits: number;
+    lots: CreditLotRow[];
+    plan: SubscriptionRolloverPlan;
+    /** Invoice, gift, plan change or wallet payment that opened the cycle. */
+    reference?: string | null;
+    now?: Date;
+  }
+) {
+  await rollSubscriptionCreditLots(supabase, input).catch((lotError) => {
+    console.warn("[credits] Failed to roll credit lots:", lotError);
+  });
+
+  if (input.tier !== "vip" && input.plan.lapsed > 0) {
+    await recordCreditTransaction(supabase, {
+      userId: input.userId,
+      amount: -input.plan.lapsed,
+      actionType: "credit_expiry",
+      description: `${input.plan.lapsed} unused plan credit(s) above the rollover cap expired.`,
+    });
+  }
+}
+
+/**
+ * Claim an allocation's idempotency key. False when an earlier run already
+ * claimed it, so the balance is not reset and rolled a second time.
+ */
+async function claimCreditAllocation(supabase: SupabaseClient, key: string, userId: string) {
+  const { error } = await supabase
+    .from("credit_allocation_claims")
+    .insert({ idempotency_key: key, user_id: userId });
+
+  if (!error) return true;
+  if (error.code === "23505") return false;
+  throw error;
+}
+
+async function releaseCreditAllocation(supabase: SupabaseClient, key: string) {
+  const { error } = await supabase
+    .from("credit_allocation_claims")
+    .delete()
+    .eq("idempotency_key", key);
+
+  if (error) {
+    console.warn(`[credits] Failed to release allocation claim ${key}:`, error);
+  }
+}
+
+export async function allocateSubscriptionCredits(
+  supabase: SupabaseClient,
+  userId: string,
+  rawTier?: string | null,
+  options: AllocateSubscriptionCreditsOptions = {}
 ) {
   const tier = normalizeTier(rawTier);
   const creditsToAdd = getMonthlyCreditsForTier(tier);
+  const now = options.now || new Date();
 
   const { data: currentCredits } = await supabase
     .from("credits")
@@ -32,39 +136,88 @@ export async function allocateSubscriptionCredits(
   const rollover = row?.rollover || 0;
   const availableBefore = Math.max(0, totalBefore - used + rollover);
 
+  const idempotencyKey = options.idempotencyKey || null;
+  if (idempotencyKey && !(await claimCreditAllocation(supabase, idempotencyKey, userId))) {
+    return {
+      tier,
+      creditsToAdd,
+      totalBefore,
+      totalAfter: totalBefore,
+      rolloverAdded: 0,
+      creditsExpired: 0,
+      alreadyAllocated: true,
+    };
+  }
+
   const totalAfter = tier === "vip" ? UNLIMITED_CREDITS : creditsToAdd;
   const usedAfter = 0;
-  const rolloverAfter = tier === "vip" ? 0 : availableBefore;
-
-  const { error } = await supabase.from("credits").upsert(
-    {
-      user_id: userId,
-      total: totalAfter,
-      used: usedAfter,
-      rollover: rolloverAfter,
-      updated_at: new Date().toISOString(),
-    },
-    { onConflict: "user_id" }
-  );
+  let lots: CreditLotRow[];
+  let plan: SubscriptionRolloverPlan;
 
-  if (error) {
+  try {
+    ({ lots, plan } = await prepareSubscriptionRollover(supabase, userId, row, tier));
+
+    const { error } = await supabase.from("credits").upsert(
+      {
+        user_id: userId,
+        total: totalAfter,
+        used: usedAfter,
+        rollover: plan.rollover,
+        ...(options.markReset ? { last_reset_at: now.toISOString() } : {}),
+        updated_at: now.toISOString(),
+      },
+      { onConflict: "user_id" }
+    );
+
+    if (error) {
+      throw error;
+    }
+  } catch (error) {
+    // Nothing was allocated, so the retry may claim the key again.
+    if (idempotencyKey) await releaseCreditAllocation(supabase, idempotencyKey);
     throw error;
   }
 
-  if (tier !== "vip" && availableBefore > 0) {
+  const rolloverAfter = plan.rollover;
+
+  await completeSubscriptionRollover(supabase, {
+    userId,
+    tier,
+    monthlyCredits: creditsToAdd,
+    lots,
+    plan,
+    reference: idempotencyKey,
+    now,
+  });
+
+  if (rolloverAfter > 0) {
     await recordCreditTransaction(supabase, {
       userId,
-      amount: availableBefore,
+      amount: rolloverAfter,
       actionType: "subscription_credit_rollover",
-      description: `Rolled over ${availableBefore} unused credit(s) into the new ${tier} subscription cycle.`,
+      description: `Rolled over ${rolloverAfter} unused credit(s) into the new ${tier} subscription cycle.`,
     });
   }
 
+  const description =
+    options.description || `Allocated ${creditsToAdd} monthly credits for ${tier} tier.`;
   await recordCreditTransaction(supabase, {
     userId,
     amount: creditsToAdd,
-    actionType: "subscription_monthly_allocation",
-    description: `Allocated ${creditsToAdd} monthly credits for ${tier} tier.`,
+    actionType: options.actionType || "subscription_monthly_allocation",
+    description,
+  });
+
+  // The ledger records the net change in available credits: the new
+  // allowance plus rollover, less what the previous cycle left.
+  const availableAfter = totalAfter - usedAfter + rolloverAfter;
+  await postLedgerTransactionSafely(supabase, {
+    kind: "credit_allocation",
+    userId,
+    idempotencyKey,
+    description,
+    metadata: plan.lapsed > 0 ? { credits_expired: plan.lapsed } : undefined,
+    entries: creditEntries(userId, availableAfter - availableBefore, "credit_issuance"),
   });
 
   return {
@@ -73,5 +226,7 @@ export async function allocateSubscriptionCredits(
     totalBefore,
     totalAfter,
     rolloverAdded: rolloverAfter,
+    creditsExpired: plan.lapsed,
+    alreadyAllocated: false,
   };
 }
@@ -0,0 +1,100 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { CREDIT_LOT_COLUMNS, type CreditLotRow } from "@/lib/credits/lots";
+import { CREDIT_LOT_POLICIES } from "@/lib/credits/policy";
+import { creditEntries, postLedgerTransactionSafely } from "@/lib/ledger/ledger";
+import { removeAvailableCredits } from "@/lib/payments/balance-adjustments";
+
+export type CreditExpiryRunResult = {
+  lotsChecked: number;
+  lotsExpired: number;
+  creditsExpired: number;
+  failed: number;
+};
+
+type CreditExpiryDeps = {
+  removeAvailableCreditsFn?: typeof removeAvailableCredits;
+  now?: Date;
+  limit?: number;
+};
+
+/**
+ * Expire every active lot whose expiry has passed: the lot is closed and
+ * what it still held is taken out of the user's balance.
+ */
+export async function expireCreditLots(
+  supabase: SupabaseClient,
+  deps: CreditExpiryDeps = {}
+): Promise<CreditExpiryRunResult> {
+  const now = deps.now || new Date();
+  const removeFn = deps.removeAvailableCreditsFn || removeAvailableCredits;
+
+  const { data, error } = await supabase
+    .from("credit_lots")
+    .select(CREDIT_LOT_COLUMNS)
+    .eq("status", "active")
+    .lte("expires_at", now.toISOString())
+    .order("expires_at", { ascending: true })
+    .limit(deps.limit ?? 500);
+
+  if (error) throw error;
+
+  const lots = (data || []) as CreditLotRow[];
+  const result: CreditExpiryRunResult = {
+    lotsChecked: lots.length,
+    lotsExpired: 0,
+    creditsExpired: 0,
+    failed: 0,
+  };
+
+  for (const lot of lots) {
+    const remaining = Number(lot.remaining);
+    try {
+      // Claim the lot at the remaining amount we read, so a spend racing
+      // the sweep is not expired as well.
+      const { data: claimed, error: claimError } = await supabase
+        .from("credit_lots")
+        .update({
+          remaining: 0,
+          expired_credits: remaining,
+          status: "expired",
+          updated_at: now.toISOString(),
+        })
+        .eq("id", lot.id)
+        .eq("remaining", remaining)
+        .select("id");
+
+      if (claimError) throw claimError;
+      if (!claimed || claimed.length === 0) continue;
+
+      result.lotsExpired += 1;
+      if (remaining <= 0) continue;
+
+      const label = CREDIT_LOT_POLICIES[lot.source].label.toLowerCase();
+      const removed = await removeFn(supabase, {
+        userId: lot.user_id,
+        credits: remaining,
+        actionType: "credit_expiry",
+        description: `${remaining} ${label} expired.`,
+        skipLots: true,
+        now,
+      });
+      result.creditsExpired += removed;
+
+      if (removed > 0) {
+        await postLedgerTransactionSafely(supabase, {
+          kind: "credit_expiry",
+          userId: lot.user_id,
+          idempotencyKey: `credit_expiry:${lot.id}`,
+          description: `${removed} ${label} expired.`,
+          metadata: { lot_id: lot.id, source: lot.source },
+          entries: creditEntries(lot.user_id, -removed, "credit_issuance"),
+        });
+      }
+    } catch (lotError) {
+      console.error(`[credit-expiry] Failed to expire lot ${lot.id}:`, lotError);
+      result.failed += 1;
+    }
+  }
+
+  return result;
+}
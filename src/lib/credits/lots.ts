@@ -0,0 +1,385 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { normalizeTier, UNLIMITED_CREDITS } from "@/lib/credits/config";
+import {
+  CREDIT_LOT_POLICIES,
+  CREDIT_SOURCES,
+  getCreditLotExpiry,
+  getSubscriptionRolloverCap,
+  type CreditSource,
+} from "@/lib/credits/policy";
+
+export type CreditLotStatus = "active" | "consumed" | "expired" | "rolled_over";
+
+/**
+ * One grant of credits from a single source. `credits` stays the balance the
+ * app charges against; lots break that balance down so each part can expire
+ * on its own schedule.
+ */
+export type CreditLotRow = {
+  id: string;
+  user_id: string;
+  source: CreditSource;
+  amount: number;
+  remaining: number;
+  granted_at: string;
+  expires_at: string | null;
+  reference: string | null;
+  note: string | null;
+  status: CreditLotStatus;
+};
+
+export type GrantCreditLotInput = {
+  userId: string;
+  source: CreditSource;
+  amount: number;
+  /** Provider session, reward id, ... so a retried grant records one lot. */
+  reference?: string | null;
+  note?: string | null;
+  /** Overrides the expiry the source's policy would give the lot. */
+  expiresAt?: Date | null;
+  now?: Date;
+};
+
+export type SubscriptionRolloverPlan = {
+  /** Plan credits carried into the new cycle, up to the rollover cap. */
+  carried: number;
+  /** Plan credits above the cap, which lapse at the reset. */
+  lapsed: number;
+  /** Purchased, gifted, referral, refund and admin credits; they keep their own expiry. */
+  retained: number;
+  /** Value for the new cycle's `credits.rollover`. */
+  rollover: number;
+};
+
+export type CreditExpiration = {
+  id: string;
+  source: CreditSource;
+  label: string;
+  remaining: number;
+  expiresAt: string;
+};
+
+export type CreditExpirationSummary = {
+  expiring: CreditExpiration[];
+  expiringTotal: number;
+  balances: Record<CreditSource, number>;
+  /** Null on VIP, where plan credits are unlimited. */
+  rollover: { cap: number; planCredits: number; lapsingAtRenewal: number } | null;
+};
+
+type CreditsRow = {
+  total: number | null;
+  used: number | null;
+  rollover: number | null;
+};
+
+export const CREDIT_LOT_COLUMNS =
+  "id, user_id, source, amount, remaining, granted_at, expires_at, reference, note, status";
+
+function sumRemaining(lots: CreditLotRow[]) {
+  return lots.reduce((sum, lot) => sum + Number(lot.remaining || 0), 0);
+}
+
+const DRAW_DOWN_ATTEMPTS = 5;
+
+/**
+ * When a lot stops being spendable. Plan lots have no expiry of their own but
+ * lapse when the membership cycle ends, so they are spent as if they expire
+ * then.
+ */
+function getConsumptionExpiry(lot: CreditLotRow, planCycleEndsAt: string | null) {
+  if (lot.expires_at) return lot.expires_at;
+  return lot.source === "subscription" ? planCycleEndsAt : null;
+}
+
+/**
+ * Soonest expiry first; lots that never expire go last. Ties go to the oldest
+ * grant. `planCycleEndsAt` is the end of the user's membership cycle.
+ */
+export function compareCreditLotsForConsumption(
+  a: CreditLotRow,
+  b: CreditLotRow,
+  planCycleEndsAt: string | null = null
+) {
+  const aExpiry = getConsumptionExpiry(a, planCycleEndsAt);
+  const bExpiry = getConsumptionExpiry(b, planCycleEndsAt);
+  if (aExpiry !== bExpiry) {
+    if (!aExpiry) return 1;
+    if (!bExpiry) return -1;
+    const difference = Date.parse(aExpiry) - Date.parse(bExpiry);
+    if (difference !== 0) return difference;
+  }
+  return Date.parse(a.granted_at) - Date.parse(b.granted_at);
+}
+
+export async function grantCreditLot(supabase: SupabaseClient, input: GrantCreditLotInput) {
+  if (input.amount <= 0) return null;
+
+  const now = input.now || new Date();
+  const expiresAt =
+    input.expiresAt !== undefined ? input.expiresAt : getCreditLotExpiry(input.source, now);
+
+  const { data, error } = await supabase
+    .from("credit_lots")
+    .insert({
+      user_id: input.userId,
+      source: input.source,
+      amount: input.amount,
+      remaining: input.amount,
+      granted_at: now.toISOString(),
+      expires_at: expiresAt ? expiresAt.toISOString() : null,
+      reference: input.reference || null,
+      note: input.note || null,
+      status: "active",
+    })
+    .select(CREDIT_LOT_COLUMNS)
+    .single<CreditLotRow>();
+
+  if (error) {
+    // (source, reference) is unique: the grant was already recorded.
+    if (error.code === "23505") return null;
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Record a lot alongside a balance change that has already been applied.
+ * The balance is what users spend, so a failed lot write is logged rather
+ * than undoing the grant.
+ */
+export async function grantCreditLotSafely(supabase: SupabaseClient, input: GrantCreditLotInput) {
+  try {
+    return await grantCreditLot(supabase, input);
+  } catch (error) {
+    console.warn(`[credit-lots] Failed to record ${input.source} lot for ${input.userId}:`, error);
+    return null;
+  }
+}
+
+/** End of the user's latest membership cycle, when their plan credits lapse. */
+async function getPlanCycleEnd(supabase: SupabaseClient, userId: string) {
+  const { data, error } = await supabase
+    .from("memberships")
+    .select("expires_at")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle<{ expires_at: string | null }>();
+
+  if (error) throw error;
+  return data?.expires_at || null;
+}
+
+export async function loadActiveCreditLots(supabase: SupabaseClient, userId: string) {
+  const [{ data, error }, planCycleEndsAt] = await Promise.all([
+    supabase
+      .from("credit_lots")
+      .select(CREDIT_LOT_COLUMNS)
+      .eq("user_id", userId)
+      .eq("status", "active"),
+    getPlanCycleEnd(supabase, userId),
+  ]);
+
+  if (error) throw error;
+
+  return ((data || []) as CreditLotRow[])
+    .filter((lot) => Number(lot.remaining) > 0)
+    .sort((a, b) => compareCreditLotsForConsumption(a, b, planCycleEndsAt));
+}
+
+/**
+ * Take `amount` out of the user's lots, soonest-expiring first. A lot another
+ * spend moved since it was read is re-read and drawn from again. Returns how
+ * many credits came out of lots; a shortfall is balance granted before lots
+ * were tracked.
+ */
+export async function drawDownCreditLots(
+  supabase: SupabaseClient,
+  userId: string,
+  amount: number,
+  options: { now?: Date; sources?: CreditSource[] } = {}
+) {
+  if (amount <= 0) return 0;
+
+  const updatedAt = (options.now || new Date()).toISOString();
+  const lots = (await loadActiveCreditLots(supabase, userId)).filter(
+    (lot) => !options.sources || options.sources.includes(lot.source)
+  );
+  let left = amount;
+
+  for (const lot of lots) {
+    if (left <= 0) break;
+
+    let remaining = Number(lot.remaining);
+    for (let attempt = 0; attempt < DRAW_DOWN_ATTEMPTS && remaining > 0; attempt += 1) {
+      const take = Math.min(remaining, left);
+      const { data, error } = await supabase
+        .from("credit_lots")
+        .update({
+          remaining: remaining - take,
+          status: remaining - take === 0 ? "consumed" : "active",
+          updated_at: updatedAt,
+        })
+        .eq("id", lot.id)
+        .eq("remaining", remaining)
+        .select("id");
+
+      if (error) throw error;
+      if (data && data.length > 0) {
+        left -= take;
+        break;
+      }
+
+      const { data: current, error: currentError } = await supabase
+        .from("credit_lots")
+        .select("remaining, status")
+        .eq("id", lot.id)
+        .maybeSingle<{ remaining: number; status: CreditLotStatus }>();
+
+      if (currentError) throw currentError;
+      remaining = current?.status === "active" ? Number(current.remaining) : 0;
+    }
+  }
+
+  return amount - left;
+}
+
+/**
+ * Work out what survives a subscription cycle reset. Plan credits (including
+ * any balance that predates lot tracking) carry over up to the tier's cap;
+ * every other source is kept as-is.
+ */
+export function planSubscriptionRollover(
+  lots: CreditLotRow[],
+  previous: CreditsRow | null,
+  rawTier?: string | null
+): SubscriptionRolloverPlan {
+  const tier = normalizeTier(rawTier);
+  const planLots = lots.filter((lot) => lot.source === "subscription");
+  const retained = sumRemaining(lots) - sumRemaining(planLots);
+
+  const previousTotal = previous?.total || 0;
+  const previousAvailable = Math.max(
+    0,
+    previousTotal - (previous?.used || 0) + (previous?.rollover || 0)
+  );
+  const untracked =
+    previousTotal >= UNLIMITED_CREDITS ? 0 : Math.max(0, previousAvailable - sumRemaining(lots));
+  const planCredits = sumRemaining(planLots) + untracked;
+
+  if (tier === "vip") {
+    return { carried: 0, lapsed: planCredits, retained, rollover: 0 };
+  }
+
+  const carried = Math.min(planCredits, getSubscriptionRolloverCap(tier));
+  return {
+    carried,
+    lapsed: planCredits - carried,
+    retained,
+    rollover: carried + retained,
+  };
+}
+
+/**
+ * Close the previous cycle's plan lots and open the new cycle's: the capped
+ * carry-over and the monthly allocation. VIP cycles get no plan lots.
+ * `reference` identifies the cycle (invoice, gift, plan change or wallet
+ * payment) so a retried roll records its lots once.
+ */
+export async function rollSubscriptionCreditLots(
+  supabase: SupabaseClient,
+  input: {
+    userId: string;
+    tier: string;
+    monthlyCredits: number;
+    lots: CreditLotRow[];
+    plan: SubscriptionRolloverPlan;
+    reference?: string | null;
+    now?: Date;
+  }
+) {
+  const now = input.now || new Date();
+  const planLotIds = input.lots
+    .filter((lot) => lot.source === "subscription")
+    .map((lot) => lot.id);
+
+  if (planLotIds.length > 0) {
+    const { error } = await supabase
+      .from("credit_lots")
+      .update({ remaining: 0, status: "rolled_over", updated_at: now.toISOString() })
+      .in("id", planLotIds);
+
+    if (error) throw error;
+  }
+
+  if (normalizeTier(input.tier) === "vip") return;
+
+  await grantCreditLot(supabase, {
+    userId: input.userId,
+    source: "subscription",
+    amount: input.plan.carried,
+    reference: input.reference ? `${input.reference}:rollover` : null,
+    note: "Rolled over from the previous plan cycle",
+    now,
+  });
+  await grantCreditLot(supabase, {
+    userId: input.userId,
+    source: "subscription",
+    amount: input.monthlyCredits,
+    reference: input.reference ? `${input.reference}:allocation` : null,
+    note: `Monthly ${normalizeTier(input.tier)} allocation`,
+    now,
+  });
+}
+
+/**
+ * Lots that expire within `withinDays`, the balance held per source, and how
+ * many plan credits sit above the rollover cap and would lapse at renewal.
+ */
+export async function getUpcomingCreditExpirations(
+  supabase: SupabaseClient,
+  userId: string,
+  rawTier?: string | null,
+  options: { now?: Date; withinDays?: number } = {}
+): Promise<CreditExpirationSummary> {
+  const now = options.now || new Date();
+  const horizon = now.getTime() + (options.withinDays ?? 30) * 24 * 60 * 60 * 1000;
+  const lots = await loadActiveCreditLots(supabase, userId);
+
+  const expiring = lots
+    .filter((lot) => lot.expires_at && Date.parse(lot.expires_at) <= horizon)
+    .map((lot) => ({
+      id: lot.id,
+      source: lot.source,
+      label: CREDIT_LOT_POLICIES[lot.source].label,
+      remaining: Number(lot.remaining),
+      expiresAt: lot.expires_at as string,
+    }));
+
+  const balances = Object.fromEntries(CREDIT_SOURCES.map((source) => [source, 0])) as Record<
+    CreditSource,
+    number
+  >;
+  for (const lot of lots) {
+    balances[lot.source] += Number(lot.remaining);
+  }
+
+  const tier = normalizeTier(rawTier);
+  const cap = getSubscriptionRolloverCap(tier);
+
+  return {
+    expiring,
+    expiringTotal: expiring.reduce((sum, lot) => sum + lot.remaining, 0),
+    balances,
+    rollover:
+      tier === "vip"
+        ? null
+        : {
+            cap,
+            planCredits: balances.subscription,
+            lapsingAtRenewal: Math.max(0, balances.subscription - cap),
+          },
+  };
+}
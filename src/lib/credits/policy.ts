@@ -0,0 +1,56 @@
+import { getMonthlyCreditsForTier, normalizeTier } from "@/lib/credits/config";
+
+export const CREDIT_SOURCES = [
+  "subscription",
+  "purchase",
+  "gift",
+  "referral",
+  "refund",
+  "admin",
+] as const;
+
+export type CreditSource = (typeof CREDIT_SOURCES)[number];
+
+export type CreditLotPolicy = {
+  /** Months a lot stays spendable after it is granted; null never expires. */
+  expiresAfterMonths: number | null;
+  label: string;
+};
+
+export const CREDIT_LOT_POLICIES: Record<CreditSource, CreditLotPolicy> = {
+  // Plan credits carry no date of their own: they lapse at the next cycle
+  // reset, except for what the rollover cap carries forward. Spending treats
+  // them as expiring when the membership cycle ends.
+  subscription: { expiresAfterMonths: null, label: "Plan credits" },
+  purchase: { expiresAfterMonths: 12, label: "Purchased credits" },
+  gift: { expiresAfterMonths: 12, label: "Gifted credits" },
+  referral: { expiresAfterMonths: 6, label: "Referral rewards" },
+  refund: { expiresAfterMonths: 12, label: "Refunded credits" },
+  admin: { expiresAfterMonths: null, label: "Credits added by support" },
+};
+
+/**
+ * Unspent plan credits carried into a new cycle, as a multiple of the new
+ * cycle's monthly allocation.
+ */
+export const SUBSCRIPTION_ROLLOVER_CAP_MULTIPLIER = 1;
+
+export function isCreditSource(value: unknown): value is CreditSource {
+  return typeof value === "string" && (CREDIT_SOURCES as readonly string[]).includes(value);
+}
+
+export function getCreditLotExpiry(source: CreditSource, grantedAt: Date): Date | null {
+  const months = CREDIT_LOT_POLICIES[source].expiresAfterMonths;
+  if (months === null) return null;
+
+  const expiresAt = new Date(grantedAt);
+  expiresAt.setUTCMonth(expiresAt.getUTCMonth() + months);
+  return expiresAt;
+}
+
+/** VIP credits are unlimited, so there is nothing to carry over. */
+export function getSubscriptionRolloverCap(rawTier?: string | null) {
+  const tier = normalizeTier(rawTier);
+  if (tier === "vip") return 0;
+  return getMonthlyCreditsForTier(tier) * SUBSCRIPTION_ROLLOVER_CAP_MULTIPLIER;
+}
@@ -131,6 +131,9 @@ export const CIO_EVENTS = {
   RETURNED_AFTER_INACTIVITY: "returned_after_inactivity",
   SUBSCRIPTION_UPGRADED: "subscription_upgraded",
   SUBSCRIPTION_CANCELLED: "subscription_cancelled",
+  SUBSCRIPTION_DOWNGRADED: "subscription_downgraded",
+  SUBSCRIPTION_RENEWED: "subscription_renewed",
+  SUBSCRIPTION_PAYMENT_FAILED: "subscription_payment_failed",
 
   // Milestones
   TEN_MATCHES: "ten_matches",
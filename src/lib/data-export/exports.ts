@@ -0,0 +1,620 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createZipArchive, toCsv, type ArchiveEntry } from "@/lib/data-export/archive";
+import { sendDataExportReadyEmail } from "@/lib/email";
+import { getPreferredEmailRecipientName } from "@/lib/email-recipient-name";
+import { VISIBLE_MESSAGE_SAFETY_STATUSES } from "@/lib/message-safety/pipeline";
+
+/**
+ * "Download my data": asynchronous exports of everything we hold about a
+ * member.
+ *
+ * POST /api/profile/data-export queues a request; the data-exports cron
+ * collects the profile, preferences, photos, activities, messages, meetings,
+ * agreements, wallet and credit history and notifications into a ZIP of
+ * JSON/CSV files in the private data-exports bucket, and emails the member
+ * a signed link. The archive is deleted once the link expires.
+ *
+ * Messages from the other member that our safety checks held back or
+ * removed are left out: the member never received them.
+ */
+
+export const DATA_EXPORT_BUCKET = "data-exports";
+
+/** How long the download link (and the archive behind it) lives. */
+export const DATA_EXPORT_LINK_TTL_HOURS = 72;
+
+/** One export per day is plenty and keeps the job queue honest. */
+export const DATA_EXPORT_COOLDOWN_HOURS = 24;
+
+/** A job that has been "processing" this long is assumed to have crashed. */
+const STALE_PROCESSING_MINUTES = 60;
+
+const PAGE_SIZE = 1000;
+
+export type DataExportStatus = "pending" | "processing" | "ready" | "failed" | "expired";
+
+export type DataExportRequestRow = {
+  id: string;
+  user_id: string;
+  status: DataExportStatus;
+  file_path: string | null;
+  file_size_bytes: number | null;
+  error: string | null;
+  requested_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+  expires_at: string | null;
+};
+
+export const DATA_EXPORT_COLUMNS =
+  "id, user_id, status, file_path, file_size_bytes, error, requested_at, started_at, completed_at, expires_at";
+
+type DataExportErrorCode = "export_in_progress" | "export_rate_limited";
+
+export type DataExportFailure = {
+  ok: false;
+  status: number;
+  code: DataExportErrorCode;
+  message: string;
+};
+
+export type DataExportDependencies = {
+  sendDataExportReadyEmailFn?: typeof sendDataExportReadyEmail;
+  now?: Date;
+};
+
+export type DataExportRunResult = {
+  processed: number;
+  ready: number;
+  failed: number;
+  expired: number;
+};
+
+type Row = Record<string, unknown>;
+
+export type DataExportContents = {
+  account: Row | null;
+  profile: Row | null;
+  preferences: Row | null;
+  matches: Row[];
+  activities: Row[];
+  messages: Row[];
+  meetings: Row[];
+  agreements: Row[];
+  wallets: Row[];
+  walletTransactions: Row[];
+  credits: Row[];
+  creditTransactions: Row[];
+  notifications: Row[];
+  photos: ArchiveEntry[];
+  /** Sections that could not be read; named in the README. */
+  unavailable: string[];
+};
+
+function failure(status: number, code: DataExportErrorCode, message: string): DataExportFailure {
+  return { ok: false, status, code, message };
+}
+
+function hoursFrom(date: Date, hours: number) {
+  return new Date(date.getTime() + hours * 60 * 60 * 1000);
+}
+
+function errorMessage(error: unknown) {
+  if (error && typeof error === "object" && "message" in error) {
+    return String(error.message || "") || "Export failed";
+  }
+  return "Export failed";
+}
+
+function formatDate(value: Date) {
+  return value.toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+}
+
+/** Queue an export unless one is already running or was made today. */
+export async function requestDataExport(
+  supabase: SupabaseClient,
+  input: { userId: string; now?: Date }
+): Promise<{ ok: true; request: DataExportRequestRow } | DataExportFailure> {
+  const now = input.now || new Date();
+  const since = hoursFrom(now, -DATA_EXPORT_COOLDOWN_HOURS).toISOString();
+
+  const { data: recent, error: recentError } = await supabase
+    .from("data_export_requests")
+    .select(DATA_EXPORT_COLUMNS)
+    .eq("user_id", input.userId)
+    .gte("requested_at", since)
+    .order("requested_at", { ascending: false })
+    .limit(5);
+
+  if (recentError) throw recentError;
+
+  const recentRequests = (recent || []) as DataExportRequestRow[];
+  if (recentRequests.some((row) => row.status === "pending" || row.status === "processing")) {
+    return failure(409, "export_in_progress", "Your data export is already being prepared.");
+  }
+  if (recentRequests.some((row) => row.status !== "failed")) {
+    return failure(
+      429,
+      "export_rate_limited",
+      "You can request one data export a day. Your latest export is listed below."
+    );
+  }
+
+  const { data, error } = await supabase
+    .from("data_export_requests")
+    .insert({ user_id: input.userId, status: "pending", requested_at: now.toISOString() })
+    .select(DATA_EXPORT_COLUMNS)
+    .single();
+
+  if (error) {
+    // The partial unique index caught a request made at the same moment.
+    if (error.code === "23505") {
+      return failure(409, "export_in_progress", "Your data export is already being prepared.");
+    }
+    throw error;
+  }
+
+  return { ok: true, request: data as DataExportRequestRow };
+}
+
+/**
+ * The member's recent exports, newest first, with a fresh signed
+ * download_url for each archive that hasn't expired.
+ */
+export async function listDataExports(
+  supabase: SupabaseClient,
+  input: { userId: string; now?: Date }
+) {
+  const now = input.now || new Date();
+  const { data, error } = await supabase
+    .from("data_export_requests")
+    .select(DATA_EXPORT_COLUMNS)
+    .eq("user_id", input.userId)
+    .order("requested_at", { ascending: false })
+    .limit(5);
+
+  if (error) throw error;
+
+  return Promise.all(
+    ((data || []) as DataExportRequestRow[]).map(async (row) => {
+      const secondsLeft = row.expires_at
+        ? Math.floor((new Date(row.expires_at).getTime() - now.getTime()) / 1000)
+        : 0;
+      if (row.status !== "ready" || !row.file_path || secondsLeft <= 0) {
+        return { ...row, download_url: null };
+      }
+
+      const { data: signed, error: signError } = await supabase.storage
+        .from(DATA_EXPORT_BUCKET)
+        .createSignedUrl(row.file_path, secondsLeft);
+      if (signError) console.warn(`[data-export] Failed to sign ${row.file_path}:`, signError);
+
+      return { ...row, download_url: signed?.signedUrl || null };
+    })
+  );
+}
+
+/** Every row of a query, a page at a time (PostgREST caps single reads). */
+async function selectAll(
+  supabase: SupabaseClient,
+  table: string,
+  filter: (query: ReturnType<ReturnType<SupabaseClient["from"]>["select"]>) => PromiseLike<{
+    data: unknown[] | null;
+    error: unknown;
+  }>
+): Promise<Row[]> {
+  const rows: Row[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await filter(
+      supabase.from(table).select("*").range(from, from + PAGE_SIZE - 1)
+    );
+    if (error) throw error;
+
+    rows.push(...((data || []) as Row[]));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+function storagePathFromPublicUrl(photoUrl: string) {
+  const marker = "/storage/v1/object/public/profile-images/";
+  const markerIndex = photoUrl.indexOf(marker);
+  if (markerIndex === -1) return null;
+
+  const path = photoUrl.slice(markerIndex + marker.length).split("?")[0].trim();
+  return path ? decodeURIComponent(path) : null;
+}
+
+async function collectPhotos(supabase: SupabaseClient, userId: string, profile: Row | null) {
+  const urls = new Set<string>();
+  if (Array.isArray(profile?.photos)) {
+    for (const url of profile.photos) if (typeof url === "string") urls.add(url);
+  }
+  if (typeof profile?.profile_photo_url === "string") urls.add(profile.profile_photo_url);
+
+  const photos: ArchiveEntry[] = [];
+  for (const url of urls) {
+    const path = storagePathFromPublicUrl(url);
+    // Only photos the member uploaded; anything else is listed in profile.json.
+    if (!path || !path.startsWith(`${userId}/`)) continue;
+
+    const { data, error } = await supabase.storage.from("profile-images").download(path);
+    if (error || !data) {
+      console.warn(`[data-export] Failed to download photo ${path}:`, error);
+      continue;
+    }
+
+    const name = `photos/${path.split("/").pop()}`;
+    if (photos.some((photo) => photo.name === name)) continue;
+    photos.push({ name, content: new Uint8Array(await data.arrayBuffer()) });
+  }
+  return photos;
+}
+
+/** Everything we hold about the member. Sections that fail are skipped and named. */
+export async function collectDataExport(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<DataExportContents> {
+  const unavailable: string[] = [];
+
+  const section = async <T>(label: string, fallback: T, load: () => Promise<T>) => {
+    try {
+      return await load();
+    } catch (error) {
+      console.warn(`[data-export] Failed to collect ${label} for ${userId}:`, error);
+      unavailable.push(label);
+      return fallback;
+    }
+  };
+
+  const single = (table: string, column: string) => async () => {
+    const rows = await selectAll(supabase, table, (query) => query.eq(column, userId));
+    return rows[0] || null;
+  };
+  const byUser = (table: string) => () =>
+    selectAll(supabase, table, (query) => query.eq("user_id", userId));
+  const eitherMember = (table: string) => () =>
+    selectAll(supabase, table, (query) =>
+      query.or(`user1_id.eq.${userId},user2_id.eq.${userId}`)
+    );
+
+  const account = await section("account", null, single("accounts", "id"));
+  const profile = await section("profile", null, single("user_profiles", "user_id"));
+  const preferences = await section("preferences", null, single("user_preferences", "user_id"));
+  const matches = await section("matches", [], eitherMember("user_matches"));
+
+  const activities = await section("activities", [], async () => {
+    const [sent, received] = await Promise.all([
+      selectAll(supabase, "user_activities", (query) => query.eq("user_id", userId)),
+      selectAll(supabase, "user_activities", (query) => query.eq("target_user_id", userId)),
+    ]);
+    return [
+      ...sent.map((row) => ({ direction: "sent", ...row })),
+      ...received.map((row) => ({ direction: "received", ...row })),
+    ];
+  });
+
+  const messages = await section("messages", [], async () => {
+    const matchIds = matches.map((match) => String(match.id));
+    if (matchIds.length === 0) return [];
+
+    const rows = await selectAll(supabase, "messages", (query) =>
+      query.in("match_id", matchIds).order("created_at", { ascending: true })
+    );
+    return rows
+      .filter(
+        (row) =>
+          row.sender_id === userId ||
+          VISIBLE_MESSAGE_SAFETY_STATUSES.includes(row.safety_status as never)
+      )
+      .map((row) => ({
+        id: row.id,
+        match_id: row.match_id,
+        direction: row.sender_id === userId ? "sent" : "received",
+        sender_id: row.sender_id,
+        message_type: row.message_type,
+        content: row.content,
+        reply_to_id: row.reply_to_id,
+        created_at: row.created_at,
+        delivered_at: row.delivered_at,
+        read_at: row.read_at,
+        edited_at: row.edited_at,
+        deleted_at: row.deleted_at,
+      }));
+  });
+
+  const meetings = await section("meetings", [], async () => {
+    const participations = await byUser("meeting_participants")();
+    const hosted = await selectAll(supabase, "meetings", (query) => query.eq("host_id", userId));
+    const hostedIds = new Set(hosted.map((meeting) => String(meeting.id)));
+    const joinedIds = participations
+      .map((row) => String(row.meeting_id))
+      .filter((id) => !hostedIds.has(id));
+
+    const joined = joinedIds.length
+      ? await selectAll(supabase, "meetings", (query) => query.in("id", joinedIds))
+      : [];
+    return [...hosted, ...joined].map((meeting) => ({
+      ...meeting,
+      participation: participations.find((row) => row.meeting_id === meeting.id) || null,
+    }));
+  });
+
+  const agreements = await section("agreements", [], eitherMember("relationship_agreements"));
+  const wallets = await section("wallet", [], byUser("wallets"));
+  const walletTransactions = await section("wallet transactions", [], byUser("wallet_transactions"));
+  const credits = await section("credits", [], byUser("credits"));
+  const creditTransactions = await section("credit transactions", [], byUser("credit_transactions"));
+  const notifications = await section("notifications", [], byUser("notifications"));
+  const photos = await section("photos", [], () => collectPhotos(supabase, userId, profile));
+
+  return {
+    account,
+    profile,
+    preferences,
+    matches,
+    activities,
+    messages,
+    meetings,
+    agreements,
+    wallets,
+    walletTransactions,
+    credits,
+    creditTransactions,
+    notifications,
+    photos,
+    unavailable,
+  };
+}
+
+function json(value: unknown) {
+  return `${JSON.stringify(value, null, 2)}\n`;
+}
+
+/** The files in the archive, with a README describing them. */
+export function buildDataExportFiles(contents: DataExportContents, now: Date): ArchiveEntry[] {
+  const readme = [
+    "Your MatchIndeed data",
+    `Exported ${now.toISOString()}`,
+    "",
+    "profile.json              Account, profile and match preferences",
+    "matches.json              Your matches",
+    "activities.csv            Likes, winks and other activity you sent and received",
+    "messages.csv              Messages in your conversations",
+    "meetings.json             Video dates you hosted or joined",
+    "agreements.json           Relationship agreements",
+    "wallet.json               Wallet and credit balances",
+    "wallet_transactions.csv   Wallet history",
+    "credit_transactions.csv   Credit history",
+    "notifications.csv         Notifications we sent you",
+    "photos/                   Photos you uploaded",
+    "",
+    "Dates are in UTC.",
+  ];
+  if (contents.unavailable.length > 0) {
+    readme.push(
+      "",
+      `We couldn't include: ${contents.unavailable.join(", ")}.`,
+      "Please request a new export, or contact support if this keeps happening."
+    );
+  }
+
+  return [
+    { name: "README.txt", content: `${readme.join("\n")}\n` },
+    {
+      name: "profile.json",
+      content: json({
+        account: contents.account,
+        profile: contents.profile,
+        preferences: contents.preferences,
+      }),
+    },
+    { name: "matches.json", content: json(contents.matches) },
+    { name: "activities.csv", content: toCsv(contents.activities) },
+    { name: "messages.csv", content: toCsv(contents.messages) },
+    { name: "meetings.json", content: json(contents.meetings) },
+    { name: "agreements.json", content: json(contents.agreements) },
+    { name: "wallet.json", content: json({ wallets: contents.wallets, credits: contents.credits }) },
+    { name: "wallet_transactions.csv", content: toCsv(contents.walletTransactions) },
+    { name: "credit_transactions.csv", content: toCsv(contents.creditTransactions) },
+    { name: "notifications.csv", content: toCsv(contents.notifications) },
+    ...contents.photos,
+  ];
+}
+
+async function sendReadyEmail(
+  supabase: SupabaseClient,
+  userId: string,
+  downloadUrl: string,
+  expiresAt: Date,
+  deps: DataExportDependencies
+) {
+  const [{ data: account }, { data: profile }] = await Promise.all([
+    supabase
+      .from("accounts")
+      .select("email, display_name")
+      .eq("id", userId)
+      .maybeSingle<{ email: string | null; display_name: string | null }>(),
+    supabase
+      .from("user_profiles")
+      .select("first_name")
+      .eq("user_id", userId)
+      .maybeSingle<{ first_name: string | null }>(),
+  ]);
+  if (!account?.email) return;
+
+  const send = deps.sendDataExportReadyEmailFn || sendDataExportReadyEmail;
+  const result = await send(account.email, {
+    recipientName: getPreferredEmailRecipientName({
+      profileFirstName: profile?.first_name,
+      accountDisplayName: account.display_name,
+      email: account.email,
+    }),
+    downloadUrl,
+    expiresDate: formatDate(expiresAt),
+  });
+  if (!result.success) {
+    console.warn(`[data-export] Failed to email export link to ${userId}:`, result.error);
+  }
+}
+
+/**
+ * Build, upload and email one export. The request is claimed first so two
+ * overlapping runs don't both work on it.
+ */
+export async function processDataExport(
+  supabase: SupabaseClient,
+  request: DataExportRequestRow,
+  deps: DataExportDependencies = {}
+): Promise<DataExportStatus | null> {
+  const now = deps.now || new Date();
+
+  let claim = supabase
+    .from("data_export_requests")
+    .update({ status: "processing", started_at: now.toISOString() })
+    .eq("id", request.id)
+    .eq("status", request.status);
+  if (request.started_at) claim = claim.eq("started_at", request.started_at);
+
+  const { data: claimed, error: claimError } = await claim.select("id");
+  if (claimError) throw claimError;
+  if (!claimed || claimed.length === 0) return null;
+
+  const path = `${request.user_id}/${request.id}.zip`;
+  const storage = supabase.storage.from(DATA_EXPORT_BUCKET);
+
+  try {
+    const contents = await collectDataExport(supabase, request.user_id);
+    const archive = createZipArchive(buildDataExportFiles(contents, now), now);
+
+    const { error: uploadError } = await storage.upload(path, archive, {
+      contentType: "application/zip",
+      upsert: true,
+    });
+    if (uploadError) throw uploadError;
+
+    const expiresAt = hoursFrom(now, DATA_EXPORT_LINK_TTL_HOURS);
+    const { data: signed, error: signError } = await storage.createSignedUrl(
+      path,
+      DATA_EXPORT_LINK_TTL_HOURS * 60 * 60
+    );
+    if (signError || !signed) throw signError || new Error("No signed URL returned");
+
+    const { error: readyError } = await supabase
+      .from("data_export_requests")
+      .update({
+        status: "ready",
+        file_path: path,
+        file_size_bytes: archive.length,
+        error: null,
+        completed_at: now.toISOString(),
+        expires_at: expiresAt.toISOString(),
+      })
+      .eq("id", request.id);
+    if (readyError) throw readyError;
+
+    await sendReadyEmail(supabase, request.user_id, signed.signedUrl, expiresAt, deps);
+    return "ready";
+  } catch (error) {
+    console.error(`[data-export] Export ${request.id} failed:`, error);
+
+    const { error: removeError } = await storage.remove([path]);
+    if (removeError) console.warn(`[data-export] Failed to remove ${path}:`, removeError);
+
+    const { error: failError } = await supabase
+      .from("data_export_requests")
+      .update({
+        status: "failed",
+        error: errorMessage(error),
+        completed_at: now.toISOString(),
+      })
+      .eq("id", request.id);
+    if (failError) console.warn(`[data-export] Failed to mark ${request.id} failed:`, failError);
+
+    return "failed";
+  }
+}
+
+/**
+ * One cron run: build queued exports (and ones a crashed run left
+ * "processing"), then delete archives whose link has expired.
+ */
+export async function runDataExportJobs(
+  supabase: SupabaseClient,
+  deps: DataExportDependencies & { limit?: number } = {}
+): Promise<DataExportRunResult> {
+  const now = deps.now || new Date();
+  const limit = deps.limit ?? 10;
+  const staleBefore = new Date(now.getTime() - STALE_PROCESSING_MINUTES * 60 * 1000);
+  const result: DataExportRunResult = { processed: 0, ready: 0, failed: 0, expired: 0 };
+
+  const [pendingResult, staleResult] = await Promise.all([
+    supabase
+      .from("data_export_requests")
+      .select(DATA_EXPORT_COLUMNS)
+      .eq("status", "pending")
+      .order("requested_at", { ascending: true })
+      .limit(limit),
+    supabase
+      .from("data_export_requests")
+      .select(DATA_EXPORT_COLUMNS)
+      .eq("status", "processing")
+      .lte("started_at", staleBefore.toISOString())
+      .limit(limit),
+  ]);
+
+  if (pendingResult.error) throw pendingResult.error;
+  if (staleResult.error) throw staleResult.error;
+
+  const queued = [
+    ...((staleResult.data || []) as DataExportRequestRow[]),
+    ...((pendingResult.data || []) as DataExportRequestRow[]),
+  ].slice(0, limit);
+
+  for (const request of queued) {
+    const status = await processDataExport(supabase, request, { ...deps, now });
+    if (!status) continue;
+
+    result.processed += 1;
+    if (status === "ready") result.ready += 1;
+    else result.failed += 1;
+  }
+
+  const { data: expiredRows, error: expiredError } = await supabase
+    .from("data_export_requests")
+    .select(DATA_EXPORT_COLUMNS)
+    .eq("status", "ready")
+    .lte("expires_at", now.toISOString())
+    .limit(100);
+
+  if (expiredError) throw expiredError;
+
+  for (const row of (expiredRows || []) as DataExportRequestRow[]) {
+    if (row.file_path) {
+      const { error: removeError } = await supabase.storage
+        .from(DATA_EXPORT_BUCKET)
+        .remove([row.file_path]);
+      if (removeError) {
+        console.warn(`[data-export] Failed to remove ${row.file_path}:`, removeError);
+        continue;
+      }
+    }
+
+    const { error: updateError } = await supabase
+      .from("data_export_requests")
+      .update({ status: "expired", file_path: null })
+      .eq("id", row.id)
+      .eq("status", "ready");
+    if (updateError) {
+      console.warn(`[data-export] Failed to expire ${row.id}:`, updateError);
+      continue;
+    }
+    result.expired += 1;
+  }
+
+  return result;
+}
@@ -122,6 +122,7 @@ export type EmailTemplate =
   | "daily_new_likes"
   | "daily_recommendations"
   | "people_near_you"
+  | "saved_search_results"
   | "reengagement_unread_messages"
   | "reengagement_new_people"
   | "reengagement_new_matches"
@@ -141,10 +142,15 @@ export type EmailTemplate =
   | "match_found"
   | "response_submitted"
   | "credit_refund"
+  | "subscription_payment_failed"
+  | "subscription_ended"
+  | "gift_purchased"
+  | "gift_received"
   | "welcome"
   | "account_warning"
   | "account_deactivated"
   | "account_deletion_requested"
+  | "data_export_ready"
   | "gender_setting_updated";
 
 export type EmailData = {
@@ -186,6 +192,8 @@ export function generateEmail(
       return dailyRecommendationsEmail(data);
     case "people_near_you":
       return peopleNearYouEmail(data);
+    case "saved_search_results":
+      return savedSearchResultsEmail(data);
     case "reengagement_unread_messages":
       return reengagementUnreadMessagesEmail(data);
     case "reengagement_new_people":
@@ -224,6 +232,14 @@ export function generateEmail(
       return responseSubmittedEmail(data);
     case "credit_refund":
       return creditRefundEmail(data);
+    case "subscription_payment_failed":
+      return subscriptionPaymentFailedEmail(data);
+    case "subscription_ended":
+      return subscriptionEndedEmail(data);
+    case "gift_purchased":
+      return giftPurchasedEmail(data);
+    case "gift_received":
+      return giftReceivedEmail(data);
     case "welcome":
       return welcomeEmail(data);
     case "account_warning":
@@ -232,6 +248,8 @@ export function generateEmail(
       return accountDeactivatedEmail(data);
     case "account_deletion_requested":
       return accountDeletionRequestedEmail(data);
+    case "data_export_ready":
+      return dataExportReadyEmail(data);
     case "gender_setting_updated":
       return genderSettingUpdatedEmail(data);
     default:
@@ -499,6 +517,27 @@ function peopleNearYouEmail(data: EmailData) {
   return { subject, html };
 }
 
+function savedSearchResultsEmail(data: EmailData) {
+  const count = Number(data.count || 0);
+  const searchName = data.searchName || "your saved search";
+  const subject = `${count} new ${count === 1 ? "match" : "matches"} for "${searchName}"`;
+  const html = baseLayout(
+    subject,
+    `
+    <h1>New Results for Your Saved Search</h1>
+    <p>Hi ${data.recipientName},</p>
+    <p><strong>${count}</strong> new ${count === 1 ? "person matches" : "people match"} your saved search <strong>${searchName}</strong> since we last checked.</p>
+    <div class="highlight">
+      <p>You can change or switch off these alerts from the Search page at any time.</p>
+    </div>
+    <div style="text-align:center;">
+      <a href="${data.dashboardUrl || "#"}" class="btn">See New Results</a>
+    </div>
+    `
+  );
+  return { subject, html };
+}
+
 function reengagementUnreadMessagesEmail(data: EmailData) {
   const subject = `Someone Is Waiting for Your Reply, ${data.recipientName || "there"}`;
   const html = baseLayout(
@@ -678,6 +717,26 @@ function accountDeletionRequestedEmail(data: EmailData) {
   return { subject, html };
 }
 
+function dataExportReadyEmail(data: EmailData) {
+  const subject = "Your MatchIndeed data is ready to download";
+  const html = baseLayout(
+    subject,
+    `
+    <h1>Your data export is ready</h1>
+    <p>Hi ${data.recipientName || "there"},</p>
+    <p>The copy of your MatchIndeed data you asked for is ready. It&apos;s a ZIP file with your profile, photos, matches, messages, meetings, payments and notifications.</p>
+    <div class="warning">
+      <p>The link works until <strong>${data.expiresDate}</strong>. Anyone with it can download your data, so please don&apos;t forward this email.</p>
+    </div>
+    <div style="text-align:center;">
+      <a href="${data.downloadUrl || "#"}" class="btn">Download Your Data</a>
+    </div>
+    <p class="meta" style="text-align:center;">Link expired? Request a new export from <a href="${data.dashboardUrl || "#"}">My Account</a>. If you didn&apos;t ask for this, please contact MatchIndeed support immediately.</p>
+    `
+  );
+  return { subject, html };
+}
+
 function genderSettingUpdatedEmail(data: EmailData) {
   const subject = "Your Gender Setting Has Been Updated";
   const html = baseLayout(
@@ -1012,6 +1071,124 @@ function creditRefundEmail(data: EmailData) {
   return { subject, html };
 }
 
+function subscriptionPaymentFailedEmail(data: EmailData) {
+  const subject = `Action needed — your ${data.tierName} plan payment failed`;
+  const html = baseLayout(
+    subject,
+    `
+    <h1>We Couldn&apos;t Renew Your Plan</h1>
+    <p>Hi ${data.recipientName},</p>
+    <p>Your payment for the <strong>${data.tierName}</strong> plan didn&apos;t go through. Your plan stays active while we retry, so nothing changes yet.</p>
+    <div class="warning">
+      <p><strong>Attempt:</strong> ${data.attemptCount}</p>
+      ${data.nextAttemptDate ? `<p><strong>Next retry:</strong> ${data.nextAttemptDate}</p>` : ""}
+      <p><strong>Plan access ends:</strong> ${data.graceEndsDate} unless the payment succeeds</p>
+    </div>
+    <p>Please update your payment method to keep your plan.</p>
+    <div style="text-align:center;">
+      <a href="${data.dashboardUrl || "#"}" class="btn">Update Payment Method</a>
+    </div>
+    `
+  );
+  return { subject, html };
+}
+
+function subscriptionEndedEmail(data: EmailData) {
+  const subject = `Your ${data.tierName} plan has ended`;
+  const html = baseLayout(
+    subject,
+    `
+    <h1>Your Plan Has Ended</h1>
+    <p>Hi ${data.recipientName},</p>
+    <p>Your <strong>${data.tierName}</strong> plan has ended and your account is now on the Basic plan.</p>
+    <div class="highlight">
+      <p><strong>Reason:</strong> ${data.reason}</p>
+    </div>
+    <p>You can resubscribe at any time to get your plan benefits back.</p>
+    <div style="text-align:center;">
+      <a href="${data.dashboardUrl || "#"}" class="btn">View Plans</a>
+    </div>
+    `
+  );
+  return { subject, html };
+}
+
+/**
+ * Escape text a member typed (gift notes) before it goes into HTML sent to
+ * someone else.
+ */
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function giftPurchasedEmail(data: EmailData) {
+  const subject = `Your gift of ${data.giftDescription} is ready`;
+  const html = baseLayout(
+    subject,
+    `
+    <h1>Thanks for Your Gift</h1>
+    <p>Hi ${data.recipientName},</p>
+    <p>Your payment for <strong>${data.giftDescription}</strong> went through.</p>
+    ${
+      data.delivery === "direct"
+        ? `<div class="success">
+      <p>We&apos;ve added it straight to <strong>${data.giftRecipient}</strong>&apos;s account and let them know it came from you.</p>
+    </div>`
+        : `<div class="highlight">
+      <p><strong>Gift code:</strong> ${data.giftCode}</p>
+      ${data.codeExpiresDate ? `<p><strong>Redeem by:</strong> ${data.codeExpiresDate}</p>` : ""}
+    </div>
+    <p>${
+      data.giftRecipient
+        ? `We&apos;ve emailed the code to <strong>${data.giftRecipient}</strong>. You can also share it yourself.`
+        : "Share the code with the person you bought it for. They redeem it from the Gifts page."
+    }</p>`
+    }
+    <div style="text-align:center;">
+      <a href="${data.dashboardUrl || "#"}" class="btn">View Your Gifts</a>
+    </div>
+    `
+  );
+  return { subject, html };
+}
+
+function giftReceivedEmail(data: EmailData) {
+  const subject = `${data.senderName} sent you ${data.giftDescription} on MatchIndeed`;
+  const note =
+    typeof data.giftMessage === "string" && data.giftMessage
+      ? `<div class="highlight"><p>${escapeHtml(data.giftMessage)}</p></div>`
+      : "";
+  const html = baseLayout(
+    subject,
+    `
+    <h1>You&apos;ve Received a Gift</h1>
+    <p>Hi ${data.recipientName},</p>
+    <p><strong>${data.senderName}</strong> sent you <strong>${data.giftDescription}</strong>.</p>
+    ${note}
+    ${
+      data.delivery === "direct"
+        ? `<div class="success">
+      <p>It&apos;s already on your account${data.planEndsDate ? `, and your plan now runs until <strong>${data.planEndsDate}</strong>` : ""}.</p>
+    </div>`
+        : `<div class="highlight">
+      <p><strong>Gift code:</strong> ${data.giftCode}</p>
+      ${data.codeExpiresDate ? `<p><strong>Redeem by:</strong> ${data.codeExpiresDate}</p>` : ""}
+    </div>
+    <p>Sign in or create your free account, then redeem the code from the Gifts page.</p>`
+    }
+    <div style="text-align:center;">
+      <a href="${data.dashboardUrl || "#"}" class="btn">${data.delivery === "direct" ? "Open MatchIndeed" : "Redeem Your Gift"}</a>
+    </div>
+    `
+  );
+  return { subject, html };
+}
+
 function welcomeEmail(data: EmailData) {
   const subject = `Welcome to MatchIndeed! Let's find your match`;
   const html = baseLayout(
@@ -89,6 +89,7 @@ const TEMPLATE_TO_NOTIFICATION_TYPE: Record<string, string> = {
   daily_new_likes: "like",
   daily_recommendations: "match_found",
   people_near_you: "people_near_you",
+  saved_search_results: "saved_search_results",
   reengagement_unread_messages: "new_message",
   reengagement_new_people: "match_found",
   reengagement_new_matches: "match_found",
@@ -108,10 +109,15 @@ const TEMPLATE_TO_NOTIFICATION_TYPE: Record<string, string> = {
   match_found: "match_found",
   response_submitted: "meeting_response_submitted",
   credit_refund: "credit_refund",
+  subscription_payment_failed: "account_warning", // Billing notice, always sent
+  subscription_ended: "account_warning", // Billing notice, always sent
+  gift_purchased: "account_warning", // Purchase receipt, always sent
+  gift_received: "account_warning", // Gift delivery, always sent
   welcome: "welcome", // Always sent (system)
   account_warning: "account_warning", // Always sent (system)
   account_deactivated: "account_warning", // System lifecycle email
   account_deletion_requested: "account_warning", // System lifecycle email
+  data_export_ready: "account_warning", // Requested by the user, always sent
   gender_setting_updated: "account_warning", // System safety email
 };
 
@@ -383,6 +389,28 @@ export async function sendPeopleNearYouEmail(
   });
 }
 
+/** Send the "new results for your saved search" email */
+export async function sendSavedSearchResultsEmail(
+  recipientEmail: string,
+  data: {
+    recipientName: string;
+    searchName: string;
+    count: number;
+    savedSearchId: string;
+  },
+  recipientUserId?: string
+) {
+  return sendEmail({
+    to: recipientEmail,
+    template: "saved_search_results",
+    data: {
+      ...data,
+      dashboardUrl: `${APP_URL}/dashboard/search?saved=${data.savedSearchId}`,
+    },
+    recipientUserId,
+  });
+}
+
 /** Send the day-3 unread message re-engagement email */
 export async function sendUnreadMessagesReengagementEmail(
   recipientEmail: string,
@@ -538,6 +566,24 @@ export async function sendAccountDeletionRequestedEmail(
   });
 }
 
+export async function sendDataExportReadyEmail(
+  recipientEmail: string,
+  data: {
+    recipientName: string;
+    downloadUrl: string;
+    expiresDate: string;
+  }
+) {
+  return sendEmail({
+    to: recipientEmail,
+    template: "data_export_ready",
+    data: {
+      ...data,
+      dashboardUrl: `${APP_URL}/dashboard/profile/my-account`,
+    },
+  });
+}
+
 /** Send a meeting accepted notification email */
 export async function sendMeetingAcceptedEmail(
   recipientEmail: string,
@@ -771,6 +817,90 @@ export async function sendGenderSettingUpdatedEmail(
   });
 }
 
+/** Send a dunning email after a failed subscription renewal payment */
+export async function sendSubscriptionPaymentFailedEmail(
+  recipientEmail: string,
+  data: {
+    recipientName: string;
+    tierName: string;
+    attemptCount: number;
+    graceEndsDate: string;
+    nextAttemptDate?: string | null;
+  },
+  recipientUserId?: string
+) {
+  return sendEmail({
+    to: recipientEmail,
+    template: "subscription_payment_failed",
+    data: { ...data, dashboardUrl: `${APP_URL}/dashboard/profile/subscription` },
+    recipientUserId,
+  });
+}
+
+/** Send a notice that a subscription ended and the account was downgraded */
+export async function sendSubscriptionEndedEmail(
+  recipientEmail: string,
+  data: {
+    recipientName: string;
+    tierName: string;
+    reason: string;
+  },
+  recipientUserId?: string
+) {
+  return sendEmail({
+    to: recipientEmail,
+    template: "subscription_ended",
+    data: { ...data, dashboardUrl: `${APP_URL}/dashboard/profile/subscription` },
+    recipientUserId,
+  });
+}
+
+/** Send the buyer a receipt for a gift, with the code when one was issued */
+export async function sendGiftPurchasedEmail(
+  recipientEmail: string,
+  data: {
+    recipientName: string;
+    giftDescription: string;
+    delivery: "direct" | "code";
+    giftRecipient?: string | null;
+    giftCode?: string | null;
+    codeExpiresDate?: string | null;
+  }
+) {
+  return sendEmail({
+    to: recipientEmail,
+    template: "gift_purchased",
+    data: { ...data, dashboardUrl: `${APP_URL}/dashboard/gifts` },
+  });
+}
+
+/** Tell someone a gift was bought for them: applied already, or a code to redeem */
+export async function sendGiftReceivedEmail(
+  recipientEmail: string,
+  data: {
+    recipientName: string;
+    senderName: string;
+    giftDescription: string;
+    delivery: "direct" | "code";
+    giftMessage?: string | null;
+    giftCode?: string | null;
+    codeExpiresDate?: string | null;
+    planEndsDate?: string | null;
+  }
+) {
+  return sendEmail({
+    to: recipientEmail,
+    template: "gift_received",
+    data: {
+      ...data,
+      dashboardUrl:
+        data.delivery === "code" && data.giftCode
+          ? `${APP_URL}/dashboard/gifts?code=${encodeURIComponent(data.giftCode)}`
+          : `${APP_URL}/dashboard`,
+    },
+  });
+}
+
 /**
  * Check if email service is configured and available
  */
@@ -0,0 +1,200 @@
+/**
+ * Bundled city/country coordinates for offline geocoding.
+ *
+ * Covers the cities our members most often pick from Google Places, plus a
+ * centroid per country so any "City, Country" label resolves to at least
+ * country precision. Keep entries alphabetical within each country block.
+ */
+
+export type GeoCountry = {
+  code: string;
+  name: string;
+  /** Alternative spellings Google Places (or users) may return */
+  aliases: string[];
+  latitude: number;
+  longitude: number;
+};
+
+export type GeoCity = {
+  name: string;
+  countryCode: string;
+  aliases?: string[];
+  latitude: number;
+  longitude: number;
+};
+
+export const GEO_COUNTRIES: readonly GeoCountry[] = [
+  { code: "AE", name: "United Arab Emirates", aliases: ["uae"], latitude: 23.4241, longitude: 53.8478 },
+  { code: "BE", name: "Belgium", aliases: [], latitude: 50.5039, longitude: 4.4699 },
+  { code: "CA", name: "Canada", aliases: [], latitude: 56.1304, longitude: -106.3468 },
+  { code: "CM", name: "Cameroon", aliases: [], latitude: 7.3697, longitude: 12.3547 },
+  { code: "DE", name: "Germany", aliases: ["deutschland"], latitude: 51.1657, longitude: 10.4515 },
+  { code: "EG", name: "Egypt", aliases: [], latitude: 26.8206, longitude: 30.8025 },
+  { code: "ES", name: "Spain", aliases: ["españa", "espana"], latitude: 40.4637, longitude: -3.7492 },
+  { code: "ET", name: "Ethiopia", aliases: [], latitude: 9.145, longitude: 40.4897 },
+  { code: "FR", name: "France", aliases: [], latitude: 46.2276, longitude: 2.2137 },
+  { code: "GB", name: "United Kingdom", aliases: ["uk", "england", "scotland", "wales", "northern ireland", "great britain"], latitude: 55.3781, longitude: -3.436 },
+  { code: "GH", name: "Ghana", aliases: [], latitude: 7.9465, longitude: -1.0232 },
+  { code: "IE", name: "Ireland", aliases: [], latitude: 53.1424, longitude: -7.6921 },
+  { code: "IT", name: "Italy", aliases: ["italia"], latitude: 41.8719, longitude: 12.5674 },
+  { code: "KE", name: "Kenya", aliases: [], latitude: -0.0236, longitude: 37.9062 },
+  { code: "NG", name: "Nigeria", aliases: [], latitude: 9.082, longitude: 8.6753 },
+  { code: "NL", name: "Netherlands", aliases: ["the netherlands", "holland"], latitude: 52.1326, longitude: 5.2913 },
+  { code: "RW", name: "Rwanda", aliases: [], latitude: -1.9403, longitude: 29.8739 },
+  { code: "SN", name: "Senegal", aliases: [], latitude: 14.4974, longitude: -14.4524 },
+  { code: "TZ", name: "Tanzania", aliases: [], latitude: -6.369, longitude: 34.8888 },
+  { code: "UG", name: "Uganda", aliases: [], latitude: 1.3733, longitude: 32.2903 },
+  { code: "US", name: "United States", aliases: ["usa", "us", "united states of america", "america"], latitude: 37.0902, longitude: -95.7129 },
+  { code: "ZA", name: "South Africa", aliases: ["rsa"], latitude: -30.5595, longitude: 22.9375 },
+];
+
+export const GEO_CITIES: readonly GeoCity[] = [
+  // United Arab Emirates
+  { name: "Abu Dhabi", countryCode: "AE", latitude: 24.4539, longitude: 54.3773 },
+  { name: "Dubai", countryCode: "AE", latitude: 25.2048, longitude: 55.2708 },
+
+  // Belgium
+  { name: "Antwerp", countryCode: "BE", aliases: ["antwerpen"], latitude: 51.2194, longitude: 4.4025 },
+  { name: "Brussels", countryCode: "BE", aliases: ["bruxelles"], latitude: 50.8503, longitude: 4.3517 },
+
+  // Canada
+  { name: "Calgary", countryCode: "CA", latitude: 51.0447, longitude: -114.0719 },
+  { name: "Edmonton", countryCode: "CA", latitude: 53.5461, longitude: -113.4938 },
+  { name: "Montreal", countryCode: "CA", aliases: ["montréal"], latitude: 45.5017, longitude: -73.5673 },
+  { name: "Ottawa", countryCode: "CA", latitude: 45.4215, longitude: -75.6972 },
+  { name: "Toronto", countryCode: "CA", latitude: 43.6532, longitude: -79.3832 },
+  { name: "Vancouver", countryCode: "CA", latitude: 49.2827, longitude: -123.1207 },
+  { name: "Winnipeg", countryCode: "CA", latitude: 49.8951, longitude: -97.1384 },
+
+  // Cameroon
+  { name: "Douala", countryCode: "CM", latitude: 4.0511, longitude: 9.7679 },
+  { name: "Yaoundé", countryCode: "CM", aliases: ["yaounde"], latitude: 3.848, longitude: 11.5021 },
+
+  // Germany
+  { name: "Berlin", countryCode: "DE", latitude: 52.52, longitude: 13.405 },
+  { name: "Frankfurt", countryCode: "DE", aliases: ["frankfurt am main"], latitude: 50.1109, longitude: 8.6821 },
+  { name: "Hamburg", countryCode: "DE", latitude: 53.5511, longitude: 9.9937 },
+  { name: "Munich", countryCode: "DE", aliases: ["münchen", "munchen"], latitude: 48.1351, longitude: 11.582 },
+
+  // Egypt
+  { name: "Cairo", countryCode: "EG", latitude: 30.0444, longitude: 31.2357 },
+
+  // Spain
+  { name: "Barcelona", countryCode: "ES", latitude: 41.3874, longitude: 2.1686 },
+  { name: "Madrid", countryCode: "ES", latitude: 40.4168, longitude: -3.7038 },
+
+  // Ethiopia
+  { name: "Addis Ababa", countryCode: "ET", latitude: 8.9806, longitude: 38.7578 },
+
+  // France
+  { name: "Lyon", countryCode: "FR", latitude: 45.764, longitude: 4.8357 },
+  { name: "Paris", countryCode: "FR", latitude: 48.8566, longitude: 2.3522 },
+
+  // United Kingdom
+  { name: "Belfast", countryCode: "GB", latitude: 54.5973, longitude: -5.9301 },
+  { name: "Birmingham", countryCode: "GB", latitude: 52.4862, longitude: -1.8904 },
+  { name: "Bristol", countryCode: "GB", latitude: 51.4545, longitude: -2.5879 },
+  { name: "Cardiff", countryCode: "GB", latitude: 51.4816, longitude: -3.1791 },
+  { name: "Coventry", countryCode: "GB", latitude: 52.4068, longitude: -1.5197 },
+  { name: "Edinburgh", countryCode: "GB", latitude: 55.9533, longitude: -3.1883 },
+  { name: "Glasgow", countryCode: "GB", latitude: 55.8642, longitude: -4.2518 },
+  { name: "Leeds", countryCode: "GB", latitude: 53.8008, longitude: -1.5491 },
+  { name: "Leicester", countryCode: "GB", latitude: 52.6369, longitude: -1.1398 },
+  { name: "Liverpool", countryCode: "GB", latitude: 53.4084, longitude: -2.9916 },
+  { name: "London", countryCode: "GB", aliases: ["greater london", "city of london"], latitude: 51.5074, longitude: -0.1278 },
+  { name: "Manchester", countryCode: "GB", aliases: ["greater manchester"], latitude: 53.4808, longitude: -2.2426 },
+  { name: "Milton Keynes", countryCode: "GB", latitude: 52.0406, longitude: -0.7594 },
+  { name: "Newcastle upon Tyne", countryCode: "GB", aliases: ["newcastle"], latitude: 54.9783, longitude: -1.6178 },
+  { name: "Nottingham", countryCode: "GB", latitude: 52.9548, longitude: -1.1581 },
+  { name: "Reading", countryCode: "GB", latitude: 51.4543, longitude: -0.9781 },
+  { name: "Sheffield", countryCode: "GB", latitude: 53.3811, longitude: -1.4701 },
+
+  // Ghana
+  { name: "Accra", countryCode: "GH", aliases: ["greater accra"], latitude: 5.6037, longitude: -0.187 },
+  { name: "Cape Coast", countryCode: "GH", latitude: 5.1053, longitude: -1.2466 },
+  { name: "Kumasi", countryCode: "GH", aliases: ["ashanti"], latitude: 6.6885, longitude: -1.6244 },
+  { name: "Takoradi", countryCode: "GH", aliases: ["sekondi-takoradi"], latitude: 4.8845, longitude: -1.7554 },
+  { name: "Tamale", countryCode: "GH", latitude: 9.4008, longitude: -0.8393 },
+  { name: "Tema", countryCode: "GH", latitude: 5.6698, longitude: -0.0166 },
+
+  // Ireland
+  { name: "Cork", countryCode: "IE", latitude: 51.8985, longitude: -8.4756 },
+  { name: "Dublin", countryCode: "IE", latitude: 53.3498, longitude: -6.2603 },
+
+  // Italy
+  { name: "Milan", countryCode: "IT", aliases: ["milano"], latitude: 45.4642, longitude: 9.19 },
+  { name: "Rome", countryCode: "IT", aliases: ["roma"], latitude: 41.9028, longitude: 12.4964 },
+
+  // Kenya
+  { name: "Eldoret", countryCode: "KE", latitude: 0.5143, longitude: 35.2698 },
+  { name: "Kisumu", countryCode: "KE", latitude: -0.0917, longitude: 34.768 },
+  { name: "Mombasa", countryCode: "KE", latitude: -4.0435, longitude: 39.6682 },
+  { name: "Nairobi", countryCode: "KE", latitude: -1.2921, longitude: 36.8219 },
+  { name: "Nakuru", countryCode: "KE", latitude: -0.3031, longitude: 36.08 },
+
+  // Nigeria
+  { name: "Aba", countryCode: "NG", latitude: 5.1066, longitude: 7.3667 },
+  { name: "Abeokuta", countryCode: "NG", aliases: ["ogun"], latitude: 7.1475, longitude: 3.3619 },
+  { name: "Abuja", countryCode: "NG", aliases: ["fct", "federal capital territory"], latitude: 9.0765, longitude: 7.3986 },
+  { name: "Akure", countryCode: "NG", aliases: ["ondo"], latitude: 7.2571, longitude: 5.2058 },
+  { name: "Asaba", countryCode: "NG", aliases: ["delta"], latitude: 6.1982, longitude: 6.7298 },
+  { name: "Awka", countryCode: "NG", aliases: ["anambra"], latitude: 6.2104, longitude: 7.0741 },
+  { name: "Benin City", countryCode: "NG", aliases: ["benin", "edo"], latitude: 6.335, longitude: 5.6037 },
+  { name: "Calabar", countryCode: "NG", aliases: ["cross river"], latitude: 4.9757, longitude: 8.3417 },
+  { name: "Enugu", countryCode: "NG", latitude: 6.4584, longitude: 7.5464 },
+  { name: "Ibadan", countryCode: "NG", aliases: ["oyo"], latitude: 7.3775, longitude: 3.947 },
+  { name: "Ikeja", countryCode: "NG", latitude: 6.6018, longitude: 3.3515 },
+  { name: "Ilorin", countryCode: "NG", aliases: ["kwara"], latitude: 8.4966, longitude: 4.5421 },
+  { name: "Jos", countryCode: "NG", aliases: ["plateau"], latitude: 9.8965, longitude: 8.8583 },
+  { name: "Kaduna", countryCode: "NG", latitude: 10.5105, longitude: 7.4165 },
+  { name: "Kano", countryCode: "NG", latitude: 12.0022, longitude: 8.592 },
+  { name: "Lagos", countryCode: "NG", aliases: ["lagos island", "victoria island", "lekki"], latitude: 6.5244, longitude: 3.3792 },
+  { name: "Onitsha", countryCode: "NG", latitude: 6.1413, longitude: 6.8027 },
+  { name: "Osogbo", countryCode: "NG", aliases: ["oshogbo", "osun"], latitude: 7.7827, longitude: 4.5418 },
+  { name: "Owerri", countryCode: "NG", aliases: ["imo"], latitude: 5.4836, longitude: 7.0333 },
+  { name: "Port Harcourt", countryCode: "NG", aliases: ["rivers"], latitude: 4.8156, longitude: 7.0498 },
+  { name: "Uyo", countryCode: "NG", aliases: ["akwa ibom"], latitude: 5.0377, longitude: 7.9128 },
+  { name: "Warri", countryCode: "NG", latitude: 5.5544, longitude: 5.7932 },
+
+  // Netherlands
+  { name: "Amsterdam", countryCode: "NL", latitude: 52.3676, longitude: 4.9041 },
+  { name: "Rotterdam", countryCode: "NL", latitude: 51.9244, longitude: 4.4777 },
+  { name: "The Hague", countryCode: "NL", aliases: ["den haag"], latitude: 52.0705, longitude: 4.3007 },
+
+  // Rwanda
+  { name: "Kigali", countryCode: "RW", latitude: -1.9441, longitude: 30.0619 },
+
+  // Senegal
+  { name: "Dakar", countryCode: "SN", latitude: 14.7167, longitude: -17.4677 },
+
+  // Tanzania
+  { name: "Dar es Salaam", countryCode: "TZ", latitude: -6.7924, longitude: 39.2083 },
+
+  // Uganda
+  { name: "Kampala", countryCode: "UG", latitude: 0.3476, longitude: 32.5825 },
+
+  // United States
+  { name: "Atlanta", countryCode: "US", latitude: 33.749, longitude: -84.388 },
+  { name: "Baltimore", countryCode: "US", latitude: 39.2904, longitude: -76.6122 },
+  { name: "Boston", countryCode: "US", latitude: 42.3601, longitude: -71.0589 },
+  { name: "Charlotte", countryCode: "US", latitude: 35.2271, longitude: -80.8431 },
+  { name: "Chicago", countryCode: "US", latitude: 41.8781, longitude: -87.6298 },
+  { name: "Dallas", countryCode: "US", latitude: 32.7767, longitude: -96.797 },
+  { name: "Houston", countryCode: "US", latitude: 29.7604, longitude: -95.3698 },
+  { name: "Los Angeles", countryCode: "US", latitude: 34.0522, longitude: -118.2437 },
+  { name: "Miami", countryCode: "US", latitude: 25.7617, longitude: -80.1918 },
+  { name: "Minneapolis", countryCode: "US", latitude: 44.9778, longitude: -93.265 },
+  { name: "New York", countryCode: "US", aliases: ["new york city", "nyc", "brooklyn", "bronx", "queens"], latitude: 40.7128, longitude: -74.006 },
+  { name: "Newark", countryCode: "US", latitude: 40.7357, longitude: -74.1724 },
+  { name: "Philadelphia", countryCode: "US", latitude: 39.9526, longitude: -75.1652 },
+  { name: "San Francisco", countryCode: "US", latitude: 37.7749, longitude: -122.4194 },
+  { name: "Seattle", countryCode: "US", latitude: 47.6062, longitude: -122.3321 },
+  { name: "Washington", countryCode: "US", aliases: ["washington dc", "washington, d.c.", "dc"], latitude: 38.9072, longitude: -77.0369 },
+
+  // South Africa
+  { name: "Cape Town", countryCode: "ZA", latitude: -33.9249, longitude: 18.4241 },
+  { name: "Durban", countryCode: "ZA", latitude: -29.8587, longitude: 31.0218 },
+  { name: "Gqeberha", countryCode: "ZA", aliases: ["port elizabeth"], latitude: -33.9608, longitude: 25.6022 },
+  { name: "Johannesburg", countryCode: "ZA", aliases: ["joburg", "jozi", "sandton"], latitude: -26.2041, longitude: 28.0473 },
+  { name: "Pretoria", countryCode: "ZA", aliases: ["tshwane"], latitude: -25.7479, longitude: 28.2293 },
+];
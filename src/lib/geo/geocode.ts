@@ -0,0 +1,180 @@
+/**
+ * Offline geocoding and distance helpers.
+ *
+ * Resolves free-text locations (as saved from Google Places, e.g.
+ * "Ikeja, Lagos, Nigeria") to coordinates using the bundled dataset in
+ * `./cities`, building on `toCityCountryLabel`. No network calls, so it is
+ * safe to use from API routes, cron jobs and client components alike.
+ */
+
+import { normalizeLocation, toCityCountryLabel } from "@/lib/location";
+import { GEO_CITIES, GEO_COUNTRIES, type GeoCity, type GeoCountry } from "./cities";
+
+export type GeoPrecision = "city" | "country";
+
+export type GeoPoint = {
+  latitude: number;
+  longitude: number;
+};
+
+export type GeocodedLocation = GeoPoint & {
+  precision: GeoPrecision;
+  countryCode: string;
+  /** "City, Country" (or just the country) label of the matched entry */
+  label: string;
+};
+
+/** Columns persisted on `user_profiles` alongside `location`. */
+export type ProfileGeoColumns = {
+  latitude: number | null;
+  longitude: number | null;
+  location_precision: GeoPrecision | null;
+  location_geocoded_at: string | null;
+};
+
+const EARTH_RADIUS_KM = 6371;
+
+function normalizeKey(value: string): string {
+  return normalizeLocation(value)
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[̀-ͯ]/g, "")
+    .replace(/[.']/g, "");
+}
+
+const countriesByKey = new Map<string, GeoCountry>();
+for (const country of GEO_COUNTRIES) {
+  for (const key of [country.name, country.code, ...country.aliases]) {
+    countriesByKey.set(normalizeKey(key), country);
+  }
+}
+
+const citiesByKey = new Map<string, GeoCity[]>();
+for (const city of GEO_CITIES) {
+  for (const key of [city.name, ...(city.aliases || [])]) {
+    const normalized = normalizeKey(key);
+    citiesByKey.set(normalized, [...(citiesByKey.get(normalized) || []), city]);
+  }
+}
+
+function findCountry(value: string): GeoCountry | null {
+  return countriesByKey.get(normalizeKey(value)) || null;
+}
+
+function findCity(value: string, countryCode: string | null): GeoCity | null {
+  const matches = citiesByKey.get(normalizeKey(value)) || [];
+  if (countryCode) {
+    return matches.find((city) => city.countryCode === countryCode) || null;
+  }
+  return matches.length === 1 ? matches[0] : null;
+}
+
+function countryName(code: string): string {
+  return GEO_COUNTRIES.find((country) => country.code === code)?.name || code;
+}
+
+/**
+ * Geocode a free-text location. Tries each comma-separated part (most
+ * specific first) against the bundled cities for the detected country,
+ * then falls back to the country centroid.
+ */
+export function geocodeLocation(value: string | null | undefined): GeocodedLocation | null {
+  if (!value) return null;
+  const normalized = normalizeLocation(value);
+  if (!normalized) return null;
+
+  const parts = normalized
+    .split(",")
+    .map((part) => part.trim())
+    .filter(Boolean);
+  if (parts.length === 0) return null;
+
+  // Google Places sometimes appends a postcode or state code to the city
+  // ("Houston, TX 77002, USA"); `toCityCountryLabel` keeps the outer parts.
+  const cityCountry = toCityCountryLabel(normalized);
+  const country = findCountry(parts[parts.length - 1]);
+  const candidates = country ? parts.slice(0, -1) : parts;
+  if (cityCountry && !candidates.includes(cityCountry.split(",")[0].trim())) {
+    candidates.unshift(cityCountry.split(",")[0].trim());
+  }
+
+  for (const part of candidates) {
+    const city = findCity(part, country?.code || null);
+    if (city) {
+      return {
+        latitude: city.latitude,
+        longitude: city.longitude,
+        precision: "city",
+        countryCode: city.countryCode,
+        label: `${city.name}, ${countryName(city.countryCode)}`,
+      };
+    }
+  }
+
+  if (country) {
+    return {
+      latitude: country.latitude,
+      longitude: country.longitude,
+      precision: "country",
+      countryCode: country.code,
+      label: country.name,
+    };
+  }
+
+  return null;
+}
+
+/** Great-circle distance between two points in kilometres. */
+export function haversineDistanceKm(a: GeoPoint, b: GeoPoint): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLng = toRadians(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Prefer stored coordinates; fall back to geocoding the location text for
+ * rows saved before coordinates were persisted.
+ */
+export function resolveGeoPoint(source: {
+  latitude?: number | null;
+  longitude?: number | null;
+  location?: string | null;
+}): GeoPoint | null {
+  if (
+    typeof source.latitude === "number" &&
+    typeof source.longitude === "number" &&
+    Number.isFinite(source.latitude) &&
+    Number.isFinite(source.longitude)
+  ) {
+    return { latitude: source.latitude, longitude: source.longitude };
+  }
+  const geocoded = geocodeLocation(source.location);
+  return geocoded ? { latitude: geocoded.latitude, longitude: geocoded.longitude } : null;
+}
+
+/** Distance between two optional points, rounded to the nearest km. */
+export function distanceBetweenKm(
+  a: GeoPoint | null | undefined,
+  b: GeoPoint | null | undefined
+): number | null {
+  if (!a || !b) return null;
+  return Math.round(haversineDistanceKm(a, b));
+}
+
+/** Build the coordinate columns to save alongside a profile's location. */
+export function buildProfileGeoColumns(
+  location: string | null | undefined,
+  now: Date = new Date()
+): ProfileGeoColumns {
+  const geocoded = geocodeLocation(location);
+  return {
+    latitude: geocoded?.latitude ?? null,
+    longitude: geocoded?.longitude ?? null,
+    location_precision: geocoded?.precision ?? null,
+    location_geocoded_at: geocoded ? now.toISOString() : null,
+  };
+}
@@ -0,0 +1,53 @@
+import { MIN_CREDIT_PURCHASE, PRICE_PER_CREDIT_BY_TIER } from "@/lib/credits/config";
+
+export const GIFT_KINDS = ["subscription", "credits"] as const;
+
+export type GiftKind = (typeof GIFT_KINDS)[number];
+
+/** Months of plan time a subscription gift covers. */
+export const GIFT_SUBSCRIPTION_MONTHS = 1;
+
+/** How long a paid, unredeemed gift code stays valid. */
+export const GIFT_CODE_VALID_DAYS = 365;
+
+export const MIN_GIFT_CREDITS = MIN_CREDIT_PURCHASE;
+export const MAX_GIFT_CREDITS = 1000;
+
+export const GIFT_MESSAGE_MAX_LENGTH = 280;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function isGiftKind(value: unknown): value is GiftKind {
+  return typeof value === "string" && (GIFT_KINDS as readonly string[]).includes(value);
+}
+
+/**
+ * Gifted credits cost the standard per-credit rate whatever the buyer's own
+ * plan is. Credit gifts are paid in NGN or USD, like credit packs.
+ */
+export function getGiftCreditsAmountCents(credits: number, currency: string) {
+  const price = PRICE_PER_CREDIT_BY_TIER.basic;
+  const perCredit = currency.toLowerCase() === "ngn" ? price.ngn : price.usd;
+  return Math.round(credits * perCredit * 100);
+}
+
+export function isValidGiftCredits(value: unknown): value is number {
+  return (
+    typeof value === "number" &&
+    Number.isInteger(value) &&
+    value >= MIN_GIFT_CREDITS &&
+    value <= MAX_GIFT_CREDITS
+  );
+}
+
+export function normalizeGiftRecipientEmail(value: unknown) {
+  if (typeof value !== "string") return null;
+  const email = value.trim().toLowerCase();
+  return EMAIL_PATTERN.test(email) ? email : null;
+}
+
+export function normalizeGiftMessage(value: unknown) {
+  if (typeof value !== "string") return null;
+  const message = value.trim().slice(0, GIFT_MESSAGE_MAX_LENGTH);
+  return message || null;
+}
@@ -0,0 +1,998 @@
+import { randomBytes, randomUUID } from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { allocateSubscriptionCredits } from "@/lib/credits/allocation";
+import { grantCreditLotSafely } from "@/lib/credits/lots";
+import { recordCreditTransaction } from "@/lib/credits/transactions";
+import { sendGiftPurchasedEmail, sendGiftReceivedEmail } from "@/lib/email";
+import { getPreferredEmailRecipientName } from "@/lib/email-recipient-name";
+import {
+  GIFT_CODE_VALID_DAYS,
+  GIFT_SUBSCRIPTION_MONTHS,
+  type GiftKind,
+} from "@/lib/gifts/config";
+import {
+  cardCreditPurchaseEntries,
+  creditEntries,
+  postLedgerTransactionSafely,
+} from "@/lib/ledger/ledger";
+import { removeAvailableCredits } from "@/lib/payments/balance-adjustments";
+import { restoreCreditLockedProfileIfEligible } from "@/lib/profile/credit-lock";
+import { clearStarterTrialSlot } from "@/lib/starter-trial";
+import type { TierId } from "@/lib/subscription/config";
+import { downgradeMembership } from "@/lib/subscription/stripe-lifecycle";
+import { getActivePaidMembership } from "@/lib/subscription/tier-change";
+
+/**
+ * Gifts: one member pays for a plan or credits for someone else.
+ *
+ * The buyer's checkout creates a pending gift linked to the provider
+ * reference; the Paystack and Flutterwave processors hand the payment to
+ * fulfillGiftPayment. A gift sent to an existing member is applied to their
+ * account straight away. Otherwise, or when it can't be applied yet (the
+ * member is on another paid plan), the gift stays paid and its code is
+ * emailed so it can be redeemed later with redeemGift. Admins can revoke a
+ * gift; a redeemed one is taken back from the recipient.
+ */
+
+export type GiftStatus = "pending_payment" | "paid" | "redeemed" | "revoked";
+
+export type GiftDelivery = "direct" | "code";
+
+export type GiftPaymentProvider = "flutterwave" | "paystack";
+
+export type GiftRow = {
+  id: string;
+  code: string;
+  buyer_id: string;
+  recipient_id: string | null;
+  recipient_email: string | null;
+  kind: GiftKind;
+  tier: TierId | null;
+  credits: number | null;
+  message: string | null;
+  amount_cents: number;
+  currency: string;
+  provider: GiftPaymentProvider;
+  payment_reference: string | null;
+  provider_transaction_id: string | null;
+  delivery: GiftDelivery;
+  status: GiftStatus;
+  paid_at: string | null;
+  code_expires_at: string | null;
+  redeemed_by: string | null;
+  redeemed_at: string | null;
+  membership_id: string | null;
+  previous_expires_at: string | null;
+  credits_granted: number | null;
+  /** Credits a plan gift's allocation added; set once it has run. */
+  plan_credits_allocated: number | null;
+  revoked_by: string | null;
+  revoked_at: string | null;
+  revoke_reason: string | null;
+  created_at: string;
+};
+
+export type CreateGiftInput = {
+  buyerId: string;
+  kind: GiftKind;
+  tier?: TierId | null;
+  credits?: number | null;
+  recipientEmail?: string | null;
+  message?: string | null;
+  amountCents: number;
+  currency: string;
+  provider: GiftPaymentProvider;
+};
+
+export type GiftPaymentNotice = {
+  reference: string;
+  transactionId: string;
+  status: string;
+  amountCents: number;
+  currency: string;
+};
+
+export type GiftProcessResult = {
+  success: boolean;
+  alreadyProcessed?: boolean;
+  retryable?: boolean;
+  message: string;
+  giftId?: string;
+  delivery?: GiftDelivery;
+  status?: GiftStatus;
+};
+
+type GiftErrorCode =
+  | "self_gift"
+  | "not_found"
+  | "not_paid"
+  | "already_redeemed"
+  | "revoked"
+  | "expired"
+  | "wrong_recipient"
+  | "plan_conflict"
+  | "already_revoked";
+
+export type GiftFailure = {
+  ok: false;
+  status: number;
+  code: GiftErrorCode;
+  message: string;
+};
+
+export type GiftRedemptionResult =
+  | { ok: true; gift: GiftRow; creditsAdded: number; planEndsAt: string | null }
+  | GiftFailure;
+
+export type GiftRevocationResult =
+  | { ok: true; gift: GiftRow; creditsRemoved: number; planWithdrawn: boolean }
+  | GiftFailure;
+
+export type GiftDependencies = {
+  allocateSubscriptionCreditsFn?: typeof allocateSubscriptionCredits;
+  downgradeMembershipFn?: typeof downgradeMembership;
+  sendGiftPurchasedEmailFn?: typeof sendGiftPurchasedEmail;
+  sendGiftReceivedEmailFn?: typeof sendGiftReceivedEmail;
+  now?: Date;
+};
+
+type AppliedGift = {
+  creditsAdded: number;
+  membershipId: string | null;
+  previousExpiresAt: string | null;
+  planEndsAt: string | null;
+};
+
+type CreditsRow = { total: number | null; used: number | null; rollover: number | null };
+
+/** Set once applying a gift has changed anything beyond the gift row. */
+type GiftApplyProgress = { written: boolean };
+
+export const GIFT_COLUMNS =
+  "id, code, buyer_id, recipient_id, recipient_email, kind, tier, credits, message, amount_cents, currency, provider, payment_reference, provider_transaction_id, delivery, status, paid_at, code_expires_at, redeemed_by, redeemed_at, membership_id, previous_expires_at, credits_granted, plan_credits_allocated, revoked_by, revoked_at, revoke_reason, created_at";
+
+// No 0/O or 1/I, so codes survive being read out or retyped.
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const DAY_MS = 86_400_000;
+
+function failure(status: number, code: GiftErrorCode, message: string): GiftFailure {
+  return { ok: false, status, code, message };
+}
+
+function addMonths(date: Date, months: number) {
+  const next = new Date(date);
+  next.setMonth(next.getMonth() + months);
+  return next;
+}
+
+function formatDate(value: string | null) {
+  return value
+    ? new Date(value).toLocaleDateString("en-US", {
+        year: "numeric",
+        month: "long",
+        day: "numeric",
+      })
+    : null;
+}
+
+function tierName(tier: string | null) {
+  return tier ? tier.charAt(0).toUpperCase() + tier.slice(1) : "paid";
+}
+
+export function describeGift(gift: Pick<GiftRow, "kind" | "tier" | "credits">) {
+  if (gift.kind === "credits") {
+    return `${gift.credits} credit${gift.credits === 1 ? "" : "s"}`;
+  }
+  const months = `${GIFT_SUBSCRIPTION_MONTHS} month${GIFT_SUBSCRIPTION_MONTHS === 1 ? "" : "s"}`;
+  return `${months} of the ${tierName(gift.tier)} plan`;
+}
+
+/** A code like GIFT-7KQ2-M9XD-4HTP. */
+export function generateGiftCode() {
+  const chars = Array.from(
+    randomBytes(12),
+    (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]
+  ).join("");
+  return `GIFT-${chars.slice(0, 4)}-${chars.slice(4, 8)}-${chars.slice(8)}`;
+}
+
+export function normalizeGiftCode(value: unknown) {
+  if (typeof value !== "string") return null;
+  const compact = value.toUpperCase().replace(/[^A-Z0-9]/g, "");
+  const body = compact.startsWith("GIFT") ? compact.slice(4) : compact;
+  if (body.length !== 12) return null;
+  return `GIFT-${body.slice(0, 4)}-${body.slice(4, 8)}-${body.slice(8, 12)}`;
+}
+
+async function getAccount(supabase: SupabaseClient, userId: string) {
+  const { data, error } = await supabase
+    .from("accounts")
+    .select("id, email, display_name")
+    .eq("id", userId)
+    .maybeSingle<{ id: string; email: string | null; display_name: string | null }>();
+
+  if (error) throw error;
+  return data;
+}
+
+async function getGift(
+  supabase: SupabaseClient,
+  column: "id" | "code" | "payment_reference",
+  value: string
+) {
+  const { data, error } = await supabase
+    .from("gifts")
+    .select(GIFT_COLUMNS)
+    .eq(column, value)
+    .maybeSingle<GiftRow>();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Record a gift before the buyer is sent to checkout. A recipient email that
+ * belongs to a member gets the gift applied directly once paid; any other
+ * email (or none) gets a code.
+ */
+export async function createGift(
+  supabase: SupabaseClient,
+  input: CreateGiftInput
+): Promise<{ ok: true; gift: GiftRow } | GiftFailure> {
+  let recipientId: string | null = null;
+
+  if (input.recipientEmail) {
+    const { data: account, error } = await supabase
+      .from("accounts")
+      .select("id")
+      .eq("email", input.recipientEmail)
+      .maybeSingle<{ id: string }>();
+
+    if (error) throw error;
+    if (account?.id === input.buyerId) {
+      return failure(
+        400,
+        "self_gift",
+        "Gifts are for someone else. Buy a plan or credits for yourself instead."
+      );
+    }
+    recipientId = account?.id || null;
+  }
+
+  const { data, error } = await supabase
+    .from("gifts")
+    .insert({
+      code: generateGiftCode(),
+      buyer_id: input.buyerId,
+      recipient_id: recipientId,
+      recipient_email: input.recipientEmail || null,
+      kind: input.kind,
+      tier: input.kind === "subscription" ? input.tier : null,
+      credits: input.kind === "credits" ? input.credits : null,
+      message: input.message || null,
+      amount_cents: input.amountCents,
+      currency: input.currency.toLowerCase(),
+      provider: input.provider,
+      delivery: recipientId ? "direct" : "code",
+      status: "pending_payment",
+    })
+    .select(GIFT_COLUMNS)
+    .single<GiftRow>();
+
+  if (error) throw error;
+  return { ok: true, gift: data };
+}
+
+export async function linkGiftPaymentReference(
+  supabase: SupabaseClient,
+  giftId: string,
+  reference: string
+) {
+  const { error } = await supabase
+    .from("gifts")
+    .update({ payment_reference: reference, updated_at: new Date().toISOString() })
+    .eq("id", giftId);
+
+  if (error) throw error;
+}
+
+export function findGiftByPaymentReference(supabase: SupabaseClient, reference: string) {
+  return getGift(supabase, "payment_reference", reference);
+}
+
+/**
+ * Whether the gift can be applied to `userId` now. A plan gift can't land on
+ * top of a different paid plan, or a plan billed to a saved card; it can
+ * extend the same plan.
+ */
+async function checkGiftEligibility(
+  supabase: SupabaseClient,
+  gift: GiftRow,
+  userId: string,
+  now: Date
+): Promise<GiftFailure | null> {
+  if (gift.kind !== "subscription") return null;
+
+  const membership = await getActivePaidMembership(supabase, userId, now);
+  if (!membership) return null;
+
+  if (membership.stripe_subscription_id) {
+    return failure(
+      409,
+      "plan_conflict",
+      "Your plan renews on your saved card. Redeem this gift after it ends."
+    );
+  }
+  if (membership.tier !== gift.tier) {
+    return failure(
+      409,
+      "plan_conflict",
+      `You're on the ${tierName(membership.tier)} plan. Redeem this ${tierName(gift.tier)} gift after it ends.`
+    );
+  }
+  return null;
+}
+
+/**
+ * Save what a redemption is about to write on the gift row first, so a
+ * redemption that fails partway can be finished without writing it twice.
+ */
+async function saveGiftProgress(
+  supabase: SupabaseClient,
+  giftId: string,
+  changes: Partial<
+    Pick<
+      GiftRow,
+      "membership_id" | "previous_expires_at" | "credits_granted" | "plan_credits_allocated"
+    >
+  >,
+  now: Date
+) {
+  const { error } = await supabase
+    .from("gifts")
+    .update({ ...changes, updated_at: now.toISOString() })
+    .eq("id", giftId);
+
+  if (error) throw error;
+}
+
+/** Redeemed, but applying the gift failed partway through. */
+function isPartlyRedeemed(gift: GiftRow) {
+  return gift.status === "redeemed" && typeof gift.credits_granted !== "number";
+}
+
+async function applyCreditsGift(
+  supabase: SupabaseClient,
+  gift: GiftRow,
+  userId: string,
+  now: Date,
+  progress: GiftApplyProgress
+): Promise<AppliedGift> {
+  const credits = Number(gift.credits || 0);
+  const { data: row, error: creditsError } = await supabase
+    .from("credits")
+    .select("total, used, rollover")
+    .eq("user_id", userId)
+    .maybeSingle<CreditsRow>();
+
+  if (creditsError) throw creditsError;
+
+  // The balance only ever moves by this one write; recording it on the gift
+  // first marks the gift applied once the write lands.
+  await saveGiftProgress(supabase, gift.id, { credits_granted: credits }, now);
+  const { error } = await supabase.from("credits").upsert(
+    {
+      user_id: userId,
+      total: (row?.total || 0) + credits,
+      used: row?.used || 0,
+      rollover: row?.rollover || 0,
+      updated_at: now.toISOString(),
+    },
+    { onConflict: "user_id" }
+  );
+  if (error) throw error;
+  progress.written = true;
+
+  const description = `Received ${describeGift(gift)} as a gift [gift:${gift.id}]`;
+  await recordCreditTransaction(supabase, {
+    userId,
+    amount: credits,
+    actionType: "gift_received",
+    description,
+  });
+
+  await grantCreditLotSafely(supabase, {
+    userId,
+    source: "gift",
+    amount: credits,
+    reference: `gift:${gift.id}`,
+    now,
+  });
+
+  await postLedgerTransactionSafely(supabase, {
+    kind: "credit_purchase",
+    userId,
+    idempotencyKey: `gift:${gift.id}`,
+    description,
+    metadata: { gift_id: gift.id, buyer_id: gift.buyer_id },
+    entries: cardCreditPurchaseEntries(userId, gift.amount_cents, credits),
+  });
+
+  return { creditsAdded: credits, membershipId: null, previousExpiresAt: null, planEndsAt: null };
+}
+
+/**
+ * Finishing a partial redemption skips what already landed: the membership
+ * it extends or creates is saved on the gift before it is touched, and the
+ * credit allocation is marked on the gift once it runs. The allocation also
+ * claims `gift:<id>`, so a failure between it and the mark doesn't allocate
+ * twice either.
+ */
+async function applySubscriptionGift(
+  supabase: SupabaseClient,
+  gift: GiftRow,
+  userId: string,
+  now: Date,
+  deps: GiftDependencies,
+  progress: GiftApplyProgress
+): Promise<AppliedGift> {
+  const tier = gift.tier as TierId;
+  // Finishing a partial redemption carries on with the plan it picked.
+  const current = gift.membership_id ? null : await getActivePaidMembership(supabase, userId, now);
+  const previousExpiresAt = gift.previous_expires_at || current?.expires_at || null;
+  const extendedMembershipId = gift.membership_id || current?.id || null;
+
+  // Same plan already running: the gift adds its months to the end.
+  if (previousExpiresAt && extendedMembershipId) {
+    const planEndsAt = addMonths(
+      new Date(previousExpiresAt),
+      GIFT_SUBSCRIPTION_MONTHS
+    ).toISOString();
+    if (!gift.membership_id) {
+      await saveGiftProgress(
+        supabase,
+        gift.id,
+        { membership_id: extendedMembershipId, previous_expires_at: previousExpiresAt },
+        now
+      );
+    }
+    const { error } = await supabase
+      .from("memberships")
+      .update({ expires_at: planEndsAt, updated_at: now.toISOString() })
+      .eq("id", extendedMembershipId);
+
+    if (error) throw error;
+    progress.written = true;
+    return {
+      creditsAdded: 0,
+      membershipId: extendedMembershipId,
+      previousExpiresAt,
+      planEndsAt,
+    };
+  }
+
+  const membershipId = gift.membership_id || randomUUID();
+  if (!gift.membership_id) {
+    await saveGiftProgress(supabase, gift.id, { membership_id: membershipId }, now);
+  }
+
+  const { error: accountError } = await supabase
+    .from("accounts")
+    .update({ tier })
+    .eq("id", userId);
+
+  if (accountError) throw accountError;
+  progress.written = true;
+
+  const { data: existing, error: existingError } = await supabase
+    .from("memberships")
+    .select("id, expires_at")
+    .eq("id", membershipId)
+    .maybeSingle<{ id: string; expires_at: string | null }>();
+
+  if (existingError) throw existingError;
+
+  let planEndsAt = existing?.expires_at || null;
+  if (!existing) {
+    planEndsAt = addMonths(now, GIFT_SUBSCRIPTION_MONTHS).toISOString();
+    const { error: membershipError } = await supabase.from("memberships").insert({
+      id: membershipId,
+      user_id: userId,
+      tier,
+      status: "active",
+      starts_at: now.toISOString(),
+      expires_at: planEndsAt,
+      price_cents: gift.amount_cents,
+      currency: gift.currency,
+      updated_at: now.toISOString(),
+    });
+
+    if (membershipError) throw membershipError;
+  }
+
+  let creditsAdded = gift.plan_credits_allocated;
+  if (typeof creditsAdded !== "number") {
+    const allocate = deps.allocateSubscriptionCreditsFn || allocateSubscriptionCredits;
+    const allocation = await allocate(supabase, userId, tier, {
+      actionType: "gift_subscription_allocation",
+      description: `Allocated monthly credits for a gifted ${tier} plan [gift:${gift.id}]`,
+      idempotencyKey: `gift:${gift.id}`,
+      now,
+    });
+    creditsAdded = allocation.creditsToAdd;
+    await saveGiftProgress(supabase, gift.id, { plan_credits_allocated: creditsAdded }, now);
+  }
+
+  const { error: clearStarterError } = await clearStarterTrialSlot(supabase, userId);
+  if (clearStarterError) {
+    console.warn("[gifts] Failed to clear starter trial slot pointer:", clearStarterError);
+  }
+
+  return {
+    creditsAdded,
+    membershipId,
+    previousExpiresAt: null,
+    planEndsAt,
+  };
+}
+
+/**
+ * Apply a paid gift to `userId`. The gift is claimed first so two redemptions
+ * can't both land. If applying fails before anything was written the claim is
+ * released again; otherwise the gift stays redeemed and redeeming it again
+ * finishes the job.
+ */
+async function redeemPaidGift(
+  supabase: SupabaseClient,
+  gift: GiftRow,
+  userId: string,
+  deps: GiftDependencies
+): Promise<GiftRedemptionResult> {
+  const now = deps.now || new Date();
+  const resuming = isPartlyRedeemed(gift);
+  let claimed = gift;
+
+  if (!resuming) {
+    const ineligible = await checkGiftEligibility(supabase, gift, userId, now);
+    if (ineligible) return ineligible;
+
+    const { data, error: claimError } = await supabase
+      .from("gifts")
+      .update({
+        status: "redeemed",
+        redeemed_by: userId,
+        redeemed_at: now.toISOString(),
+        updated_at: now.toISOString(),
+      })
+      .eq("id", gift.id)
+      .eq("status", "paid")
+      .select(GIFT_COLUMNS)
+      .maybeSingle<GiftRow>();
+
+    if (claimError) throw claimError;
+    if (!data) {
+      return failure(409, "already_redeemed", "This gift has already been redeemed.");
+    }
+    claimed = data;
+  }
+
+  const progress: GiftApplyProgress = { written: false };
+  let applied: AppliedGift;
+  try {
+    applied =
+      gift.kind === "credits"
+        ? await applyCreditsGift(supabase, claimed, userId, now, progress)
+        : await applySubscriptionGift(supabase, claimed, userId, now, deps, progress);
+  } catch (error) {
+    if (resuming || progress.written) {
+      console.error(`[gifts] Gift ${gift.id} was only partly applied:`, error);
+      throw error;
+    }
+    await supabase
+      .from("gifts")
+      .update({
+        status: "paid",
+        redeemed_by: null,
+        redeemed_at: null,
+        membership_id: null,
+        previous_expires_at: null,
+        credits_granted: null,
+        updated_at: now.toISOString(),
+      })
+      .eq("id", gift.id)
+      .eq("status", "redeemed");
+    throw error;
+  }
+
+  const { data: redeemed, error: updateError } = await supabase
+    .from("gifts")
+    .update({
+      membership_id: applied.membershipId,
+      previous_expires_at: applied.previousExpiresAt,
+      credits_granted: applied.creditsAdded,
+      updated_at: now.toISOString(),
+    })
+    .eq("id", gift.id)
+    .select(GIFT_COLUMNS)
+    .single<GiftRow>();
+
+  if (updateError) throw updateError;
+
+  await restoreCreditLockedProfileIfEligible(supabase, userId).catch((restoreError) => {
+    console.warn("[gifts] Credit-locked profile restore skipped:", restoreError);
+  });
+
+  return {
+    ok: true,
+    gift: redeemed,
+    creditsAdded: applied.creditsAdded,
+    planEndsAt: applied.planEndsAt,
+  };
+}
+
+async function sendGiftEmails(
+  supabase: SupabaseClient,
+  gift: GiftRow,
+  planEndsAt: string | null,
+  deps: GiftDependencies
+) {
+  const [buyer, recipient] = await Promise.all([
+    getAccount(supabase, gift.buyer_id),
+    gift.recipient_id ? getAccount(supabase, gift.recipient_id) : Promise.resolve(null),
+  ]);
+  const giftDescription = describeGift(gift);
+  // A partly applied gift is finished by redeeming its code.
+  const delivery: GiftDelivery =
+    gift.status === "redeemed" && !isPartlyRedeemed(gift) ? "direct" : "code";
+  const codeExpiresDate = formatDate(gift.code_expires_at);
+  const recipientEmail = recipient?.email || gift.recipient_email;
+
+  if (buyer?.email) {
+    const send = deps.sendGiftPurchasedEmailFn || sendGiftPurchasedEmail;
+    await send(buyer.email, {
+      recipientName: getPreferredEmailRecipientName({
+        accountDisplayName: buyer.display_name,
+        email: buyer.email,
+      }),
+      giftDescription,
+      delivery,
+      giftRecipient: recipient?.display_name || recipientEmail,
+      giftCode: delivery === "code" ? gift.code : null,
+      codeExpiresDate: delivery === "code" ? codeExpiresDate : null,
+    }).catch((emailError) => {
+      console.warn("[gifts] Gift receipt email failed:", emailError);
+    });
+  }
+
+  if (recipientEmail) {
+    const send = deps.sendGiftReceivedEmailFn || sendGiftReceivedEmail;
+    await send(recipientEmail, {
+      recipientName: getPreferredEmailRecipientName({
+        accountDisplayName: recipient?.display_name,
+        email: recipientEmail,
+      }),
+      senderName: buyer?.display_name?.trim() || "A MatchIndeed member",
+      giftDescription,
+      delivery,
+      giftMessage: gift.message,
+      giftCode: delivery === "code" ? gift.code : null,
+      codeExpiresDate: delivery === "code" ? codeExpiresDate : null,
+      planEndsDate: formatDate(planEndsAt),
+    }).catch((emailError) => {
+      console.warn("[gifts] Gift notice email failed:", emailError);
+    });
+  }
+}
+
+/**
+ * Settle a gift checkout. Safe to call again for the same payment: only the
+ * first call moves the gift out of pending_payment.
+ */
+export async function fulfillGiftPayment(
+  supabase: SupabaseClient,
+  payment: GiftPaymentNotice,
+  deps: GiftDependencies = {}
+): Promise<GiftProcessResult> {
+  const gift = await findGiftByPaymentReference(supabase, payment.reference);
+  if (!gift) {
+    return { success: false, retryable: false, message: "No gift is waiting for this payment." };
+  }
+
+  if (payment.status !== "successful") {
+    return {
+      success: false,
+      retryable: payment.status === "pending",
+      giftId: gift.id,
+      message:
+        payment.status === "pending"
+          ? "Payment is still processing."
+          : "Payment has not been completed successfully.",
+    };
+  }
+
+  if (gift.status !== "pending_payment") {
+    return {
+      success: true,
+      alreadyProcessed: true,
+      giftId: gift.id,
+      delivery: gift.delivery,
+      status: gift.status,
+      message: "Gift already processed.",
+    };
+  }
+
+  if (
+    payment.amountCents < gift.amount_cents ||
+    payment.currency.toLowerCase() !== gift.currency.toLowerCase()
+  ) {
+    return {
+      success: false,
+      retryable: false,
+      giftId: gift.id,
+      message: "The payment does not cover this gift.",
+    };
+  }
+
+  const now = deps.now || new Date();
+  const { data: paid, error: claimError } = await supabase
+    .from("gifts")
+    .update({
+      status: "paid",
+      paid_at: now.toISOString(),
+      provider_transaction_id: payment.transactionId,
+      code_expires_at: new Date(now.getTime() + GIFT_CODE_VALID_DAYS * DAY_MS).toISOString(),
+      updated_at: now.toISOString(),
+    })
+    .eq("id", gift.id)
+    .eq("status", "pending_payment")
+    .select(GIFT_COLUMNS)
+    .maybeSingle<GiftRow>();
+
+  if (claimError) throw claimError;
+  if (!paid) {
+    return {
+      success: true,
+      alreadyProcessed: true,
+      giftId: gift.id,
+      message: "Gift already processed.",
+    };
+  }
+
+  let settled = paid;
+  let planEndsAt: string | null = null;
+
+  if (paid.delivery === "direct" && paid.recipient_id) {
+    // The payment is already taken, so a gift that can't be applied now
+    // falls back to a code rather than failing the webhook.
+    const result = await redeemPaidGift(supabase, paid, paid.recipient_id, deps).catch(
+      (error) => {
+        console.warn(`[gifts] Direct delivery of gift ${paid.id} failed:`, error);
+        return null;
+      }
+    );
+
+    if (result?.ok) {
+      settled = result.gift;
+      planEndsAt = result.planEndsAt;
+    } else {
+      const { data: fallback, error: fallbackError } = await supabase
+        .from("gifts")
+        .update({ delivery: "code", updated_at: now.toISOString() })
+        .eq("id", paid.id)
+        .select(GIFT_COLUMNS)
+        .single<GiftRow>();
+
+      if (fallbackError) throw fallbackError;
+      settled = fallback;
+    }
+  }
+
+  await sendGiftEmails(supabase, settled, planEndsAt, deps);
+
+  return {
+    success: true,
+    giftId: settled.id,
+    delivery: settled.delivery,
+    status: settled.status,
+    message:
+      settled.status === "redeemed"
+        ? "Gift delivered successfully."
+        : "Gift paid. The code is ready to redeem.",
+  };
+}
+
+/** Redeem a gift code for the signed-in member. */
+export async function redeemGift(
+  supabase: SupabaseClient,
+  input: { code: string; userId: string },
+  deps: GiftDependencies = {}
+): Promise<GiftRedemptionResult> {
+  const code = normalizeGiftCode(input.code);
+  const gift = code ? await getGift(supabase, "code", code) : null;
+  if (!gift) {
+    return failure(404, "not_found", "We couldn't find a gift with that code.");
+  }
+
+  const now = deps.now || new Date();
+  if (gift.status === "revoked") {
+    return failure(410, "revoked", "This gift is no longer available.");
+  }
+  if (gift.status === "redeemed") {
+    // A redemption that failed partway is finished by redeeming again.
+    if (gift.redeemed_by === input.userId && isPartlyRedeemed(gift)) {
+      return redeemPaidGift(supabase, gift, input.userId, deps);
+    }
+    return failure(409, "already_redeemed", "This gift has already been redeemed.");
+  }
+  if (gift.status !== "paid") {
+    return failure(409, "not_paid", "This gift hasn't been paid for yet.");
+  }
+  if (gift.code_expires_at && new Date(gift.code_expires_at) <= now) {
+    return failure(410, "expired", "This gift code has expired.");
+  }
+  if (gift.buyer_id === input.userId) {
+    return failure(403, "self_gift", "Share this code with the person you bought it for.");
+  }
+  if (gift.recipient_id && gift.recipient_id !== input.userId) {
+    return failure(403, "wrong_recipient", "This gift was sent to another member.");
+  }
+
+  return redeemPaidGift(supabase, gift, input.userId, deps);
+}
+
+/**
+ * Cancel a gift. Unredeemed gifts just stop working; a redeemed gift is taken
+ * back from the recipient: unspent gifted credits are removed, and a gifted
+ * plan ends (or loses the months it added to an existing plan). Refunding
+ * the buyer is done at the provider.
+ */
+export async function revokeGift(
+  supabase: SupabaseClient,
+  input: { giftId: string; adminUserId: string; reason: string | null },
+  deps: GiftDependencies = {}
+): Promise<GiftRevocationResult> {
+  const gift = await getGift(supabase, "id", input.giftId);
+  if (!gift) return failure(404, "not_found", "Gift not found.");
+  if (gift.status === "revoked") {
+    return failure(409, "already_revoked", "This gift has already been revoked.");
+  }
+
+  const now = deps.now || new Date();
+  const { data: revoked, error } = await supabase
+    .from("gifts")
+    .update({
+      status: "revoked",
+      revoked_by: input.adminUserId,
+      revoked_at: now.toISOString(),
+      revoke_reason: input.reason,
+      updated_at: now.toISOString(),
+    })
+    .eq("id", gift.id)
+    .eq("status", gift.status)
+    .select(GIFT_COLUMNS)
+    .maybeSingle<GiftRow>();
+
+  if (error) throw error;
+  if (!revoked) {
+    return failure(
+      409,
+      "already_revoked",
+      "This gift changed while you were revoking it. Try again."
+    );
+  }
+
+  let creditsRemoved = 0;
+  let planWithdrawn = false;
+  const recipientId = gift.redeemed_by;
+
+  if (gift.status === "redeemed" && recipientId) {
+    const reason = `Gift revoked${input.reason ? `: ${input.reason}` : ""} [gift:${gift.id}]`;
+
+    if (gift.kind === "credits") {
+      creditsRemoved = await removeAvailableCredits(supabase, {
+        userId: recipientId,
+        credits: Number(gift.credits_granted ?? gift.credits ?? 0),
+        actionType: "gift_revoked",
+        description: reason,
+        now,
+      });
+    } else if (gift.membership_id) {
+      const { data: membership, error: membershipError } = await supabase
+        .from("memberships")
+        .select("id, user_id, tier, status, expires_at, stripe_subscription_id, billing_status")
+        .eq("id", gift.membership_id)
+        .maybeSingle<{
+          id: string;
+          user_id: string;
+          tier: string;
+          status: string;
+          expires_at: string | null;
+          stripe_subscription_id: string | null;
+          billing_status: string | null;
+        }>();
+
+      if (membershipError) throw membershipError;
+
+      if (membership && membership.status === "active") {
+        if (gift.previous_expires_at) {
+          // The gift extended a plan the member already had.
+          const { error: rollbackError } = await supabase
+            .from("memberships")
+            .update({ expires_at: gift.previous_expires_at, updated_at: now.toISOString() })
+            .eq("id", membership.id);
+
+          if (rollbackError) throw rollbackError;
+          planWithdrawn = true;
+        } else {
+          const downgrade = deps.downgradeMembershipFn || downgradeMembership;
+          planWithdrawn = await downgrade(
+            supabase,
+            membership,
+            { reason: "The gifted plan was withdrawn by MatchIndeed support." },
+            { now }
+          );
+        }
+      }
+
+      // The plan's monthly allowance goes with it.
+      if (planWithdrawn && !gift.previous_expires_at && gift.credits_granted) {
+        creditsRemoved = await removeAvailableCredits(supabase, {
+          userId: recipientId,
+          credits: Number(gift.credits_granted),
+          actionType: "gift_revoked",
+          description: reason,
+          now,
+        });
+      }
+    }
+
+    if (creditsRemoved > 0) {
+      await postLedgerTransactionSafely(supabase, {
+        kind: "admin_adjustment",
+        userId: recipientId,
+        idempotencyKey: `gift_revoked:${gift.id}`,
+        description: reason,
+        metadata: { gift_id: gift.id, admin_id: input.adminUserId },
+        entries: creditEntries(recipientId, -creditsRemoved, "credit_issuance"),
+      });
+    }
+  }
+
+  return { ok: true, gift: revoked, creditsRemoved, planWithdrawn };
+}
+
+/** Gifts the member bought and gifts redeemed by or addressed to them. */
+export async function listGiftsForUser(
+  supabase: SupabaseClient,
+  userId: string,
+  email?: string | null
+) {
+  const [sent, received] = await Promise.all([
+    supabase
+      .from("gifts")
+      .select(GIFT_COLUMNS)
+      .eq("buyer_id", userId)
+      .neq("status", "pending_payment")
+      .order("created_at", { ascending: false })
+      .limit(50),
+    supabase
+      .from("gifts")
+      .select(GIFT_COLUMNS)
+      .or(
+        [`recipient_id.eq.${userId}`, `redeemed_by.eq.${userId}`]
+          .concat(email ? [`recipient_email.eq.${email.toLowerCase()}`] : [])
+          .join(",")
+      )
+      .neq("status", "pending_payment")
+      .order("created_at", { ascending: false })
+      .limit(50),
+  ]);
+
+  if (sent.error) throw sent.error;
+  if (received.error) throw received.error;
+
+  return {
+    sent: (sent.data || []) as GiftRow[],
+    received: (received.data || []) as GiftRow[],
+  };
+}
@@ -0,0 +1,344 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Host earnings: the commission a host earns on each meeting they run.
+ *
+ * Finalizing a meeting records one earning for the host assigned through
+ * host_meetings, priced from the meeting fee and the host's commission rate.
+ * A captured charge makes it payable ('pending'); a charge under review keeps
+ * it 'held' until the review releases or voids it. Payout batches (see
+ * ./payouts) move payable earnings to 'processing' and then 'paid'.
+ */
+
+export type HostEarningStatus = "held" | "pending" | "processing" | "paid" | "failed" | "void";
+
+export type HostEarningRow = {
+  id: string;
+  host_id: string;
+  meeting_id: string;
+  fee_cents: number | null;
+  commission_rate: number | null;
+  amount_cents: number;
+  currency: string;
+  status: HostEarningStatus;
+  payout_id: string | null;
+  earned_at: string;
+  released_at: string | null;
+  paid_at: string | null;
+  created_at: string;
+};
+
+export type HostPayoutStatus = "pending" | "paid" | "failed" | "canceled";
+
+export type HostPayoutRow = {
+  id: string;
+  batch_id: string;
+  host_id: string;
+  amount_cents: number;
+  currency: string;
+  earning_count: number;
+  status: HostPayoutStatus;
+  reference: string | null;
+  failure_reason: string | null;
+  settled_at: string | null;
+  created_at: string;
+};
+
+export type HostStatement = {
+  hostId: string;
+  month: string;
+  periodStart: string;
+  periodEnd: string;
+  earnings: HostEarningRow[];
+  payouts: HostPayoutRow[];
+  /** Per currency, in the smallest unit. */
+  totals: {
+    earned: Record<string, number>;
+    held: Record<string, number>;
+    voided: Record<string, number>;
+    paidOut: Record<string, number>;
+  };
+};
+
+export const HOST_EARNING_COLUMNS =
+  "id, host_id, meeting_id, fee_cents, commission_rate, amount_cents, currency, status, payout_id, earned_at, released_at, paid_at, created_at";
+
+export const HOST_PAYOUT_COLUMNS =
+  "id, batch_id, host_id, amount_cents, currency, earning_count, status, reference, failure_reason, settled_at, created_at";
+
+/** host_profiles.commission_rate default: the host's share of the fee, in percent. */
+export const DEFAULT_HOST_COMMISSION_RATE = 10;
+
+/** Meeting fees are priced from the NGN plan price. */
+export const MEETING_FEE_CURRENCY = "ngn";
+
+export function calculateHostEarningCents(feeCents: number, commissionRate: number) {
+  if (!(feeCents > 0) || !(commissionRate > 0)) return 0;
+  return Math.floor((feeCents * Math.min(commissionRate, 100)) / 100);
+}
+
+/**
+ * Record the host's earning for a finalized meeting. Refunded meetings earn
+ * nothing, and a meeting without an assigned host is skipped. Finalizing
+ * twice records one earning.
+ */
+export async function recordMeetingEarning(
+  supabase: SupabaseClient,
+  input: {
+    meetingId: string;
+    feeCents: number | null;
+    chargeStatus: string;
+    now?: Date;
+  }
+) {
+  if (input.chargeStatus !== "captured" && input.chargeStatus !== "pending_review") {
+    return null;
+  }
+
+  const { data: assignment, error: assignmentError } = await supabase
+    .from("host_meetings")
+    .select("host_id")
+    .eq("meeting_id", input.meetingId)
+    .limit(1)
+    .maybeSingle<{ host_id: string }>();
+
+  if (assignmentError) throw assignmentError;
+  if (!assignment) return null;
+
+  const { data: host, error: hostError } = await supabase
+    .from("host_profiles")
+    .select("id, commission_rate")
+    .eq("id", assignment.host_id)
+    .maybeSingle<{ id: string; commission_rate: number | null }>();
+
+  if (hostError) throw hostError;
+  if (!host) return null;
+
+  const feeCents = Number(input.feeCents || 0);
+  const commissionRate = Number(host.commission_rate ?? DEFAULT_HOST_COMMISSION_RATE);
+  const amountCents = calculateHostEarningCents(feeCents, commissionRate);
+  if (amountCents <= 0) return null;
+
+  const now = input.now || new Date();
+  const { data, error } = await supabase
+    .from("host_earnings")
+    .insert({
+      host_id: host.id,
+      meeting_id: input.meetingId,
+      fee_cents: feeCents,
+      commission_rate: commissionRate,
+      amount_cents: amountCents,
+      // Kept for the dashboard's original major-unit column.
+      amount: amountCents / 100,
+      currency: MEETING_FEE_CURRENCY,
+      status: input.chargeStatus === "captured" ? "pending" : "held",
+      earned_at: now.toISOString(),
+      released_at: input.chargeStatus === "captured" ? now.toISOString() : null,
+    })
+    .select(HOST_EARNING_COLUMNS)
+    .single<HostEarningRow>();
+
+  if (error) {
+    // (host_id, meeting_id) is unique: the earning was already recorded.
+    if (error.code === "23505") return null;
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * recordMeetingEarning for the finalize route: the meeting is already
+ * completed, so a failure is logged for the admin to follow up.
+ */
+export async function recordMeetingEarningSafely(
+  supabase: SupabaseClient,
+  input: Parameters<typeof recordMeetingEarning>[1]
+) {
+  try {
+    return await recordMeetingEarning(supabase, input);
+  } catch (error) {
+    console.warn(`[host-earnings] Failed to record earning for meeting ${input.meetingId}:`, error);
+    return null;
+  }
+}
+
+/** Release or void a held earning once the meeting's charge review is resolved. */
+export async function settleHeldMeetingEarning(
+  supabase: SupabaseClient,
+  input: { meetingId: string; chargeStatus: string; now?: Date }
+) {
+  const now = (input.now || new Date()).toISOString();
+  const { data, error } = await supabase
+    .from("host_earnings")
+    .update(
+      input.chargeStatus === "captured"
+        ? { status: "pending", released_at: now, updated_at: now }
+        : { status: "void", updated_at: now }
+    )
+    .eq("meeting_id", input.meetingId)
+    .eq("status", "held")
+    .select(HOST_EARNING_COLUMNS);
+
+  if (error) throw error;
+  return (data || []) as HostEarningRow[];
+}
+
+export async function settleHeldMeetingEarningSafely(
+  supabase: SupabaseClient,
+  input: Parameters<typeof settleHeldMeetingEarning>[1]
+) {
+  try {
+    return await settleHeldMeetingEarning(supabase, input);
+  } catch (error) {
+    console.warn(`[host-earnings] Failed to settle earning for meeting ${input.meetingId}:`, error);
+    return [];
+  }
+}
+
+function addTo(totals: Record<string, number>, currency: string, cents: number) {
+  const key = currency.toLowerCase();
+  totals[key] = (totals[key] || 0) + Number(cents || 0);
+}
+
+/** Totals per status and currency, for the host dashboard. */
+export function summarizeHostEarnings(earnings: Pick<HostEarningRow, "status" | "currency" | "amount_cents">[]) {
+  const summary: Record<HostEarningStatus, Record<string, number>> = {
+    held: {},
+    pending: {},
+    processing: {},
+    paid: {},
+    failed: {},
+    void: {},
+  };
+  for (const earning of earnings) {
+    addTo(summary[earning.status], earning.currency, earning.amount_cents);
+  }
+  return summary;
+}
+
+/** "2026-07" → the UTC month it covers. */
+export function parseStatementMonth(value: unknown) {
+  if (typeof value !== "string" || !/^\d{4}-(0[1-9]|1[0-2])$/.test(value)) return null;
+  const [year, month] = value.split("-").map(Number);
+  return {
+    start: new Date(Date.UTC(year, month - 1, 1)),
+    end: new Date(Date.UTC(year, month, 1)),
+  };
+}
+
+/** Everything a host earned and was paid in one calendar month. */
+export async function buildHostStatement(
+  supabase: SupabaseClient,
+  input: { hostId: string; month: string }
+): Promise<HostStatement | null> {
+  const period = parseStatementMonth(input.month);
+  if (!period) return null;
+
+  const start = period.start.toISOString();
+  const end = period.end.toISOString();
+
+  const [{ data: earnings, error: earningsError }, { data: payouts, error: payoutsError }] =
+    await Promise.all([
+      supabase
+        .from("host_earnings")
+        .select(HOST_EARNING_COLUMNS)
+        .eq("host_id", input.hostId)
+        .gte("earned_at", start)
+        .lt("earned_at", end)
+        .order("earned_at", { ascending: true }),
+      supabase
+        .from("host_payouts")
+        .select(HOST_PAYOUT_COLUMNS)
+        .eq("host_id", input.hostId)
+        .eq("status", "paid")
+        .gte("settled_at", start)
+        .lt("settled_at", end)
+        .order("settled_at", { ascending: true }),
+    ]);
+
+  if (earningsError) throw earningsError;
+  if (payoutsError) throw payoutsError;
+
+  const statement: HostStatement = {
+    hostId: input.hostId,
+    month: input.month,
+    periodStart: start,
+    periodEnd: end,
+    earnings: (earnings || []) as HostEarningRow[],
+    payouts: (payouts || []) as HostPayoutRow[],
+    totals: { earned: {}, held: {}, voided: {}, paidOut: {} },
+  };
+
+  for (const earning of statement.earnings) {
+    if (earning.status === "void") {
+      addTo(statement.totals.voided, earning.currency, earning.amount_cents);
+    } else if (earning.status === "held") {
+      addTo(statement.totals.held, earning.currency, earning.amount_cents);
+    } else {
+      addTo(statement.totals.earned, earning.currency, earning.amount_cents);
+    }
+  }
+  for (const payout of statement.payouts) {
+    addTo(statement.totals.paidOut, payout.currency, payout.amount_cents);
+  }
+
+  return statement;
+}
+
+const EARNING_STATUS_LABELS: Record<HostEarningStatus, string> = {
+  held: "Under review",
+  pending: "Awaiting payout",
+  processing: "In payout",
+  paid: "Paid",
+  failed: "Payout failed",
+  void: "Voided",
+};
+
+export function describeHostEarningStatus(status: HostEarningStatus) {
+  return EARNING_STATUS_LABELS[status] || status;
+}
+
+export function formatStatementAmount(cents: number, currency: string) {
+  return `${currency.toUpperCase()} ${(cents / 100).toFixed(2)}`;
+}
+
+function csvCell(value: string | number | null) {
+  const text = value === null ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function hostStatementToCsv(statement: HostStatement) {
+  const rows: (string | number | null)[][] = [
+    ["type", "date", "meeting_id", "fee", "commission_rate", "amount", "currency", "status", "reference"],
+  ];
+
+  for (const earning of statement.earnings) {
+    rows.push([
+      "earning",
+      earning.earned_at.slice(0, 10),
+      earning.meeting_id,
+      earning.fee_cents === null ? null : (earning.fee_cents / 100).toFixed(2),
+      earning.commission_rate,
+      (earning.amount_cents / 100).toFixed(2),
+      earning.currency.toUpperCase(),
+      describeHostEarningStatus(earning.status),
+      null,
+    ]);
+  }
+  for (const payout of statement.payouts) {
+    rows.push([
+      "payout",
+      (payout.settled_at || payout.created_at).slice(0, 10),
+      null,
+      null,
+      null,
+      (payout.amount_cents / 100).toFixed(2),
+      payout.currency.toUpperCase(),
+      "Paid",
+      payout.reference,
+    ]);
+  }
+
+  return `${rows.map((row) => row.map(csvCell).join(",")).join("\n")}\n`;
+}
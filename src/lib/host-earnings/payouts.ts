@@ -0,0 +1,321 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  HOST_EARNING_COLUMNS,
+  HOST_PAYOUT_COLUMNS,
+  type HostEarningRow,
+  type HostPayoutRow,
+} from "@/lib/host-earnings/earnings";
+
+/**
+ * Host payout batches: draft → approved → completed, or draft → canceled.
+ *
+ * A draft gathers every payable ('pending') earning recorded before a cutoff
+ * into one payout per host and currency and moves those earnings to
+ * 'processing'. Once approved, each payout is sent outside the app and
+ * marked paid (its earnings become 'paid') or failed (its earnings return
+ * to 'pending' for the next batch). The batch completes when no payout is
+ * left pending. Canceling a draft releases its earnings.
+ */
+
+export type HostPayoutBatchStatus = "draft" | "approved" | "completed" | "canceled";
+
+export type HostPayoutBatchRow = {
+  id: string;
+  status: HostPayoutBatchStatus;
+  earned_before: string;
+  notes: string | null;
+  created_by: string | null;
+  approved_by: string | null;
+  approved_at: string | null;
+  completed_at: string | null;
+  created_at: string;
+};
+
+type PayoutErrorCode =
+  | "nothing_to_pay"
+  | "batch_not_found"
+  | "batch_not_draft"
+  | "batch_not_approved"
+  | "payout_not_found"
+  | "payout_settled";
+
+export type PayoutFailure = {
+  ok: false;
+  status: number;
+  code: PayoutErrorCode;
+  message: string;
+};
+
+export const HOST_PAYOUT_BATCH_COLUMNS =
+  "id, status, earned_before, notes, created_by, approved_by, approved_at, completed_at, created_at";
+
+function failure(status: number, code: PayoutErrorCode, message: string): PayoutFailure {
+  return { ok: false, status, code, message };
+}
+
+async function loadBatch(supabase: SupabaseClient, batchId: string) {
+  const { data, error } = await supabase
+    .from("host_payout_batches")
+    .select(HOST_PAYOUT_BATCH_COLUMNS)
+    .eq("id", batchId)
+    .maybeSingle<HostPayoutBatchRow>();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function createHostPayoutBatch(
+  supabase: SupabaseClient,
+  input: { adminUserId: string; earnedBefore?: Date; notes?: string | null; now?: Date }
+): Promise<{ ok: true; batch: HostPayoutBatchRow; payouts: HostPayoutRow[] } | PayoutFailure> {
+  const now = input.now || new Date();
+  const earnedBefore = (input.earnedBefore || now).toISOString();
+
+  const { data: earningRows, error: earningsError } = await supabase
+    .from("host_earnings")
+    .select(HOST_EARNING_COLUMNS)
+    .eq("status", "pending")
+    .lt("earned_at", earnedBefore);
+
+  if (earningsError) throw earningsError;
+
+  const earnings = ((earningRows || []) as HostEarningRow[]).filter(
+    (earning) => Number(earning.amount_cents) > 0
+  );
+  if (earnings.length === 0) {
+    return failure(400, "nothing_to_pay", "No host earnings are waiting for a payout.");
+  }
+
+  const { data: batch, error: batchError } = await supabase
+    .from("host_payout_batches")
+    .insert({
+      status: "draft",
+      earned_before: earnedBefore,
+      notes: input.notes || null,
+      created_by: input.adminUserId,
+    })
+    .select(HOST_PAYOUT_BATCH_COLUMNS)
+    .single<HostPayoutBatchRow>();
+
+  if (batchError) throw batchError;
+
+  const groups = new Map<string, HostEarningRow[]>();
+  for (const earning of earnings) {
+    const key = `${earning.host_id}:${earning.currency.toLowerCase()}`;
+    groups.set(key, [...(groups.get(key) || []), earning]);
+  }
+
+  const payouts: HostPayoutRow[] = [];
+  for (const group of groups.values()) {
+    const { data: payout, error: payoutError } = await supabase
+      .from("host_payouts")
+      .insert({
+        batch_id: batch.id,
+        host_id: group[0].host_id,
+        currency: group[0].currency.toLowerCase(),
+        amount_cents: group.reduce((sum, earning) => sum + Number(earning.amount_cents), 0),
+        earning_count: group.length,
+        status: "pending",
+      })
+      .select(HOST_PAYOUT_COLUMNS)
+      .single<HostPayoutRow>();
+
+    if (payoutError) throw payoutError;
+
+    const { data: claimed, error: claimError } = await supabase
+      .from("host_earnings")
+      .update({ status: "processing", payout_id: payout.id, updated_at: now.toISOString() })
+      .in(
+        "id",
+        group.map((earning) => earning.id)
+      )
+      .eq("status", "pending")
+      .select("id, amount_cents");
+
+    if (claimError) throw claimError;
+
+    // An earning voided or batched elsewhere since it was read stays out.
+    const claimedRows = (claimed || []) as { id: string; amount_cents: number }[];
+    if (claimedRows.length !== group.length) {
+      const amountCents = claimedRows.reduce((sum, row) => sum + Number(row.amount_cents), 0);
+      const { error: resizeError } = await supabase
+        .from("host_payouts")
+        .update(
+          claimedRows.length === 0
+            ? { status: "canceled", failure_reason: "No earnings left to pay" }
+            : { amount_cents: amountCents, earning_count: claimedRows.length }
+        )
+        .eq("id", payout.id);
+
+      if (resizeError) throw resizeError;
+      if (claimedRows.length === 0) continue;
+      payout.amount_cents = amountCents;
+      payout.earning_count = claimedRows.length;
+    }
+
+    payouts.push(payout);
+  }
+
+  return { ok: true, batch, payouts };
+}
+
+export async function approveHostPayoutBatch(
+  supabase: SupabaseClient,
+  input: { batchId: string; adminUserId: string; now?: Date }
+): Promise<{ ok: true; batch: HostPayoutBatchRow } | PayoutFailure> {
+  const now = (input.now || new Date()).toISOString();
+  const { data, error } = await supabase
+    .from("host_payout_batches")
+    .update({
+      status: "approved",
+      approved_by: input.adminUserId,
+      approved_at: now,
+      updated_at: now,
+    })
+    .eq("id", input.batchId)
+    .eq("status", "draft")
+    .select(HOST_PAYOUT_BATCH_COLUMNS)
+    .maybeSingle<HostPayoutBatchRow>();
+
+  if (error) throw error;
+  if (data) return { ok: true, batch: data };
+
+  const batch = await loadBatch(supabase, input.batchId);
+  return batch
+    ? failure(409, "batch_not_draft", `This batch is already ${batch.status}.`)
+    : failure(404, "batch_not_found", "Payout batch not found.");
+}
+
+export async function cancelHostPayoutBatch(
+  supabase: SupabaseClient,
+  input: { batchId: string; now?: Date }
+): Promise<{ ok: true; batch: HostPayoutBatchRow } | PayoutFailure> {
+  const now = (input.now || new Date()).toISOString();
+  const { data: batch, error } = await supabase
+    .from("host_payout_batches")
+    .update({ status: "canceled", updated_at: now })
+    .eq("id", input.batchId)
+    .eq("status", "draft")
+    .select(HOST_PAYOUT_BATCH_COLUMNS)
+    .maybeSingle<HostPayoutBatchRow>();
+
+  if (error) throw error;
+  if (!batch) {
+    const existing = await loadBatch(supabase, input.batchId);
+    return existing
+      ? failure(409, "batch_not_draft", `Only draft batches can be canceled; this one is ${existing.status}.`)
+      : failure(404, "batch_not_found", "Payout batch not found.");
+  }
+
+  const { data: payouts, error: payoutsError } = await supabase
+    .from("host_payouts")
+    .update({ status: "canceled", updated_at: now })
+    .eq("batch_id", batch.id)
+    .eq("status", "pending")
+    .select("id");
+
+  if (payoutsError) throw payoutsError;
+
+  const payoutIds = ((payouts || []) as { id: string }[]).map((payout) => payout.id);
+  if (payoutIds.length > 0) {
+    const { error: releaseError } = await supabase
+      .from("host_earnings")
+      .update({ status: "pending", payout_id: null, updated_at: now })
+      .in("payout_id", payoutIds)
+      .eq("status", "processing");
+
+    if (releaseError) throw releaseError;
+  }
+
+  return { ok: true, batch };
+}
+
+/**
+ * Record the outcome of sending one payout. A failed payout's earnings go
+ * back into the pool for the next batch.
+ */
+export async function settleHostPayout(
+  supabase: SupabaseClient,
+  input: {
+    payoutId: string;
+    outcome: "paid" | "failed";
+    adminUserId: string;
+    reference?: string | null;
+    failureReason?: string | null;
+    now?: Date;
+  }
+): Promise<
+  { ok: true; payout: HostPayoutRow; batchCompleted: boolean } | PayoutFailure
+> {
+  const now = (input.now || new Date()).toISOString();
+  const { data: existing, error: existingError } = await supabase
+    .from("host_payouts")
+    .select(HOST_PAYOUT_COLUMNS)
+    .eq("id", input.payoutId)
+    .maybeSingle<HostPayoutRow>();
+
+  if (existingError) throw existingError;
+  if (!existing) return failure(404, "payout_not_found", "Payout not found.");
+  if (existing.status !== "pending") {
+    return failure(409, "payout_settled", `This payout is already ${existing.status}.`);
+  }
+
+  const batch = await loadBatch(supabase, existing.batch_id);
+  if (!batch) return failure(404, "batch_not_found", "Payout batch not found.");
+  if (batch.status !== "approved") {
+    return failure(409, "batch_not_approved", "Approve the batch before recording payouts.");
+  }
+
+  const { data: payout, error: payoutError } = await supabase
+    .from("host_payouts")
+    .update({
+      status: input.outcome,
+      reference: input.reference || null,
+      failure_reason: input.outcome === "failed" ? input.failureReason || null : null,
+      settled_by: input.adminUserId,
+      settled_at: now,
+      updated_at: now,
+    })
+    .eq("id", existing.id)
+    .eq("status", "pending")
+    .select(HOST_PAYOUT_COLUMNS)
+    .maybeSingle<HostPayoutRow>();
+
+  if (payoutError) throw payoutError;
+  if (!payout) return failure(409, "payout_settled", "This payout was settled by someone else.");
+
+  const { error: earningsError } = await supabase
+    .from("host_earnings")
+    .update(
+      input.outcome === "paid"
+        ? { status: "paid", paid_at: now, updated_at: now }
+        : { status: "pending", payout_id: null, updated_at: now }
+    )
+    .eq("payout_id", payout.id)
+    .eq("status", "processing");
+
+  if (earningsError) throw earningsError;
+
+  const { data: remaining, error: remainingError } = await supabase
+    .from("host_payouts")
+    .select("id")
+    .eq("batch_id", batch.id)
+    .eq("status", "pending")
+    .limit(1);
+
+  if (remainingError) throw remainingError;
+
+  let batchCompleted = false;
+  if ((remaining || []).length === 0) {
+    const { error: completeError } = await supabase
+      .from("host_payout_batches")
+      .update({ status: "completed", completed_at: now, updated_at: now })
+      .eq("id", batch.id)
+      .eq("status", "approved");
+
+    if (completeError) throw completeError;
+    batchCompleted = true;
+  }
+
+  return { ok: true, payout, batchCompleted };
+}
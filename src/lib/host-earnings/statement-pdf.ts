@@ -0,0 +1,151 @@
+import {
+  describeHostEarningStatus,
+  formatStatementAmount,
+  type HostStatement,
+} from "@/lib/host-earnings/earnings";
+
+/**
+ * Plain-text PDF rendering of a host statement. Statements are a title, a
+ * few totals and a table, so this writes the PDF objects directly with the
+ * standard fonts rather than pulling in a layout library.
+ */
+
+type PdfLine = { text: string; font?: "regular" | "bold" | "mono"; size?: number; gap?: number };
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+
+const FONT_NAMES = { regular: "F1", bold: "F2", mono: "F3" } as const;
+
+function escapePdfText(text: string) {
+  return text
+    .replace(/[^\x20-\x7e]/g, "?")
+    .replace(/\\/g, "\\\\")
+    .replace(/\(/g, "\\(")
+    .replace(/\)/g, "\\)");
+}
+
+function paginate(lines: PdfLine[]) {
+  const pages: string[] = [];
+  let commands: string[] = [];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  for (const line of lines) {
+    const size = line.size || 10;
+    const advance = size + (line.gap ?? 4);
+    if (y - advance < MARGIN) {
+      pages.push(commands.join("\n"));
+      commands = [];
+      y = PAGE_HEIGHT - MARGIN;
+    }
+    y -= advance;
+    commands.push(
+      `BT /${FONT_NAMES[line.font || "regular"]} ${size} Tf ${MARGIN} ${y} Td (${escapePdfText(line.text)}) Tj ET`
+    );
+  }
+  pages.push(commands.join("\n"));
+  return pages;
+}
+
+function renderPdf(lines: PdfLine[]) {
+  const pages = paginate(lines);
+  const objects: string[] = [];
+  const pageIds = pages.map((_, index) => 6 + index * 2);
+
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`;
+  objects[3] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>";
+  objects[4] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold >>";
+  objects[5] = "<< /Type /Font /Subtype /Type1 /BaseFont /Courier >>";
+  pages.forEach((content, index) => {
+    const pageId = pageIds[index];
+    objects[pageId] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R /F3 5 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+  });
+
+  let pdf = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = pdf.length;
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  // Every character is ASCII, so string offsets are byte offsets.
+  return new TextEncoder().encode(pdf);
+}
+
+function formatTotals(totals: Record<string, number>) {
+  const entries = Object.entries(totals);
+  return entries.length === 0
+    ? "-"
+    : entries.map(([currency, cents]) => formatStatementAmount(cents, currency)).join(", ");
+}
+
+export function renderHostStatementPdf(statement: HostStatement, hostName: string) {
+  const period = new Date(statement.periodStart).toLocaleDateString("en-US", {
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+  const lines: PdfLine[] = [
+    { text: "MatchIndeed Host Statement", font: "bold", size: 18, gap: 8 },
+    { text: `${hostName} - ${period}` },
+    { text: `Generated ${new Date().toISOString().slice(0, 10)}`, gap: 14 },
+    { text: `Earned: ${formatTotals(statement.totals.earned)}` },
+    { text: `Under review: ${formatTotals(statement.totals.held)}` },
+    { text: `Voided: ${formatTotals(statement.totals.voided)}` },
+    { text: `Paid out: ${formatTotals(statement.totals.paidOut)}`, gap: 14 },
+    { text: "Earnings", font: "bold", size: 12, gap: 8 },
+  ];
+
+  if (statement.earnings.length === 0) {
+    lines.push({ text: "No meetings were finalized this month." });
+  } else {
+    lines.push({
+      text: `${"Date".padEnd(12)}${"Meeting".padEnd(12)}${"Amount".padEnd(18)}Status`,
+      font: "mono",
+      size: 9,
+    });
+    for (const earning of statement.earnings) {
+      lines.push({
+        text:
+          earning.earned_at.slice(0, 10).padEnd(12) +
+          earning.meeting_id.slice(0, 8).padEnd(12) +
+          formatStatementAmount(earning.amount_cents, earning.currency).padEnd(18) +
+          describeHostEarningStatus(earning.status),
+        font: "mono",
+        size: 9,
+        gap: 3,
+      });
+    }
+  }
+
+  lines.push({ text: "Payouts", font: "bold", size: 12, gap: 14 });
+  if (statement.payouts.length === 0) {
+    lines.push({ text: "No payouts were sent this month." });
+  } else {
+    for (const payout of statement.payouts) {
+      lines.push({
+        text:
+          (payout.settled_at || payout.created_at).slice(0, 10).padEnd(12) +
+          formatStatementAmount(payout.amount_cents, payout.currency).padEnd(18) +
+          (payout.reference || ""),
+        font: "mono",
+        size: 9,
+        gap: 3,
+      });
+    }
+  }
+
+  return renderPdf(lines);
+}
@@ -0,0 +1,221 @@
+import { randomUUID } from "node:crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export type LedgerUnit = "cents" | "credits";
+
+export type LedgerUserAccount = "user_wallet" | "user_credits";
+
+export type LedgerSystemAccount =
+  | "payment_clearing"
+  | "subscription_revenue"
+  | "credit_sales_revenue"
+  | "meeting_fee_revenue"
+  | "credit_issuance"
+  | "credit_consumption"
+  | "promotions"
+  | "admin_adjustments"
+  | "opening_balance";
+
+export type LedgerAccount = LedgerUserAccount | LedgerSystemAccount;
+
+export type LedgerTransactionKind =
+  | "opening_balance"
+  | "wallet_topup"
+  | "credit_purchase"
+  | "subscription_payment"
+  | "credit_allocation"
+  | "credit_expiry"
+  | "meeting_charge"
+  | "refund"
+  | "referral_reward"
+  | "admin_adjustment"
+  | "plan_change";
+
+/**
+ * One leg of a ledger transaction. A positive amount increases what the
+ * account's owner holds; user accounts carry a userId, system accounts none.
+ */
+export type LedgerEntryInput = {
+  account: LedgerAccount;
+  userId?: string | null;
+  unit: LedgerUnit;
+  amount: number;
+};
+
+export type LedgerTransactionInput = {
+  kind: LedgerTransactionKind;
+  userId: string;
+  /**
+   * Stable key for the event being posted (provider session, reward id, ...)
+   * so a replayed webhook or retry does not post twice. Omit for one-off
+   * movements that have no natural key.
+   */
+  idempotencyKey?: string | null;
+  description?: string | null;
+  metadata?: Record<string, unknown>;
+  entries: LedgerEntryInput[];
+};
+
+export type LedgerPostResult = {
+  posted: boolean;
+  transactionId: string | null;
+};
+
+export type LedgerBalances = {
+  walletCents: number;
+  credits: number;
+};
+
+const USER_ACCOUNTS = new Set<LedgerAccount>(["user_wallet", "user_credits"]);
+
+/** User wallet moves by `amountCents`; the counter account takes the other side. */
+export function walletEntries(
+  userId: string,
+  amountCents: number,
+  counterAccount: LedgerSystemAccount
+): LedgerEntryInput[] {
+  return [
+    { account: "user_wallet", userId, unit: "cents", amount: amountCents },
+    { account: counterAccount, unit: "cents", amount: -amountCents },
+  ];
+}
+
+/** User credits move by `credits`; the counter account takes the other side. */
+export function creditEntries(
+  userId: string,
+  credits: number,
+  counterAccount: LedgerSystemAccount
+): LedgerEntryInput[] {
+  return [
+    { account: "user_credits", userId, unit: "credits", amount: credits },
+    { account: counterAccount, unit: "credits", amount: -credits },
+  ];
+}
+
+/** Card-paid credits: provider money becomes sales revenue and credits are issued. */
+export function cardCreditPurchaseEntries(
+  userId: string,
+  amountCents: number,
+  credits: number
+): LedgerEntryInput[] {
+  return [
+    { account: "payment_clearing", unit: "cents", amount: -amountCents },
+    { account: "credit_sales_revenue", unit: "cents", amount: amountCents },
+    ...creditEntries(userId, credits, "credit_issuance"),
+  ];
+}
+
+/**
+ * Drops zero legs and checks the rest net to zero per unit and name an owner
+ * exactly when the account is a user account. Throws on anything else.
+ */
+export function validateLedgerEntries(entries: LedgerEntryInput[]) {
+  const legs = entries.filter((entry) => entry.amount !== 0);
+  const totals = new Map<LedgerUnit, number>();
+
+  for (const entry of legs) {
+    if (!Number.isInteger(entry.amount)) {
+      throw new Error(`Ledger amounts must be whole ${entry.unit}.`);
+    }
+    if (USER_ACCOUNTS.has(entry.account) !== Boolean(entry.userId)) {
+      throw new Error(`Ledger account ${entry.account} has the wrong owner.`);
+    }
+    totals.set(entry.unit, (totals.get(entry.unit) || 0) + entry.amount);
+  }
+
+  for (const [unit, total] of totals) {
+    if (total !== 0) {
+      throw new Error(`Ledger transaction is not balanced in ${unit} (off by ${total}).`);
+    }
+  }
+
+  return legs;
+}
+
+/**
+ * Post a balanced transaction. Returns posted: false when the idempotency key
+ * was already used (or every leg was zero). The database re-checks the
+ * balance when the entries commit.
+ */
+export async function postLedgerTransaction(
+  supabase: SupabaseClient,
+  input: LedgerTransactionInput
+): Promise<LedgerPostResult> {
+  const legs = validateLedgerEntries(input.entries);
+  if (legs.length === 0) {
+    return { posted: false, transactionId: null };
+  }
+
+  const { data: transaction, error: transactionError } = await supabase
+    .from("ledger_transactions")
+    .insert({
+      kind: input.kind,
+      user_id: input.userId,
+      idempotency_key: input.idempotencyKey || `${input.kind}:${randomUUID()}`,
+      description: input.description || null,
+      metadata: input.metadata || {},
+    })
+    .select("id")
+    .single<{ id: string }>();
+
+  if (transactionError) {
+    if (transactionError.code === "23505") {
+      return { posted: false, transactionId: null };
+    }
+    throw transactionError;
+  }
+
+  const { error: entriesError } = await supabase.from("ledger_entries").insert(
+    legs.map((entry) => ({
+      transaction_id: transaction.id,
+      account: entry.account,
+      user_id: entry.userId || null,
+      unit: entry.unit,
+      amount: entry.amount,
+    }))
+  );
+
+  if (entriesError) {
+    // Free the idempotency key so a retry can post the whole transaction.
+    await supabase.from("ledger_transactions").delete().eq("id", transaction.id);
+    throw entriesError;
+  }
+
+  return { posted: true, transactionId: transaction.id };
+}
+
+/**
+ * Posting never blocks the payment or booking that triggered it; a missed
+ * posting surfaces as drift in the nightly reconciliation.
+ */
+export async function postLedgerTransactionSafely(
+  supabase: SupabaseClient,
+  input: LedgerTransactionInput
+): Promise<LedgerPostResult> {
+  try {
+    return await postLedgerTransaction(supabase, input);
+  } catch (error) {
+    console.warn(`[ledger] Failed to post ${input.kind} for ${input.userId}:`, error);
+    return { posted: false, transactionId: null };
+  }
+}
+
+/** Wallet and credit balances derived from the user's ledger entries. */
+export async function getLedgerBalances(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<LedgerBalances> {
+  const { data, error } = await supabase
+    .from("ledger_account_balances")
+    .select("account, balance")
+    .eq("user_id", userId);
+
+  if (error) throw error;
+
+  const balances: LedgerBalances = { walletCents: 0, credits: 0 };
+  for (const row of (data || []) as Array<{ account: string; balance: number | string }>) {
+    if (row.account === "user_wallet") balances.walletCents = Number(row.balance);
+    if (row.account === "user_credits") balances.credits = Number(row.balance);
+  }
+  return balances;
+}
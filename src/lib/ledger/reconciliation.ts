@@ -0,0 +1,215 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getAvailableCredits } from "@/lib/credits/actions";
+
+export type LedgerDriftSource = "wallet_balance" | "wallet_transactions" | "credits";
+
+export type LedgerDrift = {
+  userId: string;
+  source: LedgerDriftSource;
+  ledgerValue: number;
+  recordedValue: number;
+  difference: number;
+};
+
+export type LedgerReconciliationResult = {
+  runId: string;
+  usersChecked: number;
+  drift: LedgerDrift[];
+};
+
+export type LedgerReconciliationDependencies = {
+  now?: Date;
+  pageSize?: number;
+};
+
+const DEFAULT_PAGE_SIZE = 1000;
+
+type BalanceRow = { account: string; user_id: string; balance: number | string };
+type WalletRow = { user_id: string; balance_cents: number | null };
+type CreditsRow = {
+  user_id: string;
+  total: number | null;
+  used: number | null;
+  rollover: number | null;
+};
+type WalletTransactionRow = {
+  balance_before_cents: number | null;
+  balance_after_cents: number | null;
+};
+
+async function fetchAllRows<T>(
+  load: (from: number, to: number) => PromiseLike<{ data: unknown; error: unknown }>,
+  pageSize: number
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await load(from, from + pageSize - 1);
+    if (error) throw error;
+    const page = (data || []) as T[];
+    rows.push(...page);
+    if (page.length < pageSize) return rows;
+  }
+}
+
+/**
+ * Latest balance_after_cents of a row that actually moved the wallet;
+ * tracking-only rows (card payments recorded with an unchanged balance) are
+ * skipped.
+ */
+async function getLatestRecordedWalletBalance(supabase: SupabaseClient, userId: string) {
+  const { data, error } = await supabase
+    .from("wallet_transactions")
+    .select("balance_before_cents, balance_after_cents")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(50);
+
+  if (error) throw error;
+
+  const latest = ((data || []) as WalletTransactionRow[]).find(
+    (row) =>
+      row.balance_after_cents !== null &&
+      row.balance_before_cents !== row.balance_after_cents
+  );
+  return latest ? Number(latest.balance_after_cents) : null;
+}
+
+function compare(
+  drift: LedgerDrift[],
+  userId: string,
+  source: LedgerDriftSource,
+  ledgerValue: number,
+  recordedValue: number
+) {
+  if (ledgerValue !== recordedValue) {
+    drift.push({
+      userId,
+      source,
+      ledgerValue,
+      recordedValue,
+      difference: recordedValue - ledgerValue,
+    });
+  }
+}
+
+/**
+ * Compare every user's ledger-derived balances with the `wallets` and
+ * `credits` rows and the latest wallet_transactions balance, and record each
+ * mismatch as a drift flag on a reconciliation run. Nothing is corrected
+ * here; flags are for an operator to investigate.
+ */
+export async function reconcileLedger(
+  supabase: SupabaseClient,
+  deps: LedgerReconciliationDependencies = {}
+): Promise<LedgerReconciliationResult> {
+  const now = deps.now || new Date();
+  const pageSize = deps.pageSize || DEFAULT_PAGE_SIZE;
+
+  const { data: run, error: runError } = await supabase
+    .from("ledger_reconciliation_runs")
+    .insert({ started_at: now.toISOString(), status: "running" })
+    .select("id")
+    .single<{ id: string }>();
+
+  if (runError) throw runError;
+
+  try {
+    const [balances, wallets, credits] = await Promise.all([
+      fetchAllRows<BalanceRow>(
+        (from, to) =>
+          supabase
+            .from("ledger_account_balances")
+            .select("account, user_id, balance")
+            .in("account", ["user_wallet", "user_credits"])
+            .order("user_id", { ascending: true })
+            .range(from, to),
+        pageSize
+      ),
+      fetchAllRows<WalletRow>(
+        (from, to) =>
+          supabase
+            .from("wallets")
+            .select("user_id, balance_cents")
+            .order("user_id", { ascending: true })
+            .range(from, to),
+        pageSize
+      ),
+      fetchAllRows<CreditsRow>(
+        (from, to) =>
+          supabase
+            .from("credits")
+            .select("user_id, total, used, rollover")
+            .order("user_id", { ascending: true })
+            .range(from, to),
+        pageSize
+      ),
+    ]);
+
+    const ledgerWallet = new Map<string, number>();
+    const ledgerCredits = new Map<string, number>();
+    for (const row of balances) {
+      const target = row.account === "user_wallet" ? ledgerWallet : ledgerCredits;
+      target.set(row.user_id, Number(row.balance));
+    }
+    const walletByUser = new Map(wallets.map((row) => [row.user_id, Number(row.balance_cents || 0)]));
+    const creditsByUser = new Map(credits.map((row) => [row.user_id, getAvailableCredits(row)]));
+
+    const userIds = new Set([
+      ...ledgerWallet.keys(),
+      ...ledgerCredits.keys(),
+      ...walletByUser.keys(),
+      ...creditsByUser.keys(),
+    ]);
+
+    const drift: LedgerDrift[] = [];
+    for (const userId of userIds) {
+      const ledgerWalletCents = ledgerWallet.get(userId) || 0;
+      compare(drift, userId, "wallet_balance", ledgerWalletCents, walletByUser.get(userId) || 0);
+      compare(drift, userId, "credits", ledgerCredits.get(userId) || 0, creditsByUser.get(userId) || 0);
+
+      if (walletByUser.has(userId) || ledgerWallet.has(userId)) {
+        const recorded = await getLatestRecordedWalletBalance(supabase, userId);
+        if (recorded !== null) {
+          compare(drift, userId, "wallet_transactions", ledgerWalletCents, recorded);
+        }
+      }
+    }
+
+    if (drift.length > 0) {
+      const { error: flagError } = await supabase.from("ledger_drift_flags").insert(
+        drift.map((item) => ({
+          run_id: run.id,
+          user_id: item.userId,
+          source: item.source,
+          ledger_value: item.ledgerValue,
+          recorded_value: item.recordedValue,
+          difference: item.difference,
+          created_at: now.toISOString(),
+        }))
+      );
+      if (flagError) throw flagError;
+    }
+
+    await supabase
+      .from("ledger_reconciliation_runs")
+      .update({
+        status: "completed",
+        users_checked: userIds.size,
+        drift_count: drift.length,
+        finished_at: new Date().toISOString(),
+      })
+      .eq("id", run.id);
+
+    return { runId: run.id, usersChecked: userIds.size, drift };
+  } catch (error) {
+    await supabase
+      .from("ledger_reconciliation_runs")
+      .update({
+        status: "failed",
+        error: error instanceof Error ? error.message : "Reconciliation failed",
+        finished_at: new Date().toISOString(),
+      })
+      .eq("id", run.id);
+    throw error;
+  }
+}
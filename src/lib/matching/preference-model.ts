@@ -0,0 +1,353 @@
+/**
+ * Per-user Preference Model
+ *
+ * Learns how much each preference dimension actually matters to a member
+ * from what they did: winks/likes/interest and post-meeting "yes" answers
+ * are positive feedback, rejections and post-meeting "no" answers are
+ * negative. A dimension whose score separates positives from negatives is
+ * weighted up for that member; one they ignore is weighted down.
+ *
+ * The result is a set of weight overrides for `scoreMatch`, so learned
+ * weights flow through the same engine as the defaults.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { resolveGeoPoint, type GeoPoint } from "@/lib/geo/geocode";
+import { MATCH_PROFILE_COLUMNS } from "./reciprocal";
+import {
+  MATCH_DIMENSION_WEIGHTS,
+  PREFERENCE_DIMENSIONS,
+  type PreferenceDimensionId,
+} from "./scoring-config";
+import { scoreMatch, type MatchCandidate, type MatchPreferences } from "./scoring";
+
+// ---------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------
+
+/** How strongly each kind of feedback counts. Meetings say the most. */
+export const FEEDBACK_STRENGTH: Record<PreferenceFeedbackSource, number> = {
+  wink: 1,
+  like: 1,
+  interested: 1.5,
+  rejected: 1,
+  meeting_yes: 3,
+  meeting_no: 3,
+};
+
+/** Feedback loses half its influence after this many days. */
+export const FEEDBACK_HALF_LIFE_DAYS = 90;
+
+/**
+ * Evidence needed (in feedback-strength units, per side) before a
+ * dimension's weight moves all the way; less evidence moves it less.
+ */
+export const FULL_CONFIDENCE_EVIDENCE = 10;
+
+/** Multiplier change per unit of separation at full confidence. */
+export const LEARNING_RATE = 1.5;
+
+/** Learned weights stay within this factor of the default weight. */
+export const MIN_WEIGHT_MULTIPLIER = 0.25;
+export const MAX_WEIGHT_MULTIPLIER = 2.5;
+
+/** Most recent events used to build a model. */
+export const MAX_FEEDBACK_EVENTS = 500;
+
+const POSITIVE_ACTIVITY_TYPES = ["wink", "like", "interested"] as const;
+
+// ---------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------
+
+export type PreferenceFeedbackSource =
+  | "wink"
+  | "like"
+  | "interested"
+  | "rejected"
+  | "meeting_yes"
+  | "meeting_no";
+
+export type PreferenceFeedback = {
+  candidate: MatchCandidate;
+  source: PreferenceFeedbackSource;
+  occurredAt?: string | null;
+};
+
+export type DimensionLearning = {
+  /** Weighted average dimension score among positive / negative feedback */
+  positiveMean: number | null;
+  negativeMean: number | null;
+  /** Default weight × learned multiplier */
+  weight: number;
+  multiplier: number;
+};
+
+export type UserPreferenceModel = {
+  /** Weight overrides to pass to `scoreMatch` */
+  weights: Partial<Record<PreferenceDimensionId, number>>;
+  dimensions: Partial<Record<PreferenceDimensionId, DimensionLearning>>;
+  positives: number;
+  negatives: number;
+};
+
+export type LearnPreferenceOptions = {
+  /** Where the member is, for the distance dimension. */
+  origin?: GeoPoint | null;
+  now?: Date;
+};
+
+// ---------------------------------------------------------------
+// Learning
+// ---------------------------------------------------------------
+
+export function isPositiveFeedback(source: PreferenceFeedbackSource): boolean {
+  return source !== "rejected" && source !== "meeting_no";
+}
+
+function feedbackWeight(feedback: PreferenceFeedback, now: Date): number {
+  const strength = FEEDBACK_STRENGTH[feedback.source];
+  if (!feedback.occurredAt) return strength;
+  const time = new Date(feedback.occurredAt).getTime();
+  if (isNaN(time)) return strength;
+  const ageDays = Math.max(0, (now.getTime() - time) / (1000 * 60 * 60 * 24));
+  return strength * Math.pow(0.5, ageDays / FEEDBACK_HALF_LIFE_DAYS);
+}
+
+/**
+ * Build a member's preference model. Returns empty overrides (default
+ * weights) when there is no usable history.
+ */
+export function learnPreferenceModel(
+  prefs: MatchPreferences | null,
+  feedback: PreferenceFeedback[],
+  options: LearnPreferenceOptions = {}
+): UserPreferenceModel {
+  const now = options.now || new Date();
+  const totals = new Map<
+    PreferenceDimensionId,
+    { positiveSum: number; positiveWeight: number; negativeSum: number; negativeWeight: number }
+  >();
+  let positives = 0;
+  let negatives = 0;
+
+  for (const event of feedback) {
+    const positive = isPositiveFeedback(event.source);
+    if (positive) positives++;
+    else negatives++;
+
+    const weight = feedbackWeight(event, now);
+    const { breakdown } = scoreMatch(prefs, event.candidate, {
+      includeProfileSignals: false,
+      interactions: null,
+      origin: options.origin,
+      now,
+    });
+
+    for (const dimension of breakdown) {
+      const id = dimension.id as PreferenceDimensionId;
+      const entry = totals.get(id) || {
+        positiveSum: 0,
+        positiveWeight: 0,
+        negativeSum: 0,
+        negativeWeight: 0,
+      };
+      if (positive) {
+        entry.positiveSum += dimension.score * weight;
+        entry.positiveWeight += weight;
+      } else {
+        entry.negativeSum += dimension.score * weight;
+        entry.negativeWeight += weight;
+      }
+      totals.set(id, entry);
+    }
+  }
+
+  const weights: UserPreferenceModel["weights"] = {};
+  const dimensions: UserPreferenceModel["dimensions"] = {};
+
+  for (const id of PREFERENCE_DIMENSIONS) {
+    const entry = totals.get(id);
+    if (!entry) continue;
+
+    const positiveMean =
+      entry.positiveWeight > 0 ? entry.positiveSum / entry.positiveWeight : null;
+    const negativeMean =
+      entry.negativeWeight > 0 ? entry.negativeSum / entry.negativeWeight : null;
+
+    // Separation: +1 when every positive matches and every negative misses.
+    // Without negatives, how often positives match the stated preference
+    // still tells us whether the member sticks to it (0.5 = indifferent).
+    const separation =
+      positiveMean !== null && negativeMean !== null
+        ? positiveMean - negativeMean
+        : positiveMean !== null
+          ? positiveMean - 0.5
+          : negativeMean !== null
+            ? 0.5 - negativeMean
+            : 0;
+    const evidence =
+      entry.positiveWeight > 0 && entry.negativeWeight > 0
+        ? Math.min(entry.positiveWeight, entry.negativeWeight)
+        : Math.max(entry.positiveWeight, entry.negativeWeight);
+    const confidence = Math.min(1, evidence / FULL_CONFIDENCE_EVIDENCE);
+
+    const multiplier = Math.min(
+      MAX_WEIGHT_MULTIPLIER,
+      Math.max(MIN_WEIGHT_MULTIPLIER, 1 + separation * LEARNING_RATE * confidence)
+    );
+    const weight = Math.round(MATCH_DIMENSION_WEIGHTS[id] * multiplier * 100) / 100;
+
+    weights[id] = weight;
+    dimensions[id] = {
+      positiveMean: positiveMean === null ? null : Math.round(positiveMean * 100) / 100,
+      negativeMean: negativeMean === null ? null : Math.round(negativeMean * 100) / 100,
+      weight,
+      multiplier: Math.round(multiplier * 100) / 100,
+    };
+  }
+
+  return { weights, dimensions, positives, negatives };
+}
+
+// ---------------------------------------------------------------
+// Loading history (server-side)
+// ---------------------------------------------------------------
+
+type ActivityRow = {
+  target_user_id: string;
+  activity_type: string;
+  created_at: string | null;
+};
+
+type MeetingResponseRow = {
+  meeting_id: string;
+  response: string;
+  signed_at: string | null;
+};
+
+type FeedbackRef = {
+  userId: string;
+  source: PreferenceFeedbackSource;
+  occurredAt: string | null;
+};
+
+/**
+ * Load a member's wink/like/reject history and post-meeting answers as
+ * feedback events, most recent first. Errors degrade to an empty history.
+ */
+export async function loadPreferenceFeedback(
+  admin: SupabaseClient,
+  userId: string,
+  limit: number = MAX_FEEDBACK_EVENTS
+): Promise<PreferenceFeedback[]> {
+  const [{ data: activities, error: activityError }, { data: responses, error: responseError }] =
+    await Promise.all([
+      admin
+        .from("user_activities")
+        .select("target_user_id, activity_type, created_at")
+        .eq("user_id", userId)
+        .in("activity_type", [...POSITIVE_ACTIVITY_TYPES, "rejected"])
+        .order("created_at", { ascending: false })
+        .limit(limit),
+      admin
+        .from("meeting_responses")
+        .select("meeting_id, response, signed_at")
+        .eq("user_id", userId)
+        .in("response", ["yes", "no"])
+        .limit(limit),
+    ]);
+
+  if (activityError) {
+    console.warn("Preference model activity lookup warning:", activityError);
+  }
+  if (responseError) {
+    console.warn("Preference model meeting response lookup warning:", responseError);
+  }
+
+  const refs: FeedbackRef[] = ((activities || []) as ActivityRow[])
+    .filter((row) => row.target_user_id && row.target_user_id !== userId)
+    .map((row) => ({
+      userId: row.target_user_id,
+      source: row.activity_type as PreferenceFeedbackSource,
+      occurredAt: row.created_at,
+    }));
+
+  const responseRows = (responses || []) as MeetingResponseRow[];
+  if (responseRows.length > 0) {
+    const { data: participants, error } = await admin
+      .from("meeting_participants")
+      .select("meeting_id, user_id")
+      .in(
+        "meeting_id",
+        responseRows.map((row) => row.meeting_id)
+      )
+      .neq("user_id", userId);
+
+    if (error) {
+      console.warn("Preference model meeting participant lookup warning:", error);
+    }
+
+    const partnerByMeeting = new Map(
+      ((participants || []) as Array<{ meeting_id: string; user_id: string }>).map((row) => [
+        row.meeting_id,
+        row.user_id,
+      ])
+    );
+    for (const row of responseRows) {
+      const partnerId = partnerByMeeting.get(row.meeting_id);
+      if (!partnerId) continue;
+      refs.push({
+        userId: partnerId,
+        source: row.response === "yes" ? "meeting_yes" : "meeting_no",
+        occurredAt: row.signed_at,
+      });
+    }
+  }
+
+  if (refs.length === 0) return [];
+
+  const candidateIds = Array.from(new Set(refs.map((ref) => ref.userId)));
+  const { data: profiles, error: profileError } = await admin
+    .from("user_profiles")
+    .select(MATCH_PROFILE_COLUMNS)
+    .in("user_id", candidateIds);
+
+  if (profileError) {
+    console.warn("Preference model profile lookup warning:", profileError);
+    return [];
+  }
+
+  const profileById = new Map(
+    ((profiles || []) as Array<MatchCandidate & { user_id: string }>).map((row) => [
+      row.user_id,
+      row,
+    ])
+  );
+
+  return refs
+    .filter((ref) => profileById.has(ref.userId))
+    .map((ref) => ({
+      candidate: profileById.get(ref.userId)!,
+      source: ref.source,
+      occurredAt: ref.occurredAt,
+    }))
+    .sort((a, b) => (b.occurredAt || "").localeCompare(a.occurredAt || ""))
+    .slice(0, limit);
+}
+
+/**
+ * Load history and learn the member's model in one step. `viewer` is the
+ * member's own profile row (for the distance dimension).
+ */
+export async function loadPreferenceModel(
+  admin: SupabaseClient,
+  userId: string,
+  prefs: MatchPreferences | null,
+  viewer: { location?: string | null; latitude?: number | null; longitude?: number | null } | null
+): Promise<UserPreferenceModel> {
+  const feedback = await loadPreferenceFeedback(admin, userId);
+  return learnPreferenceModel(prefs, feedback, {
+    origin: viewer ? resolveGeoPoint(viewer) : null,
+  });
+}
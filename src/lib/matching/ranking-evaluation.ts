@@ -0,0 +1,147 @@
+/**
+ * Offline Ranking Evaluation
+ *
+ * Replays members' feedback history to compare the default weights with
+ * learned per-member weights (`learnPreferenceModel`). For each member the
+ * history is split chronologically: the model learns from the earlier part,
+ * then both weightings rank the later part and we measure how many of the
+ * top k were people the member actually responded to positively.
+ *
+ * Used by `scripts/evaluate_top_picks_ranking.mjs`.
+ */
+
+import type { GeoPoint } from "@/lib/geo/geocode";
+import {
+  isPositiveFeedback,
+  learnPreferenceModel,
+  type PreferenceFeedback,
+} from "./preference-model";
+import { scoreMatch, type MatchPreferences, type MatchScoreOptions } from "./scoring";
+
+export type RankingReplayUser = {
+  userId: string;
+  prefs: MatchPreferences | null;
+  origin?: GeoPoint | null;
+  feedback: PreferenceFeedback[];
+};
+
+export type RankingReplayOptions = {
+  k?: number;
+  /** Share of each member's history (oldest first) used for learning. */
+  trainFraction?: number;
+};
+
+export type RankingReplayUserResult = {
+  userId: string;
+  trainEvents: number;
+  testEvents: number;
+  baselinePrecision: number;
+  learnedPrecision: number;
+};
+
+export type RankingReplayReport = {
+  k: number;
+  usersEvaluated: number;
+  usersSkipped: number;
+  baselinePrecisionAtK: number;
+  learnedPrecisionAtK: number;
+  users: RankingReplayUserResult[];
+};
+
+const DEFAULT_K = 5;
+const DEFAULT_TRAIN_FRACTION = 0.7;
+/** Members need at least this many learning events to be evaluated. */
+const MIN_TRAIN_EVENTS = 5;
+
+/** Fraction of the first k ranked items that are relevant. */
+export function precisionAtK(relevance: boolean[], k: number): number {
+  if (k <= 0) return 0;
+  const top = relevance.slice(0, k);
+  if (top.length === 0) return 0;
+  return top.filter(Boolean).length / top.length;
+}
+
+function rankTestEvents(
+  user: RankingReplayUser,
+  test: PreferenceFeedback[],
+  weights: MatchScoreOptions["weights"],
+  now: Date
+): boolean[] {
+  return test
+    .map((event, index) => ({
+      index,
+      positive: isPositiveFeedback(event.source),
+      score: scoreMatch(user.prefs, event.candidate, {
+        includeProfileSignals: false,
+        interactions: null,
+        origin: user.origin,
+        weights,
+        now,
+      }).percentage,
+    }))
+    // Ties keep history order so both weightings are compared fairly.
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map((entry) => entry.positive);
+}
+
+function average(values: number[]): number {
+  if (values.length === 0) return 0;
+  return Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 1000) / 1000;
+}
+
+/**
+ * Replay each member's history and report mean precision@k for the default
+ * weights and the learned weights. Members whose held-out history has fewer
+ * than k events, or no mix of positive and negative feedback, are skipped.
+ */
+export function replayRankingEvaluation(
+  users: RankingReplayUser[],
+  options: RankingReplayOptions = {}
+): RankingReplayReport {
+  const k = options.k ?? DEFAULT_K;
+  const trainFraction = options.trainFraction ?? DEFAULT_TRAIN_FRACTION;
+  const results: RankingReplayUserResult[] = [];
+  let usersSkipped = 0;
+
+  for (const user of users) {
+    const history = [...user.feedback].sort((a, b) =>
+      (a.occurredAt || "").localeCompare(b.occurredAt || "")
+    );
+    const splitIndex = Math.floor(history.length * trainFraction);
+    const train = history.slice(0, splitIndex);
+    const test = history.slice(splitIndex);
+    const testPositives = test.filter((event) => isPositiveFeedback(event.source)).length;
+
+    if (
+      train.length < MIN_TRAIN_EVENTS ||
+      test.length < k ||
+      testPositives === 0 ||
+      testPositives === test.length
+    ) {
+      usersSkipped++;
+      continue;
+    }
+
+    // Learn as of the split so later events can't leak into the model.
+    const splitAt = train[train.length - 1].occurredAt;
+    const now = splitAt ? new Date(splitAt) : new Date();
+    const model = learnPreferenceModel(user.prefs, train, { origin: user.origin, now });
+
+    results.push({
+      userId: user.userId,
+      trainEvents: train.length,
+      testEvents: test.length,
+      baselinePrecision: precisionAtK(rankTestEvents(user, test, undefined, now), k),
+      learnedPrecision: precisionAtK(rankTestEvents(user, test, model.weights, now), k),
+    });
+  }
+
+  return {
+    k,
+    usersEvaluated: results.length,
+    usersSkipped,
+    baselinePrecisionAtK: average(results.map((result) => result.baselinePrecision)),
+    learnedPrecisionAtK: average(results.map((result) => result.learnedPrecision)),
+    users: results,
+  };
+}
@@ -0,0 +1,89 @@
+/**
+ * Reciprocal Match Scoring (server-side)
+ *
+ * Loads the data needed to score the reverse direction — how well the
+ * viewer fits each candidate's partner preferences. Candidate preferences
+ * never leave the server; callers only receive the resulting percentage.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { resolveGeoPoint, type GeoPoint } from "@/lib/geo/geocode";
+import {
+  scoreReverseMatch,
+  type MatchCandidate,
+  type MatchPreferences,
+} from "./scoring";
+
+/** `user_profiles` columns the scoring engine reads for a candidate. */
+export const MATCH_PROFILE_COLUMNS =
+  "user_id, first_name, date_of_birth, location, latitude, longitude, height_cm, photos, profile_photo_url, education_level, religion, have_children, want_children, smoking_habits, ethnicity, updated_at";
+
+const PREFERENCE_LOOKUP_CHUNK_SIZE = 200;
+
+/**
+ * Return a map of candidate user_id → reverse percentage (or null when the
+ * candidate's preferences can't be evaluated against the viewer).
+ */
+export async function loadReverseMatchPercentages(
+  admin: SupabaseClient,
+  viewerId: string,
+  candidateIds: string[]
+): Promise<Map<string, number | null>> {
+  const result = new Map<string, number | null>();
+  const uniqueIds = Array.from(new Set(candidateIds)).filter((id) => id && id !== viewerId);
+  if (uniqueIds.length === 0) return result;
+
+  const { data: viewerProfile, error: viewerError } = await admin
+    .from("user_profiles")
+    .select(MATCH_PROFILE_COLUMNS)
+    .eq("user_id", viewerId)
+    .maybeSingle();
+
+  if (viewerError) {
+    console.warn("Reciprocal scoring viewer lookup warning:", viewerError);
+  }
+
+  const preferencesByUser = new Map<string, MatchPreferences>();
+  // Candidates' own positions, for their "within N km" preference.
+  const originsByUser = new Map<string, GeoPoint | null>();
+  for (let i = 0; i < uniqueIds.length; i += PREFERENCE_LOOKUP_CHUNK_SIZE) {
+    const chunk = uniqueIds.slice(i, i + PREFERENCE_LOOKUP_CHUNK_SIZE);
+    const [{ data: preferenceRows, error }, { data: locationRows, error: locationError }] =
+      await Promise.all([
+        admin.from("user_preferences").select("*").in("user_id", chunk),
+        admin
+          .from("user_profiles")
+          .select("user_id, location, latitude, longitude")
+          .in("user_id", chunk),
+      ]);
+
+    if (locationError) {
+      console.warn("Reciprocal scoring location lookup warning:", locationError);
+    }
+    for (const row of (locationRows || []) as Array<MatchCandidate & { user_id: string }>) {
+      originsByUser.set(row.user_id, resolveGeoPoint(row));
+    }
+
+    if (error) {
+      console.warn("Reciprocal scoring preference lookup warning:", error);
+      continue;
+    }
+
+    for (const row of (preferenceRows || []) as Array<MatchPreferences & { user_id: string }>) {
+      preferencesByUser.set(row.user_id, row);
+    }
+  }
+
+  for (const candidateId of uniqueIds) {
+    result.set(
+      candidateId,
+      scoreReverseMatch(
+        preferencesByUser.get(candidateId) || null,
+        (viewerProfile as MatchCandidate | null) || null,
+        { origin: originsByUser.get(candidateId) || null }
+      )
+    );
+  }
+
+  return result;
+}
@@ -0,0 +1,138 @@
+/**
+ * Match scoring configuration
+ *
+ * Weights and display bands shared by every surface that shows or ranks
+ * a compatibility score (Top Picks, Discover, Search, daily digests).
+ * Tune the numbers here instead of inside individual scorers.
+ */
+
+export type PreferenceDimensionId =
+  | "location"
+  | "distance"
+  | "age"
+  | "height"
+  | "ethnicity"
+  | "religion"
+  | "education"
+  | "have_children"
+  | "want_children"
+  | "smoking";
+
+export type SignalDimensionId = "profile_quality" | "activity" | "interactions";
+
+export type MatchDimensionId = PreferenceDimensionId | SignalDimensionId;
+
+export const PREFERENCE_DIMENSIONS: readonly PreferenceDimensionId[] = [
+  "location",
+  "distance",
+  "age",
+  "height",
+  "ethnicity",
+  "religion",
+  "education",
+  "have_children",
+  "want_children",
+  "smoking",
+];
+
+export const SIGNAL_DIMENSIONS: readonly SignalDimensionId[] = [
+  "profile_quality",
+  "activity",
+  "interactions",
+];
+
+// Higher = more influence on the final percentage. Only dimensions that
+// apply to a given viewer/candidate pair count towards the total.
+export const MATCH_DIMENSION_WEIGHTS: Record<MatchDimensionId, number> = {
+  location: 20,
+  distance: 15,
+  age: 15,
+  height: 10,
+  ethnicity: 10,
+  religion: 10,
+  education: 8,
+  have_children: 7,
+  want_children: 7,
+  smoking: 5,
+  profile_quality: 6,
+  activity: 4,
+  interactions: 4,
+};
+
+export const MATCH_DIMENSION_LABELS: Record<MatchDimensionId, string> = {
+  location: "Location",
+  distance: "Distance",
+  age: "Age",
+  height: "Height",
+  ethnicity: "Ethnicity",
+  religion: "Religion",
+  education: "Education",
+  have_children: "Has Children",
+  want_children: "Wants Children",
+  smoking: "Smoking",
+  profile_quality: "Profile Quality",
+  activity: "Recently Active",
+  interactions: "Mutual Interest",
+};
+
+/**
+ * A candidate within this many km of the viewer's preferred location counts
+ * as being in it. Beyond the radius the location score decays linearly to 0
+ * at `LOCATION_DECAY_FACTOR` times the radius (same for `partner_max_distance_km`).
+ */
+export const LOCATION_MATCH_RADIUS_KM = 50;
+export const LOCATION_DECAY_FACTOR = 2;
+
+/** Score returned when nothing about the pair can be scored. */
+export const NEUTRAL_MATCH_PERCENTAGE = 50;
+
+/** A dimension counts as "matched" in the breakdown at or above this score. */
+export const MATCHED_DIMENSION_THRESHOLD = 0.5;
+
+export type MatchBand = {
+  min: number;
+  label: string;
+  color: string;
+  bgColor: string;
+};
+
+// Ordered highest first; the first band whose `min` is reached wins.
+export const MATCH_SCORE_BANDS: readonly MatchBand[] = [
+  {
+    min: 85,
+    label: "Excellent Match",
+    color: "text-emerald-700",
+    bgColor: "bg-emerald-50 border-emerald-200",
+  },
+  {
+    min: 70,
+    label: "Great Match",
+    color: "text-blue-700",
+    bgColor: "bg-blue-50 border-blue-200",
+  },
+  {
+    min: 50,
+    label: "Good Match",
+    color: "text-amber-700",
+    bgColor: "bg-amber-50 border-amber-200",
+  },
+  {
+    min: 30,
+    label: "Fair Match",
+    color: "text-orange-700",
+    bgColor: "bg-orange-50 border-orange-200",
+  },
+  {
+    min: 0,
+    label: "Low Match",
+    color: "text-gray-600",
+    bgColor: "bg-gray-50 border-gray-200",
+  },
+];
+
+export const NEUTRAL_MATCH_BAND: MatchBand = {
+  min: 0,
+  label: "New",
+  color: "text-gray-600",
+  bgColor: "bg-gray-100",
+};
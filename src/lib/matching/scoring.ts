@@ -0,0 +1,541 @@
+/**
+ * Match Scoring Engine
+ *
+ * Single source of truth for viewer → candidate compatibility. Top Picks,
+ * Discover and Search all call `scoreMatch`, so the number a card badge
+ * shows is the same number Top Picks ranks by.
+ *
+ * Each dimension has a named scorer that returns a value between 0 and 1,
+ * or `null` when the dimension does not apply (the viewer has no
+ * preference, or the candidate has not filled the field in). Applicable
+ * dimensions are combined using `MATCH_DIMENSION_WEIGHTS`, and the
+ * per-dimension results are returned as an explainable breakdown.
+ */
+
+import {
+  distanceBetweenKm,
+  geocodeLocation,
+  resolveGeoPoint,
+  type GeoPoint,
+} from "@/lib/geo/geocode";
+import {
+  LOCATION_DECAY_FACTOR,
+  LOCATION_MATCH_RADIUS_KM,
+  MATCHED_DIMENSION_THRESHOLD,
+  MATCH_DIMENSION_LABELS,
+  MATCH_DIMENSION_WEIGHTS,
+  MATCH_SCORE_BANDS,
+  NEUTRAL_MATCH_BAND,
+  NEUTRAL_MATCH_PERCENTAGE,
+  PREFERENCE_DIMENSIONS,
+  SIGNAL_DIMENSIONS,
+  type MatchBand,
+  type MatchDimensionId,
+} from "./scoring-config";
+
+// ---------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------
+
+/** Partner preferences as stored in `user_preferences`. */
+export type MatchPreferences = {
+  partner_gender_preference?: string | null;
+  partner_location?: string | null;
+  partner_max_distance_km?: number | null;
+  partner_age_range?: string | null;
+  partner_height_min_cm?: number | null;
+  partner_height_max_cm?: number | null;
+  partner_ethnicity?: string[] | null;
+  partner_religion?: string[] | null;
+  partner_education?: string[] | null;
+  partner_employment?: string | null;
+  partner_have_children?: string | null;
+  partner_want_children?: string | null;
+  partner_smoking?: string | null;
+  partner_drinking?: string | null;
+  partner_diet?: string | null;
+  partner_pets?: string | null;
+};
+
+/**
+ * Candidate fields from `user_profiles` (plus `accounts.last_active_at`).
+ * Accepts the loose shapes the different callers select, e.g.
+ * `have_children` as a boolean or "yes"/"no", `ethnicity` as a string
+ * or an array.
+ */
+export type MatchCandidate = {
+  location?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  date_of_birth?: string | null;
+  height_cm?: number | null;
+  ethnicity?: string | string[] | null;
+  religion?: string | null;
+  education_level?: string | null;
+  have_children?: boolean | string | null;
+  want_children?: string | null;
+  smoking_habits?: string | null;
+  first_name?: string | null;
+  photos?: string[] | null;
+  profile_photo_url?: string | null;
+  updated_at?: string | null;
+  last_active_at?: string | null;
+};
+
+/** Interaction history between the viewer and the candidate. */
+export type MatchInteractionSignals = {
+  /** The viewer already liked/winked/showed interest in the candidate. */
+  viewerLiked: boolean;
+  /** The candidate already liked/winked/showed interest in the viewer. */
+  candidateLiked: boolean;
+};
+
+export type MatchScoreOptions = {
+  /** Include profile quality and recency signals. Defaults to true. */
+  includeProfileSignals?: boolean;
+  /** Interaction history; omit when the caller does not know it. */
+  interactions?: MatchInteractionSignals | null;
+  /** Override weights (e.g. experiments); merged over the defaults. */
+  weights?: Partial<Record<MatchDimensionId, number>>;
+  /** Reference time for age and recency calculations. */
+  now?: Date;
+  /**
+   * Where the person holding `prefs` is, used for `partner_max_distance_km`.
+   * The distance dimension is skipped when unknown.
+   */
+  origin?: GeoPoint | null;
+};
+
+export type MatchDimensionScore = {
+  id: MatchDimensionId;
+  label: string;
+  /** 0–1 score for this dimension */
+  score: number;
+  weight: number;
+  matched: boolean;
+  /** Share of the final percentage this dimension earned (0–100) */
+  contribution: number;
+};
+
+export type MatchScore = {
+  /** Overall compatibility 0–100 */
+  percentage: number;
+  /** Per-dimension breakdown, highest weight first */
+  breakdown: MatchDimensionScore[];
+  /** Human-friendly label */
+  label: string;
+  /** Tailwind color class for the badge */
+  color: string;
+  /** Tailwind bg color class for the badge */
+  bgColor: string;
+};
+
+type ScorerContext = {
+  prefs: MatchPreferences | null;
+  candidate: MatchCandidate;
+  options: MatchScoreOptions;
+  now: Date;
+};
+
+type DimensionScorer = (context: ScorerContext) => number | null;
+
+// ---------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------
+
+/** Parse "20 - 29" style range into [min, max] */
+export function parseAgeRange(range: string | null | undefined): [number, number] | null {
+  if (!range) return null;
+  const m = range.match(/(\d+)\s*[-–]\s*(\d+)/);
+  if (!m) return null;
+  return [parseInt(m[1], 10), parseInt(m[2], 10)];
+}
+
+/** Calculate age from date_of_birth (ISO string) */
+export function calculateAge(dob: string | null | undefined, now: Date = new Date()): number | null {
+  if (!dob) return null;
+  const birth = new Date(dob);
+  if (isNaN(birth.getTime())) return null;
+  let age = now.getFullYear() - birth.getFullYear();
+  const monthDiff = now.getMonth() - birth.getMonth();
+  if (monthDiff < 0 || (monthDiff === 0 && now.getDate() < birth.getDate())) {
+    age--;
+  }
+  return age;
+}
+
+function normalize(value: string | null | undefined): string {
+  return (value || "").toLowerCase().trim();
+}
+
+/** Check if a value is "doesnt_matter" or equivalent (should match anything) */
+function isOpenPreference(value: string | null | undefined): boolean {
+  const v = normalize(value);
+  return !v || v === "doesnt_matter" || v === "any" || v === "no preference" || v === "open";
+}
+
+function meaningfulOptions(values: string[] | null | undefined): string[] {
+  return (values || [])
+    .map(normalize)
+    .filter((v) => v && v !== "i'd rather not say" && !isOpenPreference(v));
+}
+
+function matchesAnyOption(preferred: string[], candidateValues: string[]): boolean {
+  return preferred.some((pref) => candidateValues.some((value) => value.includes(pref)));
+}
+
+function toYesNo(value: boolean | string | null | undefined): "yes" | "no" | null {
+  if (value === true) return "yes";
+  if (value === false) return "no";
+  const v = normalize(value);
+  if (v === "yes" || v === "true") return "yes";
+  if (v === "no" || v === "false") return "no";
+  return null;
+}
+
+/** Map `smoking_habits` values onto the yes/no scale used by `partner_smoking`. */
+export function toSmokerFlag(habit: string | null | undefined): "yes" | "no" | null {
+  const v = normalize(habit);
+  if (!v) return null;
+  if (v.includes("never") || v.includes("trying_to_quit") || v === "no") return "no";
+  if (v.includes("occasionally") || v.includes("regularly") || v === "yes") return "yes";
+  return null;
+}
+
+function daysSince(iso: string | null | undefined, now: Date): number | null {
+  if (!iso) return null;
+  const time = new Date(iso).getTime();
+  if (isNaN(time)) return null;
+  return Math.max(0, (now.getTime() - time) / (1000 * 60 * 60 * 24));
+}
+
+function binary(matched: boolean): number {
+  return matched ? 1 : 0;
+}
+
+/** 1 inside the radius, decaying linearly to 0 at `LOCATION_DECAY_FACTOR` × radius. */
+function distanceDecay(distanceKm: number, radiusKm: number): number {
+  if (distanceKm <= radiusKm) return 1;
+  const falloff = radiusKm * (LOCATION_DECAY_FACTOR - 1);
+  return Math.max(0, 1 - (distanceKm - radiusKm) / falloff);
+}
+
+// ---------------------------------------------------------------
+// Dimension scorers
+// ---------------------------------------------------------------
+
+function scoreLocation({ prefs, candidate }: ScorerContext): number | null {
+  const preferred = normalize(prefs?.partner_location);
+  if (!preferred) return null;
+
+  const area = geocodeLocation(prefs?.partner_location);
+  const point = resolveGeoPoint(candidate);
+  if (area && point) {
+    // A country-level preference ("Nigeria") matches anywhere in that country.
+    if (area.precision !== "country") {
+      return distanceDecay(distanceBetweenKm(area, point) ?? Infinity, LOCATION_MATCH_RADIUS_KM);
+    }
+    const candidateCountry = geocodeLocation(candidate.location)?.countryCode;
+    if (candidateCountry) return binary(candidateCountry === area.countryCode);
+  }
+
+  // Unknown places fall back to comparing the text.
+  const location = normalize(candidate.location);
+  if (!location) return null;
+  return binary(location.includes(preferred) || preferred.includes(location));
+}
+
+function scoreDistance({ prefs, candidate, options }: ScorerContext): number | null {
+  const maxDistance = prefs?.partner_max_distance_km || null;
+  if (!maxDistance || maxDistance <= 0) return null;
+  const distance = distanceBetweenKm(options.origin, resolveGeoPoint(candidate));
+  if (distance === null) return null;
+  return distanceDecay(distance, maxDistance);
+}
+
+function scoreAge({ prefs, candidate, now }: ScorerContext): number | null {
+  const range = parseAgeRange(prefs?.partner_age_range);
+  const age = calculateAge(candidate.date_of_birth, now);
+  if (!range || age === null) return null;
+  return binary(age >= range[0] && age <= range[1]);
+}
+
+function scoreHeight({ prefs, candidate }: ScorerContext): number | null {
+  const min = prefs?.partner_height_min_cm || null;
+  const max = prefs?.partner_height_max_cm || null;
+  const height = candidate.height_cm || null;
+  if ((!min && !max) || !height) return null;
+  return binary((!min || height >= min) && (!max || height <= max));
+}
+
+function scoreEthnicity({ prefs, candidate }: ScorerContext): number | null {
+  const preferred = meaningfulOptions(prefs?.partner_ethnicity);
+  const values = (Array.isArray(candidate.ethnicity)
+    ? candidate.ethnicity
+    : [candidate.ethnicity]
+  )
+    .map(normalize)
+    .filter(Boolean);
+  if (preferred.length === 0 || values.length === 0) return null;
+  return binary(matchesAnyOption(preferred, values));
+}
+
+function scoreReligion({ prefs, candidate }: ScorerContext): number | null {
+  const preferred = meaningfulOptions(prefs?.partner_religion);
+  const religion = normalize(candidate.religion);
+  if (preferred.length === 0 || !religion) return null;
+  return binary(matchesAnyOption(preferred, [religion]));
+}
+
+function scoreEducation({ prefs, candidate }: ScorerContext): number | null {
+  const preferred = meaningfulOptions(prefs?.partner_education);
+  const education = normalize(candidate.education_level);
+  if (preferred.length === 0 || !education) return null;
+  return binary(matchesAnyOption(preferred, [education]));
+}
+
+function scoreHaveChildren({ prefs, candidate }: ScorerContext): number | null {
+  if (isOpenPreference(prefs?.partner_have_children)) return null;
+  const preferred = toYesNo(prefs?.partner_have_children);
+  const actual = toYesNo(candidate.have_children);
+  if (!preferred || !actual) return null;
+  return binary(preferred === actual);
+}
+
+function scoreWantChildren({ prefs, candidate }: ScorerContext): number | null {
+  if (isOpenPreference(prefs?.partner_want_children)) return null;
+  const actual = normalize(candidate.want_children);
+  if (!actual) return null;
+  return binary(normalize(prefs?.partner_want_children) === actual);
+}
+
+function scoreSmoking({ prefs, candidate }: ScorerContext): number | null {
+  if (isOpenPreference(prefs?.partner_smoking)) return null;
+  const preferred = toYesNo(prefs?.partner_smoking);
+  const actual = toSmokerFlag(candidate.smoking_habits);
+  if (!preferred || !actual) return null;
+  return binary(preferred === actual);
+}
+
+function scoreProfileQuality({ candidate, options }: ScorerContext): number | null {
+  if (options.includeProfileSignals === false) return null;
+
+  const photoCount =
+    (candidate.photos?.length || 0) + (candidate.profile_photo_url ? 1 : 0);
+  const filledFields = [
+    candidate.first_name,
+    candidate.date_of_birth,
+    candidate.location,
+    candidate.height_cm,
+    candidate.education_level,
+    candidate.religion,
+    candidate.smoking_habits,
+    candidate.want_children,
+  ].filter((value) => value !== null && value !== undefined && value !== "").length;
+
+  // Photos (up to 5) and filled-in details (8 fields) count equally.
+  return (Math.min(photoCount, 5) / 5) * 0.5 + (filledFields / 8) * 0.5;
+}
+
+function scoreActivity({ candidate, options, now }: ScorerContext): number | null {
+  if (options.includeProfileSignals === false) return null;
+
+  const lastSeen = daysSince(candidate.last_active_at, now);
+  const lastUpdate = daysSince(candidate.updated_at, now);
+  if (lastSeen === null && lastUpdate === null) return null;
+
+  const seenScore =
+    lastSeen === null ? 0 : lastSeen <= 1 ? 1 : lastSeen <= 7 ? 0.66 : lastSeen <= 30 ? 0.33 : 0;
+  const updateScore =
+    lastUpdate === null
+      ? 0
+      : lastUpdate <= 7
+        ? 1
+        : lastUpdate <= 30
+          ? 0.5
+          : lastUpdate <= 90
+            ? 0.25
+            : 0;
+
+  return Math.max(seenScore, updateScore);
+}
+
+function scoreInteractions({ options }: ScorerContext): number | null {
+  const interactions = options.interactions;
+  if (!interactions) return null;
+  if (interactions.candidateLiked) return 1;
+  if (interactions.viewerLiked) return 0.75;
+  return 0.5;
+}
+
+export const MATCH_DIMENSION_SCORERS: Record<MatchDimensionId, DimensionScorer> = {
+  location: scoreLocation,
+  distance: scoreDistance,
+  age: scoreAge,
+  height: scoreHeight,
+  ethnicity: scoreEthnicity,
+  religion: scoreReligion,
+  education: scoreEducation,
+  have_children: scoreHaveChildren,
+  want_children: scoreWantChildren,
+  smoking: scoreSmoking,
+  profile_quality: scoreProfileQuality,
+  activity: scoreActivity,
+  interactions: scoreInteractions,
+};
+
+// ---------------------------------------------------------------
+// Engine
+// ---------------------------------------------------------------
+
+const PREFERENCE_DIMENSION_SET = new Set<MatchDimensionId>(PREFERENCE_DIMENSIONS);
+
+/** Resolve the badge label/colours for a percentage. */
+export function getMatchBand(percentage: number): MatchBand {
+  return (
+    MATCH_SCORE_BANDS.find((band) => percentage >= band.min) ||
+    MATCH_SCORE_BANDS[MATCH_SCORE_BANDS.length - 1]
+  );
+}
+
+/**
+ * Score how well `candidate` fits the viewer's preferences.
+ *
+ * Only applicable dimensions are weighted. When no preference dimension
+ * applies (the viewer hasn't set preferences, or the candidate's profile is
+ * empty) a neutral 50% "New" result is returned.
+ */
+export function scoreMatch(
+  prefs: MatchPreferences | null,
+  candidate: MatchCandidate,
+  options: MatchScoreOptions = {}
+): MatchScore {
+  const context: ScorerContext = {
+    prefs,
+    candidate,
+    options,
+    now: options.now || new Date(),
+  };
+  const weights = { ...MATCH_DIMENSION_WEIGHTS, ...options.weights };
+
+  const scored: Array<{ id: MatchDimensionId; score: number; weight: number }> = [];
+  let hasPreferenceDimension = false;
+
+  for (const id of [...PREFERENCE_DIMENSIONS, ...SIGNAL_DIMENSIONS]) {
+    const weight = weights[id] ?? 0;
+    if (weight <= 0) continue;
+
+    const score = MATCH_DIMENSION_SCORERS[id](context);
+    if (score === null) continue;
+
+    if (PREFERENCE_DIMENSION_SET.has(id)) hasPreferenceDimension = true;
+    scored.push({ id, score: Math.min(Math.max(score, 0), 1), weight });
+  }
+
+  const totalWeight = scored.reduce((sum, dimension) => sum + dimension.weight, 0);
+  const breakdown: MatchDimensionScore[] = scored
+    .map((dimension) => ({
+      id: dimension.id,
+      label: MATCH_DIMENSION_LABELS[dimension.id],
+      score: Math.round(dimension.score * 100) / 100,
+      weight: dimension.weight,
+      matched: dimension.score >= MATCHED_DIMENSION_THRESHOLD,
+      contribution:
+        totalWeight > 0
+          ? Math.round(((dimension.score * dimension.weight) / totalWeight) * 10000) / 100
+          : 0,
+    }))
+    .sort((a, b) => b.weight - a.weight);
+
+  if (!hasPreferenceDimension || totalWeight === 0) {
+    return {
+      percentage: NEUTRAL_MATCH_PERCENTAGE,
+      breakdown,
+      label: NEUTRAL_MATCH_BAND.label,
+      color: NEUTRAL_MATCH_BAND.color,
+      bgColor: NEUTRAL_MATCH_BAND.bgColor,
+    };
+  }
+
+  const earned = scored.reduce((sum, dimension) => sum + dimension.score * dimension.weight, 0);
+  const percentage = Math.round((earned / totalWeight) * 100);
+  const band = getMatchBand(percentage);
+
+  return {
+    percentage,
+    breakdown,
+    label: band.label,
+    color: band.color,
+    bgColor: band.bgColor,
+  };
+}
+
+// ---------------------------------------------------------------
+// Reciprocal scoring
+// ---------------------------------------------------------------
+
+export type ReciprocalMatchScore = MatchScore & {
+  /** How well the candidate fits the viewer's preferences (0–100) */
+  forwardPercentage: number;
+  /** How well the viewer fits the candidate's preferences; null when unknown */
+  reversePercentage: number | null;
+};
+
+/** Harmonic mean of two 0–100 percentages; 0 if either side is 0. */
+export function harmonicMeanPercentage(a: number, b: number): number {
+  if (a <= 0 || b <= 0) return 0;
+  return Math.round((2 * a * b) / (a + b));
+}
+
+/**
+ * Score the reverse direction: the viewer as a candidate against the other
+ * person's preferences. Only preference dimensions count (profile signals
+ * and interactions are already part of the forward score). Returns null
+ * when none of the candidate's preferences can be evaluated.
+ */
+export function scoreReverseMatch(
+  candidatePrefs: MatchPreferences | null,
+  viewerProfile: MatchCandidate | null,
+  options: Pick<MatchScoreOptions, "weights" | "now" | "origin"> = {}
+): number | null {
+  if (!candidatePrefs || !viewerProfile) return null;
+
+  const reverse = scoreMatch(candidatePrefs, viewerProfile, {
+    ...options,
+    includeProfileSignals: false,
+    interactions: null,
+  });
+
+  return reverse.breakdown.length > 0 ? reverse.percentage : null;
+}
+
+/**
+ * Combine a forward score with the reverse percentage. When the reverse
+ * direction is unknown the forward score is used unchanged, so members who
+ * haven't set preferences aren't penalised.
+ */
+export function combineReciprocalScore(
+  forward: MatchScore,
+  reversePercentage: number | null
+): ReciprocalMatchScore {
+  if (reversePercentage === null) {
+    return {
+      ...forward,
+      forwardPercentage: forward.percentage,
+      reversePercentage: null,
+    };
+  }
+
+  const percentage = harmonicMeanPercentage(forward.percentage, reversePercentage);
+  const band = getMatchBand(percentage);
+
+  return {
+    ...forward,
+    percentage,
+    label: band.label,
+    color: band.color,
+    bgColor: band.bgColor,
+    forwardPercentage: forward.percentage,
+    reversePercentage,
+  };
+}
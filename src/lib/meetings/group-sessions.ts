@@ -0,0 +1,1034 @@
+/**
+ * Hosted Group Sessions
+ *
+ * Speed-dating style `group` meetings. An active host publishes a session
+ * with a capacity and a gender rule; the meeting is confirmed (and its video
+ * link created) through `transitionMeeting` at publication. Members then
+ * register and pay the tier's `join_group` credit cost for a seat, or join
+ * a free waitlist when no seat fits them. A seat given up before
+ * registration closes is refunded and offered to the waitlist in arrival
+ * order; promotion charges the promoted member at that point.
+ *
+ * After the session each participant answers yes/no for every other
+ * participant. A pair that both said yes becomes a pending-agreement match,
+ * exactly like a one-on-one mutual YES.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  consumeCredits,
+  getJoinMeetingCreditCost,
+  refundConsumedCredits,
+} from "@/lib/credits/actions";
+import {
+  ensureRelationshipAgreement,
+  normalizeMatchPair,
+  upsertMatchPendingAgreement,
+} from "@/lib/agreements/pending-match";
+import { evaluateGenderEligibility } from "@/lib/matching/gender-rules";
+import { getMinimumRequestableMeetingStartDate } from "@/lib/meetings/request-availability";
+import { scheduleMeetingNotificationsForMeeting } from "@/lib/meetings/reminders";
+import { deriveWorkflowState } from "@/lib/meetings/state-machine";
+import {
+  transitionMeeting,
+  type MeetingTransitionDependencies,
+} from "@/lib/meetings/transitions";
+
+// ---------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------
+
+export const GROUP_SESSION_MIN_CAPACITY = 4;
+export const GROUP_SESSION_MAX_CAPACITY = 20;
+export const GROUP_SESSION_TITLE_MAX_LENGTH = 80;
+export const GROUP_SESSION_DESCRIPTION_MAX_LENGTH = 1000;
+
+/** Registration (and refundable cancellation) closes this long before the start. */
+export const GROUP_SESSION_REGISTRATION_CUTOFF_HOURS = 2;
+
+// ---------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------
+
+/** `balanced` seats equal numbers of women and men; `open` is first come, first served. */
+export type GroupSessionGenderRule = "open" | "balanced";
+
+export type GroupSessionRegistrationStatus = "registered" | "waitlisted" | "canceled";
+
+export type GroupSession = {
+  meeting_id: string;
+  host_user_id: string;
+  title: string;
+  description: string | null;
+  capacity: number;
+  gender_rule: GroupSessionGenderRule;
+  registration_closes_at: string;
+  created_at: string;
+  updated_at: string;
+};
+
+export type GroupSessionRegistration = {
+  id: string;
+  meeting_id: string;
+  user_id: string;
+  gender: string | null;
+  status: GroupSessionRegistrationStatus;
+  credits_charged: number;
+  registered_at: string;
+  promoted_at: string | null;
+  canceled_at: string | null;
+  refunded_at: string | null;
+};
+
+export type GroupSessionInput = {
+  title: string;
+  description: string | null;
+  capacity: number;
+  genderRule: GroupSessionGenderRule;
+  scheduledAt: string;
+};
+
+export type GroupSessionErrorCode =
+  | "session_not_found"
+  | "session_closed"
+  | "host_cannot_register"
+  | "gender_required"
+  | "insufficient_credits"
+  | "not_registered"
+  | "responses_not_open"
+  | "invalid_responses"
+  | "video_link_failed"
+  | "group_session_failed";
+
+type GroupSessionFailure = {
+  ok: false;
+  code: GroupSessionErrorCode;
+  message: string;
+  status: number;
+};
+
+export type GroupSessionDependencies = MeetingTransitionDependencies & {
+  consumeCreditsFn?: typeof consumeCredits;
+  now?: () => Date;
+};
+
+type SessionMeeting = {
+  id: string;
+  status: string;
+  workflow_state: string | null;
+  scheduled_at: string;
+  host_id: string | null;
+};
+
+// ---------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------
+
+const SESSION_COLUMNS =
+  "meeting_id, host_user_id, title, description, capacity, gender_rule, registration_closes_at, created_at, updated_at";
+
+const REGISTRATION_COLUMNS =
+  "id, meeting_id, user_id, gender, status, credits_charged, registered_at, promoted_at, canceled_at, refunded_at";
+
+const BALANCED_GENDERS = ["female", "male"];
+
+function failure(code: GroupSessionErrorCode, message: string, status: number): GroupSessionFailure {
+  return { ok: false, code, message, status };
+}
+
+function currentTime(deps: GroupSessionDependencies) {
+  return deps.now ? deps.now() : new Date();
+}
+
+function normalizeGender(gender: string | null | undefined) {
+  return (gender || "").trim().toLowerCase();
+}
+
+async function insertNotification(
+  supabase: SupabaseClient,
+  userId: string,
+  payload: {
+    type: string;
+    title: string;
+    message: string;
+    data?: Record<string, unknown>;
+  }
+) {
+  const preferredInsert = await supabase.from("notifications").insert({
+    user_id: userId,
+    type: payload.type,
+    title: payload.title,
+    message: payload.message,
+    data: payload.data || {},
+  });
+
+  if (!preferredInsert.error) {
+    return;
+  }
+
+  await supabase.from("notifications").insert({
+    user_id: userId,
+    notification_type: payload.type,
+    site_enabled: true,
+    push_enabled: true,
+    email_enabled: true,
+  });
+}
+
+function formatSessionDate(value: string) {
+  const date = new Date(value);
+  return `${date.toLocaleDateString()} at ${date.toLocaleTimeString([], {
+    hour: "numeric",
+    minute: "2-digit",
+  })}`;
+}
+
+/** Validates a host's create request; capacity must be even for balanced sessions. */
+export function normalizeGroupSessionInput(
+  body: Record<string, unknown>,
+  now: Date = new Date()
+): { ok: true; value: GroupSessionInput } | { ok: false; message: string } {
+  const title = typeof body.title === "string" ? body.title.trim() : "";
+  if (title.length < 3 || title.length > GROUP_SESSION_TITLE_MAX_LENGTH) {
+    return {
+      ok: false,
+      message: `Title must be between 3 and ${GROUP_SESSION_TITLE_MAX_LENGTH} characters`,
+    };
+  }
+
+  const description =
+    typeof body.description === "string"
+      ? body.description.trim().slice(0, GROUP_SESSION_DESCRIPTION_MAX_LENGTH) || null
+      : null;
+
+  const capacity = Number(body.capacity);
+  if (
+    !Number.isInteger(capacity) ||
+    capacity < GROUP_SESSION_MIN_CAPACITY ||
+    capacity > GROUP_SESSION_MAX_CAPACITY
+  ) {
+    return {
+      ok: false,
+      message: `Capacity must be a whole number between ${GROUP_SESSION_MIN_CAPACITY} and ${GROUP_SESSION_MAX_CAPACITY}`,
+    };
+  }
+
+  const genderRule = body.gender_rule ?? "open";
+  if (genderRule !== "open" && genderRule !== "balanced") {
+    return { ok: false, message: "gender_rule must be 'open' or 'balanced'" };
+  }
+  if (genderRule === "balanced" && capacity % 2 !== 0) {
+    return { ok: false, message: "Balanced sessions need an even capacity" };
+  }
+
+  const scheduledAt = new Date(typeof body.scheduled_at === "string" ? body.scheduled_at : "");
+  if (Number.isNaN(scheduledAt.getTime())) {
+    return { ok: false, message: "scheduled_at must be a valid date" };
+  }
+  if (scheduledAt < getMinimumRequestableMeetingStartDate(now)) {
+    return { ok: false, message: "Group sessions must be scheduled at least 48 hours ahead" };
+  }
+
+  return {
+    ok: true,
+    value: {
+      title,
+      description,
+      capacity,
+      genderRule,
+      scheduledAt: scheduledAt.toISOString(),
+    },
+  };
+}
+
+/**
+ * Whether a member of `gender` gets a seat or a waitlist place, given the
+ * registrations already holding seats. Balanced sessions cap each of
+ * women and men at half the capacity.
+ */
+export function resolveGroupSeat(params: {
+  capacity: number;
+  genderRule: GroupSessionGenderRule;
+  seated: { gender: string | null }[];
+  gender: string | null | undefined;
+}): "registered" | "waitlisted" {
+  if (params.seated.length >= params.capacity) {
+    return "waitlisted";
+  }
+
+  if (params.genderRule === "balanced") {
+    const gender = normalizeGender(params.gender);
+    const sameGender = params.seated.filter(
+      (registration) => normalizeGender(registration.gender) === gender
+    ).length;
+    return sameGender >= params.capacity / 2 ? "waitlisted" : "registered";
+  }
+
+  return "registered";
+}
+
+export async function getGroupSession(
+  supabase: SupabaseClient,
+  meetingId: string
+): Promise<GroupSession | null> {
+  const { data } = await supabase
+    .from("group_sessions")
+    .select(SESSION_COLUMNS)
+    .eq("meeting_id", meetingId)
+    .maybeSingle();
+
+  return (data as GroupSession | null) || null;
+}
+
+export async function getGroupSessionRegistrations(
+  supabase: SupabaseClient,
+  meetingId: string
+): Promise<GroupSessionRegistration[]> {
+  const { data, error } = await supabase
+    .from("group_session_registrations")
+    .select(REGISTRATION_COLUMNS)
+    .eq("meeting_id", meetingId)
+    .order("registered_at", { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []) as GroupSessionRegistration[];
+}
+
+async function loadSessionMeeting(supabase: SupabaseClient, meetingId: string) {
+  const { data } = await supabase
+    .from("meetings")
+    .select("id, status, workflow_state, scheduled_at, host_id")
+    .eq("id", meetingId)
+    .maybeSingle();
+
+  return (data as SessionMeeting | null) || null;
+}
+
+/** Registration is open on an upcoming confirmed session until its cutoff. */
+function isRegistrationOpen(meeting: SessionMeeting, session: GroupSession, now: Date) {
+  const state = deriveWorkflowState({
+    workflowState: meeting.workflow_state,
+    status: meeting.status,
+  });
+  return state === "confirmed" && now < new Date(session.registration_closes_at);
+}
+
+async function getMemberTierAndGender(supabase: SupabaseClient, userId: string) {
+  const [{ data: account }, { data: profile }] = await Promise.all([
+    supabase.from("accounts").select("tier").eq("id", userId).maybeSingle(),
+    supabase.from("user_profiles").select("gender").eq("user_id", userId).maybeSingle(),
+  ]);
+
+  return {
+    tier: (account?.tier as string | null | undefined) || "basic",
+    gender: normalizeGender(profile?.gender) || null,
+  };
+}
+
+async function chargeSeat(
+  supabase: SupabaseClient,
+  userId: string,
+  tier: string,
+  session: GroupSession,
+  deps: GroupSessionDependencies
+) {
+  const consumeCreditsFn = deps.consumeCreditsFn || consumeCredits;
+  const cost = getJoinMeetingCreditCost(tier, "group");
+  const result = await consumeCreditsFn(supabase, userId, cost, {
+    actionType: "group_session_registration",
+    description: `Registered for group session "${session.title}".`,
+  });
+  return { ...result, cost };
+}
+
+/**
+ * Seats the member (or waitlists them) through `claim_group_session_seat`,
+ * which locks the session so capacity and gender balance hold under
+ * concurrent registrations. With `promote`, only an existing waitlisted
+ * registration is seated. The seat is unpaid (credits_charged 0) until
+ * `markSeatPaid`.
+ */
+async function claimGroupSeat(
+  supabase: SupabaseClient,
+  input: { meetingId: string; userId: string; gender: string | null; now: Date; promote?: boolean }
+) {
+  const { data, error } = await supabase.rpc("claim_group_session_seat", {
+    p_meeting_id: input.meetingId,
+    p_user_id: input.userId,
+    p_gender: input.gender,
+    p_now: input.now.toISOString(),
+    p_promote: Boolean(input.promote),
+  });
+  if (error) throw error;
+
+  const row = Array.isArray(data) ? data[0] : data;
+  if (!row) throw new Error("claim_group_session_seat returned no result");
+  return {
+    claimed: Boolean(row.claimed),
+    registrationId: (row.registration_id as string | null) || null,
+    status: row.registration_status as GroupSessionRegistrationStatus | null,
+  };
+}
+
+/** Records the charge on a claimed seat; false when the seat is gone meanwhile. */
+async function markSeatPaid(supabase: SupabaseClient, registrationId: string, credits: number) {
+  const { data } = await supabase
+    .from("group_session_registrations")
+    .update({ credits_charged: credits })
+    .eq("id", registrationId)
+    .eq("status", "registered")
+    .eq("credits_charged", 0)
+    .select("id")
+    .maybeSingle();
+  return Boolean(data);
+}
+
+/** Gives back a claimed seat the member couldn't pay for. */
+async function releaseUnpaidSeat(supabase: SupabaseClient, registrationId: string, now: Date) {
+  const { error } = await supabase
+    .from("group_session_registrations")
+    .update({ status: "canceled", canceled_at: now.toISOString() })
+    .eq("id", registrationId)
+    .eq("status", "registered")
+    .eq("credits_charged", 0);
+  if (error) {
+    console.error("[meetings/group-sessions] failed to release unpaid seat:", error);
+  }
+}
+
+async function getRegistration(supabase: SupabaseClient, registrationId: string) {
+  const { data } = await supabase
+    .from("group_session_registrations")
+    .select(REGISTRATION_COLUMNS)
+    .eq("id", registrationId)
+    .maybeSingle();
+  return (data as GroupSessionRegistration | null) || null;
+}
+
+/** Adds the member to the meeting itself: participant row and reminders. */
+async function seatParticipant(
+  supabase: SupabaseClient,
+  meeting: SessionMeeting,
+  userId: string,
+  deps: GroupSessionDependencies
+) {
+  const nowIso = currentTime(deps).toISOString();
+  const { error } = await supabase.from("meeting_participants").upsert(
+    {
+      meeting_id: meeting.id,
+      user_id: userId,
+      role: "guest",
+      response: "accepted",
+      responded_at: nowIso,
+    },
+    { onConflict: "meeting_id,user_id" }
+  );
+  if (error) {
+    throw error;
+  }
+
+  const scheduleMeetingNotificationsFn =
+    deps.scheduleMeetingNotificationsFn || scheduleMeetingNotificationsForMeeting;
+  try {
+    await scheduleMeetingNotificationsFn(supabase, meeting.id, meeting.scheduled_at);
+  } catch (reminderError) {
+    console.error("[meetings/group-sessions] reminder scheduling failed:", reminderError);
+  }
+}
+
+async function unseatParticipant(supabase: SupabaseClient, meetingId: string, userId: string) {
+  await supabase
+    .from("meeting_participants")
+    .delete()
+    .eq("meeting_id", meetingId)
+    .eq("user_id", userId);
+
+  await supabase
+    .from("meeting_notifications")
+    .delete()
+    .eq("meeting_id", meetingId)
+    .eq("user_id", userId)
+    .eq("email_sent", false);
+}
+
+// ---------------------------------------------------------------
+// Publish
+// ---------------------------------------------------------------
+
+/**
+ * Creates the `group` meeting and its session, then confirms it so the video
+ * link exists before anyone registers. A failed confirmation removes the
+ * meeting again.
+ */
+export async function createGroupSession(
+  supabase: SupabaseClient,
+  input: { hostUserId: string; hostProfileId: string; session: GroupSessionInput },
+  deps: GroupSessionDependencies = {}
+): Promise<{ ok: true; session: GroupSession } | GroupSessionFailure> {
+  const scheduledAt = new Date(input.session.scheduledAt);
+  const registrationClosesAt = new Date(
+    scheduledAt.getTime() - GROUP_SESSION_REGISTRATION_CUTOFF_HOURS * 60 * 60 * 1000
+  ).toISOString();
+
+  const { data: meeting, error: meetingError } = await supabase
+    .from("meetings")
+    .insert({
+      host_id: input.hostUserId,
+      type: "group",
+      status: "pending",
+      workflow_state: "requested",
+      scheduled_at: input.session.scheduledAt,
+      fee_cents: 0,
+      charge_status: "pending",
+      cancellation_fee_cents: 0,
+      requester_credit_cost: 0,
+      accepter_credit_cost: 0,
+    })
+    .select("id")
+    .single();
+
+  if (meetingError || !meeting) {
+    console.error("[meetings/group-sessions] meeting insert error:", meetingError);
+    return failure("group_session_failed", "Failed to create the group session", 500);
+  }
+
+  const removeMeeting = () => supabase.from("meetings").delete().eq("id", meeting.id);
+
+  const [{ error: participantError }, { error: hostMeetingError }, sessionInsert] =
+    await Promise.all([
+      supabase.from("meeting_participants").insert({
+        meeting_id: meeting.id,
+        user_id: input.hostUserId,
+        role: "host",
+        response: "accepted",
+        responded_at: currentTime(deps).toISOString(),
+      }),
+      supabase.from("host_meetings").insert({
+        host_id: input.hostProfileId,
+        meeting_id: meeting.id,
+      }),
+      supabase
+        .from("group_sessions")
+        .insert({
+          meeting_id: meeting.id,
+          host_user_id: input.hostUserId,
+          title: input.session.title,
+          description: input.session.description,
+          capacity: input.session.capacity,
+          gender_rule: input.session.genderRule,
+          registration_closes_at: registrationClosesAt,
+        })
+        .select(SESSION_COLUMNS)
+        .single(),
+  ]);
+
+  if (participantError || hostMeetingError || sessionInsert.error || !sessionInsert.data) {
+    console.error(
+      "[meetings/group-sessions] session insert error:",
+      participantError || hostMeetingError || sessionInsert.error
+    );
+    await removeMeeting();
+    return failure("group_session_failed", "Failed to create the group session", 500);
+  }
+
+  const transition = await transitionMeeting(
+    supabase,
+    {
+      meetingId: meeting.id,
+      to: "confirmed",
+      actor: { userId: input.hostUserId, role: "host" },
+      reason: "Group session published",
+    },
+    deps
+  );
+
+  if (!transition.ok) {
+    await removeMeeting();
+    return failure(
+      "video_link_failed",
+      "We couldn't create the video link for this session. Please try again.",
+      502
+    );
+  }
+
+  return { ok: true, session: sessionInsert.data as GroupSession };
+}
+
+// ---------------------------------------------------------------
+// Register
+// ---------------------------------------------------------------
+
+/**
+ * Takes a seat (charging the member's `join_group` cost) or a waitlist
+ * place. Registering again while registered or waitlisted returns the
+ * existing registration.
+ */
+export async function registerForGroupSession(
+  supabase: SupabaseClient,
+  input: { meetingId: string; userId: string },
+  deps: GroupSessionDependencies = {}
+): Promise<
+  | { ok: true; applied: boolean; registration: GroupSessionRegistration }
+  | GroupSessionFailure
+> {
+  const refundConsumedCreditsFn = deps.refundConsumedCreditsFn || refundConsumedCredits;
+  const now = currentTime(deps);
+
+  const [session, meeting] = await Promise.all([
+    getGroupSession(supabase, input.meetingId),
+    loadSessionMeeting(supabase, input.meetingId),
+  ]);
+  if (!session || !meeting) {
+    return failure("session_not_found", "Group session not found", 404);
+  }
+  if (session.host_user_id === input.userId) {
+    return failure("host_cannot_register", "Hosts can't register for their own session", 400);
+  }
+  if (!isRegistrationOpen(meeting, session, now)) {
+    return failure("session_closed", "Registration for this session has closed", 409);
+  }
+
+  const registrations = await getGroupSessionRegistrations(supabase, session.meeting_id);
+  const existing = registrations.find((registration) => registration.user_id === input.userId);
+  if (existing && existing.status !== "canceled") {
+    return { ok: true, applied: false, registration: existing };
+  }
+
+  const { tier, gender } = await getMemberTierAndGender(supabase, input.userId);
+  if (session.gender_rule === "balanced" && !BALANCED_GENDERS.includes(gender || "")) {
+    return failure(
+      "gender_required",
+      "Balanced sessions seat equal numbers of women and men. Add your gender to your profile to register.",
+      400
+    );
+  }
+
+  let claim: Awaited<ReturnType<typeof claimGroupSeat>>;
+  try {
+    claim = await claimGroupSeat(supabase, {
+      meetingId: session.meeting_id,
+      userId: input.userId,
+      gender,
+      now,
+    });
+  } catch (error) {
+    console.error("[meetings/group-sessions] seat claim error:", error);
+    return failure("group_session_failed", "Failed to register for the session", 500);
+  }
+
+  const claimedRegistration = claim.registrationId
+    ? await getRegistration(supabase, claim.registrationId)
+    : null;
+  if (!claimedRegistration) {
+    return failure("group_session_failed", "Failed to register for the session", 500);
+  }
+  if (!claim.claimed) {
+    // A concurrent request from the same member got there first.
+    return { ok: true, applied: false, registration: claimedRegistration };
+  }
+
+  const status = claimedRegistration.status;
+  let registration = claimedRegistration;
+  if (status === "registered") {
+    const charge = await chargeSeat(supabase, input.userId, tier, session, deps);
+    if (!charge.success) {
+      await releaseUnpaidSeat(supabase, registration.id, now);
+      return failure(
+        "insufficient_credits",
+        `You need ${charge.cost} credits to join this session.`,
+        402
+      );
+    }
+
+    if (!(await markSeatPaid(supabase, registration.id, charge.cost))) {
+      await refundConsumedCreditsFn(supabase, input.userId, charge.cost, {
+        actionType: "group_session_registration_failed_refund",
+        description: `Refunded ${charge.cost} credit(s) because the group session registration failed.`,
+      });
+      return failure("group_session_failed", "Failed to register for the session", 409);
+    }
+    registration = { ...registration, credits_charged: charge.cost };
+  }
+
+  if (status === "registered") {
+    await seatParticipant(supabase, meeting, input.userId, deps);
+  }
+
+  await insertNotification(supabase, input.userId, {
+    type: status === "registered" ? "group_session_registered" : "group_session_waitlisted",
+    title: status === "registered" ? "You're In" : "You're on the Waitlist",
+    message:
+      status === "registered"
+        ? `Your seat at "${session.title}" on ${formatSessionDate(meeting.scheduled_at)} is confirmed.`
+        : `"${session.title}" is full for now. We'll save you a seat and let you know if one opens up.`,
+    data: { meeting_id: session.meeting_id, registration_status: status },
+  });
+
+  return { ok: true, applied: true, registration };
+}
+
+/**
+ * Offers open seats to waitlisted members in arrival order. A member who
+ * can no longer pay is dropped from the waitlist and told why.
+ */
+export async function promoteGroupSessionWaitlist(
+  supabase: SupabaseClient,
+  meetingId: string,
+  deps: GroupSessionDependencies = {}
+): Promise<string[]> {
+  const [session, meeting] = await Promise.all([
+    getGroupSession(supabase, meetingId),
+    loadSessionMeeting(supabase, meetingId),
+  ]);
+  if (!session || !meeting || !isRegistrationOpen(meeting, session, currentTime(deps))) {
+    return [];
+  }
+
+  const registrations = await getGroupSessionRegistrations(supabase, meetingId);
+  const seated = registrations.filter((registration) => registration.status === "registered");
+  const promoted: string[] = [];
+
+  for (const candidate of registrations.filter((entry) => entry.status === "waitlisted")) {
+    if (seated.length >= session.capacity) break;
+
+    const seat = resolveGroupSeat({
+      capacity: session.capacity,
+      genderRule: session.gender_rule,
+      seated,
+      gender: candidate.gender,
+    });
+    if (seat !== "registered") continue;
+
+    const now = currentTime(deps);
+    const claim = await claimGroupSeat(supabase, {
+      meetingId,
+      userId: candidate.user_id,
+      gender: candidate.gender,
+      now,
+      promote: true,
+    });
+    // Someone else promoted, canceled or took the seat meanwhile.
+    if (!claim.claimed) continue;
+
+    const { tier } = await getMemberTierAndGender(supabase, candidate.user_id);
+    const charge = await chargeSeat(supabase, candidate.user_id, tier, session, deps);
+
+    if (!charge.success) {
+      await releaseUnpaidSeat(supabase, candidate.id, now);
+      await insertNotification(supabase, candidate.user_id, {
+        type: "group_session_waitlist_expired",
+        title: "Waitlist Seat Released",
+        message: `A seat opened at "${session.title}", but you need ${charge.cost} credits to take it. Top up and register again if there's still room.`,
+        data: { meeting_id: meetingId },
+      });
+      continue;
+    }
+
+    if (!(await markSeatPaid(supabase, candidate.id, charge.cost))) {
+      const refundConsumedCreditsFn = deps.refundConsumedCreditsFn || refundConsumedCredits;
+      await refundConsumedCreditsFn(supabase, candidate.user_id, charge.cost, {
+        actionType: "group_session_registration_failed_refund",
+        description: `Refunded ${charge.cost} credit(s) because the waitlist seat was already taken.`,
+      });
+      continue;
+    }
+
+    await seatParticipant(supabase, meeting, candidate.user_id, deps);
+    seated.push({ ...candidate, status: "registered" });
+    promoted.push(candidate.user_id);
+
+    await insertNotification(supabase, candidate.user_id, {
+      type: "group_session_registered",
+      title: "A Seat Opened Up",
+      message: `You're off the waitlist for "${session.title}" on ${formatSessionDate(meeting.scheduled_at)}. ${charge.cost} credits have been used for your seat.`,
+      data: { meeting_id: meetingId, registration_status: "registered" },
+    });
+  }
+
+  return promoted;
+}
+
+// ---------------------------------------------------------------
+// Cancel
+// ---------------------------------------------------------------
+
+/**
+ * Gives up a seat or waitlist place. Seats given up before registration
+ * closes are refunded and offered to the waitlist; later ones are not.
+ */
+export async function cancelGroupSessionRegistration(
+  supabase: SupabaseClient,
+  input: { meetingId: string; userId: string },
+  deps: GroupSessionDependencies = {}
+): Promise<
+  | { ok: true; applied: boolean; refunded: boolean; promotedUserIds: string[] }
+  | GroupSessionFailure
+> {
+  const refundConsumedCreditsFn = deps.refundConsumedCreditsFn || refundConsumedCredits;
+  const now = currentTime(deps);
+
+  const [session, meeting] = await Promise.all([
+    getGroupSession(supabase, input.meetingId),
+    loadSessionMeeting(supabase, input.meetingId),
+  ]);
+  if (!session || !meeting) {
+    return failure("session_not_found", "Group session not found", 404);
+  }
+
+  const { data: registrationRow } = await supabase
+    .from("group_session_registrations")
+    .select(REGISTRATION_COLUMNS)
+    .eq("meeting_id", input.meetingId)
+    .eq("user_id", input.userId)
+    .maybeSingle();
+
+  const registration = (registrationRow as GroupSessionRegistration | null) || null;
+  if (!registration) {
+    return failure("not_registered", "You aren't registered for this session", 404);
+  }
+  if (registration.status === "canceled") {
+    return { ok: true, applied: false, refunded: false, promotedUserIds: [] };
+  }
+  if (new Date(meeting.scheduled_at) <= now) {
+    return failure("session_closed", "This session has already started", 409);
+  }
+
+  const { data: canceled } = await supabase
+    .from("group_session_registrations")
+    .update({ status: "canceled", canceled_at: now.toISOString() })
+    .eq("id", registration.id)
+    .eq("status", registration.status)
+    .select("id")
+    .maybeSingle();
+
+  if (!canceled) {
+    return { ok: true, applied: false, refunded: false, promotedUserIds: [] };
+  }
+
+  if (registration.status === "waitlisted") {
+    return { ok: true, applied: true, refunded: false, promotedUserIds: [] };
+  }
+
+  await unseatParticipant(supabase, input.meetingId, input.userId);
+
+  const beforeCutoff = now < new Date(session.registration_closes_at);
+  let refunded = false;
+  if (beforeCutoff && registration.credits_charged > 0) {
+    await refundConsumedCreditsFn(supabase, input.userId, registration.credits_charged, {
+      actionType: "group_session_cancellation_refund",
+      description: `Canceled registration for group session "${session.title}"; refunded credits.`,
+    });
+    await supabase
+      .from("group_session_registrations")
+      .update({ refunded_at: now.toISOString() })
+      .eq("id", registration.id);
+    refunded = true;
+  }
+
+  const promotedUserIds = beforeCutoff
+    ? await promoteGroupSessionWaitlist(supabase, input.meetingId, deps)
+    : [];
+
+  return { ok: true, applied: true, refunded, promotedUserIds };
+}
+
+// ---------------------------------------------------------------
+// Responses
+// ---------------------------------------------------------------
+
+export type GroupSessionResponseInput = {
+  target_id: string;
+  response: "yes" | "no";
+};
+
+/** Response entries from a request body; the last answer per target wins. */
+export function normalizeGroupSessionResponses(input: unknown): GroupSessionResponseInput[] {
+  if (!Array.isArray(input)) return [];
+
+  const byTarget = new Map<string, GroupSessionResponseInput>();
+  for (const entry of input) {
+    const targetId =
+      entry && typeof entry.target_id === "string" ? entry.target_id.trim() : "";
+    const response =
+      entry && typeof entry.response === "string" ? entry.response.trim().toLowerCase() : "";
+    if (!targetId || (response !== "yes" && response !== "no")) continue;
+    byTarget.set(targetId, { target_id: targetId, response });
+  }
+  return Array.from(byTarget.values());
+}
+
+/**
+ * Records a participant's yes/no answers about the others in a completed
+ * session. Each newly given yes that the other participant already
+ * returned becomes a pending-agreement match.
+ */
+export async function submitGroupSessionResponses(
+  supabase: SupabaseClient,
+  input: { meetingId: string; userId: string; responses: GroupSessionResponseInput[] },
+  deps: GroupSessionDependencies = {}
+): Promise<
+  | { ok: true; matches: { match_id: string; user_id: string }[] }
+  | GroupSessionFailure
+> {
+  const [session, meeting] = await Promise.all([
+    getGroupSession(supabase, input.meetingId),
+    loadSessionMeeting(supabase, input.meetingId),
+  ]);
+  if (!session || !meeting) {
+    return failure("session_not_found", "Group session not found", 404);
+  }
+  if (meeting.status !== "completed") {
+    return failure(
+      "responses_not_open",
+      "Responses open once the host has completed the session",
+      400
+    );
+  }
+
+  const registrations = (await getGroupSessionRegistrations(supabase, input.meetingId)).filter(
+    (registration) => registration.status === "registered"
+  );
+  const responder = registrations.find((registration) => registration.user_id === input.userId);
+  if (!responder) {
+    return failure("not_registered", "Only session participants can respond", 403);
+  }
+
+  const eligibleTargets = new Set(
+    registrations
+      .filter(
+        (registration) =>
+          registration.user_id !== input.userId &&
+          evaluateGenderEligibility({
+            requesterGender: responder.gender,
+            targetGender: registration.gender,
+          }).allowed
+      )
+      .map((registration) => registration.user_id)
+  );
+  if (
+    input.responses.length === 0 ||
+    input.responses.some((entry) => !eligibleTargets.has(entry.target_id))
+  ) {
+    return failure(
+      "invalid_responses",
+      "Respond with yes or no for other participants of this session",
+      400
+    );
+  }
+
+  const { data: previousRows } = await supabase
+    .from("group_session_responses")
+    .select("target_id, response")
+    .eq("meeting_id", input.meetingId)
+    .eq("responder_id", input.userId);
+
+  const previousYes = new Set(
+    (previousRows || [])
+      .filter((row) => row.response === "yes")
+      .map((row) => String(row.target_id))
+  );
+
+  const nowIso = currentTime(deps).toISOString();
+  const { error: upsertError } = await supabase.from("group_session_responses").upsert(
+    input.responses.map((entry) => ({
+      meeting_id: input.meetingId,
+      responder_id: input.userId,
+      target_id: entry.target_id,
+      response: entry.response,
+      updated_at: nowIso,
+    })),
+    { onConflict: "meeting_id,responder_id,target_id" }
+  );
+
+  if (upsertError) {
+    console.error("[meetings/group-sessions] response upsert error:", upsertError);
+    return failure("group_session_failed", "Failed to save your responses", 500);
+  }
+
+  const newYesTargets = input.responses
+    .filter((entry) => entry.response === "yes" && !previousYes.has(entry.target_id))
+    .map((entry) => entry.target_id);
+  if (newYesTargets.length === 0) {
+    return { ok: true, matches: [] };
+  }
+
+  const { data: reciprocalRows } = await supabase
+    .from("group_session_responses")
+    .select("responder_id, response")
+    .eq("meeting_id", input.meetingId)
+    .eq("target_id", input.userId)
+    .in("responder_id", newYesTargets);
+
+  const mutualIds = (reciprocalRows || [])
+    .filter((row) => row.response === "yes")
+    .map((row) => String(row.responder_id));
+  if (mutualIds.length === 0) {
+    return { ok: true, matches: [] };
+  }
+
+  const matchedUserIds = [input.userId, ...mutualIds];
+  const [{ data: profiles }, { data: accounts }] = await Promise.all([
+    supabase
+      .from("user_profiles")
+      .select("user_id, first_name, last_name")
+      .in("user_id", matchedUserIds),
+    supabase.from("accounts").select("id, email, display_name").in("id", matchedUserIds),
+  ]);
+  const nameOf = (userId: string) => {
+    const profile = (profiles || []).find((entry) => entry.user_id === userId);
+    const account = (accounts || []).find((entry) => entry.id === userId);
+    return (
+      [profile?.first_name, profile?.last_name].filter(Boolean).join(" ") ||
+      account?.display_name ||
+      account?.email?.split("@")[0] ||
+      "User"
+    );
+  };
+  const firstNameOf = (userId: string) =>
+    (profiles || []).find((entry) => entry.user_id === userId)?.first_name ||
+    nameOf(userId);
+
+  const matches: { match_id: string; user_id: string }[] = [];
+  for (const partnerId of mutualIds) {
+    const [user1Id, user2Id] = normalizeMatchPair(input.userId, partnerId);
+    const match = await upsertMatchPendingAgreement(supabase, {
+      meetingId: input.meetingId,
+      user1Id,
+      user2Id,
+      matchedAt: nowIso,
+    });
+    const agreement = await ensureRelationshipAgreement(supabase, {
+      matchId: match.id,
+      meetingId: input.meetingId,
+      user1Id,
+      user2Id,
+      user1Name: nameOf(user1Id),
+      user2Name: nameOf(user2Id),
+      meetingDate: meeting.scheduled_at,
+    });
+
+    for (const [recipientId, otherId] of [
+      [input.userId, partnerId],
+      [partnerId, input.userId],
+    ]) {
+      await insertNotification(supabase, recipientId, {
+        type: "match_confirmed_pending_agreement",
+        title: "It's a Match - Sign Agreement",
+        message: `You and ${firstNameOf(otherId)} both said yes after "${session.title}". Sign your relationship agreement to unlock messaging.`,
+        data: {
+          meeting_id: input.meetingId,
+          match_id: match.id,
+          agreement_id: agreement?.id || null,
+          action: "sign_relationship_agreement",
+        },
+      });
+    }
+
+    matches.push({ match_id: match.id, user_id: partnerId });
+  }
+
+  return { ok: true, matches };
+}
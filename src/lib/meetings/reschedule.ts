@@ -0,0 +1,551 @@
+/**
+ * Meeting Reschedule Proposals
+ *
+ * Lets a participant of a confirmed meeting offer up to three new times
+ * from the other participant's `meeting_availability`. The counterpart
+ * accepts one (the meeting moves and its Zoom meeting is updated in place)
+ * or declines (the original time stands); the proposer may withdraw while
+ * the proposal is open. Credits are untouched either way — the booking
+ * carries over as it is.
+ *
+ * The meeting sits in the `reschedule_proposed` workflow state while a
+ * proposal is open; every step goes through `transitionMeeting`, so the
+ * side effects live in `./transition-effects` with the others.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { validateRescheduleConflicts } from "@/lib/calendar/booking-manager";
+import { deriveWorkflowState } from "@/lib/meetings/state-machine";
+import { getMinimumRequestableMeetingStartDate } from "@/lib/meetings/request-availability";
+import { getSafeTimeZone, zonedDateTimeToUtc } from "@/lib/timezones";
+import {
+  transitionMeeting,
+  type MeetingActorRole,
+  type MeetingTransitionDependencies,
+  type RescheduleProposalOutcome,
+} from "@/lib/meetings/transitions";
+
+// ---------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------
+
+export const MAX_RESCHEDULE_SLOTS = 3;
+export const MAX_RESCHEDULE_MESSAGE_LENGTH = 500;
+
+// ---------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------
+
+export type RescheduleProposalSlot = {
+  slot_id: string;
+  scheduled_at: string;
+};
+
+export type RescheduleProposalStatus =
+  | "pending"
+  | "accepted"
+  | "declined"
+  | "withdrawn"
+  | "canceled";
+
+export type MeetingRescheduleProposal = {
+  id: string;
+  meeting_id: string;
+  proposed_by: string;
+  responder_id: string;
+  proposed_slots: RescheduleProposalSlot[];
+  previous_scheduled_at: string;
+  selected_scheduled_at: string | null;
+  message: string | null;
+  status: RescheduleProposalStatus;
+  responded_at: string | null;
+  created_at: string;
+};
+
+export type RescheduleResponseAction = "accept" | "decline" | "withdraw";
+
+export type RescheduleErrorCode =
+  | "meeting_not_found"
+  | "not_a_participant"
+  | "meeting_not_reschedulable"
+  | "invalid_slots"
+  | "booking_conflict"
+  | "reschedule_already_pending"
+  | "proposal_not_found"
+  | "proposal_closed"
+  | "invalid_transition"
+  | "reschedule_failed";
+
+export type RescheduleResult =
+  | { ok: true; applied: boolean; proposal: MeetingRescheduleProposal }
+  | { ok: false; code: RescheduleErrorCode; message: string; status: number };
+
+type MeetingRow = {
+  id: string;
+  type: string | null;
+  status: string;
+  workflow_state: string | null;
+  scheduled_at: string;
+};
+
+type ParticipantRow = {
+  user_id: string;
+  role: string;
+};
+
+// ---------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------
+
+const PROPOSAL_COLUMNS =
+  "id, meeting_id, proposed_by, responder_id, proposed_slots, previous_scheduled_at, selected_scheduled_at, message, status, responded_at, created_at";
+
+const OUTCOME_FOR_ACTION: Record<RescheduleResponseAction, RescheduleProposalOutcome> = {
+  accept: "accepted",
+  decline: "declined",
+  withdraw: "withdrawn",
+};
+
+function failure(code: RescheduleErrorCode, message: string, status: number): RescheduleResult {
+  return { ok: false, code, message, status };
+}
+
+/** Slot ids from a request body: strings only, de-duplicated, order kept. */
+export function normalizeRescheduleSlotIds(input: unknown): string[] {
+  if (!Array.isArray(input)) return [];
+  return Array.from(
+    new Set(
+      input
+        .filter((value): value is string => typeof value === "string")
+        .map((value) => value.trim())
+        .filter(Boolean)
+    )
+  );
+}
+
+async function loadMeetingWithParticipants(supabase: SupabaseClient, meetingId: string) {
+  const [{ data: meeting }, { data: participants }] = await Promise.all([
+    supabase
+      .from("meetings")
+      .select("id, type, status, workflow_state, scheduled_at")
+      .eq("id", meetingId)
+      .maybeSingle(),
+    supabase
+      .from("meeting_participants")
+      .select("user_id, role")
+      .eq("meeting_id", meetingId),
+  ]);
+
+  return {
+    meeting: (meeting as MeetingRow | null) || null,
+    participants: ((participants || []) as ParticipantRow[]).filter(
+      (participant) => participant.role === "host" || participant.role === "guest"
+    ),
+  };
+}
+
+/**
+ * The first booking conflict among the times, for both participants: the
+ * checks POST /api/meetings runs on a new request.
+ */
+async function findRescheduleConflict(
+  supabase: SupabaseClient,
+  meetingId: string,
+  participants: ParticipantRow[],
+  scheduledAtTimes: string[]
+): Promise<RescheduleResult | null> {
+  for (const scheduledAt of scheduledAtTimes) {
+    const conflict = await validateRescheduleConflicts(
+      supabase,
+      meetingId,
+      scheduledAt,
+      participants.map((participant) => ({ userId: participant.user_id }))
+    );
+    if (!conflict.allowed) {
+      return failure(
+        "booking_conflict",
+        conflict.message || "One of you already has a meeting at that time.",
+        conflict.status || 409
+      );
+    }
+  }
+  return null;
+}
+
+/** UTC start of each of the counterpart's slots; unknown or foreign ids are dropped. */
+async function resolveCounterpartSlots(
+  supabase: SupabaseClient,
+  counterpartId: string,
+  slotIds: string[]
+): Promise<RescheduleProposalSlot[]> {
+  const [{ data: slots }, { data: calendarConfig }] = await Promise.all([
+    supabase
+      .from("meeting_availability")
+      .select("id, slot_date, slot_time, scheduled_at_utc")
+      .eq("user_id", counterpartId)
+      .in("id", slotIds),
+    supabase
+      .from("calendar_configurations")
+      .select("timezone")
+      .eq("user_id", counterpartId)
+      .maybeSingle(),
+  ]);
+
+  const timeZone = getSafeTimeZone(calendarConfig?.timezone);
+  const resolved: RescheduleProposalSlot[] = [];
+
+  for (const slotId of slotIds) {
+    const slot = (slots || []).find((entry) => String(entry.id) === slotId);
+    if (!slot) continue;
+
+    const scheduledAt = slot.scheduled_at_utc
+      ? new Date(String(slot.scheduled_at_utc))
+      : zonedDateTimeToUtc(String(slot.slot_date), String(slot.slot_time), timeZone);
+    if (!scheduledAt || Number.isNaN(scheduledAt.getTime())) continue;
+
+    resolved.push({ slot_id: slotId, scheduled_at: scheduledAt.toISOString() });
+  }
+
+  return resolved;
+}
+
+// ---------------------------------------------------------------
+// Reads
+// ---------------------------------------------------------------
+
+/** The open proposal of a meeting, if any. */
+export async function getPendingRescheduleProposal(
+  supabase: SupabaseClient,
+  meetingId: string
+): Promise<MeetingRescheduleProposal | null> {
+  const { data } = await supabase
+    .from("meeting_reschedule_proposals")
+    .select(PROPOSAL_COLUMNS)
+    .eq("meeting_id", meetingId)
+    .eq("status", "pending")
+    .maybeSingle();
+
+  return (data as MeetingRescheduleProposal | null) || null;
+}
+
+// ---------------------------------------------------------------
+// Propose
+// ---------------------------------------------------------------
+
+/**
+ * Offer new times for a confirmed meeting. `slotIds` must be the other
+ * participant's availability slots, at least the booking lead time away.
+ */
+export async function proposeMeetingReschedule(
+  supabase: SupabaseClient,
+  input: {
+    meetingId: string;
+    userId: string;
+    slotIds: string[];
+    message?: string | null;
+  },
+  deps: MeetingTransitionDependencies = {}
+): Promise<RescheduleResult> {
+  const { meeting, participants } = await loadMeetingWithParticipants(supabase, input.meetingId);
+  if (!meeting) {
+    return failure("meeting_not_found", "Meeting not found", 404);
+  }
+
+  // Group sessions keep the time their host published.
+  if (meeting.type === "group") {
+    return failure(
+      "meeting_not_reschedulable",
+      "Group sessions can't be rescheduled by participants",
+      400
+    );
+  }
+
+  const proposer = participants.find((participant) => participant.user_id === input.userId);
+  const counterpart = participants.find((participant) => participant.user_id !== input.userId);
+  if (!proposer || !counterpart) {
+    return failure("not_a_participant", "Only meeting participants can propose a new time", 403);
+  }
+
+  const state = deriveWorkflowState({
+    workflowState: meeting.workflow_state,
+    status: meeting.status,
+  });
+  if (state === "reschedule_proposed") {
+    return failure(
+      "reschedule_already_pending",
+      "A new time has already been proposed for this meeting",
+      409
+    );
+  }
+  if (state !== "confirmed" || new Date(meeting.scheduled_at) <= new Date()) {
+    return failure(
+      "meeting_not_reschedulable",
+      "Only upcoming confirmed meetings can be rescheduled",
+      400
+    );
+  }
+
+  if (input.slotIds.length === 0 || input.slotIds.length > MAX_RESCHEDULE_SLOTS) {
+    return failure(
+      "invalid_slots",
+      `Choose between 1 and ${MAX_RESCHEDULE_SLOTS} alternate times`,
+      400
+    );
+  }
+
+  const minimumStart = getMinimumRequestableMeetingStartDate();
+  const slots = await resolveCounterpartSlots(supabase, counterpart.user_id, input.slotIds);
+  const validSlots = slots.filter(
+    (slot) =>
+      new Date(slot.scheduled_at) >= minimumStart &&
+      new Date(slot.scheduled_at).getTime() !== new Date(meeting.scheduled_at).getTime()
+  );
+  if (validSlots.length !== input.slotIds.length) {
+    return failure(
+      "invalid_slots",
+      "One or more of the chosen times is no longer available. Please pick again.",
+      400
+    );
+  }
+
+  const conflict = await findRescheduleConflict(
+    supabase,
+    meeting.id,
+    [proposer, counterpart],
+    validSlots.map((slot) => slot.scheduled_at)
+  );
+  if (conflict) return conflict;
+
+  const { data: proposal, error: insertError } = await supabase
+    .from("meeting_reschedule_proposals")
+    .insert({
+      meeting_id: meeting.id,
+      proposed_by: proposer.user_id,
+      responder_id: counterpart.user_id,
+      proposed_slots: validSlots,
+      previous_scheduled_at: meeting.scheduled_at,
+      message: input.message?.trim().slice(0, MAX_RESCHEDULE_MESSAGE_LENGTH) || null,
+      status: "pending",
+    })
+    .select(PROPOSAL_COLUMNS)
+    .single();
+
+  if (insertError || !proposal) {
+    if (insertError?.code === "23505") {
+      return failure(
+        "reschedule_already_pending",
+        "A new time has already been proposed for this meeting",
+        409
+      );
+    }
+    console.error("[meetings/reschedule] proposal insert error:", insertError);
+    return failure("reschedule_failed", "Failed to propose a new time", 500);
+  }
+
+  const typedProposal = proposal as MeetingRescheduleProposal;
+  const transition = await transitionMeeting(
+    supabase,
+    {
+      meetingId: meeting.id,
+      to: "reschedule_proposed",
+      from: ["confirmed"],
+      actor: { userId: proposer.user_id, role: proposer.role as MeetingActorRole },
+      reason: "New time proposed",
+      idempotencyKey: `reschedule_proposed:${typedProposal.id}`,
+      details: {
+        reschedule: {
+          proposalId: typedProposal.id,
+          outcome: "proposed",
+          previousScheduledAt: meeting.scheduled_at,
+          proposedTimes: validSlots.map((slot) => slot.scheduled_at),
+        },
+      },
+      metadata: { proposal_id: typedProposal.id },
+    },
+    deps
+  );
+
+  if (!transition.ok || !transition.applied) {
+    await supabase.from("meeting_reschedule_proposals").delete().eq("id", typedProposal.id);
+    return transition.ok
+      ? failure("reschedule_already_pending", "A new time has already been proposed for this meeting", 409)
+      : failure("invalid_transition", transition.message, transition.status);
+  }
+
+  return { ok: true, applied: true, proposal: typedProposal };
+}
+
+// ---------------------------------------------------------------
+// Respond
+// ---------------------------------------------------------------
+
+/**
+ * Accept (with one of the offered slots) or decline a proposal as the
+ * counterpart, or withdraw it as the proposer. Either way the meeting goes
+ * back to `confirmed`; only an accept moves it.
+ */
+export async function respondToMeetingReschedule(
+  supabase: SupabaseClient,
+  input: {
+    proposalId: string;
+    userId: string;
+    action: RescheduleResponseAction;
+    slotId?: string | null;
+  },
+  deps: MeetingTransitionDependencies = {}
+): Promise<RescheduleResult> {
+  const { data: proposalRow } = await supabase
+    .from("meeting_reschedule_proposals")
+    .select(PROPOSAL_COLUMNS)
+    .eq("id", input.proposalId)
+    .maybeSingle();
+
+  const proposal = (proposalRow as MeetingRescheduleProposal | null) || null;
+  const actorIsAllowed =
+    input.action === "withdraw"
+      ? proposal?.proposed_by === input.userId
+      : proposal?.responder_id === input.userId;
+  if (!proposal || !actorIsAllowed) {
+    return failure("proposal_not_found", "Reschedule proposal not found", 404);
+  }
+
+  const outcome = OUTCOME_FOR_ACTION[input.action];
+  if (proposal.status !== "pending") {
+    // A retry of the answer that closed it is a no-op, anything else is late.
+    if (proposal.status === outcome) {
+      return { ok: true, applied: false, proposal };
+    }
+    return failure("proposal_closed", "This reschedule request is no longer open", 409);
+  }
+
+  let scheduledAt: string | undefined;
+  if (input.action === "accept") {
+    const slot = proposal.proposed_slots.find((entry) => entry.slot_id === input.slotId);
+    if (!slot) {
+      return failure("invalid_slots", "Choose one of the proposed times", 400);
+    }
+    if (new Date(slot.scheduled_at) <= new Date()) {
+      return failure("invalid_slots", "That time has already passed", 400);
+    }
+
+    // Either calendar may have filled up since the proposal was made.
+    const { participants } = await loadMeetingWithParticipants(supabase, proposal.meeting_id);
+    const conflict = await findRescheduleConflict(
+      supabase,
+      proposal.meeting_id,
+      participants,
+      [slot.scheduled_at]
+    );
+    if (conflict) return conflict;
+
+    scheduledAt = slot.scheduled_at;
+  }
+
+  const { data: participant } = await supabase
+    .from("meeting_participants")
+    .select("role")
+    .eq("meeting_id", proposal.meeting_id)
+    .eq("user_id", input.userId)
+    .maybeSingle();
+
+  const transition = await transitionMeeting(
+    supabase,
+    {
+      meetingId: proposal.meeting_id,
+      to: "confirmed",
+      from: ["reschedule_proposed"],
+      actor: {
+        userId: input.userId,
+        role: (participant?.role as MeetingActorRole | undefined) || "guest",
+      },
+      reason:
+        outcome === "accepted"
+          ? "New time accepted"
+          : outcome === "declined"
+            ? "New time declined"
+            : "Reschedule request withdrawn",
+      idempotencyKey: `reschedule_${outcome}:${proposal.id}`,
+      updates: scheduledAt ? { scheduled_at: scheduledAt } : undefined,
+      details: {
+        reschedule: {
+          proposalId: proposal.id,
+          outcome,
+          previousScheduledAt: proposal.previous_scheduled_at,
+          scheduledAt,
+        },
+      },
+      metadata: { proposal_id: proposal.id },
+    },
+    deps
+  );
+
+  if (!transition.ok) {
+    return failure(
+      transition.code === "side_effect_failed" ? "reschedule_failed" : "invalid_transition",
+      transition.message,
+      transition.status
+    );
+  }
+
+  if (!transition.applied) {
+    // Another answer got there first; report what actually happened.
+    const { data: latest } = await supabase
+      .from("meeting_reschedule_proposals")
+      .select(PROPOSAL_COLUMNS)
+      .eq("id", proposal.id)
+      .maybeSingle();
+    const latestProposal = (latest as MeetingRescheduleProposal | null) || proposal;
+    return latestProposal.status === outcome
+      ? { ok: true, applied: false, proposal: latestProposal }
+      : failure("proposal_closed", "This reschedule request is no longer open", 409);
+  }
+
+  return {
+    ok: true,
+    applied: true,
+    proposal: {
+      ...proposal,
+      status: outcome as RescheduleProposalStatus,
+      selected_scheduled_at: scheduledAt || null,
+    },
+  };
+}
+
+/**
+ * Close an open proposal because an admin moved the meeting directly.
+ * Returns quietly when the meeting has no open proposal.
+ */
+export async function supersedePendingReschedule(
+  supabase: SupabaseClient,
+  meetingId: string,
+  adminUserId: string,
+  deps: MeetingTransitionDependencies = {}
+) {
+  const proposal = await getPendingRescheduleProposal(supabase, meetingId);
+  if (!proposal) return;
+
+  const transition = await transitionMeeting(
+    supabase,
+    {
+      meetingId,
+      to: "confirmed",
+      from: ["reschedule_proposed"],
+      actor: { userId: adminUserId, role: "admin" },
+      reason: "Rescheduled by admin",
+      idempotencyKey: `reschedule_superseded:${proposal.id}`,
+      details: {
+        reschedule: {
+          proposalId: proposal.id,
+          outcome: "superseded",
+          previousScheduledAt: proposal.previous_scheduled_at,
+        },
+      },
+      metadata: { proposal_id: proposal.id },
+    },
+    deps
+  );
+
+  if (!transition.ok) {
+    console.error("[meetings/reschedule] failed to supersede proposal:", transition);
+  }
+}
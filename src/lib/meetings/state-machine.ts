@@ -2,6 +2,7 @@ export type MeetingWorkflowState =
   | "requested"
   | "accepted"
   | "confirmed"
+  | "reschedule_proposed"
   | "in_progress"
   | "completed"
   | "rated"
@@ -10,7 +11,10 @@ export type MeetingWorkflowState =
 const VALID_TRANSITIONS: Record<MeetingWorkflowState, MeetingWorkflowState[]> = {
   requested: ["accepted", "confirmed", "canceled"],
   accepted: ["confirmed", "canceled"],
-  confirmed: ["in_progress", "completed", "canceled"],
+  confirmed: ["reschedule_proposed", "in_progress", "completed", "canceled"],
+  // A participant asked to move the meeting; it stays bookable at the old
+  // time until the counterpart accepts or declines.
+  reschedule_proposed: ["confirmed", "in_progress", "completed", "canceled"],
   in_progress: ["completed", "canceled"],
   completed: ["rated"],
   rated: [],
@@ -27,6 +31,7 @@ export function normalizeWorkflowState(
       "requested",
       "accepted",
       "confirmed",
+      "reschedule_proposed",
       "in_progress",
       "completed",
       "rated",
@@ -0,0 +1,1257 @@
+/**
+ * Meeting Transition Effects
+ *
+ * The side effects of each workflow transition, keyed by target state and
+ * run by `transitionMeeting` (`./transitions`). Routes decide whether a
+ * transition is allowed (policies, fees, permissions); everything that
+ * follows from it — refunds, starter-trial restores, video rooms, reminders,
+ * notifications, emails and tracking — lives here.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { refundConsumedCredits } from "@/lib/credits/actions";
+import { postLedgerTransactionSafely, walletEntries } from "@/lib/ledger/ledger";
+import {
+  sendCancellationChargeEmail,
+  sendInvestigationNoticeEmail,
+  sendMeetingAcceptedEmail,
+  sendMeetingApprovedEmail,
+  sendMeetingCancelledEmail,
+  sendRawHtmlEmail,
+} from "@/lib/email";
+import type { sendPushNotificationIfAllowed } from "@/lib/onesignal";
+import {
+  getMeetingVideoProviderId,
+  getMeetingVideoRoomId,
+  getVideoProvider,
+} from "@/lib/video/providers";
+import { persistConfirmedMeetingVideoLinkIfMissing } from "@/lib/meetings/video-link";
+import { scheduleMeetingNotificationsForMeeting } from "@/lib/meetings/reminders";
+import { CIO_EVENTS, trackCustomerEventSafely } from "@/lib/customerio";
+import {
+  PRODUCT_ANALYTICS_EVENTS,
+  trackProductEventSafely,
+} from "@/lib/product-analytics";
+import { adminAbsoluteUrl } from "@/lib/admin/path";
+import { formatInTimeZone, getSafeTimeZone } from "@/lib/timezones";
+import type { MeetingWorkflowState } from "@/lib/meetings/state-machine";
+import type {
+  CancellationTrigger,
+  MeetingTransitionContext,
+  MeetingTransitionEffects,
+  MeetingTransitionOutcome,
+} from "@/lib/meetings/transitions";
+
+const SYSTEM_LABEL = "MatchIndeed";
+const ADMIN_LABEL = "MatchIndeed Admin";
+
+type ParticipantIdentity = {
+  userId: string;
+  role: string;
+  email: string | null;
+  name: string;
+};
+
+const CANCELLATION_REFUNDS: Record<
+  CancellationTrigger,
+  { actionType: string; description: string; walletType: string }
+> = {
+  declined: {
+    actionType: "meeting_request_declined_refund",
+    description: "Meeting request declined; refunded requester credits.",
+    walletType: "meeting_cancellation_refund",
+  },
+  canceled: {
+    actionType: "meeting_canceled_refund",
+    description: "Meeting canceled; refunded booking credits.",
+    walletType: "meeting_cancellation_refund",
+  },
+  expired: {
+    actionType: "meeting_request_expired_refund",
+    description:
+      "Meeting request expired after 24 hours without acceptance; refunded requester credits.",
+    walletType: "meeting_cancellation_refund",
+  },
+  admin_canceled: {
+    actionType: "admin_meeting_canceled_refund",
+    description: "Meeting canceled by MatchIndeed admin; refunded booking credits.",
+    walletType: "admin_meeting_cancellation_refund",
+  },
+};
+
+// ---------------------------------------------------------------
+// Shared helpers
+// ---------------------------------------------------------------
+
+async function insertNotification(
+  supabase: SupabaseClient,
+  userId: string,
+  payload: {
+    type: string;
+    title: string;
+    message: string;
+    data?: Record<string, unknown>;
+  }
+) {
+  const preferredInsert = await supabase.from("notifications").insert({
+    user_id: userId,
+    type: payload.type,
+    title: payload.title,
+    message: payload.message,
+    data: payload.data || {},
+  });
+
+  if (!preferredInsert.error) {
+    return;
+  }
+
+  await supabase.from("notifications").insert({
+    user_id: userId,
+    notification_type: payload.type,
+    site_enabled: true,
+    push_enabled: true,
+    email_enabled: true,
+  });
+}
+
+async function sendPush(
+  context: MeetingTransitionContext,
+  options: Parameters<typeof sendPushNotificationIfAllowed>[0]
+) {
+  const sendPushFn =
+    context.deps.sendPushNotificationFn ||
+    (await import("@/lib/onesignal")).sendPushNotificationIfAllowed;
+  return sendPushFn(options);
+}
+
+async function loadParticipantIdentities(
+  context: MeetingTransitionContext
+): Promise<ParticipantIdentity[]> {
+  const participantIds = context.participants.map((participant) => participant.user_id);
+  if (participantIds.length === 0) return [];
+
+  const [{ data: accounts }, { data: profiles }] = await Promise.all([
+    context.supabase
+      .from("accounts")
+      .select("id, email, display_name")
+      .in("id", participantIds),
+    context.supabase
+      .from("user_profiles")
+      .select("user_id, first_name")
+      .in("user_id", participantIds),
+  ]);
+
+  return context.participants.map((participant) => {
+    const account = (accounts || []).find((entry) => entry.id === participant.user_id);
+    const profile = (profiles || []).find((entry) => entry.user_id === participant.user_id);
+    return {
+      userId: participant.user_id,
+      role: participant.role,
+      email: account?.email || null,
+      name:
+        profile?.first_name ||
+        account?.display_name ||
+        account?.email?.split("@")[0] ||
+        "User",
+    };
+  });
+}
+
+function formatMeetingDateTime(value: string) {
+  const date = new Date(value);
+  return `${date.toLocaleDateString()} at ${date.toLocaleTimeString([], {
+    hour: "numeric",
+    minute: "2-digit",
+  })}`;
+}
+
+function formatCredits(amount: number) {
+  return `${amount} credit${amount === 1 ? "" : "s"}`;
+}
+
+function requesterCreditCost(context: MeetingTransitionContext) {
+  return typeof context.meeting.requester_credit_cost === "number"
+    ? context.meeting.requester_credit_cost
+    : 1;
+}
+
+function isGroupMeeting(context: MeetingTransitionContext) {
+  return context.meeting.type === "group";
+}
+
+/**
+ * Returns every unrefunded group session seat and, when `closeWaitlist` is
+ * set, drops the waitlist. `null` when the meeting has no group session
+ * (an ad-hoc group request), so callers fall back to the one-guest refund.
+ */
+async function refundGroupSessionSeats(
+  context: MeetingTransitionContext,
+  refund: { actionType: string; description: string; closeWaitlist: boolean }
+): Promise<string[] | null> {
+  const { supabase, meeting } = context;
+  const { data: session } = await supabase
+    .from("group_sessions")
+    .select("meeting_id")
+    .eq("meeting_id", meeting.id)
+    .maybeSingle();
+  if (!session) {
+    return null;
+  }
+
+  const refundConsumedCreditsFn =
+    context.deps.refundConsumedCreditsFn || refundConsumedCredits;
+  const nowIso = new Date().toISOString();
+  const { data: registrations } = await supabase
+    .from("group_session_registrations")
+    .select("id, user_id, status, credits_charged, refunded_at")
+    .eq("meeting_id", meeting.id);
+
+  const refundedUserIds: string[] = [];
+  for (const registration of registrations || []) {
+    if (
+      registration.status !== "registered" ||
+      registration.refunded_at ||
+      !(registration.credits_charged > 0)
+    ) {
+      continue;
+    }
+
+    // Claim the refund first so a concurrent cancellation can't refund it too.
+    const { data: claimed, error: claimError } = await supabase
+      .from("group_session_registrations")
+      .update({ refunded_at: nowIso })
+      .eq("id", registration.id)
+      .is("refunded_at", null)
+      .select("id");
+    if (claimError) {
+      context.recordError(`refund_group_seat:${registration.user_id}`, claimError);
+      continue;
+    }
+    if (!claimed || claimed.length === 0) {
+      continue;
+    }
+
+    try {
+      await refundConsumedCreditsFn(supabase, registration.user_id, registration.credits_charged, {
+        actionType: refund.actionType,
+        description: refund.description,
+      });
+      refundedUserIds.push(registration.user_id);
+    } catch (error) {
+      // Give the claim back so a retry can refund the seat.
+      await supabase
+        .from("group_session_registrations")
+        .update({ refunded_at: null })
+        .eq("id", registration.id)
+        .eq("refunded_at", nowIso);
+      context.recordError(`refund_group_seat:${registration.user_id}`, error);
+    }
+  }
+
+  if (refund.closeWaitlist) {
+    await supabase
+      .from("group_session_registrations")
+      .update({ status: "canceled", canceled_at: nowIso })
+      .eq("meeting_id", meeting.id)
+      .eq("status", "waitlisted");
+  }
+
+  return refundedUserIds;
+}
+
+// ---------------------------------------------------------------
+// → canceled
+// ---------------------------------------------------------------
+
+async function refundGuestBookingValue(
+  context: MeetingTransitionContext,
+  trigger: CancellationTrigger,
+  guestUserId: string
+) {
+  const { supabase, meeting } = context;
+  const refund = CANCELLATION_REFUNDS[trigger];
+  const refundConsumedCreditsFn =
+    context.deps.refundConsumedCreditsFn || refundConsumedCredits;
+
+  await refundConsumedCreditsFn(supabase, guestUserId, requesterCreditCost(context), {
+    actionType: refund.actionType,
+    description: refund.description,
+  });
+
+  if (meeting.charge_status !== "captured" || !meeting.fee_cents) {
+    return;
+  }
+
+  const { data: wallet } = await supabase
+    .from("wallets")
+    .select("balance_cents")
+    .eq("user_id", guestUserId)
+    .maybeSingle();
+
+  if (!wallet) {
+    return;
+  }
+
+  const balanceBefore = wallet.balance_cents || 0;
+  const balanceAfter = balanceBefore + meeting.fee_cents;
+
+  await supabase
+    .from("wallets")
+    .update({
+      balance_cents: balanceAfter,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("user_id", guestUserId);
+
+  await supabase.from("wallet_transactions").insert({
+    user_id: guestUserId,
+    type: refund.walletType,
+    amount_cents: meeting.fee_cents,
+    description: `Meeting booking refund for canceled meeting ${meeting.id}.`,
+    balance_before_cents: balanceBefore,
+    balance_after_cents: balanceAfter,
+    reference_id: meeting.id,
+  });
+
+  await postLedgerTransactionSafely(supabase, {
+    kind: "refund",
+    userId: guestUserId,
+    idempotencyKey: `meeting_fee_refund:${meeting.id}:${guestUserId}`,
+    description: `Meeting booking refund for canceled meeting ${meeting.id}.`,
+    entries: walletEntries(guestUserId, meeting.fee_cents, "meeting_fee_revenue"),
+  });
+}
+
+/**
+ * Starter-trial slots come back when a request dies before admin approval.
+ * A member who cancels or declines keeps theirs used; admin and system
+ * cancellations restore everyone's.
+ */
+async function restoreStarterTrials(context: MeetingTransitionContext) {
+  if (context.from !== "requested" && context.from !== "accepted") {
+    return [];
+  }
+
+  const restoreStarterTrialMeetingFn =
+    context.deps.restoreStarterTrialMeetingFn ||
+    (async (client: SupabaseClient, userId: string, meetingId: string) => {
+      const starterTrialModule = await import("@/lib/starter-trial");
+      return starterTrialModule.restoreStarterTrialMeeting(client, userId, meetingId);
+    });
+
+  const memberActor = context.actor.role === "host" || context.actor.role === "guest";
+  const restored = await Promise.all(
+    context.participants
+      .filter((participant) => !memberActor || participant.user_id !== context.actor.userId)
+      .map(async (participant) => {
+        try {
+          const result = await restoreStarterTrialMeetingFn(
+            context.supabase,
+            participant.user_id,
+            context.meeting.id
+          );
+          return result?.restored ? participant.user_id : null;
+        } catch (error) {
+          context.recordError(`restore_starter_trial:${participant.user_id}`, error);
+          return null;
+        }
+      })
+  );
+
+  return restored.filter((userId): userId is string => Boolean(userId));
+}
+
+async function settleCancellation(
+  context: MeetingTransitionContext
+): Promise<MeetingTransitionOutcome> {
+  const cancellation = context.details.cancellation;
+  const guest = context.participants.find((participant) => participant.role === "guest");
+
+  if (isGroupMeeting(context)) {
+    const refund = CANCELLATION_REFUNDS[cancellation?.trigger || "canceled"];
+    const refundedUserIds = await refundGroupSessionSeats(context, {
+      actionType: refund.actionType,
+      description: refund.description,
+      closeWaitlist: true,
+    });
+    if (refundedUserIds) {
+      return {
+        bookingValueRefunded: refundedUserIds.length > 0,
+        restoredStarterTrialUserIds: [],
+      };
+    }
+  }
+
+  let bookingValueRefunded = false;
+  if (cancellation?.refundGuest && guest && requesterCreditCost(context) > 0) {
+    try {
+      await refundGuestBookingValue(context, cancellation.trigger, guest.user_id);
+      bookingValueRefunded = true;
+    } catch (error) {
+      context.recordError("refund_guest", error);
+    }
+  }
+
+  const restoredStarterTrialUserIds = await restoreStarterTrials(context);
+  return { bookingValueRefunded, restoredStarterTrialUserIds };
+}
+
+function describeCancellation(
+  context: MeetingTransitionContext,
+  recipient: ParticipantIdentity,
+  actorName: string,
+  outcome: MeetingTransitionOutcome
+) {
+  const trigger = context.details.cancellation?.trigger || "canceled";
+  const feeCredits = context.details.cancellation?.cancellationFeeCredits || 0;
+  const meetingDate = formatMeetingDateTime(context.meeting.scheduled_at);
+  const isActor = recipient.userId === context.actor.userId;
+  const refunded = Boolean(outcome.bookingValueRefunded);
+  const guestRefunded = refunded && recipient.role === "guest";
+
+  switch (trigger) {
+    case "expired":
+      return {
+        type: "meeting_request_expired",
+        title: "Meeting Request Expired",
+        message:
+          "This meeting request was automatically declined after 24 hours because it was not accepted in time.",
+        push: false,
+      };
+    case "admin_canceled":
+      return {
+        type: "meeting_canceled",
+        title: "Meeting canceled by admin",
+        message: `MatchIndeed admin has canceled the video meeting scheduled for ${meetingDate}. Reason: ${context.reason}.${
+          guestRefunded ? " Your booking value has been refunded." : ""
+        }`,
+        push: true,
+      };
+    default:
+      if (isActor) {
+        return {
+          type: "meeting_canceled",
+          title:
+            trigger === "declined" ? "Meeting Request Declined" : "Meeting Cancellation Confirmed",
+          message: `You have ${trigger === "declined" ? "declined" : "canceled"} the video meeting scheduled for ${meetingDate}.${
+            feeCredits > 0
+              ? ` ${formatCredits(feeCredits)} has been charged to your credits balance.`
+              : ""
+          }${
+            guestRefunded
+              ? " Your booking value has been refunded."
+              : refunded
+                ? " The other participant has been refunded."
+                : ""
+          }`,
+          push: false,
+        };
+      }
+      return {
+        type: "meeting_canceled",
+        title: trigger === "declined" ? "Meeting Request Declined" : "Meeting Canceled",
+        message: `${actorName} has ${trigger === "declined" ? "declined" : "canceled"} the video meeting scheduled for ${meetingDate}.${
+          feeCredits > 0 ? ` The cancelling party has been charged ${formatCredits(feeCredits)}.` : ""
+        }${guestRefunded ? " Your booking value has been refunded." : ""}`,
+        push: true,
+      };
+  }
+}
+
+async function notifyCancellation(
+  context: MeetingTransitionContext,
+  outcome: MeetingTransitionOutcome
+) {
+  const cancellation = context.details.cancellation;
+  const feeCredits = cancellation?.cancellationFeeCredits || 0;
+  const sendMeetingCancelledEmailFn =
+    context.deps.sendMeetingCancelledEmailFn || sendMeetingCancelledEmail;
+  const sendCancellationChargeEmailFn =
+    context.deps.sendCancellationChargeEmailFn || sendCancellationChargeEmail;
+
+  const identities = await loadParticipantIdentities(context);
+  const actorIdentity = identities.find((identity) => identity.userId === context.actor.userId);
+  const actorName =
+    context.actor.role === "admin"
+      ? ADMIN_LABEL
+      : context.actor.role === "system"
+        ? SYSTEM_LABEL
+        : actorIdentity?.name || "A participant";
+  const meetingDate = new Date(context.meeting.scheduled_at).toLocaleDateString();
+
+  await Promise.all(
+    identities.map(async (recipient) => {
+      const isActor = recipient.userId === context.actor.userId;
+      const notice = describeCancellation(context, recipient, actorName, outcome);
+      const data = {
+        meeting_id: context.meeting.id,
+        canceled_by: context.actor.userId,
+        canceled_by_role: context.actor.role,
+        reason: context.reason,
+        cancellation_fee_applied: feeCredits > 0,
+        credit_refunded: Boolean(outcome.bookingValueRefunded) && recipient.role === "guest",
+      };
+
+      try {
+        await insertNotification(context.supabase, recipient.userId, {
+          type: notice.type,
+          title: notice.title,
+          message: notice.message,
+          data,
+        });
+
+        if (notice.push) {
+          await sendPush(context, {
+            userId: recipient.userId,
+            type: notice.type,
+            title: notice.title,
+            message: notice.message,
+            url: "/dashboard/meetings?tab=all",
+            data,
+          });
+        }
+
+        if (!recipient.email) return;
+
+        await sendMeetingCancelledEmailFn(
+          recipient.email,
+          {
+            recipientName: recipient.name,
+            meetingDate,
+            cancelledBy: isActor ? "you" : actorName,
+            refundIssued: Boolean(outcome.bookingValueRefunded) && recipient.role === "guest",
+            freePlanRestored: Boolean(
+              outcome.restoredStarterTrialUserIds?.includes(recipient.userId)
+            ),
+            chargeApplied: isActor && feeCredits > 0,
+            ...(cancellation?.trigger === "admin_canceled" && context.reason
+              ? { cancellationReason: context.reason }
+              : {}),
+          },
+          recipient.userId
+        );
+
+        if (isActor && feeCredits > 0) {
+          await sendCancellationChargeEmailFn(
+            recipient.email,
+            {
+              recipientName: recipient.name,
+              meetingDate,
+              meetingRef: context.meeting.id.slice(0, 8),
+              creditAmount: formatCredits(feeCredits),
+              reason: "Meeting cancelled after confirmation",
+            },
+            recipient.userId
+          );
+        }
+      } catch (error) {
+        context.recordError(`notify:${recipient.userId}`, error);
+      }
+    })
+  );
+}
+
+// ---------------------------------------------------------------
+// → accepted
+// ---------------------------------------------------------------
+
+function buildAdminApprovalEmail(adminName: string, meetingId: string, scheduledAt: string) {
+  const meetingDate = new Date(scheduledAt);
+  return `
+    <div style="font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif;background:#f4f6fb;padding:24px;">
+      <div style="max-width:620px;margin:0 auto;background:#ffffff;border-radius:18px;padding:32px;border:1px solid #e5e7eb;">
+        <h1 style="margin:0 0 12px;color:#1f2937;font-size:24px;">Meeting approval required</h1>
+        <p style="margin:0 0 12px;color:#4b5563;line-height:1.6;">Hi ${adminName}, both participants have accepted a MatchIndeed meeting and it is now waiting for admin approval.</p>
+        <div style="background:#eef2ff;border:1px solid #c7d2fe;border-radius:14px;padding:16px;margin:20px 0;">
+          <p style="margin:0 0 8px;color:#1f2937;"><strong>Scheduled date:</strong> ${meetingDate.toLocaleDateString()}</p>
+          <p style="margin:0 0 8px;color:#1f2937;"><strong>Scheduled time:</strong> ${meetingDate.toLocaleTimeString()}</p>
+          <p style="margin:0;color:#1f2937;"><strong>Meeting ID:</strong> ${meetingId}</p>
+        </div>
+        <p style="margin:0 0 24px;color:#4b5563;line-height:1.6;">Approve this meeting to confirm the booking and automatically create the video link for both users.</p>
+        <a href="${adminAbsoluteUrl("/meetings")}" style="display:inline-block;background:#1f419a;color:#ffffff;text-decoration:none;padding:14px 22px;border-radius:10px;font-weight:600;">Open Admin Meetings</a>
+      </div>
+    </div>
+  `.trim();
+}
+
+async function notifyAcceptance(context: MeetingTransitionContext) {
+  const { supabase, meeting } = context;
+  const sendMeetingAcceptedEmailFn =
+    context.deps.sendMeetingAcceptedEmailFn || sendMeetingAcceptedEmail;
+  const sendRawHtmlEmailFn = context.deps.sendRawHtmlEmailFn || sendRawHtmlEmail;
+  const trackCustomerEventFn = context.deps.trackCustomerEventFn || trackCustomerEventSafely;
+  const trackProductEventFn = context.deps.trackProductEventFn || trackProductEventSafely;
+
+  const identities = await loadParticipantIdentities(context);
+  const meetingDate = new Date(meeting.scheduled_at).toLocaleDateString();
+  const meetingTime = new Date(meeting.scheduled_at).toLocaleTimeString([], {
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+  await Promise.all(
+    identities.map(async (recipient) => {
+      const partner = identities.find((identity) => identity.userId !== recipient.userId);
+      const partnerName = partner?.name || "the other participant";
+
+      try {
+        await insertNotification(supabase, recipient.userId, {
+          type: "meeting_accepted",
+          title: "Meeting accepted",
+          message:
+            recipient.role === "guest"
+              ? `${partnerName} accepted your meeting request. MatchIndeed admin will review it next.`
+              : `You and ${partnerName} have both accepted this meeting. MatchIndeed admin will review it next.`,
+          data: {
+            meeting_id: meeting.id,
+            scheduled_at: meeting.scheduled_at,
+          },
+        });
+
+        await sendPush(context, {
+          userId: recipient.userId,
+          type: "meeting_accepted",
+          title: "Video meeting accepted",
+          message:
+            recipient.role === "guest"
+              ? `${partnerName} accepted your request. MatchIndeed will review it next.`
+              : `You and ${partnerName} are all set. MatchIndeed will review the booking next.`,
+          url: "/dashboard/meetings?tab=pending",
+          data: {
+            meeting_id: meeting.id,
+            scheduled_at: meeting.scheduled_at,
+          },
+        });
+
+        if (!recipient.email) return;
+
+        await sendMeetingAcceptedEmailFn(
+          recipient.email,
+          {
+            recipientName: recipient.name,
+            partnerName,
+            meetingDate,
+            meetingTime,
+            meetingTimeZone: meeting.host_timezone || undefined,
+            awaitingAdminApproval: true,
+          },
+          recipient.userId
+        );
+      } catch (error) {
+        context.recordError(`notify:${recipient.userId}`, error);
+      }
+    })
+  );
+
+  try {
+    const { data: adminAccounts } = await supabase
+      .from("accounts")
+      .select("id, email, display_name")
+      .in("role", ["admin", "superadmin"]);
+
+    await Promise.all(
+      (adminAccounts || []).map(async (adminAccount) => {
+        await insertNotification(supabase, adminAccount.id, {
+          type: "meeting_approval_required",
+          title: "Meeting Approval Required",
+          message:
+            "Both participants accepted a meeting request. Please approve it to confirm the booking and create the video link.",
+          data: {
+            meeting_id: meeting.id,
+            scheduled_at: meeting.scheduled_at,
+            host_id: meeting.host_id,
+          },
+        });
+
+        if (!adminAccount.email) return;
+
+        const adminName =
+          adminAccount.display_name || adminAccount.email.split("@")[0] || "Admin";
+        await sendRawHtmlEmailFn(
+          adminAccount.email,
+          "Meeting approval required",
+          buildAdminApprovalEmail(adminName, meeting.id, meeting.scheduled_at)
+        );
+      })
+    );
+  } catch (error) {
+    context.recordError("notify_admins", error);
+  }
+
+  await Promise.allSettled(
+    context.participants.flatMap((participant) => [
+      trackCustomerEventFn(participant.user_id, CIO_EVENTS.DATE_REQUEST_ACCEPTED, {
+        meeting_id: meeting.id,
+        meeting_type: meeting.type || "one_on_one",
+        scheduled_at: meeting.scheduled_at,
+        accepted_by: context.actor.userId,
+        participant_role: participant.role,
+      }),
+      trackProductEventFn(participant.user_id, PRODUCT_ANALYTICS_EVENTS.MEETING_BOOKED, {
+        meeting_id: meeting.id,
+        meeting_type: meeting.type || "one_on_one",
+        scheduled_at: meeting.scheduled_at,
+        accepted_by: context.actor.userId,
+        participant_role: participant.role,
+        workflow_state: "accepted",
+        requires_admin_approval: true,
+      }),
+    ])
+  );
+}
+
+// ---------------------------------------------------------------
+// → confirmed
+// ---------------------------------------------------------------
+
+/** A confirmed meeting must have a live video room; without one the approval is reverted. */
+async function prepareConfirmation(
+  context: MeetingTransitionContext
+): Promise<MeetingTransitionOutcome> {
+  const provider = context.deps.videoProvider || getVideoProvider(undefined, context.deps);
+
+  const identities = await loadParticipantIdentities(context);
+  const host = identities.find((identity) => identity.role === "host");
+  const guest = identities.find((identity) => identity.role === "guest");
+
+  const roomResult = await provider.createRoom({
+    meetingId: context.meeting.id,
+    topic: isGroupMeeting(context)
+      ? `MatchIndeed group session hosted by ${host?.name || "MatchIndeed"}`
+      : `MatchIndeed: ${host?.name || "Host"} & ${guest?.name || "Guest"}`,
+    startTime: context.meeting.scheduled_at,
+    durationMinutes: 30,
+    hostName: host?.name,
+    guestName: guest?.name,
+  });
+
+  if (!roomResult.success || !roomResult.join_url || roomResult.is_fallback) {
+    throw new Error(
+      roomResult.error ||
+        "Unable to generate a live video meeting link. Please verify the video provider integration and try approval again."
+    );
+  }
+
+  try {
+    const videoLink = await persistConfirmedMeetingVideoLinkIfMissing({
+      supabase: context.supabase,
+      meetingId: context.meeting.id,
+      roomResult,
+      zoomFns: context.deps,
+    });
+    return { videoLink };
+  } catch (error) {
+    if (roomResult.room_id) {
+      await provider.deleteRoom(roomResult.room_id).catch((deleteError) => {
+        console.error(
+          "[meetings/transitions] failed to delete video room after persist error:",
+          deleteError
+        );
+      });
+    }
+    throw error;
+  }
+}
+
+async function getUserTimeZone(supabase: SupabaseClient, userId: string) {
+  const { data } = await supabase
+    .from("calendar_configurations")
+    .select("timezone")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  return getSafeTimeZone(data?.timezone);
+}
+
+async function notifyConfirmation(context: MeetingTransitionContext) {
+  const { supabase, meeting } = context;
+  const scheduleMeetingNotificationsFn =
+    context.deps.scheduleMeetingNotificationsFn || scheduleMeetingNotificationsForMeeting;
+  const sendMeetingApprovedEmailFn =
+    context.deps.sendMeetingApprovedEmailFn || sendMeetingApprovedEmail;
+
+  try {
+    await scheduleMeetingNotificationsFn(supabase, meeting.id, meeting.scheduled_at);
+  } catch (error) {
+    context.recordError("schedule_reminders", error);
+  }
+
+  // A group session is confirmed when its host publishes it; members hear
+  // about their seat when they register.
+  if (isGroupMeeting(context)) {
+    const host = context.participants.find((participant) => participant.role === "host");
+    if (host) {
+      await insertNotification(supabase, host.user_id, {
+        type: "meeting_accepted",
+        title: "Group Session Published",
+        message:
+          "Your group session is open for registration. The video link is ready in your appointments.",
+        data: {
+          meeting_id: meeting.id,
+          scheduled_at: meeting.scheduled_at,
+        },
+      }).catch((error) => context.recordError(`notify:${host.user_id}`, error));
+    }
+    return;
+  }
+
+  const identities = (await loadParticipantIdentities(context)).filter(
+    (identity) => identity.role === "host" || identity.role === "guest"
+  );
+  for (const recipient of identities) {
+    const partner = identities.find((identity) => identity.userId !== recipient.userId);
+
+    try {
+      await insertNotification(supabase, recipient.userId, {
+        type: "meeting_accepted",
+        title: "Meeting Approved",
+        message:
+          "Your meeting has been approved by MatchIndeed. The video link is ready in your appointments.",
+        data: {
+          meeting_id: meeting.id,
+          scheduled_at: meeting.scheduled_at,
+        },
+      });
+
+      if (!recipient.email) continue;
+
+      const timeZone = await getUserTimeZone(supabase, recipient.userId);
+      await sendMeetingApprovedEmailFn(
+        recipient.email,
+        {
+          recipientName: recipient.name,
+          partnerName: partner?.name || "Your match",
+          meetingDate: formatInTimeZone(meeting.scheduled_at, timeZone, "en-US", {
+            month: "numeric",
+            day: "numeric",
+            year: "numeric",
+          }),
+          meetingTime: formatInTimeZone(meeting.scheduled_at, timeZone, "en-US", {
+            hour: "numeric",
+            minute: "2-digit",
+          }),
+          meetingTimeZone: timeZone,
+        },
+        recipient.userId
+      );
+    } catch (error) {
+      context.recordError(`notify:${recipient.userId}`, error);
+    }
+  }
+}
+
+// ---------------------------------------------------------------
+// → completed
+// ---------------------------------------------------------------
+
+/** The host's refund decision is paid out before the completion stands. */
+async function prepareCompletion(
+  context: MeetingTransitionContext
+): Promise<MeetingTransitionOutcome> {
+  const completion = context.details.completion;
+  const guest = context.participants.find((participant) => participant.role === "guest");
+  if (completion?.chargeDecision !== "refund" || !guest) {
+    return { refundIssued: false };
+  }
+
+  if (isGroupMeeting(context)) {
+    const refundedUserIds = await refundGroupSessionSeats(context, {
+      actionType: "meeting_finalize_refund",
+      description: "Host finalized group session with refund decision; returned seat credits.",
+      closeWaitlist: false,
+    });
+    if (refundedUserIds) {
+      return { refundIssued: refundedUserIds.length > 0 };
+    }
+  }
+
+  const refundConsumedCreditsFn =
+    context.deps.refundConsumedCreditsFn || refundConsumedCredits;
+  await refundConsumedCreditsFn(context.supabase, guest.user_id, requesterCreditCost(context), {
+    actionType: "meeting_finalize_refund",
+    description: "Host finalized meeting with refund decision; returned requester credits.",
+  });
+
+  return { refundIssued: true };
+}
+
+function buildCompletionMessage(outcome: string, chargeDecision: string) {
+  let message = "";
+
+  switch (outcome) {
+    case "completed":
+      message = "Your video dating meeting has been concluded. ";
+      break;
+    case "no_show":
+      message = "The video dating meeting has been concluded due to a no-show. ";
+      break;
+    case "early_leave":
+      message = "The video dating meeting has been concluded due to an early departure. ";
+      break;
+    case "network_disconnect":
+      message = "The video dating meeting has been concluded due to a network disconnection. ";
+      break;
+  }
+
+  switch (chargeDecision) {
+    case "capture":
+      message += "The meeting charges have been finalized.";
+      break;
+    case "refund":
+      message += "Your credits have been refunded to your account.";
+      break;
+    case "pending_review":
+      message +=
+        "The charges are under review by MatchIndeed. This may take 1-2 business days. You will be notified of the outcome.";
+      break;
+  }
+
+  return message;
+}
+
+async function notifyCompletion(
+  context: MeetingTransitionContext,
+  outcome: MeetingTransitionOutcome
+) {
+  const completion = context.details.completion;
+  if (!completion) return;
+
+  const { supabase, meeting } = context;
+  const sendInvestigationNoticeEmailFn =
+    context.deps.sendInvestigationNoticeEmailFn || sendInvestigationNoticeEmail;
+  const trackCustomerEventFn = context.deps.trackCustomerEventFn || trackCustomerEventSafely;
+
+  const identities = await loadParticipantIdentities(context);
+  const guest = identities.find((identity) => identity.role === "guest");
+  const host = identities.find((identity) => identity.role === "host");
+  const refundIssued = Boolean(outcome.refundIssued);
+
+  if (guest) {
+    await insertNotification(supabase, guest.userId, {
+      type: "meeting_finalized",
+      title: "Meeting Review Complete",
+      message: `Dear ${guest.name}, ${buildCompletionMessage(
+        completion.outcome,
+        completion.chargeDecision
+      )}`,
+      data: {
+        meeting_id: meeting.id,
+        outcome: completion.outcome,
+        fault: completion.fault,
+        charge_decision: completion.chargeDecision,
+        refund_issued: refundIssued,
+      },
+    });
+  }
+
+  if (completion.chargeDecision === "pending_review" && host) {
+    await insertNotification(supabase, host.userId, {
+      type: "meeting_pending_review",
+      title: "Meeting Pending Admin Review",
+      message: `Meeting ${meeting.id} has been flagged for admin review. Fault: ${completion.fault}. Please review within 1-2 business days.`,
+      data: {
+        meeting_id: meeting.id,
+        outcome: completion.outcome,
+        fault: completion.fault,
+        notes: completion.notes || null,
+      },
+    });
+  }
+
+  // Both parties hear about an investigation when fault is disputed.
+  if (completion.fault !== "no_fault" && completion.chargeDecision === "pending_review") {
+    const meetingDate = new Date(meeting.scheduled_at).toLocaleDateString();
+    const investigationNotice = `In your previous video dating meeting held on ${meetingDate}, the meeting will be reviewed to determine if there is irregularity and inconsistency which determines the charges. This review may take 1-2 business days.`;
+
+    for (const recipient of identities) {
+      try {
+        await insertNotification(supabase, recipient.userId, {
+          type: "meeting_investigation",
+          title: "Meeting Under Review",
+          message: `Dear ${recipient.name}, ${investigationNotice}`,
+          data: {
+            meeting_id: meeting.id,
+            review_type: "charge_investigation",
+          },
+        });
+
+        if (recipient.email) {
+          await sendInvestigationNoticeEmailFn(
+            recipient.email,
+            { recipientName: recipient.name, meetingDate },
+            recipient.userId
+          );
+        }
+      } catch (error) {
+        context.recordError(`notify:${recipient.userId}`, error);
+      }
+    }
+  }
+
+  await Promise.allSettled(
+    identities
+      .filter((identity) => identity.role === "guest" || identity.role === "host")
+      .map((identity) =>
+        trackCustomerEventFn(identity.userId, CIO_EVENTS.MEETING_COMPLETED, {
+          meeting_id: meeting.id,
+          role: identity.role,
+          outcome: completion.outcome,
+          fault: completion.fault,
+          charge_decision: completion.chargeDecision,
+          charge_status: completion.chargeStatus,
+          refund_issued: refundIssued,
+        })
+      )
+  );
+}
+
+// ---------------------------------------------------------------
+// Reschedule proposals
+// ---------------------------------------------------------------
+
+const RESCHEDULE_PROPOSAL_STATUS: Record<string, string> = {
+  accepted: "accepted",
+  declined: "declined",
+  withdrawn: "withdrawn",
+  superseded: "canceled",
+};
+
+/**
+ * Close a proposal the meeting left behind without an answer — canceled,
+ * started or finished at the original time.
+ */
+async function closePendingRescheduleProposal(context: MeetingTransitionContext) {
+  const { error } = await context.supabase
+    .from("meeting_reschedule_proposals")
+    .update({ status: "canceled", responded_at: new Date().toISOString() })
+    .eq("meeting_id", context.meeting.id)
+    .eq("status", "pending");
+
+  if (error) {
+    context.recordError("close_reschedule_proposal", error);
+  }
+  return {};
+}
+
+async function notifyRescheduleProposal(context: MeetingTransitionContext) {
+  const reschedule = context.details.reschedule;
+  if (!reschedule) return;
+
+  const identities = await loadParticipantIdentities(context);
+  const proposer = identities.find((identity) => identity.userId === context.actor.userId);
+  const optionCount = reschedule.proposedTimes?.length || 0;
+
+  await Promise.all(
+    identities
+      .filter(
+        (identity) =>
+          identity.userId !== context.actor.userId &&
+          (identity.role === "host" || identity.role === "guest")
+      )
+      .map(async (recipient) => {
+        const message = `${proposer?.name || "Your match"} asked to move your meeting on ${formatMeetingDateTime(
+          reschedule.previousScheduledAt
+        )}. Choose one of ${optionCount} new time${optionCount === 1 ? "" : "s"} or keep the original.`;
+
+        try {
+          await insertNotification(context.supabase, recipient.userId, {
+            type: "meeting_reschedule_proposed",
+            title: "New meeting time proposed",
+            message,
+            data: {
+              meeting_id: context.meeting.id,
+              proposal_id: reschedule.proposalId,
+              proposed_times: reschedule.proposedTimes || [],
+            },
+          });
+          await sendPush(context, {
+            userId: recipient.userId,
+            type: "meeting_reschedule_proposed",
+            title: "New meeting time proposed",
+            message,
+            url: "/dashboard/meetings",
+            data: { meeting_id: context.meeting.id, proposal_id: reschedule.proposalId },
+          });
+        } catch (error) {
+          context.recordError(`notify:${recipient.userId}`, error);
+        }
+      })
+  );
+}
+
+/** Move the video room with the accepted slot; the join link stays the same. */
+async function prepareRescheduleResolution(
+  context: MeetingTransitionContext
+): Promise<MeetingTransitionOutcome> {
+  const reschedule = context.details.reschedule;
+  const roomId = getMeetingVideoRoomId(context.meeting);
+
+  if (
+    reschedule?.outcome !== "accepted" ||
+    !reschedule.scheduledAt ||
+    !roomId ||
+    context.meeting.video_link_is_fallback === true
+  ) {
+    return {};
+  }
+
+  const provider = getVideoProvider(getMeetingVideoProviderId(context.meeting), context.deps);
+  const updated = await provider.updateRoom(roomId, {
+    startTime: reschedule.scheduledAt,
+    durationMinutes: 30,
+  });
+  if (!updated) {
+    throw new Error("Unable to move the video meeting to the new time. Please try again.");
+  }
+
+  return {};
+}
+
+async function settleRescheduleResolution(context: MeetingTransitionContext) {
+  const reschedule = context.details.reschedule;
+  if (!reschedule) return {};
+
+  const { error } = await context.supabase
+    .from("meeting_reschedule_proposals")
+    .update({
+      status: RESCHEDULE_PROPOSAL_STATUS[reschedule.outcome] || "canceled",
+      selected_scheduled_at: reschedule.outcome === "accepted" ? reschedule.scheduledAt : null,
+      responded_at: new Date().toISOString(),
+    })
+    .eq("id", reschedule.proposalId)
+    .eq("status", "pending");
+
+  if (error) {
+    context.recordError("close_reschedule_proposal", error);
+  }
+  return {};
+}
+
+function describeRescheduleResolution(
+  outcome: string,
+  actorName: string,
+  scheduledAt: string
+): { type: string; title: string; message: string } | null {
+  switch (outcome) {
+    case "accepted":
+      return {
+        type: "meeting_rescheduled",
+        title: "Meeting rescheduled",
+        message: `Your meeting has moved to ${formatMeetingDateTime(
+          scheduledAt
+        )}. Your video link and credits stay the same.`,
+      };
+    case "declined":
+      return {
+        type: "meeting_reschedule_declined",
+        title: "New time declined",
+        message: `${actorName} kept the original time. Your meeting is still on ${formatMeetingDateTime(
+          scheduledAt
+        )}.`,
+      };
+    case "withdrawn":
+      return {
+        type: "meeting_reschedule_withdrawn",
+        title: "Reschedule request withdrawn",
+        message: `${actorName} withdrew their request. Your meeting is still on ${formatMeetingDateTime(
+          scheduledAt
+        )}.`,
+      };
+    default:
+      return null;
+  }
+}
+
+async function notifyRescheduleResolution(context: MeetingTransitionContext) {
+  const reschedule = context.details.reschedule;
+  if (!reschedule) return;
+
+  const scheduledAt = reschedule.scheduledAt || reschedule.previousScheduledAt;
+  if (reschedule.outcome === "accepted") {
+    const scheduleMeetingNotificationsFn =
+      context.deps.scheduleMeetingNotificationsFn || scheduleMeetingNotificationsForMeeting;
+    try {
+      await scheduleMeetingNotificationsFn(context.supabase, context.meeting.id, scheduledAt);
+    } catch (error) {
+      context.recordError("schedule_reminders", error);
+    }
+  }
+
+  const identities = await loadParticipantIdentities(context);
+  const actor = identities.find((identity) => identity.userId === context.actor.userId);
+  const notice = describeRescheduleResolution(
+    reschedule.outcome,
+    actor?.name || "Your match",
+    scheduledAt
+  );
+  if (!notice) return;
+
+  // Both members hear about a new time; otherwise only the other side does.
+  const recipients = identities.filter(
+    (identity) =>
+      (identity.role === "host" || identity.role === "guest") &&
+      (reschedule.outcome === "accepted" || identity.userId !== context.actor.userId)
+  );
+
+  await Promise.all(
+    recipients.map(async (recipient) => {
+      try {
+        await insertNotification(context.supabase, recipient.userId, {
+          ...notice,
+          data: {
+            meeting_id: context.meeting.id,
+            proposal_id: reschedule.proposalId,
+            old_scheduled_at: reschedule.previousScheduledAt,
+            scheduled_at: scheduledAt,
+          },
+        });
+        await sendPush(context, {
+          userId: recipient.userId,
+          type: notice.type,
+          title: notice.title,
+          message: notice.message,
+          url: "/dashboard/meetings",
+          data: { meeting_id: context.meeting.id },
+        });
+      } catch (error) {
+        context.recordError(`notify:${recipient.userId}`, error);
+      }
+    })
+  );
+}
+
+// ---------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------
+
+/** Keyed by target state, or by `from->to` where one transition differs. */
+export const MEETING_TRANSITION_EFFECTS: Partial<
+  Record<
+    MeetingWorkflowState | `${MeetingWorkflowState}->${MeetingWorkflowState}`,
+    MeetingTransitionEffects
+  >
+> = {
+  accepted: { notify: notifyAcceptance },
+  confirmed: { prepare: prepareConfirmation, notify: notifyConfirmation },
+  completed: { prepare: prepareCompletion, notify: notifyCompletion },
+  canceled: { settle: settleCancellation, notify: notifyCancellation },
+  reschedule_proposed: { notify: notifyRescheduleProposal },
+  "reschedule_proposed->confirmed": {
+    prepare: prepareRescheduleResolution,
+    settle: settleRescheduleResolution,
+    notify: notifyRescheduleResolution,
+  },
+  "reschedule_proposed->in_progress": { settle: closePendingRescheduleProposal },
+  "reschedule_proposed->completed": {
+    prepare: prepareCompletion,
+    settle: closePendingRescheduleProposal,
+    notify: notifyCompletion,
+  },
+  "reschedule_proposed->canceled": {
+    settle: async (context) => ({
+      ...(await closePendingRescheduleProposal(context)),
+      ...(await settleCancellation(context)),
+    }),
+    notify: notifyCancellation,
+  },
+};
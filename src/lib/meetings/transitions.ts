@@ -0,0 +1,515 @@
+/**
+ * Meeting Transitions
+ *
+ * The one place a meeting moves between workflow states. `transitionMeeting`
+ * validates the move against the state machine, claims it with a conditional
+ * update (so two concurrent requests cannot both apply it), runs the side
+ * effects registered for the transition (or its target state) in
+ * `./transition-effects`, and writes a `meeting_state_events` history row.
+ *
+ * Retries are safe: a transition that already ran — same idempotency key, or
+ * the meeting is already in the target state — returns `applied: false`
+ * without repeating refunds, emails or Zoom links.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { refundConsumedCredits } from "@/lib/credits/actions";
+import type {
+  sendCancellationChargeEmail,
+  sendInvestigationNoticeEmail,
+  sendMeetingAcceptedEmail,
+  sendMeetingApprovedEmail,
+  sendMeetingCancelledEmail,
+  sendRawHtmlEmail,
+} from "@/lib/email";
+import type { sendPushNotificationIfAllowed } from "@/lib/onesignal";
+import type { createZoomMeeting, deleteZoomMeeting, updateZoomMeeting } from "@/lib/zoom";
+import type { VideoProvider } from "@/lib/video/providers";
+import type { scheduleMeetingNotificationsForMeeting } from "@/lib/meetings/reminders";
+import type { PersistedMeetingVideoLink } from "@/lib/meetings/video-link";
+import type { trackCustomerEventSafely } from "@/lib/customerio";
+import type { trackProductEventSafely } from "@/lib/product-analytics";
+import {
+  deriveWorkflowState,
+  requireMeetingStateTransition,
+  type MeetingWorkflowState,
+} from "@/lib/meetings/state-machine";
+import { MEETING_TRANSITION_EFFECTS } from "@/lib/meetings/transition-effects";
+
+// ---------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------
+
+export type MeetingActorRole = "host" | "guest" | "coordinator" | "admin" | "system";
+
+export type MeetingTransitionActor = {
+  /** `null` for system actors such as the expiry cron */
+  userId: string | null;
+  role: MeetingActorRole;
+};
+
+export type MeetingRecord = {
+  id: string;
+  status: string;
+  workflow_state?: string | null;
+  scheduled_at: string;
+  host_id?: string | null;
+  host_timezone?: string | null;
+  type?: string | null;
+  requester_credit_cost?: number | null;
+  fee_cents?: number | null;
+  charge_status?: string | null;
+  video_provider?: string | null;
+  video_room_id?: string | null;
+  zoom_meeting_id?: string | null;
+  [key: string]: unknown;
+};
+
+export type MeetingTransitionParticipant = {
+  user_id: string;
+  role: string;
+  response: string | null;
+};
+
+/** What started a cancellation; picks the refund ledger entries and wording. */
+export type CancellationTrigger = "declined" | "canceled" | "expired" | "admin_canceled";
+
+export type MeetingTransitionDetails = {
+  cancellation?: {
+    trigger: CancellationTrigger;
+    /** Return the guest's booking credits (and captured wallet fee). */
+    refundGuest: boolean;
+    /** Fee already charged to the actor, mentioned in the notices. */
+    cancellationFeeCredits?: number;
+  };
+  completion?: {
+    outcome: string;
+    fault: string;
+    notes?: string | null;
+    chargeDecision: "capture" | "refund" | "pending_review";
+    chargeStatus: string;
+  };
+  reschedule?: {
+    proposalId: string;
+    /** `proposed` opens the proposal; the others close it. */
+    outcome: RescheduleProposalOutcome;
+    previousScheduledAt: string;
+    /** The accepted slot (`accepted`) */
+    scheduledAt?: string;
+    /** The offered slots (`proposed`) */
+    proposedTimes?: string[];
+  };
+};
+
+export type RescheduleProposalOutcome =
+  | "proposed"
+  | "accepted"
+  | "declined"
+  | "withdrawn"
+  | "superseded";
+
+/** Results of the side effects, for the caller's response. */
+export type MeetingTransitionOutcome = {
+  bookingValueRefunded?: boolean;
+  restoredStarterTrialUserIds?: string[];
+  refundIssued?: boolean;
+  videoLink?: PersistedMeetingVideoLink;
+};
+
+export type MeetingTransitionDependencies = {
+  refundConsumedCreditsFn?: typeof refundConsumedCredits;
+  restoreStarterTrialMeetingFn?: (
+    supabase: SupabaseClient,
+    userId: string,
+    meetingId: string
+  ) => Promise<{ restored?: boolean } | void>;
+  sendMeetingCancelledEmailFn?: typeof sendMeetingCancelledEmail;
+  sendCancellationChargeEmailFn?: typeof sendCancellationChargeEmail;
+  sendMeetingAcceptedEmailFn?: typeof sendMeetingAcceptedEmail;
+  sendMeetingApprovedEmailFn?: typeof sendMeetingApprovedEmail;
+  sendInvestigationNoticeEmailFn?: typeof sendInvestigationNoticeEmail;
+  sendRawHtmlEmailFn?: typeof sendRawHtmlEmail;
+  sendPushNotificationFn?: typeof sendPushNotificationIfAllowed;
+  createZoomMeetingFn?: typeof createZoomMeeting;
+  deleteZoomMeetingFn?: typeof deleteZoomMeeting;
+  updateZoomMeetingFn?: typeof updateZoomMeeting;
+  /** Overrides the VIDEO_PROVIDER choice for new rooms. */
+  videoProvider?: VideoProvider;
+  scheduleMeetingNotificationsFn?: typeof scheduleMeetingNotificationsForMeeting;
+  trackCustomerEventFn?: typeof trackCustomerEventSafely;
+  trackProductEventFn?: typeof trackProductEventSafely;
+};
+
+export type MeetingTransitionContext = {
+  supabase: SupabaseClient;
+  /** The meeting row as it was before the transition */
+  meeting: MeetingRecord;
+  participants: MeetingTransitionParticipant[];
+  from: MeetingWorkflowState;
+  to: MeetingWorkflowState;
+  actor: MeetingTransitionActor;
+  reason: string | null;
+  details: MeetingTransitionDetails;
+  deps: MeetingTransitionDependencies;
+  /** Log a failed follow-up step and record it on the history row. */
+  recordError: (step: string, error: unknown) => void;
+};
+
+export type MeetingTransitionEffects = {
+  /** Must succeed for the transition to stand; a throw reverts the state change. */
+  prepare?: (context: MeetingTransitionContext) => Promise<MeetingTransitionOutcome>;
+  /** Money and account follow-ups, run once the history row is written. */
+  settle?: (
+    context: MeetingTransitionContext,
+    outcome: MeetingTransitionOutcome
+  ) => Promise<MeetingTransitionOutcome>;
+  /** Notifications, emails and tracking. */
+  notify?: (
+    context: MeetingTransitionContext,
+    outcome: MeetingTransitionOutcome
+  ) => Promise<void>;
+};
+
+export type MeetingTransitionRequest = {
+  meetingId: string;
+  to: MeetingWorkflowState;
+  actor: MeetingTransitionActor;
+  reason?: string | null;
+  /** Only transition from these states; anything else is rejected. */
+  from?: MeetingWorkflowState[];
+  /** Extra meeting columns written with the state change. */
+  updates?: Record<string, unknown>;
+  /** Columns older schemas may lack; dropped and retried on error 42703. */
+  optionalUpdates?: Record<string, unknown>;
+  details?: MeetingTransitionDetails;
+  /**
+   * Defaults to the target state. Transitions that can re-enter a state
+   * (a reschedule returning to `confirmed`) pass a key of their own.
+   */
+  idempotencyKey?: string;
+  metadata?: Record<string, unknown>;
+};
+
+export type MeetingTransitionErrorCode =
+  | "meeting_not_found"
+  | "invalid_state_transition"
+  | "state_conflict"
+  | "transition_failed"
+  | "side_effect_failed";
+
+export type MeetingTransitionResult =
+  | {
+      ok: true;
+      /** `false` when the transition had already run; nothing was repeated. */
+      applied: boolean;
+      from: MeetingWorkflowState;
+      to: MeetingWorkflowState;
+      meeting: MeetingRecord;
+      outcome: MeetingTransitionOutcome;
+    }
+  | {
+      ok: false;
+      code: MeetingTransitionErrorCode;
+      message: string;
+      status: number;
+    };
+
+export type MeetingStateEvent = {
+  id: string;
+  meeting_id: string;
+  actor_id: string | null;
+  actor_role: MeetingActorRole;
+  from_state: MeetingWorkflowState;
+  to_state: MeetingWorkflowState;
+  reason: string | null;
+  metadata: Record<string, unknown>;
+  idempotency_key: string;
+  created_at: string;
+};
+
+// ---------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------
+
+/** `meetings.status` kept in step with each workflow state; in_progress and rated keep theirs. */
+const STATUS_FOR_STATE: Partial<Record<MeetingWorkflowState, string>> = {
+  requested: "pending",
+  accepted: "pending",
+  confirmed: "confirmed",
+  reschedule_proposed: "confirmed",
+  completed: "completed",
+  canceled: "canceled",
+};
+
+function failure(
+  code: MeetingTransitionErrorCode,
+  message: string,
+  status: number
+): MeetingTransitionResult {
+  return { ok: false, code, message, status };
+}
+
+function errorMessage(error: unknown) {
+  if (error instanceof Error) return error.message;
+  if (error && typeof error === "object" && "message" in error) {
+    return String((error as { message: unknown }).message);
+  }
+  return String(error);
+}
+
+function currentState(meeting: MeetingRecord) {
+  return deriveWorkflowState({
+    workflowState: typeof meeting.workflow_state === "string" ? meeting.workflow_state : null,
+    status: meeting.status,
+  });
+}
+
+async function loadMeeting(supabase: SupabaseClient, meetingId: string) {
+  const { data, error } = await supabase
+    .from("meetings")
+    .select("*")
+    .eq("id", meetingId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return (data as MeetingRecord | null) || null;
+}
+
+async function claimTransition(
+  supabase: SupabaseClient,
+  meeting: MeetingRecord,
+  payload: Record<string, unknown>
+) {
+  let query = supabase
+    .from("meetings")
+    .update(payload)
+    .eq("id", meeting.id)
+    .eq("status", meeting.status);
+
+  // Legacy rows have no workflow_state; claim those on the null column.
+  query =
+    typeof meeting.workflow_state === "string"
+      ? query.eq("workflow_state", meeting.workflow_state)
+      : query.is("workflow_state", null);
+
+  return query.select("id");
+}
+
+async function revertTransition(
+  supabase: SupabaseClient,
+  meeting: MeetingRecord,
+  to: MeetingWorkflowState,
+  payload: Record<string, unknown>
+) {
+  const previous = Object.fromEntries(
+    Object.keys(payload).map((column) => [column, meeting[column] ?? null])
+  );
+
+  const { error } = await supabase
+    .from("meetings")
+    .update(previous)
+    .eq("id", meeting.id)
+    .eq("workflow_state", to);
+
+  if (error) {
+    console.error("[meetings/transitions] failed to revert transition:", {
+      meetingId: meeting.id,
+      to,
+      error,
+    });
+  }
+}
+
+// ---------------------------------------------------------------
+// Transition
+// ---------------------------------------------------------------
+
+/**
+ * Move a meeting to `request.to`, run that transition's side effects and
+ * record it in the meeting's history.
+ */
+export async function transitionMeeting(
+  supabase: SupabaseClient,
+  request: MeetingTransitionRequest,
+  deps: MeetingTransitionDependencies = {}
+): Promise<MeetingTransitionResult> {
+  const idempotencyKey = request.idempotencyKey || request.to;
+
+  const meeting = await loadMeeting(supabase, request.meetingId);
+  if (!meeting) {
+    return failure("meeting_not_found", "Meeting not found", 404);
+  }
+
+  const from = currentState(meeting);
+
+  const { data: existingEvent } = await supabase
+    .from("meeting_state_events")
+    .select("id")
+    .eq("meeting_id", meeting.id)
+    .eq("idempotency_key", idempotencyKey)
+    .maybeSingle();
+
+  if (existingEvent || from === request.to) {
+    return { ok: true, applied: false, from, to: request.to, meeting, outcome: {} };
+  }
+
+  const validation = requireMeetingStateTransition({ from, to: request.to });
+  if (!validation.allowed || (request.from && !request.from.includes(from))) {
+    return failure(
+      "invalid_state_transition",
+      validation.message || `Invalid meeting state transition: ${from} -> ${request.to}.`,
+      409
+    );
+  }
+
+  let payload: Record<string, unknown> = {
+    ...request.updates,
+    ...request.optionalUpdates,
+    workflow_state: request.to,
+  };
+  const status = STATUS_FOR_STATE[request.to];
+  if (status) {
+    payload.status = status;
+  }
+
+  let claim = await claimTransition(supabase, meeting, payload);
+  if (claim.error?.code === "42703" && request.optionalUpdates) {
+    const optionalColumns = new Set(Object.keys(request.optionalUpdates));
+    payload = Object.fromEntries(
+      Object.entries(payload).filter(([column]) => !optionalColumns.has(column))
+    );
+    claim = await claimTransition(supabase, meeting, payload);
+  }
+
+  if (claim.error) {
+    console.error("[meetings/transitions] claim error:", claim.error);
+    return failure("transition_failed", "Failed to update the meeting", 500);
+  }
+
+  if (!claim.data || claim.data.length === 0) {
+    // Another request changed the meeting first.
+    const latest = await loadMeeting(supabase, meeting.id);
+    if (latest && currentState(latest) === request.to) {
+      return { ok: true, applied: false, from, to: request.to, meeting: latest, outcome: {} };
+    }
+    return failure(
+      "state_conflict",
+      "The meeting changed while this request was processed. Refresh and try again.",
+      409
+    );
+  }
+
+  const { data: participants } = await supabase
+    .from("meeting_participants")
+    .select("user_id, role, response")
+    .eq("meeting_id", meeting.id);
+
+  const effectErrors: Array<{ step: string; message: string }> = [];
+  const context: MeetingTransitionContext = {
+    supabase,
+    meeting,
+    participants: (participants || []) as MeetingTransitionParticipant[],
+    from,
+    to: request.to,
+    actor: request.actor,
+    reason: request.reason || null,
+    details: request.details || {},
+    deps,
+    recordError: (step, error) => {
+      console.error(`[meetings/transitions] ${request.to} ${step} failed:`, {
+        meetingId: meeting.id,
+        error,
+      });
+      effectErrors.push({ step, message: errorMessage(error) });
+    },
+  };
+  const effects =
+    MEETING_TRANSITION_EFFECTS[`${from}->${request.to}`] ||
+    MEETING_TRANSITION_EFFECTS[request.to] ||
+    {};
+
+  let outcome: MeetingTransitionOutcome = {};
+  if (effects.prepare) {
+    try {
+      outcome = await effects.prepare(context);
+    } catch (error) {
+      await revertTransition(supabase, meeting, request.to, payload);
+      console.error("[meetings/transitions] side effect failed:", {
+        meetingId: meeting.id,
+        to: request.to,
+        error,
+      });
+      return failure("side_effect_failed", errorMessage(error), 500);
+    }
+  }
+
+  const metadata = { ...request.metadata };
+  const { data: event, error: eventError } = await supabase
+    .from("meeting_state_events")
+    .insert({
+      meeting_id: meeting.id,
+      actor_id: request.actor.userId,
+      actor_role: request.actor.role,
+      from_state: from,
+      to_state: request.to,
+      reason: request.reason || null,
+      metadata,
+      idempotency_key: idempotencyKey,
+    })
+    .select("id")
+    .maybeSingle();
+
+  if (eventError) {
+    // The state change stands; a missing history row must not undo it.
+    console.error("[meetings/transitions] failed to record state event:", eventError);
+  }
+
+  if (effects.settle) {
+    try {
+      outcome = { ...outcome, ...(await effects.settle(context, outcome)) };
+    } catch (error) {
+      context.recordError("settle", error);
+    }
+  }
+
+  if (effects.notify) {
+    try {
+      await effects.notify(context, outcome);
+    } catch (error) {
+      context.recordError("notify", error);
+    }
+  }
+
+  if (effectErrors.length > 0 && event?.id) {
+    await supabase
+      .from("meeting_state_events")
+      .update({ metadata: { ...metadata, effect_errors: effectErrors } })
+      .eq("id", event.id);
+  }
+
+  return {
+    ok: true,
+    applied: true,
+    from,
+    to: request.to,
+    meeting: { ...meeting, ...payload },
+    outcome,
+  };
+}
+
+/** A meeting's state history, oldest first. */
+export async function getMeetingTimeline(
+  supabase: SupabaseClient,
+  meetingId: string
+): Promise<MeetingStateEvent[]> {
+  const { data, error } = await supabase
+    .from("meeting_state_events")
+    .select(
+      "id, meeting_id, actor_id, actor_role, from_state, to_state, reason, metadata, idempotency_key, created_at"
+    )
+    .eq("meeting_id", meetingId)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as MeetingStateEvent[];
+}
@@ -1,5 +1,10 @@
 import type { SupabaseClient } from "@supabase/supabase-js";
-import { deleteZoomMeeting, type ZoomMeetingResult } from "@/lib/zoom";
+import {
+  getVideoProvider,
+  type VideoProviderId,
+  type VideoRoomResult,
+  type ZoomProviderFunctions,
+} from "@/lib/video/providers";
 
 type PersistedMeetingVideoLinkRow = {
   scheduled_at: string | null;
@@ -7,6 +12,7 @@ type PersistedMeetingVideoLinkRow = {
   video_password: string | null;
   zoom_meeting_id: string | null;
   video_link_is_fallback: boolean | null;
+  video_provider: string | null;
 };
 
 export type PersistedMeetingVideoLink = {
@@ -14,31 +20,27 @@ export type PersistedMeetingVideoLink = {
   video_link: string;
   video_password: string | null;
   zoom_meeting_id: string | null;
+  video_provider: VideoProviderId;
   is_fallback: boolean;
   created_now: boolean;
 };
 
-export function buildMeetingVideoLinkUpdate(result: ZoomMeetingResult) {
+const PERSISTED_LINK_COLUMNS =
+  "scheduled_at, video_link, video_password, zoom_meeting_id, video_link_is_fallback, video_provider";
+
+export function buildMeetingVideoLinkUpdate(result: VideoRoomResult) {
   if (!result.join_url) {
     throw new Error("Video meeting link was not returned by provider");
   }
 
-  const updateData: {
-    video_link: string;
-    video_password: string | null;
-    video_link_is_fallback: boolean;
-    zoom_meeting_id?: string;
-  } = {
+  return {
     video_link: result.join_url,
     video_password: result.password || null,
     video_link_is_fallback: result.is_fallback || false,
+    video_provider: result.provider,
+    zoom_meeting_id: result.provider === "zoom" ? result.room_id || null : null,
+    video_room_id: result.provider === "webrtc" ? result.room_id || null : null,
   };
-
-  if (result.meeting_id) {
-    updateData.zoom_meeting_id = String(result.meeting_id);
-  }
-
-  return updateData;
 }
 
 function normalizePersistedMeetingLink(
@@ -54,6 +56,7 @@ function normalizePersistedMeetingLink(
     video_link: row.video_link,
     video_password: row.video_password || null,
     zoom_meeting_id: row.zoom_meeting_id || null,
+    video_provider: row.video_provider === "webrtc" ? "webrtc" : "zoom",
     is_fallback: row.video_link_is_fallback || false,
     created_now: createdNow,
   };
@@ -62,10 +65,11 @@ function normalizePersistedMeetingLink(
 export async function persistConfirmedMeetingVideoLinkIfMissing(params: {
   supabase: SupabaseClient;
   meetingId: string;
-  zoomResult: ZoomMeetingResult;
+  roomResult: VideoRoomResult;
+  zoomFns?: ZoomProviderFunctions;
 }) {
-  const { supabase, meetingId, zoomResult } = params;
-  const updateData = buildMeetingVideoLinkUpdate(zoomResult);
+  const { supabase, meetingId, roomResult } = params;
+  const updateData = buildMeetingVideoLinkUpdate(roomResult);
 
   const { data: storedMeeting, error: storeError } = await supabase
     .from("meetings")
@@ -73,9 +77,7 @@ export async function persistConfirmedMeetingVideoLinkIfMissing(params: {
     .eq("id", meetingId)
     .eq("status", "confirmed")
     .is("video_link", null)
-    .select(
-      "scheduled_at, video_link, video_password, zoom_meeting_id, video_link_is_fallback"
-    )
+    .select(PERSISTED_LINK_COLUMNS)
     .maybeSingle();
 
   if (storeError) {
@@ -91,9 +93,7 @@ export async function persistConfirmedMeetingVideoLinkIfMissing(params: {
 
   const { data: currentMeeting, error: currentMeetingError } = await supabase
     .from("meetings")
-    .select(
-      "scheduled_at, video_link, video_password, zoom_meeting_id, video_link_is_fallback"
-    )
+    .select(PERSISTED_LINK_COLUMNS)
     .eq("id", meetingId)
     .maybeSingle();
 
@@ -110,20 +110,16 @@ export async function persistConfirmedMeetingVideoLinkIfMissing(params: {
     throw new Error("Failed to persist video link");
   }
 
-  const createdZoomMeetingId = zoomResult.meeting_id
-    ? String(zoomResult.meeting_id)
-    : null;
-  if (
-    createdZoomMeetingId &&
-    currentLink.zoom_meeting_id &&
-    currentLink.zoom_meeting_id !== createdZoomMeetingId
-  ) {
-    await deleteZoomMeeting(createdZoomMeetingId).catch((error) => {
-      console.warn(
-        "[meetings/video-link] duplicate Zoom meeting cleanup failed:",
-        error
-      );
-    });
+  // Another request stored a room first; drop the one made here.
+  if (roomResult.room_id && currentLink.video_link !== roomResult.join_url) {
+    await getVideoProvider(roomResult.provider, params.zoomFns)
+      .deleteRoom(roomResult.room_id)
+      .catch((error) => {
+        console.warn(
+          "[meetings/video-link] duplicate video room cleanup failed:",
+          error
+        );
+      });
   }
 
   return currentLink;
@@ -0,0 +1,275 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { moderateText, type TextModerationResult } from "@/lib/content-moderation";
+import {
+  DEFAULT_MESSAGE_SAFETY_POLICY,
+  isMessageSafetyAction,
+  isMessageSafetyCategory,
+  MESSAGE_SAFETY_CATEGORIES,
+  MESSAGE_SAFETY_CATEGORY_LABELS,
+  resolveMessageSafetyAction,
+  screenMessageContent,
+  type MessageSafetyAction,
+  type MessageSafetyCategory,
+  type MessageSafetyPolicy,
+  type MessageSafetySignal,
+} from "@/lib/message-safety/screening";
+
+/**
+ * Message safety pipeline for POST /api/messages.
+ *
+ * A message is screened locally (./screening) and by Hive text moderation,
+ * then handled by the admin policy in message_safety_policies:
+ *   - blur: delivered with safety_status 'blurred'; the recipient sees a
+ *     warning and chooses to reveal it
+ *   - hold: stored with safety_status 'held'; the sender sees it as sent but
+ *     the recipient does not until a reviewer approves it
+ *   - block: not stored; the sender is told why
+ * Every non-allowed message leaves a message_safety_flags row for the review
+ * queue in /admin/moderation. Approving a flag clears the message; removing
+ * it hides the message from the recipient for good.
+ */
+
+export type MessageSafetyStatus = "clear" | "blurred" | "held" | "removed";
+
+/** Statuses the recipient may see. The sender always sees their own messages. */
+export const VISIBLE_MESSAGE_SAFETY_STATUSES: MessageSafetyStatus[] = ["clear", "blurred"];
+
+export type MessageSafetyFlagStatus = "pending" | "approved" | "removed";
+
+export type MessageSafetyFlagRow = {
+  id: string;
+  message_id: string | null;
+  match_id: string;
+  sender_id: string;
+  recipient_id: string;
+  content: string;
+  categories: MessageSafetyCategory[];
+  signals: MessageSafetySignal[];
+  action: Exclude<MessageSafetyAction, "allow">;
+  status: MessageSafetyFlagStatus;
+  review_note: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+};
+
+export type MessageSafetyCheck = {
+  action: MessageSafetyAction;
+  signals: MessageSafetySignal[];
+  categories: MessageSafetyCategory[];
+};
+
+type ReviewErrorCode = "flag_not_found" | "flag_reviewed";
+
+export type MessageSafetyReviewFailure = {
+  ok: false;
+  status: number;
+  code: ReviewErrorCode;
+  message: string;
+};
+
+export const MESSAGE_SAFETY_FLAG_COLUMNS =
+  "id, message_id, match_id, sender_id, recipient_id, content, categories, signals, action, status, review_note, reviewed_by, reviewed_at, created_at";
+
+/** Shown instead of the content in previews and notifications for blurred messages. */
+export const BLURRED_MESSAGE_PREVIEW = "Sent you a message. Open the chat to view it.";
+
+export async function getMessageSafetyPolicy(
+  supabase: SupabaseClient
+): Promise<MessageSafetyPolicy> {
+  const { data, error } = await supabase
+    .from("message_safety_policies")
+    .select("category, action");
+
+  if (error) {
+    if (error.code === "42P01") return { ...DEFAULT_MESSAGE_SAFETY_POLICY };
+    throw error;
+  }
+
+  const policy = { ...DEFAULT_MESSAGE_SAFETY_POLICY };
+  for (const row of (data || []) as { category: string; action: string }[]) {
+    if (isMessageSafetyCategory(row.category) && isMessageSafetyAction(row.action)) {
+      policy[row.category] = row.action;
+    }
+  }
+  return policy;
+}
+
+export async function updateMessageSafetyPolicy(
+  supabase: SupabaseClient,
+  adminUserId: string,
+  changes: Partial<MessageSafetyPolicy>
+) {
+  const now = new Date().toISOString();
+  const rows = MESSAGE_SAFETY_CATEGORIES.filter((category) =>
+    isMessageSafetyAction(changes[category])
+  ).map((category) => ({
+    category,
+    action: changes[category],
+    updated_by: adminUserId,
+    updated_at: now,
+  }));
+
+  if (rows.length > 0) {
+    const { error } = await supabase
+      .from("message_safety_policies")
+      .upsert(rows, { onConflict: "category" });
+    if (error) throw error;
+  }
+
+  return getMessageSafetyPolicy(supabase);
+}
+
+/**
+ * Screen a message and decide what to do with it. Policy or Hive failures
+ * fall back to the default policy and the local screen alone, so a
+ * moderation outage never stops members from chatting.
+ */
+export async function checkMessageSafety(
+  supabase: SupabaseClient,
+  content: string,
+  deps: { moderate?: (text: string) => Promise<TextModerationResult> } = {}
+): Promise<MessageSafetyCheck> {
+  const signals = screenMessageContent(content);
+
+  if (!signals.some((signal) => signal.category === "abuse")) {
+    const moderation = await (deps.moderate || moderateText)(content).catch((error) => {
+      console.warn("[message-safety] Text moderation failed:", error);
+      return null;
+    });
+    if (moderation && !moderation.approved) {
+      signals.push({ category: "abuse", match: moderation.violations.join(", ") || "flagged" });
+    }
+  }
+
+  if (signals.length === 0) {
+    return { action: "allow", signals, categories: [] };
+  }
+
+  const policy = await getMessageSafetyPolicy(supabase).catch((error) => {
+    console.warn("[message-safety] Failed to load policy; using defaults:", error);
+    return DEFAULT_MESSAGE_SAFETY_POLICY;
+  });
+  const categories = signals.map((signal) => signal.category);
+
+  return { action: resolveMessageSafetyAction(categories, policy), signals, categories };
+}
+
+/** What the sender is told when the policy blocks their message. */
+export function describeBlockedMessage(categories: readonly MessageSafetyCategory[]) {
+  const reasons = categories
+    .map((category) => MESSAGE_SAFETY_CATEGORY_LABELS[category].toLowerCase())
+    .join(", ");
+  return `This message wasn't sent because it looks like it contains ${reasons}. For your safety, keep payments and contact details off MatchIndeed chats.`;
+}
+
+export function messageSafetyStatusFor(action: MessageSafetyAction): MessageSafetyStatus {
+  if (action === "blur") return "blurred";
+  if (action === "hold") return "held";
+  return "clear";
+}
+
+export async function recordMessageSafetyFlag(
+  supabase: SupabaseClient,
+  input: {
+    messageId: string | null;
+    matchId: string;
+    senderId: string;
+    recipientId: string;
+    content: string;
+    check: MessageSafetyCheck;
+  }
+) {
+  const { data, error } = await supabase
+    .from("message_safety_flags")
+    .insert({
+      message_id: input.messageId,
+      match_id: input.matchId,
+      sender_id: input.senderId,
+      recipient_id: input.recipientId,
+      content: input.content,
+      categories: input.check.categories,
+      signals: input.check.signals,
+      action: input.check.action,
+      status: "pending",
+    })
+    .select(MESSAGE_SAFETY_FLAG_COLUMNS)
+    .single<MessageSafetyFlagRow>();
+
+  if (error) throw error;
+  return data;
+}
+
+/** recordMessageSafetyFlag for the send path: the message is already handled. */
+export async function recordMessageSafetyFlagSafely(
+  supabase: SupabaseClient,
+  input: Parameters<typeof recordMessageSafetyFlag>[1]
+) {
+  try {
+    return await recordMessageSafetyFlag(supabase, input);
+  } catch (error) {
+    console.warn(`[message-safety] Failed to flag message in match ${input.matchId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Approve a flagged message (it becomes a normal message) or remove it (the
+ * recipient never sees it). Blocked messages were never stored, so only the
+ * flag changes.
+ */
+export async function reviewMessageSafetyFlag(
+  supabase: SupabaseClient,
+  input: {
+    flagId: string;
+    decision: "approve" | "remove";
+    adminUserId: string;
+    note?: string | null;
+    now?: Date;
+  }
+): Promise<
+  { ok: true; flag: MessageSafetyFlagRow; released: boolean } | MessageSafetyReviewFailure
+> {
+  const now = (input.now || new Date()).toISOString();
+  const { data: flag, error } = await supabase
+    .from("message_safety_flags")
+    .update({
+      status: input.decision === "approve" ? "approved" : "removed",
+      review_note: input.note || null,
+      reviewed_by: input.adminUserId,
+      reviewed_at: now,
+    })
+    .eq("id", input.flagId)
+    .eq("status", "pending")
+    .select(MESSAGE_SAFETY_FLAG_COLUMNS)
+    .maybeSingle<MessageSafetyFlagRow>();
+
+  if (error) throw error;
+  if (!flag) {
+    const { data: existing, error: existingError } = await supabase
+      .from("message_safety_flags")
+      .select("id, status")
+      .eq("id", input.flagId)
+      .maybeSingle<{ id: string; status: MessageSafetyFlagStatus }>();
+
+    if (existingError) throw existingError;
+    return existing
+      ? { ok: false, status: 409, code: "flag_reviewed", message: `This flag was already ${existing.status}.` }
+      : { ok: false, status: 404, code: "flag_not_found", message: "Flag not found." };
+  }
+
+  let released = false;
+  if (flag.message_id) {
+    const { data: updated, error: messageError } = await supabase
+      .from("messages")
+      .update({ safety_status: input.decision === "approve" ? "clear" : "removed" })
+      .eq("id", flag.message_id)
+      .in("safety_status", ["blurred", "held"])
+      .select("id");
+
+    if (messageError) throw messageError;
+    released = input.decision === "approve" && flag.action === "hold" && (updated || []).length > 0;
+  }
+
+  return { ok: true, flag, released };
+}
@@ -0,0 +1,186 @@
+/**
+ * Message screening: finds the patterns behind most romance scams in a chat
+ * message before it is delivered.
+ *
+ * Each detector reports the text it matched so reviewers can see why a
+ * message was flagged. The policy (see ./pipeline) maps every category to
+ * an action, and a message takes the strictest action among its categories.
+ */
+
+export const MESSAGE_SAFETY_CATEGORIES = [
+  "phone_number",
+  "payment_details",
+  "payment_request",
+  "off_platform_link",
+  "abuse",
+] as const;
+
+export type MessageSafetyCategory = (typeof MESSAGE_SAFETY_CATEGORIES)[number];
+
+/** allow: deliver as-is · blur: deliver behind a warning · hold: hide from the recipient until reviewed · block: refuse. */
+export const MESSAGE_SAFETY_ACTIONS = ["allow", "blur", "hold", "block"] as const;
+
+export type MessageSafetyAction = (typeof MESSAGE_SAFETY_ACTIONS)[number];
+
+export type MessageSafetyPolicy = Record<MessageSafetyCategory, MessageSafetyAction>;
+
+export type MessageSafetySignal = {
+  category: MessageSafetyCategory;
+  /** The matched text, trimmed for the review queue. */
+  match: string;
+};
+
+export const DEFAULT_MESSAGE_SAFETY_POLICY: MessageSafetyPolicy = {
+  phone_number: "blur",
+  payment_details: "block",
+  payment_request: "hold",
+  off_platform_link: "blur",
+  abuse: "hold",
+};
+
+export const MESSAGE_SAFETY_CATEGORY_LABELS: Record<MessageSafetyCategory, string> = {
+  phone_number: "Phone number",
+  payment_details: "Bank or crypto details",
+  payment_request: "Request for money",
+  off_platform_link: "Off-platform contact",
+  abuse: "Abusive language",
+};
+
+const ACTION_SEVERITY: Record<MessageSafetyAction, number> = {
+  allow: 0,
+  blur: 1,
+  hold: 2,
+  block: 3,
+};
+
+const NUMBER_WORDS: Record<string, string> = {
+  zero: "0",
+  oh: "0",
+  one: "1",
+  two: "2",
+  three: "3",
+  four: "4",
+  five: "5",
+  six: "6",
+  seven: "7",
+  eight: "8",
+  nine: "9",
+};
+
+/** Ten or more digits, allowing the separators people use to dodge filters. */
+const DIGIT_RUN = /\+?\d(?:[\s().\-_/]{0,3}\d){9,}/g;
+
+const BANK_WORDS =
+  /\b(?:acc(?:oun)?t\.?\s*(?:no|num(?:ber)?|#|details)|bank\s*details|sort\s*code|routing\s*(?:no|number)|iban|swift\s*code|bvn|gt\s?bank|access\s*bank|zenith\s*bank|first\s*bank|uba|opay|palmpay|kuda|moniepoint|wema\s*bank)\b/i;
+
+const IBAN = /\b[A-Z]{2}\d{2}(?:\s?[A-Z0-9]{4}){3,7}\b/;
+
+const CRYPTO_ADDRESS =
+  /\b(?:bc1[a-z0-9]{25,60}|[13][a-km-zA-HJ-NP-Z1-9]{25,34}|0x[a-fA-F0-9]{40}|T[1-9A-HJ-NP-Za-km-z]{33})\b/;
+
+const CRYPTO_WORDS = /\b(?:usdt|bitcoin|btc|ethereum|eth|binance|crypto\s*wallet|wallet\s*address)\b/i;
+
+const PAYMENT_REQUEST =
+  /\b(?:send\s+(?:me\s+)?(?:some\s+)?(?:money|cash|funds|usdt|btc|bitcoin|crypto|[$₦£€]\s?\d|\d[\d,.]*\s*(?:k\b|naira|dollars?|pounds?|euros?|usd|ngn|ghs|cedis?|kes|rand|bucks))|(?:transfer|wire)\s+(?:me|to\s+me|the\s+money)|lend\s+me|loan\s+me|borrow\s+me|help\s+me\s+(?:with\s+)?(?:money|rent|fees|bills|transport)|gift\s*cards?|itunes\s*cards?|steam\s*cards?|western\s*union|moneygram|cash\s*app|venmo|zelle|paypal\s*me|buy\s+me\s+(?:data|airtime|credit))/i;
+
+/** Bare domains need a name of three or more characters, so "hi.me" and "ok.co" pass. */
+const URL_PATTERN =
+  /\b(?:https?:\/\/|www\.)\S+|\b(?:[a-z0-9-]+\.)*[a-z0-9-]{3,}\.(?:com|net|org|io|me|co|ng|ke|za|uk|app|link|ly|gl)(?:\/\S*)?\b/gi;
+
+const EMAIL_PATTERN = /\b[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}\b/i;
+
+const CONTACT_APPS =
+  /\b(?:whats\s?app|watsapp|telegram|t\.me|wa\.me|snap\s?chat|snap\s*me|insta(?:gram)?|\big\b|signal\s*app|kik\s*(?:me|id|username)|on\s+kik|wechat|viber|hangouts|skype)\b/i;
+
+const ABUSE_PATTERN =
+  /\b(?:f+u+c+k+\s*(?:you|u|off)|stupid\s+(?:bitch|idiot|woman|man)|bitch|whore|slut|retard(?:ed)?|go\s+kill\s+yourself|kys|i(?:\s+will|['’]ll)\s+(?:find\s+you\s+and\s+)?(?:kill|hurt)\s+you|ugly\s+(?:bitch|cow|pig))\b/i;
+
+/** Domains members may share freely. */
+const ALLOWED_LINK_HOSTS = ["matchindeed.com"];
+
+function snippet(text: string) {
+  const trimmed = text.trim().replace(/\s+/g, " ");
+  return trimmed.length > 80 ? `${trimmed.slice(0, 77)}...` : trimmed;
+}
+
+/** "oh eight zero…" → "0 8 0…" so spelled-out numbers are caught too. */
+function normalizeNumberWords(text: string) {
+  return text.replace(/\b(?:zero|oh|one|two|three|four|five|six|seven|eight|nine)\b/gi, (word) =>
+    NUMBER_WORDS[word.toLowerCase()]
+  );
+}
+
+function isAllowedLink(match: string) {
+  const host = match
+    .toLowerCase()
+    .replace(/^https?:\/\//, "")
+    .replace(/^www\./, "")
+    .split(/[/?#]/)[0];
+  return ALLOWED_LINK_HOSTS.some((allowed) => host === allowed || host.endsWith(`.${allowed}`));
+}
+
+/** Every unsafe pattern found in a message, at most one signal per category. */
+export function screenMessageContent(content: string): MessageSafetySignal[] {
+  const signals: MessageSafetySignal[] = [];
+  const add = (category: MessageSafetyCategory, match: string) => {
+    if (!signals.some((signal) => signal.category === category)) {
+      signals.push({ category, match: snippet(match) });
+    }
+  };
+
+  const bankWord = content.match(BANK_WORDS);
+  const cryptoAddress = content.match(CRYPTO_ADDRESS);
+  const iban = content.match(IBAN);
+  const digitRun = normalizeNumberWords(content).match(DIGIT_RUN)?.[0];
+
+  // A long number next to bank words is an account number, not a phone.
+  if (bankWord && digitRun) {
+    add("payment_details", `${bankWord[0]} ${digitRun}`);
+  } else if (cryptoAddress) {
+    add("payment_details", cryptoAddress[0]);
+  } else if (iban) {
+    add("payment_details", iban[0]);
+  } else {
+    // Naming a bank or a coin only counts alongside a request for money.
+    const words = bankWord || content.match(CRYPTO_WORDS);
+    if (words && PAYMENT_REQUEST.test(content)) add("payment_details", words[0]);
+  }
+
+  if (!signals.some((signal) => signal.category === "payment_details") && digitRun) {
+    add("phone_number", digitRun);
+  }
+
+  const request = content.match(PAYMENT_REQUEST);
+  if (request) add("payment_request", request[0]);
+
+  const email = content.match(EMAIL_PATTERN);
+  const link = (content.match(URL_PATTERN) || []).find((match) => !isAllowedLink(match));
+  const contactApp = content.match(CONTACT_APPS);
+  if (email) add("off_platform_link", email[0]);
+  else if (link) add("off_platform_link", link);
+  else if (contactApp) add("off_platform_link", contactApp[0]);
+
+  const abuse = content.match(ABUSE_PATTERN);
+  if (abuse) add("abuse", abuse[0]);
+
+  return signals;
+}
+
+/** The strictest action any of the categories calls for. */
+export function resolveMessageSafetyAction(
+  categories: readonly MessageSafetyCategory[],
+  policy: MessageSafetyPolicy
+): MessageSafetyAction {
+  return categories.reduce<MessageSafetyAction>((strictest, category) => {
+    const action = policy[category] || "allow";
+    return ACTION_SEVERITY[action] > ACTION_SEVERITY[strictest] ? action : strictest;
+  }, "allow");
+}
+
+export function isMessageSafetyCategory(value: unknown): value is MessageSafetyCategory {
+  return MESSAGE_SAFETY_CATEGORIES.includes(value as MessageSafetyCategory);
+}
+
+export function isMessageSafetyAction(value: unknown): value is MessageSafetyAction {
+  return MESSAGE_SAFETY_ACTIONS.includes(value as MessageSafetyAction);
+}
@@ -0,0 +1,163 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { isOnline } from "@/lib/active-status";
+import { VISIBLE_MESSAGE_SAFETY_STATUSES } from "@/lib/message-safety/pipeline";
+
+/**
+ * Typing, presence and delivery receipts for the polling path of a chat.
+ *
+ * With realtime available, the chat page gets all of this from the
+ * chat-<match_id> channel: typing as broadcasts, online state as presence
+ * and receipts as messages UPDATEs. While realtime is in backoff (see
+ * realtime-fallback) it polls GET /api/messages/activity instead, and typing
+ * is stored in chat_typing_states for a few seconds. Presence then falls
+ * back to the last_active_at heartbeat.
+ *
+ * delivered_at is set whenever the recipient's app fetches their messages
+ * (the unread badge, the conversation list or this poll); read_at is still
+ * set by opening the chat.
+ */
+
+/** A typing flag outlives a missed keystroke ping, not a closed tab. */
+export const TYPING_STATE_TTL_SECONDS = 6;
+
+/** Receipts are returned for the sender's most recent messages only. */
+export const CHAT_ACTIVITY_RECEIPT_LIMIT = 50;
+
+export type ChatMessageReceipt = {
+  id: string;
+  delivered_at: string | null;
+  read_at: string | null;
+};
+
+export type ChatActivity = {
+  partner: {
+    typing: boolean;
+    online: boolean;
+    last_active_at: string | null;
+  };
+  last_message_at: string | null;
+  receipts: ChatMessageReceipt[];
+};
+
+type ChatMatch = {
+  id: string;
+  user1_id: string;
+  user2_id: string;
+  last_message_at: string | null;
+};
+
+/** The match and the other member, or null when the user isn't part of it. */
+export async function getChatParticipants(
+  supabase: SupabaseClient,
+  matchId: string,
+  userId: string
+) {
+  const { data: match, error } = await supabase
+    .from("user_matches")
+    .select("id, user1_id, user2_id, last_message_at")
+    .eq("id", matchId)
+    .maybeSingle<ChatMatch>();
+
+  if (error) throw error;
+  if (!match || (match.user1_id !== userId && match.user2_id !== userId)) return null;
+
+  return { match, partnerId: match.user1_id === userId ? match.user2_id : match.user1_id };
+}
+
+export async function setTypingState(
+  supabase: SupabaseClient,
+  input: { matchId: string; userId: string; typing: boolean; now?: Date }
+) {
+  const now = input.now || new Date();
+  const { error } = await supabase.from("chat_typing_states").upsert(
+    {
+      match_id: input.matchId,
+      user_id: input.userId,
+      typing_until: input.typing
+        ? new Date(now.getTime() + TYPING_STATE_TTL_SECONDS * 1000).toISOString()
+        : null,
+      updated_at: now.toISOString(),
+    },
+    { onConflict: "match_id,user_id" }
+  );
+
+  if (error) throw error;
+}
+
+/**
+ * Mark the partner's visible messages in these matches as delivered to
+ * recipientId. Receipts are a nicety, so failures are only logged.
+ */
+export async function markMessagesDeliveredSafely(
+  supabase: SupabaseClient,
+  input: { recipientId: string; matchIds: string[]; now?: Date }
+) {
+  if (input.matchIds.length === 0) return;
+
+  const { error } = await supabase
+    .from("messages")
+    .update({ delivered_at: (input.now || new Date()).toISOString() })
+    .in("match_id", input.matchIds)
+    .neq("sender_id", input.recipientId)
+    .in("safety_status", VISIBLE_MESSAGE_SAFETY_STATUSES)
+    .is("delivered_at", null);
+
+  if (error) console.warn(`[messages] Failed to mark messages delivered to ${input.recipientId}:`, error);
+}
+
+/** One poll of the chat for the viewer: partner state and their own receipts. */
+export async function getChatActivity(
+  supabase: SupabaseClient,
+  input: { matchId: string; viewerId: string; now?: Date }
+): Promise<ChatActivity | null> {
+  const now = input.now || new Date();
+  const participants = await getChatParticipants(supabase, input.matchId, input.viewerId);
+  if (!participants) return null;
+
+  const { match, partnerId } = participants;
+
+  await markMessagesDeliveredSafely(supabase, {
+    recipientId: input.viewerId,
+    matchIds: [match.id],
+    now,
+  });
+
+  const [typingResult, accountResult, receiptsResult] = await Promise.all([
+    supabase
+      .from("chat_typing_states")
+      .select("typing_until")
+      .eq("match_id", match.id)
+      .eq("user_id", partnerId)
+      .maybeSingle<{ typing_until: string | null }>(),
+    supabase
+      .from("accounts")
+      .select("last_active_at")
+      .eq("id", partnerId)
+      .maybeSingle<{ last_active_at: string | null }>(),
+    supabase
+      .from("messages")
+      .select("id, delivered_at, read_at")
+      .eq("match_id", match.id)
+      .eq("sender_id", input.viewerId)
+      .order("created_at", { ascending: false })
+      .limit(CHAT_ACTIVITY_RECEIPT_LIMIT),
+  ]);
+
+  if (receiptsResult.error) throw receiptsResult.error;
+  if (typingResult.error) console.warn("[messages] Failed to load typing state:", typingResult.error);
+  if (accountResult.error) console.warn("[messages] Failed to load partner activity:", accountResult.error);
+
+  const typingUntil = typingResult.data?.typing_until;
+  const typing = Boolean(typingUntil && new Date(typingUntil).getTime() > now.getTime());
+  const lastActiveAt = accountResult.data?.last_active_at || null;
+
+  return {
+    partner: {
+      typing,
+      online: typing || isOnline(lastActiveAt, now.getTime()),
+      last_active_at: lastActiveAt,
+    },
+    last_message_at: match.last_message_at,
+    receipts: (receiptsResult.data || []) as ChatMessageReceipt[],
+  };
+}
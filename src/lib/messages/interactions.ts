@@ -0,0 +1,446 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  BLURRED_MESSAGE_PREVIEW,
+  checkMessageSafety,
+  describeBlockedMessage,
+  messageSafetyStatusFor,
+  recordMessageSafetyFlagSafely,
+  VISIBLE_MESSAGE_SAFETY_STATUSES,
+  type MessageSafetyCheck,
+  type MessageSafetyStatus,
+} from "@/lib/message-safety/pipeline";
+import type { MessageSafetyCategory } from "@/lib/message-safety/screening";
+import {
+  canEditMessage,
+  canUnsendMessage,
+  isMessageReaction,
+  MESSAGE_EDIT_WINDOW_MINUTES,
+  MESSAGE_UNSEND_WINDOW_MINUTES,
+  RICH_MESSAGE_PREVIEWS,
+  type MessageReaction,
+  type MessageReactionSummary,
+} from "@/lib/messages/message-types";
+
+/**
+ * Changes to messages after they are sent: edits, unsending, hiding a
+ * message for yourself, reactions and reply previews.
+ *
+ * Edits and unsends keep the previous content in message_revisions for
+ * moderation; the messages row itself only ever holds what members may
+ * see, because realtime sends the whole row to both members. An edit is
+ * screened again and can make a message stricter (blurred, held) but never
+ * lifts a flag. Reactions live in message_reactions with a summary copied
+ * to messages.reactions so they arrive through the same realtime updates.
+ */
+
+export const UNSENT_MESSAGE_PREVIEW = "Message unsent";
+
+const UNAVAILABLE_MESSAGE_PREVIEW = "Message unavailable";
+
+const MESSAGE_ROW_COLUMNS =
+  "id, match_id, sender_id, content, message_type, media_path, reply_to_id, created_at, edited_at, deleted_at, safety_status, safety_categories, reactions";
+
+const SAFETY_SEVERITY: Record<MessageSafetyStatus, number> = {
+  clear: 0,
+  blurred: 1,
+  held: 2,
+  removed: 3,
+};
+
+export type MessageRow = {
+  id: string;
+  match_id: string;
+  sender_id: string;
+  content: string;
+  message_type: string;
+  media_path: string | null;
+  reply_to_id: string | null;
+  created_at: string;
+  edited_at: string | null;
+  deleted_at: string | null;
+  safety_status: MessageSafetyStatus;
+  safety_categories: MessageSafetyCategory[];
+  reactions: MessageReactionSummary | null;
+};
+
+export type ReplyPreview = {
+  id: string;
+  sender_id: string;
+  message_type: string;
+  preview: string;
+};
+
+type InteractionErrorCode =
+  | "message_not_found"
+  | "invalid_content"
+  | "invalid_reaction"
+  | "invalid_reply"
+  | "message_not_editable"
+  | "message_not_unsendable"
+  | "message_unsent"
+  | "message_blocked";
+
+export type MessageInteractionFailure = {
+  ok: false;
+  status: number;
+  code: InteractionErrorCode;
+  message: string;
+  categories?: MessageSafetyCategory[];
+};
+
+function failure(
+  status: number,
+  code: InteractionErrorCode,
+  message: string
+): MessageInteractionFailure {
+  return { ok: false, status, code, message };
+}
+
+function isVisibleTo(message: Pick<MessageRow, "sender_id" | "safety_status">, userId: string) {
+  return message.sender_id === userId || VISIBLE_MESSAGE_SAFETY_STATUSES.includes(message.safety_status);
+}
+
+/** A message in one of the member's matches that they are allowed to see. */
+async function loadMessageForMember(supabase: SupabaseClient, messageId: string, userId: string) {
+  const { data: message, error } = await supabase
+    .from("messages")
+    .select(MESSAGE_ROW_COLUMNS)
+    .eq("id", messageId)
+    .maybeSingle<MessageRow>();
+
+  if (error) throw error;
+  if (!message || !isVisibleTo(message, userId)) return null;
+
+  const { data: match, error: matchError } = await supabase
+    .from("user_matches")
+    .select("id, user1_id, user2_id")
+    .eq("id", message.match_id)
+    .maybeSingle<{ id: string; user1_id: string; user2_id: string }>();
+
+  if (matchError) throw matchError;
+  if (!match || (match.user1_id !== userId && match.user2_id !== userId)) return null;
+
+  return { message, partnerId: match.user1_id === userId ? match.user2_id : match.user1_id };
+}
+
+/** Keep the conversation list preview in step when the latest message changes. */
+async function refreshMatchPreview(supabase: SupabaseClient, message: MessageRow, preview: string) {
+  const { error } = await supabase
+    .from("user_matches")
+    .update({ last_message_preview: preview.substring(0, 100) })
+    .eq("id", message.match_id)
+    .eq("last_message_at", message.created_at);
+
+  if (error) console.warn(`[messages] Failed to refresh preview for match ${message.match_id}:`, error);
+}
+
+async function recordRevision(
+  supabase: SupabaseClient,
+  message: MessageRow,
+  kind: "edit" | "unsend",
+  userId: string
+) {
+  const { error } = await supabase.from("message_revisions").insert({
+    message_id: message.id,
+    kind,
+    previous_content: message.content,
+    previous_media_path: message.media_path,
+    revised_by: userId,
+  });
+
+  if (error) throw error;
+}
+
+export async function editMessage(
+  supabase: SupabaseClient,
+  input: { messageId: string; userId: string; content: string; now?: Date },
+  deps: { check?: (content: string) => Promise<MessageSafetyCheck> } = {}
+): Promise<{ ok: true; message: MessageRow } | MessageInteractionFailure> {
+  const now = input.now || new Date();
+  const text = input.content.trim();
+  if (!text) return failure(400, "invalid_content", "Message can't be empty.");
+  if (text.length > 2000) return failure(400, "invalid_content", "Message too long (max 2000 characters)");
+
+  const loaded = await loadMessageForMember(supabase, input.messageId, input.userId);
+  if (!loaded) return failure(404, "message_not_found", "Message not found.");
+
+  const { message, partnerId } = loaded;
+  if (!canEditMessage(message, input.userId, now)) {
+    return failure(
+      403,
+      "message_not_editable",
+      `You can only edit your own text messages within ${MESSAGE_EDIT_WINDOW_MINUTES} minutes of sending them.`
+    );
+  }
+  if (text === message.content) return { ok: true, message };
+
+  const safety = await (deps.check || ((content: string) => checkMessageSafety(supabase, content)))(text);
+  if (safety.action === "block") {
+    await recordMessageSafetyFlagSafely(supabase, {
+      messageId: null,
+      matchId: message.match_id,
+      senderId: input.userId,
+      recipientId: partnerId,
+      content: text,
+      check: safety,
+    });
+    return {
+      ...failure(422, "message_blocked", describeBlockedMessage(safety.categories)),
+      categories: safety.categories,
+    };
+  }
+
+  const screened = messageSafetyStatusFor(safety.action);
+  const safetyStatus =
+    SAFETY_SEVERITY[screened] > SAFETY_SEVERITY[message.safety_status] ? screened : message.safety_status;
+
+  await recordRevision(supabase, message, "edit", input.userId);
+
+  const { data: updated, error } = await supabase
+    .from("messages")
+    .update({
+      content: text,
+      edited_at: now.toISOString(),
+      safety_status: safetyStatus,
+      safety_categories: Array.from(new Set([...(message.safety_categories || []), ...safety.categories])),
+    })
+    .eq("id", message.id)
+    .is("deleted_at", null)
+    .select(MESSAGE_ROW_COLUMNS)
+    .maybeSingle<MessageRow>();
+
+  if (error) throw error;
+  if (!updated) return failure(409, "message_unsent", "This message was unsent.");
+
+  if (safety.action !== "allow") {
+    await recordMessageSafetyFlagSafely(supabase, {
+      messageId: message.id,
+      matchId: message.match_id,
+      senderId: input.userId,
+      recipientId: partnerId,
+      content: text,
+      check: safety,
+    });
+  }
+
+  await refreshMatchPreview(supabase, updated, safetyStatus === "clear" ? text : BLURRED_MESSAGE_PREVIEW);
+  return { ok: true, message: updated };
+}
+
+/** Remove a message for both members. The content stays in message_revisions. */
+export async function unsendMessage(
+  supabase: SupabaseClient,
+  input: { messageId: string; userId: string; now?: Date }
+): Promise<{ ok: true; message: MessageRow } | MessageInteractionFailure> {
+  const now = input.now || new Date();
+  const loaded = await loadMessageForMember(supabase, input.messageId, input.userId);
+  if (!loaded) return failure(404, "message_not_found", "Message not found.");
+
+  const { message } = loaded;
+  if (!canUnsendMessage(message, input.userId, now)) {
+    return failure(
+      403,
+      "message_not_unsendable",
+      `You can only unsend your own messages within ${MESSAGE_UNSEND_WINDOW_MINUTES} minutes of sending them.`
+    );
+  }
+
+  await recordRevision(supabase, message, "unsend", input.userId);
+
+  const { data: updated, error } = await supabase
+    .from("messages")
+    .update({
+      content: "",
+      media_path: null,
+      media_duration_seconds: null,
+      reactions: {},
+      deleted_at: now.toISOString(),
+    })
+    .eq("id", message.id)
+    .is("deleted_at", null)
+    .select(MESSAGE_ROW_COLUMNS)
+    .maybeSingle<MessageRow>();
+
+  if (error) throw error;
+  if (!updated) return failure(409, "message_unsent", "This message was already unsent.");
+
+  const { error: reactionsError } = await supabase
+    .from("message_reactions")
+    .delete()
+    .eq("message_id", message.id);
+  if (reactionsError) console.warn(`[messages] Failed to clear reactions on ${message.id}:`, reactionsError);
+
+  await refreshMatchPreview(supabase, updated, UNSENT_MESSAGE_PREVIEW);
+  return { ok: true, message: updated };
+}
+
+/** Delete for me: the other member still sees the message. */
+export async function hideMessageForUser(
+  supabase: SupabaseClient,
+  input: { messageId: string; userId: string }
+): Promise<{ ok: true } | MessageInteractionFailure> {
+  const loaded = await loadMessageForMember(supabase, input.messageId, input.userId);
+  if (!loaded) return failure(404, "message_not_found", "Message not found.");
+
+  const { error } = await supabase
+    .from("message_hidden")
+    .upsert(
+      { message_id: input.messageId, user_id: input.userId },
+      { onConflict: "message_id,user_id", ignoreDuplicates: true }
+    );
+
+  if (error) throw error;
+  return { ok: true };
+}
+
+/**
+ * React to a message. Reacting again with the same emoji removes the
+ * reaction; a different emoji replaces it.
+ */
+export async function toggleMessageReaction(
+  supabase: SupabaseClient,
+  input: { messageId: string; userId: string; reaction: string }
+): Promise<{ ok: true; reactions: MessageReactionSummary } | MessageInteractionFailure> {
+  if (!isMessageReaction(input.reaction)) {
+    return failure(400, "invalid_reaction", "That reaction isn't available.");
+  }
+
+  const loaded = await loadMessageForMember(supabase, input.messageId, input.userId);
+  if (!loaded) return failure(404, "message_not_found", "Message not found.");
+  if (loaded.message.deleted_at) return failure(409, "message_unsent", "This message was unsent.");
+
+  const { data: existing, error: existingError } = await supabase
+    .from("message_reactions")
+    .select("emoji")
+    .eq("message_id", input.messageId)
+    .eq("user_id", input.userId)
+    .maybeSingle<{ emoji: string }>();
+
+  if (existingError) throw existingError;
+
+  const change = !existing
+    ? supabase
+        .from("message_reactions")
+        .insert({ message_id: input.messageId, user_id: input.userId, emoji: input.reaction })
+    : existing.emoji === input.reaction
+      ? supabase
+          .from("message_reactions")
+          .delete()
+          .eq("message_id", input.messageId)
+          .eq("user_id", input.userId)
+      : supabase
+          .from("message_reactions")
+          .update({ emoji: input.reaction })
+          .eq("message_id", input.messageId)
+          .eq("user_id", input.userId);
+
+  const { error: changeError } = await change;
+  if (changeError) throw changeError;
+
+  const { data: rows, error: rowsError } = await supabase
+    .from("message_reactions")
+    .select("emoji, user_id")
+    .eq("message_id", input.messageId)
+    .order("created_at", { ascending: true });
+
+  if (rowsError) throw rowsError;
+
+  const reactions: MessageReactionSummary = {};
+  for (const row of (rows || []) as { emoji: MessageReaction; user_id: string }[]) {
+    reactions[row.emoji] = [...(reactions[row.emoji] || []), row.user_id];
+  }
+
+  const { error: summaryError } = await supabase
+    .from("messages")
+    .update({ reactions })
+    .eq("id", input.messageId);
+
+  if (summaryError) throw summaryError;
+  return { ok: true, reactions };
+}
+
+/** Ids among messageIds that the member deleted for themselves. */
+export async function getHiddenMessageIds(
+  supabase: SupabaseClient,
+  userId: string,
+  messageIds: string[]
+): Promise<Set<string>> {
+  if (messageIds.length === 0) return new Set();
+
+  const { data, error } = await supabase
+    .from("message_hidden")
+    .select("message_id")
+    .eq("user_id", userId)
+    .in("message_id", messageIds);
+
+  if (error) {
+    console.warn("[messages] Failed to load hidden messages:", error);
+    return new Set();
+  }
+  return new Set(((data || []) as { message_id: string }[]).map((row) => row.message_id));
+}
+
+/** Check that a reply points at a message the sender can see in the same chat. */
+export async function validateReplyTarget(
+  supabase: SupabaseClient,
+  input: { matchId: string; replyToId: string; userId: string }
+): Promise<{ ok: true } | MessageInteractionFailure> {
+  const { data, error } = await supabase
+    .from("messages")
+    .select("id, match_id, sender_id, safety_status, deleted_at")
+    .eq("id", input.replyToId)
+    .maybeSingle<Pick<MessageRow, "id" | "match_id" | "sender_id" | "safety_status" | "deleted_at">>();
+
+  if (error) throw error;
+  if (!data || data.match_id !== input.matchId || data.deleted_at || !isVisibleTo(data, input.userId)) {
+    return failure(400, "invalid_reply", "You can't reply to that message.");
+  }
+  return { ok: true };
+}
+
+function replyPreviewText(message: MessageRow, viewerId: string) {
+  if (message.deleted_at) return UNSENT_MESSAGE_PREVIEW;
+  if (!isVisibleTo(message, viewerId)) return UNAVAILABLE_MESSAGE_PREVIEW;
+  if (message.message_type === "text") {
+    if (message.sender_id !== viewerId && message.safety_status === "blurred") return BLURRED_MESSAGE_PREVIEW;
+    return message.content.length > 120 ? `${message.content.slice(0, 117)}...` : message.content;
+  }
+  return RICH_MESSAGE_PREVIEWS[message.message_type as keyof typeof RICH_MESSAGE_PREVIEWS] || message.content;
+}
+
+/** Add a short preview of the message each reply points at. */
+export async function attachReplyPreviews<T extends { reply_to_id?: string | null }>(
+  supabase: SupabaseClient,
+  messages: T[],
+  viewerId: string
+): Promise<(T & { reply_to: ReplyPreview | null })[]> {
+  const replyIds = Array.from(
+    new Set(messages.map((message) => message.reply_to_id).filter((id): id is string => Boolean(id)))
+  );
+
+  const targets = new Map<string, MessageRow>();
+  if (replyIds.length > 0) {
+    const { data, error } = await supabase
+      .from("messages")
+      .select(MESSAGE_ROW_COLUMNS)
+      .in("id", replyIds);
+
+    if (error) console.warn("[messages] Failed to load reply previews:", error);
+    for (const row of (data || []) as MessageRow[]) targets.set(row.id, row);
+  }
+
+  return messages.map((message) => {
+    const target = message.reply_to_id ? targets.get(message.reply_to_id) : undefined;
+    return {
+      ...message,
+      reply_to: target
+        ? {
+            id: target.id,
+            sender_id: target.sender_id,
+            message_type: target.message_type,
+            preview: replyPreviewText(target, viewerId),
+          }
+        : null,
+    };
+  });
+}
@@ -0,0 +1,118 @@
+/**
+ * Chat message types and voice-note upload rules, shared by the chat UI
+ * and ./rich-messages.
+ */
+
+export const CHAT_MESSAGE_TYPES = ["text", "image", "voice", "meeting_proposal", "system"] as const;
+
+export type ChatMessageType = (typeof CHAT_MESSAGE_TYPES)[number];
+
+export type ChatMediaKind = "image" | "voice";
+
+export const MAX_VOICE_NOTE_SECONDS = 120;
+export const MAX_VOICE_NOTE_SIZE_BYTES = 2 * 1024 * 1024;
+export const ALLOWED_VOICE_NOTE_TYPES = [
+  "audio/webm",
+  "audio/ogg",
+  "audio/mpeg",
+  "audio/mp4",
+  "audio/aac",
+  "audio/wav",
+];
+
+export const RICH_MESSAGE_PREVIEWS: Record<Exclude<ChatMessageType, "text" | "system">, string> = {
+  image: "Sent a photo",
+  voice: "Sent a voice note",
+  meeting_proposal: "Proposed a video date",
+};
+
+export type ProposedMeeting = {
+  id: string;
+  status: string;
+  workflow_state: string | null;
+  scheduled_at: string;
+  host_id: string;
+};
+
+/** Browsers record audio/webm;codecs=opus and similar; only the base type matters. */
+function baseMimeType(type: string) {
+  return type.split(";")[0].trim().toLowerCase();
+}
+
+export function validateVoiceNote(
+  file: { name: string; size: number; type: string },
+  durationSeconds: number | null
+): { valid: true } | { valid: false; error: string } {
+  if (!ALLOWED_VOICE_NOTE_TYPES.includes(baseMimeType(file.type))) {
+    return { valid: false, error: "Voice notes must be WEBM, OGG, MP3, M4A, AAC or WAV audio." };
+  }
+  if (file.size > MAX_VOICE_NOTE_SIZE_BYTES) {
+    return { valid: false, error: "Voice note is too large (max 2MB)." };
+  }
+  if (durationSeconds === null || !Number.isFinite(durationSeconds) || durationSeconds <= 0) {
+    return { valid: false, error: "Voice note length is missing." };
+  }
+  if (durationSeconds > MAX_VOICE_NOTE_SECONDS) {
+    return { valid: false, error: `Voice notes can be up to ${MAX_VOICE_NOTE_SECONDS / 60} minutes long.` };
+  }
+  return { valid: true };
+}
+
+/** Reactions members can leave on a message; one per member per message. */
+export const MESSAGE_REACTIONS = ["❤️", "😂", "😮", "😢", "👍", "🙏"] as const;
+
+export type MessageReaction = (typeof MESSAGE_REACTIONS)[number];
+
+/** Emoji → ids of the members who reacted with it. */
+export type MessageReactionSummary = Partial<Record<MessageReaction, string[]>>;
+
+export const MESSAGE_EDIT_WINDOW_MINUTES = 15;
+export const MESSAGE_UNSEND_WINDOW_MINUTES = 60;
+
+type OwnMessage = {
+  sender_id: string;
+  message_type: string;
+  created_at: string;
+  deleted_at?: string | null;
+};
+
+function withinMinutes(createdAt: string, minutes: number, now: Date) {
+  return now.getTime() - new Date(createdAt).getTime() <= minutes * 60 * 1000;
+}
+
+/** Senders can fix their own text messages for a short while. */
+export function canEditMessage(message: OwnMessage, userId: string, now = new Date()) {
+  return (
+    message.sender_id === userId &&
+    message.message_type === "text" &&
+    !message.deleted_at &&
+    withinMinutes(message.created_at, MESSAGE_EDIT_WINDOW_MINUTES, now)
+  );
+}
+
+/** Senders can unsend any of their messages except meeting proposals. */
+export function canUnsendMessage(message: OwnMessage, userId: string, now = new Date()) {
+  return (
+    message.sender_id === userId &&
+    message.message_type !== "meeting_proposal" &&
+    message.message_type !== "system" &&
+    !message.deleted_at &&
+    withinMinutes(message.created_at, MESSAGE_UNSEND_WINDOW_MINUTES, now)
+  );
+}
+
+export function isMessageReaction(value: unknown): value is MessageReaction {
+  return MESSAGE_REACTIONS.includes(value as MessageReaction);
+}
+
+export type MessageReceiptState = "sent" | "delivered" | "read";
+
+/** Ticks on the sender's bubble: read implies delivered. */
+export function messageReceiptState(message: {
+  delivered_at?: string | null;
+  read_at?: string | null;
+}): MessageReceiptState {
+  if (message.read_at) return "read";
+  if (message.delivered_at) return "delivered";
+  return "sent";
+}
@@ -0,0 +1,188 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  evaluateAutomatedPhotoModeration,
+  type PhotoModerationOutcome,
+} from "@/lib/photo/moderation";
+import { validatePhotoFile } from "@/lib/photo/validation";
+import {
+  RICH_MESSAGE_PREVIEWS,
+  validateVoiceNote,
+  type ChatMediaKind,
+  type ProposedMeeting,
+} from "@/lib/messages/message-types";
+
+/**
+ * Rich chat messages: photos, voice notes and video-date proposals
+ * (server side; message types and upload rules are in ./message-types).
+ *
+ * Photos and voice notes live in the private chat-media bucket under
+ * <match_id>/<sender_id>/ and are served through short-lived signed URLs.
+ * Photos go through the same automated moderation as profile photos and are
+ * deleted again when rejected. A meeting proposal is a message pointing at a
+ * meeting request made through POST /api/meetings; the recipient accepts it
+ * with PATCH /api/meetings like any other request.
+ *
+ * For every non-text message, content holds a short description ("Sent a
+ * photo") so conversation previews, notifications and emails keep working.
+ */
+
+export const CHAT_MEDIA_BUCKET = "chat-media";
+
+/** Signed media URLs outlive a chat session but not a shared link. */
+export const CHAT_MEDIA_URL_TTL_SECONDS = 60 * 60;
+
+export const CHAT_MESSAGE_COLUMNS =
+  "id, sender_id, content, message_type, media_path, media_duration_seconds, meeting_id, reply_to_id, edited_at, deleted_at, reactions, created_at";
+
+type ChatMediaErrorCode = "invalid_media" | "photo_rejected" | "upload_failed";
+
+export type ChatMediaFailure = {
+  ok: false;
+  status: number;
+  code: ChatMediaErrorCode;
+  message: string;
+};
+
+export type ChatMediaUpload = {
+  ok: true;
+  kind: ChatMediaKind;
+  path: string;
+  content: string;
+  durationSeconds: number | null;
+};
+
+export type ChatMessageAttachments = {
+  media_path?: string | null;
+  meeting_id?: string | null;
+};
+
+function failure(status: number, code: ChatMediaErrorCode, message: string): ChatMediaFailure {
+  return { ok: false, status, code, message };
+}
+
+function extensionFor(file: File, kind: ChatMediaKind) {
+  const ext = file.name.split(".").pop()?.toLowerCase();
+  if (ext && ext !== file.name.toLowerCase()) return ext;
+  if (kind === "voice") return file.type.split("/")[1]?.split(";")[0] || "webm";
+  return file.type === "image/png" ? "png" : file.type === "image/webp" ? "webp" : "jpg";
+}
+
+/**
+ * Upload a chat photo or voice note. Photos are checked by the automated
+ * photo moderation once stored (the visual check needs a URL) and removed
+ * again when rejected.
+ */
+export async function uploadChatMedia(
+  supabase: SupabaseClient,
+  input: {
+    matchId: string;
+    senderId: string;
+    kind: ChatMediaKind;
+    file: File;
+    durationSeconds?: number | null;
+    now?: Date;
+  },
+  deps: {
+    moderatePhoto?: (file: File, options: { publicUrl?: string }) => Promise<PhotoModerationOutcome>;
+  } = {}
+): Promise<ChatMediaUpload | ChatMediaFailure> {
+  const durationSeconds =
+    input.kind === "voice" && input.durationSeconds != null
+      ? Math.round(input.durationSeconds)
+      : null;
+
+  if (input.kind === "voice") {
+    const validation = validateVoiceNote(input.file, durationSeconds);
+    if (!validation.valid) return failure(400, "invalid_media", validation.error);
+  } else {
+    const validation = validatePhotoFile(input.file);
+    if (!validation.valid) return failure(400, "invalid_media", validation.errors[0] || "Invalid photo.");
+  }
+
+  const path = `${input.matchId}/${input.senderId}/${input.kind}_${(input.now || new Date()).getTime()}.${extensionFor(input.file, input.kind)}`;
+  const storage = supabase.storage.from(CHAT_MEDIA_BUCKET);
+  const { error: uploadError } = await storage.upload(
+    path,
+    Buffer.from(await input.file.arrayBuffer()),
+    { contentType: input.file.type || undefined, upsert: false }
+  );
+
+  if (uploadError) {
+    console.error("[chat-media] upload error:", uploadError);
+    return failure(500, "upload_failed", "We couldn't upload that file. Please try again.");
+  }
+
+  if (input.kind === "image") {
+    const { data: signed } = await storage.createSignedUrl(path, CHAT_MEDIA_URL_TTL_SECONDS);
+    const moderation = await (deps.moderatePhoto || evaluateAutomatedPhotoModeration)(input.file, {
+      publicUrl: signed?.signedUrl,
+    });
+
+    if (moderation.status !== "approved") {
+      const { error: removeError } = await storage.remove([path]);
+      if (removeError) console.warn("[chat-media] Failed to remove rejected photo:", removeError);
+      return failure(422, "photo_rejected", moderation.reason || "This photo failed our safety checks.");
+    }
+  }
+
+  return {
+    ok: true,
+    kind: input.kind,
+    path,
+    content: RICH_MESSAGE_PREVIEWS[input.kind],
+    durationSeconds,
+  };
+}
+
+export async function removeChatMediaSafely(supabase: SupabaseClient, path: string) {
+  const { error } = await supabase.storage.from(CHAT_MEDIA_BUCKET).remove([path]);
+  if (error) console.warn(`[chat-media] Failed to remove ${path}:`, error);
+}
+
+/**
+ * Add a signed media_url to photo and voice messages and the meeting
+ * (status and time) to meeting proposals. Lookup failures leave the message
+ * without its attachment rather than failing the whole conversation.
+ */
+export async function attachChatMessageExtras<T extends ChatMessageAttachments>(
+  supabase: SupabaseClient,
+  messages: T[]
+): Promise<(T & { media_url: string | null; meeting: ProposedMeeting | null })[]> {
+  const mediaPaths = messages
+    .map((message) => message.media_path)
+    .filter((path): path is string => Boolean(path));
+  const meetingIds = Array.from(
+    new Set(
+      messages
+        .map((message) => message.meeting_id)
+        .filter((id): id is string => Boolean(id))
+    )
+  );
+
+  const mediaUrls = new Map<string, string>();
+  if (mediaPaths.length > 0) {
+    const { data, error } = await supabase.storage
+      .from(CHAT_MEDIA_BUCKET)
+      .createSignedUrls(mediaPaths, CHAT_MEDIA_URL_TTL_SECONDS);
+    if (error) console.warn("[chat-media] Failed to sign media URLs:", error);
+    for (const entry of data || []) {
+      if (entry.path && entry.signedUrl) mediaUrls.set(entry.path, entry.signedUrl);
+    }
+  }
+
+  const meetings = new Map<string, ProposedMeeting>();
+  if (meetingIds.length > 0) {
+    const { data, error } = await supabase
+      .from("meetings")
+      .select("id, status, workflow_state, scheduled_at, host_id")
+      .in("id", meetingIds);
+    if (error) console.warn("[chat-media] Failed to load proposed meetings:", error);
+    for (const meeting of (data || []) as ProposedMeeting[]) meetings.set(meeting.id, meeting);
+  }
+
+  return messages.map((message) => ({
+    ...message,
+    media_url: message.media_path ? mediaUrls.get(message.media_path) || null : null,
+    meeting: message.meeting_id ? meetings.get(message.meeting_id) || null : null,
+  }));
+}
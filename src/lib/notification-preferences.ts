@@ -139,6 +139,7 @@ const TYPE_TO_CATEGORY: Record<string, NotificationCategory> = {
   match_created: "matches",
   match_found: "matches",
   people_near_you: "matches",
+  saved_search_results: "matches",
 
   new_message: "messages",
   message: "messages",
@@ -155,6 +156,13 @@ const TYPE_TO_CATEGORY: Record<string, NotificationCategory> = {
   meeting_responses_complete: "meetings",
   meeting_pending_review: "meetings",
   meeting_investigation: "meetings",
+  meeting_rescheduled: "meetings",
+  meeting_reschedule_proposed: "meetings",
+  meeting_reschedule_declined: "meetings",
+  meeting_reschedule_withdrawn: "meetings",
+  group_session_registered: "meetings",
+  group_session_waitlisted: "meetings",
+  group_session_waitlist_expired: "meetings",
   no_active_video_slot: "meetings",
 
   profile_view: "views",
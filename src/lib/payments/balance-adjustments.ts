@@ -0,0 +1,179 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getAvailableCredits } from "@/lib/credits/actions";
+import { drawDownCreditLots, grantCreditLotSafely } from "@/lib/credits/lots";
+import { recordCreditTransaction } from "@/lib/credits/transactions";
+
+export type WalletAdjustmentInput = {
+  userId: string;
+  amountCents: number;
+  type: string;
+  description: string;
+  referenceId: string;
+  adminId?: string | null;
+  now?: Date;
+};
+
+export type CreditAdjustmentInput = {
+  userId: string;
+  credits: number;
+  actionType: string;
+  description: string;
+  /** Set when the caller has already closed the credit lots involved. */
+  skipLots?: boolean;
+  now?: Date;
+};
+
+type CreditsRow = { total: number | null; used: number | null; rollover: number | null };
+
+/**
+ * Move the wallet by `amountCents`, never below zero, and log the move in
+ * wallet_transactions. Returns the amount actually applied.
+ */
+export async function adjustWalletBalance(
+  supabase: SupabaseClient,
+  input: WalletAdjustmentInput
+) {
+  const { data: wallet, error: walletError } = await supabase
+    .from("wallets")
+    .select("balance_cents")
+    .eq("user_id", input.userId)
+    .maybeSingle<{ balance_cents: number | null }>();
+
+  if (walletError) throw walletError;
+
+  const before = Number(wallet?.balance_cents || 0);
+  const after = Math.max(0, before + input.amountCents);
+  const applied = after - before;
+  if (applied === 0) return 0;
+
+  const now = (input.now || new Date()).toISOString();
+  const { error: updateError } = await supabase
+    .from("wallets")
+    .upsert(
+      { user_id: input.userId, balance_cents: after, updated_at: now },
+      { onConflict: "user_id" }
+    );
+
+  if (updateError) throw updateError;
+
+  const { error: transactionError } = await supabase.from("wallet_transactions").insert({
+    user_id: input.userId,
+    type: input.type,
+    amount_cents: applied,
+    balance_before_cents: before,
+    balance_after_cents: after,
+    description: input.description,
+    ...(input.adminId ? { admin_id: input.adminId } : {}),
+    reference_id: input.referenceId,
+    created_at: now,
+  });
+
+  if (transactionError) {
+    await supabase
+      .from("wallets")
+      .upsert(
+        { user_id: input.userId, balance_cents: before, updated_at: now },
+        { onConflict: "user_id" }
+      );
+    throw transactionError;
+  }
+
+  return applied;
+}
+
+async function getCreditsRow(supabase: SupabaseClient, userId: string) {
+  const { data, error } = await supabase
+    .from("credits")
+    .select("total, used, rollover")
+    .eq("user_id", userId)
+    .maybeSingle<CreditsRow>();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Take back up to `credits` of the user's unspent credits; credits already
+ * spent stay spent. Returns how many were taken.
+ */
+export async function removeAvailableCredits(
+  supabase: SupabaseClient,
+  input: CreditAdjustmentInput
+) {
+  const row = await getCreditsRow(supabase, input.userId);
+  const removed = Math.min(input.credits, getAvailableCredits(row));
+  if (removed <= 0) return 0;
+
+  const { error } = await supabase.from("credits").upsert(
+    {
+      user_id: input.userId,
+      total: row?.total || 0,
+      used: (row?.used || 0) + removed,
+      rollover: row?.rollover || 0,
+      updated_at: (input.now || new Date()).toISOString(),
+    },
+    { onConflict: "user_id" }
+  );
+
+  if (error) throw error;
+
+  if (!input.skipLots) {
+    await drawDownCreditLots(supabase, input.userId, removed, { now: input.now }).catch(
+      (lotError) => {
+        console.warn("[balance-adjustments] Failed to draw down credit lots:", lotError);
+      }
+    );
+  }
+
+  await recordCreditTransaction(supabase, {
+    userId: input.userId,
+    amount: -removed,
+    actionType: input.actionType,
+    description: input.description,
+  });
+  return removed;
+}
+
+/** Give back credits taken by removeAvailableCredits. */
+export async function restoreRemovedCredits(
+  supabase: SupabaseClient,
+  input: CreditAdjustmentInput
+) {
+  if (input.credits <= 0) return 0;
+
+  const row = await getCreditsRow(supabase, input.userId);
+  const used = row?.used || 0;
+  // Removal raised `used`; lowering it back cannot go below zero, so any
+  // remainder is added to the total instead.
+  const fromUsed = Math.min(used, input.credits);
+  const { error } = await supabase.from("credits").upsert(
+    {
+      user_id: input.userId,
+      total: (row?.total || 0) + (input.credits - fromUsed),
+      used: used - fromUsed,
+      rollover: row?.rollover || 0,
+      updated_at: (input.now || new Date()).toISOString(),
+    },
+    { onConflict: "user_id" }
+  );
+
+  if (error) throw error;
+
+  if (!input.skipLots) {
+    await grantCreditLotSafely(supabase, {
+      userId: input.userId,
+      source: "refund",
+      amount: input.credits,
+      note: input.description,
+      now: input.now,
+    });
+  }
+
+  await recordCreditTransaction(supabase, {
+    userId: input.userId,
+    amount: input.credits,
+    actionType: input.actionType,
+    description: input.description,
+  });
+  return input.credits;
+}
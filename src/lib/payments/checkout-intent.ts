@@ -1,6 +1,18 @@
-export type CheckoutCurrency = "NGN" | "USD";
+import {
+  isGiftKind,
+  isValidGiftCredits,
+  normalizeGiftMessage,
+  normalizeGiftRecipientEmail,
+} from "@/lib/gifts/config";
+import {
+  isWalletCurrency,
+  normalizeCurrencyCode,
+  type SupportedCurrency,
+} from "@/lib/payments/currencies";
+
+export type CheckoutCurrency = SupportedCurrency;
 export type CheckoutPaymentProvider = "flutterwave" | "paystack";
-export type CheckoutIntentType = "subscription" | "wallet_topup" | "credit_purchase";
+export type CheckoutIntentType = "subscription" | "wallet_topup" | "credit_purchase" | "gift";
 export type CheckoutTier = "basic" | "standard" | "premium" | "vip";
 
 export type CheckoutIntent =
@@ -19,17 +31,30 @@ export type CheckoutIntent =
       amountCents: number;
       credits: number;
       currency: CheckoutCurrency;
+    }
+  | {
+      type: "gift";
+      giftKind: "subscription";
+      tier: CheckoutTier;
+      currency: CheckoutCurrency;
+      /** Null buys a code the buyer passes on themselves. */
+      recipientEmail: string | null;
+      message: string | null;
+    }
+  | {
+      type: "gift";
+      giftKind: "credits";
+      credits: number;
+      currency: CheckoutCurrency;
+      recipientEmail: string | null;
+      message: string | null;
     };
 
 const CHECKOUT_PATH = "/dashboard/payment/checkout";
-const VALID_CURRENCIES = new Set(["NGN", "USD"]);
 const VALID_TIERS = new Set(["basic", "standard", "premium", "vip"]);
 
 function normalizeCurrency(value: string | null): CheckoutCurrency | null {
-  const normalized = value?.trim().toUpperCase();
-  return normalized && VALID_CURRENCIES.has(normalized)
-    ? (normalized as CheckoutCurrency)
-    : null;
+  return normalizeCurrencyCode(value);
 }
 
 function parsePositiveInteger(value: string | null) {
@@ -38,6 +63,61 @@ function parsePositiveInteger(value: string | null) {
   return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
 }
 
+function parseGiftIntent(
+  searchParams: URLSearchParams,
+  currency: CheckoutCurrency
+): { ok: true; intent: CheckoutIntent } | { ok: false; message: string; returnPath: string } {
+  const giftKind = searchParams.get("giftKind");
+  const recipient = searchParams.get("recipient");
+  const recipientEmail = normalizeGiftRecipientEmail(recipient);
+  const message = normalizeGiftMessage(searchParams.get("message"));
+
+  if (!isGiftKind(giftKind) || (recipient && !recipientEmail)) {
+    return {
+      ok: false,
+      message: "Choose a gift and enter a valid recipient email before continuing to payment.",
+      returnPath: "/dashboard/gifts",
+    };
+  }
+
+  if (giftKind === "subscription") {
+    const tier = searchParams.get("tier")?.trim().toLowerCase();
+    if (!tier || !VALID_TIERS.has(tier)) {
+      return {
+        ok: false,
+        message: "Choose a plan to gift before continuing to payment.",
+        returnPath: "/dashboard/gifts",
+      };
+    }
+
+    return {
+      ok: true,
+      intent: {
+        type: "gift",
+        giftKind,
+        tier: tier as CheckoutTier,
+        currency,
+        recipientEmail,
+        message,
+      },
+    };
+  }
+
+  const credits = parsePositiveInteger(searchParams.get("credits"));
+  if (!isWalletCurrency(currency) || !isValidGiftCredits(credits)) {
+    return {
+      ok: false,
+      message: "Gifted credits are paid in NGN or USD. Choose how many credits to gift.",
+      returnPath: "/dashboard/gifts",
+    };
+  }
+
+  return {
+    ok: true,
+    intent: { type: "gift", giftKind, credits, currency, recipientEmail, message },
+  };
+}
+
 export function buildCheckoutUrl(intent: CheckoutIntent) {
   const params = new URLSearchParams({
     type: intent.type,
@@ -57,6 +137,17 @@ export function buildCheckoutUrl(intent: CheckoutIntent) {
     params.set("credits", String(intent.credits));
   }
 
+  if (intent.type === "gift") {
+    params.set("giftKind", intent.giftKind);
+    if (intent.giftKind === "subscription") {
+      params.set("tier", intent.tier);
+    } else {
+      params.set("credits", String(intent.credits));
+    }
+    if (intent.recipientEmail) params.set("recipient", intent.recipientEmail);
+    if (intent.message) params.set("message", intent.message);
+  }
+
   return `${CHECKOUT_PATH}?${params.toString()}`;
 }
 
@@ -94,6 +185,18 @@ export function parseCheckoutIntent(searchParams: URLSearchParams):
     };
   }
 
+  if (type === "gift") {
+    return parseGiftIntent(searchParams, currency);
+  }
+
+  if (!isWalletCurrency(currency)) {
+    return {
+      ok: false,
+      message: "Wallet top-ups and credits can only be paid in NGN or USD.",
+      returnPath: "/dashboard/wallet",
+    };
+  }
+
   if (type === "wallet_topup") {
     const amountCents = parsePositiveInteger(searchParams.get("amountCents"));
     if (!amountCents) {
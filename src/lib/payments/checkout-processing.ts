@@ -1,7 +1,13 @@
 import type { SupabaseClient } from "@supabase/supabase-js";
 import type Stripe from "stripe";
 import { CIO_EVENTS, trackCustomerEventSafely } from "@/lib/customerio";
+import { grantCreditLotSafely } from "@/lib/credits/lots";
 import { recordCreditTransaction } from "@/lib/credits/transactions";
+import {
+  cardCreditPurchaseEntries,
+  postLedgerTransactionSafely,
+  walletEntries,
+} from "@/lib/ledger/ledger";
 import { restoreCreditLockedProfileIfEligible } from "@/lib/profile/credit-lock";
 
 export type StripeCheckoutPaymentType = "wallet_topup" | "credit_purchase";
@@ -190,6 +196,14 @@ export async function processOneTimeCheckoutSession(
     }
 
     if (!data.already_processed) {
+      await postLedgerTransactionSafely(supabase, {
+        kind: "wallet_topup",
+        userId: payload.userId,
+        idempotencyKey: `wallet_topup:${session.id}`,
+        description,
+        entries: walletEntries(payload.userId, payload.amountCents, "payment_clearing"),
+      });
+
       await trackCustomerEventSafely(payload.userId, CIO_EVENTS.WALLET_FUNDED, {
         amount_cents: payload.amountCents,
         currency: payload.currency,
@@ -252,6 +266,21 @@ export async function processOneTimeCheckoutSession(
       description,
     });
 
+    await grantCreditLotSafely(supabase, {
+      userId: payload.userId,
+      source: "purchase",
+      amount: payload.credits,
+      reference: `credit_purchase:${session.id}`,
+    });
+
+    await postLedgerTransactionSafely(supabase, {
+      kind: "credit_purchase",
+      userId: payload.userId,
+      idempotencyKey: `credit_purchase:${session.id}`,
+      description,
+      entries: cardCreditPurchaseEntries(payload.userId, payload.amountCents, payload.credits),
+    });
+
     await trackCustomerEventSafely(payload.userId, CIO_EVENTS.CREDITS_PURCHASED, {
       credits: payload.credits,
       amount_cents: payload.amountCents,
@@ -321,6 +350,14 @@ export async function processOneTimeFlutterwavePayment(
     }
 
     if (!data.already_processed) {
+      await postLedgerTransactionSafely(supabase, {
+        kind: "wallet_topup",
+        userId: payment.userId,
+        idempotencyKey: `wallet_topup:${reference}`,
+        description,
+        entries: walletEntries(payment.userId, payment.amountCents, "payment_clearing"),
+      });
+
       await trackCustomerEventSafely(payment.userId, CIO_EVENTS.WALLET_FUNDED, {
         amount_cents: payment.amountCents,
         currency: payment.currency,
@@ -388,6 +425,21 @@ export async function processOneTimeFlutterwavePayment(
       description,
     });
 
+    await grantCreditLotSafely(supabase, {
+      userId: payment.userId,
+      source: "purchase",
+      amount: payment.credits,
+      reference: `credit_purchase:${reference}`,
+    });
+
+    await postLedgerTransactionSafely(supabase, {
+      kind: "credit_purchase",
+      userId: payment.userId,
+      idempotencyKey: `credit_purchase:${reference}`,
+      description,
+      entries: cardCreditPurchaseEntries(payment.userId, payment.amountCents, payment.credits),
+    });
+
     await trackCustomerEventSafely(payment.userId, CIO_EVENTS.CREDITS_PURCHASED, {
       credits: payment.credits,
       amount_cents: payment.amountCents,
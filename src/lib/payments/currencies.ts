@@ -0,0 +1,84 @@
+export const SUPPORTED_CURRENCIES = ["NGN", "USD", "GHS", "KES", "ZAR", "GBP", "EUR"] as const;
+
+export type SupportedCurrency = (typeof SUPPORTED_CURRENCIES)[number];
+
+/** Lower-case code, as stored in pricing columns and sent to the APIs. */
+export type CurrencyKey = Lowercase<SupportedCurrency>;
+
+export type CurrencyDefinition = {
+  code: SupportedCurrency;
+  name: string;
+  symbol: string;
+  /** Locale used to format amounts for people paying in this currency. */
+  locale: string;
+  /** ISO country codes that check out in this currency. */
+  countries: readonly string[];
+};
+
+const EUROZONE_COUNTRIES = [
+  "AT", "BE", "CY", "DE", "EE", "ES", "FI", "FR", "GR", "HR",
+  "IE", "IT", "LT", "LU", "LV", "MT", "NL", "PT", "SI", "SK",
+] as const;
+
+export const CURRENCY_TABLE: Record<SupportedCurrency, CurrencyDefinition> = {
+  NGN: { code: "NGN", name: "Nigerian Naira", symbol: "₦", locale: "en-NG", countries: ["NG"] },
+  // USD is the default for every country not listed below.
+  USD: { code: "USD", name: "US Dollar", symbol: "$", locale: "en-US", countries: [] },
+  GHS: { code: "GHS", name: "Ghanaian Cedi", symbol: "GH₵", locale: "en-GH", countries: ["GH"] },
+  KES: { code: "KES", name: "Kenyan Shilling", symbol: "KSh", locale: "en-KE", countries: ["KE"] },
+  ZAR: { code: "ZAR", name: "South African Rand", symbol: "R", locale: "en-ZA", countries: ["ZA"] },
+  GBP: {
+    code: "GBP",
+    name: "British Pound",
+    symbol: "£",
+    locale: "en-GB",
+    countries: ["GB", "GG", "IM", "JE"],
+  },
+  EUR: { code: "EUR", name: "Euro", symbol: "€", locale: "en-IE", countries: EUROZONE_COUNTRIES },
+};
+
+/**
+ * Wallet balances and credit packs are priced in NGN and USD only; plans can
+ * be bought in any supported currency.
+ */
+export const WALLET_CURRENCIES: readonly SupportedCurrency[] = ["NGN", "USD"];
+
+export function normalizeCurrencyCode(value: unknown): SupportedCurrency | null {
+  if (typeof value !== "string") return null;
+  const code = value.trim().toUpperCase();
+  return (SUPPORTED_CURRENCIES as readonly string[]).includes(code)
+    ? (code as SupportedCurrency)
+    : null;
+}
+
+export function getCurrencyForCountryCode(countryCode?: string | null): SupportedCurrency {
+  const country = countryCode?.trim().toUpperCase();
+  if (!country) return "USD";
+  const match = SUPPORTED_CURRENCIES.find((code) =>
+    CURRENCY_TABLE[code].countries.includes(country)
+  );
+  return match || "USD";
+}
+
+export function isWalletCurrency(currency: string) {
+  return WALLET_CURRENCIES.includes(currency.toUpperCase() as SupportedCurrency);
+}
+
+export function getCurrencySymbol(currency: string) {
+  return CURRENCY_TABLE[normalizeCurrencyCode(currency) || "USD"].symbol;
+}
+
+/** Format an amount in the smallest unit, e.g. 150000 NGN → "₦1,500.00". */
+export function formatCurrencyAmount(
+  amountCents: number,
+  currency: string,
+  options: { fractionDigits?: number } = {}
+) {
+  const definition = CURRENCY_TABLE[normalizeCurrencyCode(currency) || "USD"];
+  const fractionDigits = options.fractionDigits ?? 2;
+  const amount = (amountCents / 100).toLocaleString(definition.locale, {
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
+  });
+  return `${definition.symbol}${amount}`;
+}
@@ -0,0 +1,879 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type Stripe from "stripe";
+import {
+  cardCreditPurchaseEntries,
+  creditEntries,
+  postLedgerTransactionSafely,
+  walletEntries,
+  type LedgerEntryInput,
+} from "@/lib/ledger/ledger";
+import {
+  adjustWalletBalance,
+  removeAvailableCredits,
+  restoreRemovedCredits,
+} from "@/lib/payments/balance-adjustments";
+import { amountToSmallestUnit } from "@/lib/payments/flutterwave";
+import {
+  findRecordedPayment,
+  type ReconciliationProvider,
+  type ReconciliationRecordKind,
+  type RecordedPayment,
+} from "@/lib/payments/provider-reconciliation";
+import { downgradeMembership } from "@/lib/subscription/stripe-lifecycle";
+
+export type PaymentDisputeEvent = "refunded" | "dispute_opened" | "dispute_won" | "dispute_lost";
+
+/** A refund or dispute webhook, normalized across providers. */
+export type PaymentDisputeNotice = {
+  provider: ReconciliationProvider;
+  event: PaymentDisputeEvent;
+  /** Unique per delivery so a replayed webhook is a no-op. */
+  eventId: string;
+  /** Refund or dispute id; later events for the same case update one row. */
+  caseId: string;
+  /** Checkout session, tx_ref or invoice id of the payment being reversed. */
+  reference: string | null;
+  amountCents: number;
+  currency: string | null;
+  reason?: string | null;
+};
+
+export type PaymentDisputeResult = {
+  handled: boolean;
+  alreadyProcessed?: boolean;
+  disputeId?: string;
+  message: string;
+};
+
+export type PaymentDisputeReviewDecision = "restore" | "revoke";
+
+export type PaymentDisputeReviewResult =
+  | { ok: true; disputeId: string; reviewStatus: "restored" | "revoked" }
+  | { ok: false; status: number; code: "not_found" | "not_pending"; message: string };
+
+export type PaymentDisputeDependencies = {
+  now?: Date;
+  downgradeMembershipFn?: typeof downgradeMembership;
+};
+
+type DisputeStatus = "refunded" | "open" | "won" | "lost";
+
+type DisputeRow = {
+  id: string;
+  provider: ReconciliationProvider;
+  kind: "refund" | "dispute";
+  reference: string | null;
+  user_id: string | null;
+  record_kind: ReconciliationRecordKind | null;
+  amount_cents: number;
+  status: DisputeStatus;
+  wallet_clawed_back_cents: number;
+  credits_clawed_back: number;
+  suspended_membership_id: string | null;
+  review_status: "none" | "pending" | "restored" | "revoked";
+  clawed_back_at: string | null;
+  wallet_restored_cents: number;
+  credits_restored: number;
+  restored_at: string | null;
+  parent_dispute_id: string | null;
+};
+
+type MembershipRow = {
+  id: string;
+  user_id: string;
+  tier: string;
+  billing_status: string | null;
+  stripe_subscription_id: string | null;
+};
+
+export const STRIPE_PAYMENT_DISPUTE_EVENTS = [
+  "charge.refunded",
+  "charge.dispute.created",
+  "charge.dispute.closed",
+] as const;
+
+const DISPUTE_COLUMNS =
+  "id, provider, kind, reference, user_id, record_kind, amount_cents, status, wallet_clawed_back_cents, credits_clawed_back, suspended_membership_id, review_status, clawed_back_at, wallet_restored_cents, credits_restored, restored_at, parent_dispute_id";
+
+const MEMBERSHIP_COLUMNS = "id, user_id, tier, billing_status, stripe_subscription_id";
+
+const SUBSCRIPTION_KINDS = new Set<ReconciliationRecordKind>([
+  "subscription",
+  "tier_change",
+  "subscription_renewal",
+]);
+
+const DISPUTE_STATUS: Record<PaymentDisputeEvent, DisputeStatus> = {
+  refunded: "refunded",
+  dispute_opened: "open",
+  dispute_won: "won",
+  dispute_lost: "lost",
+};
+
+const PROVIDER_LABELS: Record<ReconciliationProvider, string> = {
+  stripe: "Stripe",
+  paystack: "Paystack",
+  flutterwave: "Flutterwave",
+};
+
+function hasClawback(dispute: DisputeRow) {
+  return (
+    dispute.wallet_clawed_back_cents > 0 ||
+    dispute.credits_clawed_back > 0 ||
+    Boolean(dispute.suspended_membership_id)
+  );
+}
+
+/**
+ * Ledger legs for a clawback. The money leg of a card credit purchase goes
+ * back to the provider with the credits; subscription credits were issued
+ * without a ledger money leg, so only the credits move.
+ */
+function clawbackEntries(dispute: DisputeRow, userId: string): LedgerEntryInput[] {
+  const entries = walletEntries(userId, -dispute.wallet_clawed_back_cents, "payment_clearing");
+  if (dispute.record_kind === "credit_purchase") {
+    return [
+      ...entries,
+      ...cardCreditPurchaseEntries(userId, -dispute.amount_cents, -dispute.credits_clawed_back),
+    ];
+  }
+  return [...entries, ...creditEntries(userId, -dispute.credits_clawed_back, "credit_issuance")];
+}
+
+async function getMembership(supabase: SupabaseClient, membershipId: string) {
+  const { data, error } = await supabase
+    .from("memberships")
+    .select(MEMBERSHIP_COLUMNS)
+    .eq("id", membershipId)
+    .maybeSingle<MembershipRow>();
+
+  if (error) throw error;
+  return data;
+}
+
+/** Put the user's latest membership on hold; the account drops to basic. */
+async function suspendMembership(supabase: SupabaseClient, userId: string, now: Date) {
+  const { data: membership, error } = await supabase
+    .from("memberships")
+    .select(MEMBERSHIP_COLUMNS)
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle<MembershipRow>();
+
+  if (error) throw error;
+  if (!membership || membership.billing_status === "canceled") return null;
+
+  const { error: membershipError } = await supabase
+    .from("memberships")
+    .update({ billing_status: "suspended", updated_at: now.toISOString() })
+    .eq("id", membership.id);
+
+  if (membershipError) throw membershipError;
+
+  const { error: accountError } = await supabase
+    .from("accounts")
+    .update({ tier: "basic" })
+    .eq("id", userId);
+
+  if (accountError) throw accountError;
+  return membership.id;
+}
+
+async function restoreMembership(supabase: SupabaseClient, membershipId: string, now: Date) {
+  const membership = await getMembership(supabase, membershipId);
+  if (!membership || membership.billing_status !== "suspended") return false;
+
+  // The account goes first: the membership stays suspended until both are
+  // written, so a retry after a failure runs the restore again.
+  const { error: accountError } = await supabase
+    .from("accounts")
+    .update({ tier: membership.tier })
+    .eq("id", membership.user_id);
+
+  if (accountError) throw accountError;
+
+  const { error: membershipError } = await supabase
+    .from("memberships")
+    .update({ billing_status: "current", updated_at: now.toISOString() })
+    .eq("id", membership.id);
+
+  if (membershipError) throw membershipError;
+  return true;
+}
+
+async function endSuspendedMembership(
+  supabase: SupabaseClient,
+  membershipId: string,
+  now: Date,
+  deps: PaymentDisputeDependencies
+) {
+  const membership = await getMembership(supabase, membershipId);
+  if (!membership) return false;
+  const downgrade = deps.downgradeMembershipFn || downgradeMembership;
+  return downgrade(
+    supabase,
+    membership,
+    { reason: "The payment for your plan was reversed." },
+    { now }
+  );
+}
+
+async function saveClawbackStep(
+  supabase: SupabaseClient,
+  disputeId: string,
+  changes: Partial<DisputeRow>,
+  now: Date
+) {
+  const { error } = await supabase
+    .from("payment_disputes")
+    .update({ ...changes, updated_at: now.toISOString() })
+    .eq("id", disputeId);
+
+  if (error) throw error;
+}
+
+/**
+ * Take back what the reversed share of the payment is still holding: unspent
+ * wallet money and credits, and paid access for plan payments. Each step is
+ * saved on the dispute as it lands, so a retry after a partial failure skips
+ * the steps already applied. A further refund of the same payment leaves the
+ * membership to the case that suspended it.
+ */
+async function clawBack(
+  supabase: SupabaseClient,
+  dispute: DisputeRow,
+  recorded: RecordedPayment,
+  now: Date,
+  options: { suspend?: boolean } = {}
+): Promise<DisputeRow> {
+  const userId = recorded.userId;
+  const share = recorded.amountCents
+    ? Math.min(1, dispute.amount_cents / recorded.amountCents)
+    : 1;
+  const description = `${PROVIDER_LABELS[dispute.provider]} ${dispute.kind} on ${dispute.reference}`;
+  const updated: DisputeRow = { ...dispute };
+
+  if (recorded.kind === "wallet_topup" && updated.wallet_clawed_back_cents === 0) {
+    const walletCents = -(await adjustWalletBalance(supabase, {
+      userId,
+      amountCents: -Math.round((recorded.amountCents || dispute.amount_cents) * share),
+      type: "payment_reversal",
+      description,
+      referenceId: `payment_dispute:${dispute.id}`,
+      now,
+    }));
+    if (walletCents > 0) {
+      updated.wallet_clawed_back_cents = walletCents;
+      await saveClawbackStep(supabase, dispute.id, { wallet_clawed_back_cents: walletCents }, now);
+    }
+  }
+
+  if (recorded.credits && updated.credits_clawed_back === 0) {
+    const credits = await removeAvailableCredits(supabase, {
+      userId,
+      credits: Math.round(recorded.credits * share),
+      actionType: "payment_reversal",
+      description,
+      now,
+    });
+    if (credits > 0) {
+      updated.credits_clawed_back = credits;
+      await saveClawbackStep(supabase, dispute.id, { credits_clawed_back: credits }, now);
+    }
+  }
+
+  if (
+    SUBSCRIPTION_KINDS.has(recorded.kind) &&
+    options.suspend !== false &&
+    !updated.suspended_membership_id
+  ) {
+    const membershipId = await suspendMembership(supabase, userId, now);
+    if (membershipId) {
+      updated.suspended_membership_id = membershipId;
+      updated.review_status = "pending";
+      await saveClawbackStep(
+        supabase,
+        dispute.id,
+        { suspended_membership_id: membershipId, review_status: "pending" },
+        now
+      );
+    }
+  }
+
+  await postLedgerTransactionSafely(supabase, {
+    kind: "refund",
+    userId,
+    idempotencyKey: `payment_dispute:${dispute.id}`,
+    description,
+    metadata: { provider: dispute.provider, reference: dispute.reference },
+    entries: clawbackEntries(updated, userId),
+  });
+
+  updated.clawed_back_at = now.toISOString();
+  await saveClawbackStep(supabase, dispute.id, { clawed_back_at: updated.clawed_back_at }, now);
+  return updated;
+}
+
+/**
+ * A won dispute keeps the money, so everything clawed back is returned. Like
+ * the clawback, each step is saved as it lands so a retry only finishes the
+ * steps still outstanding.
+ */
+async function returnClawback(
+  supabase: SupabaseClient,
+  dispute: DisputeRow,
+  now: Date
+) {
+  if (!dispute.user_id) return;
+  const userId = dispute.user_id;
+  const description = `${PROVIDER_LABELS[dispute.provider]} dispute won on ${dispute.reference}`;
+
+  if (dispute.wallet_clawed_back_cents > 0 && dispute.wallet_restored_cents === 0) {
+    await adjustWalletBalance(supabase, {
+      userId,
+      amountCents: dispute.wallet_clawed_back_cents,
+      type: "payment_reversal",
+      description,
+      referenceId: `payment_dispute_restore:${dispute.id}`,
+      now,
+    });
+    await saveClawbackStep(
+      supabase,
+      dispute.id,
+      { wallet_restored_cents: dispute.wallet_clawed_back_cents },
+      now
+    );
+  }
+
+  if (dispute.credits_clawed_back > 0 && dispute.credits_restored === 0) {
+    await restoreRemovedCredits(supabase, {
+      userId,
+      credits: dispute.credits_clawed_back,
+      actionType: "payment_reversal_restored",
+      description,
+      now,
+    });
+    await saveClawbackStep(
+      supabase,
+      dispute.id,
+      { credits_restored: dispute.credits_clawed_back },
+      now
+    );
+  }
+
+  // Only restores a membership that is still suspended, so a retry is safe.
+  if (dispute.suspended_membership_id && dispute.review_status !== "revoked") {
+    await restoreMembership(supabase, dispute.suspended_membership_id, now);
+  }
+
+  await postLedgerTransactionSafely(supabase, {
+    kind: "refund",
+    userId,
+    idempotencyKey: `payment_dispute_restore:${dispute.id}`,
+    description,
+    metadata: { provider: dispute.provider, reference: dispute.reference },
+    entries: clawbackEntries(dispute, userId).map((entry) => ({
+      ...entry,
+      amount: -entry.amount,
+    })),
+  });
+
+  await saveClawbackStep(supabase, dispute.id, { restored_at: now.toISOString() }, now);
+}
+
+async function upsertDispute(
+  supabase: SupabaseClient,
+  notice: PaymentDisputeNotice,
+  recorded: RecordedPayment | null,
+  now: Date
+) {
+  const { data: existing, error } = await supabase
+    .from("payment_disputes")
+    .select(DISPUTE_COLUMNS)
+    .eq("provider", notice.provider)
+    .eq("provider_case_id", notice.caseId)
+    .maybeSingle<DisputeRow>();
+
+  if (error) throw error;
+
+  if (existing) {
+    // A refund case keeps the amount it was first reported with; a larger
+    // refunded total is taken back as a follow-up case.
+    const changes = {
+      status: DISPUTE_STATUS[notice.event],
+      amount_cents:
+        existing.kind === "refund"
+          ? Number(existing.amount_cents)
+          : Math.max(Number(existing.amount_cents), notice.amountCents),
+      updated_at: now.toISOString(),
+    };
+    const { error: updateError } = await supabase
+      .from("payment_disputes")
+      .update(changes)
+      .eq("id", existing.id);
+
+    if (updateError) throw updateError;
+    return { ...existing, ...changes };
+  }
+
+  const { data: inserted, error: insertError } = await supabase
+    .from("payment_disputes")
+    .insert({
+      provider: notice.provider,
+      kind: notice.event === "refunded" ? "refund" : "dispute",
+      provider_case_id: notice.caseId,
+      reference: notice.reference,
+      user_id: recorded?.userId || null,
+      record_kind: recorded?.kind || null,
+      amount_cents: notice.amountCents,
+      currency: notice.currency,
+      reason: notice.reason || null,
+      status: DISPUTE_STATUS[notice.event],
+      created_at: now.toISOString(),
+      updated_at: now.toISOString(),
+    })
+    .select(DISPUTE_COLUMNS)
+    .single<DisputeRow>();
+
+  if (insertError) throw insertError;
+  return inserted;
+}
+
+/**
+ * Stripe reports a further partial refund of a charge as the charge's new
+ * refunded total under the same case. What the total adds on top of the
+ * earlier refunds becomes a follow-up case of its own, clawed back once;
+ * follow-ups an earlier delivery left unfinished are completed first.
+ */
+async function clawBackRefundIncrease(
+  supabase: SupabaseClient,
+  notice: PaymentDisputeNotice,
+  base: DisputeRow,
+  recorded: RecordedPayment,
+  now: Date
+) {
+  const { data: followUps, error } = await supabase
+    .from("payment_disputes")
+    .select(DISPUTE_COLUMNS)
+    .eq("parent_dispute_id", base.id);
+
+  if (error) throw error;
+
+  const cases = (followUps || []) as DisputeRow[];
+  const refundedBefore = cases.reduce(
+    (total, row) => total + Number(row.amount_cents),
+    Number(base.amount_cents)
+  );
+
+  if (notice.amountCents > refundedBefore) {
+    const { data: inserted, error: insertError } = await supabase
+      .from("payment_disputes")
+      .insert({
+        provider: base.provider,
+        kind: "refund",
+        provider_case_id: `${notice.caseId}:${notice.amountCents}`,
+        parent_dispute_id: base.id,
+        reference: base.reference,
+        user_id: base.user_id,
+        record_kind: base.record_kind,
+        amount_cents: notice.amountCents - refundedBefore,
+        currency: notice.currency,
+        reason: notice.reason || null,
+        status: DISPUTE_STATUS[notice.event],
+        created_at: now.toISOString(),
+        updated_at: now.toISOString(),
+      })
+      .select(DISPUTE_COLUMNS)
+      .single<DisputeRow>();
+
+    if (insertError) throw insertError;
+    cases.push(inserted);
+  }
+
+  const completed: DisputeRow[] = [];
+  for (const followUp of cases) {
+    completed.push(
+      followUp.clawed_back_at
+        ? followUp
+        : await clawBack(supabase, followUp, recorded, now, {
+            suspend: !base.suspended_membership_id,
+          })
+    );
+  }
+  return completed;
+}
+
+async function saveDispute(supabase: SupabaseClient, dispute: DisputeRow, now: Date) {
+  const { error } = await supabase
+    .from("payment_disputes")
+    .update({
+      wallet_clawed_back_cents: dispute.wallet_clawed_back_cents,
+      credits_clawed_back: dispute.credits_clawed_back,
+      suspended_membership_id: dispute.suspended_membership_id,
+      review_status: dispute.review_status,
+      updated_at: now.toISOString(),
+    })
+    .eq("id", dispute.id);
+
+  if (error) throw error;
+}
+
+async function applyDisputeEvent(
+  supabase: SupabaseClient,
+  notice: PaymentDisputeNotice,
+  now: Date,
+  deps: PaymentDisputeDependencies
+): Promise<PaymentDisputeResult> {
+  const recorded = notice.reference
+    ? await findRecordedPayment(supabase, notice.reference)
+    : null;
+  let dispute = await upsertDispute(supabase, notice, recorded, now);
+
+  if (!recorded) {
+    // Nothing of ours to reverse automatically; an admin has to look.
+    await saveDispute(supabase, { ...dispute, review_status: "pending" }, now);
+    return {
+      handled: true,
+      disputeId: dispute.id,
+      message: `No payment recorded for ${notice.reference || "this case"}; flagged for review.`,
+    };
+  }
+
+  if (notice.event === "dispute_won") {
+    if (hasClawback(dispute) && !dispute.restored_at) {
+      await returnClawback(supabase, dispute, now);
+    }
+    if (dispute.review_status === "pending") {
+      await saveDispute(supabase, { ...dispute, review_status: "restored" }, now);
+    }
+    return { handled: true, disputeId: dispute.id, message: "Dispute won; access restored." };
+  }
+
+  if (!dispute.clawed_back_at) {
+    dispute = await clawBack(supabase, dispute, recorded, now);
+  }
+
+  const followUps =
+    dispute.kind === "refund"
+      ? await clawBackRefundIncrease(supabase, notice, dispute, recorded, now)
+      : [];
+
+  if (notice.event === "dispute_lost") {
+    if (dispute.suspended_membership_id && dispute.review_status !== "revoked") {
+      await endSuspendedMembership(supabase, dispute.suspended_membership_id, now, deps);
+      dispute.review_status = "revoked";
+    }
+  }
+
+  await saveDispute(supabase, dispute, now);
+  const cases = [dispute, ...followUps];
+  const walletCents = cases.reduce((total, row) => total + row.wallet_clawed_back_cents, 0);
+  const credits = cases.reduce((total, row) => total + row.credits_clawed_back, 0);
+  return {
+    handled: true,
+    disputeId: dispute.id,
+    message: `Clawed back ${walletCents} cents and ${credits} credits${
+      cases.some((row) => row.suspended_membership_id)
+        ? "; membership suspended pending review"
+        : ""
+    }.`,
+  };
+}
+
+/**
+ * Apply one refund or dispute webhook. Each delivery is written to the audit
+ * trail first, which makes a replay a no-op; a throw removes the entry so the
+ * provider's retry runs it again.
+ */
+export async function processPaymentDisputeEvent(
+  supabase: SupabaseClient,
+  notice: PaymentDisputeNotice,
+  deps: PaymentDisputeDependencies = {}
+): Promise<PaymentDisputeResult> {
+  const now = deps.now || new Date();
+  const { data: eventRow, error: eventError } = await supabase
+    .from("payment_dispute_events")
+    .insert({
+      provider: notice.provider,
+      provider_event_id: notice.eventId,
+      event: notice.event,
+      reference: notice.reference,
+      amount_cents: notice.amountCents,
+      created_at: now.toISOString(),
+    })
+    .select("id")
+    .single<{ id: string }>();
+
+  if (eventError) {
+    if (eventError.code === "23505") {
+      return { handled: true, alreadyProcessed: true, message: "Event already processed." };
+    }
+    throw eventError;
+  }
+
+  try {
+    const result = await applyDisputeEvent(supabase, notice, now, deps);
+    await supabase
+      .from("payment_dispute_events")
+      .update({ dispute_id: result.disputeId || null, outcome: result.message })
+      .eq("id", eventRow.id);
+    return result;
+  } catch (error) {
+    await supabase.from("payment_dispute_events").delete().eq("id", eventRow.id);
+    throw error;
+  }
+}
+
+/**
+ * Admin decision on a suspended membership: give paid access back, or end
+ * the plan. Clawed-back credits and wallet money stay clawed back either way.
+ */
+export async function reviewPaymentDispute(
+  supabase: SupabaseClient,
+  params: {
+    disputeId: string;
+    decision: PaymentDisputeReviewDecision;
+    adminUserId: string;
+    note?: string | null;
+  },
+  deps: PaymentDisputeDependencies = {}
+): Promise<PaymentDisputeReviewResult> {
+  const { data: dispute, error } = await supabase
+    .from("payment_disputes")
+    .select(DISPUTE_COLUMNS)
+    .eq("id", params.disputeId)
+    .maybeSingle<DisputeRow>();
+
+  if (error) throw error;
+  if (!dispute) {
+    return { ok: false, status: 404, code: "not_found", message: "Dispute not found." };
+  }
+  if (dispute.review_status !== "pending") {
+    return {
+      ok: false,
+      status: 409,
+      code: "not_pending",
+      message: "This case is not waiting for review.",
+    };
+  }
+
+  const now = deps.now || new Date();
+  if (dispute.suspended_membership_id) {
+    if (params.decision === "restore") {
+      await restoreMembership(supabase, dispute.suspended_membership_id, now);
+    } else {
+      await endSuspendedMembership(supabase, dispute.suspended_membership_id, now, deps);
+    }
+  }
+
+  const reviewStatus = params.decision === "restore" ? "restored" : "revoked";
+  const { error: updateError } = await supabase
+    .from("payment_disputes")
+    .update({
+      review_status: reviewStatus,
+      reviewed_by: params.adminUserId,
+      reviewed_at: now.toISOString(),
+      review_note: params.note || null,
+      updated_at: now.toISOString(),
+    })
+    .eq("id", dispute.id);
+
+  if (updateError) throw updateError;
+  return { ok: true, disputeId: dispute.id, reviewStatus };
+}
+
+function getStripeId(value: string | { id: string } | null | undefined) {
+  return typeof value === "string" ? value : value?.id || null;
+}
+
+export function isStripePaymentDisputeEvent(type: string) {
+  return (STRIPE_PAYMENT_DISPUTE_EVENTS as readonly string[]).includes(type);
+}
+
+/** Payment intent behind a Stripe refund or dispute event. */
+export function getStripeDisputePaymentIntentId(event: Stripe.Event) {
+  const object = event.data.object as Stripe.Charge | Stripe.Dispute;
+  return getStripeId(object.payment_intent);
+}
+
+/**
+ * Our reference for a Stripe payment: the Checkout Session of a one-time or
+ * first plan payment, else the invoice of a renewal.
+ */
+export async function resolveStripePaymentReference(stripe: Stripe, paymentIntentId: string) {
+  const sessions = await stripe.checkout.sessions.list({
+    payment_intent: paymentIntentId,
+    limit: 1,
+  });
+  if (sessions.data[0]) return sessions.data[0].id;
+
+  const invoicePayments = await stripe.invoicePayments.list({
+    payment: { type: "payment_intent", payment_intent: paymentIntentId },
+    limit: 1,
+  });
+  return getStripeId(invoicePayments.data[0]?.invoice);
+}
+
+export function getStripeDisputeNotice(
+  event: Stripe.Event,
+  reference: string | null
+): PaymentDisputeNotice | null {
+  if (event.type === "charge.refunded") {
+    const charge = event.data.object as Stripe.Charge;
+    return {
+      provider: "stripe",
+      event: "refunded",
+      eventId: event.id,
+      caseId: charge.id,
+      reference,
+      amountCents: charge.amount_refunded,
+      currency: charge.currency,
+      reason: charge.refunds?.data[0]?.reason || null,
+    };
+  }
+
+  if (event.type !== "charge.dispute.created" && event.type !== "charge.dispute.closed") {
+    return null;
+  }
+
+  const dispute = event.data.object as Stripe.Dispute;
+  let disputeEvent: PaymentDisputeEvent = "dispute_opened";
+  if (event.type === "charge.dispute.closed") {
+    if (dispute.status === "lost") disputeEvent = "dispute_lost";
+    else if (dispute.status === "won" || dispute.status === "warning_closed") {
+      disputeEvent = "dispute_won";
+    } else return null;
+  }
+
+  return {
+    provider: "stripe",
+    event: disputeEvent,
+    eventId: event.id,
+    caseId: dispute.id,
+    reference,
+    amountCents: dispute.amount,
+    currency: dispute.currency,
+    reason: dispute.reason,
+  };
+}
+
+type WebhookData = Record<string, unknown>;
+
+function readString(value: unknown) {
+  return typeof value === "string" && value.trim()
+    ? value.trim()
+    : typeof value === "number"
+      ? String(value)
+      : null;
+}
+
+/**
+ * Paystack `refund.processed` and `charge.dispute.*` events. Amounts arrive
+ * in the smallest unit. Paystack sends no event id, so the case id and event
+ * name identify a delivery.
+ */
+export function getPaystackDisputeNotice(payload: {
+  event?: string;
+  data?: WebhookData;
+}): PaymentDisputeNotice | null {
+  const data = payload.data || {};
+  const transaction = (data.transaction || {}) as WebhookData;
+  const reference = readString(data.transaction_reference) || readString(transaction.reference);
+  const currency = readString(data.currency)?.toLowerCase() || null;
+
+  if (payload.event === "refund.processed") {
+    const caseId = readString(data.id) || readString(data.refund_reference) || reference;
+    if (!caseId) return null;
+    return {
+      provider: "paystack",
+      event: "refunded",
+      eventId: `refund.processed:${caseId}`,
+      caseId: `refund:${caseId}`,
+      reference,
+      amountCents: Number(data.amount || 0),
+      currency,
+      reason: readString(data.merchant_note) || readString(data.customer_note),
+    };
+  }
+
+  const disputeId = readString(data.id);
+  if (!disputeId) return null;
+
+  let event: PaymentDisputeEvent;
+  if (payload.event === "charge.dispute.create") {
+    event = "dispute_opened";
+  } else if (payload.event === "charge.dispute.resolve") {
+    // "merchant-accepted" means we accepted the chargeback.
+    event = data.resolution === "merchant-accepted" ? "dispute_lost" : "dispute_won";
+  } else {
+    return null;
+  }
+
+  return {
+    provider: "paystack",
+    event,
+    eventId: `${payload.event}:${disputeId}`,
+    caseId: `dispute:${disputeId}`,
+    reference,
+    amountCents: Number(data.refund_amount || transaction.amount || 0),
+    currency,
+    reason: readString(data.category) || readString(data.message),
+  };
+}
+
+/**
+ * Flutterwave refund and chargeback events carry the transaction id, not our
+ * tx_ref; the caller verifies the transaction to fill in the reference.
+ * Amounts arrive in major units.
+ */
+export function getFlutterwaveDisputeNotice(payload: {
+  event?: string;
+  data?: WebhookData;
+}): (Omit<PaymentDisputeNotice, "reference"> & { transactionId: string }) | null {
+  const type = (payload.event || "").toLowerCase();
+  const data = payload.data || {};
+  const caseId = readString(data.id);
+  const transactionId =
+    readString(data.TransactionId) ||
+    readString(data.transaction_id) ||
+    readString(data.tx_id);
+  if (!caseId || !transactionId) return null;
+
+  const status = (readString(data.status) || "").toLowerCase();
+  const currency = readString(data.currency)?.toLowerCase() || null;
+
+  if (type.startsWith("refund")) {
+    if (status && status !== "completed" && status !== "successful") return null;
+    return {
+      provider: "flutterwave",
+      event: "refunded",
+      eventId: `${type}:${caseId}`,
+      caseId: `refund:${caseId}`,
+      transactionId,
+      amountCents: amountToSmallestUnit(Number(data.AmountRefunded ?? data.amount_refunded ?? 0)),
+      currency,
+      reason: readString(data.comments),
+    };
+  }
+
+  if (!type.includes("chargeback") && !type.includes("dispute")) return null;
+
+  const event: PaymentDisputeEvent =
+    status === "lost" || status === "accepted"
+      ? "dispute_lost"
+      : status === "won" || status === "declined"
+        ? "dispute_won"
+        : "dispute_opened";
+
+  return {
+    provider: "flutterwave",
+    event,
+    eventId: `${type}:${caseId}:${status || "initiated"}`,
+    caseId: `dispute:${caseId}`,
+    transactionId,
+    amountCents: amountToSmallestUnit(Number(data.amount ?? 0)),
+    currency,
+    reason: readString(data.comment) || readString(data.reason),
+  };
+}
@@ -59,6 +59,10 @@ function getPaymentOptions(currency: string) {
       return "card, banktransfer, ussd, account, internetbanking, opay";
     case "usd":
       return "card, account";
+    case "ghs":
+      return "card, mobilemoneyghana";
+    case "kes":
+      return "card, mpesa";
     default:
       return "card";
   }
@@ -164,7 +168,10 @@ export function amountToSmallestUnit(amount: number) {
   return Math.round(Number(amount || 0) * 100);
 }
 
-export function createTxRef(prefix: "wallet" | "credits" | "subscription", userId: string) {
+export function createTxRef(
+  prefix: "wallet" | "credits" | "subscription" | "gift",
+  userId: string
+) {
   const random = randomUUID().replace(/-/g, "").slice(0, 18);
   return `mi-${prefix}-${userId.slice(0, 8)}-${random}`;
 }
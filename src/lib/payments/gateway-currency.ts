@@ -9,11 +9,24 @@ const BASE_GATEWAY_CURRENCY_SUPPORT: Record<
 > = {
   NGN: ["paystack", "flutterwave"],
   USD: ["flutterwave"],
+  GHS: ["paystack", "flutterwave"],
+  KES: ["paystack", "flutterwave"],
+  ZAR: ["paystack", "flutterwave"],
+  GBP: ["flutterwave"],
+  EUR: ["flutterwave"],
 };
 
+/** Local currencies where Paystack is the better-converting checkout. */
+const PAYSTACK_PREFERRED_CURRENCIES = new Set<CheckoutCurrency>(["NGN", "GHS", "KES", "ZAR"]);
+
 const BASE_MINIMUM_AMOUNT_CENTS: Record<CheckoutCurrency, number> = {
   NGN: 5000,
   USD: 50,
+  GHS: 100,
+  KES: 1000,
+  ZAR: 500,
+  GBP: 50,
+  EUR: 50,
 };
 
 const PROVIDER_MINIMUM_AMOUNT_CENTS: Partial<
@@ -74,7 +87,7 @@ export function getRecommendedPaymentProvider(
   options: { paystackUsdEnabled?: boolean } = {}
 ): CheckoutPaymentProvider {
   const supportedProviders = getSupportedPaymentProviders(currency, options);
-  return currency === "NGN" && supportedProviders.includes("paystack")
+  return PAYSTACK_PREFERRED_CURRENCIES.has(currency) && supportedProviders.includes("paystack")
     ? "paystack"
     : "flutterwave";
 }
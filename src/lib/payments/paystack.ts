@@ -3,7 +3,8 @@ import { randomUUID } from "crypto";
 export type PaystackPaymentType =
   | "wallet_topup"
   | "credit_purchase"
-  | "subscription";
+  | "subscription"
+  | "gift";
 
 export type PaystackReference =
   | {
@@ -22,6 +23,11 @@ export type PaystackReference =
       currency: string;
       amountCents: number;
       tier: string;
+    }
+  | {
+      paymentType: "gift";
+      currency: string;
+      amountCents: number;
     };
 
 type CreatePaystackCheckoutParams = {
@@ -83,6 +89,7 @@ async function paystackRequest<T>(path: string, init: RequestInit = {}) {
 function paymentTypeCode(paymentType: PaystackPaymentType) {
   if (paymentType === "wallet_topup") return "wallet";
   if (paymentType === "credit_purchase") return "credits";
+  if (paymentType === "gift") return "gift";
   return "sub";
 }
 
@@ -90,6 +97,7 @@ function paymentTypeFromCode(code: string): PaystackPaymentType | null {
   if (code === "wallet") return "wallet_topup";
   if (code === "credits") return "credit_purchase";
   if (code === "sub") return "subscription";
+  if (code === "gift") return "gift";
   return null;
 }
 
@@ -131,7 +139,7 @@ export function parsePaystackTxRef(txRef: string): PaystackReference | null {
     return null;
   }
 
-  if (paymentType === "wallet_topup") {
+  if (paymentType === "wallet_topup" || paymentType === "gift") {
     if (parts.length !== 8) return null;
     return { paymentType, currency, amountCents };
   }
@@ -185,3 +193,24 @@ export async function verifyPaystackTransaction(reference: string) {
     `/transaction/verify/${encodeURIComponent(reference)}`
   );
 }
+
+/**
+ * A verified transaction settles the checkout its reference describes only if
+ * it paid at least the quoted amount in the quoted currency.
+ */
+export function paystackTransactionMatchesReference(
+  transaction: PaystackVerifiedTransaction,
+  reference: string,
+  parsedReference: PaystackReference
+) {
+  const currency =
+    typeof transaction.currency === "string" && transaction.currency.trim()
+      ? transaction.currency.trim().toLowerCase()
+      : "ngn";
+
+  return (
+    transaction.reference === reference &&
+    Number(transaction.amount) >= parsedReference.amountCents &&
+    currency === parsedReference.currency.toLowerCase()
+  );
+}
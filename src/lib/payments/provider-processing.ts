@@ -0,0 +1,162 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { fulfillGiftPayment } from "@/lib/gifts/gifts";
+import {
+  amountToSmallestUnit,
+  normalizeFlutterwaveMeta,
+  type FlutterwaveTransaction,
+} from "@/lib/payments/flutterwave";
+import type { PaystackReference, PaystackVerifiedTransaction } from "@/lib/payments/paystack";
+import { processOneTimeFlutterwavePayment } from "@/lib/payments/checkout-processing";
+import { processSubscriptionFlutterwavePayment } from "@/lib/subscription/checkout-processing";
+
+export type ProviderPaymentProcessResult = {
+  success: boolean;
+  alreadyProcessed?: boolean;
+  retryable?: boolean;
+  message: string;
+};
+
+function parsePositiveInteger(value: unknown): number | null {
+  const parsed =
+    typeof value === "number"
+      ? value
+      : typeof value === "string"
+        ? Number(value)
+        : Number.NaN;
+
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+}
+
+function normalizeCurrency(value: unknown) {
+  return typeof value === "string" && value.trim()
+    ? value.trim().toLowerCase()
+    : "usd";
+}
+
+/**
+ * Apply a transaction fetched from Flutterwave's verify endpoint. Returns null
+ * when its meta does not describe one of our checkouts.
+ */
+export async function processVerifiedFlutterwaveTransaction(
+  supabase: SupabaseClient,
+  transaction: FlutterwaveTransaction
+): Promise<ProviderPaymentProcessResult | null> {
+  const meta = normalizeFlutterwaveMeta(transaction.meta);
+  const amountCents =
+    parsePositiveInteger(meta.amountCents) || amountToSmallestUnit(transaction.amount);
+  const currency = normalizeCurrency(meta.currency || transaction.currency);
+
+  if (meta.type === "wallet_topup") {
+    return processOneTimeFlutterwavePayment(supabase, {
+      transactionId: String(transaction.id),
+      txRef: transaction.tx_ref,
+      status: transaction.status,
+      paymentType: "wallet_topup",
+      userId: String(meta.userId || ""),
+      amountCents,
+      currency,
+    });
+  }
+
+  if (meta.type === "credit_purchase") {
+    const credits = parsePositiveInteger(meta.credits);
+    if (!credits) return null;
+
+    return processOneTimeFlutterwavePayment(supabase, {
+      transactionId: String(transaction.id),
+      txRef: transaction.tx_ref,
+      status: transaction.status,
+      paymentType: "credit_purchase",
+      userId: String(meta.userId || ""),
+      amountCents,
+      currency,
+      credits,
+    });
+  }
+
+  if (meta.type === "gift") {
+    return fulfillGiftPayment(supabase, {
+      reference: transaction.tx_ref,
+      transactionId: String(transaction.id),
+      status: transaction.status,
+      amountCents: amountToSmallestUnit(transaction.amount),
+      currency: normalizeCurrency(transaction.currency),
+    });
+  }
+
+  if (meta.type === "subscription" && typeof meta.tier === "string") {
+    return processSubscriptionFlutterwavePayment(supabase, {
+      transactionId: String(transaction.id),
+      txRef: transaction.tx_ref,
+      userId: String(meta.userId || ""),
+      tier: meta.tier,
+      amountCents,
+      currency,
+      status: transaction.status,
+    });
+  }
+
+  return null;
+}
+
+/**
+ * Apply a transaction fetched from Paystack's verify endpoint. The caller
+ * checks it against `parsedReference` (see paystackTransactionMatchesReference)
+ * and decides whose payment it is.
+ */
+export async function processVerifiedPaystackTransaction(
+  supabase: SupabaseClient,
+  transaction: PaystackVerifiedTransaction,
+  parsedReference: PaystackReference,
+  userId: string
+): Promise<ProviderPaymentProcessResult> {
+  const status = transaction.status === "success" ? "successful" : transaction.status;
+
+  if (parsedReference.paymentType === "subscription") {
+    return processSubscriptionFlutterwavePayment(supabase, {
+      transactionId: String(transaction.id),
+      txRef: transaction.reference,
+      userId,
+      tier: parsedReference.tier,
+      amountCents: parsedReference.amountCents,
+      currency: parsedReference.currency,
+      status,
+      provider: "paystack",
+    });
+  }
+
+  if (parsedReference.paymentType === "gift") {
+    return fulfillGiftPayment(supabase, {
+      reference: transaction.reference,
+      transactionId: String(transaction.id),
+      status,
+      amountCents: Number(transaction.amount),
+      currency: normalizeCurrency(transaction.currency),
+    });
+  }
+
+  if (parsedReference.paymentType === "wallet_topup") {
+    return processOneTimeFlutterwavePayment(supabase, {
+      transactionId: String(transaction.id),
+      txRef: transaction.reference,
+      status,
+      paymentType: "wallet_topup",
+      userId,
+      amountCents: parsedReference.amountCents,
+      currency: parsedReference.currency,
+      provider: "paystack",
+    });
+  }
+
+  return processOneTimeFlutterwavePayment(supabase, {
+    transactionId: String(transaction.id),
+    txRef: transaction.reference,
+    status,
+    paymentType: "credit_purchase",
+    userId,
+    amountCents: parsedReference.amountCents,
+    currency: parsedReference.currency,
+    credits: parsedReference.credits,
+    provider: "paystack",
+  });
+}
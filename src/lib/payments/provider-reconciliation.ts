@@ -0,0 +1,1290 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type Stripe from "stripe";
+import {
+  cardCreditPurchaseEntries,
+  postLedgerTransactionSafely,
+  walletEntries,
+  type LedgerEntryInput,
+  type LedgerTransactionKind,
+} from "@/lib/ledger/ledger";
+import { adjustWalletBalance, removeAvailableCredits } from "@/lib/payments/balance-adjustments";
+import { processOneTimeCheckoutSession } from "@/lib/payments/checkout-processing";
+import { amountToSmallestUnit, verifyFlutterwaveTransaction } from "@/lib/payments/flutterwave";
+import {
+  parsePaystackTxRef,
+  paystackTransactionMatchesReference,
+  verifyPaystackTransaction,
+} from "@/lib/payments/paystack";
+import {
+  processVerifiedFlutterwaveTransaction,
+  processVerifiedPaystackTransaction,
+  type ProviderPaymentProcessResult,
+} from "@/lib/payments/provider-processing";
+import { processSubscriptionCheckoutSession } from "@/lib/subscription/checkout-processing";
+import { downgradeMembership } from "@/lib/subscription/stripe-lifecycle";
+import { getActivePaidMembership } from "@/lib/subscription/tier-change";
+
+export type ReconciliationProvider = "stripe" | "paystack" | "flutterwave";
+
+export const RECONCILIATION_PROVIDERS: ReconciliationProvider[] = [
+  "stripe",
+  "paystack",
+  "flutterwave",
+];
+
+export type ProviderPaymentStatus = "succeeded" | "refunded" | "pending" | "failed";
+
+/** One payment line from a provider export, amounts in the smallest unit. */
+export type ProviderExportRow = {
+  reference: string;
+  transactionId: string | null;
+  amountCents: number;
+  refundedCents: number;
+  currency: string | null;
+  status: ProviderPaymentStatus;
+  providerStatus: string;
+};
+
+export type ReconciliationStatus =
+  | "matched"
+  | "missing"
+  | "duplicated"
+  | "amount_mismatch"
+  | "refunded_provider_only";
+
+export type ReconciliationRecordKind =
+  | "wallet_topup"
+  | "credit_purchase"
+  | "subscription"
+  | "tier_change"
+  | "subscription_renewal";
+
+export type ReconciliationRepairAction =
+  | "replay_payment"
+  | "reverse_duplicate"
+  | "adjust_amount"
+  | "reverse_refund"
+  | "dismiss";
+
+export type ReconciliationFinding = {
+  reference: string;
+  status: ReconciliationStatus;
+  recordKind: ReconciliationRecordKind | null;
+  userId: string | null;
+  providerTransactionId: string | null;
+  providerStatus: string;
+  providerAmountCents: number;
+  refundedCents: number;
+  recordedAmountCents: number | null;
+  currency: string | null;
+  details: Record<string, unknown>;
+};
+
+export type ReconciliationSummary = {
+  rows: number;
+  payments: number;
+  matched: number;
+  missing: number;
+  duplicated: number;
+  amount_mismatch: number;
+  refunded_provider_only: number;
+  /** Pending or failed at the provider and never credited here. */
+  skipped: number;
+  /** Flagged by an earlier import and already repaired or dismissed. */
+  resolved_earlier: number;
+  /** Flagged by an earlier import whose item is still open. */
+  already_open: number;
+};
+
+export type ReconciliationItemRow = {
+  id: string;
+  import_id: string;
+  provider: ReconciliationProvider;
+  reference: string;
+  status: Exclude<ReconciliationStatus, "matched">;
+  record_kind: ReconciliationRecordKind | null;
+  user_id: string | null;
+  provider_transaction_id: string | null;
+  provider_status: string | null;
+  provider_amount_cents: number;
+  refunded_cents: number;
+  recorded_amount_cents: number | null;
+  currency: string | null;
+  details: Record<string, unknown> | null;
+  resolution: "open" | "repaired" | "dismissed";
+};
+
+type ReconciliationErrorCode =
+  | "invalid_export"
+  | "not_found"
+  | "already_resolved"
+  | "unsupported_action"
+  | "missing_transaction_id"
+  | "unrecognized_payment"
+  | "payment_mismatch"
+  | "replay_failed"
+  | "already_consistent";
+
+export type ReconciliationFailure = {
+  ok: false;
+  status: number;
+  code: ReconciliationErrorCode;
+  message: string;
+};
+
+export type ProviderExportParseResult =
+  | { ok: true; rows: ProviderExportRow[] }
+  | ReconciliationFailure;
+
+export type ReconciliationImportResult =
+  | {
+      ok: true;
+      importId: string;
+      summary: ReconciliationSummary;
+      findings: ReconciliationFinding[];
+    }
+  | ReconciliationFailure;
+
+export type ReconciliationRepairResult =
+  | { ok: true; action: ReconciliationRepairAction; result: Record<string, unknown> }
+  | ReconciliationFailure;
+
+export type ReconciliationDependencies = {
+  now?: Date;
+  verifyFlutterwaveTransactionFn?: typeof verifyFlutterwaveTransaction;
+  verifyPaystackTransactionFn?: typeof verifyPaystackTransaction;
+  /** Retrieves a Checkout Session with `expand: ["subscription"]`. */
+  retrieveStripeCheckoutSessionFn?: (sessionId: string) => Promise<Stripe.Checkout.Session>;
+  downgradeMembershipFn?: typeof downgradeMembership;
+};
+
+type ExportField = "reference" | "transactionId" | "amount" | "refunded" | "currency" | "status";
+
+// Header names after normalizeHeader, in order of preference. Stripe exports
+// may carry a Checkout Session, an invoice (renewals) or only the object id.
+const COLUMN_ALIASES: Record<ReconciliationProvider, Record<ExportField, string[]>> = {
+  stripe: {
+    reference: ["checkout_session_id", "session_id", "checkout_session", "invoice_id", "invoice", "id"],
+    transactionId: ["payment_intent_id", "payment_intent", "charge_id", "id"],
+    amount: ["amount_total", "amount_paid", "amount"],
+    refunded: ["amount_refunded", "refunded_amount"],
+    currency: ["currency"],
+    status: ["payment_status", "status"],
+  },
+  paystack: {
+    reference: ["reference", "transaction_reference"],
+    transactionId: ["id", "transaction_id"],
+    amount: ["amount"],
+    refunded: ["amount_refunded", "refunded_amount"],
+    currency: ["currency"],
+    status: ["status"],
+  },
+  flutterwave: {
+    reference: ["tx_ref", "txref", "transaction_reference", "reference"],
+    transactionId: ["id", "transaction_id"],
+    amount: ["amount", "charged_amount"],
+    refunded: ["amount_refunded", "refunded_amount"],
+    currency: ["currency"],
+    status: ["status"],
+  },
+};
+
+// Dashboard CSV exports show major units. The Stripe and Paystack APIs (and
+// so their JSON exports) use the smallest unit; Flutterwave's use major units.
+const MINOR_UNIT_JSON_PROVIDERS = new Set<ReconciliationProvider>(["stripe", "paystack"]);
+
+const PROVIDER_STATUSES: Record<string, ProviderPaymentStatus> = {
+  success: "succeeded",
+  successful: "succeeded",
+  succeeded: "succeeded",
+  paid: "succeeded",
+  complete: "succeeded",
+  completed: "succeeded",
+  refunded: "refunded",
+  partially_refunded: "refunded",
+  reversed: "refunded",
+  pending: "pending",
+  processing: "pending",
+  ongoing: "pending",
+  open: "pending",
+};
+
+const PAYMENT_TRANSACTION_TYPES = ["topup", "credit_purchase", "subscription_payment"];
+
+const QUERY_CHUNK_SIZE = 200;
+
+const ITEM_COLUMNS =
+  "id, import_id, provider, reference, status, record_kind, user_id, provider_transaction_id, provider_status, provider_amount_cents, refunded_cents, recorded_amount_cents, currency, details, resolution";
+
+function failure(
+  status: number,
+  code: ReconciliationErrorCode,
+  message: string
+): ReconciliationFailure {
+  return { ok: false, status, code, message };
+}
+
+export function isReconciliationProvider(value: unknown): value is ReconciliationProvider {
+  return RECONCILIATION_PROVIDERS.includes(value as ReconciliationProvider);
+}
+
+/** RFC 4180 CSV: quoted fields may hold commas, doubled quotes and newlines. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some((value) => value.trim())) rows.push(row);
+    row = [];
+    field = "";
+  };
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (quoted) {
+      if (char !== '"') {
+        field += char;
+      } else if (text[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else {
+        quoted = false;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[index + 1] === "\n") index += 1;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  endRow();
+  return rows;
+}
+
+function normalizeHeader(value: string) {
+  return value.trim().toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_|_$/g, "");
+}
+
+function normalizeProviderStatus(value: string): ProviderPaymentStatus {
+  return PROVIDER_STATUSES[normalizeHeader(value)] || "failed";
+}
+
+function parseAmount(value: string, minorUnits: boolean) {
+  const cleaned = value.replace(/[^0-9.-]/g, "");
+  if (!cleaned) return null;
+  const amount = Number(cleaned);
+  if (!Number.isFinite(amount)) return null;
+  return minorUnits ? Math.round(amount) : amountToSmallestUnit(amount);
+}
+
+function pickField(
+  record: Record<string, string>,
+  provider: ReconciliationProvider,
+  field: ExportField
+) {
+  for (const column of COLUMN_ALIASES[provider][field]) {
+    const value = record[column]?.trim();
+    if (value) return value;
+  }
+  return null;
+}
+
+function readJsonRecords(content: string): Record<string, string>[] | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    return null;
+  }
+
+  // API list responses wrap the rows: { data: [...] }.
+  const items = Array.isArray(parsed)
+    ? parsed
+    : parsed && typeof parsed === "object" && Array.isArray((parsed as { data?: unknown }).data)
+      ? (parsed as { data: unknown[] }).data
+      : null;
+  if (!items) return null;
+
+  return items
+    .filter((item): item is Record<string, unknown> => Boolean(item) && typeof item === "object")
+    .map((item) => {
+      const record: Record<string, string> = {};
+      for (const [key, value] of Object.entries(item)) {
+        if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") {
+          record[normalizeHeader(key)] = String(value);
+        }
+      }
+      return record;
+    });
+}
+
+function readCsvRecords(content: string): Record<string, string>[] {
+  const [header, ...lines] = parseCsv(content);
+  if (!header) return [];
+  const columns = header.map(normalizeHeader);
+  return lines.map((line) =>
+    Object.fromEntries(columns.map((column, index) => [column, line[index] ?? ""]))
+  );
+}
+
+/**
+ * Read a provider's CSV or JSON transaction export into payment rows. Rows
+ * without a reference are dropped; a file with no usable rows is rejected.
+ */
+export function parseProviderExport(
+  provider: ReconciliationProvider,
+  content: string
+): ProviderExportParseResult {
+  const text = content.replace(/^\uFEFF/, "").trim();
+  const isJson = text.startsWith("[") || text.startsWith("{");
+  const records = isJson ? readJsonRecords(text) : readCsvRecords(text);
+
+  if (!records) {
+    return failure(400, "invalid_export", "The JSON export could not be read.");
+  }
+
+  const minorUnits = isJson && MINOR_UNIT_JSON_PROVIDERS.has(provider);
+  const rows: ProviderExportRow[] = [];
+
+  for (const record of records) {
+    const reference = pickField(record, provider, "reference");
+    const amountCents = parseAmount(pickField(record, provider, "amount") || "", minorUnits);
+    if (!reference || amountCents === null) continue;
+
+    const providerStatus = pickField(record, provider, "status") || "";
+    const refundedCents = parseAmount(pickField(record, provider, "refunded") || "", minorUnits) || 0;
+    let status = normalizeProviderStatus(providerStatus);
+    if (status === "succeeded" && refundedCents > 0) status = "refunded";
+
+    rows.push({
+      reference,
+      transactionId: pickField(record, provider, "transactionId"),
+      amountCents,
+      refundedCents: status === "refunded" && refundedCents === 0 ? amountCents : refundedCents,
+      currency: pickField(record, provider, "currency")?.toLowerCase() || null,
+      status,
+      providerStatus,
+    });
+  }
+
+  if (rows.length === 0) {
+    return failure(
+      400,
+      "invalid_export",
+      `No ${provider} payments with a reference and amount were found in the export.`
+    );
+  }
+
+  return { ok: true, rows };
+}
+
+type WalletPaymentRow = {
+  id: string;
+  user_id: string;
+  type: string;
+  amount_cents: number | null;
+  description: string | null;
+  reference_id: string;
+};
+
+type SubscriptionProcessingRow = {
+  session_id: string;
+  user_id: string;
+  amount_cents: number | null;
+  credits_allocated: number | null;
+  status: string;
+};
+
+type TierChangePaymentRow = {
+  id: string;
+  user_id: string;
+  amount_due_cents: number;
+  status: string;
+  payment_reference: string;
+};
+
+type PaymentRecords = {
+  walletRows: WalletPaymentRow[];
+  subscription: SubscriptionProcessingRow | null;
+  tierChange: TierChangePaymentRow | null;
+};
+
+export type RecordedPayment = {
+  kind: ReconciliationRecordKind;
+  userId: string;
+  amountCents: number | null;
+  /** Credits the payment granted, when known. */
+  credits: number | null;
+  count: number;
+  walletTransactionIds: string[];
+};
+
+async function selectByReferences<T>(
+  references: string[],
+  load: (chunk: string[]) => PromiseLike<{ data: unknown; error: unknown }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let start = 0; start < references.length; start += QUERY_CHUNK_SIZE) {
+    const { data, error } = await load(references.slice(start, start + QUERY_CHUNK_SIZE));
+    if (error) throw error;
+    rows.push(...((data || []) as T[]));
+  }
+  return rows;
+}
+
+async function loadPaymentRecords(
+  supabase: SupabaseClient,
+  references: string[]
+): Promise<Map<string, PaymentRecords>> {
+  const [walletRows, subscriptions, tierChanges] = await Promise.all([
+    selectByReferences<WalletPaymentRow>(references, (chunk) =>
+      supabase
+        .from("wallet_transactions")
+        .select("id, user_id, type, amount_cents, description, reference_id")
+        .in("reference_id", chunk)
+        .in("type", PAYMENT_TRANSACTION_TYPES)
+    ),
+    selectByReferences<SubscriptionProcessingRow>(references, (chunk) =>
+      supabase
+        .from("subscription_checkout_processing")
+        .select("session_id, user_id, amount_cents, credits_allocated, status")
+        .in("session_id", chunk)
+    ),
+    selectByReferences<TierChangePaymentRow>(references, (chunk) =>
+      supabase
+        .from("subscription_tier_changes")
+        .select("id, user_id, amount_due_cents, status, payment_reference")
+        .in("payment_reference", chunk)
+    ),
+  ]);
+
+  const records = new Map<string, PaymentRecords>(
+    references.map((reference) => [
+      reference,
+      { walletRows: [], subscription: null, tierChange: null },
+    ])
+  );
+  for (const row of walletRows) records.get(row.reference_id)?.walletRows.push(row);
+  for (const row of subscriptions) {
+    const entry = records.get(row.session_id);
+    if (entry) entry.subscription = row;
+  }
+  for (const row of tierChanges) {
+    const entry = records.get(row.payment_reference);
+    if (entry) entry.tierChange = row;
+  }
+  return records;
+}
+
+/** Credits in a purchase, from the description every processor writes. */
+function purchasedCredits(description: string | null) {
+  const match = description?.match(/Purchased (\d+) credit/);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * What we credited for a reference. Plan checkouts also leave a tracking-only
+ * subscription_payment row, so the checkout tables are consulted first.
+ */
+function describeRecordedPayment(records: PaymentRecords): RecordedPayment | null {
+  const byType = (type: string) => records.walletRows.filter((row) => row.type === type);
+  const ids = (rows: WalletPaymentRow[]) => rows.map((row) => row.id);
+
+  if (records.tierChange?.status === "completed") {
+    return {
+      kind: "tier_change",
+      userId: records.tierChange.user_id,
+      amountCents: Number(records.tierChange.amount_due_cents),
+      credits: null,
+      count: 1,
+      walletTransactionIds: [],
+    };
+  }
+
+  if (records.subscription?.status === "completed") {
+    const payments = byType("subscription_payment");
+    return {
+      kind: "subscription",
+      userId: records.subscription.user_id,
+      amountCents:
+        records.subscription.amount_cents ??
+        (payments[0] ? Number(payments[0].amount_cents || 0) : null),
+      credits: records.subscription.credits_allocated,
+      count: 1,
+      walletTransactionIds: ids(payments),
+    };
+  }
+
+  const topups = byType("topup");
+  if (topups.length > 0) {
+    return {
+      kind: "wallet_topup",
+      userId: topups[0].user_id,
+      amountCents: Number(topups[0].amount_cents || 0),
+      credits: null,
+      count: topups.length,
+      walletTransactionIds: ids(topups),
+    };
+  }
+
+  // Credit purchases are recorded with the card amount negated, or 0 when the
+  // amount was unknown.
+  const purchases = byType("credit_purchase");
+  if (purchases.length > 0) {
+    return {
+      kind: "credit_purchase",
+      userId: purchases[0].user_id,
+      amountCents: Math.abs(Number(purchases[0].amount_cents || 0)) || null,
+      credits: purchasedCredits(purchases[0].description),
+      count: purchases.length,
+      walletTransactionIds: ids(purchases),
+    };
+  }
+
+  const renewals = byType("subscription_payment");
+  if (renewals.length > 0) {
+    return {
+      kind: "subscription_renewal",
+      userId: renewals[0].user_id,
+      amountCents: Number(renewals[0].amount_cents || 0),
+      credits: null,
+      count: renewals.length,
+      walletTransactionIds: ids(renewals),
+    };
+  }
+
+  return null;
+}
+
+/** What we recorded for one provider reference, or null if nothing. */
+export async function findRecordedPayment(supabase: SupabaseClient, reference: string) {
+  const records = await loadPaymentRecords(supabase, [reference]);
+  return describeRecordedPayment(records.get(reference)!);
+}
+
+type PaymentDisputeClawbackRow = {
+  reference: string;
+  wallet_clawed_back_cents: number | null;
+  credits_clawed_back: number | null;
+  suspended_membership_id: string | null;
+  clawed_back_at: string | null;
+};
+
+/**
+ * References whose refund or chargeback the payment dispute webhooks already
+ * clawed back, so reconciliation doesn't take the money a second time.
+ */
+async function loadClawedBackReferences(
+  supabase: SupabaseClient,
+  provider: ReconciliationProvider,
+  references: string[]
+) {
+  const rows = await selectByReferences<PaymentDisputeClawbackRow>(references, (chunk) =>
+    supabase
+      .from("payment_disputes")
+      .select(
+        "reference, wallet_clawed_back_cents, credits_clawed_back, suspended_membership_id, clawed_back_at"
+      )
+      .eq("provider", provider)
+      .in("reference", chunk)
+  );
+  return new Set(
+    rows
+      .filter(
+        (row) =>
+          Boolean(row.clawed_back_at) ||
+          Number(row.wallet_clawed_back_cents || 0) > 0 ||
+          Number(row.credits_clawed_back || 0) > 0 ||
+          Boolean(row.suspended_membership_id)
+      )
+      .map((row) => row.reference)
+  );
+}
+
+/**
+ * Classify one reference's export rows against what we recorded for it.
+ * Returns null for payments that neither collected money nor were credited.
+ */
+function classifyProviderPayment(
+  rows: ProviderExportRow[],
+  records: PaymentRecords,
+  clawedBack = false
+): ReconciliationFinding | null {
+  const collected = rows.filter((row) => row.status === "succeeded" || row.status === "refunded");
+  const row = collected[0] || rows[0];
+  const recorded = describeRecordedPayment(records);
+
+  const finding = (
+    status: ReconciliationStatus,
+    details: Record<string, unknown> = {},
+    providerAmountCents = row.amountCents
+  ): ReconciliationFinding => ({
+    reference: row.reference,
+    status,
+    recordKind: recorded?.kind || null,
+    userId: recorded?.userId || null,
+    providerTransactionId: row.transactionId,
+    providerStatus: row.providerStatus,
+    providerAmountCents,
+    refundedCents: row.refundedCents,
+    recordedAmountCents: recorded?.amountCents ?? null,
+    currency: row.currency,
+    details: recorded
+      ? { ...details, recorded_count: recorded.count, wallet_transaction_ids: recorded.walletTransactionIds }
+      : details,
+  });
+
+  if (collected.length === 0) {
+    if (!recorded || row.status === "pending") return null;
+    // Credited here although the provider collected nothing.
+    return finding("amount_mismatch", { reason: "not_collected" }, 0);
+  }
+
+  if (collected.length > 1) {
+    return finding("duplicated", { side: "provider", provider_count: collected.length });
+  }
+
+  if (!recorded) {
+    return row.refundedCents >= row.amountCents ? finding("matched") : finding("missing");
+  }
+
+  if (recorded.count > 1) {
+    return finding("duplicated", { side: "ours" });
+  }
+
+  if (row.status === "refunded") {
+    // The dispute webhooks already reversed it on our side.
+    return clawedBack ? finding("matched") : finding("refunded_provider_only");
+  }
+
+  if (recorded.amountCents !== null && recorded.amountCents !== row.amountCents) {
+    return finding("amount_mismatch");
+  }
+
+  return finding("matched");
+}
+
+/**
+ * Items earlier imports raised for these references: findings already
+ * repaired or dismissed (by reference and status), and references with an
+ * item still open, so overlapping exports don't raise a payment twice.
+ */
+async function loadEarlierItems(
+  supabase: SupabaseClient,
+  provider: ReconciliationProvider,
+  references: string[]
+) {
+  const rows = await selectByReferences<{ reference: string; status: string; resolution: string }>(
+    references,
+    (chunk) =>
+      supabase
+        .from("payment_reconciliation_items")
+        .select("reference, status, resolution")
+        .eq("provider", provider)
+        .in("reference", chunk)
+  );
+  return {
+    resolved: new Set(
+      rows
+        .filter((row) => row.resolution === "repaired" || row.resolution === "dismissed")
+        .map((row) => `${row.reference}:${row.status}`)
+    ),
+    open: new Set(rows.filter((row) => row.resolution === "open").map((row) => row.reference)),
+  };
+}
+
+/**
+ * Import a provider export: match every payment in it by reference and store
+ * the ones that need attention. Findings an admin already repaired or
+ * dismissed in an earlier import, and references with an item still open,
+ * are counted but not raised again.
+ */
+export async function importProviderExport(
+  supabase: SupabaseClient,
+  params: {
+    provider: ReconciliationProvider;
+    content: string;
+    fileName?: string | null;
+    importedBy: string;
+  },
+  deps: ReconciliationDependencies = {}
+): Promise<ReconciliationImportResult> {
+  const parsed = parseProviderExport(params.provider, params.content);
+  if (!parsed.ok) return parsed;
+
+  const rowsByReference = new Map<string, ProviderExportRow[]>();
+  for (const row of parsed.rows) {
+    const group = rowsByReference.get(row.reference) || [];
+    group.push(row);
+    rowsByReference.set(row.reference, group);
+  }
+  const references = [...rowsByReference.keys()];
+
+  const [records, earlier, clawedBack] = await Promise.all([
+    loadPaymentRecords(supabase, references),
+    loadEarlierItems(supabase, params.provider, references),
+    loadClawedBackReferences(supabase, params.provider, references),
+  ]);
+
+  const summary: ReconciliationSummary = {
+    rows: parsed.rows.length,
+    payments: references.length,
+    matched: 0,
+    missing: 0,
+    duplicated: 0,
+    amount_mismatch: 0,
+    refunded_provider_only: 0,
+    skipped: 0,
+    resolved_earlier: 0,
+    already_open: 0,
+  };
+  const findings: ReconciliationFinding[] = [];
+
+  for (const [reference, rows] of rowsByReference) {
+    const finding = classifyProviderPayment(
+      rows,
+      records.get(reference)!,
+      clawedBack.has(reference)
+    );
+    if (!finding) {
+      summary.skipped += 1;
+    } else if (finding.status === "matched") {
+      summary.matched += 1;
+    } else if (earlier.resolved.has(`${reference}:${finding.status}`)) {
+      summary.resolved_earlier += 1;
+    } else if (earlier.open.has(reference)) {
+      summary.already_open += 1;
+    } else {
+      summary[finding.status] += 1;
+      findings.push(finding);
+    }
+  }
+
+  const now = deps.now || new Date();
+  const { data: importRow, error: importError } = await supabase
+    .from("payment_reconciliation_imports")
+    .insert({
+      provider: params.provider,
+      file_name: params.fileName || null,
+      imported_by: params.importedBy,
+      row_count: parsed.rows.length,
+      summary,
+      created_at: now.toISOString(),
+    })
+    .select("id")
+    .single<{ id: string }>();
+
+  if (importError) throw importError;
+
+  if (findings.length > 0) {
+    const { error: itemsError } = await supabase.from("payment_reconciliation_items").insert(
+      findings.map((finding) => ({
+        import_id: importRow.id,
+        provider: params.provider,
+        reference: finding.reference,
+        status: finding.status,
+        record_kind: finding.recordKind,
+        user_id: finding.userId,
+        provider_transaction_id: finding.providerTransactionId,
+        provider_status: finding.providerStatus,
+        provider_amount_cents: finding.providerAmountCents,
+        refunded_cents: finding.refundedCents,
+        recorded_amount_cents: finding.recordedAmountCents,
+        currency: finding.currency,
+        details: finding.details,
+        created_at: now.toISOString(),
+      }))
+    );
+
+    if (itemsError) {
+      await supabase.from("payment_reconciliation_imports").delete().eq("id", importRow.id);
+      throw itemsError;
+    }
+  }
+
+  return { ok: true, importId: importRow.id, summary, findings };
+}
+
+/** Repairs offered for an open item; every item can also be dismissed. */
+export function getAvailableRepairActions(
+  item: Pick<ReconciliationItemRow, "provider" | "reference" | "status" | "record_kind" | "details">
+): ReconciliationRepairAction[] {
+  const actions: ReconciliationRepairAction[] = [];
+  const kind = item.record_kind;
+
+  if (item.status === "missing") {
+    // Stripe renewals are invoices, not Checkout Sessions we can re-read.
+    if (item.provider !== "stripe" || item.reference.startsWith("cs_")) {
+      actions.push("replay_payment");
+    }
+  } else if (item.status === "duplicated") {
+    if (item.details?.side === "ours" && (kind === "wallet_topup" || kind === "credit_purchase")) {
+      actions.push("reverse_duplicate");
+    }
+  } else if (item.status === "amount_mismatch") {
+    if (kind === "wallet_topup") actions.push("adjust_amount");
+  } else if (item.status === "refunded_provider_only") {
+    actions.push("reverse_refund");
+  }
+
+  actions.push("dismiss");
+  return actions;
+}
+
+type RepairContext = {
+  supabase: SupabaseClient;
+  item: ReconciliationItemRow;
+  adminUserId: string;
+  deps: ReconciliationDependencies;
+};
+
+type RepairOutcome = { ok: true; result: Record<string, unknown> } | ReconciliationFailure;
+
+function replayOutcome(result: ProviderPaymentProcessResult | null): RepairOutcome {
+  if (!result) {
+    return failure(
+      422,
+      "unrecognized_payment",
+      "The provider's record of this payment does not describe a MatchIndeed checkout."
+    );
+  }
+  if (!result.success) {
+    return failure(409, "replay_failed", result.message);
+  }
+  return {
+    ok: true,
+    result: { message: result.message, already_processed: Boolean(result.alreadyProcessed) },
+  };
+}
+
+/**
+ * Re-read the payment from the provider and run it through the same processor
+ * as the webhook. The export itself is never trusted to credit anyone.
+ */
+async function replayPayment({ supabase, item, deps }: RepairContext): Promise<RepairOutcome> {
+  if (item.provider === "flutterwave") {
+    if (!item.provider_transaction_id) {
+      return failure(
+        422,
+        "missing_transaction_id",
+        "The export row has no Flutterwave transaction id to verify."
+      );
+    }
+    const verify = deps.verifyFlutterwaveTransactionFn || verifyFlutterwaveTransaction;
+    const transaction = await verify(item.provider_transaction_id);
+    if (transaction.tx_ref !== item.reference) {
+      return failure(409, "payment_mismatch", "Flutterwave returned a different reference.");
+    }
+    return replayOutcome(await processVerifiedFlutterwaveTransaction(supabase, transaction));
+  }
+
+  if (item.provider === "paystack") {
+    const parsedReference = parsePaystackTxRef(item.reference);
+    if (!parsedReference) return replayOutcome(null);
+
+    const verify = deps.verifyPaystackTransactionFn || verifyPaystackTransaction;
+    const transaction = await verify(item.reference);
+    const userId =
+      typeof transaction.metadata?.userId === "string" ? transaction.metadata.userId : null;
+    if (!userId) return replayOutcome(null);
+    if (!paystackTransactionMatchesReference(transaction, item.reference, parsedReference)) {
+      return failure(
+        409,
+        "payment_mismatch",
+        "Verified payment amount or currency does not match checkout metadata."
+      );
+    }
+    return replayOutcome(
+      await processVerifiedPaystackTransaction(supabase, transaction, parsedReference, userId)
+    );
+  }
+
+  if (!deps.retrieveStripeCheckoutSessionFn) {
+    throw new Error("Stripe is not configured for payment reconciliation.");
+  }
+  const session = await deps.retrieveStripeCheckoutSessionFn(item.reference);
+  const paymentType = session.metadata?.type;
+  if (paymentType === "wallet_topup" || paymentType === "credit_purchase") {
+    return replayOutcome(await processOneTimeCheckoutSession(supabase, session));
+  }
+  if (session.metadata?.tier) {
+    return replayOutcome(await processSubscriptionCheckoutSession(supabase, session));
+  }
+  return replayOutcome(null);
+}
+
+function adjustWallet(
+  { supabase, item, adminUserId, deps }: RepairContext,
+  userId: string,
+  amountCents: number,
+  description: string
+) {
+  return adjustWalletBalance(supabase, {
+    userId,
+    amountCents,
+    type: "admin_adjustment",
+    description,
+    referenceId: `reconciliation:${item.id}`,
+    adminId: adminUserId,
+    now: deps.now,
+  });
+}
+
+function removeCredits(
+  { supabase, deps }: RepairContext,
+  userId: string,
+  credits: number,
+  description: string
+) {
+  return removeAvailableCredits(supabase, {
+    userId,
+    credits,
+    actionType: "payment_reconciliation",
+    description,
+    now: deps.now,
+  });
+}
+
+async function postRepair(
+  { supabase, item, adminUserId }: RepairContext,
+  userId: string,
+  kind: LedgerTransactionKind,
+  description: string,
+  entries: LedgerEntryInput[]
+) {
+  await postLedgerTransactionSafely(supabase, {
+    kind,
+    userId,
+    idempotencyKey: `payment_reconciliation:${item.id}`,
+    description,
+    metadata: { admin_id: adminUserId, provider: item.provider, reference: item.reference },
+    entries,
+  });
+}
+
+async function loadCreditedRows(
+  { supabase, item }: RepairContext,
+  type: "topup" | "credit_purchase"
+) {
+  const { data, error } = await supabase
+    .from("wallet_transactions")
+    .select("id, user_id, amount_cents, description, created_at")
+    .eq("reference_id", item.reference)
+    .eq("type", type)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as Array<{
+    id: string;
+    user_id: string;
+    amount_cents: number | null;
+    description: string | null;
+  }>;
+}
+
+/**
+ * The ledger posts each payment once per idempotency key, so a duplicate is
+ * drift in the wallet or credits cache only; reversing it posts nothing.
+ */
+async function reverseDuplicate(context: RepairContext): Promise<RepairOutcome> {
+  const { item } = context;
+  const type = item.record_kind === "wallet_topup" ? "topup" : "credit_purchase";
+  const [first, ...extra] = await loadCreditedRows(context, type);
+  if (!first || extra.length === 0) {
+    return failure(409, "already_consistent", "This payment is only recorded once now.");
+  }
+
+  const description = `Reversed duplicate ${item.provider} payment ${item.reference}`;
+
+  if (type === "topup") {
+    const extraCents = extra.reduce((sum, row) => sum + Number(row.amount_cents || 0), 0);
+    const applied = await adjustWallet(context, first.user_id, -extraCents, description);
+    return { ok: true, result: { wallet_adjustment_cents: applied } };
+  }
+
+  const credits = purchasedCredits(first.description);
+  if (!credits) {
+    return failure(
+      422,
+      "unrecognized_payment",
+      "The number of credits in this purchase could not be determined."
+    );
+  }
+  const removed = await removeCredits(context, first.user_id, credits * extra.length, description);
+  return { ok: true, result: { credits_removed: removed } };
+}
+
+async function adjustAmount(context: RepairContext): Promise<RepairOutcome> {
+  const { item } = context;
+  if (!item.user_id || item.recorded_amount_cents === null) return replayOutcome(null);
+
+  const difference = Number(item.provider_amount_cents) - Number(item.recorded_amount_cents);
+  const description = `Corrected ${item.provider} top-up ${item.reference} to the settled amount`;
+  const applied = await adjustWallet(context, item.user_id, difference, description);
+  await postRepair(
+    context,
+    item.user_id,
+    "admin_adjustment",
+    description,
+    walletEntries(item.user_id, applied, "payment_clearing")
+  );
+  return { ok: true, result: { wallet_adjustment_cents: applied } };
+}
+
+/**
+ * The membership a refunded plan payment paid for, or null when a later
+ * payment or plan change has replaced it since.
+ */
+async function findRefundedMembership(
+  { supabase, item }: RepairContext,
+  userId: string,
+  now: Date
+) {
+  let paid: { membershipId?: string | null; tier?: string | null; paidAt: string | null } | null =
+    null;
+
+  if (item.record_kind === "tier_change") {
+    const { data, error } = await supabase
+      .from("subscription_tier_changes")
+      .select("membership_id, to_tier, starts_at")
+      .eq("payment_reference", item.reference)
+      .maybeSingle<{ membership_id: string | null; to_tier: string; starts_at: string | null }>();
+    if (error) throw error;
+    if (data) paid = { membershipId: data.membership_id, tier: data.to_tier, paidAt: data.starts_at };
+  } else if (item.record_kind === "subscription") {
+    const { data, error } = await supabase
+      .from("subscription_checkout_processing")
+      .select("tier, processed_at, updated_at")
+      .eq("session_id", item.reference)
+      .maybeSingle<{ tier: string; processed_at: string | null; updated_at: string | null }>();
+    if (error) throw error;
+    if (data) paid = { tier: data.tier, paidAt: data.processed_at || data.updated_at };
+  } else {
+    const { data, error } = await supabase
+      .from("wallet_transactions")
+      .select("created_at")
+      .eq("reference_id", item.reference)
+      .eq("type", "subscription_payment")
+      .order("created_at", { ascending: true })
+      .limit(1)
+      .maybeSingle<{ created_at: string | null }>();
+    if (error) throw error;
+    if (data) paid = { paidAt: data.created_at };
+  }
+  if (!paid) return null;
+
+  const membership = await getActivePaidMembership(supabase, userId, now);
+  if (!membership) return null;
+  if (paid.membershipId && membership.id !== paid.membershipId) return null;
+  if (paid.tier && membership.tier !== paid.tier) return null;
+  // A cycle that started after this payment was paid for by a later one.
+  if (
+    paid.paidAt &&
+    membership.starts_at &&
+    new Date(membership.starts_at).getTime() > new Date(paid.paidAt).getTime()
+  ) {
+    return null;
+  }
+  return membership;
+}
+
+async function reverseRefund(context: RepairContext): Promise<RepairOutcome> {
+  const { supabase, item, deps } = context;
+  if (!item.user_id) return replayOutcome(null);
+
+  // Overlapping imports can raise the same refund twice.
+  const { data: reversed, error: reversedError } = await supabase
+    .from("payment_reconciliation_items")
+    .select("id")
+    .eq("provider", item.provider)
+    .eq("reference", item.reference)
+    .eq("resolution", "repaired")
+    .eq("repair_action", "reverse_refund")
+    .neq("id", item.id)
+    .limit(1);
+
+  if (reversedError) throw reversedError;
+  if (reversed && reversed.length > 0) {
+    return failure(409, "already_consistent", "This refund was already reversed by another item.");
+  }
+
+  // A refund webhook that landed after the import may have clawed it back.
+  const clawedBack = await loadClawedBackReferences(supabase, item.provider, [item.reference]);
+  if (clawedBack.has(item.reference)) {
+    return failure(
+      409,
+      "already_consistent",
+      "This refund was already clawed back when the provider reported it."
+    );
+  }
+
+  const refundedCents = Number(item.refunded_cents || item.provider_amount_cents);
+  const description = `${item.provider} refunded payment ${item.reference}`;
+
+  if (item.record_kind === "wallet_topup") {
+    const applied = await adjustWallet(context, item.user_id, -refundedCents, description);
+    await postRepair(
+      context,
+      item.user_id,
+      "refund",
+      description,
+      walletEntries(item.user_id, applied, "payment_clearing")
+    );
+    return { ok: true, result: { wallet_adjustment_cents: applied } };
+  }
+
+  if (item.record_kind === "credit_purchase") {
+    const [purchase] = await loadCreditedRows(context, "credit_purchase");
+    const credits = purchasedCredits(purchase?.description || null);
+    if (!credits) {
+      return failure(
+        422,
+        "unrecognized_payment",
+        "The number of credits in this purchase could not be determined."
+      );
+    }
+    // A partial refund takes back the matching share of the credits.
+    const share = Math.min(1, refundedCents / Math.max(1, Number(item.provider_amount_cents)));
+    const removed = await removeCredits(
+      context,
+      item.user_id,
+      Math.round(credits * share),
+      description
+    );
+    await postRepair(
+      context,
+      item.user_id,
+      "refund",
+      description,
+      cardCreditPurchaseEntries(item.user_id, -refundedCents, -removed)
+    );
+    return { ok: true, result: { credits_removed: removed } };
+  }
+
+  const now = deps.now || new Date();
+  const membership = await findRefundedMembership(context, item.user_id, now);
+  if (!membership) {
+    return { ok: true, result: { membership_ended: false } };
+  }
+  const downgrade = deps.downgradeMembershipFn || downgradeMembership;
+  const ended = await downgrade(
+    supabase,
+    membership,
+    { reason: "The payment for your plan was refunded." },
+    { now }
+  );
+  return { ok: true, result: { membership_ended: ended } };
+}
+
+const REPAIRS: Record<
+  Exclude<ReconciliationRepairAction, "dismiss">,
+  (context: RepairContext) => Promise<RepairOutcome>
+> = {
+  replay_payment: replayPayment,
+  reverse_duplicate: reverseDuplicate,
+  adjust_amount: adjustAmount,
+  reverse_refund: reverseRefund,
+};
+
+/**
+ * Apply one repair (or dismiss) to an open item. The item is claimed first so
+ * a double click cannot run a repair twice, and reopened if the repair fails.
+ */
+export async function repairReconciliationItem(
+  supabase: SupabaseClient,
+  params: {
+    itemId: string;
+    action: ReconciliationRepairAction;
+    adminUserId: string;
+    note?: string | null;
+  },
+  deps: ReconciliationDependencies = {}
+): Promise<ReconciliationRepairResult> {
+  const { data: item, error: itemError } = await supabase
+    .from("payment_reconciliation_items")
+    .select(ITEM_COLUMNS)
+    .eq("id", params.itemId)
+    .maybeSingle<ReconciliationItemRow>();
+
+  if (itemError) throw itemError;
+  if (!item) return failure(404, "not_found", "Reconciliation item not found.");
+  if (item.resolution !== "open") {
+    return failure(409, "already_resolved", "This item has already been resolved.");
+  }
+  if (!getAvailableRepairActions(item).includes(params.action)) {
+    return failure(400, "unsupported_action", "That repair is not available for this item.");
+  }
+
+  const now = deps.now || new Date();
+  const { data: claimed, error: claimError } = await supabase
+    .from("payment_reconciliation_items")
+    .update({
+      resolution: params.action === "dismiss" ? "dismissed" : "repaired",
+      repair_action: params.action,
+      resolution_note: params.note || null,
+      resolved_by: params.adminUserId,
+      resolved_at: now.toISOString(),
+    })
+    .eq("id", item.id)
+    .eq("resolution", "open")
+    .select("id");
+
+  if (claimError) throw claimError;
+  if (!claimed || claimed.length === 0) {
+    return failure(409, "already_resolved", "This item has already been resolved.");
+  }
+
+  if (params.action === "dismiss") {
+    return { ok: true, action: params.action, result: {} };
+  }
+
+  const reopen = () =>
+    supabase
+      .from("payment_reconciliation_items")
+      .update({
+        resolution: "open",
+        repair_action: null,
+        resolution_note: null,
+        resolved_by: null,
+        resolved_at: null,
+      })
+      .eq("id", item.id);
+
+  let outcome: RepairOutcome;
+  try {
+    outcome = await REPAIRS[params.action]({
+      supabase,
+      item,
+      adminUserId: params.adminUserId,
+      deps,
+    });
+  } catch (error) {
+    await reopen();
+    throw error;
+  }
+
+  if (!outcome.ok) {
+    await reopen();
+    return outcome;
+  }
+
+  const { error: resultError } = await supabase
+    .from("payment_reconciliation_items")
+    .update({ repair_result: outcome.result })
+    .eq("id", item.id);
+
+  if (resultError) {
+    console.warn("[payment-reconciliation] Failed to store repair result:", resultError);
+  }
+
+  return { ok: true, action: params.action, result: outcome.result };
+}
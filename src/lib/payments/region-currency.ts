@@ -1,14 +1,21 @@
-export type RegionalCheckoutCurrency = "NGN" | "USD";
+import {
+  getCurrencyForCountryCode,
+  type CurrencyKey,
+  type SupportedCurrency,
+} from "@/lib/payments/currencies";
 
-/** Nigeria pays in NGN; every international market pays in USD. */
+export type RegionalCheckoutCurrency = SupportedCurrency;
+
+/**
+ * Nigeria, Ghana, Kenya, South Africa, the UK and the eurozone pay in their
+ * local currency; every other market pays in USD.
+ */
 export function getCheckoutCurrencyForCountryCode(
   countryCode?: string | null
 ): RegionalCheckoutCurrency {
-  return countryCode?.trim().toUpperCase() === "NG" ? "NGN" : "USD";
+  return getCurrencyForCountryCode(countryCode);
 }
 
-export function getApiCurrencyForCountryCode(
-  countryCode?: string | null
-): "ngn" | "usd" {
-  return getCheckoutCurrencyForCountryCode(countryCode) === "NGN" ? "ngn" : "usd";
+export function getApiCurrencyForCountryCode(countryCode?: string | null): CurrencyKey {
+  return getCheckoutCurrencyForCountryCode(countryCode).toLowerCase() as CurrencyKey;
 }
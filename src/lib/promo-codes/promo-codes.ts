@@ -0,0 +1,570 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { normalizeCurrencyCode } from "@/lib/payments/currencies";
+import { DEFAULT_SUBSCRIPTION_PRICING, type TierId } from "@/lib/subscription/config";
+
+/**
+ * Promo codes: percentage or fixed discounts on new subscriptions.
+ *
+ * Checkout (Paystack, Flutterwave or wallet) prices the plan server-side,
+ * quotes the code against it with quotePromoCode and reserves a pending
+ * redemption linked to the payment reference; the reservation is where the
+ * usage caps are enforced, atomically. The payment processors mark the
+ * redemption applied once the payment lands, which also stamps the code on
+ * the wallet transaction recorded for that payment. A reservation that is
+ * never paid stops counting towards usage caps after
+ * PROMO_RESERVATION_MINUTES.
+ */
+
+export type PromoDiscountType = "percent" | "fixed";
+
+export type PromoProvider = "paystack" | "flutterwave" | "wallet";
+
+export type PromoRedemptionStatus = "pending" | "applied";
+
+export type PromoCodeRow = {
+  id: string;
+  code: string;
+  description: string | null;
+  discount_type: PromoDiscountType;
+  percent_off: number | null;
+  amount_off_cents: number | null;
+  /** Currency of a fixed discount; percentage codes work in any currency. */
+  currency: string | null;
+  /** Null applies to every tier. */
+  tiers: TierId[] | null;
+  first_purchase_only: boolean;
+  max_redemptions: number | null;
+  max_redemptions_per_user: number;
+  starts_at: string | null;
+  expires_at: string | null;
+  active: boolean;
+  created_at: string;
+};
+
+export type PromoRedemptionRow = {
+  id: string;
+  promo_code_id: string;
+  user_id: string;
+  tier: TierId;
+  currency: string;
+  list_amount_cents: number;
+  discount_cents: number;
+  amount_cents: number;
+  provider: PromoProvider;
+  payment_reference: string;
+  status: PromoRedemptionStatus;
+  applied_at: string | null;
+  created_at: string;
+};
+
+export type PromoQuote = {
+  promoCodeId: string;
+  code: string;
+  currency: string;
+  listAmountCents: number;
+  discountCents: number;
+  amountCents: number;
+};
+
+type PromoErrorCode =
+  | "not_found"
+  | "not_started"
+  | "expired"
+  | "not_applicable"
+  | "first_purchase_only"
+  | "usage_limit"
+  | "already_used";
+
+export type PromoFailure = {
+  ok: false;
+  status: number;
+  code: PromoErrorCode;
+  message: string;
+};
+
+export type PromoQuoteResult = { ok: true; promo: PromoCodeRow; quote: PromoQuote } | PromoFailure;
+
+export type PromoReservationResult =
+  | { ok: true; redemption: PromoRedemptionRow }
+  | PromoFailure;
+
+export const PROMO_RESERVATION_MINUTES = 60;
+
+export const PROMO_CODE_COLUMNS =
+  "id, code, description, discount_type, percent_off, amount_off_cents, currency, tiers, first_purchase_only, max_redemptions, max_redemptions_per_user, starts_at, expires_at, active, created_at";
+
+const PROMO_REDEMPTION_COLUMNS =
+  "id, promo_code_id, user_id, tier, currency, list_amount_cents, discount_cents, amount_cents, provider, payment_reference, status, applied_at, created_at";
+
+const CODE_PATTERN = /^[A-Z0-9][A-Z0-9_-]{2,31}$/;
+
+export type PromoCodeInput = Omit<PromoCodeRow, "id" | "active" | "created_at">;
+
+function failure(status: number, code: PromoErrorCode, message: string): PromoFailure {
+  return { ok: false, status, code, message };
+}
+
+function usageLimitFailure() {
+  return failure(409, "usage_limit", "This promo code has been fully claimed.");
+}
+
+function alreadyUsedFailure() {
+  return failure(409, "already_used", "You've already used this promo code.");
+}
+
+export function normalizePromoCode(value: unknown) {
+  if (typeof value !== "string") return null;
+  const code = value.trim().toUpperCase();
+  return CODE_PATTERN.test(code) ? code : null;
+}
+
+function optionalPositiveInteger(value: unknown) {
+  if (value === undefined || value === null || value === "") return null;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : NaN;
+}
+
+function optionalDate(value: unknown) {
+  if (value === undefined || value === null || value === "") return null;
+  const parsed = typeof value === "string" ? new Date(value) : null;
+  return parsed && !Number.isNaN(parsed.getTime()) ? parsed.toISOString() : undefined;
+}
+
+/** Validate an admin's new code. Messages are shown to the admin as-is. */
+export function parsePromoCodeInput(
+  body: Record<string, unknown>
+): { ok: true; values: PromoCodeInput } | { ok: false; message: string } {
+  const code = normalizePromoCode(body.code);
+  if (!code) {
+    return {
+      ok: false,
+      message: "Codes are 3-32 letters, digits, dashes or underscores, starting with a letter or digit.",
+    };
+  }
+
+  const discountType = body.discount_type;
+  let percentOff: number | null = null;
+  let amountOffCents: number | null = null;
+  let currency: string | null = null;
+
+  if (discountType === "percent") {
+    percentOff = Number(body.percent_off);
+    // A code can't cover the whole price, so 100% would never be accepted.
+    if (!Number.isInteger(percentOff) || percentOff < 1 || percentOff > 99) {
+      return { ok: false, message: "Percentage discounts must be a whole number from 1 to 99." };
+    }
+  } else if (discountType === "fixed") {
+    amountOffCents = Number(body.amount_off_cents);
+    currency = normalizeCurrencyCode(body.currency)?.toLowerCase() || null;
+    if (!Number.isInteger(amountOffCents) || amountOffCents <= 0 || !currency) {
+      return { ok: false, message: "Fixed discounts need a positive amount and a currency." };
+    }
+  } else {
+    return { ok: false, message: "discount_type must be percent or fixed." };
+  }
+
+  const rawTiers = Array.isArray(body.tiers) ? body.tiers : [];
+  const tiers = rawTiers.map((tier) => String(tier).toLowerCase());
+  if (tiers.some((tier) => !(tier in DEFAULT_SUBSCRIPTION_PRICING))) {
+    return { ok: false, message: "tiers must be basic, standard, premium or vip." };
+  }
+
+  const maxRedemptions = optionalPositiveInteger(body.max_redemptions);
+  const maxPerUser = optionalPositiveInteger(body.max_redemptions_per_user);
+  if (Number.isNaN(maxRedemptions) || Number.isNaN(maxPerUser)) {
+    return { ok: false, message: "Usage limits must be positive whole numbers." };
+  }
+
+  const startsAt = optionalDate(body.starts_at);
+  const expiresAt = optionalDate(body.expires_at);
+  if (startsAt === undefined || expiresAt === undefined) {
+    return { ok: false, message: "starts_at and expires_at must be valid dates." };
+  }
+  if (startsAt && expiresAt && expiresAt <= startsAt) {
+    return { ok: false, message: "expires_at must be after starts_at." };
+  }
+
+  const description =
+    typeof body.description === "string" ? body.description.trim().slice(0, 200) : "";
+
+  return {
+    ok: true,
+    values: {
+      code,
+      description: description || null,
+      discount_type: discountType,
+      percent_off: percentOff,
+      amount_off_cents: amountOffCents,
+      currency,
+      tiers: tiers.length > 0 ? (Array.from(new Set(tiers)) as TierId[]) : null,
+      first_purchase_only: body.first_purchase_only === true,
+      max_redemptions: maxRedemptions,
+      max_redemptions_per_user: maxPerUser ?? 1,
+      starts_at: startsAt,
+      expires_at: expiresAt,
+    },
+  };
+}
+
+/** Discount in the smallest unit. A fixed discount only applies in its own currency. */
+export function calculatePromoDiscount(
+  promo: Pick<PromoCodeRow, "discount_type" | "percent_off" | "amount_off_cents" | "currency">,
+  listAmountCents: number,
+  currency: string
+) {
+  const discount =
+    promo.discount_type === "percent"
+      ? Math.round((listAmountCents * Number(promo.percent_off || 0)) / 100)
+      : promo.currency?.toLowerCase() === currency.toLowerCase()
+        ? Number(promo.amount_off_cents || 0)
+        : 0;
+
+  return Math.max(0, Math.min(discount, listAmountCents));
+}
+
+/** Applied redemptions, plus reservations whose checkout may still be paid. */
+function holdsUsage(redemption: Pick<PromoRedemptionRow, "status" | "created_at">, now: Date) {
+  if (redemption.status === "applied") return true;
+  return (
+    now.getTime() - new Date(redemption.created_at).getTime() <
+    PROMO_RESERVATION_MINUTES * 60 * 1000
+  );
+}
+
+async function hasPaidSubscriptionBefore(supabase: SupabaseClient, userId: string) {
+  const { data, error } = await supabase
+    .from("wallet_transactions")
+    .select("id")
+    .eq("user_id", userId)
+    .eq("type", "subscription_payment")
+    .limit(1);
+
+  if (error) throw error;
+  return (data || []).length > 0;
+}
+
+/**
+ * Check a code against a subscription purchase and price the discount.
+ * `listAmountCents` must come from server-side pricing, never the client.
+ */
+export async function quotePromoCode(
+  supabase: SupabaseClient,
+  input: {
+    code: unknown;
+    userId: string;
+    tier: TierId;
+    currency: string;
+    listAmountCents: number;
+  },
+  deps: { now?: Date } = {}
+): Promise<PromoQuoteResult> {
+  const code = normalizePromoCode(input.code);
+  if (!code) return failure(404, "not_found", "That promo code isn't valid.");
+
+  const { data: promo, error } = await supabase
+    .from("promo_codes")
+    .select(PROMO_CODE_COLUMNS)
+    .eq("code", code)
+    .maybeSingle<PromoCodeRow>();
+
+  if (error) throw error;
+  if (!promo || !promo.active) {
+    return failure(404, "not_found", "That promo code isn't valid.");
+  }
+
+  const now = deps.now || new Date();
+  if (promo.starts_at && new Date(promo.starts_at) > now) {
+    return failure(400, "not_started", "This promo code isn't active yet.");
+  }
+  if (promo.expires_at && new Date(promo.expires_at) <= now) {
+    return failure(410, "expired", "This promo code has expired.");
+  }
+  if (promo.tiers && promo.tiers.length > 0 && !promo.tiers.includes(input.tier)) {
+    return failure(400, "not_applicable", "This promo code doesn't apply to that plan.");
+  }
+
+  const discountCents = calculatePromoDiscount(promo, input.listAmountCents, input.currency);
+  if (discountCents <= 0) {
+    return failure(
+      400,
+      "not_applicable",
+      `This promo code only applies to payments in ${String(promo.currency).toUpperCase()}.`
+    );
+  }
+  if (discountCents >= input.listAmountCents) {
+    return failure(400, "not_applicable", "This promo code can't cover the whole price.");
+  }
+
+  if (promo.first_purchase_only && (await hasPaidSubscriptionBefore(supabase, input.userId))) {
+    return failure(
+      403,
+      "first_purchase_only",
+      "This promo code is only for your first subscription."
+    );
+  }
+
+  const { data: redemptions, error: redemptionsError } = await supabase
+    .from("promo_redemptions")
+    .select("user_id, status, created_at")
+    .eq("promo_code_id", promo.id);
+
+  if (redemptionsError) throw redemptionsError;
+
+  const holding = ((redemptions || []) as PromoRedemptionRow[]).filter((row) =>
+    holdsUsage(row, now)
+  );
+  // An early answer for the member; reservePromoRedemption is what holds.
+  if (promo.max_redemptions !== null && holding.length >= promo.max_redemptions) {
+    return usageLimitFailure();
+  }
+  const userUses = holding.filter((row) => row.user_id === input.userId).length;
+  if (userUses >= Math.max(1, promo.max_redemptions_per_user)) {
+    return alreadyUsedFailure();
+  }
+
+  return {
+    ok: true,
+    promo,
+    quote: {
+      promoCodeId: promo.id,
+      code: promo.code,
+      currency: input.currency.toLowerCase(),
+      listAmountCents: input.listAmountCents,
+      discountCents,
+      amountCents: input.listAmountCents - discountCents,
+    },
+  };
+}
+
+/**
+ * Hold a quoted code for the checkout that will pay `paymentReference`.
+ * `reserve_promo_redemption` locks the code while it counts and inserts, so
+ * concurrent checkouts can't take more uses than the caps allow.
+ */
+export async function reservePromoRedemption(
+  supabase: SupabaseClient,
+  input: {
+    quote: PromoQuote;
+    userId: string;
+    tier: TierId;
+    provider: PromoProvider;
+    paymentReference: string;
+    now?: Date;
+  }
+): Promise<PromoReservationResult> {
+  const { data, error } = await supabase.rpc("reserve_promo_redemption", {
+    p_promo_code_id: input.quote.promoCodeId,
+    p_user_id: input.userId,
+    p_tier: input.tier,
+    p_currency: input.quote.currency,
+    p_list_amount_cents: input.quote.listAmountCents,
+    p_discount_cents: input.quote.discountCents,
+    p_amount_cents: input.quote.amountCents,
+    p_provider: input.provider,
+    p_payment_reference: input.paymentReference,
+    p_now: (input.now || new Date()).toISOString(),
+    p_reservation_minutes: PROMO_RESERVATION_MINUTES,
+  });
+
+  if (error) throw error;
+
+  const row = Array.isArray(data) ? data[0] : data;
+  if (row?.error_code === "usage_limit") return usageLimitFailure();
+  if (row?.error_code === "already_used") return alreadyUsedFailure();
+  if (!row?.redemption_id) {
+    throw new Error("reserve_promo_redemption returned no redemption");
+  }
+
+  const { data: redemption, error: redemptionError } = await supabase
+    .from("promo_redemptions")
+    .select(PROMO_REDEMPTION_COLUMNS)
+    .eq("id", row.redemption_id)
+    .single<PromoRedemptionRow>();
+
+  if (redemptionError) throw redemptionError;
+  return { ok: true, redemption };
+}
+
+/** Give back a reservation whose payment never went through. */
+export async function releasePromoRedemption(supabase: SupabaseClient, redemptionId: string) {
+  const { error } = await supabase
+    .from("promo_redemptions")
+    .delete()
+    .eq("id", redemptionId)
+    .eq("status", "pending");
+
+  if (error) {
+    console.warn(`[promo-codes] Failed to release redemption ${redemptionId}:`, error);
+  }
+}
+
+/**
+ * Apply a pending reservation. `apply_promo_redemption` locks the code and,
+ * for a reservation older than its hold, re-checks the caps: another
+ * checkout may have taken the use since. Returns the applied row, or null
+ * when it was already applied or has no use left.
+ */
+async function applyPromoRedemption(
+  supabase: SupabaseClient,
+  redemption: PromoRedemptionRow,
+  paymentReference: string | null,
+  now: Date
+): Promise<PromoRedemptionRow | null> {
+  const { data, error } = await supabase.rpc("apply_promo_redemption", {
+    p_redemption_id: redemption.id,
+    p_payment_reference: paymentReference,
+    p_now: now.toISOString(),
+    p_reservation_minutes: PROMO_RESERVATION_MINUTES,
+  });
+
+  if (error) throw error;
+
+  const row = Array.isArray(data) ? data[0] : data;
+  if (row?.error_code) {
+    console.warn(
+      `[promo-codes] Redemption ${redemption.id} outlived its reservation and the code has no use left (${row.error_code}); not applied.`
+    );
+    return null;
+  }
+  if (!row?.applied) return null;
+
+  return {
+    ...redemption,
+    status: "applied",
+    applied_at: now.toISOString(),
+    payment_reference: paymentReference ?? redemption.payment_reference,
+  };
+}
+
+/**
+ * Mark the redemption for a paid checkout applied and record the code on the
+ * payment's wallet transaction. Safe to call for payments without a code.
+ */
+export async function completePromoRedemption(
+  supabase: SupabaseClient,
+  paymentReference: string,
+  now = new Date()
+) {
+  const { data: pending, error } = await supabase
+    .from("promo_redemptions")
+    .select(PROMO_REDEMPTION_COLUMNS)
+    .eq("payment_reference", paymentReference)
+    .eq("status", "pending")
+    .maybeSingle<PromoRedemptionRow>();
+
+  if (error) throw error;
+  if (!pending) return null;
+
+  const applied = await applyPromoRedemption(supabase, pending, null, now);
+  if (!applied) return null;
+
+  const { error: stampError } = await supabase
+    .from("wallet_transactions")
+    .update({
+      promo_code_id: applied.promo_code_id,
+      discount_cents: applied.discount_cents,
+    })
+    .eq("reference_id", paymentReference);
+
+  if (stampError) throw stampError;
+  return applied;
+}
+
+/**
+ * Wallet payments reserve the code before charging; once the charge lands
+ * the redemption is applied against the wallet transaction it wrote.
+ */
+export async function recordWalletPromoRedemption(
+  supabase: SupabaseClient,
+  input: { redemption: PromoRedemptionRow; walletTransactionId: string | null; now?: Date }
+) {
+  const now = input.now || new Date();
+  const { redemption, walletTransactionId } = input;
+
+  const applied = await applyPromoRedemption(
+    supabase,
+    redemption,
+    walletTransactionId ? `wallet:${walletTransactionId}` : null,
+    now
+  );
+
+  if (applied && walletTransactionId) {
+    const { error: stampError } = await supabase
+      .from("wallet_transactions")
+      .update({
+        promo_code_id: redemption.promo_code_id,
+        discount_cents: redemption.discount_cents,
+      })
+      .eq("id", walletTransactionId);
+
+    if (stampError) throw stampError;
+  }
+
+  return applied;
+}
+
+/**
+ * completePromoRedemption for the payment processors: the subscription is
+ * already active, so a failure here is logged rather than failing the payment.
+ */
+export async function completePromoRedemptionSafely(
+  supabase: SupabaseClient,
+  paymentReference: string
+) {
+  try {
+    return await completePromoRedemption(supabase, paymentReference);
+  } catch (error) {
+    console.warn(`[promo-codes] Failed to apply redemption for ${paymentReference}:`, error);
+    return null;
+  }
+}
+
+/** recordWalletPromoRedemption once the wallet has already been charged. */
+export async function recordWalletPromoRedemptionSafely(
+  supabase: SupabaseClient,
+  input: { redemption: PromoRedemptionRow; walletTransactionId: string | null; now?: Date }
+) {
+  try {
+    return await recordWalletPromoRedemption(supabase, input);
+  } catch (error) {
+    console.warn(
+      `[promo-codes] Failed to record wallet redemption ${input.redemption.id}:`,
+      error
+    );
+    return null;
+  }
+}
+
+export type PromoCodeUsage = {
+  redemptions: number;
+  /** Discount given and amount collected, per currency. */
+  discountCents: Record<string, number>;
+  revenueCents: Record<string, number>;
+};
+
+/** Applied redemptions rolled up per promo code id, for admin reporting. */
+export function summarizePromoRedemptions(
+  redemptions: Pick<
+    PromoRedemptionRow,
+    "promo_code_id" | "status" | "currency" | "discount_cents" | "amount_cents"
+  >[]
+) {
+  const usage: Record<string, PromoCodeUsage> = {};
+
+  for (const redemption of redemptions) {
+    if (redemption.status !== "applied") continue;
+    const entry = (usage[redemption.promo_code_id] ||= {
+      redemptions: 0,
+      discountCents: {},
+      revenueCents: {},
+    });
+    const currency = redemption.currency.toLowerCase();
+    entry.redemptions += 1;
+    entry.discountCents[currency] =
+      (entry.discountCents[currency] || 0) + Number(redemption.discount_cents || 0);
+    entry.revenueCents[currency] =
+      (entry.revenueCents[currency] || 0) + Number(redemption.amount_cents || 0);
+  }
+
+  return usage;
+}
@@ -1,5 +1,7 @@
 import type { SupabaseClient } from "@supabase/supabase-js";
+import { grantCreditLotSafely } from "@/lib/credits/lots";
 import { recordCreditTransaction } from "@/lib/credits/transactions";
+import { creditEntries, postLedgerTransactionSafely } from "@/lib/ledger/ledger";
 import {
   PRODUCT_ANALYTICS_EVENTS,
   trackProductEventSafely,
@@ -349,6 +351,21 @@ async function addReferralCredits(
     description: `Referral reward: ${reward.credits_awarded} credit(s) for ${reward.milestone.replace(/_/g, " ")}.`,
   });
 
+  await grantCreditLotSafely(supabase, {
+    userId: reward.referrer_id,
+    source: "referral",
+    amount: reward.credits_awarded,
+    reference: `referral_reward:${reward.id}`,
+  });
+
+  await postLedgerTransactionSafely(supabase, {
+    kind: "referral_reward",
+    userId: reward.referrer_id,
+    idempotencyKey: `referral_reward:${reward.id}`,
+    description: `Referral reward for ${reward.milestone.replace(/_/g, " ")}.`,
+    entries: creditEntries(reward.referrer_id, reward.credits_awarded, "promotions"),
+  });
+
   const { error: rewardUpdateError } = await supabase
     .from("referral_rewards")
     .update({
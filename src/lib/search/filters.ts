@@ -0,0 +1,316 @@
+/**
+ * Search Filters
+ *
+ * The filter set behind the Search and Discover pages, as a plain
+ * serialisable object so it can be sent to `/api/search`, saved
+ * (`saved_searches.filters`) and re-applied later by the saved-search alert
+ * cron. `matchesSearchFilters` is the one place the filter rules live; the
+ * server-side search (`./server-search`) calls it for both.
+ */
+
+import { isOnline } from "@/lib/active-status";
+import { relationshipStatusMatches } from "@/lib/relationship-status";
+
+// ---------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------
+
+export const DEFAULT_MIN_AGE = 18;
+export const DEFAULT_MAX_AGE = 70;
+export const DEFAULT_MIN_HEIGHT_CM = 140;
+export const DEFAULT_MAX_HEIGHT_CM = 220;
+
+/** Distance slider maximum; at this value the distance filter is off. */
+export const ANY_DISTANCE_KM = 500;
+
+export const SEARCH_SORT_OPTIONS = ["match", "newest", "age_asc", "age_desc", "name"] as const;
+export const CHILDREN_FILTER_OPTIONS = ["any", "yes", "no", "maybe"] as const;
+
+/** Smoking filter label → `smoking_habits` values it accepts. */
+const SMOKING_FILTER_VALUES: Record<string, string[]> = {
+  Never: ["never"],
+  "Smoke Socially": ["occasionally", "socially"],
+  "Smoke Smoke": ["regularly"],
+  Regularly: ["regularly"],
+  "Trying to quit": ["trying_to_quit", "trying to quit"],
+};
+
+const MAX_LIST_VALUES = 20;
+const MAX_TEXT_LENGTH = 80;
+
+// ---------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------
+
+export type SearchSort = (typeof SEARCH_SORT_OPTIONS)[number];
+export type ChildrenFilter = (typeof CHILDREN_FILTER_OPTIONS)[number];
+
+export type SearchFilters = {
+  minAge: number;
+  maxAge: number;
+  city: string;
+  distanceKm: number;
+  online: boolean;
+  verifiedOnly: boolean;
+  gender: string;
+  relationshipStatus: string;
+  heightMin: number;
+  heightMax: number;
+  languages: string[];
+  ethnicities: string[];
+  educations: string[];
+  religions: string[];
+  children: ChildrenFilter;
+  smoking: string;
+  sortBy: SearchSort;
+};
+
+/** The profile fields the filters look at. */
+export type SearchFilterProfile = {
+  name: string;
+  age: number | null;
+  /** "State, Country" label of the profile's location */
+  city: string | null;
+  distanceKm?: number | null;
+  verified?: boolean;
+  heightCm?: number;
+  gender?: string | null;
+  relationship_status?: string | null;
+  languages?: string[] | null;
+  education_level?: string | null;
+  religion?: string | null;
+  ethnicity?: string | null;
+  want_children?: string | null;
+  smoking_habits?: string | null;
+  lastActiveAt?: string | null;
+};
+
+export const DEFAULT_SEARCH_FILTERS: SearchFilters = {
+  minAge: DEFAULT_MIN_AGE,
+  maxAge: DEFAULT_MAX_AGE,
+  city: "",
+  distanceKm: ANY_DISTANCE_KM,
+  online: false,
+  verifiedOnly: false,
+  gender: "",
+  relationshipStatus: "",
+  heightMin: DEFAULT_MIN_HEIGHT_CM,
+  heightMax: DEFAULT_MAX_HEIGHT_CM,
+  languages: [],
+  ethnicities: [],
+  educations: [],
+  religions: [],
+  children: "any",
+  smoking: "",
+  sortBy: "match",
+};
+
+// ---------------------------------------------------------------
+// Normalising stored / submitted filters
+// ---------------------------------------------------------------
+
+function clampNumber(value: unknown, min: number, max: number, fallback: number) {
+  const number = typeof value === "number" ? value : Number(value);
+  if (!Number.isFinite(number)) return fallback;
+  return Math.min(max, Math.max(min, Math.round(number)));
+}
+
+function text(value: unknown) {
+  return typeof value === "string" ? value.trim().slice(0, MAX_TEXT_LENGTH) : "";
+}
+
+function textList(value: unknown) {
+  if (!Array.isArray(value)) return [];
+  return Array.from(
+    new Set(value.map(text).filter((item) => item.length > 0))
+  ).slice(0, MAX_LIST_VALUES);
+}
+
+function oneOf<T extends string>(value: unknown, options: readonly T[], fallback: T): T {
+  return options.includes(value as T) ? (value as T) : fallback;
+}
+
+/**
+ * Coerce untrusted input (a request body or a stored JSON row) into a full
+ * filter set. Unknown keys are dropped and missing ones take the defaults,
+ * so filters saved before a new filter existed keep working.
+ */
+export function normalizeSearchFilters(input: unknown): SearchFilters {
+  const value = (input && typeof input === "object" ? input : {}) as Record<string, unknown>;
+
+  const minAge = clampNumber(value.minAge, DEFAULT_MIN_AGE, DEFAULT_MAX_AGE, DEFAULT_MIN_AGE);
+  const maxAge = clampNumber(value.maxAge, DEFAULT_MIN_AGE, DEFAULT_MAX_AGE, DEFAULT_MAX_AGE);
+  const heightMin = clampNumber(
+    value.heightMin,
+    DEFAULT_MIN_HEIGHT_CM,
+    DEFAULT_MAX_HEIGHT_CM,
+    DEFAULT_MIN_HEIGHT_CM
+  );
+  const heightMax = clampNumber(
+    value.heightMax,
+    DEFAULT_MIN_HEIGHT_CM,
+    DEFAULT_MAX_HEIGHT_CM,
+    DEFAULT_MAX_HEIGHT_CM
+  );
+
+  return {
+    minAge: Math.min(minAge, maxAge),
+    maxAge: Math.max(minAge, maxAge),
+    city: text(value.city),
+    distanceKm: clampNumber(value.distanceKm, 1, ANY_DISTANCE_KM, ANY_DISTANCE_KM),
+    online: value.online === true,
+    verifiedOnly: value.verifiedOnly === true,
+    gender: text(value.gender),
+    relationshipStatus: text(value.relationshipStatus),
+    heightMin: Math.min(heightMin, heightMax),
+    heightMax: Math.max(heightMin, heightMax),
+    languages: textList(value.languages),
+    ethnicities: textList(value.ethnicities),
+    educations: textList(value.educations),
+    religions: textList(value.religions),
+    children: oneOf(value.children, CHILDREN_FILTER_OPTIONS, "any"),
+    smoking: text(value.smoking),
+    sortBy: oneOf(value.sortBy, SEARCH_SORT_OPTIONS, "match"),
+  };
+}
+
+/** Number of filters that differ from the defaults (sort order excluded). */
+export function countActiveSearchFilters(filters: SearchFilters): number {
+  let count = 0;
+  if (filters.minAge !== DEFAULT_MIN_AGE || filters.maxAge !== DEFAULT_MAX_AGE) count++;
+  if (filters.city.trim()) count++;
+  if (filters.distanceKm < ANY_DISTANCE_KM) count++;
+  if (filters.online) count++;
+  if (filters.verifiedOnly) count++;
+  if (filters.gender) count++;
+  if (filters.relationshipStatus) count++;
+  if (filters.heightMin !== DEFAULT_MIN_HEIGHT_CM || filters.heightMax !== DEFAULT_MAX_HEIGHT_CM) {
+    count++;
+  }
+  if (filters.languages.length > 0) count++;
+  if (filters.ethnicities.length > 0) count++;
+  if (filters.educations.length > 0) count++;
+  if (filters.religions.length > 0) count++;
+  if (filters.children !== "any") count++;
+  if (filters.smoking) count++;
+  return count;
+}
+
+// ---------------------------------------------------------------
+// Matching
+// ---------------------------------------------------------------
+
+function overlapsLoosely(selected: string[], values: string[]) {
+  return selected.some((wanted) =>
+    values.some(
+      (value) =>
+        value.toLowerCase().includes(wanted.toLowerCase()) ||
+        wanted.toLowerCase().includes(value.toLowerCase())
+    )
+  );
+}
+
+/** Whether a profile passes every filter in the set. */
+export function matchesSearchFilters(
+  profile: SearchFilterProfile,
+  filters: SearchFilters
+): boolean {
+  // Age (profiles without a birth date are kept)
+  if (profile.age !== null && (profile.age < filters.minAge || profile.age > filters.maxAge)) {
+    return false;
+  }
+
+  if (filters.online && !isOnline(profile.lastActiveAt || null)) {
+    return false;
+  }
+
+  if (filters.verifiedOnly && !profile.verified) {
+    return false;
+  }
+
+  // City (case-insensitive partial match)
+  const cityQuery = filters.city.toLowerCase().trim();
+  if (cityQuery && !(profile.city || "").toLowerCase().includes(cityQuery)) {
+    return false;
+  }
+
+  // Distance (profiles without a known distance are excluded)
+  if (filters.distanceKm < ANY_DISTANCE_KM) {
+    if (
+      profile.distanceKm === null ||
+      profile.distanceKm === undefined ||
+      profile.distanceKm > filters.distanceKm
+    ) {
+      return false;
+    }
+  }
+
+  if (
+    filters.gender &&
+    (!profile.gender || profile.gender.toLowerCase() !== filters.gender.toLowerCase())
+  ) {
+    return false;
+  }
+
+  if (
+    filters.relationshipStatus &&
+    (!profile.relationship_status ||
+      !relationshipStatusMatches(profile.relationship_status, filters.relationshipStatus))
+  ) {
+    return false;
+  }
+
+  // Height (profiles without a height are kept)
+  if (
+    (filters.heightMin !== DEFAULT_MIN_HEIGHT_CM || filters.heightMax !== DEFAULT_MAX_HEIGHT_CM) &&
+    profile.heightCm !== undefined &&
+    (profile.heightCm < filters.heightMin || profile.heightCm > filters.heightMax)
+  ) {
+    return false;
+  }
+
+  if (filters.languages.length > 0) {
+    const languages = Array.isArray(profile.languages) ? profile.languages : [];
+    if (languages.length === 0 || !overlapsLoosely(filters.languages, languages)) {
+      return false;
+    }
+  }
+
+  if (
+    filters.educations.length > 0 &&
+    (!profile.education_level || !filters.educations.includes(profile.education_level))
+  ) {
+    return false;
+  }
+
+  if (
+    filters.religions.length > 0 &&
+    (!profile.religion || !filters.religions.includes(profile.religion))
+  ) {
+    return false;
+  }
+
+  // Ethnicity is stored as a comma-separated list
+  if (filters.ethnicities.length > 0) {
+    if (!profile.ethnicity) return false;
+    const ethnicities = profile.ethnicity.split(",").map((value) => value.trim());
+    if (!overlapsLoosely(filters.ethnicities, ethnicities)) {
+      return false;
+    }
+  }
+
+  if (filters.children !== "any" && profile.want_children !== filters.children) {
+    return false;
+  }
+
+  if (filters.smoking) {
+    if (!profile.smoking_habits) return false;
+    const habits = profile.smoking_habits.toLowerCase();
+    const accepted = SMOKING_FILTER_VALUES[filters.smoking] || [];
+    if (!accepted.some((value) => habits.includes(value))) {
+      return false;
+    }
+  }
+
+  return true;
+}
@@ -0,0 +1,129 @@
+/**
+ * Search Result Ordering & Cursors
+ *
+ * `/api/search` orders results in full on the server, then hands them out
+ * a page at a time. Every sort has a user-id tie-break so the order is
+ * total, and the cursor records the sort key and id of the last result
+ * sent: the next page starts strictly after it, so results don't repeat or
+ * get skipped when profiles ahead of the cursor drop out between requests.
+ */
+
+import { SEARCH_SORT_OPTIONS, type SearchSort } from "./filters";
+
+/** The fields the sort orders look at. */
+export type SortableSearchResult = {
+  user_id: string;
+  name: string;
+  age: number | null;
+  matchScore?: number;
+  updatedAt?: string | null;
+};
+
+export type SearchCursor = {
+  sortBy: SearchSort;
+  key: number | string;
+  userId: string;
+};
+
+// Unknown ages / dates sort last in every direction.
+const LAST = Number.MAX_SAFE_INTEGER;
+
+function sortKey(result: SortableSearchResult, sortBy: SearchSort): number | string {
+  switch (sortBy) {
+    case "match":
+      return -(result.matchScore ?? 0);
+    case "newest": {
+      const time = result.updatedAt ? new Date(result.updatedAt).getTime() : NaN;
+      return Number.isFinite(time) ? -time : LAST;
+    }
+    case "age_asc":
+      return result.age ?? LAST;
+    case "age_desc":
+      return result.age === null ? LAST : -result.age;
+    case "name":
+      return result.name.toLowerCase();
+    default:
+      return 0;
+  }
+}
+
+function compareKeys(
+  a: { key: number | string; userId: string },
+  b: { key: number | string; userId: string }
+): number {
+  if (a.key !== b.key) {
+    if (typeof a.key === "number" && typeof b.key === "number") return a.key - b.key;
+    return String(a.key).localeCompare(String(b.key));
+  }
+  return a.userId < b.userId ? -1 : a.userId > b.userId ? 1 : 0;
+}
+
+/** Order results for the chosen sort, with a stable user-id tie-break. */
+export function orderSearchResults<T extends SortableSearchResult>(
+  results: T[],
+  sortBy: SearchSort
+): T[] {
+  return results
+    .map((result) => ({ result, key: sortKey(result, sortBy), userId: result.user_id }))
+    .sort(compareKeys)
+    .map((entry) => entry.result);
+}
+
+export function encodeSearchCursor(cursor: SearchCursor): string {
+  return Buffer.from(
+    JSON.stringify({ s: cursor.sortBy, k: cursor.key, id: cursor.userId })
+  ).toString("base64url");
+}
+
+/** Parse a cursor from a request; null when it is missing or malformed. */
+export function decodeSearchCursor(value: unknown): SearchCursor | null {
+  if (typeof value !== "string" || value.length === 0 || value.length > 512) return null;
+  try {
+    const parsed = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+    if (
+      !SEARCH_SORT_OPTIONS.includes(parsed?.s) ||
+      (typeof parsed.k !== "number" && typeof parsed.k !== "string") ||
+      typeof parsed.id !== "string"
+    ) {
+      return null;
+    }
+    return { sortBy: parsed.s, key: parsed.k, userId: parsed.id };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Take the page after `cursor` from results already ordered by
+ * `orderSearchResults`. `nextCursor` is null on the last page.
+ */
+export function paginateSearchResults<T extends SortableSearchResult>(
+  ordered: T[],
+  sortBy: SearchSort,
+  cursor: SearchCursor | null,
+  limit: number
+): { items: T[]; nextCursor: string | null } {
+  const start = cursor
+    ? ordered.findIndex(
+        (result) =>
+          compareKeys(
+            { key: sortKey(result, sortBy), userId: result.user_id },
+            { key: cursor.key, userId: cursor.userId }
+          ) > 0
+      )
+    : 0;
+
+  if (start < 0) return { items: [], nextCursor: null };
+
+  const items = ordered.slice(start, start + limit);
+  const last = items[items.length - 1];
+  const hasMore = start + limit < ordered.length;
+
+  return {
+    items,
+    nextCursor:
+      hasMore && last
+        ? encodeSearchCursor({ sortBy, key: sortKey(last, sortBy), userId: last.user_id })
+        : null,
+  };
+}
@@ -0,0 +1,83 @@
+/**
+ * Saved Searches
+ *
+ * Named Search filter sets, stored per member in `saved_searches`. The
+ * filters are kept as the `SearchFilters` object from `./filters` and are
+ * normalised on the way in and on the way out, so a row saved by an older
+ * version of the page always loads as a complete filter set.
+ *
+ * `runSavedSearch` re-runs a saved search through the same server-side
+ * search as `/api/search`; the saved-search alert cron
+ * (`@/lib/alerts/saved-search-alerts`) uses it to find new results.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { normalizeSearchFilters, type SearchFilters } from "./filters";
+import { searchProfiles } from "./server-search";
+
+export const MAX_SAVED_SEARCHES_PER_USER = 10;
+export const SAVED_SEARCH_NAME_MAX_LENGTH = 60;
+
+export type SavedSearchRow = {
+  id: string;
+  user_id: string;
+  name: string;
+  filters: unknown;
+  alerts_enabled: boolean;
+  last_run_at: string | null;
+  last_alerted_at: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type SavedSearch = Omit<SavedSearchRow, "filters"> & {
+  filters: SearchFilters;
+};
+
+export function isMissingSavedSearchesTable(error: unknown) {
+  const value = error as { code?: string; message?: string } | null;
+  const code = String(value?.code || "");
+  const message = String(value?.message || "").toLowerCase();
+  return (
+    code === "42P01" ||
+    code === "42703" ||
+    code.startsWith("PGRST20") ||
+    message.includes("saved_search")
+  );
+}
+
+/** Trimmed name with markup characters removed, or null when empty. */
+export function normalizeSavedSearchName(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const name = value
+    .replace(/[<>]/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, SAVED_SEARCH_NAME_MAX_LENGTH)
+    .trim();
+  return name || null;
+}
+
+export function toSavedSearch(row: SavedSearchRow): SavedSearch {
+  return { ...row, filters: normalizeSearchFilters(row.filters) };
+}
+
+/**
+ * Run a member's saved filters against current profiles and return the
+ * user ids that match, applying the same visibility rules as Search.
+ * "Online now" is ignored: it describes the moment of searching, not a
+ * lasting property of a profile.
+ */
+export async function runSavedSearch(
+  admin: SupabaseClient,
+  userId: string,
+  filters: SearchFilters
+): Promise<string[]> {
+  const results = await searchProfiles(
+    admin,
+    userId,
+    { ...filters, online: false },
+    { score: false }
+  );
+  return results.map((result) => result.user_id);
+}
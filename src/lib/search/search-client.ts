@@ -0,0 +1,56 @@
+/**
+ * Search (client-side)
+ *
+ * Fetches one page of results from /api/search for the Search and
+ * Discover pages. Pass the returned `nextCursor` back with the same
+ * filters to load the following page.
+ */
+
+import { supabase } from "@/lib/supabase";
+import type { SearchFilters } from "./filters";
+import type { SearchMode, SearchResult } from "./server-search";
+
+export type SearchPageResponse = {
+  results: SearchResult[];
+  nextCursor: string | null;
+  total: number;
+};
+
+export async function fetchSearchPage(params: {
+  filters: SearchFilters;
+  cursor?: string | null;
+  limit?: number;
+  mode?: SearchMode;
+}): Promise<SearchPageResponse> {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  if (!session?.access_token) {
+    throw new Error("Not authenticated");
+  }
+
+  const res = await fetch("/api/search", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${session.access_token}`,
+    },
+    body: JSON.stringify({
+      filters: params.filters,
+      cursor: params.cursor || null,
+      limit: params.limit,
+      mode: params.mode || "search",
+    }),
+  });
+
+  const payload = await res.json().catch(() => null);
+  if (!res.ok) {
+    throw new Error(payload?.error || "Failed to load profiles. Please try again.");
+  }
+
+  return {
+    results: (payload?.results || []) as SearchResult[],
+    nextCursor: typeof payload?.next_cursor === "string" ? payload.next_cursor : null,
+    total: typeof payload?.total === "number" ? payload.total : 0,
+  };
+}
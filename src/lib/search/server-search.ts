@@ -0,0 +1,514 @@
+/**
+ * Server-side Search
+ *
+ * Backs `/api/search` (Search and Discover) and the saved-search alert
+ * cron. Candidate profiles are read with the service role, so hidden and
+ * blocked members never reach the browser:
+ *
+ * 1. The selective filters (gender, age incl. the 18–23 restriction,
+ *    religion, education, children, height, distance box) are pushed into
+ *    the `user_profiles` query, newest first, capped at
+ *    `MAX_SEARCH_CANDIDATES`.
+ * 2. `isVisibleInSearch` applies blocks, blocked locations, gender rules
+ *    and account state; `matchesSearchFilters` applies the rest.
+ * 3. Survivors are scored with the shared engine (forward × reciprocal)
+ *    and ordered; `./pagination` hands out cursor pages.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { calculateAge, MIN_MATCHING_AGE } from "@/lib/age-restrictions";
+import { distanceBetweenKm, resolveGeoPoint, type GeoPoint } from "@/lib/geo/geocode";
+import { toStateCountryLabel } from "@/lib/location";
+import { loadReverseMatchPercentages } from "@/lib/matching/reciprocal";
+import {
+  combineReciprocalScore,
+  parseAgeRange,
+  scoreMatch,
+  type MatchDimensionScore,
+} from "@/lib/matching/scoring";
+import {
+  getMinimumRequestableMeetingStartIso,
+  hasRequestableMeetingAvailability,
+} from "@/lib/meetings/request-availability";
+import {
+  ANY_DISTANCE_KM,
+  DEFAULT_MAX_HEIGHT_CM,
+  DEFAULT_MIN_HEIGHT_CM,
+  matchesSearchFilters,
+  type SearchFilters,
+} from "./filters";
+import {
+  orderSearchResults,
+  paginateSearchResults,
+  type SearchCursor,
+} from "./pagination";
+import {
+  isVisibleInSearch,
+  loadSearchViewer,
+  type SearchVisibilityAccount,
+} from "./visibility";
+
+// ---------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------
+
+export const DEFAULT_SEARCH_PAGE_SIZE = 24;
+export const MAX_SEARCH_PAGE_SIZE = 60;
+
+/** Most recently updated profiles considered per search. */
+const MAX_SEARCH_CANDIDATES = 500;
+
+/** Blocked ids are excluded in SQL up to this many; beyond it, in memory. */
+const MAX_SQL_EXCLUDED_IDS = 200;
+
+// ~111 km per degree of latitude; used to pre-filter with the lat/lng index.
+const KM_PER_DEGREE_LATITUDE = 111;
+
+const CANDIDATE_COLUMNS = `
+  user_id,
+  first_name,
+  date_of_birth,
+  location,
+  latitude,
+  longitude,
+  height_cm,
+  photos,
+  profile_photo_url,
+  gender,
+  education_level,
+  religion,
+  ethnicity,
+  languages,
+  smoking_habits,
+  have_children,
+  want_children,
+  relationship_status,
+  relationship_type,
+  updated_at
+`;
+
+const LIKE_ACTIVITY_TYPES = ["like", "wink", "interested"];
+
+// ---------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------
+
+/**
+ * "search" shows everyone who passes the filters. "discover" also hides
+ * people the viewer rejected and, when anyone fits, keeps to the viewer's
+ * preferred partner age range.
+ */
+export type SearchMode = "search" | "discover";
+
+export type SearchResult = {
+  user_id: string;
+  name: string;
+  age: number | null;
+  /** "State, Country" label */
+  city: string | null;
+  imageUrl: string;
+  photoCount: number;
+  heightCm?: number;
+  gender: string | null;
+  education_level: string | null;
+  religion: string | null;
+  ethnicity: string | null;
+  languages: string[];
+  smoking_habits: string | null;
+  have_children: boolean | null;
+  want_children: string | null;
+  relationship_status: string | null;
+  relationship_type: string | null;
+  verified: boolean;
+  tier: string;
+  lastActiveAt: string | null;
+  updatedAt: string | null;
+  distanceKm: number | null;
+  /** The viewer already liked/winked/showed interest */
+  viewerLiked: boolean;
+  matchScore: number;
+  matchLabel: string;
+  matchColor: string;
+  matchBgColor: string;
+  matchBreakdown: MatchDimensionScore[];
+  /** Set on returned pages only */
+  hasCalendarSlots?: boolean;
+};
+
+export type SearchPage = {
+  results: SearchResult[];
+  nextCursor: string | null;
+  /** Results across all pages */
+  total: number;
+};
+
+export type SearchOptions = {
+  mode?: SearchMode;
+  /** Skip match scoring (results keep a 0 score); for callers that only need ids. */
+  score?: boolean;
+  now?: Date;
+};
+
+type CandidateRow = {
+  user_id: string;
+  first_name: string | null;
+  date_of_birth: string | null;
+  location: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  height_cm: number | null;
+  photos: string[] | null;
+  profile_photo_url: string | null;
+  gender: string | null;
+  education_level: string | null;
+  religion: string | null;
+  ethnicity: string | null;
+  languages: string[] | null;
+  smoking_habits: string | null;
+  have_children: boolean | null;
+  want_children: string | null;
+  relationship_status: string | null;
+  relationship_type: string | null;
+  updated_at: string | null;
+};
+
+type CandidateAccountRow = SearchVisibilityAccount & {
+  id: string;
+  tier: string | null;
+  display_name: string | null;
+  email_verified: boolean | null;
+  last_active_at: string | null;
+};
+
+// ---------------------------------------------------------------
+// Query pushdown
+// ---------------------------------------------------------------
+
+function isoDateYearsBefore(now: Date, years: number, dayOffset = 0) {
+  const date = new Date(now);
+  date.setUTCFullYear(date.getUTCFullYear() - years);
+  date.setUTCDate(date.getUTCDate() + dayOffset);
+  return date.toISOString().slice(0, 10);
+}
+
+function genderVariants(gender: string) {
+  const lower = gender.trim().toLowerCase();
+  return Array.from(new Set([lower, lower.charAt(0).toUpperCase() + lower.slice(1), gender]));
+}
+
+/**
+ * PostgREST `or` groups that must all hold, as one `or=` value. Each group
+ * is the inside of an `or(...)`; several are wrapped as `and(or(..),or(..))`.
+ */
+export function combineOrGroups(groups: string[]): string | null {
+  if (groups.length === 0) return null;
+  if (groups.length === 1) return groups[0];
+  return `and(${groups.map((group) => `or(${group})`).join(",")})`;
+}
+
+/**
+ * Range filters that keep rows with the column unset, so the SQL result is
+ * a superset of what `matchesSearchFilters` accepts. Date bounds are
+ * widened by a day; the exact age check runs in memory.
+ */
+export function buildSearchRangeGroups(
+  filters: SearchFilters,
+  origin: GeoPoint | null,
+  now: Date
+): string[] {
+  const groups: string[] = [];
+
+  const minAge = Math.max(filters.minAge, MIN_MATCHING_AGE);
+  const youngest = isoDateYearsBefore(now, minAge, 1);
+  const oldest = isoDateYearsBefore(now, filters.maxAge + 1, -1);
+  groups.push(`date_of_birth.is.null,and(date_of_birth.lte.${youngest},date_of_birth.gte.${oldest})`);
+
+  if (filters.heightMin !== DEFAULT_MIN_HEIGHT_CM || filters.heightMax !== DEFAULT_MAX_HEIGHT_CM) {
+    groups.push(
+      `height_cm.is.null,and(height_cm.gte.${filters.heightMin},height_cm.lte.${filters.heightMax})`
+    );
+  }
+
+  // Profiles saved before coordinates were stored are geocoded in memory.
+  if (filters.distanceKm < ANY_DISTANCE_KM && origin) {
+    const latitudeDelta = filters.distanceKm / KM_PER_DEGREE_LATITUDE;
+    const longitudeDelta =
+      latitudeDelta / Math.max(Math.cos((origin.latitude * Math.PI) / 180), 0.01);
+    groups.push(
+      `latitude.is.null,and(latitude.gte.${origin.latitude - latitudeDelta},latitude.lte.${
+        origin.latitude + latitudeDelta
+      },longitude.gte.${origin.longitude - longitudeDelta},longitude.lte.${
+        origin.longitude + longitudeDelta
+      })`
+    );
+  }
+
+  return groups;
+}
+
+async function loadCandidateRows(
+  admin: SupabaseClient,
+  viewerId: string,
+  filters: SearchFilters,
+  blockedUserIds: Set<string>,
+  origin: GeoPoint | null,
+  now: Date
+): Promise<CandidateRow[]> {
+  let query = admin
+    .from("user_profiles")
+    .select(CANDIDATE_COLUMNS)
+    .eq("profile_completed", true)
+    .not("photos", "is", null)
+    .neq("user_id", viewerId);
+
+  if (blockedUserIds.size > 0 && blockedUserIds.size <= MAX_SQL_EXCLUDED_IDS) {
+    query = query.not("user_id", "in", `(${Array.from(blockedUserIds).join(",")})`);
+  }
+  if (filters.gender) {
+    query = query.in("gender", genderVariants(filters.gender));
+  }
+  if (filters.religions.length > 0) {
+    query = query.in("religion", filters.religions);
+  }
+  if (filters.educations.length > 0) {
+    query = query.in("education_level", filters.educations);
+  }
+  if (filters.children !== "any") {
+    query = query.eq("want_children", filters.children);
+  }
+
+  const ranges = combineOrGroups(buildSearchRangeGroups(filters, origin, now));
+  if (ranges) {
+    query = query.or(ranges);
+  }
+
+  const { data, error } = await query
+    .order("updated_at", { ascending: false, nullsFirst: false })
+    .limit(MAX_SEARCH_CANDIDATES);
+
+  if (error) throw error;
+  return (data || []) as unknown as CandidateRow[];
+}
+
+async function loadUserIdSet(
+  admin: SupabaseClient,
+  column: "user_id" | "target_user_id",
+  value: string,
+  activityTypes: string[],
+  select: "user_id" | "target_user_id"
+) {
+  const { data, error } = await admin
+    .from("user_activities")
+    .select(select)
+    .eq(column, value)
+    .in("activity_type", activityTypes);
+
+  if (error) {
+    console.warn("Search activity lookup warning:", error);
+    return new Set<string>();
+  }
+  return new Set(((data || []) as Array<Record<string, string>>).map((row) => row[select]));
+}
+
+// ---------------------------------------------------------------
+// Search
+// ---------------------------------------------------------------
+
+function primaryPhoto(row: CandidateRow) {
+  return row.photos && row.photos.length > 0
+    ? row.photos[0]
+    : row.profile_photo_url || "/placeholder-profile.svg";
+}
+
+async function runSearch(
+  admin: SupabaseClient,
+  viewerId: string,
+  filters: SearchFilters,
+  options: SearchOptions
+): Promise<{ results: SearchResult[]; accountById: Map<string, CandidateAccountRow> }> {
+  const now = options.now || new Date();
+  const mode = options.mode || "search";
+  const viewer = await loadSearchViewer(admin, viewerId);
+
+  // Nobody has a known distance from a viewer without a location.
+  if (filters.distanceKm < ANY_DISTANCE_KM && !viewer.origin) {
+    return { results: [], accountById: new Map() };
+  }
+
+  const [candidates, rejectedIds] = await Promise.all([
+    loadCandidateRows(admin, viewerId, filters, viewer.context.blockedUserIds, viewer.origin, now),
+    mode === "discover"
+      ? loadUserIdSet(admin, "user_id", viewerId, ["rejected"], "target_user_id")
+      : Promise.resolve(new Set<string>()),
+  ]);
+  if (candidates.length === 0) return { results: [], accountById: new Map() };
+
+  const { data: accounts, error: accountsError } = await admin
+    .from("accounts")
+    .select(
+      "id, tier, display_name, account_status, email_verified, profile_visible, calendar_enabled, last_active_at"
+    )
+    .in(
+      "id",
+      candidates.map((candidate) => candidate.user_id)
+    );
+
+  if (accountsError) throw accountsError;
+
+  const accountById = new Map(
+    ((accounts || []) as CandidateAccountRow[]).map((account) => [account.id, account])
+  );
+
+  let matched = candidates
+    .filter(
+      (row) =>
+        !rejectedIds.has(row.user_id) &&
+        isVisibleInSearch(viewer.context, row, accountById.get(row.user_id))
+    )
+    .map((row) => {
+      const account = accountById.get(row.user_id);
+      const result: SearchResult = {
+        user_id: row.user_id,
+        name: row.first_name || account?.display_name || "User",
+        age: calculateAge(row.date_of_birth),
+        city: toStateCountryLabel(row.location) || null,
+        imageUrl: primaryPhoto(row),
+        photoCount: row.photos && row.photos.length > 0 ? row.photos.length : 1,
+        heightCm: row.height_cm || undefined,
+        gender: row.gender,
+        education_level: row.education_level,
+        religion: row.religion,
+        ethnicity: row.ethnicity,
+        languages: row.languages || [],
+        smoking_habits: row.smoking_habits,
+        have_children: row.have_children,
+        want_children: row.want_children,
+        relationship_status: row.relationship_status,
+        relationship_type: row.relationship_type,
+        verified: account?.email_verified || false,
+        tier: account?.tier || "basic",
+        lastActiveAt: account?.last_active_at || null,
+        updatedAt: row.updated_at,
+        distanceKm: distanceBetweenKm(viewer.origin, resolveGeoPoint(row)),
+        viewerLiked: false,
+        matchScore: 0,
+        matchLabel: "",
+        matchColor: "",
+        matchBgColor: "",
+        matchBreakdown: [],
+      };
+      return { row, result };
+    })
+    .filter(({ result }) => matchesSearchFilters(result, filters));
+
+  // Discover keeps to the preferred age range when anyone fits it; the
+  // range is a guide, so an empty result falls back to everyone.
+  const ageRange = mode === "discover" ? parseAgeRange(viewer.preferences?.partner_age_range) : null;
+  if (ageRange) {
+    const inRange = matched.filter(
+      ({ result }) => result.age !== null && result.age >= ageRange[0] && result.age <= ageRange[1]
+    );
+    if (inRange.length > 0) matched = inRange;
+  }
+
+  if (options.score === false || matched.length === 0) {
+    return { results: matched.map(({ result }) => result), accountById };
+  }
+
+  const ids = matched.map(({ result }) => result.user_id);
+  const [likedIds, likedByIds, reverse] = await Promise.all([
+    loadUserIdSet(admin, "user_id", viewerId, LIKE_ACTIVITY_TYPES, "target_user_id"),
+    loadUserIdSet(admin, "target_user_id", viewerId, LIKE_ACTIVITY_TYPES, "user_id"),
+    loadReverseMatchPercentages(admin, viewerId, ids),
+  ]);
+
+  const results = matched.map(({ row, result }) => {
+    const match = combineReciprocalScore(
+      scoreMatch(
+        viewer.preferences,
+        { ...row, last_active_at: result.lastActiveAt },
+        {
+          interactions: {
+            viewerLiked: likedIds.has(row.user_id),
+            candidateLiked: likedByIds.has(row.user_id),
+          },
+          origin: viewer.origin,
+          now,
+        }
+      ),
+      reverse.get(row.user_id) ?? null
+    );
+
+    return {
+      ...result,
+      viewerLiked: likedIds.has(row.user_id),
+      matchScore: match.percentage,
+      matchLabel: match.label,
+      matchColor: match.color,
+      matchBgColor: match.bgColor,
+      matchBreakdown: match.breakdown,
+    };
+  });
+
+  return { results, accountById };
+}
+
+/**
+ * Every result for `filters`, unordered. Used by the saved-search cron,
+ * which only needs to know who matches.
+ */
+export async function searchProfiles(
+  admin: SupabaseClient,
+  viewerId: string,
+  filters: SearchFilters,
+  options: SearchOptions = {}
+): Promise<SearchResult[]> {
+  return (await runSearch(admin, viewerId, filters, options)).results;
+}
+
+/** One page of ordered results, with calendar availability filled in. */
+export async function searchProfilesPage(
+  admin: SupabaseClient,
+  viewerId: string,
+  filters: SearchFilters,
+  params: { cursor: SearchCursor | null; limit: number; mode?: SearchMode }
+): Promise<SearchPage> {
+  const { results, accountById } = await runSearch(admin, viewerId, filters, {
+    mode: params.mode,
+  });
+  const ordered = orderSearchResults(results, filters.sortBy);
+  const page = paginateSearchResults(ordered, filters.sortBy, params.cursor, params.limit);
+
+  if (page.items.length === 0) {
+    return { results: [], nextCursor: null, total: ordered.length };
+  }
+
+  const { data: slots, error } = await admin
+    .from("meeting_availability")
+    .select("user_id")
+    .in(
+      "user_id",
+      page.items.map((item) => item.user_id)
+    )
+    .gte("scheduled_at_utc", getMinimumRequestableMeetingStartIso());
+
+  if (error) {
+    console.warn("Search availability lookup warning:", error);
+  }
+
+  const usersWithSlots = new Set(
+    ((slots || []) as Array<{ user_id: string }>).map((slot) => slot.user_id)
+  );
+
+  return {
+    results: page.items.map((item) => ({
+      ...item,
+      hasCalendarSlots: hasRequestableMeetingAvailability(
+        accountById.get(item.user_id),
+        usersWithSlots.has(item.user_id)
+      ),
+    })),
+    nextCursor: page.nextCursor,
+    total: ordered.length,
+  };
+}
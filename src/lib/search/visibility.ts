@@ -0,0 +1,160 @@
+/**
+ * Search Visibility Rules
+ *
+ * Who a member may see in Search at all, before any filters apply:
+ * - not themselves, and nobody they blocked or who blocked them
+ * - nobody whose location matches one of their blocked locations
+ * - nobody in the restricted 18–23 age range
+ * - only genders allowed by `evaluateGenderEligibility` and their saved
+ *   partner gender preference
+ * - only active, visible accounts with the calendar enabled and a photo
+ *
+ * Applied server-side only (`./server-search`, behind `/api/search` and the
+ * saved-search alert cron), with the viewer context loaded by the service
+ * role, so hidden profiles never reach the browser.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { isAgeRestrictedForMatching } from "@/lib/age-restrictions";
+import { resolveGeoPoint, type GeoPoint } from "@/lib/geo/geocode";
+import { evaluateGenderEligibility } from "@/lib/matching/gender-rules";
+import {
+  matchesPartnerGenderPreference,
+  resolvePartnerGenderPreference,
+} from "@/lib/matching/interest-preference";
+import type { MatchPreferences } from "@/lib/matching/scoring";
+
+export type SearchViewerContext = {
+  userId: string;
+  gender: string | null;
+  partnerGenderPreference: "male" | "female" | null;
+  blockedLocations: string[];
+  /** Users blocked in either direction */
+  blockedUserIds: Set<string>;
+};
+
+export type SearchVisibilityProfile = {
+  user_id: string;
+  location: string | null;
+  date_of_birth: string | null;
+  gender: string | null;
+  photos: string[] | null;
+  profile_photo_url: string | null;
+};
+
+export type SearchVisibilityAccount = {
+  account_status?: string | null;
+  profile_visible?: boolean | null;
+  calendar_enabled?: boolean | null;
+};
+
+/** Case-insensitive, either-way substring match against blocked locations. */
+export function isBlockedLocation(
+  location: string | null | undefined,
+  blockedLocations: string[]
+): boolean {
+  if (!location || blockedLocations.length === 0) return false;
+  const profileLocation = location.toLowerCase();
+  return blockedLocations.some((blocked) => {
+    const value = blocked.toLowerCase();
+    return profileLocation.includes(value) || value.includes(profileLocation);
+  });
+}
+
+export function isSearchableAccount(account: SearchVisibilityAccount | null | undefined): boolean {
+  if (!account) return false;
+  return (
+    account.profile_visible !== false &&
+    account.calendar_enabled !== false &&
+    (account.account_status || "active") === "active"
+  );
+}
+
+/** Whether `viewer` may see `profile` (owned by `account`) in Search. */
+export function isVisibleInSearch(
+  viewer: SearchViewerContext,
+  profile: SearchVisibilityProfile,
+  account: SearchVisibilityAccount | null | undefined
+): boolean {
+  if (profile.user_id === viewer.userId) return false;
+  if (viewer.blockedUserIds.has(profile.user_id)) return false;
+  if (!((profile.photos && profile.photos.length > 0) || profile.profile_photo_url)) {
+    return false;
+  }
+  if (!isSearchableAccount(account)) return false;
+  if (isBlockedLocation(profile.location, viewer.blockedLocations)) return false;
+
+  // Platform rule: no matching for the 18–23 age range
+  if (isAgeRestrictedForMatching(profile.date_of_birth)) return false;
+
+  if (
+    !evaluateGenderEligibility({
+      requesterGender: viewer.gender,
+      targetGender: profile.gender,
+    }).allowed
+  ) {
+    return false;
+  }
+
+  return matchesPartnerGenderPreference(profile.gender, viewer.partnerGenderPreference);
+}
+
+// ---------------------------------------------------------------
+// Loading the viewer (server-side)
+// ---------------------------------------------------------------
+
+export type LoadedSearchViewer = {
+  context: SearchViewerContext;
+  preferences: MatchPreferences | null;
+  origin: GeoPoint | null;
+};
+
+/**
+ * Load a member's visibility context, preferences and position. Throws if
+ * the block list can't be read.
+ */
+export async function loadSearchViewer(
+  admin: SupabaseClient,
+  userId: string
+): Promise<LoadedSearchViewer> {
+  const [{ data: prefs }, { data: profile }, blockedByMe, blockedMe] = await Promise.all([
+    admin.from("user_preferences").select("*").eq("user_id", userId).maybeSingle(),
+    admin
+      .from("user_profiles")
+      .select("gender, location, latitude, longitude")
+      .eq("user_id", userId)
+      .maybeSingle(),
+    admin.from("blocked_users").select("blocked_id").eq("blocker_id", userId),
+    admin.from("blocked_users").select("blocker_id").eq("blocked_id", userId),
+  ]);
+
+  // Never show results without knowing who is blocked.
+  if (blockedByMe.error) throw blockedByMe.error;
+  if (blockedMe.error) throw blockedMe.error;
+
+  const blockedUserIds = new Set<string>();
+  ((blockedByMe.data || []) as Array<{ blocked_id: string }>).forEach((row) =>
+    blockedUserIds.add(row.blocked_id)
+  );
+  ((blockedMe.data || []) as Array<{ blocker_id: string }>).forEach((row) =>
+    blockedUserIds.add(row.blocker_id)
+  );
+
+  const gender = (profile?.gender as string | null) || null;
+
+  return {
+    context: {
+      userId,
+      gender,
+      partnerGenderPreference: resolvePartnerGenderPreference({
+        partnerGenderPreference: prefs?.partner_gender_preference || null,
+        legacyPartnerExperience: prefs?.partner_experience || null,
+        requesterGender: gender,
+      }),
+      blockedLocations: Array.isArray(prefs?.blocked_locations) ? prefs.blocked_locations : [],
+      blockedUserIds,
+    },
+    preferences: (prefs as MatchPreferences | null) || null,
+    origin: profile ? resolveGeoPoint(profile) : null,
+  };
+}
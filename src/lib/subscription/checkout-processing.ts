@@ -9,7 +9,13 @@ import {
   PRODUCT_ANALYTICS_EVENTS,
   trackProductEventSafely,
 } from "@/lib/product-analytics";
+import { completePromoRedemptionSafely } from "@/lib/promo-codes/promo-codes";
 import { evaluateFirstSubscriptionReferralReward } from "@/lib/referrals/rewards";
+import { getStripeSubscriptionPeriod } from "@/lib/subscription/stripe-lifecycle";
+import {
+  completeTierChange,
+  findTierChangeByPaymentReference,
+} from "@/lib/subscription/tier-change";
 
 type ProcessingRow = {
   session_id: string;
@@ -45,23 +51,20 @@ function getStripeSubscriptionWindow(
   subscription: Stripe.Subscription | null
 ): { startsAt: string; expiresAt: string } {
   if (subscription) {
-    const currentPeriodStart =
-      "current_period_start" in subscription &&
-      typeof subscription.current_period_start === "number"
-        ? subscription.current_period_start
-        : typeof subscription.billing_cycle_anchor === "number"
+    const period = getStripeSubscriptionPeriod(subscription);
+    const startsAt =
+      period.startsAt ||
+      new Date(
+        (typeof subscription.billing_cycle_anchor === "number"
           ? subscription.billing_cycle_anchor
-          : Math.floor(Date.now() / 1000);
-
-    const currentPeriodEnd =
-      "current_period_end" in subscription &&
-      typeof subscription.current_period_end === "number"
-        ? subscription.current_period_end
-        : currentPeriodStart + 30 * 24 * 60 * 60;
+          : Math.floor(Date.now() / 1000)) * 1000
+      ).toISOString();
 
     return {
-      startsAt: new Date(currentPeriodStart * 1000).toISOString(),
-      expiresAt: new Date(currentPeriodEnd * 1000).toISOString(),
+      startsAt,
+      expiresAt:
+        period.endsAt ||
+        new Date(new Date(startsAt).getTime() + 30 * 24 * 60 * 60 * 1000).toISOString(),
     };
   }
 
@@ -259,6 +262,15 @@ export async function processSubscriptionCheckoutSession(
       starts_at: startsAt,
       expires_at: expiresAt,
       price_cents: amountCents,
+      currency: session.currency || null,
+      stripe_subscription_id: stripeSubscriptionId,
+      stripe_customer_id:
+        typeof session.customer === "string" ? session.customer : session.customer?.id || null,
+      billing_status: "current",
+      scheduled_downgrade_at: null,
+      grace_period_ends_at: null,
+      payment_failed_count: 0,
+      canceled_at: null,
       updated_at: new Date().toISOString(),
     };
 
@@ -322,7 +334,9 @@ export async function processSubscriptionCheckoutSession(
       }
     }
 
-    const creditResult = await allocateSubscriptionCredits(supabase, userId, tier);
+    const creditResult = await allocateSubscriptionCredits(supabase, userId, tier, {
+      idempotencyKey: `subscription_checkout:${session.id}`,
+    });
 
     await restoreCreditLockedProfileIfEligible(supabase, userId).catch(
       (restoreError) => {
@@ -485,6 +499,45 @@ export async function processSubscriptionFlutterwavePayment(
   }
 
   try {
+    // A checkout opened for a mid-cycle plan change pays the prorated amount
+    // and is settled by the tier-change flow instead of a fresh subscription.
+    const tierChange = await findTierChangeByPaymentReference(supabase, sessionId);
+    if (tierChange) {
+      const changeResult = await completeTierChange(supabase, tierChange, {
+        amountPaidCents: payment.amountCents,
+        paymentCurrency: payment.currency,
+      });
+
+      if (!changeResult.ok) {
+        throw new Error(changeResult.message);
+      }
+
+      const { error: completeError } = await supabase
+        .from("subscription_checkout_processing")
+        .update({
+          status: "completed",
+          credits_allocated: changeResult.creditsAdded,
+          processed_at: new Date().toISOString(),
+          error: null,
+          processing_token: null,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("session_id", sessionId)
+        .eq("processing_token", claim.processingToken);
+
+      if (completeError) {
+        throw completeError;
+      }
+
+      return {
+        success: true,
+        alreadyProcessed: changeResult.alreadyProcessed,
+        tier: changeResult.tier,
+        creditsAdded: changeResult.creditsAdded,
+        message: "Plan changed successfully.",
+      };
+    }
+
     const startsAt = new Date();
     const expiresAt = new Date(startsAt);
     expiresAt.setMonth(expiresAt.getMonth() + 1);
@@ -517,6 +570,7 @@ export async function processSubscriptionFlutterwavePayment(
       starts_at: startsAt.toISOString(),
       expires_at: expiresAt.toISOString(),
       price_cents: payment.amountCents,
+      currency: payment.currency?.toLowerCase() || null,
       updated_at: new Date().toISOString(),
     };
 
@@ -580,7 +634,9 @@ export async function processSubscriptionFlutterwavePayment(
       }
     }
 
-    const creditResult = await allocateSubscriptionCredits(supabase, payment.userId, tier);
+    const creditResult = await allocateSubscriptionCredits(supabase, payment.userId, tier, {
+      idempotencyKey: `subscription_checkout:${sessionId}`,
+    });
 
     await restoreCreditLockedProfileIfEligible(supabase, payment.userId).catch(
       (restoreError) => {
@@ -619,6 +675,8 @@ export async function processSubscriptionFlutterwavePayment(
       throw completeError;
     }
 
+    await completePromoRedemptionSafely(supabase, sessionId);
+
     await trackCustomerEventSafely(payment.userId, CIO_EVENTS.SUBSCRIPTION_UPGRADED, {
       tier,
       amount_cents: payment.amountCents,
@@ -1,35 +1,60 @@
+import { SUPPORTED_CURRENCIES, type CurrencyKey } from "@/lib/payments/currencies";
+
 export type TierId = "basic" | "standard" | "premium" | "vip";
 
-export type TierPricing = {
-  ngn: number;
-  usd: number;
-};
+/** Monthly plan price in each supported currency, in the major unit. */
+export type TierPricing = Record<CurrencyKey, number>;
 
 export const DEFAULT_SUBSCRIPTION_PRICING: Record<TierId, TierPricing> = {
-  basic: { ngn: 7500, usd: 9.99 },
-  standard: { ngn: 15000, usd: 19.99 },
-  premium: { ngn: 27000, usd: 34.99 },
-  vip: { ngn: 1500000, usd: 1000 },
+  basic: { ngn: 7500, usd: 9.99, ghs: 120, kes: 1300, zar: 180, gbp: 7.99, eur: 9.49 },
+  standard: { ngn: 15000, usd: 19.99, ghs: 240, kes: 2600, zar: 360, gbp: 16.99, eur: 18.99 },
+  premium: { ngn: 27000, usd: 34.99, ghs: 420, kes: 4500, zar: 630, gbp: 29.99, eur: 32.99 },
+  vip: { ngn: 1500000, usd: 1000, ghs: 12000, kes: 130000, zar: 18000, gbp: 800, eur: 950 },
 };
 
+export type SubscriptionPriceColumn = `price_${CurrencyKey}`;
+
+export type SubscriptionPricingRow = Partial<
+  Record<SubscriptionPriceColumn, number | string | null>
+>;
+
+export const CURRENCY_KEYS = SUPPORTED_CURRENCIES.map(
+  (code) => code.toLowerCase() as CurrencyKey
+);
+
+/** Select list for every price column of subscription_pricing. */
+export const SUBSCRIPTION_PRICE_COLUMNS = CURRENCY_KEYS.map(
+  (currency) => `price_${currency}`
+).join(", ");
+
+function toSmallestUnit(pricing: TierPricing) {
+  return Object.fromEntries(
+    CURRENCY_KEYS.map((currency) => [currency, Math.round(pricing[currency] * 100)])
+  ) as Record<CurrencyKey, number>;
+}
+
+/** Default plan prices in the smallest unit (kobo, cents, pesewas, …). */
 export const STRIPE_SUBSCRIPTION_AMOUNTS_SMALLEST_UNIT: Record<
   TierId,
-  { ngn: number; usd: number }
+  Record<CurrencyKey, number>
 > = {
-  basic: {
-    ngn: 750000, // ₦7,500 in kobo
-    usd: 999, // $9.99 in cents
-  },
-  standard: {
-    ngn: 1500000, // ₦15,000 in kobo
-    usd: 1999, // $19.99 in cents
-  },
-  premium: {
-    ngn: 2700000, // ₦27,000 in kobo
-    usd: 3499, // $34.99 in cents
-  },
-  vip: {
-    ngn: 150000000, // ₦1,500,000 in kobo
-    usd: 100000, // $1,000 in cents
-  },
+  basic: toSmallestUnit(DEFAULT_SUBSCRIPTION_PRICING.basic),
+  standard: toSmallestUnit(DEFAULT_SUBSCRIPTION_PRICING.standard),
+  premium: toSmallestUnit(DEFAULT_SUBSCRIPTION_PRICING.premium),
+  vip: toSmallestUnit(DEFAULT_SUBSCRIPTION_PRICING.vip),
 };
+
+/**
+ * A tier's price in the smallest unit: the admin-configured price from
+ * subscription_pricing when set, otherwise the default.
+ */
+export function resolveSubscriptionPriceCents(
+  row: SubscriptionPricingRow | null | undefined,
+  tier: TierId,
+  currency: CurrencyKey
+) {
+  const configured = Number(row?.[`price_${currency}`]);
+  return Number.isFinite(configured) && configured > 0
+    ? Math.round(configured * 100)
+    : STRIPE_SUBSCRIPTION_AMOUNTS_SMALLEST_UNIT[tier][currency];
+}
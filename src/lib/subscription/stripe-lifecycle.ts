@@ -0,0 +1,709 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type Stripe from "stripe";
+import { allocateSubscriptionCredits } from "@/lib/credits/allocation";
+import { CIO_EVENTS, trackCustomerEventSafely } from "@/lib/customerio";
+import {
+  sendSubscriptionEndedEmail,
+  sendSubscriptionPaymentFailedEmail,
+} from "@/lib/email";
+import { getPreferredEmailRecipientName } from "@/lib/email-recipient-name";
+
+/**
+ * Recurring Stripe billing for memberships.
+ *
+ * Checkout creates the membership (see checkout-processing.ts); from then on
+ * Stripe drives it:
+ * - invoice.paid for a renewal extends expires_at and allocates the next
+ *   cycle's credits.
+ * - customer.subscription.updated with cancel_at_period_end schedules a
+ *   downgrade at period end; un-cancelling clears it again.
+ * - invoice.payment_failed opens a grace period and sends a dunning email;
+ *   the plan stays usable until the grace period ends.
+ * - customer.subscription.deleted downgrades straight away.
+ *
+ * Scheduled downgrades and lapsed grace periods are applied by
+ * /api/cron/subscription-lifecycle.
+ */
+
+export const SUBSCRIPTION_GRACE_PERIOD_DAYS = 7;
+
+export const STRIPE_SUBSCRIPTION_LIFECYCLE_EVENTS = [
+  "customer.subscription.updated",
+  "customer.subscription.deleted",
+  "invoice.paid",
+  "invoice.payment_failed",
+] as const;
+
+export type StripeSubscriptionLifecycleEvent =
+  (typeof STRIPE_SUBSCRIPTION_LIFECYCLE_EVENTS)[number];
+
+export type StripeLifecycleDependencies = {
+  allocateSubscriptionCreditsFn?: typeof allocateSubscriptionCredits;
+  sendSubscriptionPaymentFailedEmailFn?: typeof sendSubscriptionPaymentFailedEmail;
+  sendSubscriptionEndedEmailFn?: typeof sendSubscriptionEndedEmail;
+  trackCustomerEventFn?: typeof trackCustomerEventSafely;
+  now?: Date;
+};
+
+export type StripeLifecycleResult = {
+  handled: boolean;
+  alreadyProcessed?: boolean;
+  message: string;
+  userId?: string;
+};
+
+type MembershipRow = {
+  id: string;
+  user_id: string;
+  tier: string;
+  status: string;
+  starts_at: string | null;
+  expires_at: string | null;
+  stripe_subscription_id: string | null;
+  stripe_customer_id: string | null;
+  billing_status: "current" | "past_due" | "canceling" | "canceled" | "suspended" | null;
+  scheduled_downgrade_at: string | null;
+  grace_period_ends_at: string | null;
+  payment_failed_count: number | null;
+  stripe_event_at: string | null;
+};
+
+const MEMBERSHIP_COLUMNS =
+  "id, user_id, tier, status, starts_at, expires_at, stripe_subscription_id, stripe_customer_id, billing_status, scheduled_downgrade_at, grace_period_ends_at, payment_failed_count, stripe_event_at";
+
+const ENDED_SUBSCRIPTION_STATUSES = new Set(["canceled", "unpaid", "incomplete_expired"]);
+
+export function isStripeSubscriptionLifecycleEvent(
+  type: string
+): type is StripeSubscriptionLifecycleEvent {
+  return (STRIPE_SUBSCRIPTION_LIFECYCLE_EVENTS as readonly string[]).includes(type);
+}
+
+function toIso(unixSeconds: number) {
+  return new Date(unixSeconds * 1000).toISOString();
+}
+
+function getStripeId(value: string | { id: string } | null | undefined) {
+  if (!value) return null;
+  return typeof value === "string" ? value : value.id;
+}
+
+function formatTierName(tier: string) {
+  return tier ? tier.charAt(0).toUpperCase() + tier.slice(1) : "paid";
+}
+
+/**
+ * Current billing period of a subscription. Newer API versions moved the
+ * period onto the subscription items; older payloads carry it at the top.
+ */
+export function getStripeSubscriptionPeriod(subscription: Stripe.Subscription) {
+  const legacy = subscription as Stripe.Subscription & {
+    current_period_start?: number;
+    current_period_end?: number;
+  };
+  const item = subscription.items?.data?.[0];
+  const start = legacy.current_period_start ?? item?.current_period_start ?? null;
+  const end = legacy.current_period_end ?? item?.current_period_end ?? null;
+
+  return {
+    startsAt: typeof start === "number" ? toIso(start) : null,
+    endsAt: typeof end === "number" ? toIso(end) : null,
+  };
+}
+
+/** Subscription an invoice bills, from either the legacy or the parent shape. */
+export function getInvoiceSubscriptionId(invoice: Stripe.Invoice) {
+  const legacy = invoice as Stripe.Invoice & {
+    subscription?: string | { id: string } | null;
+  };
+  return (
+    getStripeId(legacy.subscription) ||
+    getStripeId(invoice.parent?.subscription_details?.subscription)
+  );
+}
+
+/** Service period covered by a subscription invoice (its latest line). */
+function getInvoicePeriod(invoice: Stripe.Invoice) {
+  const periods = (invoice.lines?.data || [])
+    .map((line) => line.period)
+    .filter((period) => period && typeof period.end === "number");
+  if (periods.length === 0) return null;
+
+  const latest = periods.reduce((a, b) => (b.end > a.end ? b : a));
+  return { startsAt: toIso(latest.start), endsAt: toIso(latest.end) };
+}
+
+async function claimWebhookEvent(supabase: SupabaseClient, event: Stripe.Event) {
+  const { error } = await supabase
+    .from("stripe_webhook_events")
+    .insert({ event_id: event.id, type: event.type });
+
+  if (!error) return true;
+  if (error.code === "23505") return false;
+  throw error;
+}
+
+async function releaseWebhookEvent(supabase: SupabaseClient, eventId: string) {
+  const { error } = await supabase
+    .from("stripe_webhook_events")
+    .delete()
+    .eq("event_id", eventId);
+
+  if (error) {
+    console.warn("[stripe-lifecycle] Failed to release webhook event claim:", error);
+  }
+}
+
+/**
+ * Membership a Stripe subscription belongs to. Memberships created before
+ * the Stripe ids were stored are matched through the checkout record (or the
+ * subscription metadata) and get the ids backfilled.
+ */
+async function findMembershipForSubscription(
+  supabase: SupabaseClient,
+  subscriptionId: string,
+  options: { customerId?: string | null; metadataUserId?: string | null } = {}
+): Promise<MembershipRow | null> {
+  const { data: linked, error: linkedError } = await supabase
+    .from("memberships")
+    .select(MEMBERSHIP_COLUMNS)
+    .eq("stripe_subscription_id", subscriptionId)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle<MembershipRow>();
+
+  if (linkedError) throw linkedError;
+  if (linked) return linked;
+
+  let userId = options.metadataUserId || null;
+  if (!userId) {
+    const { data: checkout, error: checkoutError } = await supabase
+      .from("subscription_checkout_processing")
+      .select("user_id")
+      .eq("stripe_subscription_id", subscriptionId)
+      .limit(1)
+      .maybeSingle<{ user_id: string }>();
+
+    if (checkoutError) throw checkoutError;
+    userId = checkout?.user_id || null;
+  }
+  if (!userId) return null;
+
+  const { data: latest, error: latestError } = await supabase
+    .from("memberships")
+    .select(MEMBERSHIP_COLUMNS)
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle<MembershipRow>();
+
+  if (latestError) throw latestError;
+  // A membership already tied to another subscription is not ours to change.
+  if (!latest || latest.stripe_subscription_id) return null;
+
+  const link = {
+    stripe_subscription_id: subscriptionId,
+    stripe_customer_id: options.customerId || latest.stripe_customer_id,
+  };
+  const { error: linkError } = await supabase
+    .from("memberships")
+    .update(link)
+    .eq("id", latest.id);
+
+  if (linkError) throw linkError;
+  return { ...latest, ...link };
+}
+
+async function getRecipient(supabase: SupabaseClient, userId: string) {
+  const { data: account } = await supabase
+    .from("accounts")
+    .select("id, email, display_name")
+    .eq("id", userId)
+    .maybeSingle<{ id: string; email: string | null; display_name: string | null }>();
+
+  if (!account?.email) return null;
+  return {
+    email: account.email,
+    name: getPreferredEmailRecipientName({
+      accountDisplayName: account.display_name,
+      email: account.email,
+    }),
+  };
+}
+
+/**
+ * End a membership now: the account drops to basic and the user is told why.
+ * Safe to call again for a membership that has already been downgraded.
+ */
+export async function downgradeMembership(
+  supabase: SupabaseClient,
+  membership: Pick<MembershipRow, "id" | "user_id" | "tier" | "stripe_subscription_id"> & {
+    billing_status: string | null;
+  },
+  options: { reason: string; stripeEventAt?: string | null },
+  deps: StripeLifecycleDependencies = {}
+): Promise<boolean> {
+  if (membership.billing_status === "canceled") return false;
+
+  const now = deps.now || new Date();
+  const { error: membershipError } = await supabase
+    .from("memberships")
+    .update({
+      status: "canceled",
+      billing_status: "canceled",
+      canceled_at: now.toISOString(),
+      scheduled_downgrade_at: null,
+      grace_period_ends_at: null,
+      ...(options.stripeEventAt ? { stripe_event_at: options.stripeEventAt } : {}),
+      updated_at: now.toISOString(),
+    })
+    .eq("id", membership.id);
+
+  if (membershipError) throw membershipError;
+
+  const { error: accountError } = await supabase
+    .from("accounts")
+    .update({ tier: "basic" })
+    .eq("id", membership.user_id);
+
+  if (accountError) throw accountError;
+
+  const track = deps.trackCustomerEventFn || trackCustomerEventSafely;
+  await track(membership.user_id, CIO_EVENTS.SUBSCRIPTION_CANCELLED, {
+    tier: membership.tier,
+    stripe_subscription_id: membership.stripe_subscription_id,
+    reason: options.reason,
+  });
+
+  const recipient = await getRecipient(supabase, membership.user_id);
+  if (recipient) {
+    const send = deps.sendSubscriptionEndedEmailFn || sendSubscriptionEndedEmail;
+    await send(
+      recipient.email,
+      {
+        recipientName: recipient.name,
+        tierName: formatTierName(membership.tier),
+        reason: options.reason,
+      },
+      membership.user_id
+    ).catch((emailError) => {
+      console.warn("[stripe-lifecycle] Subscription ended email failed:", emailError);
+    });
+  }
+
+  return true;
+}
+
+async function handleSubscriptionChange(
+  supabase: SupabaseClient,
+  event: Stripe.Event,
+  deps: StripeLifecycleDependencies
+): Promise<StripeLifecycleResult> {
+  const subscription = event.data.object as Stripe.Subscription;
+  const membership = await findMembershipForSubscription(supabase, subscription.id, {
+    customerId: getStripeId(subscription.customer),
+    metadataUserId: subscription.metadata?.userId,
+  });
+
+  if (!membership) {
+    return { handled: false, message: `No membership for subscription ${subscription.id}.` };
+  }
+
+  const eventAt = toIso(event.created);
+  if (event.type === "customer.subscription.deleted") {
+    const downgraded = await downgradeMembership(
+      supabase,
+      membership,
+      { reason: "Your subscription was cancelled.", stripeEventAt: eventAt },
+      deps
+    );
+    return {
+      handled: true,
+      alreadyProcessed: !downgraded,
+      userId: membership.user_id,
+      message: downgraded ? "Membership downgraded." : "Membership was already downgraded.",
+    };
+  }
+
+  // Stripe does not guarantee delivery order; an older snapshot must not
+  // undo a newer one.
+  // Postgres returns timestamps as "+00:00" strings, so compare instants.
+  if (
+    membership.stripe_event_at &&
+    new Date(membership.stripe_event_at).getTime() > event.created * 1000
+  ) {
+    return {
+      handled: true,
+      alreadyProcessed: true,
+      userId: membership.user_id,
+      message: "Ignored an out-of-date subscription update.",
+    };
+  }
+
+  if (membership.billing_status === "canceled") {
+    return {
+      handled: true,
+      alreadyProcessed: true,
+      userId: membership.user_id,
+      message: "Membership has already ended.",
+    };
+  }
+
+  if (ENDED_SUBSCRIPTION_STATUSES.has(subscription.status)) {
+    await downgradeMembership(
+      supabase,
+      membership,
+      {
+        reason:
+          subscription.status === "canceled"
+            ? "Your subscription was cancelled."
+            : "We could not collect payment for your subscription.",
+        stripeEventAt: eventAt,
+      },
+      deps
+    );
+    return { handled: true, userId: membership.user_id, message: "Membership downgraded." };
+  }
+
+  const period = getStripeSubscriptionPeriod(subscription);
+  const cancelAt =
+    typeof subscription.cancel_at === "number"
+      ? toIso(subscription.cancel_at)
+      : subscription.cancel_at_period_end
+        ? period.endsAt
+        : null;
+
+  const update: Record<string, unknown> = {
+    stripe_customer_id: getStripeId(subscription.customer) || membership.stripe_customer_id,
+    stripe_event_at: eventAt,
+    updated_at: (deps.now || new Date()).toISOString(),
+  };
+
+  if (cancelAt) {
+    update.billing_status = "canceling";
+    update.scheduled_downgrade_at = cancelAt;
+  } else {
+    update.scheduled_downgrade_at = null;
+    if (subscription.status === "past_due") {
+      update.billing_status = "past_due";
+    } else if (membership.billing_status === "canceling") {
+      update.billing_status = "current";
+    }
+  }
+  // A suspension is lifted by the dispute review, not by Stripe.
+  if (membership.billing_status === "suspended") delete update.billing_status;
+
+  const { error } = await supabase.from("memberships").update(update).eq("id", membership.id);
+  if (error) throw error;
+
+  return {
+    handled: true,
+    userId: membership.user_id,
+    message: cancelAt
+      ? `Downgrade scheduled for ${cancelAt}.`
+      : "Membership billing state updated.",
+  };
+}
+
+async function handleInvoicePaid(
+  supabase: SupabaseClient,
+  invoice: Stripe.Invoice,
+  deps: StripeLifecycleDependencies
+): Promise<StripeLifecycleResult> {
+  const subscriptionId = getInvoiceSubscriptionId(invoice);
+  // The first invoice is settled through checkout.session.completed.
+  if (!subscriptionId || invoice.billing_reason !== "subscription_cycle") {
+    return { handled: false, message: "Not a subscription renewal invoice." };
+  }
+
+  const membership = await findMembershipForSubscription(supabase, subscriptionId, {
+    customerId: getStripeId(invoice.customer),
+    metadataUserId: invoice.parent?.subscription_details?.metadata?.userId,
+  });
+  if (!membership) {
+    return { handled: false, message: `No membership for subscription ${subscriptionId}.` };
+  }
+
+  const { data: existingPayment, error: existingPaymentError } = await supabase
+    .from("wallet_transactions")
+    .select("id")
+    .eq("reference_id", invoice.id)
+    .eq("type", "subscription_payment")
+    .maybeSingle<{ id: string }>();
+
+  if (existingPaymentError) throw existingPaymentError;
+  if (existingPayment?.id) {
+    return {
+      handled: true,
+      alreadyProcessed: true,
+      userId: membership.user_id,
+      message: "Renewal already processed.",
+    };
+  }
+
+  const now = deps.now || new Date();
+  const period = getInvoicePeriod(invoice);
+  const amountCents = Number(invoice.amount_paid || 0);
+  const suspended = membership.billing_status === "suspended";
+
+  const { error: membershipError } = await supabase
+    .from("memberships")
+    .update({
+      status: "active",
+      billing_status:
+        suspended || membership.billing_status === "canceling"
+          ? membership.billing_status
+          : "current",
+      ...(period ? { starts_at: period.startsAt, expires_at: period.endsAt } : {}),
+      price_cents: amountCents,
+      grace_period_ends_at: null,
+      payment_failed_count: 0,
+      canceled_at: null,
+      updated_at: now.toISOString(),
+    })
+    .eq("id", membership.id);
+
+  if (membershipError) throw membershipError;
+
+  // A payment that lands after the grace period lapsed restores the plan,
+  // unless a refund or dispute has it suspended pending review.
+  if (!suspended) {
+    const { error: accountError } = await supabase
+      .from("accounts")
+      .update({ tier: membership.tier })
+      .eq("id", membership.user_id);
+
+    if (accountError) throw accountError;
+  }
+
+  const allocate = deps.allocateSubscriptionCreditsFn || allocateSubscriptionCredits;
+  // Keyed on the invoice, so a retry after a failed payment row below does
+  // not allocate the cycle a second time.
+  const creditResult = await allocate(supabase, membership.user_id, membership.tier, {
+    idempotencyKey: `subscription_renewal:${invoice.id}`,
+  });
+
+  // The payment row marks the renewal processed, so it is written only once
+  // the credits are in; a failed allocation leaves the retry free to run.
+  const { data: wallet, error: walletError } = await supabase
+    .from("wallets")
+    .select("balance_cents")
+    .eq("user_id", membership.user_id)
+    .maybeSingle<{ balance_cents: number | null }>();
+
+  if (walletError) throw walletError;
+
+  const walletBalance = Number(wallet?.balance_cents || 0);
+  const { error: transactionError } = await supabase.from("wallet_transactions").insert({
+    user_id: membership.user_id,
+    type: "subscription_payment",
+    amount_cents: amountCents,
+    balance_before_cents: walletBalance,
+    balance_after_cents: walletBalance,
+    description: `Subscription renewal for ${membership.tier} plan`,
+    reference_id: invoice.id,
+  });
+
+  if (transactionError) throw transactionError;
+
+  const track = deps.trackCustomerEventFn || trackCustomerEventSafely;
+  await track(membership.user_id, CIO_EVENTS.SUBSCRIPTION_RENEWED, {
+    tier: membership.tier,
+    amount_cents: amountCents,
+    stripe_invoice_id: invoice.id,
+    stripe_subscription_id: subscriptionId,
+    expires_at: period?.endsAt || membership.expires_at,
+  });
+
+  return {
+    handled: true,
+    userId: membership.user_id,
+    message: `Renewal processed. ${creditResult.creditsToAdd} credit(s) allocated.`,
+  };
+}
+
+async function handleInvoicePaymentFailed(
+  supabase: SupabaseClient,
+  invoice: Stripe.Invoice,
+  deps: StripeLifecycleDependencies
+): Promise<StripeLifecycleResult> {
+  const subscriptionId = getInvoiceSubscriptionId(invoice);
+  if (!subscriptionId) {
+    return { handled: false, message: "Invoice is not for a subscription." };
+  }
+
+  const membership = await findMembershipForSubscription(supabase, subscriptionId, {
+    customerId: getStripeId(invoice.customer),
+    metadataUserId: invoice.parent?.subscription_details?.metadata?.userId,
+  });
+  if (!membership) {
+    return { handled: false, message: `No membership for subscription ${subscriptionId}.` };
+  }
+
+  if (membership.billing_status === "canceled") {
+    return {
+      handled: true,
+      alreadyProcessed: true,
+      userId: membership.user_id,
+      message: "Membership has already ended.",
+    };
+  }
+
+  const now = deps.now || new Date();
+  const graceEndsAt =
+    membership.grace_period_ends_at ||
+    new Date(now.getTime() + SUBSCRIPTION_GRACE_PERIOD_DAYS * 86_400_000).toISOString();
+  // Access runs on expires_at, so keep it open until the grace period ends.
+  const expiresAt =
+    membership.expires_at &&
+    new Date(membership.expires_at).getTime() > new Date(graceEndsAt).getTime()
+      ? membership.expires_at
+      : graceEndsAt;
+  const attemptCount = Math.max(
+    Number(invoice.attempt_count || 0),
+    Number(membership.payment_failed_count || 0) + 1
+  );
+
+  const { error } = await supabase
+    .from("memberships")
+    .update({
+      billing_status: membership.billing_status === "suspended" ? "suspended" : "past_due",
+      grace_period_ends_at: graceEndsAt,
+      expires_at: expiresAt,
+      payment_failed_count: attemptCount,
+      updated_at: now.toISOString(),
+    })
+    .eq("id", membership.id);
+
+  if (error) throw error;
+
+  const track = deps.trackCustomerEventFn || trackCustomerEventSafely;
+  await track(membership.user_id, CIO_EVENTS.SUBSCRIPTION_PAYMENT_FAILED, {
+    tier: membership.tier,
+    attempt_count: attemptCount,
+    stripe_invoice_id: invoice.id,
+    stripe_subscription_id: subscriptionId,
+    grace_period_ends_at: graceEndsAt,
+  });
+
+  const recipient = await getRecipient(supabase, membership.user_id);
+  if (recipient) {
+    const send =
+      deps.sendSubscriptionPaymentFailedEmailFn || sendSubscriptionPaymentFailedEmail;
+    await send(
+      recipient.email,
+      {
+        recipientName: recipient.name,
+        tierName: formatTierName(membership.tier),
+        attemptCount,
+        graceEndsDate: new Date(graceEndsAt).toLocaleDateString(),
+        nextAttemptDate:
+          typeof invoice.next_payment_attempt === "number"
+            ? new Date(invoice.next_payment_attempt * 1000).toLocaleDateString()
+            : null,
+      },
+      membership.user_id
+    ).catch((emailError) => {
+      console.warn("[stripe-lifecycle] Dunning email failed:", emailError);
+    });
+  }
+
+  return {
+    handled: true,
+    userId: membership.user_id,
+    message: `Payment failed (attempt ${attemptCount}); grace period ends ${graceEndsAt}.`,
+  };
+}
+
+/**
+ * Apply one Stripe subscription lifecycle event. Each event id is processed
+ * once; a throw releases the claim so Stripe's retry runs it again.
+ */
+export async function processStripeSubscriptionEvent(
+  supabase: SupabaseClient,
+  event: Stripe.Event,
+  deps: StripeLifecycleDependencies = {}
+): Promise<StripeLifecycleResult> {
+  if (!isStripeSubscriptionLifecycleEvent(event.type)) {
+    return { handled: false, message: `Unsupported event type ${event.type}.` };
+  }
+
+  const claimed = await claimWebhookEvent(supabase, event);
+  if (!claimed) {
+    return { handled: true, alreadyProcessed: true, message: "Event already processed." };
+  }
+
+  try {
+    switch (event.type) {
+      case "invoice.paid":
+        return await handleInvoicePaid(supabase, event.data.object as Stripe.Invoice, deps);
+      case "invoice.payment_failed":
+        return await handleInvoicePaymentFailed(
+          supabase,
+          event.data.object as Stripe.Invoice,
+          deps
+        );
+      default:
+        return await handleSubscriptionChange(supabase, event, deps);
+    }
+  } catch (error) {
+    await releaseWebhookEvent(supabase, event.id);
+    throw error;
+  }
+}
+
+/**
+ * Downgrade memberships whose cancellation took effect or whose grace
+ * period ran out without a successful payment.
+ */
+export async function processDueSubscriptionDowngrades(
+  supabase: SupabaseClient,
+  deps: StripeLifecycleDependencies = {}
+) {
+  const nowIso = (deps.now || new Date()).toISOString();
+
+  const { data: canceling, error: cancelingError } = await supabase
+    .from("memberships")
+    .select(MEMBERSHIP_COLUMNS)
+    .eq("billing_status", "canceling")
+    .lte("scheduled_downgrade_at", nowIso);
+
+  if (cancelingError) throw cancelingError;
+
+  const { data: lapsed, error: lapsedError } = await supabase
+    .from("memberships")
+    .select(MEMBERSHIP_COLUMNS)
+    .eq("billing_status", "past_due")
+    .lte("grace_period_ends_at", nowIso);
+
+  if (lapsedError) throw lapsedError;
+
+  let downgraded = 0;
+  const failures: string[] = [];
+  const due = [
+    ...((canceling || []) as MembershipRow[]).map((membership) => ({
+      membership,
+      reason: "Your subscription was cancelled and the billing period has ended.",
+    })),
+    ...((lapsed || []) as MembershipRow[]).map((membership) => ({
+      membership,
+      reason: "We could not collect payment before the grace period ended.",
+    })),
+  ];
+
+  for (const { membership, reason } of due) {
+    try {
+      if (await downgradeMembership(supabase, membership, { reason }, deps)) {
+        downgraded += 1;
+      }
+    } catch (error) {
+      console.error(
+        `[stripe-lifecycle] Failed to downgrade membership ${membership.id}:`,
+        error
+      );
+      failures.push(membership.id);
+    }
+  }
+
+  return { checked: due.length, downgraded, failures };
+}
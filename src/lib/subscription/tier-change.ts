@@ -0,0 +1,852 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type Stripe from "stripe";
+import { allocateSubscriptionCredits } from "@/lib/credits/allocation";
+import { MONTHLY_CREDITS_BY_TIER, UNLIMITED_CREDITS } from "@/lib/credits/config";
+import { drawDownCreditLots } from "@/lib/credits/lots";
+import { recordCreditTransaction } from "@/lib/credits/transactions";
+import {
+  creditEntries,
+  postLedgerTransactionSafely,
+  walletEntries,
+} from "@/lib/ledger/ledger";
+import { CIO_EVENTS, trackCustomerEventSafely } from "@/lib/customerio";
+import {
+  isWalletCurrency,
+  normalizeCurrencyCode,
+  type CurrencyKey,
+} from "@/lib/payments/currencies";
+import {
+  resolveSubscriptionPriceCents,
+  SUBSCRIPTION_PRICE_COLUMNS,
+  type SubscriptionPricingRow,
+  type TierId,
+} from "@/lib/subscription/config";
+import { getStripeSubscriptionPeriod } from "@/lib/subscription/stripe-lifecycle";
+
+/**
+ * Mid-cycle plan changes.
+ *
+ * A change starts a fresh monthly cycle on the new tier. The unused share of
+ * the current cycle (by time) is worth that share of what was paid for it;
+ * that value is applied to the new tier's price and any surplus is added to
+ * the wallet. Credits follow the same rule: the unused share of the old
+ * tier's monthly allowance is taken back before the new tier's allowance is
+ * allocated, so a change can't be used to collect two allowances.
+ *
+ * Every provider settles a change the same way through completeTierChange:
+ * - wallet: the amount due is deducted from the wallet balance.
+ * - paystack / flutterwave: a pending change is linked to the hosted
+ *   checkout's reference and completed by processSubscriptionFlutterwavePayment.
+ * - stripe: the subscription is re-priced and re-anchored in place, with the
+ *   unused value applied as customer balance.
+ *
+ * The wallet only holds NGN and USD. Plans billed in another currency are
+ * never paid from or credited to it: Stripe keeps their surplus on the
+ * customer balance, and hosted-checkout plans can't take a surplus at all.
+ */
+
+export const TIER_RANK: Record<TierId, number> = {
+  basic: 0,
+  standard: 1,
+  premium: 2,
+  vip: 3,
+};
+
+export type TierChangeCurrency = CurrencyKey;
+
+export type TierChangeProvider = "wallet" | "stripe" | "paystack" | "flutterwave";
+
+export type TierChangeQuote = {
+  fromTier: TierId;
+  toTier: TierId;
+  direction: "upgrade" | "downgrade";
+  currency: TierChangeCurrency;
+  currentPriceCents: number;
+  targetPriceCents: number;
+  periodStartsAt: string;
+  periodEndsAt: string;
+  /** Share of the current cycle still ahead, 0..1. */
+  remainingRatio: number;
+  unusedCreditCents: number;
+  creditAppliedCents: number;
+  amountDueCents: number;
+  walletCreditCents: number;
+  /** Prorated unused monthly credits of the old tier; null when unlimited. */
+  unusedAllowanceCredits: number | null;
+};
+
+export type ActiveMembership = {
+  id: string;
+  user_id: string;
+  tier: string;
+  status: string;
+  starts_at: string | null;
+  expires_at: string | null;
+  price_cents: number | null;
+  currency: string | null;
+  stripe_subscription_id: string | null;
+  stripe_customer_id: string | null;
+  billing_status: string | null;
+};
+
+export type TierChangeRow = {
+  id: string;
+  user_id: string;
+  membership_id: string | null;
+  from_tier: TierId;
+  to_tier: TierId;
+  direction: "upgrade" | "downgrade";
+  provider: TierChangeProvider;
+  payment_reference: string | null;
+  currency: TierChangeCurrency;
+  current_price_cents: number;
+  target_price_cents: number;
+  unused_credit_cents: number;
+  amount_due_cents: number;
+  wallet_credit_cents: number;
+  unused_allowance_credits: number | null;
+  status: "pending" | "processing" | "completed" | "failed";
+  /** Completion progress, so a failed change resumes instead of repeating steps. */
+  wallet_charged_at: string | null;
+  clawed_back_at: string | null;
+  credits_clawed_back: number | null;
+  starts_at: string | null;
+  expires_at: string | null;
+};
+
+type TierChangeErrorCode =
+  | "invalid_tier"
+  | "no_active_subscription"
+  | "same_tier"
+  | "billing_issue"
+  | "insufficient_wallet_balance"
+  | "wallet_currency_unsupported"
+  | "surplus_unsupported"
+  | "payment_mismatch";
+
+export type TierChangeFailure = {
+  ok: false;
+  status: number;
+  code: TierChangeErrorCode;
+  message: string;
+};
+
+export type TierChangeQuoteResult =
+  | { ok: true; quote: TierChangeQuote; membership: ActiveMembership }
+  | TierChangeFailure;
+
+export type TierChangeCompletion =
+  | {
+      ok: true;
+      alreadyProcessed?: boolean;
+      tierChangeId: string;
+      tier: TierId;
+      expiresAt: string | null;
+      creditsAdded: number;
+      walletCreditCents: number;
+    }
+  | TierChangeFailure;
+
+export type TierChangeDependencies = {
+  allocateSubscriptionCreditsFn?: typeof allocateSubscriptionCredits;
+  trackCustomerEventFn?: typeof trackCustomerEventSafely;
+  now?: Date;
+};
+
+const MEMBERSHIP_COLUMNS =
+  "id, user_id, tier, status, starts_at, expires_at, price_cents, currency, stripe_subscription_id, stripe_customer_id, billing_status";
+
+const TIER_CHANGE_COLUMNS =
+  "id, user_id, membership_id, from_tier, to_tier, direction, provider, payment_reference, currency, current_price_cents, target_price_cents, unused_credit_cents, amount_due_cents, wallet_credit_cents, unused_allowance_credits, status, wallet_charged_at, clawed_back_at, credits_clawed_back, starts_at, expires_at";
+
+const DAY_MS = 86_400_000;
+
+function failure(
+  status: number,
+  code: TierChangeErrorCode,
+  message: string
+): TierChangeFailure {
+  return { ok: false, status, code, message };
+}
+
+export function parseTierId(value: unknown): TierId | null {
+  if (typeof value !== "string") return null;
+  const tier = value.trim().toLowerCase();
+  return tier in TIER_RANK ? (tier as TierId) : null;
+}
+
+function normalizeCurrency(value: unknown): TierChangeCurrency | null {
+  return (normalizeCurrencyCode(value)?.toLowerCase() as TierChangeCurrency) || null;
+}
+
+function addOneMonth(date: Date) {
+  const next = new Date(date);
+  next.setMonth(next.getMonth() + 1);
+  return next;
+}
+
+/** Current price of a tier, honouring the admin pricing override. */
+export async function getTierPriceCents(
+  supabase: SupabaseClient,
+  tier: TierId,
+  currency: TierChangeCurrency
+) {
+  const { data, error } = await supabase
+    .from("subscription_pricing")
+    .select(SUBSCRIPTION_PRICE_COLUMNS)
+    .eq("tier_id", tier)
+    .maybeSingle<SubscriptionPricingRow>();
+
+  if (error) {
+    console.error("[tier-change] Unable to read subscription pricing:", error.message);
+    return resolveSubscriptionPriceCents(null, tier, currency);
+  }
+
+  return resolveSubscriptionPriceCents(data, tier, currency);
+}
+
+/**
+ * Price out a change from one tier to another. Pure: the caller supplies
+ * both prices and the current cycle.
+ */
+export function calculateTierChangeQuote(input: {
+  fromTier: TierId;
+  toTier: TierId;
+  currency: TierChangeCurrency;
+  currentPriceCents: number;
+  targetPriceCents: number;
+  periodStartsAt: string;
+  periodEndsAt: string;
+  now: Date;
+}): TierChangeQuote {
+  const start = new Date(input.periodStartsAt).getTime();
+  const end = new Date(input.periodEndsAt).getTime();
+  const length = Math.max(end - start, DAY_MS);
+  const remainingRatio = Math.min(1, Math.max(0, (end - input.now.getTime()) / length));
+
+  const unusedCreditCents = Math.floor(Math.max(0, input.currentPriceCents) * remainingRatio);
+  const creditAppliedCents = Math.min(unusedCreditCents, input.targetPriceCents);
+  const monthlyCredits = MONTHLY_CREDITS_BY_TIER[input.fromTier];
+
+  return {
+    fromTier: input.fromTier,
+    toTier: input.toTier,
+    direction: TIER_RANK[input.toTier] > TIER_RANK[input.fromTier] ? "upgrade" : "downgrade",
+    currency: input.currency,
+    currentPriceCents: input.currentPriceCents,
+    targetPriceCents: input.targetPriceCents,
+    periodStartsAt: input.periodStartsAt,
+    periodEndsAt: input.periodEndsAt,
+    remainingRatio,
+    unusedCreditCents,
+    creditAppliedCents,
+    amountDueCents: input.targetPriceCents - creditAppliedCents,
+    walletCreditCents: unusedCreditCents - creditAppliedCents,
+    unusedAllowanceCredits:
+      monthlyCredits >= UNLIMITED_CREDITS ? null : Math.floor(monthlyCredits * remainingRatio),
+  };
+}
+
+export async function getActivePaidMembership(
+  supabase: SupabaseClient,
+  userId: string,
+  now = new Date()
+): Promise<ActiveMembership | null> {
+  const { data, error } = await supabase
+    .from("memberships")
+    .select(MEMBERSHIP_COLUMNS)
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle<ActiveMembership>();
+
+  if (error) throw error;
+  if (
+    !data ||
+    data.status !== "active" ||
+    Number(data.price_cents || 0) <= 0 ||
+    !data.expires_at ||
+    new Date(data.expires_at) <= now
+  ) {
+    return null;
+  }
+  return data;
+}
+
+/**
+ * Quote a change for the user's active paid membership. `currency` is only
+ * used for memberships recorded before the paid currency was stored.
+ */
+export async function quoteTierChange(
+  supabase: SupabaseClient,
+  params: { userId: string; targetTier: unknown; currency?: unknown; now?: Date }
+): Promise<TierChangeQuoteResult> {
+  const now = params.now || new Date();
+  const targetTier = parseTierId(params.targetTier);
+  if (!targetTier) {
+    return failure(400, "invalid_tier", "Choose a valid plan.");
+  }
+
+  const membership = await getActivePaidMembership(supabase, params.userId, now);
+  if (!membership) {
+    return failure(
+      409,
+      "no_active_subscription",
+      "You don't have an active paid plan to change. Subscribe to a plan instead."
+    );
+  }
+
+  const fromTier = parseTierId(membership.tier) || "basic";
+  if (fromTier === targetTier) {
+    return failure(409, "same_tier", "You are already on this plan.");
+  }
+
+  if (membership.billing_status === "past_due") {
+    return failure(
+      409,
+      "billing_issue",
+      "Your last renewal payment failed. Update your payment method before changing plans."
+    );
+  }
+  if (membership.billing_status === "suspended") {
+    return failure(
+      409,
+      "billing_issue",
+      "Your plan is on hold while a payment refund or dispute is reviewed."
+    );
+  }
+  if (membership.billing_status === "canceling") {
+    return failure(
+      409,
+      "billing_issue",
+      "Your plan is set to end. Resume it before changing plans."
+    );
+  }
+
+  const currency =
+    normalizeCurrency(membership.currency) || normalizeCurrency(params.currency) || "usd";
+  const targetPriceCents = await getTierPriceCents(supabase, targetTier, currency);
+  const periodStartsAt =
+    membership.starts_at ||
+    new Date(new Date(membership.expires_at!).getTime() - 30 * DAY_MS).toISOString();
+
+  const quote = calculateTierChangeQuote({
+    fromTier,
+    toTier: targetTier,
+    currency,
+    currentPriceCents: Number(membership.price_cents || 0),
+    targetPriceCents,
+    periodStartsAt,
+    periodEndsAt: membership.expires_at!,
+    now,
+  });
+
+  if (quote.walletCreditCents > 0 && !isWalletCurrency(currency)) {
+    if (!membership.stripe_subscription_id) {
+      return failure(
+        409,
+        "surplus_unsupported",
+        `Your unused plan time is worth more than the new plan, and the wallet can't hold ${currency.toUpperCase()}. Change plans later in your cycle or when it renews.`
+      );
+    }
+    // The surplus stays on the Stripe customer balance for later invoices.
+    quote.walletCreditCents = 0;
+  }
+
+  return { ok: true, membership, quote };
+}
+
+/** Record a change before it is paid for. */
+export async function createTierChange(
+  supabase: SupabaseClient,
+  params: {
+    membership: ActiveMembership;
+    quote: TierChangeQuote;
+    provider: TierChangeProvider;
+    paymentReference?: string | null;
+  }
+): Promise<TierChangeRow> {
+  const { quote } = params;
+  const { data, error } = await supabase
+    .from("subscription_tier_changes")
+    .insert({
+      user_id: params.membership.user_id,
+      membership_id: params.membership.id,
+      from_tier: quote.fromTier,
+      to_tier: quote.toTier,
+      direction: quote.direction,
+      provider: params.provider,
+      payment_reference: params.paymentReference || null,
+      currency: quote.currency,
+      current_price_cents: quote.currentPriceCents,
+      target_price_cents: quote.targetPriceCents,
+      unused_credit_cents: quote.unusedCreditCents,
+      amount_due_cents: quote.amountDueCents,
+      wallet_credit_cents: quote.walletCreditCents,
+      unused_allowance_credits: quote.unusedAllowanceCredits,
+      status: "pending",
+    })
+    .select(TIER_CHANGE_COLUMNS)
+    .single<TierChangeRow>();
+
+  if (error) throw error;
+  return data;
+}
+
+/** Attach the hosted checkout reference once the checkout exists. */
+export async function linkTierChangePaymentReference(
+  supabase: SupabaseClient,
+  tierChangeId: string,
+  paymentReference: string
+) {
+  const { error } = await supabase
+    .from("subscription_tier_changes")
+    .update({ payment_reference: paymentReference })
+    .eq("id", tierChangeId)
+    .eq("status", "pending");
+
+  if (error) throw error;
+}
+
+export async function findTierChangeByPaymentReference(
+  supabase: SupabaseClient,
+  paymentReference: string
+) {
+  const { data, error } = await supabase
+    .from("subscription_tier_changes")
+    .select(TIER_CHANGE_COLUMNS)
+    .eq("payment_reference", paymentReference)
+    .maybeSingle<TierChangeRow>();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Take back the unused share of the old tier's allowance so only the new
+ * tier's allowance (plus anything bought or rolled over) carries forward.
+ */
+async function clawBackUnusedAllowance(
+  supabase: SupabaseClient,
+  change: TierChangeRow
+) {
+  const { data: credits, error } = await supabase
+    .from("credits")
+    .select("total, used")
+    .eq("user_id", change.user_id)
+    .maybeSingle<{ total: number | null; used: number | null }>();
+
+  if (error) throw error;
+  if (!credits) return 0;
+
+  const total = Number(credits.total || 0);
+  const used = Number(credits.used || 0);
+  const headroom = Math.max(0, total - used);
+  const clawback =
+    change.unused_allowance_credits === null
+      ? headroom
+      : Math.min(headroom, change.unused_allowance_credits);
+
+  if (clawback <= 0) return 0;
+
+  const { error: updateError } = await supabase
+    .from("credits")
+    .update({ total: total - clawback, updated_at: new Date().toISOString() })
+    .eq("user_id", change.user_id);
+
+  if (updateError) throw updateError;
+
+  await drawDownCreditLots(supabase, change.user_id, clawback, {
+    sources: ["subscription"],
+  }).catch((lotError) => {
+    console.warn("[tier-change] Failed to draw down plan credit lots:", lotError);
+  });
+
+  await recordCreditTransaction(supabase, {
+    userId: change.user_id,
+    amount: -clawback,
+    actionType: "subscription_tier_change_adjustment",
+    description: `Returned ${clawback} unused ${change.from_tier} credit(s) when changing to ${change.to_tier}.`,
+  });
+
+  await postLedgerTransactionSafely(supabase, {
+    kind: "plan_change",
+    userId: change.user_id,
+    idempotencyKey: `plan_change_clawback:${change.id}`,
+    description: `Returned ${clawback} unused ${change.from_tier} credit(s).`,
+    entries: creditEntries(change.user_id, -clawback, "credit_issuance"),
+  });
+
+  return clawback;
+}
+
+/**
+ * Move the wallet through apply_wallet_adjustment, which locks the wallet and
+ * applies each reference once. False when the balance would go negative.
+ */
+async function adjustWallet(
+  supabase: SupabaseClient,
+  params: {
+    userId: string;
+    deltaCents: number;
+    /** Amount to record when it differs from the balance change. */
+    amountCents?: number;
+    type: string;
+    description: string;
+    referenceId: string;
+  }
+) {
+  const { data, error } = await supabase.rpc("apply_wallet_adjustment", {
+    p_user_id: params.userId,
+    p_delta_cents: params.deltaCents,
+    p_amount_cents: params.amountCents ?? params.deltaCents,
+    p_type: params.type,
+    p_description: params.description,
+    p_reference_id: params.referenceId,
+  });
+  if (error) throw error;
+
+  const row = Array.isArray(data) ? data[0] : data;
+  if (!row) throw new Error("apply_wallet_adjustment returned no result");
+  if (!row.applied) return false;
+
+  await postLedgerTransactionSafely(supabase, {
+    kind: "plan_change",
+    userId: params.userId,
+    idempotencyKey: `plan_change:${params.referenceId}`,
+    description: params.description,
+    entries: walletEntries(params.userId, params.deltaCents, "subscription_revenue"),
+  });
+  return true;
+}
+
+async function saveTierChangeStep(
+  supabase: SupabaseClient,
+  tierChangeId: string,
+  step: Partial<
+    Pick<
+      TierChangeRow,
+      "wallet_charged_at" | "clawed_back_at" | "credits_clawed_back" | "starts_at" | "expires_at"
+    >
+  >
+) {
+  const { error } = await supabase
+    .from("subscription_tier_changes")
+    .update(step)
+    .eq("id", tierChangeId);
+
+  if (error) throw error;
+}
+
+/**
+ * Apply a paid (or free) change: new tier, fresh cycle, adjusted credits,
+ * surplus to the wallet. Runs once per change; repeat calls report
+ * alreadyProcessed. A change that failed part-way is resumed: the wallet
+ * charge and the credit clawback are saved as they land and not repeated,
+ * and the other steps are safe to run again.
+ */
+export async function completeTierChange(
+  supabase: SupabaseClient,
+  change: TierChangeRow,
+  params: {
+    /** What the provider collected; checked against the quoted amount. */
+    amountPaidCents?: number;
+    paymentCurrency?: string | null;
+    /** Cycle end reported by the provider (Stripe); defaults to one month. */
+    expiresAt?: string | null;
+  } = {},
+  deps: TierChangeDependencies = {}
+): Promise<TierChangeCompletion> {
+  const now = deps.now || new Date();
+
+  if (change.provider !== "wallet" && change.amount_due_cents > 0) {
+    const paid = Number(params.amountPaidCents || 0);
+    const paidCurrency = normalizeCurrency(params.paymentCurrency) || change.currency;
+    if (paid < change.amount_due_cents || paidCurrency !== change.currency) {
+      return failure(
+        409,
+        "payment_mismatch",
+        "The payment does not match the quoted amount for this plan change."
+      );
+    }
+  }
+
+  const { data: claimed, error: claimError } = await supabase
+    .from("subscription_tier_changes")
+    .update({ status: "processing" })
+    .eq("id", change.id)
+    .in("status", ["pending", "failed"])
+    .select(TIER_CHANGE_COLUMNS);
+
+  if (claimError) throw claimError;
+  const progress = (claimed?.[0] || null) as TierChangeRow | null;
+  if (!progress) {
+    return {
+      ok: true,
+      alreadyProcessed: true,
+      tierChangeId: change.id,
+      tier: change.to_tier,
+      expiresAt: null,
+      creditsAdded: 0,
+      walletCreditCents: 0,
+    };
+  }
+
+  try {
+    if (
+      change.provider === "wallet" &&
+      change.amount_due_cents > 0 &&
+      !progress.wallet_charged_at
+    ) {
+      const charged = await adjustWallet(supabase, {
+        userId: change.user_id,
+        deltaCents: -change.amount_due_cents,
+        type: "subscription_payment",
+        description: `Plan change from ${change.from_tier} to ${change.to_tier}`,
+        referenceId: `tier_change_${change.id}`,
+      });
+
+      if (!charged) {
+        await supabase
+          .from("subscription_tier_changes")
+          .update({ status: "failed", error: "Insufficient wallet balance" })
+          .eq("id", change.id);
+        return failure(
+          402,
+          "insufficient_wallet_balance",
+          "Your wallet balance does not cover this plan change."
+        );
+      }
+      await saveTierChangeStep(supabase, change.id, { wallet_charged_at: now.toISOString() });
+    } else if (change.provider !== "wallet" && change.amount_due_cents > 0) {
+      await adjustWallet(supabase, {
+        userId: change.user_id,
+        deltaCents: 0,
+        amountCents: change.amount_due_cents,
+        type: "subscription_payment",
+        description: `Plan change from ${change.from_tier} to ${change.to_tier} via ${change.provider}`,
+        referenceId: change.payment_reference || `tier_change_${change.id}`,
+      });
+    }
+
+    // A resumed change keeps the cycle its first attempt started.
+    const startsAt = progress.starts_at || now.toISOString();
+    const expiresAt =
+      progress.expires_at || params.expiresAt || addOneMonth(now).toISOString();
+    if (!progress.starts_at) {
+      await saveTierChangeStep(supabase, change.id, {
+        starts_at: startsAt,
+        expires_at: expiresAt,
+      });
+    }
+
+    const { error: accountError } = await supabase
+      .from("accounts")
+      .update({ tier: change.to_tier })
+      .eq("id", change.user_id);
+
+    if (accountError) throw accountError;
+
+    if (change.membership_id) {
+      const { error: membershipError } = await supabase
+        .from("memberships")
+        .update({
+          tier: change.to_tier,
+          status: "active",
+          starts_at: startsAt,
+          expires_at: expiresAt,
+          price_cents: change.target_price_cents,
+          currency: change.currency,
+          updated_at: startsAt,
+        })
+        .eq("id", change.membership_id);
+
+      if (membershipError) throw membershipError;
+    }
+
+    // Never credit the wallet in a currency it doesn't hold.
+    const walletCreditCents = isWalletCurrency(change.currency) ? change.wallet_credit_cents : 0;
+    let creditsClawedBack = Number(progress.credits_clawed_back || 0);
+    if (!progress.clawed_back_at) {
+      creditsClawedBack = await clawBackUnusedAllowance(supabase, change);
+      await saveTierChangeStep(supabase, change.id, {
+        clawed_back_at: new Date().toISOString(),
+        credits_clawed_back: creditsClawedBack,
+      });
+    }
+
+    const allocate = deps.allocateSubscriptionCreditsFn || allocateSubscriptionCredits;
+    const creditResult = await allocate(supabase, change.user_id, change.to_tier, {
+      idempotencyKey: `tier_change:${change.id}`,
+    });
+
+    if (walletCreditCents > 0) {
+      await adjustWallet(supabase, {
+        userId: change.user_id,
+        deltaCents: walletCreditCents,
+        type: "subscription_proration_credit",
+        description: `Unused ${change.from_tier} plan time credited on change to ${change.to_tier}`,
+        referenceId: `tier_change_credit_${change.id}`,
+      });
+    }
+
+    const { error: completeError } = await supabase
+      .from("subscription_tier_changes")
+      .update({
+        status: "completed",
+        credits_clawed_back: creditsClawedBack,
+        starts_at: startsAt,
+        expires_at: expiresAt,
+        error: null,
+        completed_at: new Date().toISOString(),
+      })
+      .eq("id", change.id);
+
+    if (completeError) throw completeError;
+
+    const track = deps.trackCustomerEventFn || trackCustomerEventSafely;
+    await track(
+      change.user_id,
+      change.direction === "upgrade"
+        ? CIO_EVENTS.SUBSCRIPTION_UPGRADED
+        : CIO_EVENTS.SUBSCRIPTION_DOWNGRADED,
+      {
+        tier: change.to_tier,
+        previous_tier: change.from_tier,
+        amount_cents: change.amount_due_cents,
+        wallet_credit_cents: walletCreditCents,
+        payment_provider: change.provider,
+        starts_at: startsAt,
+        expires_at: expiresAt,
+      }
+    );
+
+    return {
+      ok: true,
+      tierChangeId: change.id,
+      tier: change.to_tier,
+      expiresAt,
+      creditsAdded: creditResult.creditsToAdd,
+      walletCreditCents,
+    };
+  } catch (error) {
+    await supabase
+      .from("subscription_tier_changes")
+      .update({
+        status: "failed",
+        error: error instanceof Error ? error.message : "Failed to apply plan change",
+      })
+      .eq("id", change.id);
+    throw error;
+  }
+}
+
+/**
+ * Re-price a Stripe subscription for a change and start its new cycle now.
+ * The applied credit goes on the customer's Stripe balance so the immediate
+ * invoice only charges the amount due; it is reversed if the charge fails.
+ */
+export async function changeStripeSubscriptionTier(
+  stripe: Stripe,
+  params: { membership: ActiveMembership; change: TierChangeRow }
+) {
+  const { membership, change } = params;
+  const subscription = await stripe.subscriptions.retrieve(
+    membership.stripe_subscription_id!
+  );
+  const item = subscription.items.data[0];
+  const customerId =
+    typeof subscription.customer === "string"
+      ? subscription.customer
+      : subscription.customer.id;
+  const creditAppliedCents = change.unused_credit_cents - change.wallet_credit_cents;
+
+  if (creditAppliedCents > 0) {
+    await stripe.customers.createBalanceTransaction(customerId, {
+      amount: -creditAppliedCents,
+      currency: change.currency,
+      description: `Unused ${change.from_tier} plan time`,
+      metadata: { tierChangeId: change.id },
+    });
+  }
+
+  try {
+    const updated = await stripe.subscriptions.update(subscription.id, {
+      items: [
+        {
+          id: item.id,
+          price_data: {
+            currency: change.currency,
+            product:
+              typeof item.price.product === "string"
+                ? item.price.product
+                : item.price.product.id,
+            unit_amount: change.target_price_cents,
+            recurring: { interval: "month" },
+          },
+        },
+      ],
+      billing_cycle_anchor: "now",
+      proration_behavior: "none",
+      payment_behavior: "error_if_incomplete",
+      metadata: { ...subscription.metadata, tier: change.to_tier },
+    });
+
+    return { expiresAt: getStripeSubscriptionPeriod(updated).endsAt };
+  } catch (error) {
+    if (creditAppliedCents > 0) {
+      await stripe.customers
+        .createBalanceTransaction(customerId, {
+          amount: creditAppliedCents,
+          currency: change.currency,
+          description: `Reversed unused ${change.from_tier} plan time credit`,
+          metadata: { tierChangeId: change.id },
+        })
+        .catch((reverseError) => {
+          console.error("[tier-change] Failed to reverse Stripe balance credit:", reverseError);
+        });
+    }
+    throw error;
+  }
+}
+
+async function findUnfinishedWalletChange(supabase: SupabaseClient, membershipId: string) {
+  const { data, error } = await supabase
+    .from("subscription_tier_changes")
+    .select(TIER_CHANGE_COLUMNS)
+    .eq("membership_id", membershipId)
+    .eq("provider", "wallet")
+    .eq("status", "failed");
+
+  if (error) throw error;
+  return (
+    ((data || []) as TierChangeRow[]).find(
+      (change) => change.wallet_charged_at || change.starts_at
+    ) || null
+  );
+}
+
+/** Record and settle a change paid from the wallet (or needing no payment). */
+export async function changeTierWithWallet(
+  supabase: SupabaseClient,
+  params: { membership: ActiveMembership; quote: TierChangeQuote },
+  deps: TierChangeDependencies = {}
+): Promise<TierChangeCompletion> {
+  // A change that failed after it started moving money or the plan is
+  // finished before another can start.
+  const unfinished = await findUnfinishedWalletChange(supabase, params.membership.id);
+  if (unfinished) {
+    return completeTierChange(supabase, unfinished, {}, deps);
+  }
+
+  if (!isWalletCurrency(params.quote.currency)) {
+    return failure(
+      402,
+      "wallet_currency_unsupported",
+      `Your plan is billed in ${params.quote.currency.toUpperCase()}, which the wallet doesn't hold. Pay for the change at checkout.`
+    );
+  }
+
+  const change = await createTierChange(supabase, { ...params, provider: "wallet" });
+  return completeTierChange(supabase, change, {}, deps);
+}
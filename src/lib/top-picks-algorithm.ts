@@ -1,20 +1,33 @@
 /**
  * Top Picks Compatibility Algorithm
  * 
- * Calculates compatibility scores for profile matching based on:
- * - Preference matching (60%)
- * - Profile quality (20%)
- * - Activity level (10%)
- * - Interaction history (10%)
+ * Selects the day's top picks for a user. Candidates are filtered by the
+ * platform visibility rules and ranked with the shared scoring engine in
+ * `@/lib/matching/scoring` (preferences, profile quality, activity and
+ * interaction history) in both directions. Preference dimensions are
+ * re-weighted per member from their wink/like/reject history and
+ * post-meeting answers (`@/lib/matching/preference-model`).
  */
 
-import { createClient } from "@supabase/supabase-js";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
 import { isAgeRestrictedForMatching } from "./age-restrictions";
 import {
   matchesPartnerGenderPreference,
   resolvePartnerGenderPreference,
 } from "./matching/interest-preference";
 import { evaluateGenderEligibility } from "./matching/gender-rules";
+import { resolveGeoPoint, type GeoPoint } from "./geo/geocode";
+import {
+  combineReciprocalScore,
+  scoreMatch,
+  type MatchCandidate,
+  type MatchInteractionSignals,
+  type MatchPreferences,
+  type MatchScoreOptions,
+  type ReciprocalMatchScore,
+} from "./matching/scoring";
+import { loadReverseMatchPercentages } from "./matching/reciprocal";
+import { loadPreferenceModel } from "./matching/preference-model";
 
 // Lazy initialization of admin client (only for server-side use)
 let supabaseAdmin: ReturnType<typeof createClient> | null = null;
@@ -41,23 +54,9 @@ function getSupabaseAdmin() {
   return supabaseAdmin;
 }
 
-export interface UserPreferences {
+export interface UserPreferences extends MatchPreferences {
   partner_gender_preference: string | null;
   partner_experience?: string | null;
-  partner_location: string | null;
-  partner_age_range: string | null;
-  partner_height_min_cm: number | null;
-  partner_height_max_cm: number | null;
-  partner_ethnicity: string[] | null;
-  partner_religion: string[] | null;
-  partner_education: string[] | null;
-  partner_employment: string | null;
-  partner_have_children: string | null;
-  partner_want_children: string | null;
-  partner_smoking: string | null;
-  partner_drinking: string | null;
-  partner_diet: string | null;
-  partner_pets: string | null;
 }
 
 export interface ProfileData {
@@ -66,6 +65,8 @@ export interface ProfileData {
   last_name: string | null;
   date_of_birth: string | null;
   location: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
   height_cm: number | null;
   photos: string[] | null;
   profile_photo_url: string | null;
@@ -79,313 +80,121 @@ export interface ProfileData {
   diet: string | null;
   pets: string | null;
   ethnicity: string[] | null;
+  updated_at?: string | null;
+  last_active_at?: string | null;
 }
 
 export interface CompatibilityScore {
   profile: ProfileData;
+  /** Same 0–100 percentage shown on Discover/Search card badges */
   score: number;
-  breakdown: {
-    preferences: number;
-    quality: number;
-    activity: number;
-    interactions: number;
-  };
-}
-
-/**
- * Calculate age from date of birth
- */
-function calculateAge(dateOfBirth: string | null): number | null {
-  if (!dateOfBirth) return null;
-  const birthDate = new Date(dateOfBirth);
-  const today = new Date();
-  let age = today.getFullYear() - birthDate.getFullYear();
-  const monthDiff = today.getMonth() - birthDate.getMonth();
-  if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < birthDate.getDate())) {
-    age--;
-  }
-  return age;
-}
-
-/**
- * Check if age matches preferred range
- */
-function matchesAgeRange(age: number | null, preferredRange: string | null): boolean {
-  if (!age || !preferredRange) return true; // No preference = match
-  
-  const [min, max] = preferredRange.split("-").map(Number);
-  return age >= min && age <= max;
-}
-
-/**
- * Check if location matches preference (simple string matching for now)
- */
-function matchesLocation(profileLocation: string | null, preferredLocation: string | null): boolean {
-  if (!preferredLocation) return true; // No preference = match
-  if (!profileLocation) return false;
-  
-  // Simple case-insensitive matching
-  return profileLocation.toLowerCase().includes(preferredLocation.toLowerCase()) ||
-         preferredLocation.toLowerCase().includes(profileLocation.toLowerCase());
-}
-
-/**
- * Check if height matches preferred range
- */
-function matchesHeightRange(heightCm: number | null, minCm: number | null, maxCm: number | null): boolean {
-  if (!heightCm) return true; // No height data = match
-  if (!minCm || !maxCm) return true; // No preference = match
-  
-  return heightCm >= minCm && heightCm <= maxCm;
-}
-
-/**
- * Check if array value matches preference
- */
-function matchesArrayPreference(profileValue: string[] | null, preferredValue: string[] | null): boolean {
-  if (!preferredValue || preferredValue.length === 0) return true; // No preference = match
-  if (!profileValue || profileValue.length === 0) return false;
-  
-  // Check if any preferred value matches any profile value
-  return preferredValue.some(pref => 
-    profileValue.some(prof => 
-      prof.toLowerCase() === pref.toLowerCase()
-    )
-  );
-}
-
-/**
- * Check if string value matches preference
- */
-function matchesStringPreference(profileValue: string | null, preferredValue: string | null): boolean {
-  if (!preferredValue) return true; // No preference = match
-  if (!profileValue) return false;
-  
-  return profileValue.toLowerCase() === preferredValue.toLowerCase();
-}
-
-/**
- * Calculate preference matching score (0-60 points)
- */
-function calculatePreferenceScore(
-  profile: ProfileData,
-  preferences: UserPreferences
-): number {
-  let score = 0;
-  const maxScore = 60;
-  const criteriaCount = 10; // Total number of criteria (reduced since some fields not in user_profiles)
-  const pointsPerCriteria = maxScore / criteriaCount;
-
-  const age = calculateAge(profile.date_of_birth);
-  
-  // Age range match (8 points)
-  if (matchesAgeRange(age, preferences.partner_age_range)) {
-    score += pointsPerCriteria * 1.3; // Slightly more weight for age
-  }
-
-  // Location match (4 points)
-  if (matchesLocation(profile.location, preferences.partner_location)) {
-    score += pointsPerCriteria * 0.7;
-  }
-
-  // Height range match (4 points)
-  if (matchesHeightRange(
-    profile.height_cm,
-    preferences.partner_height_min_cm,
-    preferences.partner_height_max_cm
-  )) {
-    score += pointsPerCriteria * 0.7;
-  }
-
-  // Education match (4 points)
-  if (profile.education_level && preferences.partner_education) {
-    if (matchesArrayPreference([profile.education_level], preferences.partner_education)) {
-      score += pointsPerCriteria * 0.7;
-    }
-  } else {
-    score += pointsPerCriteria * 0.7; // No preference = match
-  }
-
-  // Religion match (4 points)
-  if (profile.religion && preferences.partner_religion) {
-    if (matchesArrayPreference([profile.religion], preferences.partner_religion)) {
-      score += pointsPerCriteria * 0.7;
-    }
-  } else {
-    score += pointsPerCriteria * 0.7; // No preference = match
-  }
-
-  // Employment match (4 points) - not available in user_profiles, skip
-  // Give points for no preference
-  if (!preferences.partner_employment) {
-    score += pointsPerCriteria * 0.7;
-  }
-
-  // Have children match (4 points) - profile has boolean, preferences have string
-  const profileHaveChildren = profile.have_children; // string value 'yes' or 'no'
-  if (matchesStringPreference(profileHaveChildren, preferences.partner_have_children)) {
-    score += pointsPerCriteria * 0.7;
-  }
-
-  // Want children match (4 points)
-  if (matchesStringPreference(profile.want_children, preferences.partner_want_children)) {
-    score += pointsPerCriteria * 0.7;
-  }
-
-  // Smoking match (4 points) - profile uses smoking_habits, preferences use partner_smoking
-  // Map smoking_habits values to preference values
-  let profileSmokingPreference: string | null = null;
-  if (profile.smoking === 'never') profileSmokingPreference = 'no';
-  else if (profile.smoking === 'occasionally' || profile.smoking === 'regularly') profileSmokingPreference = 'yes';
-  else if (profile.smoking === 'trying_to_quit') profileSmokingPreference = 'no';
-  
-  if (matchesStringPreference(profileSmokingPreference, preferences.partner_smoking)) {
-    score += pointsPerCriteria * 0.7;
-  } else if (!preferences.partner_smoking) {
-    score += pointsPerCriteria * 0.7; // No preference = match
-  }
-
-  // Drinking match (4 points) - not available in user_profiles, skip
-  // Diet match (4 points) - not available in user_profiles, skip
-  // Pets match (4 points) - not available in user_profiles, skip
-
-  // Ethnicity match (4 points)
-  if (profile.ethnicity && preferences.partner_ethnicity) {
-    if (matchesArrayPreference(profile.ethnicity, preferences.partner_ethnicity)) {
-      score += pointsPerCriteria * 0.7;
-    }
-  } else {
-    score += pointsPerCriteria * 0.7; // No preference = match
-  }
-
-  return Math.min(score, maxScore);
+  match: ReciprocalMatchScore;
 }
 
-/**
- * Calculate profile quality score (0-20 points)
- */
-function calculateQualityScore(profile: ProfileData, accountStatus: string): number {
-  let score = 0;
-  const maxScore = 20;
-
-  // Account must be active (required)
-  if (accountStatus !== "active") {
-    return 0;
-  }
-  score += 5; // Base score for active account
-
-  // Profile completeness
-  if (profile.first_name) score += 2;
-  if (profile.date_of_birth) score += 2;
-  if (profile.location) score += 2;
-  if (profile.height_cm) score += 1;
-
-  // Photos (up to 5 points)
-  const photoCount = (profile.photos?.length || 0) + (profile.profile_photo_url ? 1 : 0);
-  score += Math.min(photoCount * 1, 5);
-
-  // Additional details (up to 4 points)
-  if (profile.education_level) score += 1;
-  if (profile.religion) score += 1;
-  if (profile.have_children !== null || profile.want_children !== null) score += 1;
-  if (profile.smoking) score += 1; // Use smoking instead of employment
-
-  return Math.min(score, maxScore);
-}
+export type InteractionHistory = {
+  rejectedUserIds: Set<string>;
+  likedUserIds: Set<string>;
+  likedByUserIds: Set<string>;
+};
 
 /**
- * Calculate activity level score (0-10 points)
+ * Map a top-picks profile row onto the shared scoring engine's candidate shape.
  */
-function calculateActivityScore(lastLogin: string | null, profileUpdatedAt: string | null): number {
-  let score = 0;
-  const maxScore = 10;
-
-  const now = new Date();
-  
-  // Recent login (up to 6 points)
-  if (lastLogin) {
-    const loginDate = new Date(lastLogin);
-    const daysSinceLogin = (now.getTime() - loginDate.getTime()) / (1000 * 60 * 60 * 24);
-    
-    if (daysSinceLogin <= 1) score += 6;
-    else if (daysSinceLogin <= 7) score += 4;
-    else if (daysSinceLogin <= 30) score += 2;
-  }
-
-  // Recent profile update (up to 4 points)
-  if (profileUpdatedAt) {
-    const updateDate = new Date(profileUpdatedAt);
-    const daysSinceUpdate = (now.getTime() - updateDate.getTime()) / (1000 * 60 * 60 * 24);
-    
-    if (daysSinceUpdate <= 7) score += 4;
-    else if (daysSinceUpdate <= 30) score += 2;
-    else if (daysSinceUpdate <= 90) score += 1;
-  }
-
-  return Math.min(score, maxScore);
+export function toMatchCandidate(profile: ProfileData): MatchCandidate {
+  return {
+    location: profile.location,
+    latitude: profile.latitude ?? null,
+    longitude: profile.longitude ?? null,
+    date_of_birth: profile.date_of_birth,
+    height_cm: profile.height_cm,
+    ethnicity: profile.ethnicity,
+    religion: profile.religion,
+    education_level: profile.education_level,
+    have_children: profile.have_children,
+    want_children: profile.want_children,
+    smoking_habits: profile.smoking,
+    first_name: profile.first_name,
+    photos: profile.photos,
+    profile_photo_url: profile.profile_photo_url,
+    updated_at: profile.updated_at ?? null,
+    last_active_at: profile.last_active_at ?? null,
+  };
 }
 
-/**
- * Calculate interaction history score (0-10 points)
- */
-function calculateInteractionScore(
-  hasRejected: boolean,
-  hasLiked: boolean,
-  hasMutualInterest: boolean
-): number {
-  let score = 10; // Start with full points
-  
-  // Penalize rejected profiles
-  if (hasRejected) {
-    return 0; // Exclude rejected profiles entirely
-  }
-  
-  // Slight boost for already liked profiles (they can still appear)
-  if (hasLiked) {
-    score += 2; // Small boost, but cap at 10
-  }
-  
-  // Boost for mutual interest
-  if (hasMutualInterest) {
-    score += 3; // Boost, but cap at 10
-  }
-  
-  return Math.min(score, 10);
-}
+export type CompatibilityContext = {
+  /**
+   * How well the viewer fits the candidate's preferences (see
+   * `loadReverseMatchPercentages`); null scores the forward direction only.
+   */
+  reversePercentage?: number | null;
+  /** The viewer's own position, for `partner_max_distance_km`. */
+  origin?: GeoPoint | null;
+  /** The viewer's learned weights (see `loadPreferenceModel`). */
+  weights?: MatchScoreOptions["weights"];
+};
 
 /**
- * Calculate compatibility score for a profile
+ * Calculate compatibility score for a profile using the shared scoring engine.
  */
 export function calculateCompatibility(
   profile: ProfileData,
   preferences: UserPreferences | null,
-  accountStatus: string,
-  lastLogin: string | null,
-  profileUpdatedAt: string | null,
-  hasRejected: boolean,
-  hasLiked: boolean,
-  hasMutualInterest: boolean
+  interactions: MatchInteractionSignals | null,
+  context: CompatibilityContext = {}
 ): CompatibilityScore {
-  // If no preferences, use default scoring (less strict)
-  const preferenceScore = preferences
-    ? calculatePreferenceScore(profile, preferences)
-    : 30; // Default score if no preferences set
+  const match = combineReciprocalScore(
+    scoreMatch(preferences, toMatchCandidate(profile), {
+      interactions,
+      origin: context.origin ?? null,
+      weights: context.weights,
+    }),
+    context.reversePercentage ?? null
+  );
 
-  const qualityScore = calculateQualityScore(profile, accountStatus);
-  const activityScore = calculateActivityScore(lastLogin, profileUpdatedAt);
-  const interactionScore = calculateInteractionScore(hasRejected, hasLiked, hasMutualInterest);
+  return {
+    profile,
+    score: match.percentage,
+    match,
+  };
+}
 
-  const totalScore = preferenceScore + qualityScore + activityScore + interactionScore;
+/**
+ * Load the viewer's wink/like/reject history used to exclude rejected
+ * profiles and to feed the interactions scoring dimension.
+ */
+export async function loadInteractionHistory(
+  admin: SupabaseClient,
+  userId: string
+): Promise<InteractionHistory> {
+  const [{ data: rejectedActivities }, { data: likedActivities }, { data: likedByActivities }] =
+    await Promise.all([
+      admin
+        .from("user_activities")
+        .select("target_user_id")
+        .eq("user_id", userId)
+        .eq("activity_type", "rejected"),
+      admin
+        .from("user_activities")
+        .select("target_user_id")
+        .eq("user_id", userId)
+        .in("activity_type", ["like", "wink", "interested"]),
+      admin
+        .from("user_activities")
+        .select("user_id")
+        .eq("target_user_id", userId)
+        .in("activity_type", ["like", "wink", "interested"]),
+    ]);
 
   return {
-    profile,
-    score: Math.round(totalScore * 100) / 100, // Round to 2 decimal places
-    breakdown: {
-      preferences: Math.round(preferenceScore * 100) / 100,
-      quality: Math.round(qualityScore * 100) / 100,
-      activity: Math.round(activityScore * 100) / 100,
-      interactions: Math.round(interactionScore * 100) / 100,
-    },
+    rejectedUserIds: new Set(
+      ((rejectedActivities || []) as { target_user_id: string }[]).map((a) => a.target_user_id)
+    ),
+    likedUserIds: new Set(
+      ((likedActivities || []) as { target_user_id: string }[]).map((a) => a.target_user_id)
+    ),
+    likedByUserIds: new Set(
+      ((likedByActivities || []) as { user_id: string }[]).map((a) => a.user_id)
+    ),
   };
 }
 
@@ -408,12 +217,18 @@ export async function generateTopPicks(
         .maybeSingle(),
       admin
         .from("user_profiles")
-        .select("gender")
+        .select("gender, location, latitude, longitude")
         .eq("user_id", userId)
         .maybeSingle(),
     ]);
-    const requesterGender =
-      (requesterProfile as { gender?: string | null } | null)?.gender || null;
+    const requester = requesterProfile as {
+      gender?: string | null;
+      location?: string | null;
+      latitude?: number | null;
+      longitude?: number | null;
+    } | null;
+    const requesterGender = requester?.gender || null;
+    const requesterOrigin = requester ? resolveGeoPoint(requester) : null;
 
     // Get all active user IDs (excluding current user)
     const { data: activeAccounts } = await admin
@@ -441,13 +256,15 @@ export async function generateTopPicks(
     // Get profiles for active users
     const { data: profiles } = await admin
       .from("user_profiles")
-      .select("user_id, first_name, last_name, date_of_birth, location, height_cm, photos, profile_photo_url, education_level, religion, have_children, want_children, smoking_habits, ethnicity, updated_at, gender, profile_completed")
+      .select("user_id, first_name, last_name, date_of_birth, location, latitude, longitude, height_cm, photos, profile_photo_url, education_level, religion, have_children, want_children, smoking_habits, ethnicity, updated_at, gender, profile_completed")
       .in("user_id", activeUserIds) as { data: { 
   user_id: string;
   first_name: string | null;
   last_name: string | null;
   date_of_birth: string | null;
   location: string | null;
+  latitude: number | null;
+  longitude: number | null;
   height_cm: number | null;
   photos: string[] | null;
   profile_photo_url: string | null;
@@ -466,32 +283,8 @@ export async function generateTopPicks(
       return [];
     }
 
-    // Get rejected profiles for this user
-    const { data: rejectedActivities } = await admin
-      .from("user_activities")
-      .select("target_user_id")
-      .eq("user_id", userId)
-      .eq("activity_type", "rejected") as { data: { target_user_id: string }[] | null };
-
-    const rejectedUserIds = new Set((rejectedActivities || []).map(a => a.target_user_id));
-
-    // Get liked profiles for this user
-    const { data: likedActivities } = await admin
-      .from("user_activities")
-      .select("target_user_id")
-      .eq("user_id", userId)
-      .in("activity_type", ["like", "wink", "interested"]) as { data: { target_user_id: string }[] | null };
-
-    const likedUserIds = new Set((likedActivities || []).map(a => a.target_user_id));
-
-    // Get mutual interests (profiles that have liked this user)
-    const { data: mutualActivities } = await admin
-      .from("user_activities")
-      .select("user_id")
-      .eq("target_user_id", userId)
-      .in("activity_type", ["like", "wink", "interested"]) as { data: { user_id: string }[] | null };
-
-    const mutualUserIds = new Set((mutualActivities || []).map(a => a.user_id));
+    const { rejectedUserIds, likedUserIds, likedByUserIds } =
+      await loadInteractionHistory(admin, userId);
     const partnerGenderPreference = resolvePartnerGenderPreference({
       partnerGenderPreference:
         (preferences as UserPreferences | null)?.partner_gender_preference || null,
@@ -500,8 +293,8 @@ export async function generateTopPicks(
       requesterGender,
     });
 
-    // Calculate compatibility scores (exclude profiles aged 18–23 per platform rule)
-    const scores: CompatibilityScore[] = profiles
+    // Filter the candidate pool (exclude profiles aged 18–23 per platform rule)
+    const candidates: ProfileData[] = profiles
       .map(profile => {
         // Exclude users aged 18–23 from matching pool
         if (isAgeRestrictedForMatching(profile.date_of_birth)) return null;
@@ -532,6 +325,9 @@ export async function generateTopPicks(
           return null;
         }
 
+        // Rejected profiles never come back as picks
+        if (rejectedUserIds.has(profile.user_id)) return null;
+
         // Map profile data to match ProfileData interface
         const profileData: ProfileData = {
           user_id: profile.user_id,
@@ -539,6 +335,8 @@ export async function generateTopPicks(
           last_name: profile.last_name,
           date_of_birth: profile.date_of_birth,
           location: profile.location,
+          latitude: profile.latitude,
+          longitude: profile.longitude,
           height_cm: profile.height_cm,
           photos: profile.photos,
           profile_photo_url: profile.profile_photo_url,
@@ -552,20 +350,40 @@ export async function generateTopPicks(
           diet: null, // Not available in user_profiles
           pets: null, // Not available in user_profiles
           ethnicity: profile.ethnicity ? (typeof profile.ethnicity === 'string' ? [profile.ethnicity] : profile.ethnicity) : null,
+          updated_at: profile.updated_at,
         };
 
-        return calculateCompatibility(
+        return profileData;
+      })
+      .filter((profile): profile is ProfileData => profile !== null);
+
+    // Score both directions so picks respect the candidate's preferences too,
+    // weighting dimensions by what this member has actually responded to
+    const [reversePercentages, preferenceModel] = await Promise.all([
+      loadReverseMatchPercentages(
+        admin,
+        userId,
+        candidates.map((candidate) => candidate.user_id)
+      ),
+      loadPreferenceModel(admin, userId, preferences as UserPreferences | null, requester),
+    ]);
+
+    const scores: CompatibilityScore[] = candidates
+      .map((profileData) =>
+        calculateCompatibility(
           profileData,
           preferences as UserPreferences | null,
-          account.account_status,
-          null, // last_login not available
-          profile.updated_at,
-          rejectedUserIds.has(profile.user_id),
-          likedUserIds.has(profile.user_id),
-          mutualUserIds.has(profile.user_id)
-        );
-      })
-      .filter((score): score is CompatibilityScore => score !== null && score.score > 0) // Filter out rejected profiles
+          {
+            viewerLiked: likedUserIds.has(profileData.user_id),
+            candidateLiked: likedByUserIds.has(profileData.user_id),
+          },
+          {
+            reversePercentage: reversePercentages.get(profileData.user_id) ?? null,
+            origin: requesterOrigin,
+            weights: preferenceModel.weights,
+          }
+        )
+      )
       .sort((a, b) => b.score - a.score) // Sort by score descending
       .slice(0, limit); // Get top N
 
@@ -0,0 +1,267 @@
+/**
+ * WebRTC room attendance
+ *
+ * Every connection to a built-in video room starts with a join token issued
+ * to one participant. Redeeming the token stamps `joined_at`; the room then
+ * sends heartbeats and a final leave. A connection that stops sending
+ * heartbeats counts as gone from its last heartbeat, which is how dropped
+ * networks show up.
+ *
+ * Finalization uses these intervals for the 4-minute grace rule: how long
+ * the host stayed in the room while the other participant was missing.
+ */
+
+import crypto from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/** A token has to be redeemed shortly after it is issued. */
+export const VIDEO_JOIN_TOKEN_TTL_MINUTES = 5;
+export const VIDEO_HEARTBEAT_INTERVAL_SECONDS = 15;
+/** Three missed heartbeats and the connection is treated as dropped. */
+export const VIDEO_HEARTBEAT_STALE_SECONDS = 45;
+
+export type VideoAttendanceEvent = "join" | "heartbeat" | "leave";
+
+export type VideoAttendanceRecord = {
+  id: string;
+  meeting_id: string;
+  user_id: string;
+  role: string;
+  token_expires_at: string;
+  joined_at: string | null;
+  last_seen_at: string | null;
+  left_at: string | null;
+};
+
+type AttendanceErrorCode =
+  | "invalid_token"
+  | "token_expired"
+  | "not_joined"
+  | "connection_closed"
+  | "attendance_update_failed";
+
+export type VideoAttendanceResult =
+  | { ok: true; applied: boolean; attendance: VideoAttendanceRecord }
+  | { ok: false; status: number; code: AttendanceErrorCode; message: string };
+
+type PresenceInterval = { start: number; end: number };
+
+const ATTENDANCE_COLUMNS =
+  "id, meeting_id, user_id, role, token_expires_at, joined_at, last_seen_at, left_at";
+
+export function hashVideoJoinToken(token: string) {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+export function isVideoAttendanceEvent(value: unknown): value is VideoAttendanceEvent {
+  return value === "join" || value === "heartbeat" || value === "leave";
+}
+
+export async function issueVideoJoinToken(
+  supabase: SupabaseClient,
+  params: { meetingId: string; userId: string; role: string; now?: Date }
+) {
+  const now = params.now || new Date();
+  const token = crypto.randomBytes(32).toString("base64url");
+  const expiresAt = new Date(
+    now.getTime() + VIDEO_JOIN_TOKEN_TTL_MINUTES * 60 * 1000
+  ).toISOString();
+
+  const { error } = await supabase.from("meeting_video_attendance").insert({
+    meeting_id: params.meetingId,
+    user_id: params.userId,
+    role: params.role,
+    token_hash: hashVideoJoinToken(token),
+    token_expires_at: expiresAt,
+  });
+
+  if (error) {
+    throw new Error(error.message || "Failed to issue video join token");
+  }
+
+  return { token, expiresAt };
+}
+
+/**
+ * Apply one event from the room. Joins are only accepted while the token is
+ * fresh; repeated joins and leaves are no-ops so a flaky client can retry.
+ */
+export async function recordVideoAttendance(
+  supabase: SupabaseClient,
+  params: {
+    meetingId: string;
+    userId: string;
+    token: string;
+    event: VideoAttendanceEvent;
+    now?: Date;
+  }
+): Promise<VideoAttendanceResult> {
+  const now = params.now || new Date();
+  const nowIso = now.toISOString();
+
+  const { data: row } = await supabase
+    .from("meeting_video_attendance")
+    .select(ATTENDANCE_COLUMNS)
+    .eq("token_hash", hashVideoJoinToken(params.token))
+    .maybeSingle();
+
+  const attendance = row as VideoAttendanceRecord | null;
+  if (
+    !attendance ||
+    attendance.meeting_id !== params.meetingId ||
+    attendance.user_id !== params.userId
+  ) {
+    return {
+      ok: false,
+      status: 404,
+      code: "invalid_token",
+      message: "This video join token is not valid.",
+    };
+  }
+
+  let updates: Record<string, string> | null = null;
+  if (params.event === "join") {
+    if (!attendance.joined_at) {
+      if (new Date(attendance.token_expires_at).getTime() < now.getTime()) {
+        return {
+          ok: false,
+          status: 410,
+          code: "token_expired",
+          message: "This video join token has expired. Please rejoin the meeting.",
+        };
+      }
+      updates = { joined_at: nowIso, last_seen_at: nowIso };
+    }
+  } else if (!attendance.joined_at) {
+    return {
+      ok: false,
+      status: 409,
+      code: "not_joined",
+      message: "This connection has not joined the room yet.",
+    };
+  } else if (params.event === "heartbeat") {
+    if (attendance.left_at) {
+      return {
+        ok: false,
+        status: 409,
+        code: "connection_closed",
+        message: "This connection has already left the room.",
+      };
+    }
+    updates = { last_seen_at: nowIso };
+  } else if (!attendance.left_at) {
+    updates = { left_at: nowIso, last_seen_at: nowIso };
+  }
+
+  if (!updates) {
+    return { ok: true, applied: false, attendance };
+  }
+
+  const { data: updated, error } = await supabase
+    .from("meeting_video_attendance")
+    .update(updates)
+    .eq("id", attendance.id)
+    .select(ATTENDANCE_COLUMNS)
+    .single();
+
+  if (error || !updated) {
+    return {
+      ok: false,
+      status: 500,
+      code: "attendance_update_failed",
+      message: error?.message || "Failed to record attendance.",
+    };
+  }
+
+  return { ok: true, applied: true, attendance: updated as VideoAttendanceRecord };
+}
+
+export async function getMeetingVideoAttendance(
+  supabase: SupabaseClient,
+  meetingId: string
+): Promise<VideoAttendanceRecord[]> {
+  const { data, error } = await supabase
+    .from("meeting_video_attendance")
+    .select(ATTENDANCE_COLUMNS)
+    .eq("meeting_id", meetingId)
+    .not("joined_at", "is", null)
+    .order("joined_at", { ascending: true });
+
+  if (error) {
+    throw new Error(error.message || "Failed to load meeting attendance");
+  }
+
+  return (data || []) as VideoAttendanceRecord[];
+}
+
+/** Merged presence intervals for one user, in epoch milliseconds. */
+export function getPresenceIntervals(
+  records: VideoAttendanceRecord[],
+  userId: string,
+  now: Date = new Date()
+): PresenceInterval[] {
+  const nowMs = now.getTime();
+  const intervals = records
+    .filter((record) => record.user_id === userId && record.joined_at)
+    .map((record) => {
+      const start = new Date(record.joined_at as string).getTime();
+      const lastSeen = new Date(record.last_seen_at || record.joined_at || 0).getTime();
+      let end: number;
+      if (record.left_at) {
+        end = new Date(record.left_at).getTime();
+      } else if (nowMs - lastSeen > VIDEO_HEARTBEAT_STALE_SECONDS * 1000) {
+        end = lastSeen;
+      } else {
+        end = nowMs;
+      }
+      return { start, end: Math.max(start, end) };
+    })
+    .sort((a, b) => a.start - b.start);
+
+  const merged: PresenceInterval[] = [];
+  for (const interval of intervals) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      merged.push({ ...interval });
+    }
+  }
+  return merged;
+}
+
+function overlapMs(from: number, to: number, intervals: PresenceInterval[]) {
+  return intervals.reduce(
+    (total, interval) =>
+      total + Math.max(0, Math.min(to, interval.end) - Math.max(from, interval.start)),
+    0
+  );
+}
+
+/**
+ * Longest time, in whole minutes, that `waiterId` was in the room while
+ * `absentUserId` was gone after having joined. Returns null when the absent
+ * user never joined, so a no-show is not mistaken for a dropped connection.
+ */
+export function measureDisconnectGraceMinutes(
+  records: VideoAttendanceRecord[],
+  params: { absentUserId: string; waiterId: string; now?: Date }
+): number | null {
+  const now = params.now || new Date();
+  const absent = getPresenceIntervals(records, params.absentUserId, now);
+  if (absent.length === 0) {
+    return null;
+  }
+
+  const waiter = getPresenceIntervals(records, params.waiterId, now);
+  const gaps = absent.map((interval, index) => ({
+    from: interval.end,
+    to: index + 1 < absent.length ? absent[index + 1].start : now.getTime(),
+  }));
+
+  const longestWaitMs = gaps.reduce(
+    (longest, gap) => Math.max(longest, overlapMs(gap.from, gap.to, waiter)),
+    0
+  );
+  return Math.floor(longestWaitMs / 60000);
+}
@@ -0,0 +1,172 @@
+/**
+ * Video providers
+ *
+ * Confirmed meetings get a video room from one of two providers: Zoom
+ * (Server-to-Server API, see `@/lib/zoom`) or the built-in WebRTC room,
+ * which signals over Supabase realtime and records who joined and left.
+ *
+ * New rooms use the provider named by VIDEO_PROVIDER ("zoom" by default).
+ * Existing rooms are always moved or deleted through the provider stored
+ * on the meeting, so switching the setting never strands a room.
+ */
+
+import crypto from "crypto";
+import { createZoomMeeting, deleteZoomMeeting, updateZoomMeeting } from "@/lib/zoom";
+
+export type VideoProviderId = "zoom" | "webrtc";
+
+export type VideoRoomOptions = {
+  meetingId: string;
+  topic: string;
+  startTime: string; // ISO 8601
+  durationMinutes?: number;
+  hostName?: string;
+  guestName?: string;
+};
+
+export type VideoRoomResult = {
+  success: boolean;
+  provider: VideoProviderId;
+  /** Link both participants open to join */
+  join_url?: string;
+  password?: string;
+  /** Zoom meeting ID, or the signalling room key for WebRTC rooms */
+  room_id?: string;
+  error?: string;
+  /** True when Zoom is not configured and a placeholder link was used */
+  is_fallback?: boolean;
+};
+
+export type VideoProvider = {
+  id: VideoProviderId;
+  createRoom: (options: VideoRoomOptions) => Promise<VideoRoomResult>;
+  updateRoom: (
+    roomId: string,
+    options: { startTime: string; durationMinutes?: number }
+  ) => Promise<boolean>;
+  deleteRoom: (roomId: string) => Promise<boolean>;
+};
+
+/** Zoom calls can be swapped out, mainly for tests. */
+export type ZoomProviderFunctions = {
+  createZoomMeetingFn?: typeof createZoomMeeting;
+  updateZoomMeetingFn?: typeof updateZoomMeeting;
+  deleteZoomMeetingFn?: typeof deleteZoomMeeting;
+};
+
+type MeetingVideoColumns = {
+  video_provider?: unknown;
+  video_room_id?: unknown;
+  zoom_meeting_id?: unknown;
+};
+
+function getAppUrl() {
+  return process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3001";
+}
+
+export function normalizeVideoProviderId(value: unknown): VideoProviderId {
+  return value === "webrtc" ? "webrtc" : "zoom";
+}
+
+/** Provider for rooms created from now on. */
+export function resolveVideoProviderId(
+  value: string | undefined = process.env.VIDEO_PROVIDER
+): VideoProviderId {
+  return normalizeVideoProviderId(value?.trim().toLowerCase());
+}
+
+/** The provider that owns an existing meeting's room. */
+export function getMeetingVideoProviderId(meeting: MeetingVideoColumns): VideoProviderId {
+  return normalizeVideoProviderId(meeting.video_provider);
+}
+
+/** The room to move or delete for a meeting, whichever provider made it. */
+export function getMeetingVideoRoomId(meeting: MeetingVideoColumns): string | null {
+  const roomId =
+    getMeetingVideoProviderId(meeting) === "webrtc"
+      ? meeting.video_room_id
+      : meeting.zoom_meeting_id;
+  return typeof roomId === "string" && roomId ? roomId : null;
+}
+
+export function createZoomVideoProvider(fns: ZoomProviderFunctions = {}): VideoProvider {
+  const createZoomMeetingFn = fns.createZoomMeetingFn || createZoomMeeting;
+  const updateZoomMeetingFn = fns.updateZoomMeetingFn || updateZoomMeeting;
+  const deleteZoomMeetingFn = fns.deleteZoomMeetingFn || deleteZoomMeeting;
+
+  return {
+    id: "zoom",
+    async createRoom(options) {
+      const result = await createZoomMeetingFn({
+        topic: options.topic,
+        startTime: options.startTime,
+        durationMinutes: options.durationMinutes,
+        hostName: options.hostName,
+        guestName: options.guestName,
+      });
+
+      return {
+        success: result.success,
+        provider: "zoom",
+        join_url: result.join_url,
+        password: result.password,
+        room_id: result.meeting_id ? String(result.meeting_id) : undefined,
+        error: result.error,
+        is_fallback: result.is_fallback,
+      };
+    },
+    updateRoom: (roomId, options) => updateZoomMeetingFn(roomId, options),
+    deleteRoom: (roomId) => deleteZoomMeetingFn(roomId),
+  };
+}
+
+/**
+ * The built-in room lives at /dashboard/meetings/room/<meeting id>. Its
+ * random room key names the realtime channel and is only handed out with
+ * a join token, so the meeting ID alone is not enough to listen in.
+ * The room opens with the meeting's join window, so moving it is a no-op.
+ */
+export function createWebRtcVideoProvider(): VideoProvider {
+  return {
+    id: "webrtc",
+    async createRoom(options) {
+      return {
+        success: true,
+        provider: "webrtc",
+        join_url: `${getAppUrl()}/dashboard/meetings/room/${options.meetingId}`,
+        room_id: crypto.randomBytes(16).toString("hex"),
+        is_fallback: false,
+      };
+    },
+    updateRoom: async () => true,
+    deleteRoom: async () => true,
+  };
+}
+
+/**
+ * STUN/TURN servers handed to browsers joining a built-in room, from the
+ * WEBRTC_ICE_SERVERS JSON array. Falls back to a public STUN server, which
+ * is enough for most home networks but not for strict corporate NATs.
+ */
+export function getWebRtcIceServers(
+  value: string | undefined = process.env.WEBRTC_ICE_SERVERS
+): Array<{ urls: string | string[]; username?: string; credential?: string }> {
+  if (value) {
+    try {
+      const parsed = JSON.parse(value);
+      if (Array.isArray(parsed) && parsed.length > 0) {
+        return parsed;
+      }
+    } catch {
+      console.warn("[video/providers] WEBRTC_ICE_SERVERS is not valid JSON.");
+    }
+  }
+  return [{ urls: "stun:stun.l.google.com:19302" }];
+}
+
+export function getVideoProvider(
+  id: VideoProviderId = resolveVideoProviderId(),
+  fns: ZoomProviderFunctions = {}
+): VideoProvider {
+  return id === "webrtc" ? createWebRtcVideoProvider() : createZoomVideoProvider(fns);
+}
@@ -0,0 +1,217 @@
+"use client";
+
+/**
+ * Browser side of the built-in video room.
+ *
+ * Every open tab joins the room's Supabase realtime channel with its own
+ * presence key and opens a peer connection to each other tab (a small
+ * mesh, which is fine for 1:1 meetings and group sessions of up to 20).
+ * Offers, answers and ICE candidates travel as broadcast messages
+ * addressed to one peer. Both sides may offer at once; the "perfect
+ * negotiation" pattern resolves that by letting the polite peer (the
+ * higher presence key) roll back.
+ */
+
+import type { RealtimeChannel, SupabaseClient } from "@supabase/supabase-js";
+import {
+  isRealtimeFailureStatus,
+  removeRealtimeChannelSafely,
+} from "@/lib/realtime-fallback";
+
+type SignalPayload = {
+  from: string;
+  to: string;
+  description?: RTCSessionDescriptionInit;
+  candidate?: RTCIceCandidateInit;
+};
+
+type PresenceMeta = {
+  user_id?: string;
+  name?: string;
+};
+
+type PeerState = {
+  connection: RTCPeerConnection;
+  userId: string;
+  name: string;
+  stream: MediaStream | null;
+  polite: boolean;
+  makingOffer: boolean;
+  ignoreOffer: boolean;
+};
+
+export type WebRtcRoomPeer = {
+  peerId: string;
+  userId: string;
+  name: string;
+  stream: MediaStream | null;
+};
+
+export type WebRtcRoomConnection = {
+  leave: () => void;
+};
+
+export function joinWebRtcRoom(options: {
+  supabase: SupabaseClient;
+  channelName: string;
+  userId: string;
+  name: string;
+  localStream: MediaStream;
+  iceServers: RTCIceServer[];
+  onPeersChange: (peers: WebRtcRoomPeer[]) => void;
+  /** Called with "connected" once subscribed, or "failed" if realtime drops. */
+  onStatusChange?: (status: "connected" | "failed") => void;
+}): WebRtcRoomConnection {
+  const peerId = crypto.randomUUID();
+  const peers = new Map<string, PeerState>();
+  let closed = false;
+
+  const emitPeers = () => {
+    options.onPeersChange(
+      Array.from(peers.entries()).map(([id, peer]) => ({
+        peerId: id,
+        userId: peer.userId,
+        name: peer.name,
+        stream: peer.stream,
+      }))
+    );
+  };
+
+  const channel: RealtimeChannel = options.supabase.channel(options.channelName, {
+    config: { broadcast: { self: false }, presence: { key: peerId } },
+  });
+
+  const sendSignal = (to: string, payload: Omit<SignalPayload, "from" | "to">) => {
+    void channel.send({
+      type: "broadcast",
+      event: "signal",
+      payload: { from: peerId, to, ...payload },
+    });
+  };
+
+  const closePeer = (remoteId: string) => {
+    const peer = peers.get(remoteId);
+    if (!peer) return;
+    peer.connection.close();
+    peers.delete(remoteId);
+    emitPeers();
+  };
+
+  const getOrCreatePeer = (remoteId: string, meta: PresenceMeta = {}) => {
+    const existing = peers.get(remoteId);
+    if (existing) {
+      if (meta.user_id) existing.userId = meta.user_id;
+      if (meta.name) existing.name = meta.name;
+      return existing;
+    }
+
+    const connection = new RTCPeerConnection({ iceServers: options.iceServers });
+    const peer: PeerState = {
+      connection,
+      userId: meta.user_id || "",
+      name: meta.name || "Participant",
+      stream: null,
+      polite: peerId > remoteId,
+      makingOffer: false,
+      ignoreOffer: false,
+    };
+    peers.set(remoteId, peer);
+
+    options.localStream
+      .getTracks()
+      .forEach((track) => connection.addTrack(track, options.localStream));
+
+    connection.onicecandidate = ({ candidate }) => {
+      if (candidate) sendSignal(remoteId, { candidate: candidate.toJSON() });
+    };
+    connection.ontrack = ({ streams }) => {
+      peer.stream = streams[0] || null;
+      emitPeers();
+    };
+    connection.onnegotiationneeded = async () => {
+      try {
+        peer.makingOffer = true;
+        await connection.setLocalDescription();
+        if (connection.localDescription) {
+          sendSignal(remoteId, { description: connection.localDescription.toJSON() });
+        }
+      } catch (error) {
+        console.error("[video/webrtc-room] offer failed:", error);
+      } finally {
+        peer.makingOffer = false;
+      }
+    };
+    connection.onconnectionstatechange = () => {
+      if (connection.connectionState === "failed") {
+        connection.restartIce();
+      }
+    };
+
+    emitPeers();
+    return peer;
+  };
+
+  const handleSignal = async (payload: SignalPayload) => {
+    if (closed || payload.to !== peerId) return;
+    const peer = getOrCreatePeer(payload.from);
+    const { connection } = peer;
+
+    try {
+      if (payload.description) {
+        const offerCollision =
+          payload.description.type === "offer" &&
+          (peer.makingOffer || connection.signalingState !== "stable");
+        peer.ignoreOffer = !peer.polite && offerCollision;
+        if (peer.ignoreOffer) return;
+
+        await connection.setRemoteDescription(payload.description);
+        if (payload.description.type === "offer") {
+          await connection.setLocalDescription();
+          if (connection.localDescription) {
+            sendSignal(payload.from, { description: connection.localDescription.toJSON() });
+          }
+        }
+      } else if (payload.candidate) {
+        await connection.addIceCandidate(payload.candidate).catch((error) => {
+          if (!peer.ignoreOffer) throw error;
+        });
+      }
+    } catch (error) {
+      console.error("[video/webrtc-room] signalling error:", error);
+    }
+  };
+
+  channel
+    .on("broadcast", { event: "signal" }, ({ payload }) => {
+      void handleSignal(payload as SignalPayload);
+    })
+    .on("presence", { event: "sync" }, () => {
+      const state = channel.presenceState<PresenceMeta>();
+      for (const [remoteId, metas] of Object.entries(state)) {
+        if (remoteId !== peerId) getOrCreatePeer(remoteId, metas[0]);
+      }
+      for (const remoteId of Array.from(peers.keys())) {
+        if (!state[remoteId]) closePeer(remoteId);
+      }
+    })
+    .subscribe(async (status) => {
+      if (status === "SUBSCRIBED") {
+        await channel.track({ user_id: options.userId, name: options.name });
+        options.onStatusChange?.("connected");
+        return;
+      }
+      if (isRealtimeFailureStatus(status) && !closed) {
+        options.onStatusChange?.("failed");
+      }
+    });
+
+  return {
+    leave() {
+      if (closed) return;
+      closed = true;
+      for (const remoteId of Array.from(peers.keys())) closePeer(remoteId);
+      void channel.untrack();
+      removeRealtimeChannelSafely(options.supabase, channel);
+    },
+  };
+}
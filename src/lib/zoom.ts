@@ -249,6 +249,56 @@ export async function createZoomMeeting(options: {
   }
 }
 
+/**
+ * Move an existing Zoom meeting to a new start time (for reschedules).
+ * The join link and password stay the same.
+ *
+ * @param zoomMeetingId The Zoom meeting ID to update
+ */
+export async function updateZoomMeeting(
+  zoomMeetingId: number | string,
+  options: { startTime: string; durationMinutes?: number }
+): Promise<boolean> {
+  if (!isZoomConfigured) {
+    console.log("[Zoom] Not configured — skipping meeting update.");
+    return true;
+  }
+
+  try {
+    const accessToken = await getAccessToken();
+
+    const response = await fetch(
+      `https://api.zoom.us/v2/meetings/${zoomMeetingId}`,
+      {
+        method: "PATCH",
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          start_time: options.startTime,
+          duration: options.durationMinutes ?? 30,
+          timezone: "UTC",
+        }),
+      }
+    );
+
+    if (response.ok || response.status === 204) {
+      console.log(`[Zoom] Meeting ${zoomMeetingId} moved to ${options.startTime}.`);
+      return true;
+    }
+
+    console.error(
+      `[Zoom] Failed to update meeting ${zoomMeetingId}:`,
+      response.status
+    );
+    return false;
+  } catch (error) {
+    console.error("[Zoom] Error updating meeting:", error);
+    return false;
+  }
+}
+
 /**
  * Delete a Zoom meeting (for cancellations).
  *
@@ -0,0 +1,42 @@
+-- Store geocoded coordinates on profiles and a "within N km" partner preference.
+-- Coordinates are derived offline from `location` (src/lib/geo); rows saved
+-- before this migration are geocoded on read until the profile is next saved.
+
+ALTER TABLE public.user_profiles
+  ADD COLUMN IF NOT EXISTS latitude DOUBLE PRECISION,
+  ADD COLUMN IF NOT EXISTS longitude DOUBLE PRECISION,
+  ADD COLUMN IF NOT EXISTS location_precision TEXT,
+  ADD COLUMN IF NOT EXISTS location_geocoded_at TIMESTAMPTZ;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_constraint
+    WHERE conname = 'user_profiles_location_precision_check'
+  ) THEN
+    ALTER TABLE public.user_profiles
+      ADD CONSTRAINT user_profiles_location_precision_check
+      CHECK (location_precision IS NULL OR location_precision = ANY (ARRAY['city', 'country']));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_user_profiles_lat_lng
+  ON public.user_profiles(latitude, longitude)
+  WHERE latitude IS NOT NULL AND longitude IS NOT NULL;
+
+ALTER TABLE public.user_preferences
+  ADD COLUMN IF NOT EXISTS partner_max_distance_km INTEGER;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_constraint
+    WHERE conname = 'user_preferences_partner_max_distance_km_check'
+  ) THEN
+    ALTER TABLE public.user_preferences
+      ADD CONSTRAINT user_preferences_partner_max_distance_km_check
+      CHECK (partner_max_distance_km IS NULL OR partner_max_distance_km > 0);
+  END IF;
+END $$;
@@ -0,0 +1,69 @@
+-- Saved searches: named Search filter sets per member, plus the profiles each
+-- search has already surfaced so the alert cron only reports new results.
+-- MatchIndeed applies Supabase migrations manually from the SQL editor.
+
+CREATE TABLE IF NOT EXISTS public.saved_searches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.accounts(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  filters JSONB NOT NULL DEFAULT '{}'::jsonb,
+  alerts_enabled BOOLEAN NOT NULL DEFAULT true,
+  last_run_at TIMESTAMPTZ,
+  last_alerted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'saved_searches_name_length'
+  ) THEN
+    ALTER TABLE public.saved_searches
+      ADD CONSTRAINT saved_searches_name_length
+      CHECK (char_length(btrim(name)) BETWEEN 1 AND 60);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_user_created
+  ON public.saved_searches(user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_alerts_due
+  ON public.saved_searches(last_run_at NULLS FIRST)
+  WHERE alerts_enabled = true;
+
+CREATE TABLE IF NOT EXISTS public.saved_search_results (
+  saved_search_id UUID NOT NULL REFERENCES public.saved_searches(id) ON DELETE CASCADE,
+  matched_user_id UUID NOT NULL REFERENCES public.accounts(id) ON DELETE CASCADE,
+  first_seen_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (saved_search_id, matched_user_id)
+);
+
+CREATE OR REPLACE FUNCTION public.set_saved_searches_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_saved_searches_updated_at
+  ON public.saved_searches;
+
+CREATE TRIGGER trg_saved_searches_updated_at
+  BEFORE UPDATE ON public.saved_searches
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_saved_searches_updated_at();
+
+-- Reads and writes go through /api/saved-searches with the service role;
+-- members may still read their own rows directly.
+ALTER TABLE public.saved_searches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.saved_search_results ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own saved searches"
+  ON public.saved_searches;
+
+CREATE POLICY "Users can view their own saved searches"
+  ON public.saved_searches
+  FOR SELECT
+  USING (auth.uid() = user_id);
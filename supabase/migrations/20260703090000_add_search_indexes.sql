@@ -0,0 +1,36 @@
+-- Indexes for the server-side search endpoint (/api/search).
+-- The endpoint reads completed profiles newest-first and pushes the
+-- selective filters (gender, age, religion, education, children, height,
+-- distance) into the query; these indexes back those predicates.
+-- MatchIndeed applies Supabase migrations manually from the SQL editor.
+
+CREATE INDEX IF NOT EXISTS idx_user_profiles_search_recent
+  ON public.user_profiles(updated_at DESC)
+  WHERE profile_completed = true;
+
+CREATE INDEX IF NOT EXISTS idx_user_profiles_search_gender_recent
+  ON public.user_profiles(gender, updated_at DESC)
+  WHERE profile_completed = true;
+
+CREATE INDEX IF NOT EXISTS idx_user_profiles_search_date_of_birth
+  ON public.user_profiles(date_of_birth)
+  WHERE profile_completed = true;
+
+CREATE INDEX IF NOT EXISTS idx_user_profiles_search_religion
+  ON public.user_profiles(religion)
+  WHERE profile_completed = true;
+
+CREATE INDEX IF NOT EXISTS idx_user_profiles_search_education
+  ON public.user_profiles(education_level)
+  WHERE profile_completed = true;
+
+CREATE INDEX IF NOT EXISTS idx_user_profiles_search_height
+  ON public.user_profiles(height_cm)
+  WHERE profile_completed = true;
+
+-- Viewer's own likes/rejections and who liked the viewer, per search.
+CREATE INDEX IF NOT EXISTS idx_user_activities_user_type_target
+  ON public.user_activities(user_id, activity_type, target_user_id);
+
+CREATE INDEX IF NOT EXISTS idx_user_activities_target_type_user
+  ON public.user_activities(target_user_id, activity_type, user_id);
@@ -0,0 +1,59 @@
+-- Meeting state history: one row per workflow transition, written by the
+-- transition service (`src/lib/meetings/transitions.ts`). The unique
+-- idempotency key lets a retried request detect that its transition already
+-- ran instead of repeating refunds, emails and Zoom links.
+-- MatchIndeed applies Supabase migrations manually from the SQL editor.
+
+CREATE TABLE IF NOT EXISTS public.meeting_state_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  meeting_id UUID NOT NULL REFERENCES public.meetings(id) ON DELETE CASCADE,
+  actor_id UUID REFERENCES public.accounts(id) ON DELETE SET NULL,
+  actor_role TEXT NOT NULL,
+  from_state TEXT NOT NULL,
+  to_state TEXT NOT NULL,
+  reason TEXT,
+  metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+  idempotency_key TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'meeting_state_events_actor_role_check'
+  ) THEN
+    ALTER TABLE public.meeting_state_events
+      ADD CONSTRAINT meeting_state_events_actor_role_check
+      CHECK (actor_role IN ('host', 'guest', 'coordinator', 'admin', 'system'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'meeting_state_events_idempotency_key'
+  ) THEN
+    ALTER TABLE public.meeting_state_events
+      ADD CONSTRAINT meeting_state_events_idempotency_key
+      UNIQUE (meeting_id, idempotency_key);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_meeting_state_events_meeting_created
+  ON public.meeting_state_events(meeting_id, created_at);
+
+-- Rows are written with the service role; participants may read the history
+-- of their own meetings.
+ALTER TABLE public.meeting_state_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Participants can view their meeting history"
+  ON public.meeting_state_events;
+
+CREATE POLICY "Participants can view their meeting history"
+  ON public.meeting_state_events
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.meeting_participants mp
+      WHERE mp.meeting_id = meeting_state_events.meeting_id
+        AND mp.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,77 @@
+-- Participant-initiated reschedules: a member of a confirmed meeting offers
+-- up to three of the other member's availability slots, and the other member
+-- accepts one or declines. The meeting waits in the new
+-- `reschedule_proposed` workflow state while a proposal is open.
+-- MatchIndeed applies Supabase migrations manually from the SQL editor.
+
+ALTER TABLE public.meetings
+  DROP CONSTRAINT IF EXISTS meetings_workflow_state_check;
+
+ALTER TABLE public.meetings
+  ADD CONSTRAINT meetings_workflow_state_check CHECK (
+    workflow_state IN (
+      'requested',
+      'accepted',
+      'confirmed',
+      'reschedule_proposed',
+      'in_progress',
+      'completed',
+      'rated',
+      'canceled'
+    )
+  );
+
+CREATE TABLE IF NOT EXISTS public.meeting_reschedule_proposals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  meeting_id UUID NOT NULL REFERENCES public.meetings(id) ON DELETE CASCADE,
+  proposed_by UUID NOT NULL REFERENCES public.accounts(id) ON DELETE CASCADE,
+  responder_id UUID NOT NULL REFERENCES public.accounts(id) ON DELETE CASCADE,
+  -- [{ "slot_id": "...", "scheduled_at": "<UTC ISO>" }], one to three entries
+  proposed_slots JSONB NOT NULL,
+  previous_scheduled_at TIMESTAMPTZ NOT NULL,
+  selected_scheduled_at TIMESTAMPTZ,
+  message TEXT,
+  status TEXT NOT NULL DEFAULT 'pending',
+  responded_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'meeting_reschedule_proposals_status_check'
+  ) THEN
+    ALTER TABLE public.meeting_reschedule_proposals
+      ADD CONSTRAINT meeting_reschedule_proposals_status_check
+      CHECK (status IN ('pending', 'accepted', 'declined', 'withdrawn', 'canceled'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'meeting_reschedule_proposals_slots_check'
+  ) THEN
+    ALTER TABLE public.meeting_reschedule_proposals
+      ADD CONSTRAINT meeting_reschedule_proposals_slots_check
+      CHECK (
+        jsonb_typeof(proposed_slots) = 'array'
+        AND jsonb_array_length(proposed_slots) BETWEEN 1 AND 3
+      );
+  END IF;
+END $$;
+
+-- At most one open proposal per meeting.
+CREATE UNIQUE INDEX IF NOT EXISTS idx_meeting_reschedule_proposals_one_pending
+  ON public.meeting_reschedule_proposals(meeting_id)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_meeting_reschedule_proposals_meeting
+  ON public.meeting_reschedule_proposals(meeting_id, created_at DESC);
+
+ALTER TABLE public.meeting_reschedule_proposals ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Participants can view their reschedule proposals"
+  ON public.meeting_reschedule_proposals;
+
+CREATE POLICY "Participants can view their reschedule proposals"
+  ON public.meeting_reschedule_proposals
+  FOR SELECT
+  USING (auth.uid() = proposed_by OR auth.uid() = responder_id);
@@ -0,0 +1,128 @@
+-- Hosted group sessions: an active host publishes a `group` meeting with a
+-- capacity and an optional gender balance rule, members register (paying
+-- the join_group credit cost) or join the waitlist, and after the session
+-- every participant answers yes/no for each other participant. Mutual yes
+-- pairs become pending-agreement matches.
+-- MatchIndeed applies Supabase migrations manually from the SQL editor.
+
+CREATE TABLE IF NOT EXISTS public.group_sessions (
+  meeting_id UUID PRIMARY KEY REFERENCES public.meetings(id) ON DELETE CASCADE,
+  host_user_id UUID NOT NULL REFERENCES public.accounts(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  description TEXT,
+  capacity INTEGER NOT NULL,
+  gender_rule TEXT NOT NULL DEFAULT 'open',
+  registration_closes_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.group_session_registrations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  meeting_id UUID NOT NULL REFERENCES public.group_sessions(meeting_id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.accounts(id) ON DELETE CASCADE,
+  -- Profile gender at registration time; balanced sessions count seats by it
+  gender TEXT,
+  status TEXT NOT NULL DEFAULT 'registered',
+  credits_charged INTEGER NOT NULL DEFAULT 0,
+  registered_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  promoted_at TIMESTAMPTZ,
+  canceled_at TIMESTAMPTZ,
+  refunded_at TIMESTAMPTZ,
+  UNIQUE (meeting_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.group_session_responses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  meeting_id UUID NOT NULL REFERENCES public.group_sessions(meeting_id) ON DELETE CASCADE,
+  responder_id UUID NOT NULL REFERENCES public.accounts(id) ON DELETE CASCADE,
+  target_id UUID NOT NULL REFERENCES public.accounts(id) ON DELETE CASCADE,
+  response TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (meeting_id, responder_id, target_id)
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'group_sessions_capacity_check'
+  ) THEN
+    ALTER TABLE public.group_sessions
+      ADD CONSTRAINT group_sessions_capacity_check
+      CHECK (capacity BETWEEN 4 AND 20);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'group_sessions_gender_rule_check'
+  ) THEN
+    ALTER TABLE public.group_sessions
+      ADD CONSTRAINT group_sessions_gender_rule_check
+      CHECK (gender_rule IN ('open', 'balanced'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'group_session_registrations_status_check'
+  ) THEN
+    ALTER TABLE public.group_session_registrations
+      ADD CONSTRAINT group_session_registrations_status_check
+      CHECK (status IN ('registered', 'waitlisted', 'canceled'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'group_session_responses_response_check'
+  ) THEN
+    ALTER TABLE public.group_session_responses
+      ADD CONSTRAINT group_session_responses_response_check
+      CHECK (response IN ('yes', 'no'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'group_session_responses_distinct_check'
+  ) THEN
+    ALTER TABLE public.group_session_responses
+      ADD CONSTRAINT group_session_responses_distinct_check
+      CHECK (responder_id <> target_id);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_group_sessions_host
+  ON public.group_sessions(host_user_id, created_at DESC);
+
+-- Seat counting and waitlist promotion walk registrations in arrival order.
+CREATE INDEX IF NOT EXISTS idx_group_session_registrations_queue
+  ON public.group_session_registrations(meeting_id, status, registered_at);
+
+CREATE INDEX IF NOT EXISTS idx_group_session_registrations_user
+  ON public.group_session_registrations(user_id, registered_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_group_session_responses_target
+  ON public.group_session_responses(meeting_id, target_id);
+
+ALTER TABLE public.group_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.group_session_registrations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.group_session_responses ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view group sessions"
+  ON public.group_sessions;
+
+CREATE POLICY "Authenticated users can view group sessions"
+  ON public.group_sessions
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS "Users can view their group session registrations"
+  ON public.group_session_registrations;
+
+CREATE POLICY "Users can view their group session registrations"
+  ON public.group_session_registrations
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can view their group session responses"
+  ON public.group_session_responses;
+
+CREATE POLICY "Users can view their group session responses"
+  ON public.group_session_responses
+  FOR SELECT
+  USING (auth.uid() = responder_id);
@@ -0,0 +1,56 @@
+-- Pluggable video providers: meetings record which provider made their room
+-- ('zoom' or the built-in 'webrtc' room). WebRTC rooms hand each
+-- participant a single-use join token per connection and record when that
+-- connection joined, was last seen and left, so finalization can measure
+-- the 4-minute network grace period from real attendance.
+-- MatchIndeed applies Supabase migrations manually from the SQL editor.
+
+ALTER TABLE public.meetings
+  ADD COLUMN IF NOT EXISTS video_provider TEXT NOT NULL DEFAULT 'zoom',
+  -- Signalling room key for WebRTC rooms; Zoom rooms keep zoom_meeting_id
+  ADD COLUMN IF NOT EXISTS video_room_id TEXT;
+
+CREATE TABLE IF NOT EXISTS public.meeting_video_attendance (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  meeting_id UUID NOT NULL REFERENCES public.meetings(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.accounts(id) ON DELETE CASCADE,
+  role TEXT NOT NULL,
+  -- SHA-256 of the join token; the token itself is never stored
+  token_hash TEXT NOT NULL UNIQUE,
+  token_expires_at TIMESTAMPTZ NOT NULL,
+  joined_at TIMESTAMPTZ,
+  last_seen_at TIMESTAMPTZ,
+  left_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'meetings_video_provider_check'
+  ) THEN
+    ALTER TABLE public.meetings
+      ADD CONSTRAINT meetings_video_provider_check
+      CHECK (video_provider IN ('zoom', 'webrtc'));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_meeting_video_attendance_meeting
+  ON public.meeting_video_attendance(meeting_id, user_id, joined_at);
+
+ALTER TABLE public.meeting_video_attendance ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Participants can view their meeting attendance"
+  ON public.meeting_video_attendance;
+
+CREATE POLICY "Participants can view their meeting attendance"
+  ON public.meeting_video_attendance
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.meeting_participants mp
+      WHERE mp.meeting_id = meeting_video_attendance.meeting_id
+        AND mp.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,46 @@
+-- Recurring Stripe billing: memberships remember their Stripe subscription
+-- and follow its lifecycle. Renewals extend expires_at, a cancellation
+-- schedules a downgrade at period end, and a failed renewal payment opens
+-- a grace period (billing_status = 'past_due') during which dunning emails
+-- go out. stripe_webhook_events makes replayed webhook deliveries no-ops.
+-- MatchIndeed applies Supabase migrations manually from the SQL editor.
+
+ALTER TABLE public.memberships
+  ADD COLUMN IF NOT EXISTS stripe_subscription_id TEXT,
+  ADD COLUMN IF NOT EXISTS stripe_customer_id TEXT,
+  ADD COLUMN IF NOT EXISTS billing_status TEXT NOT NULL DEFAULT 'current',
+  ADD COLUMN IF NOT EXISTS scheduled_downgrade_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS grace_period_ends_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS payment_failed_count INTEGER NOT NULL DEFAULT 0,
+  -- created time of the newest Stripe subscription event applied; older
+  -- events that arrive late are ignored
+  ADD COLUMN IF NOT EXISTS stripe_event_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS canceled_at TIMESTAMPTZ;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'memberships_billing_status_check'
+  ) THEN
+    ALTER TABLE public.memberships
+      ADD CONSTRAINT memberships_billing_status_check
+      CHECK (billing_status IN ('current', 'past_due', 'canceling', 'canceled'));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_memberships_stripe_subscription
+  ON public.memberships(stripe_subscription_id)
+  WHERE stripe_subscription_id IS NOT NULL;
+
+-- The lifecycle cron looks for due downgrades and lapsed grace periods.
+CREATE INDEX IF NOT EXISTS idx_memberships_billing_due
+  ON public.memberships(billing_status, scheduled_downgrade_at, grace_period_ends_at)
+  WHERE billing_status IN ('past_due', 'canceling');
+
+CREATE TABLE IF NOT EXISTS public.stripe_webhook_events (
+  event_id TEXT PRIMARY KEY,
+  type TEXT NOT NULL,
+  processed_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.stripe_webhook_events ENABLE ROW LEVEL SECURITY;
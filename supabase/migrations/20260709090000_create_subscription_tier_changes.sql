@@ -0,0 +1,51 @@
+-- Mid-cycle plan changes. A tier change starts a fresh billing cycle on the
+-- new tier; the unused days of the current cycle are credited toward the new
+-- price, and anything left over goes to the wallet. Each change is recorded
+-- here before payment so the provider callback (or the wallet charge) can
+-- complete it exactly once.
+-- MatchIndeed applies Supabase migrations manually from the SQL editor.
+
+-- Currency the membership was paid in; proration quotes stay in it.
+ALTER TABLE public.memberships
+  ADD COLUMN IF NOT EXISTS currency TEXT;
+
+CREATE TABLE IF NOT EXISTS public.subscription_tier_changes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  membership_id UUID,
+  from_tier TEXT NOT NULL,
+  to_tier TEXT NOT NULL,
+  direction TEXT NOT NULL CHECK (direction IN ('upgrade', 'downgrade')),
+  provider TEXT NOT NULL CHECK (provider IN ('wallet', 'stripe', 'paystack', 'flutterwave')),
+  -- tx_ref / reference of the hosted checkout that pays for this change
+  payment_reference TEXT UNIQUE,
+  currency TEXT NOT NULL,
+  current_price_cents INTEGER NOT NULL,
+  target_price_cents INTEGER NOT NULL,
+  unused_credit_cents INTEGER NOT NULL DEFAULT 0,
+  amount_due_cents INTEGER NOT NULL DEFAULT 0,
+  wallet_credit_cents INTEGER NOT NULL DEFAULT 0,
+  -- prorated share of the old tier's monthly credits; NULL means unlimited
+  unused_allowance_credits INTEGER,
+  credits_clawed_back INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processing', 'completed', 'failed')),
+  error TEXT,
+  starts_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_subscription_tier_changes_user
+  ON public.subscription_tier_changes(user_id, created_at DESC);
+
+ALTER TABLE public.subscription_tier_changes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own tier changes"
+  ON public.subscription_tier_changes;
+
+CREATE POLICY "Users can view their own tier changes"
+  ON public.subscription_tier_changes
+  FOR SELECT
+  USING (auth.uid() = user_id);
@@ -0,0 +1,217 @@
+-- Double-entry ledger for wallet money and booking credits.
+--
+-- Every movement of wallet cents or credits posts one ledger transaction whose
+-- entries sum to zero per unit: the user's account moves one way and a system
+-- account (payment clearing, revenue, credit issuance, ...) the other. User
+-- balances are the sum of their entries, so `wallets` and `credits` become
+-- caches that the nightly reconciliation checks against the ledger instead of
+-- being repaired after the fact from wallet_transactions history.
+--
+-- Sign convention: a positive amount increases what the owner of the account
+-- holds. User accounts therefore carry positive balances and system accounts
+-- the mirror-image negative ones.
+-- MatchIndeed applies Supabase migrations manually from the SQL editor.
+
+CREATE TABLE IF NOT EXISTS public.ledger_transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind TEXT NOT NULL CHECK (kind IN (
+    'opening_balance',
+    'wallet_topup',
+    'credit_purchase',
+    'subscription_payment',
+    'credit_allocation',
+    'meeting_charge',
+    'refund',
+    'referral_reward',
+    'admin_adjustment',
+    'plan_change'
+  )),
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  -- provider session / tx_ref / row id the posting came from; replays of the
+  -- same event find the existing transaction instead of posting twice
+  idempotency_key TEXT NOT NULL UNIQUE,
+  description TEXT,
+  metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.ledger_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  transaction_id UUID NOT NULL REFERENCES public.ledger_transactions(id) ON DELETE CASCADE,
+  account TEXT NOT NULL CHECK (account IN (
+    'user_wallet',
+    'user_credits',
+    'payment_clearing',
+    'subscription_revenue',
+    'credit_sales_revenue',
+    'meeting_fee_revenue',
+    'credit_issuance',
+    'credit_consumption',
+    'promotions',
+    'admin_adjustments',
+    'opening_balance'
+  )),
+  -- set for user accounts, NULL for system accounts
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  unit TEXT NOT NULL CHECK (unit IN ('cents', 'credits')),
+  amount BIGINT NOT NULL CHECK (amount <> 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'ledger_entries_user_account_owner'
+  ) THEN
+    ALTER TABLE public.ledger_entries
+      ADD CONSTRAINT ledger_entries_user_account_owner
+      CHECK ((account IN ('user_wallet', 'user_credits')) = (user_id IS NOT NULL));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_transaction
+  ON public.ledger_entries(transaction_id);
+
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_user_account
+  ON public.ledger_entries(user_id, account)
+  WHERE user_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_ledger_transactions_user
+  ON public.ledger_transactions(user_id, created_at DESC);
+
+-- Entries are written in one statement per transaction; checking at commit
+-- rejects any transaction whose entries do not net to zero per unit.
+CREATE OR REPLACE FUNCTION public.assert_ledger_transaction_balanced()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_unit TEXT;
+BEGIN
+  SELECT e.unit INTO v_unit
+  FROM public.ledger_entries e
+  WHERE e.transaction_id = NEW.transaction_id
+  GROUP BY e.unit
+  HAVING SUM(e.amount) <> 0
+  LIMIT 1;
+
+  IF v_unit IS NOT NULL THEN
+    RAISE EXCEPTION 'Ledger transaction % is not balanced in %', NEW.transaction_id, v_unit;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS ledger_entries_balanced ON public.ledger_entries;
+
+CREATE CONSTRAINT TRIGGER ledger_entries_balanced
+  AFTER INSERT OR UPDATE ON public.ledger_entries
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assert_ledger_transaction_balanced();
+
+-- Balances derived from the ledger, one row per account, owner and unit.
+CREATE OR REPLACE VIEW public.ledger_account_balances
+WITH (security_invoker = true) AS
+SELECT
+  e.account,
+  e.user_id,
+  e.unit,
+  SUM(e.amount)::BIGINT AS balance
+FROM public.ledger_entries e
+GROUP BY e.account, e.user_id, e.unit;
+
+CREATE TABLE IF NOT EXISTS public.ledger_reconciliation_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  finished_at TIMESTAMPTZ,
+  users_checked INTEGER NOT NULL DEFAULT 0,
+  drift_count INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'running'
+    CHECK (status IN ('running', 'completed', 'failed')),
+  error TEXT
+);
+
+CREATE TABLE IF NOT EXISTS public.ledger_drift_flags (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id UUID NOT NULL REFERENCES public.ledger_reconciliation_runs(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- wallet_balance: wallets.balance_cents; wallet_transactions: latest
+  -- balance_after_cents; credits: total - used + rollover
+  source TEXT NOT NULL CHECK (source IN ('wallet_balance', 'wallet_transactions', 'credits')),
+  ledger_value BIGINT NOT NULL,
+  recorded_value BIGINT NOT NULL,
+  difference BIGINT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ledger_drift_flags_run
+  ON public.ledger_drift_flags(run_id);
+
+CREATE INDEX IF NOT EXISTS idx_ledger_drift_flags_user
+  ON public.ledger_drift_flags(user_id, created_at DESC);
+
+-- Opening balances: seed the ledger with today's wallet and credit balances
+-- so derived balances start equal to the tables they replace.
+INSERT INTO public.ledger_transactions (kind, user_id, idempotency_key, description)
+SELECT 'opening_balance', w.user_id, 'opening_balance:wallet:' || w.user_id, 'Opening wallet balance'
+FROM public.wallets w
+WHERE COALESCE(w.balance_cents, 0) <> 0
+ON CONFLICT (idempotency_key) DO NOTHING;
+
+INSERT INTO public.ledger_entries (transaction_id, account, user_id, unit, amount)
+SELECT t.id, v.account, v.user_id, 'cents', v.amount
+FROM public.ledger_transactions t
+JOIN public.wallets w ON t.idempotency_key = 'opening_balance:wallet:' || w.user_id
+CROSS JOIN LATERAL (
+  VALUES
+    ('user_wallet', w.user_id, w.balance_cents::BIGINT),
+    ('opening_balance', NULL::UUID, -w.balance_cents::BIGINT)
+) AS v(account, user_id, amount)
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.ledger_entries e WHERE e.transaction_id = t.id
+);
+
+INSERT INTO public.ledger_transactions (kind, user_id, idempotency_key, description)
+SELECT 'opening_balance', c.user_id, 'opening_balance:credits:' || c.user_id, 'Opening credit balance'
+FROM public.credits c
+WHERE GREATEST(0, COALESCE(c.total, 0) - COALESCE(c.used, 0) + COALESCE(c.rollover, 0)) <> 0
+ON CONFLICT (idempotency_key) DO NOTHING;
+
+INSERT INTO public.ledger_entries (transaction_id, account, user_id, unit, amount)
+SELECT t.id, v.account, v.user_id, 'credits', v.amount
+FROM public.ledger_transactions t
+JOIN public.credits c ON t.idempotency_key = 'opening_balance:credits:' || c.user_id
+CROSS JOIN LATERAL (
+  SELECT GREATEST(0, COALESCE(c.total, 0) - COALESCE(c.used, 0) + COALESCE(c.rollover, 0))::BIGINT AS available
+) AS a
+CROSS JOIN LATERAL (
+  VALUES
+    ('user_credits', c.user_id, a.available),
+    ('opening_balance', NULL::UUID, -a.available)
+) AS v(account, user_id, amount)
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.ledger_entries e WHERE e.transaction_id = t.id
+);
+
+ALTER TABLE public.ledger_transactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ledger_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ledger_reconciliation_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ledger_drift_flags ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own ledger transactions"
+  ON public.ledger_transactions;
+
+CREATE POLICY "Users can view their own ledger transactions"
+  ON public.ledger_transactions
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can view their own ledger entries"
+  ON public.ledger_entries;
+
+CREATE POLICY "Users can view their own ledger entries"
+  ON public.ledger_entries
+  FOR SELECT
+  USING (auth.uid() = user_id);
@@ -0,0 +1,76 @@
+-- Reconciliation of provider settlement exports against our payment records.
+--
+-- An admin uploads a Stripe, Paystack or Flutterwave transaction export; each
+-- payment in it is matched by reference against wallet_transactions,
+-- subscription_checkout_processing and subscription_tier_changes. Payments
+-- that do not line up (missing on our side, credited twice, credited with a
+-- different amount, or refunded at the provider only) are stored as items
+-- for an admin to repair or dismiss.
+-- MatchIndeed applies Supabase migrations manually from the SQL editor.
+
+CREATE TABLE IF NOT EXISTS public.payment_reconciliation_imports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider TEXT NOT NULL CHECK (provider IN ('stripe', 'paystack', 'flutterwave')),
+  file_name TEXT,
+  imported_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  row_count INTEGER NOT NULL DEFAULT 0,
+  -- counts per match status, plus skipped and earlier-resolved payments
+  summary JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.payment_reconciliation_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  import_id UUID NOT NULL REFERENCES public.payment_reconciliation_imports(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL CHECK (provider IN ('stripe', 'paystack', 'flutterwave')),
+  -- session id / tx_ref / invoice id shared by the export and our records
+  reference TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN (
+    'missing',
+    'duplicated',
+    'amount_mismatch',
+    'refunded_provider_only'
+  )),
+  record_kind TEXT CHECK (record_kind IN (
+    'wallet_topup',
+    'credit_purchase',
+    'subscription',
+    'tier_change',
+    'subscription_renewal'
+  )),
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  provider_transaction_id TEXT,
+  provider_status TEXT,
+  provider_amount_cents BIGINT NOT NULL DEFAULT 0,
+  refunded_cents BIGINT NOT NULL DEFAULT 0,
+  recorded_amount_cents BIGINT,
+  currency TEXT,
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  resolution TEXT NOT NULL DEFAULT 'open'
+    CHECK (resolution IN ('open', 'repaired', 'dismissed')),
+  repair_action TEXT CHECK (repair_action IN (
+    'replay_payment',
+    'reverse_duplicate',
+    'adjust_amount',
+    'reverse_refund',
+    'dismiss'
+  )),
+  repair_result JSONB,
+  resolution_note TEXT,
+  resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_reconciliation_imports_created
+  ON public.payment_reconciliation_imports(created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_payment_reconciliation_items_import
+  ON public.payment_reconciliation_items(import_id, resolution);
+
+CREATE INDEX IF NOT EXISTS idx_payment_reconciliation_items_reference
+  ON public.payment_reconciliation_items(provider, reference);
+
+-- Service-role access only: admins read and repair through the admin API.
+ALTER TABLE public.payment_reconciliation_imports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.payment_reconciliation_items ENABLE ROW LEVEL SECURITY;
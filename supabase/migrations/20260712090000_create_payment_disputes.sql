@@ -0,0 +1,70 @@
+-- Refunds and chargebacks reported by Stripe, Paystack and Flutterwave.
+--
+-- Each provider refund or dispute becomes one payment_disputes row tied to
+-- the checkout reference it reverses. Unspent wallet money and credits from
+-- that payment are clawed back, and a membership it paid for is suspended
+-- (billing_status = 'suspended', account on basic) until an admin restores
+-- or revokes it, or the provider reports the dispute won or lost. Every
+-- webhook delivery is kept in payment_dispute_events as the audit trail and
+-- makes replays no-ops.
+-- MatchIndeed applies Supabase migrations manually from the SQL editor.
+
+ALTER TABLE public.memberships
+  DROP CONSTRAINT IF EXISTS memberships_billing_status_check;
+
+ALTER TABLE public.memberships
+  ADD CONSTRAINT memberships_billing_status_check
+  CHECK (billing_status IN ('current', 'past_due', 'canceling', 'canceled', 'suspended'));
+
+CREATE TABLE IF NOT EXISTS public.payment_disputes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider TEXT NOT NULL CHECK (provider IN ('stripe', 'paystack', 'flutterwave')),
+  kind TEXT NOT NULL CHECK (kind IN ('refund', 'dispute')),
+  -- refund / dispute id at the provider (Stripe refunds use the charge id)
+  provider_case_id TEXT NOT NULL,
+  -- checkout session / tx_ref / invoice id of the reversed payment
+  reference TEXT,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  record_kind TEXT,
+  amount_cents BIGINT NOT NULL DEFAULT 0,
+  currency TEXT,
+  reason TEXT,
+  status TEXT NOT NULL CHECK (status IN ('refunded', 'open', 'won', 'lost')),
+  wallet_clawed_back_cents BIGINT NOT NULL DEFAULT 0,
+  credits_clawed_back INTEGER NOT NULL DEFAULT 0,
+  suspended_membership_id UUID,
+  review_status TEXT NOT NULL DEFAULT 'none'
+    CHECK (review_status IN ('none', 'pending', 'restored', 'revoked')),
+  reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  review_note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (provider, provider_case_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_disputes_review
+  ON public.payment_disputes(review_status, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_payment_disputes_user
+  ON public.payment_disputes(user_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.payment_dispute_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  dispute_id UUID REFERENCES public.payment_disputes(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL CHECK (provider IN ('stripe', 'paystack', 'flutterwave')),
+  provider_event_id TEXT NOT NULL,
+  event TEXT NOT NULL CHECK (event IN ('refunded', 'dispute_opened', 'dispute_won', 'dispute_lost')),
+  reference TEXT,
+  amount_cents BIGINT NOT NULL DEFAULT 0,
+  outcome TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (provider, provider_event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_dispute_events_dispute
+  ON public.payment_dispute_events(dispute_id, created_at);
+
+-- Service-role access only: admins review through the admin API.
+ALTER TABLE public.payment_disputes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.payment_dispute_events ENABLE ROW LEVEL SECURITY;
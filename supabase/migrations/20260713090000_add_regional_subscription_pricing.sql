@@ -0,0 +1,31 @@
+-- Plan prices in Ghanaian cedi, Kenyan shilling, South African rand,
+-- British pound and euro, managed from /admin/pricing next to NGN and USD.
+--
+-- price_gbp already exists from the retired GBP pricing and is reused; its
+-- stored values are kept. A NULL price falls back to the application default.
+-- MatchIndeed applies Supabase migrations manually from the SQL editor.
+
+ALTER TABLE public.subscription_pricing
+  ADD COLUMN IF NOT EXISTS price_ghs NUMERIC(12, 2),
+  ADD COLUMN IF NOT EXISTS price_kes NUMERIC(12, 2),
+  ADD COLUMN IF NOT EXISTS price_zar NUMERIC(12, 2),
+  ADD COLUMN IF NOT EXISTS price_eur NUMERIC(12, 2);
+
+ALTER TABLE public.subscription_pricing
+  ADD COLUMN IF NOT EXISTS price_gbp NUMERIC(12, 2);
+
+UPDATE public.subscription_pricing AS pricing
+SET
+  price_ghs = COALESCE(pricing.price_ghs, defaults.ghs),
+  price_kes = COALESCE(pricing.price_kes, defaults.kes),
+  price_zar = COALESCE(pricing.price_zar, defaults.zar),
+  price_gbp = COALESCE(pricing.price_gbp, defaults.gbp),
+  price_eur = COALESCE(pricing.price_eur, defaults.eur)
+FROM (
+  VALUES
+    ('basic', 120.00, 1300.00, 180.00, 7.99, 9.49),
+    ('standard', 240.00, 2600.00, 360.00, 16.99, 18.99),
+    ('premium', 420.00, 4500.00, 630.00, 29.99, 32.99),
+    ('vip', 12000.00, 130000.00, 18000.00, 800.00, 950.00)
+) AS defaults(tier_id, ghs, kes, zar, gbp, eur)
+WHERE pricing.tier_id = defaults.tier_id;
@@ -0,0 +1,79 @@
+-- Credit lots: the credits balance broken down by where it came from.
+--
+-- `credits` stays the balance every charge is checked against. Each grant
+-- (plan allocation, purchase, referral reward, refund, admin adjustment) also
+-- records a lot with its own expiry, and spending draws the soonest-expiring
+-- lots down first. The daily credit-expiry cron closes lots past their expiry
+-- and takes what they still held out of the balance. At each plan cycle reset
+-- unspent plan credits carry over only up to the rollover cap.
+-- MatchIndeed applies Supabase migrations manually from the SQL editor.
+
+CREATE TABLE IF NOT EXISTS public.credit_lots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  source TEXT NOT NULL
+    CHECK (source IN ('subscription', 'purchase', 'referral', 'refund', 'admin')),
+  amount INTEGER NOT NULL CHECK (amount > 0),
+  remaining INTEGER NOT NULL CHECK (remaining >= 0),
+  expired_credits INTEGER NOT NULL DEFAULT 0,
+  granted_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- NULL never expires; plan lots instead close at the next cycle reset
+  expires_at TIMESTAMPTZ,
+  -- provider session / reward id the grant came from, so retries record one lot
+  reference TEXT,
+  note TEXT,
+  status TEXT NOT NULL DEFAULT 'active'
+    CHECK (status IN ('active', 'consumed', 'expired', 'rolled_over')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_credit_lots_source_reference
+  ON public.credit_lots(source, reference)
+  WHERE reference IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_credit_lots_user_active
+  ON public.credit_lots(user_id, expires_at)
+  WHERE status = 'active';
+
+CREATE INDEX IF NOT EXISTS idx_credit_lots_expiry
+  ON public.credit_lots(expires_at)
+  WHERE status = 'active' AND expires_at IS NOT NULL;
+
+ALTER TABLE public.ledger_transactions
+  DROP CONSTRAINT IF EXISTS ledger_transactions_kind_check;
+
+ALTER TABLE public.ledger_transactions
+  ADD CONSTRAINT ledger_transactions_kind_check
+  CHECK (kind IN (
+    'opening_balance',
+    'wallet_topup',
+    'credit_purchase',
+    'subscription_payment',
+    'credit_allocation',
+    'credit_expiry',
+    'meeting_charge',
+    'refund',
+    'referral_reward',
+    'admin_adjustment',
+    'plan_change'
+  ));
+
+-- Balances held before lots existed have no known source. They become one
+-- non-expiring lot each so nobody loses credits to the new rules; unlimited
+-- VIP balances are skipped.
+INSERT INTO public.credit_lots (user_id, source, amount, remaining, reference, note)
+SELECT
+  c.user_id,
+  'admin',
+  GREATEST(0, COALESCE(c.total, 0) - COALESCE(c.used, 0) + COALESCE(c.rollover, 0)),
+  GREATEST(0, COALESCE(c.total, 0) - COALESCE(c.used, 0) + COALESCE(c.rollover, 0)),
+  'opening_balance:' || c.user_id::text,
+  'Balance held before credit lots were tracked'
+FROM public.credits c
+WHERE COALESCE(c.total, 0) < 999999
+  AND COALESCE(c.total, 0) - COALESCE(c.used, 0) + COALESCE(c.rollover, 0) > 0
+ON CONFLICT DO NOTHING;
+
+-- Service-role access only: users read their lots through /api/credits/expirations.
+ALTER TABLE public.credit_lots ENABLE ROW LEVEL SECURITY;
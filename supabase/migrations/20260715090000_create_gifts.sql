@@ -0,0 +1,66 @@
+-- Gifts: one member pays for a month of a plan or a pack of credits for
+-- someone else.
+--
+-- Checkout creates a pending_payment row linked to the provider reference.
+-- Once paid, a gift to an existing member is applied to their account
+-- (delivery 'direct'); any other gift keeps its code, which is emailed so it
+-- can be redeemed later. Admins can revoke a gift; a redeemed one is taken
+-- back from the recipient. Gifted credits are recorded as 'gift' credit lots.
+-- MatchIndeed applies Supabase migrations manually from the SQL editor.
+
+CREATE TABLE IF NOT EXISTS public.gifts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT NOT NULL UNIQUE,
+  buyer_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- member the gift was addressed to, when the email matched an account
+  recipient_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  recipient_email TEXT,
+  kind TEXT NOT NULL CHECK (kind IN ('subscription', 'credits')),
+  tier TEXT CHECK (tier IN ('basic', 'standard', 'premium', 'vip')),
+  credits INTEGER CHECK (credits > 0),
+  message TEXT,
+  amount_cents BIGINT NOT NULL CHECK (amount_cents > 0),
+  currency TEXT NOT NULL,
+  provider TEXT NOT NULL CHECK (provider IN ('paystack', 'flutterwave')),
+  payment_reference TEXT,
+  provider_transaction_id TEXT,
+  delivery TEXT NOT NULL DEFAULT 'code' CHECK (delivery IN ('direct', 'code')),
+  status TEXT NOT NULL DEFAULT 'pending_payment'
+    CHECK (status IN ('pending_payment', 'paid', 'redeemed', 'revoked')),
+  paid_at TIMESTAMPTZ,
+  code_expires_at TIMESTAMPTZ,
+  redeemed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  redeemed_at TIMESTAMPTZ,
+  -- what redeeming changed, so a revoke can undo exactly that
+  membership_id UUID,
+  previous_expires_at TIMESTAMPTZ,
+  credits_granted INTEGER,
+  revoked_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  revoked_at TIMESTAMPTZ,
+  revoke_reason TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (
+    (kind = 'subscription' AND tier IS NOT NULL AND credits IS NULL)
+    OR (kind = 'credits' AND credits IS NOT NULL AND tier IS NULL)
+  )
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_gifts_payment_reference
+  ON public.gifts(payment_reference)
+  WHERE payment_reference IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_gifts_buyer ON public.gifts(buyer_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_gifts_recipient ON public.gifts(recipient_id);
+CREATE INDEX IF NOT EXISTS idx_gifts_recipient_email ON public.gifts(recipient_email);
+CREATE INDEX IF NOT EXISTS idx_gifts_status ON public.gifts(status, created_at DESC);
+
+ALTER TABLE public.credit_lots
+  DROP CONSTRAINT IF EXISTS credit_lots_source_check;
+
+ALTER TABLE public.credit_lots
+  ADD CONSTRAINT credit_lots_source_check
+  CHECK (source IN ('subscription', 'purchase', 'gift', 'referral', 'refund', 'admin'));
+
+-- Service-role access only: members see their gifts through /api/gifts.
+ALTER TABLE public.gifts ENABLE ROW LEVEL SECURITY;
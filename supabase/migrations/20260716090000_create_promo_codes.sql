@@ -0,0 +1,66 @@
+-- Promo codes: percentage or fixed discounts on new subscriptions.
+--
+-- Checkout quotes a code against the server-side plan price and reserves a
+-- pending promo_redemptions row linked to the payment reference. The payment
+-- processors mark it applied once the payment lands and stamp the code and
+-- discount on the matching wallet_transactions row. Wallet payments record
+-- an applied redemption straight away. Pending reservations stop counting
+-- towards usage caps after an hour.
+-- MatchIndeed applies Supabase migrations manually from the SQL editor.
+
+CREATE TABLE IF NOT EXISTS public.promo_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT NOT NULL UNIQUE CHECK (code = upper(code)),
+  description TEXT,
+  discount_type TEXT NOT NULL CHECK (discount_type IN ('percent', 'fixed')),
+  percent_off INTEGER CHECK (percent_off BETWEEN 1 AND 100),
+  amount_off_cents BIGINT CHECK (amount_off_cents > 0),
+  -- currency of a fixed discount; percentage codes work in any currency
+  currency TEXT,
+  -- NULL applies to every tier
+  tiers TEXT[],
+  first_purchase_only BOOLEAN NOT NULL DEFAULT false,
+  max_redemptions INTEGER CHECK (max_redemptions > 0),
+  max_redemptions_per_user INTEGER NOT NULL DEFAULT 1 CHECK (max_redemptions_per_user > 0),
+  starts_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ,
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (
+    (discount_type = 'percent' AND percent_off IS NOT NULL AND amount_off_cents IS NULL)
+    OR (discount_type = 'fixed' AND amount_off_cents IS NOT NULL AND currency IS NOT NULL)
+  ),
+  CHECK (tiers IS NULL OR tiers <@ ARRAY['basic', 'standard', 'premium', 'vip']),
+  CHECK (expires_at IS NULL OR starts_at IS NULL OR expires_at > starts_at)
+);
+
+CREATE TABLE IF NOT EXISTS public.promo_redemptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  promo_code_id UUID NOT NULL REFERENCES public.promo_codes(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  tier TEXT NOT NULL CHECK (tier IN ('basic', 'standard', 'premium', 'vip')),
+  currency TEXT NOT NULL,
+  list_amount_cents BIGINT NOT NULL CHECK (list_amount_cents > 0),
+  discount_cents BIGINT NOT NULL CHECK (discount_cents > 0),
+  amount_cents BIGINT NOT NULL CHECK (amount_cents > 0),
+  provider TEXT NOT NULL CHECK (provider IN ('paystack', 'flutterwave', 'wallet')),
+  payment_reference TEXT NOT NULL UNIQUE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'applied')),
+  applied_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_promo_redemptions_code
+  ON public.promo_redemptions(promo_code_id, status);
+CREATE INDEX IF NOT EXISTS idx_promo_redemptions_user
+  ON public.promo_redemptions(user_id);
+
+ALTER TABLE public.wallet_transactions
+  ADD COLUMN IF NOT EXISTS promo_code_id UUID REFERENCES public.promo_codes(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS discount_cents BIGINT;
+
+-- Service-role access only: members check codes through /api/promo-codes/quote.
+ALTER TABLE public.promo_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.promo_redemptions ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,78 @@
+-- Host earnings ledger and payout batches.
+--
+-- Finalizing a meeting records the assigned host's commission on the fee in
+-- host_earnings: 'pending' once the charge is captured, 'held' while the
+-- charge is under review. The review resolution releases a held earning to
+-- 'pending' or voids it when the fee is refunded. Admins gather pending
+-- earnings into a draft payout batch (one host_payouts row per host and
+-- currency), approve it, then mark each payout paid or failed. Paid payouts
+-- mark their earnings paid; failed ones return them to 'pending' for the
+-- next batch.
+-- MatchIndeed applies Supabase migrations manually from the SQL editor.
+
+CREATE TABLE IF NOT EXISTS public.host_payout_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  status TEXT NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'approved', 'completed', 'canceled')),
+  -- earnings recorded before this instant were eligible
+  earned_before TIMESTAMPTZ NOT NULL,
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  approved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  approved_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.host_payouts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  batch_id UUID NOT NULL REFERENCES public.host_payout_batches(id) ON DELETE CASCADE,
+  host_id UUID NOT NULL REFERENCES public.host_profiles(id) ON DELETE CASCADE,
+  amount_cents BIGINT NOT NULL CHECK (amount_cents > 0),
+  currency TEXT NOT NULL,
+  earning_count INTEGER NOT NULL CHECK (earning_count > 0),
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'paid', 'failed', 'canceled')),
+  -- bank or transfer reference recorded when the payout is sent
+  reference TEXT,
+  failure_reason TEXT,
+  settled_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  settled_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (batch_id, host_id, currency)
+);
+
+CREATE INDEX IF NOT EXISTS idx_host_payouts_host ON public.host_payouts(host_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_host_payouts_batch ON public.host_payouts(batch_id, status);
+
+ALTER TABLE public.host_earnings
+  ADD COLUMN IF NOT EXISTS fee_cents BIGINT,
+  ADD COLUMN IF NOT EXISTS commission_rate DECIMAL(5, 2),
+  ADD COLUMN IF NOT EXISTS amount_cents BIGINT,
+  ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'ngn',
+  ADD COLUMN IF NOT EXISTS payout_id UUID REFERENCES public.host_payouts(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS earned_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  ADD COLUMN IF NOT EXISTS released_at TIMESTAMPTZ;
+
+-- Rows written before amount_cents existed carry the amount in major units.
+UPDATE public.host_earnings
+SET amount_cents = round(amount * 100)
+WHERE amount_cents IS NULL AND amount IS NOT NULL;
+
+ALTER TABLE public.host_earnings
+  DROP CONSTRAINT IF EXISTS host_earnings_status_check;
+
+ALTER TABLE public.host_earnings
+  ADD CONSTRAINT host_earnings_status_check
+  CHECK (status IN ('held', 'pending', 'processing', 'paid', 'failed', 'void'));
+
+CREATE INDEX IF NOT EXISTS idx_host_earnings_host_earned
+  ON public.host_earnings(host_id, earned_at DESC);
+CREATE INDEX IF NOT EXISTS idx_host_earnings_status ON public.host_earnings(status);
+CREATE INDEX IF NOT EXISTS idx_host_earnings_payout ON public.host_earnings(payout_id);
+
+-- Service-role access only: hosts see payouts through /api/host/earnings.
+ALTER TABLE public.host_payout_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.host_payouts ENABLE ROW LEVEL SECURITY;
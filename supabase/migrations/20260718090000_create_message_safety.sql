@@ -0,0 +1,94 @@
+-- Message safety: screening chat messages for scams, off-platform contact
+-- and abuse.
+--
+-- POST /api/messages screens every message and applies the policy in
+-- message_safety_policies per category: 'allow', 'blur' (delivered behind a
+-- warning), 'hold' (kept from the recipient until reviewed) or 'block' (not
+-- stored). Flagged messages leave a message_safety_flags row for the review
+-- queue in /admin/moderation. Recipients only see 'clear' and 'blurred'
+-- messages; senders always see their own.
+-- MatchIndeed applies Supabase migrations manually from the SQL editor.
+
+ALTER TABLE public.messages
+  ADD COLUMN IF NOT EXISTS safety_status TEXT NOT NULL DEFAULT 'clear'
+    CHECK (safety_status IN ('clear', 'blurred', 'held', 'removed')),
+  ADD COLUMN IF NOT EXISTS safety_categories TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE TABLE IF NOT EXISTS public.message_safety_policies (
+  category TEXT PRIMARY KEY
+    CHECK (category IN ('phone_number', 'payment_details', 'payment_request', 'off_platform_link', 'abuse')),
+  action TEXT NOT NULL CHECK (action IN ('allow', 'blur', 'hold', 'block')),
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.message_safety_policies (category, action)
+VALUES
+  ('phone_number', 'blur'),
+  ('payment_details', 'block'),
+  ('payment_request', 'hold'),
+  ('off_platform_link', 'blur'),
+  ('abuse', 'hold')
+ON CONFLICT (category) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS public.message_safety_flags (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- NULL for blocked messages, which are never stored
+  message_id UUID REFERENCES public.messages(id) ON DELETE SET NULL,
+  match_id UUID NOT NULL REFERENCES public.user_matches(id) ON DELETE CASCADE,
+  sender_id UUID NOT NULL REFERENCES public.accounts(id) ON DELETE CASCADE,
+  recipient_id UUID NOT NULL REFERENCES public.accounts(id) ON DELETE CASCADE,
+  content TEXT NOT NULL,
+  categories TEXT[] NOT NULL,
+  -- [{ category, match }] as found by the screen
+  signals JSONB NOT NULL DEFAULT '[]'::jsonb,
+  action TEXT NOT NULL CHECK (action IN ('blur', 'hold', 'block')),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'removed')),
+  review_note TEXT,
+  reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_safety_flags_status
+  ON public.message_safety_flags(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_message_safety_flags_sender
+  ON public.message_safety_flags(sender_id, created_at DESC);
+
+-- Held and removed messages stay out of the recipient's chat and realtime feed.
+DROP POLICY IF EXISTS "Users can view messages in their matches" ON public.messages;
+CREATE POLICY "Users can view messages in their matches" ON public.messages
+  FOR SELECT USING (
+    (sender_id = auth.uid() OR safety_status IN ('clear', 'blurred'))
+    AND EXISTS (
+      SELECT 1 FROM public.user_matches
+      WHERE user_matches.id = messages.match_id
+      AND (user_matches.user1_id = auth.uid() OR user_matches.user2_id = auth.uid())
+    )
+  );
+
+-- Members can no longer insert straight into messages: every message goes
+-- through the screened POST /api/messages.
+DROP POLICY IF EXISTS "Users can insert messages in their matches" ON public.messages;
+
+CREATE OR REPLACE FUNCTION update_match_last_message()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.safety_status IN ('held', 'removed') THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE user_matches
+  SET last_message_at = NEW.created_at,
+      last_message_preview = CASE
+        WHEN NEW.safety_status = 'blurred' THEN 'Sent you a message. Open the chat to view it.'
+        ELSE LEFT(NEW.content, 100)
+      END
+  WHERE id = NEW.match_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Service-role access only: admins manage these through /api/admin/moderation/messages.
+ALTER TABLE public.message_safety_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.message_safety_flags ENABLE ROW LEVEL SECURITY;
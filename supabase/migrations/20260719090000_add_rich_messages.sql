@@ -0,0 +1,32 @@
+-- Rich chat messages: photos, voice notes and video-date proposals.
+--
+-- Photos and voice notes are uploaded through POST /api/messages into the
+-- private chat-media bucket (<match_id>/<sender_id>/...) and served with
+-- signed URLs; photos pass the automated photo moderation first. A
+-- 'meeting_proposal' message points at the meeting request it created
+-- through POST /api/meetings. content keeps a short description of the
+-- attachment so previews and notifications work unchanged.
+-- MatchIndeed applies Supabase migrations manually from the SQL editor.
+
+ALTER TABLE public.messages
+  DROP CONSTRAINT IF EXISTS messages_message_type_check;
+
+ALTER TABLE public.messages
+  ADD CONSTRAINT messages_message_type_check
+    CHECK (message_type IN ('text', 'image', 'voice', 'meeting_proposal', 'system'));
+
+ALTER TABLE public.messages
+  ADD COLUMN IF NOT EXISTS media_path TEXT,
+  ADD COLUMN IF NOT EXISTS media_duration_seconds INTEGER
+    CHECK (media_duration_seconds IS NULL OR media_duration_seconds > 0),
+  ADD COLUMN IF NOT EXISTS meeting_id UUID REFERENCES public.meetings(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_messages_meeting_id
+  ON public.messages(meeting_id)
+  WHERE meeting_id IS NOT NULL;
+
+-- Private bucket: objects are only reachable through signed URLs created by
+-- the API with the service role.
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('chat-media', 'chat-media', false, 5242880)
+ON CONFLICT (id) DO NOTHING;
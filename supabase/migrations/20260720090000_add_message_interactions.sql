@@ -0,0 +1,57 @@
+-- Message edits, unsending, delete-for-me, reactions and replies.
+--
+-- Senders can edit their own text messages for 15 minutes and unsend any of
+-- their messages (except video-date proposals) for an hour, through
+-- PATCH / DELETE /api/messages. Both keep the earlier content in
+-- message_revisions for moderation; the messages row is cleared on unsend so
+-- the text no longer reaches either member. "Delete for me" only adds a
+-- message_hidden row. Reactions are one per member per message; the API
+-- copies a summary ({ emoji: [user ids] }) into messages.reactions so they
+-- reach the other member through the existing realtime updates and polling.
+-- MatchIndeed applies Supabase migrations manually from the SQL editor.
+
+ALTER TABLE public.messages
+  ADD COLUMN IF NOT EXISTS reply_to_id UUID REFERENCES public.messages(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS edited_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS reactions JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_messages_reply_to_id
+  ON public.messages(reply_to_id)
+  WHERE reply_to_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS public.message_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('edit', 'unsend')),
+  previous_content TEXT NOT NULL,
+  previous_media_path TEXT,
+  revised_by UUID NOT NULL REFERENCES public.accounts(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_revisions_message
+  ON public.message_revisions(message_id, created_at);
+
+CREATE TABLE IF NOT EXISTS public.message_hidden (
+  message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.accounts(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (message_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_hidden_user
+  ON public.message_hidden(user_id);
+
+CREATE TABLE IF NOT EXISTS public.message_reactions (
+  message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.accounts(id) ON DELETE CASCADE,
+  emoji TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (message_id, user_id)
+);
+
+-- Service-role access only: members go through /api/messages.
+ALTER TABLE public.message_revisions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.message_hidden ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.message_reactions ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,27 @@
+-- Delivery receipts and the polling fallback for typing indicators.
+--
+-- messages.delivered_at is set when the recipient's app fetches their
+-- messages (unread badge, conversation list or GET /api/messages/activity);
+-- read_at is still set when they open the chat. While realtime is
+-- unavailable the chat page posts typing pings to /api/messages/activity,
+-- which keeps a short-lived flag per member in chat_typing_states.
+-- MatchIndeed applies Supabase migrations manually from the SQL editor.
+
+ALTER TABLE public.messages
+  ADD COLUMN IF NOT EXISTS delivered_at TIMESTAMPTZ DEFAULT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_messages_undelivered
+  ON public.messages(match_id, sender_id)
+  WHERE delivered_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS public.chat_typing_states (
+  match_id UUID NOT NULL REFERENCES public.user_matches(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.accounts(id) ON DELETE CASCADE,
+  -- NULL once the member stops typing; ignored after it passes
+  typing_until TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (match_id, user_id)
+);
+
+-- Service-role access only: members go through /api/messages/activity.
+ALTER TABLE public.chat_typing_states ENABLE ROW LEVEL SECURITY;
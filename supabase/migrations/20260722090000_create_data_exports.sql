@@ -0,0 +1,41 @@
+-- "Download my data" exports.
+--
+-- POST /api/profile/data-export queues a request; the data-exports cron
+-- builds a ZIP of the member's data in the private data-exports bucket
+-- (<user_id>/<request_id>.zip) and emails a signed link that expires with
+-- expires_at, when the archive is deleted and the request marked expired.
+-- MatchIndeed applies Supabase migrations manually from the SQL editor.
+
+CREATE TABLE IF NOT EXISTS public.data_export_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.accounts(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processing', 'ready', 'failed', 'expired')),
+  file_path TEXT,
+  file_size_bytes BIGINT,
+  error TEXT,
+  requested_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_data_export_requests_user
+  ON public.data_export_requests(user_id, requested_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_data_export_requests_status
+  ON public.data_export_requests(status, requested_at);
+
+-- At most one export in the queue per member.
+CREATE UNIQUE INDEX IF NOT EXISTS idx_data_export_requests_one_open
+  ON public.data_export_requests(user_id)
+  WHERE status IN ('pending', 'processing');
+
+-- Service-role access only: members go through /api/profile/data-export.
+ALTER TABLE public.data_export_requests ENABLE ROW LEVEL SECURITY;
+
+-- Private bucket: archives are only reachable through signed URLs created by
+-- the API with the service role.
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('data-exports', 'data-exports', false, NULL)
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,129 @@
+-- Atomic seat claims for group sessions.
+--
+-- Registration and waitlist promotion used to count seats, charge credits
+-- and only then write the registration, so two requests at the same moment
+-- could both take the last seat, or the same member could pay twice.
+-- claim_group_session_seat locks the session row, applies the capacity and
+-- gender balance rules and writes the registration in one statement; the API
+-- charges credits only after a seat was claimed (credits_charged stays 0
+-- until then) and releases the seat if the charge fails.
+-- MatchIndeed applies Supabase migrations manually from the SQL editor.
+
+CREATE OR REPLACE FUNCTION public.claim_group_session_seat(
+  p_meeting_id UUID,
+  p_user_id UUID,
+  p_gender TEXT,
+  p_now TIMESTAMPTZ,
+  -- TRUE to seat an existing waitlisted registration, never waitlisting anew
+  p_promote BOOLEAN DEFAULT FALSE
+)
+RETURNS TABLE (
+  claimed BOOLEAN,
+  registration_id UUID,
+  registration_status TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_capacity INTEGER;
+  v_gender_rule TEXT;
+  v_existing public.group_session_registrations%ROWTYPE;
+  v_seated INTEGER;
+  v_same_gender INTEGER;
+  v_status TEXT;
+  v_id UUID;
+BEGIN
+  -- Serialises every claim on this session.
+  SELECT gs.capacity, gs.gender_rule
+  INTO v_capacity, v_gender_rule
+  FROM public.group_sessions gs
+  WHERE gs.meeting_id = p_meeting_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Group session % not found', p_meeting_id;
+  END IF;
+
+  SELECT *
+  INTO v_existing
+  FROM public.group_session_registrations r
+  WHERE r.meeting_id = p_meeting_id
+    AND r.user_id = p_user_id;
+
+  IF FOUND AND (
+    v_existing.status = 'registered'
+    OR (v_existing.status = 'waitlisted' AND NOT p_promote)
+  ) THEN
+    RETURN QUERY SELECT FALSE, v_existing.id, v_existing.status;
+    RETURN;
+  END IF;
+
+  IF p_promote AND (NOT FOUND OR v_existing.status <> 'waitlisted') THEN
+    RETURN QUERY SELECT FALSE, v_existing.id, v_existing.status;
+    RETURN;
+  END IF;
+
+  SELECT
+    COUNT(*),
+    COUNT(*) FILTER (
+      WHERE lower(btrim(COALESCE(r.gender, ''))) = lower(btrim(COALESCE(p_gender, '')))
+    )
+  INTO v_seated, v_same_gender
+  FROM public.group_session_registrations r
+  WHERE r.meeting_id = p_meeting_id
+    AND r.status = 'registered';
+
+  v_status := CASE
+    WHEN v_seated >= v_capacity THEN 'waitlisted'
+    WHEN v_gender_rule = 'balanced' AND v_same_gender >= v_capacity / 2.0 THEN 'waitlisted'
+    ELSE 'registered'
+  END;
+
+  IF p_promote THEN
+    IF v_status <> 'registered' THEN
+      RETURN QUERY SELECT FALSE, v_existing.id, v_existing.status;
+      RETURN;
+    END IF;
+
+    UPDATE public.group_session_registrations
+    SET status = 'registered',
+        credits_charged = 0,
+        promoted_at = p_now
+    WHERE id = v_existing.id;
+
+    RETURN QUERY SELECT TRUE, v_existing.id, 'registered'::TEXT;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.group_session_registrations (
+    meeting_id,
+    user_id,
+    gender,
+    status,
+    credits_charged,
+    registered_at,
+    promoted_at,
+    canceled_at,
+    refunded_at
+  )
+  VALUES (p_meeting_id, p_user_id, p_gender, v_status, 0, p_now, NULL, NULL, NULL)
+  ON CONFLICT (meeting_id, user_id) DO UPDATE
+  SET gender = EXCLUDED.gender,
+      status = EXCLUDED.status,
+      credits_charged = 0,
+      registered_at = EXCLUDED.registered_at,
+      promoted_at = NULL,
+      canceled_at = NULL,
+      refunded_at = NULL
+  RETURNING id INTO v_id;
+
+  RETURN QUERY SELECT TRUE, v_id, v_status;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_group_session_seat(UUID, UUID, TEXT, TIMESTAMPTZ, BOOLEAN)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_group_session_seat(UUID, UUID, TEXT, TIMESTAMPTZ, BOOLEAN)
+  TO service_role;
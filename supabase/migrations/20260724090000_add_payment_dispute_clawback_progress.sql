@@ -0,0 +1,21 @@
+-- Resumable payment dispute clawbacks.
+--
+-- A clawback is three separate writes (wallet debit, credit removal,
+-- membership suspension). Each amount is now saved on the payment_disputes
+-- row as soon as it is applied, and clawed_back_at is set once all of them
+-- are done, so a webhook retried after a partial failure finishes the
+-- remaining steps instead of repeating the ones already applied.
+-- MatchIndeed applies Supabase migrations manually from the SQL editor.
+
+ALTER TABLE public.payment_disputes
+  ADD COLUMN IF NOT EXISTS clawed_back_at TIMESTAMPTZ;
+
+-- Cases clawed back before this migration were written in one go.
+UPDATE public.payment_disputes
+SET clawed_back_at = updated_at
+WHERE clawed_back_at IS NULL
+  AND (
+    wallet_clawed_back_cents > 0
+    OR credits_clawed_back > 0
+    OR suspended_membership_id IS NOT NULL
+  );
@@ -0,0 +1,111 @@
+-- Atomic promo code reservations.
+--
+-- Checkout used to count a code's redemptions and then insert its own, so
+-- two checkouts at the same moment could both take the last use of a code
+-- (max_redemptions) or of a member's allowance (max_redemptions_per_user).
+-- reserve_promo_redemption locks the promo_codes row, counts the
+-- redemptions still holding a use (applied, or pending for less than
+-- p_reservation_minutes) and inserts the pending redemption in one
+-- statement. Wallet payments reserve before charging and mark the
+-- redemption applied once the charge lands.
+-- MatchIndeed applies Supabase migrations manually from the SQL editor.
+
+CREATE OR REPLACE FUNCTION public.reserve_promo_redemption(
+  p_promo_code_id UUID,
+  p_user_id UUID,
+  p_tier TEXT,
+  p_currency TEXT,
+  p_list_amount_cents BIGINT,
+  p_discount_cents BIGINT,
+  p_amount_cents BIGINT,
+  p_provider TEXT,
+  p_payment_reference TEXT,
+  p_now TIMESTAMPTZ,
+  p_reservation_minutes INTEGER DEFAULT 60
+)
+RETURNS TABLE (
+  redemption_id UUID,
+  -- 'usage_limit' or 'already_used' when no use was left
+  error_code TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_max_redemptions INTEGER;
+  v_max_per_user INTEGER;
+  v_holding INTEGER;
+  v_user_holding INTEGER;
+  v_id UUID;
+BEGIN
+  -- Serialises every reservation of this code.
+  SELECT pc.max_redemptions, pc.max_redemptions_per_user
+  INTO v_max_redemptions, v_max_per_user
+  FROM public.promo_codes pc
+  WHERE pc.id = p_promo_code_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Promo code % not found', p_promo_code_id;
+  END IF;
+
+  SELECT
+    COUNT(*),
+    COUNT(*) FILTER (WHERE r.user_id = p_user_id)
+  INTO v_holding, v_user_holding
+  FROM public.promo_redemptions r
+  WHERE r.promo_code_id = p_promo_code_id
+    AND (
+      r.status = 'applied'
+      OR r.created_at > p_now - make_interval(mins => p_reservation_minutes)
+    );
+
+  IF v_max_redemptions IS NOT NULL AND v_holding >= v_max_redemptions THEN
+    RETURN QUERY SELECT NULL::UUID, 'usage_limit'::TEXT;
+    RETURN;
+  END IF;
+
+  IF v_user_holding >= GREATEST(1, v_max_per_user) THEN
+    RETURN QUERY SELECT NULL::UUID, 'already_used'::TEXT;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.promo_redemptions (
+    promo_code_id,
+    user_id,
+    tier,
+    currency,
+    list_amount_cents,
+    discount_cents,
+    amount_cents,
+    provider,
+    payment_reference,
+    status,
+    created_at
+  )
+  VALUES (
+    p_promo_code_id,
+    p_user_id,
+    p_tier,
+    p_currency,
+    p_list_amount_cents,
+    p_discount_cents,
+    p_amount_cents,
+    p_provider,
+    p_payment_reference,
+    'pending',
+    p_now
+  )
+  RETURNING id INTO v_id;
+
+  RETURN QUERY SELECT v_id, NULL::TEXT;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.reserve_promo_redemption(
+  UUID, UUID, TEXT, TEXT, BIGINT, BIGINT, BIGINT, TEXT, TEXT, TIMESTAMPTZ, INTEGER
+) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reserve_promo_redemption(
+  UUID, UUID, TEXT, TEXT, BIGINT, BIGINT, BIGINT, TEXT, TEXT, TIMESTAMPTZ, INTEGER
+) TO service_role;
@@ -0,0 +1,18 @@
+-- Claims for subscription credit allocations.
+--
+-- An allocation rewrites the `credits` row and rolls what the member had
+-- left into rollover, so running it twice for the same invoice credits the
+-- member twice even though the ledger post is deduplicated. Allocations
+-- with an idempotency key claim it here before touching the balance; a
+-- retry that finds the claim skips the allocation. The claim is removed
+-- when the balance write fails so the retry can allocate.
+-- MatchIndeed applies Supabase migrations manually from the SQL editor.
+
+CREATE TABLE IF NOT EXISTS public.credit_allocation_claims (
+  idempotency_key TEXT PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Service-role access only.
+ALTER TABLE public.credit_allocation_claims ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,102 @@
+-- Resumable plan changes and atomic wallet adjustments.
+--
+-- A plan change charges the wallet before it moves the plan, so a failure
+-- in a later step used to leave the member charged with the change marked
+-- failed and no way to finish it. Completion now records each step that
+-- can't safely run twice (the wallet charge and the credit clawback), and a
+-- failed change is resumed from there rather than started again.
+-- apply_wallet_adjustment replaces the read-modify-write of
+-- wallets.balance_cents: it locks the wallet, refuses to go negative, and
+-- returns the earlier transaction when the reference was already applied.
+-- MatchIndeed applies Supabase migrations manually from the SQL editor.
+
+ALTER TABLE public.subscription_tier_changes
+  ADD COLUMN IF NOT EXISTS wallet_charged_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS clawed_back_at TIMESTAMPTZ;
+
+CREATE OR REPLACE FUNCTION public.apply_wallet_adjustment(
+  p_user_id UUID,
+  p_delta_cents INTEGER,
+  -- amount recorded on the transaction when it differs from the balance change
+  p_amount_cents INTEGER,
+  p_type TEXT,
+  p_description TEXT,
+  p_reference_id TEXT
+)
+RETURNS TABLE (
+  applied BOOLEAN,
+  balance_before INTEGER,
+  balance_after INTEGER,
+  transaction_id UUID
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_balance_before INTEGER;
+  v_balance_after INTEGER;
+  v_existing public.wallet_transactions%ROWTYPE;
+  v_transaction_id UUID;
+BEGIN
+  INSERT INTO public.wallets (user_id, balance_cents, updated_at)
+  VALUES (p_user_id, 0, NOW())
+  ON CONFLICT (user_id) DO NOTHING;
+
+  -- Serialises every adjustment of this wallet.
+  SELECT COALESCE(w.balance_cents, 0)
+  INTO v_balance_before
+  FROM public.wallets w
+  WHERE w.user_id = p_user_id
+  FOR UPDATE;
+
+  SELECT *
+  INTO v_existing
+  FROM public.wallet_transactions t
+  WHERE t.user_id = p_user_id
+    AND t.type = p_type
+    AND t.reference_id = p_reference_id
+  LIMIT 1;
+
+  IF FOUND THEN
+    RETURN QUERY SELECT
+      TRUE,
+      v_existing.balance_before_cents,
+      v_existing.balance_after_cents,
+      v_existing.id;
+    RETURN;
+  END IF;
+
+  v_balance_after := v_balance_before + p_delta_cents;
+  IF v_balance_after < 0 THEN
+    RETURN QUERY SELECT FALSE, v_balance_before, v_balance_before, NULL::UUID;
+    RETURN;
+  END IF;
+
+  IF p_delta_cents <> 0 THEN
+    UPDATE public.wallets
+    SET balance_cents = v_balance_after,
+        updated_at = NOW()
+    WHERE user_id = p_user_id;
+  END IF;
+
+  INSERT INTO public.wallet_transactions (
+    user_id, type, amount_cents,
+    balance_before_cents, balance_after_cents,
+    description, reference_id
+  )
+  VALUES (
+    p_user_id, p_type, p_amount_cents,
+    v_balance_before, v_balance_after,
+    p_description, p_reference_id
+  )
+  RETURNING id INTO v_transaction_id;
+
+  RETURN QUERY SELECT TRUE, v_balance_before, v_balance_after, v_transaction_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.apply_wallet_adjustment(UUID, INTEGER, INTEGER, TEXT, TEXT, TEXT)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.apply_wallet_adjustment(UUID, INTEGER, INTEGER, TEXT, TEXT, TEXT)
+  TO service_role;
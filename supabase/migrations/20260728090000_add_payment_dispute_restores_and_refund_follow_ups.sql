@@ -0,0 +1,35 @@
+-- Resumable dispute restores and follow-up refund cases.
+--
+-- Returning a clawback after a won dispute is several writes too (wallet
+-- credit, credit restore, membership restore). Each is now saved on the
+-- payment_disputes row as it lands and restored_at is set once all are done,
+-- so a retried webhook doesn't credit the member twice.
+-- Stripe reports a second partial refund of a charge as the charge's new
+-- refunded total under the same case id. The amount the total adds is now
+-- recorded as a follow-up case pointing at the first one (parent_dispute_id)
+-- and clawed back on its own.
+-- MatchIndeed applies Supabase migrations manually from the SQL editor.
+
+ALTER TABLE public.payment_disputes
+  ADD COLUMN IF NOT EXISTS wallet_restored_cents BIGINT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS credits_restored INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS restored_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS parent_dispute_id UUID
+    REFERENCES public.payment_disputes(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_payment_disputes_parent
+  ON public.payment_disputes(parent_dispute_id)
+  WHERE parent_dispute_id IS NOT NULL;
+
+-- Won cases were restored in one go before this migration.
+UPDATE public.payment_disputes
+SET wallet_restored_cents = wallet_clawed_back_cents,
+    credits_restored = credits_clawed_back,
+    restored_at = updated_at
+WHERE status = 'won'
+  AND restored_at IS NULL
+  AND (
+    wallet_clawed_back_cents > 0
+    OR credits_clawed_back > 0
+    OR suspended_membership_id IS NOT NULL
+  );
@@ -0,0 +1,20 @@
+-- Mark a plan gift's credit allocation on the gift.
+--
+-- Finishing a plan gift that failed partway through redemption used to run
+-- the credit allocation again, resetting the recipient's balance a second
+-- time. plan_credits_allocated holds what the allocation added once it has
+-- run, and a resumed redemption skips the allocation when it is set.
+-- MatchIndeed applies Supabase migrations manually from the SQL editor.
+
+ALTER TABLE public.gifts
+  ADD COLUMN IF NOT EXISTS plan_credits_allocated INTEGER;
+
+-- Plan gifts redeemed in full before this migration were allocated.
+UPDATE public.gifts
+SET plan_credits_allocated = credits_granted
+WHERE kind = 'subscription'
+  AND status IN ('redeemed', 'revoked')
+  AND membership_id IS NOT NULL
+  AND previous_expires_at IS NULL
+  AND credits_granted IS NOT NULL
+  AND plan_credits_allocated IS NULL;
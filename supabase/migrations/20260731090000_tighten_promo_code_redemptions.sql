@@ -0,0 +1,112 @@
+-- Promo code fixes: no 100% codes, and stale reservations re-check the caps.
+--
+-- A percentage code can't cover the whole price (checkout never takes a zero
+-- payment), so a 100% code could be saved but never redeemed. percent_off
+-- is now 1-99; codes saved at 100 are switched off and capped at 99.
+-- A reservation holds a use for p_reservation_minutes. A checkout paid after
+-- that may find its use taken by another reservation, so
+-- apply_promo_redemption locks the code and only applies a stale
+-- reservation if the caps still have room for it.
+-- MatchIndeed applies Supabase migrations manually from the SQL editor.
+
+UPDATE public.promo_codes
+SET percent_off = 99,
+    active = FALSE
+WHERE percent_off = 100;
+
+ALTER TABLE public.promo_codes
+  DROP CONSTRAINT IF EXISTS promo_codes_percent_off_check;
+
+ALTER TABLE public.promo_codes
+  ADD CONSTRAINT promo_codes_percent_off_check
+  CHECK (percent_off BETWEEN 1 AND 99);
+
+CREATE OR REPLACE FUNCTION public.apply_promo_redemption(
+  p_redemption_id UUID,
+  -- replaces the reservation's payment reference when set
+  p_payment_reference TEXT,
+  p_now TIMESTAMPTZ,
+  p_reservation_minutes INTEGER DEFAULT 60
+)
+RETURNS TABLE (
+  applied BOOLEAN,
+  -- 'usage_limit' or 'already_used' when a stale reservation lost its use
+  error_code TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_redemption public.promo_redemptions%ROWTYPE;
+  v_max_redemptions INTEGER;
+  v_max_per_user INTEGER;
+  v_holding INTEGER;
+  v_user_holding INTEGER;
+BEGIN
+  SELECT *
+  INTO v_redemption
+  FROM public.promo_redemptions r
+  WHERE r.id = p_redemption_id;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT FALSE, NULL::TEXT;
+    RETURN;
+  END IF;
+
+  -- Serialises with reserve_promo_redemption for this code.
+  SELECT pc.max_redemptions, pc.max_redemptions_per_user
+  INTO v_max_redemptions, v_max_per_user
+  FROM public.promo_codes pc
+  WHERE pc.id = v_redemption.promo_code_id
+  FOR UPDATE;
+
+  SELECT *
+  INTO v_redemption
+  FROM public.promo_redemptions r
+  WHERE r.id = p_redemption_id
+    AND r.status = 'pending';
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT FALSE, NULL::TEXT;
+    RETURN;
+  END IF;
+
+  IF v_redemption.created_at <= p_now - make_interval(mins => p_reservation_minutes) THEN
+    SELECT
+      COUNT(*),
+      COUNT(*) FILTER (WHERE r.user_id = v_redemption.user_id)
+    INTO v_holding, v_user_holding
+    FROM public.promo_redemptions r
+    WHERE r.promo_code_id = v_redemption.promo_code_id
+      AND r.id <> v_redemption.id
+      AND (
+        r.status = 'applied'
+        OR r.created_at > p_now - make_interval(mins => p_reservation_minutes)
+      );
+
+    IF v_max_redemptions IS NOT NULL AND v_holding >= v_max_redemptions THEN
+      RETURN QUERY SELECT FALSE, 'usage_limit'::TEXT;
+      RETURN;
+    END IF;
+
+    IF v_user_holding >= GREATEST(1, v_max_per_user) THEN
+      RETURN QUERY SELECT FALSE, 'already_used'::TEXT;
+      RETURN;
+    END IF;
+  END IF;
+
+  UPDATE public.promo_redemptions
+  SET status = 'applied',
+      applied_at = p_now,
+      payment_reference = COALESCE(p_payment_reference, payment_reference)
+  WHERE id = v_redemption.id;
+
+  RETURN QUERY SELECT TRUE, NULL::TEXT;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.apply_promo_redemption(UUID, TEXT, TIMESTAMPTZ, INTEGER)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.apply_promo_redemption(UUID, TEXT, TIMESTAMPTZ, INTEGER)
+  TO service_role;
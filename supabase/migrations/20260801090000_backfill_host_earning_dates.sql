@@ -0,0 +1,20 @@
+-- Backfill host earning dates for rows written before the earnings ledger.
+--
+-- 20260717090000 added earned_at with a now() default, so every earning
+-- recorded before it was stamped with the day the migration ran: statements
+-- put them in the wrong month and payout batches cut off by earning date
+-- left them out.
+-- Those rows are the ones without fee_cents (the ledger always sets it), and
+-- they now take earned_at from created_at. Paid ones had been released by the
+-- time they were paid, so released_at takes paid_at.
+-- MatchIndeed applies Supabase migrations manually from the SQL editor.
+
+UPDATE public.host_earnings
+SET earned_at = created_at
+WHERE fee_cents IS NULL;
+
+UPDATE public.host_earnings
+SET released_at = paid_at
+WHERE fee_cents IS NULL
+  AND released_at IS NULL
+  AND paid_at IS NOT NULL;
@@ -0,0 +1,436 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { consumeCredits } from "../../src/lib/credits/actions.ts";
+import { allocateSubscriptionCredits } from "../../src/lib/credits/allocation.ts";
+import { expireCreditLots } from "../../src/lib/credits/expiry.ts";
+import { getUpcomingCreditExpirations } from "../../src/lib/credits/lots.ts";
+import { getCreditLotExpiry } from "../../src/lib/credits/policy.ts";
+
+const UNIQUE_KEYS = {
+  ledger_transactions: ["idempotency_key"],
+  credit_lots: ["source", "reference"],
+  credit_allocation_claims: ["idempotency_key"],
+};
+const COLUMN_DEFAULTS = {
+  credit_lots: { expired_credits: 0 },
+};
+
+class MockQuery {
+  constructor(db, table) {
+    this.db = db;
+    this.table = table;
+    this.filters = [];
+    this.operation = "select";
+    this.payload = null;
+    this.orderBy = null;
+    this.rowLimit = null;
+    this.rowRange = null;
+  }
+
+  select() {
+    if (this.operation === "update") {
+      this.operation = "update-select";
+    } else if (this.operation !== "insert") {
+      this.operation = "select";
+    }
+    return this;
+  }
+
+  update(payload) {
+    this.operation = "update";
+    this.payload = payload;
+    return this;
+  }
+
+  insert(payload) {
+    this.operation = "insert";
+    this.payload = payload;
+    return this;
+  }
+
+  upsert(payload) {
+    this.operation = "upsert";
+    this.payload = payload;
+    return this;
+  }
+
+  delete() {
+    this.operation = "delete";
+    return this;
+  }
+
+  eq(column, value) {
+    this.filters.push((row) => row[column] === value);
+    return this;
+  }
+
+  lte(column, value) {
+    this.filters.push((row) => row[column] != null && row[column] <= value);
+    return this;
+  }
+
+  in(column, values) {
+    this.filters.push((row) => values.includes(row[column]));
+    return this;
+  }
+
+  order(column, { ascending = true } = {}) {
+    this.orderBy = { column, ascending };
+    return this;
+  }
+
+  limit(count) {
+    this.rowLimit = count;
+    return this;
+  }
+
+  range(from, to) {
+    this.rowRange = [from, to];
+    return this;
+  }
+
+  async maybeSingle() {
+    const result = await this.execute();
+    const rows = Array.isArray(result.data) ? result.data : [];
+    return { data: rows[0] || null, error: result.error };
+  }
+
+  async single() {
+    const result = await this.execute();
+    const rows = Array.isArray(result.data) ? result.data : [];
+    return rows[0]
+      ? { data: rows[0], error: null }
+      : { data: null, error: result.error || { code: "PGRST116" } };
+  }
+
+  then(resolve, reject) {
+    return this.execute().then(resolve, reject);
+  }
+
+  async execute() {
+    const rows = (this.db[this.table] ||= []);
+    let matches = rows.filter((row) => this.filters.every((filter) => filter(row)));
+
+    if (this.operation === "select") {
+      if (this.orderBy) {
+        const { column, ascending } = this.orderBy;
+        matches = [...matches].sort((a, b) =>
+          (a[column] > b[column] ? 1 : -1) * (ascending ? 1 : -1)
+        );
+      }
+      if (this.rowRange) matches = matches.slice(this.rowRange[0], this.rowRange[1] + 1);
+      if (this.rowLimit !== null) matches = matches.slice(0, this.rowLimit);
+      return { data: matches.map((row) => ({ ...row })), error: null };
+    }
+
+    if (this.operation === "update" || this.operation === "update-select") {
+      for (const row of matches) Object.assign(row, this.payload);
+      return { data: matches.map((row) => ({ ...row })), error: null };
+    }
+
+    if (this.operation === "upsert") {
+      const existing = rows.find((row) => row.user_id === this.payload.user_id);
+      if (existing) Object.assign(existing, this.payload);
+      else rows.push({ ...this.payload });
+      return { data: null, error: null };
+    }
+
+    if (this.operation === "delete") {
+      this.db[this.table] = rows.filter((row) => !matches.includes(row));
+      return { data: null, error: null };
+    }
+
+    const payloads = Array.isArray(this.payload) ? this.payload : [this.payload];
+    const keys = UNIQUE_KEYS[this.table] || [];
+    const clashes = (payload) =>
+      // Like a partial unique index, NULL keys never clash.
+      rows.some((row) => keys.every((key) => payload[key] != null && row[key] === payload[key]));
+    if (keys.length && payloads.some(clashes)) {
+      return { data: null, error: { code: "23505", message: "duplicate key" } };
+    }
+    const inserted = payloads.map((payload, index) => ({
+      id: `${this.table}-${rows.length + index + 1}`,
+      created_at: `2026-07-10T00:00:${String(rows.length + index).padStart(2, "0")}.000Z`,
+      ...COLUMN_DEFAULTS[this.table],
+      ...payload,
+    }));
+    rows.push(...inserted);
+    return { data: inserted.map((row) => ({ ...row })), error: null };
+  }
+}
+
+const NOW = new Date("2026-07-14T00:00:00.000Z");
+
+function lot(id, source, remaining, expiresAt, grantedAt = "2026-01-01T00:00:00.000Z") {
+  return {
+    id,
+    user_id: "user-1",
+    source,
+    amount: remaining,
+    remaining,
+    expired_credits: 0,
+    granted_at: grantedAt,
+    expires_at: expiresAt,
+    reference: null,
+    note: null,
+    status: "active",
+  };
+}
+
+function createFixture({ credits, lots }) {
+  const db = {
+    credits: [{ user_id: "user-1", ...credits }],
+    credit_lots: lots,
+    credit_transactions: [],
+    ledger_transactions: [],
+    ledger_entries: [],
+  };
+
+  const supabase = {
+    from(table) {
+      return new MockQuery(db, table);
+    },
+    // Mirrors consume_credits_atomic.
+    async rpc(name, params) {
+      assert.equal(name, "consume_credits_atomic");
+      const row = db.credits.find((credit) => credit.user_id === params.p_user_id);
+      const available = row.total - row.used + row.rollover;
+      if (available < params.p_amount) {
+        return { data: [{ success: false, available_before: available }], error: null };
+      }
+      row.used += params.p_amount;
+      return { data: [{ success: true, available_before: available }], error: null };
+    },
+  };
+
+  return { db, supabase };
+}
+
+function creditLedger(db, kind) {
+  const transaction = db.ledger_transactions.find((tx) => tx.kind === kind);
+  assert.ok(transaction, `expected a ${kind} ledger transaction`);
+  return db.ledger_entries.find(
+    (entry) => entry.transaction_id === transaction.id && entry.account === "user_credits"
+  ).amount;
+}
+
+test("lot expiry follows the policy for each source", () => {
+  const grantedAt = new Date("2026-01-31T12:00:00.000Z");
+  assert.equal(getCreditLotExpiry("purchase", grantedAt).toISOString(), "2027-01-31T12:00:00.000Z");
+  assert.equal(getCreditLotExpiry("referral", grantedAt).toISOString(), "2026-07-31T12:00:00.000Z");
+  assert.equal(getCreditLotExpiry("admin", grantedAt), null);
+  assert.equal(getCreditLotExpiry("subscription", grantedAt), null);
+});
+
+test("consumeCredits spends the soonest-expiring lot first", async () => {
+  const { db, supabase } = createFixture({
+    credits: { total: 12, used: 0, rollover: 0 },
+    lots: [
+      lot("lot-admin", "admin", 5, null),
+      lot("lot-referral", "referral", 4, "2026-09-01T00:00:00.000Z"),
+      lot("lot-purchase", "purchase", 3, "2026-08-01T00:00:00.000Z"),
+    ],
+  });
+
+  const result = await consumeCredits(supabase, "user-1", 6, { actionType: "meeting_request_sent" });
+  assert.equal(result.success, true);
+
+  const byId = Object.fromEntries(db.credit_lots.map((row) => [row.id, row]));
+  assert.equal(byId["lot-purchase"].remaining, 0);
+  assert.equal(byId["lot-purchase"].status, "consumed");
+  assert.equal(byId["lot-referral"].remaining, 1);
+  assert.equal(byId["lot-referral"].status, "active");
+  assert.equal(byId["lot-admin"].remaining, 5);
+  assert.equal(db.credits[0].used, 6);
+});
+
+test("plan credits are spent as if they expire when the membership cycle ends", async () => {
+  const { db, supabase } = createFixture({
+    credits: { total: 12, used: 0, rollover: 0 },
+    lots: [
+      lot("lot-purchase", "purchase", 4, "2027-01-01T00:00:00.000Z"),
+      lot("lot-plan", "subscription", 4, null),
+      lot("lot-referral", "referral", 4, "2026-07-20T00:00:00.000Z"),
+    ],
+  });
+  db.memberships = [
+    { id: "membership-1", user_id: "user-1", expires_at: "2026-08-01T00:00:00.000Z" },
+  ];
+
+  await consumeCredits(supabase, "user-1", 6, { actionType: "meeting_request_sent" });
+
+  const byId = Object.fromEntries(db.credit_lots.map((row) => [row.id, row]));
+  assert.equal(byId["lot-referral"].remaining, 0);
+  assert.equal(byId["lot-plan"].remaining, 2);
+  assert.equal(byId["lot-purchase"].remaining, 4);
+});
+
+test("a lot another spend moved is re-read and drawn from again", async () => {
+  const { db, supabase } = createFixture({
+    credits: { total: 6, used: 0, rollover: 0 },
+    lots: [lot("lot-purchase", "purchase", 6, "2027-01-01T00:00:00.000Z")],
+  });
+  const from = supabase.from;
+  let raced = false;
+  supabase.from = (table) => {
+    const query = from(table);
+    if (table === "credit_lots") {
+      const execute = query.execute.bind(query);
+      query.execute = async () => {
+        if (query.operation === "update-select" && !raced) {
+          // A concurrent spend takes 2 credits between the read and the write.
+          raced = true;
+          db.credit_lots[0].remaining -= 2;
+        }
+        return execute();
+      };
+    }
+    return query;
+  };
+
+  await consumeCredits(supabase, "user-1", 3, { actionType: "meeting_request_sent" });
+
+  assert.equal(raced, true);
+  assert.equal(db.credit_lots[0].remaining, 1);
+  assert.equal(db.credit_lots[0].status, "active");
+});
+
+test("a cycle reset caps plan rollover at one monthly allocation and keeps purchases", async () => {
+  const { db, supabase } = createFixture({
+    credits: { total: 10, used: 0, rollover: 9 },
+    lots: [
+      lot("lot-plan", "subscription", 8, null),
+      lot("lot-carry", "subscription", 6, null),
+      lot("lot-purchase", "purchase", 5, "2027-01-01T00:00:00.000Z"),
+    ],
+  });
+
+  const result = await allocateSubscriptionCredits(supabase, "user-1", "standard", { now: NOW });
+
+  assert.equal(result.rolloverAdded, 15);
+  assert.equal(result.creditsExpired, 4);
+  assert.deepEqual(
+    { total: db.credits[0].total, used: db.credits[0].used, rollover: db.credits[0].rollover },
+    { total: 10, used: 0, rollover: 15 }
+  );
+
+  const active = db.credit_lots.filter((row) => row.status === "active");
+  assert.deepEqual(
+    active.map((row) => [row.source, row.remaining]).sort(),
+    [
+      ["purchase", 5],
+      ["subscription", 10],
+      ["subscription", 10],
+    ]
+  );
+  assert.ok(
+    db.credit_lots
+      .filter((row) => row.id === "lot-plan" || row.id === "lot-carry")
+      .every((row) => row.status === "rolled_over" && row.remaining === 0)
+  );
+
+  const expiry = db.credit_transactions.find((tx) => tx.action_type === "credit_expiry");
+  assert.equal(expiry.amount, -4);
+  // Available went from 19 to 25.
+  assert.equal(creditLedger(db, "credit_allocation"), 6);
+});
+
+test("lots the balance no longer covers are not carried into the new cycle", async () => {
+  const { db, supabase } = createFixture({
+    // An admin removed 3 credits without touching the lots.
+    credits: { total: 5, used: 3, rollover: 0 },
+    lots: [lot("lot-purchase", "purchase", 5, "2027-01-01T00:00:00.000Z")],
+  });
+
+  await allocateSubscriptionCredits(supabase, "user-1", "basic", { now: NOW });
+
+  assert.equal(db.credits[0].rollover, 2);
+  assert.equal(db.credit_lots.find((row) => row.id === "lot-purchase").remaining, 2);
+});
+
+test("an allocation runs once per idempotency key and again after a failed balance write", async () => {
+  const { db, supabase } = createFixture({
+    credits: { total: 10, used: 4, rollover: 0 },
+    lots: [],
+  });
+  const from = supabase.from;
+  let failUpsert = true;
+  supabase.from = (table) => {
+    const query = from(table);
+    if (table === "credits") {
+      const execute = query.execute.bind(query);
+      query.execute = async () => {
+        if (query.operation === "upsert" && failUpsert) {
+          failUpsert = false;
+          return { data: null, error: { message: "write failed" } };
+        }
+        return execute();
+      };
+    }
+    return query;
+  };
+  const allocate = () =>
+    allocateSubscriptionCredits(supabase, "user-1", "standard", {
+      idempotencyKey: "subscription_renewal:in_1",
+      now: NOW,
+    });
+
+  await assert.rejects(allocate(), { message: "write failed" });
+  assert.equal(db.credit_allocation_claims.length, 0);
+
+  const first = await allocate();
+  assert.equal(first.alreadyAllocated, false);
+  assert.deepEqual(
+    { total: db.credits[0].total, used: db.credits[0].used, rollover: db.credits[0].rollover },
+    { total: 10, used: 0, rollover: 6 }
+  );
+
+  assert.deepEqual(
+    db.credit_lots.map((row) => [row.reference, row.remaining]),
+    [
+      ["subscription_renewal:in_1:rollover", 6],
+      ["subscription_renewal:in_1:allocation", 10],
+    ]
+  );
+
+  const retry = await allocate();
+  assert.equal(retry.alreadyAllocated, true);
+  assert.equal(db.credits[0].rollover, 6);
+  assert.equal(db.ledger_transactions.filter((tx) => tx.kind === "credit_allocation").length, 1);
+});
+
+test("expired lots leave the balance once and upcoming ones are reported", async () => {
+  const { db, supabase } = createFixture({
+    credits: { total: 10, used: 0, rollover: 14 },
+    lots: [
+      lot("lot-old", "purchase", 4, "2026-07-01T00:00:00.000Z"),
+      lot("lot-soon", "referral", 2, "2026-07-30T00:00:00.000Z"),
+      lot("lot-later", "purchase", 4, "2027-03-01T00:00:00.000Z"),
+      lot("lot-plan", "subscription", 14, null),
+    ],
+  });
+
+  const run = await expireCreditLots(supabase, { now: NOW });
+  assert.deepEqual(run, { lotsChecked: 1, lotsExpired: 1, creditsExpired: 4, failed: 0 });
+
+  const expired = db.credit_lots.find((row) => row.id === "lot-old");
+  assert.equal(expired.status, "expired");
+  assert.equal(expired.expired_credits, 4);
+  assert.equal(db.credits[0].used, 4);
+  assert.equal(creditLedger(db, "credit_expiry"), -4);
+
+  const rerun = await expireCreditLots(supabase, { now: NOW });
+  assert.equal(rerun.lotsChecked, 0);
+  assert.equal(db.credits[0].used, 4);
+
+  const summary = await getUpcomingCreditExpirations(supabase, "user-1", "standard", {
+    now: NOW,
+    withinDays: 30,
+  });
+  assert.deepEqual(
+    summary.expiring.map((row) => [row.id, row.remaining]),
+    [["lot-soon", 2]]
+  );
+  assert.equal(summary.balances.purchase, 4);
+  assert.deepEqual(summary.rollover, { cap: 10, planCredits: 14, lapsingAtRenewal: 4 });
+});
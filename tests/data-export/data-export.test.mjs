@@ -0,0 +1,457 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { inflateRawSync } from "node:zlib";
+import { createZipArchive, toCsv } from "../../src/lib/data-export/archive.ts";
+import {
+  DATA_EXPORT_BUCKET,
+  listDataExports,
+  requestDataExport,
+  runDataExportJobs,
+} from "../../src/lib/data-export/exports.ts";
+
+class MockQuery {
+  constructor(db, table) {
+    this.db = db;
+    this.table = table;
+    this.filters = [];
+    this.operation = "select";
+    this.payload = null;
+    this.returning = false;
+    this.orderBy = null;
+    this.rowLimit = null;
+    this.rowRange = null;
+  }
+
+  select() {
+    if (this.operation === "select") return this;
+    this.returning = true;
+    return this;
+  }
+
+  insert(payload) {
+    this.operation = "insert";
+    this.payload = payload;
+    return this;
+  }
+
+  update(payload) {
+    this.operation = "update";
+    this.payload = payload;
+    return this;
+  }
+
+  eq(column, value) {
+    this.filters.push((row) => row[column] === value);
+    return this;
+  }
+
+  gte(column, value) {
+    this.filters.push((row) => row[column] >= value);
+    return this;
+  }
+
+  lte(column, value) {
+    this.filters.push((row) => row[column] !== null && row[column] <= value);
+    return this;
+  }
+
+  in(column, values) {
+    this.filters.push((row) => values.includes(row[column]));
+    return this;
+  }
+
+  or(expression) {
+    const clauses = expression.split(",").map((clause) => clause.split(".eq."));
+    this.filters.push((row) => clauses.some(([column, value]) => row[column] === value));
+    return this;
+  }
+
+  order(column, { ascending = true } = {}) {
+    this.orderBy = { column, ascending };
+    return this;
+  }
+
+  limit(count) {
+    this.rowLimit = count;
+    return this;
+  }
+
+  range(from, to) {
+    this.rowRange = [from, to];
+    return this;
+  }
+
+  async maybeSingle() {
+    const result = await this.execute();
+    return { data: result.data?.[0] || null, error: result.error };
+  }
+
+  async single() {
+    const result = await this.execute();
+    return { data: result.data?.[0] || null, error: result.error };
+  }
+
+  then(resolve, reject) {
+    return this.execute().then(resolve, reject);
+  }
+
+  async execute() {
+    const rows = (this.db[this.table] ||= []);
+    let matches = rows.filter((row) => this.filters.every((filter) => filter(row)));
+
+    if (this.operation === "select") {
+      if (this.orderBy) {
+        const { column, ascending } = this.orderBy;
+        matches = [...matches].sort((a, b) =>
+          (a[column] > b[column] ? 1 : -1) * (ascending ? 1 : -1)
+        );
+      }
+      if (this.rowRange) matches = matches.slice(this.rowRange[0], this.rowRange[1] + 1);
+      if (this.rowLimit !== null) matches = matches.slice(0, this.rowLimit);
+      return { data: matches.map((row) => ({ ...row })), error: null };
+    }
+
+    if (this.operation === "update") {
+      for (const row of matches) Object.assign(row, this.payload);
+      return { data: this.returning ? matches.map((row) => ({ ...row })) : null, error: null };
+    }
+
+    const open = rows.find(
+      (row) =>
+        row.user_id === this.payload.user_id &&
+        (row.status === "pending" || row.status === "processing")
+    );
+    if (this.table === "data_export_requests" && open) {
+      return { data: null, error: { code: "23505", message: "duplicate key value" } };
+    }
+
+    const row = {
+      id: `${this.table}-${rows.length + 1}`,
+      file_path: null,
+      started_at: null,
+      expires_at: null,
+      ...this.payload,
+    };
+    rows.push(row);
+    return { data: [{ ...row }], error: null };
+  }
+}
+
+const NOW = new Date("2026-07-22T12:00:00.000Z");
+
+function createFixture({ failUpload = false } = {}) {
+  const db = {
+    accounts: [{ id: "user-1", email: "ada@example.com", display_name: "Ada Obi" }],
+    user_profiles: [
+      {
+        user_id: "user-1",
+        first_name: "Ada",
+        photos: [
+          "https://project.supabase.co/storage/v1/object/public/profile-images/user-1/upload_1.jpg",
+          "https://project.supabase.co/storage/v1/object/public/profile-images/user-2/upload_9.jpg",
+        ],
+        profile_photo_url:
+          "https://project.supabase.co/storage/v1/object/public/profile-images/user-1/upload_1.jpg",
+      },
+    ],
+    user_preferences: [{ user_id: "user-1", partner_age_min: 30 }],
+    user_matches: [
+      { id: "match-1", user1_id: "user-1", user2_id: "user-2" },
+      { id: "match-2", user1_id: "user-2", user2_id: "user-3" },
+    ],
+    user_activities: [
+      { id: "a1", user_id: "user-1", target_user_id: "user-2", activity_type: "like" },
+      { id: "a2", user_id: "user-3", target_user_id: "user-1", activity_type: "wink" },
+    ],
+    messages: [
+      { id: "m1", match_id: "match-1", sender_id: "user-1", content: "Hi there", safety_status: "clear", created_at: "2026-07-20T10:00:00.000Z" },
+      { id: "m2", match_id: "match-1", sender_id: "user-2", content: "Hello!", safety_status: "clear", created_at: "2026-07-20T10:01:00.000Z" },
+      { id: "m3", match_id: "match-1", sender_id: "user-2", content: "Send me your bank details", safety_status: "held", created_at: "2026-07-20T10:02:00.000Z" },
+      { id: "m4", match_id: "match-2", sender_id: "user-3", content: "Not Ada's chat", safety_status: "clear", created_at: "2026-07-20T10:03:00.000Z" },
+    ],
+    meetings: [
+      { id: "meeting-1", host_id: "user-2", status: "completed" },
+      { id: "meeting-2", host_id: "user-1", status: "pending" },
+    ],
+    meeting_participants: [{ meeting_id: "meeting-1", user_id: "user-1", role: "guest" }],
+    relationship_agreements: [{ id: "agreement-1", match_id: "match-1", user1_id: "user-1", user2_id: "user-2" }],
+    wallets: [{ user_id: "user-1", balance_cents: 2500 }],
+    wallet_transactions: [{ id: "wt1", user_id: "user-1", type: "top_up", amount_cents: 2500 }],
+    credits: [{ user_id: "user-1", total: 10, used: 2 }],
+    credit_transactions: [{ id: "ct1", user_id: "user-1", amount: -1, description: "Video date" }],
+    notifications: [{ id: "n1", user_id: "user-1", type: "new_message", title: "New Message" }],
+    data_export_requests: [],
+  };
+
+  const storage = { files: new Map(), removed: [] };
+  const supabase = {
+    from(table) {
+      return new MockQuery(db, table);
+    },
+    storage: {
+      from(bucket) {
+        return {
+          async upload(path, body) {
+            if (failUpload) return { data: null, error: { message: "Bucket not found" } };
+            storage.files.set(`${bucket}/${path}`, body);
+            return { data: { path }, error: null };
+          },
+          async createSignedUrl(path, expiresIn) {
+            return {
+              data: { signedUrl: `https://storage.test/${bucket}/${path}?expires=${expiresIn}` },
+              error: null,
+            };
+          },
+          async download(path) {
+            const body = storage.files.get(`${bucket}/${path}`);
+            return body
+              ? { data: new Blob([body]), error: null }
+              : { data: null, error: { message: "Object not found" } };
+          },
+          async remove(paths) {
+            for (const path of paths) {
+              storage.removed.push(`${bucket}/${path}`);
+              storage.files.delete(`${bucket}/${path}`);
+            }
+            return { data: [], error: null };
+          },
+        };
+      },
+    },
+  };
+
+  storage.files.set("profile-images/user-1/upload_1.jpg", new Uint8Array([0xff, 0xd8, 0xff, 0xe0]));
+  return { db, supabase, storage };
+}
+
+/** Entries of a ZIP archive, read from its local headers. */
+function readZip(buffer) {
+  const entries = new Map();
+  let offset = 0;
+  while (buffer.readUInt32LE(offset) === 0x04034b50) {
+    const method = buffer.readUInt16LE(offset + 8);
+    const compressedSize = buffer.readUInt32LE(offset + 18);
+    const nameLength = buffer.readUInt16LE(offset + 26);
+    const extraLength = buffer.readUInt16LE(offset + 28);
+    const name = buffer.subarray(offset + 30, offset + 30 + nameLength).toString("utf8");
+    const start = offset + 30 + nameLength + extraLength;
+    const body = buffer.subarray(start, start + compressedSize);
+    entries.set(name, method === 8 ? inflateRawSync(body) : Buffer.from(body));
+    offset = start + compressedSize;
+  }
+  assert.equal(buffer.readUInt32LE(buffer.length - 22), 0x06054b50);
+  assert.equal(buffer.readUInt16LE(buffer.length - 12), entries.size);
+  return entries;
+}
+
+test("createZipArchive writes entries that read back byte for byte", () => {
+  const text = "Ünïcode and repetition ".repeat(50);
+  const binary = new Uint8Array([0, 1, 2, 250, 251]);
+  const archive = createZipArchive([
+    { name: "notes/é.txt", content: text },
+    { name: "photo.bin", content: binary },
+  ], NOW);
+
+  const entries = readZip(archive);
+  assert.deepEqual([...entries.keys()], ["notes/é.txt", "photo.bin"]);
+  assert.equal(entries.get("notes/é.txt").toString("utf8"), text);
+  assert.deepEqual([...entries.get("photo.bin")], [...binary]);
+  // The repetitive text is deflated, the tiny binary stored as is.
+  assert.equal(archive.readUInt16LE(8), 8);
+});
+
+test("toCsv quotes special characters, writes JSON columns and neutralises formulas", () => {
+  const csv = toCsv([
+    { id: 1, note: 'She said "hi", then left' },
+    { id: 2, note: "=HYPERLINK(\"x\")", meta: { seen: true } },
+  ]);
+
+  assert.equal(
+    csv,
+    'id,note,meta\r\n1,"She said ""hi"", then left",\r\n2,"\'=HYPERLINK(""x"")","{""seen"":true}"\r\n'
+  );
+  assert.equal(toCsv([]), "");
+});
+
+test("requestDataExport allows one export in the queue and one a day", async () => {
+  const { db, supabase } = createFixture();
+
+  const first = await requestDataExport(supabase, { userId: "user-1", now: NOW });
+  assert.equal(first.ok, true);
+  assert.equal(first.request.status, "pending");
+
+  const again = await requestDataExport(supabase, { userId: "user-1", now: NOW });
+  assert.equal(again.ok, false);
+  assert.equal(again.code, "export_in_progress");
+  assert.equal(again.status, 409);
+
+  db.data_export_requests[0].status = "ready";
+  const sameDay = await requestDataExport(supabase, { userId: "user-1", now: NOW });
+  assert.equal(sameDay.code, "export_rate_limited");
+  assert.equal(sameDay.status, 429);
+
+  db.data_export_requests[0].status = "failed";
+  const retry = await requestDataExport(supabase, { userId: "user-1", now: NOW });
+  assert.equal(retry.ok, true);
+
+  const nextDay = new Date(NOW.getTime() + 25 * 60 * 60 * 1000);
+  db.data_export_requests[1].status = "ready";
+  assert.equal((await requestDataExport(supabase, { userId: "user-1", now: nextDay })).ok, true);
+});
+
+test("runDataExportJobs builds the archive, stores it privately and emails the link", async () => {
+  const { db, supabase, storage } = createFixture();
+  const emails = [];
+  const queued = await requestDataExport(supabase, { userId: "user-1", now: NOW });
+
+  const result = await runDataExportJobs(supabase, {
+    now: NOW,
+    sendDataExportReadyEmailFn: async (to, data) => {
+      emails.push({ to, data });
+      return { success: true };
+    },
+  });
+
+  assert.deepEqual(result, { processed: 1, ready: 1, failed: 0, expired: 0 });
+
+  const request = db.data_export_requests[0];
+  const path = `user-1/${queued.request.id}.zip`;
+  assert.equal(request.status, "ready");
+  assert.equal(request.file_path, path);
+  assert.equal(request.expires_at, "2026-07-25T12:00:00.000Z");
+
+  const entries = readZip(storage.files.get(`${DATA_EXPORT_BUCKET}/${path}`));
+  assert.deepEqual(
+    [...entries.keys()],
+    [
+      "README.txt",
+      "profile.json",
+      "matches.json",
+      "activities.csv",
+      "messages.csv",
+      "meetings.json",
+      "agreements.json",
+      "wallet.json",
+      "wallet_transactions.csv",
+      "credit_transactions.csv",
+      "notifications.csv",
+      "photos/upload_1.jpg",
+    ]
+  );
+  assert.equal(request.file_size_bytes, storage.files.get(`${DATA_EXPORT_BUCKET}/${path}`).length);
+
+  const profile = JSON.parse(entries.get("profile.json").toString("utf8"));
+  assert.equal(profile.account.email, "ada@example.com");
+  assert.equal(profile.preferences.partner_age_min, 30);
+
+  const messages = entries.get("messages.csv").toString("utf8");
+  assert.match(messages, /m1,match-1,sent,user-1,,Hi there/);
+  assert.match(messages, /m2,match-1,received,user-2,,Hello!/);
+  assert.doesNotMatch(messages, /bank details/);
+  assert.doesNotMatch(messages, /Not Ada's chat/);
+
+  const activities = entries.get("activities.csv").toString("utf8");
+  assert.match(activities, /^direction,id,user_id,target_user_id,activity_type\r\n/);
+  assert.match(activities, /received,a2,user-3,user-1,wink/);
+
+  const meetings = JSON.parse(entries.get("meetings.json").toString("utf8"));
+  assert.deepEqual(meetings.map((meeting) => meeting.id), ["meeting-2", "meeting-1"]);
+  assert.equal(meetings[1].participation.role, "guest");
+
+  assert.deepEqual(JSON.parse(entries.get("wallet.json").toString("utf8")).credits, [
+    { user_id: "user-1", total: 10, used: 2 },
+  ]);
+  assert.deepEqual([...entries.get("photos/upload_1.jpg")], [0xff, 0xd8, 0xff, 0xe0]);
+  assert.doesNotMatch(entries.get("README.txt").toString("utf8"), /couldn't include/);
+
+  assert.equal(emails.length, 1);
+  assert.equal(emails[0].to, "ada@example.com");
+  assert.equal(emails[0].data.recipientName, "Ada");
+  assert.equal(emails[0].data.expiresDate, "July 25, 2026");
+  assert.equal(
+    emails[0].data.downloadUrl,
+    `https://storage.test/${DATA_EXPORT_BUCKET}/${path}?expires=259200`
+  );
+
+  // A second run has nothing left to do.
+  assert.deepEqual(await runDataExportJobs(supabase, { now: NOW }), {
+    processed: 0,
+    ready: 0,
+    failed: 0,
+    expired: 0,
+  });
+});
+
+test("a failed upload marks the export failed without emailing", async () => {
+  const { db, supabase } = createFixture({ failUpload: true });
+  const emails = [];
+  await requestDataExport(supabase, { userId: "user-1", now: NOW });
+
+  const result = await runDataExportJobs(supabase, {
+    now: NOW,
+    sendDataExportReadyEmailFn: async (to, data) => {
+      emails.push({ to, data });
+      return { success: true };
+    },
+  });
+
+  assert.deepEqual(result, { processed: 1, ready: 0, failed: 1, expired: 0 });
+  assert.equal(db.data_export_requests[0].status, "failed");
+  assert.equal(db.data_export_requests[0].error, "Bucket not found");
+  assert.equal(emails.length, 0);
+});
+
+test("stale processing exports are retried and expired archives are deleted", async () => {
+  const { db, supabase, storage } = createFixture();
+  storage.files.set(`${DATA_EXPORT_BUCKET}/user-1/old.zip`, new Uint8Array([1]));
+  db.data_export_requests.push(
+    {
+      id: "old",
+      user_id: "user-1",
+      status: "ready",
+      file_path: "user-1/old.zip",
+      requested_at: "2026-07-18T12:00:00.000Z",
+      started_at: "2026-07-18T12:05:00.000Z",
+      expires_at: "2026-07-21T12:05:00.000Z",
+    },
+    {
+      id: "recent",
+      user_id: "user-2",
+      status: "ready",
+      file_path: "user-2/recent.zip",
+      requested_at: "2026-07-22T09:00:00.000Z",
+      started_at: "2026-07-22T09:05:00.000Z",
+      expires_at: "2026-07-25T09:05:00.000Z",
+    },
+    {
+      id: "stuck",
+      user_id: "user-1",
+      status: "processing",
+      file_path: null,
+      requested_at: "2026-07-22T10:00:00.000Z",
+      started_at: "2026-07-22T10:05:00.000Z",
+      expires_at: null,
+    }
+  );
+
+  const result = await runDataExportJobs(supabase, {
+    now: NOW,
+    sendDataExportReadyEmailFn: async () => ({ success: true }),
+  });
+
+  assert.deepEqual(result, { processed: 1, ready: 1, failed: 0, expired: 1 });
+  assert.equal(db.data_export_requests[0].status, "expired");
+  assert.equal(db.data_export_requests[0].file_path, null);
+  assert.deepEqual(storage.removed, [`${DATA_EXPORT_BUCKET}/user-1/old.zip`]);
+  assert.equal(db.data_export_requests[1].status, "ready");
+  assert.equal(db.data_export_requests[2].status, "ready");
+
+  const exports = await listDataExports(supabase, { userId: "user-1", now: NOW });
+  assert.deepEqual(
+    exports.map((row) => [row.id, row.status, Boolean(row.download_url)]),
+    [
+      ["stuck", "ready", true],
+      ["old", "expired", false],
+    ]
+  );
+});
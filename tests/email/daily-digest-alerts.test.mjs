@@ -49,3 +49,17 @@ test("people near you email points members to discover", () => {
   assert.match(html, /Singles in Lagos, Nigeria are active/);
   assert.match(html, /Join the Activity/);
 });
+
+test("saved search results email names the search and links back to it", () => {
+  const { subject, html } = generateEmail("saved_search_results", {
+    recipientName: "Maya",
+    searchName: "Lagos professionals",
+    count: 4,
+    dashboardUrl: "https://matchindeed.com/dashboard/search?saved=abc",
+  });
+
+  assert.equal(subject, '4 new matches for "Lagos professionals"');
+  assert.match(html, /<strong>4<\/strong> new people match your saved search/);
+  assert.match(html, /See New Results/);
+  assert.match(html, /dashboard\/search\?saved=abc/);
+});
@@ -0,0 +1,19 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import { generateEmail } from "../../src/lib/email-templates.ts";
+
+test("data export ready email links to the archive and says when the link expires", () => {
+  const { subject, html } = generateEmail("data_export_ready", {
+    recipientName: "Ada",
+    downloadUrl: "https://storage.test/data-exports/user-1/export.zip?token=abc",
+    expiresDate: "July 25, 2026",
+    dashboardUrl: "https://matchindeed.com/dashboard/profile/my-account",
+  });
+
+  assert.equal(subject, "Your MatchIndeed data is ready to download");
+  assert.match(html, /Hi Ada,/);
+  assert.match(html, /href="https:\/\/storage\.test\/data-exports\/user-1\/export\.zip\?token=abc" class="btn">Download Your Data/);
+  assert.match(html, /The link works until <strong>July 25, 2026<\/strong>/);
+  assert.match(html, /href="https:\/\/matchindeed\.com\/dashboard\/profile\/my-account">My Account/);
+});
@@ -0,0 +1,35 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import { generateEmail } from "../../src/lib/email-templates.ts";
+
+test("gift received email shows the code and escapes the sender's message", () => {
+  const { subject, html } = generateEmail("gift_received", {
+    recipientName: "Tunde",
+    senderName: "Ada",
+    giftDescription: "1 month of the Premium plan",
+    delivery: "code",
+    giftMessage: "<b>Happy birthday</b>",
+    giftCode: "GIFT-ABCD-EFGH-JKMN",
+    codeExpiresDate: "15 July 2027",
+    dashboardUrl: "https://matchindeed.com/dashboard/gifts?code=GIFT-ABCD-EFGH-JKMN",
+  });
+
+  assert.equal(subject, "Ada sent you 1 month of the Premium plan on MatchIndeed");
+  assert.match(html, /<strong>Gift code:<\/strong> GIFT-ABCD-EFGH-JKMN/);
+  assert.match(html, /&lt;b&gt;Happy birthday&lt;\/b&gt;/);
+  assert.match(html, /Redeem Your Gift/);
+});
+
+test("gift received email for a direct delivery says the gift is already applied", () => {
+  const { html } = generateEmail("gift_received", {
+    recipientName: "Tunde",
+    senderName: "Ada",
+    giftDescription: "20 credits",
+    delivery: "direct",
+    dashboardUrl: "https://matchindeed.com/dashboard",
+  });
+
+  assert.match(html, /It&apos;s already on your account\./);
+  assert.doesNotMatch(html, /Gift code:/);
+});
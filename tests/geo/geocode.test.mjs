@@ -0,0 +1,73 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  buildProfileGeoColumns,
+  distanceBetweenKm,
+  geocodeLocation,
+  haversineDistanceKm,
+  resolveGeoPoint,
+} from "../../src/lib/geo/geocode.ts";
+
+test("geocodeLocation resolves Google Places labels to city coordinates", () => {
+  const ikeja = geocodeLocation("Ikeja, Lagos, Nigeria");
+  assert.equal(ikeja.precision, "city");
+  assert.equal(ikeja.countryCode, "NG");
+  assert.equal(ikeja.label, "Ikeja, Nigeria");
+
+  const london = geocodeLocation("London, UK");
+  assert.equal(london.label, "London, United Kingdom");
+
+  const houston = geocodeLocation("Houston, TX, USA");
+  assert.equal(houston.countryCode, "US");
+  assert.equal(houston.precision, "city");
+});
+
+test("geocodeLocation is accent-insensitive and falls back to the country centroid", () => {
+  assert.equal(geocodeLocation("Yaounde, Cameroon").label, "Yaoundé, Cameroon");
+
+  const ghana = geocodeLocation("Somewhere Small, Ghana");
+  assert.equal(ghana.precision, "country");
+  assert.equal(ghana.countryCode, "GH");
+
+  assert.equal(geocodeLocation("Atlantis"), null);
+  assert.equal(geocodeLocation(""), null);
+});
+
+test("haversineDistanceKm matches known city distances", () => {
+  const lagos = geocodeLocation("Lagos, Nigeria");
+  const abuja = geocodeLocation("Abuja, Nigeria");
+  const distance = haversineDistanceKm(lagos, abuja);
+
+  assert.ok(distance > 500 && distance < 560, `unexpected Lagos–Abuja distance ${distance}`);
+  assert.equal(haversineDistanceKm(lagos, lagos), 0);
+});
+
+test("resolveGeoPoint prefers stored coordinates and geocodes legacy rows", () => {
+  assert.deepEqual(resolveGeoPoint({ latitude: 1, longitude: 2, location: "Lagos, Nigeria" }), {
+    latitude: 1,
+    longitude: 2,
+  });
+  assert.deepEqual(resolveGeoPoint({ location: "Nairobi, Kenya" }), {
+    latitude: -1.2921,
+    longitude: 36.8219,
+  });
+  assert.equal(distanceBetweenKm(null, resolveGeoPoint({ location: "Nairobi" })), null);
+});
+
+test("buildProfileGeoColumns nulls every column when the location is unknown", () => {
+  const now = new Date("2026-07-01T09:00:00.000Z");
+
+  assert.deepEqual(buildProfileGeoColumns("Accra, Ghana", now), {
+    latitude: 5.6037,
+    longitude: -0.187,
+    location_precision: "city",
+    location_geocoded_at: "2026-07-01T09:00:00.000Z",
+  });
+  assert.deepEqual(buildProfileGeoColumns(null, now), {
+    latitude: null,
+    longitude: null,
+    location_precision: null,
+    location_geocoded_at: null,
+  });
+});
@@ -0,0 +1,374 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  buildHostStatement,
+  calculateHostEarningCents,
+  hostStatementToCsv,
+  recordMeetingEarning,
+  settleHeldMeetingEarning,
+} from "../../src/lib/host-earnings/earnings.ts";
+import {
+  approveHostPayoutBatch,
+  cancelHostPayoutBatch,
+  createHostPayoutBatch,
+  settleHostPayout,
+} from "../../src/lib/host-earnings/payouts.ts";
+import { renderHostStatementPdf } from "../../src/lib/host-earnings/statement-pdf.ts";
+
+const UNIQUE_KEYS = {
+  host_earnings: ["host_id", "meeting_id"],
+  host_payouts: ["batch_id", "host_id", "currency"],
+};
+
+class MockQuery {
+  constructor(db, table) {
+    this.db = db;
+    this.table = table;
+    this.filters = [];
+    this.operation = "select";
+    this.payload = null;
+    this.orderBy = null;
+    this.rowLimit = null;
+  }
+
+  select() {
+    if (this.operation === "update") {
+      this.operation = "update-select";
+    } else if (this.operation !== "insert") {
+      this.operation = "select";
+    }
+    return this;
+  }
+
+  update(payload) {
+    this.operation = "update";
+    this.payload = payload;
+    return this;
+  }
+
+  insert(payload) {
+    this.operation = "insert";
+    this.payload = payload;
+    return this;
+  }
+
+  upsert(payload) {
+    this.operation = "upsert";
+    this.payload = payload;
+    return this;
+  }
+
+  delete() {
+    this.operation = "delete";
+    return this;
+  }
+
+  eq(column, value) {
+    this.filters.push((row) => row[column] === value);
+    return this;
+  }
+
+  gte(column, value) {
+    this.filters.push((row) => row[column] != null && row[column] >= value);
+    return this;
+  }
+
+  lt(column, value) {
+    this.filters.push((row) => row[column] != null && row[column] < value);
+    return this;
+  }
+
+  in(column, values) {
+    this.filters.push((row) => values.includes(row[column]));
+    return this;
+  }
+
+  order(column, { ascending = true } = {}) {
+    this.orderBy = { column, ascending };
+    return this;
+  }
+
+  limit(count) {
+    this.rowLimit = count;
+    return this;
+  }
+
+  async maybeSingle() {
+    const result = await this.execute();
+    const rows = Array.isArray(result.data) ? result.data : [];
+    return { data: rows[0] || null, error: result.error };
+  }
+
+  async single() {
+    const result = await this.execute();
+    const rows = Array.isArray(result.data) ? result.data : [];
+    return rows[0]
+      ? { data: rows[0], error: null }
+      : { data: null, error: result.error || { code: "PGRST116" } };
+  }
+
+  then(resolve, reject) {
+    return this.execute().then(resolve, reject);
+  }
+
+  async execute() {
+    const rows = (this.db[this.table] ||= []);
+    let matches = rows.filter((row) => this.filters.every((filter) => filter(row)));
+
+    if (this.operation === "select") {
+      if (this.orderBy) {
+        const { column, ascending } = this.orderBy;
+        matches = [...matches].sort((a, b) =>
+          (a[column] > b[column] ? 1 : -1) * (ascending ? 1 : -1)
+        );
+      }
+      if (this.rowLimit !== null) matches = matches.slice(0, this.rowLimit);
+      return { data: matches.map((row) => ({ ...row })), error: null };
+    }
+
+    if (this.operation === "update" || this.operation === "update-select") {
+      for (const row of matches) Object.assign(row, this.payload);
+      return { data: matches.map((row) => ({ ...row })), error: null };
+    }
+
+    if (this.operation === "upsert") {
+      const existing = rows.find((row) => row.user_id === this.payload.user_id);
+      if (existing) Object.assign(existing, this.payload);
+      else rows.push({ ...this.payload });
+      return { data: null, error: null };
+    }
+
+    if (this.operation === "delete") {
+      this.db[this.table] = rows.filter((row) => !matches.includes(row));
+      return { data: null, error: null };
+    }
+
+    const payloads = Array.isArray(this.payload) ? this.payload : [this.payload];
+    const keys = UNIQUE_KEYS[this.table] || [];
+    const clashes = (payload) =>
+      // Like a partial unique index, NULL keys never clash.
+      rows.some((row) => keys.every((key) => payload[key] != null && row[key] === payload[key]));
+    if (keys.length && payloads.some(clashes)) {
+      return { data: null, error: { code: "23505", message: "duplicate key" } };
+    }
+    const inserted = payloads.map((payload, index) => ({
+      id: `${this.table}-${rows.length + index + 1}`,
+      created_at: `2026-07-15T00:00:${String(rows.length + index).padStart(2, "0")}.000Z`,
+      ...payload,
+    }));
+    rows.push(...inserted);
+    return { data: inserted.map((row) => ({ ...row })), error: null };
+  }
+}
+
+const NOW = new Date("2026-07-15T12:00:00.000Z");
+
+function createFixture() {
+  const db = {
+    host_profiles: [
+      { id: "host-1", user_id: "user-1", commission_rate: 10, is_active: true },
+      { id: "host-2", user_id: "user-2", commission_rate: 15, is_active: true },
+    ],
+    host_meetings: [
+      { id: "hm-1", host_id: "host-1", meeting_id: "meeting-1" },
+      { id: "hm-2", host_id: "host-1", meeting_id: "meeting-2" },
+      { id: "hm-3", host_id: "host-2", meeting_id: "meeting-3" },
+    ],
+    host_earnings: [],
+    host_payout_batches: [],
+    host_payouts: [],
+  };
+  const supabase = {
+    from(table) {
+      return new MockQuery(db, table);
+    },
+  };
+  return { db, supabase };
+}
+
+async function recordAll(supabase, now = NOW) {
+  await recordMeetingEarning(supabase, { meetingId: "meeting-1", feeCents: 500000, chargeStatus: "captured", now });
+  await recordMeetingEarning(supabase, { meetingId: "meeting-2", feeCents: 250000, chargeStatus: "captured", now });
+  await recordMeetingEarning(supabase, { meetingId: "meeting-3", feeCents: 400000, chargeStatus: "captured", now });
+}
+
+test("host commission is the fee times the rate, rounded down", () => {
+  assert.equal(calculateHostEarningCents(500000, 10), 50000);
+  assert.equal(calculateHostEarningCents(12345, 15), 1851);
+  assert.equal(calculateHostEarningCents(0, 10), 0);
+  assert.equal(calculateHostEarningCents(500000, 250), 500000);
+});
+
+test("a captured meeting records a payable earning for the assigned host", async () => {
+  const { db, supabase } = createFixture();
+
+  const earning = await recordMeetingEarning(supabase, {
+    meetingId: "meeting-3",
+    feeCents: 400000,
+    chargeStatus: "captured",
+    now: NOW,
+  });
+
+  assert.equal(earning.host_id, "host-2");
+  assert.equal(earning.amount_cents, 60000);
+  assert.equal(earning.currency, "ngn");
+  assert.equal(earning.status, "pending");
+  assert.equal(db.host_earnings[0].released_at, NOW.toISOString());
+});
+
+test("a charge under review holds the earning until the review settles it", async () => {
+  const { db, supabase } = createFixture();
+
+  await recordMeetingEarning(supabase, { meetingId: "meeting-1", feeCents: 500000, chargeStatus: "pending_review", now: NOW });
+  await recordMeetingEarning(supabase, { meetingId: "meeting-2", feeCents: 500000, chargeStatus: "pending_review", now: NOW });
+  assert.deepEqual(db.host_earnings.map((row) => row.status), ["held", "held"]);
+
+  const released = await settleHeldMeetingEarning(supabase, { meetingId: "meeting-1", chargeStatus: "captured", now: NOW });
+  const voided = await settleHeldMeetingEarning(supabase, { meetingId: "meeting-2", chargeStatus: "refunded", now: NOW });
+
+  assert.equal(released[0].status, "pending");
+  assert.equal(voided[0].status, "void");
+  assert.deepEqual(await settleHeldMeetingEarning(supabase, { meetingId: "meeting-1", chargeStatus: "refunded" }), []);
+});
+
+test("refunded, unhosted and already recorded meetings earn nothing new", async () => {
+  const { db, supabase } = createFixture();
+
+  assert.equal(
+    await recordMeetingEarning(supabase, { meetingId: "meeting-1", feeCents: 500000, chargeStatus: "refunded" }),
+    null
+  );
+  assert.equal(
+    await recordMeetingEarning(supabase, { meetingId: "meeting-9", feeCents: 500000, chargeStatus: "captured" }),
+    null
+  );
+  await recordMeetingEarning(supabase, { meetingId: "meeting-1", feeCents: 500000, chargeStatus: "captured" });
+  assert.equal(
+    await recordMeetingEarning(supabase, { meetingId: "meeting-1", feeCents: 500000, chargeStatus: "captured" }),
+    null
+  );
+  assert.equal(db.host_earnings.length, 1);
+});
+
+test("a payout batch groups payable earnings per host and settles them", async () => {
+  const { db, supabase } = createFixture();
+  await recordAll(supabase);
+
+  const created = await createHostPayoutBatch(supabase, { adminUserId: "admin-1", now: new Date("2026-07-20T00:00:00.000Z") });
+  assert.equal(created.ok, true);
+  assert.equal(created.batch.status, "draft");
+  const byHost = Object.fromEntries(created.payouts.map((payout) => [payout.host_id, payout]));
+  assert.equal(byHost["host-1"].amount_cents, 75000);
+  assert.equal(byHost["host-1"].earning_count, 2);
+  assert.equal(byHost["host-2"].amount_cents, 60000);
+  assert.ok(db.host_earnings.every((row) => row.status === "processing"));
+
+  const early = await settleHostPayout(supabase, { payoutId: byHost["host-1"].id, outcome: "paid", adminUserId: "admin-1" });
+  assert.equal(early.code, "batch_not_approved");
+
+  const approved = await approveHostPayoutBatch(supabase, { batchId: created.batch.id, adminUserId: "admin-2" });
+  assert.equal(approved.batch.status, "approved");
+  assert.equal((await approveHostPayoutBatch(supabase, { batchId: created.batch.id, adminUserId: "admin-2" })).code, "batch_not_draft");
+
+  const paid = await settleHostPayout(supabase, {
+    payoutId: byHost["host-1"].id,
+    outcome: "paid",
+    adminUserId: "admin-2",
+    reference: "TRF-001",
+    now: new Date("2026-07-21T00:00:00.000Z"),
+  });
+  assert.equal(paid.ok, true);
+  assert.equal(paid.batchCompleted, false);
+  assert.deepEqual(
+    db.host_earnings.filter((row) => row.host_id === "host-1").map((row) => row.status),
+    ["paid", "paid"]
+  );
+
+  const failed = await settleHostPayout(supabase, {
+    payoutId: byHost["host-2"].id,
+    outcome: "failed",
+    adminUserId: "admin-2",
+    failureReason: "Account closed",
+  });
+  assert.equal(failed.batchCompleted, true);
+  const returned = db.host_earnings.find((row) => row.host_id === "host-2");
+  assert.equal(returned.status, "pending");
+  assert.equal(returned.payout_id, null);
+  assert.equal(db.host_payout_batches[0].status, "completed");
+
+  const again = await settleHostPayout(supabase, { payoutId: byHost["host-2"].id, outcome: "paid", adminUserId: "admin-2" });
+  assert.equal(again.code, "payout_settled");
+});
+
+test("canceling a draft batch releases its earnings for the next batch", async () => {
+  const { db, supabase } = createFixture();
+  await recordAll(supabase);
+
+  const created = await createHostPayoutBatch(supabase, { adminUserId: "admin-1", now: new Date("2026-07-20T00:00:00.000Z") });
+  const canceled = await cancelHostPayoutBatch(supabase, { batchId: created.batch.id });
+
+  assert.equal(canceled.batch.status, "canceled");
+  assert.ok(db.host_payouts.every((payout) => payout.status === "canceled"));
+  assert.ok(db.host_earnings.every((row) => row.status === "pending" && row.payout_id === null));
+  assert.equal((await cancelHostPayoutBatch(supabase, { batchId: created.batch.id })).code, "batch_not_draft");
+  assert.equal((await cancelHostPayoutBatch(supabase, { batchId: "missing" })).code, "batch_not_found");
+});
+
+test("a batch only takes earnings recorded before its cutoff", async () => {
+  const { supabase } = createFixture();
+  await recordAll(supabase);
+
+  const empty = await createHostPayoutBatch(supabase, {
+    adminUserId: "admin-1",
+    earnedBefore: new Date("2026-07-01T00:00:00.000Z"),
+  });
+
+  assert.equal(empty.ok, false);
+  assert.equal(empty.code, "nothing_to_pay");
+});
+
+test("a monthly statement totals earnings and payouts as CSV and PDF", async () => {
+  const { db, supabase } = createFixture();
+  await recordMeetingEarning(supabase, { meetingId: "meeting-1", feeCents: 500000, chargeStatus: "captured", now: NOW });
+  await recordMeetingEarning(supabase, {
+    meetingId: "meeting-2",
+    feeCents: 250000,
+    chargeStatus: "pending_review",
+    now: new Date("2026-07-16T12:00:00.000Z"),
+  });
+  await recordMeetingEarning(supabase, { meetingId: "meeting-3", feeCents: 400000, chargeStatus: "captured", now: NOW });
+  db.host_payouts.push({
+    id: "payout-1",
+    batch_id: "batch-0",
+    host_id: "host-1",
+    amount_cents: 20000,
+    currency: "ngn",
+    earning_count: 1,
+    status: "paid",
+    reference: "TRF-000",
+    failure_reason: null,
+    settled_at: "2026-07-02T09:00:00.000Z",
+    created_at: "2026-07-01T09:00:00.000Z",
+  });
+
+  const statement = await buildHostStatement(supabase, { hostId: "host-1", month: "2026-07" });
+  assert.deepEqual(statement.totals, {
+    earned: { ngn: 50000 },
+    held: { ngn: 25000 },
+    voided: {},
+    paidOut: { ngn: 20000 },
+  });
+  assert.equal(await buildHostStatement(supabase, { hostId: "host-1", month: "2026-13" }), null);
+  const june = await buildHostStatement(supabase, { hostId: "host-1", month: "2026-06" });
+  assert.equal(june.earnings.length, 0);
+
+  const csv = hostStatementToCsv(statement).trim().split("\n");
+  assert.equal(csv[0], "type,date,meeting_id,fee,commission_rate,amount,currency,status,reference");
+  assert.equal(csv[1], "earning,2026-07-15,meeting-1,5000.00,10,500.00,NGN,Awaiting payout,");
+  assert.equal(csv[3], "payout,2026-07-02,,,,200.00,NGN,Paid,TRF-000");
+
+  const pdf = new TextDecoder().decode(renderHostStatementPdf(statement, "Ada (Host)"));
+  assert.ok(pdf.startsWith("%PDF-1.4"));
+  assert.ok(pdf.includes("Ada \\(Host\\) - July 2026"));
+  assert.ok(pdf.trimEnd().endsWith("%%EOF"));
+});
@@ -0,0 +1,411 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  getLedgerBalances,
+  postLedgerTransaction,
+  walletEntries,
+} from "../../src/lib/ledger/ledger.ts";
+import { reconcileLedger } from "../../src/lib/ledger/reconciliation.ts";
+import { consumeCredits, refundConsumedCredits } from "../../src/lib/credits/actions.ts";
+import { processOneTimeCheckoutSession } from "../../src/lib/payments/checkout-processing.ts";
+
+const UNIQUE_KEYS = { ledger_transactions: "idempotency_key" };
+
+// Mirrors the ledger_account_balances view.
+function accountBalances(db) {
+  const balances = new Map();
+  for (const entry of db.ledger_entries || []) {
+    const key = `${entry.account}|${entry.user_id}|${entry.unit}`;
+    const row = balances.get(key) || {
+      account: entry.account,
+      user_id: entry.user_id,
+      unit: entry.unit,
+      balance: 0,
+    };
+    row.balance += entry.amount;
+    balances.set(key, row);
+  }
+  return [...balances.values()];
+}
+
+class MockQuery {
+  constructor(db, table) {
+    this.db = db;
+    this.table = table;
+    this.filters = [];
+    this.operation = "select";
+    this.payload = null;
+    this.orderBy = null;
+    this.rowLimit = null;
+    this.rowRange = null;
+  }
+
+  select() {
+    if (this.operation === "update") {
+      this.operation = "update-select";
+    } else if (this.operation !== "insert") {
+      this.operation = "select";
+    }
+    return this;
+  }
+
+  update(payload) {
+    this.operation = "update";
+    this.payload = payload;
+    return this;
+  }
+
+  insert(payload) {
+    this.operation = "insert";
+    this.payload = payload;
+    return this;
+  }
+
+  upsert(payload) {
+    this.operation = "upsert";
+    this.payload = payload;
+    return this;
+  }
+
+  delete() {
+    this.operation = "delete";
+    return this;
+  }
+
+  eq(column, value) {
+    this.filters.push((row) => row[column] === value);
+    return this;
+  }
+
+  in(column, values) {
+    this.filters.push((row) => values.includes(row[column]));
+    return this;
+  }
+
+  order(column, { ascending = true } = {}) {
+    this.orderBy = { column, ascending };
+    return this;
+  }
+
+  limit(count) {
+    this.rowLimit = count;
+    return this;
+  }
+
+  range(from, to) {
+    this.rowRange = [from, to];
+    return this;
+  }
+
+  async maybeSingle() {
+    const result = await this.execute();
+    const rows = Array.isArray(result.data) ? result.data : [];
+    return { data: rows[0] || null, error: result.error };
+  }
+
+  async single() {
+    const result = await this.execute();
+    const rows = Array.isArray(result.data) ? result.data : [];
+    return rows[0]
+      ? { data: rows[0], error: null }
+      : { data: null, error: result.error || { code: "PGRST116" } };
+  }
+
+  then(resolve, reject) {
+    return this.execute().then(resolve, reject);
+  }
+
+  async execute() {
+    const rows =
+      this.table === "ledger_account_balances"
+        ? accountBalances(this.db)
+        : (this.db[this.table] ||= []);
+    let matches = rows.filter((row) => this.filters.every((filter) => filter(row)));
+
+    if (this.operation === "select") {
+      if (this.orderBy) {
+        const { column, ascending } = this.orderBy;
+        matches = [...matches].sort((a, b) =>
+          (a[column] > b[column] ? 1 : -1) * (ascending ? 1 : -1)
+        );
+      }
+      if (this.rowRange) matches = matches.slice(this.rowRange[0], this.rowRange[1] + 1);
+      if (this.rowLimit !== null) matches = matches.slice(0, this.rowLimit);
+      return { data: matches.map((row) => ({ ...row })), error: null };
+    }
+
+    if (this.operation === "update" || this.operation === "update-select") {
+      for (const row of matches) Object.assign(row, this.payload);
+      return { data: matches.map((row) => ({ ...row })), error: null };
+    }
+
+    if (this.operation === "upsert") {
+      const existing = rows.find((row) => row.user_id === this.payload.user_id);
+      if (existing) Object.assign(existing, this.payload);
+      else rows.push({ ...this.payload });
+      return { data: null, error: null };
+    }
+
+    if (this.operation === "delete") {
+      this.db[this.table] = rows.filter((row) => !matches.includes(row));
+      return { data: null, error: null };
+    }
+
+    const payloads = Array.isArray(this.payload) ? this.payload : [this.payload];
+    const key = UNIQUE_KEYS[this.table];
+    if (key && payloads.some((payload) => rows.some((row) => row[key] === payload[key]))) {
+      return { data: null, error: { code: "23505", message: "duplicate key" } };
+    }
+    const inserted = payloads.map((payload) => ({
+      id: `${this.table}-${rows.length + 1}`,
+      created_at: `2026-07-10T00:00:${String(rows.length).padStart(2, "0")}.000Z`,
+      ...payload,
+    }));
+    rows.push(...inserted);
+    return { data: inserted.map((row) => ({ ...row })), error: null };
+  }
+}
+
+function createFixture() {
+  const db = {
+    credits: [{ user_id: "user-1", total: 10, used: 0, rollover: 0 }],
+    credit_transactions: [],
+    wallets: [{ user_id: "user-1", balance_cents: 0 }],
+    wallet_transactions: [],
+    ledger_transactions: [],
+    ledger_entries: [],
+    ledger_reconciliation_runs: [],
+    ledger_drift_flags: [],
+    accounts: [{ id: "user-1", status: "active" }],
+  };
+
+  const runRpc = async (name, args) => {
+    if (name === "consume_credits_atomic") {
+      const row = db.credits.find((credits) => credits.user_id === args.p_user_id);
+      const available = row.total - row.used + row.rollover;
+      if (available < args.p_amount) {
+        return { data: [{ success: false, available_before: available }], error: null };
+      }
+      row.used += args.p_amount;
+      return { data: [{ success: true, available_before: available }], error: null };
+    }
+    if (name === "refund_credits_atomic") {
+      const row = db.credits.find((credits) => credits.user_id === args.p_user_id);
+      row.used = Math.max(0, row.used - args.p_amount);
+      return { data: null, error: null };
+    }
+    if (name === "apply_stripe_wallet_topup") {
+      const already = db.wallet_transactions.some((tx) => tx.reference_id === args.p_session_id);
+      const wallet = db.wallets.find((row) => row.user_id === args.p_user_id);
+      const before = wallet.balance_cents;
+      if (!already) {
+        wallet.balance_cents += args.p_amount_cents;
+        db.wallet_transactions.push({
+          user_id: args.p_user_id,
+          type: "topup",
+          amount_cents: args.p_amount_cents,
+          balance_before_cents: before,
+          balance_after_cents: wallet.balance_cents,
+          reference_id: args.p_session_id,
+          created_at: "2026-07-10T00:00:00.000Z",
+        });
+      }
+      return {
+        data: {
+          already_processed: already,
+          balance_before_cents: before,
+          balance_after_cents: wallet.balance_cents,
+        },
+        error: null,
+      };
+    }
+    throw new Error(`Unexpected rpc ${name}`);
+  };
+
+  const rpc = (name, args) => {
+    const result = runRpc(name, args);
+    return {
+      single: () => result,
+      then: (resolve, reject) => result.then(resolve, reject),
+    };
+  };
+
+  return {
+    db,
+    supabase: { from: (table) => new MockQuery(db, table), rpc },
+  };
+}
+
+// Opening balances, as the migration seeds them.
+async function openBalances(supabase, db) {
+  for (const credits of db.credits) {
+    await postLedgerTransaction(supabase, {
+      kind: "opening_balance",
+      userId: credits.user_id,
+      idempotencyKey: `opening_balance:credits:${credits.user_id}`,
+      entries: [
+        { account: "user_credits", userId: credits.user_id, unit: "credits", amount: credits.total - credits.used + credits.rollover },
+        { account: "opening_balance", unit: "credits", amount: -(credits.total - credits.used + credits.rollover) },
+      ],
+    });
+  }
+}
+
+test("unbalanced transactions are rejected before anything is written", async () => {
+  const { db, supabase } = createFixture();
+
+  await assert.rejects(
+    postLedgerTransaction(supabase, {
+      kind: "admin_adjustment",
+      userId: "user-1",
+      entries: [
+        { account: "user_wallet", userId: "user-1", unit: "cents", amount: 500 },
+        { account: "admin_adjustments", unit: "cents", amount: -400 },
+      ],
+    }),
+    /not balanced in cents/
+  );
+
+  // Cents and credits balance separately, so one cannot pay for the other.
+  await assert.rejects(
+    postLedgerTransaction(supabase, {
+      kind: "credit_purchase",
+      userId: "user-1",
+      entries: [
+        { account: "user_wallet", userId: "user-1", unit: "cents", amount: -500 },
+        { account: "user_credits", userId: "user-1", unit: "credits", amount: 500 },
+      ],
+    }),
+    /not balanced/
+  );
+
+  await assert.rejects(
+    postLedgerTransaction(supabase, {
+      kind: "admin_adjustment",
+      userId: "user-1",
+      entries: [
+        { account: "user_wallet", unit: "cents", amount: 500 },
+        { account: "admin_adjustments", unit: "cents", amount: -500 },
+      ],
+    }),
+    /wrong owner/
+  );
+
+  assert.equal(db.ledger_transactions.length, 0);
+  assert.equal(db.ledger_entries.length, 0);
+});
+
+test("balances are derived from entries and replays post once", async () => {
+  const { db, supabase } = createFixture();
+  await openBalances(supabase, db);
+
+  const session = {
+    id: "cs_topup_1",
+    mode: "payment",
+    payment_status: "paid",
+    status: "complete",
+    amount_total: 2500,
+    client_reference_id: "user-1",
+    metadata: { type: "wallet_topup", userId: "user-1", amountCents: "2500", currency: "usd" },
+  };
+  await processOneTimeCheckoutSession(supabase, session);
+  const replay = await processOneTimeCheckoutSession(supabase, session);
+  assert.equal(replay.alreadyProcessed, true);
+
+  await consumeCredits(supabase, "user-1", 6, { actionType: "meeting_request_sent" });
+  await refundConsumedCredits(supabase, "user-1", 6, { actionType: "meeting_request_failed_refund" });
+  await consumeCredits(supabase, "user-1", 4, { actionType: "meeting_request_sent" });
+
+  // A second posting under the same key is ignored.
+  const duplicate = await postLedgerTransaction(supabase, {
+    kind: "wallet_topup",
+    userId: "user-1",
+    idempotencyKey: "wallet_topup:cs_topup_1",
+    entries: walletEntries("user-1", 2500, "payment_clearing"),
+  });
+  assert.equal(duplicate.posted, false);
+
+  assert.deepEqual(await getLedgerBalances(supabase, "user-1"), { walletCents: 2500, credits: 6 });
+  assert.equal(db.wallets[0].balance_cents, 2500);
+  assert.equal(db.ledger_transactions.filter((tx) => tx.kind === "wallet_topup").length, 1);
+
+  // Every transaction nets to zero per unit.
+  for (const transaction of db.ledger_transactions) {
+    const entries = db.ledger_entries.filter((entry) => entry.transaction_id === transaction.id);
+    for (const unit of ["cents", "credits"]) {
+      const total = entries
+        .filter((entry) => entry.unit === unit)
+        .reduce((sum, entry) => sum + entry.amount, 0);
+      assert.equal(total, 0, `${transaction.kind} is unbalanced in ${unit}`);
+    }
+  }
+
+  const result = await reconcileLedger(supabase, { now: new Date("2026-07-11T02:00:00.000Z") });
+  assert.equal(result.usersChecked, 1);
+  assert.deepEqual(result.drift, []);
+  assert.equal(db.ledger_reconciliation_runs[0].status, "completed");
+});
+
+test("reconciliation flags wallet and credit rows that drifted from the ledger", async () => {
+  const { db, supabase } = createFixture();
+  db.credits.push({ user_id: "user-2", total: 5, used: 0, rollover: 0 });
+  db.wallets.push({ user_id: "user-2", balance_cents: 0 });
+  await openBalances(supabase, db);
+
+  await postLedgerTransaction(supabase, {
+    kind: "wallet_topup",
+    userId: "user-1",
+    idempotencyKey: "wallet_topup:cs_1",
+    entries: walletEntries("user-1", 1000, "payment_clearing"),
+  });
+  db.wallets[0].balance_cents = 1000;
+  db.wallet_transactions.push({
+    user_id: "user-1",
+    type: "topup",
+    amount_cents: 1000,
+    balance_before_cents: 0,
+    balance_after_cents: 1000,
+    created_at: "2026-07-10T00:00:00.000Z",
+  });
+
+  // A wallet clamped without a posting, and credits granted outside the ledger.
+  db.wallets[1].balance_cents = 700;
+  db.credits[1].total = 8;
+
+  const result = await reconcileLedger(supabase, {
+    now: new Date("2026-07-11T02:00:00.000Z"),
+    pageSize: 1,
+  });
+
+  assert.equal(result.usersChecked, 2);
+  assert.deepEqual(
+    result.drift.map(({ userId, source, difference }) => ({ userId, source, difference })),
+    [
+      { userId: "user-2", source: "wallet_balance", difference: 700 },
+      { userId: "user-2", source: "credits", difference: 3 },
+    ]
+  );
+  assert.equal(db.ledger_drift_flags.length, 2);
+  assert.equal(db.ledger_drift_flags[0].run_id, result.runId);
+  assert.equal(db.ledger_reconciliation_runs[0].drift_count, 2);
+
+  // The history disagreeing with the ledger is flagged too.
+  db.wallet_transactions.push({
+    user_id: "user-1",
+    type: "payment",
+    amount_cents: -200,
+    balance_before_cents: 1000,
+    balance_after_cents: 800,
+    created_at: "2026-07-10T12:00:00.000Z",
+  });
+  const next = await reconcileLedger(supabase, { now: new Date("2026-07-12T02:00:00.000Z") });
+  assert.ok(
+    next.drift.some(
+      (item) =>
+        item.userId === "user-1" &&
+        item.source === "wallet_transactions" &&
+        item.ledgerValue === 1000 &&
+        item.recordedValue === 800
+    )
+  );
+});
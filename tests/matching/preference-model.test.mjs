@@ -0,0 +1,92 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { MATCH_DIMENSION_WEIGHTS } from "../../src/lib/matching/scoring-config.ts";
+import { learnPreferenceModel } from "../../src/lib/matching/preference-model.ts";
+import {
+  precisionAtK,
+  replayRankingEvaluation,
+} from "../../src/lib/matching/ranking-evaluation.ts";
+
+const NOW = new Date("2026-06-01T12:00:00.000Z");
+
+const prefs = {
+  partner_location: "Lagos, Nigeria",
+  partner_religion: ["Christian"],
+};
+
+function event(source, candidate, daysAgo = 1) {
+  return {
+    source,
+    candidate,
+    occurredAt: new Date(NOW.getTime() - daysAgo * 24 * 60 * 60 * 1000).toISOString(),
+  };
+}
+
+// Likes people of the preferred religion wherever they live; rejects the rest.
+function religionDrivenHistory(count) {
+  const history = [];
+  for (let i = 0; i < count; i++) {
+    const location = i % 2 === 0 ? "Lagos, Nigeria" : "Abuja, Nigeria";
+    history.push(event("like", { location, religion: "christian" }, count - i));
+    history.push(event("rejected", { location, religion: "muslim" }, count - i));
+  }
+  return history;
+}
+
+test("no history keeps the default weights", () => {
+  const model = learnPreferenceModel(prefs, [], { now: NOW });
+  assert.deepEqual(model.weights, {});
+  assert.equal(model.positives, 0);
+});
+
+test("dimensions that separate likes from rejections are weighted up, ignored ones down", () => {
+  const model = learnPreferenceModel(prefs, religionDrivenHistory(10), { now: NOW });
+
+  assert.equal(model.positives, 10);
+  assert.equal(model.negatives, 10);
+  assert.ok(model.weights.religion > MATCH_DIMENSION_WEIGHTS.religion);
+  assert.ok(model.weights.location <= MATCH_DIMENSION_WEIGHTS.location);
+  assert.equal(model.dimensions.religion.positiveMean, 1);
+  assert.equal(model.dimensions.religion.negativeMean, 0);
+});
+
+test("little evidence moves weights less than a lot of evidence", () => {
+  const small = learnPreferenceModel(prefs, religionDrivenHistory(1), { now: NOW });
+  const large = learnPreferenceModel(prefs, religionDrivenHistory(10), { now: NOW });
+
+  assert.ok(small.weights.religion < large.weights.religion);
+  assert.ok(small.weights.religion > MATCH_DIMENSION_WEIGHTS.religion);
+});
+
+test("post-meeting answers count more than a wink", () => {
+  const candidate = { religion: "muslim" };
+  const wink = learnPreferenceModel(prefs, [event("wink", candidate)], { now: NOW });
+  const meeting = learnPreferenceModel(prefs, [event("meeting_yes", candidate)], { now: NOW });
+
+  // Liking someone outside the stated religion lowers its weight
+  assert.ok(meeting.weights.religion < wink.weights.religion);
+  assert.ok(wink.weights.religion < MATCH_DIMENSION_WEIGHTS.religion);
+});
+
+test("precisionAtK counts relevant items in the top k", () => {
+  assert.equal(precisionAtK([true, false, true, true], 2), 0.5);
+  assert.equal(precisionAtK([true], 5), 1);
+  assert.equal(precisionAtK([], 5), 0);
+});
+
+test("replayRankingEvaluation learns from earlier history and ranks the later part", () => {
+  const report = replayRankingEvaluation(
+    [
+      { userId: "learner", prefs, feedback: religionDrivenHistory(20) },
+      { userId: "too-new", prefs, feedback: religionDrivenHistory(1) },
+    ],
+    { k: 4 }
+  );
+
+  assert.equal(report.usersEvaluated, 1);
+  assert.equal(report.usersSkipped, 1);
+  assert.equal(report.users[0].trainEvents, 28);
+  assert.ok(report.learnedPrecisionAtK >= report.baselinePrecisionAtK);
+  assert.equal(report.learnedPrecisionAtK, 1);
+});
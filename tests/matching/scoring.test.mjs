@@ -0,0 +1,172 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  combineReciprocalScore,
+  getMatchBand,
+  harmonicMeanPercentage,
+  scoreMatch,
+  scoreReverseMatch,
+  toSmokerFlag,
+} from "../../src/lib/matching/scoring.ts";
+
+const NOW = new Date("2026-06-01T12:00:00.000Z");
+
+const prefs = {
+  partner_location: "Lagos",
+  partner_age_range: "30 - 39",
+  partner_religion: ["Christian"],
+  partner_smoking: "no",
+};
+
+test("no preferences returns a neutral 'New' score", () => {
+  const result = scoreMatch(null, { location: "Lagos, Nigeria" }, { now: NOW });
+  assert.equal(result.percentage, 50);
+  assert.equal(result.label, "New");
+});
+
+test("a candidate matching every preference scores 100 without signals", () => {
+  const result = scoreMatch(
+    prefs,
+    {
+      location: "Ikeja, Lagos, Nigeria",
+      date_of_birth: "1991-01-15",
+      religion: "christian",
+      smoking_habits: "never",
+    },
+    { now: NOW, includeProfileSignals: false }
+  );
+
+  assert.equal(result.percentage, 100);
+  assert.equal(result.label, "Excellent Match");
+  assert.deepEqual(
+    result.breakdown.map((dimension) => dimension.id),
+    ["location", "age", "religion", "smoking"]
+  );
+  assert.ok(result.breakdown.every((dimension) => dimension.matched));
+});
+
+test("dimensions without candidate data are skipped instead of penalised", () => {
+  const result = scoreMatch(
+    prefs,
+    { location: "Abuja, Nigeria", date_of_birth: "1991-01-15" },
+    { now: NOW, includeProfileSignals: false }
+  );
+
+  // Location (20) missed, age (15) matched → 15 / 35
+  assert.equal(result.percentage, 43);
+  assert.equal(result.breakdown.find((d) => d.id === "location").matched, false);
+  assert.equal(result.breakdown.find((d) => d.id === "religion"), undefined);
+});
+
+test("have_children accepts boolean and yes/no candidate values", () => {
+  const childPrefs = { partner_have_children: "no" };
+  const options = { now: NOW, includeProfileSignals: false };
+
+  assert.equal(scoreMatch(childPrefs, { have_children: false }, options).percentage, 100);
+  assert.equal(scoreMatch(childPrefs, { have_children: "no" }, options).percentage, 100);
+  assert.equal(scoreMatch(childPrefs, { have_children: true }, options).percentage, 0);
+});
+
+test("interaction signals lift the score when the candidate already liked the viewer", () => {
+  const candidate = { location: "Lagos", date_of_birth: "1985-01-01" };
+  const base = scoreMatch(prefs, candidate, {
+    now: NOW,
+    includeProfileSignals: false,
+    interactions: { viewerLiked: false, candidateLiked: false },
+  });
+  const liked = scoreMatch(prefs, candidate, {
+    now: NOW,
+    includeProfileSignals: false,
+    interactions: { viewerLiked: false, candidateLiked: true },
+  });
+
+  assert.ok(liked.percentage > base.percentage);
+});
+
+test("location compares coordinates rather than substrings", () => {
+  const options = { now: NOW, includeProfileSignals: false };
+  const lagosPrefs = { partner_location: "Lagos, Nigeria" };
+
+  // Ikeja is inside Lagos even though neither string contains the other
+  assert.equal(scoreMatch(lagosPrefs, { location: "Ikeja, Nigeria" }, options).percentage, 100);
+  assert.equal(scoreMatch(lagosPrefs, { location: "Abuja, Nigeria" }, options).percentage, 0);
+
+  // A country preference matches any city in that country
+  const countryPrefs = { partner_location: "Nigeria" };
+  assert.equal(scoreMatch(countryPrefs, { location: "Kano, Nigeria" }, options).percentage, 100);
+  assert.equal(scoreMatch(countryPrefs, { location: "Accra, Ghana" }, options).percentage, 0);
+});
+
+test("partner_max_distance_km scores distance from the viewer and decays beyond the radius", () => {
+  const lagos = { latitude: 6.5244, longitude: 3.3792 };
+  const distancePrefs = { partner_max_distance_km: 300 };
+  const options = { now: NOW, includeProfileSignals: false, origin: lagos };
+
+  // Ibadan (~110 km) is inside the radius
+  const near = scoreMatch(distancePrefs, { location: "Ibadan, Nigeria" }, options);
+  assert.equal(near.percentage, 100);
+  assert.equal(near.breakdown[0].id, "distance");
+
+  // Abuja (~525 km) is partway through the decay to 600 km
+  const far = scoreMatch(distancePrefs, { location: "Abuja, Nigeria" }, options);
+  assert.ok(far.percentage > 0 && far.percentage < 50, `unexpected ${far.percentage}`);
+
+  // Without a known origin the dimension is skipped
+  assert.equal(
+    scoreMatch(distancePrefs, { location: "Abuja, Nigeria" }, { ...options, origin: null }).label,
+    "New"
+  );
+});
+
+test("weight overrides change a dimension's influence", () => {
+  const candidate = { location: "Abuja", date_of_birth: "1991-01-15" };
+  const result = scoreMatch(prefs, candidate, {
+    now: NOW,
+    includeProfileSignals: false,
+    weights: { location: 0 },
+  });
+
+  assert.equal(result.percentage, 100);
+});
+
+test("toSmokerFlag and getMatchBand map raw values consistently", () => {
+  assert.equal(toSmokerFlag("trying_to_quit"), "no");
+  assert.equal(toSmokerFlag("regularly"), "yes");
+  assert.equal(toSmokerFlag(null), null);
+  assert.equal(getMatchBand(72).label, "Great Match");
+  assert.equal(getMatchBand(10).label, "Low Match");
+});
+
+test("harmonicMeanPercentage punishes one-sided matches", () => {
+  assert.equal(harmonicMeanPercentage(100, 100), 100);
+  assert.equal(harmonicMeanPercentage(90, 30), 45);
+  assert.equal(harmonicMeanPercentage(100, 0), 0);
+});
+
+test("scoreReverseMatch scores the viewer against the candidate's preferences", () => {
+  const viewer = { location: "Accra, Ghana", date_of_birth: "1980-03-01" };
+
+  assert.equal(scoreReverseMatch({ partner_age_range: "40 - 49" }, viewer, { now: NOW }), 100);
+  assert.equal(scoreReverseMatch({ partner_location: "Lagos" }, viewer, { now: NOW }), 0);
+  assert.equal(scoreReverseMatch(null, viewer, { now: NOW }), null);
+  assert.equal(scoreReverseMatch({ partner_smoking: "no" }, viewer, { now: NOW }), null);
+});
+
+test("combineReciprocalScore uses the harmonic mean and keeps forward-only when reverse is unknown", () => {
+  const forward = scoreMatch(
+    prefs,
+    { location: "Lagos", date_of_birth: "1991-01-15" },
+    { now: NOW, includeProfileSignals: false }
+  );
+
+  const combined = combineReciprocalScore(forward, 40);
+  assert.equal(combined.forwardPercentage, 100);
+  assert.equal(combined.reversePercentage, 40);
+  assert.equal(combined.percentage, 57);
+  assert.equal(combined.label, "Good Match");
+
+  const forwardOnly = combineReciprocalScore(forward, null);
+  assert.equal(forwardOnly.percentage, 100);
+  assert.equal(forwardOnly.reversePercentage, null);
+});
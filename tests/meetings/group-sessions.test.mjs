@@ -0,0 +1,618 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  cancelGroupSessionRegistration,
+  registerForGroupSession,
+  resolveGroupSeat,
+  submitGroupSessionResponses,
+} from "../../src/lib/meetings/group-sessions.ts";
+import { transitionMeeting } from "../../src/lib/meetings/transitions.ts";
+
+class MockQuery {
+  constructor(db, table) {
+    this.db = db;
+    this.table = table;
+    this.filters = [];
+    this.operation = "select";
+    this.payload = null;
+    this.conflictColumns = [];
+  }
+
+  select() {
+    if (this.operation === "update") {
+      this.operation = "update-select";
+    } else if (!["insert", "upsert", "delete"].includes(this.operation)) {
+      this.operation = "select";
+    }
+    return this;
+  }
+
+  update(payload) {
+    this.operation = "update";
+    this.payload = payload;
+    return this;
+  }
+
+  insert(payload) {
+    this.operation = "insert";
+    this.payload = payload;
+    return this;
+  }
+
+  upsert(payload, options) {
+    this.operation = "upsert";
+    this.payload = payload;
+    this.conflictColumns = String(options?.onConflict || "id").split(",");
+    return this;
+  }
+
+  delete() {
+    this.operation = "delete";
+    return this;
+  }
+
+  eq(column, value) {
+    this.filters.push((row) => row[column] === value);
+    return this;
+  }
+
+  neq(column, value) {
+    this.filters.push((row) => row[column] !== value);
+    return this;
+  }
+
+  in(column, values) {
+    this.filters.push((row) => values.includes(row[column]));
+    return this;
+  }
+
+  is(column, value) {
+    this.filters.push((row) => (row[column] ?? null) === value);
+    return this;
+  }
+
+  order() {
+    return this;
+  }
+
+  async maybeSingle() {
+    const result = await this.execute();
+    const rows = Array.isArray(result.data) ? result.data : [];
+    return { data: rows[0] || null, error: result.error };
+  }
+
+  async single() {
+    const result = await this.execute();
+    const rows = Array.isArray(result.data) ? result.data : [];
+    return rows[0]
+      ? { data: rows[0], error: null }
+      : { data: null, error: result.error || { code: "PGRST116" } };
+  }
+
+  then(resolve, reject) {
+    return this.execute().then(resolve, reject);
+  }
+
+  async execute() {
+    const rows = this.db[this.table];
+    if (!rows) {
+      throw new Error(`Unknown table: ${this.table}`);
+    }
+
+    const matches = rows.filter((row) => this.filters.every((filter) => filter(row)));
+
+    if (this.operation === "select") {
+      return { data: matches.map((row) => ({ ...row })), error: null };
+    }
+
+    if (this.operation === "update" || this.operation === "update-select") {
+      for (const row of matches) {
+        Object.assign(row, this.payload);
+      }
+      return {
+        data: this.operation === "update" ? null : matches.map((row) => ({ ...row })),
+        error: null,
+      };
+    }
+
+    if (this.operation === "delete") {
+      this.db[this.table] = rows.filter((row) => !matches.includes(row));
+      return { data: null, error: null };
+    }
+
+    const payloadRows = Array.isArray(this.payload) ? this.payload : [this.payload];
+    const written = payloadRows.map((payload, index) => {
+      const existing =
+        this.operation === "upsert"
+          ? rows.find((row) => this.conflictColumns.every((column) => row[column] === payload[column]))
+          : null;
+      if (existing) {
+        Object.assign(existing, payload);
+        return { ...existing };
+      }
+      const inserted = { id: payload.id || `${this.table}-${rows.length + index + 1}`, ...payload };
+      rows.push(inserted);
+      return { ...inserted };
+    });
+    return { data: written, error: null };
+  }
+}
+
+/** claim_group_session_seat, run synchronously the way the row lock serialises it. */
+function claimGroupSessionSeat(db, params) {
+  const session = db.group_sessions.find((row) => row.meeting_id === params.p_meeting_id);
+  const existing = db.group_session_registrations.find(
+    (row) => row.meeting_id === params.p_meeting_id && row.user_id === params.p_user_id
+  );
+  const unclaimed = [
+    { claimed: false, registration_id: existing?.id || null, registration_status: existing?.status || null },
+  ];
+
+  if (
+    existing &&
+    (existing.status === "registered" || (existing.status === "waitlisted" && !params.p_promote))
+  ) {
+    return unclaimed;
+  }
+  if (params.p_promote && existing?.status !== "waitlisted") return unclaimed;
+
+  const seated = db.group_session_registrations.filter(
+    (row) => row.meeting_id === params.p_meeting_id && row.status === "registered"
+  );
+  const sameGender = seated.filter(
+    (row) => (row.gender || "").trim().toLowerCase() === (params.p_gender || "").trim().toLowerCase()
+  );
+  const status =
+    seated.length >= session.capacity ||
+    (session.gender_rule === "balanced" && sameGender.length >= session.capacity / 2)
+      ? "waitlisted"
+      : "registered";
+
+  if (params.p_promote) {
+    if (status !== "registered") return unclaimed;
+    Object.assign(existing, { status, credits_charged: 0, promoted_at: params.p_now });
+    return [{ claimed: true, registration_id: existing.id, registration_status: status }];
+  }
+
+  const values = {
+    gender: params.p_gender,
+    status,
+    credits_charged: 0,
+    registered_at: params.p_now,
+    promoted_at: null,
+    canceled_at: null,
+    refunded_at: null,
+  };
+  let registration = existing;
+  if (registration) {
+    Object.assign(registration, values);
+  } else {
+    registration = {
+      id: `group_session_registrations-${db.group_session_registrations.length + 1}`,
+      meeting_id: params.p_meeting_id,
+      user_id: params.p_user_id,
+      ...values,
+    };
+    db.group_session_registrations.push(registration);
+  }
+  return [{ claimed: true, registration_id: registration.id, registration_status: status }];
+}
+
+function createSupabaseMock(seed) {
+  return {
+    db: seed,
+    from(table) {
+      return new MockQuery(seed, table);
+    },
+    async rpc(name, params) {
+      if (name !== "claim_group_session_seat") throw new Error(`Unknown rpc: ${name}`);
+      return { data: claimGroupSessionSeat(seed, params), error: null };
+    },
+  };
+}
+
+const NOW = new Date("2026-11-01T12:00:00.000Z");
+
+function createDb({ genderRule = "open", capacity = 4, registrations = [] } = {}) {
+  const members = [
+    { id: "woman-1", gender: "female" },
+    { id: "woman-2", gender: "female" },
+    { id: "woman-3", gender: "female" },
+    { id: "man-1", gender: "male" },
+    { id: "man-2", gender: "male" },
+  ];
+
+  return {
+    meetings: [
+      {
+        id: "session-1",
+        host_id: "host-1",
+        type: "group",
+        status: "confirmed",
+        workflow_state: "confirmed",
+        scheduled_at: "2026-11-03T18:00:00.000Z",
+        requester_credit_cost: 0,
+        charge_status: "pending",
+      },
+    ],
+    group_sessions: [
+      {
+        meeting_id: "session-1",
+        host_user_id: "host-1",
+        title: "Friday Mixer",
+        description: null,
+        capacity,
+        gender_rule: genderRule,
+        registration_closes_at: "2026-11-03T16:00:00.000Z",
+      },
+    ],
+    group_session_registrations: registrations.map((registration, index) => ({
+      id: `registration-${index + 1}`,
+      meeting_id: "session-1",
+      credits_charged: registration.status === "registered" ? 4 : 0,
+      registered_at: `2026-11-01T0${index}:00:00.000Z`,
+      promoted_at: null,
+      canceled_at: null,
+      refunded_at: null,
+      ...registration,
+    })),
+    group_session_responses: [],
+    meeting_participants: [
+      { meeting_id: "session-1", user_id: "host-1", role: "host", response: "accepted" },
+      ...registrations
+        .filter((registration) => registration.status === "registered")
+        .map((registration) => ({
+          meeting_id: "session-1",
+          user_id: registration.user_id,
+          role: "guest",
+          response: "accepted",
+        })),
+    ],
+    meeting_notifications: [],
+    accounts: [
+      { id: "host-1", email: "host@example.com", display_name: "Host", tier: "premium" },
+      ...members.map((member) => ({
+        id: member.id,
+        email: `${member.id}@example.com`,
+        display_name: member.id,
+        tier: "standard",
+      })),
+    ],
+    user_profiles: [
+      { user_id: "host-1", first_name: "Host", gender: "female" },
+      ...members.map((member) => ({
+        user_id: member.id,
+        first_name: member.id,
+        gender: member.gender,
+      })),
+    ],
+    user_matches: [],
+    relationship_agreements: [],
+    notifications: [],
+    meeting_state_events: [],
+  };
+}
+
+function createDeps(calls) {
+  return {
+    now: () => NOW,
+    consumeCreditsFn: async (_supabase, userId, amount) => {
+      calls.charges.push({ userId, amount });
+      return { success: !calls.brokeUserIds?.includes(userId), available: 10, required: amount };
+    },
+    refundConsumedCreditsFn: async (_supabase, userId, amount, meta) => {
+      calls.refunds.push({ userId, amount, actionType: meta.actionType });
+    },
+    scheduleMeetingNotificationsFn: async () => ({ recipients: [], notificationsScheduled: 0 }),
+    sendMeetingCancelledEmailFn: async () => ({ success: true }),
+    sendPushNotificationFn: async () => ({ success: true }),
+  };
+}
+
+test("resolveGroupSeat caps each gender at half a balanced session", () => {
+  const seated = [{ gender: "female" }, { gender: "female" }, { gender: "male" }];
+
+  assert.equal(
+    resolveGroupSeat({ capacity: 4, genderRule: "balanced", seated, gender: "female" }),
+    "waitlisted"
+  );
+  assert.equal(
+    resolveGroupSeat({ capacity: 4, genderRule: "balanced", seated, gender: "male" }),
+    "registered"
+  );
+  assert.equal(
+    resolveGroupSeat({ capacity: 4, genderRule: "open", seated, gender: "female" }),
+    "registered"
+  );
+  assert.equal(
+    resolveGroupSeat({ capacity: 3, genderRule: "open", seated, gender: "male" }),
+    "waitlisted"
+  );
+});
+
+test("registerForGroupSession charges a seat and waitlists once a gender is full", async () => {
+  const db = createDb({
+    genderRule: "balanced",
+    registrations: [{ user_id: "woman-1", gender: "female", status: "registered" }],
+  });
+  const calls = { charges: [], refunds: [] };
+  const supabase = createSupabaseMock(db);
+
+  const seated = await registerForGroupSession(
+    supabase,
+    { meetingId: "session-1", userId: "woman-2" },
+    createDeps(calls)
+  );
+  assert.equal(seated.ok, true);
+  assert.equal(seated.registration.status, "registered");
+  assert.equal(seated.registration.credits_charged, 4);
+  assert.ok(
+    db.meeting_participants.some(
+      (participant) => participant.user_id === "woman-2" && participant.role === "guest"
+    )
+  );
+
+  const waitlisted = await registerForGroupSession(
+    supabase,
+    { meetingId: "session-1", userId: "woman-3" },
+    createDeps(calls)
+  );
+  assert.equal(waitlisted.ok, true);
+  assert.equal(waitlisted.registration.status, "waitlisted");
+  assert.equal(waitlisted.registration.credits_charged, 0);
+  assert.deepEqual(calls.charges, [{ userId: "woman-2", amount: 4 }]);
+
+  const again = await registerForGroupSession(
+    supabase,
+    { meetingId: "session-1", userId: "woman-3" },
+    createDeps(calls)
+  );
+  assert.equal(again.ok, true);
+  assert.equal(again.applied, false);
+  assert.equal(calls.charges.length, 1);
+});
+
+test("concurrent registrations by the same member charge a single seat", async () => {
+  const db = createDb();
+  const calls = { charges: [], refunds: [] };
+  const supabase = createSupabaseMock(db);
+
+  const results = await Promise.all([
+    registerForGroupSession(supabase, { meetingId: "session-1", userId: "woman-1" }, createDeps(calls)),
+    registerForGroupSession(supabase, { meetingId: "session-1", userId: "woman-1" }, createDeps(calls)),
+  ]);
+
+  assert.ok(results.every((result) => result.ok));
+  assert.deepEqual(
+    results.map((result) => result.applied).sort(),
+    [false, true]
+  );
+  assert.deepEqual(calls.charges, [{ userId: "woman-1", amount: 4 }]);
+  assert.deepEqual(calls.refunds, []);
+  assert.equal(
+    db.group_session_registrations.filter((row) => row.user_id === "woman-1").length,
+    1
+  );
+  assert.equal(db.group_session_registrations[0].credits_charged, 4);
+});
+
+test("two members racing for the last seat seat one and waitlist the other", async () => {
+  const db = createDb({
+    capacity: 2,
+    registrations: [{ user_id: "woman-1", gender: "female", status: "registered" }],
+  });
+  const calls = { charges: [], refunds: [] };
+  const supabase = createSupabaseMock(db);
+
+  const [first, second] = await Promise.all([
+    registerForGroupSession(supabase, { meetingId: "session-1", userId: "woman-2" }, createDeps(calls)),
+    registerForGroupSession(supabase, { meetingId: "session-1", userId: "man-1" }, createDeps(calls)),
+  ]);
+
+  assert.equal(first.ok, true);
+  assert.equal(second.ok, true);
+  assert.deepEqual(
+    [first.registration.status, second.registration.status].sort(),
+    ["registered", "waitlisted"]
+  );
+  assert.equal(calls.charges.length, 1);
+  assert.equal(
+    db.group_session_registrations.filter((row) => row.status === "registered").length,
+    2
+  );
+});
+
+test("registerForGroupSession gives the seat back when the member can't pay", async () => {
+  const db = createDb({ capacity: 2 });
+  const calls = { charges: [], refunds: [], brokeUserIds: ["woman-1"] };
+
+  const result = await registerForGroupSession(
+    createSupabaseMock(db),
+    { meetingId: "session-1", userId: "woman-1" },
+    createDeps(calls)
+  );
+
+  assert.equal(result.ok, false);
+  assert.equal(result.code, "insufficient_credits");
+  assert.equal(db.group_session_registrations[0].status, "canceled");
+  assert.ok(!db.meeting_participants.some((participant) => participant.user_id === "woman-1"));
+});
+
+test("cancelGroupSessionRegistration refunds the seat and promotes the waitlist", async () => {
+  const db = createDb({
+    genderRule: "balanced",
+    registrations: [
+      { user_id: "woman-1", gender: "female", status: "registered" },
+      { user_id: "woman-2", gender: "female", status: "registered" },
+      { user_id: "man-1", gender: "male", status: "registered" },
+      { user_id: "woman-3", gender: "female", status: "waitlisted" },
+    ],
+  });
+  const calls = { charges: [], refunds: [] };
+
+  const result = await cancelGroupSessionRegistration(
+    createSupabaseMock(db),
+    { meetingId: "session-1", userId: "woman-1" },
+    createDeps(calls)
+  );
+
+  assert.equal(result.ok, true);
+  assert.equal(result.refunded, true);
+  assert.deepEqual(result.promotedUserIds, ["woman-3"]);
+  assert.deepEqual(calls.refunds, [
+    { userId: "woman-1", amount: 4, actionType: "group_session_cancellation_refund" },
+  ]);
+  assert.deepEqual(calls.charges, [{ userId: "woman-3", amount: 4 }]);
+
+  const promoted = db.group_session_registrations.find((entry) => entry.user_id === "woman-3");
+  assert.equal(promoted.status, "registered");
+  assert.equal(promoted.credits_charged, 4);
+  assert.equal(
+    db.meeting_participants.some((participant) => participant.user_id === "woman-1"),
+    false
+  );
+});
+
+test("submitGroupSessionResponses matches only mutual yes pairs", async () => {
+  const db = createDb({
+    registrations: [
+      { user_id: "woman-1", gender: "female", status: "registered" },
+      { user_id: "man-1", gender: "male", status: "registered" },
+      { user_id: "man-2", gender: "male", status: "registered" },
+    ],
+  });
+  db.meetings[0].status = "completed";
+  db.meetings[0].workflow_state = "completed";
+  const supabase = createSupabaseMock(db);
+  const deps = createDeps({ charges: [], refunds: [] });
+
+  const first = await submitGroupSessionResponses(
+    supabase,
+    {
+      meetingId: "session-1",
+      userId: "man-1",
+      responses: [{ target_id: "woman-1", response: "yes" }],
+    },
+    deps
+  );
+  assert.equal(first.ok, true);
+  assert.deepEqual(first.matches, []);
+
+  // Men can't respond to each other under the gender rules.
+  const invalid = await submitGroupSessionResponses(
+    supabase,
+    {
+      meetingId: "session-1",
+      userId: "man-2",
+      responses: [{ target_id: "man-1", response: "yes" }],
+    },
+    deps
+  );
+  assert.equal(invalid.ok, false);
+  assert.equal(invalid.code, "invalid_responses");
+
+  const second = await submitGroupSessionResponses(
+    supabase,
+    {
+      meetingId: "session-1",
+      userId: "woman-1",
+      responses: [
+        { target_id: "man-1", response: "yes" },
+        { target_id: "man-2", response: "no" },
+      ],
+    },
+    deps
+  );
+  assert.equal(second.ok, true);
+  assert.deepEqual(
+    second.matches.map((match) => match.user_id),
+    ["man-1"]
+  );
+  assert.equal(db.user_matches.length, 1);
+  assert.equal(db.user_matches[0].messaging_enabled, false);
+  assert.deepEqual(
+    [db.user_matches[0].user1_id, db.user_matches[0].user2_id],
+    ["man-1", "woman-1"]
+  );
+  assert.equal(db.relationship_agreements.length, 1);
+});
+
+test("canceling a group session refunds every seat and closes the waitlist", async () => {
+  const db = createDb({
+    registrations: [
+      { user_id: "woman-1", gender: "female", status: "registered" },
+      { user_id: "man-1", gender: "male", status: "registered" },
+      { user_id: "man-2", gender: "male", status: "waitlisted" },
+    ],
+  });
+  const calls = { charges: [], refunds: [] };
+
+  const result = await transitionMeeting(
+    createSupabaseMock(db),
+    {
+      meetingId: "session-1",
+      to: "canceled",
+      actor: { userId: "host-1", role: "host" },
+      reason: "Host unavailable",
+      details: { cancellation: { trigger: "canceled", refundGuest: true } },
+    },
+    createDeps(calls)
+  );
+
+  assert.equal(result.ok, true);
+  assert.equal(result.outcome.bookingValueRefunded, true);
+  assert.deepEqual(
+    calls.refunds.map((refund) => refund.userId),
+    ["woman-1", "man-1"]
+  );
+  assert.equal(
+    db.group_session_registrations.find((entry) => entry.user_id === "man-2").status,
+    "canceled"
+  );
+});
+
+test("a seat another cancellation already refunded is not refunded again", async () => {
+  const db = createDb({
+    registrations: [
+      { user_id: "woman-1", gender: "female", status: "registered" },
+      { user_id: "man-1", gender: "male", status: "registered" },
+    ],
+  });
+  const calls = { charges: [], refunds: [] };
+  const supabase = createSupabaseMock(db);
+  const from = supabase.from.bind(supabase);
+  supabase.from = (table) => {
+    const query = from(table);
+    if (table === "group_session_registrations") {
+      const execute = query.execute.bind(query);
+      query.execute = async () => {
+        const result = await execute();
+        // A concurrent cancellation refunds woman-1 right after this read.
+        if (query.operation === "select") {
+          db.group_session_registrations[0].refunded_at = "2026-11-01T11:59:00.000Z";
+        }
+        return result;
+      };
+    }
+    return query;
+  };
+
+  const result = await transitionMeeting(
+    supabase,
+    {
+      meetingId: "session-1",
+      to: "canceled",
+      actor: { userId: "host-1", role: "host" },
+      reason: "Host unavailable",
+      details: { cancellation: { trigger: "canceled", refundGuest: true } },
+    },
+    createDeps(calls)
+  );
+
+  assert.equal(result.ok, true);
+  assert.deepEqual(
+    calls.refunds.map((refund) => refund.userId),
+    ["man-1"]
+  );
+  assert.equal(db.group_session_registrations[0].refunded_at, "2026-11-01T11:59:00.000Z");
+});
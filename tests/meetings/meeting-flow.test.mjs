@@ -48,3 +48,10 @@ test("meeting transition guard blocks invalid transitions", () => {
   assert.equal(result.allowed, false);
   assert.match(result.message || "", /Invalid meeting state transition/i);
 });
+
+test("reschedule proposals leave and return to confirmed", () => {
+  assert.equal(canTransitionMeetingState("confirmed", "reschedule_proposed"), true);
+  assert.equal(canTransitionMeetingState("reschedule_proposed", "confirmed"), true);
+  assert.equal(canTransitionMeetingState("reschedule_proposed", "canceled"), true);
+  assert.equal(canTransitionMeetingState("accepted", "reschedule_proposed"), false);
+});
@@ -15,7 +15,11 @@ class MockQuery {
   }
 
   select() {
-    this.operation = this.operation === "update" ? "update-select" : "select";
+    if (this.operation === "update") {
+      this.operation = "update-select";
+    } else if (this.operation !== "insert") {
+      this.operation = "select";
+    }
     return this;
   }
 
@@ -28,7 +32,7 @@ class MockQuery {
   insert(payload) {
     this.operation = "insert";
     this.payload = payload;
-    return this.execute();
+    return this;
   }
 
   eq(column, value) {
@@ -36,6 +40,11 @@ class MockQuery {
     return this;
   }
 
+  is(column, value) {
+    this.filters.push((row) => (row[column] ?? null) === value);
+    return this;
+  }
+
   lte(column, value) {
     this.filters.push((row) => row[column] <= value);
     return this;
@@ -46,6 +55,12 @@ class MockQuery {
     return this;
   }
 
+  async maybeSingle() {
+    const result = await this.execute();
+    const rows = Array.isArray(result.data) ? result.data : [];
+    return { data: rows[0] || null, error: result.error };
+  }
+
   then(resolve, reject) {
     return this.execute().then(resolve, reject);
   }
@@ -78,10 +93,12 @@ class MockQuery {
 
     if (this.operation === "insert") {
       const payloadRows = Array.isArray(this.payload) ? this.payload : [this.payload];
-      for (const row of payloadRows) {
-        rows.push({ ...row, id: row.id || `generated-${rows.length + 1}` });
-      }
-      return { data: payloadRows, error: null };
+      const inserted = payloadRows.map((row, index) => ({
+        ...row,
+        id: row.id || `generated-${rows.length + index + 1}`,
+      }));
+      rows.push(...inserted);
+      return { data: inserted, error: null };
     }
 
     throw new Error(`Unsupported operation: ${this.operation}`);
@@ -162,6 +179,7 @@ test("expireStalePendingMeetingRequests cancels stale pending requests, refunds
       { user_id: "guest-2", first_name: "Other Guest" },
     ],
     notifications: [],
+    meeting_state_events: [],
   };
 
   const refundCalls = [];
@@ -224,6 +242,25 @@ test("expireStalePendingMeetingRequests cancels stale pending requests, refunds
     { userId: "guest-1", meetingId: "meeting-stale" },
   ]);
 
+  assert.deepEqual(
+    db.meeting_state_events.map((event) => ({
+      meeting_id: event.meeting_id,
+      actor_role: event.actor_role,
+      from_state: event.from_state,
+      to_state: event.to_state,
+      reason: event.reason,
+    })),
+    [
+      {
+        meeting_id: "meeting-stale",
+        actor_role: "system",
+        from_state: "requested",
+        to_state: "canceled",
+        reason: MEETING_REQUEST_EXPIRATION_REASON,
+      },
+    ]
+  );
+
   assert.equal(db.notifications.length, 2);
   assert.ok(
     db.notifications.every(
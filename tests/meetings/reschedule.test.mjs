@@ -0,0 +1,433 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  proposeMeetingReschedule,
+  respondToMeetingReschedule,
+} from "../../src/lib/meetings/reschedule.ts";
+
+class MockQuery {
+  constructor(db, table) {
+    this.db = db;
+    this.table = table;
+    this.filters = [];
+    this.operation = "select";
+    this.payload = null;
+  }
+
+  select() {
+    if (this.operation === "delete") {
+      this.db[this.table] = rows.filter((row) => !matches.includes(row));
+      return { data: null, error: null };
+    }
+
+    if (this.operation === "update") {
+      this.operation = "update-select";
+    } else if (this.operation !== "insert") {
+      this.operation = "select";
+    }
+    return this;
+  }
+
+  update(payload) {
+    this.operation = "update";
+    this.payload = payload;
+    return this;
+  }
+
+  delete() {
+    this.operation = "delete";
+    return this;
+  }
+
+  insert(payload) {
+    this.operation = "insert";
+    this.payload = payload;
+    return this;
+  }
+
+  eq(column, value) {
+    this.filters.push((row) => row[column] === value);
+    return this;
+  }
+
+  neq(column, value) {
+    this.filters.push((row) => row[column] !== value);
+    return this;
+  }
+
+  is(column, value) {
+    this.filters.push((row) => (row[column] ?? null) === value);
+    return this;
+  }
+
+  lte(column, value) {
+    this.filters.push((row) => row[column] <= value);
+    return this;
+  }
+
+  order() {
+    return this;
+  }
+
+  in(column, values) {
+    this.filters.push((row) => values.includes(row[column]));
+    return this;
+  }
+
+  async maybeSingle() {
+    const result = await this.execute();
+    const rows = Array.isArray(result.data) ? result.data : [];
+    return { data: rows[0] || null, error: result.error };
+  }
+
+  async single() {
+    const result = await this.maybeSingle();
+    return result.data ? result : { data: null, error: result.error || { code: "PGRST116" } };
+  }
+
+  then(resolve, reject) {
+    return this.execute().then(resolve, reject);
+  }
+
+  async execute() {
+    const rows = this.db[this.table];
+    if (!rows) {
+      throw new Error(`Unknown table: ${this.table}`);
+    }
+
+    const matches = rows.filter((row) => this.filters.every((filter) => filter(row)));
+
+    if (this.operation === "select") {
+      return { data: matches.map((row) => ({ ...row })), error: null };
+    }
+
+    if (this.operation === "update") {
+      for (const row of matches) {
+        Object.assign(row, this.payload);
+      }
+      return { data: null, error: null };
+    }
+
+    if (this.operation === "update-select") {
+      for (const row of matches) {
+        Object.assign(row, this.payload);
+      }
+      return { data: matches.map((row) => ({ id: row.id })), error: null };
+    }
+
+    if (this.operation === "insert") {
+      const payloadRows = Array.isArray(this.payload) ? this.payload : [this.payload];
+      const inserted = payloadRows.map((row, index) => ({
+        ...row,
+        id: row.id || `generated-${rows.length + index + 1}`,
+      }));
+      rows.push(...inserted);
+      return { data: inserted, error: null };
+    }
+
+    throw new Error(`Unsupported operation: ${this.operation}`);
+  }
+}
+
+function createSupabaseMock(seed) {
+  return {
+    db: seed,
+    from(table) {
+      return new MockQuery(seed, table);
+    },
+  };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function createDb() {
+  const originalTime = new Date(Date.now() + 5 * DAY_MS).toISOString();
+  return {
+    meetings: [
+      {
+        id: "meeting-1",
+        host_id: "host-1",
+        status: "confirmed",
+        workflow_state: "confirmed",
+        scheduled_at: originalTime,
+        requester_credit_cost: 4,
+        charge_status: "pending",
+        zoom_meeting_id: "zoom-1",
+        video_link: "https://zoom.example/j/1",
+        video_link_is_fallback: false,
+      },
+    ],
+    meeting_participants: [
+      { meeting_id: "meeting-1", user_id: "host-1", role: "host", response: "accepted" },
+      { meeting_id: "meeting-1", user_id: "guest-1", role: "guest", response: "accepted" },
+    ],
+    meeting_availability: [
+      {
+        id: "slot-a",
+        user_id: "host-1",
+        scheduled_at_utc: new Date(Date.now() + 7 * DAY_MS).toISOString(),
+      },
+      {
+        id: "slot-b",
+        user_id: "host-1",
+        scheduled_at_utc: new Date(Date.now() + 8 * DAY_MS).toISOString(),
+      },
+      {
+        id: "slot-guest",
+        user_id: "guest-1",
+        scheduled_at_utc: new Date(Date.now() + 9 * DAY_MS).toISOString(),
+      },
+      {
+        id: "slot-too-soon",
+        user_id: "host-1",
+        scheduled_at_utc: new Date(Date.now() + 6 * 60 * 60 * 1000).toISOString(),
+      },
+    ],
+    calendar_configurations: [],
+    account_tier_config: [],
+    meeting_reschedule_proposals: [],
+    accounts: [
+      { id: "host-1", email: "host@example.com", display_name: "Host One" },
+      { id: "guest-1", email: "guest@example.com", display_name: "Guest One" },
+    ],
+    user_profiles: [
+      { user_id: "host-1", first_name: "Host" },
+      { user_id: "guest-1", first_name: "Guest" },
+    ],
+    notifications: [],
+    meeting_state_events: [],
+  };
+}
+
+function createDeps(calls) {
+  return {
+    updateZoomMeetingFn: async (zoomMeetingId, options) => {
+      calls.zoomUpdates.push({ zoomMeetingId, startTime: options.startTime });
+      return true;
+    },
+    createZoomMeetingFn: async () => {
+      calls.zoomCreates += 1;
+      return { success: true, join_url: "https://zoom.example/j/2", meeting_id: 2 };
+    },
+    refundConsumedCreditsFn: async () => {
+      calls.creditCalls += 1;
+      return { success: true };
+    },
+    scheduleMeetingNotificationsFn: async (_supabase, meetingId, scheduledAt) => {
+      calls.reminders.push({ meetingId, scheduledAt });
+    },
+    sendPushNotificationFn: async () => true,
+  };
+}
+
+function createCalls() {
+  return { zoomUpdates: [], zoomCreates: 0, creditCalls: 0, reminders: [] };
+}
+
+test("proposeMeetingReschedule offers the counterpart's slots and notifies them", async () => {
+  const db = createDb();
+  const calls = createCalls();
+
+  const result = await proposeMeetingReschedule(
+    createSupabaseMock(db),
+    { meetingId: "meeting-1", userId: "guest-1", slotIds: ["slot-a", "slot-b"] },
+    createDeps(calls)
+  );
+
+  assert.equal(result.ok, true);
+  assert.equal(db.meetings[0].workflow_state, "reschedule_proposed");
+  assert.equal(db.meetings[0].status, "confirmed");
+  assert.equal(db.meeting_reschedule_proposals.length, 1);
+  assert.equal(db.meeting_reschedule_proposals[0].responder_id, "host-1");
+  assert.deepEqual(
+    db.meeting_reschedule_proposals[0].proposed_slots.map((slot) => slot.slot_id),
+    ["slot-a", "slot-b"]
+  );
+  assert.deepEqual(
+    db.notifications.map((notification) => [notification.user_id, notification.type]),
+    [["host-1", "meeting_reschedule_proposed"]]
+  );
+  assert.equal(db.meeting_state_events[0].to_state, "reschedule_proposed");
+});
+
+test("proposeMeetingReschedule rejects slots that are not the counterpart's or too soon", async () => {
+  for (const slotIds of [["slot-guest"], ["slot-too-soon"], ["slot-a", "slot-b", "slot-guest", "x"]]) {
+    const db = createDb();
+    const result = await proposeMeetingReschedule(
+      createSupabaseMock(db),
+      { meetingId: "meeting-1", userId: "guest-1", slotIds },
+      createDeps(createCalls())
+    );
+
+    assert.equal(result.ok, false);
+    assert.equal(result.code, "invalid_slots");
+    assert.equal(db.meetings[0].workflow_state, "confirmed");
+    assert.equal(db.meeting_reschedule_proposals.length, 0);
+  }
+});
+
+test("accepting a proposal moves the meeting and its Zoom meeting without touching credits", async () => {
+  const db = createDb();
+  const calls = createCalls();
+  const supabase = createSupabaseMock(db);
+  const originalTime = db.meetings[0].scheduled_at;
+
+  const proposed = await proposeMeetingReschedule(
+    supabase,
+    { meetingId: "meeting-1", userId: "guest-1", slotIds: ["slot-a", "slot-b"] },
+    createDeps(calls)
+  );
+  const chosen = proposed.proposal.proposed_slots[1];
+
+  const accepted = await respondToMeetingReschedule(
+    supabase,
+    { proposalId: proposed.proposal.id, userId: "host-1", action: "accept", slotId: "slot-b" },
+    createDeps(calls)
+  );
+  const retry = await respondToMeetingReschedule(
+    supabase,
+    { proposalId: proposed.proposal.id, userId: "host-1", action: "accept", slotId: "slot-b" },
+    createDeps(calls)
+  );
+
+  assert.equal(accepted.ok, true);
+  assert.equal(accepted.applied, true);
+  assert.equal(retry.ok, true);
+  assert.equal(retry.applied, false);
+
+  assert.equal(db.meetings[0].workflow_state, "confirmed");
+  assert.equal(db.meetings[0].scheduled_at, chosen.scheduled_at);
+  assert.equal(db.meetings[0].zoom_meeting_id, "zoom-1");
+  assert.deepEqual(calls.zoomUpdates, [
+    { zoomMeetingId: "zoom-1", startTime: chosen.scheduled_at },
+  ]);
+  assert.equal(calls.zoomCreates, 0);
+  assert.equal(calls.creditCalls, 0);
+  assert.deepEqual(calls.reminders, [
+    { meetingId: "meeting-1", scheduledAt: chosen.scheduled_at },
+  ]);
+
+  const proposal = db.meeting_reschedule_proposals[0];
+  assert.equal(proposal.status, "accepted");
+  assert.equal(proposal.selected_scheduled_at, chosen.scheduled_at);
+  assert.notEqual(originalTime, chosen.scheduled_at);
+  assert.deepEqual(
+    db.meeting_state_events.map((event) => `${event.from_state}->${event.to_state}`),
+    ["confirmed->reschedule_proposed", "reschedule_proposed->confirmed"]
+  );
+});
+
+test("declining a proposal keeps the original time and lets a new one be made", async () => {
+  const db = createDb();
+  const calls = createCalls();
+  const supabase = createSupabaseMock(db);
+  const originalTime = db.meetings[0].scheduled_at;
+
+  const first = await proposeMeetingReschedule(
+    supabase,
+    { meetingId: "meeting-1", userId: "guest-1", slotIds: ["slot-a"] },
+    createDeps(calls)
+  );
+  const declined = await respondToMeetingReschedule(
+    supabase,
+    { proposalId: first.proposal.id, userId: "host-1", action: "decline" },
+    createDeps(calls)
+  );
+  const second = await proposeMeetingReschedule(
+    supabase,
+    { meetingId: "meeting-1", userId: "guest-1", slotIds: ["slot-b"] },
+    createDeps(calls)
+  );
+
+  assert.equal(declined.ok, true);
+  assert.equal(db.meetings[0].scheduled_at, originalTime);
+  assert.equal(calls.zoomUpdates.length, 0);
+  assert.equal(db.meeting_reschedule_proposals[0].status, "declined");
+  assert.ok(
+    db.notifications.some(
+      (notification) =>
+        notification.user_id === "guest-1" && notification.type === "meeting_reschedule_declined"
+    )
+  );
+  assert.equal(second.ok, true);
+  assert.equal(db.meetings[0].workflow_state, "reschedule_proposed");
+});
+
+test("only the counterpart can accept a proposal", async () => {
+  const db = createDb();
+  const supabase = createSupabaseMock(db);
+
+  const proposed = await proposeMeetingReschedule(
+    supabase,
+    { meetingId: "meeting-1", userId: "guest-1", slotIds: ["slot-a"] },
+    createDeps(createCalls())
+  );
+  const result = await respondToMeetingReschedule(
+    supabase,
+    { proposalId: proposed.proposal.id, userId: "guest-1", action: "accept", slotId: "slot-a" },
+    createDeps(createCalls())
+  );
+
+  assert.equal(result.ok, false);
+  assert.equal(result.code, "proposal_not_found");
+  assert.equal(db.meetings[0].workflow_state, "reschedule_proposed");
+});
+
+test("proposeMeetingReschedule rejects a time either member is already booked at", async () => {
+  const db = createDb();
+  const slotTime = db.meeting_availability.find((slot) => slot.id === "slot-a").scheduled_at_utc;
+  db.meetings.push({ id: "meeting-2", host_id: "host-1", status: "confirmed", scheduled_at: slotTime });
+  db.meeting_participants.push({ meeting_id: "meeting-2", user_id: "host-1", role: "host" });
+
+  const result = await proposeMeetingReschedule(
+    createSupabaseMock(db),
+    { meetingId: "meeting-1", userId: "guest-1", slotIds: ["slot-b", "slot-a"] },
+    createDeps(createCalls())
+  );
+
+  assert.equal(result.ok, false);
+  assert.equal(result.code, "booking_conflict");
+  assert.equal(result.status, 409);
+  assert.equal(db.meetings[0].workflow_state, "confirmed");
+  assert.equal(db.meeting_reschedule_proposals.length, 0);
+});
+
+test("accepting a proposal re-checks conflicts booked since it was made", async () => {
+  const db = createDb();
+  const calls = createCalls();
+  const supabase = createSupabaseMock(db);
+  const originalTime = db.meetings[0].scheduled_at;
+
+  const proposed = await proposeMeetingReschedule(
+    supabase,
+    { meetingId: "meeting-1", userId: "guest-1", slotIds: ["slot-a"] },
+    createDeps(calls)
+  );
+  assert.equal(proposed.ok, true);
+
+  // Both members booked another meeting together at that time meanwhile.
+  db.meetings.push({
+    id: "meeting-2",
+    host_id: "host-1",
+    status: "pending",
+    scheduled_at: proposed.proposal.proposed_slots[0].scheduled_at,
+  });
+  db.meeting_participants.push(
+    { meeting_id: "meeting-2", user_id: "host-1", role: "host" },
+    { meeting_id: "meeting-2", user_id: "guest-1", role: "guest" }
+  );
+
+  const accepted = await respondToMeetingReschedule(
+    supabase,
+    { proposalId: proposed.proposal.id, userId: "host-1", action: "accept", slotId: "slot-a" },
+    createDeps(calls)
+  );
+
+  assert.equal(accepted.ok, false);
+  assert.equal(accepted.code, "booking_conflict");
+  assert.equal(accepted.message, "You already have a meeting together at this time.");
+  assert.equal(db.meetings[0].scheduled_at, originalTime);
+  assert.equal(db.meetings[0].workflow_state, "reschedule_proposed");
+  assert.equal(db.meeting_reschedule_proposals[0].status, "pending");
+  assert.deepEqual(calls.zoomUpdates, []);
+});
@@ -0,0 +1,260 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  getMeetingTimeline,
+  transitionMeeting,
+} from "../../src/lib/meetings/transitions.ts";
+
+class MockQuery {
+  constructor(db, table) {
+    this.db = db;
+    this.table = table;
+    this.filters = [];
+    this.operation = "select";
+    this.payload = null;
+  }
+
+  select() {
+    if (this.operation === "update") {
+      this.operation = "update-select";
+    } else if (this.operation !== "insert") {
+      this.operation = "select";
+    }
+    return this;
+  }
+
+  update(payload) {
+    this.operation = "update";
+    this.payload = payload;
+    return this;
+  }
+
+  insert(payload) {
+    this.operation = "insert";
+    this.payload = payload;
+    return this;
+  }
+
+  eq(column, value) {
+    this.filters.push((row) => row[column] === value);
+    return this;
+  }
+
+  is(column, value) {
+    this.filters.push((row) => (row[column] ?? null) === value);
+    return this;
+  }
+
+  lte(column, value) {
+    this.filters.push((row) => row[column] <= value);
+    return this;
+  }
+
+  order() {
+    return this;
+  }
+
+  in(column, values) {
+    this.filters.push((row) => values.includes(row[column]));
+    return this;
+  }
+
+  async maybeSingle() {
+    const result = await this.execute();
+    const rows = Array.isArray(result.data) ? result.data : [];
+    return { data: rows[0] || null, error: result.error };
+  }
+
+  then(resolve, reject) {
+    return this.execute().then(resolve, reject);
+  }
+
+  async execute() {
+    const rows = this.db[this.table];
+    if (!rows) {
+      throw new Error(`Unknown table: ${this.table}`);
+    }
+
+    const matches = rows.filter((row) => this.filters.every((filter) => filter(row)));
+
+    if (this.operation === "select") {
+      return { data: matches.map((row) => ({ ...row })), error: null };
+    }
+
+    if (this.operation === "update") {
+      for (const row of matches) {
+        Object.assign(row, this.payload);
+      }
+      return { data: null, error: null };
+    }
+
+    if (this.operation === "update-select") {
+      for (const row of matches) {
+        Object.assign(row, this.payload);
+      }
+      return { data: matches.map((row) => ({ id: row.id })), error: null };
+    }
+
+    if (this.operation === "insert") {
+      const payloadRows = Array.isArray(this.payload) ? this.payload : [this.payload];
+      const inserted = payloadRows.map((row, index) => ({
+        ...row,
+        id: row.id || `generated-${rows.length + index + 1}`,
+      }));
+      rows.push(...inserted);
+      return { data: inserted, error: null };
+    }
+
+    throw new Error(`Unsupported operation: ${this.operation}`);
+  }
+}
+
+function createSupabaseMock(seed) {
+  return {
+    db: seed,
+    from(table) {
+      return new MockQuery(seed, table);
+    },
+  };
+}
+
+function createDb() {
+  return {
+    meetings: [
+      {
+        id: "meeting-1",
+        host_id: "host-1",
+        status: "pending",
+        workflow_state: "accepted",
+        scheduled_at: "2026-11-02T18:00:00.000Z",
+        requester_credit_cost: 4,
+        charge_status: "pending",
+      },
+    ],
+    meeting_participants: [
+      { meeting_id: "meeting-1", user_id: "host-1", role: "host", response: "accepted" },
+      { meeting_id: "meeting-1", user_id: "guest-1", role: "guest", response: "accepted" },
+    ],
+    accounts: [
+      { id: "host-1", email: "host@example.com", display_name: "Host One" },
+      { id: "guest-1", email: "guest@example.com", display_name: "Guest One" },
+    ],
+    user_profiles: [
+      { user_id: "host-1", first_name: "Host" },
+      { user_id: "guest-1", first_name: "Guest" },
+    ],
+    notifications: [],
+    meeting_state_events: [],
+  };
+}
+
+function createCancellationDeps(calls) {
+  return {
+    refundConsumedCreditsFn: async (_supabase, userId, amount, meta) => {
+      calls.refunds.push({ userId, amount, actionType: meta.actionType });
+      return { success: true };
+    },
+    restoreStarterTrialMeetingFn: async (_supabase, userId) => {
+      calls.restores.push(userId);
+      return { restored: false };
+    },
+    sendMeetingCancelledEmailFn: async (email) => {
+      calls.emails.push(email);
+      return { success: true };
+    },
+    sendPushNotificationFn: async () => ({ success: true }),
+  };
+}
+
+function cancelRequest() {
+  return {
+    meetingId: "meeting-1",
+    to: "canceled",
+    actor: { userId: "host-1", role: "host" },
+    reason: "Schedule conflict",
+    details: { cancellation: { trigger: "canceled", refundGuest: true } },
+  };
+}
+
+test("transitionMeeting cancels, refunds the guest and records the transition", async () => {
+  const db = createDb();
+  const calls = { refunds: [], restores: [], emails: [] };
+
+  const result = await transitionMeeting(
+    createSupabaseMock(db),
+    cancelRequest(),
+    createCancellationDeps(calls)
+  );
+
+  assert.equal(result.ok, true);
+  assert.equal(result.applied, true);
+  assert.equal(result.from, "accepted");
+  assert.equal(result.outcome.bookingValueRefunded, true);
+  assert.equal(db.meetings[0].status, "canceled");
+  assert.equal(db.meetings[0].workflow_state, "canceled");
+  assert.deepEqual(calls.refunds, [
+    { userId: "guest-1", amount: 4, actionType: "meeting_canceled_refund" },
+  ]);
+  assert.deepEqual(calls.restores, ["guest-1"]);
+  assert.equal(calls.emails.length, 2);
+
+  const timeline = await getMeetingTimeline(createSupabaseMock(db), "meeting-1");
+  assert.equal(timeline.length, 1);
+  assert.equal(timeline[0].actor_id, "host-1");
+  assert.equal(timeline[0].from_state, "accepted");
+  assert.equal(timeline[0].to_state, "canceled");
+  assert.equal(timeline[0].reason, "Schedule conflict");
+});
+
+test("transitionMeeting is a no-op when a transition is retried", async () => {
+  const db = createDb();
+  const calls = { refunds: [], restores: [], emails: [] };
+  const supabase = createSupabaseMock(db);
+
+  await transitionMeeting(supabase, cancelRequest(), createCancellationDeps(calls));
+  const retry = await transitionMeeting(supabase, cancelRequest(), createCancellationDeps(calls));
+
+  assert.equal(retry.ok, true);
+  assert.equal(retry.applied, false);
+  assert.equal(calls.refunds.length, 1);
+  assert.equal(calls.emails.length, 2);
+  assert.equal(db.meeting_state_events.length, 1);
+});
+
+test("transitionMeeting rejects transitions the state machine does not allow", async () => {
+  const db = createDb();
+  db.meetings[0].status = "completed";
+  db.meetings[0].workflow_state = "completed";
+
+  const result = await transitionMeeting(createSupabaseMock(db), cancelRequest());
+
+  assert.equal(result.ok, false);
+  assert.equal(result.code, "invalid_state_transition");
+  assert.equal(result.status, 409);
+  assert.equal(db.meetings[0].workflow_state, "completed");
+  assert.equal(db.meeting_state_events.length, 0);
+});
+
+test("transitionMeeting reverts the state when a required side effect fails", async () => {
+  const db = createDb();
+
+  const result = await transitionMeeting(
+    createSupabaseMock(db),
+    {
+      meetingId: "meeting-1",
+      to: "confirmed",
+      actor: { userId: "admin-1", role: "admin" },
+      reason: "Approved by admin",
+    },
+    {
+      createZoomMeetingFn: async () => ({ success: false, error: "Zoom is unavailable" }),
+    }
+  );
+
+  assert.equal(result.ok, false);
+  assert.equal(result.code, "side_effect_failed");
+  assert.equal(result.message, "Zoom is unavailable");
+  assert.equal(db.meetings[0].status, "pending");
+  assert.equal(db.meetings[0].workflow_state, "accepted");
+  assert.equal(db.meeting_state_events.length, 0);
+});
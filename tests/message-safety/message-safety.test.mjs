@@ -0,0 +1,348 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  DEFAULT_MESSAGE_SAFETY_POLICY,
+  resolveMessageSafetyAction,
+  screenMessageContent,
+} from "../../src/lib/message-safety/screening.ts";
+import {
+  checkMessageSafety,
+  getMessageSafetyPolicy,
+  recordMessageSafetyFlag,
+  reviewMessageSafetyFlag,
+  updateMessageSafetyPolicy,
+} from "../../src/lib/message-safety/pipeline.ts";
+
+const UNIQUE_KEYS = {
+  message_safety_policies: ["category"],
+};
+
+class MockQuery {
+  constructor(db, table) {
+    this.db = db;
+    this.table = table;
+    this.filters = [];
+    this.operation = "select";
+    this.payload = null;
+    this.orderBy = null;
+    this.rowLimit = null;
+  }
+
+  select() {
+    if (this.operation === "update") {
+      this.operation = "update-select";
+    } else if (this.operation !== "insert") {
+      this.operation = "select";
+    }
+    return this;
+  }
+
+  update(payload) {
+    this.operation = "update";
+    this.payload = payload;
+    return this;
+  }
+
+  insert(payload) {
+    this.operation = "insert";
+    this.payload = payload;
+    return this;
+  }
+
+  upsert(payload) {
+    this.operation = "upsert";
+    this.payload = payload;
+    return this;
+  }
+
+  delete() {
+    this.operation = "delete";
+    return this;
+  }
+
+  eq(column, value) {
+    this.filters.push((row) => row[column] === value);
+    return this;
+  }
+
+  in(column, values) {
+    this.filters.push((row) => values.includes(row[column]));
+    return this;
+  }
+
+  order(column, { ascending = true } = {}) {
+    this.orderBy = { column, ascending };
+    return this;
+  }
+
+  limit(count) {
+    this.rowLimit = count;
+    return this;
+  }
+
+  async maybeSingle() {
+    const result = await this.execute();
+    const rows = Array.isArray(result.data) ? result.data : [];
+    return { data: rows[0] || null, error: result.error };
+  }
+
+  async single() {
+    const result = await this.execute();
+    const rows = Array.isArray(result.data) ? result.data : [];
+    return rows[0]
+      ? { data: rows[0], error: null }
+      : { data: null, error: result.error || { code: "PGRST116" } };
+  }
+
+  then(resolve, reject) {
+    return this.execute().then(resolve, reject);
+  }
+
+  async execute() {
+    const rows = (this.db[this.table] ||= []);
+    let matches = rows.filter((row) => this.filters.every((filter) => filter(row)));
+
+    if (this.operation === "select") {
+      if (this.orderBy) {
+        const { column, ascending } = this.orderBy;
+        matches = [...matches].sort((a, b) =>
+          (a[column] > b[column] ? 1 : -1) * (ascending ? 1 : -1)
+        );
+      }
+      if (this.rowLimit !== null) matches = matches.slice(0, this.rowLimit);
+      return { data: matches.map((row) => ({ ...row })), error: null };
+    }
+
+    if (this.operation === "update" || this.operation === "update-select") {
+      for (const row of matches) Object.assign(row, this.payload);
+      return { data: matches.map((row) => ({ ...row })), error: null };
+    }
+
+    if (this.operation === "upsert") {
+      for (const payload of Array.isArray(this.payload) ? this.payload : [this.payload]) {
+        const existing = rows.find((row) => row.category === payload.category);
+        if (existing) Object.assign(existing, payload);
+        else rows.push({ ...payload });
+      }
+      return { data: null, error: null };
+    }
+
+    if (this.operation === "delete") {
+      this.db[this.table] = rows.filter((row) => !matches.includes(row));
+      return { data: null, error: null };
+    }
+
+    const payloads = Array.isArray(this.payload) ? this.payload : [this.payload];
+    const keys = UNIQUE_KEYS[this.table] || [];
+    const clashes = (payload) =>
+      // Like a partial unique index, NULL keys never clash.
+      rows.some((row) => keys.every((key) => payload[key] != null && row[key] === payload[key]));
+    if (keys.length && payloads.some(clashes)) {
+      return { data: null, error: { code: "23505", message: "duplicate key" } };
+    }
+    const inserted = payloads.map((payload, index) => ({
+      id: `${this.table}-${rows.length + index + 1}`,
+      created_at: `2026-07-15T00:00:${String(rows.length + index).padStart(2, "0")}.000Z`,
+      ...payload,
+    }));
+    rows.push(...inserted);
+    return { data: inserted.map((row) => ({ ...row })), error: null };
+  }
+}
+
+const approve = async () => ({ approved: true, violations: [], action: "approve" });
+
+function createFixture() {
+  const db = {
+    message_safety_policies: [],
+    message_safety_flags: [],
+    messages: [
+      { id: "msg-held", match_id: "match-1", sender_id: "user-1", content: "lend me 20k", safety_status: "held" },
+      { id: "msg-blurred", match_id: "match-1", sender_id: "user-1", content: "call 08031234567", safety_status: "blurred" },
+    ],
+  };
+  const supabase = {
+    from(table) {
+      return new MockQuery(db, table);
+    },
+  };
+  return { db, supabase };
+}
+
+function categoriesOf(content) {
+  return screenMessageContent(content).map((signal) => signal.category);
+}
+
+async function flagMessage(supabase, messageId, action, categories) {
+  return recordMessageSafetyFlag(supabase, {
+    messageId,
+    matchId: "match-1",
+    senderId: "user-1",
+    recipientId: "user-2",
+    content: "flagged",
+    check: { action, categories, signals: categories.map((category) => ({ category, match: "x" })) },
+  });
+}
+
+test("ordinary messages pass the screen", () => {
+  assert.deepEqual(categoriesOf("Hi! How was your weekend? I went hiking with 2 friends."), []);
+  assert.deepEqual(categoriesOf("Send me 2 photos from the trip"), []);
+  assert.deepEqual(categoriesOf("See you at 7:30 on 12/08/2026"), []);
+});
+
+test("phone numbers are caught with separators and spelled-out digits", () => {
+  assert.deepEqual(categoriesOf("call me on 0803 123 4567"), ["phone_number"]);
+  assert.deepEqual(categoriesOf("+234-803-123-4567"), ["phone_number"]);
+  assert.deepEqual(
+    categoriesOf("oh eight oh three one two three four five six seven"),
+    ["phone_number"]
+  );
+});
+
+test("bank and crypto details are payment details, not phone numbers", () => {
+  assert.deepEqual(categoriesOf("my acct no 0123456789 at gtbank"), ["payment_details"]);
+  assert.deepEqual(categoriesOf("wallet: 0x52908400098527886E0F7030069857D2E4169EE7"), ["payment_details"]);
+  assert.deepEqual(categoriesOf("IBAN GB29 NWBK 6016 1331 9268 19"), ["payment_details"]);
+  assert.deepEqual(categoriesOf("I invest in bitcoin"), []);
+  assert.deepEqual(
+    categoriesOf("send me usdt, it is for my flight").sort(),
+    ["payment_details", "payment_request"]
+  );
+});
+
+test("requests for money are caught", () => {
+  const [signal] = screenMessageContent("Please can you send me ₦50000 for transport");
+  assert.equal(signal.category, "payment_request");
+  assert.match(signal.match, /send me ₦5/);
+  assert.deepEqual(categoriesOf("buy me an itunes gift card"), ["payment_request"]);
+  assert.deepEqual(categoriesOf("lend me something till friday"), ["payment_request"]);
+});
+
+test("off-platform contact is caught but MatchIndeed links are allowed", () => {
+  assert.deepEqual(categoriesOf("message me at jane.doe@example.com"), ["off_platform_link"]);
+  assert.deepEqual(categoriesOf("let's move to whatsapp"), ["off_platform_link"]);
+  assert.deepEqual(categoriesOf("check https://bit.ly/abc"), ["off_platform_link"]);
+  assert.deepEqual(categoriesOf("my profile is on https://matchindeed.com/profile/1"), []);
+
+  const [signal] = screenMessageContent("mail jane@example.com or visit example.com");
+  assert.equal(signal.match, "jane@example.com");
+});
+
+test("abusive language is caught", () => {
+  assert.deepEqual(categoriesOf("you stupid bitch"), ["abuse"]);
+  assert.deepEqual(categoriesOf("I'll find you and hurt you"), ["abuse"]);
+  assert.deepEqual(categoriesOf("I will kill you"), ["abuse"]);
+});
+
+test("everyday phrases that look like contacts or threats pass", () => {
+  assert.deepEqual(categoriesOf("I'll find you at the entrance"), []);
+  assert.deepEqual(categoriesOf("I will find you a good table"), []);
+  assert.deepEqual(categoriesOf("hi.me again, sorry"), []);
+  assert.deepEqual(categoriesOf("ok.co-workers are calling, talk later"), []);
+  assert.deepEqual(categoriesOf("add me on kik"), ["off_platform_link"]);
+  assert.deepEqual(categoriesOf("visit shop.example.co"), ["off_platform_link"]);
+});
+
+test("the strictest action among the categories wins", () => {
+  const policy = { ...DEFAULT_MESSAGE_SAFETY_POLICY, phone_number: "blur", abuse: "hold" };
+  assert.equal(resolveMessageSafetyAction([], policy), "allow");
+  assert.equal(resolveMessageSafetyAction(["phone_number"], policy), "blur");
+  assert.equal(resolveMessageSafetyAction(["phone_number", "abuse"], policy), "hold");
+  assert.equal(resolveMessageSafetyAction(["abuse", "payment_details"], policy), "block");
+});
+
+test("checking a message applies the stored policy and text moderation", async () => {
+  const { db, supabase } = createFixture();
+
+  const clean = await checkMessageSafety(supabase, "How was your day?", { moderate: approve });
+  assert.deepEqual(clean, { action: "allow", signals: [], categories: [] });
+
+  assert.equal((await checkMessageSafety(supabase, "call 08031234567", { moderate: approve })).action, "blur");
+
+  db.message_safety_policies.push({ category: "phone_number", action: "allow" });
+  assert.equal((await checkMessageSafety(supabase, "call 08031234567", { moderate: approve })).action, "allow");
+
+  const moderated = await checkMessageSafety(supabase, "something hateful", {
+    moderate: async () => ({ approved: false, violations: ["hate"], action: "flag" }),
+  });
+  assert.equal(moderated.action, "hold");
+  assert.deepEqual(moderated.signals, [{ category: "abuse", match: "hate" }]);
+
+  const outage = await checkMessageSafety(supabase, "hello there", {
+    moderate: async () => {
+      throw new Error("Hive down");
+    },
+  });
+  assert.equal(outage.action, "allow");
+});
+
+test("admins can change the policy per category", async () => {
+  const { db, supabase } = createFixture();
+  const policy = await updateMessageSafetyPolicy(supabase, "admin-1", {
+    payment_request: "block",
+    abuse: "not-an-action",
+  });
+
+  assert.equal(policy.payment_request, "block");
+  assert.equal(policy.abuse, DEFAULT_MESSAGE_SAFETY_POLICY.abuse);
+  assert.deepEqual(db.message_safety_policies.map((row) => row.category), ["payment_request"]);
+  assert.equal(db.message_safety_policies[0].updated_by, "admin-1");
+  assert.deepEqual(await getMessageSafetyPolicy(supabase), policy);
+});
+
+test("approving a held message releases it to the recipient", async () => {
+  const { db, supabase } = createFixture();
+  const flag = await flagMessage(supabase, "msg-held", "hold", ["payment_request"]);
+  assert.equal(flag.status, "pending");
+
+  const result = await reviewMessageSafetyFlag(supabase, {
+    flagId: flag.id,
+    decision: "approve",
+    adminUserId: "admin-1",
+    note: "Joke between friends",
+  });
+
+  assert.equal(result.ok, true);
+  assert.equal(result.released, true);
+  assert.equal(result.flag.status, "approved");
+  assert.equal(result.flag.reviewed_by, "admin-1");
+  assert.equal(db.messages.find((message) => message.id === "msg-held").safety_status, "clear");
+
+  const again = await reviewMessageSafetyFlag(supabase, {
+    flagId: flag.id,
+    decision: "remove",
+    adminUserId: "admin-2",
+  });
+  assert.equal(again.ok, false);
+  assert.equal(again.code, "flag_reviewed");
+  assert.equal(again.status, 409);
+});
+
+test("removing a flagged message hides it and blocked flags only close", async () => {
+  const { db, supabase } = createFixture();
+  const blurred = await flagMessage(supabase, "msg-blurred", "blur", ["phone_number"]);
+  const removed = await reviewMessageSafetyFlag(supabase, {
+    flagId: blurred.id,
+    decision: "remove",
+    adminUserId: "admin-1",
+  });
+  assert.equal(removed.ok, true);
+  assert.equal(removed.released, false);
+  assert.equal(db.messages.find((message) => message.id === "msg-blurred").safety_status, "removed");
+
+  const blocked = await flagMessage(supabase, null, "block", ["payment_details"]);
+  const dismissed = await reviewMessageSafetyFlag(supabase, {
+    flagId: blocked.id,
+    decision: "approve",
+    adminUserId: "admin-1",
+  });
+  assert.equal(dismissed.ok, true);
+  assert.equal(dismissed.released, false);
+
+  const missing = await reviewMessageSafetyFlag(supabase, {
+    flagId: "nope",
+    decision: "approve",
+    adminUserId: "admin-1",
+  });
+  assert.equal(missing.code, "flag_not_found");
+});
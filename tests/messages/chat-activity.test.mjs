@@ -0,0 +1,201 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { messageReceiptState } from "../../src/lib/messages/message-types.ts";
+import {
+  getChatActivity,
+  markMessagesDeliveredSafely,
+  setTypingState,
+} from "../../src/lib/messages/chat-activity.ts";
+
+const UNIQUE_KEYS = {
+  chat_typing_states: ["match_id", "user_id"],
+};
+
+class MockQuery {
+  constructor(db, table) {
+    this.db = db;
+    this.table = table;
+    this.filters = [];
+    this.operation = "select";
+    this.payload = null;
+    this.orderBy = null;
+    this.rowLimit = null;
+  }
+
+  select() {
+    if (this.operation !== "update") this.operation = "select";
+    return this;
+  }
+
+  update(payload) {
+    this.operation = "update";
+    this.payload = payload;
+    return this;
+  }
+
+  upsert(payload) {
+    this.operation = "upsert";
+    this.payload = payload;
+    return this;
+  }
+
+  eq(column, value) {
+    this.filters.push((row) => row[column] === value);
+    return this;
+  }
+
+  neq(column, value) {
+    this.filters.push((row) => row[column] !== value);
+    return this;
+  }
+
+  is(column, value) {
+    this.filters.push((row) => (row[column] ?? null) === value);
+    return this;
+  }
+
+  in(column, values) {
+    this.filters.push((row) => values.includes(row[column]));
+    return this;
+  }
+
+  order(column, { ascending = true } = {}) {
+    this.orderBy = { column, ascending };
+    return this;
+  }
+
+  limit(count) {
+    this.rowLimit = count;
+    return this;
+  }
+
+  async maybeSingle() {
+    const result = await this.execute();
+    const rows = Array.isArray(result.data) ? result.data : [];
+    return { data: rows[0] || null, error: result.error };
+  }
+
+  then(resolve, reject) {
+    return this.execute().then(resolve, reject);
+  }
+
+  async execute() {
+    const rows = (this.db[this.table] ||= []);
+    let matches = rows.filter((row) => this.filters.every((filter) => filter(row)));
+
+    if (this.operation === "select") {
+      if (this.orderBy) {
+        const { column, ascending } = this.orderBy;
+        matches = [...matches].sort((a, b) =>
+          (a[column] > b[column] ? 1 : -1) * (ascending ? 1 : -1)
+        );
+      }
+      if (this.rowLimit !== null) matches = matches.slice(0, this.rowLimit);
+      return { data: matches.map((row) => ({ ...row })), error: null };
+    }
+
+    if (this.operation === "update") {
+      for (const row of matches) Object.assign(row, this.payload);
+      return { data: null, error: null };
+    }
+
+    const keys = UNIQUE_KEYS[this.table] || [];
+    for (const payload of Array.isArray(this.payload) ? this.payload : [this.payload]) {
+      const existing = rows.find((row) => keys.every((key) => row[key] === payload[key]));
+      if (existing) Object.assign(existing, payload);
+      else rows.push({ ...payload });
+    }
+    return { data: null, error: null };
+  }
+}
+
+const NOW = new Date("2026-07-21T12:00:00.000Z");
+
+function createFixture() {
+  const db = {
+    user_matches: [
+      { id: "match-1", user1_id: "user-1", user2_id: "user-2", last_message_at: "2026-07-21T11:59:00.000Z" },
+      { id: "match-2", user1_id: "user-2", user2_id: "user-3", last_message_at: null },
+    ],
+    accounts: [
+      { id: "user-1", last_active_at: "2026-07-21T11:58:00.000Z" },
+      { id: "user-2", last_active_at: "2026-07-21T11:20:00.000Z" },
+    ],
+    messages: [
+      { id: "m1", match_id: "match-1", sender_id: "user-1", created_at: "2026-07-21T11:50:00.000Z", safety_status: "clear", delivered_at: null, read_at: null },
+      { id: "m2", match_id: "match-1", sender_id: "user-2", created_at: "2026-07-21T11:55:00.000Z", safety_status: "clear", delivered_at: null, read_at: null },
+      { id: "m3", match_id: "match-1", sender_id: "user-2", created_at: "2026-07-21T11:56:00.000Z", safety_status: "held", delivered_at: null, read_at: null },
+      { id: "m4", match_id: "match-1", sender_id: "user-1", created_at: "2026-07-21T11:59:00.000Z", safety_status: "clear", delivered_at: "2026-07-21T11:59:05.000Z", read_at: null },
+      { id: "m5", match_id: "match-2", sender_id: "user-3", created_at: "2026-07-21T11:00:00.000Z", safety_status: "clear", delivered_at: null, read_at: null },
+    ],
+    chat_typing_states: [],
+  };
+  const supabase = {
+    from(table) {
+      return new MockQuery(db, table);
+    },
+  };
+  return { db, supabase };
+}
+
+test("receipts move from sent to delivered to read", () => {
+  assert.equal(messageReceiptState({ delivered_at: null, read_at: null }), "sent");
+  assert.equal(messageReceiptState({ delivered_at: "2026-07-21T11:00:00.000Z", read_at: null }), "delivered");
+  assert.equal(messageReceiptState({ delivered_at: null, read_at: "2026-07-21T11:00:00.000Z" }), "read");
+});
+
+test("fetching messages marks only the partner's visible messages delivered", async () => {
+  const { db, supabase } = createFixture();
+  await markMessagesDeliveredSafely(supabase, { recipientId: "user-1", matchIds: ["match-1"], now: NOW });
+
+  const deliveredAt = Object.fromEntries(db.messages.map((m) => [m.id, m.delivered_at]));
+  assert.equal(deliveredAt.m2, NOW.toISOString());
+  assert.equal(deliveredAt.m1, null); // own message
+  assert.equal(deliveredAt.m3, null); // held for review
+  assert.equal(deliveredAt.m4, "2026-07-21T11:59:05.000Z");
+  assert.equal(deliveredAt.m5, null); // another conversation
+});
+
+test("the activity poll reports typing, last seen and the viewer's receipts", async () => {
+  const { db, supabase } = createFixture();
+  await setTypingState(supabase, { matchId: "match-1", userId: "user-2", typing: true, now: NOW });
+
+  const activity = await getChatActivity(supabase, {
+    matchId: "match-1",
+    viewerId: "user-1",
+    now: new Date(NOW.getTime() + 3000),
+  });
+
+  assert.deepEqual(activity.partner, {
+    typing: true,
+    online: true,
+    last_active_at: "2026-07-21T11:20:00.000Z",
+  });
+  assert.equal(activity.last_message_at, "2026-07-21T11:59:00.000Z");
+  assert.deepEqual(activity.receipts.map((r) => r.id), ["m4", "m1"]);
+  assert.equal(db.messages.find((m) => m.id === "m2").delivered_at, new Date(NOW.getTime() + 3000).toISOString());
+});
+
+test("typing expires on its own and can be cleared", async () => {
+  const { supabase } = createFixture();
+  await setTypingState(supabase, { matchId: "match-1", userId: "user-1", typing: true, now: NOW });
+
+  const later = await getChatActivity(supabase, {
+    matchId: "match-1",
+    viewerId: "user-2",
+    now: new Date(NOW.getTime() + 7000),
+  });
+  assert.equal(later.partner.typing, false);
+  assert.equal(later.partner.online, true); // heartbeat two minutes ago
+
+  await setTypingState(supabase, { matchId: "match-1", userId: "user-1", typing: true, now: NOW });
+  await setTypingState(supabase, { matchId: "match-1", userId: "user-1", typing: false, now: NOW });
+  const cleared = await getChatActivity(supabase, { matchId: "match-1", viewerId: "user-2", now: NOW });
+  assert.equal(cleared.partner.typing, false);
+});
+
+test("members outside the match get no activity", async () => {
+  const { supabase } = createFixture();
+  assert.equal(await getChatActivity(supabase, { matchId: "match-1", viewerId: "user-3", now: NOW }), null);
+  assert.equal(await getChatActivity(supabase, { matchId: "missing", viewerId: "user-1", now: NOW }), null);
+});
@@ -0,0 +1,399 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  canEditMessage,
+  canUnsendMessage,
+} from "../../src/lib/messages/message-types.ts";
+import {
+  attachReplyPreviews,
+  editMessage,
+  getHiddenMessageIds,
+  hideMessageForUser,
+  toggleMessageReaction,
+  unsendMessage,
+  validateReplyTarget,
+} from "../../src/lib/messages/interactions.ts";
+
+const UNIQUE_KEYS = {
+  message_hidden: ["message_id", "user_id"],
+  message_reactions: ["message_id", "user_id"],
+};
+
+class MockQuery {
+  constructor(db, table) {
+    this.db = db;
+    this.table = table;
+    this.filters = [];
+    this.operation = "select";
+    this.payload = null;
+    this.options = {};
+    this.orderBy = null;
+  }
+
+  select() {
+    if (this.operation === "update") {
+      this.operation = "update-select";
+    } else if (this.operation !== "insert") {
+      this.operation = "select";
+    }
+    return this;
+  }
+
+  update(payload) {
+    this.operation = "update";
+    this.payload = payload;
+    return this;
+  }
+
+  insert(payload) {
+    this.operation = "insert";
+    this.payload = payload;
+    return this;
+  }
+
+  upsert(payload, options = {}) {
+    this.operation = "upsert";
+    this.payload = payload;
+    this.options = options;
+    return this;
+  }
+
+  delete() {
+    this.operation = "delete";
+    return this;
+  }
+
+  eq(column, value) {
+    this.filters.push((row) => row[column] === value);
+    return this;
+  }
+
+  is(column, value) {
+    this.filters.push((row) => (row[column] ?? null) === value);
+    return this;
+  }
+
+  in(column, values) {
+    this.filters.push((row) => values.includes(row[column]));
+    return this;
+  }
+
+  order(column, { ascending = true } = {}) {
+    this.orderBy = { column, ascending };
+    return this;
+  }
+
+  async maybeSingle() {
+    const result = await this.execute();
+    const rows = Array.isArray(result.data) ? result.data : [];
+    return { data: rows[0] || null, error: result.error };
+  }
+
+  async single() {
+    const result = await this.execute();
+    const rows = Array.isArray(result.data) ? result.data : [];
+    return rows[0]
+      ? { data: rows[0], error: null }
+      : { data: null, error: result.error || { code: "PGRST116" } };
+  }
+
+  then(resolve, reject) {
+    return this.execute().then(resolve, reject);
+  }
+
+  async execute() {
+    const rows = (this.db[this.table] ||= []);
+    let matches = rows.filter((row) => this.filters.every((filter) => filter(row)));
+
+    if (this.operation === "select") {
+      if (this.orderBy) {
+        const { column, ascending } = this.orderBy;
+        matches = [...matches].sort((a, b) =>
+          (a[column] > b[column] ? 1 : -1) * (ascending ? 1 : -1)
+        );
+      }
+      return { data: matches.map((row) => ({ ...row })), error: null };
+    }
+
+    if (this.operation === "update" || this.operation === "update-select") {
+      for (const row of matches) Object.assign(row, this.payload);
+      return { data: matches.map((row) => ({ ...row })), error: null };
+    }
+
+    if (this.operation === "delete") {
+      this.db[this.table] = rows.filter((row) => !matches.includes(row));
+      return { data: null, error: null };
+    }
+
+    const keys = UNIQUE_KEYS[this.table] || [];
+    const payloads = Array.isArray(this.payload) ? this.payload : [this.payload];
+    const findExisting = (payload) =>
+      keys.length ? rows.find((row) => keys.every((key) => row[key] === payload[key])) : undefined;
+
+    if (this.operation === "upsert") {
+      for (const payload of payloads) {
+        const existing = findExisting(payload);
+        if (existing && !this.options.ignoreDuplicates) Object.assign(existing, payload);
+        else if (!existing) rows.push({ created_at: "2026-07-20T10:00:00.000Z", ...payload });
+      }
+      return { data: null, error: null };
+    }
+
+    if (payloads.some(findExisting)) {
+      return { data: null, error: { code: "23505", message: "duplicate key" } };
+    }
+    const inserted = payloads.map((payload, index) => ({
+      id: `${this.table}-${rows.length + index + 1}`,
+      created_at: `2026-07-20T10:00:${String(rows.length + index).padStart(2, "0")}.000Z`,
+      ...payload,
+    }));
+    rows.push(...inserted);
+    return { data: inserted.map((row) => ({ ...row })), error: null };
+  }
+}
+
+const NOW = new Date("2026-07-20T10:10:00.000Z");
+
+function message(overrides) {
+  return {
+    match_id: "match-1",
+    sender_id: "user-1",
+    message_type: "text",
+    media_path: null,
+    reply_to_id: null,
+    created_at: "2026-07-20T10:05:00.000Z",
+    edited_at: null,
+    deleted_at: null,
+    safety_status: "clear",
+    safety_categories: [],
+    reactions: {},
+    ...overrides,
+  };
+}
+
+function createFixture() {
+  const db = {
+    user_matches: [
+      {
+        id: "match-1",
+        user1_id: "user-1",
+        user2_id: "user-2",
+        last_message_at: "2026-07-20T10:05:00.000Z",
+        last_message_preview: "See you at 8?",
+      },
+    ],
+    messages: [
+      message({ id: "msg-1", content: "Are you free on Friday?", created_at: "2026-07-20T09:00:00.000Z" }),
+      message({ id: "msg-2", content: "See you at 8?" }),
+      message({ id: "msg-photo", message_type: "image", content: "Sent a photo", media_path: "match-1/user-1/image_1.jpg" }),
+      message({ id: "msg-held", sender_id: "user-2", content: "lend me 20k", safety_status: "held" }),
+      message({ id: "msg-other", match_id: "match-2", content: "elsewhere" }),
+    ],
+    message_revisions: [],
+    message_hidden: [],
+    message_reactions: [],
+    message_safety_flags: [],
+  };
+  const supabase = {
+    from(table) {
+      return new MockQuery(db, table);
+    },
+  };
+  return { db, supabase };
+}
+
+const clearCheck = async () => ({ action: "allow", signals: [], categories: [] });
+
+test("senders can edit text for 15 minutes and unsend for an hour", () => {
+  const sent = message({ id: "m", content: "hi", created_at: "2026-07-20T10:00:00.000Z" });
+
+  assert.equal(canEditMessage(sent, "user-1", new Date("2026-07-20T10:14:00.000Z")), true);
+  assert.equal(canEditMessage(sent, "user-1", new Date("2026-07-20T10:16:00.000Z")), false);
+  assert.equal(canEditMessage(sent, "user-2", new Date("2026-07-20T10:01:00.000Z")), false);
+  assert.equal(canEditMessage({ ...sent, message_type: "image" }, "user-1", new Date("2026-07-20T10:01:00.000Z")), false);
+
+  assert.equal(canUnsendMessage(sent, "user-1", new Date("2026-07-20T10:59:00.000Z")), true);
+  assert.equal(canUnsendMessage(sent, "user-1", new Date("2026-07-20T11:01:00.000Z")), false);
+  assert.equal(
+    canUnsendMessage({ ...sent, message_type: "meeting_proposal" }, "user-1", new Date("2026-07-20T10:01:00.000Z")),
+    false
+  );
+  assert.equal(
+    canUnsendMessage({ ...sent, deleted_at: "2026-07-20T10:01:00.000Z" }, "user-1", new Date("2026-07-20T10:02:00.000Z")),
+    false
+  );
+});
+
+test("editing keeps the previous text and refreshes the latest preview", async () => {
+  const { db, supabase } = createFixture();
+  const result = await editMessage(
+    supabase,
+    { messageId: "msg-2", userId: "user-1", content: "  See you at 8:30?  ", now: NOW },
+    { check: clearCheck }
+  );
+
+  assert.equal(result.ok, true);
+  assert.equal(result.message.content, "See you at 8:30?");
+  assert.equal(result.message.edited_at, NOW.toISOString());
+  assert.deepEqual(
+    db.message_revisions.map(({ message_id, kind, previous_content, revised_by }) => ({
+      message_id,
+      kind,
+      previous_content,
+      revised_by,
+    })),
+    [{ message_id: "msg-2", kind: "edit", previous_content: "See you at 8?", revised_by: "user-1" }]
+  );
+  assert.equal(db.user_matches[0].last_message_preview, "See you at 8:30?");
+
+  // An older message keeps the conversation preview as it is.
+  await editMessage(
+    supabase,
+    { messageId: "msg-1", userId: "user-1", content: "Are you free on Saturday?", now: new Date("2026-07-20T09:05:00.000Z") },
+    { check: clearCheck }
+  );
+  assert.equal(db.user_matches[0].last_message_preview, "See you at 8:30?");
+});
+
+test("edits are limited to the sender's own recent text messages", async () => {
+  const { supabase } = createFixture();
+
+  const partner = await editMessage(supabase, { messageId: "msg-2", userId: "user-2", content: "hijack", now: NOW }, { check: clearCheck });
+  assert.equal(partner.code, "message_not_editable");
+  assert.equal(partner.status, 403);
+
+  const late = await editMessage(supabase, { messageId: "msg-1", userId: "user-1", content: "too late", now: NOW }, { check: clearCheck });
+  assert.equal(late.code, "message_not_editable");
+
+  const outsider = await editMessage(supabase, { messageId: "msg-2", userId: "user-3", content: "hi", now: NOW }, { check: clearCheck });
+  assert.equal(outsider.code, "message_not_found");
+  assert.equal(outsider.status, 404);
+
+  const empty = await editMessage(supabase, { messageId: "msg-2", userId: "user-1", content: "   ", now: NOW }, { check: clearCheck });
+  assert.equal(empty.code, "invalid_content");
+});
+
+test("edits are screened again and can only make a message stricter", async () => {
+  const { db, supabase } = createFixture();
+
+  const blocked = await editMessage(
+    supabase,
+    { messageId: "msg-2", userId: "user-1", content: "my account is 0123456789", now: NOW },
+    { check: async () => ({ action: "block", signals: [], categories: ["payment_details"] }) }
+  );
+  assert.equal(blocked.ok, false);
+  assert.equal(blocked.code, "message_blocked");
+  assert.equal(blocked.status, 422);
+  assert.match(blocked.message, /bank or crypto details/);
+  assert.equal(db.messages.find((m) => m.id === "msg-2").content, "See you at 8?");
+  assert.equal(db.message_revisions.length, 0);
+  assert.equal(db.message_safety_flags.length, 1);
+
+  const blurred = await editMessage(
+    supabase,
+    { messageId: "msg-2", userId: "user-1", content: "call 0803 123 4567", now: NOW },
+    { check: async () => ({ action: "blur", signals: [], categories: ["phone_number"] }) }
+  );
+  assert.equal(blurred.message.safety_status, "blurred");
+  assert.deepEqual(blurred.message.safety_categories, ["phone_number"]);
+  assert.equal(db.message_safety_flags.at(-1).message_id, "msg-2");
+  assert.equal(db.user_matches[0].last_message_preview, "Sent you a message. Open the chat to view it.");
+
+  const cleaned = await editMessage(
+    supabase,
+    { messageId: "msg-2", userId: "user-1", content: "see you at 8", now: NOW },
+    { check: clearCheck }
+  );
+  assert.equal(cleaned.message.safety_status, "blurred");
+});
+
+test("unsending clears the message for both members but keeps a revision", async () => {
+  const { db, supabase } = createFixture();
+  db.message_reactions.push({ message_id: "msg-photo", user_id: "user-2", emoji: "❤️", created_at: "2026-07-20T10:06:00.000Z" });
+
+  const result = await unsendMessage(supabase, { messageId: "msg-photo", userId: "user-1", now: NOW });
+
+  assert.equal(result.ok, true);
+  assert.equal(result.message.content, "");
+  assert.equal(result.message.media_path, null);
+  assert.equal(result.message.deleted_at, NOW.toISOString());
+  assert.deepEqual(result.message.reactions, {});
+  assert.equal(db.message_reactions.length, 0);
+  assert.equal(db.message_revisions[0].kind, "unsend");
+  assert.equal(db.message_revisions[0].previous_media_path, "match-1/user-1/image_1.jpg");
+  assert.equal(db.user_matches[0].last_message_preview, "Message unsent");
+
+  const again = await unsendMessage(supabase, { messageId: "msg-photo", userId: "user-1", now: NOW });
+  assert.equal(again.code, "message_not_unsendable");
+
+  const partner = await unsendMessage(supabase, { messageId: "msg-2", userId: "user-2", now: NOW });
+  assert.equal(partner.code, "message_not_unsendable");
+});
+
+test("reacting again toggles the reaction and another emoji replaces it", async () => {
+  const { db, supabase } = createFixture();
+
+  const first = await toggleMessageReaction(supabase, { messageId: "msg-2", userId: "user-2", reaction: "❤️" });
+  assert.deepEqual(first.reactions, { "❤️": ["user-2"] });
+
+  await toggleMessageReaction(supabase, { messageId: "msg-2", userId: "user-1", reaction: "❤️" });
+  const replaced = await toggleMessageReaction(supabase, { messageId: "msg-2", userId: "user-2", reaction: "😂" });
+  assert.deepEqual(replaced.reactions, { "❤️": ["user-1"], "😂": ["user-2"] });
+  assert.deepEqual(db.messages.find((m) => m.id === "msg-2").reactions, replaced.reactions);
+
+  const removed = await toggleMessageReaction(supabase, { messageId: "msg-2", userId: "user-2", reaction: "😂" });
+  assert.deepEqual(removed.reactions, { "❤️": ["user-1"] });
+
+  const invalid = await toggleMessageReaction(supabase, { messageId: "msg-2", userId: "user-2", reaction: "🍆" });
+  assert.equal(invalid.code, "invalid_reaction");
+
+  // Held messages are not visible to the recipient, so they can't react.
+  const hidden = await toggleMessageReaction(supabase, { messageId: "msg-held", userId: "user-1", reaction: "👍" });
+  assert.equal(hidden.code, "message_not_found");
+});
+
+test("delete for me hides a message only for that member", async () => {
+  const { supabase } = createFixture();
+
+  assert.deepEqual(await hideMessageForUser(supabase, { messageId: "msg-2", userId: "user-2" }), { ok: true });
+  assert.deepEqual(await hideMessageForUser(supabase, { messageId: "msg-2", userId: "user-2" }), { ok: true });
+
+  assert.deepEqual([...(await getHiddenMessageIds(supabase, "user-2", ["msg-1", "msg-2"]))], ["msg-2"]);
+  assert.equal((await getHiddenMessageIds(supabase, "user-1", ["msg-1", "msg-2"])).size, 0);
+
+  const outsider = await hideMessageForUser(supabase, { messageId: "msg-other", userId: "user-2" });
+  assert.equal(outsider.code, "message_not_found");
+});
+
+test("replies must point at a visible message in the same chat", async () => {
+  const { db, supabase } = createFixture();
+  db.messages.push(message({ id: "msg-gone", content: "", deleted_at: "2026-07-20T10:06:00.000Z" }));
+
+  assert.deepEqual(await validateReplyTarget(supabase, { matchId: "match-1", replyToId: "msg-2", userId: "user-2" }), { ok: true });
+  assert.equal((await validateReplyTarget(supabase, { matchId: "match-1", replyToId: "msg-other", userId: "user-1" })).code, "invalid_reply");
+  assert.equal((await validateReplyTarget(supabase, { matchId: "match-1", replyToId: "msg-held", userId: "user-1" })).code, "invalid_reply");
+  assert.equal((await validateReplyTarget(supabase, { matchId: "match-1", replyToId: "msg-gone", userId: "user-2" })).code, "invalid_reply");
+  assert.equal((await validateReplyTarget(supabase, { matchId: "match-1", replyToId: "missing", userId: "user-2" })).code, "invalid_reply");
+});
+
+test("reply previews never leak unsent or held content", async () => {
+  const { db, supabase } = createFixture();
+  db.messages.find((m) => m.id === "msg-1").deleted_at = "2026-07-20T10:06:00.000Z";
+
+  const replies = [
+    { id: "r1", reply_to_id: "msg-1" },
+    { id: "r2", reply_to_id: "msg-2" },
+    { id: "r3", reply_to_id: "msg-photo" },
+    { id: "r4", reply_to_id: "msg-held" },
+    { id: "r5", reply_to_id: null },
+  ];
+
+  const forRecipient = await attachReplyPreviews(supabase, replies, "user-1");
+  assert.deepEqual(
+    forRecipient.map((reply) => reply.reply_to?.preview ?? null),
+    ["Message unsent", "See you at 8?", "Sent a photo", "Message unavailable", null]
+  );
+
+  const forSender = await attachReplyPreviews(supabase, [{ id: "r4", reply_to_id: "msg-held" }], "user-2");
+  assert.equal(forSender[0].reply_to.preview, "lend me 20k");
+});
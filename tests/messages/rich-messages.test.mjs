@@ -0,0 +1,206 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { validateVoiceNote } from "../../src/lib/messages/message-types.ts";
+import {
+  attachChatMessageExtras,
+  CHAT_MEDIA_BUCKET,
+  uploadChatMedia,
+} from "../../src/lib/messages/rich-messages.ts";
+
+class MockQuery {
+  constructor(db, table) {
+    this.db = db;
+    this.table = table;
+    this.filters = [];
+  }
+
+  select() {
+    return this;
+  }
+
+  in(column, values) {
+    this.filters.push((row) => values.includes(row[column]));
+    return this;
+  }
+
+  then(resolve, reject) {
+    const rows = (this.db[this.table] ||= []);
+    const matches = rows.filter((row) => this.filters.every((filter) => filter(row)));
+    return Promise.resolve({ data: matches.map((row) => ({ ...row })), error: null }).then(resolve, reject);
+  }
+}
+
+class MockBucket {
+  constructor(objects, bucket) {
+    this.objects = objects;
+    this.bucket = bucket;
+  }
+
+  async upload(path, bytes, options) {
+    this.objects.set(`${this.bucket}/${path}`, { bytes, contentType: options.contentType });
+    return { data: { path }, error: null };
+  }
+
+  async createSignedUrl(path, expiresIn) {
+    return { data: { signedUrl: `https://signed.test/${this.bucket}/${path}?ttl=${expiresIn}` }, error: null };
+  }
+
+  async createSignedUrls(paths, expiresIn) {
+    return {
+      data: paths
+        .filter((path) => this.objects.has(`${this.bucket}/${path}`))
+        .map((path) => ({ path, signedUrl: `https://signed.test/${this.bucket}/${path}?ttl=${expiresIn}`, error: null })),
+      error: null,
+    };
+  }
+
+  async remove(paths) {
+    for (const path of paths) this.objects.delete(`${this.bucket}/${path}`);
+    return { data: [], error: null };
+  }
+}
+
+function createFixture() {
+  const db = {
+    meetings: [
+      { id: "meeting-1", status: "pending", workflow_state: "requested", scheduled_at: "2026-08-01T18:00:00.000Z", host_id: "user-2" },
+    ],
+  };
+  const objects = new Map();
+  const supabase = {
+    from(table) {
+      return new MockQuery(db, table);
+    },
+    storage: {
+      from(bucket) {
+        return new MockBucket(objects, bucket);
+      },
+    },
+  };
+  return { db, objects, supabase };
+}
+
+const NOW = new Date("2026-07-20T10:00:00.000Z");
+
+function photo(name = "IMG_2044.jpg") {
+  return new File([new Uint8Array(64 * 1024)], name, { type: "image/jpeg" });
+}
+
+function voiceNote(type = "audio/webm;codecs=opus", size = 32 * 1024) {
+  return new File([new Uint8Array(size)], "voice-note.webm", { type });
+}
+
+const approved = async () => ({ status: "approved", reason: null, signals: [], checksum: "abc" });
+
+test("voice notes must be short recordings in a supported format", () => {
+  assert.deepEqual(validateVoiceNote(voiceNote(), 42), { valid: true });
+  assert.equal(validateVoiceNote(voiceNote("video/mp4"), 42).valid, false);
+  assert.equal(validateVoiceNote(voiceNote(undefined, 3 * 1024 * 1024), 42).valid, false);
+  assert.equal(validateVoiceNote(voiceNote(), null).valid, false);
+  assert.match(validateVoiceNote(voiceNote(), 121).error, /up to 2 minutes/);
+});
+
+test("an approved chat photo is stored under the match and sender", async () => {
+  const { objects, supabase } = createFixture();
+  const checked = [];
+  const result = await uploadChatMedia(
+    supabase,
+    { matchId: "match-1", senderId: "user-1", kind: "image", file: photo(), now: NOW },
+    {
+      moderatePhoto: async (file, options) => {
+        checked.push(options.publicUrl);
+        return approved();
+      },
+    }
+  );
+
+  assert.equal(result.ok, true);
+  assert.equal(result.path, `match-1/user-1/image_${NOW.getTime()}.jpg`);
+  assert.equal(result.content, "Sent a photo");
+  assert.equal(result.durationSeconds, null);
+  assert.ok(objects.has(`${CHAT_MEDIA_BUCKET}/${result.path}`));
+  assert.match(checked[0], /^https:\/\/signed\.test\/chat-media\/match-1\/user-1\//);
+});
+
+test("a photo rejected by moderation is deleted again", async () => {
+  const { objects, supabase } = createFixture();
+  const result = await uploadChatMedia(
+    supabase,
+    { matchId: "match-1", senderId: "user-1", kind: "image", file: photo(), now: NOW },
+    {
+      moderatePhoto: async () => ({
+        status: "rejected",
+        reason: "This image violates photo safety rules.",
+        signals: [],
+        checksum: "abc",
+      }),
+    }
+  );
+
+  assert.equal(result.ok, false);
+  assert.equal(result.status, 422);
+  assert.equal(result.code, "photo_rejected");
+  assert.equal(result.message, "This image violates photo safety rules.");
+  assert.equal(objects.size, 0);
+});
+
+test("invalid uploads are refused before anything is stored", async () => {
+  const { objects, supabase } = createFixture();
+  const wrongType = await uploadChatMedia(supabase, {
+    matchId: "match-1",
+    senderId: "user-1",
+    kind: "image",
+    file: new File([new Uint8Array(10)], "notes.pdf", { type: "application/pdf" }),
+  });
+  const tooLong = await uploadChatMedia(supabase, {
+    matchId: "match-1",
+    senderId: "user-1",
+    kind: "voice",
+    file: voiceNote(),
+    durationSeconds: 300,
+  });
+
+  assert.equal(wrongType.code, "invalid_media");
+  assert.equal(tooLong.code, "invalid_media");
+  assert.equal(objects.size, 0);
+});
+
+test("voice notes keep their rounded length", async () => {
+  const { supabase } = createFixture();
+  const result = await uploadChatMedia(supabase, {
+    matchId: "match-1",
+    senderId: "user-2",
+    kind: "voice",
+    file: voiceNote(),
+    durationSeconds: 14.6,
+    now: NOW,
+  });
+
+  assert.equal(result.ok, true);
+  assert.equal(result.path, `match-1/user-2/voice_${NOW.getTime()}.webm`);
+  assert.equal(result.content, "Sent a voice note");
+  assert.equal(result.durationSeconds, 15);
+});
+
+test("messages get signed media URLs and their proposed meeting", async () => {
+  const { supabase } = createFixture();
+  const upload = await uploadChatMedia(
+    supabase,
+    { matchId: "match-1", senderId: "user-1", kind: "image", file: photo(), now: NOW },
+    { moderatePhoto: approved }
+  );
+
+  const [text, image, proposal, missing] = await attachChatMessageExtras(supabase, [
+    { id: "m1", message_type: "text", media_path: null, meeting_id: null },
+    { id: "m2", message_type: "image", media_path: upload.path, meeting_id: null },
+    { id: "m3", message_type: "meeting_proposal", media_path: null, meeting_id: "meeting-1" },
+    { id: "m4", message_type: "image", media_path: "match-1/user-1/gone.jpg", meeting_id: null },
+  ]);
+
+  assert.equal(text.media_url, null);
+  assert.equal(text.meeting, null);
+  assert.match(image.media_url, /chat-media\/match-1\/user-1\/image_.*\?ttl=3600$/);
+  assert.equal(proposal.meeting.status, "pending");
+  assert.equal(proposal.meeting.workflow_state, "requested");
+  assert.equal(missing.media_url, null);
+});
@@ -6,8 +6,8 @@ import {
   parseCheckoutIntent,
 } from "../../src/lib/payments/checkout-intent.ts";
 
-test("subscription checkout supports the two active currencies", () => {
-  for (const currency of ["NGN", "USD"]) {
+test("subscription checkout supports every listed currency", () => {
+  for (const currency of ["NGN", "USD", "GHS", "KES", "ZAR", "GBP", "EUR"]) {
     const url = buildCheckoutUrl({
       type: "subscription",
       tier: "basic",
@@ -25,9 +25,9 @@ test("subscription checkout supports the two active currencies", () => {
   }
 });
 
-test("GBP checkout links are rejected for new purchases", () => {
+test("unlisted currencies are rejected for new purchases", () => {
   const parsed = parseCheckoutIntent(
-    new URLSearchParams("type=subscription&tier=basic&currency=GBP")
+    new URLSearchParams("type=subscription&tier=basic&currency=JPY")
   );
 
   assert.deepEqual(parsed, {
@@ -56,3 +56,68 @@ test("wallet and credit checkout amounts stay bound to their currency", () => {
     },
   });
 });
+
+test("wallet and credit checkout is limited to NGN and USD", () => {
+  const parsed = parseCheckoutIntent(
+    new URLSearchParams("type=wallet_topup&amountCents=5000&currency=GHS")
+  );
+
+  assert.equal(parsed.ok, false);
+  assert.equal(parsed.returnPath, "/dashboard/wallet");
+});
+
+test("gift checkout round-trips the recipient and message", () => {
+  const url = buildCheckoutUrl({
+    type: "gift",
+    giftKind: "subscription",
+    tier: "premium",
+    currency: "KES",
+    recipientEmail: "friend@example.com",
+    message: "Happy birthday!",
+  });
+  const parsed = parseCheckoutIntent(new URL(url, "https://matchindeed.com").searchParams);
+
+  assert.deepEqual(parsed, {
+    ok: true,
+    intent: {
+      type: "gift",
+      giftKind: "subscription",
+      tier: "premium",
+      currency: "KES",
+      recipientEmail: "friend@example.com",
+      message: "Happy birthday!",
+    },
+  });
+});
+
+test("credit gifts need a wallet currency and a valid credit count", () => {
+  const inGbp = parseCheckoutIntent(
+    new URLSearchParams("type=gift&giftKind=credits&credits=20&currency=GBP")
+  );
+  const tooFew = parseCheckoutIntent(
+    new URLSearchParams("type=gift&giftKind=credits&credits=2&currency=USD")
+  );
+  const badEmail = parseCheckoutIntent(
+    new URLSearchParams("type=gift&giftKind=credits&credits=20&currency=USD&recipient=nope")
+  );
+
+  assert.equal(inGbp.ok, false);
+  assert.equal(tooFew.ok, false);
+  assert.equal(badEmail.ok, false);
+  if (!inGbp.ok) assert.equal(inGbp.returnPath, "/dashboard/gifts");
+
+  const codeOnly = parseCheckoutIntent(
+    new URLSearchParams("type=gift&giftKind=credits&credits=20&currency=USD")
+  );
+  assert.deepEqual(codeOnly, {
+    ok: true,
+    intent: {
+      type: "gift",
+      giftKind: "credits",
+      credits: 20,
+      currency: "USD",
+      recipientEmail: null,
+      message: null,
+    },
+  });
+});
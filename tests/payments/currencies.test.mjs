@@ -0,0 +1,23 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  formatCurrencyAmount,
+  getCurrencySymbol,
+  normalizeCurrencyCode,
+} from "../../src/lib/payments/currencies.ts";
+
+test("amounts are formatted with each currency's symbol", () => {
+  assert.equal(formatCurrencyAmount(150000, "NGN"), "₦1,500.00");
+  assert.equal(formatCurrencyAmount(999, "usd"), "$9.99");
+  assert.equal(formatCurrencyAmount(12000, "GHS"), "GH₵120.00");
+  assert.equal(formatCurrencyAmount(130000, "KES", { fractionDigits: 0 }), "KSh1,300");
+  assert.equal(formatCurrencyAmount(799, "GBP"), "£7.99");
+  assert.equal(getCurrencySymbol("zar"), "R");
+});
+
+test("unknown currency codes are not accepted", () => {
+  assert.equal(normalizeCurrencyCode(" eur "), "EUR");
+  assert.equal(normalizeCurrencyCode("JPY"), null);
+  assert.equal(normalizeCurrencyCode(42), null);
+});
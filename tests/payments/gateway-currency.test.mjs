@@ -53,3 +53,15 @@ test("NGN retains the MatchIndeed minimum for both providers", () => {
   assert.equal(getPaymentMinimumAmountCents("paystack", "NGN"), 5000);
   assert.equal(getPaymentMinimumAmountCents("flutterwave", "NGN"), 5000);
 });
+
+test("African local currencies prefer Paystack; GBP and EUR use Flutterwave", () => {
+  for (const currency of ["GHS", "KES", "ZAR"]) {
+    assert.deepEqual(getSupportedPaymentProviders(currency), ["paystack", "flutterwave"]);
+    assert.equal(getRecommendedPaymentProvider(currency), "paystack");
+  }
+  for (const currency of ["GBP", "EUR"]) {
+    assert.equal(isPaymentProviderSupported("paystack", currency), false);
+    assert.equal(getRecommendedPaymentProvider(currency), "flutterwave");
+  }
+  assert.equal(isPaymentAmountSupported("flutterwave", "KES", 999), false);
+});
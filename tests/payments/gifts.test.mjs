@@ -0,0 +1,508 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  createGift,
+  fulfillGiftPayment,
+  linkGiftPaymentReference,
+  normalizeGiftCode,
+  redeemGift,
+  revokeGift,
+} from "../../src/lib/gifts/gifts.ts";
+
+const UNIQUE_KEYS = {
+  gifts: ["code"],
+  ledger_transactions: ["idempotency_key"],
+  credit_lots: ["source", "reference"],
+};
+
+class MockQuery {
+  constructor(db, table) {
+    this.db = db;
+    this.table = table;
+    this.filters = [];
+    this.operation = "select";
+    this.payload = null;
+    this.orderBy = null;
+    this.rowLimit = null;
+  }
+
+  select() {
+    if (this.operation === "update") {
+      this.operation = "update-select";
+    } else if (this.operation !== "insert") {
+      this.operation = "select";
+    }
+    return this;
+  }
+
+  update(payload) {
+    this.operation = "update";
+    this.payload = payload;
+    return this;
+  }
+
+  insert(payload) {
+    this.operation = "insert";
+    this.payload = payload;
+    return this;
+  }
+
+  upsert(payload) {
+    this.operation = "upsert";
+    this.payload = payload;
+    return this;
+  }
+
+  delete() {
+    this.operation = "delete";
+    return this;
+  }
+
+  eq(column, value) {
+    this.filters.push((row) => row[column] === value);
+    return this;
+  }
+
+  in(column, values) {
+    this.filters.push((row) => values.includes(row[column]));
+    return this;
+  }
+
+  order(column, { ascending = true } = {}) {
+    this.orderBy = { column, ascending };
+    return this;
+  }
+
+  limit(count) {
+    this.rowLimit = count;
+    return this;
+  }
+
+  async maybeSingle() {
+    const result = await this.execute();
+    const rows = Array.isArray(result.data) ? result.data : [];
+    return { data: rows[0] || null, error: result.error };
+  }
+
+  async single() {
+    const result = await this.execute();
+    const rows = Array.isArray(result.data) ? result.data : [];
+    return rows[0]
+      ? { data: rows[0], error: null }
+      : { data: null, error: result.error || { code: "PGRST116" } };
+  }
+
+  then(resolve, reject) {
+    return this.execute().then(resolve, reject);
+  }
+
+  async execute() {
+    const rows = (this.db[this.table] ||= []);
+    let matches = rows.filter((row) => this.filters.every((filter) => filter(row)));
+
+    if (this.operation === "select") {
+      if (this.orderBy) {
+        const { column, ascending } = this.orderBy;
+        matches = [...matches].sort((a, b) =>
+          (a[column] > b[column] ? 1 : -1) * (ascending ? 1 : -1)
+        );
+      }
+      if (this.rowLimit !== null) matches = matches.slice(0, this.rowLimit);
+      return { data: matches.map((row) => ({ ...row })), error: null };
+    }
+
+    if (this.operation === "update" || this.operation === "update-select") {
+      for (const row of matches) Object.assign(row, this.payload);
+      return { data: matches.map((row) => ({ ...row })), error: null };
+    }
+
+    if (this.operation === "upsert") {
+      const existing = rows.find((row) => row.user_id === this.payload.user_id);
+      if (existing) Object.assign(existing, this.payload);
+      else rows.push({ ...this.payload });
+      return { data: null, error: null };
+    }
+
+    if (this.operation === "delete") {
+      this.db[this.table] = rows.filter((row) => !matches.includes(row));
+      return { data: null, error: null };
+    }
+
+    const payloads = Array.isArray(this.payload) ? this.payload : [this.payload];
+    const keys = UNIQUE_KEYS[this.table] || [];
+    const clashes = (payload) =>
+      // Like a partial unique index, NULL keys never clash.
+      rows.some((row) => keys.every((key) => payload[key] != null && row[key] === payload[key]));
+    if (keys.length && payloads.some(clashes)) {
+      return { data: null, error: { code: "23505", message: "duplicate key" } };
+    }
+    const inserted = payloads.map((payload, index) => ({
+      id: `${this.table}-${rows.length + index + 1}`,
+      created_at: `2026-07-15T00:00:${String(rows.length + index).padStart(2, "0")}.000Z`,
+      ...payload,
+    }));
+    rows.push(...inserted);
+    return { data: inserted.map((row) => ({ ...row })), error: null };
+  }
+}
+
+const NOW = new Date("2026-07-15T12:00:00.000Z");
+
+function createFixture({ memberships = [] } = {}) {
+  const db = {
+    accounts: [
+      { id: "buyer-1", email: "buyer@example.com", display_name: "Ada", tier: "basic" },
+      { id: "friend-1", email: "friend@example.com", display_name: "Tunde", tier: "basic" },
+    ],
+    credits: [{ user_id: "friend-1", total: 4, used: 0, rollover: 0 }],
+    memberships,
+    gifts: [],
+    credit_lots: [],
+    credit_transactions: [],
+    ledger_transactions: [],
+    ledger_entries: [],
+  };
+  const supabase = {
+    from(table) {
+      return new MockQuery(db, table);
+    },
+  };
+  const emails = { purchased: [], received: [] };
+  const allocations = [];
+  const deps = {
+    now: NOW,
+    sendGiftPurchasedEmailFn: async (to, data) => {
+      emails.purchased.push({ to, ...data });
+      return true;
+    },
+    sendGiftReceivedEmailFn: async (to, data) => {
+      emails.received.push({ to, ...data });
+      return true;
+    },
+    allocateSubscriptionCreditsFn: async (_supabase, userId, tier, options) => {
+      allocations.push({ userId, tier, ...options });
+      return { creditsToAdd: 10 };
+    },
+  };
+
+  return { db, supabase, deps, emails, allocations };
+}
+
+async function paidGift(supabase, deps, input) {
+  const created = await createGift(supabase, {
+    buyerId: "buyer-1",
+    currency: "usd",
+    provider: "paystack",
+    ...input,
+  });
+  assert.equal(created.ok, true);
+  const reference = `ref-${created.gift.id}`;
+  await linkGiftPaymentReference(supabase, created.gift.id, reference);
+
+  const result = await fulfillGiftPayment(
+    supabase,
+    {
+      reference,
+      transactionId: `tx-${created.gift.id}`,
+      status: "successful",
+      amountCents: input.amountCents,
+      currency: "usd",
+    },
+    deps
+  );
+  return { gift: created.gift, reference, result };
+}
+
+test("gift codes normalize whatever way they are typed", () => {
+  assert.equal(normalizeGiftCode("gift-abcd-efgh-jkmn"), "GIFT-ABCD-EFGH-JKMN");
+  assert.equal(normalizeGiftCode("ABCD EFGH JKMN"), "GIFT-ABCD-EFGH-JKMN");
+  assert.equal(normalizeGiftCode("GIFT-ABC"), null);
+});
+
+test("members cannot gift to themselves", async () => {
+  const { supabase } = createFixture();
+  const result = await createGift(supabase, {
+    buyerId: "buyer-1",
+    kind: "credits",
+    credits: 20,
+    recipientEmail: "buyer@example.com",
+    amountCents: 2000,
+    currency: "usd",
+    provider: "paystack",
+  });
+
+  assert.equal(result.ok, false);
+  assert.equal(result.code, "self_gift");
+});
+
+test("credits gifted to a member are delivered once, however often the payment is replayed", async () => {
+  const { db, supabase, deps, emails } = createFixture();
+  const { gift, reference, result } = await paidGift(supabase, deps, {
+    kind: "credits",
+    credits: 20,
+    recipientEmail: "friend@example.com",
+    message: "Enjoy!",
+    amountCents: 2000,
+  });
+
+  assert.equal(gift.delivery, "direct");
+  assert.equal(result.success, true);
+  assert.equal(result.status, "redeemed");
+  assert.equal(db.credits[0].total, 24);
+  assert.equal(db.credit_lots[0].source, "gift");
+  assert.equal(db.credit_lots[0].reference, `gift:${gift.id}`);
+  assert.equal(emails.purchased[0].delivery, "direct");
+  assert.equal(emails.received[0].to, "friend@example.com");
+  assert.equal(emails.received[0].giftCode, null);
+
+  const replay = await fulfillGiftPayment(
+    supabase,
+    { reference, transactionId: `tx-${gift.id}`, status: "successful", amountCents: 2000, currency: "usd" },
+    deps
+  );
+  assert.equal(replay.alreadyProcessed, true);
+  assert.equal(db.credits[0].total, 24);
+  assert.equal(emails.received.length, 1);
+});
+
+test("an underpaid gift stays unpaid", async () => {
+  const { db, supabase, deps } = createFixture();
+  const created = await createGift(supabase, {
+    buyerId: "buyer-1",
+    kind: "credits",
+    credits: 20,
+    recipientEmail: "friend@example.com",
+    amountCents: 2000,
+    currency: "usd",
+    provider: "flutterwave",
+  });
+  await linkGiftPaymentReference(supabase, created.gift.id, "ref-short");
+
+  const result = await fulfillGiftPayment(
+    supabase,
+    { reference: "ref-short", transactionId: "tx-short", status: "successful", amountCents: 500, currency: "usd" },
+    deps
+  );
+
+  assert.equal(result.success, false);
+  assert.equal(db.gifts[0].status, "pending_payment");
+  assert.equal(db.credits[0].total, 4);
+});
+
+test("a gift for someone without an account is redeemed by code after they join", async () => {
+  const { db, supabase, deps, emails, allocations } = createFixture();
+  const { gift, result } = await paidGift(supabase, deps, {
+    kind: "subscription",
+    tier: "premium",
+    recipientEmail: "newcomer@example.com",
+    amountCents: 3000,
+  });
+
+  assert.equal(gift.delivery, "code");
+  assert.equal(result.status, "paid");
+  assert.equal(emails.received[0].to, "newcomer@example.com");
+  assert.equal(emails.received[0].giftCode, gift.code);
+
+  const byBuyer = await redeemGift(supabase, { code: gift.code, userId: "buyer-1" }, deps);
+  assert.equal(byBuyer.ok, false);
+  assert.equal(byBuyer.code, "self_gift");
+
+  db.accounts.push({ id: "newcomer-1", email: "newcomer@example.com", tier: "basic" });
+  const redeemed = await redeemGift(
+    supabase,
+    { code: gift.code.toLowerCase(), userId: "newcomer-1" },
+    deps
+  );
+
+  assert.equal(redeemed.ok, true);
+  assert.equal(redeemed.planEndsAt, "2026-08-15T12:00:00.000Z");
+  assert.equal(db.accounts[2].tier, "premium");
+  assert.equal(db.memberships[0].user_id, "newcomer-1");
+  assert.equal(db.memberships[0].tier, "premium");
+  assert.equal(allocations[0].idempotencyKey, `gift:${gift.id}`);
+  assert.equal(db.gifts[0].credits_granted, 10);
+
+  const again = await redeemGift(supabase, { code: gift.code, userId: "newcomer-1" }, deps);
+  assert.equal(again.ok, false);
+  assert.equal(again.code, "already_redeemed");
+});
+
+test("a plan gift that fails partway stays redeemed and is finished by redeeming again", async () => {
+  const { db, supabase, deps, allocations } = createFixture();
+  const { gift } = await paidGift(supabase, deps, {
+    kind: "subscription",
+    tier: "premium",
+    recipientEmail: "newcomer@example.com",
+    amountCents: 3000,
+  });
+  db.accounts.push({ id: "newcomer-1", email: "newcomer@example.com", tier: "basic" });
+
+  const allocate = deps.allocateSubscriptionCreditsFn;
+  deps.allocateSubscriptionCreditsFn = async () => {
+    throw new Error("credits unavailable");
+  };
+  await assert.rejects(
+    redeemGift(supabase, { code: gift.code, userId: "newcomer-1" }, deps),
+    /credits unavailable/
+  );
+
+  // The plan was already written, so the gift is not handed back.
+  assert.equal(db.gifts[0].status, "redeemed");
+  assert.equal(db.gifts[0].redeemed_by, "newcomer-1");
+  assert.equal(db.memberships.length, 1);
+  assert.equal(db.gifts[0].membership_id, db.memberships[0].id);
+
+  const other = await redeemGift(supabase, { code: gift.code, userId: "friend-1" }, deps);
+  assert.equal(other.code, "already_redeemed");
+
+  deps.allocateSubscriptionCreditsFn = allocate;
+  const finished = await redeemGift(supabase, { code: gift.code, userId: "newcomer-1" }, deps);
+
+  assert.equal(finished.ok, true);
+  assert.equal(finished.planEndsAt, "2026-08-15T12:00:00.000Z");
+  assert.equal(db.memberships.length, 1);
+  assert.equal(db.accounts[2].tier, "premium");
+  assert.deepEqual(
+    allocations.map((allocation) => allocation.idempotencyKey),
+    [`gift:${gift.id}`]
+  );
+  assert.equal(db.gifts[0].credits_granted, 10);
+});
+
+test("finishing a plan gift doesn't allocate its credits again", async () => {
+  const { db, supabase, deps, allocations } = createFixture();
+  const { gift } = await paidGift(supabase, deps, {
+    kind: "subscription",
+    tier: "premium",
+    recipientEmail: "newcomer@example.com",
+    amountCents: 3000,
+  });
+  db.accounts.push({ id: "newcomer-1", email: "newcomer@example.com", tier: "basic" });
+
+  const from = supabase.from;
+  let failFinish = true;
+  supabase.from = (table) => {
+    const query = from(table);
+    if (table === "gifts") {
+      const execute = query.execute.bind(query);
+      query.execute = async () => {
+        if (failFinish && query.payload && "credits_granted" in query.payload) {
+          failFinish = false;
+          return { data: null, error: { message: "gift update failed" } };
+        }
+        return execute();
+      };
+    }
+    return query;
+  };
+
+  await assert.rejects(
+    redeemGift(supabase, { code: gift.code, userId: "newcomer-1" }, deps),
+    { message: "gift update failed" }
+  );
+  assert.equal(db.gifts[0].plan_credits_allocated, 10);
+  assert.equal(db.gifts[0].credits_granted ?? null, null);
+
+  const finished = await redeemGift(supabase, { code: gift.code, userId: "newcomer-1" }, deps);
+
+  assert.equal(finished.ok, true);
+  assert.equal(finished.creditsAdded, 10);
+  assert.equal(allocations.length, 1);
+  assert.equal(db.gifts[0].credits_granted, 10);
+});
+
+test("a credits gift whose balance write fails is handed back unredeemed", async () => {
+  const { db, supabase, deps } = createFixture();
+  const { gift } = await paidGift(supabase, deps, {
+    kind: "credits",
+    credits: 20,
+    recipientEmail: "newcomer@example.com",
+    amountCents: 2000,
+  });
+  db.accounts.push({ id: "newcomer-1", email: "newcomer@example.com", tier: "basic" });
+
+  const from = supabase.from;
+  supabase.from = (table) => {
+    const query = from(table);
+    if (table === "credits") {
+      query.upsert = () => ({
+        then: (resolve) => resolve({ data: null, error: { message: "credits unavailable" } }),
+      });
+    }
+    return query;
+  };
+  await assert.rejects(redeemGift(supabase, { code: gift.code, userId: "newcomer-1" }, deps));
+
+  assert.equal(db.gifts[0].status, "paid");
+  assert.equal(db.gifts[0].redeemed_by, null);
+  assert.equal(db.gifts[0].credits_granted, null);
+
+  supabase.from = from;
+  const redeemed = await redeemGift(supabase, { code: gift.code, userId: "newcomer-1" }, deps);
+  assert.equal(redeemed.ok, true);
+  assert.equal(db.credits.find((row) => row.user_id === "newcomer-1").total, 20);
+});
+
+test("a plan gift that clashes with the recipient's plan falls back to a code", async () => {
+  const { db, supabase, deps, emails } = createFixture({
+    memberships: [
+      {
+        id: "membership-1",
+        user_id: "friend-1",
+        tier: "standard",
+        status: "active",
+        price_cents: 2000,
+        expires_at: "2026-08-01T00:00:00.000Z",
+        stripe_subscription_id: null,
+        created_at: "2026-07-01T00:00:00.000Z",
+      },
+    ],
+  });
+  const { gift, result } = await paidGift(supabase, deps, {
+    kind: "subscription",
+    tier: "vip",
+    recipientEmail: "friend@example.com",
+    amountCents: 5000,
+  });
+
+  assert.equal(result.success, true);
+  assert.equal(result.delivery, "code");
+  assert.equal(db.gifts[0].status, "paid");
+  assert.equal(db.memberships.length, 1);
+  assert.equal(emails.received[0].giftCode, gift.code);
+});
+
+test("revoking a redeemed credits gift takes back what is left of it", async () => {
+  const { db, supabase, deps } = createFixture();
+  const { gift } = await paidGift(supabase, deps, {
+    kind: "credits",
+    credits: 20,
+    recipientEmail: "friend@example.com",
+    amountCents: 2000,
+  });
+
+  const revoked = await revokeGift(
+    supabase,
+    { giftId: gift.id, adminUserId: "admin-1", reason: "Chargeback" },
+    deps
+  );
+
+  assert.equal(revoked.ok, true);
+  assert.equal(revoked.creditsRemoved, 20);
+  assert.equal(db.gifts[0].status, "revoked");
+  assert.equal(db.credits[0].used, 20);
+  assert.ok(
+    db.ledger_transactions.some((tx) => tx.idempotency_key === `gift_revoked:${gift.id}`)
+  );
+
+  const twice = await revokeGift(
+    supabase,
+    { giftId: gift.id, adminUserId: "admin-1", reason: null },
+    deps
+  );
+  assert.equal(twice.ok, false);
+  assert.equal(twice.code, "already_revoked");
+
+  const redeemRevoked = await redeemGift(supabase, { code: gift.code, userId: "friend-1" }, deps);
+  assert.equal(redeemRevoked.code, "revoked");
+});
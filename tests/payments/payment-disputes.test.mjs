@@ -0,0 +1,506 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  getFlutterwaveDisputeNotice,
+  getPaystackDisputeNotice,
+  processPaymentDisputeEvent,
+  reviewPaymentDispute,
+} from "../../src/lib/payments/disputes.ts";
+
+const UNIQUE_KEYS = {
+  ledger_transactions: ["idempotency_key"],
+  payment_dispute_events: ["provider", "provider_event_id"],
+};
+const COLUMN_DEFAULTS = {
+  payment_disputes: {
+    wallet_clawed_back_cents: 0,
+    credits_clawed_back: 0,
+    suspended_membership_id: null,
+    review_status: "none",
+    clawed_back_at: null,
+    wallet_restored_cents: 0,
+    credits_restored: 0,
+    restored_at: null,
+    parent_dispute_id: null,
+  },
+};
+
+class MockQuery {
+  constructor(db, table) {
+    this.db = db;
+    this.table = table;
+    this.filters = [];
+    this.operation = "select";
+    this.payload = null;
+    this.orderBy = null;
+    this.rowLimit = null;
+    this.rowRange = null;
+  }
+
+  select() {
+    if (this.operation === "update") {
+      this.operation = "update-select";
+    } else if (this.operation !== "insert") {
+      this.operation = "select";
+    }
+    return this;
+  }
+
+  update(payload) {
+    this.operation = "update";
+    this.payload = payload;
+    return this;
+  }
+
+  insert(payload) {
+    this.operation = "insert";
+    this.payload = payload;
+    return this;
+  }
+
+  upsert(payload) {
+    this.operation = "upsert";
+    this.payload = payload;
+    return this;
+  }
+
+  delete() {
+    this.operation = "delete";
+    return this;
+  }
+
+  eq(column, value) {
+    this.filters.push((row) => row[column] === value);
+    return this;
+  }
+
+  in(column, values) {
+    this.filters.push((row) => values.includes(row[column]));
+    return this;
+  }
+
+  order(column, { ascending = true } = {}) {
+    this.orderBy = { column, ascending };
+    return this;
+  }
+
+  limit(count) {
+    this.rowLimit = count;
+    return this;
+  }
+
+  range(from, to) {
+    this.rowRange = [from, to];
+    return this;
+  }
+
+  async maybeSingle() {
+    const result = await this.execute();
+    const rows = Array.isArray(result.data) ? result.data : [];
+    return { data: rows[0] || null, error: result.error };
+  }
+
+  async single() {
+    const result = await this.execute();
+    const rows = Array.isArray(result.data) ? result.data : [];
+    return rows[0]
+      ? { data: rows[0], error: null }
+      : { data: null, error: result.error || { code: "PGRST116" } };
+  }
+
+  then(resolve, reject) {
+    return this.execute().then(resolve, reject);
+  }
+
+  async execute() {
+    const rows = (this.db[this.table] ||= []);
+    let matches = rows.filter((row) => this.filters.every((filter) => filter(row)));
+
+    if (this.operation === "select") {
+      if (this.orderBy) {
+        const { column, ascending } = this.orderBy;
+        matches = [...matches].sort((a, b) =>
+          (a[column] > b[column] ? 1 : -1) * (ascending ? 1 : -1)
+        );
+      }
+      if (this.rowRange) matches = matches.slice(this.rowRange[0], this.rowRange[1] + 1);
+      if (this.rowLimit !== null) matches = matches.slice(0, this.rowLimit);
+      return { data: matches.map((row) => ({ ...row })), error: null };
+    }
+
+    if (this.operation === "update" || this.operation === "update-select") {
+      for (const row of matches) Object.assign(row, this.payload);
+      return { data: matches.map((row) => ({ ...row })), error: null };
+    }
+
+    if (this.operation === "upsert") {
+      const existing = rows.find((row) => row.user_id === this.payload.user_id);
+      if (existing) Object.assign(existing, this.payload);
+      else rows.push({ ...this.payload });
+      return { data: null, error: null };
+    }
+
+    if (this.operation === "delete") {
+      this.db[this.table] = rows.filter((row) => !matches.includes(row));
+      return { data: null, error: null };
+    }
+
+    const payloads = Array.isArray(this.payload) ? this.payload : [this.payload];
+    const keys = UNIQUE_KEYS[this.table] || [];
+    const clashes = (payload) =>
+      rows.some((row) => keys.every((key) => row[key] === payload[key]));
+    if (keys.length && payloads.some(clashes)) {
+      return { data: null, error: { code: "23505", message: "duplicate key" } };
+    }
+    const inserted = payloads.map((payload, index) => ({
+      id: `${this.table}-${rows.length + index + 1}`,
+      created_at: `2026-07-10T00:00:${String(rows.length + index).padStart(2, "0")}.000Z`,
+      ...COLUMN_DEFAULTS[this.table],
+      ...payload,
+    }));
+    rows.push(...inserted);
+    return { data: inserted.map((row) => ({ ...row })), error: null };
+  }
+}
+
+const NOW = new Date("2026-07-12T00:00:00.000Z");
+const CREDITS_REF = "mi-paystack-v1-credits-ngn-500000-50-user0001-abcd";
+const PLAN_REF = "cs_test_plan_checkout";
+
+function createFixture() {
+  const db = {
+    wallets: [{ user_id: "user-1", balance_cents: 0 }],
+    wallet_transactions: [
+      {
+        id: "tx-credits",
+        user_id: "user-1",
+        type: "credit_purchase",
+        amount_cents: -500000,
+        description: "Purchased 50 credits via Paystack",
+        reference_id: CREDITS_REF,
+      },
+      {
+        id: "tx-plan",
+        user_id: "user-1",
+        type: "subscription_payment",
+        amount_cents: 0,
+        description: "Premium subscription via Stripe",
+        reference_id: PLAN_REF,
+      },
+    ],
+    credits: [{ user_id: "user-1", total: 60, used: 30, rollover: 0 }],
+    credit_transactions: [],
+    subscription_checkout_processing: [
+      {
+        session_id: PLAN_REF,
+        user_id: "user-1",
+        amount_cents: 4999,
+        credits_allocated: 20,
+        status: "completed",
+      },
+    ],
+    subscription_tier_changes: [],
+    memberships: [
+      {
+        id: "membership-1",
+        user_id: "user-1",
+        tier: "premium",
+        billing_status: "current",
+        stripe_subscription_id: "sub_1",
+        created_at: "2026-07-01T00:00:00.000Z",
+      },
+    ],
+    accounts: [{ id: "user-1", tier: "premium" }],
+    payment_disputes: [],
+    payment_dispute_events: [],
+    ledger_transactions: [],
+    ledger_entries: [],
+  };
+
+  return {
+    db,
+    supabase: { from: (table) => new MockQuery(db, table) },
+  };
+}
+
+function creditsChargeback(event, eventId) {
+  return {
+    provider: "paystack",
+    event,
+    eventId,
+    caseId: "dispute:77",
+    reference: CREDITS_REF,
+    amountCents: 500000,
+    currency: "ngn",
+    reason: "fraudulent",
+  };
+}
+
+test("a chargeback claws back unspent credits once and a won dispute returns them", async () => {
+  const { db, supabase } = createFixture();
+
+  const opened = await processPaymentDisputeEvent(
+    supabase,
+    creditsChargeback("dispute_opened", "charge.dispute.create:77"),
+    { now: NOW }
+  );
+
+  assert.equal(opened.handled, true);
+  const dispute = db.payment_disputes[0];
+  assert.equal(dispute.status, "open");
+  assert.equal(dispute.record_kind, "credit_purchase");
+  // 50 credits were bought but only 30 remain unspent.
+  assert.equal(dispute.credits_clawed_back, 30);
+  assert.equal(db.credits[0].used, 60);
+  assert.equal(db.credit_transactions.at(-1).amount, -30);
+  assert.equal(db.payment_dispute_events[0].dispute_id, dispute.id);
+  assert.equal(db.ledger_transactions[0].kind, "refund");
+
+  const replay = await processPaymentDisputeEvent(
+    supabase,
+    creditsChargeback("dispute_opened", "charge.dispute.create:77"),
+    { now: NOW }
+  );
+  assert.equal(replay.alreadyProcessed, true);
+  assert.equal(db.credits[0].used, 60);
+  assert.equal(db.payment_dispute_events.length, 1);
+
+  await processPaymentDisputeEvent(
+    supabase,
+    creditsChargeback("dispute_won", "charge.dispute.resolve:77"),
+    { now: NOW }
+  );
+
+  assert.equal(db.payment_disputes.length, 1);
+  assert.equal(db.payment_disputes[0].status, "won");
+  assert.equal(db.credits[0].used, 30);
+  assert.equal(db.ledger_transactions.length, 2);
+});
+
+test("a plan refund suspends the membership until an admin reviews it", async () => {
+  const { db, supabase } = createFixture();
+  const downgrades = [];
+
+  const result = await processPaymentDisputeEvent(
+    supabase,
+    {
+      provider: "stripe",
+      event: "refunded",
+      eventId: "evt_refund",
+      caseId: "ch_plan",
+      reference: PLAN_REF,
+      amountCents: 4999,
+      currency: "usd",
+    },
+    { now: NOW }
+  );
+
+  assert.match(result.message, /suspended/);
+  const dispute = db.payment_disputes[0];
+  assert.equal(dispute.kind, "refund");
+  assert.equal(dispute.credits_clawed_back, 20);
+  assert.equal(dispute.suspended_membership_id, "membership-1");
+  assert.equal(dispute.review_status, "pending");
+  assert.equal(db.memberships[0].billing_status, "suspended");
+  assert.equal(db.accounts[0].tier, "basic");
+
+  const review = await reviewPaymentDispute(
+    supabase,
+    { disputeId: dispute.id, decision: "revoke", adminUserId: "admin-1", note: "Confirmed refund" },
+    {
+      now: NOW,
+      downgradeMembershipFn: async (_supabase, membership) => {
+        downgrades.push(membership.id);
+        return true;
+      },
+    }
+  );
+
+  assert.deepEqual(review, { ok: true, disputeId: dispute.id, reviewStatus: "revoked" });
+  assert.deepEqual(downgrades, ["membership-1"]);
+  assert.equal(db.payment_disputes[0].reviewed_by, "admin-1");
+
+  const again = await reviewPaymentDispute(supabase, {
+    disputeId: dispute.id,
+    decision: "restore",
+    adminUserId: "admin-1",
+  });
+  assert.equal(again.ok, false);
+  assert.equal(again.code, "not_pending");
+});
+
+test("a refund retried after a partial failure does not claw back twice", async () => {
+  const { db, supabase } = createFixture();
+  const from = supabase.from;
+  let accountsDown = true;
+  supabase.from = (table) => {
+    const query = from(table);
+    if (table === "accounts" && accountsDown) {
+      query.execute = async () => ({ data: null, error: { message: "accounts unavailable" } });
+    }
+    return query;
+  };
+  const refund = {
+    provider: "stripe",
+    event: "refunded",
+    eventId: "evt_refund",
+    caseId: "ch_plan",
+    reference: PLAN_REF,
+    amountCents: 4999,
+    currency: "usd",
+  };
+
+  await assert.rejects(processPaymentDisputeEvent(supabase, refund, { now: NOW }));
+  // The credits landed before the suspension failed and were saved right away.
+  assert.equal(db.payment_disputes[0].credits_clawed_back, 20);
+  assert.equal(db.payment_disputes[0].clawed_back_at, null);
+  assert.equal(db.credits[0].used, 50);
+  assert.equal(db.payment_dispute_events.length, 0);
+
+  accountsDown = false;
+  const retry = await processPaymentDisputeEvent(supabase, refund, { now: NOW });
+
+  assert.equal(retry.handled, true);
+  assert.equal(db.credits[0].used, 50);
+  assert.equal(db.credit_transactions.filter((row) => row.amount < 0).length, 1);
+  const dispute = db.payment_disputes[0];
+  assert.equal(dispute.credits_clawed_back, 20);
+  assert.equal(dispute.suspended_membership_id, "membership-1");
+  assert.equal(dispute.review_status, "pending");
+  assert.equal(dispute.clawed_back_at, NOW.toISOString());
+  assert.equal(db.accounts[0].tier, "basic");
+  assert.equal(db.ledger_transactions.length, 1);
+});
+
+test("a won dispute retried after a partial failure does not restore twice", async () => {
+  const { db, supabase } = createFixture();
+  const from = supabase.from;
+  let accountsDown = false;
+  supabase.from = (table) => {
+    const query = from(table);
+    if (table === "accounts" && accountsDown) {
+      query.execute = async () => ({ data: null, error: { message: "accounts unavailable" } });
+    }
+    return query;
+  };
+  const chargeback = (event, eventId) => ({
+    provider: "stripe",
+    event,
+    eventId,
+    caseId: "dp_plan",
+    reference: PLAN_REF,
+    amountCents: 4999,
+    currency: "usd",
+  });
+
+  await processPaymentDisputeEvent(supabase, chargeback("dispute_opened", "evt_open"), {
+    now: NOW,
+  });
+  assert.equal(db.credits[0].used, 50);
+
+  accountsDown = true;
+  await assert.rejects(
+    processPaymentDisputeEvent(supabase, chargeback("dispute_won", "evt_won"), { now: NOW })
+  );
+  // The credits came back before the membership restore failed.
+  assert.equal(db.credits[0].used, 30);
+  assert.equal(db.payment_disputes[0].credits_restored, 20);
+  assert.equal(db.payment_disputes[0].restored_at, null);
+
+  accountsDown = false;
+  await processPaymentDisputeEvent(supabase, chargeback("dispute_won", "evt_won"), { now: NOW });
+
+  assert.equal(db.credits[0].used, 30);
+  assert.equal(db.credit_transactions.filter((row) => row.amount > 0).length, 1);
+  assert.equal(db.payment_disputes[0].restored_at, NOW.toISOString());
+  assert.equal(db.memberships[0].billing_status, "current");
+  assert.equal(db.accounts[0].tier, "premium");
+
+  // A later duplicate of the outcome restores nothing more.
+  await processPaymentDisputeEvent(supabase, chargeback("dispute_won", "evt_won_again"), {
+    now: NOW,
+  });
+  assert.equal(db.credits[0].used, 30);
+  assert.equal(db.ledger_transactions.length, 2);
+});
+
+test("a second partial refund of a charge claws back only what it adds", async () => {
+  const { db, supabase } = createFixture();
+  const refund = (eventId, amountCents) => ({
+    provider: "stripe",
+    event: "refunded",
+    eventId,
+    caseId: "ch_plan",
+    reference: PLAN_REF,
+    amountCents,
+    currency: "usd",
+  });
+
+  await processPaymentDisputeEvent(supabase, refund("evt_refund_1", 1000), { now: NOW });
+  assert.equal(db.payment_disputes[0].credits_clawed_back, 4);
+  assert.equal(db.credits[0].used, 34);
+
+  // Stripe reports the charge's new refunded total.
+  const second = await processPaymentDisputeEvent(supabase, refund("evt_refund_2", 2500), {
+    now: NOW,
+  });
+
+  assert.match(second.message, /10 credits/);
+  assert.equal(db.payment_disputes.length, 2);
+  const followUp = db.payment_disputes[1];
+  assert.equal(followUp.parent_dispute_id, db.payment_disputes[0].id);
+  assert.equal(followUp.amount_cents, 1500);
+  assert.equal(followUp.credits_clawed_back, 6);
+  assert.equal(followUp.suspended_membership_id, null);
+  assert.equal(db.payment_disputes[0].amount_cents, 1000);
+  assert.equal(db.credits[0].used, 40);
+  assert.equal(db.ledger_transactions.length, 2);
+
+  // Another delivery with the same total takes nothing more.
+  await processPaymentDisputeEvent(supabase, refund("evt_refund_2b", 2500), { now: NOW });
+  assert.equal(db.payment_disputes.length, 2);
+  assert.equal(db.credits[0].used, 40);
+});
+
+test("an unknown reference is recorded for review without touching balances", async () => {
+  const { db, supabase } = createFixture();
+
+  await processPaymentDisputeEvent(
+    supabase,
+    { ...creditsChargeback("dispute_opened", "charge.dispute.create:88"), reference: "unknown" },
+    { now: NOW }
+  );
+
+  assert.equal(db.payment_disputes[0].user_id, null);
+  assert.equal(db.payment_disputes[0].review_status, "pending");
+  assert.equal(db.credits[0].used, 30);
+  assert.equal(db.ledger_transactions.length, 0);
+});
+
+test("provider payloads map to dispute notices", () => {
+  const resolved = getPaystackDisputeNotice({
+    event: "charge.dispute.resolve",
+    data: {
+      id: 77,
+      resolution: "merchant-accepted",
+      refund_amount: 500000,
+      currency: "NGN",
+      transaction: { reference: CREDITS_REF, amount: 500000 },
+    },
+  });
+  assert.equal(resolved.event, "dispute_lost");
+  assert.equal(resolved.reference, CREDITS_REF);
+  assert.equal(resolved.caseId, "dispute:77");
+
+  assert.equal(getPaystackDisputeNotice({ event: "charge.success", data: { id: 1 } }), null);
+
+  const refund = getFlutterwaveDisputeNotice({
+    event: "refund.completed",
+    data: { id: 12, TransactionId: 345, AmountRefunded: 49.99, status: "completed" },
+  });
+  assert.equal(refund.event, "refunded");
+  assert.equal(refund.transactionId, "345");
+  assert.equal(refund.amountCents, 4999);
+
+  assert.equal(getFlutterwaveDisputeNotice({ event: "charge.completed", data: { id: 1 } }), null);
+});
@@ -0,0 +1,590 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  calculatePromoDiscount,
+  completePromoRedemption,
+  parsePromoCodeInput,
+  quotePromoCode,
+  recordWalletPromoRedemption,
+  releasePromoRedemption,
+  reservePromoRedemption,
+  summarizePromoRedemptions,
+} from "../../src/lib/promo-codes/promo-codes.ts";
+
+const UNIQUE_KEYS = {
+  promo_codes: ["code"],
+  promo_redemptions: ["payment_reference"],
+};
+
+class MockQuery {
+  constructor(db, table) {
+    this.db = db;
+    this.table = table;
+    this.filters = [];
+    this.operation = "select";
+    this.payload = null;
+    this.orderBy = null;
+    this.rowLimit = null;
+  }
+
+  select() {
+    if (this.operation === "update") {
+      this.operation = "update-select";
+    } else if (this.operation !== "insert") {
+      this.operation = "select";
+    }
+    return this;
+  }
+
+  update(payload) {
+    this.operation = "update";
+    this.payload = payload;
+    return this;
+  }
+
+  insert(payload) {
+    this.operation = "insert";
+    this.payload = payload;
+    return this;
+  }
+
+  upsert(payload) {
+    this.operation = "upsert";
+    this.payload = payload;
+    return this;
+  }
+
+  delete() {
+    this.operation = "delete";
+    return this;
+  }
+
+  eq(column, value) {
+    this.filters.push((row) => row[column] === value);
+    return this;
+  }
+
+  in(column, values) {
+    this.filters.push((row) => values.includes(row[column]));
+    return this;
+  }
+
+  order(column, { ascending = true } = {}) {
+    this.orderBy = { column, ascending };
+    return this;
+  }
+
+  limit(count) {
+    this.rowLimit = count;
+    return this;
+  }
+
+  async maybeSingle() {
+    const result = await this.execute();
+    const rows = Array.isArray(result.data) ? result.data : [];
+    return { data: rows[0] || null, error: result.error };
+  }
+
+  async single() {
+    const result = await this.execute();
+    const rows = Array.isArray(result.data) ? result.data : [];
+    return rows[0]
+      ? { data: rows[0], error: null }
+      : { data: null, error: result.error || { code: "PGRST116" } };
+  }
+
+  then(resolve, reject) {
+    return this.execute().then(resolve, reject);
+  }
+
+  async execute() {
+    const rows = (this.db[this.table] ||= []);
+    let matches = rows.filter((row) => this.filters.every((filter) => filter(row)));
+
+    if (this.operation === "select") {
+      if (this.orderBy) {
+        const { column, ascending } = this.orderBy;
+        matches = [...matches].sort((a, b) =>
+          (a[column] > b[column] ? 1 : -1) * (ascending ? 1 : -1)
+        );
+      }
+      if (this.rowLimit !== null) matches = matches.slice(0, this.rowLimit);
+      return { data: matches.map((row) => ({ ...row })), error: null };
+    }
+
+    if (this.operation === "update" || this.operation === "update-select") {
+      for (const row of matches) Object.assign(row, this.payload);
+      return { data: matches.map((row) => ({ ...row })), error: null };
+    }
+
+    if (this.operation === "upsert") {
+      const existing = rows.find((row) => row.user_id === this.payload.user_id);
+      if (existing) Object.assign(existing, this.payload);
+      else rows.push({ ...this.payload });
+      return { data: null, error: null };
+    }
+
+    if (this.operation === "delete") {
+      this.db[this.table] = rows.filter((row) => !matches.includes(row));
+      return { data: null, error: null };
+    }
+
+    const payloads = Array.isArray(this.payload) ? this.payload : [this.payload];
+    const keys = UNIQUE_KEYS[this.table] || [];
+    const clashes = (payload) =>
+      // Like a partial unique index, NULL keys never clash.
+      rows.some((row) => keys.every((key) => payload[key] != null && row[key] === payload[key]));
+    if (keys.length && payloads.some(clashes)) {
+      return { data: null, error: { code: "23505", message: "duplicate key" } };
+    }
+    const inserted = payloads.map((payload, index) => ({
+      id: `${this.table}-${rows.length + index + 1}`,
+      created_at: `2026-07-16T11:59:${String(rows.length + index).padStart(2, "0")}.000Z`,
+      ...payload,
+    }));
+    rows.push(...inserted);
+    return { data: inserted.map((row) => ({ ...row })), error: null };
+  }
+}
+
+const NOW = new Date("2026-07-16T12:00:00.000Z");
+
+function promo(overrides = {}) {
+  return {
+    id: "promo-1",
+    code: "LAUNCH20",
+    description: "Launch campaign",
+    discount_type: "percent",
+    percent_off: 20,
+    amount_off_cents: null,
+    currency: null,
+    tiers: null,
+    first_purchase_only: false,
+    max_redemptions: null,
+    max_redemptions_per_user: 1,
+    starts_at: null,
+    expires_at: null,
+    active: true,
+    created_at: "2026-07-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+function createFixture({ promoCodes = [promo()], redemptions = [], walletTransactions = [] } = {}) {
+  const db = {
+    promo_codes: promoCodes,
+    promo_redemptions: redemptions,
+    wallet_transactions: walletTransactions,
+  };
+  const supabase = {
+    from(table) {
+      return new MockQuery(db, table);
+    },
+    async rpc(name, params) {
+      if (name === "reserve_promo_redemption") {
+        return { data: reservePromoRedemptionRpc(db, params), error: null };
+      }
+      if (name === "apply_promo_redemption") {
+        return { data: applyPromoRedemptionRpc(db, params), error: null };
+      }
+      throw new Error(`Unknown rpc: ${name}`);
+    },
+  };
+  return { db, supabase };
+}
+
+/** reserve_promo_redemption, run synchronously the way the row lock serialises it. */
+function reservePromoRedemptionRpc(db, params) {
+  const code = db.promo_codes.find((row) => row.id === params.p_promo_code_id);
+  const windowStart = new Date(params.p_now).getTime() - params.p_reservation_minutes * 60_000;
+  const holding = db.promo_redemptions.filter(
+    (row) =>
+      row.promo_code_id === code.id &&
+      (row.status === "applied" || new Date(row.created_at).getTime() > windowStart)
+  );
+
+  if (code.max_redemptions !== null && holding.length >= code.max_redemptions) {
+    return [{ redemption_id: null, error_code: "usage_limit" }];
+  }
+  const userHolding = holding.filter((row) => row.user_id === params.p_user_id);
+  if (userHolding.length >= Math.max(1, code.max_redemptions_per_user)) {
+    return [{ redemption_id: null, error_code: "already_used" }];
+  }
+
+  const id = `promo_redemptions-${db.promo_redemptions.length + 1}`;
+  db.promo_redemptions.push({
+    id,
+    promo_code_id: code.id,
+    user_id: params.p_user_id,
+    tier: params.p_tier,
+    currency: params.p_currency,
+    list_amount_cents: params.p_list_amount_cents,
+    discount_cents: params.p_discount_cents,
+    amount_cents: params.p_amount_cents,
+    provider: params.p_provider,
+    payment_reference: params.p_payment_reference,
+    status: "pending",
+    applied_at: null,
+    created_at: params.p_now,
+  });
+  return [{ redemption_id: id, error_code: null }];
+}
+
+/** apply_promo_redemption: a reservation past its hold only applies if the caps allow. */
+function applyPromoRedemptionRpc(db, params) {
+  const redemption = db.promo_redemptions.find(
+    (row) => row.id === params.p_redemption_id && row.status === "pending"
+  );
+  if (!redemption) return [{ applied: false, error_code: null }];
+
+  const code = db.promo_codes.find((row) => row.id === redemption.promo_code_id);
+  const windowStart = new Date(params.p_now).getTime() - params.p_reservation_minutes * 60_000;
+  if (new Date(redemption.created_at).getTime() <= windowStart) {
+    const holding = db.promo_redemptions.filter(
+      (row) =>
+        row.promo_code_id === code.id &&
+        row.id !== redemption.id &&
+        (row.status === "applied" || new Date(row.created_at).getTime() > windowStart)
+    );
+    if (code.max_redemptions !== null && holding.length >= code.max_redemptions) {
+      return [{ applied: false, error_code: "usage_limit" }];
+    }
+    const userHolding = holding.filter((row) => row.user_id === redemption.user_id);
+    if (userHolding.length >= Math.max(1, code.max_redemptions_per_user)) {
+      return [{ applied: false, error_code: "already_used" }];
+    }
+  }
+
+  redemption.status = "applied";
+  redemption.applied_at = params.p_now;
+  redemption.payment_reference = params.p_payment_reference ?? redemption.payment_reference;
+  return [{ applied: true, error_code: null }];
+}
+
+function quote(supabase, input = {}) {
+  return quotePromoCode(
+    supabase,
+    {
+      code: "launch20",
+      userId: "user-1",
+      tier: "premium",
+      currency: "usd",
+      listAmountCents: 5000,
+      ...input,
+    },
+    { now: NOW }
+  );
+}
+
+test("calculatePromoDiscount takes a percentage or a fixed amount in its own currency", () => {
+  assert.equal(calculatePromoDiscount(promo({ percent_off: 15 }), 4999, "usd"), 750);
+  const fixed = promo({ discount_type: "fixed", percent_off: null, amount_off_cents: 1000, currency: "usd" });
+  assert.equal(calculatePromoDiscount(fixed, 5000, "USD"), 1000);
+  assert.equal(calculatePromoDiscount(fixed, 5000, "ngn"), 0);
+  assert.equal(calculatePromoDiscount(fixed, 600, "usd"), 600);
+});
+
+test("quotePromoCode prices a valid code case-insensitively", async () => {
+  const { supabase } = createFixture();
+  const result = await quote(supabase);
+
+  assert.equal(result.ok, true);
+  assert.deepEqual(result.quote, {
+    promoCodeId: "promo-1",
+    code: "LAUNCH20",
+    currency: "usd",
+    listAmountCents: 5000,
+    discountCents: 1000,
+    amountCents: 4000,
+  });
+});
+
+test("quotePromoCode rejects unknown, inactive, early and expired codes", async () => {
+  const unknown = await quote(createFixture().supabase, { code: "NOPE99" });
+  assert.equal(unknown.code, "not_found");
+
+  const inactive = await quote(createFixture({ promoCodes: [promo({ active: false })] }).supabase);
+  assert.equal(inactive.code, "not_found");
+
+  const early = await quote(
+    createFixture({ promoCodes: [promo({ starts_at: "2026-07-20T00:00:00.000Z" })] }).supabase
+  );
+  assert.equal(early.code, "not_started");
+
+  const expired = await quote(
+    createFixture({ promoCodes: [promo({ expires_at: "2026-07-16T11:00:00.000Z" })] }).supabase
+  );
+  assert.equal(expired.code, "expired");
+  assert.equal(expired.status, 410);
+});
+
+test("quotePromoCode enforces tier and currency restrictions", async () => {
+  const tierOnly = createFixture({ promoCodes: [promo({ tiers: ["basic", "standard"] })] });
+  assert.equal((await quote(tierOnly.supabase)).code, "not_applicable");
+  assert.equal((await quote(tierOnly.supabase, { tier: "basic" })).ok, true);
+
+  const fixed = createFixture({
+    promoCodes: [promo({ discount_type: "fixed", percent_off: null, amount_off_cents: 1000, currency: "gbp" })],
+  });
+  const wrongCurrency = await quote(fixed.supabase);
+  assert.equal(wrongCurrency.code, "not_applicable");
+  assert.match(wrongCurrency.message, /GBP/);
+
+  const whole = createFixture({ promoCodes: [promo({ percent_off: 100 })] });
+  assert.equal((await quote(whole.supabase)).code, "not_applicable");
+});
+
+test("quotePromoCode keeps first-purchase codes for members who never paid", async () => {
+  const { supabase } = createFixture({
+    promoCodes: [promo({ first_purchase_only: true })],
+    walletTransactions: [{ id: "tx-1", user_id: "user-1", type: "subscription_payment" }],
+  });
+
+  const returning = await quote(supabase);
+  assert.equal(returning.code, "first_purchase_only");
+  assert.equal((await quote(supabase, { userId: "user-2" })).ok, true);
+});
+
+test("quotePromoCode counts applied and recent pending redemptions towards caps", async () => {
+  const redemption = (overrides) => ({
+    promo_code_id: "promo-1",
+    status: "applied",
+    created_at: "2026-07-10T00:00:00.000Z",
+    ...overrides,
+  });
+  const { supabase } = createFixture({
+    promoCodes: [promo({ max_redemptions: 2 })],
+    redemptions: [
+      redemption({ user_id: "user-2" }),
+      // Reserved 30 minutes ago; its checkout may still be paid.
+      redemption({ user_id: "user-3", status: "pending", created_at: "2026-07-16T11:30:00.000Z" }),
+      // Abandoned checkout from yesterday.
+      redemption({ user_id: "user-4", status: "pending", created_at: "2026-07-15T11:00:00.000Z" }),
+    ],
+  });
+
+  const result = await quote(supabase);
+  assert.equal(result.code, "usage_limit");
+  assert.equal(result.status, 409);
+});
+
+test("quotePromoCode limits how often one member uses a code", async () => {
+  const { supabase, db } = createFixture({
+    redemptions: [
+      {
+        promo_code_id: "promo-1",
+        user_id: "user-1",
+        status: "applied",
+        created_at: "2026-07-10T00:00:00.000Z",
+      },
+    ],
+  });
+
+  assert.equal((await quote(supabase)).code, "already_used");
+
+  db.promo_codes[0].max_redemptions_per_user = 2;
+  assert.equal((await quote(supabase)).ok, true);
+});
+
+test("a reserved redemption is applied and stamped on the payment's transaction", async () => {
+  const { supabase, db } = createFixture({
+    walletTransactions: [{ id: "tx-9", user_id: "user-1", type: "subscription_payment", reference_id: "sub-ref-1" }],
+  });
+  const quoted = await quote(supabase);
+  const reserved = await reservePromoRedemption(supabase, {
+    quote: quoted.quote,
+    userId: "user-1",
+    tier: "premium",
+    provider: "paystack",
+    paymentReference: "sub-ref-1",
+    now: NOW,
+  });
+
+  assert.equal(reserved.ok, true);
+  assert.equal(reserved.redemption.payment_reference, "sub-ref-1");
+  assert.equal(db.promo_redemptions[0].status, "pending");
+
+  const applied = await completePromoRedemption(supabase, "sub-ref-1", NOW);
+  assert.equal(applied.status, "applied");
+  assert.equal(db.wallet_transactions[0].promo_code_id, "promo-1");
+  assert.equal(db.wallet_transactions[0].discount_cents, 1000);
+
+  // A replayed webhook finds nothing left to apply.
+  assert.equal(await completePromoRedemption(supabase, "sub-ref-1", NOW), null);
+  assert.equal(await completePromoRedemption(supabase, "no-promo-ref", NOW), null);
+});
+
+test("a checkout paid after its reservation lapsed only applies if the code has a use left", async () => {
+  const { supabase, db } = createFixture({ promoCodes: [promo({ max_redemptions: 1 })] });
+  const quoted = await quote(supabase);
+  const reserve = (userId, paymentReference, now) =>
+    reservePromoRedemption(supabase, {
+      quote: quoted.quote,
+      userId,
+      tier: "premium",
+      provider: "paystack",
+      paymentReference,
+      now,
+    });
+  const later = new Date(NOW.getTime() + 2 * 60 * 60 * 1000);
+
+  await reserve("user-1", "sub-ref-1", NOW);
+  // Once the hold lapses the use goes to another member.
+  assert.equal((await reserve("user-2", "sub-ref-2", later)).ok, true);
+
+  assert.equal(await completePromoRedemption(supabase, "sub-ref-1", later), null);
+  assert.equal(db.promo_redemptions[0].status, "pending");
+
+  const applied = await completePromoRedemption(supabase, "sub-ref-2", later);
+  assert.equal(applied.status, "applied");
+
+  // With the other checkout released, the lapsed one still fits the cap.
+  const { supabase: roomy, db: roomyDb } = createFixture({ promoCodes: [promo({ max_redemptions: 1 })] });
+  await reservePromoRedemption(roomy, {
+    quote: quoted.quote,
+    userId: "user-1",
+    tier: "premium",
+    provider: "paystack",
+    paymentReference: "sub-ref-1",
+    now: NOW,
+  });
+  assert.equal((await completePromoRedemption(roomy, "sub-ref-1", later)).status, "applied");
+  assert.equal(roomyDb.promo_redemptions[0].status, "applied");
+});
+
+test("concurrent checkouts cannot reserve more uses than a code allows", async () => {
+  const { supabase, db } = createFixture({ promoCodes: [promo({ max_redemptions: 1 })] });
+  const [first, second] = await Promise.all([quote(supabase), quote(supabase, { userId: "user-2" })]);
+  assert.equal(first.ok, true);
+  assert.equal(second.ok, true);
+
+  const reserve = (quoted, userId, paymentReference) =>
+    reservePromoRedemption(supabase, {
+      quote: quoted.quote,
+      userId,
+      tier: "premium",
+      provider: "paystack",
+      paymentReference,
+      now: NOW,
+    });
+  const results = await Promise.all([
+    reserve(first, "user-1", "sub-ref-1"),
+    reserve(second, "user-2", "sub-ref-2"),
+  ]);
+
+  assert.deepEqual(
+    results.map((result) => result.ok),
+    [true, false]
+  );
+  assert.equal(results[1].code, "usage_limit");
+  assert.equal(db.promo_redemptions.length, 1);
+
+  // The same member can't hold two uses either.
+  db.promo_codes[0].max_redemptions = null;
+  const again = await reserve(first, "user-1", "sub-ref-3");
+  assert.equal(again.code, "already_used");
+});
+
+test("a wallet redemption is applied to the transaction the payment wrote", async () => {
+  const { supabase, db } = createFixture({
+    walletTransactions: [
+      { id: "tx-1", user_id: "user-1", type: "subscription_payment", created_at: "2026-06-16T12:00:00.000Z" },
+      { id: "tx-2", user_id: "user-1", type: "subscription_payment", created_at: "2026-07-16T12:00:00.000Z" },
+    ],
+  });
+  const quoted = await quote(supabase);
+  const reserved = await reservePromoRedemption(supabase, {
+    quote: quoted.quote,
+    userId: "user-1",
+    tier: "premium",
+    provider: "wallet",
+    paymentReference: "wallet:pending-1",
+    now: NOW,
+  });
+
+  const redemption = await recordWalletPromoRedemption(supabase, {
+    redemption: reserved.redemption,
+    walletTransactionId: "tx-1",
+    now: NOW,
+  });
+
+  assert.equal(redemption.status, "applied");
+  assert.equal(redemption.provider, "wallet");
+  assert.equal(redemption.payment_reference, "wallet:tx-1");
+  assert.equal(db.wallet_transactions[0].promo_code_id, "promo-1");
+  assert.equal(db.wallet_transactions[1].promo_code_id, undefined);
+});
+
+test("a released wallet reservation frees the code again", async () => {
+  const { supabase, db } = createFixture();
+  const quoted = await quote(supabase);
+  const reserved = await reservePromoRedemption(supabase, {
+    quote: quoted.quote,
+    userId: "user-1",
+    tier: "premium",
+    provider: "wallet",
+    paymentReference: "wallet:pending-1",
+    now: NOW,
+  });
+  assert.equal((await quote(supabase)).code, "already_used");
+
+  await releasePromoRedemption(supabase, reserved.redemption.id);
+
+  assert.equal(db.promo_redemptions.length, 0);
+  assert.equal((await quote(supabase)).ok, true);
+});
+
+test("parsePromoCodeInput validates an admin's new code", () => {
+  const parsed = parsePromoCodeInput({
+    code: " summer-10 ",
+    discount_type: "fixed",
+    amount_off_cents: 1000,
+    currency: "ngn",
+    tiers: ["Premium", "premium"],
+    max_redemptions: "50",
+    expires_at: "2026-08-01T00:00:00.000Z",
+  });
+
+  assert.equal(parsed.ok, true);
+  assert.equal(parsed.values.code, "SUMMER-10");
+  assert.equal(parsed.values.currency, "ngn");
+  assert.deepEqual(parsed.values.tiers, ["premium"]);
+  assert.equal(parsed.values.max_redemptions, 50);
+  assert.equal(parsed.values.max_redemptions_per_user, 1);
+
+  assert.equal(parsePromoCodeInput({ code: "X", discount_type: "percent", percent_off: 10 }).ok, false);
+  assert.equal(parsePromoCodeInput({ code: "HALF", discount_type: "percent", percent_off: 150 }).ok, false);
+  assert.equal(parsePromoCodeInput({ code: "FREE", discount_type: "percent", percent_off: 100 }).ok, false);
+  assert.equal(parsePromoCodeInput({ code: "NEARLY", discount_type: "percent", percent_off: 99 }).ok, true);
+  assert.equal(parsePromoCodeInput({ code: "FLAT", discount_type: "fixed", amount_off_cents: 500 }).ok, false);
+  assert.equal(
+    parsePromoCodeInput({ code: "GOLD", discount_type: "percent", percent_off: 10, tiers: ["gold"] }).ok,
+    false
+  );
+  assert.equal(
+    parsePromoCodeInput({
+      code: "BACKWARDS",
+      discount_type: "percent",
+      percent_off: 10,
+      starts_at: "2026-08-01T00:00:00.000Z",
+      expires_at: "2026-07-01T00:00:00.000Z",
+    }).ok,
+    false
+  );
+});
+
+test("summarizePromoRedemptions totals applied redemptions per code and currency", () => {
+  const usage = summarizePromoRedemptions([
+    { promo_code_id: "a", status: "applied", currency: "usd", discount_cents: 500, amount_cents: 2000 },
+    { promo_code_id: "a", status: "applied", currency: "NGN", discount_cents: 100000, amount_cents: 400000 },
+    { promo_code_id: "a", status: "pending", currency: "usd", discount_cents: 500, amount_cents: 2000 },
+    { promo_code_id: "b", status: "applied", currency: "usd", discount_cents: 300, amount_cents: 700 },
+  ]);
+
+  assert.deepEqual(usage.a, {
+    redemptions: 2,
+    discountCents: { usd: 500, ngn: 100000 },
+    revenueCents: { usd: 2000, ngn: 400000 },
+  });
+  assert.equal(usage.b.redemptions, 1);
+});
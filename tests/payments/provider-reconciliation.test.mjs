@@ -0,0 +1,521 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  importProviderExport,
+  parseProviderExport,
+  repairReconciliationItem,
+} from "../../src/lib/payments/provider-reconciliation.ts";
+
+const UNIQUE_KEYS = { ledger_transactions: "idempotency_key" };
+const COLUMN_DEFAULTS = { payment_reconciliation_items: { resolution: "open" } };
+
+class MockQuery {
+  constructor(db, table) {
+    this.db = db;
+    this.table = table;
+    this.filters = [];
+    this.operation = "select";
+    this.payload = null;
+    this.orderBy = null;
+    this.rowLimit = null;
+    this.rowRange = null;
+  }
+
+  select() {
+    if (this.operation === "update") {
+      this.operation = "update-select";
+    } else if (this.operation !== "insert") {
+      this.operation = "select";
+    }
+    return this;
+  }
+
+  update(payload) {
+    this.operation = "update";
+    this.payload = payload;
+    return this;
+  }
+
+  insert(payload) {
+    this.operation = "insert";
+    this.payload = payload;
+    return this;
+  }
+
+  upsert(payload) {
+    this.operation = "upsert";
+    this.payload = payload;
+    return this;
+  }
+
+  delete() {
+    this.operation = "delete";
+    return this;
+  }
+
+  eq(column, value) {
+    this.filters.push((row) => row[column] === value);
+    return this;
+  }
+
+  neq(column, value) {
+    this.filters.push((row) => row[column] !== value);
+    return this;
+  }
+
+  in(column, values) {
+    this.filters.push((row) => values.includes(row[column]));
+    return this;
+  }
+
+  order(column, { ascending = true } = {}) {
+    this.orderBy = { column, ascending };
+    return this;
+  }
+
+  limit(count) {
+    this.rowLimit = count;
+    return this;
+  }
+
+  range(from, to) {
+    this.rowRange = [from, to];
+    return this;
+  }
+
+  async maybeSingle() {
+    const result = await this.execute();
+    const rows = Array.isArray(result.data) ? result.data : [];
+    return { data: rows[0] || null, error: result.error };
+  }
+
+  async single() {
+    const result = await this.execute();
+    const rows = Array.isArray(result.data) ? result.data : [];
+    return rows[0]
+      ? { data: rows[0], error: null }
+      : { data: null, error: result.error || { code: "PGRST116" } };
+  }
+
+  then(resolve, reject) {
+    return this.execute().then(resolve, reject);
+  }
+
+  async execute() {
+    const rows = (this.db[this.table] ||= []);
+    let matches = rows.filter((row) => this.filters.every((filter) => filter(row)));
+
+    if (this.operation === "select") {
+      if (this.orderBy) {
+        const { column, ascending } = this.orderBy;
+        matches = [...matches].sort((a, b) =>
+          (a[column] > b[column] ? 1 : -1) * (ascending ? 1 : -1)
+        );
+      }
+      if (this.rowRange) matches = matches.slice(this.rowRange[0], this.rowRange[1] + 1);
+      if (this.rowLimit !== null) matches = matches.slice(0, this.rowLimit);
+      return { data: matches.map((row) => ({ ...row })), error: null };
+    }
+
+    if (this.operation === "update" || this.operation === "update-select") {
+      for (const row of matches) Object.assign(row, this.payload);
+      return { data: matches.map((row) => ({ ...row })), error: null };
+    }
+
+    if (this.operation === "upsert") {
+      const existing = rows.find((row) => row.user_id === this.payload.user_id);
+      if (existing) Object.assign(existing, this.payload);
+      else rows.push({ ...this.payload });
+      return { data: null, error: null };
+    }
+
+    if (this.operation === "delete") {
+      this.db[this.table] = rows.filter((row) => !matches.includes(row));
+      return { data: null, error: null };
+    }
+
+    const payloads = Array.isArray(this.payload) ? this.payload : [this.payload];
+    const key = UNIQUE_KEYS[this.table];
+    if (key && payloads.some((payload) => rows.some((row) => row[key] === payload[key]))) {
+      return { data: null, error: { code: "23505", message: "duplicate key" } };
+    }
+    const inserted = payloads.map((payload, index) => ({
+      id: `${this.table}-${rows.length + index + 1}`,
+      created_at: `2026-07-10T00:00:${String(rows.length + index).padStart(2, "0")}.000Z`,
+      ...COLUMN_DEFAULTS[this.table],
+      ...payload,
+    }));
+    rows.push(...inserted);
+    return { data: inserted.map((row) => ({ ...row })), error: null };
+  }
+}
+
+const NOW = new Date("2026-07-12T00:00:00.000Z");
+
+const REF = {
+  missing: "mi-paystack-v1-wallet-ngn-500000-user0001-miss",
+  duplicated: "mi-paystack-v1-wallet-ngn-200000-user0001-dupe",
+  mismatch: "mi-paystack-v1-wallet-ngn-300000-user0001-less",
+  refunded: "mi-paystack-v1-wallet-ngn-100000-user0001-refd",
+  matched: "mi-paystack-v1-wallet-ngn-150000-user0001-okay",
+  abandoned: "mi-paystack-v1-wallet-ngn-900000-user0001-gone",
+};
+
+function topup(reference, amountCents) {
+  return {
+    id: `tx-${reference.slice(-4)}-${amountCents}`,
+    user_id: "user-1",
+    type: "topup",
+    amount_cents: amountCents,
+    balance_before_cents: 0,
+    balance_after_cents: amountCents,
+    description: "Wallet top-up via Paystack",
+    reference_id: reference,
+    created_at: "2026-07-10T00:00:00.000Z",
+  };
+}
+
+function createFixture() {
+  const db = {
+    wallets: [{ user_id: "user-1", balance_cents: 20_000_00 }],
+    wallet_transactions: [
+      topup(REF.duplicated, 200000),
+      { ...topup(REF.duplicated, 200000), id: "tx-dupe-second" },
+      topup(REF.mismatch, 250000),
+      topup(REF.refunded, 100000),
+      topup(REF.matched, 150000),
+    ],
+    credits: [{ user_id: "user-1", total: 0, used: 0, rollover: 0 }],
+    credit_transactions: [],
+    subscription_checkout_processing: [],
+    subscription_tier_changes: [],
+    payment_reconciliation_imports: [],
+    payment_reconciliation_items: [],
+    payment_disputes: [],
+    memberships: [],
+    ledger_transactions: [],
+    ledger_entries: [],
+  };
+
+  const runRpc = async (name, args) => {
+    if (name === "apply_stripe_wallet_topup") {
+      const already = db.wallet_transactions.some((tx) => tx.reference_id === args.p_session_id);
+      const wallet = db.wallets.find((row) => row.user_id === args.p_user_id);
+      const before = wallet.balance_cents;
+      if (!already) {
+        wallet.balance_cents += args.p_amount_cents;
+        db.wallet_transactions.push({
+          ...topup(args.p_session_id, args.p_amount_cents),
+          balance_before_cents: before,
+          balance_after_cents: wallet.balance_cents,
+        });
+      }
+      return {
+        data: {
+          already_processed: already,
+          balance_before_cents: before,
+          balance_after_cents: wallet.balance_cents,
+        },
+        error: null,
+      };
+    }
+    throw new Error(`Unexpected rpc ${name}`);
+  };
+
+  const rpc = (name, args) => {
+    const result = runRpc(name, args);
+    return {
+      single: () => result,
+      then: (resolve, reject) => result.then(resolve, reject),
+    };
+  };
+
+  return {
+    db,
+    supabase: { from: (table) => new MockQuery(db, table), rpc },
+  };
+}
+
+// Paystack dashboard CSV: amounts in naira, quoted thousands separators.
+const PAYSTACK_CSV = [
+  "Reference,Amount,Currency,Status,Transaction Id",
+  `${REF.missing},"5,000.00",NGN,success,101`,
+  `${REF.duplicated},"2,000.00",NGN,success,102`,
+  `${REF.mismatch},"3,000.00",NGN,success,103`,
+  `${REF.refunded},"1,000.00",NGN,reversed,104`,
+  `${REF.matched},"1,500.00",NGN,success,105`,
+  `${REF.abandoned},"9,000.00",NGN,abandoned,106`,
+].join("\r\n");
+
+async function importPaystack(supabase) {
+  return importProviderExport(
+    supabase,
+    { provider: "paystack", content: PAYSTACK_CSV, fileName: "paystack.csv", importedBy: "admin-1" },
+    { now: NOW }
+  );
+}
+
+function itemFor(db, reference) {
+  return db.payment_reconciliation_items.find((item) => item.reference === reference);
+}
+
+test("exports are read from CSV and JSON in each provider's units", () => {
+  const csv = parseProviderExport("paystack", PAYSTACK_CSV);
+  assert.equal(csv.ok, true);
+  assert.equal(csv.rows.length, 6);
+  assert.equal(csv.rows[0].amountCents, 500000);
+  assert.equal(csv.rows[3].status, "refunded");
+  assert.equal(csv.rows[3].refundedCents, 100000);
+
+  // Paystack's API JSON uses kobo; Flutterwave's uses major units.
+  const paystackJson = parseProviderExport(
+    "paystack",
+    JSON.stringify({ data: [{ id: 7, reference: REF.missing, amount: 500000, status: "success" }] })
+  );
+  assert.equal(paystackJson.rows[0].amountCents, 500000);
+
+  const flutterwaveJson = parseProviderExport(
+    "flutterwave",
+    JSON.stringify([{ id: 9, tx_ref: "mi-wallet-user0001-abc", amount: 12.5, status: "successful" }])
+  );
+  assert.equal(flutterwaveJson.rows[0].amountCents, 1250);
+  assert.equal(flutterwaveJson.rows[0].transactionId, "9");
+
+  const empty = parseProviderExport("stripe", "id,amount\n");
+  assert.equal(empty.ok, false);
+  assert.equal(empty.code, "invalid_export");
+});
+
+test("an import flags missing, duplicated, mismatched and provider-only refunds", async () => {
+  const { db, supabase } = createFixture();
+
+  const result = await importPaystack(supabase);
+
+  assert.equal(result.ok, true);
+  assert.deepEqual(result.summary, {
+    rows: 6,
+    payments: 6,
+    matched: 1,
+    missing: 1,
+    duplicated: 1,
+    amount_mismatch: 1,
+    refunded_provider_only: 1,
+    skipped: 1,
+    resolved_earlier: 0,
+    already_open: 0,
+  });
+  assert.equal(db.payment_reconciliation_items.length, 4);
+  assert.equal(itemFor(db, REF.missing).status, "missing");
+  assert.equal(itemFor(db, REF.missing).provider_transaction_id, "101");
+  assert.equal(itemFor(db, REF.duplicated).details.side, "ours");
+  assert.equal(itemFor(db, REF.mismatch).recorded_amount_cents, 250000);
+  assert.equal(itemFor(db, REF.refunded).status, "refunded_provider_only");
+  assert.equal(itemFor(db, REF.refunded).user_id, "user-1");
+});
+
+test("repairs correct the wallet once and resolved items stay resolved", async () => {
+  const { db, supabase } = createFixture();
+  await importPaystack(supabase);
+  const walletBefore = db.wallets[0].balance_cents;
+
+  // Missing: re-verified with Paystack and credited by the normal processor.
+  const replay = await repairReconciliationItem(
+    supabase,
+    { itemId: itemFor(db, REF.missing).id, action: "replay_payment", adminUserId: "admin-1" },
+    {
+      now: NOW,
+      verifyPaystackTransactionFn: async (reference) => ({
+        id: 101,
+        reference,
+        status: "success",
+        amount: 500000,
+        currency: "NGN",
+        metadata: { userId: "user-1" },
+      }),
+    }
+  );
+  assert.equal(replay.ok, true);
+  assert.equal(db.wallets[0].balance_cents, walletBefore + 500000);
+
+  const duplicate = await repairReconciliationItem(
+    supabase,
+    { itemId: itemFor(db, REF.duplicated).id, action: "reverse_duplicate", adminUserId: "admin-1" },
+    { now: NOW }
+  );
+  assert.equal(duplicate.result.wallet_adjustment_cents, -200000);
+
+  const refund = await repairReconciliationItem(
+    supabase,
+    { itemId: itemFor(db, REF.refunded).id, action: "reverse_refund", adminUserId: "admin-1" },
+    { now: NOW }
+  );
+  assert.equal(refund.result.wallet_adjustment_cents, -100000);
+  assert.equal(db.wallets[0].balance_cents, walletBefore + 500000 - 200000 - 100000);
+
+  const refundPosting = db.ledger_transactions.find((row) => row.kind === "refund");
+  assert.equal(refundPosting.idempotency_key, `payment_reconciliation:${itemFor(db, REF.refunded).id}`);
+
+  const again = await repairReconciliationItem(
+    supabase,
+    { itemId: itemFor(db, REF.refunded).id, action: "reverse_refund", adminUserId: "admin-1" },
+    { now: NOW }
+  );
+  assert.equal(again.ok, false);
+  assert.equal(again.code, "already_resolved");
+
+  const unsupported = await repairReconciliationItem(
+    supabase,
+    { itemId: itemFor(db, REF.mismatch).id, action: "reverse_refund", adminUserId: "admin-1" },
+    { now: NOW }
+  );
+  assert.equal(unsupported.code, "unsupported_action");
+
+  await repairReconciliationItem(
+    supabase,
+    { itemId: itemFor(db, REF.mismatch).id, action: "dismiss", adminUserId: "admin-1" },
+    { now: NOW }
+  );
+
+  // Re-importing the same export raises nothing new: the replayed payment now
+  // matches and every other finding was repaired or dismissed.
+  const reimport = await importPaystack(supabase);
+  assert.equal(reimport.summary.missing, 0);
+  assert.equal(reimport.summary.resolved_earlier, 3);
+  assert.equal(reimport.findings.length, 0);
+});
+
+test("refunds the dispute webhooks already clawed back are not reversed again", async () => {
+  const { db, supabase } = createFixture();
+  const clawback = {
+    id: "dispute-1",
+    provider: "paystack",
+    reference: REF.refunded,
+    wallet_clawed_back_cents: 100000,
+    credits_clawed_back: 0,
+    suspended_membership_id: null,
+    clawed_back_at: NOW.toISOString(),
+  };
+
+  db.payment_disputes.push(clawback);
+  const result = await importPaystack(supabase);
+  assert.equal(result.summary.refunded_provider_only, 0);
+  assert.equal(result.summary.matched, 2);
+  assert.equal(itemFor(db, REF.refunded), undefined);
+
+  // The refund webhook can also land after the import raised the item.
+  db.payment_disputes.length = 0;
+  db.payment_reconciliation_items.length = 0;
+  await importPaystack(supabase);
+  db.payment_disputes.push(clawback);
+  const walletBefore = db.wallets[0].balance_cents;
+
+  const refund = await repairReconciliationItem(
+    supabase,
+    { itemId: itemFor(db, REF.refunded).id, action: "reverse_refund", adminUserId: "admin-1" },
+    { now: NOW }
+  );
+  assert.equal(refund.ok, false);
+  assert.equal(refund.code, "already_consistent");
+  assert.equal(db.wallets[0].balance_cents, walletBefore);
+  assert.equal(itemFor(db, REF.refunded).resolution, "open");
+});
+
+test("overlapping exports raise a payment once and reverse its refund once", async () => {
+  const { db, supabase } = createFixture();
+  await importPaystack(supabase);
+
+  // A later export covering the same days finds the items still open.
+  const overlap = await importPaystack(supabase);
+  assert.equal(overlap.summary.already_open, 4);
+  assert.equal(overlap.findings.length, 0);
+  assert.equal(db.payment_reconciliation_items.length, 4);
+
+  // Items raised twice before the dedupe are only reversed once.
+  const first = itemFor(db, REF.refunded);
+  const second = { ...first, id: "item-refund-again" };
+  db.payment_reconciliation_items.push(second);
+  const walletBefore = db.wallets[0].balance_cents;
+
+  const refund = await repairReconciliationItem(
+    supabase,
+    { itemId: first.id, action: "reverse_refund", adminUserId: "admin-1" },
+    { now: NOW }
+  );
+  assert.equal(refund.ok, true);
+
+  const again = await repairReconciliationItem(
+    supabase,
+    { itemId: second.id, action: "reverse_refund", adminUserId: "admin-1" },
+    { now: NOW }
+  );
+  assert.equal(again.ok, false);
+  assert.equal(again.code, "already_consistent");
+  assert.equal(db.wallets[0].balance_cents, walletBefore - 100000);
+  assert.equal(second.resolution, "open");
+});
+
+test("a refunded renewal only ends the membership cycle it paid for", async () => {
+  const { db, supabase } = createFixture();
+  const reference = "in_renewal_june";
+  db.wallet_transactions.push({
+    id: "tx-renewal",
+    user_id: "user-1",
+    type: "subscription_payment",
+    amount_cents: 4999,
+    description: "Premium renewal",
+    reference_id: reference,
+    created_at: "2026-06-01T00:00:05.000Z",
+  });
+  const membership = {
+    id: "membership-1",
+    user_id: "user-1",
+    tier: "premium",
+    status: "active",
+    price_cents: 4999,
+    starts_at: "2026-07-01T00:00:00.000Z",
+    expires_at: "2026-08-01T00:00:00.000Z",
+    created_at: "2026-05-01T00:00:00.000Z",
+  };
+  db.memberships.push(membership);
+  db.payment_reconciliation_items.push({
+    id: "item-renewal",
+    provider: "paystack",
+    reference,
+    status: "refunded_provider_only",
+    record_kind: "subscription_renewal",
+    user_id: "user-1",
+    provider_amount_cents: 4999,
+    refunded_cents: 4999,
+    details: {},
+    resolution: "open",
+  });
+
+  const downgraded = [];
+  const deps = {
+    now: NOW,
+    downgradeMembershipFn: async (_supabase, row) => {
+      downgraded.push(row.id);
+      return true;
+    },
+  };
+
+  // July's cycle was paid by a later renewal, so June's refund leaves it.
+  const later = await repairReconciliationItem(
+    supabase,
+    { itemId: "item-renewal", action: "reverse_refund", adminUserId: "admin-1" },
+    deps
+  );
+  assert.equal(later.ok, true);
+  assert.deepEqual(later.result, { membership_ended: false });
+  assert.deepEqual(downgraded, []);
+
+  itemFor(db, reference).resolution = "open";
+  membership.starts_at = "2026-06-01T00:00:00.000Z";
+  const current = await repairReconciliationItem(
+    supabase,
+    { itemId: "item-renewal", action: "reverse_refund", adminUserId: "admin-1" },
+    deps
+  );
+  assert.deepEqual(current.result, { membership_ended: true });
+  assert.deepEqual(downgraded, ["membership-1"]);
+});
@@ -12,8 +12,17 @@ test("Nigeria uses NGN", () => {
   assert.equal(getApiCurrencyForCountryCode("NG"), "ngn");
 });
 
-test("international countries use USD", () => {
-  for (const countryCode of ["GB", "US", "CA", "GH", "ZA", null, undefined]) {
+test("Ghana, Kenya, South Africa, the UK and the eurozone use local currency", () => {
+  assert.equal(getCheckoutCurrencyForCountryCode("GH"), "GHS");
+  assert.equal(getCheckoutCurrencyForCountryCode("KE"), "KES");
+  assert.equal(getCheckoutCurrencyForCountryCode("za"), "ZAR");
+  assert.equal(getCheckoutCurrencyForCountryCode("GB"), "GBP");
+  assert.equal(getCheckoutCurrencyForCountryCode("DE"), "EUR");
+  assert.equal(getApiCurrencyForCountryCode("IE"), "eur");
+});
+
+test("other countries use USD", () => {
+  for (const countryCode of ["US", "CA", "CH", "EG", null, undefined]) {
     assert.equal(getCheckoutCurrencyForCountryCode(countryCode), "USD");
     assert.equal(getApiCurrencyForCountryCode(countryCode), "usd");
   }
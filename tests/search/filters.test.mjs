@@ -0,0 +1,122 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  ANY_DISTANCE_KM,
+  DEFAULT_SEARCH_FILTERS,
+  countActiveSearchFilters,
+  matchesSearchFilters,
+  normalizeSearchFilters,
+} from "../../src/lib/search/filters.ts";
+import { isBlockedLocation, isVisibleInSearch } from "../../src/lib/search/visibility.ts";
+
+const profile = {
+  name: "Ada",
+  age: 30,
+  city: "Lagos, Nigeria",
+  distanceKm: 12,
+  verified: true,
+  heightCm: 170,
+  gender: "female",
+  relationship_status: "single",
+  languages: ["English", "Yoruba"],
+  education_level: "Bachelor's degree",
+  religion: "Christianity",
+  ethnicity: "Yoruba, Igbo",
+  want_children: "yes",
+  smoking_habits: "never",
+  lastActiveAt: null,
+};
+
+test("normalizeSearchFilters fills defaults and drops invalid values", () => {
+  assert.deepEqual(normalizeSearchFilters(null), DEFAULT_SEARCH_FILTERS);
+
+  const filters = normalizeSearchFilters({
+    minAge: 60,
+    maxAge: 30,
+    distanceKm: 10_000,
+    languages: ["English", " english ", "", 3, "English"],
+    children: "sometimes",
+    sortBy: "age_desc",
+    unknown: "ignored",
+  });
+
+  assert.equal(filters.minAge, 30);
+  assert.equal(filters.maxAge, 60);
+  assert.equal(filters.distanceKm, ANY_DISTANCE_KM);
+  assert.deepEqual(filters.languages, ["English", "english"]);
+  assert.equal(filters.children, "any");
+  assert.equal(filters.sortBy, "age_desc");
+  assert.equal("unknown" in filters, false);
+});
+
+test("countActiveSearchFilters ignores defaults and sort order", () => {
+  assert.equal(countActiveSearchFilters({ ...DEFAULT_SEARCH_FILTERS, sortBy: "name" }), 0);
+  assert.equal(
+    countActiveSearchFilters({
+      ...DEFAULT_SEARCH_FILTERS,
+      city: "Lagos",
+      religions: ["Christianity"],
+      children: "no",
+    }),
+    3
+  );
+});
+
+test("matchesSearchFilters applies each saved filter", () => {
+  assert.equal(matchesSearchFilters(profile, DEFAULT_SEARCH_FILTERS), true);
+
+  const withFilters = (overrides) => ({ ...DEFAULT_SEARCH_FILTERS, ...overrides });
+  assert.equal(matchesSearchFilters(profile, withFilters({ minAge: 31 })), false);
+  assert.equal(matchesSearchFilters(profile, withFilters({ city: "lagos" })), true);
+  assert.equal(matchesSearchFilters(profile, withFilters({ city: "Abuja" })), false);
+  assert.equal(matchesSearchFilters(profile, withFilters({ distanceKm: 10 })), false);
+  assert.equal(matchesSearchFilters(profile, withFilters({ languages: ["yoruba"] })), true);
+  assert.equal(matchesSearchFilters(profile, withFilters({ ethnicities: ["Igbo"] })), true);
+  assert.equal(matchesSearchFilters(profile, withFilters({ religions: ["Islam"] })), false);
+  assert.equal(matchesSearchFilters(profile, withFilters({ children: "no" })), false);
+  assert.equal(matchesSearchFilters(profile, withFilters({ smoking: "Never" })), true);
+  assert.equal(matchesSearchFilters(profile, withFilters({ smoking: "Regularly" })), false);
+  assert.equal(matchesSearchFilters(profile, withFilters({ online: true })), false);
+});
+
+test("isVisibleInSearch enforces blocks, locations, age and account state", () => {
+  const viewer = {
+    userId: "viewer",
+    gender: "male",
+    partnerGenderPreference: "female",
+    blockedLocations: ["Abuja"],
+    blockedUserIds: new Set(["blocked"]),
+  };
+  const candidate = {
+    user_id: "candidate",
+    location: "Lagos, Nigeria",
+    date_of_birth: "1990-01-01",
+    gender: "female",
+    photos: ["photo.jpg"],
+    profile_photo_url: null,
+  };
+  const account = { account_status: "active", profile_visible: true, calendar_enabled: true };
+
+  assert.equal(isVisibleInSearch(viewer, candidate, account), true);
+  assert.equal(isVisibleInSearch(viewer, { ...candidate, user_id: "blocked" }, account), false);
+  assert.equal(isVisibleInSearch(viewer, { ...candidate, location: "Abuja, Nigeria" }, account), false);
+  assert.equal(isVisibleInSearch(viewer, { ...candidate, gender: "male" }, account), false);
+  assert.equal(isVisibleInSearch(viewer, { ...candidate, photos: [] }, account), false);
+  assert.equal(isVisibleInSearch(viewer, candidate, { ...account, profile_visible: false }), false);
+  assert.equal(isVisibleInSearch(viewer, candidate, undefined), false);
+
+  const twentyYearsAgo = new Date();
+  twentyYearsAgo.setFullYear(twentyYearsAgo.getFullYear() - 20);
+  assert.equal(
+    isVisibleInSearch(
+      viewer,
+      { ...candidate, date_of_birth: twentyYearsAgo.toISOString().slice(0, 10) },
+      account
+    ),
+    false
+  );
+
+  assert.equal(isBlockedLocation("Lagos, Nigeria", ["lagos"]), true);
+  assert.equal(isBlockedLocation(null, ["lagos"]), false);
+});
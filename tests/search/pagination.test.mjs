@@ -0,0 +1,92 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  decodeSearchCursor,
+  encodeSearchCursor,
+  orderSearchResults,
+  paginateSearchResults,
+} from "../../src/lib/search/pagination.ts";
+import { DEFAULT_SEARCH_FILTERS } from "../../src/lib/search/filters.ts";
+import {
+  buildSearchRangeGroups,
+  combineOrGroups,
+} from "../../src/lib/search/server-search.ts";
+
+const results = [
+  { user_id: "c", name: "Cleo", age: 31, matchScore: 80, updatedAt: "2026-07-01T00:00:00Z" },
+  { user_id: "a", name: "ada", age: null, matchScore: 80, updatedAt: null },
+  { user_id: "b", name: "Bisi", age: 27, matchScore: 95, updatedAt: "2026-07-03T00:00:00Z" },
+  { user_id: "d", name: "Dayo", age: 40, matchScore: 60, updatedAt: "2026-07-02T00:00:00Z" },
+];
+
+const ids = (items) => items.map((item) => item.user_id);
+
+test("orderSearchResults breaks score ties by user id", () => {
+  assert.deepEqual(ids(orderSearchResults(results, "match")), ["b", "a", "c", "d"]);
+});
+
+test("orderSearchResults puts unknown ages and dates last", () => {
+  assert.deepEqual(ids(orderSearchResults(results, "age_asc")), ["b", "c", "d", "a"]);
+  assert.deepEqual(ids(orderSearchResults(results, "age_desc")), ["d", "c", "b", "a"]);
+  assert.deepEqual(ids(orderSearchResults(results, "newest")), ["b", "d", "c", "a"]);
+  assert.deepEqual(ids(orderSearchResults(results, "name")), ["a", "b", "c", "d"]);
+});
+
+test("search cursors round-trip and reject malformed input", () => {
+  const cursor = { sortBy: "match", key: -80, userId: "a" };
+  assert.deepEqual(decodeSearchCursor(encodeSearchCursor(cursor)), cursor);
+
+  assert.equal(decodeSearchCursor(undefined), null);
+  assert.equal(decodeSearchCursor("not-a-cursor"), null);
+  assert.equal(
+    decodeSearchCursor(Buffer.from(JSON.stringify({ s: "random", k: 1, id: "a" })).toString("base64url")),
+    null
+  );
+});
+
+test("paginateSearchResults walks every result exactly once", () => {
+  const ordered = orderSearchResults(results, "match");
+
+  const first = paginateSearchResults(ordered, "match", null, 3);
+  assert.deepEqual(ids(first.items), ["b", "a", "c"]);
+  assert.ok(first.nextCursor);
+
+  const second = paginateSearchResults(ordered, "match", decodeSearchCursor(first.nextCursor), 3);
+  assert.deepEqual(ids(second.items), ["d"]);
+  assert.equal(second.nextCursor, null);
+});
+
+test("paginateSearchResults continues after the cursor when earlier results drop out", () => {
+  const ordered = orderSearchResults(results, "match");
+  const first = paginateSearchResults(ordered, "match", null, 2);
+
+  const remaining = ordered.filter((result) => result.user_id !== "b");
+  const second = paginateSearchResults(remaining, "match", decodeSearchCursor(first.nextCursor), 2);
+  assert.deepEqual(ids(second.items), ["c", "d"]);
+});
+
+test("buildSearchRangeGroups keeps rows without the filtered column", () => {
+  const now = new Date("2026-07-03T12:00:00Z");
+  const [age] = buildSearchRangeGroups(DEFAULT_SEARCH_FILTERS, null, now);
+  // The 18–23 restriction raises the youngest birth date to 24 years ago.
+  assert.equal(
+    age,
+    "date_of_birth.is.null,and(date_of_birth.lte.2002-07-04,date_of_birth.gte.1955-07-02)"
+  );
+
+  const groups = buildSearchRangeGroups(
+    { ...DEFAULT_SEARCH_FILTERS, heightMin: 160, distanceKm: 111 },
+    { latitude: 6.5, longitude: 3.4 },
+    now
+  );
+  assert.equal(groups.length, 3);
+  assert.match(groups[1], /^height_cm\.is\.null,and\(height_cm\.gte\.160,height_cm\.lte\.220\)$/);
+  assert.match(groups[2], /^latitude\.is\.null,and\(latitude\.gte\.5\.5,latitude\.lte\.7\.5,/);
+});
+
+test("combineOrGroups nests several groups under one and()", () => {
+  assert.equal(combineOrGroups([]), null);
+  assert.equal(combineOrGroups(["a.is.null"]), "a.is.null");
+  assert.equal(combineOrGroups(["a.is.null", "b.is.null"]), "and(or(a.is.null),or(b.is.null))");
+});
@@ -0,0 +1,405 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import {
+  processDueSubscriptionDowngrades,
+  processStripeSubscriptionEvent,
+} from "../../src/lib/subscription/stripe-lifecycle.ts";
+
+const UNIQUE_KEYS = { stripe_webhook_events: "event_id" };
+
+function loadEvent(name) {
+  return JSON.parse(
+    readFileSync(new URL(`./fixtures/stripe-events/${name}.json`, import.meta.url), "utf8")
+  );
+}
+
+class MockQuery {
+  constructor(db, table) {
+    this.db = db;
+    this.table = table;
+    this.filters = [];
+    this.operation = "select";
+    this.payload = null;
+    this.orderBy = null;
+    this.rowLimit = null;
+  }
+
+  select() {
+    if (this.operation === "update") {
+      this.operation = "update-select";
+    } else if (this.operation !== "insert") {
+      this.operation = "select";
+    }
+    return this;
+  }
+
+  update(payload) {
+    this.operation = "update";
+    this.payload = payload;
+    return this;
+  }
+
+  insert(payload) {
+    this.operation = "insert";
+    this.payload = payload;
+    return this;
+  }
+
+  delete() {
+    this.operation = "delete";
+    return this;
+  }
+
+  eq(column, value) {
+    this.filters.push((row) => row[column] === value);
+    return this;
+  }
+
+  lte(column, value) {
+    this.filters.push((row) => row[column] !== null && row[column] <= value);
+    return this;
+  }
+
+  order(column, { ascending = true } = {}) {
+    this.orderBy = { column, ascending };
+    return this;
+  }
+
+  limit(count) {
+    this.rowLimit = count;
+    return this;
+  }
+
+  async maybeSingle() {
+    const result = await this.execute();
+    const rows = Array.isArray(result.data) ? result.data : [];
+    return { data: rows[0] || null, error: result.error };
+  }
+
+  then(resolve, reject) {
+    return this.execute().then(resolve, reject);
+  }
+
+  async execute() {
+    const rows = (this.db[this.table] ||= []);
+    let matches = rows.filter((row) => this.filters.every((filter) => filter(row)));
+
+    if (this.operation === "select") {
+      if (this.orderBy) {
+        const { column, ascending } = this.orderBy;
+        matches = [...matches].sort((a, b) =>
+          (a[column] > b[column] ? 1 : -1) * (ascending ? 1 : -1)
+        );
+      }
+      if (this.rowLimit !== null) matches = matches.slice(0, this.rowLimit);
+      return { data: matches.map((row) => ({ ...row })), error: null };
+    }
+
+    if (this.operation === "update" || this.operation === "update-select") {
+      for (const row of matches) Object.assign(row, this.payload);
+      return { data: null, error: null };
+    }
+
+    if (this.operation === "delete") {
+      this.db[this.table] = rows.filter((row) => !matches.includes(row));
+      return { data: null, error: null };
+    }
+
+    const key = UNIQUE_KEYS[this.table];
+    if (key && rows.some((row) => row[key] === this.payload[key])) {
+      return { data: null, error: { code: "23505", message: "duplicate key" } };
+    }
+    rows.push({ id: `${this.table}-${rows.length + 1}`, ...this.payload });
+    return { data: null, error: null };
+  }
+}
+
+function createFixture(membershipOverrides = {}) {
+  const db = {
+    accounts: [{ id: "user-ada", email: "ada@example.com", display_name: "Ada Lovelace", tier: "premium" }],
+    memberships: [
+      {
+        id: "membership-1",
+        user_id: "user-ada",
+        tier: "premium",
+        status: "active",
+        starts_at: "2026-07-01T00:00:00.000Z",
+        expires_at: "2026-08-01T00:00:00.000Z",
+        price_cents: 1999,
+        stripe_subscription_id: "sub_1PremiumMonthly",
+        stripe_customer_id: "cus_Ada",
+        billing_status: "current",
+        scheduled_downgrade_at: null,
+        grace_period_ends_at: null,
+        payment_failed_count: 0,
+        stripe_event_at: null,
+        canceled_at: null,
+        created_at: "2026-07-01T00:00:00.000Z",
+        ...membershipOverrides,
+      },
+    ],
+    subscription_checkout_processing: [],
+    wallets: [{ user_id: "user-ada", balance_cents: 500 }],
+    wallet_transactions: [],
+    stripe_webhook_events: [],
+  };
+
+  const calls = { allocations: [], allocationKeys: [], dunning: [], ended: [], tracked: [] };
+  const deps = {
+    now: new Date("2026-08-01T01:00:00.000Z"),
+    allocateSubscriptionCreditsFn: async (_supabase, userId, tier, options) => {
+      // Mirrors the allocation claim: one allocation per idempotency key.
+      if (calls.allocationKeys.includes(options?.idempotencyKey)) {
+        return { creditsToAdd: 10, rolloverAdded: 0, alreadyAllocated: true };
+      }
+      calls.allocationKeys.push(options?.idempotencyKey);
+      calls.allocations.push({ userId, tier });
+      return { creditsToAdd: 10, rolloverAdded: 0, alreadyAllocated: false };
+    },
+    sendSubscriptionPaymentFailedEmailFn: async (to, data) => {
+      calls.dunning.push({ to, ...data });
+      return { success: true };
+    },
+    sendSubscriptionEndedEmailFn: async (to, data) => {
+      calls.ended.push({ to, ...data });
+      return { success: true };
+    },
+    trackCustomerEventFn: async (userId, name) => {
+      calls.tracked.push(name);
+    },
+  };
+
+  return {
+    db,
+    calls,
+    deps,
+    supabase: { from: (table) => new MockQuery(db, table) },
+    membership: () => db.memberships[0],
+  };
+}
+
+test("a renewal invoice extends the membership and allocates credits once", async () => {
+  const { supabase, db, deps, calls, membership } = createFixture();
+  const event = loadEvent("invoice.paid.renewal");
+
+  const result = await processStripeSubscriptionEvent(supabase, event, deps);
+  assert.equal(result.handled, true);
+  assert.equal(membership().starts_at, "2026-08-01T00:00:00.000Z");
+  assert.equal(membership().expires_at, "2026-09-01T00:00:00.000Z");
+  assert.deepEqual(calls.allocations, [{ userId: "user-ada", tier: "premium" }]);
+  assert.equal(db.wallet_transactions.length, 1);
+  assert.equal(db.wallet_transactions[0].reference_id, "in_1AugRenewal");
+  assert.equal(db.wallet_transactions[0].amount_cents, 1999);
+
+  // Stripe redelivers the same event, then a new event for the same invoice.
+  const replay = await processStripeSubscriptionEvent(supabase, event, deps);
+  assert.equal(replay.alreadyProcessed, true);
+  const resent = await processStripeSubscriptionEvent(
+    supabase,
+    { ...event, id: "evt_1RenewalPaidResent" },
+    deps
+  );
+  assert.equal(resent.alreadyProcessed, true);
+  assert.equal(calls.allocations.length, 1);
+  assert.equal(db.wallet_transactions.length, 1);
+});
+
+test("a renewal whose credit allocation fails is processed again on retry", async () => {
+  const { supabase, db, deps, calls } = createFixture();
+  const event = loadEvent("invoice.paid.renewal");
+  const allocate = deps.allocateSubscriptionCreditsFn;
+  deps.allocateSubscriptionCreditsFn = async () => {
+    throw new Error("credits unavailable");
+  };
+
+  await assert.rejects(processStripeSubscriptionEvent(supabase, event, deps), /credits unavailable/);
+  assert.equal(db.wallet_transactions.length, 0);
+  assert.equal(db.stripe_webhook_events.length, 0);
+
+  deps.allocateSubscriptionCreditsFn = allocate;
+  const retry = await processStripeSubscriptionEvent(supabase, event, deps);
+  assert.equal(retry.handled, true);
+  assert.notEqual(retry.alreadyProcessed, true);
+  assert.deepEqual(calls.allocations, [{ userId: "user-ada", tier: "premium" }]);
+  assert.equal(db.wallet_transactions.length, 1);
+});
+
+test("a renewal whose payment row fails does not allocate the cycle again on retry", async () => {
+  const { supabase, db, deps, calls } = createFixture();
+  const event = loadEvent("invoice.paid.renewal");
+  const from = supabase.from;
+  let failInsert = true;
+  supabase.from = (table) => {
+    const query = from(table);
+    if (table === "wallet_transactions") {
+      const execute = query.execute.bind(query);
+      query.execute = async () => {
+        if (query.operation === "insert" && failInsert) {
+          failInsert = false;
+          return { data: null, error: { message: "insert failed" } };
+        }
+        return execute();
+      };
+    }
+    return query;
+  };
+
+  await assert.rejects(processStripeSubscriptionEvent(supabase, event, deps));
+  assert.equal(db.wallet_transactions.length, 0);
+
+  const retry = await processStripeSubscriptionEvent(supabase, event, deps);
+  assert.equal(retry.handled, true);
+  assert.deepEqual(calls.allocationKeys, ["subscription_renewal:in_1AugRenewal"]);
+  assert.equal(calls.allocations.length, 1);
+  assert.equal(db.wallet_transactions.length, 1);
+});
+
+test("cancelling schedules a downgrade that the cron applies at period end", async () => {
+  const { supabase, db, deps, calls, membership } = createFixture({
+    expires_at: "2026-09-01T00:00:00.000Z",
+  });
+
+  await processStripeSubscriptionEvent(
+    supabase,
+    loadEvent("customer.subscription.updated.cancel-at-period-end"),
+    deps
+  );
+  assert.equal(membership().billing_status, "canceling");
+  assert.equal(membership().scheduled_downgrade_at, "2026-09-01T00:00:00.000Z");
+  assert.equal(membership().status, "active");
+
+  const early = await processDueSubscriptionDowngrades(supabase, {
+    ...deps,
+    now: new Date("2026-08-20T00:00:00.000Z"),
+  });
+  assert.equal(early.downgraded, 0);
+  assert.equal(db.accounts[0].tier, "premium");
+
+  const due = await processDueSubscriptionDowngrades(supabase, {
+    ...deps,
+    now: new Date("2026-09-01T00:05:00.000Z"),
+  });
+  assert.equal(due.downgraded, 1);
+  assert.equal(membership().status, "canceled");
+  assert.equal(membership().billing_status, "canceled");
+  assert.equal(db.accounts[0].tier, "basic");
+  assert.equal(calls.ended.length, 1);
+  assert.equal(calls.ended[0].to, "ada@example.com");
+
+  // The deletion Stripe sends at period end finds nothing left to do.
+  const deleted = await processStripeSubscriptionEvent(
+    supabase,
+    loadEvent("customer.subscription.deleted"),
+    deps
+  );
+  assert.equal(deleted.alreadyProcessed, true);
+  assert.equal(calls.ended.length, 1);
+});
+
+test("an out-of-order cancellation does not override a later resume", async () => {
+  const { supabase, deps, membership } = createFixture({
+    expires_at: "2026-09-01T00:00:00.000Z",
+  });
+
+  await processStripeSubscriptionEvent(
+    supabase,
+    loadEvent("customer.subscription.updated.resumed"),
+    deps
+  );
+  const stale = await processStripeSubscriptionEvent(
+    supabase,
+    loadEvent("customer.subscription.updated.cancel-at-period-end"),
+    deps
+  );
+
+  assert.equal(stale.alreadyProcessed, true);
+  assert.equal(membership().billing_status, "current");
+  assert.equal(membership().scheduled_downgrade_at, null);
+});
+
+test("stored event times in Postgres format are compared as instants", async () => {
+  const event = loadEvent("customer.subscription.updated.cancel-at-period-end");
+  // An hour after the event, but sorts before "2026-08-10T09:00:00.000Z" as a string.
+  const { supabase, deps, membership } = createFixture({
+    expires_at: "2026-09-01T00:00:00.000Z",
+    stripe_event_at: "2026-08-10 10:00:00+00",
+  });
+
+  const stale = await processStripeSubscriptionEvent(supabase, event, deps);
+  assert.equal(stale.alreadyProcessed, true);
+  assert.equal(membership().billing_status, "current");
+});
+
+test("a deleted subscription downgrades immediately", async () => {
+  const { supabase, db, deps, calls, membership } = createFixture();
+
+  await processStripeSubscriptionEvent(supabase, loadEvent("customer.subscription.deleted"), deps);
+
+  assert.equal(membership().status, "canceled");
+  assert.equal(db.accounts[0].tier, "basic");
+  assert.ok(calls.tracked.includes("subscription_cancelled"));
+  assert.equal(calls.ended[0].tierName, "Premium");
+});
+
+test("failed payments keep access through a grace period with dunning emails", async () => {
+  const { supabase, db, deps, calls, membership } = createFixture();
+
+  await processStripeSubscriptionEvent(
+    supabase,
+    loadEvent("invoice.payment_failed.first-attempt"),
+    deps
+  );
+  assert.equal(membership().billing_status, "past_due");
+  assert.equal(membership().payment_failed_count, 1);
+  assert.equal(membership().grace_period_ends_at, "2026-08-08T01:00:00.000Z");
+  assert.equal(membership().expires_at, "2026-08-08T01:00:00.000Z");
+  assert.equal(calls.dunning.length, 1);
+  assert.equal(calls.dunning[0].attemptCount, 1);
+  assert.ok(calls.dunning[0].nextAttemptDate);
+
+  // A retry that also fails keeps the original grace deadline.
+  await processStripeSubscriptionEvent(
+    supabase,
+    loadEvent("invoice.payment_failed.second-attempt"),
+    { ...deps, now: new Date("2026-08-04T01:05:00.000Z") }
+  );
+  assert.equal(membership().payment_failed_count, 2);
+  assert.equal(membership().grace_period_ends_at, "2026-08-08T01:00:00.000Z");
+  assert.equal(calls.dunning.length, 2);
+
+  const lapsed = await processDueSubscriptionDowngrades(supabase, {
+    ...deps,
+    now: new Date("2026-08-08T02:00:00.000Z"),
+  });
+  assert.equal(lapsed.downgraded, 1);
+  assert.equal(db.accounts[0].tier, "basic");
+
+  // A late successful retry restores the plan.
+  await processStripeSubscriptionEvent(supabase, loadEvent("invoice.paid.renewal"), deps);
+  assert.equal(membership().status, "active");
+  assert.equal(membership().billing_status, "current");
+  assert.equal(membership().grace_period_ends_at, null);
+  assert.equal(membership().payment_failed_count, 0);
+  assert.equal(db.accounts[0].tier, "premium");
+});
+
+test("memberships from before Stripe ids were stored are linked via the checkout", async () => {
+  const { supabase, db, deps, membership } = createFixture({
+    stripe_subscription_id: null,
+    stripe_customer_id: null,
+  });
+  db.subscription_checkout_processing.push({
+    session_id: "cs_test_1",
+    user_id: "user-ada",
+    stripe_subscription_id: "sub_1PremiumMonthly",
+  });
+
+  const event = loadEvent("invoice.paid.renewal");
+  event.data.object.parent.subscription_details.metadata = {};
+  await processStripeSubscriptionEvent(supabase, event, deps);
+
+  assert.equal(membership().stripe_subscription_id, "sub_1PremiumMonthly");
+  assert.equal(membership().stripe_customer_id, "cus_Ada");
+  assert.equal(membership().expires_at, "2026-09-01T00:00:00.000Z");
+});
@@ -0,0 +1,462 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  calculateTierChangeQuote,
+  changeTierWithWallet,
+  completeTierChange,
+  createTierChange,
+  linkTierChangePaymentReference,
+  quoteTierChange,
+} from "../../src/lib/subscription/tier-change.ts";
+import { processSubscriptionFlutterwavePayment } from "../../src/lib/subscription/checkout-processing.ts";
+
+class MockQuery {
+  constructor(db, table) {
+    this.db = db;
+    this.table = table;
+    this.filters = [];
+    this.operation = "select";
+    this.payload = null;
+    this.orderBy = null;
+    this.rowLimit = null;
+  }
+
+  select() {
+    if (this.operation === "update") {
+      this.operation = "update-select";
+    } else if (this.operation !== "insert") {
+      this.operation = "select";
+    }
+    return this;
+  }
+
+  update(payload) {
+    this.operation = "update";
+    this.payload = payload;
+    return this;
+  }
+
+  insert(payload) {
+    this.operation = "insert";
+    this.payload = payload;
+    return this;
+  }
+
+  upsert(payload) {
+    this.operation = "upsert";
+    this.payload = payload;
+    return this;
+  }
+
+  eq(column, value) {
+    this.filters.push((row) => row[column] === value);
+    return this;
+  }
+
+  in(column, values) {
+    this.filters.push((row) => values.includes(row[column]));
+    return this;
+  }
+
+  order(column, { ascending = true } = {}) {
+    this.orderBy = { column, ascending };
+    return this;
+  }
+
+  limit(count) {
+    this.rowLimit = count;
+    return this;
+  }
+
+  async maybeSingle() {
+    const result = await this.execute();
+    const rows = Array.isArray(result.data) ? result.data : [];
+    return { data: rows[0] || null, error: result.error };
+  }
+
+  async single() {
+    const result = await this.execute();
+    const rows = Array.isArray(result.data) ? result.data : [];
+    return rows[0]
+      ? { data: rows[0], error: null }
+      : { data: null, error: result.error || { code: "PGRST116" } };
+  }
+
+  then(resolve, reject) {
+    return this.execute().then(resolve, reject);
+  }
+
+  async execute() {
+    const rows = (this.db[this.table] ||= []);
+    let matches = rows.filter((row) => this.filters.every((filter) => filter(row)));
+
+    if (this.operation === "select") {
+      if (this.orderBy) {
+        const { column, ascending } = this.orderBy;
+        matches = [...matches].sort((a, b) =>
+          (a[column] > b[column] ? 1 : -1) * (ascending ? 1 : -1)
+        );
+      }
+      if (this.rowLimit !== null) matches = matches.slice(0, this.rowLimit);
+      return { data: matches.map((row) => ({ ...row })), error: null };
+    }
+
+    if (this.operation === "update" || this.operation === "update-select") {
+      for (const row of matches) Object.assign(row, this.payload);
+      return {
+        data: this.operation === "update" ? null : matches.map((row) => ({ ...row })),
+        error: null,
+      };
+    }
+
+    if (this.operation === "upsert") {
+      const existing = rows.find((row) => row.user_id === this.payload.user_id);
+      if (existing) Object.assign(existing, this.payload);
+      else rows.push({ ...this.payload });
+      return { data: null, error: null };
+    }
+
+    const inserted = { id: `${this.table}-${rows.length + 1}`, ...this.payload };
+    rows.push(inserted);
+    return { data: [{ ...inserted }], error: null };
+  }
+}
+
+const NOW = new Date("2026-07-21T00:00:00.000Z");
+
+function createFixture({ tier = "standard", priceCents = 1999, walletCents = 0 } = {}) {
+  const db = {
+    accounts: [{ id: "user-1", tier }],
+    memberships: [
+      {
+        id: "membership-1",
+        user_id: "user-1",
+        tier,
+        status: "active",
+        starts_at: "2026-07-01T00:00:00.000Z",
+        expires_at: "2026-07-31T00:00:00.000Z",
+        price_cents: priceCents,
+        currency: "usd",
+        stripe_subscription_id: null,
+        stripe_customer_id: null,
+        billing_status: "current",
+        created_at: "2026-07-01T00:00:00.000Z",
+      },
+    ],
+    subscription_pricing: [],
+    subscription_tier_changes: [],
+    subscription_checkout_processing: [],
+    credits: [{ user_id: "user-1", total: 10, used: 4, rollover: 0 }],
+    credit_transactions: [],
+    wallets: [{ user_id: "user-1", balance_cents: walletCents }],
+    wallet_transactions: [],
+  };
+
+  return {
+    db,
+    supabase: {
+      from: (table) => new MockQuery(db, table),
+      async rpc(name, params) {
+        assert.equal(name, "apply_wallet_adjustment");
+        return { data: [applyWalletAdjustment(db, params)], error: null };
+      },
+    },
+    deps: { now: NOW, trackCustomerEventFn: async () => undefined },
+  };
+}
+
+/** apply_wallet_adjustment, run synchronously the way the row lock serialises it. */
+function applyWalletAdjustment(db, params) {
+  let wallet = db.wallets.find((row) => row.user_id === params.p_user_id);
+  if (!wallet) {
+    wallet = { user_id: params.p_user_id, balance_cents: 0 };
+    db.wallets.push(wallet);
+  }
+  const existing = db.wallet_transactions.find(
+    (row) =>
+      row.user_id === params.p_user_id &&
+      row.type === params.p_type &&
+      row.reference_id === params.p_reference_id
+  );
+  if (existing) {
+    return {
+      applied: true,
+      balance_before: existing.balance_before_cents,
+      balance_after: existing.balance_after_cents,
+      transaction_id: existing.id,
+    };
+  }
+
+  const before = wallet.balance_cents;
+  const after = before + params.p_delta_cents;
+  if (after < 0) {
+    return { applied: false, balance_before: before, balance_after: before, transaction_id: null };
+  }
+  wallet.balance_cents = after;
+  const id = `wallet_transactions-${db.wallet_transactions.length + 1}`;
+  db.wallet_transactions.push({
+    id,
+    user_id: params.p_user_id,
+    type: params.p_type,
+    amount_cents: params.p_amount_cents,
+    balance_before_cents: before,
+    balance_after_cents: after,
+    description: params.p_description,
+    reference_id: params.p_reference_id,
+  });
+  return { applied: true, balance_before: before, balance_after: after, transaction_id: id };
+}
+
+test("quotes credit the unused share of the cycle toward the new tier", () => {
+  // One third of a 30-day cycle is left.
+  const upgrade = calculateTierChangeQuote({
+    fromTier: "standard",
+    toTier: "premium",
+    currency: "usd",
+    currentPriceCents: 1999,
+    targetPriceCents: 3499,
+    periodStartsAt: "2026-07-01T00:00:00.000Z",
+    periodEndsAt: "2026-07-31T00:00:00.000Z",
+    now: NOW,
+  });
+  assert.equal(upgrade.direction, "upgrade");
+  assert.equal(upgrade.unusedCreditCents, 666);
+  assert.equal(upgrade.amountDueCents, 3499 - 666);
+  assert.equal(upgrade.walletCreditCents, 0);
+  assert.equal(upgrade.unusedAllowanceCredits, 3);
+
+  // Leaving VIP early: the unused time exceeds the new price, so the rest
+  // goes to the wallet, and the unlimited allowance is taken back in full.
+  const downgrade = calculateTierChangeQuote({
+    fromTier: "vip",
+    toTier: "premium",
+    currency: "usd",
+    currentPriceCents: 100000,
+    targetPriceCents: 3499,
+    periodStartsAt: "2026-07-01T00:00:00.000Z",
+    periodEndsAt: "2026-07-31T00:00:00.000Z",
+    now: NOW,
+  });
+  assert.equal(downgrade.direction, "downgrade");
+  assert.equal(downgrade.amountDueCents, 0);
+  assert.equal(downgrade.creditAppliedCents, 3499);
+  assert.equal(downgrade.walletCreditCents, 33333 - 3499);
+  assert.equal(downgrade.unusedAllowanceCredits, null);
+});
+
+test("a wallet-paid upgrade charges the prorated amount and adjusts credits", async () => {
+  const { db, supabase, deps } = createFixture({ walletCents: 5000 });
+
+  const quoteResult = await quoteTierChange(supabase, {
+    userId: "user-1",
+    targetTier: "premium",
+    now: NOW,
+  });
+  assert.equal(quoteResult.ok, true);
+
+  const result = await changeTierWithWallet(supabase, quoteResult, deps);
+  assert.equal(result.ok, true);
+  assert.equal(result.tier, "premium");
+
+  assert.equal(db.wallets[0].balance_cents, 5000 - (3499 - 666));
+  assert.equal(db.accounts[0].tier, "premium");
+  assert.equal(db.memberships[0].tier, "premium");
+  assert.equal(db.memberships[0].price_cents, 3499);
+  assert.equal(db.memberships[0].starts_at, NOW.toISOString());
+
+  // 6 standard credits were left; 3 of them belonged to the unused third of
+  // the cycle and are taken back before the premium allowance is added.
+  assert.equal(db.credits[0].total, 30);
+  assert.equal(db.credits[0].used, 0);
+  assert.equal(db.credits[0].rollover, 3);
+  assert.equal(db.subscription_tier_changes[0].status, "completed");
+  assert.equal(db.subscription_tier_changes[0].credits_clawed_back, 3);
+
+  const repeat = await completeTierChange(supabase, db.subscription_tier_changes[0], {}, deps);
+  assert.equal(repeat.alreadyProcessed, true);
+  assert.equal(db.wallets[0].balance_cents, 5000 - (3499 - 666));
+});
+
+test("a wallet that cannot cover the change leaves the plan untouched", async () => {
+  const { db, supabase, deps } = createFixture({ walletCents: 100 });
+  const quoteResult = await quoteTierChange(supabase, {
+    userId: "user-1",
+    targetTier: "premium",
+    now: NOW,
+  });
+
+  const result = await changeTierWithWallet(supabase, quoteResult, deps);
+
+  assert.equal(result.ok, false);
+  assert.equal(result.status, 402);
+  assert.equal(db.accounts[0].tier, "standard");
+  assert.equal(db.wallets[0].balance_cents, 100);
+  assert.equal(db.subscription_tier_changes[0].status, "failed");
+});
+
+test("a change that fails after the wallet charge is resumed without charging again", async () => {
+  const { db, supabase, deps } = createFixture({ walletCents: 5000 });
+  const from = supabase.from;
+  let failMembership = true;
+  supabase.from = (table) => {
+    const query = from(table);
+    if (table === "memberships") {
+      const execute = query.execute.bind(query);
+      query.execute = async () => {
+        if (query.operation === "update" && failMembership) {
+          failMembership = false;
+          return { data: null, error: { message: "membership write failed" } };
+        }
+        return execute();
+      };
+    }
+    return query;
+  };
+
+  const quoteResult = await quoteTierChange(supabase, {
+    userId: "user-1",
+    targetTier: "premium",
+    now: NOW,
+  });
+  await assert.rejects(changeTierWithWallet(supabase, quoteResult, deps), {
+    message: "membership write failed",
+  });
+  assert.equal(db.subscription_tier_changes[0].status, "failed");
+  assert.equal(db.wallets[0].balance_cents, 5000 - (3499 - 666));
+
+  // The member tries again: the charged change is finished, not repeated.
+  const retryQuote = await quoteTierChange(supabase, {
+    userId: "user-1",
+    targetTier: "premium",
+    now: NOW,
+  });
+  const result = await changeTierWithWallet(supabase, retryQuote, deps);
+
+  assert.equal(result.ok, true);
+  assert.equal(result.tierChangeId, db.subscription_tier_changes[0].id);
+  assert.equal(db.subscription_tier_changes.length, 1);
+  assert.equal(db.subscription_tier_changes[0].status, "completed");
+  assert.equal(db.wallets[0].balance_cents, 5000 - (3499 - 666));
+  assert.equal(
+    db.wallet_transactions.filter((row) => row.type === "subscription_payment").length,
+    1
+  );
+  assert.equal(db.memberships[0].tier, "premium");
+  assert.equal(db.credits[0].total, 30);
+  assert.equal(db.credits[0].rollover, 3);
+});
+
+test("a downgrade needs no payment and credits surplus time to the wallet", async () => {
+  const { db, supabase, deps } = createFixture({ tier: "premium", priceCents: 3499 });
+  db.credits[0] = { user_id: "user-1", total: 30, used: 0, rollover: 0 };
+
+  const quoteResult = await quoteTierChange(supabase, {
+    userId: "user-1",
+    targetTier: "basic",
+    now: NOW,
+  });
+  assert.equal(quoteResult.quote.amountDueCents, 0);
+  assert.equal(quoteResult.quote.walletCreditCents, 1166 - 999);
+
+  const result = await changeTierWithWallet(supabase, quoteResult, deps);
+  assert.equal(result.ok, true);
+  assert.equal(db.wallets[0].balance_cents, 167);
+  assert.equal(db.wallet_transactions[0].type, "subscription_proration_credit");
+  assert.equal(db.accounts[0].tier, "basic");
+  assert.equal(db.credits[0].total, 5);
+  // 20 premium credits were left after the clawback; plan credits carry over
+  // only up to one basic allocation.
+  assert.equal(db.credits[0].rollover, 5);
+});
+
+test("plans billed outside the wallet currencies are not paid from the wallet", async () => {
+  const { db, supabase, deps } = createFixture({ priceCents: 250000, walletCents: 900000 });
+  db.memberships[0].currency = "kes";
+
+  const quoteResult = await quoteTierChange(supabase, {
+    userId: "user-1",
+    targetTier: "premium",
+    now: NOW,
+  });
+  assert.equal(quoteResult.quote.currency, "kes");
+
+  const result = await changeTierWithWallet(supabase, quoteResult, deps);
+  assert.equal(result.ok, false);
+  assert.equal(result.status, 402);
+  assert.equal(result.code, "wallet_currency_unsupported");
+  assert.equal(db.wallets[0].balance_cents, 900000);
+  assert.equal(db.subscription_tier_changes.length, 0);
+  assert.equal(db.accounts[0].tier, "standard");
+});
+
+test("a downgrade surplus outside the wallet currencies is never credited to the wallet", async () => {
+  const { db, supabase, deps } = createFixture({ tier: "vip", priceCents: 100000 });
+  db.memberships[0].currency = "gbp";
+
+  const hosted = await quoteTierChange(supabase, { userId: "user-1", targetTier: "basic", now: NOW });
+  assert.equal(hosted.ok, false);
+  assert.equal(hosted.code, "surplus_unsupported");
+
+  // Stripe keeps the surplus on the customer balance instead.
+  db.memberships[0].stripe_subscription_id = "sub_1";
+  const quoteResult = await quoteTierChange(supabase, {
+    userId: "user-1",
+    targetTier: "basic",
+    now: NOW,
+  });
+  assert.equal(quoteResult.quote.amountDueCents, 0);
+  assert.equal(quoteResult.quote.walletCreditCents, 0);
+
+  const change = await createTierChange(supabase, { ...quoteResult, provider: "stripe" });
+  assert.equal(change.wallet_credit_cents, 0);
+  const result = await completeTierChange(supabase, change, { paymentCurrency: "gbp" }, deps);
+
+  assert.equal(result.ok, true);
+  assert.equal(result.walletCreditCents, 0);
+  assert.equal(db.wallets[0].balance_cents, 0);
+  assert.equal(
+    db.wallet_transactions.some((row) => row.type === "subscription_proration_credit"),
+    false
+  );
+});
+
+test("a hosted checkout for a plan change completes the change, not a new plan", async () => {
+  const { db, supabase } = createFixture();
+  const quoteResult = await quoteTierChange(supabase, {
+    userId: "user-1",
+    targetTier: "premium",
+    now: NOW,
+  });
+  const change = await createTierChange(supabase, {
+    membership: quoteResult.membership,
+    quote: quoteResult.quote,
+    provider: "paystack",
+  });
+  await linkTierChangePaymentReference(supabase, change.id, "mi-paystack-v1-ref");
+
+  const underpaid = await completeTierChange(
+    supabase,
+    { ...change, payment_reference: "mi-paystack-v1-ref" },
+    { amountPaidCents: 100, paymentCurrency: "USD" }
+  );
+  assert.equal(underpaid.ok, false);
+  assert.equal(underpaid.code, "payment_mismatch");
+
+  const result = await processSubscriptionFlutterwavePayment(supabase, {
+    transactionId: "txn-1",
+    txRef: "mi-paystack-v1-ref",
+    userId: "user-1",
+    tier: "premium",
+    amountCents: quoteResult.quote.amountDueCents,
+    currency: "USD",
+    status: "successful",
+    provider: "paystack",
+  });
+
+  assert.equal(result.success, true);
+  assert.equal(result.message, "Plan changed successfully.");
+  assert.equal(db.memberships[0].tier, "premium");
+  assert.equal(db.memberships[0].price_cents, 3499);
+  assert.equal(db.subscription_tier_changes[0].status, "completed");
+  assert.equal(db.subscription_checkout_processing[0].status, "completed");
+});
@@ -0,0 +1,312 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  hashVideoJoinToken,
+  issueVideoJoinToken,
+  measureDisconnectGraceMinutes,
+  recordVideoAttendance,
+} from "../../src/lib/video/attendance.ts";
+import {
+  createWebRtcVideoProvider,
+  createZoomVideoProvider,
+  getMeetingVideoRoomId,
+  resolveVideoProviderId,
+} from "../../src/lib/video/providers.ts";
+import { buildMeetingVideoLinkUpdate } from "../../src/lib/meetings/video-link.ts";
+
+class MockQuery {
+  constructor(db, table) {
+    this.db = db;
+    this.table = table;
+    this.filters = [];
+    this.operation = "select";
+    this.payload = null;
+  }
+
+  select() {
+    if (this.operation === "update") {
+      this.operation = "update-select";
+    } else if (this.operation !== "insert") {
+      this.operation = "select";
+    }
+    return this;
+  }
+
+  update(payload) {
+    this.operation = "update";
+    this.payload = payload;
+    return this;
+  }
+
+  insert(payload) {
+    this.operation = "insert";
+    this.payload = payload;
+    return this;
+  }
+
+  eq(column, value) {
+    this.filters.push((row) => row[column] === value);
+    return this;
+  }
+
+  async maybeSingle() {
+    const result = await this.execute();
+    const rows = Array.isArray(result.data) ? result.data : [];
+    return { data: rows[0] || null, error: result.error };
+  }
+
+  async single() {
+    const result = await this.execute();
+    const rows = Array.isArray(result.data) ? result.data : [];
+    return rows[0]
+      ? { data: rows[0], error: null }
+      : { data: null, error: result.error || { code: "PGRST116" } };
+  }
+
+  then(resolve, reject) {
+    return this.execute().then(resolve, reject);
+  }
+
+  async execute() {
+    const rows = this.db[this.table];
+    const matches = rows.filter((row) => this.filters.every((filter) => filter(row)));
+
+    if (this.operation === "select") {
+      return { data: matches.map((row) => ({ ...row })), error: null };
+    }
+
+    if (this.operation === "update" || this.operation === "update-select") {
+      for (const row of matches) {
+        Object.assign(row, this.payload);
+      }
+      return {
+        data: this.operation === "update" ? null : matches.map((row) => ({ ...row })),
+        error: null,
+      };
+    }
+
+    const inserted = {
+      id: `${this.table}-${rows.length + 1}`,
+      joined_at: null,
+      last_seen_at: null,
+      left_at: null,
+      ...this.payload,
+    };
+    rows.push(inserted);
+    return { data: [{ ...inserted }], error: null };
+  }
+}
+
+function createSupabase(db) {
+  return { from: (table) => new MockQuery(db, table) };
+}
+
+function at(minute, second = 0) {
+  return new Date(Date.UTC(2026, 6, 10, 18, minute, second));
+}
+
+function session(userId, joined, left, lastSeen = left) {
+  return {
+    id: `${userId}-${joined}`,
+    meeting_id: "meeting-1",
+    user_id: userId,
+    role: userId === "host-1" ? "host" : "guest",
+    token_expires_at: at(0).toISOString(),
+    joined_at: at(joined).toISOString(),
+    last_seen_at: lastSeen === null ? null : at(lastSeen).toISOString(),
+    left_at: left === null ? null : at(left).toISOString(),
+  };
+}
+
+test("join tokens are stored hashed and redeemed once by their owner", async () => {
+  const db = { meeting_video_attendance: [] };
+  const supabase = createSupabase(db);
+
+  const { token } = await issueVideoJoinToken(supabase, {
+    meetingId: "meeting-1",
+    userId: "guest-1",
+    role: "guest",
+    now: at(0),
+  });
+  assert.equal(db.meeting_video_attendance[0].token_hash, hashVideoJoinToken(token));
+  assert.equal(JSON.stringify(db.meeting_video_attendance).includes(token), false);
+
+  const stranger = await recordVideoAttendance(supabase, {
+    meetingId: "meeting-1",
+    userId: "someone-else",
+    token,
+    event: "join",
+    now: at(1),
+  });
+  assert.equal(stranger.ok, false);
+  assert.equal(stranger.code, "invalid_token");
+
+  const joined = await recordVideoAttendance(supabase, {
+    meetingId: "meeting-1",
+    userId: "guest-1",
+    token,
+    event: "join",
+    now: at(1),
+  });
+  assert.equal(joined.ok, true);
+  assert.equal(joined.attendance.joined_at, at(1).toISOString());
+
+  const rejoined = await recordVideoAttendance(supabase, {
+    meetingId: "meeting-1",
+    userId: "guest-1",
+    token,
+    event: "join",
+    now: at(9),
+  });
+  assert.equal(rejoined.ok, true);
+  assert.equal(rejoined.applied, false);
+  assert.equal(db.meeting_video_attendance[0].joined_at, at(1).toISOString());
+
+  await recordVideoAttendance(supabase, {
+    meetingId: "meeting-1",
+    userId: "guest-1",
+    token,
+    event: "leave",
+    now: at(12),
+  });
+  const lateHeartbeat = await recordVideoAttendance(supabase, {
+    meetingId: "meeting-1",
+    userId: "guest-1",
+    token,
+    event: "heartbeat",
+    now: at(13),
+  });
+  assert.equal(lateHeartbeat.ok, false);
+  assert.equal(lateHeartbeat.code, "connection_closed");
+  assert.equal(db.meeting_video_attendance[0].left_at, at(12).toISOString());
+});
+
+test("expired join tokens cannot start a connection", async () => {
+  const db = { meeting_video_attendance: [] };
+  const supabase = createSupabase(db);
+  const { token } = await issueVideoJoinToken(supabase, {
+    meetingId: "meeting-1",
+    userId: "guest-1",
+    role: "guest",
+    now: at(0),
+  });
+
+  const result = await recordVideoAttendance(supabase, {
+    meetingId: "meeting-1",
+    userId: "guest-1",
+    token,
+    event: "join",
+    now: at(6),
+  });
+
+  assert.equal(result.ok, false);
+  assert.equal(result.status, 410);
+  assert.equal(db.meeting_video_attendance[0].joined_at, null);
+});
+
+test("grace period counts how long the host stayed while the guest was gone", () => {
+  const now = at(30);
+
+  // Guest dropped at 10 and never came back; host stayed until 16.
+  assert.equal(
+    measureDisconnectGraceMinutes(
+      [session("host-1", 0, 16), session("guest-1", 0, 10)],
+      { absentUserId: "guest-1", waiterId: "host-1", now }
+    ),
+    6
+  );
+
+  // Guest reconnected two minutes later on a new token.
+  assert.equal(
+    measureDisconnectGraceMinutes(
+      [session("host-1", 0, 25), session("guest-1", 0, 10), session("guest-1", 12, 25)],
+      { absentUserId: "guest-1", waiterId: "host-1", now }
+    ),
+    2
+  );
+
+  // Host walked out a minute after the drop, so the wait was short.
+  assert.equal(
+    measureDisconnectGraceMinutes(
+      [session("host-1", 0, 11), session("guest-1", 0, 10)],
+      { absentUserId: "guest-1", waiterId: "host-1", now }
+    ),
+    1
+  );
+
+  // A guest who never joined is a no-show, not a disconnect.
+  assert.equal(
+    measureDisconnectGraceMinutes([session("host-1", 0, 20)], {
+      absentUserId: "guest-1",
+      waiterId: "host-1",
+      now,
+    }),
+    null
+  );
+});
+
+test("a connection that stops sending heartbeats counts as dropped", () => {
+  const now = at(20);
+  const records = [
+    // Host is still connected and heartbeating.
+    session("host-1", 0, null, 20),
+    // Guest's tab vanished without a leave; last heartbeat at 14.
+    session("guest-1", 0, null, 14),
+  ];
+
+  assert.equal(
+    measureDisconnectGraceMinutes(records, {
+      absentUserId: "guest-1",
+      waiterId: "host-1",
+      now,
+    }),
+    6
+  );
+});
+
+test("providers build room updates for their own columns", async () => {
+  assert.equal(resolveVideoProviderId(undefined), "zoom");
+  assert.equal(resolveVideoProviderId(" WebRTC "), "webrtc");
+
+  const webrtcRoom = await createWebRtcVideoProvider().createRoom({
+    meetingId: "meeting-1",
+    topic: "MatchIndeed: Ada & Ben",
+    startTime: at(0).toISOString(),
+  });
+  assert.equal(webrtcRoom.success, true);
+  assert.match(webrtcRoom.join_url, /\/dashboard\/meetings\/room\/meeting-1$/);
+  assert.match(webrtcRoom.room_id, /^[0-9a-f]{32}$/);
+
+  const webrtcUpdate = buildMeetingVideoLinkUpdate(webrtcRoom);
+  assert.equal(webrtcUpdate.video_provider, "webrtc");
+  assert.equal(webrtcUpdate.video_room_id, webrtcRoom.room_id);
+  assert.equal(webrtcUpdate.zoom_meeting_id, null);
+  assert.equal(getMeetingVideoRoomId(webrtcUpdate), webrtcRoom.room_id);
+
+  const deleted = [];
+  const zoom = createZoomVideoProvider({
+    createZoomMeetingFn: async () => ({
+      success: true,
+      join_url: "https://zoom.example/j/42",
+      meeting_id: 42,
+      password: "secret",
+    }),
+    deleteZoomMeetingFn: async (id) => {
+      deleted.push(id);
+      return true;
+    },
+  });
+  const zoomRoom = await zoom.createRoom({
+    meetingId: "meeting-1",
+    topic: "MatchIndeed: Ada & Ben",
+    startTime: at(0).toISOString(),
+  });
+  const zoomUpdate = buildMeetingVideoLinkUpdate(zoomRoom);
+  assert.equal(zoomUpdate.video_provider, "zoom");
+  assert.equal(zoomUpdate.zoom_meeting_id, "42");
+  assert.equal(zoomUpdate.video_room_id, null);
+  assert.equal(getMeetingVideoRoomId(zoomUpdate), "42");
+
+  await zoom.deleteRoom("42");
+  assert.deepEqual(deleted, ["42"]);
+});